@@ -134,6 +134,8 @@ const corsOptions = {
 const REQUEST_LIMITS_OPTIONS = {
   urlencoded: { extended: false, limit: "50kb" },
   json: { limit: "50kb" },
+  // Bank statement files are sent as text in the import body
+  statementJson: { limit: "5mb" },
 } as const;
 
 const app: express.Application = express();
@@ -152,6 +154,10 @@ if (isProduction()) app.use(generalRateLimiter);
 app.use(helmetMiddleware);
 app.use(sessionMiddleware);
 app.use(express.urlencoded(REQUEST_LIMITS_OPTIONS.urlencoded));
+app.use(
+  `${env.API_PREFIX}/transactions/imports`,
+  express.json(REQUEST_LIMITS_OPTIONS.statementJson)
+);
 app.use(express.json(REQUEST_LIMITS_OPTIONS.json));
 app.use(cookieParser());
 app.use(cors(corsOptions));
@@ -120,6 +120,74 @@ const envSchema = z.object({
     .default('5000')
     .transform(Number)
     .pipe(z.number().min(1000)),
+
+  // Scheduled reversal queue configuration
+  REVERSAL_QUEUE_ATTEMPTS: z
+    .string()
+    .default('5')
+    .transform(Number)
+    .pipe(z.number().min(1).max(10)),
+  REVERSAL_QUEUE_BACKOFF_DELAY: z
+    .string()
+    .default('60000')
+    .transform(Number)
+    .pipe(z.number().min(1000)),
+  REVERSAL_SCAN_CRON: z.string().default('0 * * * *'),
+
+  // Recurring journal queue configuration
+  RECURRING_QUEUE_ATTEMPTS: z
+    .string()
+    .default('5')
+    .transform(Number)
+    .pipe(z.number().min(1).max(10)),
+  RECURRING_QUEUE_BACKOFF_DELAY: z
+    .string()
+    .default('60000')
+    .transform(Number)
+    .pipe(z.number().min(1000)),
+  RECURRING_SCAN_CRON: z.string().default('15 * * * *'),
+
+  // FX revaluation queue configuration
+  FX_REVALUATION_QUEUE_ATTEMPTS: z
+    .string()
+    .default('5')
+    .transform(Number)
+    .pipe(z.number().min(1).max(10)),
+  FX_REVALUATION_QUEUE_BACKOFF_DELAY: z
+    .string()
+    .default('60000')
+    .transform(Number)
+    .pipe(z.number().min(1000)),
+  FX_REVALUATION_SCAN_CRON: z.string().default('30 2 * * *'),
+
+  // Document storage configuration
+  DOCUMENT_STORAGE_DRIVER: z.enum(['local', 's3']).default('local'),
+  DOCUMENT_STORAGE_LOCAL_PATH: z.string().default('storage/documents'),
+  DOCUMENT_S3_BUCKET: z.string().optional(),
+  DOCUMENT_S3_REGION: z.string().optional(),
+  DOCUMENT_S3_ENDPOINT: z.string().url().optional(),
+  DOCUMENT_S3_FORCE_PATH_STYLE: z
+    .string()
+    .default('false')
+    .transform((val) => val === 'true'),
+  DOCUMENT_S3_ACCESS_KEY_ID: z.string().optional(),
+  DOCUMENT_S3_SECRET_ACCESS_KEY: z.string().optional(),
+  DOCUMENT_MAX_FILE_SIZE_MB: z
+    .string()
+    .default('25')
+    .transform(Number)
+    .pipe(z.number().min(1).max(500)),
+  DOCUMENT_TENANT_QUOTA_MB: z
+    .string()
+    .default('1024')
+    .transform(Number)
+    .pipe(z.number().min(1)),
+  DOCUMENT_URL_SECRET: z.string().default('document-url-secret'),
+  DOCUMENT_URL_EXPIRY_SECONDS: z
+    .string()
+    .default('300')
+    .transform(Number)
+    .pipe(z.number().min(30).max(86400)),
 })
 
 /**
@@ -408,6 +408,93 @@ const swaggerOptions: swaggerJsdoc.Options = {
             'updatedAt',
           ],
         },
+        ChartOfAccountTemplate: {
+          type: 'object',
+          description:
+            'Industry chart of accounts template; the version is raised whenever its accounts change',
+          properties: {
+            key: {
+              type: 'string',
+              enum: [
+                'general_small_business',
+                'dental_clinic',
+                'professional_services',
+                'retail',
+                'non_profit',
+              ],
+              example: 'dental_clinic',
+            },
+            version: {
+              type: 'integer',
+              example: 1,
+            },
+            name: {
+              type: 'string',
+              example: 'Dental Clinic',
+            },
+            description: {
+              type: 'string',
+              example:
+                'For dental and other healthcare practices billing patients and insurers',
+            },
+            accountCount: {
+              type: 'integer',
+              example: 53,
+            },
+          },
+          required: ['key', 'version', 'name', 'description', 'accountCount'],
+        },
+        ChartOfAccountMerge: {
+          type: 'object',
+          description:
+            'Merge of a source account into a target account; the balances are the target account balances after the merge',
+          properties: {
+            sourceAccount: {
+              $ref: '#/components/schemas/ChartOfAccountMergeAccount',
+            },
+            targetAccount: {
+              $ref: '#/components/schemas/ChartOfAccountMergeAccount',
+            },
+            counts: {
+              type: 'object',
+              description:
+                'Rows moved from the source account, including soft-deleted rows',
+              properties: {
+                journalEntryLines: { type: 'integer', example: 12 },
+                balanceHistory: { type: 'integer', example: 8 },
+                childAccounts: { type: 'integer', example: 0 },
+                approvalRules: { type: 'integer', example: 0 },
+                references: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      table: { type: 'string', example: 'bill_lines' },
+                      column: { type: 'string', example: 'account_id' },
+                      count: { type: 'integer', example: 3 },
+                    },
+                  },
+                },
+              },
+            },
+            openingBalance: { type: 'number', example: 0 },
+            currentBalance: { type: 'number', example: 1250.75 },
+          },
+        },
+        ChartOfAccountMergeAccount: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', format: 'uuid' },
+            accountNumber: { type: 'string', nullable: true, example: '6100' },
+            accountName: { type: 'string', example: 'Office Supplies' },
+            accountType: { type: 'string', example: 'expense' },
+            currencyCode: { type: 'string', example: 'CAD' },
+            openingBalance: { type: 'number' },
+            currentBalance: { type: 'number' },
+            isActive: { type: 'boolean' },
+            deletedAt: { type: 'string', format: 'date-time', nullable: true },
+          },
+        },
         User: {
           type: 'object',
           properties: {
@@ -864,6 +951,151 @@ const swaggerOptions: swaggerJsdoc.Options = {
           },
           required: ['success', 'statusCode', 'message', 'data'],
         },
+        ImportRowError: {
+          type: 'object',
+          properties: {
+            row: {
+              type: 'integer',
+              description: 'File row number; the header row is row 1',
+              example: 4,
+            },
+            message: {
+              type: 'string',
+              example: 'Parent account "Bank Accounts" not found',
+            },
+          },
+          required: ['row', 'message'],
+        },
+        ChartOfAccountImportAccount: {
+          type: 'object',
+          properties: {
+            row: { type: 'integer', example: 2 },
+            id: {
+              type: 'string',
+              format: 'uuid',
+              nullable: true,
+              description: 'Null when the import was not committed',
+            },
+            accountNumber: { type: 'string', nullable: true, example: '1010' },
+            accountName: { type: 'string', example: 'Checking' },
+            fullName: {
+              type: 'string',
+              description: 'Name as written in the file, with parents',
+              example: 'Bank Accounts:Checking',
+            },
+            accountType: {
+              type: 'string',
+              enum: ['asset', 'liability', 'equity', 'revenue', 'expense'],
+            },
+            accountSubtype: {
+              type: 'string',
+              nullable: true,
+              example: 'current_asset',
+            },
+            accountDetailType: {
+              type: 'string',
+              nullable: true,
+              example: 'Checking',
+            },
+            parentAccountId: { type: 'string', format: 'uuid', nullable: true },
+            openingBalance: { type: 'number', example: 1500 },
+          },
+        },
+        ChartOfAccountImportResponse: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean', example: true },
+            statusCode: { type: 'integer', example: 201 },
+            message: {
+              type: 'string',
+              example: 'Chart of accounts imported successfully',
+            },
+            data: {
+              type: 'object',
+              properties: {
+                dryRun: { type: 'boolean', example: false },
+                imported: { type: 'boolean', example: true },
+                totalRows: { type: 'integer', example: 25 },
+                validRows: { type: 'integer', example: 25 },
+                errors: {
+                  type: 'array',
+                  items: {
+                    $ref: '#/components/schemas/ImportRowError',
+                  },
+                },
+                accounts: {
+                  type: 'array',
+                  items: {
+                    $ref: '#/components/schemas/ChartOfAccountImportAccount',
+                  },
+                },
+              },
+            },
+          },
+          required: ['success', 'statusCode', 'message'],
+        },
+        JournalEntryImportEntry: {
+          type: 'object',
+          properties: {
+            rows: {
+              type: 'array',
+              description: 'File rows of the entry lines',
+              items: { type: 'integer' },
+              example: [2, 3],
+            },
+            id: {
+              type: 'string',
+              format: 'uuid',
+              nullable: true,
+              description: 'Null when the import was not committed',
+            },
+            entryNumber: { type: 'string', nullable: true, example: 'JE-0001' },
+            entryDate: {
+              type: 'string',
+              format: 'date',
+              example: '2024-01-15',
+            },
+            status: { type: 'string', enum: ['draft', 'posted'] },
+            totalDebit: { type: 'number', example: 1500 },
+            totalCredit: { type: 'number', example: 1500 },
+            lineCount: { type: 'integer', example: 2 },
+          },
+        },
+        JournalEntryImportResponse: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean', example: true },
+            statusCode: { type: 'integer', example: 201 },
+            message: {
+              type: 'string',
+              example: 'Journal entries imported successfully',
+            },
+            data: {
+              type: 'object',
+              properties: {
+                dryRun: { type: 'boolean', example: false },
+                allOrNothing: { type: 'boolean', example: true },
+                imported: { type: 'boolean', example: true },
+                totalRows: { type: 'integer', example: 240 },
+                totalEntries: { type: 'integer', example: 80 },
+                validEntries: { type: 'integer', example: 80 },
+                errors: {
+                  type: 'array',
+                  items: {
+                    $ref: '#/components/schemas/ImportRowError',
+                  },
+                },
+                entries: {
+                  type: 'array',
+                  items: {
+                    $ref: '#/components/schemas/JournalEntryImportEntry',
+                  },
+                },
+              },
+            },
+          },
+          required: ['success', 'statusCode', 'message'],
+        },
         AuditLog: {
           type: 'object',
           properties: {
@@ -993,6 +1225,2456 @@ const swaggerOptions: swaggerJsdoc.Options = {
             'createdAt',
           ],
         },
+        ReportAccountNode: {
+          type: 'object',
+          properties: {
+            accountId: {
+              type: 'string',
+              format: 'uuid',
+            },
+            accountNumber: {
+              type: 'string',
+              nullable: true,
+              example: '1000',
+            },
+            accountName: {
+              type: 'string',
+              example: 'Cash',
+            },
+            accountType: {
+              type: 'string',
+              enum: ['asset', 'liability', 'equity', 'revenue', 'expense'],
+            },
+            accountSubtype: {
+              type: 'string',
+              nullable: true,
+              example: 'current_asset',
+            },
+            balance: {
+              type: 'number',
+              description: "Account's own balance",
+              example: 1500,
+            },
+            total: {
+              type: 'number',
+              description: 'Balance including all sub-accounts',
+              example: 2500,
+            },
+            children: {
+              type: 'array',
+              items: {
+                $ref: '#/components/schemas/ReportAccountNode',
+              },
+            },
+          },
+        },
+        CashFlowSection: {
+          type: 'object',
+          properties: {
+            activity: {
+              type: 'string',
+              enum: ['operating', 'investing', 'financing'],
+            },
+            lines: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  accountId: {
+                    type: 'string',
+                    format: 'uuid',
+                  },
+                  accountNumber: {
+                    type: 'string',
+                    nullable: true,
+                  },
+                  accountName: {
+                    type: 'string',
+                  },
+                  accountType: {
+                    type: 'string',
+                    enum: ['asset', 'liability', 'equity'],
+                  },
+                  accountSubtype: {
+                    type: 'string',
+                    nullable: true,
+                  },
+                  amount: {
+                    type: 'number',
+                    description:
+                      'Cash effect of the account change (positive is an inflow)',
+                    example: -2500,
+                  },
+                },
+              },
+            },
+            total: {
+              type: 'number',
+            },
+          },
+        },
+        FiscalPeriod: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string',
+              format: 'uuid',
+            },
+            fiscalYearId: {
+              type: 'string',
+              format: 'uuid',
+            },
+            periodNumber: {
+              type: 'integer',
+              example: 1,
+            },
+            name: {
+              type: 'string',
+              example: 'Jan 2025',
+            },
+            startDate: {
+              type: 'string',
+              format: 'date',
+              example: '2025-01-01',
+            },
+            endDate: {
+              type: 'string',
+              format: 'date',
+              example: '2025-01-31',
+            },
+            status: {
+              type: 'string',
+              enum: ['open', 'soft_closed', 'hard_closed'],
+            },
+            closedBy: {
+              type: 'string',
+              format: 'uuid',
+              nullable: true,
+            },
+            closedAt: {
+              type: 'string',
+              format: 'date-time',
+              nullable: true,
+            },
+          },
+        },
+        FiscalYear: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string',
+              format: 'uuid',
+            },
+            name: {
+              type: 'string',
+              example: 'FY 2025',
+            },
+            startDate: {
+              type: 'string',
+              format: 'date',
+              example: '2025-01-01',
+            },
+            endDate: {
+              type: 'string',
+              format: 'date',
+              example: '2025-12-31',
+            },
+            periodType: {
+              type: 'string',
+              enum: ['monthly', 'quarterly'],
+            },
+            periods: {
+              type: 'array',
+              items: {
+                $ref: '#/components/schemas/FiscalPeriod',
+              },
+            },
+            isClosed: {
+              type: 'boolean',
+              description:
+                'Whether a posted closing entry has zeroed revenue and expenses into retained earnings',
+            },
+            closingEntryId: {
+              type: 'string',
+              format: 'uuid',
+              nullable: true,
+            },
+            closingEntryNumber: {
+              type: 'string',
+              nullable: true,
+              example: 'JE-2026-014',
+            },
+            createdAt: {
+              type: 'string',
+              format: 'date-time',
+            },
+            updatedAt: {
+              type: 'string',
+              format: 'date-time',
+            },
+          },
+        },
+        RecurringJournalTemplate: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string',
+              format: 'uuid',
+            },
+            name: {
+              type: 'string',
+              example: 'Monthly office rent',
+            },
+            entryType: {
+              type: 'string',
+              enum: ['standard', 'adjusting'],
+            },
+            isAdjusting: {
+              type: 'boolean',
+            },
+            description: {
+              type: 'string',
+              nullable: true,
+            },
+            reference: {
+              type: 'string',
+              nullable: true,
+            },
+            memo: {
+              type: 'string',
+              nullable: true,
+            },
+            totalDebit: {
+              type: 'number',
+            },
+            totalCredit: {
+              type: 'number',
+            },
+            frequency: {
+              type: 'string',
+              enum: ['daily', 'weekly', 'monthly', 'yearly'],
+            },
+            interval: {
+              type: 'integer',
+              example: 1,
+              description: 'Number of frequency units between occurrences',
+            },
+            startDate: {
+              type: 'string',
+              format: 'date',
+              example: '2025-01-01',
+            },
+            endDate: {
+              type: 'string',
+              format: 'date',
+              nullable: true,
+            },
+            maxOccurrences: {
+              type: 'integer',
+              nullable: true,
+            },
+            occurrencesCount: {
+              type: 'integer',
+            },
+            nextRunDate: {
+              type: 'string',
+              format: 'date',
+              nullable: true,
+              description:
+                'Date of the next generated entry, null once the schedule completed',
+            },
+            lastRunDate: {
+              type: 'string',
+              format: 'date',
+              nullable: true,
+            },
+            autoPost: {
+              type: 'boolean',
+              description:
+                'Whether generated entries are posted instead of left as drafts',
+            },
+            status: {
+              type: 'string',
+              enum: ['active', 'paused', 'completed'],
+            },
+            lastError: {
+              type: 'string',
+              nullable: true,
+            },
+            lines: {
+              type: 'array',
+              description: 'Only included when fetching a single template',
+              items: {
+                type: 'object',
+                properties: {
+                  id: {
+                    type: 'string',
+                    format: 'uuid',
+                  },
+                  accountId: {
+                    type: 'string',
+                    format: 'uuid',
+                  },
+                  accountNumber: {
+                    type: 'string',
+                    nullable: true,
+                  },
+                  accountName: {
+                    type: 'string',
+                    nullable: true,
+                  },
+                  lineNumber: {
+                    type: 'integer',
+                  },
+                  debit: {
+                    type: 'number',
+                  },
+                  credit: {
+                    type: 'number',
+                  },
+                  description: {
+                    type: 'string',
+                    nullable: true,
+                  },
+                  memo: {
+                    type: 'string',
+                    nullable: true,
+                  },
+                },
+              },
+            },
+          },
+        },
+        RecurringJournalTemplateLineInput: {
+          type: 'object',
+          required: ['accountId', 'lineNumber'],
+          properties: {
+            accountId: {
+              type: 'string',
+              format: 'uuid',
+            },
+            lineNumber: {
+              type: 'integer',
+              minimum: 1,
+            },
+            debit: {
+              type: 'number',
+              minimum: 0,
+              default: 0,
+            },
+            credit: {
+              type: 'number',
+              minimum: 0,
+              default: 0,
+            },
+            description: {
+              type: 'string',
+            },
+            memo: {
+              type: 'string',
+            },
+            contactId: {
+              type: 'string',
+              format: 'uuid',
+              nullable: true,
+            },
+            contact: {
+              type: 'object',
+              nullable: true,
+              properties: {
+                id: { type: 'string', format: 'uuid' },
+                displayName: { type: 'string' },
+              },
+            },
+          },
+        },
+        JournalApprovalRule: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string',
+              format: 'uuid',
+            },
+            name: {
+              type: 'string',
+              example: 'Entries over 10,000',
+            },
+            description: {
+              type: 'string',
+              nullable: true,
+            },
+            minAmount: {
+              type: 'number',
+              nullable: true,
+              description:
+                'Entries with a total debit of at least this amount match',
+            },
+            accountIds: {
+              type: 'array',
+              items: {
+                type: 'string',
+                format: 'uuid',
+              },
+              description:
+                'Entries with a line on any of these accounts match (empty matches all)',
+            },
+            requiredRole: {
+              type: 'string',
+              enum: ['superadmin', 'admin', 'accountant', 'bookkeeper'],
+            },
+            requiredApprovals: {
+              type: 'integer',
+              minimum: 1,
+            },
+            stepOrder: {
+              type: 'integer',
+              minimum: 1,
+            },
+            isActive: {
+              type: 'boolean',
+            },
+            createdBy: {
+              type: 'string',
+              format: 'uuid',
+            },
+            createdAt: {
+              type: 'string',
+              format: 'date-time',
+            },
+            updatedAt: {
+              type: 'string',
+              format: 'date-time',
+            },
+          },
+        },
+        JournalApprovalStep: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string',
+              format: 'uuid',
+            },
+            ruleId: {
+              type: 'string',
+              format: 'uuid',
+              nullable: true,
+            },
+            ruleName: {
+              type: 'string',
+            },
+            stepNumber: {
+              type: 'integer',
+              minimum: 1,
+            },
+            requiredRole: {
+              type: 'string',
+            },
+            requiredApprovals: {
+              type: 'integer',
+              minimum: 1,
+            },
+            approvalsCount: {
+              type: 'integer',
+              minimum: 0,
+            },
+            status: {
+              type: 'string',
+              enum: ['pending', 'approved', 'rejected', 'cancelled'],
+            },
+            completedAt: {
+              type: 'string',
+              format: 'date-time',
+              nullable: true,
+            },
+            createdAt: {
+              type: 'string',
+              format: 'date-time',
+            },
+          },
+        },
+        JournalApprovalAction: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string',
+              format: 'uuid',
+            },
+            stepId: {
+              type: 'string',
+              format: 'uuid',
+              nullable: true,
+            },
+            action: {
+              type: 'string',
+              enum: ['submitted', 'approved', 'rejected'],
+            },
+            userId: {
+              type: 'string',
+              format: 'uuid',
+            },
+            comment: {
+              type: 'string',
+              nullable: true,
+            },
+            createdAt: {
+              type: 'string',
+              format: 'date-time',
+            },
+          },
+        },
+        JournalApprovalEntry: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string',
+              format: 'uuid',
+            },
+            entryNumber: {
+              type: 'string',
+              nullable: true,
+            },
+            entryDate: {
+              type: 'string',
+              format: 'date',
+            },
+            description: {
+              type: 'string',
+              nullable: true,
+            },
+            status: {
+              type: 'string',
+              enum: ['draft', 'posted', 'voided'],
+            },
+            approvalStatus: {
+              type: 'string',
+              enum: ['pending', 'approved', 'rejected', 'not_required'],
+              nullable: true,
+              description: 'Null if the entry was never submitted',
+            },
+            totalDebit: {
+              type: 'number',
+            },
+            totalCredit: {
+              type: 'number',
+            },
+            createdBy: {
+              type: 'string',
+              format: 'uuid',
+            },
+            submittedBy: {
+              type: 'string',
+              format: 'uuid',
+              nullable: true,
+            },
+            submittedAt: {
+              type: 'string',
+              format: 'date-time',
+              nullable: true,
+            },
+            approvedBy: {
+              type: 'string',
+              format: 'uuid',
+              nullable: true,
+            },
+            approvedAt: {
+              type: 'string',
+              format: 'date-time',
+              nullable: true,
+            },
+          },
+        },
+        YearEndClosingPreview: {
+          type: 'object',
+          properties: {
+            fiscalYearId: {
+              type: 'string',
+              format: 'uuid',
+            },
+            fiscalYearName: {
+              type: 'string',
+              example: 'FY 2025',
+            },
+            closingDate: {
+              type: 'string',
+              format: 'date',
+              example: '2025-12-31',
+            },
+            retainedEarningsAccount: {
+              type: 'object',
+              properties: {
+                id: { type: 'string', format: 'uuid' },
+                accountNumber: { type: 'string', nullable: true },
+                accountName: { type: 'string' },
+              },
+            },
+            lines: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  accountId: { type: 'string', format: 'uuid' },
+                  accountNumber: { type: 'string', nullable: true },
+                  accountName: { type: 'string' },
+                  accountType: {
+                    type: 'string',
+                    enum: ['revenue', 'expense'],
+                  },
+                  balance: {
+                    type: 'number',
+                    description:
+                      'Balance in the natural direction of the account',
+                  },
+                  debit: { type: 'number' },
+                  credit: { type: 'number' },
+                },
+              },
+            },
+            totalRevenue: {
+              type: 'number',
+            },
+            totalExpenses: {
+              type: 'number',
+            },
+            netIncome: {
+              type: 'number',
+              description:
+                'Credited to retained earnings when positive, debited when negative',
+            },
+          },
+        },
+        CurrencySettings: {
+          type: 'object',
+          properties: {
+            baseCurrency: {
+              type: 'string',
+              example: 'CAD',
+            },
+            fxGainLossAccount: {
+              type: 'object',
+              nullable: true,
+              description:
+                'Account unrealized FX gains and losses are posted to; null turns scheduled revaluation off',
+              properties: {
+                id: { type: 'string', format: 'uuid' },
+                accountNumber: { type: 'string', nullable: true },
+                accountName: { type: 'string' },
+              },
+            },
+          },
+        },
+        ExchangeRate: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string',
+              format: 'uuid',
+            },
+            currencyCode: {
+              type: 'string',
+              example: 'USD',
+            },
+            rateDate: {
+              type: 'string',
+              format: 'date',
+              example: '2025-01-31',
+            },
+            rate: {
+              type: 'number',
+              description:
+                'Base currency units per one unit of the foreign currency',
+              example: 1.4382,
+            },
+            source: {
+              type: 'string',
+              enum: ['manual', 'import'],
+            },
+            createdBy: {
+              type: 'string',
+              format: 'uuid',
+            },
+            createdAt: {
+              type: 'string',
+              format: 'date-time',
+            },
+            updatedAt: {
+              type: 'string',
+              format: 'date-time',
+            },
+          },
+        },
+        ExchangeRateImportResult: {
+          type: 'object',
+          properties: {
+            created: {
+              type: 'integer',
+            },
+            updated: {
+              type: 'integer',
+              description: 'Rates replaced for an existing currency and date',
+            },
+            errors: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  row: {
+                    type: 'integer',
+                    description: 'CSV row number, counting the header as row 1',
+                  },
+                  message: { type: 'string' },
+                },
+              },
+            },
+          },
+        },
+        FxRevaluationPreview: {
+          type: 'object',
+          properties: {
+            revaluationDate: {
+              type: 'string',
+              format: 'date',
+              example: '2025-01-31',
+            },
+            baseCurrency: {
+              type: 'string',
+              example: 'CAD',
+            },
+            gainLossAccount: {
+              type: 'object',
+              properties: {
+                id: { type: 'string', format: 'uuid' },
+                accountNumber: { type: 'string', nullable: true },
+                accountName: { type: 'string' },
+              },
+            },
+            lines: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  accountId: { type: 'string', format: 'uuid' },
+                  accountNumber: { type: 'string', nullable: true },
+                  accountName: { type: 'string' },
+                  accountType: {
+                    type: 'string',
+                    enum: ['asset', 'liability'],
+                  },
+                  currencyCode: { type: 'string' },
+                  foreignBalance: { type: 'number' },
+                  exchangeRate: { type: 'number' },
+                  bookBalance: {
+                    type: 'number',
+                    description: 'Base currency balance in the ledger',
+                  },
+                  revaluedBalance: {
+                    type: 'number',
+                    description: 'Foreign balance at the revaluation rate',
+                  },
+                  adjustment: { type: 'number' },
+                },
+              },
+            },
+            totalGainLoss: {
+              type: 'number',
+              description: 'Unrealized gain when positive, loss when negative',
+            },
+            entry: {
+              type: 'object',
+              description: 'Posted revaluation entry (only when posting)',
+            },
+          },
+        },
+        BankReconciliationSummary: {
+          type: 'object',
+          properties: {
+            openingBalance: {
+              type: 'number',
+              description: 'Ending balance of the previous reconciliation',
+            },
+            statementEndingBalance: { type: 'number' },
+            clearedDeposits: { type: 'number' },
+            clearedPayments: { type: 'number' },
+            clearedCount: { type: 'integer' },
+            clearedBalance: {
+              type: 'number',
+              description:
+                'Opening balance plus cleared deposits less cleared payments',
+            },
+            difference: {
+              type: 'number',
+              description:
+                'Statement ending balance less cleared balance; must be zero to finalize',
+            },
+          },
+        },
+        BankReconciliation: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', format: 'uuid' },
+            accountId: { type: 'string', format: 'uuid' },
+            account: {
+              type: 'object',
+              nullable: true,
+              properties: {
+                id: { type: 'string', format: 'uuid' },
+                name: { type: 'string' },
+                currencyCode: { type: 'string' },
+              },
+            },
+            statementDate: {
+              type: 'string',
+              format: 'date',
+              example: '2025-12-31',
+            },
+            statementEndingBalance: { type: 'number' },
+            openingBalance: { type: 'number' },
+            status: {
+              type: 'string',
+              enum: ['in_progress', 'completed', 'undone'],
+            },
+            completedAt: {
+              type: 'string',
+              format: 'date-time',
+              nullable: true,
+            },
+            completedBy: { type: 'string', format: 'uuid', nullable: true },
+            undoneAt: { type: 'string', format: 'date-time', nullable: true },
+            undoneBy: { type: 'string', format: 'uuid', nullable: true },
+            summary: {
+              $ref: '#/components/schemas/BankReconciliationSummary',
+            },
+            createdBy: { type: 'string', format: 'uuid' },
+            createdAt: { type: 'string', format: 'date-time' },
+            updatedAt: { type: 'string', format: 'date-time' },
+          },
+        },
+        BankReconciliationLine: {
+          type: 'object',
+          properties: {
+            lineId: { type: 'string', format: 'uuid' },
+            journalEntryId: { type: 'string', format: 'uuid' },
+            entryNumber: { type: 'string', nullable: true },
+            entryDate: { type: 'string', format: 'date' },
+            description: { type: 'string', nullable: true },
+            reference: { type: 'string', nullable: true },
+            deposit: {
+              type: 'number',
+              description: 'Debit to the bank account, in its currency',
+            },
+            payment: {
+              type: 'number',
+              description: 'Credit to the bank account, in its currency',
+            },
+            isCleared: { type: 'boolean' },
+          },
+        },
+        BankReconciliationReport: {
+          type: 'object',
+          properties: {
+            accountId: { type: 'string', format: 'uuid' },
+            accountName: { type: 'string' },
+            chartOfAccountId: { type: 'string', format: 'uuid' },
+            currencyCode: { type: 'string' },
+            statementDate: { type: 'string', format: 'date' },
+            summary: {
+              $ref: '#/components/schemas/BankReconciliationSummary',
+            },
+            bookBalance: {
+              type: 'number',
+              description:
+                'Cleared balance plus outstanding deposits less outstanding payments',
+            },
+            clearedDeposits: {
+              type: 'array',
+              items: {
+                $ref: '#/components/schemas/BankReconciliationReportLine',
+              },
+            },
+            clearedPayments: {
+              type: 'array',
+              items: {
+                $ref: '#/components/schemas/BankReconciliationReportLine',
+              },
+            },
+            outstandingDeposits: {
+              type: 'array',
+              items: {
+                $ref: '#/components/schemas/BankReconciliationReportLine',
+              },
+            },
+            outstandingPayments: {
+              type: 'array',
+              items: {
+                $ref: '#/components/schemas/BankReconciliationReportLine',
+              },
+            },
+            completedBy: { type: 'string', format: 'uuid' },
+            completedAt: { type: 'string', format: 'date-time' },
+          },
+        },
+        BankReconciliationReportLine: {
+          type: 'object',
+          properties: {
+            lineId: { type: 'string', format: 'uuid' },
+            journalEntryId: { type: 'string', format: 'uuid' },
+            entryNumber: { type: 'string', nullable: true },
+            entryDate: { type: 'string', format: 'date' },
+            description: { type: 'string', nullable: true },
+            amount: { type: 'number' },
+          },
+        },
+        BankTransaction: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', format: 'uuid' },
+            accountId: { type: 'string', format: 'uuid' },
+            account: {
+              type: 'object',
+              nullable: true,
+              properties: {
+                id: { type: 'string', format: 'uuid' },
+                name: { type: 'string' },
+                currencyCode: { type: 'string' },
+              },
+            },
+            importId: { type: 'string', format: 'uuid', nullable: true },
+            transactionDate: {
+              type: 'string',
+              format: 'date',
+              example: '2025-12-15',
+            },
+            amount: {
+              type: 'number',
+              description: 'Positive for deposits, negative for payments',
+              example: -42.5,
+            },
+            currencyCode: { type: 'string', example: 'USD' },
+            description: { type: 'string', nullable: true },
+            payee: { type: 'string', nullable: true },
+            reference: { type: 'string', nullable: true },
+            fitid: { type: 'string', nullable: true },
+            status: {
+              type: 'string',
+              enum: ['uncategorized', 'categorized', 'excluded'],
+            },
+            journalEntryId: { type: 'string', format: 'uuid', nullable: true },
+            journalEntry: {
+              type: 'object',
+              nullable: true,
+              properties: {
+                id: { type: 'string', format: 'uuid' },
+                entryNumber: { type: 'string', nullable: true },
+                status: { type: 'string' },
+              },
+            },
+            categoryAccountId: {
+              type: 'string',
+              format: 'uuid',
+              nullable: true,
+            },
+            categoryAccount: {
+              type: 'object',
+              nullable: true,
+              properties: {
+                id: { type: 'string', format: 'uuid' },
+                accountNumber: { type: 'string', nullable: true },
+                accountName: { type: 'string' },
+              },
+            },
+            taxGroupId: {
+              type: 'string',
+              format: 'uuid',
+              nullable: true,
+              description: 'Tax group recorded when categorized',
+            },
+            taxGroup: {
+              type: 'object',
+              nullable: true,
+              properties: {
+                id: { type: 'string', format: 'uuid' },
+                name: { type: 'string' },
+              },
+            },
+            ruleId: {
+              type: 'string',
+              format: 'uuid',
+              nullable: true,
+              description: 'Rule that categorized the transaction in bulk',
+            },
+            suggestion: {
+              allOf: [
+                { $ref: '#/components/schemas/BankTransactionSuggestion' },
+              ],
+              nullable: true,
+              description: 'Suggested category of an uncategorized transaction',
+            },
+            categorizedAt: {
+              type: 'string',
+              format: 'date-time',
+              nullable: true,
+            },
+            categorizedBy: { type: 'string', format: 'uuid', nullable: true },
+            createdBy: { type: 'string', format: 'uuid' },
+            createdAt: { type: 'string', format: 'date-time' },
+            updatedAt: { type: 'string', format: 'date-time' },
+          },
+        },
+        BankTransactionSuggestion: {
+          type: 'object',
+          properties: {
+            categoryAccountId: { type: 'string', format: 'uuid' },
+            taxGroupId: { type: 'string', format: 'uuid', nullable: true },
+            source: {
+              type: 'string',
+              enum: ['rule', 'history'],
+              description:
+                'rule: a categorization rule matched; history: learned from similar categorized transactions',
+            },
+            ruleId: { type: 'string', format: 'uuid', nullable: true },
+            confidence: {
+              type: 'integer',
+              minimum: 0,
+              maximum: 100,
+              description:
+                '100 for rules; for history, grows with how many similar transactions agree (at most 95)',
+              example: 75,
+            },
+            matchCount: {
+              type: 'integer',
+              description:
+                'Similar transactions categorized to the suggested account',
+            },
+          },
+        },
+        BankRuleCondition: {
+          type: 'object',
+          required: ['field', 'operator', 'value'],
+          properties: {
+            field: {
+              type: 'string',
+              enum: ['description', 'payee', 'reference', 'amount'],
+            },
+            operator: {
+              type: 'string',
+              enum: [
+                'contains',
+                'not_contains',
+                'equals',
+                'starts_with',
+                'ends_with',
+                'gt',
+                'gte',
+                'lt',
+                'lte',
+              ],
+              description:
+                'Text fields use contains, not_contains, equals, starts_with, ends_with; amount uses equals, gt, gte, lt, lte',
+            },
+            value: {
+              oneOf: [{ type: 'string' }, { type: 'number' }],
+              description:
+                'Text compared case-insensitively, or an amount compared to the absolute transaction amount',
+              example: 'SHELL',
+            },
+          },
+        },
+        BankCategorizationRuleInput: {
+          type: 'object',
+          required: ['name', 'conditions', 'categoryAccountId'],
+          properties: {
+            name: { type: 'string', example: 'Fuel purchases' },
+            description: { type: 'string', nullable: true },
+            priority: {
+              type: 'integer',
+              minimum: 1,
+              description: 'Lower priorities are tried first',
+            },
+            matchType: { type: 'string', enum: ['all', 'any'] },
+            conditions: {
+              type: 'array',
+              items: { $ref: '#/components/schemas/BankRuleCondition' },
+            },
+            transactionType: {
+              type: 'string',
+              enum: ['any', 'deposit', 'payment'],
+            },
+            accountId: {
+              type: 'string',
+              format: 'uuid',
+              nullable: true,
+              description: 'Only match transactions of this bank account',
+            },
+            categoryAccountId: { type: 'string', format: 'uuid' },
+            taxGroupId: { type: 'string', format: 'uuid', nullable: true },
+            isActive: { type: 'boolean' },
+          },
+        },
+        BankCategorizationRule: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', format: 'uuid' },
+            name: { type: 'string' },
+            description: { type: 'string', nullable: true },
+            priority: { type: 'integer' },
+            matchType: { type: 'string', enum: ['all', 'any'] },
+            conditions: {
+              type: 'array',
+              items: { $ref: '#/components/schemas/BankRuleCondition' },
+            },
+            transactionType: {
+              type: 'string',
+              enum: ['any', 'deposit', 'payment'],
+            },
+            accountId: { type: 'string', format: 'uuid', nullable: true },
+            account: {
+              type: 'object',
+              nullable: true,
+              properties: {
+                id: { type: 'string', format: 'uuid' },
+                name: { type: 'string' },
+                currencyCode: { type: 'string' },
+              },
+            },
+            categoryAccountId: { type: 'string', format: 'uuid' },
+            categoryAccount: {
+              type: 'object',
+              nullable: true,
+              properties: {
+                id: { type: 'string', format: 'uuid' },
+                accountNumber: { type: 'string', nullable: true },
+                accountName: { type: 'string' },
+              },
+            },
+            taxGroupId: { type: 'string', format: 'uuid', nullable: true },
+            taxGroup: {
+              type: 'object',
+              nullable: true,
+              properties: {
+                id: { type: 'string', format: 'uuid' },
+                name: { type: 'string' },
+              },
+            },
+            isActive: { type: 'boolean' },
+            createdBy: { type: 'string', format: 'uuid' },
+            createdAt: { type: 'string', format: 'date-time' },
+            updatedAt: { type: 'string', format: 'date-time' },
+          },
+        },
+        ContactAddress: {
+          type: 'object',
+          properties: {
+            line1: { type: 'string' },
+            line2: { type: 'string' },
+            city: { type: 'string' },
+            state: { type: 'string' },
+            postalCode: { type: 'string' },
+            country: { type: 'string' },
+          },
+        },
+        ContactInput: {
+          type: 'object',
+          required: ['contactType', 'displayName'],
+          properties: {
+            contactType: {
+              type: 'string',
+              enum: ['customer', 'vendor', 'both'],
+            },
+            displayName: { type: 'string', example: 'Acme Supplies' },
+            companyName: { type: 'string', nullable: true },
+            firstName: { type: 'string', nullable: true },
+            lastName: { type: 'string', nullable: true },
+            email: { type: 'string', format: 'email', nullable: true },
+            phone: { type: 'string', nullable: true },
+            website: { type: 'string', nullable: true },
+            taxNumber: {
+              type: 'string',
+              nullable: true,
+              description: 'Tax registration number (e.g., VAT, GST, EIN)',
+            },
+            currencyCode: { type: 'string', nullable: true, example: 'USD' },
+            billingAddress: {
+              allOf: [{ $ref: '#/components/schemas/ContactAddress' }],
+              nullable: true,
+            },
+            shippingAddress: {
+              allOf: [{ $ref: '#/components/schemas/ContactAddress' }],
+              nullable: true,
+            },
+            defaultIncomeAccountId: {
+              type: 'string',
+              format: 'uuid',
+              nullable: true,
+            },
+            defaultExpenseAccountId: {
+              type: 'string',
+              format: 'uuid',
+              nullable: true,
+            },
+            defaultTaxGroupId: {
+              type: 'string',
+              format: 'uuid',
+              nullable: true,
+            },
+            paymentTermsDays: { type: 'integer', minimum: 0, example: 30 },
+            notes: { type: 'string', nullable: true },
+            isActive: { type: 'boolean' },
+          },
+        },
+        Contact: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', format: 'uuid' },
+            contactType: {
+              type: 'string',
+              enum: ['customer', 'vendor', 'both'],
+            },
+            displayName: { type: 'string' },
+            companyName: { type: 'string', nullable: true },
+            firstName: { type: 'string', nullable: true },
+            lastName: { type: 'string', nullable: true },
+            email: { type: 'string', nullable: true },
+            phone: { type: 'string', nullable: true },
+            website: { type: 'string', nullable: true },
+            taxNumber: { type: 'string', nullable: true },
+            currencyCode: { type: 'string', nullable: true },
+            billingAddress: {
+              allOf: [{ $ref: '#/components/schemas/ContactAddress' }],
+              nullable: true,
+            },
+            shippingAddress: {
+              allOf: [{ $ref: '#/components/schemas/ContactAddress' }],
+              nullable: true,
+            },
+            defaultIncomeAccountId: {
+              type: 'string',
+              format: 'uuid',
+              nullable: true,
+            },
+            defaultIncomeAccount: {
+              type: 'object',
+              nullable: true,
+              properties: {
+                id: { type: 'string', format: 'uuid' },
+                accountNumber: { type: 'string', nullable: true },
+                accountName: { type: 'string' },
+              },
+            },
+            defaultExpenseAccountId: {
+              type: 'string',
+              format: 'uuid',
+              nullable: true,
+            },
+            defaultExpenseAccount: {
+              type: 'object',
+              nullable: true,
+              properties: {
+                id: { type: 'string', format: 'uuid' },
+                accountNumber: { type: 'string', nullable: true },
+                accountName: { type: 'string' },
+              },
+            },
+            defaultTaxGroupId: {
+              type: 'string',
+              format: 'uuid',
+              nullable: true,
+            },
+            defaultTaxGroup: {
+              type: 'object',
+              nullable: true,
+              properties: {
+                id: { type: 'string', format: 'uuid' },
+                name: { type: 'string' },
+              },
+            },
+            paymentTermsDays: { type: 'integer' },
+            notes: { type: 'string', nullable: true },
+            isActive: { type: 'boolean' },
+            createdBy: { type: 'string', format: 'uuid' },
+            createdAt: { type: 'string', format: 'date-time' },
+            updatedAt: { type: 'string', format: 'date-time' },
+          },
+        },
+        ContactLedger: {
+          type: 'object',
+          properties: {
+            period: {
+              type: 'object',
+              properties: {
+                startDate: { type: 'string', format: 'date' },
+                endDate: { type: 'string', format: 'date' },
+              },
+            },
+            openingBalance: { type: 'number', example: 1200 },
+            closingBalance: { type: 'number', example: 450 },
+            movements: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  journalEntryId: { type: 'string', format: 'uuid' },
+                  journalEntryLineId: { type: 'string', format: 'uuid' },
+                  entryNumber: { type: 'string', nullable: true },
+                  entryDate: { type: 'string', format: 'date' },
+                  reference: { type: 'string', nullable: true },
+                  description: { type: 'string', nullable: true },
+                  accountId: { type: 'string', format: 'uuid' },
+                  accountNumber: { type: 'string', nullable: true },
+                  accountName: { type: 'string' },
+                  debit: { type: 'number' },
+                  credit: { type: 'number' },
+                  runningBalance: {
+                    type: 'number',
+                    description: 'Contact balance after the line',
+                  },
+                },
+              },
+            },
+            pagination: { $ref: '#/components/schemas/Pagination' },
+          },
+        },
+        ContactBalance: {
+          type: 'object',
+          properties: {
+            asOf: { type: 'string', format: 'date' },
+            accounts: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  accountId: { type: 'string', format: 'uuid' },
+                  accountNumber: { type: 'string', nullable: true },
+                  accountName: { type: 'string' },
+                  accountType: {
+                    type: 'string',
+                    enum: [
+                      'asset',
+                      'liability',
+                      'equity',
+                      'revenue',
+                      'expense',
+                    ],
+                  },
+                  debit: { type: 'number' },
+                  credit: { type: 'number' },
+                  balance: {
+                    type: 'number',
+                    description: 'Debit minus credit',
+                  },
+                },
+              },
+            },
+            totalDebit: { type: 'number' },
+            totalCredit: { type: 'number' },
+            balance: {
+              type: 'number',
+              description:
+                'Debit minus credit on asset and liability accounts; positive when the contact owes the tenant',
+            },
+          },
+        },
+        InvoiceLineInput: {
+          type: 'object',
+          required: ['description', 'quantity', 'unitPrice'],
+          properties: {
+            description: { type: 'string', example: 'Consulting services' },
+            quantity: { type: 'number', example: 10 },
+            unitPrice: { type: 'number', example: 150 },
+            accountId: {
+              type: 'string',
+              format: 'uuid',
+              description:
+                "Revenue account; defaults to the customer's default income account",
+            },
+            taxGroupId: {
+              type: 'string',
+              format: 'uuid',
+              nullable: true,
+              description:
+                "Defaults to the customer's default tax group; null means the line is not taxed",
+            },
+          },
+        },
+        InvoiceInput: {
+          type: 'object',
+          required: ['contactId', 'issueDate', 'lines'],
+          properties: {
+            contactId: { type: 'string', format: 'uuid' },
+            invoiceNumber: {
+              type: 'string',
+              description: 'Defaults to the next number from the settings',
+            },
+            issueDate: { type: 'string', format: 'date' },
+            dueDate: {
+              type: 'string',
+              format: 'date',
+              description:
+                "Defaults to the issue date plus the customer's payment terms",
+            },
+            reference: { type: 'string', nullable: true },
+            memo: { type: 'string', nullable: true },
+            notes: { type: 'string', nullable: true },
+            lines: {
+              type: 'array',
+              minItems: 1,
+              maxItems: 200,
+              items: { $ref: '#/components/schemas/InvoiceLineInput' },
+            },
+          },
+        },
+        InvoiceLine: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', format: 'uuid' },
+            lineNumber: { type: 'integer' },
+            description: { type: 'string' },
+            quantity: { type: 'number' },
+            unitPrice: { type: 'number' },
+            amount: { type: 'number' },
+            accountId: { type: 'string', format: 'uuid' },
+            account: {
+              type: 'object',
+              nullable: true,
+              properties: {
+                id: { type: 'string', format: 'uuid' },
+                accountNumber: { type: 'string', nullable: true },
+                accountName: { type: 'string' },
+              },
+            },
+            taxGroupId: { type: 'string', format: 'uuid', nullable: true },
+            taxGroup: {
+              type: 'object',
+              nullable: true,
+              properties: {
+                id: { type: 'string', format: 'uuid' },
+                name: { type: 'string' },
+              },
+            },
+            taxAmount: { type: 'number' },
+            taxBreakdown: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  taxId: { type: 'string', format: 'uuid' },
+                  taxName: { type: 'string' },
+                  taxType: { type: 'string' },
+                  taxRate: { type: 'number' },
+                  taxAmount: { type: 'number' },
+                  isExempt: { type: 'boolean' },
+                },
+              },
+            },
+          },
+        },
+        Invoice: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', format: 'uuid' },
+            invoiceNumber: { type: 'string', example: 'INV-0001' },
+            contactId: { type: 'string', format: 'uuid' },
+            contact: {
+              type: 'object',
+              nullable: true,
+              properties: {
+                id: { type: 'string', format: 'uuid' },
+                displayName: { type: 'string' },
+                email: { type: 'string', nullable: true },
+              },
+            },
+            status: {
+              type: 'string',
+              enum: [
+                'draft',
+                'sent',
+                'partially_paid',
+                'paid',
+                'overdue',
+                'void',
+              ],
+              description:
+                'Sent and partially paid invoices past their due date are returned as overdue',
+            },
+            issueDate: { type: 'string', format: 'date' },
+            dueDate: { type: 'string', format: 'date' },
+            reference: { type: 'string', nullable: true },
+            memo: { type: 'string', nullable: true },
+            notes: { type: 'string', nullable: true },
+            subtotal: { type: 'number' },
+            taxAmount: { type: 'number' },
+            total: { type: 'number' },
+            amountPaid: { type: 'number' },
+            balanceDue: { type: 'number' },
+            receivableAccountId: {
+              type: 'string',
+              format: 'uuid',
+              nullable: true,
+            },
+            journalEntryId: { type: 'string', format: 'uuid', nullable: true },
+            voidJournalEntryId: {
+              type: 'string',
+              format: 'uuid',
+              nullable: true,
+            },
+            sentAt: { type: 'string', format: 'date-time', nullable: true },
+            sentBy: { type: 'string', format: 'uuid', nullable: true },
+            voidedAt: { type: 'string', format: 'date-time', nullable: true },
+            voidedBy: { type: 'string', format: 'uuid', nullable: true },
+            voidReason: { type: 'string', nullable: true },
+            lines: {
+              type: 'array',
+              description: 'Included when a single invoice is returned',
+              items: { $ref: '#/components/schemas/InvoiceLine' },
+            },
+            createdBy: { type: 'string', format: 'uuid' },
+            createdAt: { type: 'string', format: 'date-time' },
+            updatedAt: { type: 'string', format: 'date-time' },
+          },
+        },
+        InvoiceSettings: {
+          type: 'object',
+          properties: {
+            numberPrefix: { type: 'string', example: 'INV-' },
+            nextNumber: { type: 'integer', example: 1 },
+            numberPadding: { type: 'integer', example: 4 },
+            nextInvoiceNumber: { type: 'string', example: 'INV-0001' },
+            receivableAccountId: {
+              type: 'string',
+              format: 'uuid',
+              nullable: true,
+            },
+            receivableAccount: {
+              type: 'object',
+              nullable: true,
+              properties: {
+                id: { type: 'string', format: 'uuid' },
+                accountNumber: { type: 'string', nullable: true },
+                accountName: { type: 'string' },
+              },
+            },
+            taxAccountId: { type: 'string', format: 'uuid', nullable: true },
+            taxAccount: {
+              type: 'object',
+              nullable: true,
+              properties: {
+                id: { type: 'string', format: 'uuid' },
+                accountNumber: { type: 'string', nullable: true },
+                accountName: { type: 'string' },
+              },
+            },
+            updatedAt: { type: 'string', format: 'date-time' },
+          },
+        },
+        BillLineInput: {
+          type: 'object',
+          required: ['description', 'quantity', 'unitPrice'],
+          properties: {
+            description: { type: 'string', example: 'Printer paper' },
+            quantity: { type: 'number', example: 2 },
+            unitPrice: { type: 'number', example: 45.5 },
+            accountId: {
+              type: 'string',
+              format: 'uuid',
+              description:
+                "Expense account; defaults to the vendor's default expense account",
+            },
+            taxGroupId: {
+              type: 'string',
+              format: 'uuid',
+              nullable: true,
+              description:
+                "Defaults to the vendor's default tax group; null means the line is not taxed",
+            },
+            isTaxRecoverable: {
+              type: 'boolean',
+              default: true,
+              description:
+                'Recoverable tax is posted to the tax account; otherwise it is added to the expense',
+            },
+          },
+        },
+        BillInput: {
+          type: 'object',
+          required: ['billDate', 'lines'],
+          properties: {
+            billType: {
+              type: 'string',
+              enum: ['bill', 'expense'],
+              default: 'bill',
+            },
+            contactId: {
+              type: 'string',
+              format: 'uuid',
+              nullable: true,
+              description: 'Vendor; required for bills',
+            },
+            billNumber: {
+              type: 'string',
+              nullable: true,
+              description: "Vendor's bill or receipt number",
+            },
+            billDate: { type: 'string', format: 'date' },
+            dueDate: {
+              type: 'string',
+              format: 'date',
+              description:
+                "Bills only; defaults to the bill date plus the vendor's payment terms",
+            },
+            paymentAccountId: {
+              type: 'string',
+              format: 'uuid',
+              nullable: true,
+              description:
+                'Bank or cash account an expense was paid from; required for expenses',
+            },
+            reference: { type: 'string', nullable: true },
+            memo: { type: 'string', nullable: true },
+            lines: {
+              type: 'array',
+              minItems: 1,
+              maxItems: 200,
+              items: { $ref: '#/components/schemas/BillLineInput' },
+            },
+          },
+        },
+        BillLine: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', format: 'uuid' },
+            lineNumber: { type: 'integer' },
+            description: { type: 'string' },
+            quantity: { type: 'number' },
+            unitPrice: { type: 'number' },
+            amount: { type: 'number' },
+            accountId: { type: 'string', format: 'uuid' },
+            account: {
+              type: 'object',
+              nullable: true,
+              properties: {
+                id: { type: 'string', format: 'uuid' },
+                accountNumber: { type: 'string', nullable: true },
+                accountName: { type: 'string' },
+              },
+            },
+            taxGroupId: { type: 'string', format: 'uuid', nullable: true },
+            taxGroup: {
+              type: 'object',
+              nullable: true,
+              properties: {
+                id: { type: 'string', format: 'uuid' },
+                name: { type: 'string' },
+              },
+            },
+            taxAmount: { type: 'number' },
+            isTaxRecoverable: { type: 'boolean' },
+            taxBreakdown: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  taxId: { type: 'string', format: 'uuid' },
+                  taxName: { type: 'string' },
+                  taxType: { type: 'string' },
+                  taxRate: { type: 'number' },
+                  taxAmount: { type: 'number' },
+                  isExempt: { type: 'boolean' },
+                },
+              },
+            },
+          },
+        },
+        Bill: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', format: 'uuid' },
+            billType: { type: 'string', enum: ['bill', 'expense'] },
+            billNumber: { type: 'string', nullable: true },
+            contactId: { type: 'string', format: 'uuid', nullable: true },
+            contact: {
+              type: 'object',
+              nullable: true,
+              properties: {
+                id: { type: 'string', format: 'uuid' },
+                displayName: { type: 'string' },
+                email: { type: 'string', nullable: true },
+              },
+            },
+            status: {
+              type: 'string',
+              enum: [
+                'draft',
+                'open',
+                'partially_paid',
+                'paid',
+                'overdue',
+                'void',
+              ],
+              description:
+                'Open and partially paid bills past their due date are returned as overdue',
+            },
+            billDate: { type: 'string', format: 'date' },
+            dueDate: { type: 'string', format: 'date' },
+            reference: { type: 'string', nullable: true },
+            memo: { type: 'string', nullable: true },
+            subtotal: { type: 'number' },
+            taxAmount: { type: 'number' },
+            recoverableTaxAmount: { type: 'number' },
+            total: { type: 'number' },
+            amountPaid: { type: 'number' },
+            balanceDue: { type: 'number' },
+            paymentAccountId: {
+              type: 'string',
+              format: 'uuid',
+              nullable: true,
+            },
+            paymentAccount: {
+              type: 'object',
+              nullable: true,
+              properties: {
+                id: { type: 'string', format: 'uuid' },
+                accountNumber: { type: 'string', nullable: true },
+                accountName: { type: 'string' },
+              },
+            },
+            payableAccountId: {
+              type: 'string',
+              format: 'uuid',
+              nullable: true,
+            },
+            journalEntryId: { type: 'string', format: 'uuid', nullable: true },
+            voidJournalEntryId: {
+              type: 'string',
+              format: 'uuid',
+              nullable: true,
+            },
+            postedAt: { type: 'string', format: 'date-time', nullable: true },
+            postedBy: { type: 'string', format: 'uuid', nullable: true },
+            voidedAt: { type: 'string', format: 'date-time', nullable: true },
+            voidedBy: { type: 'string', format: 'uuid', nullable: true },
+            voidReason: { type: 'string', nullable: true },
+            lines: {
+              type: 'array',
+              items: { $ref: '#/components/schemas/BillLine' },
+            },
+            createdBy: { type: 'string', format: 'uuid' },
+            createdAt: { type: 'string', format: 'date-time' },
+            updatedAt: { type: 'string', format: 'date-time' },
+          },
+        },
+        BillSettings: {
+          type: 'object',
+          properties: {
+            payableAccountId: {
+              type: 'string',
+              format: 'uuid',
+              nullable: true,
+            },
+            payableAccount: {
+              type: 'object',
+              nullable: true,
+              properties: {
+                id: { type: 'string', format: 'uuid' },
+                accountNumber: { type: 'string', nullable: true },
+                accountName: { type: 'string' },
+              },
+            },
+            taxAccountId: { type: 'string', format: 'uuid', nullable: true },
+            taxAccount: {
+              type: 'object',
+              nullable: true,
+              properties: {
+                id: { type: 'string', format: 'uuid' },
+                accountNumber: { type: 'string', nullable: true },
+                accountName: { type: 'string' },
+              },
+            },
+            updatedAt: { type: 'string', format: 'date-time' },
+          },
+        },
+        CustomerPaymentInput: {
+          type: 'object',
+          required: ['bankAccountId', 'paymentDate', 'amount'],
+          properties: {
+            contactId: {
+              type: 'string',
+              format: 'uuid',
+              nullable: true,
+              description:
+                'Customer; without one the amount is held as unapplied cash',
+            },
+            bankAccountId: {
+              type: 'string',
+              format: 'uuid',
+              description: 'Active bank account linked to a ledger account',
+            },
+            paymentDate: { type: 'string', format: 'date' },
+            amount: { type: 'number', exclusiveMinimum: 0 },
+            paymentMethod: { type: 'string', nullable: true, maxLength: 50 },
+            reference: { type: 'string', nullable: true, maxLength: 255 },
+            memo: { type: 'string', nullable: true },
+            allocations: {
+              type: 'array',
+              maxItems: 200,
+              description:
+                'Open items the payment settles; the unmatched rest is held as customer credit',
+              items: {
+                type: 'object',
+                required: ['journalEntryLineId', 'amount'],
+                properties: {
+                  journalEntryLineId: { type: 'string', format: 'uuid' },
+                  amount: { type: 'number', exclusiveMinimum: 0 },
+                },
+              },
+            },
+          },
+        },
+        CustomerPayment: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', format: 'uuid' },
+            contactId: { type: 'string', format: 'uuid', nullable: true },
+            contact: {
+              type: 'object',
+              nullable: true,
+              properties: {
+                id: { type: 'string', format: 'uuid' },
+                displayName: { type: 'string' },
+                email: { type: 'string', nullable: true },
+              },
+            },
+            bankAccountId: { type: 'string', format: 'uuid' },
+            bankAccount: {
+              type: 'object',
+              nullable: true,
+              properties: {
+                id: { type: 'string', format: 'uuid' },
+                name: { type: 'string' },
+                currencyCode: { type: 'string' },
+              },
+            },
+            status: {
+              type: 'string',
+              enum: ['applied', 'partially_applied', 'unapplied', 'unmatched'],
+            },
+            paymentDate: { type: 'string', format: 'date' },
+            paymentMethod: { type: 'string', nullable: true },
+            reference: { type: 'string', nullable: true },
+            memo: { type: 'string', nullable: true },
+            amount: { type: 'number' },
+            appliedAmount: { type: 'number' },
+            creditAmount: {
+              type: 'number',
+              description: 'Held on accounts receivable as customer credit',
+            },
+            unappliedAmount: {
+              type: 'number',
+              description: 'Held on the unapplied cash account',
+            },
+            depositAccountId: { type: 'string', format: 'uuid' },
+            receivableAccountId: {
+              type: 'string',
+              format: 'uuid',
+              nullable: true,
+            },
+            unappliedAccountId: {
+              type: 'string',
+              format: 'uuid',
+              nullable: true,
+            },
+            journalEntryId: { type: 'string', format: 'uuid', nullable: true },
+            reversalJournalEntryId: {
+              type: 'string',
+              format: 'uuid',
+              nullable: true,
+            },
+            unmatchedAt: {
+              type: 'string',
+              format: 'date-time',
+              nullable: true,
+            },
+            unmatchedBy: { type: 'string', format: 'uuid', nullable: true },
+            unmatchReason: { type: 'string', nullable: true },
+            allocations: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  id: { type: 'string', format: 'uuid' },
+                  journalEntryLineId: { type: 'string', format: 'uuid' },
+                  journalEntryId: {
+                    type: 'string',
+                    format: 'uuid',
+                    nullable: true,
+                  },
+                  description: { type: 'string', nullable: true },
+                  invoiceId: { type: 'string', format: 'uuid', nullable: true },
+                  invoice: {
+                    type: 'object',
+                    nullable: true,
+                    properties: {
+                      id: { type: 'string', format: 'uuid' },
+                      invoiceNumber: { type: 'string' },
+                    },
+                  },
+                  amount: { type: 'number' },
+                },
+              },
+            },
+            createdBy: { type: 'string', format: 'uuid' },
+            createdAt: { type: 'string', format: 'date-time' },
+            updatedAt: { type: 'string', format: 'date-time' },
+          },
+        },
+        OpenReceivableItem: {
+          type: 'object',
+          properties: {
+            journalEntryLineId: { type: 'string', format: 'uuid' },
+            journalEntryId: { type: 'string', format: 'uuid' },
+            entryNumber: { type: 'string', nullable: true },
+            entryDate: { type: 'string', format: 'date' },
+            reference: { type: 'string', nullable: true },
+            description: { type: 'string', nullable: true },
+            invoiceId: { type: 'string', format: 'uuid', nullable: true },
+            invoiceNumber: { type: 'string', nullable: true },
+            dueDate: { type: 'string', format: 'date', nullable: true },
+            amount: { type: 'number' },
+            allocatedAmount: { type: 'number' },
+            openAmount: { type: 'number' },
+          },
+        },
+        CustomerPaymentSettings: {
+          type: 'object',
+          properties: {
+            unappliedAccountId: {
+              type: 'string',
+              format: 'uuid',
+              nullable: true,
+            },
+            unappliedAccount: {
+              type: 'object',
+              nullable: true,
+              properties: {
+                id: { type: 'string', format: 'uuid' },
+                accountNumber: { type: 'string', nullable: true },
+                accountName: { type: 'string' },
+              },
+            },
+            updatedAt: { type: 'string', format: 'date-time' },
+          },
+        },
+        AgingBucketAmounts: {
+          type: 'object',
+          properties: {
+            current: { type: 'number', example: 1200 },
+            days1To30: { type: 'number', example: 450 },
+            days31To60: { type: 'number', example: 0 },
+            days61To90: { type: 'number', example: 0 },
+            over90: { type: 'number', example: 300 },
+            total: { type: 'number', example: 1950 },
+          },
+        },
+        AgingReport: {
+          type: 'object',
+          properties: {
+            reportType: { type: 'string', enum: ['receivable', 'payable'] },
+            mode: { type: 'string', enum: ['summary', 'detail'] },
+            asOf: { type: 'string', format: 'date', example: '2025-12-29' },
+            account: {
+              type: 'object',
+              properties: {
+                accountId: { type: 'string', format: 'uuid' },
+                accountNumber: { type: 'string', nullable: true },
+                accountName: { type: 'string' },
+              },
+            },
+            contacts: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  contactId: {
+                    type: 'string',
+                    format: 'uuid',
+                    nullable: true,
+                    description:
+                      'Null for control account lines without a contact',
+                  },
+                  displayName: { type: 'string' },
+                  buckets: { $ref: '#/components/schemas/AgingBucketAmounts' },
+                  items: {
+                    type: 'array',
+                    description: 'Open items, in detail mode only',
+                    items: {
+                      type: 'object',
+                      properties: {
+                        journalEntryId: { type: 'string', format: 'uuid' },
+                        journalEntryLineId: { type: 'string', format: 'uuid' },
+                        entryNumber: { type: 'string', nullable: true },
+                        entryDate: { type: 'string', format: 'date' },
+                        dueDate: { type: 'string', format: 'date' },
+                        documentNumber: { type: 'string', nullable: true },
+                        description: { type: 'string', nullable: true },
+                        originalAmount: { type: 'number' },
+                        openAmount: {
+                          type: 'number',
+                          description:
+                            'Negative for unapplied payments and credits',
+                        },
+                        daysPastDue: { type: 'integer' },
+                        bucket: {
+                          type: 'string',
+                          enum: [
+                            'current',
+                            'days1To30',
+                            'days31To60',
+                            'days61To90',
+                            'over90',
+                          ],
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+            totals: { $ref: '#/components/schemas/AgingBucketAmounts' },
+          },
+        },
+        BudgetMonth: {
+          type: 'object',
+          properties: {
+            month: {
+              type: 'integer',
+              description: 'Month of the fiscal year, from 1',
+              example: 1,
+            },
+            label: { type: 'string', example: 'Jan 2026' },
+            startDate: {
+              type: 'string',
+              format: 'date',
+              example: '2026-01-01',
+            },
+            endDate: { type: 'string', format: 'date', example: '2026-01-31' },
+          },
+        },
+        BudgetLineInput: {
+          type: 'object',
+          required: ['accountId', 'amounts'],
+          properties: {
+            accountId: {
+              type: 'string',
+              format: 'uuid',
+              description: 'Active revenue or expense account',
+            },
+            amounts: {
+              type: 'array',
+              description:
+                'One amount per month of the fiscal year, in the natural direction of the account',
+              items: { type: 'number' },
+              example: [
+                1000, 1000, 1200, 1200, 1200, 1500, 1500, 1500, 1200, 1200,
+                1000, 1000,
+              ],
+            },
+          },
+        },
+        BudgetInput: {
+          type: 'object',
+          required: ['fiscalYearId', 'name'],
+          properties: {
+            fiscalYearId: { type: 'string', format: 'uuid' },
+            name: {
+              type: 'string',
+              maxLength: 100,
+              example: 'Operating budget',
+            },
+            description: { type: 'string' },
+            lines: {
+              type: 'array',
+              items: { $ref: '#/components/schemas/BudgetLineInput' },
+            },
+          },
+        },
+        Budget: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', format: 'uuid' },
+            fiscalYearId: { type: 'string', format: 'uuid' },
+            fiscalYear: {
+              type: 'object',
+              nullable: true,
+              properties: {
+                id: { type: 'string', format: 'uuid' },
+                name: { type: 'string', example: 'FY 2026' },
+                startDate: { type: 'string', format: 'date' },
+                endDate: { type: 'string', format: 'date' },
+              },
+            },
+            name: { type: 'string', example: 'Operating budget' },
+            description: { type: 'string', nullable: true },
+            months: {
+              type: 'array',
+              description: 'Budget detail only',
+              items: { $ref: '#/components/schemas/BudgetMonth' },
+            },
+            lines: {
+              type: 'array',
+              description: 'Budget detail only; one line per account',
+              items: {
+                type: 'object',
+                properties: {
+                  accountId: { type: 'string', format: 'uuid' },
+                  accountNumber: { type: 'string', nullable: true },
+                  accountName: { type: 'string', nullable: true },
+                  accountType: {
+                    type: 'string',
+                    enum: ['revenue', 'expense'],
+                    nullable: true,
+                  },
+                  amounts: {
+                    type: 'array',
+                    description: 'One amount per month',
+                    items: { type: 'number' },
+                  },
+                  total: { type: 'number' },
+                },
+              },
+            },
+            createdBy: { type: 'string', format: 'uuid' },
+            createdAt: { type: 'string', format: 'date-time' },
+            updatedAt: { type: 'string', format: 'date-time' },
+          },
+        },
+        BudgetImportResponse: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean', example: true },
+            statusCode: { type: 'integer', example: 200 },
+            message: {
+              type: 'string',
+              example: 'Budget amounts imported successfully',
+            },
+            data: {
+              type: 'object',
+              properties: {
+                dryRun: { type: 'boolean', example: false },
+                imported: { type: 'boolean', example: true },
+                totalRows: { type: 'integer', example: 18 },
+                errors: {
+                  type: 'array',
+                  items: {
+                    $ref: '#/components/schemas/ImportRowError',
+                  },
+                },
+                lines: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      row: { type: 'integer', example: 2 },
+                      accountId: { type: 'string', format: 'uuid' },
+                      accountNumber: { type: 'string', example: '4000' },
+                      accountName: { type: 'string', example: 'Sales' },
+                      amounts: { type: 'array', items: { type: 'number' } },
+                      total: { type: 'number' },
+                    },
+                  },
+                },
+              },
+            },
+          },
+          required: ['success', 'statusCode', 'message'],
+        },
+        BudgetVsActualAmount: {
+          type: 'object',
+          properties: {
+            budget: { type: 'number', example: 1000 },
+            actual: { type: 'number', example: 1150 },
+            variance: {
+              type: 'number',
+              description: 'Actual minus budget',
+              example: 150,
+            },
+            variancePercent: {
+              type: 'number',
+              nullable: true,
+              description:
+                'Variance over the budget; null when nothing was budgeted',
+              example: 15,
+            },
+          },
+        },
+        BudgetVsActualSummary: {
+          type: 'object',
+          properties: {
+            netIncome: { $ref: '#/components/schemas/BudgetVsActualAmount' },
+            budgetProfitMargin: {
+              type: 'number',
+              nullable: true,
+              description:
+                'Budgeted net income over budgeted revenue, in percent; null without revenue',
+            },
+            actualProfitMargin: {
+              type: 'number',
+              nullable: true,
+              description:
+                'Actual net income over actual revenue, in percent; null without revenue',
+            },
+          },
+        },
+        BudgetVsActualReport: {
+          type: 'object',
+          properties: {
+            budget: {
+              type: 'object',
+              properties: {
+                id: { type: 'string', format: 'uuid' },
+                name: { type: 'string' },
+                fiscalYearId: { type: 'string', format: 'uuid' },
+                fiscalYearName: { type: 'string' },
+              },
+            },
+            period: {
+              type: 'object',
+              properties: {
+                startDate: { type: 'string', format: 'date' },
+                endDate: { type: 'string', format: 'date' },
+              },
+            },
+            months: {
+              type: 'array',
+              items: { $ref: '#/components/schemas/BudgetMonth' },
+            },
+            sections: {
+              type: 'array',
+              description: 'Revenue, then expense accounts',
+              items: {
+                type: 'object',
+                properties: {
+                  accountType: { type: 'string', enum: ['revenue', 'expense'] },
+                  accounts: {
+                    type: 'array',
+                    items: {
+                      type: 'object',
+                      properties: {
+                        accountId: { type: 'string', format: 'uuid' },
+                        accountNumber: { type: 'string', nullable: true },
+                        accountName: { type: 'string' },
+                        accountType: {
+                          type: 'string',
+                          enum: ['revenue', 'expense'],
+                        },
+                        months: {
+                          type: 'array',
+                          items: {
+                            $ref: '#/components/schemas/BudgetVsActualAmount',
+                          },
+                        },
+                        total: {
+                          $ref: '#/components/schemas/BudgetVsActualAmount',
+                        },
+                      },
+                    },
+                  },
+                  months: {
+                    type: 'array',
+                    items: {
+                      $ref: '#/components/schemas/BudgetVsActualAmount',
+                    },
+                  },
+                  total: { $ref: '#/components/schemas/BudgetVsActualAmount' },
+                },
+              },
+            },
+            summary: {
+              type: 'object',
+              properties: {
+                months: {
+                  type: 'array',
+                  items: {
+                    $ref: '#/components/schemas/BudgetVsActualSummary',
+                  },
+                },
+                total: { $ref: '#/components/schemas/BudgetVsActualSummary' },
+              },
+            },
+          },
+        },
+        Document: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', format: 'uuid' },
+            name: { type: 'string', example: 'receipt-2025-12.pdf' },
+            mimeType: { type: 'string', example: 'application/pdf' },
+            sizeBytes: { type: 'integer', example: 184320 },
+            checksum: {
+              type: 'string',
+              description: 'SHA-256 checksum of the file content',
+            },
+            category: {
+              type: 'string',
+              enum: [
+                'invoice',
+                'receipt',
+                'report',
+                'contract',
+                'tax_document',
+                'other',
+              ],
+            },
+            tags: {
+              type: 'array',
+              items: { type: 'string' },
+              example: ['office', '2025'],
+            },
+            description: { type: 'string', nullable: true },
+            scanStatus: { type: 'string', enum: ['not_scanned', 'clean'] },
+            scannedAt: { type: 'string', format: 'date-time', nullable: true },
+            attachments: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  id: { type: 'string', format: 'uuid' },
+                  entityType: {
+                    type: 'string',
+                    enum: ['journal_entry', 'invoice', 'bill', 'tax_exemption'],
+                  },
+                  entityId: { type: 'string', format: 'uuid' },
+                  createdBy: { type: 'string', format: 'uuid' },
+                  createdAt: { type: 'string', format: 'date-time' },
+                },
+              },
+            },
+            uploadedBy: { type: 'string', format: 'uuid' },
+            createdAt: { type: 'string', format: 'date-time' },
+            updatedAt: { type: 'string', format: 'date-time' },
+          },
+        },
+        DocumentStorageUsage: {
+          type: 'object',
+          properties: {
+            usedBytes: { type: 'integer', example: 52428800 },
+            quotaBytes: { type: 'integer', example: 1073741824 },
+            availableBytes: { type: 'integer', example: 1021313024 },
+            documentCount: { type: 'integer', example: 42 },
+            maxFileSizeBytes: { type: 'integer', example: 26214400 },
+          },
+        },
+        DocumentSettings: {
+          type: 'object',
+          properties: {
+            quotaMb: {
+              type: 'integer',
+              nullable: true,
+              description: 'Quota of the tenant; null uses the default',
+            },
+            defaultQuotaMb: { type: 'integer', example: 1024 },
+            maxFileSizeMb: { type: 'integer', example: 25 },
+            updatedAt: { type: 'string', format: 'date-time' },
+          },
+        },
+        BankStatementImport: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', format: 'uuid' },
+            accountId: { type: 'string', format: 'uuid' },
+            account: {
+              type: 'object',
+              nullable: true,
+              properties: {
+                id: { type: 'string', format: 'uuid' },
+                name: { type: 'string' },
+                currencyCode: { type: 'string' },
+              },
+            },
+            fileName: { type: 'string', nullable: true },
+            format: { type: 'string', enum: ['csv', 'ofx', 'camt053'] },
+            totalCount: {
+              type: 'integer',
+              description: 'Statement lines in the file',
+            },
+            importedCount: {
+              type: 'integer',
+              description: 'Lines added to the inbox',
+            },
+            duplicateCount: {
+              type: 'integer',
+              description: 'Lines skipped because they were already imported',
+            },
+            errors: {
+              type: 'array',
+              description: 'Lines that could not be read',
+              items: {
+                type: 'object',
+                properties: {
+                  row: { type: 'integer' },
+                  message: { type: 'string' },
+                },
+              },
+            },
+            createdBy: { type: 'string', format: 'uuid' },
+            createdAt: { type: 'string', format: 'date-time' },
+          },
+        },
+        IncomeStatementAmount: {
+          type: 'object',
+          properties: {
+            current: {
+              type: 'number',
+              example: 12500,
+            },
+            comparison: {
+              type: 'number',
+              nullable: true,
+              description: 'Amount for the comparison period',
+              example: 10000,
+            },
+            change: {
+              type: 'number',
+              nullable: true,
+              example: 2500,
+            },
+            changePercent: {
+              type: 'number',
+              nullable: true,
+              description: 'Null when the comparison amount is zero',
+              example: 25,
+            },
+          },
+        },
+        ReportSection: {
+          type: 'object',
+          properties: {
+            accountType: {
+              type: 'string',
+              enum: ['asset', 'liability', 'equity', 'revenue', 'expense'],
+            },
+            subtypes: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  accountSubtype: {
+                    type: 'string',
+                    nullable: true,
+                  },
+                  accounts: {
+                    type: 'array',
+                    items: {
+                      $ref: '#/components/schemas/ReportAccountNode',
+                    },
+                  },
+                  total: {
+                    type: 'number',
+                  },
+                },
+              },
+            },
+            total: {
+              type: 'number',
+            },
+          },
+        },
       },
     },
   },
@@ -14,6 +14,7 @@ export const AUDIT_ACTIONS = {
   TENANT_DELETED: 'tenant.deleted',
   TENANT_RESTORED: 'tenant.restored',
   TENANT_SWITCHED: 'tenant.switched',
+  TENANT_COA_TEMPLATE_APPLIED: 'tenant.coa_template_applied',
   // User actions
   USER_DELETED: 'user.deleted',
   USER_ACTIVATED: 'user.activated',
@@ -27,6 +28,87 @@ export const AUDIT_ACTIONS = {
   ACCOUNT_RESTORED: 'account.restored',
   ACCOUNT_ACTIVATED: 'account.activated',
   ACCOUNT_DEACTIVATED: 'account.deactivated',
+  ACCOUNT_MERGED: 'account.merged',
+  // Fiscal period actions
+  FISCAL_YEAR_CREATED: 'fiscal_year.created',
+  FISCAL_PERIOD_CLOSED: 'fiscal_period.closed',
+  FISCAL_PERIOD_REOPENED: 'fiscal_period.reopened',
+  FISCAL_YEAR_CLOSED: 'fiscal_year.closed',
+  FISCAL_YEAR_CLOSE_REVERSED: 'fiscal_year.close_reversed',
+  // Journal entry actions
+  JOURNAL_ENTRY_AUTO_REVERSED: 'journal_entry.auto_reversed',
+  JOURNAL_ENTRY_AUTO_REVERSAL_FAILED: 'journal_entry.auto_reversal_failed',
+  JOURNAL_ENTRY_SUBMITTED: 'journal_entry.submitted',
+  JOURNAL_ENTRY_APPROVED: 'journal_entry.approved',
+  JOURNAL_ENTRY_REJECTED: 'journal_entry.rejected',
+  // Journal approval rule actions
+  APPROVAL_RULE_CREATED: 'approval_rule.created',
+  APPROVAL_RULE_UPDATED: 'approval_rule.updated',
+  APPROVAL_RULE_DELETED: 'approval_rule.deleted',
+  // Recurring journal template actions
+  RECURRING_TEMPLATE_ENTRY_GENERATED: 'recurring_template.entry_generated',
+  RECURRING_TEMPLATE_GENERATION_FAILED: 'recurring_template.generation_failed',
+  // Currency actions
+  CURRENCY_SETTINGS_UPDATED: 'currency_settings.updated',
+  EXCHANGE_RATE_CREATED: 'exchange_rate.created',
+  EXCHANGE_RATE_UPDATED: 'exchange_rate.updated',
+  EXCHANGE_RATE_DELETED: 'exchange_rate.deleted',
+  EXCHANGE_RATES_IMPORTED: 'exchange_rate.imported',
+  FX_REVALUATION_POSTED: 'fx_revaluation.posted',
+  FX_REVALUATION_FAILED: 'fx_revaluation.failed',
+  // Bank reconciliation actions
+  BANK_RECONCILIATION_STARTED: 'bank_reconciliation.started',
+  BANK_RECONCILIATION_COMPLETED: 'bank_reconciliation.completed',
+  BANK_RECONCILIATION_UNDONE: 'bank_reconciliation.undone',
+  BANK_RECONCILIATION_CANCELLED: 'bank_reconciliation.cancelled',
+  // Bank transaction actions
+  BANK_STATEMENT_IMPORTED: 'bank_statement.imported',
+  BANK_TRANSACTION_CATEGORIZED: 'bank_transaction.categorized',
+  BANK_TRANSACTION_EXCLUDED: 'bank_transaction.excluded',
+  BANK_TRANSACTION_RESTORED: 'bank_transaction.restored',
+  // Bank rule actions
+  BANK_RULE_CREATED: 'bank_rule.created',
+  BANK_RULE_UPDATED: 'bank_rule.updated',
+  BANK_RULE_DELETED: 'bank_rule.deleted',
+  BANK_RULES_REORDERED: 'bank_rule.reordered',
+  BANK_RULES_APPLIED: 'bank_rule.applied',
+  // Contact actions
+  CONTACT_CREATED: 'contact.created',
+  CONTACT_UPDATED: 'contact.updated',
+  CONTACT_DELETED: 'contact.deleted',
+  CONTACT_RESTORED: 'contact.restored',
+  // Invoice actions
+  INVOICE_CREATED: 'invoice.created',
+  INVOICE_UPDATED: 'invoice.updated',
+  INVOICE_DELETED: 'invoice.deleted',
+  INVOICE_SENT: 'invoice.sent',
+  INVOICE_VOIDED: 'invoice.voided',
+  INVOICE_SETTINGS_UPDATED: 'invoice.settings_updated',
+  // Bill actions
+  BILL_CREATED: 'bill.created',
+  BILL_UPDATED: 'bill.updated',
+  BILL_DELETED: 'bill.deleted',
+  BILL_POSTED: 'bill.posted',
+  BILL_VOIDED: 'bill.voided',
+  BILL_SETTINGS_UPDATED: 'bill.settings_updated',
+  // Customer payment actions
+  CUSTOMER_PAYMENT_CREATED: 'customer_payment.created',
+  CUSTOMER_PAYMENT_UNMATCHED: 'customer_payment.unmatched',
+  CUSTOMER_PAYMENT_SETTINGS_UPDATED: 'customer_payment.settings_updated',
+  // Document actions
+  DOCUMENT_UPLOADED: 'document.uploaded',
+  DOCUMENT_UPDATED: 'document.updated',
+  DOCUMENT_DELETED: 'document.deleted',
+  DOCUMENT_ATTACHED: 'document.attached',
+  DOCUMENT_DETACHED: 'document.detached',
+  DOCUMENT_SETTINGS_UPDATED: 'document.settings_updated',
+  // Budget actions
+  BUDGET_CREATED: 'budget.created',
+  BUDGET_UPDATED: 'budget.updated',
+  BUDGET_DELETED: 'budget.deleted',
+  BUDGET_ACTUALS_COPIED: 'budget.actuals_copied',
+  BUDGET_GROWTH_APPLIED: 'budget.growth_applied',
+  BUDGET_IMPORTED: 'budget.imported',
 } as const
 
 /**
@@ -45,6 +127,26 @@ export const AUDIT_ENTITY_TYPES = {
   PASSWORD_RESET: 'PasswordReset',
   MFA_EMAIL_OTP: 'MfaEmailOtp',
   USER_AUTHENTICATOR: 'UserAuthenticator',
+  FISCAL_YEAR: 'FiscalYear',
+  FISCAL_PERIOD: 'FiscalPeriod',
+  JOURNAL_ENTRY: 'JournalEntry',
+  RECURRING_JOURNAL_TEMPLATE: 'RecurringJournalTemplate',
+  JOURNAL_APPROVAL_RULE: 'JournalApprovalRule',
+  EXCHANGE_RATE: 'ExchangeRate',
+  BANK_RECONCILIATION: 'BankReconciliation',
+  BANK_STATEMENT_IMPORT: 'BankStatementImport',
+  BANK_TRANSACTION: 'BankTransaction',
+  BANK_RULE: 'BankCategorizationRule',
+  CONTACT: 'Contact',
+  INVOICE: 'Invoice',
+  INVOICE_SETTINGS: 'InvoiceSettings',
+  BILL: 'Bill',
+  BILL_SETTINGS: 'BillSettings',
+  CUSTOMER_PAYMENT: 'CustomerPayment',
+  CUSTOMER_PAYMENT_SETTINGS: 'CustomerPaymentSettings',
+  DOCUMENT: 'Document',
+  DOCUMENT_SETTINGS: 'DocumentSettings',
+  BUDGET: 'Budget',
 } as const
 
 /**
@@ -0,0 +1,59 @@
+/**
+ * Bank transaction constants
+ */
+
+/**
+ * Maximum statement lines accepted by a single import
+ */
+export const BANK_STATEMENT_IMPORT_MAX_LINES = 5000
+
+/**
+ * Date formats accepted in CSV statements
+ */
+export const CSV_STATEMENT_DATE_FORMATS = [
+  'YYYY-MM-DD',
+  'MM/DD/YYYY',
+  'DD/MM/YYYY',
+] as const
+
+/**
+ * Statement fields categorization rules can match text on
+ */
+export const BANK_RULE_TEXT_FIELDS = [
+  'description',
+  'payee',
+  'reference',
+] as const
+
+/**
+ * Operators for text conditions, compared case-insensitively
+ */
+export const BANK_RULE_TEXT_OPERATORS = [
+  'contains',
+  'not_contains',
+  'equals',
+  'starts_with',
+  'ends_with',
+] as const
+
+/**
+ * Operators for amount conditions, compared to the absolute amount
+ */
+export const BANK_RULE_AMOUNT_OPERATORS = [
+  'equals',
+  'gt',
+  'gte',
+  'lt',
+  'lte',
+] as const
+
+/**
+ * Maximum uncategorized transactions categorized by one bulk apply
+ */
+export const BANK_RULE_APPLY_MAX_TRANSACTIONS = 500
+
+/**
+ * Most recent categorized transactions used to learn suggestions and to test
+ * rules against history
+ */
+export const BANK_RULE_HISTORY_SIZE = 5000
@@ -0,0 +1,35 @@
+/**
+ * Budget constants
+ */
+
+export const BUDGET_FILE = {
+  /**
+   * File name prefix; the budget name is appended
+   */
+  FILENAME_PREFIX: 'Bkeep_Budget',
+
+  /**
+   * XLSX content type
+   */
+  CONTENT_TYPE:
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+
+  /**
+   * Worksheet name
+   */
+  WORKSHEET_NAME: 'Budget',
+
+  /**
+   * Leading column headers; one column per month label follows
+   */
+  ACCOUNT_HEADERS: ['Account Number', 'Account Name'] as const,
+
+  /**
+   * Column widths (in characters)
+   */
+  ACCOUNT_COLUMN_WIDTHS: [
+    { wch: 15 }, // Account Number
+    { wch: 40 }, // Account Name
+  ] as const,
+  MONTH_COLUMN_WIDTH: { wch: 12 },
+} as const
@@ -129,3 +129,15 @@ export const CHART_OF_ACCOUNT_SAMPLE = {
     },
   ] as const,
 } as const
+
+/**
+ * Keys of the chart of accounts templates
+ * Must match the templates in database/data/chartOfAccountTemplates.json
+ */
+export const CHART_OF_ACCOUNT_TEMPLATE_KEYS = [
+  'general_small_business',
+  'dental_clinic',
+  'professional_services',
+  'retail',
+  'non_profit',
+] as const
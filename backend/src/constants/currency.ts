@@ -0,0 +1,52 @@
+/**
+ * Currency and FX revaluation constants
+ */
+
+import type { AuditActor } from '@/types/audit.type'
+
+/**
+ * CSV columns of an exchange rate import
+ * Rates are base currency units per one unit of the foreign currency
+ */
+export const EXCHANGE_RATE_IMPORT_COLUMNS = {
+  DATE: 'date',
+  CURRENCY: 'currency',
+  RATE: 'rate',
+} as const
+
+/**
+ * Maximum rows accepted by a single exchange rate import
+ */
+export const EXCHANGE_RATE_IMPORT_MAX_ROWS = 5000
+
+/**
+ * FX revaluation queue name
+ */
+export const FX_REVALUATION_QUEUE_NAME = 'fx-revaluation-queue'
+
+/**
+ * FX revaluation job names
+ */
+export const FX_REVALUATION_JOB_NAMES = {
+  SCAN_ENDED_PERIODS: 'scan-ended-periods',
+  REVALUE: 'revalue',
+} as const
+
+/**
+ * Job scheduler ID of the FX revaluation scan for ended fiscal periods
+ */
+export const FX_REVALUATION_SCAN_SCHEDULER_ID = 'scan-ended-fiscal-periods'
+
+/**
+ * FX revaluation worker concurrency
+ */
+export const FX_REVALUATION_WORKER_CONCURRENCY = 2
+
+/**
+ * Actor recorded in audit logs for revaluations posted by the worker
+ */
+export const FX_REVALUATION_SYSTEM_ACTOR: AuditActor = {
+  type: 'system',
+  id: 'fx-revaluation-worker',
+  name: 'FX revaluation worker',
+}
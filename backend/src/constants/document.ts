@@ -0,0 +1,38 @@
+/**
+ * Document constants
+ */
+
+export const DOCUMENT_UPLOAD = {
+  /**
+   * Multipart field the file is sent in
+   */
+  FIELD_NAME: 'file',
+
+  /**
+   * MIME types accepted for upload: PDF, images, spreadsheets, CSV and Word
+   * documents. SVG is left out because it can carry scripts.
+   */
+  ALLOWED_MIME_TYPES: [
+    'application/pdf',
+    'image/jpeg',
+    'image/png',
+    'image/gif',
+    'image/bmp',
+    'image/webp',
+    'text/csv',
+    'application/vnd.ms-excel',
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    'application/msword',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  ] as readonly string[],
+
+  /**
+   * Maximum number of tags on a document
+   */
+  MAX_TAGS: 20,
+
+  /**
+   * Maximum length of a tag
+   */
+  TAG_MAX_LENGTH: 50,
+} as const
@@ -91,6 +91,19 @@ export const ERROR_MESSAGES = {
   CHART_OF_ACCOUNT_IN_USE: 'Cannot delete account that is in use',
   CHART_OF_ACCOUNT_PARENT_TYPE_MISMATCH:
     'Parent account type must match child account type',
+  CHART_OF_ACCOUNT_TEMPLATE_NOT_FOUND: 'Chart of accounts template not found',
+  CHART_OF_ACCOUNT_TEMPLATE_TENANT_NOT_EMPTY:
+    'A template can only be applied to a tenant without accounts',
+  CHART_OF_ACCOUNT_MERGE_SAME_ACCOUNT: 'Cannot merge an account into itself',
+  CHART_OF_ACCOUNT_MERGE_TYPE_MISMATCH:
+    'Accounts can only be merged into an account of the same type',
+  CHART_OF_ACCOUNT_MERGE_CURRENCY_MISMATCH:
+    'Accounts can only be merged into an account in the same currency',
+  CHART_OF_ACCOUNT_MERGE_SYSTEM_ACCOUNT: 'System accounts cannot be merged',
+  CHART_OF_ACCOUNT_MERGE_BANK_ACCOUNT:
+    'Accounts linked to a bank account cannot be merged',
+  CHART_OF_ACCOUNT_MERGE_INTO_SUB_ACCOUNT:
+    'An account cannot be merged into one of its sub-accounts',
   JOURNAL_ENTRY_NOT_FOUND: 'Journal entry not found',
   JOURNAL_ENTRY_NOT_FOUND_OR_NOT_DELETED:
     'Journal entry not found or not deleted',
@@ -113,6 +126,23 @@ export const ERROR_MESSAGES = {
   JOURNAL_ENTRY_CANNOT_REVERSE_VOIDED: 'Cannot reverse a voided journal entry.',
   JOURNAL_ENTRY_ALREADY_REVERSED: 'Journal entry has already been reversed',
   JOURNAL_ENTRY_REVERSAL_DATE_REQUIRED: 'Reversal date is required',
+  RECURRING_TEMPLATE_NOT_FOUND: 'Recurring template not found',
+  RECURRING_TEMPLATE_COMPLETED:
+    'Recurring template has no occurrences left. Extend its schedule to resume it.',
+  APPROVAL_RULE_NOT_FOUND: 'Approval rule not found',
+  JOURNAL_ENTRY_APPROVAL_REQUIRED:
+    'Journal entry requires approval. Submit it and wait for all approvals before posting.',
+  JOURNAL_ENTRY_APPROVAL_PENDING:
+    'Journal entry is awaiting approval and cannot be modified',
+  JOURNAL_ENTRY_NOT_PENDING_APPROVAL: 'Journal entry is not awaiting approval',
+  JOURNAL_ENTRY_CANNOT_SUBMIT:
+    'Only draft journal entries can be submitted for approval',
+  JOURNAL_ENTRY_SELF_APPROVAL:
+    'You cannot approve or reject a journal entry you prepared or submitted',
+  JOURNAL_ENTRY_APPROVER_ROLE_MISMATCH:
+    'Your role cannot approve the current approval step',
+  JOURNAL_ENTRY_ALREADY_APPROVED_BY_USER:
+    'You have already approved the current approval step',
   BALANCE_HISTORY_NOT_FOUND: 'Balance history record not found',
   TAX_NOT_FOUND: 'Tax not found',
   TAX_NOT_DELETED: 'Tax is not deleted and cannot be restored',
@@ -124,4 +154,207 @@ export const ERROR_MESSAGES = {
   TAX_EXEMPTION_NOT_FOUND: 'Tax exemption not found',
   TAX_EXEMPTION_NOT_DELETED:
     'Tax exemption is not deleted and cannot be restored',
+  REPORT_INVALID_DATE_RANGE: 'Start date must be on or before end date',
+  FISCAL_YEAR_NOT_FOUND: 'Fiscal year not found',
+  FISCAL_YEAR_OVERLAP: 'Fiscal year overlaps an existing fiscal year',
+  FISCAL_YEAR_INVALID_RANGE:
+    'Fiscal year must end after it starts and span at most 24 months',
+  FISCAL_PERIOD_NOT_FOUND: 'Fiscal period not found',
+  FISCAL_PERIOD_CLOSED:
+    'The date falls in a closed fiscal period. Reopen the period to make changes.',
+  FISCAL_PERIOD_ALREADY_CLOSED: 'Fiscal period is already closed',
+  FISCAL_PERIOD_ALREADY_OPEN: 'Fiscal period is already open',
+  FISCAL_PERIOD_HARD_CLOSED:
+    'Fiscal period is hard-closed and can only be reopened by an administrator',
+  FISCAL_PERIOD_PREVIOUS_OPEN:
+    'All earlier fiscal periods must be closed before hard-closing this period',
+  FISCAL_PERIOD_LATER_HARD_CLOSED:
+    'Cannot reopen a fiscal period while a later period is hard-closed',
+  FISCAL_YEAR_ALREADY_CLOSED: 'Fiscal year already has a closing entry',
+  FISCAL_YEAR_NOT_CLOSED: 'Fiscal year has no closing entry to reverse',
+  FISCAL_YEAR_NOTHING_TO_CLOSE:
+    'Fiscal year has no revenue or expense balances to close',
+  RETAINED_EARNINGS_ACCOUNT_NOT_FOUND:
+    'No active retained earnings equity account found. Create an equity account with the retained earnings subtype.',
+  BASE_CURRENCY_LOCKED:
+    'Base currency cannot be changed once journal entries have been recorded',
+  FX_GAIN_LOSS_ACCOUNT_INVALID:
+    'FX gain/loss account must be an active revenue or expense account in the base currency',
+  FX_GAIN_LOSS_ACCOUNT_NOT_SET:
+    'No FX gain/loss account is set. Choose one in the currency settings.',
+  EXCHANGE_RATE_NOT_FOUND: 'Exchange rate not found',
+  EXCHANGE_RATE_EXISTS:
+    'An exchange rate for this currency and date already exists',
+  EXCHANGE_RATE_BASE_CURRENCY:
+    'Exchange rates cannot be entered for the base currency',
+  EXCHANGE_RATE_MISSING:
+    'No exchange rate on or before the entry date for a line currency. Enter a rate or add one to the exchange rate table.',
+  EXCHANGE_RATE_IMPORT_EMPTY:
+    'The CSV file has no rows. Expected the columns date, currency and rate.',
+  JOURNAL_ENTRY_LINE_CURRENCY_MISMATCH:
+    'A line currency must match the currency of its account',
+  FX_REVALUATION_ALREADY_POSTED:
+    'An FX revaluation has already been posted for this date',
+  FX_REVALUATION_NOTHING_TO_REVALUE:
+    'No foreign currency balances need revaluation on this date',
+  BANK_RECONCILIATION_NOT_FOUND: 'Bank reconciliation not found',
+  BANK_RECONCILIATION_IN_PROGRESS:
+    'A reconciliation is already in progress for this bank account',
+  BANK_RECONCILIATION_NOT_IN_PROGRESS:
+    'Only a reconciliation in progress can be changed',
+  BANK_RECONCILIATION_NOT_COMPLETED:
+    'The reconciliation has not been finalized',
+  BANK_RECONCILIATION_NO_LINKED_ACCOUNT:
+    'The bank account is not linked to an account in the chart of accounts',
+  BANK_RECONCILIATION_STATEMENT_DATE_INVALID:
+    'Statement date must be after the last reconciled statement date',
+  BANK_RECONCILIATION_LINES_INVALID:
+    'One or more lines cannot be cleared in this reconciliation',
+  BANK_RECONCILIATION_NOT_BALANCED:
+    'The cleared balance does not match the statement ending balance',
+  BANK_RECONCILIATION_NOT_LATEST:
+    'Only the latest reconciliation of a bank account can be undone',
+  BANK_TRANSACTION_NOT_FOUND: 'Bank transaction not found',
+  BANK_TRANSACTION_NOT_UNCATEGORIZED:
+    'Only uncategorized bank transactions can be changed',
+  BANK_TRANSACTION_NOT_EXCLUDED:
+    'Only excluded bank transactions can be restored',
+  BANK_TRANSACTION_NO_LINKED_ACCOUNT:
+    'Link the bank account to an account in the chart of accounts before categorizing its transactions',
+  BANK_TRANSACTION_CATEGORY_INVALID:
+    'Transactions cannot be categorized to the bank account itself or to an inactive account',
+  BANK_TRANSACTION_CATEGORY_CURRENCY:
+    'The category account must be in the bank account currency or the base currency',
+  BANK_STATEMENT_EMPTY: 'No transactions could be read from the statement file',
+  BANK_STATEMENT_TOO_LARGE:
+    'The statement file has too many transactions. Split it into smaller files.',
+  BANK_STATEMENT_CURRENCY_MISMATCH:
+    'The statement currency does not match the bank account currency',
+  BANK_RULE_NOT_FOUND: 'Bank rule not found',
+  BANK_RULE_CATEGORY_INVALID:
+    'Bank rules must categorize to an active chart of accounts entry',
+  BANK_RULE_REORDER_INVALID:
+    'The new order must list every bank rule exactly once',
+  CONTACT_NOT_FOUND: 'Contact not found',
+  CONTACT_NOT_FOUND_OR_NOT_DELETED: 'Contact not found or not deleted',
+  CONTACT_INACTIVE: 'Inactive contacts cannot be used on new entries',
+  CONTACT_HAS_OPEN_BALANCE:
+    'Contacts with an open balance cannot be deleted. Settle the balance or deactivate the contact instead.',
+  INVOICE_NOT_FOUND: 'Invoice not found',
+  INVOICE_NUMBER_EXISTS: 'Invoice number already exists',
+  INVOICE_NOT_DRAFT: 'Only draft invoices can be changed or deleted',
+  INVOICE_ALREADY_VOID: 'Invoice is already void',
+  INVOICE_HAS_PAYMENTS:
+    'Invoices with payments applied cannot be voided. Remove the payments first.',
+  INVOICE_CONTACT_NOT_CUSTOMER: 'Invoices can only be billed to customers',
+  INVOICE_LINE_ACCOUNT_REQUIRED:
+    'Each line needs a revenue account, or the customer needs a default income account',
+  INVOICE_LINE_ACCOUNT_INVALID: 'Invoice lines must use revenue accounts',
+  INVOICE_TOTAL_INVALID: 'Invoice total must be greater than 0',
+  INVOICE_DUE_DATE_INVALID: 'Due date must be on or after the issue date',
+  INVOICE_VOID_DATE_INVALID: 'Void date must be on or after the issue date',
+  INVOICE_RECEIVABLE_ACCOUNT_MISSING:
+    'Set the accounts receivable account in the invoice settings before sending invoices',
+  INVOICE_TAX_ACCOUNT_MISSING:
+    'Set the tax account in the invoice settings before sending taxed invoices',
+  INVOICE_RECEIVABLE_ACCOUNT_INVALID:
+    'The receivable account must be an active asset account',
+  INVOICE_TAX_ACCOUNT_INVALID:
+    'The tax account must be an active liability account',
+  BILL_NOT_FOUND: 'Bill not found',
+  BILL_NOT_DRAFT: 'Only draft bills can be changed or deleted',
+  BILL_ALREADY_VOID: 'Bill is already void',
+  BILL_HAS_PAYMENTS:
+    'Bills with payments applied cannot be voided. Remove the payments first.',
+  BILL_CONTACT_NOT_VENDOR: 'Bills can only be recorded for vendors',
+  BILL_VENDOR_REQUIRED:
+    'Bills need a vendor; only expenses paid from a bank account can leave it empty',
+  BILL_PAYMENT_ACCOUNT_REQUIRED:
+    'Expenses need the bank or cash account they were paid from',
+  BILL_PAYMENT_ACCOUNT_INVALID:
+    'The payment account must be an active asset account',
+  BILL_LINE_ACCOUNT_REQUIRED:
+    'Each line needs an expense account, or the vendor needs a default expense account',
+  BILL_LINE_ACCOUNT_INVALID: 'Bill lines must use expense accounts',
+  BILL_TOTAL_INVALID: 'Bill total must be greater than 0',
+  BILL_DUE_DATE_INVALID: 'Due date must be on or after the bill date',
+  BILL_VOID_DATE_INVALID: 'Void date must be on or after the bill date',
+  BILL_PAYABLE_ACCOUNT_MISSING:
+    'Set the accounts payable account in the bill settings before posting bills',
+  BILL_TAX_ACCOUNT_MISSING:
+    'Set the recoverable tax account in the bill settings before posting bills with recoverable tax',
+  BILL_PAYABLE_ACCOUNT_INVALID:
+    'The payable account must be an active liability account',
+  BILL_TAX_ACCOUNT_INVALID:
+    'The recoverable tax account must be an active asset or liability account',
+  CUSTOMER_PAYMENT_NOT_FOUND: 'Customer payment not found',
+  CUSTOMER_PAYMENT_ALREADY_UNMATCHED: 'Customer payment is already unmatched',
+  CUSTOMER_PAYMENT_CONTACT_NOT_CUSTOMER:
+    'Payments can only be received from customers',
+  CUSTOMER_PAYMENT_CONTACT_REQUIRED:
+    'Choose the customer before matching the payment against open items',
+  CUSTOMER_PAYMENT_BANK_ACCOUNT_INACTIVE:
+    'Payments cannot be deposited to an inactive bank account',
+  CUSTOMER_PAYMENT_NO_LINKED_ACCOUNT:
+    'Link the bank account to a chart of accounts entry before depositing payments to it',
+  CUSTOMER_PAYMENT_CURRENCY_INVALID:
+    'Payments can only be deposited to bank accounts in the base currency',
+  CUSTOMER_PAYMENT_ALLOCATION_DUPLICATE:
+    'Each open item can only be matched once per payment',
+  CUSTOMER_PAYMENT_ALLOCATION_INVALID:
+    'Payments can only be matched against open receivable lines of the customer',
+  CUSTOMER_PAYMENT_ALLOCATION_EXCEEDS_OPEN:
+    'Matched amount exceeds the open amount of the item',
+  CUSTOMER_PAYMENT_ALLOCATION_EXCEEDS_AMOUNT:
+    'Matched amounts exceed the payment amount',
+  CUSTOMER_PAYMENT_RECEIVABLE_ACCOUNT_MISSING:
+    'Set the accounts receivable account in the invoice settings before receiving payments from customers',
+  CUSTOMER_PAYMENT_UNAPPLIED_ACCOUNT_MISSING:
+    'Set the unapplied cash account in the payment settings before receiving payments from unknown customers',
+  CUSTOMER_PAYMENT_UNAPPLIED_ACCOUNT_INVALID:
+    'The unapplied cash account must be an active liability account',
+  CUSTOMER_PAYMENT_UNMATCH_DATE_INVALID:
+    'Unmatch date must be on or after the payment date',
+  AGING_RECEIVABLE_ACCOUNT_MISSING:
+    'Set the accounts receivable account in the invoice settings before running the receivables aging report',
+  AGING_PAYABLE_ACCOUNT_MISSING:
+    'Set the accounts payable account in the bill settings before running the payables aging report',
+  DOCUMENT_NOT_FOUND: 'Document not found',
+  DOCUMENT_FILE_NOT_FOUND: 'Document file not found in storage',
+  DOCUMENT_FILE_REQUIRED: 'Choose a file to upload',
+  DOCUMENT_FILE_TYPE_NOT_ALLOWED:
+    'Only PDF, image, spreadsheet, CSV and Word files can be uploaded',
+  DOCUMENT_FILE_TOO_LARGE: 'File exceeds the maximum upload size',
+  DOCUMENT_QUOTA_EXCEEDED:
+    'Uploading this file would exceed the document storage quota',
+  DOCUMENT_INFECTED: 'The file was rejected by the virus scan',
+  DOCUMENT_SCAN_FAILED:
+    'The file could not be scanned for viruses, try again later',
+  DOCUMENT_STORAGE_NOT_CONFIGURED: 'Document storage is not configured',
+  DOCUMENT_STORAGE_KEY_INVALID: 'Invalid document storage key',
+  DOCUMENT_ATTACHMENT_NOT_FOUND: 'Document attachment not found',
+  DOCUMENT_ALREADY_ATTACHED: 'The document is already attached to this record',
+  DOCUMENT_ATTACHMENT_ENTITY_NOT_FOUND:
+    'Record to attach the document to not found',
+  IMPORT_FILE_REQUIRED: 'Choose a CSV or Excel file to import',
+  IMPORT_FILE_TYPE_NOT_ALLOWED: 'Only CSV and Excel files can be imported',
+  IMPORT_FILE_TOO_LARGE: 'Import file exceeds the maximum size',
+  IMPORT_FILE_UNREADABLE: 'The import file could not be read',
+  IMPORT_FILE_EMPTY: 'The import file has no rows to import',
+  IMPORT_FILE_TOO_MANY_ROWS: 'The import file has too many rows',
+  CHART_OF_ACCOUNT_IMPORT_FAILED:
+    'The chart of accounts file has errors; no accounts were imported',
+  JOURNAL_ENTRY_IMPORT_FAILED:
+    'The journal entries file has errors; no entries were imported',
+  BUDGET_NOT_FOUND: 'Budget not found',
+  BUDGET_NAME_EXISTS:
+    'A budget with this name already exists for the fiscal year',
+  BUDGET_ACCOUNT_INVALID:
+    'Budgets can only include active revenue and expense accounts',
+  BUDGET_ACCOUNT_DUPLICATE: 'An account can only appear once in a budget',
+  BUDGET_AMOUNTS_INVALID:
+    'Budget lines need one amount per month of the fiscal year',
+  BUDGET_NO_ACTUALS:
+    'No posted revenue or expense lines were found in the previous year',
+  BUDGET_IMPORT_FAILED: 'The budget file has errors; no amounts were imported',
 } as const
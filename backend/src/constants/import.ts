@@ -0,0 +1,44 @@
+/**
+ * Import constants
+ * Shared by the spreadsheet imports (chart of accounts, journal entries)
+ */
+
+export const IMPORT_FILE = {
+  /**
+   * Multipart field the file is sent in
+   */
+  FIELD_NAME: 'file',
+
+  /**
+   * File extensions accepted for import
+   * Checked on the file name because browsers report CSV files under several
+   * MIME types (text/csv, application/vnd.ms-excel, text/plain)
+   */
+  ALLOWED_EXTENSIONS: ['.csv', '.xlsx', '.xls'] as readonly string[],
+
+  /**
+   * Maximum file size in megabytes
+   */
+  MAX_FILE_SIZE_MB: 5,
+
+  /**
+   * Maximum number of data rows in a file
+   */
+  MAX_ROWS: 5000,
+} as const
+
+/**
+ * Fields that can be mapped when importing journal entries
+ * The labels are the default headers. Rows with the same entry number, or
+ * without one and with the same date, form one entry.
+ */
+export const JOURNAL_ENTRY_IMPORT_FIELDS = [
+  { key: 'entryNumber', label: 'Entry Number', required: false },
+  { key: 'entryDate', label: 'Date', required: true },
+  { key: 'accountNumber', label: 'Account Number', required: true },
+  { key: 'debit', label: 'Debit', required: true },
+  { key: 'credit', label: 'Credit', required: true },
+  { key: 'description', label: 'Description', required: false },
+  { key: 'reference', label: 'Reference', required: false },
+  { key: 'memo', label: 'Memo', required: false },
+] as const
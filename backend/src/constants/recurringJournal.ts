@@ -0,0 +1,43 @@
+/**
+ * Recurring journal entry constants
+ */
+
+import type { AuditActor } from '@/types/audit.type'
+
+/**
+ * Recurring journal queue name
+ */
+export const RECURRING_QUEUE_NAME = 'recurring-journal-queue'
+
+/**
+ * Recurring journal job names
+ */
+export const RECURRING_JOB_NAMES = {
+  SCAN_DUE_TEMPLATES: 'scan-due-templates',
+  GENERATE_ENTRIES: 'generate-entries',
+} as const
+
+/**
+ * Job scheduler ID of the recurring scan for due templates
+ */
+export const RECURRING_SCAN_SCHEDULER_ID = 'scan-due-recurring-templates'
+
+/**
+ * Recurring journal worker concurrency
+ */
+export const RECURRING_WORKER_CONCURRENCY = 2
+
+/**
+ * Maximum occurrences a single job catches up on
+ * A daily template that was paused for years is caught up over several scans
+ */
+export const RECURRING_MAX_OCCURRENCES_PER_JOB = 366
+
+/**
+ * Actor recorded in audit logs for entries generated by the worker
+ */
+export const RECURRING_SYSTEM_ACTOR: AuditActor = {
+  type: 'system',
+  id: 'recurring-journal-worker',
+  name: 'Recurring journal worker',
+}
@@ -0,0 +1,50 @@
+/**
+ * Report constants
+ */
+
+export const AGING_REPORT_EXPORT = {
+  /**
+   * File name prefix per report type; the as of date is appended
+   */
+  FILENAME_PREFIX: {
+    receivable: 'Bkeep_Aged_Receivables',
+    payable: 'Bkeep_Aged_Payables',
+  },
+
+  /**
+   * Worksheet name per report type
+   */
+  WORKSHEET_NAME: {
+    receivable: 'Aged Receivables',
+    payable: 'Aged Payables',
+  },
+
+  /**
+   * CSV content type
+   */
+  CSV_CONTENT_TYPE: 'text/csv; charset=utf-8',
+
+  /**
+   * XLSX content type
+   */
+  XLSX_CONTENT_TYPE:
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+
+  /**
+   * Bucket column headers, in report order
+   */
+  BUCKET_HEADERS: ['Current', '1-30', '31-60', '61-90', '90+', 'Total'],
+
+  /**
+   * Leading column headers in detail mode
+   */
+  DETAIL_HEADERS: [
+    'Contact',
+    'Document',
+    'Entry Number',
+    'Entry Date',
+    'Due Date',
+    'Days Past Due',
+    'Description',
+  ],
+} as const
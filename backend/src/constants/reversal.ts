@@ -0,0 +1,38 @@
+/**
+ * Scheduled reversal constants
+ */
+
+import type { AuditActor } from '@/types/audit.type'
+
+/**
+ * Scheduled reversal queue name
+ */
+export const REVERSAL_QUEUE_NAME = 'journal-entry-reversal-queue'
+
+/**
+ * Scheduled reversal job names
+ */
+export const REVERSAL_JOB_NAMES = {
+  SCAN_DUE_REVERSALS: 'scan-due-reversals',
+  REVERSE_ENTRY: 'reverse-entry',
+} as const
+
+/**
+ * Job scheduler ID of the recurring scan for due reversals
+ */
+export const REVERSAL_SCAN_SCHEDULER_ID = 'scan-due-reversals'
+
+/**
+ * Scheduled reversal worker concurrency
+ * Kept low because every job posts inside its own tenant transaction
+ */
+export const REVERSAL_WORKER_CONCURRENCY = 2
+
+/**
+ * Actor recorded in audit logs for reversals posted by the worker
+ */
+export const REVERSAL_SYSTEM_ACTOR: AuditActor = {
+  type: 'system',
+  id: 'scheduled-reversal-worker',
+  name: 'Scheduled reversal worker',
+}
@@ -51,6 +51,10 @@ export const SUCCESS_MESSAGES = {
   TENANT_DELETED: 'Tenant deleted successfully',
   TENANT_RESTORED: 'Tenant restored successfully',
   TENANT_SWITCHED: 'Tenant switched successfully',
+  CHART_OF_ACCOUNT_TEMPLATES_FETCHED:
+    'Chart of accounts templates fetched successfully',
+  CHART_OF_ACCOUNT_TEMPLATE_APPLIED:
+    'Chart of accounts template applied successfully',
   ACCOUNTS_RETRIEVED: 'Accounts retrieved successfully',
   ACCOUNT_RETRIEVED: 'Account retrieved successfully',
   ACCOUNT_CREATED: 'Account created successfully',
@@ -86,6 +90,11 @@ export const SUCCESS_MESSAGES = {
     'Chart of account sample file downloaded successfully',
   CHART_OF_ACCOUNT_IMPORT_FIELDS_FETCHED:
     'Chart of accounts import fields retrieved successfully',
+  CHART_OF_ACCOUNTS_IMPORTED: 'Chart of accounts imported successfully',
+  CHART_OF_ACCOUNTS_IMPORT_VALIDATED:
+    'Chart of accounts file validated; no accounts were imported',
+  CHART_OF_ACCOUNT_MERGE_PREVIEWED: 'Chart of account merge previewed',
+  CHART_OF_ACCOUNTS_MERGED: 'Chart of accounts merged successfully',
   JOURNAL_ENTRY_CREATED: 'Journal entry created successfully',
   JOURNAL_ENTRY_UPDATED: 'Journal entry updated successfully',
   JOURNAL_ENTRY_DELETED: 'Journal entry deleted successfully',
@@ -96,6 +105,30 @@ export const SUCCESS_MESSAGES = {
   JOURNAL_ENTRY_RESTORED: 'Journal entry restored successfully',
   JOURNAL_ENTRY_REVERSED: 'Journal entry reversed successfully',
   JOURNAL_ENTRY_DUPLICATED: 'Journal entry duplicated successfully',
+  JOURNAL_ENTRY_IMPORT_FIELDS_FETCHED:
+    'Journal entry import fields fetched successfully',
+  JOURNAL_ENTRIES_IMPORTED: 'Journal entries imported successfully',
+  JOURNAL_ENTRIES_IMPORT_VALIDATED:
+    'Journal entries file validated; no entries were imported',
+  SCHEDULED_REVERSALS_FETCHED: 'Scheduled reversals fetched successfully',
+  RECURRING_TEMPLATES_FETCHED: 'Recurring templates fetched successfully',
+  RECURRING_TEMPLATE_FETCHED: 'Recurring template fetched successfully',
+  RECURRING_TEMPLATE_CREATED: 'Recurring template created successfully',
+  RECURRING_TEMPLATE_UPDATED: 'Recurring template updated successfully',
+  RECURRING_TEMPLATE_DELETED: 'Recurring template deleted successfully',
+  RECURRING_TEMPLATE_ENTRIES_FETCHED:
+    'Recurring template entries fetched successfully',
+  APPROVAL_RULES_FETCHED: 'Approval rules fetched successfully',
+  APPROVAL_RULE_FETCHED: 'Approval rule fetched successfully',
+  APPROVAL_RULE_CREATED: 'Approval rule created successfully',
+  APPROVAL_RULE_UPDATED: 'Approval rule updated successfully',
+  APPROVAL_RULE_DELETED: 'Approval rule deleted successfully',
+  JOURNAL_ENTRY_SUBMITTED: 'Journal entry submitted for approval',
+  JOURNAL_ENTRY_APPROVED: 'Journal entry approved successfully',
+  JOURNAL_ENTRY_REJECTED: 'Journal entry rejected successfully',
+  JOURNAL_ENTRY_APPROVALS_FETCHED:
+    'Journal entry approval history fetched successfully',
+  PENDING_APPROVALS_FETCHED: 'Pending approvals fetched successfully',
   BALANCE_HISTORY_FETCHED: 'Balance history retrieved successfully',
   BALANCE_HISTORY_LIST_FETCHED: 'Balance history list retrieved successfully',
   TAX_CREATED: 'Tax created successfully',
@@ -125,4 +158,116 @@ export const SUCCESS_MESSAGES = {
   TAX_EXEMPTION_RESTORED: 'Tax exemption restored successfully',
   TAX_EXEMPTION_ENABLED: 'Tax exemption enabled successfully',
   TAX_EXEMPTION_DISABLED: 'Tax exemption disabled successfully',
+  TRIAL_BALANCE_FETCHED: 'Trial balance retrieved successfully',
+  BALANCE_SHEET_FETCHED: 'Balance sheet retrieved successfully',
+  INCOME_STATEMENT_FETCHED: 'Income statement retrieved successfully',
+  CASH_FLOW_STATEMENT_FETCHED: 'Cash flow statement retrieved successfully',
+  GENERAL_LEDGER_FETCHED: 'General ledger retrieved successfully',
+  GENERAL_LEDGER_ACCOUNT_FETCHED:
+    'General ledger account movements retrieved successfully',
+  AGED_RECEIVABLES_FETCHED: 'Aged receivables retrieved successfully',
+  AGED_PAYABLES_FETCHED: 'Aged payables retrieved successfully',
+  FISCAL_YEAR_CREATED: 'Fiscal year created successfully',
+  FISCAL_YEAR_FETCHED: 'Fiscal year retrieved successfully',
+  FISCAL_YEARS_FETCHED: 'Fiscal years retrieved successfully',
+  FISCAL_PERIOD_CLOSED: 'Fiscal period closed successfully',
+  FISCAL_PERIOD_REOPENED: 'Fiscal period reopened successfully',
+  YEAR_END_CLOSE_PREVIEWED: 'Year-end closing entry preview generated',
+  FISCAL_YEAR_CLOSED: 'Fiscal year closed into retained earnings',
+  FISCAL_YEAR_CLOSE_REVERSED: 'Year-end closing entry reversed successfully',
+  CURRENCY_SETTINGS_FETCHED: 'Currency settings retrieved successfully',
+  CURRENCY_SETTINGS_UPDATED: 'Currency settings updated successfully',
+  EXCHANGE_RATES_FETCHED: 'Exchange rates retrieved successfully',
+  EXCHANGE_RATE_FETCHED: 'Exchange rate retrieved successfully',
+  EXCHANGE_RATE_CREATED: 'Exchange rate created successfully',
+  EXCHANGE_RATE_UPDATED: 'Exchange rate updated successfully',
+  EXCHANGE_RATE_DELETED: 'Exchange rate deleted successfully',
+  EXCHANGE_RATES_IMPORTED: 'Exchange rates imported successfully',
+  FX_REVALUATION_PREVIEWED: 'FX revaluation preview generated',
+  FX_REVALUATION_POSTED: 'FX revaluation posted successfully',
+  BANK_RECONCILIATIONS_FETCHED: 'Bank reconciliations retrieved successfully',
+  BANK_RECONCILIATION_FETCHED: 'Bank reconciliation retrieved successfully',
+  BANK_RECONCILIATION_STARTED: 'Bank reconciliation started successfully',
+  BANK_RECONCILIATION_UPDATED: 'Bank reconciliation updated successfully',
+  BANK_RECONCILIATION_LINES_FETCHED:
+    'Bank reconciliation lines retrieved successfully',
+  BANK_RECONCILIATION_LINES_CLEARED: 'Cleared lines updated successfully',
+  BANK_RECONCILIATION_COMPLETED: 'Bank reconciliation finalized successfully',
+  BANK_RECONCILIATION_UNDONE: 'Bank reconciliation undone successfully',
+  BANK_RECONCILIATION_CANCELLED: 'Bank reconciliation cancelled successfully',
+  BANK_RECONCILIATION_REPORT_FETCHED:
+    'Bank reconciliation report retrieved successfully',
+  BANK_TRANSACTIONS_FETCHED: 'Bank transactions retrieved successfully',
+  BANK_TRANSACTION_FETCHED: 'Bank transaction retrieved successfully',
+  BANK_TRANSACTION_CATEGORIZED: 'Bank transaction categorized successfully',
+  BANK_TRANSACTION_EXCLUDED: 'Bank transaction excluded successfully',
+  BANK_TRANSACTION_RESTORED: 'Bank transaction restored to the inbox',
+  BANK_STATEMENT_PREVIEWED: 'Bank statement preview generated',
+  BANK_STATEMENT_IMPORTED: 'Bank statement imported successfully',
+  BANK_STATEMENT_IMPORTS_FETCHED:
+    'Bank statement imports retrieved successfully',
+  BANK_RULES_FETCHED: 'Bank rules retrieved successfully',
+  BANK_RULE_FETCHED: 'Bank rule retrieved successfully',
+  BANK_RULE_CREATED: 'Bank rule created successfully',
+  BANK_RULE_UPDATED: 'Bank rule updated successfully',
+  BANK_RULE_DELETED: 'Bank rule deleted successfully',
+  BANK_RULES_REORDERED: 'Bank rules reordered successfully',
+  BANK_RULE_TESTED: 'Bank rule tested against categorized transactions',
+  BANK_RULES_APPLIED: 'Bank rules applied successfully',
+  CONTACTS_FETCHED: 'Contacts retrieved successfully',
+  CONTACT_FETCHED: 'Contact retrieved successfully',
+  CONTACT_CREATED: 'Contact created successfully',
+  CONTACT_UPDATED: 'Contact updated successfully',
+  CONTACT_DELETED: 'Contact deleted successfully',
+  CONTACT_RESTORED: 'Contact restored successfully',
+  CONTACT_LEDGER_FETCHED: 'Contact ledger retrieved successfully',
+  CONTACT_BALANCE_FETCHED: 'Contact balance retrieved successfully',
+  INVOICES_FETCHED: 'Invoices retrieved successfully',
+  INVOICE_FETCHED: 'Invoice retrieved successfully',
+  INVOICE_CREATED: 'Invoice created successfully',
+  INVOICE_UPDATED: 'Invoice updated successfully',
+  INVOICE_DELETED: 'Invoice deleted successfully',
+  INVOICE_SENT: 'Invoice sent and posted successfully',
+  INVOICE_VOIDED: 'Invoice voided successfully',
+  INVOICE_SETTINGS_FETCHED: 'Invoice settings retrieved successfully',
+  INVOICE_SETTINGS_UPDATED: 'Invoice settings updated successfully',
+  BILLS_FETCHED: 'Bills retrieved successfully',
+  BILL_FETCHED: 'Bill retrieved successfully',
+  BILL_CREATED: 'Bill created successfully',
+  BILL_UPDATED: 'Bill updated successfully',
+  BILL_DELETED: 'Bill deleted successfully',
+  BILL_POSTED: 'Bill posted successfully',
+  BILL_VOIDED: 'Bill voided successfully',
+  BILL_SETTINGS_FETCHED: 'Bill settings retrieved successfully',
+  BILL_SETTINGS_UPDATED: 'Bill settings updated successfully',
+  CUSTOMER_PAYMENTS_FETCHED: 'Customer payments retrieved successfully',
+  CUSTOMER_PAYMENT_FETCHED: 'Customer payment retrieved successfully',
+  CUSTOMER_PAYMENT_CREATED: 'Customer payment recorded successfully',
+  CUSTOMER_PAYMENT_UNMATCHED: 'Customer payment unmatched successfully',
+  CUSTOMER_PAYMENT_OPEN_ITEMS_FETCHED: 'Open items retrieved successfully',
+  CUSTOMER_PAYMENT_SETTINGS_FETCHED:
+    'Customer payment settings retrieved successfully',
+  CUSTOMER_PAYMENT_SETTINGS_UPDATED:
+    'Customer payment settings updated successfully',
+  DOCUMENTS_FETCHED: 'Documents retrieved successfully',
+  DOCUMENT_FETCHED: 'Document retrieved successfully',
+  DOCUMENT_UPLOADED: 'Document uploaded successfully',
+  DOCUMENT_UPDATED: 'Document updated successfully',
+  DOCUMENT_DELETED: 'Document deleted successfully',
+  DOCUMENT_DOWNLOAD_URL_CREATED: 'Download link created successfully',
+  DOCUMENT_ATTACHED: 'Document attached successfully',
+  DOCUMENT_DETACHED: 'Document detached successfully',
+  DOCUMENT_USAGE_FETCHED: 'Document storage usage retrieved successfully',
+  DOCUMENT_SETTINGS_FETCHED: 'Document settings retrieved successfully',
+  DOCUMENT_SETTINGS_UPDATED: 'Document settings updated successfully',
+  BUDGETS_FETCHED: 'Budgets retrieved successfully',
+  BUDGET_FETCHED: 'Budget retrieved successfully',
+  BUDGET_CREATED: 'Budget created successfully',
+  BUDGET_UPDATED: 'Budget updated successfully',
+  BUDGET_DELETED: 'Budget deleted successfully',
+  BUDGET_ACTUALS_COPIED: "Budget amounts copied from last year's actuals",
+  BUDGET_GROWTH_APPLIED: 'Budget growth applied successfully',
+  BUDGET_IMPORTED: 'Budget amounts imported successfully',
+  BUDGET_IMPORT_VALIDATED: 'Budget file validated; no amounts were imported',
+  BUDGET_VS_ACTUAL_FETCHED: 'Budget vs actual report retrieved successfully',
 } as const
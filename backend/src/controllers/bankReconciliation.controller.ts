@@ -0,0 +1,448 @@
+import type { RequestHandler } from 'express'
+import { Response } from 'express'
+
+import type { AuditTarget } from '@/types/audit.type'
+import type {
+  BankReconciliationDetail,
+  BankReconciliationLine,
+  BankReconciliationSummary,
+} from '@/types/bankReconciliation.type'
+import type { JwtUser } from '@/types/jwt.type'
+import { AUDIT_ACTIONS, AUDIT_ENTITY_TYPES } from '@constants/audit'
+import { HTTP_STATUS } from '@constants/http'
+import { SUCCESS_MESSAGES } from '@constants/success'
+import {
+  getTenantContext,
+  type TenantContext,
+  type TenantRequest,
+} from '@middlewares/tenantContext.middleware'
+import type { BankReconciliation } from '@models/BankReconciliation'
+import {
+  cancelBankReconciliation,
+  clearBankReconciliationLines,
+  completeBankReconciliation,
+  findBankReconciliationDetail,
+  findBankReconciliationLines,
+  findBankReconciliationReport,
+  findBankReconciliations,
+  startBankReconciliation,
+  undoBankReconciliation,
+  updateBankReconciliation,
+} from '@queries/bankReconciliation.queries'
+import type {
+  BankReconciliationLinesInput,
+  BankReconciliationListInput,
+  ClearBankReconciliationLinesInput,
+  StartBankReconciliationInput,
+  UpdateBankReconciliationInput,
+} from '@schema/bankReconciliation.schema'
+import { getPaginationMetadata } from '@schema/shared.schema'
+import { auditActionSafely } from '@services/audit.service'
+import { ApiResponse } from '@utils/ApiResponse'
+import asyncHandler from '@utils/asyncHandler'
+import { formatDateToString } from '@utils/date'
+
+/**
+ * Transform bank reconciliation to response format
+ */
+const toBankReconciliationResponse = (reconciliation: BankReconciliation) => ({
+  id: reconciliation.id,
+  accountId: reconciliation.accountId,
+  account: reconciliation.account
+    ? {
+        id: reconciliation.account.id,
+        name: reconciliation.account.name,
+        currencyCode: reconciliation.account.currencyCode,
+      }
+    : null,
+  statementDate: formatDateToString(reconciliation.statementDate),
+  statementEndingBalance: Number(reconciliation.statementEndingBalance),
+  openingBalance: Number(reconciliation.openingBalance),
+  status: reconciliation.status,
+  completedAt: reconciliation.completedAt ?? null,
+  completedBy: reconciliation.completedBy ?? null,
+  undoneAt: reconciliation.undoneAt ?? null,
+  undoneBy: reconciliation.undoneBy ?? null,
+  createdBy: reconciliation.createdBy,
+  createdAt: reconciliation.createdAt,
+  updatedAt: reconciliation.updatedAt,
+})
+
+/**
+ * Transform bank reconciliation with its running totals to response format
+ */
+const toBankReconciliationDetailResponse = (
+  detail: BankReconciliationDetail
+) => ({
+  ...toBankReconciliationResponse(detail.reconciliation),
+  summary: detail.summary,
+})
+
+/**
+ * Transform reconciliation line to response format
+ */
+const toBankReconciliationLineResponse = (line: BankReconciliationLine) => ({
+  ...line,
+  entryDate: formatDateToString(line.entryDate),
+})
+
+/**
+ * Audit target of a bank reconciliation
+ */
+const toBankReconciliationAuditTarget = (
+  reconciliation: BankReconciliation,
+  summary?: BankReconciliationSummary
+): AuditTarget => ({
+  type: AUDIT_ENTITY_TYPES.BANK_RECONCILIATION,
+  id: reconciliation.id,
+  accountId: reconciliation.accountId,
+  statementDate: formatDateToString(reconciliation.statementDate),
+  statementEndingBalance: Number(reconciliation.statementEndingBalance),
+  ...(summary && { clearedCount: summary.clearedCount }),
+})
+
+/**
+ * Get all bank reconciliations controller
+ * Retrieves reconciliations, most recent statement first
+ */
+export const getAllBankReconciliations: RequestHandler = asyncHandler(
+  async (req: TenantRequest, res: Response) => {
+    const tenantContext = getTenantContext(req) as TenantContext
+
+    // Get validated query parameters
+    const filters = (
+      req as TenantRequest & { validatedData: BankReconciliationListInput }
+    ).validatedData
+
+    const { reconciliations, total } = await findBankReconciliations(
+      tenantContext.tenantId,
+      tenantContext.schemaName,
+      filters
+    )
+
+    res.status(HTTP_STATUS.OK).json(
+      new ApiResponse(
+        HTTP_STATUS.OK,
+        SUCCESS_MESSAGES.BANK_RECONCILIATIONS_FETCHED,
+        {
+          items: reconciliations.map(toBankReconciliationResponse),
+          pagination: getPaginationMetadata(filters.page, filters.limit, total),
+        }
+      )
+    )
+  }
+)
+
+/**
+ * Get bank reconciliation by ID controller
+ * Includes the running totals and the difference to the statement
+ */
+export const getBankReconciliationById: RequestHandler = asyncHandler(
+  async (req: TenantRequest, res: Response) => {
+    const tenantContext = getTenantContext(req) as TenantContext
+
+    // Get validated params
+    const { id } = (req as TenantRequest & { params: { id: string } }).params
+
+    const detail = await findBankReconciliationDetail(
+      tenantContext.tenantId,
+      tenantContext.schemaName,
+      id
+    )
+
+    res
+      .status(HTTP_STATUS.OK)
+      .json(
+        new ApiResponse(
+          HTTP_STATUS.OK,
+          SUCCESS_MESSAGES.BANK_RECONCILIATION_FETCHED,
+          toBankReconciliationDetailResponse(detail)
+        )
+      )
+  }
+)
+
+/**
+ * Start bank reconciliation controller
+ */
+export const startBankReconciliationController: RequestHandler = asyncHandler(
+  async (req: TenantRequest, res: Response) => {
+    const tenantContext = getTenantContext(req) as TenantContext
+    const user = req.user as JwtUser
+
+    // Get validated body
+    const data = (
+      req as TenantRequest & { validatedData: StartBankReconciliationInput }
+    ).validatedData
+
+    const detail = await startBankReconciliation(
+      tenantContext.tenantId,
+      tenantContext.schemaName,
+      user.id,
+      data
+    )
+
+    await auditActionSafely(
+      req,
+      tenantContext.tenantId,
+      AUDIT_ACTIONS.BANK_RECONCILIATION_STARTED,
+      [toBankReconciliationAuditTarget(detail.reconciliation)],
+      'bank reconciliation'
+    )
+
+    res
+      .status(HTTP_STATUS.CREATED)
+      .json(
+        new ApiResponse(
+          HTTP_STATUS.CREATED,
+          SUCCESS_MESSAGES.BANK_RECONCILIATION_STARTED,
+          toBankReconciliationDetailResponse(detail)
+        )
+      )
+  }
+)
+
+/**
+ * Update bank reconciliation controller
+ * Changes the statement date or ending balance of a session in progress
+ */
+export const updateBankReconciliationController: RequestHandler = asyncHandler(
+  async (req: TenantRequest, res: Response) => {
+    const tenantContext = getTenantContext(req) as TenantContext
+
+    // Get validated params and body
+    const { id } = (req as TenantRequest & { params: { id: string } }).params
+    const data = (
+      req as TenantRequest & { validatedData: UpdateBankReconciliationInput }
+    ).validatedData
+
+    const detail = await updateBankReconciliation(
+      tenantContext.tenantId,
+      tenantContext.schemaName,
+      id,
+      data
+    )
+
+    res
+      .status(HTTP_STATUS.OK)
+      .json(
+        new ApiResponse(
+          HTTP_STATUS.OK,
+          SUCCESS_MESSAGES.BANK_RECONCILIATION_UPDATED,
+          toBankReconciliationDetailResponse(detail)
+        )
+      )
+  }
+)
+
+/**
+ * Get bank reconciliation lines controller
+ * Lists the posted lines on the bank account up to the statement date that
+ * can be cleared in the session
+ */
+export const getBankReconciliationLines: RequestHandler = asyncHandler(
+  async (req: TenantRequest, res: Response) => {
+    const tenantContext = getTenantContext(req) as TenantContext
+
+    // Get validated params and query parameters
+    const { id } = (req as TenantRequest & { params: { id: string } }).params
+    const filters = (
+      req as TenantRequest & { validatedData: BankReconciliationLinesInput }
+    ).validatedData
+
+    const { lines, summary, total } = await findBankReconciliationLines(
+      tenantContext.tenantId,
+      tenantContext.schemaName,
+      id,
+      filters
+    )
+
+    res.status(HTTP_STATUS.OK).json(
+      new ApiResponse(
+        HTTP_STATUS.OK,
+        SUCCESS_MESSAGES.BANK_RECONCILIATION_LINES_FETCHED,
+        {
+          items: lines.map(toBankReconciliationLineResponse),
+          summary,
+          pagination: getPaginationMetadata(filters.page, filters.limit, total),
+        }
+      )
+    )
+  }
+)
+
+/**
+ * Clear bank reconciliation lines controller
+ * Ticks or unticks lines and returns the updated difference
+ */
+export const clearBankReconciliationLinesController: RequestHandler =
+  asyncHandler(async (req: TenantRequest, res: Response) => {
+    const tenantContext = getTenantContext(req) as TenantContext
+
+    // Get validated params and body
+    const { id } = (req as TenantRequest & { params: { id: string } }).params
+    const data = (
+      req as TenantRequest & {
+        validatedData: ClearBankReconciliationLinesInput
+      }
+    ).validatedData
+
+    const detail = await clearBankReconciliationLines(
+      tenantContext.tenantId,
+      tenantContext.schemaName,
+      id,
+      data
+    )
+
+    res
+      .status(HTTP_STATUS.OK)
+      .json(
+        new ApiResponse(
+          HTTP_STATUS.OK,
+          SUCCESS_MESSAGES.BANK_RECONCILIATION_LINES_CLEARED,
+          toBankReconciliationDetailResponse(detail)
+        )
+      )
+  })
+
+/**
+ * Finalize bank reconciliation controller
+ * Saves the reconciliation report once the difference is zero
+ */
+export const completeBankReconciliationController: RequestHandler =
+  asyncHandler(async (req: TenantRequest, res: Response) => {
+    const tenantContext = getTenantContext(req) as TenantContext
+    const user = req.user as JwtUser
+
+    // Get validated params
+    const { id } = (req as TenantRequest & { params: { id: string } }).params
+
+    const detail = await completeBankReconciliation(
+      tenantContext.tenantId,
+      tenantContext.schemaName,
+      id,
+      user.id
+    )
+
+    await auditActionSafely(
+      req,
+      tenantContext.tenantId,
+      AUDIT_ACTIONS.BANK_RECONCILIATION_COMPLETED,
+      [toBankReconciliationAuditTarget(detail.reconciliation, detail.summary)],
+      'bank reconciliation'
+    )
+
+    res
+      .status(HTTP_STATUS.OK)
+      .json(
+        new ApiResponse(
+          HTTP_STATUS.OK,
+          SUCCESS_MESSAGES.BANK_RECONCILIATION_COMPLETED,
+          toBankReconciliationDetailResponse(detail)
+        )
+      )
+  })
+
+/**
+ * Get bank reconciliation report controller
+ */
+export const getBankReconciliationReport: RequestHandler = asyncHandler(
+  async (req: TenantRequest, res: Response) => {
+    const tenantContext = getTenantContext(req) as TenantContext
+
+    // Get validated params
+    const { id } = (req as TenantRequest & { params: { id: string } }).params
+
+    const report = await findBankReconciliationReport(
+      tenantContext.tenantId,
+      tenantContext.schemaName,
+      id
+    )
+
+    res
+      .status(HTTP_STATUS.OK)
+      .json(
+        new ApiResponse(
+          HTTP_STATUS.OK,
+          SUCCESS_MESSAGES.BANK_RECONCILIATION_REPORT_FETCHED,
+          report
+        )
+      )
+  }
+)
+
+/**
+ * Undo bank reconciliation controller
+ * Only the latest completed reconciliation of a bank account can be undone
+ */
+export const undoBankReconciliationController: RequestHandler = asyncHandler(
+  async (req: TenantRequest, res: Response) => {
+    const tenantContext = getTenantContext(req) as TenantContext
+    const user = req.user as JwtUser
+
+    // Get validated params
+    const { id } = (req as TenantRequest & { params: { id: string } }).params
+
+    const reconciliation = await undoBankReconciliation(
+      tenantContext.tenantId,
+      tenantContext.schemaName,
+      id,
+      user.id
+    )
+
+    await auditActionSafely(
+      req,
+      tenantContext.tenantId,
+      AUDIT_ACTIONS.BANK_RECONCILIATION_UNDONE,
+      [toBankReconciliationAuditTarget(reconciliation)],
+      'bank reconciliation'
+    )
+
+    res
+      .status(HTTP_STATUS.OK)
+      .json(
+        new ApiResponse(
+          HTTP_STATUS.OK,
+          SUCCESS_MESSAGES.BANK_RECONCILIATION_UNDONE,
+          toBankReconciliationResponse(reconciliation)
+        )
+      )
+  }
+)
+
+/**
+ * Cancel bank reconciliation controller
+ * Discards a session in progress and unclears its lines
+ */
+export const cancelBankReconciliationController: RequestHandler = asyncHandler(
+  async (req: TenantRequest, res: Response) => {
+    const tenantContext = getTenantContext(req) as TenantContext
+
+    // Get validated params
+    const { id } = (req as TenantRequest & { params: { id: string } }).params
+
+    const reconciliation = await cancelBankReconciliation(
+      tenantContext.tenantId,
+      tenantContext.schemaName,
+      id
+    )
+
+    await auditActionSafely(
+      req,
+      tenantContext.tenantId,
+      AUDIT_ACTIONS.BANK_RECONCILIATION_CANCELLED,
+      [toBankReconciliationAuditTarget(reconciliation)],
+      'bank reconciliation'
+    )
+
+    res
+      .status(HTTP_STATUS.OK)
+      .json(
+        new ApiResponse(
+          HTTP_STATUS.OK,
+          SUCCESS_MESSAGES.BANK_RECONCILIATION_CANCELLED,
+          { id: reconciliation.id }
+        )
+      )
+  }
+)
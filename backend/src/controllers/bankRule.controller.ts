@@ -0,0 +1,356 @@
+import type { RequestHandler } from 'express'
+import { Response } from 'express'
+
+import type {
+  ApplyBankRulesData,
+  BankRuleDefinition,
+  CreateBankRuleData,
+  UpdateBankRuleData,
+} from '@/types/bankRule.type'
+import type { JwtUser } from '@/types/jwt.type'
+import { AUDIT_ACTIONS, AUDIT_ENTITY_TYPES } from '@constants/audit'
+import { HTTP_STATUS } from '@constants/http'
+import { SUCCESS_MESSAGES } from '@constants/success'
+import {
+  getTenantContext,
+  type TenantContext,
+  type TenantRequest,
+} from '@middlewares/tenantContext.middleware'
+import type { BankCategorizationRule } from '@models/BankCategorizationRule'
+import {
+  applyBankRules,
+  createBankRule,
+  deleteBankRule,
+  findBankRuleById,
+  findBankRules,
+  reorderBankRules,
+  testBankRule,
+  updateBankRule,
+} from '@queries/bankRule.queries'
+import type {
+  BankRuleListInput,
+  ReorderBankRulesInput,
+} from '@schema/bankRule.schema'
+import { getPaginationMetadata } from '@schema/shared.schema'
+import { auditActionSafely } from '@services/audit.service'
+import { ApiResponse } from '@utils/ApiResponse'
+import asyncHandler from '@utils/asyncHandler'
+
+/**
+ * Transform bank rule to response format
+ */
+const toBankRuleResponse = (rule: BankCategorizationRule) => ({
+  id: rule.id,
+  name: rule.name,
+  description: rule.description ?? null,
+  priority: rule.priority,
+  matchType: rule.matchType,
+  conditions: rule.conditions,
+  transactionType: rule.transactionType,
+  accountId: rule.accountId ?? null,
+  account: rule.account
+    ? {
+        id: rule.account.id,
+        name: rule.account.name,
+        currencyCode: rule.account.currencyCode,
+      }
+    : null,
+  categoryAccountId: rule.categoryAccountId,
+  categoryAccount: rule.categoryAccount
+    ? {
+        id: rule.categoryAccount.id,
+        accountNumber: rule.categoryAccount.accountNumber ?? null,
+        accountName: rule.categoryAccount.accountName,
+      }
+    : null,
+  taxGroupId: rule.taxGroupId ?? null,
+  taxGroup: rule.taxGroup
+    ? { id: rule.taxGroup.id, name: rule.taxGroup.name }
+    : null,
+  isActive: rule.isActive,
+  createdBy: rule.createdBy,
+  createdAt: rule.createdAt,
+  updatedAt: rule.updatedAt,
+})
+
+/**
+ * Get all bank rules controller
+ */
+export const getAllBankRules: RequestHandler = asyncHandler(
+  async (req: TenantRequest, res: Response) => {
+    const tenantContext = getTenantContext(req) as TenantContext
+
+    // Get validated query parameters
+    const filters = (
+      req as TenantRequest & { validatedData: BankRuleListInput }
+    ).validatedData
+
+    const { rules, total } = await findBankRules(
+      tenantContext.tenantId,
+      tenantContext.schemaName,
+      filters
+    )
+
+    res.status(HTTP_STATUS.OK).json(
+      new ApiResponse(HTTP_STATUS.OK, SUCCESS_MESSAGES.BANK_RULES_FETCHED, {
+        items: rules.map(toBankRuleResponse),
+        pagination: getPaginationMetadata(filters.page, filters.limit, total),
+      })
+    )
+  }
+)
+
+/**
+ * Get bank rule by ID controller
+ */
+export const getBankRuleById: RequestHandler = asyncHandler(
+  async (req: TenantRequest, res: Response) => {
+    const tenantContext = getTenantContext(req) as TenantContext
+
+    // Get validated params
+    const { id } = (req as TenantRequest & { params: { id: string } }).params
+
+    const rule = await findBankRuleById(
+      tenantContext.tenantId,
+      tenantContext.schemaName,
+      id
+    )
+
+    res
+      .status(HTTP_STATUS.OK)
+      .json(
+        new ApiResponse(
+          HTTP_STATUS.OK,
+          SUCCESS_MESSAGES.BANK_RULE_FETCHED,
+          toBankRuleResponse(rule)
+        )
+      )
+  }
+)
+
+/**
+ * Create bank rule controller
+ */
+export const createBankRuleController: RequestHandler = asyncHandler(
+  async (req: TenantRequest, res: Response) => {
+    const tenantContext = getTenantContext(req) as TenantContext
+    const user = req.user as JwtUser
+
+    // Get validated body
+    const data = (req as TenantRequest & { validatedData: CreateBankRuleData })
+      .validatedData
+
+    const rule = await createBankRule(
+      tenantContext.tenantId,
+      tenantContext.schemaName,
+      user.id,
+      data
+    )
+
+    await auditActionSafely(
+      req,
+      tenantContext.tenantId,
+      AUDIT_ACTIONS.BANK_RULE_CREATED,
+      [{ type: AUDIT_ENTITY_TYPES.BANK_RULE, id: rule.id, name: rule.name }],
+      'bank rule'
+    )
+
+    res
+      .status(HTTP_STATUS.CREATED)
+      .json(
+        new ApiResponse(
+          HTTP_STATUS.CREATED,
+          SUCCESS_MESSAGES.BANK_RULE_CREATED,
+          toBankRuleResponse(rule)
+        )
+      )
+  }
+)
+
+/**
+ * Update bank rule controller
+ */
+export const updateBankRuleController: RequestHandler = asyncHandler(
+  async (req: TenantRequest, res: Response) => {
+    const tenantContext = getTenantContext(req) as TenantContext
+
+    // Get validated params and body
+    const { id } = (req as TenantRequest & { params: { id: string } }).params
+    const data = (req as TenantRequest & { validatedData: UpdateBankRuleData })
+      .validatedData
+
+    const rule = await updateBankRule(
+      tenantContext.tenantId,
+      tenantContext.schemaName,
+      id,
+      data
+    )
+
+    await auditActionSafely(
+      req,
+      tenantContext.tenantId,
+      AUDIT_ACTIONS.BANK_RULE_UPDATED,
+      [{ type: AUDIT_ENTITY_TYPES.BANK_RULE, id: rule.id, name: rule.name }],
+      'bank rule'
+    )
+
+    res
+      .status(HTTP_STATUS.OK)
+      .json(
+        new ApiResponse(
+          HTTP_STATUS.OK,
+          SUCCESS_MESSAGES.BANK_RULE_UPDATED,
+          toBankRuleResponse(rule)
+        )
+      )
+  }
+)
+
+/**
+ * Delete bank rule controller
+ * Transactions already categorized by the rule are not changed
+ */
+export const deleteBankRuleById: RequestHandler = asyncHandler(
+  async (req: TenantRequest, res: Response) => {
+    const tenantContext = getTenantContext(req) as TenantContext
+
+    // Get validated params
+    const { id } = (req as TenantRequest & { params: { id: string } }).params
+
+    await deleteBankRule(tenantContext.tenantId, tenantContext.schemaName, id)
+
+    await auditActionSafely(
+      req,
+      tenantContext.tenantId,
+      AUDIT_ACTIONS.BANK_RULE_DELETED,
+      [{ type: AUDIT_ENTITY_TYPES.BANK_RULE, id }],
+      'bank rule'
+    )
+
+    res.status(HTTP_STATUS.OK).json(
+      new ApiResponse(HTTP_STATUS.OK, SUCCESS_MESSAGES.BANK_RULE_DELETED, {
+        id,
+      })
+    )
+  }
+)
+
+/**
+ * Reorder bank rules controller
+ */
+export const reorderBankRulesController: RequestHandler = asyncHandler(
+  async (req: TenantRequest, res: Response) => {
+    const tenantContext = getTenantContext(req) as TenantContext
+
+    // Get validated body
+    const { ruleIds } = (
+      req as TenantRequest & { validatedData: ReorderBankRulesInput }
+    ).validatedData
+
+    const rules = await reorderBankRules(
+      tenantContext.tenantId,
+      tenantContext.schemaName,
+      ruleIds
+    )
+
+    await auditActionSafely(
+      req,
+      tenantContext.tenantId,
+      AUDIT_ACTIONS.BANK_RULES_REORDERED,
+      rules.map((rule) => ({
+        type: AUDIT_ENTITY_TYPES.BANK_RULE,
+        id: rule.id,
+        priority: rule.priority,
+      })),
+      'bank rule'
+    )
+
+    res
+      .status(HTTP_STATUS.OK)
+      .json(
+        new ApiResponse(
+          HTTP_STATUS.OK,
+          SUCCESS_MESSAGES.BANK_RULES_REORDERED,
+          rules.map(toBankRuleResponse)
+        )
+      )
+  }
+)
+
+/**
+ * Test bank rule controller
+ * Previews a rule against categorized transactions without saving it
+ */
+export const testBankRuleController: RequestHandler = asyncHandler(
+  async (req: TenantRequest, res: Response) => {
+    const tenantContext = getTenantContext(req) as TenantContext
+
+    // Get validated body
+    const definition = (
+      req as TenantRequest & { validatedData: BankRuleDefinition }
+    ).validatedData
+
+    const result = await testBankRule(
+      tenantContext.tenantId,
+      tenantContext.schemaName,
+      definition
+    )
+
+    res
+      .status(HTTP_STATUS.OK)
+      .json(
+        new ApiResponse(
+          HTTP_STATUS.OK,
+          SUCCESS_MESSAGES.BANK_RULE_TESTED,
+          result
+        )
+      )
+  }
+)
+
+/**
+ * Apply bank rules controller
+ * Categorizes inbox transactions with the first rule matching each of them
+ */
+export const applyBankRulesController: RequestHandler = asyncHandler(
+  async (req: TenantRequest, res: Response) => {
+    const tenantContext = getTenantContext(req) as TenantContext
+    const user = req.user as JwtUser
+
+    // Get validated body
+    const data = (req as TenantRequest & { validatedData: ApplyBankRulesData })
+      .validatedData
+
+    const result = await applyBankRules(
+      tenantContext.tenantId,
+      tenantContext.schemaName,
+      user.id,
+      data
+    )
+
+    if (result.categorized.length > 0) {
+      await auditActionSafely(
+        req,
+        tenantContext.tenantId,
+        AUDIT_ACTIONS.BANK_RULES_APPLIED,
+        result.categorized.map((item) => ({
+          type: AUDIT_ENTITY_TYPES.BANK_TRANSACTION,
+          id: item.transactionId,
+          ruleId: item.ruleId,
+          ...(item.journalEntryId && { journalEntryId: item.journalEntryId }),
+        })),
+        'bank rule'
+      )
+    }
+
+    res
+      .status(HTTP_STATUS.OK)
+      .json(
+        new ApiResponse(
+          HTTP_STATUS.OK,
+          SUCCESS_MESSAGES.BANK_RULES_APPLIED,
+          result
+        )
+      )
+  }
+)
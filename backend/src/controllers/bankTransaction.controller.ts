@@ -0,0 +1,425 @@
+import type { RequestHandler } from 'express'
+import { Response } from 'express'
+
+import type { AuditTarget } from '@/types/audit.type'
+import type { BankTransactionSuggestion } from '@/types/bankRule.type'
+import type { JwtUser } from '@/types/jwt.type'
+import { AUDIT_ACTIONS, AUDIT_ENTITY_TYPES } from '@constants/audit'
+import { HTTP_STATUS } from '@constants/http'
+import { SUCCESS_MESSAGES } from '@constants/success'
+import {
+  getTenantContext,
+  type TenantContext,
+  type TenantRequest,
+} from '@middlewares/tenantContext.middleware'
+import type { BankStatementImport } from '@models/BankStatementImport'
+import type { BankTransaction } from '@models/BankTransaction'
+import {
+  categorizeBankTransaction,
+  excludeBankTransaction,
+  findBankStatementImports,
+  findBankTransactionDetail,
+  findBankTransactions,
+  importBankStatement,
+  restoreBankTransaction,
+} from '@queries/bankTransaction.queries'
+import type {
+  BankStatementImportListInput,
+  BankTransactionListInput,
+  CategorizeBankTransactionInput,
+  ImportBankStatementInput,
+  PreviewCsvStatementInput,
+} from '@schema/bankTransaction.schema'
+import { getPaginationMetadata } from '@schema/shared.schema'
+import { auditActionSafely } from '@services/audit.service'
+import { ApiResponse } from '@utils/ApiResponse'
+import asyncHandler from '@utils/asyncHandler'
+import { previewCsvStatement } from '@utils/bankStatementParser'
+import { formatDateToString } from '@utils/date'
+
+/**
+ * Transform bank transaction to response format
+ * @param suggestion - Suggested category of an uncategorized transaction
+ */
+const toBankTransactionResponse = (
+  transaction: BankTransaction,
+  suggestion: BankTransactionSuggestion | null = null
+) => ({
+  id: transaction.id,
+  accountId: transaction.accountId,
+  account: transaction.account
+    ? {
+        id: transaction.account.id,
+        name: transaction.account.name,
+        currencyCode: transaction.account.currencyCode,
+      }
+    : null,
+  importId: transaction.importId ?? null,
+  transactionDate: formatDateToString(transaction.transactionDate),
+  amount: Number(transaction.amount),
+  currencyCode: transaction.currencyCode,
+  description: transaction.description ?? null,
+  payee: transaction.payee ?? null,
+  reference: transaction.reference ?? null,
+  fitid: transaction.fitid ?? null,
+  status: transaction.status,
+  journalEntryId: transaction.journalEntryId ?? null,
+  journalEntry: transaction.journalEntry
+    ? {
+        id: transaction.journalEntry.id,
+        entryNumber: transaction.journalEntry.entryNumber ?? null,
+        status: transaction.journalEntry.status,
+      }
+    : null,
+  categoryAccountId: transaction.categoryAccountId ?? null,
+  categoryAccount: transaction.categoryAccount
+    ? {
+        id: transaction.categoryAccount.id,
+        accountNumber: transaction.categoryAccount.accountNumber ?? null,
+        accountName: transaction.categoryAccount.accountName,
+      }
+    : null,
+  taxGroupId: transaction.taxGroupId ?? null,
+  taxGroup: transaction.taxGroup
+    ? { id: transaction.taxGroup.id, name: transaction.taxGroup.name }
+    : null,
+  ruleId: transaction.ruleId ?? null,
+  suggestion,
+  categorizedAt: transaction.categorizedAt ?? null,
+  categorizedBy: transaction.categorizedBy ?? null,
+  createdBy: transaction.createdBy,
+  createdAt: transaction.createdAt,
+  updatedAt: transaction.updatedAt,
+})
+
+/**
+ * Transform statement import to response format
+ */
+const toBankStatementImportResponse = (
+  statementImport: BankStatementImport
+) => ({
+  id: statementImport.id,
+  accountId: statementImport.accountId,
+  account: statementImport.account
+    ? {
+        id: statementImport.account.id,
+        name: statementImport.account.name,
+        currencyCode: statementImport.account.currencyCode,
+      }
+    : null,
+  fileName: statementImport.fileName ?? null,
+  format: statementImport.format,
+  totalCount: statementImport.totalCount,
+  importedCount: statementImport.importedCount,
+  duplicateCount: statementImport.duplicateCount,
+  errors: statementImport.errors,
+  createdBy: statementImport.createdBy,
+  createdAt: statementImport.createdAt,
+})
+
+/**
+ * Audit target of a bank transaction
+ */
+const toBankTransactionAuditTarget = (
+  transaction: BankTransaction
+): AuditTarget => ({
+  type: AUDIT_ENTITY_TYPES.BANK_TRANSACTION,
+  id: transaction.id,
+  accountId: transaction.accountId,
+  amount: Number(transaction.amount),
+  ...(transaction.journalEntryId && {
+    journalEntryId: transaction.journalEntryId,
+  }),
+  ...(transaction.categoryAccountId && {
+    categoryAccountId: transaction.categoryAccountId,
+  }),
+})
+
+/**
+ * Get all bank transactions controller
+ * Retrieves imported statement lines, most recent first
+ */
+export const getAllBankTransactions: RequestHandler = asyncHandler(
+  async (req: TenantRequest, res: Response) => {
+    const tenantContext = getTenantContext(req) as TenantContext
+
+    // Get validated query parameters
+    const filters = (
+      req as TenantRequest & { validatedData: BankTransactionListInput }
+    ).validatedData
+
+    const { transactions, suggestions, total } = await findBankTransactions(
+      tenantContext.tenantId,
+      tenantContext.schemaName,
+      filters
+    )
+
+    res.status(HTTP_STATUS.OK).json(
+      new ApiResponse(
+        HTTP_STATUS.OK,
+        SUCCESS_MESSAGES.BANK_TRANSACTIONS_FETCHED,
+        {
+          items: transactions.map((transaction) =>
+            toBankTransactionResponse(
+              transaction,
+              suggestions.get(transaction.id) ?? null
+            )
+          ),
+          pagination: getPaginationMetadata(filters.page, filters.limit, total),
+        }
+      )
+    )
+  }
+)
+
+/**
+ * Get bank transaction by ID controller
+ */
+export const getBankTransactionById: RequestHandler = asyncHandler(
+  async (req: TenantRequest, res: Response) => {
+    const tenantContext = getTenantContext(req) as TenantContext
+
+    // Get validated params
+    const { id } = (req as TenantRequest & { params: { id: string } }).params
+
+    const { transaction, suggestion } = await findBankTransactionDetail(
+      tenantContext.tenantId,
+      tenantContext.schemaName,
+      id
+    )
+
+    res
+      .status(HTTP_STATUS.OK)
+      .json(
+        new ApiResponse(
+          HTTP_STATUS.OK,
+          SUCCESS_MESSAGES.BANK_TRANSACTION_FETCHED,
+          toBankTransactionResponse(transaction, suggestion)
+        )
+      )
+  }
+)
+
+/**
+ * Get all statement imports controller
+ */
+export const getAllBankStatementImports: RequestHandler = asyncHandler(
+  async (req: TenantRequest, res: Response) => {
+    const tenantContext = getTenantContext(req) as TenantContext
+
+    // Get validated query parameters
+    const filters = (
+      req as TenantRequest & { validatedData: BankStatementImportListInput }
+    ).validatedData
+
+    const { imports, total } = await findBankStatementImports(
+      tenantContext.tenantId,
+      tenantContext.schemaName,
+      filters
+    )
+
+    res.status(HTTP_STATUS.OK).json(
+      new ApiResponse(
+        HTTP_STATUS.OK,
+        SUCCESS_MESSAGES.BANK_STATEMENT_IMPORTS_FETCHED,
+        {
+          items: imports.map(toBankStatementImportResponse),
+          pagination: getPaginationMetadata(filters.page, filters.limit, total),
+        }
+      )
+    )
+  }
+)
+
+/**
+ * Preview CSV statement controller
+ * Returns the headers and first rows of a CSV file so its columns can be
+ * mapped before importing
+ */
+export const previewCsvStatementController: RequestHandler = asyncHandler(
+  async (req: TenantRequest, res: Response) => {
+    // Get validated body
+    const { content } = (
+      req as TenantRequest & { validatedData: PreviewCsvStatementInput }
+    ).validatedData
+
+    res
+      .status(HTTP_STATUS.OK)
+      .json(
+        new ApiResponse(
+          HTTP_STATUS.OK,
+          SUCCESS_MESSAGES.BANK_STATEMENT_PREVIEWED,
+          previewCsvStatement(content)
+        )
+      )
+  }
+)
+
+/**
+ * Import bank statement controller
+ * Adds the statement lines not imported before to the transactions inbox
+ */
+export const importBankStatementController: RequestHandler = asyncHandler(
+  async (req: TenantRequest, res: Response) => {
+    const tenantContext = getTenantContext(req) as TenantContext
+    const user = req.user as JwtUser
+
+    // Get validated body
+    const data = (
+      req as TenantRequest & { validatedData: ImportBankStatementInput }
+    ).validatedData
+
+    const statementImport = await importBankStatement(
+      tenantContext.tenantId,
+      tenantContext.schemaName,
+      user.id,
+      data
+    )
+
+    // Log audit
+    await auditActionSafely(
+      req,
+      tenantContext.tenantId,
+      AUDIT_ACTIONS.BANK_STATEMENT_IMPORTED,
+      [
+        {
+          type: AUDIT_ENTITY_TYPES.BANK_STATEMENT_IMPORT,
+          id: statementImport.id,
+          accountId: statementImport.accountId,
+          format: statementImport.format,
+          fileName: statementImport.fileName ?? null,
+          importedCount: statementImport.importedCount,
+          duplicateCount: statementImport.duplicateCount,
+          errorCount: statementImport.errors.length,
+        },
+      ],
+      'statement import'
+    )
+
+    res
+      .status(HTTP_STATUS.CREATED)
+      .json(
+        new ApiResponse(
+          HTTP_STATUS.CREATED,
+          SUCCESS_MESSAGES.BANK_STATEMENT_IMPORTED,
+          toBankStatementImportResponse(statementImport)
+        )
+      )
+  }
+)
+
+/**
+ * Categorize bank transaction controller
+ * Creates the journal entry between the bank account and the category account
+ */
+export const categorizeBankTransactionController: RequestHandler = asyncHandler(
+  async (req: TenantRequest, res: Response) => {
+    const tenantContext = getTenantContext(req) as TenantContext
+    const user = req.user as JwtUser
+
+    // Get validated params and body
+    const { id } = (req as TenantRequest & { params: { id: string } }).params
+    const data = (
+      req as TenantRequest & { validatedData: CategorizeBankTransactionInput }
+    ).validatedData
+
+    const transaction = await categorizeBankTransaction(
+      tenantContext.tenantId,
+      tenantContext.schemaName,
+      user.id,
+      id,
+      data
+    )
+
+    await auditActionSafely(
+      req,
+      tenantContext.tenantId,
+      AUDIT_ACTIONS.BANK_TRANSACTION_CATEGORIZED,
+      [toBankTransactionAuditTarget(transaction)],
+      'bank transaction'
+    )
+
+    res
+      .status(HTTP_STATUS.OK)
+      .json(
+        new ApiResponse(
+          HTTP_STATUS.OK,
+          SUCCESS_MESSAGES.BANK_TRANSACTION_CATEGORIZED,
+          toBankTransactionResponse(transaction)
+        )
+      )
+  }
+)
+
+/**
+ * Exclude bank transaction controller
+ */
+export const excludeBankTransactionController: RequestHandler = asyncHandler(
+  async (req: TenantRequest, res: Response) => {
+    const tenantContext = getTenantContext(req) as TenantContext
+
+    // Get validated params
+    const { id } = (req as TenantRequest & { params: { id: string } }).params
+
+    const transaction = await excludeBankTransaction(
+      tenantContext.tenantId,
+      tenantContext.schemaName,
+      id
+    )
+
+    await auditActionSafely(
+      req,
+      tenantContext.tenantId,
+      AUDIT_ACTIONS.BANK_TRANSACTION_EXCLUDED,
+      [toBankTransactionAuditTarget(transaction)],
+      'bank transaction'
+    )
+
+    res
+      .status(HTTP_STATUS.OK)
+      .json(
+        new ApiResponse(
+          HTTP_STATUS.OK,
+          SUCCESS_MESSAGES.BANK_TRANSACTION_EXCLUDED,
+          toBankTransactionResponse(transaction)
+        )
+      )
+  }
+)
+
+/**
+ * Restore bank transaction controller
+ * Puts an excluded transaction back in the inbox
+ */
+export const restoreBankTransactionController: RequestHandler = asyncHandler(
+  async (req: TenantRequest, res: Response) => {
+    const tenantContext = getTenantContext(req) as TenantContext
+
+    // Get validated params
+    const { id } = (req as TenantRequest & { params: { id: string } }).params
+
+    const transaction = await restoreBankTransaction(
+      tenantContext.tenantId,
+      tenantContext.schemaName,
+      id
+    )
+
+    await auditActionSafely(
+      req,
+      tenantContext.tenantId,
+      AUDIT_ACTIONS.BANK_TRANSACTION_RESTORED,
+      [toBankTransactionAuditTarget(transaction)],
+      'bank transaction'
+    )
+
+    res
+      .status(HTTP_STATUS.OK)
+      .json(
+        new ApiResponse(
+          HTTP_STATUS.OK,
+          SUCCESS_MESSAGES.BANK_TRANSACTION_RESTORED,
+          toBankTransactionResponse(transaction)
+        )
+      )
+  }
+)
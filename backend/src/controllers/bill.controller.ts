@@ -0,0 +1,468 @@
+import type { RequestHandler } from 'express'
+import { Response } from 'express'
+
+import type { AuditTarget } from '@/types/audit.type'
+import type {
+  CreateBillData,
+  UpdateBillData,
+  UpdateBillSettingsData,
+  VoidBillData,
+} from '@/types/bill.type'
+import type { JwtUser } from '@/types/jwt.type'
+import { AUDIT_ACTIONS, AUDIT_ENTITY_TYPES } from '@constants/audit'
+import { HTTP_STATUS } from '@constants/http'
+import { SUCCESS_MESSAGES } from '@constants/success'
+import {
+  getTenantContext,
+  type TenantContext,
+  type TenantRequest,
+} from '@middlewares/tenantContext.middleware'
+import type { Bill } from '@models/Bill'
+import type { BillLine } from '@models/BillLine'
+import type { BillSettings } from '@models/BillSettings'
+import type { ChartOfAccount } from '@models/ChartOfAccount'
+import {
+  createBill,
+  deleteBill,
+  findBillById,
+  findBills,
+  findBillSettings,
+  getBillStatusDate,
+  postBill,
+  updateBill,
+  updateBillSettings,
+  voidBill,
+} from '@queries/bill.queries'
+import type { BillListInput } from '@schema/bill.schema'
+import { getPaginationMetadata } from '@schema/shared.schema'
+import { auditActionSafely } from '@services/audit.service'
+import { ApiResponse } from '@utils/ApiResponse'
+import asyncHandler from '@utils/asyncHandler'
+import { formatDateToString } from '@utils/date'
+
+/**
+ * Transform an account of a bill to response format
+ */
+const toAccountResponse = (account?: ChartOfAccount) =>
+  account
+    ? {
+        id: account.id,
+        accountNumber: account.accountNumber ?? null,
+        accountName: account.accountName,
+      }
+    : null
+
+/**
+ * Transform bill line to response format
+ */
+const toBillLineResponse = (line: BillLine) => ({
+  id: line.id,
+  lineNumber: line.lineNumber,
+  description: line.description,
+  quantity: Number(line.quantity),
+  unitPrice: Number(line.unitPrice),
+  amount: Number(line.amount),
+  accountId: line.accountId,
+  account: toAccountResponse(line.account),
+  taxGroupId: line.taxGroupId ?? null,
+  taxGroup: line.taxGroup
+    ? { id: line.taxGroup.id, name: line.taxGroup.name }
+    : null,
+  taxAmount: Number(line.taxAmount),
+  isTaxRecoverable: line.isTaxRecoverable,
+  taxBreakdown: line.taxBreakdown,
+})
+
+/**
+ * Transform bill to response format
+ * The status is reported as of today, so open bills past their due date are
+ * returned as overdue
+ */
+const toBillResponse = (bill: Bill, asOf: Date) => ({
+  id: bill.id,
+  billType: bill.billType,
+  billNumber: bill.billNumber ?? null,
+  contactId: bill.contactId ?? null,
+  contact: bill.contact
+    ? {
+        id: bill.contact.id,
+        displayName: bill.contact.displayName,
+        email: bill.contact.email ?? null,
+      }
+    : null,
+  status: bill.getEffectiveStatus(asOf),
+  billDate: formatDateToString(bill.billDate),
+  dueDate: formatDateToString(bill.dueDate),
+  reference: bill.reference ?? null,
+  memo: bill.memo ?? null,
+  subtotal: Number(bill.subtotal),
+  taxAmount: Number(bill.taxAmount),
+  recoverableTaxAmount: Number(bill.recoverableTaxAmount),
+  total: Number(bill.total),
+  amountPaid: Number(bill.amountPaid),
+  balanceDue: bill.getBalanceDue(),
+  paymentAccountId: bill.paymentAccountId ?? null,
+  paymentAccount: toAccountResponse(bill.paymentAccount),
+  payableAccountId: bill.payableAccountId ?? null,
+  journalEntryId: bill.journalEntryId ?? null,
+  voidJournalEntryId: bill.voidJournalEntryId ?? null,
+  postedAt: bill.postedAt ?? null,
+  postedBy: bill.postedBy ?? null,
+  voidedAt: bill.voidedAt ?? null,
+  voidedBy: bill.voidedBy ?? null,
+  voidReason: bill.voidReason ?? null,
+  ...(bill.lines ? { lines: bill.lines.map(toBillLineResponse) } : {}),
+  createdBy: bill.createdBy,
+  createdAt: bill.createdAt,
+  updatedAt: bill.updatedAt,
+})
+
+/**
+ * Transform bill settings to response format
+ */
+const toBillSettingsResponse = (settings: BillSettings) => ({
+  payableAccountId: settings.payableAccountId ?? null,
+  payableAccount: toAccountResponse(settings.payableAccount),
+  taxAccountId: settings.taxAccountId ?? null,
+  taxAccount: toAccountResponse(settings.taxAccount),
+  updatedAt: settings.updatedAt,
+})
+
+/**
+ * Name of a bill in the audit log: its number, or its vendor
+ */
+const getBillAuditName = (bill: Bill): string =>
+  bill.billNumber ?? bill.contact?.displayName ?? bill.billType
+
+/**
+ * Audit target of a bill
+ */
+const toBillAuditTarget = (bill: Bill): AuditTarget => ({
+  type: AUDIT_ENTITY_TYPES.BILL,
+  id: bill.id,
+  name: getBillAuditName(bill),
+})
+
+/**
+ * Get all bills controller
+ */
+export const getAllBills: RequestHandler = asyncHandler(
+  async (req: TenantRequest, res: Response) => {
+    const tenantContext = getTenantContext(req) as TenantContext
+
+    // Get validated query parameters
+    const filters = (req as TenantRequest & { validatedData: BillListInput })
+      .validatedData
+
+    const { bills, total } = await findBills(
+      tenantContext.tenantId,
+      tenantContext.schemaName,
+      filters
+    )
+
+    const asOf = getBillStatusDate()
+    res.status(HTTP_STATUS.OK).json(
+      new ApiResponse(HTTP_STATUS.OK, SUCCESS_MESSAGES.BILLS_FETCHED, {
+        items: bills.map((bill) => toBillResponse(bill, asOf)),
+        pagination: getPaginationMetadata(filters.page, filters.limit, total),
+      })
+    )
+  }
+)
+
+/**
+ * Get bill by ID controller
+ */
+export const getBillById: RequestHandler = asyncHandler(
+  async (req: TenantRequest, res: Response) => {
+    const tenantContext = getTenantContext(req) as TenantContext
+
+    // Get validated params
+    const { id } = (req as TenantRequest & { params: { id: string } }).params
+
+    const bill = await findBillById(
+      tenantContext.tenantId,
+      tenantContext.schemaName,
+      id
+    )
+
+    res
+      .status(HTTP_STATUS.OK)
+      .json(
+        new ApiResponse(
+          HTTP_STATUS.OK,
+          SUCCESS_MESSAGES.BILL_FETCHED,
+          toBillResponse(bill, getBillStatusDate())
+        )
+      )
+  }
+)
+
+/**
+ * Create bill controller
+ */
+export const createBillController: RequestHandler = asyncHandler(
+  async (req: TenantRequest, res: Response) => {
+    const tenantContext = getTenantContext(req) as TenantContext
+    const user = req.user as JwtUser
+
+    // Get validated body
+    const data = (req as TenantRequest & { validatedData: CreateBillData })
+      .validatedData
+
+    const bill = await createBill(
+      tenantContext.tenantId,
+      tenantContext.schemaName,
+      user.id,
+      data
+    )
+
+    await auditActionSafely(
+      req,
+      tenantContext.tenantId,
+      AUDIT_ACTIONS.BILL_CREATED,
+      [toBillAuditTarget(bill)],
+      'bill'
+    )
+
+    res
+      .status(HTTP_STATUS.CREATED)
+      .json(
+        new ApiResponse(
+          HTTP_STATUS.CREATED,
+          SUCCESS_MESSAGES.BILL_CREATED,
+          toBillResponse(bill, getBillStatusDate())
+        )
+      )
+  }
+)
+
+/**
+ * Update bill controller (drafts only)
+ */
+export const updateBillController: RequestHandler = asyncHandler(
+  async (req: TenantRequest, res: Response) => {
+    const tenantContext = getTenantContext(req) as TenantContext
+    const user = req.user as JwtUser
+
+    // Get validated params and body
+    const { id } = (req as TenantRequest & { params: { id: string } }).params
+    const data = (req as TenantRequest & { validatedData: UpdateBillData })
+      .validatedData
+
+    const bill = await updateBill(
+      tenantContext.tenantId,
+      tenantContext.schemaName,
+      id,
+      user.id,
+      data
+    )
+
+    await auditActionSafely(
+      req,
+      tenantContext.tenantId,
+      AUDIT_ACTIONS.BILL_UPDATED,
+      [toBillAuditTarget(bill)],
+      'bill'
+    )
+
+    res
+      .status(HTTP_STATUS.OK)
+      .json(
+        new ApiResponse(
+          HTTP_STATUS.OK,
+          SUCCESS_MESSAGES.BILL_UPDATED,
+          toBillResponse(bill, getBillStatusDate())
+        )
+      )
+  }
+)
+
+/**
+ * Delete bill controller (soft delete, drafts only)
+ */
+export const deleteBillById: RequestHandler = asyncHandler(
+  async (req: TenantRequest, res: Response) => {
+    const tenantContext = getTenantContext(req) as TenantContext
+
+    // Get validated params
+    const { id } = (req as TenantRequest & { params: { id: string } }).params
+
+    const bill = await deleteBill(
+      tenantContext.tenantId,
+      tenantContext.schemaName,
+      id
+    )
+
+    await auditActionSafely(
+      req,
+      tenantContext.tenantId,
+      AUDIT_ACTIONS.BILL_DELETED,
+      [toBillAuditTarget(bill)],
+      'bill'
+    )
+
+    res.status(HTTP_STATUS.OK).json(
+      new ApiResponse(HTTP_STATUS.OK, SUCCESS_MESSAGES.BILL_DELETED, {
+        id: bill.id,
+        deletedAt: bill.deletedAt ?? null,
+      })
+    )
+  }
+)
+
+/**
+ * Post bill controller
+ * Posts the bill journal entry, or submits it for approval
+ */
+export const postBillController: RequestHandler = asyncHandler(
+  async (req: TenantRequest, res: Response) => {
+    const tenantContext = getTenantContext(req) as TenantContext
+    const user = req.user as JwtUser
+
+    // Get validated params
+    const { id } = (req as TenantRequest & { params: { id: string } }).params
+
+    const bill = await postBill(
+      tenantContext.tenantId,
+      tenantContext.schemaName,
+      user.id,
+      id
+    )
+
+    await auditActionSafely(
+      req,
+      tenantContext.tenantId,
+      AUDIT_ACTIONS.BILL_POSTED,
+      [
+        toBillAuditTarget(bill),
+        {
+          type: AUDIT_ENTITY_TYPES.JOURNAL_ENTRY,
+          id: bill.journalEntryId as string,
+          name: getBillAuditName(bill),
+        },
+      ],
+      'bill'
+    )
+
+    res
+      .status(HTTP_STATUS.OK)
+      .json(
+        new ApiResponse(
+          HTTP_STATUS.OK,
+          SUCCESS_MESSAGES.BILL_POSTED,
+          toBillResponse(bill, getBillStatusDate())
+        )
+      )
+  }
+)
+
+/**
+ * Void bill controller
+ * Reverses the ledger impact of a posted bill
+ */
+export const voidBillController: RequestHandler = asyncHandler(
+  async (req: TenantRequest, res: Response) => {
+    const tenantContext = getTenantContext(req) as TenantContext
+    const user = req.user as JwtUser
+
+    // Get validated params and body
+    const { id } = (req as TenantRequest & { params: { id: string } }).params
+    const data = (req as TenantRequest & { validatedData: VoidBillData })
+      .validatedData
+
+    const bill = await voidBill(
+      tenantContext.tenantId,
+      tenantContext.schemaName,
+      user.id,
+      id,
+      data
+    )
+
+    await auditActionSafely(
+      req,
+      tenantContext.tenantId,
+      AUDIT_ACTIONS.BILL_VOIDED,
+      [toBillAuditTarget(bill)],
+      'bill'
+    )
+
+    res
+      .status(HTTP_STATUS.OK)
+      .json(
+        new ApiResponse(
+          HTTP_STATUS.OK,
+          SUCCESS_MESSAGES.BILL_VOIDED,
+          toBillResponse(bill, getBillStatusDate())
+        )
+      )
+  }
+)
+
+/**
+ * Get bill settings controller
+ */
+export const getBillSettings: RequestHandler = asyncHandler(
+  async (req: TenantRequest, res: Response) => {
+    const tenantContext = getTenantContext(req) as TenantContext
+
+    const settings = await findBillSettings(
+      tenantContext.tenantId,
+      tenantContext.schemaName
+    )
+
+    res
+      .status(HTTP_STATUS.OK)
+      .json(
+        new ApiResponse(
+          HTTP_STATUS.OK,
+          SUCCESS_MESSAGES.BILL_SETTINGS_FETCHED,
+          toBillSettingsResponse(settings)
+        )
+      )
+  }
+)
+
+/**
+ * Update bill settings controller
+ */
+export const updateBillSettingsController: RequestHandler = asyncHandler(
+  async (req: TenantRequest, res: Response) => {
+    const tenantContext = getTenantContext(req) as TenantContext
+
+    // Get validated body
+    const data = (
+      req as TenantRequest & { validatedData: UpdateBillSettingsData }
+    ).validatedData
+
+    const settings = await updateBillSettings(
+      tenantContext.tenantId,
+      tenantContext.schemaName,
+      data
+    )
+
+    await auditActionSafely(
+      req,
+      tenantContext.tenantId,
+      AUDIT_ACTIONS.BILL_SETTINGS_UPDATED,
+      [
+        {
+          type: AUDIT_ENTITY_TYPES.BILL_SETTINGS,
+          id: settings.id,
+          name: 'Bill settings',
+        },
+      ],
+      'bill'
+    )
+
+    res
+      .status(HTTP_STATUS.OK)
+      .json(
+        new ApiResponse(
+          HTTP_STATUS.OK,
+          SUCCESS_MESSAGES.BILL_SETTINGS_UPDATED,
+          toBillSettingsResponse(settings)
+        )
+      )
+  }
+)
@@ -0,0 +1,493 @@
+import type { RequestHandler } from 'express'
+import { Response } from 'express'
+import * as XLSX from 'xlsx'
+
+import type { AuditTarget } from '@/types/audit.type'
+import type {
+  ApplyBudgetGrowthData,
+  CopyBudgetActualsData,
+  CreateBudgetData,
+  UpdateBudgetData,
+} from '@/types/budget.type'
+import type { JwtUser } from '@/types/jwt.type'
+import { AUDIT_ACTIONS, AUDIT_ENTITY_TYPES } from '@constants/audit'
+import { BUDGET_FILE } from '@constants/budget'
+import { ERROR_MESSAGES } from '@constants/errors'
+import { HTTP_STATUS } from '@constants/http'
+import { SUCCESS_MESSAGES } from '@constants/success'
+import {
+  getTenantContext,
+  type TenantContext,
+  type TenantRequest,
+} from '@middlewares/tenantContext.middleware'
+import type { Budget } from '@models/Budget'
+import {
+  applyBudgetGrowth,
+  copyBudgetActuals,
+  createBudget,
+  deleteBudget,
+  findBudgetById,
+  findBudgets,
+  getBudgetFile,
+  getBudgetMonths,
+  groupBudgetLines,
+  importBudget,
+  updateBudget,
+} from '@queries/budget.queries'
+import { roundAmount } from '@queries/report.queries'
+import type { BudgetListInput, ImportBudgetInput } from '@schema/budget.schema'
+import { getPaginationMetadata } from '@schema/shared.schema'
+import { auditActionSafely } from '@services/audit.service'
+import { ApiResponse } from '@utils/ApiResponse'
+import asyncHandler from '@utils/asyncHandler'
+import { formatDateToString } from '@utils/date'
+
+/**
+ * Transform budget to response format
+ * Months and lines are included when the budget was fetched with its lines;
+ * lines hold one amount per month of the fiscal year
+ */
+const toBudgetResponse = (budget: Budget) => {
+  const months = budget.fiscalYear ? getBudgetMonths(budget.fiscalYear) : []
+
+  return {
+    id: budget.id,
+    fiscalYearId: budget.fiscalYearId,
+    fiscalYear: budget.fiscalYear
+      ? {
+          id: budget.fiscalYear.id,
+          name: budget.fiscalYear.name,
+          startDate: formatDateToString(budget.fiscalYear.startDate),
+          endDate: formatDateToString(budget.fiscalYear.endDate),
+        }
+      : null,
+    name: budget.name,
+    description: budget.description ?? null,
+    ...(budget.lines
+      ? {
+          months,
+          lines: [...groupBudgetLines(budget.lines, months.length)].map(
+            ([accountId, { account, amounts }]) => ({
+              accountId,
+              accountNumber: account?.accountNumber ?? null,
+              accountName: account?.accountName ?? null,
+              accountType: account?.accountType ?? null,
+              amounts,
+              total: roundAmount(
+                amounts.reduce((sum, amount) => sum + amount, 0)
+              ),
+            })
+          ),
+        }
+      : {}),
+    createdBy: budget.createdBy,
+    createdAt: budget.createdAt,
+    updatedAt: budget.updatedAt,
+  }
+}
+
+/**
+ * Audit target of a budget
+ */
+const toBudgetAuditTarget = (budget: Budget): AuditTarget => ({
+  type: AUDIT_ENTITY_TYPES.BUDGET,
+  id: budget.id,
+  name: budget.name,
+})
+
+/**
+ * Get all budgets controller
+ */
+export const getAllBudgets: RequestHandler = asyncHandler(
+  async (req: TenantRequest, res: Response) => {
+    const tenantContext = getTenantContext(req) as TenantContext
+
+    // Get validated query parameters
+    const filters = (req as TenantRequest & { validatedData: BudgetListInput })
+      .validatedData
+
+    const { budgets, total } = await findBudgets(
+      tenantContext.tenantId,
+      tenantContext.schemaName,
+      filters
+    )
+
+    res.status(HTTP_STATUS.OK).json(
+      new ApiResponse(HTTP_STATUS.OK, SUCCESS_MESSAGES.BUDGETS_FETCHED, {
+        items: budgets.map(toBudgetResponse),
+        pagination: getPaginationMetadata(filters.page, filters.limit, total),
+      })
+    )
+  }
+)
+
+/**
+ * Get budget by ID controller
+ */
+export const getBudgetById: RequestHandler = asyncHandler(
+  async (req: TenantRequest, res: Response) => {
+    const tenantContext = getTenantContext(req) as TenantContext
+
+    // Get validated params
+    const { id } = (req as TenantRequest & { params: { id: string } }).params
+
+    const budget = await findBudgetById(
+      tenantContext.tenantId,
+      tenantContext.schemaName,
+      id
+    )
+
+    res
+      .status(HTTP_STATUS.OK)
+      .json(
+        new ApiResponse(
+          HTTP_STATUS.OK,
+          SUCCESS_MESSAGES.BUDGET_FETCHED,
+          toBudgetResponse(budget)
+        )
+      )
+  }
+)
+
+/**
+ * Create budget controller
+ */
+export const createBudgetController: RequestHandler = asyncHandler(
+  async (req: TenantRequest, res: Response) => {
+    const tenantContext = getTenantContext(req) as TenantContext
+    const user = req.user as JwtUser
+
+    // Get validated body
+    const data = (req as TenantRequest & { validatedData: CreateBudgetData })
+      .validatedData
+
+    const budget = await createBudget(
+      tenantContext.tenantId,
+      tenantContext.schemaName,
+      user.id,
+      data
+    )
+
+    await auditActionSafely(
+      req,
+      tenantContext.tenantId,
+      AUDIT_ACTIONS.BUDGET_CREATED,
+      [toBudgetAuditTarget(budget)],
+      'budget'
+    )
+
+    res
+      .status(HTTP_STATUS.CREATED)
+      .json(
+        new ApiResponse(
+          HTTP_STATUS.CREATED,
+          SUCCESS_MESSAGES.BUDGET_CREATED,
+          toBudgetResponse(budget)
+        )
+      )
+  }
+)
+
+/**
+ * Update budget controller
+ * Lines, when given, replace all the lines of the budget
+ */
+export const updateBudgetController: RequestHandler = asyncHandler(
+  async (req: TenantRequest, res: Response) => {
+    const tenantContext = getTenantContext(req) as TenantContext
+
+    // Get validated params and body
+    const { id } = (req as TenantRequest & { params: { id: string } }).params
+    const data = (req as TenantRequest & { validatedData: UpdateBudgetData })
+      .validatedData
+
+    const budget = await updateBudget(
+      tenantContext.tenantId,
+      tenantContext.schemaName,
+      id,
+      data
+    )
+
+    await auditActionSafely(
+      req,
+      tenantContext.tenantId,
+      AUDIT_ACTIONS.BUDGET_UPDATED,
+      [toBudgetAuditTarget(budget)],
+      'budget'
+    )
+
+    res
+      .status(HTTP_STATUS.OK)
+      .json(
+        new ApiResponse(
+          HTTP_STATUS.OK,
+          SUCCESS_MESSAGES.BUDGET_UPDATED,
+          toBudgetResponse(budget)
+        )
+      )
+  }
+)
+
+/**
+ * Delete budget controller (soft delete)
+ */
+export const deleteBudgetById: RequestHandler = asyncHandler(
+  async (req: TenantRequest, res: Response) => {
+    const tenantContext = getTenantContext(req) as TenantContext
+
+    // Get validated params
+    const { id } = (req as TenantRequest & { params: { id: string } }).params
+
+    const budget = await deleteBudget(
+      tenantContext.tenantId,
+      tenantContext.schemaName,
+      id
+    )
+
+    await auditActionSafely(
+      req,
+      tenantContext.tenantId,
+      AUDIT_ACTIONS.BUDGET_DELETED,
+      [toBudgetAuditTarget(budget)],
+      'budget'
+    )
+
+    res.status(HTTP_STATUS.OK).json(
+      new ApiResponse(HTTP_STATUS.OK, SUCCESS_MESSAGES.BUDGET_DELETED, {
+        id: budget.id,
+        deletedAt: budget.deletedAt ?? null,
+      })
+    )
+  }
+)
+
+/**
+ * Copy budget actuals controller
+ * Replaces the budget lines with the actuals of the same months a year
+ * earlier, grown by a percentage
+ */
+export const copyBudgetActualsController: RequestHandler = asyncHandler(
+  async (req: TenantRequest, res: Response) => {
+    const tenantContext = getTenantContext(req) as TenantContext
+
+    // Get validated params and body
+    const { id } = (req as TenantRequest & { params: { id: string } }).params
+    const data = (
+      req as TenantRequest & { validatedData: CopyBudgetActualsData }
+    ).validatedData
+
+    const budget = await copyBudgetActuals(
+      tenantContext.tenantId,
+      tenantContext.schemaName,
+      id,
+      data
+    )
+
+    await auditActionSafely(
+      req,
+      tenantContext.tenantId,
+      AUDIT_ACTIONS.BUDGET_ACTUALS_COPIED,
+      [{ ...toBudgetAuditTarget(budget), growthPercent: data.growthPercent }],
+      'budget'
+    )
+
+    res
+      .status(HTTP_STATUS.OK)
+      .json(
+        new ApiResponse(
+          HTTP_STATUS.OK,
+          SUCCESS_MESSAGES.BUDGET_ACTUALS_COPIED,
+          toBudgetResponse(budget)
+        )
+      )
+  }
+)
+
+/**
+ * Apply budget growth controller
+ */
+export const applyBudgetGrowthController: RequestHandler = asyncHandler(
+  async (req: TenantRequest, res: Response) => {
+    const tenantContext = getTenantContext(req) as TenantContext
+
+    // Get validated params and body
+    const { id } = (req as TenantRequest & { params: { id: string } }).params
+    const data = (
+      req as TenantRequest & { validatedData: ApplyBudgetGrowthData }
+    ).validatedData
+
+    const budget = await applyBudgetGrowth(
+      tenantContext.tenantId,
+      tenantContext.schemaName,
+      id,
+      data
+    )
+
+    await auditActionSafely(
+      req,
+      tenantContext.tenantId,
+      AUDIT_ACTIONS.BUDGET_GROWTH_APPLIED,
+      [
+        {
+          ...toBudgetAuditTarget(budget),
+          growthPercent: data.growthPercent,
+          accountIds: data.accountIds ?? null,
+        },
+      ],
+      'budget'
+    )
+
+    res
+      .status(HTTP_STATUS.OK)
+      .json(
+        new ApiResponse(
+          HTTP_STATUS.OK,
+          SUCCESS_MESSAGES.BUDGET_GROWTH_APPLIED,
+          toBudgetResponse(budget)
+        )
+      )
+  }
+)
+
+/**
+ * Download budget file controller
+ * Generates an XLSX file with one row per revenue and expense account and
+ * one column per month, which can be filled in and imported back
+ */
+export const downloadBudgetFile: RequestHandler = asyncHandler(
+  async (req: TenantRequest, res: Response) => {
+    const tenantContext = getTenantContext(req) as TenantContext
+
+    // Get validated params
+    const { id } = (req as TenantRequest & { params: { id: string } }).params
+
+    const { budget, months, rows } = await getBudgetFile(
+      tenantContext.tenantId,
+      tenantContext.schemaName,
+      id
+    )
+
+    // Prepare worksheet data with headers
+    const worksheetData = [
+      [...BUDGET_FILE.ACCOUNT_HEADERS, ...months.map((month) => month.label)],
+      ...rows.map((row) => [
+        row.accountNumber,
+        row.accountName,
+        ...row.amounts,
+      ]),
+    ]
+
+    // Create workbook and worksheet
+    const workbook = XLSX.utils.book_new()
+    const worksheet = XLSX.utils.aoa_to_sheet(worksheetData)
+
+    // Set column widths for better readability
+    worksheet['!cols'] = [
+      ...BUDGET_FILE.ACCOUNT_COLUMN_WIDTHS,
+      ...months.map(() => BUDGET_FILE.MONTH_COLUMN_WIDTH),
+    ]
+
+    XLSX.utils.book_append_sheet(
+      workbook,
+      worksheet,
+      BUDGET_FILE.WORKSHEET_NAME
+    )
+
+    // Generate XLSX buffer
+    const xlsxBuffer = XLSX.write(workbook, {
+      type: 'buffer',
+      bookType: 'xlsx',
+    })
+
+    // Keep the file name to safe characters
+    const filename = `${BUDGET_FILE.FILENAME_PREFIX}_${budget.name.replaceAll(/[^\w-]+/g, '_')}.xlsx`
+
+    // Set response headers for XLSX download
+    res.setHeader('Content-Type', BUDGET_FILE.CONTENT_TYPE)
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`)
+    res.setHeader('Content-Length', xlsxBuffer.length)
+
+    // Send XLSX content
+    res.status(HTTP_STATUS.OK).send(xlsxBuffer)
+  }
+)
+
+/**
+ * Import budget controller
+ * Replaces the budget lines with the amounts of a CSV or Excel file, or only
+ * validates the file in a dry run
+ */
+export const importBudgetController: RequestHandler = asyncHandler(
+  async (req: TenantRequest, res: Response) => {
+    const tenantContext = getTenantContext(req) as TenantContext
+    const file = req.file as Express.Multer.File
+
+    // Get validated params and body
+    const { id } = (req as TenantRequest & { params: { id: string } }).params
+    const { dryRun } = (
+      req as TenantRequest & { validatedData: ImportBudgetInput }
+    ).validatedData
+
+    const result = await importBudget(
+      tenantContext.tenantId,
+      tenantContext.schemaName,
+      id,
+      {
+        fileName: file.originalname,
+        buffer: file.buffer,
+        dryRun,
+      }
+    )
+
+    if (result.dryRun) {
+      res
+        .status(HTTP_STATUS.OK)
+        .json(
+          new ApiResponse(
+            HTTP_STATUS.OK,
+            SUCCESS_MESSAGES.BUDGET_IMPORT_VALIDATED,
+            result
+          )
+        )
+      return
+    }
+
+    if (!result.imported) {
+      res
+        .status(HTTP_STATUS.BAD_REQUEST)
+        .json(
+          new ApiResponse(
+            HTTP_STATUS.BAD_REQUEST,
+            ERROR_MESSAGES.BUDGET_IMPORT_FAILED,
+            result
+          )
+        )
+      return
+    }
+
+    await auditActionSafely(
+      req,
+      tenantContext.tenantId,
+      AUDIT_ACTIONS.BUDGET_IMPORTED,
+      [
+        {
+          type: AUDIT_ENTITY_TYPES.BUDGET,
+          id,
+          fileName: file.originalname,
+          lineCount: result.lines.length,
+        },
+      ],
+      'budget'
+    )
+
+    res
+      .status(HTTP_STATUS.OK)
+      .json(
+        new ApiResponse(
+          HTTP_STATUS.OK,
+          SUCCESS_MESSAGES.BUDGET_IMPORTED,
+          result
+        )
+      )
+  }
+)
@@ -2,8 +2,10 @@ import type { RequestHandler } from 'express'
 import { Response } from 'express'
 import * as XLSX from 'xlsx'
 
+import type { ChartOfAccountMergePreview } from '@/types/chartOfAccount.type'
 import type { JwtUser } from '@/types/jwt.type'
 import { CHART_OF_ACCOUNT_SAMPLE } from '@constants/chartOfAccount'
+import { ERROR_MESSAGES } from '@constants/errors'
 import { HTTP_STATUS } from '@constants/http'
 import { SUCCESS_MESSAGES } from '@constants/success'
 import {
@@ -21,7 +23,17 @@ import {
   updateChartOfAccount,
   updateChartOfAccountActivationStatus,
 } from '@queries/chartOfAccount.queries'
+import { importChartOfAccounts } from '@queries/chartOfAccountImport.queries'
+import {
+  mergeChartOfAccounts,
+  previewChartOfAccountMerge,
+} from '@queries/chartOfAccountMerge.queries'
+import type {
+  ImportChartOfAccountsInput,
+  MergeChartOfAccountInput,
+} from '@schema/chartOfAccount.schema'
 import { getPaginationMetadata } from '@schema/shared.schema'
+import { extractRequestContext } from '@services/audit.service'
 import { ApiResponse } from '@utils/ApiResponse'
 import asyncHandler from '@utils/asyncHandler'
 
@@ -532,3 +544,161 @@ export const getImportFields: RequestHandler = asyncHandler(
       )
   }
 )
+
+/**
+ * Import chart of accounts controller
+ * Creates accounts from an uploaded CSV or Excel file. A dry run, or a file
+ * with row errors, creates nothing and returns the per-row errors.
+ */
+export const importChartOfAccountsController: RequestHandler = asyncHandler(
+  async (req: TenantRequest, res: Response) => {
+    const tenantContext = getTenantContext(req) as TenantContext
+    const user = req.user as JwtUser
+    const file = req.file as Express.Multer.File
+
+    // Get validated body data
+    const { mapping, dryRun } = (
+      req as TenantRequest & { validatedData: ImportChartOfAccountsInput }
+    ).validatedData
+
+    const result = await importChartOfAccounts(
+      tenantContext.tenantId,
+      tenantContext.schemaName,
+      user.id,
+      {
+        fileName: file.originalname,
+        buffer: file.buffer,
+        mapping,
+        dryRun,
+      }
+    )
+
+    if (result.dryRun) {
+      res
+        .status(HTTP_STATUS.OK)
+        .json(
+          new ApiResponse(
+            HTTP_STATUS.OK,
+            SUCCESS_MESSAGES.CHART_OF_ACCOUNTS_IMPORT_VALIDATED,
+            result
+          )
+        )
+      return
+    }
+
+    if (!result.imported) {
+      res
+        .status(HTTP_STATUS.BAD_REQUEST)
+        .json(
+          new ApiResponse(
+            HTTP_STATUS.BAD_REQUEST,
+            ERROR_MESSAGES.CHART_OF_ACCOUNT_IMPORT_FAILED,
+            result
+          )
+        )
+      return
+    }
+
+    res
+      .status(HTTP_STATUS.CREATED)
+      .json(
+        new ApiResponse(
+          HTTP_STATUS.CREATED,
+          SUCCESS_MESSAGES.CHART_OF_ACCOUNTS_IMPORTED,
+          result
+        )
+      )
+  }
+)
+
+/**
+ * Transform a merge preview or result to response format
+ */
+const toMergeResponse = (merge: ChartOfAccountMergePreview) => {
+  const toAccount = (account: ChartOfAccountMergePreview['sourceAccount']) => ({
+    id: account.id,
+    accountNumber: account.accountNumber ?? null,
+    accountName: account.accountName,
+    accountType: account.accountType,
+    currencyCode: account.currencyCode,
+    openingBalance: Number(account.openingBalance),
+    currentBalance: Number(account.currentBalance),
+    isActive: account.isActive,
+    deletedAt: account.deletedAt ?? null,
+  })
+
+  return {
+    sourceAccount: toAccount(merge.sourceAccount),
+    targetAccount: toAccount(merge.targetAccount),
+    counts: merge.counts,
+    openingBalance: merge.openingBalance,
+    currentBalance: merge.currentBalance,
+  }
+}
+
+/**
+ * Preview chart of account merge controller
+ * Shows the rows a merge would move and the target's balances after it
+ */
+export const previewChartOfAccountMergeController: RequestHandler =
+  asyncHandler(async (req: TenantRequest, res: Response) => {
+    const tenantContext = getTenantContext(req) as TenantContext
+
+    // Get validated params and query
+    const { id } = (req as TenantRequest & { params: { id: string } }).params
+    const { targetAccountId } = (
+      req as TenantRequest & { validatedData: MergeChartOfAccountInput }
+    ).validatedData
+
+    const preview = await previewChartOfAccountMerge(
+      tenantContext.tenantId,
+      tenantContext.schemaName,
+      id,
+      targetAccountId
+    )
+
+    res
+      .status(HTTP_STATUS.OK)
+      .json(
+        new ApiResponse(
+          HTTP_STATUS.OK,
+          SUCCESS_MESSAGES.CHART_OF_ACCOUNT_MERGE_PREVIEWED,
+          toMergeResponse(preview)
+        )
+      )
+  })
+
+/**
+ * Merge chart of accounts controller
+ * Merges the account into the target account and soft-deletes it
+ */
+export const mergeChartOfAccountsController: RequestHandler = asyncHandler(
+  async (req: TenantRequest, res: Response) => {
+    const tenantContext = getTenantContext(req) as TenantContext
+
+    // Get validated params and body
+    const { id } = (req as TenantRequest & { params: { id: string } }).params
+    const { targetAccountId } = (
+      req as TenantRequest & { validatedData: MergeChartOfAccountInput }
+    ).validatedData
+
+    // The audit record is written in the merge transaction
+    const result = await mergeChartOfAccounts(
+      tenantContext.tenantId,
+      tenantContext.schemaName,
+      id,
+      targetAccountId,
+      extractRequestContext(req)
+    )
+
+    res
+      .status(HTTP_STATUS.OK)
+      .json(
+        new ApiResponse(
+          HTTP_STATUS.OK,
+          SUCCESS_MESSAGES.CHART_OF_ACCOUNTS_MERGED,
+          toMergeResponse(result)
+        )
+      )
+  }
+)
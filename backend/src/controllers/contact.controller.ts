@@ -0,0 +1,369 @@
+import type { RequestHandler } from 'express'
+import { Response } from 'express'
+
+import type { CreateContactData, UpdateContactData } from '@/types/contact.type'
+import type { JwtUser } from '@/types/jwt.type'
+import { AUDIT_ACTIONS, AUDIT_ENTITY_TYPES } from '@constants/audit'
+import { HTTP_STATUS } from '@constants/http'
+import { SUCCESS_MESSAGES } from '@constants/success'
+import {
+  getTenantContext,
+  type TenantContext,
+  type TenantRequest,
+} from '@middlewares/tenantContext.middleware'
+import type { ChartOfAccount } from '@models/ChartOfAccount'
+import type { Contact } from '@models/Contact'
+import {
+  createContact,
+  deleteContact,
+  findContactById,
+  findContacts,
+  getContactBalance,
+  getContactLedger,
+  restoreContact,
+  updateContact,
+} from '@queries/contact.queries'
+import type {
+  ContactBalanceQueryInput,
+  ContactLedgerQueryInput,
+  ContactListInput,
+} from '@schema/contact.schema'
+import { getPaginationMetadata } from '@schema/shared.schema'
+import { auditActionSafely } from '@services/audit.service'
+import { ApiResponse } from '@utils/ApiResponse'
+import asyncHandler from '@utils/asyncHandler'
+
+/**
+ * Transform a default account of a contact to response format
+ */
+const toDefaultAccountResponse = (account?: ChartOfAccount) =>
+  account
+    ? {
+        id: account.id,
+        accountNumber: account.accountNumber ?? null,
+        accountName: account.accountName,
+      }
+    : null
+
+/**
+ * Transform contact to response format
+ */
+const toContactResponse = (contact: Contact) => ({
+  id: contact.id,
+  contactType: contact.contactType,
+  displayName: contact.displayName,
+  companyName: contact.companyName ?? null,
+  firstName: contact.firstName ?? null,
+  lastName: contact.lastName ?? null,
+  email: contact.email ?? null,
+  phone: contact.phone ?? null,
+  website: contact.website ?? null,
+  taxNumber: contact.taxNumber ?? null,
+  currencyCode: contact.currencyCode ?? null,
+  billingAddress: contact.billingAddress ?? null,
+  shippingAddress: contact.shippingAddress ?? null,
+  defaultIncomeAccountId: contact.defaultIncomeAccountId ?? null,
+  defaultIncomeAccount: toDefaultAccountResponse(contact.defaultIncomeAccount),
+  defaultExpenseAccountId: contact.defaultExpenseAccountId ?? null,
+  defaultExpenseAccount: toDefaultAccountResponse(
+    contact.defaultExpenseAccount
+  ),
+  defaultTaxGroupId: contact.defaultTaxGroupId ?? null,
+  defaultTaxGroup: contact.defaultTaxGroup
+    ? { id: contact.defaultTaxGroup.id, name: contact.defaultTaxGroup.name }
+    : null,
+  paymentTermsDays: contact.paymentTermsDays,
+  notes: contact.notes ?? null,
+  isActive: contact.isActive,
+  createdBy: contact.createdBy,
+  createdAt: contact.createdAt,
+  updatedAt: contact.updatedAt,
+})
+
+/**
+ * Get all contacts controller
+ */
+export const getAllContacts: RequestHandler = asyncHandler(
+  async (req: TenantRequest, res: Response) => {
+    const tenantContext = getTenantContext(req) as TenantContext
+
+    // Get validated query parameters
+    const filters = (req as TenantRequest & { validatedData: ContactListInput })
+      .validatedData
+
+    const { contacts, total } = await findContacts(
+      tenantContext.tenantId,
+      tenantContext.schemaName,
+      filters
+    )
+
+    res.status(HTTP_STATUS.OK).json(
+      new ApiResponse(HTTP_STATUS.OK, SUCCESS_MESSAGES.CONTACTS_FETCHED, {
+        items: contacts.map(toContactResponse),
+        pagination: getPaginationMetadata(filters.page, filters.limit, total),
+      })
+    )
+  }
+)
+
+/**
+ * Get contact by ID controller
+ */
+export const getContactById: RequestHandler = asyncHandler(
+  async (req: TenantRequest, res: Response) => {
+    const tenantContext = getTenantContext(req) as TenantContext
+
+    // Get validated params
+    const { id } = (req as TenantRequest & { params: { id: string } }).params
+
+    const contact = await findContactById(
+      tenantContext.tenantId,
+      tenantContext.schemaName,
+      id
+    )
+
+    res
+      .status(HTTP_STATUS.OK)
+      .json(
+        new ApiResponse(
+          HTTP_STATUS.OK,
+          SUCCESS_MESSAGES.CONTACT_FETCHED,
+          toContactResponse(contact)
+        )
+      )
+  }
+)
+
+/**
+ * Create contact controller
+ */
+export const createContactController: RequestHandler = asyncHandler(
+  async (req: TenantRequest, res: Response) => {
+    const tenantContext = getTenantContext(req) as TenantContext
+    const user = req.user as JwtUser
+
+    // Get validated body
+    const data = (req as TenantRequest & { validatedData: CreateContactData })
+      .validatedData
+
+    const contact = await createContact(
+      tenantContext.tenantId,
+      tenantContext.schemaName,
+      user.id,
+      data
+    )
+
+    await auditActionSafely(
+      req,
+      tenantContext.tenantId,
+      AUDIT_ACTIONS.CONTACT_CREATED,
+      [
+        {
+          type: AUDIT_ENTITY_TYPES.CONTACT,
+          id: contact.id,
+          name: contact.displayName,
+        },
+      ],
+      'contact'
+    )
+
+    res
+      .status(HTTP_STATUS.CREATED)
+      .json(
+        new ApiResponse(
+          HTTP_STATUS.CREATED,
+          SUCCESS_MESSAGES.CONTACT_CREATED,
+          toContactResponse(contact)
+        )
+      )
+  }
+)
+
+/**
+ * Update contact controller
+ */
+export const updateContactController: RequestHandler = asyncHandler(
+  async (req: TenantRequest, res: Response) => {
+    const tenantContext = getTenantContext(req) as TenantContext
+
+    // Get validated params and body
+    const { id } = (req as TenantRequest & { params: { id: string } }).params
+    const data = (req as TenantRequest & { validatedData: UpdateContactData })
+      .validatedData
+
+    const contact = await updateContact(
+      tenantContext.tenantId,
+      tenantContext.schemaName,
+      id,
+      data
+    )
+
+    await auditActionSafely(
+      req,
+      tenantContext.tenantId,
+      AUDIT_ACTIONS.CONTACT_UPDATED,
+      [
+        {
+          type: AUDIT_ENTITY_TYPES.CONTACT,
+          id: contact.id,
+          name: contact.displayName,
+        },
+      ],
+      'contact'
+    )
+
+    res
+      .status(HTTP_STATUS.OK)
+      .json(
+        new ApiResponse(
+          HTTP_STATUS.OK,
+          SUCCESS_MESSAGES.CONTACT_UPDATED,
+          toContactResponse(contact)
+        )
+      )
+  }
+)
+
+/**
+ * Delete contact controller (soft delete)
+ * Entry lines and tax exemptions keep referencing the deleted contact
+ */
+export const deleteContactById: RequestHandler = asyncHandler(
+  async (req: TenantRequest, res: Response) => {
+    const tenantContext = getTenantContext(req) as TenantContext
+
+    // Get validated params
+    const { id } = (req as TenantRequest & { params: { id: string } }).params
+
+    const contact = await deleteContact(
+      tenantContext.tenantId,
+      tenantContext.schemaName,
+      id
+    )
+
+    await auditActionSafely(
+      req,
+      tenantContext.tenantId,
+      AUDIT_ACTIONS.CONTACT_DELETED,
+      [
+        {
+          type: AUDIT_ENTITY_TYPES.CONTACT,
+          id: contact.id,
+          name: contact.displayName,
+        },
+      ],
+      'contact'
+    )
+
+    res.status(HTTP_STATUS.OK).json(
+      new ApiResponse(HTTP_STATUS.OK, SUCCESS_MESSAGES.CONTACT_DELETED, {
+        id: contact.id,
+        deletedAt: contact.deletedAt ?? null,
+      })
+    )
+  }
+)
+
+/**
+ * Restore contact controller
+ */
+export const restoreContactById: RequestHandler = asyncHandler(
+  async (req: TenantRequest, res: Response) => {
+    const tenantContext = getTenantContext(req) as TenantContext
+
+    // Get validated params
+    const { id } = (req as TenantRequest & { params: { id: string } }).params
+
+    const contact = await restoreContact(
+      tenantContext.tenantId,
+      tenantContext.schemaName,
+      id
+    )
+
+    await auditActionSafely(
+      req,
+      tenantContext.tenantId,
+      AUDIT_ACTIONS.CONTACT_RESTORED,
+      [
+        {
+          type: AUDIT_ENTITY_TYPES.CONTACT,
+          id: contact.id,
+          name: contact.displayName,
+        },
+      ],
+      'contact'
+    )
+
+    res
+      .status(HTTP_STATUS.OK)
+      .json(
+        new ApiResponse(
+          HTTP_STATUS.OK,
+          SUCCESS_MESSAGES.CONTACT_RESTORED,
+          toContactResponse(contact)
+        )
+      )
+  }
+)
+
+/**
+ * Get contact ledger controller
+ * Posted lines of the contact on asset and liability accounts with a running balance
+ */
+export const getContactLedgerController: RequestHandler = asyncHandler(
+  async (req: TenantRequest, res: Response) => {
+    const tenantContext = getTenantContext(req) as TenantContext
+
+    // Get validated params and query parameters
+    const { id } = (req as TenantRequest & { params: { id: string } }).params
+    const filters = (
+      req as TenantRequest & { validatedData: ContactLedgerQueryInput }
+    ).validatedData
+
+    const { total, ...ledger } = await getContactLedger(
+      tenantContext.tenantId,
+      tenantContext.schemaName,
+      id,
+      filters
+    )
+
+    res.status(HTTP_STATUS.OK).json(
+      new ApiResponse(HTTP_STATUS.OK, SUCCESS_MESSAGES.CONTACT_LEDGER_FETCHED, {
+        ...ledger,
+        pagination: getPaginationMetadata(filters.page, filters.limit, total),
+      })
+    )
+  }
+)
+
+/**
+ * Get contact balance controller
+ */
+export const getContactBalanceController: RequestHandler = asyncHandler(
+  async (req: TenantRequest, res: Response) => {
+    const tenantContext = getTenantContext(req) as TenantContext
+
+    // Get validated params and query parameters
+    const { id } = (req as TenantRequest & { params: { id: string } }).params
+    const { asOf } = (
+      req as TenantRequest & { validatedData: ContactBalanceQueryInput }
+    ).validatedData
+
+    const balance = await getContactBalance(
+      tenantContext.tenantId,
+      tenantContext.schemaName,
+      id,
+      asOf
+    )
+
+    res
+      .status(HTTP_STATUS.OK)
+      .json(
+        new ApiResponse(
+          HTTP_STATUS.OK,
+          SUCCESS_MESSAGES.CONTACT_BALANCE_FETCHED,
+          balance
+        )
+      )
+  }
+)
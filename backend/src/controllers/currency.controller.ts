@@ -0,0 +1,531 @@
+import type { RequestHandler } from 'express'
+import { Response } from 'express'
+
+import type {
+  CurrencySettings,
+  FxRevaluationPreview,
+  FxRevaluationResult,
+} from '@/types/currency.type'
+import type { JwtUser } from '@/types/jwt.type'
+import logger from '@config/logger'
+import { AUDIT_ACTIONS, AUDIT_ENTITY_TYPES } from '@constants/audit'
+import { HTTP_STATUS } from '@constants/http'
+import { SUCCESS_MESSAGES } from '@constants/success'
+import {
+  getTenantContext,
+  type TenantContext,
+  type TenantRequest,
+} from '@middlewares/tenantContext.middleware'
+import type { ChartOfAccount } from '@models/ChartOfAccount'
+import type { ExchangeRate } from '@models/ExchangeRate'
+import {
+  createExchangeRate,
+  deleteExchangeRate,
+  findCurrencySettings,
+  findExchangeRateById,
+  findExchangeRates,
+  importExchangeRates,
+  updateCurrencySettings,
+  updateExchangeRate,
+} from '@queries/exchangeRate.queries'
+import {
+  postFxRevaluation,
+  previewFxRevaluation,
+} from '@queries/fxRevaluation.queries'
+import type {
+  CreateExchangeRateInput,
+  ExchangeRateListInput,
+  FxRevaluationInput,
+  ImportExchangeRatesInput,
+  UpdateCurrencySettingsInput,
+  UpdateExchangeRateInput,
+} from '@schema/currency.schema'
+import { getPaginationMetadata } from '@schema/shared.schema'
+import { auditAction, extractRequestContext } from '@services/audit.service'
+import { ApiResponse } from '@utils/ApiResponse'
+import asyncHandler from '@utils/asyncHandler'
+import { formatDateToString } from '@utils/date'
+
+/**
+ * Transform an account reference to response format
+ */
+const toAccountReference = (account: ChartOfAccount) => ({
+  id: account.id,
+  accountNumber: account.accountNumber ?? null,
+  accountName: account.accountName,
+})
+
+/**
+ * Transform currency settings to response format
+ */
+const toCurrencySettingsResponse = (settings: CurrencySettings) => ({
+  baseCurrency: settings.baseCurrency,
+  fxGainLossAccount: settings.fxGainLossAccount
+    ? toAccountReference(settings.fxGainLossAccount)
+    : null,
+})
+
+/**
+ * Transform exchange rate to response format
+ */
+const toExchangeRateResponse = (rate: ExchangeRate) => ({
+  id: rate.id,
+  currencyCode: rate.currencyCode,
+  rateDate: formatDateToString(rate.rateDate),
+  rate: rate.rate,
+  source: rate.source,
+  createdBy: rate.createdBy,
+  createdAt: rate.createdAt,
+  updatedAt: rate.updatedAt,
+})
+
+/**
+ * Transform FX revaluation preview to response format
+ */
+const toFxRevaluationPreviewResponse = (preview: FxRevaluationPreview) => ({
+  revaluationDate: formatDateToString(preview.revaluationDate),
+  baseCurrency: preview.baseCurrency,
+  gainLossAccount: toAccountReference(preview.gainLossAccount),
+  lines: preview.lines,
+  totalGainLoss: preview.totalGainLoss,
+})
+
+/**
+ * Transform FX revaluation result to response format
+ */
+const toFxRevaluationResponse = (result: FxRevaluationResult) => ({
+  ...toFxRevaluationPreviewResponse(result.preview),
+  entry: {
+    id: result.entry.id,
+    entryNumber: result.entry.entryNumber ?? null,
+    entryDate: formatDateToString(result.entry.entryDate),
+    reversalDate: result.entry.reversalDate
+      ? formatDateToString(result.entry.reversalDate)
+      : null,
+    description: result.entry.description ?? null,
+    status: result.entry.status,
+    totalDebit: result.entry.totalDebit,
+    totalCredit: result.entry.totalCredit,
+  },
+})
+
+/**
+ * Record an exchange rate change in the audit log
+ * Failures are logged and never block the change itself
+ */
+const auditExchangeRateChange = async (
+  req: TenantRequest,
+  tenantId: string,
+  action: string,
+  rate: ExchangeRate
+): Promise<void> => {
+  try {
+    await auditAction(
+      action,
+      [
+        {
+          type: AUDIT_ENTITY_TYPES.EXCHANGE_RATE,
+          id: rate.id,
+          name: `${rate.currencyCode} ${formatDateToString(rate.rateDate)}`,
+          rate: rate.rate,
+        },
+      ],
+      {
+        requestContext: extractRequestContext(req),
+        tenantId,
+      }
+    )
+  } catch (error) {
+    logger.error('Failed to create audit log for exchange rate:', error)
+  }
+}
+
+/**
+ * Get currency settings controller
+ */
+export const getCurrencySettings: RequestHandler = asyncHandler(
+  async (req: TenantRequest, res: Response) => {
+    const tenantContext = getTenantContext(req) as TenantContext
+
+    const settings = await findCurrencySettings(
+      tenantContext.tenantId,
+      tenantContext.schemaName
+    )
+
+    res
+      .status(HTTP_STATUS.OK)
+      .json(
+        new ApiResponse(
+          HTTP_STATUS.OK,
+          SUCCESS_MESSAGES.CURRENCY_SETTINGS_FETCHED,
+          toCurrencySettingsResponse(settings)
+        )
+      )
+  }
+)
+
+/**
+ * Update currency settings controller
+ * Sets the base currency and the unrealized FX gain/loss account
+ */
+export const updateCurrencySettingsController: RequestHandler = asyncHandler(
+  async (req: TenantRequest, res: Response) => {
+    const tenantContext = getTenantContext(req) as TenantContext
+    const user = req.user as JwtUser
+
+    // Get validated body
+    const data = (
+      req as TenantRequest & { validatedData: UpdateCurrencySettingsInput }
+    ).validatedData
+
+    const settings = await updateCurrencySettings(
+      tenantContext.tenantId,
+      tenantContext.schemaName,
+      user.id,
+      data
+    )
+
+    // Audit log
+    try {
+      await auditAction(
+        AUDIT_ACTIONS.CURRENCY_SETTINGS_UPDATED,
+        [
+          {
+            type: AUDIT_ENTITY_TYPES.TENANT,
+            id: tenantContext.tenantId,
+            baseCurrency: settings.baseCurrency,
+            fxGainLossAccountId: settings.fxGainLossAccount?.id ?? null,
+          },
+        ],
+        {
+          requestContext: extractRequestContext(req),
+          tenantId: tenantContext.tenantId,
+        }
+      )
+    } catch (error) {
+      logger.error('Failed to create audit log for currency settings:', error)
+    }
+
+    res
+      .status(HTTP_STATUS.OK)
+      .json(
+        new ApiResponse(
+          HTTP_STATUS.OK,
+          SUCCESS_MESSAGES.CURRENCY_SETTINGS_UPDATED,
+          toCurrencySettingsResponse(settings)
+        )
+      )
+  }
+)
+
+/**
+ * Get all exchange rates controller
+ * Retrieves exchange rates, most recent first
+ */
+export const getAllExchangeRates: RequestHandler = asyncHandler(
+  async (req: TenantRequest, res: Response) => {
+    const tenantContext = getTenantContext(req) as TenantContext
+
+    // Get validated query parameters
+    const filters = (
+      req as TenantRequest & { validatedData: ExchangeRateListInput }
+    ).validatedData
+
+    const { rates, total } = await findExchangeRates(
+      tenantContext.tenantId,
+      tenantContext.schemaName,
+      filters
+    )
+
+    res.status(HTTP_STATUS.OK).json(
+      new ApiResponse(HTTP_STATUS.OK, SUCCESS_MESSAGES.EXCHANGE_RATES_FETCHED, {
+        items: rates.map(toExchangeRateResponse),
+        pagination: getPaginationMetadata(filters.page, filters.limit, total),
+      })
+    )
+  }
+)
+
+/**
+ * Get exchange rate by ID controller
+ */
+export const getExchangeRateById: RequestHandler = asyncHandler(
+  async (req: TenantRequest, res: Response) => {
+    const tenantContext = getTenantContext(req) as TenantContext
+
+    // Get validated params
+    const { id } = (req as TenantRequest & { params: { id: string } }).params
+
+    const rate = await findExchangeRateById(
+      tenantContext.tenantId,
+      tenantContext.schemaName,
+      id
+    )
+
+    res
+      .status(HTTP_STATUS.OK)
+      .json(
+        new ApiResponse(
+          HTTP_STATUS.OK,
+          SUCCESS_MESSAGES.EXCHANGE_RATE_FETCHED,
+          toExchangeRateResponse(rate)
+        )
+      )
+  }
+)
+
+/**
+ * Create exchange rate controller
+ */
+export const createExchangeRateController: RequestHandler = asyncHandler(
+  async (req: TenantRequest, res: Response) => {
+    const tenantContext = getTenantContext(req) as TenantContext
+    const user = req.user as JwtUser
+
+    // Get validated body
+    const data = (
+      req as TenantRequest & { validatedData: CreateExchangeRateInput }
+    ).validatedData
+
+    const rate = await createExchangeRate(
+      tenantContext.tenantId,
+      tenantContext.schemaName,
+      user.id,
+      data
+    )
+
+    await auditExchangeRateChange(
+      req,
+      tenantContext.tenantId,
+      AUDIT_ACTIONS.EXCHANGE_RATE_CREATED,
+      rate
+    )
+
+    res
+      .status(HTTP_STATUS.CREATED)
+      .json(
+        new ApiResponse(
+          HTTP_STATUS.CREATED,
+          SUCCESS_MESSAGES.EXCHANGE_RATE_CREATED,
+          toExchangeRateResponse(rate)
+        )
+      )
+  }
+)
+
+/**
+ * Update exchange rate controller
+ */
+export const updateExchangeRateController: RequestHandler = asyncHandler(
+  async (req: TenantRequest, res: Response) => {
+    const tenantContext = getTenantContext(req) as TenantContext
+
+    // Get validated params and body
+    const { id } = (req as TenantRequest & { params: { id: string } }).params
+    const data = (
+      req as TenantRequest & { validatedData: UpdateExchangeRateInput }
+    ).validatedData
+
+    const rate = await updateExchangeRate(
+      tenantContext.tenantId,
+      tenantContext.schemaName,
+      id,
+      data
+    )
+
+    await auditExchangeRateChange(
+      req,
+      tenantContext.tenantId,
+      AUDIT_ACTIONS.EXCHANGE_RATE_UPDATED,
+      rate
+    )
+
+    res
+      .status(HTTP_STATUS.OK)
+      .json(
+        new ApiResponse(
+          HTTP_STATUS.OK,
+          SUCCESS_MESSAGES.EXCHANGE_RATE_UPDATED,
+          toExchangeRateResponse(rate)
+        )
+      )
+  }
+)
+
+/**
+ * Delete exchange rate controller
+ * Entries already converted at the rate keep their amounts
+ */
+export const deleteExchangeRateController: RequestHandler = asyncHandler(
+  async (req: TenantRequest, res: Response) => {
+    const tenantContext = getTenantContext(req) as TenantContext
+
+    // Get validated params
+    const { id } = (req as TenantRequest & { params: { id: string } }).params
+
+    const rate = await deleteExchangeRate(
+      tenantContext.tenantId,
+      tenantContext.schemaName,
+      id
+    )
+
+    await auditExchangeRateChange(
+      req,
+      tenantContext.tenantId,
+      AUDIT_ACTIONS.EXCHANGE_RATE_DELETED,
+      rate
+    )
+
+    res.status(HTTP_STATUS.OK).json(
+      new ApiResponse(HTTP_STATUS.OK, SUCCESS_MESSAGES.EXCHANGE_RATE_DELETED, {
+        id,
+      })
+    )
+  }
+)
+
+/**
+ * Import exchange rates controller
+ * Imports rates from CSV content; invalid rows are reported, not imported
+ */
+export const importExchangeRatesController: RequestHandler = asyncHandler(
+  async (req: TenantRequest, res: Response) => {
+    const tenantContext = getTenantContext(req) as TenantContext
+    const user = req.user as JwtUser
+
+    // Get validated body
+    const { content } = (
+      req as TenantRequest & { validatedData: ImportExchangeRatesInput }
+    ).validatedData
+
+    const result = await importExchangeRates(
+      tenantContext.tenantId,
+      tenantContext.schemaName,
+      user.id,
+      content
+    )
+
+    // Audit log
+    try {
+      await auditAction(
+        AUDIT_ACTIONS.EXCHANGE_RATES_IMPORTED,
+        [
+          {
+            type: AUDIT_ENTITY_TYPES.EXCHANGE_RATE,
+            id: tenantContext.tenantId,
+            created: result.created,
+            updated: result.updated,
+            failed: result.errors.length,
+          },
+        ],
+        {
+          requestContext: extractRequestContext(req),
+          tenantId: tenantContext.tenantId,
+        }
+      )
+    } catch (error) {
+      logger.error(
+        'Failed to create audit log for exchange rate import:',
+        error
+      )
+    }
+
+    res
+      .status(HTTP_STATUS.OK)
+      .json(
+        new ApiResponse(
+          HTTP_STATUS.OK,
+          SUCCESS_MESSAGES.EXCHANGE_RATES_IMPORTED,
+          result
+        )
+      )
+  }
+)
+
+/**
+ * Preview FX revaluation controller
+ * Returns the unrealized gain/loss entry a revaluation would post
+ */
+export const previewFxRevaluationController: RequestHandler = asyncHandler(
+  async (req: TenantRequest, res: Response) => {
+    const tenantContext = getTenantContext(req) as TenantContext
+
+    // Get validated query parameters
+    const { revaluationDate, gainLossAccountId } = (
+      req as TenantRequest & { validatedData: FxRevaluationInput }
+    ).validatedData
+
+    const preview = await previewFxRevaluation(
+      tenantContext.tenantId,
+      tenantContext.schemaName,
+      revaluationDate,
+      gainLossAccountId
+    )
+
+    res
+      .status(HTTP_STATUS.OK)
+      .json(
+        new ApiResponse(
+          HTTP_STATUS.OK,
+          SUCCESS_MESSAGES.FX_REVALUATION_PREVIEWED,
+          toFxRevaluationPreviewResponse(preview)
+        )
+      )
+  }
+)
+
+/**
+ * Post FX revaluation controller
+ * Posts the unrealized gain/loss entry, reversed automatically the next day
+ */
+export const postFxRevaluationController: RequestHandler = asyncHandler(
+  async (req: TenantRequest, res: Response) => {
+    const tenantContext = getTenantContext(req) as TenantContext
+    const user = req.user as JwtUser
+
+    // Get validated body
+    const { revaluationDate, gainLossAccountId } = (
+      req as TenantRequest & { validatedData: FxRevaluationInput }
+    ).validatedData
+
+    const result = await postFxRevaluation(
+      tenantContext.tenantId,
+      tenantContext.schemaName,
+      revaluationDate,
+      user.id,
+      gainLossAccountId
+    )
+
+    // Audit log
+    try {
+      await auditAction(
+        AUDIT_ACTIONS.FX_REVALUATION_POSTED,
+        [
+          {
+            type: AUDIT_ENTITY_TYPES.JOURNAL_ENTRY,
+            id: result.entry.id,
+            entryNumber: result.entry.entryNumber ?? null,
+            revaluationDate,
+            totalGainLoss: result.preview.totalGainLoss,
+          },
+        ],
+        {
+          requestContext: extractRequestContext(req),
+          tenantId: tenantContext.tenantId,
+        }
+      )
+    } catch (error) {
+      logger.error('Failed to create audit log for FX revaluation:', error)
+    }
+
+    res
+      .status(HTTP_STATUS.CREATED)
+      .json(
+        new ApiResponse(
+          HTTP_STATUS.CREATED,
+          SUCCESS_MESSAGES.FX_REVALUATION_POSTED,
+          toFxRevaluationResponse(result)
+        )
+      )
+  }
+)
@@ -0,0 +1,398 @@
+import type { RequestHandler } from 'express'
+import { Response } from 'express'
+
+import type { AuditTarget } from '@/types/audit.type'
+import type {
+  CreateCustomerPaymentData,
+  OpenReceivableItem,
+  UnmatchCustomerPaymentData,
+  UpdateCustomerPaymentSettingsData,
+} from '@/types/customerPayment.type'
+import type { JwtUser } from '@/types/jwt.type'
+import { AUDIT_ACTIONS, AUDIT_ENTITY_TYPES } from '@constants/audit'
+import { HTTP_STATUS } from '@constants/http'
+import { SUCCESS_MESSAGES } from '@constants/success'
+import {
+  getTenantContext,
+  type TenantContext,
+  type TenantRequest,
+} from '@middlewares/tenantContext.middleware'
+import type { ChartOfAccount } from '@models/ChartOfAccount'
+import type { CustomerPayment } from '@models/CustomerPayment'
+import type { CustomerPaymentAllocation } from '@models/CustomerPaymentAllocation'
+import type { CustomerPaymentSettings } from '@models/CustomerPaymentSettings'
+import {
+  createCustomerPayment,
+  findCustomerPaymentById,
+  findCustomerPayments,
+  findCustomerPaymentSettings,
+  findOpenReceivableItems,
+  unmatchCustomerPayment,
+  updateCustomerPaymentSettings,
+} from '@queries/customerPayment.queries'
+import type {
+  CustomerPaymentListInput,
+  OpenReceivableItemsInput,
+} from '@schema/customerPayment.schema'
+import { getPaginationMetadata } from '@schema/shared.schema'
+import { auditActionSafely } from '@services/audit.service'
+import { ApiResponse } from '@utils/ApiResponse'
+import asyncHandler from '@utils/asyncHandler'
+import { formatDateToString } from '@utils/date'
+
+/**
+ * Transform a ledger account of a payment to response format
+ */
+const toAccountResponse = (account?: ChartOfAccount) =>
+  account
+    ? {
+        id: account.id,
+        accountNumber: account.accountNumber ?? null,
+        accountName: account.accountName,
+      }
+    : null
+
+/**
+ * Transform payment allocation to response format
+ */
+const toAllocationResponse = (allocation: CustomerPaymentAllocation) => ({
+  id: allocation.id,
+  journalEntryLineId: allocation.journalEntryLineId,
+  journalEntryId: allocation.journalEntryLine?.journalEntryId ?? null,
+  description: allocation.journalEntryLine?.description ?? null,
+  invoiceId: allocation.invoiceId ?? null,
+  invoice: allocation.invoice
+    ? {
+        id: allocation.invoice.id,
+        invoiceNumber: allocation.invoice.invoiceNumber,
+      }
+    : null,
+  amount: Number(allocation.amount),
+})
+
+/**
+ * Transform customer payment to response format
+ */
+const toCustomerPaymentResponse = (payment: CustomerPayment) => ({
+  id: payment.id,
+  contactId: payment.contactId ?? null,
+  contact: payment.contact
+    ? {
+        id: payment.contact.id,
+        displayName: payment.contact.displayName,
+        email: payment.contact.email ?? null,
+      }
+    : null,
+  bankAccountId: payment.bankAccountId,
+  bankAccount: payment.bankAccount
+    ? {
+        id: payment.bankAccount.id,
+        name: payment.bankAccount.name,
+        currencyCode: payment.bankAccount.currencyCode,
+      }
+    : null,
+  status: payment.status,
+  paymentDate: formatDateToString(payment.paymentDate),
+  paymentMethod: payment.paymentMethod ?? null,
+  reference: payment.reference ?? null,
+  memo: payment.memo ?? null,
+  amount: Number(payment.amount),
+  appliedAmount: Number(payment.appliedAmount),
+  creditAmount: Number(payment.creditAmount),
+  unappliedAmount: Number(payment.unappliedAmount),
+  depositAccountId: payment.depositAccountId,
+  receivableAccountId: payment.receivableAccountId ?? null,
+  unappliedAccountId: payment.unappliedAccountId ?? null,
+  journalEntryId: payment.journalEntryId ?? null,
+  reversalJournalEntryId: payment.reversalJournalEntryId ?? null,
+  unmatchedAt: payment.unmatchedAt ?? null,
+  unmatchedBy: payment.unmatchedBy ?? null,
+  unmatchReason: payment.unmatchReason ?? null,
+  ...(payment.allocations
+    ? { allocations: payment.allocations.map(toAllocationResponse) }
+    : {}),
+  createdBy: payment.createdBy,
+  createdAt: payment.createdAt,
+  updatedAt: payment.updatedAt,
+})
+
+/**
+ * Transform open receivable item to response format
+ */
+const toOpenItemResponse = (item: OpenReceivableItem) => ({
+  ...item,
+  entryDate: formatDateToString(item.entryDate),
+  dueDate: item.dueDate ? formatDateToString(item.dueDate) : null,
+})
+
+/**
+ * Transform customer payment settings to response format
+ */
+const toCustomerPaymentSettingsResponse = (
+  settings: CustomerPaymentSettings
+) => ({
+  unappliedAccountId: settings.unappliedAccountId ?? null,
+  unappliedAccount: toAccountResponse(settings.unappliedAccount),
+  updatedAt: settings.updatedAt,
+})
+
+/**
+ * Name of a customer payment in the audit log: its customer and reference
+ */
+const getCustomerPaymentAuditName = (payment: CustomerPayment): string =>
+  [payment.contact?.displayName ?? 'Unapplied payment', payment.reference]
+    .filter(Boolean)
+    .join(' - ')
+
+/**
+ * Audit target of a customer payment
+ */
+const toCustomerPaymentAuditTarget = (
+  payment: CustomerPayment
+): AuditTarget => ({
+  type: AUDIT_ENTITY_TYPES.CUSTOMER_PAYMENT,
+  id: payment.id,
+  name: getCustomerPaymentAuditName(payment),
+})
+
+/**
+ * Get all customer payments controller
+ */
+export const getAllCustomerPayments: RequestHandler = asyncHandler(
+  async (req: TenantRequest, res: Response) => {
+    const tenantContext = getTenantContext(req) as TenantContext
+
+    // Get validated query parameters
+    const filters = (
+      req as TenantRequest & { validatedData: CustomerPaymentListInput }
+    ).validatedData
+
+    const { payments, total } = await findCustomerPayments(
+      tenantContext.tenantId,
+      tenantContext.schemaName,
+      filters
+    )
+
+    res.status(HTTP_STATUS.OK).json(
+      new ApiResponse(
+        HTTP_STATUS.OK,
+        SUCCESS_MESSAGES.CUSTOMER_PAYMENTS_FETCHED,
+        {
+          items: payments.map(toCustomerPaymentResponse),
+          pagination: getPaginationMetadata(filters.page, filters.limit, total),
+        }
+      )
+    )
+  }
+)
+
+/**
+ * Get customer payment by ID controller
+ */
+export const getCustomerPaymentById: RequestHandler = asyncHandler(
+  async (req: TenantRequest, res: Response) => {
+    const tenantContext = getTenantContext(req) as TenantContext
+
+    // Get validated params
+    const { id } = (req as TenantRequest & { params: { id: string } }).params
+
+    const payment = await findCustomerPaymentById(
+      tenantContext.tenantId,
+      tenantContext.schemaName,
+      id
+    )
+
+    res
+      .status(HTTP_STATUS.OK)
+      .json(
+        new ApiResponse(
+          HTTP_STATUS.OK,
+          SUCCESS_MESSAGES.CUSTOMER_PAYMENT_FETCHED,
+          toCustomerPaymentResponse(payment)
+        )
+      )
+  }
+)
+
+/**
+ * Get open receivable items of a customer controller
+ */
+export const getOpenReceivableItems: RequestHandler = asyncHandler(
+  async (req: TenantRequest, res: Response) => {
+    const tenantContext = getTenantContext(req) as TenantContext
+
+    // Get validated query parameters
+    const { contactId } = (
+      req as TenantRequest & { validatedData: OpenReceivableItemsInput }
+    ).validatedData
+
+    const items = await findOpenReceivableItems(
+      tenantContext.tenantId,
+      tenantContext.schemaName,
+      contactId
+    )
+
+    res
+      .status(HTTP_STATUS.OK)
+      .json(
+        new ApiResponse(
+          HTTP_STATUS.OK,
+          SUCCESS_MESSAGES.CUSTOMER_PAYMENT_OPEN_ITEMS_FETCHED,
+          items.map(toOpenItemResponse)
+        )
+      )
+  }
+)
+
+/**
+ * Create customer payment controller
+ * Records the payment and posts its journal entry, or submits it for approval
+ */
+export const createCustomerPaymentController: RequestHandler = asyncHandler(
+  async (req: TenantRequest, res: Response) => {
+    const tenantContext = getTenantContext(req) as TenantContext
+    const user = req.user as JwtUser
+
+    // Get validated body
+    const data = (
+      req as TenantRequest & { validatedData: CreateCustomerPaymentData }
+    ).validatedData
+
+    const payment = await createCustomerPayment(
+      tenantContext.tenantId,
+      tenantContext.schemaName,
+      user.id,
+      data
+    )
+
+    await auditActionSafely(
+      req,
+      tenantContext.tenantId,
+      AUDIT_ACTIONS.CUSTOMER_PAYMENT_CREATED,
+      [toCustomerPaymentAuditTarget(payment)],
+      'customer payment'
+    )
+
+    res
+      .status(HTTP_STATUS.CREATED)
+      .json(
+        new ApiResponse(
+          HTTP_STATUS.CREATED,
+          SUCCESS_MESSAGES.CUSTOMER_PAYMENT_CREATED,
+          toCustomerPaymentResponse(payment)
+        )
+      )
+  }
+)
+
+/**
+ * Unmatch customer payment controller
+ * Reverses the payment journal entry and reopens the matched items
+ */
+export const unmatchCustomerPaymentController: RequestHandler = asyncHandler(
+  async (req: TenantRequest, res: Response) => {
+    const tenantContext = getTenantContext(req) as TenantContext
+    const user = req.user as JwtUser
+
+    // Get validated params and body
+    const { id } = (req as TenantRequest & { params: { id: string } }).params
+    const data = (
+      req as TenantRequest & { validatedData: UnmatchCustomerPaymentData }
+    ).validatedData
+
+    const payment = await unmatchCustomerPayment(
+      tenantContext.tenantId,
+      tenantContext.schemaName,
+      user.id,
+      id,
+      data
+    )
+
+    await auditActionSafely(
+      req,
+      tenantContext.tenantId,
+      AUDIT_ACTIONS.CUSTOMER_PAYMENT_UNMATCHED,
+      [toCustomerPaymentAuditTarget(payment)],
+      'customer payment'
+    )
+
+    res
+      .status(HTTP_STATUS.OK)
+      .json(
+        new ApiResponse(
+          HTTP_STATUS.OK,
+          SUCCESS_MESSAGES.CUSTOMER_PAYMENT_UNMATCHED,
+          toCustomerPaymentResponse(payment)
+        )
+      )
+  }
+)
+
+/**
+ * Get customer payment settings controller
+ */
+export const getCustomerPaymentSettings: RequestHandler = asyncHandler(
+  async (req: TenantRequest, res: Response) => {
+    const tenantContext = getTenantContext(req) as TenantContext
+
+    const settings = await findCustomerPaymentSettings(
+      tenantContext.tenantId,
+      tenantContext.schemaName
+    )
+
+    res
+      .status(HTTP_STATUS.OK)
+      .json(
+        new ApiResponse(
+          HTTP_STATUS.OK,
+          SUCCESS_MESSAGES.CUSTOMER_PAYMENT_SETTINGS_FETCHED,
+          toCustomerPaymentSettingsResponse(settings)
+        )
+      )
+  }
+)
+
+/**
+ * Update customer payment settings controller
+ */
+export const updateCustomerPaymentSettingsController: RequestHandler =
+  asyncHandler(async (req: TenantRequest, res: Response) => {
+    const tenantContext = getTenantContext(req) as TenantContext
+
+    // Get validated body
+    const data = (
+      req as TenantRequest & {
+        validatedData: UpdateCustomerPaymentSettingsData
+      }
+    ).validatedData
+
+    const settings = await updateCustomerPaymentSettings(
+      tenantContext.tenantId,
+      tenantContext.schemaName,
+      data
+    )
+
+    await auditActionSafely(
+      req,
+      tenantContext.tenantId,
+      AUDIT_ACTIONS.CUSTOMER_PAYMENT_SETTINGS_UPDATED,
+      [
+        {
+          type: AUDIT_ENTITY_TYPES.CUSTOMER_PAYMENT_SETTINGS,
+          id: settings.id,
+          name: 'Customer payment settings',
+        },
+      ],
+      'customer payment'
+    )
+
+    res
+      .status(HTTP_STATUS.OK)
+      .json(
+        new ApiResponse(
+          HTTP_STATUS.OK,
+          SUCCESS_MESSAGES.CUSTOMER_PAYMENT_SETTINGS_UPDATED,
+          toCustomerPaymentSettingsResponse(settings)
+        )
+      )
+  })
@@ -0,0 +1,523 @@
+import { pipeline } from 'node:stream/promises'
+
+import type { Request, RequestHandler } from 'express'
+import { Response } from 'express'
+
+import type { AuditTarget } from '@/types/audit.type'
+import type {
+  AttachDocumentData,
+  DocumentStorageUsage,
+  UpdateDocumentData,
+  UpdateDocumentSettingsData,
+  UploadDocumentData,
+} from '@/types/document.type'
+import type { JwtUser } from '@/types/jwt.type'
+import { env } from '@config/env'
+import { AUDIT_ACTIONS, AUDIT_ENTITY_TYPES } from '@constants/audit'
+import { HTTP_STATUS } from '@constants/http'
+import { SUCCESS_MESSAGES } from '@constants/success'
+import {
+  getTenantContext,
+  type TenantContext,
+  type TenantRequest,
+} from '@middlewares/tenantContext.middleware'
+import type { Document } from '@models/Document'
+import type { DocumentAttachment } from '@models/DocumentAttachment'
+import type { DocumentSettings } from '@models/DocumentSettings'
+import {
+  attachDocument,
+  createDocumentDownloadUrl,
+  deleteDocument,
+  detachDocument,
+  findDocumentById,
+  findDocuments,
+  findDocumentSettings,
+  findDocumentStorageUsage,
+  openDocumentDownload,
+  updateDocument,
+  updateDocumentSettings,
+  uploadDocument,
+} from '@queries/document.queries'
+import type { DocumentListInput } from '@schema/document.schema'
+import { getPaginationMetadata } from '@schema/shared.schema'
+import { auditActionSafely } from '@services/audit.service'
+import { getAttachmentDisposition } from '@services/documentStorage.service'
+import { ApiResponse } from '@utils/ApiResponse'
+import asyncHandler from '@utils/asyncHandler'
+
+/**
+ * Bytes in a megabyte
+ */
+const BYTES_PER_MB = 1024 * 1024
+
+/**
+ * Transform document attachment to response format
+ */
+const toAttachmentResponse = (attachment: DocumentAttachment) => ({
+  id: attachment.id,
+  entityType: attachment.entityType,
+  entityId: attachment.entityId,
+  createdBy: attachment.createdBy,
+  createdAt: attachment.createdAt,
+})
+
+/**
+ * Transform document to response format
+ * Storage details stay on the server; files are fetched through download links
+ */
+const toDocumentResponse = (document: Document) => ({
+  id: document.id,
+  name: document.name,
+  mimeType: document.mimeType,
+  sizeBytes: Number(document.sizeBytes),
+  checksum: document.checksum,
+  category: document.category,
+  tags: document.tags,
+  description: document.description ?? null,
+  scanStatus: document.scanStatus,
+  scannedAt: document.scannedAt ?? null,
+  ...(document.attachments
+    ? { attachments: document.attachments.map(toAttachmentResponse) }
+    : {}),
+  uploadedBy: document.uploadedBy,
+  createdAt: document.createdAt,
+  updatedAt: document.updatedAt,
+})
+
+/**
+ * Transform document settings to response format
+ */
+const toDocumentSettingsResponse = (settings: DocumentSettings) => ({
+  quotaMb:
+    settings.quotaBytes !== null && settings.quotaBytes !== undefined
+      ? Number(settings.quotaBytes) / BYTES_PER_MB
+      : null,
+  defaultQuotaMb: env.DOCUMENT_TENANT_QUOTA_MB,
+  maxFileSizeMb: env.DOCUMENT_MAX_FILE_SIZE_MB,
+  updatedAt: settings.updatedAt,
+})
+
+/**
+ * Transform storage usage to response format
+ */
+const toStorageUsageResponse = (usage: DocumentStorageUsage) => ({
+  ...usage,
+  maxFileSizeBytes: env.DOCUMENT_MAX_FILE_SIZE_MB * BYTES_PER_MB,
+})
+
+/**
+ * Audit target of a document
+ */
+const toDocumentAuditTarget = (document: Document): AuditTarget => ({
+  type: AUDIT_ENTITY_TYPES.DOCUMENT,
+  id: document.id,
+  name: document.name,
+})
+
+/**
+ * URL of the download endpoint of this API, used for files the storage
+ * driver cannot sign links for
+ */
+const getLocalDownloadUrl = (req: Request): string =>
+  `${req.protocol}://${req.get('host')}${env.API_PREFIX}/documents/download`
+
+/**
+ * Get all documents controller
+ */
+export const getAllDocuments: RequestHandler = asyncHandler(
+  async (req: TenantRequest, res: Response) => {
+    const tenantContext = getTenantContext(req) as TenantContext
+
+    // Get validated query parameters
+    const filters = (
+      req as TenantRequest & { validatedData: DocumentListInput }
+    ).validatedData
+
+    const { documents, total } = await findDocuments(
+      tenantContext.tenantId,
+      tenantContext.schemaName,
+      filters
+    )
+
+    res.status(HTTP_STATUS.OK).json(
+      new ApiResponse(HTTP_STATUS.OK, SUCCESS_MESSAGES.DOCUMENTS_FETCHED, {
+        items: documents.map(toDocumentResponse),
+        pagination: getPaginationMetadata(filters.page, filters.limit, total),
+      })
+    )
+  }
+)
+
+/**
+ * Get document by ID controller
+ */
+export const getDocumentById: RequestHandler = asyncHandler(
+  async (req: TenantRequest, res: Response) => {
+    const tenantContext = getTenantContext(req) as TenantContext
+
+    // Get validated params
+    const { id } = (req as TenantRequest & { params: { id: string } }).params
+
+    const document = await findDocumentById(
+      tenantContext.tenantId,
+      tenantContext.schemaName,
+      id
+    )
+
+    res
+      .status(HTTP_STATUS.OK)
+      .json(
+        new ApiResponse(
+          HTTP_STATUS.OK,
+          SUCCESS_MESSAGES.DOCUMENT_FETCHED,
+          toDocumentResponse(document)
+        )
+      )
+  }
+)
+
+/**
+ * Upload document controller
+ * Scans the file, checks the quota and stores it, optionally attaching it to
+ * a record
+ */
+export const uploadDocumentController: RequestHandler = asyncHandler(
+  async (req: TenantRequest, res: Response) => {
+    const tenantContext = getTenantContext(req) as TenantContext
+    const user = req.user as JwtUser
+    const file = req.file as Express.Multer.File
+
+    // Get validated body
+    const data = (req as TenantRequest & { validatedData: UploadDocumentData })
+      .validatedData
+
+    const document = await uploadDocument(
+      tenantContext.tenantId,
+      tenantContext.schemaName,
+      user.id,
+      {
+        originalName: file.originalname,
+        mimeType: file.mimetype,
+        size: file.size,
+        buffer: file.buffer,
+      },
+      data
+    )
+
+    await auditActionSafely(
+      req,
+      tenantContext.tenantId,
+      AUDIT_ACTIONS.DOCUMENT_UPLOADED,
+      [toDocumentAuditTarget(document)],
+      'document'
+    )
+
+    res
+      .status(HTTP_STATUS.CREATED)
+      .json(
+        new ApiResponse(
+          HTTP_STATUS.CREATED,
+          SUCCESS_MESSAGES.DOCUMENT_UPLOADED,
+          toDocumentResponse(document)
+        )
+      )
+  }
+)
+
+/**
+ * Update document controller
+ */
+export const updateDocumentController: RequestHandler = asyncHandler(
+  async (req: TenantRequest, res: Response) => {
+    const tenantContext = getTenantContext(req) as TenantContext
+
+    // Get validated params and body
+    const { id } = (req as TenantRequest & { params: { id: string } }).params
+    const data = (req as TenantRequest & { validatedData: UpdateDocumentData })
+      .validatedData
+
+    const document = await updateDocument(
+      tenantContext.tenantId,
+      tenantContext.schemaName,
+      id,
+      data
+    )
+
+    await auditActionSafely(
+      req,
+      tenantContext.tenantId,
+      AUDIT_ACTIONS.DOCUMENT_UPDATED,
+      [toDocumentAuditTarget(document)],
+      'document'
+    )
+
+    res
+      .status(HTTP_STATUS.OK)
+      .json(
+        new ApiResponse(
+          HTTP_STATUS.OK,
+          SUCCESS_MESSAGES.DOCUMENT_UPDATED,
+          toDocumentResponse(document)
+        )
+      )
+  }
+)
+
+/**
+ * Delete document controller
+ */
+export const deleteDocumentController: RequestHandler = asyncHandler(
+  async (req: TenantRequest, res: Response) => {
+    const tenantContext = getTenantContext(req) as TenantContext
+
+    // Get validated params
+    const { id } = (req as TenantRequest & { params: { id: string } }).params
+
+    const document = await deleteDocument(
+      tenantContext.tenantId,
+      tenantContext.schemaName,
+      id
+    )
+
+    await auditActionSafely(
+      req,
+      tenantContext.tenantId,
+      AUDIT_ACTIONS.DOCUMENT_DELETED,
+      [toDocumentAuditTarget(document)],
+      'document'
+    )
+
+    res.status(HTTP_STATUS.OK).json(
+      new ApiResponse(HTTP_STATUS.OK, SUCCESS_MESSAGES.DOCUMENT_DELETED, {
+        id: document.id,
+      })
+    )
+  }
+)
+
+/**
+ * Attach document controller
+ */
+export const attachDocumentController: RequestHandler = asyncHandler(
+  async (req: TenantRequest, res: Response) => {
+    const tenantContext = getTenantContext(req) as TenantContext
+    const user = req.user as JwtUser
+
+    // Get validated params and body
+    const { id } = (req as TenantRequest & { params: { id: string } }).params
+    const data = (req as TenantRequest & { validatedData: AttachDocumentData })
+      .validatedData
+
+    const document = await attachDocument(
+      tenantContext.tenantId,
+      tenantContext.schemaName,
+      user.id,
+      id,
+      data
+    )
+
+    await auditActionSafely(
+      req,
+      tenantContext.tenantId,
+      AUDIT_ACTIONS.DOCUMENT_ATTACHED,
+      [toDocumentAuditTarget(document)],
+      'document'
+    )
+
+    res
+      .status(HTTP_STATUS.CREATED)
+      .json(
+        new ApiResponse(
+          HTTP_STATUS.CREATED,
+          SUCCESS_MESSAGES.DOCUMENT_ATTACHED,
+          toDocumentResponse(document)
+        )
+      )
+  }
+)
+
+/**
+ * Detach document controller
+ */
+export const detachDocumentController: RequestHandler = asyncHandler(
+  async (req: TenantRequest, res: Response) => {
+    const tenantContext = getTenantContext(req) as TenantContext
+
+    // Get validated params
+    const { id, attachmentId } = (
+      req as TenantRequest & { params: { id: string; attachmentId: string } }
+    ).params
+
+    const document = await detachDocument(
+      tenantContext.tenantId,
+      tenantContext.schemaName,
+      id,
+      attachmentId
+    )
+
+    await auditActionSafely(
+      req,
+      tenantContext.tenantId,
+      AUDIT_ACTIONS.DOCUMENT_DETACHED,
+      [toDocumentAuditTarget(document)],
+      'document'
+    )
+
+    res
+      .status(HTTP_STATUS.OK)
+      .json(
+        new ApiResponse(
+          HTTP_STATUS.OK,
+          SUCCESS_MESSAGES.DOCUMENT_DETACHED,
+          toDocumentResponse(document)
+        )
+      )
+  }
+)
+
+/**
+ * Get document download URL controller
+ * Returns a signed link that expires after DOCUMENT_URL_EXPIRY_SECONDS
+ */
+export const getDocumentDownloadUrl: RequestHandler = asyncHandler(
+  async (req: TenantRequest, res: Response) => {
+    const tenantContext = getTenantContext(req) as TenantContext
+
+    // Get validated params
+    const { id } = (req as TenantRequest & { params: { id: string } }).params
+
+    const downloadUrl = await createDocumentDownloadUrl(
+      tenantContext.tenantId,
+      tenantContext.schemaName,
+      id,
+      getLocalDownloadUrl(req)
+    )
+
+    res
+      .status(HTTP_STATUS.OK)
+      .json(
+        new ApiResponse(
+          HTTP_STATUS.OK,
+          SUCCESS_MESSAGES.DOCUMENT_DOWNLOAD_URL_CREATED,
+          downloadUrl
+        )
+      )
+  }
+)
+
+/**
+ * Download document controller
+ * Streams the file of a signed download token; the token is the only
+ * credential, so links can be opened directly by the browser
+ */
+export const downloadDocument: RequestHandler = asyncHandler(
+  async (req: Request, res: Response) => {
+    // Get validated params
+    const { token } = (req as Request & { params: { token: string } }).params
+
+    const { document, stream } = await openDocumentDownload(token)
+
+    res.setHeader('Content-Type', document.mimeType)
+    res.setHeader(
+      'Content-Disposition',
+      getAttachmentDisposition(document.name)
+    )
+    res.setHeader('Content-Length', Number(document.sizeBytes))
+    res.setHeader('Cache-Control', 'private, no-store')
+    res.setHeader('X-Content-Type-Options', 'nosniff')
+
+    await pipeline(stream, res)
+  }
+)
+
+/**
+ * Get document storage usage controller
+ */
+export const getDocumentStorageUsage: RequestHandler = asyncHandler(
+  async (req: TenantRequest, res: Response) => {
+    const tenantContext = getTenantContext(req) as TenantContext
+
+    const usage = await findDocumentStorageUsage(
+      tenantContext.tenantId,
+      tenantContext.schemaName
+    )
+
+    res
+      .status(HTTP_STATUS.OK)
+      .json(
+        new ApiResponse(
+          HTTP_STATUS.OK,
+          SUCCESS_MESSAGES.DOCUMENT_USAGE_FETCHED,
+          toStorageUsageResponse(usage)
+        )
+      )
+  }
+)
+
+/**
+ * Get document settings controller
+ */
+export const getDocumentSettings: RequestHandler = asyncHandler(
+  async (req: TenantRequest, res: Response) => {
+    const tenantContext = getTenantContext(req) as TenantContext
+
+    const settings = await findDocumentSettings(
+      tenantContext.tenantId,
+      tenantContext.schemaName
+    )
+
+    res
+      .status(HTTP_STATUS.OK)
+      .json(
+        new ApiResponse(
+          HTTP_STATUS.OK,
+          SUCCESS_MESSAGES.DOCUMENT_SETTINGS_FETCHED,
+          toDocumentSettingsResponse(settings)
+        )
+      )
+  }
+)
+
+/**
+ * Update document settings controller
+ */
+export const updateDocumentSettingsController: RequestHandler = asyncHandler(
+  async (req: TenantRequest, res: Response) => {
+    const tenantContext = getTenantContext(req) as TenantContext
+
+    // Get validated body
+    const data = (
+      req as TenantRequest & { validatedData: UpdateDocumentSettingsData }
+    ).validatedData
+
+    const settings = await updateDocumentSettings(
+      tenantContext.tenantId,
+      tenantContext.schemaName,
+      data
+    )
+
+    await auditActionSafely(
+      req,
+      tenantContext.tenantId,
+      AUDIT_ACTIONS.DOCUMENT_SETTINGS_UPDATED,
+      [
+        {
+          type: AUDIT_ENTITY_TYPES.DOCUMENT_SETTINGS,
+          id: settings.id,
+          name: 'Document settings',
+        },
+      ],
+      'document'
+    )
+
+    res
+      .status(HTTP_STATUS.OK)
+      .json(
+        new ApiResponse(
+          HTTP_STATUS.OK,
+          SUCCESS_MESSAGES.DOCUMENT_SETTINGS_UPDATED,
+          toDocumentSettingsResponse(settings)
+        )
+      )
+  }
+)
@@ -0,0 +1,518 @@
+import type { RequestHandler } from 'express'
+import { Response } from 'express'
+
+import type {
+  FiscalPeriodStatusChange,
+  YearEndCloseResult,
+  YearEndClosingPreview,
+} from '@/types/fiscalYear.type'
+import type { JwtUser } from '@/types/jwt.type'
+import logger from '@config/logger'
+import { AUDIT_ACTIONS, AUDIT_ENTITY_TYPES } from '@constants/audit'
+import { HTTP_STATUS } from '@constants/http'
+import { ROLES } from '@constants/roles'
+import { SUCCESS_MESSAGES } from '@constants/success'
+import {
+  getTenantContext,
+  type TenantContext,
+  type TenantRequest,
+} from '@middlewares/tenantContext.middleware'
+import type { FiscalPeriod, FiscalPeriodStatus } from '@models/FiscalPeriod'
+import type { FiscalYear } from '@models/FiscalYear'
+import type { JournalEntry } from '@models/JournalEntry'
+import {
+  closeFiscalPeriod,
+  createFiscalYear,
+  findFiscalYearById,
+  findFiscalYears,
+  reopenFiscalPeriod,
+} from '@queries/fiscalYear.queries'
+import {
+  closeFiscalYear,
+  previewYearEndClose,
+  reverseFiscalYearClose,
+} from '@queries/yearEndClose.queries'
+import type {
+  CloseFiscalPeriodInput,
+  CreateFiscalYearInput,
+  ReopenFiscalPeriodInput,
+  YearEndCloseInput,
+} from '@schema/fiscalYear.schema'
+import { getPaginationMetadata } from '@schema/shared.schema'
+import { auditAction, extractRequestContext } from '@services/audit.service'
+import { ApiResponse } from '@utils/ApiResponse'
+import asyncHandler from '@utils/asyncHandler'
+import { formatDateToString } from '@utils/date'
+
+/**
+ * Transform fiscal period to response format
+ */
+const toFiscalPeriodResponse = (period: FiscalPeriod) => ({
+  id: period.id,
+  fiscalYearId: period.fiscalYearId,
+  periodNumber: period.periodNumber,
+  name: period.name,
+  startDate: formatDateToString(period.startDate),
+  endDate: formatDateToString(period.endDate),
+  status: period.status,
+  closedBy: period.closedBy ?? null,
+  closedAt: period.closedAt ?? null,
+})
+
+/**
+ * Transform fiscal year to response format
+ */
+const toFiscalYearResponse = (fiscalYear: FiscalYear) => ({
+  id: fiscalYear.id,
+  name: fiscalYear.name,
+  startDate: formatDateToString(fiscalYear.startDate),
+  endDate: formatDateToString(fiscalYear.endDate),
+  periodType: fiscalYear.periodType,
+  periods: (fiscalYear.periods ?? []).map(toFiscalPeriodResponse),
+  isClosed: fiscalYear.isClosed(),
+  closingEntryId: fiscalYear.closingEntry?.id ?? null,
+  closingEntryNumber: fiscalYear.closingEntry?.entryNumber ?? null,
+  createdAt: fiscalYear.createdAt,
+  updatedAt: fiscalYear.updatedAt,
+})
+
+/**
+ * Transform year-end closing preview to response format
+ */
+const toYearEndClosingPreviewResponse = (preview: YearEndClosingPreview) => ({
+  fiscalYearId: preview.fiscalYear.id,
+  fiscalYearName: preview.fiscalYear.name,
+  closingDate: formatDateToString(preview.closingDate),
+  retainedEarningsAccount: {
+    id: preview.retainedEarningsAccount.id,
+    accountNumber: preview.retainedEarningsAccount.accountNumber ?? null,
+    accountName: preview.retainedEarningsAccount.accountName,
+  },
+  lines: preview.lines,
+  totalRevenue: preview.totalRevenue,
+  totalExpenses: preview.totalExpenses,
+  netIncome: preview.netIncome,
+})
+
+/**
+ * Transform a closing (or closing reversal) journal entry to response format
+ */
+const toClosingEntryResponse = (entry: JournalEntry) => ({
+  id: entry.id,
+  entryNumber: entry.entryNumber ?? null,
+  entryDate: formatDateToString(entry.entryDate),
+  entryType: entry.entryType,
+  isClosing: entry.isClosing,
+  isReversing: entry.isReversing,
+  description: entry.description ?? null,
+  status: entry.status,
+  totalDebit: entry.totalDebit,
+  totalCredit: entry.totalCredit,
+  lines:
+    entry.lines?.map((line) => ({
+      id: line.id,
+      accountId: line.accountId,
+      lineNumber: line.lineNumber,
+      debit: line.debit,
+      credit: line.credit,
+      description: line.description ?? null,
+    })) ?? [],
+})
+
+/**
+ * Transform year-end close result to response format
+ */
+const toYearEndCloseResponse = (result: YearEndCloseResult) => ({
+  fiscalYear: toFiscalYearResponse(result.fiscalYear),
+  entry: toClosingEntryResponse(result.entry),
+})
+
+/**
+ * Record a year-end close or its reversal in the audit log
+ * Failures are logged and never block the close itself
+ */
+const auditYearEndClose = async (
+  req: TenantRequest,
+  tenantId: string,
+  action: string,
+  result: YearEndCloseResult,
+  reason?: string
+): Promise<void> => {
+  try {
+    await auditAction(
+      action,
+      [
+        {
+          type: AUDIT_ENTITY_TYPES.FISCAL_YEAR,
+          id: result.fiscalYear.id,
+          name: result.fiscalYear.name,
+          journalEntryId: result.entry.id,
+          entryNumber: result.entry.entryNumber ?? null,
+          amount: result.entry.totalDebit,
+          ...(reason ? { reason } : {}),
+        },
+      ],
+      {
+        requestContext: extractRequestContext(req),
+        tenantId,
+      }
+    )
+  } catch (error) {
+    logger.error('Failed to create audit log for year-end close:', error)
+  }
+}
+
+/**
+ * Record a fiscal period close/reopen in the audit log
+ * Failures are logged and never block the status change itself
+ */
+const auditFiscalPeriodChange = async (
+  req: TenantRequest,
+  tenantId: string,
+  action: string,
+  change: FiscalPeriodStatusChange,
+  reason?: string
+): Promise<void> => {
+  try {
+    await auditAction(
+      action,
+      [
+        {
+          type: AUDIT_ENTITY_TYPES.FISCAL_PERIOD,
+          id: change.period.id,
+          name: change.period.name,
+          fiscalYearId: change.period.fiscalYearId,
+          changes: {
+            status: { from: change.previousStatus, to: change.period.status },
+          },
+          ...(reason ? { reason } : {}),
+        },
+      ],
+      {
+        requestContext: extractRequestContext(req),
+        tenantId,
+      }
+    )
+  } catch (error) {
+    logger.error('Failed to create audit log for fiscal period change:', error)
+  }
+}
+
+/**
+ * Get all fiscal years controller
+ * Retrieves fiscal years with their periods
+ */
+export const getAllFiscalYears: RequestHandler = asyncHandler(
+  async (req: TenantRequest, res: Response) => {
+    const tenantContext = getTenantContext(req) as TenantContext
+
+    // Get validated query parameters
+    const filters = (
+      req as TenantRequest & {
+        validatedData: Parameters<typeof findFiscalYears>[2]
+      }
+    ).validatedData
+
+    const { fiscalYears, total } = await findFiscalYears(
+      tenantContext.tenantId,
+      tenantContext.schemaName,
+      filters
+    )
+
+    res.status(HTTP_STATUS.OK).json(
+      new ApiResponse(HTTP_STATUS.OK, SUCCESS_MESSAGES.FISCAL_YEARS_FETCHED, {
+        items: fiscalYears.map(toFiscalYearResponse),
+        pagination: getPaginationMetadata(filters.page, filters.limit, total),
+      })
+    )
+  }
+)
+
+/**
+ * Get fiscal year by ID controller
+ */
+export const getFiscalYearById: RequestHandler = asyncHandler(
+  async (req: TenantRequest, res: Response) => {
+    const tenantContext = getTenantContext(req) as TenantContext
+
+    // Get validated params
+    const { id } = (req as TenantRequest & { params: { id: string } }).params
+
+    const fiscalYear = await findFiscalYearById(
+      tenantContext.tenantId,
+      tenantContext.schemaName,
+      id
+    )
+
+    res
+      .status(HTTP_STATUS.OK)
+      .json(
+        new ApiResponse(
+          HTTP_STATUS.OK,
+          SUCCESS_MESSAGES.FISCAL_YEAR_FETCHED,
+          toFiscalYearResponse(fiscalYear)
+        )
+      )
+  }
+)
+
+/**
+ * Create fiscal year controller
+ * Creates a fiscal year and generates its periods
+ */
+export const createFiscalYearController: RequestHandler = asyncHandler(
+  async (req: TenantRequest, res: Response) => {
+    const tenantContext = getTenantContext(req) as TenantContext
+    const user = req.user as JwtUser
+
+    // Get validated body
+    const data = (
+      req as TenantRequest & { validatedData: CreateFiscalYearInput }
+    ).validatedData
+
+    const fiscalYear = await createFiscalYear(
+      tenantContext.tenantId,
+      tenantContext.schemaName,
+      user.id,
+      data
+    )
+
+    // Audit log
+    try {
+      await auditAction(
+        AUDIT_ACTIONS.FISCAL_YEAR_CREATED,
+        [
+          {
+            type: AUDIT_ENTITY_TYPES.FISCAL_YEAR,
+            id: fiscalYear.id,
+            name: fiscalYear.name,
+            periodType: fiscalYear.periodType,
+          },
+        ],
+        {
+          requestContext: extractRequestContext(req),
+          tenantId: tenantContext.tenantId,
+        }
+      )
+    } catch (error) {
+      logger.error('Failed to create audit log for fiscal year:', error)
+    }
+
+    res
+      .status(HTTP_STATUS.CREATED)
+      .json(
+        new ApiResponse(
+          HTTP_STATUS.CREATED,
+          SUCCESS_MESSAGES.FISCAL_YEAR_CREATED,
+          toFiscalYearResponse(fiscalYear)
+        )
+      )
+  }
+)
+
+/**
+ * Close fiscal period controller
+ * Soft- or hard-closes a period so its dates can no longer be changed
+ */
+export const closeFiscalPeriodController: RequestHandler = asyncHandler(
+  async (req: TenantRequest, res: Response) => {
+    const tenantContext = getTenantContext(req) as TenantContext
+    const user = req.user as JwtUser
+
+    // Get validated params and body
+    const { id, periodId } = (
+      req as TenantRequest & { params: { id: string; periodId: string } }
+    ).params
+    const { status, reason } = (
+      req as TenantRequest & { validatedData: CloseFiscalPeriodInput }
+    ).validatedData
+
+    const change = await closeFiscalPeriod(
+      tenantContext.tenantId,
+      tenantContext.schemaName,
+      id,
+      periodId,
+      status as FiscalPeriodStatus.SOFT_CLOSED | FiscalPeriodStatus.HARD_CLOSED,
+      user.id
+    )
+
+    await auditFiscalPeriodChange(
+      req,
+      tenantContext.tenantId,
+      AUDIT_ACTIONS.FISCAL_PERIOD_CLOSED,
+      change,
+      reason
+    )
+
+    res
+      .status(HTTP_STATUS.OK)
+      .json(
+        new ApiResponse(
+          HTTP_STATUS.OK,
+          SUCCESS_MESSAGES.FISCAL_PERIOD_CLOSED,
+          toFiscalPeriodResponse(change.period)
+        )
+      )
+  }
+)
+
+/**
+ * Reopen fiscal period controller
+ * Hard-closed periods can only be reopened by an admin or super admin
+ */
+export const reopenFiscalPeriodController: RequestHandler = asyncHandler(
+  async (req: TenantRequest, res: Response) => {
+    const tenantContext = getTenantContext(req) as TenantContext
+    const user = req.user as JwtUser
+
+    // Get validated params and body
+    const { id, periodId } = (
+      req as TenantRequest & { params: { id: string; periodId: string } }
+    ).params
+    const { reason } = (
+      req as TenantRequest & { validatedData: ReopenFiscalPeriodInput }
+    ).validatedData
+
+    const canReopenHardClosed =
+      user.role === ROLES.SUPERADMIN || user.role === ROLES.ADMIN
+
+    const change = await reopenFiscalPeriod(
+      tenantContext.tenantId,
+      tenantContext.schemaName,
+      id,
+      periodId,
+      canReopenHardClosed
+    )
+
+    await auditFiscalPeriodChange(
+      req,
+      tenantContext.tenantId,
+      AUDIT_ACTIONS.FISCAL_PERIOD_REOPENED,
+      change,
+      reason
+    )
+
+    res
+      .status(HTTP_STATUS.OK)
+      .json(
+        new ApiResponse(
+          HTTP_STATUS.OK,
+          SUCCESS_MESSAGES.FISCAL_PERIOD_REOPENED,
+          toFiscalPeriodResponse(change.period)
+        )
+      )
+  }
+)
+
+/**
+ * Preview year-end close controller
+ * Returns the closing entry that closing the fiscal year would post
+ */
+export const previewYearEndCloseController: RequestHandler = asyncHandler(
+  async (req: TenantRequest, res: Response) => {
+    const tenantContext = getTenantContext(req) as TenantContext
+
+    // Get validated params
+    const { id } = (req as TenantRequest & { params: { id: string } }).params
+
+    const preview = await previewYearEndClose(
+      tenantContext.tenantId,
+      tenantContext.schemaName,
+      id
+    )
+
+    res
+      .status(HTTP_STATUS.OK)
+      .json(
+        new ApiResponse(
+          HTTP_STATUS.OK,
+          SUCCESS_MESSAGES.YEAR_END_CLOSE_PREVIEWED,
+          toYearEndClosingPreviewResponse(preview)
+        )
+      )
+  }
+)
+
+/**
+ * Close fiscal year controller
+ * Posts the closing entry that zeroes revenue and expenses into retained earnings
+ */
+export const closeFiscalYearController: RequestHandler = asyncHandler(
+  async (req: TenantRequest, res: Response) => {
+    const tenantContext = getTenantContext(req) as TenantContext
+    const user = req.user as JwtUser
+
+    // Get validated params and body
+    const { id } = (req as TenantRequest & { params: { id: string } }).params
+    const { reason } = (
+      req as TenantRequest & { validatedData: YearEndCloseInput }
+    ).validatedData
+
+    const result = await closeFiscalYear(
+      tenantContext.tenantId,
+      tenantContext.schemaName,
+      id,
+      user.id
+    )
+
+    await auditYearEndClose(
+      req,
+      tenantContext.tenantId,
+      AUDIT_ACTIONS.FISCAL_YEAR_CLOSED,
+      result,
+      reason
+    )
+
+    res
+      .status(HTTP_STATUS.CREATED)
+      .json(
+        new ApiResponse(
+          HTTP_STATUS.CREATED,
+          SUCCESS_MESSAGES.FISCAL_YEAR_CLOSED,
+          toYearEndCloseResponse(result)
+        )
+      )
+  }
+)
+
+/**
+ * Reverse year-end close controller
+ * Undoes a year-end close by posting a reversal of its closing entry
+ */
+export const reverseYearEndCloseController: RequestHandler = asyncHandler(
+  async (req: TenantRequest, res: Response) => {
+    const tenantContext = getTenantContext(req) as TenantContext
+    const user = req.user as JwtUser
+
+    // Get validated params and body
+    const { id } = (req as TenantRequest & { params: { id: string } }).params
+    const { reason } = (
+      req as TenantRequest & { validatedData: YearEndCloseInput }
+    ).validatedData
+
+    const result = await reverseFiscalYearClose(
+      tenantContext.tenantId,
+      tenantContext.schemaName,
+      id,
+      user.id
+    )
+
+    await auditYearEndClose(
+      req,
+      tenantContext.tenantId,
+      AUDIT_ACTIONS.FISCAL_YEAR_CLOSE_REVERSED,
+      result,
+      reason
+    )
+
+    res
+      .status(HTTP_STATUS.CREATED)
+      .json(
+        new ApiResponse(
+          HTTP_STATUS.CREATED,
+          SUCCESS_MESSAGES.FISCAL_YEAR_CLOSE_REVERSED,
+          toYearEndCloseResponse(result)
+        )
+      )
+  }
+)
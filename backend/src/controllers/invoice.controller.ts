@@ -0,0 +1,462 @@
+import type { RequestHandler } from 'express'
+import { Response } from 'express'
+
+import type { AuditTarget } from '@/types/audit.type'
+import type {
+  CreateInvoiceData,
+  UpdateInvoiceData,
+  UpdateInvoiceSettingsData,
+  VoidInvoiceData,
+} from '@/types/invoice.type'
+import type { JwtUser } from '@/types/jwt.type'
+import { AUDIT_ACTIONS, AUDIT_ENTITY_TYPES } from '@constants/audit'
+import { HTTP_STATUS } from '@constants/http'
+import { SUCCESS_MESSAGES } from '@constants/success'
+import {
+  getTenantContext,
+  type TenantContext,
+  type TenantRequest,
+} from '@middlewares/tenantContext.middleware'
+import type { ChartOfAccount } from '@models/ChartOfAccount'
+import type { Invoice } from '@models/Invoice'
+import type { InvoiceLine } from '@models/InvoiceLine'
+import type { InvoiceSettings } from '@models/InvoiceSettings'
+import {
+  createInvoice,
+  deleteInvoice,
+  findInvoiceById,
+  findInvoices,
+  findInvoiceSettings,
+  getInvoiceStatusDate,
+  sendInvoice,
+  updateInvoice,
+  updateInvoiceSettings,
+  voidInvoice,
+} from '@queries/invoice.queries'
+import type { InvoiceListInput } from '@schema/invoice.schema'
+import { getPaginationMetadata } from '@schema/shared.schema'
+import { auditActionSafely } from '@services/audit.service'
+import { ApiResponse } from '@utils/ApiResponse'
+import asyncHandler from '@utils/asyncHandler'
+import { formatDateToString } from '@utils/date'
+
+/**
+ * Transform an account of an invoice to response format
+ */
+const toAccountResponse = (account?: ChartOfAccount) =>
+  account
+    ? {
+        id: account.id,
+        accountNumber: account.accountNumber ?? null,
+        accountName: account.accountName,
+      }
+    : null
+
+/**
+ * Transform invoice line to response format
+ */
+const toInvoiceLineResponse = (line: InvoiceLine) => ({
+  id: line.id,
+  lineNumber: line.lineNumber,
+  description: line.description,
+  quantity: Number(line.quantity),
+  unitPrice: Number(line.unitPrice),
+  amount: Number(line.amount),
+  accountId: line.accountId,
+  account: toAccountResponse(line.account),
+  taxGroupId: line.taxGroupId ?? null,
+  taxGroup: line.taxGroup
+    ? { id: line.taxGroup.id, name: line.taxGroup.name }
+    : null,
+  taxAmount: Number(line.taxAmount),
+  taxBreakdown: line.taxBreakdown,
+})
+
+/**
+ * Transform invoice to response format
+ * The status is reported as of today, so open invoices past their due date
+ * are returned as overdue
+ */
+const toInvoiceResponse = (invoice: Invoice, asOf: Date) => ({
+  id: invoice.id,
+  invoiceNumber: invoice.invoiceNumber,
+  contactId: invoice.contactId,
+  contact: invoice.contact
+    ? {
+        id: invoice.contact.id,
+        displayName: invoice.contact.displayName,
+        email: invoice.contact.email ?? null,
+      }
+    : null,
+  status: invoice.getEffectiveStatus(asOf),
+  issueDate: formatDateToString(invoice.issueDate),
+  dueDate: formatDateToString(invoice.dueDate),
+  reference: invoice.reference ?? null,
+  memo: invoice.memo ?? null,
+  notes: invoice.notes ?? null,
+  subtotal: Number(invoice.subtotal),
+  taxAmount: Number(invoice.taxAmount),
+  total: Number(invoice.total),
+  amountPaid: Number(invoice.amountPaid),
+  balanceDue: invoice.getBalanceDue(),
+  receivableAccountId: invoice.receivableAccountId ?? null,
+  journalEntryId: invoice.journalEntryId ?? null,
+  voidJournalEntryId: invoice.voidJournalEntryId ?? null,
+  sentAt: invoice.sentAt ?? null,
+  sentBy: invoice.sentBy ?? null,
+  voidedAt: invoice.voidedAt ?? null,
+  voidedBy: invoice.voidedBy ?? null,
+  voidReason: invoice.voidReason ?? null,
+  ...(invoice.lines ? { lines: invoice.lines.map(toInvoiceLineResponse) } : {}),
+  createdBy: invoice.createdBy,
+  createdAt: invoice.createdAt,
+  updatedAt: invoice.updatedAt,
+})
+
+/**
+ * Transform invoice settings to response format
+ */
+const toInvoiceSettingsResponse = (settings: InvoiceSettings) => ({
+  numberPrefix: settings.numberPrefix,
+  nextNumber: settings.nextNumber,
+  numberPadding: settings.numberPadding,
+  nextInvoiceNumber: settings.formatNumber(settings.nextNumber),
+  receivableAccountId: settings.receivableAccountId ?? null,
+  receivableAccount: toAccountResponse(settings.receivableAccount),
+  taxAccountId: settings.taxAccountId ?? null,
+  taxAccount: toAccountResponse(settings.taxAccount),
+  updatedAt: settings.updatedAt,
+})
+
+/**
+ * Audit target of an invoice
+ */
+const toInvoiceAuditTarget = (invoice: Invoice): AuditTarget => ({
+  type: AUDIT_ENTITY_TYPES.INVOICE,
+  id: invoice.id,
+  name: invoice.invoiceNumber,
+})
+
+/**
+ * Get all invoices controller
+ */
+export const getAllInvoices: RequestHandler = asyncHandler(
+  async (req: TenantRequest, res: Response) => {
+    const tenantContext = getTenantContext(req) as TenantContext
+
+    // Get validated query parameters
+    const filters = (req as TenantRequest & { validatedData: InvoiceListInput })
+      .validatedData
+
+    const { invoices, total } = await findInvoices(
+      tenantContext.tenantId,
+      tenantContext.schemaName,
+      filters
+    )
+
+    const asOf = getInvoiceStatusDate()
+    res.status(HTTP_STATUS.OK).json(
+      new ApiResponse(HTTP_STATUS.OK, SUCCESS_MESSAGES.INVOICES_FETCHED, {
+        items: invoices.map((invoice) => toInvoiceResponse(invoice, asOf)),
+        pagination: getPaginationMetadata(filters.page, filters.limit, total),
+      })
+    )
+  }
+)
+
+/**
+ * Get invoice by ID controller
+ */
+export const getInvoiceById: RequestHandler = asyncHandler(
+  async (req: TenantRequest, res: Response) => {
+    const tenantContext = getTenantContext(req) as TenantContext
+
+    // Get validated params
+    const { id } = (req as TenantRequest & { params: { id: string } }).params
+
+    const invoice = await findInvoiceById(
+      tenantContext.tenantId,
+      tenantContext.schemaName,
+      id
+    )
+
+    res
+      .status(HTTP_STATUS.OK)
+      .json(
+        new ApiResponse(
+          HTTP_STATUS.OK,
+          SUCCESS_MESSAGES.INVOICE_FETCHED,
+          toInvoiceResponse(invoice, getInvoiceStatusDate())
+        )
+      )
+  }
+)
+
+/**
+ * Create invoice controller
+ */
+export const createInvoiceController: RequestHandler = asyncHandler(
+  async (req: TenantRequest, res: Response) => {
+    const tenantContext = getTenantContext(req) as TenantContext
+    const user = req.user as JwtUser
+
+    // Get validated body
+    const data = (req as TenantRequest & { validatedData: CreateInvoiceData })
+      .validatedData
+
+    const invoice = await createInvoice(
+      tenantContext.tenantId,
+      tenantContext.schemaName,
+      user.id,
+      data
+    )
+
+    await auditActionSafely(
+      req,
+      tenantContext.tenantId,
+      AUDIT_ACTIONS.INVOICE_CREATED,
+      [toInvoiceAuditTarget(invoice)],
+      'invoice'
+    )
+
+    res
+      .status(HTTP_STATUS.CREATED)
+      .json(
+        new ApiResponse(
+          HTTP_STATUS.CREATED,
+          SUCCESS_MESSAGES.INVOICE_CREATED,
+          toInvoiceResponse(invoice, getInvoiceStatusDate())
+        )
+      )
+  }
+)
+
+/**
+ * Update invoice controller (drafts only)
+ */
+export const updateInvoiceController: RequestHandler = asyncHandler(
+  async (req: TenantRequest, res: Response) => {
+    const tenantContext = getTenantContext(req) as TenantContext
+    const user = req.user as JwtUser
+
+    // Get validated params and body
+    const { id } = (req as TenantRequest & { params: { id: string } }).params
+    const data = (req as TenantRequest & { validatedData: UpdateInvoiceData })
+      .validatedData
+
+    const invoice = await updateInvoice(
+      tenantContext.tenantId,
+      tenantContext.schemaName,
+      id,
+      user.id,
+      data
+    )
+
+    await auditActionSafely(
+      req,
+      tenantContext.tenantId,
+      AUDIT_ACTIONS.INVOICE_UPDATED,
+      [toInvoiceAuditTarget(invoice)],
+      'invoice'
+    )
+
+    res
+      .status(HTTP_STATUS.OK)
+      .json(
+        new ApiResponse(
+          HTTP_STATUS.OK,
+          SUCCESS_MESSAGES.INVOICE_UPDATED,
+          toInvoiceResponse(invoice, getInvoiceStatusDate())
+        )
+      )
+  }
+)
+
+/**
+ * Delete invoice controller (soft delete, drafts only)
+ */
+export const deleteInvoiceById: RequestHandler = asyncHandler(
+  async (req: TenantRequest, res: Response) => {
+    const tenantContext = getTenantContext(req) as TenantContext
+
+    // Get validated params
+    const { id } = (req as TenantRequest & { params: { id: string } }).params
+
+    const invoice = await deleteInvoice(
+      tenantContext.tenantId,
+      tenantContext.schemaName,
+      id
+    )
+
+    await auditActionSafely(
+      req,
+      tenantContext.tenantId,
+      AUDIT_ACTIONS.INVOICE_DELETED,
+      [toInvoiceAuditTarget(invoice)],
+      'invoice'
+    )
+
+    res.status(HTTP_STATUS.OK).json(
+      new ApiResponse(HTTP_STATUS.OK, SUCCESS_MESSAGES.INVOICE_DELETED, {
+        id: invoice.id,
+        deletedAt: invoice.deletedAt ?? null,
+      })
+    )
+  }
+)
+
+/**
+ * Send invoice controller
+ * Posts the invoice journal entry, or submits it for approval
+ */
+export const sendInvoiceController: RequestHandler = asyncHandler(
+  async (req: TenantRequest, res: Response) => {
+    const tenantContext = getTenantContext(req) as TenantContext
+    const user = req.user as JwtUser
+
+    // Get validated params
+    const { id } = (req as TenantRequest & { params: { id: string } }).params
+
+    const invoice = await sendInvoice(
+      tenantContext.tenantId,
+      tenantContext.schemaName,
+      user.id,
+      id
+    )
+
+    await auditActionSafely(
+      req,
+      tenantContext.tenantId,
+      AUDIT_ACTIONS.INVOICE_SENT,
+      [
+        toInvoiceAuditTarget(invoice),
+        {
+          type: AUDIT_ENTITY_TYPES.JOURNAL_ENTRY,
+          id: invoice.journalEntryId as string,
+          name: invoice.invoiceNumber,
+        },
+      ],
+      'invoice'
+    )
+
+    res
+      .status(HTTP_STATUS.OK)
+      .json(
+        new ApiResponse(
+          HTTP_STATUS.OK,
+          SUCCESS_MESSAGES.INVOICE_SENT,
+          toInvoiceResponse(invoice, getInvoiceStatusDate())
+        )
+      )
+  }
+)
+
+/**
+ * Void invoice controller
+ * Reverses the ledger impact of a sent invoice
+ */
+export const voidInvoiceController: RequestHandler = asyncHandler(
+  async (req: TenantRequest, res: Response) => {
+    const tenantContext = getTenantContext(req) as TenantContext
+    const user = req.user as JwtUser
+
+    // Get validated params and body
+    const { id } = (req as TenantRequest & { params: { id: string } }).params
+    const data = (req as TenantRequest & { validatedData: VoidInvoiceData })
+      .validatedData
+
+    const invoice = await voidInvoice(
+      tenantContext.tenantId,
+      tenantContext.schemaName,
+      user.id,
+      id,
+      data
+    )
+
+    await auditActionSafely(
+      req,
+      tenantContext.tenantId,
+      AUDIT_ACTIONS.INVOICE_VOIDED,
+      [toInvoiceAuditTarget(invoice)],
+      'invoice'
+    )
+
+    res
+      .status(HTTP_STATUS.OK)
+      .json(
+        new ApiResponse(
+          HTTP_STATUS.OK,
+          SUCCESS_MESSAGES.INVOICE_VOIDED,
+          toInvoiceResponse(invoice, getInvoiceStatusDate())
+        )
+      )
+  }
+)
+
+/**
+ * Get invoice settings controller
+ */
+export const getInvoiceSettings: RequestHandler = asyncHandler(
+  async (req: TenantRequest, res: Response) => {
+    const tenantContext = getTenantContext(req) as TenantContext
+
+    const settings = await findInvoiceSettings(
+      tenantContext.tenantId,
+      tenantContext.schemaName
+    )
+
+    res
+      .status(HTTP_STATUS.OK)
+      .json(
+        new ApiResponse(
+          HTTP_STATUS.OK,
+          SUCCESS_MESSAGES.INVOICE_SETTINGS_FETCHED,
+          toInvoiceSettingsResponse(settings)
+        )
+      )
+  }
+)
+
+/**
+ * Update invoice settings controller
+ */
+export const updateInvoiceSettingsController: RequestHandler = asyncHandler(
+  async (req: TenantRequest, res: Response) => {
+    const tenantContext = getTenantContext(req) as TenantContext
+
+    // Get validated body
+    const data = (
+      req as TenantRequest & { validatedData: UpdateInvoiceSettingsData }
+    ).validatedData
+
+    const settings = await updateInvoiceSettings(
+      tenantContext.tenantId,
+      tenantContext.schemaName,
+      data
+    )
+
+    await auditActionSafely(
+      req,
+      tenantContext.tenantId,
+      AUDIT_ACTIONS.INVOICE_SETTINGS_UPDATED,
+      [
+        {
+          type: AUDIT_ENTITY_TYPES.INVOICE_SETTINGS,
+          id: settings.id,
+          name: 'Invoice settings',
+        },
+      ],
+      'invoice'
+    )
+
+    res
+      .status(HTTP_STATUS.OK)
+      .json(
+        new ApiResponse(
+          HTTP_STATUS.OK,
+          SUCCESS_MESSAGES.INVOICE_SETTINGS_UPDATED,
+          toInvoiceSettingsResponse(settings)
+        )
+      )
+  }
+)
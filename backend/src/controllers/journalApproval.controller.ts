@@ -0,0 +1,526 @@
+import type { RequestHandler } from 'express'
+import { Response } from 'express'
+
+import type { AuditTarget } from '@/types/audit.type'
+import type {
+  ApprovalActor,
+  CreateApprovalRuleData,
+  UpdateApprovalRuleData,
+} from '@/types/journalApproval.type'
+import type { JwtUser } from '@/types/jwt.type'
+import logger from '@config/logger'
+import { AUDIT_ACTIONS, AUDIT_ENTITY_TYPES } from '@constants/audit'
+import { HTTP_STATUS } from '@constants/http'
+import { SUCCESS_MESSAGES } from '@constants/success'
+import {
+  getTenantContext,
+  type TenantContext,
+  type TenantRequest,
+} from '@middlewares/tenantContext.middleware'
+import type { JournalApprovalRule } from '@models/JournalApprovalRule'
+import type { JournalEntry } from '@models/JournalEntry'
+import type { JournalEntryApprovalAction } from '@models/JournalEntryApprovalAction'
+import type { JournalEntryApprovalStep } from '@models/JournalEntryApprovalStep'
+import {
+  approveJournalEntry,
+  findJournalEntryApprovalHistory,
+  findPendingApprovalsForUser,
+  rejectJournalEntry,
+  submitJournalEntryForApproval,
+} from '@queries/journalApproval.queries'
+import {
+  createApprovalRule,
+  deleteApprovalRule,
+  findApprovalRuleById,
+  findApprovalRules,
+  updateApprovalRule,
+} from '@queries/journalApprovalRule.queries'
+import type {
+  ApprovalCommentInput,
+  ApprovalRuleListInput,
+  PendingApprovalListInput,
+  RejectJournalEntryInput,
+} from '@schema/journalApproval.schema'
+import { getPaginationMetadata } from '@schema/shared.schema'
+import { auditAction, extractRequestContext } from '@services/audit.service'
+import { ApiResponse } from '@utils/ApiResponse'
+import asyncHandler from '@utils/asyncHandler'
+import { formatDateToString } from '@utils/date'
+
+/**
+ * Transform approval rule to response format
+ */
+const toApprovalRuleResponse = (rule: JournalApprovalRule) => ({
+  id: rule.id,
+  name: rule.name,
+  description: rule.description ?? null,
+  minAmount:
+    rule.minAmount !== null && rule.minAmount !== undefined
+      ? Number(rule.minAmount)
+      : null,
+  accountIds: rule.accountIds,
+  requiredRole: rule.requiredRole,
+  requiredApprovals: rule.requiredApprovals,
+  stepOrder: rule.stepOrder,
+  isActive: rule.isActive,
+  createdBy: rule.createdBy,
+  createdAt: rule.createdAt,
+  updatedAt: rule.updatedAt,
+})
+
+/**
+ * Transform approval step to response format
+ */
+const toApprovalStepResponse = (step: JournalEntryApprovalStep) => ({
+  id: step.id,
+  ruleId: step.ruleId ?? null,
+  ruleName: step.ruleName,
+  stepNumber: step.stepNumber,
+  requiredRole: step.requiredRole,
+  requiredApprovals: step.requiredApprovals,
+  approvalsCount: step.approvalsCount,
+  status: step.status,
+  completedAt: step.completedAt ?? null,
+  createdAt: step.createdAt,
+})
+
+/**
+ * Transform approval action to response format
+ */
+const toApprovalActionResponse = (action: JournalEntryApprovalAction) => ({
+  id: action.id,
+  stepId: action.stepId ?? null,
+  action: action.action,
+  userId: action.userId,
+  comment: action.comment ?? null,
+  createdAt: action.createdAt,
+})
+
+/**
+ * Transform journal entry to its approval summary
+ */
+const toApprovalEntryResponse = (entry: JournalEntry) => ({
+  id: entry.id,
+  entryNumber: entry.entryNumber ?? null,
+  entryDate: formatDateToString(entry.entryDate),
+  description: entry.description ?? null,
+  status: entry.status,
+  approvalStatus: entry.approvalStatus ?? null,
+  totalDebit: entry.totalDebit,
+  totalCredit: entry.totalCredit,
+  createdBy: entry.createdBy,
+  submittedBy: entry.submittedBy ?? null,
+  submittedAt: entry.submittedAt ?? null,
+  approvedBy: entry.approvedBy ?? null,
+  approvedAt: entry.approvedAt ?? null,
+})
+
+/**
+ * Get the approval actor from the authenticated user
+ */
+const toApprovalActor = (user: JwtUser): ApprovalActor => ({
+  id: user.id,
+  role: user.role,
+})
+
+/**
+ * Record an approval workflow action in the audit log
+ * Failures are logged and never block the action itself
+ */
+const auditApproval = async (
+  req: TenantRequest,
+  tenantId: string,
+  action: string,
+  target: AuditTarget
+): Promise<void> => {
+  try {
+    await auditAction(action, [target], {
+      requestContext: extractRequestContext(req),
+      tenantId,
+    })
+  } catch (error) {
+    logger.error('Failed to create audit log for journal approval:', error)
+  }
+}
+
+/**
+ * Get all approval rules controller
+ */
+export const getAllApprovalRules: RequestHandler = asyncHandler(
+  async (req: TenantRequest, res: Response) => {
+    const tenantContext = getTenantContext(req) as TenantContext
+
+    // Get validated query parameters
+    const filters = (
+      req as TenantRequest & { validatedData: ApprovalRuleListInput }
+    ).validatedData
+
+    const { rules, total } = await findApprovalRules(
+      tenantContext.tenantId,
+      tenantContext.schemaName,
+      filters
+    )
+
+    res.status(HTTP_STATUS.OK).json(
+      new ApiResponse(HTTP_STATUS.OK, SUCCESS_MESSAGES.APPROVAL_RULES_FETCHED, {
+        items: rules.map(toApprovalRuleResponse),
+        pagination: getPaginationMetadata(filters.page, filters.limit, total),
+      })
+    )
+  }
+)
+
+/**
+ * Get approval rule by ID controller
+ */
+export const getApprovalRuleById: RequestHandler = asyncHandler(
+  async (req: TenantRequest, res: Response) => {
+    const tenantContext = getTenantContext(req) as TenantContext
+
+    // Get validated params
+    const { id } = (req as TenantRequest & { params: { id: string } }).params
+
+    const rule = await findApprovalRuleById(
+      tenantContext.tenantId,
+      tenantContext.schemaName,
+      id
+    )
+
+    res
+      .status(HTTP_STATUS.OK)
+      .json(
+        new ApiResponse(
+          HTTP_STATUS.OK,
+          SUCCESS_MESSAGES.APPROVAL_RULE_FETCHED,
+          toApprovalRuleResponse(rule)
+        )
+      )
+  }
+)
+
+/**
+ * Create approval rule controller
+ */
+export const createApprovalRuleController: RequestHandler = asyncHandler(
+  async (req: TenantRequest, res: Response) => {
+    const tenantContext = getTenantContext(req) as TenantContext
+    const user = req.user as JwtUser
+
+    // Get validated body
+    const data = (
+      req as TenantRequest & { validatedData: CreateApprovalRuleData }
+    ).validatedData
+
+    const rule = await createApprovalRule(
+      tenantContext.tenantId,
+      tenantContext.schemaName,
+      user.id,
+      data
+    )
+
+    await auditApproval(
+      req,
+      tenantContext.tenantId,
+      AUDIT_ACTIONS.APPROVAL_RULE_CREATED,
+      {
+        type: AUDIT_ENTITY_TYPES.JOURNAL_APPROVAL_RULE,
+        id: rule.id,
+        name: rule.name,
+      }
+    )
+
+    res
+      .status(HTTP_STATUS.CREATED)
+      .json(
+        new ApiResponse(
+          HTTP_STATUS.CREATED,
+          SUCCESS_MESSAGES.APPROVAL_RULE_CREATED,
+          toApprovalRuleResponse(rule)
+        )
+      )
+  }
+)
+
+/**
+ * Update approval rule controller
+ */
+export const updateApprovalRuleController: RequestHandler = asyncHandler(
+  async (req: TenantRequest, res: Response) => {
+    const tenantContext = getTenantContext(req) as TenantContext
+
+    // Get validated params and body
+    const { id } = (req as TenantRequest & { params: { id: string } }).params
+    const data = (
+      req as TenantRequest & { validatedData: UpdateApprovalRuleData }
+    ).validatedData
+
+    const rule = await updateApprovalRule(
+      tenantContext.tenantId,
+      tenantContext.schemaName,
+      id,
+      data
+    )
+
+    await auditApproval(
+      req,
+      tenantContext.tenantId,
+      AUDIT_ACTIONS.APPROVAL_RULE_UPDATED,
+      {
+        type: AUDIT_ENTITY_TYPES.JOURNAL_APPROVAL_RULE,
+        id: rule.id,
+        name: rule.name,
+      }
+    )
+
+    res
+      .status(HTTP_STATUS.OK)
+      .json(
+        new ApiResponse(
+          HTTP_STATUS.OK,
+          SUCCESS_MESSAGES.APPROVAL_RULE_UPDATED,
+          toApprovalRuleResponse(rule)
+        )
+      )
+  }
+)
+
+/**
+ * Delete approval rule controller
+ * Entries already submitted keep the steps they were submitted with
+ */
+export const deleteApprovalRuleById: RequestHandler = asyncHandler(
+  async (req: TenantRequest, res: Response) => {
+    const tenantContext = getTenantContext(req) as TenantContext
+
+    // Get validated params
+    const { id } = (req as TenantRequest & { params: { id: string } }).params
+
+    await deleteApprovalRule(
+      tenantContext.tenantId,
+      tenantContext.schemaName,
+      id
+    )
+
+    await auditApproval(
+      req,
+      tenantContext.tenantId,
+      AUDIT_ACTIONS.APPROVAL_RULE_DELETED,
+      { type: AUDIT_ENTITY_TYPES.JOURNAL_APPROVAL_RULE, id }
+    )
+
+    res.status(HTTP_STATUS.OK).json(
+      new ApiResponse(HTTP_STATUS.OK, SUCCESS_MESSAGES.APPROVAL_RULE_DELETED, {
+        id,
+      })
+    )
+  }
+)
+
+/**
+ * Get the journal entries waiting for the current user's approval
+ */
+export const getPendingApprovals: RequestHandler = asyncHandler(
+  async (req: TenantRequest, res: Response) => {
+    const tenantContext = getTenantContext(req) as TenantContext
+    const user = req.user as JwtUser
+
+    // Get validated query parameters
+    const pagination = (
+      req as TenantRequest & { validatedData: PendingApprovalListInput }
+    ).validatedData
+
+    const { items, total } = await findPendingApprovalsForUser(
+      tenantContext.tenantId,
+      tenantContext.schemaName,
+      toApprovalActor(user),
+      pagination
+    )
+
+    res.status(HTTP_STATUS.OK).json(
+      new ApiResponse(
+        HTTP_STATUS.OK,
+        SUCCESS_MESSAGES.PENDING_APPROVALS_FETCHED,
+        {
+          items: items.map(({ entry, step }) => ({
+            ...toApprovalEntryResponse(entry),
+            currentStep: toApprovalStepResponse(step),
+          })),
+          pagination: getPaginationMetadata(
+            pagination.page,
+            pagination.limit,
+            total
+          ),
+        }
+      )
+    )
+  }
+)
+
+/**
+ * Submit journal entry for approval controller
+ */
+export const submitJournalEntryController: RequestHandler = asyncHandler(
+  async (req: TenantRequest, res: Response) => {
+    const tenantContext = getTenantContext(req) as TenantContext
+    const user = req.user as JwtUser
+
+    // Get validated params and body
+    const { id } = (req as TenantRequest & { params: { id: string } }).params
+    const body = (
+      req as TenantRequest & { validatedData: ApprovalCommentInput }
+    ).validatedData
+
+    const entry = await submitJournalEntryForApproval(
+      tenantContext.tenantId,
+      tenantContext.schemaName,
+      id,
+      user.id,
+      body?.comment
+    )
+
+    await auditApproval(
+      req,
+      tenantContext.tenantId,
+      AUDIT_ACTIONS.JOURNAL_ENTRY_SUBMITTED,
+      {
+        type: AUDIT_ENTITY_TYPES.JOURNAL_ENTRY,
+        id: entry.id,
+        name: entry.entryNumber ?? null,
+        approvalStatus: entry.approvalStatus ?? null,
+      }
+    )
+
+    res
+      .status(HTTP_STATUS.OK)
+      .json(
+        new ApiResponse(
+          HTTP_STATUS.OK,
+          SUCCESS_MESSAGES.JOURNAL_ENTRY_SUBMITTED,
+          toApprovalEntryResponse(entry)
+        )
+      )
+  }
+)
+
+/**
+ * Approve journal entry controller
+ * Approves the current approval step on behalf of the authenticated user
+ */
+export const approveJournalEntryController: RequestHandler = asyncHandler(
+  async (req: TenantRequest, res: Response) => {
+    const tenantContext = getTenantContext(req) as TenantContext
+    const user = req.user as JwtUser
+
+    // Get validated params and body
+    const { id } = (req as TenantRequest & { params: { id: string } }).params
+    const body = (
+      req as TenantRequest & { validatedData: ApprovalCommentInput }
+    ).validatedData
+
+    const entry = await approveJournalEntry(
+      tenantContext.tenantId,
+      tenantContext.schemaName,
+      id,
+      toApprovalActor(user),
+      body?.comment
+    )
+
+    await auditApproval(
+      req,
+      tenantContext.tenantId,
+      AUDIT_ACTIONS.JOURNAL_ENTRY_APPROVED,
+      {
+        type: AUDIT_ENTITY_TYPES.JOURNAL_ENTRY,
+        id: entry.id,
+        name: entry.entryNumber ?? null,
+        approvalStatus: entry.approvalStatus ?? null,
+      }
+    )
+
+    res
+      .status(HTTP_STATUS.OK)
+      .json(
+        new ApiResponse(
+          HTTP_STATUS.OK,
+          SUCCESS_MESSAGES.JOURNAL_ENTRY_APPROVED,
+          toApprovalEntryResponse(entry)
+        )
+      )
+  }
+)
+
+/**
+ * Reject journal entry controller
+ */
+export const rejectJournalEntryController: RequestHandler = asyncHandler(
+  async (req: TenantRequest, res: Response) => {
+    const tenantContext = getTenantContext(req) as TenantContext
+    const user = req.user as JwtUser
+
+    // Get validated params and body
+    const { id } = (req as TenantRequest & { params: { id: string } }).params
+    const { comment } = (
+      req as TenantRequest & { validatedData: RejectJournalEntryInput }
+    ).validatedData
+
+    const entry = await rejectJournalEntry(
+      tenantContext.tenantId,
+      tenantContext.schemaName,
+      id,
+      toApprovalActor(user),
+      comment
+    )
+
+    await auditApproval(
+      req,
+      tenantContext.tenantId,
+      AUDIT_ACTIONS.JOURNAL_ENTRY_REJECTED,
+      {
+        type: AUDIT_ENTITY_TYPES.JOURNAL_ENTRY,
+        id: entry.id,
+        name: entry.entryNumber ?? null,
+        comment,
+      }
+    )
+
+    res
+      .status(HTTP_STATUS.OK)
+      .json(
+        new ApiResponse(
+          HTTP_STATUS.OK,
+          SUCCESS_MESSAGES.JOURNAL_ENTRY_REJECTED,
+          toApprovalEntryResponse(entry)
+        )
+      )
+  }
+)
+
+/**
+ * Get the approval steps and action history of a journal entry
+ */
+export const getJournalEntryApprovals: RequestHandler = asyncHandler(
+  async (req: TenantRequest, res: Response) => {
+    const tenantContext = getTenantContext(req) as TenantContext
+
+    // Get validated params
+    const { id } = (req as TenantRequest & { params: { id: string } }).params
+
+    const { entry, steps, actions } = await findJournalEntryApprovalHistory(
+      tenantContext.tenantId,
+      tenantContext.schemaName,
+      id
+    )
+
+    res.status(HTTP_STATUS.OK).json(
+      new ApiResponse(
+        HTTP_STATUS.OK,
+        SUCCESS_MESSAGES.JOURNAL_ENTRY_APPROVALS_FETCHED,
+        {
+          entry: toApprovalEntryResponse(entry),
+          steps: steps.map(toApprovalStepResponse),
+          actions: actions.map(toApprovalActionResponse),
+        }
+      )
+    )
+  }
+)
@@ -1,15 +1,22 @@
 import type { RequestHandler } from 'express'
 import { Response } from 'express'
 
-import type { DuplicateJournalEntryInput } from '@/types/journalEntry.type'
+import type {
+  DuplicateJournalEntryInput,
+  ScheduledReversalFilters,
+} from '@/types/journalEntry.type'
 import type { JwtUser } from '@/types/jwt.type'
+import { ERROR_MESSAGES } from '@constants/errors'
 import { HTTP_STATUS } from '@constants/http'
+import { JOURNAL_ENTRY_IMPORT_FIELDS } from '@constants/import'
 import { SUCCESS_MESSAGES } from '@constants/success'
 import {
   getTenantContext,
   type TenantContext,
   type TenantRequest,
 } from '@middlewares/tenantContext.middleware'
+import type { JournalEntry } from '@models/JournalEntry'
+import type { RecurringJournalTemplate } from '@models/RecurringJournalTemplate'
 import {
   createJournalEntry,
   deleteJournalEntry,
@@ -22,6 +29,10 @@ import {
   updateJournalEntry,
   voidJournalEntry,
 } from '@queries/journalEntry.queries'
+import { importJournalEntries } from '@queries/journalEntryImport.queries'
+import { duplicateJournalEntryAsRecurring } from '@queries/recurringJournal.queries'
+import { findScheduledReversals } from '@queries/scheduledReversal.queries'
+import type { ImportJournalEntriesInput } from '@schema/journalEntry.schema'
 import { getPaginationMetadata } from '@schema/shared.schema'
 import { ApiResponse } from '@utils/ApiResponse'
 import asyncHandler from '@utils/asyncHandler'
@@ -65,6 +76,7 @@ export const getAllJournalEntries: RequestHandler = asyncHandler(
       description: entry.description ?? null,
       reference: entry.reference ?? null,
       status: entry.status,
+      approvalStatus: entry.approvalStatus ?? null,
       sourceModule: entry.sourceModule ?? null,
       totalDebit: entry.totalDebit,
       totalCredit: entry.totalCredit,
@@ -104,6 +116,57 @@ export const getAllJournalEntries: RequestHandler = asyncHandler(
   }
 )
 
+/**
+ * Get scheduled reversals controller
+ * Lists posted entries waiting to be reversed by the reversal worker, or entries
+ * whose scheduled reversal failed after its last retry
+ */
+export const getScheduledReversals: RequestHandler = asyncHandler(
+  async (req: TenantRequest, res: Response) => {
+    const tenantContext = getTenantContext(req) as TenantContext
+
+    // Get validated query parameters
+    const filters = (
+      req as TenantRequest & { validatedData: ScheduledReversalFilters }
+    ).validatedData
+
+    const { entries, total } = await findScheduledReversals(
+      tenantContext.tenantId,
+      tenantContext.schemaName,
+      filters
+    )
+
+    const entriesData = entries.map((entry) => ({
+      id: entry.id,
+      entryNumber: entry.entryNumber ?? null,
+      entryDate: formatDateToString(entry.entryDate),
+      entryType: entry.entryType,
+      reversalDate: formatDateToString(entry.reversalDate),
+      description: entry.description ?? null,
+      reference: entry.reference ?? null,
+      totalDebit: entry.totalDebit,
+      totalCredit: entry.totalCredit,
+      postedBy: entry.postedBy ?? null,
+      reversalAttempts: entry.reversalAttempts,
+      reversalFailedAt: entry.reversalFailedAt ?? null,
+      reversalError: entry.reversalError ?? null,
+    }))
+
+    const pagination = getPaginationMetadata(filters.page, filters.limit, total)
+
+    res.status(HTTP_STATUS.OK).json(
+      new ApiResponse(
+        HTTP_STATUS.OK,
+        SUCCESS_MESSAGES.SCHEDULED_REVERSALS_FETCHED,
+        {
+          items: entriesData,
+          pagination,
+        }
+      )
+    )
+  }
+)
+
 /**
  * Get journal entry by ID controller
  */
@@ -131,6 +194,9 @@ export const getJournalEntryById: RequestHandler = asyncHandler(
       isClosing: entry.isClosing,
       isReversing: entry.isReversing,
       reversalDate: formatDateToString(entry.reversalDate),
+      reversalAttempts: entry.reversalAttempts,
+      reversalFailedAt: entry.reversalFailedAt ?? null,
+      reversalError: entry.reversalError ?? null,
       description: entry.description ?? null,
       reference: entry.reference ?? null,
       memo: entry.memo ?? null,
@@ -139,6 +205,9 @@ export const getJournalEntryById: RequestHandler = asyncHandler(
       sourceId: entry.sourceId ?? null,
       totalDebit: entry.totalDebit,
       totalCredit: entry.totalCredit,
+      approvalStatus: entry.approvalStatus ?? null,
+      submittedBy: entry.submittedBy ?? null,
+      submittedAt: entry.submittedAt ?? null,
       approvedBy: entry.approvedBy ?? null,
       approvedAt: entry.approvedAt ?? null,
       postedBy: entry.postedBy ?? null,
@@ -160,8 +229,16 @@ export const getJournalEntryById: RequestHandler = asyncHandler(
           lineNumber: line.lineNumber,
           debit: line.debit,
           credit: line.credit,
+          currencyCode: line.currencyCode ?? null,
+          exchangeRate: line.exchangeRate ?? null,
+          foreignDebit: line.foreignDebit ?? null,
+          foreignCredit: line.foreignCredit ?? null,
           description: line.description ?? null,
           memo: line.memo ?? null,
+          contactId: line.contactId ?? null,
+          contact: line.contact
+            ? { id: line.contact.id, displayName: line.contact.displayName }
+            : null,
         })) ?? [],
     }
 
@@ -218,6 +295,11 @@ export const createJournalEntryController: RequestHandler = asyncHandler(
           lineNumber: line.lineNumber,
           debit: line.debit,
           credit: line.credit,
+          currencyCode: line.currencyCode ?? null,
+          exchangeRate: line.exchangeRate ?? null,
+          foreignDebit: line.foreignDebit ?? null,
+          foreignCredit: line.foreignCredit ?? null,
+          contactId: line.contactId ?? null,
         })) ?? [],
     }
 
@@ -282,28 +364,22 @@ export const updateJournalEntryController: RequestHandler = asyncHandler(
 /**
  * Post journal entry controller
  * Posts a draft journal entry and updates COA balances
+ * Entries matching an approval rule must have been approved first
  */
 export const postJournalEntryController: RequestHandler = asyncHandler(
   async (req: TenantRequest, res: Response) => {
     const tenantContext = getTenantContext(req) as TenantContext
     const user = req.user as JwtUser
 
-    // Get validated params and body
+    // Get validated params
     const { id } = (req as TenantRequest & { params: { id: string } }).params
 
-    const postData = (
-      req as TenantRequest & {
-        body?: { approved?: boolean; approvedBy?: string }
-      }
-    ).body
-
     // Post entry
     const postedEntry = await postJournalEntry(
       tenantContext.tenantId,
       tenantContext.schemaName,
       id,
-      user.id,
-      postData?.approvedBy
+      user.id
     )
 
     // Transform entry to response format
@@ -533,14 +609,32 @@ export const duplicateJournalEntryController: RequestHandler = asyncHandler(
       }
     ).validatedData
 
-    // Duplicate entry
-    const duplicatedEntry = await duplicateJournalEntry(
-      tenantContext.tenantId,
-      tenantContext.schemaName,
-      id,
-      user.id,
-      duplicateData
-    )
+    // Duplicate entry, also saving the original as a recurring template when
+    // the "make recurring" option is set
+    const { recurring, ...entryOverrides } = duplicateData ?? {}
+    let duplicatedEntry: JournalEntry
+    let recurringTemplate: RecurringJournalTemplate | null = null
+
+    if (recurring) {
+      const result = await duplicateJournalEntryAsRecurring(
+        tenantContext.tenantId,
+        tenantContext.schemaName,
+        id,
+        user.id,
+        entryOverrides,
+        recurring
+      )
+      duplicatedEntry = result.entry
+      recurringTemplate = result.template
+    } else {
+      duplicatedEntry = await duplicateJournalEntry(
+        tenantContext.tenantId,
+        tenantContext.schemaName,
+        id,
+        user.id,
+        entryOverrides
+      )
+    }
 
     // Transform entry to response format
     const responseData = {
@@ -569,6 +663,16 @@ export const duplicateJournalEntryController: RequestHandler = asyncHandler(
           description: line.description ?? null,
           memo: line.memo ?? null,
         })) ?? [],
+      recurringTemplate: recurringTemplate
+        ? {
+            id: recurringTemplate.id,
+            name: recurringTemplate.name,
+            frequency: recurringTemplate.frequency,
+            interval: recurringTemplate.interval,
+            nextRunDate: formatDateToString(recurringTemplate.nextRunDate),
+            status: recurringTemplate.status,
+          }
+        : null,
     }
 
     res
@@ -582,3 +686,97 @@ export const duplicateJournalEntryController: RequestHandler = asyncHandler(
       )
   }
 )
+
+/**
+ * Get journal entry import fields controller
+ * Returns the list of fields that can be mapped during import
+ */
+export const getJournalEntryImportFields: RequestHandler = asyncHandler(
+  async (_req: TenantRequest, res: Response) => {
+    const importFields = JOURNAL_ENTRY_IMPORT_FIELDS.map((field) => ({
+      key: field.key,
+      label: field.label,
+      required: field.required,
+    }))
+
+    res
+      .status(HTTP_STATUS.OK)
+      .json(
+        new ApiResponse(
+          HTTP_STATUS.OK,
+          SUCCESS_MESSAGES.JOURNAL_ENTRY_IMPORT_FIELDS_FETCHED,
+          importFields
+        )
+      )
+  }
+)
+
+/**
+ * Import journal entries controller
+ * Creates journal entries from an uploaded CSV or Excel file. A dry run, or
+ * an all-or-nothing file with row errors, creates nothing and returns the
+ * per-row errors.
+ */
+export const importJournalEntriesController: RequestHandler = asyncHandler(
+  async (req: TenantRequest, res: Response) => {
+    const tenantContext = getTenantContext(req) as TenantContext
+    const user = req.user as JwtUser
+    const file = req.file as Express.Multer.File
+
+    // Get validated body data
+    const { mapping, dateFormat, status, allOrNothing, dryRun } = (
+      req as TenantRequest & { validatedData: ImportJournalEntriesInput }
+    ).validatedData
+
+    const result = await importJournalEntries(
+      tenantContext.tenantId,
+      tenantContext.schemaName,
+      user.id,
+      {
+        fileName: file.originalname,
+        buffer: file.buffer,
+        mapping,
+        dateFormat,
+        status,
+        allOrNothing,
+        dryRun,
+      }
+    )
+
+    if (result.dryRun) {
+      res
+        .status(HTTP_STATUS.OK)
+        .json(
+          new ApiResponse(
+            HTTP_STATUS.OK,
+            SUCCESS_MESSAGES.JOURNAL_ENTRIES_IMPORT_VALIDATED,
+            result
+          )
+        )
+      return
+    }
+
+    if (!result.imported) {
+      res
+        .status(HTTP_STATUS.BAD_REQUEST)
+        .json(
+          new ApiResponse(
+            HTTP_STATUS.BAD_REQUEST,
+            ERROR_MESSAGES.JOURNAL_ENTRY_IMPORT_FAILED,
+            result
+          )
+        )
+      return
+    }
+
+    res
+      .status(HTTP_STATUS.CREATED)
+      .json(
+        new ApiResponse(
+          HTTP_STATUS.CREATED,
+          SUCCESS_MESSAGES.JOURNAL_ENTRIES_IMPORTED,
+          result
+        )
+      )
+  }
+)
@@ -0,0 +1,281 @@
+import type { RequestHandler } from 'express'
+import { Response } from 'express'
+
+import type { JwtUser } from '@/types/jwt.type'
+import type {
+  CreateRecurringTemplateData,
+  UpdateRecurringTemplateData,
+} from '@/types/recurringJournal.type'
+import { HTTP_STATUS } from '@constants/http'
+import { SUCCESS_MESSAGES } from '@constants/success'
+import {
+  getTenantContext,
+  type TenantContext,
+  type TenantRequest,
+} from '@middlewares/tenantContext.middleware'
+import type { JournalEntry } from '@models/JournalEntry'
+import type { RecurringJournalTemplate } from '@models/RecurringJournalTemplate'
+import {
+  createRecurringTemplate,
+  deleteRecurringTemplate,
+  findRecurringTemplateById,
+  findRecurringTemplateEntries,
+  findRecurringTemplates,
+  updateRecurringTemplate,
+} from '@queries/recurringJournal.queries'
+import type { RecurringTemplateEntriesInput } from '@schema/recurringJournal.schema'
+import { getPaginationMetadata } from '@schema/shared.schema'
+import { ApiResponse } from '@utils/ApiResponse'
+import asyncHandler from '@utils/asyncHandler'
+import { formatDateToString } from '@utils/date'
+
+/**
+ * Transform recurring template to response format
+ * Lines are only included when they were loaded
+ */
+const toRecurringTemplateResponse = (template: RecurringJournalTemplate) => ({
+  id: template.id,
+  name: template.name,
+  entryType: template.entryType,
+  isAdjusting: template.isAdjusting,
+  description: template.description ?? null,
+  reference: template.reference ?? null,
+  memo: template.memo ?? null,
+  totalDebit: template.totalDebit,
+  totalCredit: template.totalCredit,
+  frequency: template.frequency,
+  interval: template.interval,
+  startDate: formatDateToString(template.startDate),
+  endDate: formatDateToString(template.endDate),
+  maxOccurrences: template.maxOccurrences ?? null,
+  occurrencesCount: template.occurrencesCount,
+  nextRunDate: formatDateToString(template.nextRunDate),
+  lastRunDate: formatDateToString(template.lastRunDate),
+  autoPost: template.autoPost,
+  status: template.status,
+  lastError: template.lastError ?? null,
+  createdBy: template.createdBy,
+  createdAt: template.createdAt,
+  updatedAt: template.updatedAt,
+  ...(template.lines && {
+    lines: template.lines.map((line) => ({
+      id: line.id,
+      accountId: line.accountId,
+      accountNumber: line.account?.accountNumber ?? null,
+      accountName: line.account?.accountName ?? null,
+      lineNumber: line.lineNumber,
+      debit: line.debit,
+      credit: line.credit,
+      description: line.description ?? null,
+      memo: line.memo ?? null,
+      contactId: line.contactId ?? null,
+    })),
+  }),
+})
+
+/**
+ * Transform generated journal entry to response format
+ */
+const toGeneratedEntryResponse = (entry: JournalEntry) => ({
+  id: entry.id,
+  entryNumber: entry.entryNumber ?? null,
+  entryDate: formatDateToString(entry.entryDate),
+  description: entry.description ?? null,
+  status: entry.status,
+  totalDebit: entry.totalDebit,
+  totalCredit: entry.totalCredit,
+  createdAt: entry.createdAt,
+})
+
+/**
+ * Get all recurring templates controller
+ */
+export const getAllRecurringTemplates: RequestHandler = asyncHandler(
+  async (req: TenantRequest, res: Response) => {
+    const tenantContext = getTenantContext(req) as TenantContext
+
+    // Get validated query parameters
+    const filters = (
+      req as TenantRequest & {
+        validatedData: Parameters<typeof findRecurringTemplates>[2]
+      }
+    ).validatedData
+
+    const { templates, total } = await findRecurringTemplates(
+      tenantContext.tenantId,
+      tenantContext.schemaName,
+      filters
+    )
+
+    res.status(HTTP_STATUS.OK).json(
+      new ApiResponse(
+        HTTP_STATUS.OK,
+        SUCCESS_MESSAGES.RECURRING_TEMPLATES_FETCHED,
+        {
+          items: templates.map(toRecurringTemplateResponse),
+          pagination: getPaginationMetadata(filters.page, filters.limit, total),
+        }
+      )
+    )
+  }
+)
+
+/**
+ * Get recurring template by ID controller
+ */
+export const getRecurringTemplateById: RequestHandler = asyncHandler(
+  async (req: TenantRequest, res: Response) => {
+    const tenantContext = getTenantContext(req) as TenantContext
+
+    // Get validated params
+    const { id } = (req as TenantRequest & { params: { id: string } }).params
+
+    const template = await findRecurringTemplateById(
+      tenantContext.tenantId,
+      tenantContext.schemaName,
+      id
+    )
+
+    res
+      .status(HTTP_STATUS.OK)
+      .json(
+        new ApiResponse(
+          HTTP_STATUS.OK,
+          SUCCESS_MESSAGES.RECURRING_TEMPLATE_FETCHED,
+          toRecurringTemplateResponse(template)
+        )
+      )
+  }
+)
+
+/**
+ * Create recurring template controller
+ */
+export const createRecurringTemplateController: RequestHandler = asyncHandler(
+  async (req: TenantRequest, res: Response) => {
+    const tenantContext = getTenantContext(req) as TenantContext
+    const user = req.user as JwtUser
+
+    // Get validated body
+    const data = (
+      req as TenantRequest & { validatedData: CreateRecurringTemplateData }
+    ).validatedData
+
+    const template = await createRecurringTemplate(
+      tenantContext.tenantId,
+      tenantContext.schemaName,
+      user.id,
+      data
+    )
+
+    res
+      .status(HTTP_STATUS.CREATED)
+      .json(
+        new ApiResponse(
+          HTTP_STATUS.CREATED,
+          SUCCESS_MESSAGES.RECURRING_TEMPLATE_CREATED,
+          toRecurringTemplateResponse(template)
+        )
+      )
+  }
+)
+
+/**
+ * Update recurring template controller
+ */
+export const updateRecurringTemplateController: RequestHandler = asyncHandler(
+  async (req: TenantRequest, res: Response) => {
+    const tenantContext = getTenantContext(req) as TenantContext
+    const user = req.user as JwtUser
+
+    // Get validated params and body
+    const { id } = (req as TenantRequest & { params: { id: string } }).params
+    const data = (
+      req as TenantRequest & { validatedData: UpdateRecurringTemplateData }
+    ).validatedData
+
+    const template = await updateRecurringTemplate(
+      tenantContext.tenantId,
+      tenantContext.schemaName,
+      id,
+      user.id,
+      data
+    )
+
+    res
+      .status(HTTP_STATUS.OK)
+      .json(
+        new ApiResponse(
+          HTTP_STATUS.OK,
+          SUCCESS_MESSAGES.RECURRING_TEMPLATE_UPDATED,
+          toRecurringTemplateResponse(template)
+        )
+      )
+  }
+)
+
+/**
+ * Delete recurring template controller
+ * Entries that were already generated are kept
+ */
+export const deleteRecurringTemplateById: RequestHandler = asyncHandler(
+  async (req: TenantRequest, res: Response) => {
+    const tenantContext = getTenantContext(req) as TenantContext
+
+    // Get validated params
+    const { id } = (req as TenantRequest & { params: { id: string } }).params
+
+    await deleteRecurringTemplate(
+      tenantContext.tenantId,
+      tenantContext.schemaName,
+      id
+    )
+
+    res
+      .status(HTTP_STATUS.OK)
+      .json(
+        new ApiResponse(
+          HTTP_STATUS.OK,
+          SUCCESS_MESSAGES.RECURRING_TEMPLATE_DELETED,
+          { id }
+        )
+      )
+  }
+)
+
+/**
+ * Get the journal entries generated from a recurring template
+ */
+export const getRecurringTemplateEntries: RequestHandler = asyncHandler(
+  async (req: TenantRequest, res: Response) => {
+    const tenantContext = getTenantContext(req) as TenantContext
+
+    // Get validated params and query parameters
+    const { id } = (req as TenantRequest & { params: { id: string } }).params
+    const pagination = (
+      req as TenantRequest & { validatedData: RecurringTemplateEntriesInput }
+    ).validatedData
+
+    const { entries, total } = await findRecurringTemplateEntries(
+      tenantContext.tenantId,
+      tenantContext.schemaName,
+      id,
+      pagination
+    )
+
+    res.status(HTTP_STATUS.OK).json(
+      new ApiResponse(
+        HTTP_STATUS.OK,
+        SUCCESS_MESSAGES.RECURRING_TEMPLATE_ENTRIES_FETCHED,
+        {
+          items: entries.map(toGeneratedEntryResponse),
+          pagination: getPaginationMetadata(
+            pagination.page,
+            pagination.limit,
+            total
+          ),
+        }
+      )
+    )
+  }
+)
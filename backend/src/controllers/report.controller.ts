@@ -0,0 +1,435 @@
+import type { RequestHandler } from 'express'
+import { Response } from 'express'
+import * as XLSX from 'xlsx'
+
+import type { AgingReport, AgingReportType } from '@/types/report.type'
+import { HTTP_STATUS } from '@constants/http'
+import { AGING_REPORT_EXPORT } from '@constants/report'
+import { SUCCESS_MESSAGES } from '@constants/success'
+import {
+  getTenantContext,
+  type TenantContext,
+  type TenantRequest,
+} from '@middlewares/tenantContext.middleware'
+import { getAgingReport } from '@queries/agingReport.queries'
+import { getBudgetVsActual } from '@queries/budgetVsActual.queries'
+import {
+  getBalanceSheet,
+  getCashFlowStatement,
+  getGeneralLedger,
+  getGeneralLedgerAccount,
+  getIncomeStatement,
+  getTrialBalance,
+} from '@queries/report.queries'
+import type {
+  AgingReportQueryInput,
+  BalanceSheetQueryInput,
+  BudgetVsActualQueryInput,
+  CashFlowQueryInput,
+  GeneralLedgerAccountQueryInput,
+  GeneralLedgerQueryInput,
+  IncomeStatementQueryInput,
+  TrialBalanceQueryInput,
+} from '@schema/report.schema'
+import { getPaginationMetadata } from '@schema/shared.schema'
+import { ApiResponse } from '@utils/ApiResponse'
+import asyncHandler from '@utils/asyncHandler'
+
+/**
+ * Get trial balance controller
+ * Retrieves debit and credit totals per account from posted journal entry lines
+ */
+export const getTrialBalanceReport: RequestHandler = asyncHandler(
+  async (req: TenantRequest, res: Response) => {
+    const tenantContext = getTenantContext(req) as TenantContext
+
+    // Get validated query parameters
+    const filters = (
+      req as TenantRequest & { validatedData: TrialBalanceQueryInput }
+    ).validatedData
+
+    // Build report
+    const report = await getTrialBalance(
+      tenantContext.tenantId,
+      tenantContext.schemaName,
+      filters
+    )
+
+    res
+      .status(HTTP_STATUS.OK)
+      .json(
+        new ApiResponse(
+          HTTP_STATUS.OK,
+          SUCCESS_MESSAGES.TRIAL_BALANCE_FETCHED,
+          report
+        )
+      )
+  }
+)
+
+/**
+ * Get balance sheet controller
+ * Retrieves asset, liability and equity balances as of a date
+ */
+export const getBalanceSheetReport: RequestHandler = asyncHandler(
+  async (req: TenantRequest, res: Response) => {
+    const tenantContext = getTenantContext(req) as TenantContext
+
+    // Get validated query parameters
+    const filters = (
+      req as TenantRequest & { validatedData: BalanceSheetQueryInput }
+    ).validatedData
+
+    // Build report
+    const report = await getBalanceSheet(
+      tenantContext.tenantId,
+      tenantContext.schemaName,
+      filters
+    )
+
+    res
+      .status(HTTP_STATUS.OK)
+      .json(
+        new ApiResponse(
+          HTTP_STATUS.OK,
+          SUCCESS_MESSAGES.BALANCE_SHEET_FETCHED,
+          report
+        )
+      )
+  }
+)
+
+/**
+ * Get income statement controller
+ * Retrieves revenue, expenses and net income for a date range
+ */
+export const getIncomeStatementReport: RequestHandler = asyncHandler(
+  async (req: TenantRequest, res: Response) => {
+    const tenantContext = getTenantContext(req) as TenantContext
+
+    // Get validated query parameters
+    const filters = (
+      req as TenantRequest & { validatedData: IncomeStatementQueryInput }
+    ).validatedData
+
+    // Build report
+    const report = await getIncomeStatement(
+      tenantContext.tenantId,
+      tenantContext.schemaName,
+      filters
+    )
+
+    res
+      .status(HTTP_STATUS.OK)
+      .json(
+        new ApiResponse(
+          HTTP_STATUS.OK,
+          SUCCESS_MESSAGES.INCOME_STATEMENT_FETCHED,
+          report
+        )
+      )
+  }
+)
+
+/**
+ * Get cash flow statement controller
+ * Retrieves operating, investing and financing cash flows for a date range
+ */
+export const getCashFlowReport: RequestHandler = asyncHandler(
+  async (req: TenantRequest, res: Response) => {
+    const tenantContext = getTenantContext(req) as TenantContext
+
+    // Get validated query parameters
+    const filters = (
+      req as TenantRequest & { validatedData: CashFlowQueryInput }
+    ).validatedData
+
+    // Build report
+    const report = await getCashFlowStatement(
+      tenantContext.tenantId,
+      tenantContext.schemaName,
+      filters
+    )
+
+    res
+      .status(HTTP_STATUS.OK)
+      .json(
+        new ApiResponse(
+          HTTP_STATUS.OK,
+          SUCCESS_MESSAGES.CASH_FLOW_STATEMENT_FETCHED,
+          report
+        )
+      )
+  }
+)
+
+/**
+ * Get general ledger controller
+ * Retrieves opening, period and closing balances per account for a date range
+ */
+export const getGeneralLedgerReport: RequestHandler = asyncHandler(
+  async (req: TenantRequest, res: Response) => {
+    const tenantContext = getTenantContext(req) as TenantContext
+
+    // Get validated query parameters
+    const filters = (
+      req as TenantRequest & { validatedData: GeneralLedgerQueryInput }
+    ).validatedData
+
+    // Build report
+    const report = await getGeneralLedger(
+      tenantContext.tenantId,
+      tenantContext.schemaName,
+      filters
+    )
+
+    res
+      .status(HTTP_STATUS.OK)
+      .json(
+        new ApiResponse(
+          HTTP_STATUS.OK,
+          SUCCESS_MESSAGES.GENERAL_LEDGER_FETCHED,
+          report
+        )
+      )
+  }
+)
+
+/**
+ * Get general ledger account controller
+ * Retrieves posted movements of one account with running balances
+ */
+export const getGeneralLedgerAccountReport: RequestHandler = asyncHandler(
+  async (req: TenantRequest, res: Response) => {
+    const tenantContext = getTenantContext(req) as TenantContext
+
+    // Get validated params and query parameters
+    const { id } = (req as TenantRequest & { params: { id: string } }).params
+    const filters = (
+      req as TenantRequest & { validatedData: GeneralLedgerAccountQueryInput }
+    ).validatedData
+
+    // Build ledger
+    const { period, account, movements, total } = await getGeneralLedgerAccount(
+      tenantContext.tenantId,
+      tenantContext.schemaName,
+      id,
+      filters
+    )
+
+    // Get pagination metadata
+    const pagination = getPaginationMetadata(filters.page, filters.limit, total)
+
+    res.status(HTTP_STATUS.OK).json(
+      new ApiResponse(
+        HTTP_STATUS.OK,
+        SUCCESS_MESSAGES.GENERAL_LEDGER_ACCOUNT_FETCHED,
+        {
+          period,
+          account,
+          items: movements,
+          pagination,
+        }
+      )
+    )
+  }
+)
+
+/**
+ * Build the rows of an aging report export, headers first
+ * Summary mode has one row per contact; detail mode has one row per open
+ * item followed by a subtotal row per contact
+ */
+const toAgingReportRows = (
+  report: AgingReport
+): Array<Array<string | number>> => {
+  const bucketValues = (buckets: AgingReport['totals']) => [
+    buckets.current,
+    buckets.days1To30,
+    buckets.days31To60,
+    buckets.days61To90,
+    buckets.over90,
+    buckets.total,
+  ]
+
+  if (report.mode === 'summary') {
+    return [
+      ['Contact', ...AGING_REPORT_EXPORT.BUCKET_HEADERS],
+      ...report.contacts.map((contact) => [
+        contact.displayName,
+        ...bucketValues(contact.buckets),
+      ]),
+      ['Total', ...bucketValues(report.totals)],
+    ]
+  }
+
+  const emptyDetail = AGING_REPORT_EXPORT.DETAIL_HEADERS.slice(1).map(() => '')
+  return [
+    [
+      ...AGING_REPORT_EXPORT.DETAIL_HEADERS,
+      ...AGING_REPORT_EXPORT.BUCKET_HEADERS,
+    ],
+    ...report.contacts.flatMap((contact) => [
+      ...(contact.items ?? []).map((item) => [
+        contact.displayName,
+        item.documentNumber ?? '',
+        item.entryNumber ?? '',
+        item.entryDate,
+        item.dueDate,
+        item.daysPastDue,
+        item.description ?? '',
+        ...(
+          [
+            'current',
+            'days1To30',
+            'days31To60',
+            'days61To90',
+            'over90',
+          ] as const
+        ).map((bucket) => (item.bucket === bucket ? item.openAmount : '')),
+        item.openAmount,
+      ]),
+      [
+        `Total ${contact.displayName}`,
+        ...emptyDetail,
+        ...bucketValues(contact.buckets),
+      ],
+    ]),
+    ['Total', ...emptyDetail, ...bucketValues(report.totals)],
+  ]
+}
+
+/**
+ * Quote a CSV value when it contains a delimiter, quote or line break
+ */
+const toCsvValue = (value: string | number): string => {
+  const text = String(value)
+  return /[\n\r",]/.test(text) ? `"${text.replaceAll('"', '""')}"` : text
+}
+
+/**
+ * Build an aging report and send it as JSON, CSV or XLSX
+ */
+const sendAgingReport = async (
+  req: TenantRequest,
+  res: Response,
+  reportType: AgingReportType,
+  message: string
+): Promise<void> => {
+  const tenantContext = getTenantContext(req) as TenantContext
+
+  // Get validated query parameters
+  const { format = 'json', ...filters } = (
+    req as TenantRequest & { validatedData: AgingReportQueryInput }
+  ).validatedData
+
+  // Build report
+  const report = await getAgingReport(
+    tenantContext.tenantId,
+    tenantContext.schemaName,
+    reportType,
+    filters
+  )
+
+  if (format === 'json') {
+    res
+      .status(HTTP_STATUS.OK)
+      .json(new ApiResponse(HTTP_STATUS.OK, message, report))
+    return
+  }
+
+  const rows = toAgingReportRows(report)
+  // eslint-disable-next-line security/detect-object-injection
+  const filename = `${AGING_REPORT_EXPORT.FILENAME_PREFIX[reportType]}_${report.asOf}.${format}`
+
+  let content: Buffer
+  if (format === 'csv') {
+    content = Buffer.from(
+      rows.map((row) => row.map(toCsvValue).join(',')).join('\r\n'),
+      'utf-8'
+    )
+    res.setHeader('Content-Type', AGING_REPORT_EXPORT.CSV_CONTENT_TYPE)
+  } else {
+    const workbook = XLSX.utils.book_new()
+    const worksheet = XLSX.utils.aoa_to_sheet(rows)
+    XLSX.utils.book_append_sheet(
+      workbook,
+      worksheet,
+      // eslint-disable-next-line security/detect-object-injection
+      AGING_REPORT_EXPORT.WORKSHEET_NAME[reportType]
+    )
+    content = XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' })
+    res.setHeader('Content-Type', AGING_REPORT_EXPORT.XLSX_CONTENT_TYPE)
+  }
+
+  // Set response headers for file download
+  res.setHeader('Content-Disposition', `attachment; filename="${filename}"`)
+  res.setHeader('Content-Length', content.length)
+
+  res.status(HTTP_STATUS.OK).send(content)
+}
+
+/**
+ * Get aged receivables controller
+ * Retrieves open receivable balances per customer by days past due, as JSON
+ * or as a CSV or XLSX download
+ */
+export const getAgedReceivablesReport: RequestHandler = asyncHandler(
+  async (req: TenantRequest, res: Response) => {
+    await sendAgingReport(
+      req,
+      res,
+      'receivable',
+      SUCCESS_MESSAGES.AGED_RECEIVABLES_FETCHED
+    )
+  }
+)
+
+/**
+ * Get aged payables controller
+ * Retrieves open payable balances per vendor by days past due, as JSON or as
+ * a CSV or XLSX download
+ */
+export const getAgedPayablesReport: RequestHandler = asyncHandler(
+  async (req: TenantRequest, res: Response) => {
+    await sendAgingReport(
+      req,
+      res,
+      'payable',
+      SUCCESS_MESSAGES.AGED_PAYABLES_FETCHED
+    )
+  }
+)
+
+/**
+ * Get budget vs actual controller
+ * Compares the budgeted amounts of a budget with the posted lines of each
+ * month of its fiscal year, with variances and profit margins
+ */
+export const getBudgetVsActualReport: RequestHandler = asyncHandler(
+  async (req: TenantRequest, res: Response) => {
+    const tenantContext = getTenantContext(req) as TenantContext
+
+    // Get validated query parameters
+    const filters = (
+      req as TenantRequest & { validatedData: BudgetVsActualQueryInput }
+    ).validatedData
+
+    // Build report
+    const report = await getBudgetVsActual(
+      tenantContext.tenantId,
+      tenantContext.schemaName,
+      filters
+    )
+
+    res
+      .status(HTTP_STATUS.OK)
+      .json(
+        new ApiResponse(
+          HTTP_STATUS.OK,
+          SUCCESS_MESSAGES.BUDGET_VS_ACTUAL_FETCHED,
+          report
+        )
+      )
+  }
+)
@@ -48,6 +48,12 @@ export const getAllTaxExemptions: RequestHandler = asyncHandler(
     const responseData = taxExemptions.map((exemption) => ({
       id: exemption.id,
       contactId: exemption.contactId,
+      contact: exemption.contact
+        ? {
+            id: exemption.contact.id,
+            displayName: exemption.contact.displayName,
+          }
+        : null,
       taxId: exemption.taxId ?? null,
       tax: exemption.tax
         ? {
@@ -98,6 +104,12 @@ export const getTaxExemptionById: RequestHandler = asyncHandler(
     const responseData = {
       id: taxExemption.id,
       contactId: taxExemption.contactId,
+      contact: taxExemption.contact
+        ? {
+            id: taxExemption.contact.id,
+            displayName: taxExemption.contact.displayName,
+          }
+        : null,
       taxId: taxExemption.taxId ?? null,
       tax: taxExemption.tax
         ? {
@@ -156,6 +168,12 @@ export const createTaxExemptionController: RequestHandler = asyncHandler(
     const responseData = {
       id: taxExemption.id,
       contactId: taxExemption.contactId,
+      contact: taxExemption.contact
+        ? {
+            id: taxExemption.contact.id,
+            displayName: taxExemption.contact.displayName,
+          }
+        : null,
       taxId: taxExemption.taxId ?? null,
       tax: taxExemption.tax
         ? {
@@ -215,6 +233,12 @@ export const updateTaxExemptionController: RequestHandler = asyncHandler(
     const responseData = {
       id: updatedTaxExemption.id,
       contactId: updatedTaxExemption.contactId,
+      contact: updatedTaxExemption.contact
+        ? {
+            id: updatedTaxExemption.contact.id,
+            displayName: updatedTaxExemption.contact.displayName,
+          }
+        : null,
       taxId: updatedTaxExemption.taxId ?? null,
       tax: updatedTaxExemption.tax
         ? {
@@ -266,6 +290,12 @@ export const deleteTaxExemptionById: RequestHandler = asyncHandler(
     const responseData = {
       id: deletedTaxExemption.id,
       contactId: deletedTaxExemption.contactId,
+      contact: deletedTaxExemption.contact
+        ? {
+            id: deletedTaxExemption.contact.id,
+            displayName: deletedTaxExemption.contact.displayName,
+          }
+        : null,
       deletedAt: deletedTaxExemption.deletedAt,
     }
 
@@ -303,6 +333,12 @@ export const restoreTaxExemptionById: RequestHandler = asyncHandler(
     const responseData = {
       id: restoredTaxExemption.id,
       contactId: restoredTaxExemption.contactId,
+      contact: restoredTaxExemption.contact
+        ? {
+            id: restoredTaxExemption.contact.id,
+            displayName: restoredTaxExemption.contact.displayName,
+          }
+        : null,
       isActive: restoredTaxExemption.isActive,
       updatedAt: restoredTaxExemption.updatedAt,
     }
@@ -342,6 +378,12 @@ export const enableTaxExemption: RequestHandler = asyncHandler(
     const responseData = {
       id: enabledTaxExemption.id,
       contactId: enabledTaxExemption.contactId,
+      contact: enabledTaxExemption.contact
+        ? {
+            id: enabledTaxExemption.contact.id,
+            displayName: enabledTaxExemption.contact.displayName,
+          }
+        : null,
       isActive: enabledTaxExemption.isActive,
       updatedAt: enabledTaxExemption.updatedAt,
     }
@@ -381,6 +423,12 @@ export const disableTaxExemption: RequestHandler = asyncHandler(
     const responseData = {
       id: disabledTaxExemption.id,
       contactId: disabledTaxExemption.contactId,
+      contact: disabledTaxExemption.contact
+        ? {
+            id: disabledTaxExemption.contact.id,
+            displayName: disabledTaxExemption.contact.displayName,
+          }
+        : null,
       isActive: disabledTaxExemption.isActive,
       updatedAt: disabledTaxExemption.updatedAt,
     }
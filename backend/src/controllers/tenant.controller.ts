@@ -18,6 +18,7 @@ import { PAGINATION_DEFAULTS } from '@constants/pagination'
 import { SUCCESS_MESSAGES } from '@constants/success'
 import type { AuthenticatedRequest } from '@middlewares/auth.middleware'
 import { User } from '@models/User'
+import { applyChartOfAccountTemplate } from '@queries/chartOfAccountTemplate.queries'
 import {
   createRefreshToken,
   revokeRefreshToken,
@@ -31,6 +32,7 @@ import {
   updateTenant,
 } from '@queries/tenant.queries'
 import { getPaginationMetadata } from '@schema/shared.schema'
+import type { ApplyChartOfAccountTemplateInput } from '@schema/tenant.schema'
 import {
   auditAction,
   auditCreate,
@@ -42,6 +44,7 @@ import { onboardTenant } from '@services/tenant.service'
 import { ApiError } from '@utils/ApiError'
 import { ApiResponse } from '@utils/ApiResponse'
 import asyncHandler from '@utils/asyncHandler'
+import { listChartOfAccountTemplates } from '@utils/chartOfAccountTemplates'
 import { signTokens } from '@utils/jwt'
 
 /**
@@ -202,20 +205,25 @@ export const getTenantById: RequestHandler = asyncHandler(
  */
 export const createTenantController: RequestHandler = asyncHandler(
   async (req: AuthenticatedRequest, res: Response) => {
+    const user = req.user as JwtUser
+
     // Get validated body data
-    const { name, schemaName } = (
+    const { name, schemaName, chartOfAccountTemplate } = (
       req as AuthenticatedRequest & {
         body: {
           name: string
           schemaName: string
+          chartOfAccountTemplate?: string
         }
       }
     ).body
 
     // Onboard tenant (users will be created separately and associated later)
-    const { tenant } = await onboardTenant({
+    const { tenant, appliedTemplate } = await onboardTenant({
       name,
       schemaName,
+      ...(chartOfAccountTemplate ? { chartOfAccountTemplate } : {}),
+      createdBy: user.id,
     })
 
     // Audit log
@@ -232,6 +240,12 @@ export const createTenantController: RequestHandler = asyncHandler(
           metadata: {
             name: tenant.name,
             schemaName: tenant.schemaName,
+            ...(appliedTemplate
+              ? {
+                  coaTemplateKey: appliedTemplate.template.key,
+                  coaTemplateVersion: appliedTemplate.template.version,
+                }
+              : {}),
           },
         }
       )
@@ -261,6 +275,99 @@ export const createTenantController: RequestHandler = asyncHandler(
   }
 )
 
+/**
+ * Get chart of accounts templates controller
+ * Lists the industry templates a tenant can be set up with
+ * Only SuperAdmin can access this endpoint
+ */
+export const getChartOfAccountTemplates: RequestHandler = asyncHandler(
+  async (_req: AuthenticatedRequest, res: Response) => {
+    res
+      .status(HTTP_STATUS.OK)
+      .json(
+        new ApiResponse(
+          HTTP_STATUS.OK,
+          SUCCESS_MESSAGES.CHART_OF_ACCOUNT_TEMPLATES_FETCHED,
+          listChartOfAccountTemplates()
+        )
+      )
+  }
+)
+
+/**
+ * Apply chart of accounts template controller
+ * Creates the accounts of a template in a tenant without accounts
+ * Only SuperAdmin can access this endpoint
+ */
+export const applyChartOfAccountTemplateController: RequestHandler =
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const user = req.user as JwtUser
+
+    // Get validated params and body
+    const { id } = (
+      req as AuthenticatedRequest & {
+        params: { id: string }
+      }
+    ).params
+    const { templateKey } = (
+      req as AuthenticatedRequest & {
+        body: ApplyChartOfAccountTemplateInput
+      }
+    ).body
+
+    const tenant = await findTenantById(id)
+    const { template, accounts } = await applyChartOfAccountTemplate(
+      tenant.id,
+      tenant.schemaName,
+      user.id,
+      templateKey
+    )
+
+    // Audit log
+    try {
+      const requestContext = extractRequestContext(req)
+      await auditCreate(
+        AUDIT_ACTIONS.TENANT_COA_TEMPLATE_APPLIED,
+        AUDIT_ENTITY_TYPES.TENANT,
+        tenant.id,
+        {
+          requestContext,
+          tenantId: tenant.id,
+          metadata: {
+            name: tenant.name,
+            coaTemplateKey: template.key,
+            coaTemplateVersion: template.version,
+            accountCount: accounts.length,
+          },
+        }
+      )
+    } catch (error) {
+      logger.error(
+        'Failed to create audit log for chart of accounts template:',
+        error
+      )
+    }
+
+    res.status(HTTP_STATUS.CREATED).json(
+      new ApiResponse(
+        HTTP_STATUS.CREATED,
+        SUCCESS_MESSAGES.CHART_OF_ACCOUNT_TEMPLATE_APPLIED,
+        {
+          template,
+          accounts: accounts.map((account) => ({
+            id: account.id,
+            accountNumber: account.accountNumber,
+            accountName: account.accountName,
+            accountType: account.accountType,
+            accountSubtype: account.accountSubtype,
+            accountDetailType: account.accountDetailType,
+            parentAccountId: account.parentAccountId,
+          })),
+        }
+      )
+    )
+  })
+
 /**
  * Update tenant controller
  * Updates tenant information
@@ -0,0 +1,44 @@
+import type { Knex } from 'knex'
+
+/**
+ * Add currency settings to tenants migration
+ * - base_currency: currency the tenant keeps its books in
+ * - fx_gain_loss_account_id: chart of account in the tenant schema that
+ *   unrealized exchange gains and losses are posted to by the revaluation job
+ * - fx_revaluation_user_id: user the scheduled revaluation posts entries as
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('tenants', (table) => {
+    table
+      .string('base_currency', 3)
+      .notNullable()
+      .defaultTo('CAD')
+      .comment('ISO 4217 currency code the books are kept in')
+
+    table
+      .uuid('fx_gain_loss_account_id')
+      .nullable()
+      .comment(
+        'Tenant schema chart of account for unrealized FX gain/loss (null disables scheduled revaluation)'
+      )
+
+    table
+      .uuid('fx_revaluation_user_id')
+      .nullable()
+      .references('id')
+      .inTable('users')
+      .onDelete('SET NULL')
+      .comment(
+        'User who set the gain/loss account; scheduled revaluations are posted as this user'
+      )
+  })
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('tenants', (table) => {
+    table.dropForeign(['fx_revaluation_user_id'])
+    table.dropColumn('fx_revaluation_user_id')
+    table.dropColumn('fx_gain_loss_account_id')
+    table.dropColumn('base_currency')
+  })
+}
@@ -0,0 +1,29 @@
+import type { Knex } from 'knex'
+
+/**
+ * Add chart of accounts template to tenants migration
+ * - coa_template_key: industry template the chart of accounts was set up from
+ * - coa_template_version: version of the template when it was applied
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('tenants', (table) => {
+    table
+      .string('coa_template_key', 50)
+      .nullable()
+      .comment(
+        'Chart of accounts template applied to the tenant (null if none was applied)'
+      )
+
+    table
+      .integer('coa_template_version')
+      .nullable()
+      .comment('Version of the chart of accounts template when it was applied')
+  })
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('tenants', (table) => {
+    table.dropColumn('coa_template_version')
+    table.dropColumn('coa_template_key')
+  })
+}
@@ -0,0 +1,144 @@
+import type { Knex } from 'knex'
+
+/**
+ * Create fiscal_years and fiscal_periods tables migration
+ * Tenant-specific tables for fiscal calendars and period close
+ * Journal entries dated inside a closed period cannot be posted, voided, reversed or updated
+ * This migration should only be run in tenant schemas, not in public schema
+ */
+export async function up(knex: Knex): Promise<void> {
+  // Create fiscal_years table
+  await knex.schema.createTable('fiscal_years', (table) => {
+    // Primary key - UUID
+    // Note: UUID is generated by BaseModel.$beforeInsert() using uuidv4()
+    table.uuid('id').primary()
+
+    // Tenant reference
+    table
+      .uuid('tenant_id')
+      .notNullable()
+      .references('id')
+      .inTable('public.tenants')
+      .onDelete('CASCADE')
+      .comment('Reference to the tenant this fiscal year belongs to')
+
+    // Fiscal year fields
+    table
+      .string('name', 100)
+      .notNullable()
+      .comment('Fiscal year name (e.g., "FY 2025")')
+
+    table
+      .timestamp('start_date')
+      .notNullable()
+      .comment('First day of the fiscal year (start of day UTC)')
+
+    table
+      .timestamp('end_date')
+      .notNullable()
+      .comment('Last day of the fiscal year (end of day UTC)')
+
+    table
+      .string('period_type', 50)
+      .notNullable()
+      .defaultTo('monthly')
+      .comment('Period type: monthly, quarterly')
+
+    // Audit fields
+    table
+      .uuid('created_by')
+      .notNullable()
+      .references('id')
+      .inTable('public.users')
+      .onDelete('RESTRICT')
+      .comment('User who created this fiscal year')
+
+    // Timestamps
+    table.timestamp('created_at').defaultTo(knex.fn.now()).notNullable()
+    table.timestamp('updated_at').defaultTo(knex.fn.now()).notNullable()
+    table.timestamp('deleted_at').nullable()
+
+    // Indexes
+    table.index(['tenant_id', 'deleted_at'])
+    table.index(['tenant_id', 'start_date', 'end_date'])
+  })
+
+  // Create fiscal_periods table
+  await knex.schema.createTable('fiscal_periods', (table) => {
+    // Primary key - UUID
+    table.uuid('id').primary()
+
+    // Tenant reference
+    table
+      .uuid('tenant_id')
+      .notNullable()
+      .references('id')
+      .inTable('public.tenants')
+      .onDelete('CASCADE')
+      .comment('Reference to the tenant this fiscal period belongs to')
+
+    table
+      .uuid('fiscal_year_id')
+      .notNullable()
+      .references('id')
+      .inTable('fiscal_years')
+      .onDelete('CASCADE')
+      .comment('Reference to the fiscal year')
+
+    // Fiscal period fields
+    table
+      .integer('period_number')
+      .notNullable()
+      .comment('Position of the period within the fiscal year (1-based)')
+
+    table
+      .string('name', 100)
+      .notNullable()
+      .comment('Period name (e.g., "Jan 2025", "Q1 FY 2025")')
+
+    table
+      .timestamp('start_date')
+      .notNullable()
+      .comment('First day of the period (start of day UTC)')
+
+    table
+      .timestamp('end_date')
+      .notNullable()
+      .comment('Last day of the period (end of day UTC)')
+
+    table
+      .string('status', 50)
+      .notNullable()
+      .defaultTo('open')
+      .comment('Period status: open, soft_closed, hard_closed')
+
+    table
+      .uuid('closed_by')
+      .nullable()
+      .references('id')
+      .inTable('public.users')
+      .onDelete('SET NULL')
+      .comment('User who last closed this period')
+
+    table
+      .timestamp('closed_at')
+      .nullable()
+      .comment('When the period was closed')
+
+    // Timestamps
+    table.timestamp('created_at').defaultTo(knex.fn.now()).notNullable()
+    table.timestamp('updated_at').defaultTo(knex.fn.now()).notNullable()
+    table.timestamp('deleted_at').nullable()
+
+    // Indexes
+    table.index(['fiscal_year_id', 'deleted_at'])
+    table.index(['tenant_id', 'start_date', 'end_date'])
+    table.index(['tenant_id', 'status'])
+    table.unique(['fiscal_year_id', 'period_number', 'deleted_at'])
+  })
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('fiscal_periods')
+  await knex.schema.dropTableIfExists('fiscal_years')
+}
@@ -0,0 +1,38 @@
+import type { Knex } from 'knex'
+
+/**
+ * Add scheduled reversal tracking columns to journal_entries migration
+ * Posted entries with a reversal_date are reversed automatically by the reversal worker
+ * These columns record failed attempts so they can be listed and retried
+ * This migration should only be run in tenant schemas, not in public schema
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('journal_entries', (table) => {
+    table
+      .integer('reversal_attempts')
+      .notNullable()
+      .defaultTo(0)
+      .comment('Number of failed scheduled reversal attempts')
+
+    table
+      .timestamp('reversal_failed_at')
+      .nullable()
+      .comment('When the scheduled reversal gave up after its last retry')
+
+    table
+      .text('reversal_error')
+      .nullable()
+      .comment('Error message of the last failed scheduled reversal attempt')
+
+    table.index(['tenant_id', 'reversal_date'])
+  })
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('journal_entries', (table) => {
+    table.dropIndex(['tenant_id', 'reversal_date'])
+    table.dropColumn('reversal_error')
+    table.dropColumn('reversal_failed_at')
+    table.dropColumn('reversal_attempts')
+  })
+}
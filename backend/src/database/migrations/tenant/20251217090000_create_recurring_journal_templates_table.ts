@@ -0,0 +1,225 @@
+import type { Knex } from 'knex'
+
+/**
+ * Create recurring_journal_templates and recurring_journal_template_lines tables migration
+ * Tenant-specific tables for journal entries that are generated on a schedule
+ * Generated entries reference their template via journal_entries.source_module/source_id
+ * This migration should only be run in tenant schemas, not in public schema
+ */
+export async function up(knex: Knex): Promise<void> {
+  // Create recurring_journal_templates table
+  await knex.schema.createTable('recurring_journal_templates', (table) => {
+    // Primary key - UUID
+    // Note: UUID is generated by BaseModel.$beforeInsert() using uuidv4()
+    table.uuid('id').primary()
+
+    // Tenant reference
+    table
+      .uuid('tenant_id')
+      .notNullable()
+      .references('id')
+      .inTable('public.tenants')
+      .onDelete('CASCADE')
+      .comment('Reference to the tenant this template belongs to')
+
+    // Template fields
+    table
+      .string('name', 255)
+      .notNullable()
+      .comment('Template name (e.g., "Monthly rent")')
+
+    table
+      .string('entry_type', 50)
+      .notNullable()
+      .defaultTo('standard')
+      .comment('Entry type of generated entries: standard, adjusting')
+
+    table
+      .boolean('is_adjusting')
+      .notNullable()
+      .defaultTo(false)
+      .comment('Whether generated entries are adjusting entries')
+
+    table
+      .text('description')
+      .nullable()
+      .comment('Description copied to generated entries')
+
+    table
+      .string('reference', 255)
+      .nullable()
+      .comment('Reference copied to generated entries')
+
+    table.text('memo').nullable().comment('Memo copied to generated entries')
+
+    table
+      .decimal('total_debit', 15, 4)
+      .notNullable()
+      .defaultTo(0)
+      .comment('Total debit amount of the template lines')
+
+    table
+      .decimal('total_credit', 15, 4)
+      .notNullable()
+      .defaultTo(0)
+      .comment('Total credit amount of the template lines')
+
+    // Schedule fields
+    table
+      .string('frequency', 50)
+      .notNullable()
+      .comment('Schedule frequency: daily, weekly, monthly, yearly')
+
+    table
+      .integer('interval')
+      .notNullable()
+      .defaultTo(1)
+      .comment('Number of frequency units between occurrences')
+
+    table
+      .timestamp('start_date')
+      .notNullable()
+      .comment('Date of the first occurrence (start of day UTC)')
+
+    table
+      .timestamp('end_date')
+      .nullable()
+      .comment('Last date an occurrence may fall on (start of day UTC)')
+
+    table
+      .integer('max_occurrences')
+      .nullable()
+      .comment('Maximum number of entries to generate')
+
+    table
+      .integer('occurrences_count')
+      .notNullable()
+      .defaultTo(0)
+      .comment('Number of entries generated so far')
+
+    table
+      .timestamp('next_run_date')
+      .nullable()
+      .comment('Date of the next occurrence, null once the schedule completed')
+
+    table
+      .timestamp('last_run_date')
+      .nullable()
+      .comment('Date of the last generated occurrence')
+
+    table
+      .boolean('auto_post')
+      .notNullable()
+      .defaultTo(false)
+      .comment('Post generated entries instead of leaving them as drafts')
+
+    table
+      .string('status', 50)
+      .notNullable()
+      .defaultTo('active')
+      .comment('Template status: active, paused, completed')
+
+    table
+      .text('last_error')
+      .nullable()
+      .comment('Error message of the last failed generation')
+
+    // Audit fields
+    table
+      .uuid('created_by')
+      .notNullable()
+      .references('id')
+      .inTable('public.users')
+      .onDelete('RESTRICT')
+      .comment(
+        'User who created the template, generated entries are created as this user'
+      )
+
+    // Timestamps
+    table.timestamp('created_at').defaultTo(knex.fn.now()).notNullable()
+    table.timestamp('updated_at').defaultTo(knex.fn.now()).notNullable()
+    table.timestamp('deleted_at').nullable()
+
+    // Indexes
+    table.index(['tenant_id', 'deleted_at'])
+    table.index(['tenant_id', 'status', 'next_run_date'])
+  })
+
+  // Create recurring_journal_template_lines table
+  await knex.schema.createTable('recurring_journal_template_lines', (table) => {
+    // Primary key - UUID
+    table.uuid('id').primary()
+
+    // Tenant reference
+    table
+      .uuid('tenant_id')
+      .notNullable()
+      .references('id')
+      .inTable('public.tenants')
+      .onDelete('CASCADE')
+      .comment('Reference to the tenant this line belongs to')
+
+    // Template reference
+    table
+      .uuid('template_id')
+      .notNullable()
+      .references('id')
+      .inTable('recurring_journal_templates')
+      .onDelete('CASCADE')
+      .comment('Reference to the recurring template')
+
+    // Line fields
+    table
+      .uuid('account_id')
+      .notNullable()
+      .references('id')
+      .inTable('chart_of_accounts')
+      .onDelete('RESTRICT')
+      .comment('Account debited or credited by the generated line')
+
+    table
+      .integer('line_number')
+      .notNullable()
+      .comment('Line order within the template')
+
+    table
+      .decimal('debit', 15, 4)
+      .notNullable()
+      .defaultTo(0)
+      .comment('Debit amount')
+
+    table
+      .decimal('credit', 15, 4)
+      .notNullable()
+      .defaultTo(0)
+      .comment('Credit amount')
+
+    table.text('description').nullable().comment('Line description')
+    table.text('memo').nullable().comment('Line memo')
+
+    table.uuid('contact_id').nullable().comment('Optional contact reference')
+
+    // Audit fields
+    table
+      .uuid('created_by')
+      .notNullable()
+      .references('id')
+      .inTable('public.users')
+      .onDelete('RESTRICT')
+      .comment('User who created the line')
+
+    // Timestamps
+    table.timestamp('created_at').defaultTo(knex.fn.now()).notNullable()
+    table.timestamp('updated_at').defaultTo(knex.fn.now()).notNullable()
+    table.timestamp('deleted_at').nullable()
+
+    // Indexes
+    table.index(['tenant_id', 'template_id'])
+    table.index(['tenant_id', 'deleted_at'])
+  })
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('recurring_journal_template_lines')
+  await knex.schema.dropTableIfExists('recurring_journal_templates')
+}
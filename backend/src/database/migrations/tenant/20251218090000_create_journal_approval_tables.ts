@@ -0,0 +1,263 @@
+import type { Knex } from 'knex'
+
+/**
+ * Create journal entry approval workflow tables migration
+ * - journal_approval_rules: per-tenant rules deciding which entries need approval
+ * - journal_entry_approval_steps: rules matched by a submitted entry, approved in order
+ * - journal_entry_approval_actions: submit/approve/reject history with comments
+ * Also adds the approval status of the current submission to journal_entries.
+ * Entries matching an active rule cannot be posted until every step is approved.
+ * This migration should only be run in tenant schemas, not in public schema
+ */
+export async function up(knex: Knex): Promise<void> {
+  // Create journal_approval_rules table
+  await knex.schema.createTable('journal_approval_rules', (table) => {
+    // Primary key - UUID
+    // Note: UUID is generated by BaseModel.$beforeInsert() using uuidv4()
+    table.uuid('id').primary()
+
+    // Tenant reference
+    table
+      .uuid('tenant_id')
+      .notNullable()
+      .references('id')
+      .inTable('public.tenants')
+      .onDelete('CASCADE')
+      .comment('Reference to the tenant this rule belongs to')
+
+    // Rule fields
+    table
+      .string('name', 255)
+      .notNullable()
+      .comment('Rule name (e.g., "Entries over 10,000")')
+
+    table.text('description').nullable().comment('Rule description')
+
+    table
+      .decimal('min_amount', 15, 4)
+      .nullable()
+      .comment('Entries with a total debit of at least this amount match')
+
+    table
+      .jsonb('account_ids')
+      .notNullable()
+      .defaultTo('[]')
+      .comment('Entries with a line on any of these accounts match')
+
+    table
+      .string('required_role', 50)
+      .notNullable()
+      .comment('Role approvers must hold (e.g., accountant, admin)')
+
+    table
+      .integer('required_approvals')
+      .notNullable()
+      .defaultTo(1)
+      .comment('Number of distinct approvers required')
+
+    table
+      .integer('step_order')
+      .notNullable()
+      .defaultTo(1)
+      .comment('Order in which matching rules are approved, lower first')
+
+    table
+      .boolean('is_active')
+      .notNullable()
+      .defaultTo(true)
+      .comment('Inactive rules are not applied to new submissions')
+
+    // Audit fields
+    table
+      .uuid('created_by')
+      .notNullable()
+      .references('id')
+      .inTable('public.users')
+      .onDelete('RESTRICT')
+      .comment('User who created this rule')
+
+    // Timestamps
+    table.timestamp('created_at').defaultTo(knex.fn.now()).notNullable()
+    table.timestamp('updated_at').defaultTo(knex.fn.now()).notNullable()
+    table.timestamp('deleted_at').nullable()
+
+    // Indexes
+    table.index(['tenant_id', 'is_active'])
+    table.index(['tenant_id', 'deleted_at'])
+  })
+
+  // Create journal_entry_approval_steps table
+  await knex.schema.createTable('journal_entry_approval_steps', (table) => {
+    // Primary key - UUID
+    table.uuid('id').primary()
+
+    // Tenant reference
+    table
+      .uuid('tenant_id')
+      .notNullable()
+      .references('id')
+      .inTable('public.tenants')
+      .onDelete('CASCADE')
+      .comment('Reference to the tenant this step belongs to')
+
+    // Entry and rule references
+    table
+      .uuid('journal_entry_id')
+      .notNullable()
+      .references('id')
+      .inTable('journal_entries')
+      .onDelete('CASCADE')
+      .comment('Journal entry awaiting approval')
+
+    table
+      .uuid('rule_id')
+      .nullable()
+      .references('id')
+      .inTable('journal_approval_rules')
+      .onDelete('SET NULL')
+      .comment('Rule this step was created from')
+
+    // Step fields (copied from the rule when the entry was submitted)
+    table
+      .string('rule_name', 255)
+      .notNullable()
+      .comment('Name of the rule at submission time')
+
+    table
+      .integer('step_number')
+      .notNullable()
+      .comment('Position of the step within the submission')
+
+    table
+      .string('required_role', 50)
+      .notNullable()
+      .comment('Role approvers must hold')
+
+    table
+      .integer('required_approvals')
+      .notNullable()
+      .comment('Number of distinct approvers required')
+
+    table
+      .integer('approvals_count')
+      .notNullable()
+      .defaultTo(0)
+      .comment('Number of approvals received')
+
+    table
+      .string('status', 50)
+      .notNullable()
+      .defaultTo('pending')
+      .comment('Step status: pending, approved, rejected, cancelled')
+
+    table
+      .timestamp('completed_at')
+      .nullable()
+      .comment('When the step was approved or rejected')
+
+    // Timestamps
+    table.timestamp('created_at').defaultTo(knex.fn.now()).notNullable()
+    table.timestamp('updated_at').defaultTo(knex.fn.now()).notNullable()
+    table.timestamp('deleted_at').nullable()
+
+    // Indexes
+    table.index(['tenant_id', 'journal_entry_id'])
+    table.index(['tenant_id', 'status', 'required_role'])
+  })
+
+  // Create journal_entry_approval_actions table
+  await knex.schema.createTable('journal_entry_approval_actions', (table) => {
+    // Primary key - UUID
+    table.uuid('id').primary()
+
+    // Tenant reference
+    table
+      .uuid('tenant_id')
+      .notNullable()
+      .references('id')
+      .inTable('public.tenants')
+      .onDelete('CASCADE')
+      .comment('Reference to the tenant this action belongs to')
+
+    // Entry and step references
+    table
+      .uuid('journal_entry_id')
+      .notNullable()
+      .references('id')
+      .inTable('journal_entries')
+      .onDelete('CASCADE')
+      .comment('Journal entry the action was taken on')
+
+    table
+      .uuid('step_id')
+      .nullable()
+      .references('id')
+      .inTable('journal_entry_approval_steps')
+      .onDelete('SET NULL')
+      .comment('Approval step, null for submissions')
+
+    // Action fields
+    table
+      .string('action', 50)
+      .notNullable()
+      .comment('Action: submitted, approved, rejected')
+
+    table
+      .uuid('user_id')
+      .notNullable()
+      .references('id')
+      .inTable('public.users')
+      .onDelete('RESTRICT')
+      .comment('User who took the action')
+
+    table.text('comment').nullable().comment('Comment left with the action')
+
+    // Timestamps
+    table.timestamp('created_at').defaultTo(knex.fn.now()).notNullable()
+    table.timestamp('updated_at').defaultTo(knex.fn.now()).notNullable()
+    table.timestamp('deleted_at').nullable()
+
+    // Indexes
+    table.index(['tenant_id', 'journal_entry_id'])
+    table.index(['step_id', 'user_id'])
+  })
+
+  // Add approval tracking to journal_entries
+  await knex.schema.alterTable('journal_entries', (table) => {
+    table
+      .string('approval_status', 50)
+      .nullable()
+      .comment(
+        'Approval status of the current submission: pending, approved, rejected, not_required (null if never submitted)'
+      )
+
+    table
+      .uuid('submitted_by')
+      .nullable()
+      .references('id')
+      .inTable('public.users')
+      .onDelete('SET NULL')
+      .comment('User who submitted the entry for approval')
+
+    table
+      .timestamp('submitted_at')
+      .nullable()
+      .comment('When the entry was submitted for approval')
+
+    table.index(['tenant_id', 'approval_status'])
+  })
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('journal_entries', (table) => {
+    table.dropIndex(['tenant_id', 'approval_status'])
+    table.dropForeign(['submitted_by'])
+    table.dropColumn('submitted_at')
+    table.dropColumn('submitted_by')
+    table.dropColumn('approval_status')
+  })
+
+  await knex.schema.dropTableIfExists('journal_entry_approval_actions')
+  await knex.schema.dropTableIfExists('journal_entry_approval_steps')
+  await knex.schema.dropTableIfExists('journal_approval_rules')
+}
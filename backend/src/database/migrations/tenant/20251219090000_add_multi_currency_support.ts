@@ -0,0 +1,114 @@
+import type { Knex } from 'knex'
+
+/**
+ * Add multi-currency support migration
+ * - exchange_rates: per-tenant daily rates of foreign currencies against the
+ *   tenant base currency, entered manually or imported from CSV
+ * - journal_entry_lines: currency, exchange rate and foreign amounts of each
+ *   line. debit/credit keep holding base currency amounts so balances and
+ *   reports stay in the base currency.
+ * This migration should only be run in tenant schemas, not in public schema
+ */
+export async function up(knex: Knex): Promise<void> {
+  // Create exchange_rates table
+  await knex.schema.createTable('exchange_rates', (table) => {
+    // Primary key - UUID
+    // Note: UUID is generated by BaseModel.$beforeInsert() using uuidv4()
+    table.uuid('id').primary()
+
+    // Tenant reference
+    table
+      .uuid('tenant_id')
+      .notNullable()
+      .references('id')
+      .inTable('public.tenants')
+      .onDelete('CASCADE')
+      .comment('Reference to the tenant this rate belongs to')
+
+    // Rate fields
+    table
+      .string('currency_code', 3)
+      .notNullable()
+      .comment('ISO 4217 code of the foreign currency (e.g., USD)')
+
+    table
+      .timestamp('rate_date')
+      .notNullable()
+      .comment('Date the rate applies from, until the next rate')
+
+    table
+      .decimal('rate', 18, 8)
+      .notNullable()
+      .comment('Base currency units per one unit of the foreign currency')
+
+    table
+      .string('source', 20)
+      .notNullable()
+      .defaultTo('manual')
+      .comment('How the rate was entered: manual, import')
+
+    // Audit fields
+    table
+      .uuid('created_by')
+      .notNullable()
+      .references('id')
+      .inTable('public.users')
+      .onDelete('RESTRICT')
+      .comment('User who entered this rate')
+
+    // Timestamps
+    table.timestamp('created_at').defaultTo(knex.fn.now()).notNullable()
+    table.timestamp('updated_at').defaultTo(knex.fn.now()).notNullable()
+    table.timestamp('deleted_at').nullable()
+
+    // Indexes
+    table.index(['tenant_id', 'currency_code', 'rate_date'])
+    table.index('deleted_at')
+  })
+
+  // One rate per currency and day
+  await knex.raw(`
+    CREATE UNIQUE INDEX exchange_rates_tenant_currency_date_unique
+    ON exchange_rates (tenant_id, currency_code, rate_date)
+    WHERE deleted_at IS NULL
+  `)
+
+  // Add currency tracking to journal_entry_lines
+  await knex.schema.alterTable('journal_entry_lines', (table) => {
+    table
+      .string('currency_code', 3)
+      .nullable()
+      .comment(
+        'ISO 4217 currency of the line (null for lines before multi-currency)'
+      )
+
+    table
+      .decimal('exchange_rate', 18, 8)
+      .nullable()
+      .comment('Base currency units per foreign unit used to convert the line')
+
+    table
+      .decimal('foreign_debit', 15, 4)
+      .nullable()
+      .comment('Debit amount in the line currency')
+
+    table
+      .decimal('foreign_credit', 15, 4)
+      .nullable()
+      .comment('Credit amount in the line currency')
+
+    table.index(['tenant_id', 'account_id', 'currency_code'])
+  })
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('journal_entry_lines', (table) => {
+    table.dropIndex(['tenant_id', 'account_id', 'currency_code'])
+    table.dropColumn('foreign_credit')
+    table.dropColumn('foreign_debit')
+    table.dropColumn('exchange_rate')
+    table.dropColumn('currency_code')
+  })
+
+  await knex.schema.dropTableIfExists('exchange_rates')
+}
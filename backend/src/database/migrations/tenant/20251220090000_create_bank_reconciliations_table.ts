@@ -0,0 +1,152 @@
+import type { Knex } from 'knex'
+
+/**
+ * Create bank reconciliations table migration
+ * - bank_reconciliations: reconciliation sessions of a bank account against a
+ *   statement (end date and ending balance), with the report saved on finalize
+ * - journal_entry_lines: cleared status of each line, set while ticking lines
+ *   in a session and kept once the session is finalized
+ * This migration should only be run in tenant schemas, not in public schema
+ */
+export async function up(knex: Knex): Promise<void> {
+  // Create bank_reconciliations table
+  await knex.schema.createTable('bank_reconciliations', (table) => {
+    // Primary key - UUID
+    // Note: UUID is generated by BaseModel.$beforeInsert() using uuidv4()
+    table.uuid('id').primary()
+
+    // Tenant reference
+    table
+      .uuid('tenant_id')
+      .notNullable()
+      .references('id')
+      .inTable('public.tenants')
+      .onDelete('CASCADE')
+      .comment('Reference to the tenant this reconciliation belongs to')
+
+    // Bank account reference
+    table
+      .uuid('account_id')
+      .notNullable()
+      .references('id')
+      .inTable('accounts')
+      .onDelete('RESTRICT')
+      .comment('Bank account being reconciled')
+
+    // Statement fields
+    table
+      .timestamp('statement_date')
+      .notNullable()
+      .comment('End date of the bank statement')
+
+    table
+      .decimal('statement_ending_balance', 15, 4)
+      .notNullable()
+      .comment('Ending balance on the bank statement')
+
+    table
+      .decimal('opening_balance', 15, 4)
+      .notNullable()
+      .defaultTo(0)
+      .comment('Reconciled balance of the previous reconciliation')
+
+    table
+      .string('status', 20)
+      .notNullable()
+      .defaultTo('in_progress')
+      .comment('Status: in_progress, completed, undone')
+
+    table
+      .jsonb('report')
+      .nullable()
+      .comment('Reconciliation report saved when the session is finalized')
+
+    table
+      .timestamp('completed_at')
+      .nullable()
+      .comment('When the reconciliation was finalized')
+
+    table
+      .uuid('completed_by')
+      .nullable()
+      .references('id')
+      .inTable('public.users')
+      .onDelete('SET NULL')
+      .comment('User who finalized the reconciliation')
+
+    table
+      .timestamp('undone_at')
+      .nullable()
+      .comment('When the reconciliation was undone')
+
+    table
+      .uuid('undone_by')
+      .nullable()
+      .references('id')
+      .inTable('public.users')
+      .onDelete('SET NULL')
+      .comment('User who undid the reconciliation')
+
+    // Audit fields
+    table
+      .uuid('created_by')
+      .notNullable()
+      .references('id')
+      .inTable('public.users')
+      .onDelete('RESTRICT')
+      .comment('User who started this reconciliation')
+
+    // Timestamps
+    table.timestamp('created_at').defaultTo(knex.fn.now()).notNullable()
+    table.timestamp('updated_at').defaultTo(knex.fn.now()).notNullable()
+    table.timestamp('deleted_at').nullable()
+
+    // Indexes
+    table.index(['tenant_id', 'account_id', 'status'])
+    table.index(['tenant_id', 'account_id', 'statement_date'])
+    table.index('deleted_at')
+  })
+
+  // One session in progress per bank account
+  await knex.raw(`
+    CREATE UNIQUE INDEX bank_reconciliations_account_in_progress_unique
+    ON bank_reconciliations (tenant_id, account_id)
+    WHERE status = 'in_progress' AND deleted_at IS NULL
+  `)
+
+  // Add cleared status to journal_entry_lines
+  await knex.schema.alterTable('journal_entry_lines', (table) => {
+    table
+      .boolean('is_cleared')
+      .notNullable()
+      .defaultTo(false)
+      .comment('Whether the line has cleared the bank')
+
+    table
+      .timestamp('cleared_at')
+      .nullable()
+      .comment('When the line was marked as cleared')
+
+    table
+      .uuid('reconciliation_id')
+      .nullable()
+      .references('id')
+      .inTable('bank_reconciliations')
+      .onDelete('SET NULL')
+      .comment('Reconciliation the line was cleared in')
+
+    table.index(['tenant_id', 'reconciliation_id'])
+  })
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('journal_entry_lines', (table) => {
+    table.dropIndex(['tenant_id', 'reconciliation_id'])
+    table.dropForeign(['reconciliation_id'])
+    table.dropColumn('reconciliation_id')
+    table.dropColumn('cleared_at')
+    table.dropColumn('is_cleared')
+  })
+
+  await knex.schema.dropTableIfExists('bank_reconciliations')
+}
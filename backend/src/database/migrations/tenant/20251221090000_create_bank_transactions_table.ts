@@ -0,0 +1,225 @@
+import type { Knex } from 'knex'
+
+/**
+ * Create bank transactions tables migration
+ * - bank_statement_imports: statement files (CSV, OFX/QFX, CAMT.053) imported
+ *   for a bank account, with the counts and row errors of the import
+ * - bank_transactions: imported statement lines waiting in the inbox until
+ *   they are categorized into a journal entry or excluded
+ * This migration should only be run in tenant schemas, not in public schema
+ */
+export async function up(knex: Knex): Promise<void> {
+  // Create bank_statement_imports table
+  await knex.schema.createTable('bank_statement_imports', (table) => {
+    // Primary key - UUID
+    // Note: UUID is generated by BaseModel.$beforeInsert() using uuidv4()
+    table.uuid('id').primary()
+
+    // Tenant reference
+    table
+      .uuid('tenant_id')
+      .notNullable()
+      .references('id')
+      .inTable('public.tenants')
+      .onDelete('CASCADE')
+      .comment('Reference to the tenant this import belongs to')
+
+    // Bank account reference
+    table
+      .uuid('account_id')
+      .notNullable()
+      .references('id')
+      .inTable('accounts')
+      .onDelete('RESTRICT')
+      .comment('Bank account the statement belongs to')
+
+    // Import fields
+    table
+      .string('file_name', 255)
+      .nullable()
+      .comment('Name of the imported statement file')
+
+    table
+      .string('format', 20)
+      .notNullable()
+      .comment('Statement format: csv, ofx, camt053')
+
+    table
+      .integer('total_count')
+      .notNullable()
+      .defaultTo(0)
+      .comment('Statement lines read from the file')
+
+    table
+      .integer('imported_count')
+      .notNullable()
+      .defaultTo(0)
+      .comment('Lines added to the transactions inbox')
+
+    table
+      .integer('duplicate_count')
+      .notNullable()
+      .defaultTo(0)
+      .comment('Lines skipped because they were already imported')
+
+    table
+      .jsonb('errors')
+      .notNullable()
+      .defaultTo('[]')
+      .comment('Lines that could not be read, with their row and message')
+
+    // Audit fields
+    table
+      .uuid('created_by')
+      .notNullable()
+      .references('id')
+      .inTable('public.users')
+      .onDelete('RESTRICT')
+      .comment('User who imported the statement')
+
+    // Timestamps
+    table.timestamp('created_at').defaultTo(knex.fn.now()).notNullable()
+    table.timestamp('updated_at').defaultTo(knex.fn.now()).notNullable()
+    table.timestamp('deleted_at').nullable()
+
+    // Indexes
+    table.index(['tenant_id', 'account_id', 'created_at'])
+    table.index('deleted_at')
+  })
+
+  // Create bank_transactions table
+  await knex.schema.createTable('bank_transactions', (table) => {
+    // Primary key - UUID
+    table.uuid('id').primary()
+
+    // Tenant reference
+    table
+      .uuid('tenant_id')
+      .notNullable()
+      .references('id')
+      .inTable('public.tenants')
+      .onDelete('CASCADE')
+      .comment('Reference to the tenant this transaction belongs to')
+
+    // Bank account reference
+    table
+      .uuid('account_id')
+      .notNullable()
+      .references('id')
+      .inTable('accounts')
+      .onDelete('RESTRICT')
+      .comment('Bank account the transaction was imported for')
+
+    // Import reference
+    table
+      .uuid('import_id')
+      .nullable()
+      .references('id')
+      .inTable('bank_statement_imports')
+      .onDelete('SET NULL')
+      .comment('Statement import that created the transaction')
+
+    // Statement line fields
+    table
+      .timestamp('transaction_date')
+      .notNullable()
+      .comment('Date the transaction was posted by the bank')
+
+    table
+      .decimal('amount', 15, 4)
+      .notNullable()
+      .comment('Signed amount: positive for deposits, negative for payments')
+
+    table
+      .string('currency_code', 3)
+      .notNullable()
+      .comment('Currency of the bank account')
+
+    table.text('description').nullable().comment('Statement description')
+
+    table.string('payee', 255).nullable().comment('Payee or payer name')
+
+    table
+      .string('reference', 255)
+      .nullable()
+      .comment('Check number or bank reference')
+
+    table
+      .string('fitid', 255)
+      .nullable()
+      .comment('Financial institution transaction ID from the statement')
+
+    table
+      .string('dedupe_key', 255)
+      .notNullable()
+      .comment('FITID, or a hash of the line when the statement has none')
+
+    // Inbox status
+    table
+      .string('status', 20)
+      .notNullable()
+      .defaultTo('uncategorized')
+      .comment('Status: uncategorized, categorized, excluded')
+
+    table
+      .uuid('journal_entry_id')
+      .nullable()
+      .references('id')
+      .inTable('journal_entries')
+      .onDelete('SET NULL')
+      .comment('Journal entry the transaction was categorized into')
+
+    table
+      .uuid('category_account_id')
+      .nullable()
+      .references('id')
+      .inTable('chart_of_accounts')
+      .onDelete('SET NULL')
+      .comment('Chart of accounts entry the transaction was categorized to')
+
+    table
+      .timestamp('categorized_at')
+      .nullable()
+      .comment('When the transaction was categorized')
+
+    table
+      .uuid('categorized_by')
+      .nullable()
+      .references('id')
+      .inTable('public.users')
+      .onDelete('SET NULL')
+      .comment('User who categorized the transaction')
+
+    // Audit fields
+    table
+      .uuid('created_by')
+      .notNullable()
+      .references('id')
+      .inTable('public.users')
+      .onDelete('RESTRICT')
+      .comment('User who imported the transaction')
+
+    // Timestamps
+    table.timestamp('created_at').defaultTo(knex.fn.now()).notNullable()
+    table.timestamp('updated_at').defaultTo(knex.fn.now()).notNullable()
+    table.timestamp('deleted_at').nullable()
+
+    // Indexes
+    table.index(['tenant_id', 'account_id', 'status'])
+    table.index(['tenant_id', 'transaction_date'])
+    table.index(['tenant_id', 'import_id'])
+    table.index('deleted_at')
+  })
+
+  // A statement line is imported only once per bank account
+  await knex.raw(`
+    CREATE UNIQUE INDEX bank_transactions_account_dedupe_key_unique
+    ON bank_transactions (tenant_id, account_id, dedupe_key)
+    WHERE deleted_at IS NULL
+  `)
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('bank_transactions')
+  await knex.schema.dropTableIfExists('bank_statement_imports')
+}
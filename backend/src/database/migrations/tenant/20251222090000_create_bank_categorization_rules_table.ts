@@ -0,0 +1,135 @@
+import type { Knex } from 'knex'
+
+/**
+ * Create bank categorization rules table migration
+ * - bank_categorization_rules: tenant rules suggesting the category account
+ *   (and tax group) of imported bank transactions, applied in priority order
+ * Also records the tax group a bank transaction was categorized with.
+ * This migration should only be run in tenant schemas, not in public schema
+ */
+export async function up(knex: Knex): Promise<void> {
+  // Create bank_categorization_rules table
+  await knex.schema.createTable('bank_categorization_rules', (table) => {
+    // Primary key - UUID
+    // Note: UUID is generated by BaseModel.$beforeInsert() using uuidv4()
+    table.uuid('id').primary()
+
+    // Tenant reference
+    table
+      .uuid('tenant_id')
+      .notNullable()
+      .references('id')
+      .inTable('public.tenants')
+      .onDelete('CASCADE')
+      .comment('Reference to the tenant this rule belongs to')
+
+    // Rule fields
+    table
+      .string('name', 255)
+      .notNullable()
+      .comment('Rule name (e.g., "Fuel purchases")')
+
+    table.text('description').nullable().comment('Rule description')
+
+    table
+      .integer('priority')
+      .notNullable()
+      .defaultTo(1)
+      .comment('Order in which rules are tried, lower first')
+
+    table
+      .string('match_type', 10)
+      .notNullable()
+      .defaultTo('all')
+      .comment('all: every condition must match, any: one condition is enough')
+
+    table
+      .jsonb('conditions')
+      .notNullable()
+      .defaultTo('[]')
+      .comment('Conditions on description, payee, reference and amount')
+
+    table
+      .string('transaction_type', 10)
+      .notNullable()
+      .defaultTo('any')
+      .comment('Transactions matched: any, deposit, payment')
+
+    table
+      .uuid('account_id')
+      .nullable()
+      .references('id')
+      .inTable('accounts')
+      .onDelete('CASCADE')
+      .comment('Only match transactions of this bank account')
+
+    // Rule result
+    table
+      .uuid('category_account_id')
+      .notNullable()
+      .references('id')
+      .inTable('chart_of_accounts')
+      .onDelete('RESTRICT')
+      .comment(
+        'Chart of accounts entry matching transactions are categorized to'
+      )
+
+    table
+      .uuid('tax_group_id')
+      .nullable()
+      .references('id')
+      .inTable('tax_groups')
+      .onDelete('SET NULL')
+      .comment('Tax group recorded on matching transactions')
+
+    table
+      .boolean('is_active')
+      .notNullable()
+      .defaultTo(true)
+      .comment('Inactive rules are not suggested or applied')
+
+    // Audit fields
+    table
+      .uuid('created_by')
+      .notNullable()
+      .references('id')
+      .inTable('public.users')
+      .onDelete('RESTRICT')
+      .comment('User who created this rule')
+
+    // Timestamps
+    table.timestamp('created_at').defaultTo(knex.fn.now()).notNullable()
+    table.timestamp('updated_at').defaultTo(knex.fn.now()).notNullable()
+    table.timestamp('deleted_at').nullable()
+
+    // Indexes
+    table.index(['tenant_id', 'priority'])
+    table.index('deleted_at')
+  })
+
+  await knex.schema.alterTable('bank_transactions', (table) => {
+    table
+      .uuid('tax_group_id')
+      .nullable()
+      .references('id')
+      .inTable('tax_groups')
+      .onDelete('SET NULL')
+      .comment('Tax group the transaction was categorized with')
+
+    table
+      .uuid('rule_id')
+      .nullable()
+      .references('id')
+      .inTable('bank_categorization_rules')
+      .onDelete('SET NULL')
+      .comment('Rule that categorized the transaction, when applied in bulk')
+  })
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('bank_transactions', (table) => {
+    table.dropColumn('rule_id')
+    table.dropColumn('tax_group_id')
+  })
+  await knex.schema.dropTableIfExists('bank_categorization_rules')
+}
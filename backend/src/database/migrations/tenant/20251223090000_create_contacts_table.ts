@@ -0,0 +1,184 @@
+import type { Knex } from 'knex'
+
+/**
+ * Create contacts table migration
+ * - contacts: tenant customers and vendors, with addresses, tax number,
+ *   default accounts, default tax group and payment terms
+ * Adds the foreign keys from journal entry lines, recurring template lines and
+ * tax exemptions, which stored contact IDs before this table existed. Contact
+ * IDs that do not match a contact get a placeholder contact so no reference is lost.
+ * This migration should only be run in tenant schemas, not in public schema
+ */
+export async function up(knex: Knex): Promise<void> {
+  // Create contacts table
+  await knex.schema.createTable('contacts', (table) => {
+    // Primary key - UUID
+    // Note: UUID is generated by BaseModel.$beforeInsert() using uuidv4()
+    table.uuid('id').primary()
+
+    // Tenant reference
+    table
+      .uuid('tenant_id')
+      .notNullable()
+      .references('id')
+      .inTable('public.tenants')
+      .onDelete('CASCADE')
+      .comment('Reference to the tenant this contact belongs to')
+
+    // Contact fields
+    table
+      .string('contact_type', 20)
+      .notNullable()
+      .defaultTo('customer')
+      .comment('customer, vendor or both')
+
+    table
+      .string('display_name', 255)
+      .notNullable()
+      .comment('Name shown on entries, invoices and reports')
+
+    table.string('company_name', 255).nullable().comment('Legal company name')
+    table.string('first_name', 100).nullable().comment('Contact first name')
+    table.string('last_name', 100).nullable().comment('Contact last name')
+    table.string('email', 255).nullable().comment('Email address')
+    table.string('phone', 50).nullable().comment('Phone number')
+    table.string('website', 255).nullable().comment('Website URL')
+
+    table
+      .string('tax_number', 50)
+      .nullable()
+      .comment('Tax registration number (e.g., VAT, GST, EIN)')
+
+    table
+      .string('currency_code', 3)
+      .nullable()
+      .comment('ISO 4217 currency the contact is billed in')
+
+    table
+      .jsonb('billing_address')
+      .nullable()
+      .comment(
+        'Billing address (line1, line2, city, state, postalCode, country)'
+      )
+
+    table
+      .jsonb('shipping_address')
+      .nullable()
+      .comment('Shipping address (same fields as the billing address)')
+
+    // Defaults for documents of this contact
+    table
+      .uuid('default_income_account_id')
+      .nullable()
+      .references('id')
+      .inTable('chart_of_accounts')
+      .onDelete('SET NULL')
+      .comment('Income account suggested for sales to the contact')
+
+    table
+      .uuid('default_expense_account_id')
+      .nullable()
+      .references('id')
+      .inTable('chart_of_accounts')
+      .onDelete('SET NULL')
+      .comment('Expense account suggested for purchases from the contact')
+
+    table
+      .uuid('default_tax_group_id')
+      .nullable()
+      .references('id')
+      .inTable('tax_groups')
+      .onDelete('SET NULL')
+      .comment('Tax group suggested for documents of the contact')
+
+    table
+      .integer('payment_terms_days')
+      .notNullable()
+      .defaultTo(30)
+      .comment('Days until documents of the contact are due')
+
+    table.text('notes').nullable().comment('Internal notes')
+
+    table
+      .boolean('is_active')
+      .notNullable()
+      .defaultTo(true)
+      .comment('Inactive contacts cannot be used on new entries')
+
+    // Audit fields
+    table
+      .uuid('created_by')
+      .notNullable()
+      .references('id')
+      .inTable('public.users')
+      .onDelete('RESTRICT')
+      .comment('User who created this contact')
+
+    // Timestamps
+    table.timestamp('created_at').defaultTo(knex.fn.now()).notNullable()
+    table.timestamp('updated_at').defaultTo(knex.fn.now()).notNullable()
+    table.timestamp('deleted_at').nullable()
+
+    // Indexes
+    table.index(['tenant_id', 'contact_type'])
+    table.index(['tenant_id', 'display_name'])
+    table.index('deleted_at')
+  })
+
+  // Give contact IDs stored before this table existed a placeholder contact
+  await knex.raw(`
+    INSERT INTO contacts (id, tenant_id, contact_type, display_name, notes, created_by)
+    SELECT DISTINCT ON (refs.contact_id)
+      refs.contact_id,
+      refs.tenant_id,
+      'both',
+      'Contact ' || left(refs.contact_id::text, 8),
+      'Created from an existing reference when contacts were introduced',
+      refs.created_by
+    FROM (
+      SELECT tenant_id, contact_id, created_by FROM journal_entry_lines WHERE contact_id IS NOT NULL
+      UNION ALL
+      SELECT tenant_id, contact_id, created_by FROM recurring_journal_template_lines WHERE contact_id IS NOT NULL
+      UNION ALL
+      SELECT tenant_id, contact_id, created_by FROM tax_exemptions
+    ) refs
+    ORDER BY refs.contact_id
+  `)
+
+  await knex.schema.alterTable('journal_entry_lines', (table) => {
+    table
+      .foreign('contact_id')
+      .references('id')
+      .inTable('contacts')
+      .onDelete('SET NULL')
+  })
+
+  await knex.schema.alterTable('recurring_journal_template_lines', (table) => {
+    table
+      .foreign('contact_id')
+      .references('id')
+      .inTable('contacts')
+      .onDelete('SET NULL')
+  })
+
+  await knex.schema.alterTable('tax_exemptions', (table) => {
+    table
+      .foreign('contact_id')
+      .references('id')
+      .inTable('contacts')
+      .onDelete('CASCADE')
+  })
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('tax_exemptions', (table) => {
+    table.dropForeign(['contact_id'])
+  })
+  await knex.schema.alterTable('recurring_journal_template_lines', (table) => {
+    table.dropForeign(['contact_id'])
+  })
+  await knex.schema.alterTable('journal_entry_lines', (table) => {
+    table.dropForeign(['contact_id'])
+  })
+  await knex.schema.dropTableIfExists('contacts')
+}
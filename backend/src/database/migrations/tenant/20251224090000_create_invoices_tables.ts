@@ -0,0 +1,311 @@
+import type { Knex } from 'knex'
+
+/**
+ * Create invoices tables migration
+ * - invoice_settings: numbering and ledger accounts used by invoices
+ *   (one row per tenant)
+ * - invoices: customer invoices and their journal entries
+ * - invoice_lines: line items with revenue account and tax
+ * This migration should only be run in tenant schemas, not in public schema
+ */
+export async function up(knex: Knex): Promise<void> {
+  // Create invoice_settings table
+  await knex.schema.createTable('invoice_settings', (table) => {
+    // Primary key - UUID
+    // Note: UUID is generated by BaseModel.$beforeInsert() using uuidv4()
+    table.uuid('id').primary()
+
+    // Tenant reference
+    table
+      .uuid('tenant_id')
+      .notNullable()
+      .unique()
+      .references('id')
+      .inTable('public.tenants')
+      .onDelete('CASCADE')
+      .comment('Reference to the tenant these settings belong to')
+
+    // Numbering
+    table
+      .string('number_prefix', 20)
+      .notNullable()
+      .defaultTo('INV-')
+      .comment('Text placed before the invoice number')
+
+    table
+      .integer('next_number')
+      .notNullable()
+      .defaultTo(1)
+      .comment('Number given to the next invoice')
+
+    table
+      .integer('number_padding')
+      .notNullable()
+      .defaultTo(4)
+      .comment('Minimum digits of the number, padded with zeros')
+
+    // Ledger accounts
+    table
+      .uuid('receivable_account_id')
+      .nullable()
+      .references('id')
+      .inTable('chart_of_accounts')
+      .onDelete('SET NULL')
+      .comment('Accounts receivable account debited by invoices')
+
+    table
+      .uuid('tax_account_id')
+      .nullable()
+      .references('id')
+      .inTable('chart_of_accounts')
+      .onDelete('SET NULL')
+      .comment('Tax liability account credited with invoice tax')
+
+    // Timestamps
+    table.timestamp('created_at').defaultTo(knex.fn.now()).notNullable()
+    table.timestamp('updated_at').defaultTo(knex.fn.now()).notNullable()
+    table.timestamp('deleted_at').nullable()
+  })
+
+  // Create invoices table
+  await knex.schema.createTable('invoices', (table) => {
+    // Primary key - UUID
+    table.uuid('id').primary()
+
+    // Tenant reference
+    table
+      .uuid('tenant_id')
+      .notNullable()
+      .references('id')
+      .inTable('public.tenants')
+      .onDelete('CASCADE')
+      .comment('Reference to the tenant this invoice belongs to')
+
+    // Invoice fields
+    table
+      .string('invoice_number', 50)
+      .notNullable()
+      .comment('Invoice number (e.g., INV-0001)')
+
+    table
+      .uuid('contact_id')
+      .notNullable()
+      .references('id')
+      .inTable('contacts')
+      .onDelete('RESTRICT')
+      .comment('Customer the invoice is billed to')
+
+    table
+      .string('status', 20)
+      .notNullable()
+      .defaultTo('draft')
+      .comment('Status: draft, sent, partially_paid, paid, void')
+
+    table.timestamp('issue_date').notNullable().comment('Invoice date')
+    table.timestamp('due_date').notNullable().comment('Payment due date')
+
+    table
+      .string('reference', 255)
+      .nullable()
+      .comment('Customer reference (e.g., purchase order number)')
+
+    table.text('memo').nullable().comment('Message shown on the invoice')
+    table.text('notes').nullable().comment('Internal notes')
+
+    // Amounts
+    table
+      .decimal('subtotal', 15, 2)
+      .notNullable()
+      .defaultTo(0)
+      .comment('Sum of line amounts before tax')
+
+    table
+      .decimal('tax_amount', 15, 2)
+      .notNullable()
+      .defaultTo(0)
+      .comment('Sum of line taxes')
+
+    table
+      .decimal('total', 15, 2)
+      .notNullable()
+      .defaultTo(0)
+      .comment('Subtotal plus tax')
+
+    table
+      .decimal('amount_paid', 15, 2)
+      .notNullable()
+      .defaultTo(0)
+      .comment('Payments applied to the invoice')
+
+    // Ledger
+    table
+      .uuid('receivable_account_id')
+      .nullable()
+      .references('id')
+      .inTable('chart_of_accounts')
+      .onDelete('RESTRICT')
+      .comment('Accounts receivable account the invoice was posted to')
+
+    table
+      .uuid('journal_entry_id')
+      .nullable()
+      .references('id')
+      .inTable('journal_entries')
+      .onDelete('SET NULL')
+      .comment('Journal entry posted when the invoice was sent')
+
+    table
+      .uuid('void_journal_entry_id')
+      .nullable()
+      .references('id')
+      .inTable('journal_entries')
+      .onDelete('SET NULL')
+      .comment('Reversing entry posted when the invoice was voided')
+
+    table.timestamp('sent_at').nullable().comment('When the invoice was sent')
+
+    table
+      .uuid('sent_by')
+      .nullable()
+      .references('id')
+      .inTable('public.users')
+      .onDelete('SET NULL')
+      .comment('User who sent the invoice')
+
+    table
+      .timestamp('voided_at')
+      .nullable()
+      .comment('When the invoice was voided')
+
+    table
+      .uuid('voided_by')
+      .nullable()
+      .references('id')
+      .inTable('public.users')
+      .onDelete('SET NULL')
+      .comment('User who voided the invoice')
+
+    table.text('void_reason').nullable().comment('Reason for voiding')
+
+    // Audit fields
+    table
+      .uuid('created_by')
+      .notNullable()
+      .references('id')
+      .inTable('public.users')
+      .onDelete('RESTRICT')
+      .comment('User who created this invoice')
+
+    // Timestamps
+    table.timestamp('created_at').defaultTo(knex.fn.now()).notNullable()
+    table.timestamp('updated_at').defaultTo(knex.fn.now()).notNullable()
+    table.timestamp('deleted_at').nullable()
+
+    // Indexes
+    table.index(['tenant_id', 'invoice_number'])
+    table.index(['tenant_id', 'status', 'due_date'])
+    table.index(['tenant_id', 'contact_id'])
+    table.index('deleted_at')
+  })
+
+  // Create invoice_lines table
+  await knex.schema.createTable('invoice_lines', (table) => {
+    // Primary key - UUID
+    table.uuid('id').primary()
+
+    // Tenant reference
+    table
+      .uuid('tenant_id')
+      .notNullable()
+      .references('id')
+      .inTable('public.tenants')
+      .onDelete('CASCADE')
+      .comment('Reference to the tenant this line belongs to')
+
+    // Invoice reference
+    table
+      .uuid('invoice_id')
+      .notNullable()
+      .references('id')
+      .inTable('invoices')
+      .onDelete('CASCADE')
+      .comment('Invoice the line belongs to')
+
+    table
+      .integer('line_number')
+      .notNullable()
+      .comment('Order of the line on the invoice')
+
+    table.text('description').notNullable().comment('Product or service')
+
+    table
+      .decimal('quantity', 15, 4)
+      .notNullable()
+      .defaultTo(1)
+      .comment('Quantity sold')
+
+    table
+      .decimal('unit_price', 15, 4)
+      .notNullable()
+      .defaultTo(0)
+      .comment('Price per unit before tax')
+
+    table
+      .decimal('amount', 15, 2)
+      .notNullable()
+      .defaultTo(0)
+      .comment('Quantity times unit price')
+
+    table
+      .uuid('account_id')
+      .notNullable()
+      .references('id')
+      .inTable('chart_of_accounts')
+      .onDelete('RESTRICT')
+      .comment('Revenue account credited with the line amount')
+
+    table
+      .uuid('tax_group_id')
+      .nullable()
+      .references('id')
+      .inTable('tax_groups')
+      .onDelete('SET NULL')
+      .comment('Tax group applied to the line')
+
+    table
+      .decimal('tax_amount', 15, 2)
+      .notNullable()
+      .defaultTo(0)
+      .comment('Tax of the line after exemptions of the customer')
+
+    table
+      .jsonb('tax_breakdown')
+      .notNullable()
+      .defaultTo('[]')
+      .comment('Tax of the line per tax of the group')
+
+    // Audit fields
+    table
+      .uuid('created_by')
+      .notNullable()
+      .references('id')
+      .inTable('public.users')
+      .onDelete('RESTRICT')
+      .comment('User who created this line')
+
+    // Timestamps
+    table.timestamp('created_at').defaultTo(knex.fn.now()).notNullable()
+    table.timestamp('updated_at').defaultTo(knex.fn.now()).notNullable()
+    table.timestamp('deleted_at').nullable()
+
+    // Indexes
+    table.index(['invoice_id', 'line_number'])
+    table.index('deleted_at')
+  })
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('invoice_lines')
+  await knex.schema.dropTableIfExists('invoices')
+  await knex.schema.dropTableIfExists('invoice_settings')
+}
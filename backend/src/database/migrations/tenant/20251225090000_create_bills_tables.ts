@@ -0,0 +1,315 @@
+import type { Knex } from 'knex'
+
+/**
+ * Create bills tables migration
+ * - bill_settings: ledger accounts used by bills (one row per tenant)
+ * - bills: vendor bills paid later through accounts payable, and expenses
+ *   paid directly from a bank or cash account
+ * - bill_lines: line items with expense account and tax
+ * This migration should only be run in tenant schemas, not in public schema
+ */
+export async function up(knex: Knex): Promise<void> {
+  // Create bill_settings table
+  await knex.schema.createTable('bill_settings', (table) => {
+    // Primary key - UUID
+    // Note: UUID is generated by BaseModel.$beforeInsert() using uuidv4()
+    table.uuid('id').primary()
+
+    // Tenant reference
+    table
+      .uuid('tenant_id')
+      .notNullable()
+      .unique()
+      .references('id')
+      .inTable('public.tenants')
+      .onDelete('CASCADE')
+      .comment('Reference to the tenant these settings belong to')
+
+    // Ledger accounts
+    table
+      .uuid('payable_account_id')
+      .nullable()
+      .references('id')
+      .inTable('chart_of_accounts')
+      .onDelete('SET NULL')
+      .comment('Accounts payable account credited by bills')
+
+    table
+      .uuid('tax_account_id')
+      .nullable()
+      .references('id')
+      .inTable('chart_of_accounts')
+      .onDelete('SET NULL')
+      .comment('Account debited with recoverable tax')
+
+    // Timestamps
+    table.timestamp('created_at').defaultTo(knex.fn.now()).notNullable()
+    table.timestamp('updated_at').defaultTo(knex.fn.now()).notNullable()
+    table.timestamp('deleted_at').nullable()
+  })
+
+  // Create bills table
+  await knex.schema.createTable('bills', (table) => {
+    // Primary key - UUID
+    table.uuid('id').primary()
+
+    // Tenant reference
+    table
+      .uuid('tenant_id')
+      .notNullable()
+      .references('id')
+      .inTable('public.tenants')
+      .onDelete('CASCADE')
+      .comment('Reference to the tenant this bill belongs to')
+
+    // Bill fields
+    table
+      .string('bill_type', 20)
+      .notNullable()
+      .defaultTo('bill')
+      .comment('Type: bill (paid later) or expense (paid from a bank account)')
+
+    table
+      .string('bill_number', 50)
+      .nullable()
+      .comment("Vendor's bill or receipt number")
+
+    table
+      .uuid('contact_id')
+      .nullable()
+      .references('id')
+      .inTable('contacts')
+      .onDelete('RESTRICT')
+      .comment('Vendor the bill is from')
+
+    table
+      .string('status', 20)
+      .notNullable()
+      .defaultTo('draft')
+      .comment('Status: draft, open, partially_paid, paid, void')
+
+    table.timestamp('bill_date').notNullable().comment('Bill date')
+    table.timestamp('due_date').notNullable().comment('Payment due date')
+
+    table
+      .string('reference', 255)
+      .nullable()
+      .comment('Internal reference (e.g., purchase order number)')
+
+    table.text('memo').nullable().comment('Notes about the bill')
+
+    // Amounts
+    table
+      .decimal('subtotal', 15, 2)
+      .notNullable()
+      .defaultTo(0)
+      .comment('Sum of line amounts before tax')
+
+    table
+      .decimal('tax_amount', 15, 2)
+      .notNullable()
+      .defaultTo(0)
+      .comment('Sum of line taxes')
+
+    table
+      .decimal('recoverable_tax_amount', 15, 2)
+      .notNullable()
+      .defaultTo(0)
+      .comment('Part of the tax that can be reclaimed')
+
+    table
+      .decimal('total', 15, 2)
+      .notNullable()
+      .defaultTo(0)
+      .comment('Subtotal plus tax')
+
+    table
+      .decimal('amount_paid', 15, 2)
+      .notNullable()
+      .defaultTo(0)
+      .comment('Payments applied to the bill')
+
+    // Ledger
+    table
+      .uuid('payment_account_id')
+      .nullable()
+      .references('id')
+      .inTable('chart_of_accounts')
+      .onDelete('RESTRICT')
+      .comment('Bank or cash account an expense was paid from')
+
+    table
+      .uuid('payable_account_id')
+      .nullable()
+      .references('id')
+      .inTable('chart_of_accounts')
+      .onDelete('RESTRICT')
+      .comment('Accounts payable account the bill was posted to')
+
+    table
+      .uuid('journal_entry_id')
+      .nullable()
+      .references('id')
+      .inTable('journal_entries')
+      .onDelete('SET NULL')
+      .comment('Journal entry posted for the bill')
+
+    table
+      .uuid('void_journal_entry_id')
+      .nullable()
+      .references('id')
+      .inTable('journal_entries')
+      .onDelete('SET NULL')
+      .comment('Reversing entry posted when the bill was voided')
+
+    table.timestamp('posted_at').nullable().comment('When the bill was posted')
+
+    table
+      .uuid('posted_by')
+      .nullable()
+      .references('id')
+      .inTable('public.users')
+      .onDelete('SET NULL')
+      .comment('User who posted the bill')
+
+    table.timestamp('voided_at').nullable().comment('When the bill was voided')
+
+    table
+      .uuid('voided_by')
+      .nullable()
+      .references('id')
+      .inTable('public.users')
+      .onDelete('SET NULL')
+      .comment('User who voided the bill')
+
+    table.text('void_reason').nullable().comment('Reason for voiding')
+
+    // Audit fields
+    table
+      .uuid('created_by')
+      .notNullable()
+      .references('id')
+      .inTable('public.users')
+      .onDelete('RESTRICT')
+      .comment('User who created this bill')
+
+    // Timestamps
+    table.timestamp('created_at').defaultTo(knex.fn.now()).notNullable()
+    table.timestamp('updated_at').defaultTo(knex.fn.now()).notNullable()
+    table.timestamp('deleted_at').nullable()
+
+    // Indexes
+    table.index(['tenant_id', 'bill_date'])
+    table.index(['tenant_id', 'status', 'due_date'])
+    table.index(['tenant_id', 'contact_id'])
+    table.index('deleted_at')
+  })
+
+  // Create bill_lines table
+  await knex.schema.createTable('bill_lines', (table) => {
+    // Primary key - UUID
+    table.uuid('id').primary()
+
+    // Tenant reference
+    table
+      .uuid('tenant_id')
+      .notNullable()
+      .references('id')
+      .inTable('public.tenants')
+      .onDelete('CASCADE')
+      .comment('Reference to the tenant this line belongs to')
+
+    // Bill reference
+    table
+      .uuid('bill_id')
+      .notNullable()
+      .references('id')
+      .inTable('bills')
+      .onDelete('CASCADE')
+      .comment('Bill the line belongs to')
+
+    table
+      .integer('line_number')
+      .notNullable()
+      .comment('Order of the line on the bill')
+
+    table.text('description').notNullable().comment('Product or service')
+
+    table
+      .decimal('quantity', 15, 4)
+      .notNullable()
+      .defaultTo(1)
+      .comment('Quantity bought')
+
+    table
+      .decimal('unit_price', 15, 4)
+      .notNullable()
+      .defaultTo(0)
+      .comment('Price per unit before tax')
+
+    table
+      .decimal('amount', 15, 2)
+      .notNullable()
+      .defaultTo(0)
+      .comment('Quantity times unit price')
+
+    table
+      .uuid('account_id')
+      .notNullable()
+      .references('id')
+      .inTable('chart_of_accounts')
+      .onDelete('RESTRICT')
+      .comment('Expense account debited with the line amount')
+
+    table
+      .uuid('tax_group_id')
+      .nullable()
+      .references('id')
+      .inTable('tax_groups')
+      .onDelete('SET NULL')
+      .comment('Tax group applied to the line')
+
+    table
+      .decimal('tax_amount', 15, 2)
+      .notNullable()
+      .defaultTo(0)
+      .comment('Tax of the line')
+
+    table
+      .boolean('is_tax_recoverable')
+      .notNullable()
+      .defaultTo(true)
+      .comment('Whether the tax can be reclaimed; otherwise it is expensed')
+
+    table
+      .jsonb('tax_breakdown')
+      .notNullable()
+      .defaultTo('[]')
+      .comment('Tax of the line per tax of the group')
+
+    // Audit fields
+    table
+      .uuid('created_by')
+      .notNullable()
+      .references('id')
+      .inTable('public.users')
+      .onDelete('RESTRICT')
+      .comment('User who created this line')
+
+    // Timestamps
+    table.timestamp('created_at').defaultTo(knex.fn.now()).notNullable()
+    table.timestamp('updated_at').defaultTo(knex.fn.now()).notNullable()
+    table.timestamp('deleted_at').nullable()
+
+    // Indexes
+    table.index(['bill_id', 'line_number'])
+    table.index(['tenant_id', 'account_id'])
+    table.index('deleted_at')
+  })
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('bill_lines')
+  await knex.schema.dropTableIfExists('bills')
+  await knex.schema.dropTableIfExists('bill_settings')
+}
@@ -0,0 +1,264 @@
+import type { Knex } from 'knex'
+
+/**
+ * Create customer payments tables migration
+ * - customer_payment_settings: ledger accounts used by payments (one row per
+ *   tenant)
+ * - customer_payments: money received from customers and deposited to a bank
+ *   account
+ * - customer_payment_allocations: parts of a payment matched against open
+ *   accounts receivable journal lines
+ * This migration should only be run in tenant schemas, not in public schema
+ */
+export async function up(knex: Knex): Promise<void> {
+  // Create customer_payment_settings table
+  await knex.schema.createTable('customer_payment_settings', (table) => {
+    // Primary key - UUID
+    // Note: UUID is generated by BaseModel.$beforeInsert() using uuidv4()
+    table.uuid('id').primary()
+
+    // Tenant reference
+    table
+      .uuid('tenant_id')
+      .notNullable()
+      .unique()
+      .references('id')
+      .inTable('public.tenants')
+      .onDelete('CASCADE')
+      .comment('Reference to the tenant these settings belong to')
+
+    // Ledger accounts
+    table
+      .uuid('unapplied_account_id')
+      .nullable()
+      .references('id')
+      .inTable('chart_of_accounts')
+      .onDelete('SET NULL')
+      .comment('Account credited with cash received from unknown customers')
+
+    // Timestamps
+    table.timestamp('created_at').defaultTo(knex.fn.now()).notNullable()
+    table.timestamp('updated_at').defaultTo(knex.fn.now()).notNullable()
+    table.timestamp('deleted_at').nullable()
+  })
+
+  // Create customer_payments table
+  await knex.schema.createTable('customer_payments', (table) => {
+    // Primary key - UUID
+    table.uuid('id').primary()
+
+    // Tenant reference
+    table
+      .uuid('tenant_id')
+      .notNullable()
+      .references('id')
+      .inTable('public.tenants')
+      .onDelete('CASCADE')
+      .comment('Reference to the tenant this payment belongs to')
+
+    // Payment fields
+    table
+      .uuid('contact_id')
+      .nullable()
+      .references('id')
+      .inTable('contacts')
+      .onDelete('RESTRICT')
+      .comment('Customer who paid; null for cash not identified yet')
+
+    table
+      .uuid('bank_account_id')
+      .notNullable()
+      .references('id')
+      .inTable('accounts')
+      .onDelete('RESTRICT')
+      .comment('Bank account the payment was deposited to')
+
+    table
+      .string('status', 20)
+      .notNullable()
+      .defaultTo('applied')
+      .comment('Status: applied, partially_applied, unapplied, unmatched')
+
+    table.timestamp('payment_date').notNullable().comment('Date received')
+
+    table
+      .string('payment_method', 50)
+      .nullable()
+      .comment('How the customer paid (e.g., check, transfer, card)')
+
+    table
+      .string('reference', 255)
+      .nullable()
+      .comment('Check number or bank reference')
+
+    table.text('memo').nullable().comment('Notes about the payment')
+
+    // Amounts
+    table.decimal('amount', 15, 2).notNullable().comment('Amount received')
+
+    table
+      .decimal('applied_amount', 15, 2)
+      .notNullable()
+      .defaultTo(0)
+      .comment('Part matched against open receivable lines')
+
+    table
+      .decimal('credit_amount', 15, 2)
+      .notNullable()
+      .defaultTo(0)
+      .comment('Overpayment held as credit on the customer')
+
+    table
+      .decimal('unapplied_amount', 15, 2)
+      .notNullable()
+      .defaultTo(0)
+      .comment('Cash held in the unapplied cash account')
+
+    // Ledger
+    table
+      .uuid('deposit_account_id')
+      .notNullable()
+      .references('id')
+      .inTable('chart_of_accounts')
+      .onDelete('RESTRICT')
+      .comment('Ledger account of the bank account, debited with the amount')
+
+    table
+      .uuid('receivable_account_id')
+      .nullable()
+      .references('id')
+      .inTable('chart_of_accounts')
+      .onDelete('RESTRICT')
+      .comment('Accounts receivable account credited with the payment')
+
+    table
+      .uuid('unapplied_account_id')
+      .nullable()
+      .references('id')
+      .inTable('chart_of_accounts')
+      .onDelete('RESTRICT')
+      .comment('Unapplied cash account credited with the payment')
+
+    table
+      .uuid('journal_entry_id')
+      .nullable()
+      .references('id')
+      .inTable('journal_entries')
+      .onDelete('SET NULL')
+      .comment('Journal entry posted for the payment')
+
+    table
+      .uuid('reversal_journal_entry_id')
+      .nullable()
+      .references('id')
+      .inTable('journal_entries')
+      .onDelete('SET NULL')
+      .comment('Reversing entry posted when the payment was unmatched')
+
+    table
+      .timestamp('unmatched_at')
+      .nullable()
+      .comment('When the payment was unmatched')
+
+    table
+      .uuid('unmatched_by')
+      .nullable()
+      .references('id')
+      .inTable('public.users')
+      .onDelete('SET NULL')
+      .comment('User who unmatched the payment')
+
+    table.text('unmatch_reason').nullable().comment('Reason for unmatching')
+
+    // Audit fields
+    table
+      .uuid('created_by')
+      .notNullable()
+      .references('id')
+      .inTable('public.users')
+      .onDelete('RESTRICT')
+      .comment('User who recorded this payment')
+
+    // Timestamps
+    table.timestamp('created_at').defaultTo(knex.fn.now()).notNullable()
+    table.timestamp('updated_at').defaultTo(knex.fn.now()).notNullable()
+    table.timestamp('deleted_at').nullable()
+
+    // Indexes
+    table.index(['tenant_id', 'payment_date'])
+    table.index(['tenant_id', 'contact_id'])
+    table.index(['tenant_id', 'bank_account_id'])
+    table.index('deleted_at')
+  })
+
+  // Create customer_payment_allocations table
+  await knex.schema.createTable('customer_payment_allocations', (table) => {
+    // Primary key - UUID
+    table.uuid('id').primary()
+
+    // Tenant reference
+    table
+      .uuid('tenant_id')
+      .notNullable()
+      .references('id')
+      .inTable('public.tenants')
+      .onDelete('CASCADE')
+      .comment('Reference to the tenant this allocation belongs to')
+
+    // Payment reference
+    table
+      .uuid('payment_id')
+      .notNullable()
+      .references('id')
+      .inTable('customer_payments')
+      .onDelete('CASCADE')
+      .comment('Payment the allocation belongs to')
+
+    table
+      .uuid('journal_entry_line_id')
+      .notNullable()
+      .references('id')
+      .inTable('journal_entry_lines')
+      .onDelete('RESTRICT')
+      .comment('Open receivable line the amount settles')
+
+    table
+      .uuid('invoice_id')
+      .nullable()
+      .references('id')
+      .inTable('invoices')
+      .onDelete('SET NULL')
+      .comment('Invoice that posted the receivable line, if any')
+
+    table
+      .decimal('amount', 15, 2)
+      .notNullable()
+      .comment('Amount applied to the line')
+
+    // Audit fields
+    table
+      .uuid('created_by')
+      .notNullable()
+      .references('id')
+      .inTable('public.users')
+      .onDelete('RESTRICT')
+      .comment('User who created this allocation')
+
+    // Timestamps
+    table.timestamp('created_at').defaultTo(knex.fn.now()).notNullable()
+    table.timestamp('updated_at').defaultTo(knex.fn.now()).notNullable()
+    table.timestamp('deleted_at').nullable()
+
+    // Indexes
+    table.index('payment_id')
+    table.index(['tenant_id', 'journal_entry_line_id'])
+    table.index('invoice_id')
+    table.index('deleted_at')
+  })
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('customer_payment_allocations')
+  await knex.schema.dropTableIfExists('customer_payments')
+  await knex.schema.dropTableIfExists('customer_payment_settings')
+}
@@ -0,0 +1,195 @@
+import type { Knex } from 'knex'
+
+/**
+ * Create documents tables migration
+ * - document_settings: storage quota of the tenant (one row per tenant)
+ * - documents: uploaded files with their storage location, category, tags
+ *   and scan result
+ * - document_attachments: links between documents and journal entries,
+ *   invoices, bills and tax exemption certificates
+ * This migration should only be run in tenant schemas, not in public schema
+ */
+export async function up(knex: Knex): Promise<void> {
+  // Create document_settings table
+  await knex.schema.createTable('document_settings', (table) => {
+    // Primary key - UUID
+    // Note: UUID is generated by BaseModel.$beforeInsert() using uuidv4()
+    table.uuid('id').primary()
+
+    // Tenant reference
+    table
+      .uuid('tenant_id')
+      .notNullable()
+      .unique()
+      .references('id')
+      .inTable('public.tenants')
+      .onDelete('CASCADE')
+      .comment('Reference to the tenant these settings belong to')
+
+    table
+      .bigInteger('quota_bytes')
+      .nullable()
+      .comment('Storage quota in bytes; null uses the default quota')
+
+    // Timestamps
+    table.timestamp('created_at').defaultTo(knex.fn.now()).notNullable()
+    table.timestamp('updated_at').defaultTo(knex.fn.now()).notNullable()
+    table.timestamp('deleted_at').nullable()
+  })
+
+  // Create documents table
+  await knex.schema.createTable('documents', (table) => {
+    // Primary key - UUID
+    table.uuid('id').primary()
+
+    // Tenant reference
+    table
+      .uuid('tenant_id')
+      .notNullable()
+      .references('id')
+      .inTable('public.tenants')
+      .onDelete('CASCADE')
+      .comment('Reference to the tenant this document belongs to')
+
+    // File
+    table.string('name', 255).notNullable().comment('Original file name')
+
+    table.string('mime_type', 100).notNullable().comment('MIME type')
+
+    table.bigInteger('size_bytes').notNullable().comment('File size in bytes')
+
+    table
+      .string('checksum', 64)
+      .notNullable()
+      .comment('SHA-256 checksum of the file content')
+
+    // Storage
+    table
+      .string('storage_driver', 20)
+      .notNullable()
+      .comment('Storage driver the file was written with (local, s3)')
+
+    table
+      .string('storage_key', 500)
+      .notNullable()
+      .comment('Location of the file in the storage driver')
+
+    // Classification
+    table
+      .string('category', 50)
+      .notNullable()
+      .defaultTo('other')
+      .comment('Document category (e.g., invoice, receipt, contract)')
+
+    table.jsonb('tags').notNullable().defaultTo('[]').comment('Free-form tags')
+
+    table.text('description').nullable().comment('Description of the document')
+
+    // Virus scan
+    table
+      .string('scan_status', 20)
+      .notNullable()
+      .defaultTo('not_scanned')
+      .comment('Result of the virus scan: not_scanned or clean')
+
+    table
+      .string('scanned_by', 100)
+      .nullable()
+      .comment('Name of the scanner that checked the file')
+
+    table
+      .timestamp('scanned_at')
+      .nullable()
+      .comment('When the file was scanned')
+
+    // Audit fields
+    table
+      .uuid('uploaded_by')
+      .notNullable()
+      .references('id')
+      .inTable('public.users')
+      .onDelete('RESTRICT')
+      .comment('User who uploaded this document')
+
+    // Timestamps
+    table.timestamp('created_at').defaultTo(knex.fn.now()).notNullable()
+    table.timestamp('updated_at').defaultTo(knex.fn.now()).notNullable()
+    table.timestamp('deleted_at').nullable()
+
+    // Indexes
+    table.index(['tenant_id', 'category'])
+    table.index(['tenant_id', 'created_at'])
+    table.index('deleted_at')
+  })
+
+  // Tag filter
+  await knex.raw(`
+    CREATE INDEX documents_tags_gin ON documents USING GIN (tags)
+  `)
+
+  // Create document_attachments table
+  await knex.schema.createTable('document_attachments', (table) => {
+    // Primary key - UUID
+    table.uuid('id').primary()
+
+    // Tenant reference
+    table
+      .uuid('tenant_id')
+      .notNullable()
+      .references('id')
+      .inTable('public.tenants')
+      .onDelete('CASCADE')
+      .comment('Reference to the tenant this attachment belongs to')
+
+    // Document reference
+    table
+      .uuid('document_id')
+      .notNullable()
+      .references('id')
+      .inTable('documents')
+      .onDelete('CASCADE')
+      .comment('Attached document')
+
+    // Entity the document is attached to
+    table
+      .string('entity_type', 30)
+      .notNullable()
+      .comment(
+        'Type of the record: journal_entry, invoice, bill or tax_exemption'
+      )
+
+    table.uuid('entity_id').notNullable().comment('ID of the record')
+
+    // Audit fields
+    table
+      .uuid('created_by')
+      .notNullable()
+      .references('id')
+      .inTable('public.users')
+      .onDelete('RESTRICT')
+      .comment('User who attached the document')
+
+    // Timestamps
+    table.timestamp('created_at').defaultTo(knex.fn.now()).notNullable()
+    table.timestamp('updated_at').defaultTo(knex.fn.now()).notNullable()
+    table.timestamp('deleted_at').nullable()
+
+    // Indexes
+    table.index(['tenant_id', 'entity_type', 'entity_id'])
+    table.index('document_id')
+    table.index('deleted_at')
+  })
+
+  // A document is attached to a record once
+  await knex.raw(`
+    CREATE UNIQUE INDEX document_attachments_document_entity_unique
+    ON document_attachments (document_id, entity_type, entity_id)
+    WHERE deleted_at IS NULL
+  `)
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('document_attachments')
+  await knex.schema.dropTableIfExists('documents')
+  await knex.schema.dropTableIfExists('document_settings')
+}
@@ -0,0 +1,120 @@
+import type { Knex } from 'knex'
+
+/**
+ * Create budgets tables migration
+ * - budgets: named budgets of a fiscal year
+ * - budget_lines: budgeted amount of an account for one month of the fiscal
+ *   year
+ * This migration should only be run in tenant schemas, not in public schema
+ */
+export async function up(knex: Knex): Promise<void> {
+  // Create budgets table
+  await knex.schema.createTable('budgets', (table) => {
+    // Primary key - UUID
+    // Note: UUID is generated by BaseModel.$beforeInsert() using uuidv4()
+    table.uuid('id').primary()
+
+    // Tenant reference
+    table
+      .uuid('tenant_id')
+      .notNullable()
+      .references('id')
+      .inTable('public.tenants')
+      .onDelete('CASCADE')
+      .comment('Reference to the tenant this budget belongs to')
+
+    // Fiscal year reference
+    table
+      .uuid('fiscal_year_id')
+      .notNullable()
+      .references('id')
+      .inTable('fiscal_years')
+      .onDelete('CASCADE')
+      .comment('Fiscal year the budget covers')
+
+    // Budget fields
+    table
+      .string('name', 100)
+      .notNullable()
+      .comment('Budget name (e.g., "Operating budget")')
+
+    table.text('description').nullable().comment('Budget description')
+
+    // Audit fields
+    table
+      .uuid('created_by')
+      .notNullable()
+      .references('id')
+      .inTable('public.users')
+      .onDelete('RESTRICT')
+      .comment('User who created this budget')
+
+    // Timestamps
+    table.timestamp('created_at').defaultTo(knex.fn.now()).notNullable()
+    table.timestamp('updated_at').defaultTo(knex.fn.now()).notNullable()
+    table.timestamp('deleted_at').nullable()
+
+    // Indexes
+    table.index(['tenant_id', 'fiscal_year_id'])
+    table.index(['tenant_id', 'name'])
+    table.index('deleted_at')
+  })
+
+  // Create budget_lines table
+  await knex.schema.createTable('budget_lines', (table) => {
+    // Primary key - UUID
+    table.uuid('id').primary()
+
+    // Tenant reference
+    table
+      .uuid('tenant_id')
+      .notNullable()
+      .references('id')
+      .inTable('public.tenants')
+      .onDelete('CASCADE')
+      .comment('Reference to the tenant this line belongs to')
+
+    // Budget reference
+    table
+      .uuid('budget_id')
+      .notNullable()
+      .references('id')
+      .inTable('budgets')
+      .onDelete('CASCADE')
+      .comment('Budget the line belongs to')
+
+    table
+      .uuid('account_id')
+      .notNullable()
+      .references('id')
+      .inTable('chart_of_accounts')
+      .onDelete('RESTRICT')
+      .comment('Revenue or expense account budgeted')
+
+    table
+      .integer('month')
+      .notNullable()
+      .comment('Month of the fiscal year (1-based)')
+
+    table
+      .decimal('amount', 15, 2)
+      .notNullable()
+      .defaultTo(0)
+      .comment('Budgeted amount in the natural direction of the account')
+
+    // Timestamps
+    table.timestamp('created_at').defaultTo(knex.fn.now()).notNullable()
+    table.timestamp('updated_at').defaultTo(knex.fn.now()).notNullable()
+    table.timestamp('deleted_at').nullable()
+
+    // Indexes
+    table.index(['budget_id', 'deleted_at'])
+    table.index(['tenant_id', 'account_id'])
+    table.unique(['budget_id', 'account_id', 'month', 'deleted_at'])
+  })
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('budget_lines')
+  await knex.schema.dropTableIfExists('budgets')
+}
@@ -0,0 +1,122 @@
+/**
+ * Upload Middleware
+ * Parses single-file multipart uploads into memory: documents, so the file
+ * can be scanned and checked against the quota before it is stored, and
+ * spreadsheets to import
+ */
+
+import { extname } from 'node:path'
+
+import type { NextFunction, Request, RequestHandler, Response } from 'express'
+import multer from 'multer'
+
+import { env } from '@config/env'
+import { DOCUMENT_UPLOAD } from '@constants/document'
+import { ERROR_MESSAGES } from '@constants/errors'
+import { HTTP_STATUS } from '@constants/http'
+import { IMPORT_FILE } from '@constants/import'
+import { ApiError } from '@utils/ApiError'
+
+/**
+ * Options of a single-file upload
+ */
+interface SingleFileUploadOptions {
+  fieldName: string
+  maxFileSizeBytes: number
+  isAllowed: (file: Express.Multer.File) => boolean
+  messages: {
+    typeNotAllowed: string
+    tooLarge: string
+    required: string
+  }
+}
+
+/**
+ * Create a middleware parsing one file from a multipart request
+ * The file is available as req.file; text fields are in req.body. Multer
+ * errors are turned into API errors.
+ */
+const createSingleFileUpload = (
+  options: SingleFileUploadOptions
+): RequestHandler => {
+  const upload = multer({
+    storage: multer.memoryStorage(),
+    // Browsers send UTF-8 file names without declaring a charset
+    defParamCharset: 'utf8',
+    limits: {
+      fileSize: options.maxFileSizeBytes,
+      files: 1,
+    },
+    fileFilter: (_req, file, callback) => {
+      if (!options.isAllowed(file)) {
+        callback(
+          new ApiError(HTTP_STATUS.BAD_REQUEST, options.messages.typeNotAllowed)
+        )
+        return
+      }
+      callback(null, true)
+    },
+  }).single(options.fieldName)
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    upload(req, res, (error: unknown) => {
+      if (error instanceof multer.MulterError) {
+        if (error.code === 'LIMIT_FILE_SIZE') {
+          next(
+            new ApiError(
+              HTTP_STATUS.PAYLOAD_TOO_LARGE,
+              options.messages.tooLarge
+            )
+          )
+          return
+        }
+        next(new ApiError(HTTP_STATUS.BAD_REQUEST, error.message))
+        return
+      }
+
+      if (error) {
+        next(error)
+        return
+      }
+
+      if (!req.file) {
+        next(new ApiError(HTTP_STATUS.BAD_REQUEST, options.messages.required))
+        return
+      }
+
+      next()
+    })
+  }
+}
+
+/**
+ * Parse a single document file from a multipart request
+ */
+export const uploadDocumentFile: RequestHandler = createSingleFileUpload({
+  fieldName: DOCUMENT_UPLOAD.FIELD_NAME,
+  maxFileSizeBytes: env.DOCUMENT_MAX_FILE_SIZE_MB * 1024 * 1024,
+  isAllowed: (file) =>
+    DOCUMENT_UPLOAD.ALLOWED_MIME_TYPES.includes(file.mimetype),
+  messages: {
+    typeNotAllowed: ERROR_MESSAGES.DOCUMENT_FILE_TYPE_NOT_ALLOWED,
+    tooLarge: ERROR_MESSAGES.DOCUMENT_FILE_TOO_LARGE,
+    required: ERROR_MESSAGES.DOCUMENT_FILE_REQUIRED,
+  },
+})
+
+/**
+ * Parse a single CSV or Excel file to import from a multipart request
+ */
+export const uploadImportFile: RequestHandler = createSingleFileUpload({
+  fieldName: IMPORT_FILE.FIELD_NAME,
+  maxFileSizeBytes: IMPORT_FILE.MAX_FILE_SIZE_MB * 1024 * 1024,
+  isAllowed: (file) =>
+    IMPORT_FILE.ALLOWED_EXTENSIONS.includes(
+      extname(file.originalname).toLowerCase()
+    ),
+  messages: {
+    typeNotAllowed: ERROR_MESSAGES.IMPORT_FILE_TYPE_NOT_ALLOWED,
+    tooLarge: ERROR_MESSAGES.IMPORT_FILE_TOO_LARGE,
+    required: ERROR_MESSAGES.IMPORT_FILE_REQUIRED,
+  },
+})
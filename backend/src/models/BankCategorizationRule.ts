@@ -0,0 +1,215 @@
+import type { QueryBuilder } from 'objection'
+
+import type {
+  BankRuleCondition,
+  BankRuleMatchInput,
+} from '@/types/bankRule.type'
+import { Account } from '@models/Account'
+import { BaseModel } from '@models/BaseModel'
+import { ChartOfAccount } from '@models/ChartOfAccount'
+import { TaxGroup } from '@models/TaxGroup'
+
+export enum BankRuleMatchType {
+  ALL = 'all',
+  ANY = 'any',
+}
+
+export enum BankRuleTransactionType {
+  ANY = 'any',
+  DEPOSIT = 'deposit',
+  PAYMENT = 'payment',
+}
+
+/**
+ * Check if a transaction meets one rule condition
+ * Text is compared case-insensitively; amounts are compared to the absolute
+ * amount so "less than 200" means payments and deposits under 200
+ */
+const conditionMatches = (
+  condition: BankRuleCondition,
+  transaction: BankRuleMatchInput
+): boolean => {
+  if (condition.field === 'amount') {
+    const amount = Math.abs(Number(transaction.amount))
+    const value = Number(condition.value)
+    switch (condition.operator) {
+      case 'equals':
+        return Math.abs(amount - value) < 0.005
+      case 'gt':
+        return amount > value
+      case 'gte':
+        return amount >= value
+      case 'lt':
+        return amount < value
+      case 'lte':
+        return amount <= value
+    }
+  }
+
+  const fields = new Map([
+    ['description', transaction.description],
+    ['payee', transaction.payee],
+    ['reference', transaction.reference],
+  ])
+  const text = (fields.get(condition.field) ?? '').toLowerCase()
+  const value = condition.value.toLowerCase()
+  switch (condition.operator) {
+    case 'contains':
+      return text.includes(value)
+    case 'not_contains':
+      return !text.includes(value)
+    case 'equals':
+      return text.trim() === value.trim()
+    case 'starts_with':
+      return text.trimStart().startsWith(value)
+    case 'ends_with':
+      return text.trimEnd().endsWith(value)
+  }
+}
+
+/**
+ * BankCategorizationRule Model
+ * Suggests the category account, and optionally the tax group, of imported
+ * bank transactions. Rules are tried in priority order (lower first) and the
+ * first active rule matching a transaction wins.
+ * Example: description contains "SHELL" and amount < 200 → Fuel expense
+ */
+export class BankCategorizationRule extends BaseModel {
+  static override get tableName(): string {
+    return 'bank_categorization_rules'
+  }
+
+  // Properties
+  declare id: string
+  declare tenantId: string
+  declare createdBy: string
+  declare name: string
+  declare description?: string | null
+  declare priority: number
+  declare matchType: BankRuleMatchType
+  declare conditions: BankRuleCondition[]
+  declare transactionType: BankRuleTransactionType
+  declare accountId?: string | null
+  declare categoryAccountId: string
+  declare taxGroupId?: string | null
+  declare isActive: boolean
+  declare createdAt: Date
+  declare updatedAt: Date
+  declare deletedAt?: Date | null
+
+  // Relations
+  account?: Account
+  categoryAccount?: ChartOfAccount
+  taxGroup?: TaxGroup
+
+  // JSON Schema
+  static override get jsonSchema() {
+    return {
+      type: 'object',
+      required: ['tenantId', 'createdBy', 'name', 'categoryAccountId'],
+      properties: {
+        id: { type: 'string', format: 'uuid' },
+        tenantId: { type: 'string', format: 'uuid' },
+        createdBy: { type: 'string', format: 'uuid' },
+        name: { type: 'string', minLength: 1, maxLength: 255 },
+        description: { type: ['string', 'null'] },
+        priority: { type: 'integer', minimum: 1, default: 1 },
+        matchType: { type: 'string', enum: ['all', 'any'], default: 'all' },
+        conditions: {
+          type: 'array',
+          items: { type: 'object' },
+          default: [],
+        },
+        transactionType: {
+          type: 'string',
+          enum: ['any', 'deposit', 'payment'],
+          default: 'any',
+        },
+        accountId: { type: ['string', 'null'], format: 'uuid' },
+        categoryAccountId: { type: 'string', format: 'uuid' },
+        taxGroupId: { type: ['string', 'null'], format: 'uuid' },
+        isActive: { type: 'boolean', default: true },
+        createdAt: { type: 'string', format: 'date-time' },
+        updatedAt: { type: 'string', format: 'date-time' },
+        deletedAt: { type: ['string', 'null'], format: 'date-time' },
+      },
+    }
+  }
+
+  // Relation mappings
+  static override get relationMappings() {
+    return {
+      account: {
+        relation: BaseModel.BelongsToOneRelation,
+        modelClass: Account,
+        join: {
+          from: 'bank_categorization_rules.account_id',
+          to: 'accounts.id',
+        },
+      },
+      categoryAccount: {
+        relation: BaseModel.BelongsToOneRelation,
+        modelClass: ChartOfAccount,
+        join: {
+          from: 'bank_categorization_rules.category_account_id',
+          to: 'chart_of_accounts.id',
+        },
+      },
+      taxGroup: {
+        relation: BaseModel.BelongsToOneRelation,
+        modelClass: TaxGroup,
+        join: {
+          from: 'bank_categorization_rules.tax_group_id',
+          to: 'tax_groups.id',
+        },
+      },
+    }
+  }
+
+  // Query modifiers
+  static override get modifiers() {
+    return {
+      ...super.modifiers,
+      byTenant(query: QueryBuilder<BankCategorizationRule>, tenantId: string) {
+        query.where('tenant_id', tenantId)
+      },
+      active(query: QueryBuilder<BankCategorizationRule>) {
+        query.where('is_active', true)
+      },
+      inPriorityOrder(query: QueryBuilder<BankCategorizationRule>) {
+        query.orderBy('priority', 'asc').orderBy('created_at', 'asc')
+      },
+    }
+  }
+
+  // Helper methods
+  /**
+   * Check if the rule matches a transaction
+   */
+  matches(transaction: BankRuleMatchInput): boolean {
+    if (this.accountId && this.accountId !== transaction.accountId) {
+      return false
+    }
+
+    const amount = Number(transaction.amount)
+    if (
+      (this.transactionType === BankRuleTransactionType.DEPOSIT &&
+        amount <= 0) ||
+      (this.transactionType === BankRuleTransactionType.PAYMENT && amount >= 0)
+    ) {
+      return false
+    }
+
+    if (this.conditions.length === 0) {
+      return false
+    }
+
+    return this.matchType === BankRuleMatchType.ANY
+      ? this.conditions.some((condition) =>
+          conditionMatches(condition, transaction)
+        )
+      : this.conditions.every((condition) =>
+          conditionMatches(condition, transaction)
+        )
+  }
+}
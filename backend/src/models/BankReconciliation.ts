@@ -0,0 +1,129 @@
+import type { QueryBuilder } from 'objection'
+
+import type { BankReconciliationReport } from '@/types/bankReconciliation.type'
+import { Account } from '@models/Account'
+import { BaseModel } from '@models/BaseModel'
+
+export enum BankReconciliationStatus {
+  IN_PROGRESS = 'in_progress',
+  COMPLETED = 'completed',
+  UNDONE = 'undone',
+}
+
+/**
+ * BankReconciliation Model
+ * Represents a reconciliation session of a bank account against a statement
+ * Journal lines on the chart of accounts linked to the bank account are ticked
+ * as cleared until their total matches the statement ending balance. The
+ * report is saved when the session is finalized.
+ */
+export class BankReconciliation extends BaseModel {
+  static override get tableName(): string {
+    return 'bank_reconciliations'
+  }
+
+  // Properties
+  declare id: string
+  declare tenantId: string
+  declare createdBy: string
+  declare accountId: string
+  declare statementDate: Date
+  declare statementEndingBalance: number
+  declare openingBalance: number
+  declare status: BankReconciliationStatus
+  declare report?: BankReconciliationReport | null
+  declare completedAt?: Date | null
+  declare completedBy?: string | null
+  declare undoneAt?: Date | null
+  declare undoneBy?: string | null
+  declare createdAt: Date
+  declare updatedAt: Date
+  declare deletedAt?: Date | null
+
+  // Relations
+  account?: Account
+
+  // JSON Schema
+  static override get jsonSchema() {
+    return {
+      type: 'object',
+      required: [
+        'tenantId',
+        'createdBy',
+        'accountId',
+        'statementDate',
+        'statementEndingBalance',
+      ],
+      properties: {
+        id: { type: 'string', format: 'uuid' },
+        tenantId: { type: 'string', format: 'uuid' },
+        createdBy: { type: 'string', format: 'uuid' },
+        accountId: { type: 'string', format: 'uuid' },
+        statementDate: { type: 'string', format: 'date-time' },
+        statementEndingBalance: { type: 'number' },
+        openingBalance: { type: 'number', default: 0 },
+        status: {
+          type: 'string',
+          enum: ['in_progress', 'completed', 'undone'],
+          default: 'in_progress',
+        },
+        report: { type: ['object', 'null'] },
+        completedAt: { type: ['string', 'null'], format: 'date-time' },
+        completedBy: { type: ['string', 'null'], format: 'uuid' },
+        undoneAt: { type: ['string', 'null'], format: 'date-time' },
+        undoneBy: { type: ['string', 'null'], format: 'uuid' },
+        createdAt: { type: 'string', format: 'date-time' },
+        updatedAt: { type: 'string', format: 'date-time' },
+        deletedAt: { type: ['string', 'null'], format: 'date-time' },
+      },
+    }
+  }
+
+  // Relation mappings
+  static override get relationMappings() {
+    return {
+      account: {
+        relation: BaseModel.BelongsToOneRelation,
+        modelClass: Account,
+        join: {
+          from: 'bank_reconciliations.account_id',
+          to: 'accounts.id',
+        },
+      },
+    }
+  }
+
+  // Query modifiers
+  static override get modifiers() {
+    return {
+      ...super.modifiers,
+      byTenant(query: QueryBuilder<BankReconciliation>, tenantId: string) {
+        query.where('tenant_id', tenantId)
+      },
+      byAccount(query: QueryBuilder<BankReconciliation>, accountId: string) {
+        query.where('account_id', accountId)
+      },
+      inProgress(query: QueryBuilder<BankReconciliation>) {
+        query.where('status', BankReconciliationStatus.IN_PROGRESS)
+      },
+      completed(query: QueryBuilder<BankReconciliation>) {
+        query.where('status', BankReconciliationStatus.COMPLETED)
+      },
+    }
+  }
+
+  // Helper methods
+  /**
+   * Check if lines can still be ticked in this session
+   */
+  isInProgress(): boolean {
+    return this.status === BankReconciliationStatus.IN_PROGRESS
+  }
+
+  /**
+   * Check if this reconciliation has been finalized
+   */
+  isCompleted(): boolean {
+    return this.status === BankReconciliationStatus.COMPLETED
+  }
+}
@@ -0,0 +1,91 @@
+import type { QueryBuilder } from 'objection'
+
+import type { BankStatementImportError } from '@/types/bankTransaction.type'
+import { Account } from '@models/Account'
+import { BaseModel } from '@models/BaseModel'
+
+export enum BankStatementFormat {
+  CSV = 'csv',
+  OFX = 'ofx',
+  CAMT053 = 'camt053',
+}
+
+/**
+ * BankStatementImport Model
+ * Represents a statement file imported for a bank account
+ * Keeps how many lines were read, added to the transactions inbox and skipped
+ * as duplicates, with the lines that could not be read
+ */
+export class BankStatementImport extends BaseModel {
+  static override get tableName(): string {
+    return 'bank_statement_imports'
+  }
+
+  // Properties
+  declare id: string
+  declare tenantId: string
+  declare createdBy: string
+  declare accountId: string
+  declare fileName?: string | null
+  declare format: BankStatementFormat
+  declare totalCount: number
+  declare importedCount: number
+  declare duplicateCount: number
+  declare errors: BankStatementImportError[]
+  declare createdAt: Date
+  declare updatedAt: Date
+  declare deletedAt?: Date | null
+
+  // Relations
+  account?: Account
+
+  // JSON Schema
+  static override get jsonSchema() {
+    return {
+      type: 'object',
+      required: ['tenantId', 'createdBy', 'accountId', 'format'],
+      properties: {
+        id: { type: 'string', format: 'uuid' },
+        tenantId: { type: 'string', format: 'uuid' },
+        createdBy: { type: 'string', format: 'uuid' },
+        accountId: { type: 'string', format: 'uuid' },
+        fileName: { type: ['string', 'null'], maxLength: 255 },
+        format: { type: 'string', enum: ['csv', 'ofx', 'camt053'] },
+        totalCount: { type: 'integer', minimum: 0, default: 0 },
+        importedCount: { type: 'integer', minimum: 0, default: 0 },
+        duplicateCount: { type: 'integer', minimum: 0, default: 0 },
+        errors: { type: 'array', default: [] },
+        createdAt: { type: 'string', format: 'date-time' },
+        updatedAt: { type: 'string', format: 'date-time' },
+        deletedAt: { type: ['string', 'null'], format: 'date-time' },
+      },
+    }
+  }
+
+  // Relation mappings
+  static override get relationMappings() {
+    return {
+      account: {
+        relation: BaseModel.BelongsToOneRelation,
+        modelClass: Account,
+        join: {
+          from: 'bank_statement_imports.account_id',
+          to: 'accounts.id',
+        },
+      },
+    }
+  }
+
+  // Query modifiers
+  static override get modifiers() {
+    return {
+      ...super.modifiers,
+      byTenant(query: QueryBuilder<BankStatementImport>, tenantId: string) {
+        query.where('tenant_id', tenantId)
+      },
+      byAccount(query: QueryBuilder<BankStatementImport>, accountId: string) {
+        query.where('account_id', accountId)
+      },
+    }
+  }
+}
@@ -0,0 +1,187 @@
+import type { QueryBuilder } from 'objection'
+
+import { Account } from '@models/Account'
+import { BankStatementImport } from '@models/BankStatementImport'
+import { BaseModel } from '@models/BaseModel'
+import { ChartOfAccount } from '@models/ChartOfAccount'
+import { JournalEntry } from '@models/JournalEntry'
+import { TaxGroup } from '@models/TaxGroup'
+
+export enum BankTransactionStatus {
+  UNCATEGORIZED = 'uncategorized',
+  CATEGORIZED = 'categorized',
+  EXCLUDED = 'excluded',
+}
+
+/**
+ * Source module recorded on journal entries created by categorizing a bank
+ * transaction
+ */
+export const BANK_TRANSACTION_SOURCE_MODULE = 'bank_transactions'
+
+/**
+ * BankTransaction Model
+ * Represents a statement line imported for a bank account
+ * Imported lines wait in the transactions inbox as uncategorized until they
+ * are categorized into a journal entry against a chart of accounts entry, or
+ * excluded (e.g., duplicates already entered by hand)
+ */
+export class BankTransaction extends BaseModel {
+  static override get tableName(): string {
+    return 'bank_transactions'
+  }
+
+  // Properties
+  declare id: string
+  declare tenantId: string
+  declare createdBy: string
+  declare accountId: string
+  declare importId?: string | null
+  declare transactionDate: Date
+  declare amount: number
+  declare currencyCode: string
+  declare description?: string | null
+  declare payee?: string | null
+  declare reference?: string | null
+  declare fitid?: string | null
+  declare dedupeKey: string
+  declare status: BankTransactionStatus
+  declare journalEntryId?: string | null
+  declare categoryAccountId?: string | null
+  declare taxGroupId?: string | null
+  declare ruleId?: string | null
+  declare categorizedAt?: Date | null
+  declare categorizedBy?: string | null
+  declare createdAt: Date
+  declare updatedAt: Date
+  declare deletedAt?: Date | null
+
+  // Relations
+  account?: Account
+  statementImport?: BankStatementImport
+  journalEntry?: JournalEntry
+  categoryAccount?: ChartOfAccount
+  taxGroup?: TaxGroup
+
+  // JSON Schema
+  static override get jsonSchema() {
+    return {
+      type: 'object',
+      required: [
+        'tenantId',
+        'createdBy',
+        'accountId',
+        'transactionDate',
+        'amount',
+        'currencyCode',
+        'dedupeKey',
+      ],
+      properties: {
+        id: { type: 'string', format: 'uuid' },
+        tenantId: { type: 'string', format: 'uuid' },
+        createdBy: { type: 'string', format: 'uuid' },
+        accountId: { type: 'string', format: 'uuid' },
+        importId: { type: ['string', 'null'], format: 'uuid' },
+        transactionDate: { type: 'string', format: 'date-time' },
+        amount: { type: 'number' },
+        currencyCode: { type: 'string', minLength: 3, maxLength: 3 },
+        description: { type: ['string', 'null'] },
+        payee: { type: ['string', 'null'], maxLength: 255 },
+        reference: { type: ['string', 'null'], maxLength: 255 },
+        fitid: { type: ['string', 'null'], maxLength: 255 },
+        dedupeKey: { type: 'string', minLength: 1, maxLength: 255 },
+        status: {
+          type: 'string',
+          enum: ['uncategorized', 'categorized', 'excluded'],
+          default: 'uncategorized',
+        },
+        journalEntryId: { type: ['string', 'null'], format: 'uuid' },
+        categoryAccountId: { type: ['string', 'null'], format: 'uuid' },
+        taxGroupId: { type: ['string', 'null'], format: 'uuid' },
+        ruleId: { type: ['string', 'null'], format: 'uuid' },
+        categorizedAt: { type: ['string', 'null'], format: 'date-time' },
+        categorizedBy: { type: ['string', 'null'], format: 'uuid' },
+        createdAt: { type: 'string', format: 'date-time' },
+        updatedAt: { type: 'string', format: 'date-time' },
+        deletedAt: { type: ['string', 'null'], format: 'date-time' },
+      },
+    }
+  }
+
+  // Relation mappings
+  static override get relationMappings() {
+    return {
+      account: {
+        relation: BaseModel.BelongsToOneRelation,
+        modelClass: Account,
+        join: {
+          from: 'bank_transactions.account_id',
+          to: 'accounts.id',
+        },
+      },
+      statementImport: {
+        relation: BaseModel.BelongsToOneRelation,
+        modelClass: BankStatementImport,
+        join: {
+          from: 'bank_transactions.import_id',
+          to: 'bank_statement_imports.id',
+        },
+      },
+      journalEntry: {
+        relation: BaseModel.BelongsToOneRelation,
+        modelClass: JournalEntry,
+        join: {
+          from: 'bank_transactions.journal_entry_id',
+          to: 'journal_entries.id',
+        },
+      },
+      categoryAccount: {
+        relation: BaseModel.BelongsToOneRelation,
+        modelClass: ChartOfAccount,
+        join: {
+          from: 'bank_transactions.category_account_id',
+          to: 'chart_of_accounts.id',
+        },
+      },
+      taxGroup: {
+        relation: BaseModel.BelongsToOneRelation,
+        modelClass: TaxGroup,
+        join: {
+          from: 'bank_transactions.tax_group_id',
+          to: 'tax_groups.id',
+        },
+      },
+    }
+  }
+
+  // Query modifiers
+  static override get modifiers() {
+    return {
+      ...super.modifiers,
+      byTenant(query: QueryBuilder<BankTransaction>, tenantId: string) {
+        query.where('tenant_id', tenantId)
+      },
+      byAccount(query: QueryBuilder<BankTransaction>, accountId: string) {
+        query.where('account_id', accountId)
+      },
+      uncategorized(query: QueryBuilder<BankTransaction>) {
+        query.where('status', BankTransactionStatus.UNCATEGORIZED)
+      },
+    }
+  }
+
+  // Helper methods
+  /**
+   * Check if the transaction is still waiting in the inbox
+   */
+  isUncategorized(): boolean {
+    return this.status === BankTransactionStatus.UNCATEGORIZED
+  }
+
+  /**
+   * Check if money came into the bank account
+   */
+  isDeposit(): boolean {
+    return Number(this.amount) > 0
+  }
+}
@@ -0,0 +1,268 @@
+import type { QueryBuilder } from 'objection'
+
+import { BaseModel } from '@models/BaseModel'
+import { BillLine } from '@models/BillLine'
+import { ChartOfAccount } from '@models/ChartOfAccount'
+import { Contact } from '@models/Contact'
+import { JournalEntry } from '@models/JournalEntry'
+
+/**
+ * Bill Type Enum
+ * BILL is paid later through accounts payable; EXPENSE was already paid from
+ * a bank or cash account
+ */
+export enum BillType {
+  BILL = 'bill',
+  EXPENSE = 'expense',
+}
+
+/**
+ * Bill Status Enum
+ * OVERDUE is never stored: open and partially paid bills past their due date
+ * are reported as overdue
+ */
+export enum BillStatus {
+  DRAFT = 'draft',
+  OPEN = 'open',
+  PARTIALLY_PAID = 'partially_paid',
+  PAID = 'paid',
+  OVERDUE = 'overdue',
+  VOID = 'void',
+}
+
+/**
+ * Statuses of bills that are posted and still have a balance due
+ */
+export const OPEN_BILL_STATUSES = [BillStatus.OPEN, BillStatus.PARTIALLY_PAID]
+
+/**
+ * Source module recorded on journal entries posted for a bill
+ */
+export const BILL_SOURCE_MODULE = 'bills'
+
+/**
+ * Bill Model
+ * Represents a vendor bill or a direct expense. Drafts can be edited freely;
+ * posting a bill debits its expense accounts and recoverable tax, and
+ * credits accounts payable (bills) or the paying bank account (expenses).
+ * Voiding a bill reverses that entry.
+ */
+export class Bill extends BaseModel {
+  static override get tableName(): string {
+    return 'bills'
+  }
+
+  // Properties
+  declare id: string
+  declare tenantId: string
+  declare createdBy: string
+  declare billType: BillType
+  declare billNumber?: string | null
+  declare contactId?: string | null
+  declare status: BillStatus
+  declare billDate: Date
+  declare dueDate: Date
+  declare reference?: string | null
+  declare memo?: string | null
+  declare subtotal: number
+  declare taxAmount: number
+  declare recoverableTaxAmount: number
+  declare total: number
+  declare amountPaid: number
+  declare paymentAccountId?: string | null
+  declare payableAccountId?: string | null
+  declare journalEntryId?: string | null
+  declare voidJournalEntryId?: string | null
+  declare postedAt?: Date | null
+  declare postedBy?: string | null
+  declare voidedAt?: Date | null
+  declare voidedBy?: string | null
+  declare voidReason?: string | null
+  declare createdAt: Date
+  declare updatedAt: Date
+  declare deletedAt?: Date | null
+
+  // Relations
+  contact?: Contact
+  lines?: BillLine[]
+  paymentAccount?: ChartOfAccount
+  payableAccount?: ChartOfAccount
+  journalEntry?: JournalEntry
+
+  // JSON Schema
+  static override get jsonSchema() {
+    return {
+      type: 'object',
+      required: ['tenantId', 'createdBy', 'billType', 'billDate', 'dueDate'],
+      properties: {
+        id: { type: 'string', format: 'uuid' },
+        tenantId: { type: 'string', format: 'uuid' },
+        createdBy: { type: 'string', format: 'uuid' },
+        billType: {
+          type: 'string',
+          enum: ['bill', 'expense'],
+          default: 'bill',
+        },
+        billNumber: { type: ['string', 'null'], maxLength: 50 },
+        contactId: { type: ['string', 'null'], format: 'uuid' },
+        status: {
+          type: 'string',
+          enum: ['draft', 'open', 'partially_paid', 'paid', 'void'],
+          default: 'draft',
+        },
+        billDate: { type: 'string', format: 'date-time' },
+        dueDate: { type: 'string', format: 'date-time' },
+        reference: { type: ['string', 'null'], maxLength: 255 },
+        memo: { type: ['string', 'null'] },
+        subtotal: { type: 'number', default: 0 },
+        taxAmount: { type: 'number', minimum: 0, default: 0 },
+        recoverableTaxAmount: { type: 'number', minimum: 0, default: 0 },
+        total: { type: 'number', default: 0 },
+        amountPaid: { type: 'number', minimum: 0, default: 0 },
+        paymentAccountId: { type: ['string', 'null'], format: 'uuid' },
+        payableAccountId: { type: ['string', 'null'], format: 'uuid' },
+        journalEntryId: { type: ['string', 'null'], format: 'uuid' },
+        voidJournalEntryId: { type: ['string', 'null'], format: 'uuid' },
+        postedAt: { type: ['string', 'null'], format: 'date-time' },
+        postedBy: { type: ['string', 'null'], format: 'uuid' },
+        voidedAt: { type: ['string', 'null'], format: 'date-time' },
+        voidedBy: { type: ['string', 'null'], format: 'uuid' },
+        voidReason: { type: ['string', 'null'] },
+        createdAt: { type: 'string', format: 'date-time' },
+        updatedAt: { type: 'string', format: 'date-time' },
+        deletedAt: { type: ['string', 'null'], format: 'date-time' },
+      },
+    }
+  }
+
+  // Relation mappings
+  static override get relationMappings() {
+    return {
+      contact: {
+        relation: BaseModel.BelongsToOneRelation,
+        modelClass: Contact,
+        join: {
+          from: 'bills.contact_id',
+          to: 'contacts.id',
+        },
+      },
+      lines: {
+        relation: BaseModel.HasManyRelation,
+        modelClass: BillLine,
+        join: {
+          from: 'bills.id',
+          to: 'bill_lines.bill_id',
+        },
+        filter: (query: QueryBuilder<BillLine>) => {
+          query.modify('notDeleted').orderBy('line_number', 'asc')
+        },
+      },
+      paymentAccount: {
+        relation: BaseModel.BelongsToOneRelation,
+        modelClass: ChartOfAccount,
+        join: {
+          from: 'bills.payment_account_id',
+          to: 'chart_of_accounts.id',
+        },
+      },
+      payableAccount: {
+        relation: BaseModel.BelongsToOneRelation,
+        modelClass: ChartOfAccount,
+        join: {
+          from: 'bills.payable_account_id',
+          to: 'chart_of_accounts.id',
+        },
+      },
+      journalEntry: {
+        relation: BaseModel.BelongsToOneRelation,
+        modelClass: JournalEntry,
+        join: {
+          from: 'bills.journal_entry_id',
+          to: 'journal_entries.id',
+        },
+      },
+    }
+  }
+
+  // Query modifiers
+  static override get modifiers() {
+    return {
+      ...super.modifiers,
+      byTenant(query: QueryBuilder<Bill>, tenantId: string) {
+        query.where('tenant_id', tenantId)
+      },
+      byContact(query: QueryBuilder<Bill>, contactId: string) {
+        query.where('contact_id', contactId)
+      },
+      byType(query: QueryBuilder<Bill>, billType: BillType) {
+        query.where('bill_type', billType)
+      },
+      /**
+       * Bills in a status as of a date; overdue and the open statuses are
+       * told apart by the due date
+       */
+      byStatus(query: QueryBuilder<Bill>, status: BillStatus, asOf: Date) {
+        if (status === BillStatus.OVERDUE) {
+          query
+            .whereIn('status', OPEN_BILL_STATUSES)
+            .where('due_date', '<', asOf)
+        } else if (OPEN_BILL_STATUSES.includes(status)) {
+          query.where('status', status).where('due_date', '>=', asOf)
+        } else {
+          query.where('status', status)
+        }
+      },
+      withLines(query: QueryBuilder<Bill>) {
+        query.withGraphFetched(
+          '[contact, paymentAccount, lines.[account, taxGroup]]'
+        )
+      },
+    }
+  }
+
+  // Helper methods
+  /**
+   * Check if the bill is a draft
+   */
+  isDraft(): boolean {
+    return this.status === BillStatus.DRAFT
+  }
+
+  /**
+   * Check if the bill is void
+   */
+  isVoid(): boolean {
+    return this.status === BillStatus.VOID
+  }
+
+  /**
+   * Check if the bill is an expense paid from a bank or cash account
+   */
+  isExpense(): boolean {
+    return this.billType === BillType.EXPENSE
+  }
+
+  /**
+   * Get the amount still to be paid
+   */
+  getBalanceDue(): number {
+    if (this.isDraft() || this.isVoid()) {
+      return 0
+    }
+    return Number(this.total) - Number(this.amountPaid)
+  }
+
+  /**
+   * Get the status as of a date, reporting open bills past their due date as
+   * overdue
+   */
+  getEffectiveStatus(asOf: Date): BillStatus {
+    if (
+      OPEN_BILL_STATUSES.includes(this.status) &&
+      new Date(this.dueDate) < asOf
+    ) {
+      return BillStatus.OVERDUE
+    }
+    return this.status
+  }
+}
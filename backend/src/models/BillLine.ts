@@ -0,0 +1,121 @@
+import type { QueryBuilder } from 'objection'
+
+import { BaseModel } from '@models/BaseModel'
+import { ChartOfAccount } from '@models/ChartOfAccount'
+import { TaxGroup } from '@models/TaxGroup'
+import type { TaxCalculationResult } from '@utils/taxCalculation'
+
+/**
+ * BillLine Model
+ * Represents a product or service on a bill, debited to an expense account.
+ * Recoverable tax is posted to the recoverable tax account; tax that cannot
+ * be reclaimed is added to the expense.
+ */
+export class BillLine extends BaseModel {
+  static override get tableName(): string {
+    return 'bill_lines'
+  }
+
+  // Properties
+  declare id: string
+  declare tenantId: string
+  declare createdBy: string
+  declare billId: string
+  declare lineNumber: number
+  declare description: string
+  declare quantity: number
+  declare unitPrice: number
+  declare amount: number
+  declare accountId: string
+  declare taxGroupId?: string | null
+  declare taxAmount: number
+  declare isTaxRecoverable: boolean
+  declare taxBreakdown: TaxCalculationResult['taxBreakdown']
+  declare createdAt: Date
+  declare updatedAt: Date
+  declare deletedAt?: Date | null
+
+  // Relations
+  account?: ChartOfAccount
+  taxGroup?: TaxGroup
+
+  // JSON Schema
+  static override get jsonSchema() {
+    return {
+      type: 'object',
+      required: [
+        'tenantId',
+        'createdBy',
+        'billId',
+        'lineNumber',
+        'description',
+        'accountId',
+      ],
+      properties: {
+        id: { type: 'string', format: 'uuid' },
+        tenantId: { type: 'string', format: 'uuid' },
+        createdBy: { type: 'string', format: 'uuid' },
+        billId: { type: 'string', format: 'uuid' },
+        lineNumber: { type: 'integer', minimum: 1 },
+        description: { type: 'string', minLength: 1 },
+        quantity: { type: 'number', default: 1 },
+        unitPrice: { type: 'number', default: 0 },
+        amount: { type: 'number', default: 0 },
+        accountId: { type: 'string', format: 'uuid' },
+        taxGroupId: { type: ['string', 'null'], format: 'uuid' },
+        taxAmount: { type: 'number', minimum: 0, default: 0 },
+        isTaxRecoverable: { type: 'boolean', default: true },
+        taxBreakdown: { type: 'array', default: [] },
+        createdAt: { type: 'string', format: 'date-time' },
+        updatedAt: { type: 'string', format: 'date-time' },
+        deletedAt: { type: ['string', 'null'], format: 'date-time' },
+      },
+    }
+  }
+
+  // Relation mappings
+  static override get relationMappings() {
+    return {
+      account: {
+        relation: BaseModel.BelongsToOneRelation,
+        modelClass: ChartOfAccount,
+        join: {
+          from: 'bill_lines.account_id',
+          to: 'chart_of_accounts.id',
+        },
+      },
+      taxGroup: {
+        relation: BaseModel.BelongsToOneRelation,
+        modelClass: TaxGroup,
+        join: {
+          from: 'bill_lines.tax_group_id',
+          to: 'tax_groups.id',
+        },
+      },
+    }
+  }
+
+  // Query modifiers
+  static override get modifiers() {
+    return {
+      ...super.modifiers,
+      byTenant(query: QueryBuilder<BillLine>, tenantId: string) {
+        query.where('tenant_id', tenantId)
+      },
+      byBill(query: QueryBuilder<BillLine>, billId: string) {
+        query.where('bill_id', billId)
+      },
+    }
+  }
+
+  // Helper methods
+  /**
+   * Get the amount debited to the expense account: the line amount plus the
+   * tax that cannot be reclaimed
+   */
+  getExpenseAmount(): number {
+    return this.isTaxRecoverable
+      ? Number(this.amount)
+      : Number(this.amount) + Number(this.taxAmount)
+  }
+}
@@ -0,0 +1,77 @@
+import type { QueryBuilder } from 'objection'
+
+import { BaseModel } from '@models/BaseModel'
+import { ChartOfAccount } from '@models/ChartOfAccount'
+
+/**
+ * BillSettings Model
+ * Ledger accounts used by the bills of a tenant
+ * One row per tenant, created with the defaults the first time it is read
+ */
+export class BillSettings extends BaseModel {
+  static override get tableName(): string {
+    return 'bill_settings'
+  }
+
+  // Properties
+  declare id: string
+  declare tenantId: string
+  declare payableAccountId?: string | null
+  declare taxAccountId?: string | null
+  declare createdAt: Date
+  declare updatedAt: Date
+  declare deletedAt?: Date | null
+
+  // Relations
+  payableAccount?: ChartOfAccount
+  taxAccount?: ChartOfAccount
+
+  // JSON Schema
+  static override get jsonSchema() {
+    return {
+      type: 'object',
+      required: ['tenantId'],
+      properties: {
+        id: { type: 'string', format: 'uuid' },
+        tenantId: { type: 'string', format: 'uuid' },
+        payableAccountId: { type: ['string', 'null'], format: 'uuid' },
+        taxAccountId: { type: ['string', 'null'], format: 'uuid' },
+        createdAt: { type: 'string', format: 'date-time' },
+        updatedAt: { type: 'string', format: 'date-time' },
+        deletedAt: { type: ['string', 'null'], format: 'date-time' },
+      },
+    }
+  }
+
+  // Relation mappings
+  static override get relationMappings() {
+    return {
+      payableAccount: {
+        relation: BaseModel.BelongsToOneRelation,
+        modelClass: ChartOfAccount,
+        join: {
+          from: 'bill_settings.payable_account_id',
+          to: 'chart_of_accounts.id',
+        },
+      },
+      taxAccount: {
+        relation: BaseModel.BelongsToOneRelation,
+        modelClass: ChartOfAccount,
+        join: {
+          from: 'bill_settings.tax_account_id',
+          to: 'chart_of_accounts.id',
+        },
+      },
+    }
+  }
+
+  // Query modifiers
+  static override get modifiers() {
+    return {
+      ...super.modifiers,
+      byTenant(query: QueryBuilder<BillSettings>, tenantId: string) {
+        query.where('tenant_id', tenantId)
+      },
+    }
+  }
+}
@@ -0,0 +1,94 @@
+import type { QueryBuilder } from 'objection'
+
+import { BaseModel } from '@models/BaseModel'
+import { BudgetLine } from '@models/BudgetLine'
+import { FiscalYear } from '@models/FiscalYear'
+
+/**
+ * Budget Model
+ * Represents a named budget of a fiscal year, with an amount per revenue or
+ * expense account per month
+ */
+export class Budget extends BaseModel {
+  static override get tableName(): string {
+    return 'budgets'
+  }
+
+  // Properties
+  declare id: string
+  declare tenantId: string
+  declare createdBy: string
+  declare fiscalYearId: string
+  declare name: string
+  declare description?: string | null
+  declare createdAt: Date
+  declare updatedAt: Date
+  declare deletedAt?: Date | null
+
+  // Relations
+  fiscalYear?: FiscalYear
+  lines?: BudgetLine[]
+
+  // JSON Schema
+  static override get jsonSchema() {
+    return {
+      type: 'object',
+      required: ['tenantId', 'createdBy', 'fiscalYearId', 'name'],
+      properties: {
+        id: { type: 'string', format: 'uuid' },
+        tenantId: { type: 'string', format: 'uuid' },
+        createdBy: { type: 'string', format: 'uuid' },
+        fiscalYearId: { type: 'string', format: 'uuid' },
+        name: { type: 'string', minLength: 1, maxLength: 100 },
+        description: { type: ['string', 'null'] },
+        createdAt: { type: 'string', format: 'date-time' },
+        updatedAt: { type: 'string', format: 'date-time' },
+        deletedAt: { type: ['string', 'null'], format: 'date-time' },
+      },
+    }
+  }
+
+  // Relation mappings
+  static override get relationMappings() {
+    return {
+      fiscalYear: {
+        relation: BaseModel.BelongsToOneRelation,
+        modelClass: FiscalYear,
+        join: {
+          from: 'budgets.fiscal_year_id',
+          to: 'fiscal_years.id',
+        },
+      },
+      lines: {
+        relation: BaseModel.HasManyRelation,
+        modelClass: BudgetLine,
+        join: {
+          from: 'budgets.id',
+          to: 'budget_lines.budget_id',
+        },
+        filter: (query: QueryBuilder<BudgetLine>) => {
+          query.modify('notDeleted').orderBy('month', 'asc')
+        },
+      },
+    }
+  }
+
+  // Query modifiers
+  static override get modifiers() {
+    return {
+      ...super.modifiers,
+      byTenant(query: QueryBuilder<Budget>, tenantId: string) {
+        query.where('tenant_id', tenantId)
+      },
+      byFiscalYear(query: QueryBuilder<Budget>, fiscalYearId: string) {
+        query.where('fiscal_year_id', fiscalYearId)
+      },
+      withFiscalYear(query: QueryBuilder<Budget>) {
+        query.withGraphFetched('fiscalYear')
+      },
+      withLines(query: QueryBuilder<Budget>) {
+        query.withGraphFetched('[fiscalYear, lines.account]')
+      },
+    }
+  }
+}
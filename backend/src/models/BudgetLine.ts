@@ -0,0 +1,75 @@
+import type { QueryBuilder } from 'objection'
+
+import { BaseModel } from '@models/BaseModel'
+import { ChartOfAccount } from '@models/ChartOfAccount'
+
+/**
+ * BudgetLine Model
+ * Represents the budgeted amount of an account for one month of the fiscal
+ * year of its budget, in the natural direction of the account
+ */
+export class BudgetLine extends BaseModel {
+  static override get tableName(): string {
+    return 'budget_lines'
+  }
+
+  // Properties
+  declare id: string
+  declare tenantId: string
+  declare budgetId: string
+  declare accountId: string
+  declare month: number
+  declare amount: number
+  declare createdAt: Date
+  declare updatedAt: Date
+  declare deletedAt?: Date | null
+
+  // Relations
+  account?: ChartOfAccount
+
+  // JSON Schema
+  static override get jsonSchema() {
+    return {
+      type: 'object',
+      required: ['tenantId', 'budgetId', 'accountId', 'month'],
+      properties: {
+        id: { type: 'string', format: 'uuid' },
+        tenantId: { type: 'string', format: 'uuid' },
+        budgetId: { type: 'string', format: 'uuid' },
+        accountId: { type: 'string', format: 'uuid' },
+        month: { type: 'integer', minimum: 1 },
+        amount: { type: 'number', default: 0 },
+        createdAt: { type: 'string', format: 'date-time' },
+        updatedAt: { type: 'string', format: 'date-time' },
+        deletedAt: { type: ['string', 'null'], format: 'date-time' },
+      },
+    }
+  }
+
+  // Relation mappings
+  static override get relationMappings() {
+    return {
+      account: {
+        relation: BaseModel.BelongsToOneRelation,
+        modelClass: ChartOfAccount,
+        join: {
+          from: 'budget_lines.account_id',
+          to: 'chart_of_accounts.id',
+        },
+      },
+    }
+  }
+
+  // Query modifiers
+  static override get modifiers() {
+    return {
+      ...super.modifiers,
+      byTenant(query: QueryBuilder<BudgetLine>, tenantId: string) {
+        query.where('tenant_id', tenantId)
+      },
+      byBudget(query: QueryBuilder<BudgetLine>, budgetId: string) {
+        query.where('budget_id', budgetId)
+      },
+    }
+  }
+}
@@ -0,0 +1,166 @@
+import type { QueryBuilder } from 'objection'
+
+import type { ContactAddress } from '@/types/contact.type'
+import { BaseModel } from '@models/BaseModel'
+import { ChartOfAccount } from '@models/ChartOfAccount'
+import { TaxGroup } from '@models/TaxGroup'
+
+/**
+ * Contact Type Enum
+ */
+export enum ContactType {
+  CUSTOMER = 'customer',
+  VENDOR = 'vendor',
+  BOTH = 'both',
+}
+
+/**
+ * Contact Model
+ * Represents a customer or vendor of the tenant
+ * Journal entry lines and tax exemptions reference contacts; the defaults
+ * (accounts, tax group, payment terms) prefill documents of the contact
+ */
+export class Contact extends BaseModel {
+  static override get tableName(): string {
+    return 'contacts'
+  }
+
+  // Properties
+  declare id: string
+  declare tenantId: string
+  declare createdBy: string
+  declare contactType: ContactType
+  declare displayName: string
+  declare companyName?: string | null
+  declare firstName?: string | null
+  declare lastName?: string | null
+  declare email?: string | null
+  declare phone?: string | null
+  declare website?: string | null
+  declare taxNumber?: string | null
+  declare currencyCode?: string | null
+  declare billingAddress?: ContactAddress | null
+  declare shippingAddress?: ContactAddress | null
+  declare defaultIncomeAccountId?: string | null
+  declare defaultExpenseAccountId?: string | null
+  declare defaultTaxGroupId?: string | null
+  declare paymentTermsDays: number
+  declare notes?: string | null
+  declare isActive: boolean
+  declare createdAt: Date
+  declare updatedAt: Date
+  declare deletedAt?: Date | null
+
+  // Relations
+  defaultIncomeAccount?: ChartOfAccount
+  defaultExpenseAccount?: ChartOfAccount
+  defaultTaxGroup?: TaxGroup
+
+  // JSON Schema
+  static override get jsonSchema() {
+    return {
+      type: 'object',
+      required: ['tenantId', 'createdBy', 'contactType', 'displayName'],
+      properties: {
+        id: { type: 'string', format: 'uuid' },
+        tenantId: { type: 'string', format: 'uuid' },
+        createdBy: { type: 'string', format: 'uuid' },
+        contactType: {
+          type: 'string',
+          enum: ['customer', 'vendor', 'both'],
+          default: 'customer',
+        },
+        displayName: { type: 'string', minLength: 1, maxLength: 255 },
+        companyName: { type: ['string', 'null'], maxLength: 255 },
+        firstName: { type: ['string', 'null'], maxLength: 100 },
+        lastName: { type: ['string', 'null'], maxLength: 100 },
+        email: { type: ['string', 'null'], maxLength: 255 },
+        phone: { type: ['string', 'null'], maxLength: 50 },
+        website: { type: ['string', 'null'], maxLength: 255 },
+        taxNumber: { type: ['string', 'null'], maxLength: 50 },
+        currencyCode: { type: ['string', 'null'], minLength: 3, maxLength: 3 },
+        billingAddress: { type: ['object', 'null'] },
+        shippingAddress: { type: ['object', 'null'] },
+        defaultIncomeAccountId: { type: ['string', 'null'], format: 'uuid' },
+        defaultExpenseAccountId: { type: ['string', 'null'], format: 'uuid' },
+        defaultTaxGroupId: { type: ['string', 'null'], format: 'uuid' },
+        paymentTermsDays: { type: 'integer', minimum: 0, default: 30 },
+        notes: { type: ['string', 'null'] },
+        isActive: { type: 'boolean', default: true },
+        createdAt: { type: 'string', format: 'date-time' },
+        updatedAt: { type: 'string', format: 'date-time' },
+        deletedAt: { type: ['string', 'null'], format: 'date-time' },
+      },
+    }
+  }
+
+  // Relation mappings
+  static override get relationMappings() {
+    return {
+      defaultIncomeAccount: {
+        relation: BaseModel.BelongsToOneRelation,
+        modelClass: ChartOfAccount,
+        join: {
+          from: 'contacts.default_income_account_id',
+          to: 'chart_of_accounts.id',
+        },
+      },
+      defaultExpenseAccount: {
+        relation: BaseModel.BelongsToOneRelation,
+        modelClass: ChartOfAccount,
+        join: {
+          from: 'contacts.default_expense_account_id',
+          to: 'chart_of_accounts.id',
+        },
+      },
+      defaultTaxGroup: {
+        relation: BaseModel.BelongsToOneRelation,
+        modelClass: TaxGroup,
+        join: {
+          from: 'contacts.default_tax_group_id',
+          to: 'tax_groups.id',
+        },
+      },
+    }
+  }
+
+  // Query modifiers
+  static override get modifiers() {
+    return {
+      ...super.modifiers,
+      byTenant(query: QueryBuilder<Contact>, tenantId: string) {
+        query.where('tenant_id', tenantId)
+      },
+      active(query: QueryBuilder<Contact>) {
+        query.where('is_active', true)
+      },
+      customers(query: QueryBuilder<Contact>) {
+        query.whereIn('contact_type', [ContactType.CUSTOMER, ContactType.BOTH])
+      },
+      vendors(query: QueryBuilder<Contact>) {
+        query.whereIn('contact_type', [ContactType.VENDOR, ContactType.BOTH])
+      },
+    }
+  }
+
+  // Helper methods
+  /**
+   * Check if the contact is a customer
+   */
+  isCustomer(): boolean {
+    return (
+      this.contactType === ContactType.CUSTOMER ||
+      this.contactType === ContactType.BOTH
+    )
+  }
+
+  /**
+   * Check if the contact is a vendor
+   */
+  isVendor(): boolean {
+    return (
+      this.contactType === ContactType.VENDOR ||
+      this.contactType === ContactType.BOTH
+    )
+  }
+}
@@ -0,0 +1,209 @@
+import type { QueryBuilder } from 'objection'
+
+import { Account } from '@models/Account'
+import { BaseModel } from '@models/BaseModel'
+import { ChartOfAccount } from '@models/ChartOfAccount'
+import { Contact } from '@models/Contact'
+import { CustomerPaymentAllocation } from '@models/CustomerPaymentAllocation'
+import { JournalEntry } from '@models/JournalEntry'
+
+/**
+ * Customer Payment Status Enum
+ * APPLIED payments are fully matched against open receivable lines;
+ * PARTIALLY_APPLIED payments hold the rest as customer credit or unapplied
+ * cash, and UNAPPLIED payments are not matched at all. UNMATCHED payments had
+ * their entry reversed.
+ */
+export enum CustomerPaymentStatus {
+  APPLIED = 'applied',
+  PARTIALLY_APPLIED = 'partially_applied',
+  UNAPPLIED = 'unapplied',
+  UNMATCHED = 'unmatched',
+}
+
+/**
+ * Source module recorded on journal entries posted for a customer payment
+ */
+export const CUSTOMER_PAYMENT_SOURCE_MODULE = 'customer_payments'
+
+/**
+ * CustomerPayment Model
+ * Represents money received from a customer and deposited to a bank account.
+ * The payment debits the ledger account of the bank account and credits
+ * accounts receivable for the customer, settling the open receivable lines it
+ * is matched against. An overpayment stays on accounts receivable as customer
+ * credit; cash from an unknown customer goes to the unapplied cash account.
+ * Unmatching a payment reverses its entry and releases the lines.
+ */
+export class CustomerPayment extends BaseModel {
+  static override get tableName(): string {
+    return 'customer_payments'
+  }
+
+  // Properties
+  declare id: string
+  declare tenantId: string
+  declare createdBy: string
+  declare contactId?: string | null
+  declare bankAccountId: string
+  declare status: CustomerPaymentStatus
+  declare paymentDate: Date
+  declare paymentMethod?: string | null
+  declare reference?: string | null
+  declare memo?: string | null
+  declare amount: number
+  declare appliedAmount: number
+  declare creditAmount: number
+  declare unappliedAmount: number
+  declare depositAccountId: string
+  declare receivableAccountId?: string | null
+  declare unappliedAccountId?: string | null
+  declare journalEntryId?: string | null
+  declare reversalJournalEntryId?: string | null
+  declare unmatchedAt?: Date | null
+  declare unmatchedBy?: string | null
+  declare unmatchReason?: string | null
+  declare createdAt: Date
+  declare updatedAt: Date
+  declare deletedAt?: Date | null
+
+  // Relations
+  contact?: Contact
+  bankAccount?: Account
+  depositAccount?: ChartOfAccount
+  allocations?: CustomerPaymentAllocation[]
+  journalEntry?: JournalEntry
+
+  // JSON Schema
+  static override get jsonSchema() {
+    return {
+      type: 'object',
+      required: [
+        'tenantId',
+        'createdBy',
+        'bankAccountId',
+        'paymentDate',
+        'amount',
+        'depositAccountId',
+      ],
+      properties: {
+        id: { type: 'string', format: 'uuid' },
+        tenantId: { type: 'string', format: 'uuid' },
+        createdBy: { type: 'string', format: 'uuid' },
+        contactId: { type: ['string', 'null'], format: 'uuid' },
+        bankAccountId: { type: 'string', format: 'uuid' },
+        status: {
+          type: 'string',
+          enum: ['applied', 'partially_applied', 'unapplied', 'unmatched'],
+          default: 'applied',
+        },
+        paymentDate: { type: 'string', format: 'date-time' },
+        paymentMethod: { type: ['string', 'null'], maxLength: 50 },
+        reference: { type: ['string', 'null'], maxLength: 255 },
+        memo: { type: ['string', 'null'] },
+        amount: { type: 'number', exclusiveMinimum: 0 },
+        appliedAmount: { type: 'number', minimum: 0, default: 0 },
+        creditAmount: { type: 'number', minimum: 0, default: 0 },
+        unappliedAmount: { type: 'number', minimum: 0, default: 0 },
+        depositAccountId: { type: 'string', format: 'uuid' },
+        receivableAccountId: { type: ['string', 'null'], format: 'uuid' },
+        unappliedAccountId: { type: ['string', 'null'], format: 'uuid' },
+        journalEntryId: { type: ['string', 'null'], format: 'uuid' },
+        reversalJournalEntryId: { type: ['string', 'null'], format: 'uuid' },
+        unmatchedAt: { type: ['string', 'null'], format: 'date-time' },
+        unmatchedBy: { type: ['string', 'null'], format: 'uuid' },
+        unmatchReason: { type: ['string', 'null'] },
+        createdAt: { type: 'string', format: 'date-time' },
+        updatedAt: { type: 'string', format: 'date-time' },
+        deletedAt: { type: ['string', 'null'], format: 'date-time' },
+      },
+    }
+  }
+
+  // Relation mappings
+  static override get relationMappings() {
+    return {
+      contact: {
+        relation: BaseModel.BelongsToOneRelation,
+        modelClass: Contact,
+        join: {
+          from: 'customer_payments.contact_id',
+          to: 'contacts.id',
+        },
+      },
+      bankAccount: {
+        relation: BaseModel.BelongsToOneRelation,
+        modelClass: Account,
+        join: {
+          from: 'customer_payments.bank_account_id',
+          to: 'accounts.id',
+        },
+      },
+      depositAccount: {
+        relation: BaseModel.BelongsToOneRelation,
+        modelClass: ChartOfAccount,
+        join: {
+          from: 'customer_payments.deposit_account_id',
+          to: 'chart_of_accounts.id',
+        },
+      },
+      allocations: {
+        relation: BaseModel.HasManyRelation,
+        modelClass: CustomerPaymentAllocation,
+        join: {
+          from: 'customer_payments.id',
+          to: 'customer_payment_allocations.payment_id',
+        },
+        filter: (query: QueryBuilder<CustomerPaymentAllocation>) => {
+          query.modify('notDeleted').orderBy('created_at', 'asc')
+        },
+      },
+      journalEntry: {
+        relation: BaseModel.BelongsToOneRelation,
+        modelClass: JournalEntry,
+        join: {
+          from: 'customer_payments.journal_entry_id',
+          to: 'journal_entries.id',
+        },
+      },
+    }
+  }
+
+  // Query modifiers
+  static override get modifiers() {
+    return {
+      ...super.modifiers,
+      byTenant(query: QueryBuilder<CustomerPayment>, tenantId: string) {
+        query.where('tenant_id', tenantId)
+      },
+      byContact(query: QueryBuilder<CustomerPayment>, contactId: string) {
+        query.where('contact_id', contactId)
+      },
+      byBankAccount(
+        query: QueryBuilder<CustomerPayment>,
+        bankAccountId: string
+      ) {
+        query.where('bank_account_id', bankAccountId)
+      },
+      byStatus(
+        query: QueryBuilder<CustomerPayment>,
+        status: CustomerPaymentStatus
+      ) {
+        query.where('status', status)
+      },
+      withAllocations(query: QueryBuilder<CustomerPayment>) {
+        query.withGraphFetched(
+          '[contact, bankAccount, allocations.[journalEntryLine, invoice]]'
+        )
+      },
+    }
+  }
+
+  // Helper methods
+  /**
+   * Check if the payment was unmatched
+   */
+  isUnmatched(): boolean {
+    return this.status === CustomerPaymentStatus.UNMATCHED
+  }
+}
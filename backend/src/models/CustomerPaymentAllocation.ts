@@ -0,0 +1,100 @@
+import type { QueryBuilder } from 'objection'
+
+import { BaseModel } from '@models/BaseModel'
+import { Invoice } from '@models/Invoice'
+import { JournalEntryLine } from '@models/JournalEntryLine'
+
+/**
+ * CustomerPaymentAllocation Model
+ * Part of a customer payment applied to an open accounts receivable journal
+ * line. The open amount of a receivable line is its debit less the
+ * allocations of payments that were not unmatched.
+ */
+export class CustomerPaymentAllocation extends BaseModel {
+  static override get tableName(): string {
+    return 'customer_payment_allocations'
+  }
+
+  // Properties
+  declare id: string
+  declare tenantId: string
+  declare createdBy: string
+  declare paymentId: string
+  declare journalEntryLineId: string
+  declare invoiceId?: string | null
+  declare amount: number
+  declare createdAt: Date
+  declare updatedAt: Date
+  declare deletedAt?: Date | null
+
+  // Relations
+  journalEntryLine?: JournalEntryLine
+  invoice?: Invoice
+
+  // JSON Schema
+  static override get jsonSchema() {
+    return {
+      type: 'object',
+      required: [
+        'tenantId',
+        'createdBy',
+        'paymentId',
+        'journalEntryLineId',
+        'amount',
+      ],
+      properties: {
+        id: { type: 'string', format: 'uuid' },
+        tenantId: { type: 'string', format: 'uuid' },
+        createdBy: { type: 'string', format: 'uuid' },
+        paymentId: { type: 'string', format: 'uuid' },
+        journalEntryLineId: { type: 'string', format: 'uuid' },
+        invoiceId: { type: ['string', 'null'], format: 'uuid' },
+        amount: { type: 'number', exclusiveMinimum: 0 },
+        createdAt: { type: 'string', format: 'date-time' },
+        updatedAt: { type: 'string', format: 'date-time' },
+        deletedAt: { type: ['string', 'null'], format: 'date-time' },
+      },
+    }
+  }
+
+  // Relation mappings
+  static override get relationMappings() {
+    return {
+      journalEntryLine: {
+        relation: BaseModel.BelongsToOneRelation,
+        modelClass: JournalEntryLine,
+        join: {
+          from: 'customer_payment_allocations.journal_entry_line_id',
+          to: 'journal_entry_lines.id',
+        },
+      },
+      invoice: {
+        relation: BaseModel.BelongsToOneRelation,
+        modelClass: Invoice,
+        join: {
+          from: 'customer_payment_allocations.invoice_id',
+          to: 'invoices.id',
+        },
+      },
+    }
+  }
+
+  // Query modifiers
+  static override get modifiers() {
+    return {
+      ...super.modifiers,
+      byTenant(
+        query: QueryBuilder<CustomerPaymentAllocation>,
+        tenantId: string
+      ) {
+        query.where('tenant_id', tenantId)
+      },
+      byPayment(
+        query: QueryBuilder<CustomerPaymentAllocation>,
+        paymentId: string
+      ) {
+        query.where('payment_id', paymentId)
+      },
+    }
+  }
+}
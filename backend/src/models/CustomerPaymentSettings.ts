@@ -0,0 +1,67 @@
+import type { QueryBuilder } from 'objection'
+
+import { BaseModel } from '@models/BaseModel'
+import { ChartOfAccount } from '@models/ChartOfAccount'
+
+/**
+ * CustomerPaymentSettings Model
+ * Ledger accounts used by the customer payments of a tenant
+ * One row per tenant, created with the defaults the first time it is read.
+ * Payments credit the accounts receivable account of the invoice settings.
+ */
+export class CustomerPaymentSettings extends BaseModel {
+  static override get tableName(): string {
+    return 'customer_payment_settings'
+  }
+
+  // Properties
+  declare id: string
+  declare tenantId: string
+  declare unappliedAccountId?: string | null
+  declare createdAt: Date
+  declare updatedAt: Date
+  declare deletedAt?: Date | null
+
+  // Relations
+  unappliedAccount?: ChartOfAccount
+
+  // JSON Schema
+  static override get jsonSchema() {
+    return {
+      type: 'object',
+      required: ['tenantId'],
+      properties: {
+        id: { type: 'string', format: 'uuid' },
+        tenantId: { type: 'string', format: 'uuid' },
+        unappliedAccountId: { type: ['string', 'null'], format: 'uuid' },
+        createdAt: { type: 'string', format: 'date-time' },
+        updatedAt: { type: 'string', format: 'date-time' },
+        deletedAt: { type: ['string', 'null'], format: 'date-time' },
+      },
+    }
+  }
+
+  // Relation mappings
+  static override get relationMappings() {
+    return {
+      unappliedAccount: {
+        relation: BaseModel.BelongsToOneRelation,
+        modelClass: ChartOfAccount,
+        join: {
+          from: 'customer_payment_settings.unapplied_account_id',
+          to: 'chart_of_accounts.id',
+        },
+      },
+    }
+  }
+
+  // Query modifiers
+  static override get modifiers() {
+    return {
+      ...super.modifiers,
+      byTenant(query: QueryBuilder<CustomerPaymentSettings>, tenantId: string) {
+        query.where('tenant_id', tenantId)
+      },
+    }
+  }
+}
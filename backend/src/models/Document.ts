@@ -0,0 +1,162 @@
+import type { QueryBuilder } from 'objection'
+
+import { BaseModel } from '@models/BaseModel'
+import { DocumentAttachment } from '@models/DocumentAttachment'
+
+/**
+ * Document Category Enum
+ * Categories a document is filed under
+ */
+export enum DocumentCategory {
+  INVOICE = 'invoice',
+  RECEIPT = 'receipt',
+  REPORT = 'report',
+  CONTRACT = 'contract',
+  TAX_DOCUMENT = 'tax_document',
+  OTHER = 'other',
+}
+
+/**
+ * Document Scan Status Enum
+ * NOT_SCANNED documents were stored while no virus scanner was registered;
+ * CLEAN documents passed every scanner. Infected files are never stored.
+ */
+export enum DocumentScanStatus {
+  NOT_SCANNED = 'not_scanned',
+  CLEAN = 'clean',
+}
+
+/**
+ * Document Storage Driver Enum
+ * Driver a document was written with; files are read back with the same one
+ */
+export enum DocumentStorageDriver {
+  LOCAL = 'local',
+  S3 = 's3',
+}
+
+/**
+ * Document Model
+ * Represents an uploaded file. The content lives in the storage driver under
+ * storageKey; the row holds its metadata, category, tags and scan result.
+ * Documents count towards the storage quota of the tenant until deleted and
+ * can be attached to journal entries, invoices, bills and tax exemption
+ * certificates.
+ */
+export class Document extends BaseModel {
+  static override get tableName(): string {
+    return 'documents'
+  }
+
+  // Properties
+  declare id: string
+  declare tenantId: string
+  declare uploadedBy: string
+  declare name: string
+  declare mimeType: string
+  declare sizeBytes: number
+  declare checksum: string
+  declare storageDriver: DocumentStorageDriver
+  declare storageKey: string
+  declare category: DocumentCategory
+  declare tags: string[]
+  declare description?: string | null
+  declare scanStatus: DocumentScanStatus
+  declare scannedBy?: string | null
+  declare scannedAt?: Date | null
+  declare createdAt: Date
+  declare updatedAt: Date
+  declare deletedAt?: Date | null
+
+  // Relations
+  attachments?: DocumentAttachment[]
+
+  // JSON Schema
+  static override get jsonSchema() {
+    return {
+      type: 'object',
+      required: [
+        'tenantId',
+        'uploadedBy',
+        'name',
+        'mimeType',
+        'sizeBytes',
+        'checksum',
+        'storageDriver',
+        'storageKey',
+      ],
+      properties: {
+        id: { type: 'string', format: 'uuid' },
+        tenantId: { type: 'string', format: 'uuid' },
+        uploadedBy: { type: 'string', format: 'uuid' },
+        name: { type: 'string', minLength: 1, maxLength: 255 },
+        mimeType: { type: 'string', minLength: 1, maxLength: 100 },
+        sizeBytes: { type: 'integer', minimum: 0 },
+        checksum: { type: 'string', maxLength: 64 },
+        storageDriver: { type: 'string', enum: ['local', 's3'] },
+        storageKey: { type: 'string', minLength: 1, maxLength: 500 },
+        category: {
+          type: 'string',
+          enum: [
+            'invoice',
+            'receipt',
+            'report',
+            'contract',
+            'tax_document',
+            'other',
+          ],
+          default: 'other',
+        },
+        tags: {
+          type: 'array',
+          items: { type: 'string' },
+          default: [],
+        },
+        description: { type: ['string', 'null'] },
+        scanStatus: {
+          type: 'string',
+          enum: ['not_scanned', 'clean'],
+          default: 'not_scanned',
+        },
+        scannedBy: { type: ['string', 'null'], maxLength: 100 },
+        scannedAt: { type: ['string', 'null'], format: 'date-time' },
+        createdAt: { type: 'string', format: 'date-time' },
+        updatedAt: { type: 'string', format: 'date-time' },
+        deletedAt: { type: ['string', 'null'], format: 'date-time' },
+      },
+    }
+  }
+
+  // Relation mappings
+  static override get relationMappings() {
+    return {
+      attachments: {
+        relation: BaseModel.HasManyRelation,
+        modelClass: DocumentAttachment,
+        join: {
+          from: 'documents.id',
+          to: 'document_attachments.document_id',
+        },
+        filter: (query: QueryBuilder<DocumentAttachment>) => {
+          query.modify('notDeleted').orderBy('created_at', 'asc')
+        },
+      },
+    }
+  }
+
+  // Query modifiers
+  static override get modifiers() {
+    return {
+      ...super.modifiers,
+      byTenant(query: QueryBuilder<Document>, tenantId: string) {
+        query.where('tenant_id', tenantId)
+      },
+      byCategory(query: QueryBuilder<Document>, category: DocumentCategory) {
+        query.where('category', category)
+      },
+      byTag(query: QueryBuilder<Document>, tag: string) {
+        query.whereRaw('tags @> ?::jsonb', [JSON.stringify([tag])])
+      },
+    }
+  }
+}
@@ -0,0 +1,82 @@
+import type { QueryBuilder } from 'objection'
+
+import { BaseModel } from '@models/BaseModel'
+
+/**
+ * Document Attachment Entity Type Enum
+ * Records a document can be attached to
+ */
+export enum DocumentAttachmentEntityType {
+  JOURNAL_ENTRY = 'journal_entry',
+  INVOICE = 'invoice',
+  BILL = 'bill',
+  TAX_EXEMPTION = 'tax_exemption',
+}
+
+/**
+ * DocumentAttachment Model
+ * Links a document to a journal entry, invoice, bill or tax exemption
+ * certificate. A document can be attached to several records, and a record
+ * can have several documents.
+ */
+export class DocumentAttachment extends BaseModel {
+  static override get tableName(): string {
+    return 'document_attachments'
+  }
+
+  // Properties
+  declare id: string
+  declare tenantId: string
+  declare createdBy: string
+  declare documentId: string
+  declare entityType: DocumentAttachmentEntityType
+  declare entityId: string
+  declare createdAt: Date
+  declare updatedAt: Date
+  declare deletedAt?: Date | null
+
+  // JSON Schema
+  static override get jsonSchema() {
+    return {
+      type: 'object',
+      required: [
+        'tenantId',
+        'createdBy',
+        'documentId',
+        'entityType',
+        'entityId',
+      ],
+      properties: {
+        id: { type: 'string', format: 'uuid' },
+        tenantId: { type: 'string', format: 'uuid' },
+        createdBy: { type: 'string', format: 'uuid' },
+        documentId: { type: 'string', format: 'uuid' },
+        entityType: {
+          type: 'string',
+          enum: ['journal_entry', 'invoice', 'bill', 'tax_exemption'],
+        },
+        entityId: { type: 'string', format: 'uuid' },
+        createdAt: { type: 'string', format: 'date-time' },
+        updatedAt: { type: 'string', format: 'date-time' },
+        deletedAt: { type: ['string', 'null'], format: 'date-time' },
+      },
+    }
+  }
+
+  // Query modifiers
+  static override get modifiers() {
+    return {
+      ...super.modifiers,
+      byTenant(query: QueryBuilder<DocumentAttachment>, tenantId: string) {
+        query.where('tenant_id', tenantId)
+      },
+      byEntity(
+        query: QueryBuilder<DocumentAttachment>,
+        entityType: DocumentAttachmentEntityType,
+        entityId: string
+      ) {
+        query.where('entity_type', entityType).where('entity_id', entityId)
+      },
+    }
+  }
+}
@@ -0,0 +1,49 @@
+import type { QueryBuilder } from 'objection'
+
+import { BaseModel } from '@models/BaseModel'
+
+/**
+ * DocumentSettings Model
+ * Document storage settings of a tenant
+ * One row per tenant, created with the defaults the first time it is read.
+ * A null quota falls back to DOCUMENT_TENANT_QUOTA_MB.
+ */
+export class DocumentSettings extends BaseModel {
+  static override get tableName(): string {
+    return 'document_settings'
+  }
+
+  // Properties
+  declare id: string
+  declare tenantId: string
+  declare quotaBytes?: number | null
+  declare createdAt: Date
+  declare updatedAt: Date
+  declare deletedAt?: Date | null
+
+  // JSON Schema
+  static override get jsonSchema() {
+    return {
+      type: 'object',
+      required: ['tenantId'],
+      properties: {
+        id: { type: 'string', format: 'uuid' },
+        tenantId: { type: 'string', format: 'uuid' },
+        quotaBytes: { type: ['integer', 'null'], minimum: 1 },
+        createdAt: { type: 'string', format: 'date-time' },
+        updatedAt: { type: 'string', format: 'date-time' },
+        deletedAt: { type: ['string', 'null'], format: 'date-time' },
+      },
+    }
+  }
+
+  // Query modifiers
+  static override get modifiers() {
+    return {
+      ...super.modifiers,
+      byTenant(query: QueryBuilder<DocumentSettings>, tenantId: string) {
+        query.where('tenant_id', tenantId)
+      },
+    }
+  }
+}
@@ -0,0 +1,77 @@
+import type { QueryBuilder } from 'objection'
+
+import { BaseModel } from '@models/BaseModel'
+
+export enum ExchangeRateSource {
+  MANUAL = 'manual',
+  IMPORT = 'import',
+}
+
+/**
+ * Source module recorded on journal entries generated by an FX revaluation
+ */
+export const FX_REVALUATION_SOURCE_MODULE = 'fx_revaluation'
+
+/**
+ * ExchangeRate Model
+ * Represents the rate of a foreign currency against the tenant base currency
+ * A rate applies from its date until the next rate of the same currency
+ */
+export class ExchangeRate extends BaseModel {
+  static override get tableName(): string {
+    return 'exchange_rates'
+  }
+
+  // Properties
+  declare id: string
+  declare tenantId: string
+  declare createdBy: string
+  declare currencyCode: string
+  declare rateDate: Date
+  declare rate: number
+  declare source: ExchangeRateSource
+  declare createdAt: Date
+  declare updatedAt: Date
+  declare deletedAt?: Date | null
+
+  // JSON Schema
+  static override get jsonSchema() {
+    return {
+      type: 'object',
+      required: ['tenantId', 'createdBy', 'currencyCode', 'rateDate', 'rate'],
+      properties: {
+        id: { type: 'string', format: 'uuid' },
+        tenantId: { type: 'string', format: 'uuid' },
+        createdBy: { type: 'string', format: 'uuid' },
+        currencyCode: { type: 'string', minLength: 3, maxLength: 3 },
+        rateDate: { type: 'string', format: 'date-time' },
+        rate: { type: 'number', exclusiveMinimum: 0 },
+        source: {
+          type: 'string',
+          enum: ['manual', 'import'],
+          default: 'manual',
+        },
+        createdAt: { type: 'string', format: 'date-time' },
+        updatedAt: { type: 'string', format: 'date-time' },
+        deletedAt: { type: ['string', 'null'], format: 'date-time' },
+      },
+    }
+  }
+
+  // Query modifiers
+  static override get modifiers() {
+    return {
+      ...super.modifiers,
+      byTenant(query: QueryBuilder<ExchangeRate>, tenantId: string) {
+        query.where('tenant_id', tenantId)
+      },
+      byCurrency(query: QueryBuilder<ExchangeRate>, currencyCode: string) {
+        query.where('currency_code', currencyCode)
+      },
+      // Latest rate on or before a date
+      effectiveOn(query: QueryBuilder<ExchangeRate>, date: Date) {
+        query.where('rate_date', '<=', date).orderBy('rate_date', 'desc')
+      },
+    }
+  }
+}
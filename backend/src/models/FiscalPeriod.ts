@@ -0,0 +1,102 @@
+import type { QueryBuilder } from 'objection'
+
+import { BaseModel } from '@models/BaseModel'
+
+export enum FiscalPeriodStatus {
+  OPEN = 'open',
+  SOFT_CLOSED = 'soft_closed',
+  HARD_CLOSED = 'hard_closed',
+}
+
+/**
+ * FiscalPeriod Model
+ * Represents a month or quarter of a fiscal year
+ * Closed periods lock their dates against posting, voiding, reversing and editing
+ * Soft-closed periods can be reopened by anyone allowed to manage periods;
+ * hard-closed periods only by an administrator
+ */
+export class FiscalPeriod extends BaseModel {
+  static override get tableName(): string {
+    return 'fiscal_periods'
+  }
+
+  // Properties
+  declare id: string
+  declare tenantId: string
+  declare fiscalYearId: string
+  declare periodNumber: number
+  declare name: string
+  declare startDate: Date
+  declare endDate: Date
+  declare status: FiscalPeriodStatus
+  declare closedBy?: string | null
+  declare closedAt?: Date | null
+  declare createdAt: Date
+  declare updatedAt: Date
+  declare deletedAt?: Date | null
+
+  // JSON Schema
+  static override get jsonSchema() {
+    return {
+      type: 'object',
+      required: [
+        'tenantId',
+        'fiscalYearId',
+        'periodNumber',
+        'name',
+        'startDate',
+        'endDate',
+      ],
+      properties: {
+        id: { type: 'string', format: 'uuid' },
+        tenantId: { type: 'string', format: 'uuid' },
+        fiscalYearId: { type: 'string', format: 'uuid' },
+        periodNumber: { type: 'integer', minimum: 1 },
+        name: { type: 'string', minLength: 1, maxLength: 100 },
+        startDate: { type: 'string', format: 'date-time' },
+        endDate: { type: 'string', format: 'date-time' },
+        status: {
+          type: 'string',
+          enum: ['open', 'soft_closed', 'hard_closed'],
+          default: 'open',
+        },
+        closedBy: { type: ['string', 'null'], format: 'uuid' },
+        closedAt: { type: ['string', 'null'], format: 'date-time' },
+        createdAt: { type: 'string', format: 'date-time' },
+        updatedAt: { type: 'string', format: 'date-time' },
+        deletedAt: { type: ['string', 'null'], format: 'date-time' },
+      },
+    }
+  }
+
+  // Query modifiers
+  static override get modifiers() {
+    return {
+      ...super.modifiers,
+      byTenant(query: QueryBuilder<FiscalPeriod>, tenantId: string) {
+        query.where('tenant_id', tenantId)
+      },
+      closed(query: QueryBuilder<FiscalPeriod>) {
+        query.whereNot('status', FiscalPeriodStatus.OPEN)
+      },
+      containingDate(query: QueryBuilder<FiscalPeriod>, date: Date) {
+        query.where('start_date', '<=', date).where('end_date', '>=', date)
+      },
+    }
+  }
+
+  // Helper methods
+  /**
+   * Check if the period is open for changes
+   */
+  isOpen(): boolean {
+    return this.status === FiscalPeriodStatus.OPEN
+  }
+
+  /**
+   * Check if the period is hard-closed
+   */
+  isHardClosed(): boolean {
+    return this.status === FiscalPeriodStatus.HARD_CLOSED
+  }
+}
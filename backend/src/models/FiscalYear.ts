@@ -0,0 +1,149 @@
+import type { QueryBuilder } from 'objection'
+
+import { BaseModel } from '@models/BaseModel'
+import { FiscalPeriod } from '@models/FiscalPeriod'
+import {
+  JournalEntry,
+  JournalEntryStatus,
+  JournalEntryType,
+} from '@models/JournalEntry'
+import { splitUTCDateRangeByMonths } from '@utils/date'
+
+export enum FiscalPeriodType {
+  MONTHLY = 'monthly',
+  QUARTERLY = 'quarterly',
+}
+
+/**
+ * Source module recorded on journal entries generated by a year-end close
+ */
+export const FISCAL_YEAR_SOURCE_MODULE = 'fiscal_years'
+
+/**
+ * FiscalYear Model
+ * Represents a tenant's fiscal year, split into monthly or quarterly periods
+ */
+export class FiscalYear extends BaseModel {
+  static override get tableName(): string {
+    return 'fiscal_years'
+  }
+
+  // Properties
+  declare id: string
+  declare tenantId: string
+  declare createdBy: string
+  declare name: string
+  declare startDate: Date
+  declare endDate: Date
+  declare periodType: FiscalPeriodType
+  declare createdAt: Date
+  declare updatedAt: Date
+  declare deletedAt?: Date | null
+
+  // Relations
+  periods?: FiscalPeriod[]
+  closingEntry?: JournalEntry | null
+
+  // JSON Schema
+  static override get jsonSchema() {
+    return {
+      type: 'object',
+      required: ['tenantId', 'createdBy', 'name', 'startDate', 'endDate'],
+      properties: {
+        id: { type: 'string', format: 'uuid' },
+        tenantId: { type: 'string', format: 'uuid' },
+        createdBy: { type: 'string', format: 'uuid' },
+        name: { type: 'string', minLength: 1, maxLength: 100 },
+        startDate: { type: 'string', format: 'date-time' },
+        endDate: { type: 'string', format: 'date-time' },
+        periodType: {
+          type: 'string',
+          enum: ['monthly', 'quarterly'],
+          default: 'monthly',
+        },
+        createdAt: { type: 'string', format: 'date-time' },
+        updatedAt: { type: 'string', format: 'date-time' },
+        deletedAt: { type: ['string', 'null'], format: 'date-time' },
+      },
+    }
+  }
+
+  // Relation mappings
+  static override get relationMappings() {
+    return {
+      periods: {
+        relation: BaseModel.HasManyRelation,
+        modelClass: FiscalPeriod,
+        join: {
+          from: 'fiscal_years.id',
+          to: 'fiscal_periods.fiscal_year_id',
+        },
+        filter: (query: QueryBuilder<FiscalPeriod>) => {
+          query.modify('notDeleted').orderBy('period_number', 'asc')
+        },
+      },
+      // Posted closing entry that has not been reversed
+      closingEntry: {
+        relation: BaseModel.HasOneRelation,
+        modelClass: JournalEntry,
+        join: {
+          from: 'fiscal_years.id',
+          to: 'journal_entries.source_id',
+        },
+        filter: (query: QueryBuilder<JournalEntry>) => {
+          query
+            .modify('notDeleted')
+            .where('source_module', FISCAL_YEAR_SOURCE_MODULE)
+            .where('entry_type', JournalEntryType.CLOSING)
+            .where('status', JournalEntryStatus.POSTED)
+            .whereNull('reversal_date')
+        },
+      },
+    }
+  }
+
+  // Query modifiers
+  static override get modifiers() {
+    return {
+      ...super.modifiers,
+      byTenant(query: QueryBuilder<FiscalYear>, tenantId: string) {
+        query.where('tenant_id', tenantId)
+      },
+      containingDate(query: QueryBuilder<FiscalYear>, date: Date) {
+        query.where('start_date', '<=', date).where('end_date', '>=', date)
+      },
+      withPeriods(query: QueryBuilder<FiscalYear>) {
+        query.withGraphFetched('periods')
+      },
+      withClosingEntry(query: QueryBuilder<FiscalYear>) {
+        query.withGraphFetched('closingEntry')
+      },
+    }
+  }
+
+  /**
+   * Number of months in each period of this fiscal year
+   */
+  getMonthsPerPeriod(): number {
+    return this.periodType === FiscalPeriodType.QUARTERLY ? 3 : 1
+  }
+
+  /**
+   * Months of this fiscal year, from its start date (used by budgets)
+   */
+  getMonths(): Array<{ startDate: Date; endDate: Date }> {
+    return splitUTCDateRangeByMonths(
+      new Date(this.startDate),
+      new Date(this.endDate),
+      1
+    )
+  }
+
+  /**
+   * Check if the fiscal year has been closed into retained earnings
+   * Requires the closingEntry relation to be loaded
+   */
+  isClosed(): boolean {
+    return !!this.closingEntry
+  }
+}
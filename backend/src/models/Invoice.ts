@@ -0,0 +1,242 @@
+import type { QueryBuilder } from 'objection'
+
+import { BaseModel } from '@models/BaseModel'
+import { ChartOfAccount } from '@models/ChartOfAccount'
+import { Contact } from '@models/Contact'
+import { InvoiceLine } from '@models/InvoiceLine'
+import { JournalEntry } from '@models/JournalEntry'
+
+/**
+ * Invoice Status Enum
+ * OVERDUE is never stored: sent and partially paid invoices past their due
+ * date are reported as overdue
+ */
+export enum InvoiceStatus {
+  DRAFT = 'draft',
+  SENT = 'sent',
+  PARTIALLY_PAID = 'partially_paid',
+  PAID = 'paid',
+  OVERDUE = 'overdue',
+  VOID = 'void',
+}
+
+/**
+ * Statuses of invoices that are posted and still have a balance due
+ */
+export const OPEN_INVOICE_STATUSES = [
+  InvoiceStatus.SENT,
+  InvoiceStatus.PARTIALLY_PAID,
+]
+
+/**
+ * Source module recorded on journal entries posted for an invoice
+ */
+export const INVOICE_SOURCE_MODULE = 'invoices'
+
+/**
+ * Invoice Model
+ * Represents an invoice to a customer. Drafts can be edited freely; sending an
+ * invoice posts its journal entry (debit receivable, credit revenue and tax)
+ * and voiding it reverses that entry.
+ */
+export class Invoice extends BaseModel {
+  static override get tableName(): string {
+    return 'invoices'
+  }
+
+  // Properties
+  declare id: string
+  declare tenantId: string
+  declare createdBy: string
+  declare invoiceNumber: string
+  declare contactId: string
+  declare status: InvoiceStatus
+  declare issueDate: Date
+  declare dueDate: Date
+  declare reference?: string | null
+  declare memo?: string | null
+  declare notes?: string | null
+  declare subtotal: number
+  declare taxAmount: number
+  declare total: number
+  declare amountPaid: number
+  declare receivableAccountId?: string | null
+  declare journalEntryId?: string | null
+  declare voidJournalEntryId?: string | null
+  declare sentAt?: Date | null
+  declare sentBy?: string | null
+  declare voidedAt?: Date | null
+  declare voidedBy?: string | null
+  declare voidReason?: string | null
+  declare createdAt: Date
+  declare updatedAt: Date
+  declare deletedAt?: Date | null
+
+  // Relations
+  contact?: Contact
+  lines?: InvoiceLine[]
+  receivableAccount?: ChartOfAccount
+  journalEntry?: JournalEntry
+
+  // JSON Schema
+  static override get jsonSchema() {
+    return {
+      type: 'object',
+      required: [
+        'tenantId',
+        'createdBy',
+        'invoiceNumber',
+        'contactId',
+        'issueDate',
+        'dueDate',
+      ],
+      properties: {
+        id: { type: 'string', format: 'uuid' },
+        tenantId: { type: 'string', format: 'uuid' },
+        createdBy: { type: 'string', format: 'uuid' },
+        invoiceNumber: { type: 'string', minLength: 1, maxLength: 50 },
+        contactId: { type: 'string', format: 'uuid' },
+        status: {
+          type: 'string',
+          enum: ['draft', 'sent', 'partially_paid', 'paid', 'void'],
+          default: 'draft',
+        },
+        issueDate: { type: 'string', format: 'date-time' },
+        dueDate: { type: 'string', format: 'date-time' },
+        reference: { type: ['string', 'null'], maxLength: 255 },
+        memo: { type: ['string', 'null'] },
+        notes: { type: ['string', 'null'] },
+        subtotal: { type: 'number', default: 0 },
+        taxAmount: { type: 'number', minimum: 0, default: 0 },
+        total: { type: 'number', default: 0 },
+        amountPaid: { type: 'number', minimum: 0, default: 0 },
+        receivableAccountId: { type: ['string', 'null'], format: 'uuid' },
+        journalEntryId: { type: ['string', 'null'], format: 'uuid' },
+        voidJournalEntryId: { type: ['string', 'null'], format: 'uuid' },
+        sentAt: { type: ['string', 'null'], format: 'date-time' },
+        sentBy: { type: ['string', 'null'], format: 'uuid' },
+        voidedAt: { type: ['string', 'null'], format: 'date-time' },
+        voidedBy: { type: ['string', 'null'], format: 'uuid' },
+        voidReason: { type: ['string', 'null'] },
+        createdAt: { type: 'string', format: 'date-time' },
+        updatedAt: { type: 'string', format: 'date-time' },
+        deletedAt: { type: ['string', 'null'], format: 'date-time' },
+      },
+    }
+  }
+
+  // Relation mappings
+  static override get relationMappings() {
+    return {
+      contact: {
+        relation: BaseModel.BelongsToOneRelation,
+        modelClass: Contact,
+        join: {
+          from: 'invoices.contact_id',
+          to: 'contacts.id',
+        },
+      },
+      lines: {
+        relation: BaseModel.HasManyRelation,
+        modelClass: InvoiceLine,
+        join: {
+          from: 'invoices.id',
+          to: 'invoice_lines.invoice_id',
+        },
+        filter: (query: QueryBuilder<InvoiceLine>) => {
+          query.modify('notDeleted').orderBy('line_number', 'asc')
+        },
+      },
+      receivableAccount: {
+        relation: BaseModel.BelongsToOneRelation,
+        modelClass: ChartOfAccount,
+        join: {
+          from: 'invoices.receivable_account_id',
+          to: 'chart_of_accounts.id',
+        },
+      },
+      journalEntry: {
+        relation: BaseModel.BelongsToOneRelation,
+        modelClass: JournalEntry,
+        join: {
+          from: 'invoices.journal_entry_id',
+          to: 'journal_entries.id',
+        },
+      },
+    }
+  }
+
+  // Query modifiers
+  static override get modifiers() {
+    return {
+      ...super.modifiers,
+      byTenant(query: QueryBuilder<Invoice>, tenantId: string) {
+        query.where('tenant_id', tenantId)
+      },
+      byContact(query: QueryBuilder<Invoice>, contactId: string) {
+        query.where('contact_id', contactId)
+      },
+      /**
+       * Invoices in a status as of a date; overdue and the open statuses are
+       * told apart by the due date
+       */
+      byStatus(
+        query: QueryBuilder<Invoice>,
+        status: InvoiceStatus,
+        asOf: Date
+      ) {
+        if (status === InvoiceStatus.OVERDUE) {
+          query
+            .whereIn('status', OPEN_INVOICE_STATUSES)
+            .where('due_date', '<', asOf)
+        } else if (OPEN_INVOICE_STATUSES.includes(status)) {
+          query.where('status', status).where('due_date', '>=', asOf)
+        } else {
+          query.where('status', status)
+        }
+      },
+      withLines(query: QueryBuilder<Invoice>) {
+        query.withGraphFetched('[contact, lines.[account, taxGroup]]')
+      },
+    }
+  }
+
+  // Helper methods
+  /**
+   * Check if the invoice is a draft
+   */
+  isDraft(): boolean {
+    return this.status === InvoiceStatus.DRAFT
+  }
+
+  /**
+   * Check if the invoice is void
+   */
+  isVoid(): boolean {
+    return this.status === InvoiceStatus.VOID
+  }
+
+  /**
+   * Get the amount still to be paid
+   */
+  getBalanceDue(): number {
+    if (this.isDraft() || this.isVoid()) {
+      return 0
+    }
+    return Number(this.total) - Number(this.amountPaid)
+  }
+
+  /**
+   * Get the status as of a date, reporting open invoices past their due date
+   * as overdue
+   */
+  getEffectiveStatus(asOf: Date): InvoiceStatus {
+    if (
+      OPEN_INVOICE_STATUSES.includes(this.status) &&
+      new Date(this.dueDate) < asOf
+    ) {
+      return InvoiceStatus.OVERDUE
+    }
+    return this.status
+  }
+}
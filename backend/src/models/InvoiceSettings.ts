@@ -0,0 +1,91 @@
+import type { QueryBuilder } from 'objection'
+
+import { BaseModel } from '@models/BaseModel'
+import { ChartOfAccount } from '@models/ChartOfAccount'
+
+/**
+ * InvoiceSettings Model
+ * Numbering and ledger accounts used by the invoices of a tenant
+ * One row per tenant, created with the defaults the first time it is read
+ */
+export class InvoiceSettings extends BaseModel {
+  static override get tableName(): string {
+    return 'invoice_settings'
+  }
+
+  // Properties
+  declare id: string
+  declare tenantId: string
+  declare numberPrefix: string
+  declare nextNumber: number
+  declare numberPadding: number
+  declare receivableAccountId?: string | null
+  declare taxAccountId?: string | null
+  declare createdAt: Date
+  declare updatedAt: Date
+  declare deletedAt?: Date | null
+
+  // Relations
+  receivableAccount?: ChartOfAccount
+  taxAccount?: ChartOfAccount
+
+  // JSON Schema
+  static override get jsonSchema() {
+    return {
+      type: 'object',
+      required: ['tenantId'],
+      properties: {
+        id: { type: 'string', format: 'uuid' },
+        tenantId: { type: 'string', format: 'uuid' },
+        numberPrefix: { type: 'string', maxLength: 20, default: 'INV-' },
+        nextNumber: { type: 'integer', minimum: 1, default: 1 },
+        numberPadding: { type: 'integer', minimum: 1, maximum: 10, default: 4 },
+        receivableAccountId: { type: ['string', 'null'], format: 'uuid' },
+        taxAccountId: { type: ['string', 'null'], format: 'uuid' },
+        createdAt: { type: 'string', format: 'date-time' },
+        updatedAt: { type: 'string', format: 'date-time' },
+        deletedAt: { type: ['string', 'null'], format: 'date-time' },
+      },
+    }
+  }
+
+  // Relation mappings
+  static override get relationMappings() {
+    return {
+      receivableAccount: {
+        relation: BaseModel.BelongsToOneRelation,
+        modelClass: ChartOfAccount,
+        join: {
+          from: 'invoice_settings.receivable_account_id',
+          to: 'chart_of_accounts.id',
+        },
+      },
+      taxAccount: {
+        relation: BaseModel.BelongsToOneRelation,
+        modelClass: ChartOfAccount,
+        join: {
+          from: 'invoice_settings.tax_account_id',
+          to: 'chart_of_accounts.id',
+        },
+      },
+    }
+  }
+
+  // Query modifiers
+  static override get modifiers() {
+    return {
+      ...super.modifiers,
+      byTenant(query: QueryBuilder<InvoiceSettings>, tenantId: string) {
+        query.where('tenant_id', tenantId)
+      },
+    }
+  }
+
+  // Helper methods
+  /**
+   * Format an invoice number from the prefix and padding
+   */
+  formatNumber(number: number): string {
+    return `${this.numberPrefix}${String(number).padStart(this.numberPadding, '0')}`
+  }
+}
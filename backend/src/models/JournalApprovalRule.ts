@@ -0,0 +1,90 @@
+import type { QueryBuilder } from 'objection'
+
+import { BaseModel } from '@models/BaseModel'
+
+/**
+ * JournalApprovalRule Model
+ * Decides which journal entries need approval before they can be posted.
+ * A rule matches an entry when its total debit reaches minAmount (if set) and
+ * one of its lines uses an account in accountIds (if any are set).
+ */
+export class JournalApprovalRule extends BaseModel {
+  static override get tableName(): string {
+    return 'journal_approval_rules'
+  }
+
+  // Properties
+  declare id: string
+  declare tenantId: string
+  declare name: string
+  declare description?: string | null
+  declare minAmount?: number | null
+  declare accountIds: string[]
+  declare requiredRole: string
+  declare requiredApprovals: number
+  declare stepOrder: number
+  declare isActive: boolean
+  declare createdBy: string
+  declare createdAt: Date
+  declare updatedAt: Date
+  declare deletedAt?: Date | null
+
+  // JSON Schema
+  static override get jsonSchema() {
+    return {
+      type: 'object',
+      required: ['tenantId', 'name', 'requiredRole', 'createdBy'],
+      properties: {
+        id: { type: 'string', format: 'uuid' },
+        tenantId: { type: 'string', format: 'uuid' },
+        name: { type: 'string', minLength: 1, maxLength: 255 },
+        description: { type: ['string', 'null'] },
+        minAmount: { type: ['number', 'null'], minimum: 0 },
+        accountIds: {
+          type: 'array',
+          items: { type: 'string', format: 'uuid' },
+          default: [],
+        },
+        requiredRole: { type: 'string', minLength: 1, maxLength: 50 },
+        requiredApprovals: { type: 'integer', minimum: 1, default: 1 },
+        stepOrder: { type: 'integer', minimum: 1, default: 1 },
+        isActive: { type: 'boolean', default: true },
+        createdBy: { type: 'string', format: 'uuid' },
+        createdAt: { type: 'string', format: 'date-time' },
+        updatedAt: { type: 'string', format: 'date-time' },
+        deletedAt: { type: ['string', 'null'], format: 'date-time' },
+      },
+    }
+  }
+
+  // Query modifiers
+  static override get modifiers() {
+    return {
+      ...super.modifiers,
+      byTenant(query: QueryBuilder<JournalApprovalRule>, tenantId: string) {
+        query.where('tenant_id', tenantId)
+      },
+      active(query: QueryBuilder<JournalApprovalRule>) {
+        query.where('is_active', true)
+      },
+    }
+  }
+
+  // Helper methods
+  /**
+   * Check if the rule applies to an entry with the given total debit and accounts
+   */
+  matches(totalDebit: number, accountIds: string[]): boolean {
+    if (
+      this.minAmount !== null &&
+      this.minAmount !== undefined &&
+      Number(totalDebit) < Number(this.minAmount)
+    ) {
+      return false
+    }
+    if (this.accountIds.length === 0) {
+      return true
+    }
+    return this.accountIds.some((accountId) => accountIds.includes(accountId))
+  }
+}
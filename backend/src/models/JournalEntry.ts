@@ -13,12 +13,28 @@ export enum JournalEntryType {
   REVERSING = 'reversing',
 }
 
+/**
+ * Source module of reversing entries created from another journal entry
+ */
+export const JOURNAL_ENTRY_SOURCE_MODULE = 'journal_entries'
+
 export enum JournalEntryStatus {
   DRAFT = 'draft',
   POSTED = 'posted',
   VOIDED = 'voided',
 }
 
+/**
+ * Approval status of the current submission
+ * NOT_REQUIRED means no approval rule matched when the entry was submitted
+ */
+export enum JournalApprovalStatus {
+  PENDING = 'pending',
+  APPROVED = 'approved',
+  REJECTED = 'rejected',
+  NOT_REQUIRED = 'not_required',
+}
+
 /**
  * JournalEntry Model
  * Represents a journal entry (double-entry bookkeeping)
@@ -40,6 +56,9 @@ export class JournalEntry extends BaseModel {
   declare isClosing: boolean
   declare isReversing: boolean
   declare reversalDate?: Date | null
+  declare reversalAttempts: number
+  declare reversalFailedAt?: Date | null
+  declare reversalError?: string | null
   declare description?: string | null
   declare reference?: string | null
   declare memo?: string | null
@@ -48,6 +67,9 @@ export class JournalEntry extends BaseModel {
   declare sourceId?: string | null
   declare totalDebit: number
   declare totalCredit: number
+  declare approvalStatus?: JournalApprovalStatus | null
+  declare submittedBy?: string | null
+  declare submittedAt?: Date | null
   declare approvedBy?: string | null
   declare approvedAt?: Date | null
   declare postedBy?: string | null
@@ -79,6 +101,9 @@ export class JournalEntry extends BaseModel {
         isClosing: { type: 'boolean', default: false },
         isReversing: { type: 'boolean', default: false },
         reversalDate: { type: ['string', 'null'], format: 'date-time' },
+        reversalAttempts: { type: 'integer', minimum: 0, default: 0 },
+        reversalFailedAt: { type: ['string', 'null'], format: 'date-time' },
+        reversalError: { type: ['string', 'null'] },
         description: { type: ['string', 'null'] },
         reference: { type: ['string', 'null'], maxLength: 255 },
         memo: { type: ['string', 'null'] },
@@ -91,6 +116,12 @@ export class JournalEntry extends BaseModel {
         sourceId: { type: ['string', 'null'], format: 'uuid' },
         totalDebit: { type: 'number', minimum: 0, default: 0 },
         totalCredit: { type: 'number', minimum: 0, default: 0 },
+        approvalStatus: {
+          type: ['string', 'null'],
+          enum: ['pending', 'approved', 'rejected', 'not_required', null],
+        },
+        submittedBy: { type: ['string', 'null'], format: 'uuid' },
+        submittedAt: { type: ['string', 'null'], format: 'date-time' },
         approvedBy: { type: ['string', 'null'], format: 'uuid' },
         approvedAt: { type: ['string', 'null'], format: 'date-time' },
         postedBy: { type: ['string', 'null'], format: 'uuid' },
@@ -149,7 +180,33 @@ export class JournalEntry extends BaseModel {
         query.where('entry_type', entryType)
       },
       withLines(query: QueryBuilder<JournalEntry>) {
-        query.withGraphFetched('lines.account')
+        query.withGraphFetched('lines.[account, contact]')
+      },
+      /**
+       * Posted entries with a reversal date that have not been reversed yet
+       * Reversing entries created by reverseJournalEntry are excluded
+       */
+      pendingReversal(query: QueryBuilder<JournalEntry>) {
+        query
+          .where('journal_entries.status', JournalEntryStatus.POSTED)
+          .whereNotNull('journal_entries.reversal_date')
+          .whereNot((builder) => {
+            builder
+              .where('journal_entries.is_reversing', true)
+              .where(
+                'journal_entries.source_module',
+                JOURNAL_ENTRY_SOURCE_MODULE
+              )
+          })
+          .whereNotExists((builder) => {
+            builder
+              .select(1)
+              .from('journal_entries as reversal')
+              .whereRaw('reversal.source_id = journal_entries.id')
+              .where('reversal.source_module', JOURNAL_ENTRY_SOURCE_MODULE)
+              .where('reversal.is_reversing', true)
+              .whereNull('reversal.deleted_at')
+          })
       },
     }
   }
@@ -176,6 +233,13 @@ export class JournalEntry extends BaseModel {
     return this.status === JournalEntryStatus.VOIDED
   }
 
+  /**
+   * Check if journal entry is waiting for approval
+   */
+  isPendingApproval(): boolean {
+    return this.approvalStatus === JournalApprovalStatus.PENDING
+  }
+
   /**
    * Validate that debits equal credits
    */
@@ -0,0 +1,74 @@
+import type { QueryBuilder } from 'objection'
+
+import { BaseModel } from '@models/BaseModel'
+
+export enum JournalApprovalActionType {
+  SUBMITTED = 'submitted',
+  APPROVED = 'approved',
+  REJECTED = 'rejected',
+}
+
+/**
+ * JournalEntryApprovalAction Model
+ * Represents a submit, approve or reject action taken on a journal entry,
+ * with the optional comment left by the user
+ */
+export class JournalEntryApprovalAction extends BaseModel {
+  static override get tableName(): string {
+    return 'journal_entry_approval_actions'
+  }
+
+  // Properties
+  declare id: string
+  declare tenantId: string
+  declare journalEntryId: string
+  declare stepId?: string | null
+  declare action: JournalApprovalActionType
+  declare userId: string
+  declare comment?: string | null
+  declare createdAt: Date
+  declare updatedAt: Date
+  declare deletedAt?: Date | null
+
+  // JSON Schema
+  static override get jsonSchema() {
+    return {
+      type: 'object',
+      required: ['tenantId', 'journalEntryId', 'action', 'userId'],
+      properties: {
+        id: { type: 'string', format: 'uuid' },
+        tenantId: { type: 'string', format: 'uuid' },
+        journalEntryId: { type: 'string', format: 'uuid' },
+        stepId: { type: ['string', 'null'], format: 'uuid' },
+        action: {
+          type: 'string',
+          enum: ['submitted', 'approved', 'rejected'],
+        },
+        userId: { type: 'string', format: 'uuid' },
+        comment: { type: ['string', 'null'] },
+        createdAt: { type: 'string', format: 'date-time' },
+        updatedAt: { type: 'string', format: 'date-time' },
+        deletedAt: { type: ['string', 'null'], format: 'date-time' },
+      },
+    }
+  }
+
+  // Query modifiers
+  static override get modifiers() {
+    return {
+      ...super.modifiers,
+      byTenant(
+        query: QueryBuilder<JournalEntryApprovalAction>,
+        tenantId: string
+      ) {
+        query.where('tenant_id', tenantId)
+      },
+      byJournalEntry(
+        query: QueryBuilder<JournalEntryApprovalAction>,
+        journalEntryId: string
+      ) {
+        query.where('journal_entry_id', journalEntryId)
+      },
+    }
+  }
+}
@@ -0,0 +1,103 @@
+import type { QueryBuilder } from 'objection'
+
+import { BaseModel } from '@models/BaseModel'
+
+export enum JournalApprovalStepStatus {
+  PENDING = 'pending',
+  APPROVED = 'approved',
+  REJECTED = 'rejected',
+  CANCELLED = 'cancelled',
+}
+
+/**
+ * JournalEntryApprovalStep Model
+ * Represents an approval rule matched by a submitted journal entry. Steps are
+ * approved in stepNumber order; the rule's role and approval count are copied
+ * at submission time so later rule changes do not affect pending entries.
+ */
+export class JournalEntryApprovalStep extends BaseModel {
+  static override get tableName(): string {
+    return 'journal_entry_approval_steps'
+  }
+
+  // Properties
+  declare id: string
+  declare tenantId: string
+  declare journalEntryId: string
+  declare ruleId?: string | null
+  declare ruleName: string
+  declare stepNumber: number
+  declare requiredRole: string
+  declare requiredApprovals: number
+  declare approvalsCount: number
+  declare status: JournalApprovalStepStatus
+  declare completedAt?: Date | null
+  declare createdAt: Date
+  declare updatedAt: Date
+  declare deletedAt?: Date | null
+
+  // JSON Schema
+  static override get jsonSchema() {
+    return {
+      type: 'object',
+      required: [
+        'tenantId',
+        'journalEntryId',
+        'ruleName',
+        'stepNumber',
+        'requiredRole',
+        'requiredApprovals',
+      ],
+      properties: {
+        id: { type: 'string', format: 'uuid' },
+        tenantId: { type: 'string', format: 'uuid' },
+        journalEntryId: { type: 'string', format: 'uuid' },
+        ruleId: { type: ['string', 'null'], format: 'uuid' },
+        ruleName: { type: 'string', minLength: 1, maxLength: 255 },
+        stepNumber: { type: 'integer', minimum: 1 },
+        requiredRole: { type: 'string', minLength: 1, maxLength: 50 },
+        requiredApprovals: { type: 'integer', minimum: 1 },
+        approvalsCount: { type: 'integer', minimum: 0, default: 0 },
+        status: {
+          type: 'string',
+          enum: ['pending', 'approved', 'rejected', 'cancelled'],
+          default: 'pending',
+        },
+        completedAt: { type: ['string', 'null'], format: 'date-time' },
+        createdAt: { type: 'string', format: 'date-time' },
+        updatedAt: { type: 'string', format: 'date-time' },
+        deletedAt: { type: ['string', 'null'], format: 'date-time' },
+      },
+    }
+  }
+
+  // Query modifiers
+  static override get modifiers() {
+    return {
+      ...super.modifiers,
+      byTenant(
+        query: QueryBuilder<JournalEntryApprovalStep>,
+        tenantId: string
+      ) {
+        query.where('tenant_id', tenantId)
+      },
+      byJournalEntry(
+        query: QueryBuilder<JournalEntryApprovalStep>,
+        journalEntryId: string
+      ) {
+        query.where('journal_entry_id', journalEntryId)
+      },
+      pending(query: QueryBuilder<JournalEntryApprovalStep>) {
+        query.where('status', JournalApprovalStepStatus.PENDING)
+      },
+    }
+  }
+
+  // Helper methods
+  /**
+   * Check if the step is waiting for approvals
+   */
+  isPending(): boolean {
+    return this.status === JournalApprovalStepStatus.PENDING
+  }
+}
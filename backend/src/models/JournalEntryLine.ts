@@ -2,11 +2,15 @@ import type { QueryBuilder } from 'objection'
 
 import { BaseModel } from '@models/BaseModel'
 import { ChartOfAccount } from '@models/ChartOfAccount'
+import { Contact } from '@models/Contact'
 
 /**
  * JournalEntryLine Model
  * Represents a single line in a journal entry (debit or credit)
  * Each journal entry must have at least 2 lines (one debit, one credit)
+ * debit/credit are base currency amounts; lines in a foreign currency keep the
+ * entered amounts in foreignDebit/foreignCredit with the rate used to convert
+ * Lines on bank accounts are marked cleared while reconciling the account
  */
 export class JournalEntryLine extends BaseModel {
   static override get tableName(): string {
@@ -22,14 +26,22 @@ export class JournalEntryLine extends BaseModel {
   declare lineNumber: number
   declare debit: number
   declare credit: number
+  declare currencyCode?: string | null
+  declare exchangeRate?: number | null
+  declare foreignDebit?: number | null
+  declare foreignCredit?: number | null
   declare description?: string | null
   declare memo?: string | null
   declare contactId?: string | null
+  declare isCleared: boolean
+  declare clearedAt?: Date | null
+  declare reconciliationId?: string | null
   declare createdAt: Date
   declare updatedAt: Date
 
   // Relations
   account?: ChartOfAccount
+  contact?: Contact
 
   // JSON Schema
   static override get jsonSchema() {
@@ -51,9 +63,16 @@ export class JournalEntryLine extends BaseModel {
         lineNumber: { type: 'integer', minimum: 1 },
         debit: { type: 'number', minimum: 0, default: 0 },
         credit: { type: 'number', minimum: 0, default: 0 },
+        currencyCode: { type: ['string', 'null'], minLength: 3, maxLength: 3 },
+        exchangeRate: { type: ['number', 'null'], exclusiveMinimum: 0 },
+        foreignDebit: { type: ['number', 'null'], minimum: 0 },
+        foreignCredit: { type: ['number', 'null'], minimum: 0 },
         description: { type: ['string', 'null'] },
         memo: { type: ['string', 'null'] },
         contactId: { type: ['string', 'null'], format: 'uuid' },
+        isCleared: { type: 'boolean', default: false },
+        clearedAt: { type: ['string', 'null'], format: 'date-time' },
+        reconciliationId: { type: ['string', 'null'], format: 'uuid' },
         createdAt: { type: 'string', format: 'date-time' },
         updatedAt: { type: 'string', format: 'date-time' },
         deletedAt: { type: ['string', 'null'], format: 'date-time' },
@@ -72,6 +91,14 @@ export class JournalEntryLine extends BaseModel {
           to: 'chart_of_accounts.id',
         },
       },
+      contact: {
+        relation: BaseModel.BelongsToOneRelation,
+        modelClass: Contact,
+        join: {
+          from: 'journal_entry_lines.contact_id',
+          to: 'contacts.id',
+        },
+      },
     }
   }
 
@@ -0,0 +1,173 @@
+import type { QueryBuilder } from 'objection'
+
+import { BaseModel } from '@models/BaseModel'
+import { JournalEntryType } from '@models/JournalEntry'
+import { RecurringJournalTemplateLine } from '@models/RecurringJournalTemplateLine'
+
+export enum RecurringFrequency {
+  DAILY = 'daily',
+  WEEKLY = 'weekly',
+  MONTHLY = 'monthly',
+  YEARLY = 'yearly',
+}
+
+export enum RecurringTemplateStatus {
+  ACTIVE = 'active',
+  PAUSED = 'paused',
+  COMPLETED = 'completed',
+}
+
+/**
+ * Source module recorded on journal entries generated from a recurring template
+ */
+export const RECURRING_TEMPLATE_SOURCE_MODULE = 'recurring_journal_templates'
+
+/**
+ * RecurringJournalTemplate Model
+ * Represents a journal entry that is generated on a schedule, e.g. monthly rent
+ * or depreciation. Occurrence n falls on startDate + n * interval frequency units.
+ */
+export class RecurringJournalTemplate extends BaseModel {
+  static override get tableName(): string {
+    return 'recurring_journal_templates'
+  }
+
+  // Properties
+  declare id: string
+  declare tenantId: string
+  declare createdBy: string
+  declare name: string
+  declare entryType: JournalEntryType
+  declare isAdjusting: boolean
+  declare description?: string | null
+  declare reference?: string | null
+  declare memo?: string | null
+  declare totalDebit: number
+  declare totalCredit: number
+  declare frequency: RecurringFrequency
+  declare interval: number
+  declare startDate: Date
+  declare endDate?: Date | null
+  declare maxOccurrences?: number | null
+  declare occurrencesCount: number
+  declare nextRunDate?: Date | null
+  declare lastRunDate?: Date | null
+  declare autoPost: boolean
+  declare status: RecurringTemplateStatus
+  declare lastError?: string | null
+  declare createdAt: Date
+  declare updatedAt: Date
+  declare deletedAt?: Date | null
+
+  // Relations
+  lines?: RecurringJournalTemplateLine[]
+
+  // JSON Schema
+  static override get jsonSchema() {
+    return {
+      type: 'object',
+      required: ['tenantId', 'createdBy', 'name', 'frequency', 'startDate'],
+      properties: {
+        id: { type: 'string', format: 'uuid' },
+        tenantId: { type: 'string', format: 'uuid' },
+        createdBy: { type: 'string', format: 'uuid' },
+        name: { type: 'string', minLength: 1, maxLength: 255 },
+        entryType: {
+          type: 'string',
+          enum: ['standard', 'adjusting'],
+          default: 'standard',
+        },
+        isAdjusting: { type: 'boolean', default: false },
+        description: { type: ['string', 'null'] },
+        reference: { type: ['string', 'null'], maxLength: 255 },
+        memo: { type: ['string', 'null'] },
+        totalDebit: { type: 'number', minimum: 0, default: 0 },
+        totalCredit: { type: 'number', minimum: 0, default: 0 },
+        frequency: {
+          type: 'string',
+          enum: ['daily', 'weekly', 'monthly', 'yearly'],
+        },
+        interval: { type: 'integer', minimum: 1, default: 1 },
+        startDate: { type: 'string', format: 'date-time' },
+        endDate: { type: ['string', 'null'], format: 'date-time' },
+        maxOccurrences: { type: ['integer', 'null'], minimum: 1 },
+        occurrencesCount: { type: 'integer', minimum: 0, default: 0 },
+        nextRunDate: { type: ['string', 'null'], format: 'date-time' },
+        lastRunDate: { type: ['string', 'null'], format: 'date-time' },
+        autoPost: { type: 'boolean', default: false },
+        status: {
+          type: 'string',
+          enum: ['active', 'paused', 'completed'],
+          default: 'active',
+        },
+        lastError: { type: ['string', 'null'] },
+        createdAt: { type: 'string', format: 'date-time' },
+        updatedAt: { type: 'string', format: 'date-time' },
+        deletedAt: { type: ['string', 'null'], format: 'date-time' },
+      },
+    }
+  }
+
+  // Relation mappings
+  static override get relationMappings() {
+    return {
+      lines: {
+        relation: BaseModel.HasManyRelation,
+        modelClass: RecurringJournalTemplateLine,
+        join: {
+          from: 'recurring_journal_templates.id',
+          to: 'recurring_journal_template_lines.template_id',
+        },
+        filter: (query: QueryBuilder<RecurringJournalTemplateLine>) => {
+          query.modify('notDeleted').orderBy('line_number', 'asc')
+        },
+      },
+    }
+  }
+
+  // Query modifiers
+  static override get modifiers() {
+    return {
+      ...super.modifiers,
+      byTenant(
+        query: QueryBuilder<RecurringJournalTemplate>,
+        tenantId: string
+      ) {
+        query.where('tenant_id', tenantId)
+      },
+      byStatus(
+        query: QueryBuilder<RecurringJournalTemplate>,
+        status: RecurringTemplateStatus
+      ) {
+        query.where('status', status)
+      },
+      /**
+       * Active templates whose next occurrence is on or before the given date
+       */
+      dueBy(query: QueryBuilder<RecurringJournalTemplate>, date: Date) {
+        query
+          .where('status', RecurringTemplateStatus.ACTIVE)
+          .whereNotNull('next_run_date')
+          .where('next_run_date', '<=', date)
+      },
+      withLines(query: QueryBuilder<RecurringJournalTemplate>) {
+        query.withGraphFetched('lines.account')
+      },
+    }
+  }
+
+  // Helper methods
+  /**
+   * Check if the template generates entries
+   */
+  isActive(): boolean {
+    return this.status === RecurringTemplateStatus.ACTIVE
+  }
+
+  /**
+   * Check if the schedule has run out of occurrences
+   */
+  isCompleted(): boolean {
+    return this.status === RecurringTemplateStatus.COMPLETED
+  }
+}
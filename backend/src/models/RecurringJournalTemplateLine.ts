@@ -0,0 +1,96 @@
+import type { QueryBuilder } from 'objection'
+
+import { BaseModel } from '@models/BaseModel'
+import { ChartOfAccount } from '@models/ChartOfAccount'
+
+/**
+ * RecurringJournalTemplateLine Model
+ * Represents a line copied into every entry generated from a recurring template
+ */
+export class RecurringJournalTemplateLine extends BaseModel {
+  static override get tableName(): string {
+    return 'recurring_journal_template_lines'
+  }
+
+  // Properties
+  declare id: string
+  declare tenantId: string
+  declare createdBy: string
+  declare templateId: string
+  declare accountId: string
+  declare lineNumber: number
+  declare debit: number
+  declare credit: number
+  declare description?: string | null
+  declare memo?: string | null
+  declare contactId?: string | null
+  declare createdAt: Date
+  declare updatedAt: Date
+  declare deletedAt?: Date | null
+
+  // Relations
+  account?: ChartOfAccount
+
+  // JSON Schema
+  static override get jsonSchema() {
+    return {
+      type: 'object',
+      required: [
+        'tenantId',
+        'createdBy',
+        'templateId',
+        'accountId',
+        'lineNumber',
+      ],
+      properties: {
+        id: { type: 'string', format: 'uuid' },
+        tenantId: { type: 'string', format: 'uuid' },
+        createdBy: { type: 'string', format: 'uuid' },
+        templateId: { type: 'string', format: 'uuid' },
+        accountId: { type: 'string', format: 'uuid' },
+        lineNumber: { type: 'integer', minimum: 1 },
+        debit: { type: 'number', minimum: 0, default: 0 },
+        credit: { type: 'number', minimum: 0, default: 0 },
+        description: { type: ['string', 'null'] },
+        memo: { type: ['string', 'null'] },
+        contactId: { type: ['string', 'null'], format: 'uuid' },
+        createdAt: { type: 'string', format: 'date-time' },
+        updatedAt: { type: 'string', format: 'date-time' },
+        deletedAt: { type: ['string', 'null'], format: 'date-time' },
+      },
+    }
+  }
+
+  // Relation mappings
+  static override get relationMappings() {
+    return {
+      account: {
+        relation: BaseModel.BelongsToOneRelation,
+        modelClass: ChartOfAccount,
+        join: {
+          from: 'recurring_journal_template_lines.account_id',
+          to: 'chart_of_accounts.id',
+        },
+      },
+    }
+  }
+
+  // Query modifiers
+  static override get modifiers() {
+    return {
+      ...super.modifiers,
+      byTenant(
+        query: QueryBuilder<RecurringJournalTemplateLine>,
+        tenantId: string
+      ) {
+        query.where('tenant_id', tenantId)
+      },
+      byTemplate(
+        query: QueryBuilder<RecurringJournalTemplateLine>,
+        templateId: string
+      ) {
+        query.where('template_id', templateId)
+      },
+    }
+  }
+}
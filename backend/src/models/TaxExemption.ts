@@ -1,6 +1,7 @@
 import { Model, type QueryBuilder } from 'objection'
 
 import { BaseModel } from '@models/BaseModel'
+import { Contact } from '@models/Contact'
 import { Tax } from '@models/Tax'
 
 /**
@@ -39,6 +40,7 @@ export class TaxExemption extends BaseModel {
 
   // Relations
   declare tax?: Tax
+  declare contact?: Contact
 
   // JSON Schema
   static override get jsonSchema() {
@@ -106,6 +108,14 @@ export class TaxExemption extends BaseModel {
           to: 'taxes.id',
         },
       },
+      contact: {
+        relation: Model.BelongsToOneRelation,
+        modelClass: Contact,
+        join: {
+          from: 'tax_exemptions.contact_id',
+          to: 'contacts.id',
+        },
+      },
     }
   }
 
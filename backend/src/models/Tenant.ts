@@ -23,6 +23,11 @@ export class Tenant extends BaseModel {
   name!: string
   schemaName!: string
   isActive!: boolean
+  baseCurrency!: string
+  fxGainLossAccountId?: string | null
+  fxRevaluationUserId?: string | null
+  coaTemplateKey?: string | null
+  coaTemplateVersion?: number | null
 
   // Relations
   users?: Array<{
@@ -47,6 +52,16 @@ export class Tenant extends BaseModel {
           pattern: '^[a-z][a-z0-9_]*$', // Lowercase, alphanumeric, underscore
         },
         isActive: { type: 'boolean', default: true },
+        baseCurrency: {
+          type: 'string',
+          minLength: 3,
+          maxLength: 3,
+          default: 'CAD',
+        },
+        fxGainLossAccountId: { type: ['string', 'null'], format: 'uuid' },
+        fxRevaluationUserId: { type: ['string', 'null'], format: 'uuid' },
+        coaTemplateKey: { type: ['string', 'null'], maxLength: 50 },
+        coaTemplateVersion: { type: ['integer', 'null'] },
         createdAt: { type: 'string', format: 'date-time' },
         updatedAt: { type: 'string', format: 'date-time' },
         deletedAt: { type: ['string', 'null'], format: 'date-time' },
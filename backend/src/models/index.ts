@@ -10,17 +10,99 @@ export {
   BalanceChangeType,
 } from './AccountBalanceHistory'
 export { AuditLog } from './AuditLog'
+export {
+  BankCategorizationRule,
+  BankRuleMatchType,
+  BankRuleTransactionType,
+} from './BankCategorizationRule'
+export {
+  BankReconciliation,
+  BankReconciliationStatus,
+} from './BankReconciliation'
+export { BankStatementFormat, BankStatementImport } from './BankStatementImport'
+export {
+  BANK_TRANSACTION_SOURCE_MODULE,
+  BankTransaction,
+  BankTransactionStatus,
+} from './BankTransaction'
 export { BaseModel } from './BaseModel'
+export {
+  BILL_SOURCE_MODULE,
+  Bill,
+  BillStatus,
+  BillType,
+  OPEN_BILL_STATUSES,
+} from './Bill'
+export { BillLine } from './BillLine'
+export { BillSettings } from './BillSettings'
+export { Budget } from './Budget'
+export { BudgetLine } from './BudgetLine'
 export { AccountType, ChartOfAccount } from './ChartOfAccount'
+export { Contact, ContactType } from './Contact'
+export {
+  CUSTOMER_PAYMENT_SOURCE_MODULE,
+  CustomerPayment,
+  CustomerPaymentStatus,
+} from './CustomerPayment'
+export { CustomerPaymentAllocation } from './CustomerPaymentAllocation'
+export { CustomerPaymentSettings } from './CustomerPaymentSettings'
+export {
+  Document,
+  DocumentCategory,
+  DocumentScanStatus,
+  DocumentStorageDriver,
+} from './Document'
+export {
+  DocumentAttachment,
+  DocumentAttachmentEntityType,
+} from './DocumentAttachment'
+export { DocumentSettings } from './DocumentSettings'
 export {
+  ExchangeRate,
+  ExchangeRateSource,
+  FX_REVALUATION_SOURCE_MODULE,
+} from './ExchangeRate'
+export { FiscalPeriod, FiscalPeriodStatus } from './FiscalPeriod'
+export {
+  FISCAL_YEAR_SOURCE_MODULE,
+  FiscalPeriodType,
+  FiscalYear,
+} from './FiscalYear'
+export {
+  INVOICE_SOURCE_MODULE,
+  Invoice,
+  InvoiceStatus,
+  OPEN_INVOICE_STATUSES,
+} from './Invoice'
+export { InvoiceLine } from './InvoiceLine'
+export { InvoiceSettings } from './InvoiceSettings'
+export { JournalApprovalRule } from './JournalApprovalRule'
+export {
+  JournalApprovalStatus,
   JournalEntry,
   JournalEntryType,
   JournalEntryStatus,
+  JOURNAL_ENTRY_SOURCE_MODULE,
 } from './JournalEntry'
+export {
+  JournalEntryApprovalAction,
+  JournalApprovalActionType,
+} from './JournalEntryApprovalAction'
+export {
+  JournalEntryApprovalStep,
+  JournalApprovalStepStatus,
+} from './JournalEntryApprovalStep'
 export { JournalEntryLine } from './JournalEntryLine'
 export { MfaEmailOtp } from './MfaEmailOtp'
 export { PasswordReset } from './PasswordReset'
 export { Permission } from './Permission'
+export {
+  RECURRING_TEMPLATE_SOURCE_MODULE,
+  RecurringFrequency,
+  RecurringJournalTemplate,
+  RecurringTemplateStatus,
+} from './RecurringJournalTemplate'
+export { RecurringJournalTemplateLine } from './RecurringJournalTemplateLine'
 export { RefreshToken, getTokenExpiry } from './RefreshToken'
 export { Role } from './Role'
 export { Tax, TaxType } from './Tax'
@@ -0,0 +1,443 @@
+import type { Knex } from 'knex'
+
+import type {
+  AgingBucket,
+  AgingBucketAmounts,
+  AgingReport,
+  AgingReportContactRow,
+  AgingReportFilters,
+  AgingReportItem,
+  AgingReportType,
+} from '@/types/report.type'
+import { ERROR_MESSAGES } from '@constants/errors'
+import { HTTP_STATUS } from '@constants/http'
+import { BillSettings } from '@models/BillSettings'
+import { ChartOfAccount } from '@models/ChartOfAccount'
+import { InvoiceSettings } from '@models/InvoiceSettings'
+import { JOURNAL_ENTRY_SOURCE_MODULE } from '@models/JournalEntry'
+import {
+  postedLinesQuery,
+  resolveReportDate,
+  roundAmount,
+} from '@queries/report.queries'
+import { ApiError } from '@utils/ApiError'
+import { formatDateToString, parseDateStringToUTC } from '@utils/date'
+import { withTenantSchema } from '@utils/tenantQuery'
+
+/**
+ * Display name of the row holding control account lines without a contact
+ */
+const NO_CONTACT_NAME = 'No contact'
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000
+
+/**
+ * Posted line on the control account with its document details
+ */
+interface AgingLineRow {
+  line_id: string
+  journal_entry_id: string
+  contact_id: string | null
+  display_name: string | null
+  debit: string | number
+  credit: string | number
+  entry_number: string | null
+  entry_date: Date
+  description: string | null
+  document_number: string | null
+  due_date: Date | null
+}
+
+/**
+ * Line of a contact being matched; amount and open are positive
+ */
+interface AgingLine {
+  row: AgingLineRow
+  amount: number
+  open: number
+}
+
+/**
+ * Get the aging bucket for a number of days past due
+ */
+const getAgingBucket = (daysPastDue: number): AgingBucket => {
+  if (daysPastDue <= 0) return 'current'
+  if (daysPastDue <= 30) return 'days1To30'
+  if (daysPastDue <= 60) return 'days31To60'
+  if (daysPastDue <= 90) return 'days61To90'
+  return 'over90'
+}
+
+const emptyBucketAmounts = (): AgingBucketAmounts => ({
+  current: 0,
+  days1To30: 0,
+  days31To60: 0,
+  days61To90: 0,
+  over90: 0,
+  total: 0,
+})
+
+/**
+ * Add an open amount to its bucket and to the total
+ */
+const addToBuckets = (
+  amounts: AgingBucketAmounts,
+  bucket: AgingBucket,
+  amount: number
+): void => {
+  // eslint-disable-next-line security/detect-object-injection
+  amounts[bucket] = roundAmount(amounts[bucket] + amount)
+  amounts.total = roundAmount(amounts.total + amount)
+}
+
+/**
+ * Find the control account aged by the report
+ * Receivables use the account of the invoice settings, payables the account
+ * of the bill settings
+ */
+const findControlAccount = async (
+  trx: Knex.Transaction,
+  tenantId: string,
+  reportType: AgingReportType
+): Promise<ChartOfAccount> => {
+  const settings =
+    reportType === 'receivable'
+      ? await InvoiceSettings.query(trx).modify('byTenant', tenantId).first()
+      : await BillSettings.query(trx).modify('byTenant', tenantId).first()
+  const accountId =
+    reportType === 'receivable'
+      ? (settings as InvoiceSettings | undefined)?.receivableAccountId
+      : (settings as BillSettings | undefined)?.payableAccountId
+
+  if (!accountId) {
+    throw new ApiError(
+      HTTP_STATUS.BAD_REQUEST,
+      reportType === 'receivable'
+        ? ERROR_MESSAGES.AGING_RECEIVABLE_ACCOUNT_MISSING
+        : ERROR_MESSAGES.AGING_PAYABLE_ACCOUNT_MISSING
+    )
+  }
+
+  const account = await ChartOfAccount.query(trx)
+    .modify('notDeleted')
+    .modify('byTenant', tenantId)
+    .findById(accountId)
+
+  if (!account) {
+    throw new ApiError(
+      HTTP_STATUS.NOT_FOUND,
+      ERROR_MESSAGES.CHART_OF_ACCOUNT_NOT_FOUND
+    )
+  }
+
+  return account
+}
+
+/**
+ * Find posted control account lines up to a date
+ * Entries reversed on or before that date are left out together with their
+ * reversing entries, so voided documents do not show up as a charge and a
+ * credit.
+ */
+const findAgingLines = async (
+  trx: Knex.Transaction,
+  tenantId: string,
+  accountId: string,
+  asOfDate: Date,
+  contactId?: string
+): Promise<AgingLineRow[]> => {
+  const query = postedLinesQuery(trx, tenantId, { endDate: asOfDate })
+    .leftJoin('contacts as c', 'c.id', 'jel.contact_id')
+    .leftJoin('invoices as inv', (join) => {
+      join.on('inv.journal_entry_id', 'je.id').andOnNull('inv.deleted_at')
+    })
+    .leftJoin('bills as bill', (join) => {
+      join.on('bill.journal_entry_id', 'je.id').andOnNull('bill.deleted_at')
+    })
+    .where('jel.account_id', accountId)
+    .whereNot((builder) => {
+      builder
+        .where('je.is_reversing', true)
+        .where('je.source_module', JOURNAL_ENTRY_SOURCE_MODULE)
+    })
+    .whereNotExists((builder) => {
+      builder
+        .select(1)
+        .from('journal_entries as reversal')
+        .whereRaw('reversal.source_id = je.id')
+        .where('reversal.source_module', JOURNAL_ENTRY_SOURCE_MODULE)
+        .where('reversal.is_reversing', true)
+        .where('reversal.entry_date', '<=', asOfDate)
+        .whereNull('reversal.deleted_at')
+    })
+    .select(
+      'jel.id as line_id',
+      'jel.journal_entry_id',
+      'jel.contact_id',
+      'c.display_name',
+      'jel.debit',
+      'jel.credit',
+      'je.entry_number',
+      'je.entry_date',
+      trx.raw('coalesce(jel.description, je.description) as description'),
+      trx.raw(
+        'coalesce(inv.invoice_number, bill.bill_number, je.reference) as document_number'
+      ),
+      trx.raw('coalesce(inv.due_date, bill.due_date) as due_date')
+    )
+    .orderBy([
+      { column: 'je.entry_date', order: 'asc' },
+      { column: 'je.entry_number', order: 'asc' },
+      { column: 'jel.line_number', order: 'asc' },
+    ])
+
+  if (contactId) {
+    query.where('jel.contact_id', contactId)
+  }
+
+  return (await query) as AgingLineRow[]
+}
+
+/**
+ * Find the lines matched by customer payments, keyed by payment entry
+ * Only receivables have payment allocations; payables are matched oldest
+ * first.
+ */
+const findPaymentAllocations = async (
+  trx: Knex.Transaction,
+  tenantId: string,
+  journalEntryIds: string[]
+): Promise<Map<string, Array<{ lineId: string; amount: number }>>> => {
+  const allocations = new Map<
+    string,
+    Array<{ lineId: string; amount: number }>
+  >()
+  if (journalEntryIds.length === 0) {
+    return allocations
+  }
+
+  const rows = (await trx('customer_payment_allocations as cpa')
+    .join('customer_payments as cp', 'cp.id', 'cpa.payment_id')
+    .where('cp.tenant_id', tenantId)
+    .whereNull('cpa.deleted_at')
+    .whereNull('cp.deleted_at')
+    .whereIn('cp.journal_entry_id', journalEntryIds)
+    .select(
+      'cp.journal_entry_id',
+      'cpa.journal_entry_line_id',
+      'cpa.amount'
+    )) as Array<{
+    journal_entry_id: string
+    journal_entry_line_id: string
+    amount: string | number
+  }>
+
+  for (const row of rows) {
+    const entryAllocations = allocations.get(row.journal_entry_id) ?? []
+    entryAllocations.push({
+      lineId: row.journal_entry_line_id,
+      amount: Number(row.amount),
+    })
+    allocations.set(row.journal_entry_id, entryAllocations)
+  }
+
+  return allocations
+}
+
+/**
+ * Match the credits of one contact against its charges
+ * Credits first settle the lines they were explicitly matched to, then the
+ * oldest open charges by due date.
+ */
+const matchContactLines = (
+  charges: AgingLine[],
+  credits: AgingLine[],
+  allocations: Map<string, Array<{ lineId: string; amount: number }>>
+): void => {
+  const chargesById = new Map(charges.map((line) => [line.row.line_id, line]))
+
+  for (const credit of credits) {
+    for (const allocation of allocations.get(credit.row.journal_entry_id) ??
+      []) {
+      const charge = chargesById.get(allocation.lineId)
+      if (!charge) continue
+
+      const applied = Math.min(allocation.amount, charge.open, credit.open)
+      charge.open = roundAmount(charge.open - applied)
+      credit.open = roundAmount(credit.open - applied)
+    }
+  }
+
+  const chargesByDueDate = [...charges].sort(
+    (left, right) =>
+      (left.row.due_date ?? left.row.entry_date).getTime() -
+      (right.row.due_date ?? right.row.entry_date).getTime()
+  )
+  for (const credit of credits) {
+    for (const charge of chargesByDueDate) {
+      if (credit.open <= 0) break
+      if (charge.open <= 0) continue
+
+      const applied = Math.min(charge.open, credit.open)
+      charge.open = roundAmount(charge.open - applied)
+      credit.open = roundAmount(credit.open - applied)
+    }
+  }
+}
+
+/**
+ * Convert a line with an open amount to a report item
+ * Credits are reported with a negative open amount
+ */
+const toAgingReportItem = (
+  line: AgingLine,
+  isCredit: boolean,
+  asOfStart: Date
+): AgingReportItem => {
+  const dueDate = isCredit
+    ? line.row.entry_date
+    : (line.row.due_date ?? line.row.entry_date)
+  const daysPastDue = Math.max(
+    0,
+    Math.round(
+      (asOfStart.getTime() - parseDateStringToUTC(dueDate).getTime()) /
+        MS_PER_DAY
+    )
+  )
+  const sign = isCredit ? -1 : 1
+
+  return {
+    journalEntryId: line.row.journal_entry_id,
+    journalEntryLineId: line.row.line_id,
+    entryNumber: line.row.entry_number,
+    entryDate: formatDateToString(line.row.entry_date) ?? '',
+    dueDate: formatDateToString(dueDate) ?? '',
+    documentNumber: line.row.document_number,
+    description: line.row.description,
+    originalAmount: roundAmount(sign * line.amount),
+    openAmount: roundAmount(sign * line.open),
+    daysPastDue,
+    bucket: getAgingBucket(daysPastDue),
+  }
+}
+
+/**
+ * Get the aging report of the receivable or payable control account
+ * Lines of each contact are netted open item by open item: charges (debits
+ * on receivables, credits on payables) are settled by the contact's
+ * payments and credits, and what stays open is bucketed by days past due
+ * as of the report date. Charges are aged from the due date of their invoice
+ * or bill, other lines from their entry date.
+ * @param tenantId - Tenant ID
+ * @param schemaName - Tenant schema name
+ * @param reportType - Receivables or payables
+ * @param filters - As of date, mode and contact
+ * @returns Bucket totals per contact, with open items in detail mode
+ */
+export const getAgingReport = async (
+  tenantId: string,
+  schemaName: string,
+  reportType: AgingReportType,
+  filters: AgingReportFilters
+): Promise<AgingReport> => {
+  const mode = filters.mode ?? 'summary'
+  const asOfDate = resolveReportDate(filters.asOf)
+  const asOfStart = parseDateStringToUTC(asOfDate)
+
+  return withTenantSchema(schemaName, async (trx) => {
+    const account = await findControlAccount(trx, tenantId, reportType)
+    const rows = await findAgingLines(
+      trx,
+      tenantId,
+      account.id,
+      asOfDate,
+      filters.contactId
+    )
+
+    // Split lines per contact into charges and credits
+    const contactLines = new Map<
+      string | null,
+      { displayName: string; charges: AgingLine[]; credits: AgingLine[] }
+    >()
+    for (const row of rows) {
+      const net =
+        reportType === 'receivable'
+          ? Number(row.debit) - Number(row.credit)
+          : Number(row.credit) - Number(row.debit)
+      if (net === 0) continue
+
+      const lines = contactLines.get(row.contact_id) ?? {
+        displayName: row.display_name ?? NO_CONTACT_NAME,
+        charges: [],
+        credits: [],
+      }
+      const amount = roundAmount(Math.abs(net))
+      ;(net > 0 ? lines.charges : lines.credits).push({
+        row,
+        amount,
+        open: amount,
+      })
+      contactLines.set(row.contact_id, lines)
+    }
+
+    const allocations =
+      reportType === 'receivable'
+        ? await findPaymentAllocations(trx, tenantId, [
+            ...new Set(
+              [...contactLines.values()].flatMap((lines) =>
+                lines.credits.map((line) => line.row.journal_entry_id)
+              )
+            ),
+          ])
+        : new Map<string, Array<{ lineId: string; amount: number }>>()
+
+    const totals = emptyBucketAmounts()
+    const contacts: AgingReportContactRow[] = []
+    for (const [contactId, lines] of contactLines) {
+      matchContactLines(lines.charges, lines.credits, allocations)
+
+      const items = [
+        ...lines.charges
+          .filter((line) => line.open > 0)
+          .map((line) => toAgingReportItem(line, false, asOfStart)),
+        ...lines.credits
+          .filter((line) => line.open > 0)
+          .map((line) => toAgingReportItem(line, true, asOfStart)),
+      ].sort((left, right) => left.dueDate.localeCompare(right.dueDate))
+      if (items.length === 0) continue
+
+      const buckets = emptyBucketAmounts()
+      for (const item of items) {
+        addToBuckets(buckets, item.bucket, item.openAmount)
+        addToBuckets(totals, item.bucket, item.openAmount)
+      }
+
+      contacts.push({
+        contactId,
+        displayName: lines.displayName,
+        buckets,
+        ...(mode === 'detail' ? { items } : {}),
+      })
+    }
+
+    // Contacts by name; lines without a contact last
+    contacts.sort((left, right) => {
+      if (left.contactId === null) return 1
+      if (right.contactId === null) return -1
+      return left.displayName.localeCompare(right.displayName)
+    })
+
+    return {
+      reportType,
+      mode,
+      asOf: formatDateToString(asOfDate) ?? '',
+      account: {
+        accountId: account.id,
+        accountNumber: account.accountNumber ?? null,
+        accountName: account.accountName,
+      },
+      contacts,
+      totals,
+    }
+  })
+}
@@ -0,0 +1,924 @@
+import type { Knex } from 'knex'
+
+import type {
+  BankReconciliationDetail,
+  BankReconciliationFilters,
+  BankReconciliationLine,
+  BankReconciliationListResult,
+  BankReconciliationReport,
+  BankReconciliationReportLine,
+  BankReconciliationSummary,
+  ClearBankReconciliationLinesData,
+  StartBankReconciliationData,
+  UpdateBankReconciliationData,
+} from '@/types/bankReconciliation.type'
+import { ERROR_MESSAGES } from '@constants/errors'
+import { HTTP_STATUS } from '@constants/http'
+import { Account } from '@models/Account'
+import {
+  BankReconciliation,
+  BankReconciliationStatus,
+} from '@models/BankReconciliation'
+import { ChartOfAccount } from '@models/ChartOfAccount'
+import { JournalEntryStatus } from '@models/JournalEntry'
+import { amountsMatch, roundAmount } from '@queries/report.queries'
+import { calculateOffset } from '@schema/shared.schema'
+import { ApiError } from '@utils/ApiError'
+import {
+  formatDateToISOString,
+  formatDateToString,
+  getCurrentDate,
+  parseDateStringToUTC,
+  parseDateStringToUTCEndOfDay,
+} from '@utils/date'
+import { withTenantSchema } from '@utils/tenantQuery'
+
+/**
+ * Raw reconcilable line row
+ * Amounts are in the line currency when it was entered in a foreign currency
+ */
+interface ReconcilableLineRow {
+  line_id: string
+  journal_entry_id: string
+  entry_number: string | null
+  entry_date: Date
+  description: string | null
+  reference: string | null
+  amount_debit: string | number
+  amount_credit: string | number
+  is_cleared: boolean
+}
+
+/**
+ * Find a bank account
+ * @throws ApiError if the bank account does not exist
+ */
+const findBankAccountOrFail = async (
+  trx: Knex.Transaction,
+  tenantId: string,
+  accountId: string
+): Promise<Account> => {
+  const account = await Account.query(trx)
+    .modify('notDeleted')
+    .modify('byTenant', tenantId)
+    .findById(accountId)
+
+  if (!account) {
+    throw new ApiError(HTTP_STATUS.NOT_FOUND, ERROR_MESSAGES.ACCOUNT_NOT_FOUND)
+  }
+
+  return account
+}
+
+/**
+ * Find the chart of accounts entry linked to a bank account
+ * Its journal lines are the ones reconciled against the bank statement
+ * @throws ApiError if no chart of accounts entry is linked
+ */
+const findLinkedChartAccount = async (
+  trx: Knex.Transaction,
+  tenantId: string,
+  bankAccountId: string
+): Promise<ChartOfAccount> => {
+  const chartAccount = await ChartOfAccount.query(trx)
+    .modify('notDeleted')
+    .modify('byTenant', tenantId)
+    .where('bank_account_id', bankAccountId)
+    .first()
+
+  if (!chartAccount) {
+    throw new ApiError(
+      HTTP_STATUS.BAD_REQUEST,
+      ERROR_MESSAGES.BANK_RECONCILIATION_NO_LINKED_ACCOUNT
+    )
+  }
+
+  return chartAccount
+}
+
+/**
+ * Find the latest completed reconciliation of a bank account
+ * @param excludeId - Reconciliation to leave out (e.g., the one being undone)
+ */
+const findLatestCompletedReconciliation = async (
+  trx: Knex.Transaction,
+  tenantId: string,
+  accountId: string,
+  excludeId?: string
+): Promise<BankReconciliation | undefined> => {
+  const query = BankReconciliation.query(trx)
+    .modify('notDeleted')
+    .modify('byTenant', tenantId)
+    .modify('byAccount', accountId)
+    .modify('completed')
+
+  if (excludeId) {
+    query.whereNot('id', excludeId)
+  }
+
+  return query.orderBy('statement_date', 'desc').first()
+}
+
+/**
+ * Build a query over the posted lines a reconciliation can clear
+ * Lines on the linked chart account dated up to the statement date that are
+ * not cleared, or cleared in this reconciliation
+ */
+const reconcilableLinesQuery = (
+  trx: Knex.Transaction,
+  tenantId: string,
+  chartAccountId: string,
+  reconciliation: BankReconciliation
+): Knex.QueryBuilder => {
+  return trx('journal_entry_lines as jel')
+    .join('journal_entries as je', 'je.id', 'jel.journal_entry_id')
+    .where('jel.tenant_id', tenantId)
+    .where('jel.account_id', chartAccountId)
+    .whereNull('jel.deleted_at')
+    .whereNull('je.deleted_at')
+    .where('je.status', JournalEntryStatus.POSTED)
+    .where(
+      'je.entry_date',
+      '<=',
+      parseDateStringToUTCEndOfDay(reconciliation.statementDate)
+    )
+    .where((builder) => {
+      builder
+        .whereNull('jel.reconciliation_id')
+        .orWhere('jel.reconciliation_id', reconciliation.id)
+    })
+}
+
+/**
+ * Select reconcilable line rows, amounts in the bank account currency
+ */
+const selectReconcilableLines = (
+  trx: Knex.Transaction,
+  query: Knex.QueryBuilder
+): Knex.QueryBuilder => {
+  return query
+    .select(
+      'jel.id as line_id',
+      'jel.journal_entry_id',
+      'je.entry_number',
+      'je.entry_date',
+      trx.raw('COALESCE(jel.description, je.description) as description'),
+      'je.reference',
+      trx.raw('COALESCE(jel.foreign_debit, jel.debit) as amount_debit'),
+      trx.raw('COALESCE(jel.foreign_credit, jel.credit) as amount_credit'),
+      'jel.is_cleared'
+    )
+    .orderBy('je.entry_date', 'asc')
+    .orderBy('je.entry_number', 'asc')
+    .orderBy('jel.line_number', 'asc')
+}
+
+/**
+ * Transform a raw line row to a reconciliation line
+ */
+const toReconciliationLine = (
+  row: ReconcilableLineRow
+): BankReconciliationLine => ({
+  lineId: row.line_id,
+  journalEntryId: row.journal_entry_id,
+  entryNumber: row.entry_number,
+  entryDate: row.entry_date,
+  description: row.description,
+  reference: row.reference,
+  deposit: Number(row.amount_debit),
+  payment: Number(row.amount_credit),
+  isCleared: row.is_cleared,
+})
+
+/**
+ * Calculate the running totals of a reconciliation from its cleared lines
+ */
+const calculateSummary = async (
+  trx: Knex.Transaction,
+  tenantId: string,
+  reconciliation: BankReconciliation
+): Promise<BankReconciliationSummary> => {
+  const row = (await trx('journal_entry_lines')
+    .where('tenant_id', tenantId)
+    .where('reconciliation_id', reconciliation.id)
+    .where('is_cleared', true)
+    .whereNull('deleted_at')
+    .select(
+      trx.raw('COALESCE(SUM(COALESCE(foreign_debit, debit)), 0) as deposits'),
+      trx.raw('COALESCE(SUM(COALESCE(foreign_credit, credit)), 0) as payments'),
+      trx.raw('COUNT(id) as cleared_count')
+    )
+    .first()) as
+    | {
+        deposits: string | number
+        payments: string | number
+        cleared_count: string | number
+      }
+    | undefined
+
+  const openingBalance = Number(reconciliation.openingBalance)
+  const statementEndingBalance = Number(reconciliation.statementEndingBalance)
+  const clearedDeposits = roundAmount(Number(row?.deposits ?? 0))
+  const clearedPayments = roundAmount(Number(row?.payments ?? 0))
+  const clearedBalance = roundAmount(
+    openingBalance + clearedDeposits - clearedPayments
+  )
+
+  return {
+    openingBalance,
+    statementEndingBalance,
+    clearedDeposits,
+    clearedPayments,
+    clearedCount: Number(row?.cleared_count ?? 0),
+    clearedBalance,
+    difference: roundAmount(statementEndingBalance - clearedBalance),
+  }
+}
+
+/**
+ * Reset lines cleared in a reconciliation back to uncleared
+ * @param after - Only reset lines of entries dated after this date
+ */
+const unclearReconciliationLines = async (
+  trx: Knex.Transaction,
+  tenantId: string,
+  reconciliationId: string,
+  after?: Date
+): Promise<void> => {
+  const query = trx('journal_entry_lines')
+    .where('tenant_id', tenantId)
+    .where('reconciliation_id', reconciliationId)
+
+  if (after) {
+    query.whereIn(
+      'journal_entry_id',
+      trx('journal_entries').select('id').where('entry_date', '>', after)
+    )
+  }
+
+  await query.update({
+    is_cleared: false,
+    cleared_at: null,
+    reconciliation_id: null,
+    updated_at: getCurrentDate(),
+  })
+}
+
+/**
+ * Ensure a reconciliation can still be changed
+ * @throws ApiError if the reconciliation is no longer in progress
+ */
+const assertInProgress = (reconciliation: BankReconciliation): void => {
+  if (!reconciliation.isInProgress()) {
+    throw new ApiError(
+      HTTP_STATUS.CONFLICT,
+      ERROR_MESSAGES.BANK_RECONCILIATION_NOT_IN_PROGRESS
+    )
+  }
+}
+
+/**
+ * Ensure a statement date follows the last completed reconciliation
+ * @throws ApiError if the statement date is on or before it
+ */
+const assertStatementDateAfterLatest = async (
+  trx: Knex.Transaction,
+  tenantId: string,
+  accountId: string,
+  statementDate: Date
+): Promise<void> => {
+  const latest = await findLatestCompletedReconciliation(
+    trx,
+    tenantId,
+    accountId
+  )
+
+  if (
+    latest &&
+    parseDateStringToUTC(latest.statementDate).getTime() >=
+      statementDate.getTime()
+  ) {
+    throw new ApiError(
+      HTTP_STATUS.BAD_REQUEST,
+      ERROR_MESSAGES.BANK_RECONCILIATION_STATEMENT_DATE_INVALID
+    )
+  }
+}
+
+/**
+ * Find bank reconciliations, most recent statement first
+ */
+export const findBankReconciliations = async (
+  tenantId: string,
+  schemaName: string,
+  filters: BankReconciliationFilters
+): Promise<BankReconciliationListResult> => {
+  const { accountId, status, page, limit } = filters
+
+  return withTenantSchema(schemaName, async (trx) => {
+    const query = BankReconciliation.query(trx)
+      .modify('notDeleted')
+      .modify('byTenant', tenantId)
+
+    if (accountId) {
+      query.modify('byAccount', accountId)
+    }
+
+    if (status) {
+      query.where('status', status)
+    }
+
+    const total = await query.resultSize()
+    const reconciliations = await query
+      .withGraphFetched('account')
+      .orderBy('statement_date', 'desc')
+      .orderBy('created_at', 'desc')
+      .limit(limit)
+      .offset(calculateOffset(page, limit))
+
+    return { reconciliations, total }
+  })
+}
+
+/**
+ * Find bank reconciliation by ID
+ * @param trx - Optional transaction to use (if provided, won't create a new transaction)
+ */
+export const findBankReconciliationById = async (
+  tenantId: string,
+  schemaName: string,
+  reconciliationId: string,
+  trx?: Knex.Transaction
+): Promise<BankReconciliation> => {
+  const execute = async (transaction: Knex.Transaction) => {
+    const reconciliation = await BankReconciliation.query(transaction)
+      .modify('notDeleted')
+      .modify('byTenant', tenantId)
+      .withGraphFetched('account')
+      .findById(reconciliationId)
+
+    if (!reconciliation) {
+      throw new ApiError(
+        HTTP_STATUS.NOT_FOUND,
+        ERROR_MESSAGES.BANK_RECONCILIATION_NOT_FOUND
+      )
+    }
+
+    return reconciliation
+  }
+
+  // If transaction is provided, use it directly
+  if (trx) {
+    return execute(trx)
+  }
+
+  // Otherwise, create a new transaction
+  return withTenantSchema(schemaName, execute)
+}
+
+/**
+ * Find a bank reconciliation with its running totals
+ */
+export const findBankReconciliationDetail = async (
+  tenantId: string,
+  schemaName: string,
+  reconciliationId: string
+): Promise<BankReconciliationDetail> => {
+  return withTenantSchema(schemaName, async (trx) => {
+    const reconciliation = await findBankReconciliationById(
+      tenantId,
+      schemaName,
+      reconciliationId,
+      trx
+    )
+    const summary = await calculateSummary(trx, tenantId, reconciliation)
+
+    return { reconciliation, summary }
+  })
+}
+
+/**
+ * Start reconciling a bank account against a statement
+ * The opening balance is the ending balance of the last reconciliation, or the
+ * bank account opening balance for the first one. Only one reconciliation can
+ * be in progress per bank account.
+ * @param createdBy - User ID starting the reconciliation
+ */
+export const startBankReconciliation = async (
+  tenantId: string,
+  schemaName: string,
+  createdBy: string,
+  data: StartBankReconciliationData
+): Promise<BankReconciliationDetail> => {
+  return withTenantSchema(schemaName, async (trx) => {
+    const account = await findBankAccountOrFail(trx, tenantId, data.accountId)
+    await findLinkedChartAccount(trx, tenantId, account.id)
+
+    const inProgress = await BankReconciliation.query(trx)
+      .modify('notDeleted')
+      .modify('byTenant', tenantId)
+      .modify('byAccount', account.id)
+      .modify('inProgress')
+      .first()
+
+    if (inProgress) {
+      throw new ApiError(
+        HTTP_STATUS.CONFLICT,
+        ERROR_MESSAGES.BANK_RECONCILIATION_IN_PROGRESS
+      )
+    }
+
+    const statementDate = parseDateStringToUTC(data.statementDate)
+    await assertStatementDateAfterLatest(
+      trx,
+      tenantId,
+      account.id,
+      statementDate
+    )
+
+    const inserted = await BankReconciliation.query(trx).insert({
+      tenantId,
+      createdBy,
+      accountId: account.id,
+      statementDate: formatDateToISOString(statementDate) as unknown as Date,
+      statementEndingBalance: data.statementEndingBalance,
+      openingBalance: Number(
+        account.reconciledBalance ?? account.openingBalance ?? 0
+      ),
+      status: BankReconciliationStatus.IN_PROGRESS,
+    })
+
+    const reconciliation = await findBankReconciliationById(
+      tenantId,
+      schemaName,
+      inserted.id,
+      trx
+    )
+    const summary = await calculateSummary(trx, tenantId, reconciliation)
+
+    return { reconciliation, summary }
+  })
+}
+
+/**
+ * Update the statement of a reconciliation in progress
+ * Lines cleared in the session but dated after a moved-back statement date are
+ * uncleared again
+ */
+export const updateBankReconciliation = async (
+  tenantId: string,
+  schemaName: string,
+  reconciliationId: string,
+  data: UpdateBankReconciliationData
+): Promise<BankReconciliationDetail> => {
+  return withTenantSchema(schemaName, async (trx) => {
+    const reconciliation = await findBankReconciliationById(
+      tenantId,
+      schemaName,
+      reconciliationId,
+      trx
+    )
+    assertInProgress(reconciliation)
+
+    const updateData: Partial<BankReconciliation> = {}
+
+    if (data.statementDate !== undefined) {
+      const statementDate = parseDateStringToUTC(data.statementDate)
+      await assertStatementDateAfterLatest(
+        trx,
+        tenantId,
+        reconciliation.accountId,
+        statementDate
+      )
+      await unclearReconciliationLines(
+        trx,
+        tenantId,
+        reconciliation.id,
+        parseDateStringToUTCEndOfDay(statementDate)
+      )
+      updateData.statementDate = formatDateToISOString(
+        statementDate
+      ) as unknown as Date
+    }
+
+    if (data.statementEndingBalance !== undefined) {
+      updateData.statementEndingBalance = data.statementEndingBalance
+    }
+
+    await reconciliation.$query(trx).patch(updateData)
+
+    const updated = await findBankReconciliationById(
+      tenantId,
+      schemaName,
+      reconciliation.id,
+      trx
+    )
+    const summary = await calculateSummary(trx, tenantId, updated)
+
+    return { reconciliation: updated, summary }
+  })
+}
+
+/**
+ * Find the lines a reconciliation can clear with their cleared status
+ * @param cleared - Only cleared (true) or uncleared (false) lines
+ */
+export const findBankReconciliationLines = async (
+  tenantId: string,
+  schemaName: string,
+  reconciliationId: string,
+  filters: { cleared?: boolean | undefined; page: number; limit: number }
+): Promise<
+  BankReconciliationDetail & { lines: BankReconciliationLine[]; total: number }
+> => {
+  const { cleared, page, limit } = filters
+
+  return withTenantSchema(schemaName, async (trx) => {
+    const reconciliation = await findBankReconciliationById(
+      tenantId,
+      schemaName,
+      reconciliationId,
+      trx
+    )
+    const chartAccount = await findLinkedChartAccount(
+      trx,
+      tenantId,
+      reconciliation.accountId
+    )
+
+    const query = reconcilableLinesQuery(
+      trx,
+      tenantId,
+      chartAccount.id,
+      reconciliation
+    )
+
+    if (cleared !== undefined) {
+      query.where('jel.is_cleared', cleared)
+    }
+
+    const countRow = (await query
+      .clone()
+      .count({ total: 'jel.id' })
+      .first()) as { total: string | number } | undefined
+
+    const rows = (await selectReconcilableLines(trx, query)
+      .limit(limit)
+      .offset(calculateOffset(page, limit))) as ReconcilableLineRow[]
+
+    const summary = await calculateSummary(trx, tenantId, reconciliation)
+
+    return {
+      reconciliation,
+      summary,
+      lines: rows.map(toReconciliationLine),
+      total: Number(countRow?.total ?? 0),
+    }
+  })
+}
+
+/**
+ * Tick or untick lines of a reconciliation in progress
+ * @throws ApiError if a line cannot be cleared in this reconciliation
+ */
+export const clearBankReconciliationLines = async (
+  tenantId: string,
+  schemaName: string,
+  reconciliationId: string,
+  data: ClearBankReconciliationLinesData
+): Promise<BankReconciliationDetail> => {
+  return withTenantSchema(schemaName, async (trx) => {
+    const reconciliation = await findBankReconciliationById(
+      tenantId,
+      schemaName,
+      reconciliationId,
+      trx
+    )
+    assertInProgress(reconciliation)
+
+    const chartAccount = await findLinkedChartAccount(
+      trx,
+      tenantId,
+      reconciliation.accountId
+    )
+
+    const lineIds = [...new Set(data.lineIds)]
+    const matching = (await reconcilableLinesQuery(
+      trx,
+      tenantId,
+      chartAccount.id,
+      reconciliation
+    )
+      .whereIn('jel.id', lineIds)
+      .select('jel.id')) as Array<{ id: string }>
+
+    if (matching.length !== lineIds.length) {
+      throw new ApiError(
+        HTTP_STATUS.BAD_REQUEST,
+        ERROR_MESSAGES.BANK_RECONCILIATION_LINES_INVALID
+      )
+    }
+
+    await trx('journal_entry_lines')
+      .where('tenant_id', tenantId)
+      .whereIn('id', lineIds)
+      .update(
+        data.cleared
+          ? {
+              is_cleared: true,
+              cleared_at: getCurrentDate(),
+              reconciliation_id: reconciliation.id,
+              updated_at: getCurrentDate(),
+            }
+          : {
+              is_cleared: false,
+              cleared_at: null,
+              reconciliation_id: null,
+              updated_at: getCurrentDate(),
+            }
+      )
+
+    const summary = await calculateSummary(trx, tenantId, reconciliation)
+
+    return { reconciliation, summary }
+  })
+}
+
+/**
+ * Transform line rows to report lines with their amount
+ */
+const toReportLines = (
+  lines: BankReconciliationLine[],
+  amountOf: (line: BankReconciliationLine) => number
+): BankReconciliationReportLine[] =>
+  lines.map((line) => ({
+    lineId: line.lineId,
+    journalEntryId: line.journalEntryId,
+    entryNumber: line.entryNumber,
+    entryDate: formatDateToString(line.entryDate) as string,
+    description: line.description,
+    amount: amountOf(line),
+  }))
+
+/**
+ * Sum the amounts of report lines
+ */
+const sumReportLines = (lines: BankReconciliationReportLine[]): number =>
+  roundAmount(lines.reduce((sum, line) => sum + line.amount, 0))
+
+/**
+ * Finalize a reconciliation once its cleared balance matches the statement
+ * Saves the reconciliation report and records the reconciled balance on the
+ * bank account. Cleared lines stay cleared and cannot be ticked again.
+ * @param completedBy - User ID finalizing the reconciliation
+ * @throws ApiError if the difference is not zero
+ */
+export const completeBankReconciliation = async (
+  tenantId: string,
+  schemaName: string,
+  reconciliationId: string,
+  completedBy: string
+): Promise<BankReconciliationDetail> => {
+  return withTenantSchema(schemaName, async (trx) => {
+    const reconciliation = await findBankReconciliationById(
+      tenantId,
+      schemaName,
+      reconciliationId,
+      trx
+    )
+    assertInProgress(reconciliation)
+
+    const summary = await calculateSummary(trx, tenantId, reconciliation)
+    if (!amountsMatch(summary.difference, 0)) {
+      throw new ApiError(
+        HTTP_STATUS.BAD_REQUEST,
+        ERROR_MESSAGES.BANK_RECONCILIATION_NOT_BALANCED
+      )
+    }
+
+    const account = await findBankAccountOrFail(
+      trx,
+      tenantId,
+      reconciliation.accountId
+    )
+    const chartAccount = await findLinkedChartAccount(trx, tenantId, account.id)
+
+    const rows = (await selectReconcilableLines(
+      trx,
+      reconcilableLinesQuery(trx, tenantId, chartAccount.id, reconciliation)
+    )) as ReconcilableLineRow[]
+    const lines = rows.map(toReconciliationLine)
+
+    const cleared = lines.filter((line) => line.isCleared)
+    const outstanding = lines.filter((line) => !line.isCleared)
+    const outstandingDeposits = toReportLines(
+      outstanding.filter((line) => line.deposit > 0),
+      (line) => line.deposit
+    )
+    const outstandingPayments = toReportLines(
+      outstanding.filter((line) => line.payment > 0),
+      (line) => line.payment
+    )
+
+    const completedAt = getCurrentDate()
+    const report: BankReconciliationReport = {
+      accountId: account.id,
+      accountName: account.name,
+      chartOfAccountId: chartAccount.id,
+      currencyCode: account.currencyCode,
+      statementDate: formatDateToString(reconciliation.statementDate) as string,
+      summary,
+      bookBalance: roundAmount(
+        summary.clearedBalance +
+          sumReportLines(outstandingDeposits) -
+          sumReportLines(outstandingPayments)
+      ),
+      clearedDeposits: toReportLines(
+        cleared.filter((line) => line.deposit > 0),
+        (line) => line.deposit
+      ),
+      clearedPayments: toReportLines(
+        cleared.filter((line) => line.payment > 0),
+        (line) => line.payment
+      ),
+      outstandingDeposits,
+      outstandingPayments,
+      completedBy,
+      completedAt: formatDateToISOString(completedAt) as string,
+    }
+
+    await reconciliation.$query(trx).patch({
+      status: BankReconciliationStatus.COMPLETED,
+      report,
+      completedAt: formatDateToISOString(completedAt) as unknown as Date,
+      completedBy,
+    })
+
+    await account.$query(trx).patch({
+      lastReconciledAt: formatDateToISOString(
+        reconciliation.statementDate
+      ) as unknown as Date,
+      reconciledBalance: summary.statementEndingBalance,
+      lastReconciledBy: completedBy,
+    })
+
+    const completed = await findBankReconciliationById(
+      tenantId,
+      schemaName,
+      reconciliation.id,
+      trx
+    )
+
+    return { reconciliation: completed, summary }
+  })
+}
+
+/**
+ * Undo the latest completed reconciliation of a bank account
+ * Its lines are uncleared and the bank account goes back to the previous
+ * reconciled balance. Not allowed while another reconciliation is in progress,
+ * since that one starts from the balance being undone.
+ * @param undoneBy - User ID undoing the reconciliation
+ */
+export const undoBankReconciliation = async (
+  tenantId: string,
+  schemaName: string,
+  reconciliationId: string,
+  undoneBy: string
+): Promise<BankReconciliation> => {
+  return withTenantSchema(schemaName, async (trx) => {
+    const reconciliation = await findBankReconciliationById(
+      tenantId,
+      schemaName,
+      reconciliationId,
+      trx
+    )
+
+    if (!reconciliation.isCompleted()) {
+      throw new ApiError(
+        HTTP_STATUS.CONFLICT,
+        ERROR_MESSAGES.BANK_RECONCILIATION_NOT_COMPLETED
+      )
+    }
+
+    const latest = await findLatestCompletedReconciliation(
+      trx,
+      tenantId,
+      reconciliation.accountId
+    )
+    if (latest?.id !== reconciliation.id) {
+      throw new ApiError(
+        HTTP_STATUS.CONFLICT,
+        ERROR_MESSAGES.BANK_RECONCILIATION_NOT_LATEST
+      )
+    }
+
+    const inProgress = await BankReconciliation.query(trx)
+      .modify('notDeleted')
+      .modify('byTenant', tenantId)
+      .modify('byAccount', reconciliation.accountId)
+      .modify('inProgress')
+      .first()
+    if (inProgress) {
+      throw new ApiError(
+        HTTP_STATUS.CONFLICT,
+        ERROR_MESSAGES.BANK_RECONCILIATION_IN_PROGRESS
+      )
+    }
+
+    await unclearReconciliationLines(trx, tenantId, reconciliation.id)
+
+    await reconciliation.$query(trx).patch({
+      status: BankReconciliationStatus.UNDONE,
+      undoneAt: formatDateToISOString(getCurrentDate()) as unknown as Date,
+      undoneBy,
+    })
+
+    const previous = await findLatestCompletedReconciliation(
+      trx,
+      tenantId,
+      reconciliation.accountId,
+      reconciliation.id
+    )
+    const account = await findBankAccountOrFail(
+      trx,
+      tenantId,
+      reconciliation.accountId
+    )
+    await account.$query(trx).patch({
+      lastReconciledAt: previous
+        ? (formatDateToISOString(previous.statementDate) as unknown as Date)
+        : null,
+      reconciledBalance: previous
+        ? Number(previous.statementEndingBalance)
+        : null,
+      lastReconciledBy: previous?.completedBy ?? null,
+    })
+
+    return findBankReconciliationById(
+      tenantId,
+      schemaName,
+      reconciliation.id,
+      trx
+    )
+  })
+}
+
+/**
+ * Cancel a reconciliation in progress
+ * Its lines are uncleared and the session is soft deleted
+ */
+export const cancelBankReconciliation = async (
+  tenantId: string,
+  schemaName: string,
+  reconciliationId: string
+): Promise<BankReconciliation> => {
+  return withTenantSchema(schemaName, async (trx) => {
+    const reconciliation = await findBankReconciliationById(
+      tenantId,
+      schemaName,
+      reconciliationId,
+      trx
+    )
+    assertInProgress(reconciliation)
+
+    await unclearReconciliationLines(trx, tenantId, reconciliation.id)
+
+    // Soft delete using direct Knex update
+    await trx('bank_reconciliations')
+      .where('id', reconciliation.id)
+      .where('tenant_id', tenantId)
+      .update({
+        deleted_at: getCurrentDate(),
+        updated_at: getCurrentDate(),
+      })
+
+    return reconciliation
+  })
+}
+
+/**
+ * Find the report saved when a reconciliation was finalized
+ * Undone reconciliations keep their report for reference
+ * @throws ApiError if the reconciliation was never finalized
+ */
+export const findBankReconciliationReport = async (
+  tenantId: string,
+  schemaName: string,
+  reconciliationId: string
+): Promise<BankReconciliationReport> => {
+  const reconciliation = await findBankReconciliationById(
+    tenantId,
+    schemaName,
+    reconciliationId
+  )
+
+  if (!reconciliation.report) {
+    throw new ApiError(
+      HTTP_STATUS.CONFLICT,
+      ERROR_MESSAGES.BANK_RECONCILIATION_NOT_COMPLETED
+    )
+  }
+
+  return reconciliation.report
+}
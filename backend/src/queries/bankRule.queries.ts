@@ -0,0 +1,481 @@
+import type { Knex } from 'knex'
+
+import type {
+  ApplyBankRulesData,
+  ApplyBankRulesResult,
+  BankRuleDefinition,
+  BankRuleFilters,
+  BankRuleListResult,
+  BankRuleTestResult,
+  BankRuleTestSample,
+  CreateBankRuleData,
+  UpdateBankRuleData,
+} from '@/types/bankRule.type'
+import {
+  BANK_RULE_APPLY_MAX_TRANSACTIONS,
+  BANK_RULE_HISTORY_SIZE,
+} from '@constants/bankTransaction'
+import { ERROR_MESSAGES } from '@constants/errors'
+import { HTTP_STATUS } from '@constants/http'
+import { Account } from '@models/Account'
+import {
+  BankCategorizationRule,
+  BankRuleMatchType,
+  BankRuleTransactionType,
+} from '@models/BankCategorizationRule'
+import { BankTransaction, BankTransactionStatus } from '@models/BankTransaction'
+import { ChartOfAccount } from '@models/ChartOfAccount'
+import { TaxGroup } from '@models/TaxGroup'
+import {
+  categorizeBankTransaction,
+  findActiveBankRules,
+  findCategorizationHistory,
+} from '@queries/bankTransaction.queries'
+import { calculateOffset } from '@schema/shared.schema'
+import { ApiError } from '@utils/ApiError'
+import { formatDateToString, getCurrentDate } from '@utils/date'
+import { withTenantSchema } from '@utils/tenantQuery'
+
+/**
+ * Matched history transactions returned when testing a rule
+ */
+const TEST_SAMPLE_SIZE = 20
+
+/**
+ * Validate the bank account, category account and tax group of a rule
+ */
+const assertRuleReferences = async (
+  trx: Knex.Transaction,
+  tenantId: string,
+  references: {
+    accountId?: string | null | undefined
+    categoryAccountId?: string | undefined
+    taxGroupId?: string | null | undefined
+  }
+): Promise<void> => {
+  if (references.accountId) {
+    const account = await Account.query(trx)
+      .modify('notDeleted')
+      .modify('byTenant', tenantId)
+      .findById(references.accountId)
+    if (!account) {
+      throw new ApiError(
+        HTTP_STATUS.NOT_FOUND,
+        ERROR_MESSAGES.ACCOUNT_NOT_FOUND
+      )
+    }
+  }
+
+  if (references.categoryAccountId) {
+    const categoryAccount = await ChartOfAccount.query(trx)
+      .modify('notDeleted')
+      .modify('byTenant', tenantId)
+      .findById(references.categoryAccountId)
+    if (!categoryAccount) {
+      throw new ApiError(
+        HTTP_STATUS.NOT_FOUND,
+        ERROR_MESSAGES.CHART_OF_ACCOUNT_NOT_FOUND
+      )
+    }
+    if (!categoryAccount.isActive) {
+      throw new ApiError(
+        HTTP_STATUS.BAD_REQUEST,
+        ERROR_MESSAGES.BANK_RULE_CATEGORY_INVALID
+      )
+    }
+  }
+
+  if (references.taxGroupId) {
+    const taxGroup = await TaxGroup.query(trx)
+      .modify('notDeleted')
+      .modify('byTenant', tenantId)
+      .findById(references.taxGroupId)
+    if (!taxGroup) {
+      throw new ApiError(
+        HTTP_STATUS.NOT_FOUND,
+        ERROR_MESSAGES.TAX_GROUP_NOT_FOUND
+      )
+    }
+  }
+}
+
+/**
+ * Find categorization rules with pagination, in priority order
+ */
+export const findBankRules = async (
+  tenantId: string,
+  schemaName: string,
+  filters: BankRuleFilters
+): Promise<BankRuleListResult> => {
+  const { isActive, accountId, page, limit } = filters
+
+  return withTenantSchema(schemaName, async (trx) => {
+    const query = BankCategorizationRule.query(trx)
+      .modify('notDeleted')
+      .modify('byTenant', tenantId)
+
+    if (isActive !== undefined) {
+      query.where('is_active', isActive)
+    }
+
+    if (accountId) {
+      query.where('account_id', accountId)
+    }
+
+    const total = await query.resultSize()
+    const rules = await query
+      .withGraphFetched('[account, categoryAccount, taxGroup]')
+      .modify('inPriorityOrder')
+      .limit(limit)
+      .offset(calculateOffset(page, limit))
+
+    return { rules, total }
+  })
+}
+
+/**
+ * Find categorization rule by ID
+ * @param trx - Optional transaction to use (if provided, won't create a new transaction)
+ */
+export const findBankRuleById = async (
+  tenantId: string,
+  schemaName: string,
+  ruleId: string,
+  trx?: Knex.Transaction
+): Promise<BankCategorizationRule> => {
+  const execute = async (transaction: Knex.Transaction) => {
+    const rule = await BankCategorizationRule.query(transaction)
+      .modify('notDeleted')
+      .modify('byTenant', tenantId)
+      .withGraphFetched('[account, categoryAccount, taxGroup]')
+      .findById(ruleId)
+
+    if (!rule) {
+      throw new ApiError(
+        HTTP_STATUS.NOT_FOUND,
+        ERROR_MESSAGES.BANK_RULE_NOT_FOUND
+      )
+    }
+
+    return rule
+  }
+
+  // If transaction is provided, use it directly
+  if (trx) {
+    return execute(trx)
+  }
+
+  // Otherwise, create a new transaction
+  return withTenantSchema(schemaName, execute)
+}
+
+/**
+ * Create categorization rule
+ * Rules without a priority are tried after the existing ones
+ */
+export const createBankRule = async (
+  tenantId: string,
+  schemaName: string,
+  createdBy: string,
+  data: CreateBankRuleData
+): Promise<BankCategorizationRule> => {
+  return withTenantSchema(schemaName, async (trx) => {
+    await assertRuleReferences(trx, tenantId, data)
+
+    let priority = data.priority
+    if (priority === undefined) {
+      const last = await BankCategorizationRule.query(trx)
+        .modify('notDeleted')
+        .modify('byTenant', tenantId)
+        .orderBy('priority', 'desc')
+        .first()
+      priority = (last?.priority ?? 0) + 1
+    }
+
+    const rule = await BankCategorizationRule.query(trx).insert({
+      tenantId,
+      name: data.name,
+      description: data.description ?? null,
+      priority,
+      matchType: data.matchType ?? BankRuleMatchType.ALL,
+      conditions: data.conditions,
+      transactionType: data.transactionType ?? BankRuleTransactionType.ANY,
+      accountId: data.accountId ?? null,
+      categoryAccountId: data.categoryAccountId,
+      taxGroupId: data.taxGroupId ?? null,
+      isActive: data.isActive ?? true,
+      createdBy,
+    })
+
+    return findBankRuleById(tenantId, schemaName, rule.id, trx)
+  })
+}
+
+/**
+ * Update categorization rule
+ * Transactions already categorized by the rule are not changed
+ */
+export const updateBankRule = async (
+  tenantId: string,
+  schemaName: string,
+  ruleId: string,
+  data: UpdateBankRuleData
+): Promise<BankCategorizationRule> => {
+  return withTenantSchema(schemaName, async (trx) => {
+    const rule = await findBankRuleById(tenantId, schemaName, ruleId, trx)
+    await assertRuleReferences(trx, tenantId, data)
+
+    const updateData: Partial<BankCategorizationRule> = {}
+    if (data.name !== undefined) updateData.name = data.name
+    if (data.description !== undefined)
+      updateData.description = data.description
+    if (data.priority !== undefined) updateData.priority = data.priority
+    if (data.matchType !== undefined) updateData.matchType = data.matchType
+    if (data.conditions !== undefined) updateData.conditions = data.conditions
+    if (data.transactionType !== undefined)
+      updateData.transactionType = data.transactionType
+    if (data.accountId !== undefined) updateData.accountId = data.accountId
+    if (data.categoryAccountId !== undefined)
+      updateData.categoryAccountId = data.categoryAccountId
+    if (data.taxGroupId !== undefined) updateData.taxGroupId = data.taxGroupId
+    if (data.isActive !== undefined) updateData.isActive = data.isActive
+
+    await rule.$query(trx).patch(updateData)
+
+    return findBankRuleById(tenantId, schemaName, ruleId, trx)
+  })
+}
+
+/**
+ * Delete categorization rule (soft delete)
+ * Transactions already categorized by the rule are not changed
+ */
+export const deleteBankRule = async (
+  tenantId: string,
+  schemaName: string,
+  ruleId: string
+): Promise<void> => {
+  return withTenantSchema(schemaName, async (trx) => {
+    await findBankRuleById(tenantId, schemaName, ruleId, trx)
+
+    // Soft delete using direct Knex update
+    await trx('bank_categorization_rules')
+      .where('id', ruleId)
+      .where('tenant_id', tenantId)
+      .update({
+        deleted_at: getCurrentDate(),
+        updated_at: getCurrentDate(),
+      })
+  })
+}
+
+/**
+ * Reorder categorization rules
+ * @param ruleIds - Every rule of the tenant, in the new priority order
+ * @throws ApiError 400 if the list is not exactly the tenant's rules
+ */
+export const reorderBankRules = async (
+  tenantId: string,
+  schemaName: string,
+  ruleIds: string[]
+): Promise<BankCategorizationRule[]> => {
+  return withTenantSchema(schemaName, async (trx) => {
+    const rules = await BankCategorizationRule.query(trx)
+      .modify('notDeleted')
+      .modify('byTenant', tenantId)
+      .select('id')
+
+    const existingIds = new Set(rules.map((rule) => rule.id))
+    const requestedIds = new Set(ruleIds)
+    if (
+      requestedIds.size !== ruleIds.length ||
+      requestedIds.size !== existingIds.size ||
+      ruleIds.some((ruleId) => !existingIds.has(ruleId))
+    ) {
+      throw new ApiError(
+        HTTP_STATUS.BAD_REQUEST,
+        ERROR_MESSAGES.BANK_RULE_REORDER_INVALID
+      )
+    }
+
+    for (const [index, ruleId] of ruleIds.entries()) {
+      await BankCategorizationRule.query(trx)
+        .findById(ruleId)
+        .patch({ priority: index + 1 })
+    }
+
+    return BankCategorizationRule.query(trx)
+      .modify('notDeleted')
+      .modify('byTenant', tenantId)
+      .withGraphFetched('[account, categoryAccount, taxGroup]')
+      .modify('inPriorityOrder')
+  })
+}
+
+/**
+ * Test a rule against categorized transactions before saving it
+ * Reports how many categorized transactions the rule matches and how many of
+ * those were categorized to the rule's account, plus how many transactions
+ * in the inbox it would categorize
+ */
+export const testBankRule = async (
+  tenantId: string,
+  schemaName: string,
+  definition: BankRuleDefinition
+): Promise<BankRuleTestResult> => {
+  return withTenantSchema(schemaName, async (trx) => {
+    await assertRuleReferences(trx, tenantId, definition)
+
+    const rule = BankCategorizationRule.fromJson(
+      {
+        tenantId,
+        matchType: definition.matchType ?? BankRuleMatchType.ALL,
+        conditions: definition.conditions,
+        transactionType:
+          definition.transactionType ?? BankRuleTransactionType.ANY,
+        accountId: definition.accountId ?? null,
+        categoryAccountId: definition.categoryAccountId,
+      },
+      { skipValidation: true }
+    )
+
+    const history = await findCategorizationHistory(trx, tenantId)
+    const matched = history.filter((transaction) => rule.matches(transaction))
+    const agreed = matched.filter(
+      (transaction) =>
+        transaction.categoryAccountId === definition.categoryAccountId
+    )
+
+    const uncategorized = await BankTransaction.query(trx)
+      .modify('notDeleted')
+      .modify('byTenant', tenantId)
+      .where('status', BankTransactionStatus.UNCATEGORIZED)
+      .limit(BANK_RULE_HISTORY_SIZE)
+
+    const samples: BankRuleTestSample[] = matched
+      .slice(0, TEST_SAMPLE_SIZE)
+      .map((transaction) => ({
+        id: transaction.id,
+        transactionDate: formatDateToString(transaction.transactionDate),
+        amount: Number(transaction.amount),
+        description: transaction.description ?? null,
+        payee: transaction.payee ?? null,
+        categoryAccountId: transaction.categoryAccountId ?? null,
+        agrees: transaction.categoryAccountId === definition.categoryAccountId,
+      }))
+
+    return {
+      historyChecked: history.length,
+      historyMatched: matched.length,
+      historyAgreed: agreed.length,
+      agreementRate:
+        matched.length > 0
+          ? Math.round((agreed.length / matched.length) * 100)
+          : null,
+      uncategorizedMatched: uncategorized.filter((transaction) =>
+        rule.matches(transaction)
+      ).length,
+      samples,
+    }
+  })
+}
+
+/**
+ * Categorize inbox transactions with the first rule matching each of them
+ * Uses the active rules, or only the listed rules (active or not). Each
+ * transaction is categorized in its own database transaction, so one failure
+ * (e.g. a missing exchange rate) does not undo the others.
+ * @param categorizedBy - User ID applying the rules
+ */
+export const applyBankRules = async (
+  tenantId: string,
+  schemaName: string,
+  categorizedBy: string,
+  data: ApplyBankRulesData
+): Promise<ApplyBankRulesResult> => {
+  const { rules, transactions } = await withTenantSchema(
+    schemaName,
+    async (trx) => {
+      let selectedRules: BankCategorizationRule[]
+      if (data.ruleIds) {
+        const ruleIds = [...new Set(data.ruleIds)]
+        selectedRules = await BankCategorizationRule.query(trx)
+          .modify('notDeleted')
+          .modify('byTenant', tenantId)
+          .whereIn('id', ruleIds)
+          .modify('inPriorityOrder')
+        if (selectedRules.length !== ruleIds.length) {
+          throw new ApiError(
+            HTTP_STATUS.NOT_FOUND,
+            ERROR_MESSAGES.BANK_RULE_NOT_FOUND
+          )
+        }
+      } else {
+        selectedRules = await findActiveBankRules(trx, tenantId)
+      }
+
+      const query = BankTransaction.query(trx)
+        .modify('notDeleted')
+        .modify('byTenant', tenantId)
+        .where('status', BankTransactionStatus.UNCATEGORIZED)
+
+      if (data.accountId) {
+        query.modify('byAccount', data.accountId)
+      }
+
+      const uncategorized = await query
+        .orderBy('transaction_date', 'asc')
+        .orderBy('created_at', 'asc')
+        .limit(BANK_RULE_APPLY_MAX_TRANSACTIONS)
+
+      return { rules: selectedRules, transactions: uncategorized }
+    }
+  )
+
+  const result: ApplyBankRulesResult = {
+    checkedCount: transactions.length,
+    matchedCount: 0,
+    categorizedCount: 0,
+    categorized: [],
+    failures: [],
+  }
+
+  for (const transaction of transactions) {
+    const rule = rules.find((candidate) => candidate.matches(transaction))
+    if (!rule) {
+      continue
+    }
+
+    result.matchedCount += 1
+    try {
+      const categorized = await categorizeBankTransaction(
+        tenantId,
+        schemaName,
+        categorizedBy,
+        transaction.id,
+        {
+          categoryAccountId: rule.categoryAccountId,
+          taxGroupId: rule.taxGroupId ?? null,
+          ruleId: rule.id,
+        }
+      )
+      result.categorizedCount += 1
+      result.categorized.push({
+        transactionId: categorized.id,
+        ruleId: rule.id,
+        journalEntryId: categorized.journalEntryId ?? null,
+      })
+    } catch (error) {
+      if (!(error instanceof ApiError)) {
+        throw error
+      }
+      result.failures.push({
+        transactionId: transaction.id,
+        ruleId: rule.id,
+        message: error.message,
+      })
+    }
+  }
+
+  return result
+}
@@ -0,0 +1,696 @@
+import type { Knex } from 'knex'
+
+import type { BankTransactionSuggestion } from '@/types/bankRule.type'
+import type {
+  BankStatementImportFilters,
+  BankStatementImportListResult,
+  BankTransactionDetail,
+  BankTransactionFilters,
+  BankTransactionListResult,
+  CategorizeBankTransactionData,
+  ImportBankStatementData,
+  ParsedStatement,
+} from '@/types/bankTransaction.type'
+import {
+  BANK_RULE_HISTORY_SIZE,
+  BANK_STATEMENT_IMPORT_MAX_LINES,
+} from '@constants/bankTransaction'
+import { ERROR_MESSAGES } from '@constants/errors'
+import { HTTP_STATUS } from '@constants/http'
+import { Account } from '@models/Account'
+import { BankCategorizationRule } from '@models/BankCategorizationRule'
+import {
+  BankStatementFormat,
+  BankStatementImport,
+} from '@models/BankStatementImport'
+import {
+  BANK_TRANSACTION_SOURCE_MODULE,
+  BankTransaction,
+  BankTransactionStatus,
+} from '@models/BankTransaction'
+import { ChartOfAccount } from '@models/ChartOfAccount'
+import { JournalEntryType } from '@models/JournalEntry'
+import { TaxGroup } from '@models/TaxGroup'
+import {
+  findBaseCurrency,
+  findEffectiveExchangeRate,
+} from '@queries/exchangeRate.queries'
+import { postOrSubmitJournalEntry } from '@queries/journalApproval.queries'
+import { createJournalEntry } from '@queries/journalEntry.queries'
+import { roundAmount } from '@queries/report.queries'
+import { calculateOffset } from '@schema/shared.schema'
+import { ApiError } from '@utils/ApiError'
+import {
+  buildCategorizationHistory,
+  suggestCategory,
+} from '@utils/bankCategorizationSuggester'
+import {
+  buildDedupeKeys,
+  parseCamt053Statement,
+  parseCsvStatement,
+  parseOfxStatement,
+} from '@utils/bankStatementParser'
+import {
+  formatDateToISOString,
+  formatDateToString,
+  getCurrentDate,
+  parseDateStringToUTC,
+  parseDateStringToUTCEndOfDay,
+} from '@utils/date'
+import { withTenantSchema } from '@utils/tenantQuery'
+
+/**
+ * Transactions inserted per statement
+ */
+const INSERT_BATCH_SIZE = 500
+
+/**
+ * Read a statement file in its format
+ */
+const parseStatement = (data: ImportBankStatementData): ParsedStatement => {
+  switch (data.format) {
+    case BankStatementFormat.CSV:
+      if (!data.csv) {
+        throw new ApiError(
+          HTTP_STATUS.BAD_REQUEST,
+          ERROR_MESSAGES.VALIDATION_FAILED
+        )
+      }
+      return parseCsvStatement(data.content, data.csv)
+    case BankStatementFormat.OFX:
+      return parseOfxStatement(data.content)
+    case BankStatementFormat.CAMT053:
+      return parseCamt053Statement(data.content)
+  }
+}
+
+/**
+ * Find a bank account
+ * @throws ApiError if the bank account does not exist
+ */
+const findBankAccountOrFail = async (
+  trx: Knex.Transaction,
+  tenantId: string,
+  accountId: string
+): Promise<Account> => {
+  const account = await Account.query(trx)
+    .modify('notDeleted')
+    .modify('byTenant', tenantId)
+    .findById(accountId)
+
+  if (!account) {
+    throw new ApiError(HTTP_STATUS.NOT_FOUND, ERROR_MESSAGES.ACCOUNT_NOT_FOUND)
+  }
+
+  return account
+}
+
+/**
+ * Find the active categorization rules, in priority order
+ * @param trx - Transaction already scoped to the tenant schema
+ */
+export const findActiveBankRules = async (
+  trx: Knex.Transaction,
+  tenantId: string
+): Promise<BankCategorizationRule[]> => {
+  return BankCategorizationRule.query(trx)
+    .modify('notDeleted')
+    .modify('byTenant', tenantId)
+    .modify('active')
+    .modify('inPriorityOrder')
+}
+
+/**
+ * Find the most recently categorized transactions suggestions are learned from
+ * @param trx - Transaction already scoped to the tenant schema
+ */
+export const findCategorizationHistory = async (
+  trx: Knex.Transaction,
+  tenantId: string
+): Promise<BankTransaction[]> => {
+  return BankTransaction.query(trx)
+    .modify('notDeleted')
+    .modify('byTenant', tenantId)
+    .where('status', BankTransactionStatus.CATEGORIZED)
+    .whereNotNull('category_account_id')
+    .orderBy('categorized_at', 'desc')
+    .limit(BANK_RULE_HISTORY_SIZE)
+}
+
+/**
+ * Suggest a category for each uncategorized transaction
+ * @param trx - Transaction already scoped to the tenant schema
+ * @returns Suggestions keyed by transaction ID
+ */
+const findSuggestions = async (
+  trx: Knex.Transaction,
+  tenantId: string,
+  transactions: BankTransaction[]
+): Promise<Map<string, BankTransactionSuggestion>> => {
+  const suggestions = new Map<string, BankTransactionSuggestion>()
+  const uncategorized = transactions.filter((transaction) =>
+    transaction.isUncategorized()
+  )
+  if (uncategorized.length === 0) {
+    return suggestions
+  }
+
+  const rules = await findActiveBankRules(trx, tenantId)
+  const history = buildCategorizationHistory(
+    await findCategorizationHistory(trx, tenantId)
+  )
+
+  for (const transaction of uncategorized) {
+    const suggestion = suggestCategory(rules, history, transaction)
+    if (suggestion) {
+      suggestions.set(transaction.id, suggestion)
+    }
+  }
+
+  return suggestions
+}
+
+/**
+ * Find bank transactions, most recent first
+ * Uncategorized transactions come with their suggested category
+ */
+export const findBankTransactions = async (
+  tenantId: string,
+  schemaName: string,
+  filters: BankTransactionFilters
+): Promise<BankTransactionListResult> => {
+  const { accountId, status, importId, startDate, endDate, search } = filters
+  const { page, limit } = filters
+
+  return withTenantSchema(schemaName, async (trx) => {
+    const query = BankTransaction.query(trx)
+      .modify('notDeleted')
+      .modify('byTenant', tenantId)
+
+    if (accountId) {
+      query.modify('byAccount', accountId)
+    }
+
+    if (status) {
+      query.where('status', status)
+    }
+
+    if (importId) {
+      query.where('import_id', importId)
+    }
+
+    if (startDate) {
+      query.where('transaction_date', '>=', parseDateStringToUTC(startDate))
+    }
+
+    if (endDate) {
+      query.where(
+        'transaction_date',
+        '<=',
+        parseDateStringToUTCEndOfDay(endDate)
+      )
+    }
+
+    if (search) {
+      query.where((builder) => {
+        builder
+          .where('description', 'ilike', `%${search}%`)
+          .orWhere('payee', 'ilike', `%${search}%`)
+          .orWhere('reference', 'ilike', `%${search}%`)
+      })
+    }
+
+    const total = await query.resultSize()
+    const transactions = await query
+      .withGraphFetched('[account, categoryAccount, taxGroup]')
+      .orderBy('transaction_date', 'desc')
+      .orderBy('created_at', 'desc')
+      .limit(limit)
+      .offset(calculateOffset(page, limit))
+    const suggestions = await findSuggestions(trx, tenantId, transactions)
+
+    return { transactions, suggestions, total }
+  })
+}
+
+/**
+ * Find bank transaction by ID
+ * @param trx - Optional transaction to use (if provided, won't create a new transaction)
+ */
+export const findBankTransactionById = async (
+  tenantId: string,
+  schemaName: string,
+  transactionId: string,
+  trx?: Knex.Transaction
+): Promise<BankTransaction> => {
+  const execute = async (transaction: Knex.Transaction) => {
+    const bankTransaction = await BankTransaction.query(transaction)
+      .modify('notDeleted')
+      .modify('byTenant', tenantId)
+      .withGraphFetched('[account, categoryAccount, taxGroup, journalEntry]')
+      .findById(transactionId)
+
+    if (!bankTransaction) {
+      throw new ApiError(
+        HTTP_STATUS.NOT_FOUND,
+        ERROR_MESSAGES.BANK_TRANSACTION_NOT_FOUND
+      )
+    }
+
+    return bankTransaction
+  }
+
+  // If transaction is provided, use it directly
+  if (trx) {
+    return execute(trx)
+  }
+
+  // Otherwise, create a new transaction
+  return withTenantSchema(schemaName, execute)
+}
+
+/**
+ * Find bank transaction with its suggested category
+ */
+export const findBankTransactionDetail = async (
+  tenantId: string,
+  schemaName: string,
+  transactionId: string
+): Promise<BankTransactionDetail> => {
+  return withTenantSchema(schemaName, async (trx) => {
+    const transaction = await findBankTransactionById(
+      tenantId,
+      schemaName,
+      transactionId,
+      trx
+    )
+    const suggestions = await findSuggestions(trx, tenantId, [transaction])
+
+    return { transaction, suggestion: suggestions.get(transaction.id) ?? null }
+  })
+}
+
+/**
+ * Find statement imports, most recent first
+ */
+export const findBankStatementImports = async (
+  tenantId: string,
+  schemaName: string,
+  filters: BankStatementImportFilters
+): Promise<BankStatementImportListResult> => {
+  const { accountId, page, limit } = filters
+
+  return withTenantSchema(schemaName, async (trx) => {
+    const query = BankStatementImport.query(trx)
+      .modify('notDeleted')
+      .modify('byTenant', tenantId)
+
+    if (accountId) {
+      query.modify('byAccount', accountId)
+    }
+
+    const total = await query.resultSize()
+    const imports = await query
+      .withGraphFetched('account')
+      .orderBy('created_at', 'desc')
+      .limit(limit)
+      .offset(calculateOffset(page, limit))
+
+    return { imports, total }
+  })
+}
+
+/**
+ * Import a statement file into the transactions inbox
+ * Lines already imported for the bank account are skipped: lines with a FITID
+ * match on it, other lines on a hash of their date, amount and text. Lines
+ * that cannot be read are reported back without failing the import.
+ * @param createdBy - User ID importing the statement
+ * @throws ApiError if the file has no lines, too many lines, or is in another
+ *   currency than the bank account
+ */
+export const importBankStatement = async (
+  tenantId: string,
+  schemaName: string,
+  createdBy: string,
+  data: ImportBankStatementData
+): Promise<BankStatementImport> => {
+  const statement = parseStatement(data)
+
+  if (statement.lines.length === 0 && statement.errors.length === 0) {
+    throw new ApiError(
+      HTTP_STATUS.BAD_REQUEST,
+      ERROR_MESSAGES.BANK_STATEMENT_EMPTY
+    )
+  }
+
+  if (statement.lines.length > BANK_STATEMENT_IMPORT_MAX_LINES) {
+    throw new ApiError(
+      HTTP_STATUS.BAD_REQUEST,
+      ERROR_MESSAGES.BANK_STATEMENT_TOO_LARGE
+    )
+  }
+
+  return withTenantSchema(schemaName, async (trx) => {
+    const account = await findBankAccountOrFail(trx, tenantId, data.accountId)
+
+    if (
+      statement.currencyCode &&
+      statement.currencyCode !== account.currencyCode
+    ) {
+      throw new ApiError(
+        HTTP_STATUS.BAD_REQUEST,
+        ERROR_MESSAGES.BANK_STATEMENT_CURRENCY_MISMATCH
+      )
+    }
+
+    const dedupeKeys = buildDedupeKeys(statement.lines)
+    const existingRows = (await trx('bank_transactions')
+      .where('tenant_id', tenantId)
+      .where('account_id', account.id)
+      .whereNull('deleted_at')
+      .whereIn('dedupe_key', dedupeKeys)
+      .select('dedupe_key')) as Array<{ dedupe_key: string }>
+    const existingKeys = new Set(existingRows.map((row) => row.dedupe_key))
+
+    const statementImport = await BankStatementImport.query(trx).insert({
+      tenantId,
+      createdBy,
+      accountId: account.id,
+      fileName: data.fileName ?? null,
+      format: data.format,
+      totalCount: statement.lines.length + statement.errors.length,
+      errors: statement.errors,
+    })
+
+    const newTransactions = statement.lines.flatMap((line, index) => {
+      const dedupeKey = dedupeKeys.at(index) ?? ''
+      if (existingKeys.has(dedupeKey)) {
+        return []
+      }
+      // A FITID repeated within the same file is imported once
+      existingKeys.add(dedupeKey)
+
+      return [
+        {
+          tenantId,
+          createdBy,
+          accountId: account.id,
+          importId: statementImport.id,
+          transactionDate: formatDateToISOString(
+            parseDateStringToUTC(line.date)
+          ) as unknown as Date,
+          amount: roundAmount(line.amount),
+          currencyCode: account.currencyCode,
+          description: line.description,
+          payee: line.payee,
+          reference: line.reference,
+          fitid: line.fitid,
+          dedupeKey,
+          status: BankTransactionStatus.UNCATEGORIZED,
+        },
+      ]
+    })
+
+    for (
+      let start = 0;
+      start < newTransactions.length;
+      start += INSERT_BATCH_SIZE
+    ) {
+      await BankTransaction.query(trx).insert(
+        newTransactions.slice(start, start + INSERT_BATCH_SIZE)
+      )
+    }
+
+    return statementImport.$query(trx).patchAndFetch({
+      importedCount: newTransactions.length,
+      duplicateCount: statement.lines.length - newTransactions.length,
+    })
+  })
+}
+
+/**
+ * Find an uncategorized bank transaction
+ * @throws ApiError if the transaction was already categorized or excluded
+ */
+const findUncategorizedTransaction = async (
+  trx: Knex.Transaction,
+  tenantId: string,
+  schemaName: string,
+  transactionId: string
+): Promise<BankTransaction> => {
+  const bankTransaction = await findBankTransactionById(
+    tenantId,
+    schemaName,
+    transactionId,
+    trx
+  )
+
+  if (!bankTransaction.isUncategorized()) {
+    throw new ApiError(
+      HTTP_STATUS.CONFLICT,
+      ERROR_MESSAGES.BANK_TRANSACTION_NOT_UNCATEGORIZED
+    )
+  }
+
+  return bankTransaction
+}
+
+/**
+ * Categorize a bank transaction into a journal entry
+ * Deposits debit the chart account linked to the bank account and credit the
+ * category account; payments do the opposite. The entry is posted, or
+ * submitted for approval when approval rules apply to it.
+ * A category account in the base currency is converted from a foreign bank
+ * account at the rate in effect on the transaction date.
+ * The tax group is recorded on the transaction; the entry posts the statement
+ * amount as is.
+ * @param categorizedBy - User ID categorizing the transaction
+ */
+export const categorizeBankTransaction = async (
+  tenantId: string,
+  schemaName: string,
+  categorizedBy: string,
+  transactionId: string,
+  data: CategorizeBankTransactionData
+): Promise<BankTransaction> => {
+  return withTenantSchema(schemaName, async (trx) => {
+    const bankTransaction = await findUncategorizedTransaction(
+      trx,
+      tenantId,
+      schemaName,
+      transactionId
+    )
+
+    const bankChartAccount = await ChartOfAccount.query(trx)
+      .modify('notDeleted')
+      .modify('byTenant', tenantId)
+      .where('bank_account_id', bankTransaction.accountId)
+      .first()
+    if (!bankChartAccount) {
+      throw new ApiError(
+        HTTP_STATUS.BAD_REQUEST,
+        ERROR_MESSAGES.BANK_TRANSACTION_NO_LINKED_ACCOUNT
+      )
+    }
+
+    const categoryAccount = await ChartOfAccount.query(trx)
+      .modify('notDeleted')
+      .modify('byTenant', tenantId)
+      .findById(data.categoryAccountId)
+    if (!categoryAccount) {
+      throw new ApiError(
+        HTTP_STATUS.NOT_FOUND,
+        ERROR_MESSAGES.CHART_OF_ACCOUNT_NOT_FOUND
+      )
+    }
+    if (
+      categoryAccount.id === bankChartAccount.id ||
+      !categoryAccount.isActive
+    ) {
+      throw new ApiError(
+        HTTP_STATUS.BAD_REQUEST,
+        ERROR_MESSAGES.BANK_TRANSACTION_CATEGORY_INVALID
+      )
+    }
+
+    if (data.taxGroupId) {
+      const taxGroup = await TaxGroup.query(trx)
+        .modify('notDeleted')
+        .modify('byTenant', tenantId)
+        .findById(data.taxGroupId)
+      if (!taxGroup) {
+        throw new ApiError(
+          HTTP_STATUS.NOT_FOUND,
+          ERROR_MESSAGES.TAX_GROUP_NOT_FOUND
+        )
+      }
+    }
+
+    const entryDate = formatDateToString(
+      bankTransaction.transactionDate
+    ) as string
+    const amount = Math.abs(Number(bankTransaction.amount))
+    let categoryAmount = amount
+    let bankExchangeRate: number | undefined
+
+    if (categoryAccount.currencyCode !== bankChartAccount.currencyCode) {
+      const baseCurrency = await findBaseCurrency(trx, tenantId)
+      if (categoryAccount.currencyCode !== baseCurrency) {
+        throw new ApiError(
+          HTTP_STATUS.BAD_REQUEST,
+          ERROR_MESSAGES.BANK_TRANSACTION_CATEGORY_CURRENCY
+        )
+      }
+
+      const rate = await findEffectiveExchangeRate(
+        trx,
+        tenantId,
+        bankChartAccount.currencyCode,
+        parseDateStringToUTC(entryDate)
+      )
+      if (!rate) {
+        throw new ApiError(
+          HTTP_STATUS.BAD_REQUEST,
+          ERROR_MESSAGES.EXCHANGE_RATE_MISSING
+        )
+      }
+      bankExchangeRate = Number(rate.rate)
+      categoryAmount = roundAmount(amount * bankExchangeRate)
+    }
+
+    const isDeposit = bankTransaction.isDeposit()
+    const bankLine = {
+      accountId: bankChartAccount.id,
+      lineNumber: 1,
+      debit: isDeposit ? amount : 0,
+      credit: isDeposit ? 0 : amount,
+      ...(bankExchangeRate !== undefined && { exchangeRate: bankExchangeRate }),
+    }
+    const categoryLine = {
+      accountId: categoryAccount.id,
+      lineNumber: 2,
+      debit: isDeposit ? 0 : categoryAmount,
+      credit: isDeposit ? categoryAmount : 0,
+    }
+
+    const description =
+      data.description ??
+      bankTransaction.description ??
+      bankTransaction.payee ??
+      undefined
+    const created = await createJournalEntry(
+      tenantId,
+      schemaName,
+      categorizedBy,
+      {
+        entryDate,
+        entryType: JournalEntryType.STANDARD,
+        isAdjusting: false,
+        isClosing: false,
+        isReversing: false,
+        ...(description && { description }),
+        ...(bankTransaction.reference && {
+          reference: bankTransaction.reference,
+        }),
+        ...(data.memo && { memo: data.memo }),
+        sourceModule: BANK_TRANSACTION_SOURCE_MODULE,
+        sourceId: bankTransaction.id,
+        lines: [bankLine, categoryLine],
+      },
+      trx
+    )
+
+    const entry = await postOrSubmitJournalEntry(
+      tenantId,
+      schemaName,
+      created,
+      categorizedBy,
+      trx
+    )
+
+    await bankTransaction.$query(trx).patch({
+      status: BankTransactionStatus.CATEGORIZED,
+      journalEntryId: entry.id,
+      categoryAccountId: categoryAccount.id,
+      taxGroupId: data.taxGroupId ?? null,
+      ruleId: data.ruleId ?? null,
+      categorizedAt: formatDateToISOString(getCurrentDate()) as unknown as Date,
+      categorizedBy,
+    })
+
+    return findBankTransactionById(
+      tenantId,
+      schemaName,
+      bankTransaction.id,
+      trx
+    )
+  })
+}
+
+/**
+ * Exclude a bank transaction from the inbox
+ * Used for lines that need no journal entry, such as transactions already
+ * entered by hand
+ */
+export const excludeBankTransaction = async (
+  tenantId: string,
+  schemaName: string,
+  transactionId: string
+): Promise<BankTransaction> => {
+  return withTenantSchema(schemaName, async (trx) => {
+    const bankTransaction = await findUncategorizedTransaction(
+      trx,
+      tenantId,
+      schemaName,
+      transactionId
+    )
+
+    await bankTransaction.$query(trx).patch({
+      status: BankTransactionStatus.EXCLUDED,
+    })
+
+    return findBankTransactionById(
+      tenantId,
+      schemaName,
+      bankTransaction.id,
+      trx
+    )
+  })
+}
+
+/**
+ * Put an excluded bank transaction back in the inbox
+ */
+export const restoreBankTransaction = async (
+  tenantId: string,
+  schemaName: string,
+  transactionId: string
+): Promise<BankTransaction> => {
+  return withTenantSchema(schemaName, async (trx) => {
+    const bankTransaction = await findBankTransactionById(
+      tenantId,
+      schemaName,
+      transactionId,
+      trx
+    )
+
+    if (bankTransaction.status !== BankTransactionStatus.EXCLUDED) {
+      throw new ApiError(
+        HTTP_STATUS.CONFLICT,
+        ERROR_MESSAGES.BANK_TRANSACTION_NOT_EXCLUDED
+      )
+    }
+
+    await bankTransaction.$query(trx).patch({
+      status: BankTransactionStatus.UNCATEGORIZED,
+    })
+
+    return findBankTransactionById(
+      tenantId,
+      schemaName,
+      bankTransaction.id,
+      trx
+    )
+  })
+}
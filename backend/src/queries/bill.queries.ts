@@ -0,0 +1,953 @@
+import type { Knex } from 'knex'
+
+import type {
+  BillFilters,
+  BillLineData,
+  BillListResult,
+  CreateBillData,
+  UpdateBillData,
+  UpdateBillSettingsData,
+  VoidBillData,
+} from '@/types/bill.type'
+import { ERROR_MESSAGES } from '@constants/errors'
+import { HTTP_STATUS } from '@constants/http'
+import { BILL_SOURCE_MODULE, Bill, BillStatus, BillType } from '@models/Bill'
+import { BillLine } from '@models/BillLine'
+import { BillSettings } from '@models/BillSettings'
+import { AccountType, ChartOfAccount } from '@models/ChartOfAccount'
+import { Contact } from '@models/Contact'
+import { JournalEntryType } from '@models/JournalEntry'
+import { assertContactsExist, findContactById } from '@queries/contact.queries'
+import { postOrSubmitJournalEntry } from '@queries/journalApproval.queries'
+import {
+  createJournalEntry,
+  findJournalEntryById,
+  reverseJournalEntry,
+  voidJournalEntry,
+} from '@queries/journalEntry.queries'
+import { roundAmount } from '@queries/report.queries'
+import { findTaxGroupById } from '@queries/taxGroup.queries'
+import { calculateOffset } from '@schema/shared.schema'
+import { ApiError } from '@utils/ApiError'
+import {
+  addUTCDays,
+  formatDateToString,
+  getCurrentDate,
+  parseDateStringToUTC,
+  toDateColumn,
+} from '@utils/date'
+import {
+  calculateTaxWithGroupAndExemptions,
+  type TaxCalculationResult,
+} from '@utils/taxCalculation'
+import { withTenantSchema } from '@utils/tenantQuery'
+
+/**
+ * Bill line with its amounts, and the account and tax group resolved from
+ * the vendor's defaults
+ */
+interface CalculatedBillLine {
+  description: string
+  quantity: number
+  unitPrice: number
+  amount: number
+  accountId: string
+  taxGroupId: string | null
+  taxAmount: number
+  isTaxRecoverable: boolean
+  taxBreakdown: TaxCalculationResult['taxBreakdown']
+}
+
+/**
+ * Map sort field to database column
+ */
+const mapBillSortField = (field: string): string => {
+  const fieldMap: Record<string, string> = {
+    billNumber: 'bill_number',
+    billDate: 'bill_date',
+    dueDate: 'due_date',
+    total: 'total',
+    status: 'status',
+    createdAt: 'created_at',
+  }
+  // eslint-disable-next-line security/detect-object-injection
+  return fieldMap[field] ?? 'bill_date'
+}
+
+/**
+ * Start of today (UTC); open bills due before it are overdue
+ */
+export const getBillStatusDate = (): Date =>
+  parseDateStringToUTC(formatDateToString(getCurrentDate()) as string)
+
+/**
+ * Load the vendor of a bill
+ * The contact must be an active vendor
+ */
+const findBillVendor = async (
+  tenantId: string,
+  schemaName: string,
+  contactId: string
+): Promise<Contact> => {
+  const contact = await findContactById(tenantId, schemaName, contactId)
+
+  if (!contact.isActive) {
+    throw new ApiError(HTTP_STATUS.BAD_REQUEST, ERROR_MESSAGES.CONTACT_INACTIVE)
+  }
+  if (!contact.isVendor()) {
+    throw new ApiError(
+      HTTP_STATUS.BAD_REQUEST,
+      ERROR_MESSAGES.BILL_CONTACT_NOT_VENDOR
+    )
+  }
+
+  return contact
+}
+
+/**
+ * Validate the vendor and payment account required by the bill type
+ */
+const assertBillParties = (
+  billType: BillType,
+  contactId: string | null | undefined,
+  paymentAccountId: string | null | undefined
+): void => {
+  if (billType === BillType.BILL && !contactId) {
+    throw new ApiError(
+      HTTP_STATUS.BAD_REQUEST,
+      ERROR_MESSAGES.BILL_VENDOR_REQUIRED
+    )
+  }
+  if (billType === BillType.EXPENSE && !paymentAccountId) {
+    throw new ApiError(
+      HTTP_STATUS.BAD_REQUEST,
+      ERROR_MESSAGES.BILL_PAYMENT_ACCOUNT_REQUIRED
+    )
+  }
+}
+
+/**
+ * Calculate the amounts and tax of bill lines
+ * Lines without an account or tax group take the vendor's defaults. Tax is
+ * calculated per line with the tax group and the vendor's exemptions.
+ * Runs outside the bill transaction because the tax calculation reads tax
+ * groups and exemptions in transactions of its own.
+ */
+const calculateBillLines = async (
+  tenantId: string,
+  schemaName: string,
+  contact: Contact | null,
+  lines: BillLineData[]
+): Promise<CalculatedBillLine[]> => {
+  const calculated: CalculatedBillLine[] = []
+
+  for (const line of lines) {
+    const accountId = line.accountId ?? contact?.defaultExpenseAccountId
+    if (!accountId) {
+      throw new ApiError(
+        HTTP_STATUS.BAD_REQUEST,
+        ERROR_MESSAGES.BILL_LINE_ACCOUNT_REQUIRED
+      )
+    }
+
+    const taxGroupId =
+      line.taxGroupId === undefined
+        ? (contact?.defaultTaxGroupId ?? null)
+        : line.taxGroupId
+    const amount = roundAmount(line.quantity * line.unitPrice)
+
+    let taxAmount = 0
+    let taxBreakdown: TaxCalculationResult['taxBreakdown'] = []
+    if (taxGroupId) {
+      const taxGroup = await findTaxGroupById(tenantId, schemaName, taxGroupId)
+      const tax = await calculateTaxWithGroupAndExemptions(
+        amount,
+        taxGroup,
+        contact?.id ?? null,
+        tenantId,
+        schemaName
+      )
+      taxAmount = roundAmount(tax.taxAmount)
+      taxBreakdown = tax.taxBreakdown.map((item) => ({
+        ...item,
+        taxAmount: roundAmount(item.taxAmount),
+      }))
+    }
+
+    calculated.push({
+      description: line.description,
+      quantity: line.quantity,
+      unitPrice: line.unitPrice,
+      amount,
+      accountId,
+      taxGroupId,
+      taxAmount,
+      isTaxRecoverable: line.isTaxRecoverable ?? true,
+      taxBreakdown,
+    })
+  }
+
+  return calculated
+}
+
+/**
+ * Validate that bill lines debit existing expense accounts
+ */
+const assertExpenseAccounts = async (
+  trx: Knex.Transaction,
+  tenantId: string,
+  lines: CalculatedBillLine[]
+): Promise<void> => {
+  const accountIds = [...new Set(lines.map((line) => line.accountId))]
+  const accounts = await ChartOfAccount.query(trx)
+    .modify('notDeleted')
+    .modify('byTenant', tenantId)
+    .whereIn('id', accountIds)
+    .select('id', 'account_type')
+
+  if (accounts.length !== accountIds.length) {
+    throw new ApiError(
+      HTTP_STATUS.NOT_FOUND,
+      ERROR_MESSAGES.CHART_OF_ACCOUNT_NOT_FOUND
+    )
+  }
+
+  if (accounts.some((account) => account.accountType !== AccountType.EXPENSE)) {
+    throw new ApiError(
+      HTTP_STATUS.BAD_REQUEST,
+      ERROR_MESSAGES.BILL_LINE_ACCOUNT_INVALID
+    )
+  }
+}
+
+/**
+ * Validate a ledger account used by bills
+ * The account must exist, be active and have one of the given types
+ */
+const assertLedgerAccount = async (
+  trx: Knex.Transaction,
+  tenantId: string,
+  accountId: string,
+  accountTypes: AccountType[],
+  message: string
+): Promise<ChartOfAccount> => {
+  const account = await ChartOfAccount.query(trx)
+    .modify('notDeleted')
+    .modify('byTenant', tenantId)
+    .findById(accountId)
+
+  if (!account) {
+    throw new ApiError(
+      HTTP_STATUS.NOT_FOUND,
+      ERROR_MESSAGES.CHART_OF_ACCOUNT_NOT_FOUND
+    )
+  }
+  if (!accountTypes.includes(account.accountType) || !account.isActive) {
+    throw new ApiError(HTTP_STATUS.BAD_REQUEST, message)
+  }
+
+  return account
+}
+
+/**
+ * Get the bill settings of a tenant, creating them the first time
+ */
+const getOrCreateBillSettings = async (
+  trx: Knex.Transaction,
+  tenantId: string
+): Promise<BillSettings> => {
+  const settings = await BillSettings.query(trx)
+    .modify('byTenant', tenantId)
+    .first()
+
+  if (settings) {
+    return settings
+  }
+
+  return BillSettings.query(trx).insert({ tenantId })
+}
+
+/**
+ * Insert the lines of a bill and return the bill totals
+ */
+const insertBillLines = async (
+  trx: Knex.Transaction,
+  tenantId: string,
+  billId: string,
+  createdBy: string,
+  lines: CalculatedBillLine[]
+): Promise<{
+  subtotal: number
+  taxAmount: number
+  recoverableTaxAmount: number
+  total: number
+}> => {
+  await BillLine.query(trx).insert(
+    lines.map((line, index) => ({
+      tenantId,
+      billId,
+      createdBy,
+      lineNumber: index + 1,
+      ...line,
+    }))
+  )
+
+  const subtotal = roundAmount(
+    lines.reduce((sum, line) => sum + line.amount, 0)
+  )
+  const taxAmount = roundAmount(
+    lines.reduce((sum, line) => sum + line.taxAmount, 0)
+  )
+  const recoverableTaxAmount = roundAmount(
+    lines
+      .filter((line) => line.isTaxRecoverable)
+      .reduce((sum, line) => sum + line.taxAmount, 0)
+  )
+
+  return {
+    subtotal,
+    taxAmount,
+    recoverableTaxAmount,
+    total: roundAmount(subtotal + taxAmount),
+  }
+}
+
+/**
+ * Find bill settings
+ * @param trx - Optional transaction to use (if provided, won't create a new transaction)
+ */
+export const findBillSettings = async (
+  tenantId: string,
+  schemaName: string,
+  trx?: Knex.Transaction
+): Promise<BillSettings> => {
+  const execute = async (transaction: Knex.Transaction) => {
+    const settings = await getOrCreateBillSettings(transaction, tenantId)
+
+    return (await BillSettings.query(transaction)
+      .findById(settings.id)
+      .withGraphFetched('[payableAccount, taxAccount]')) as BillSettings
+  }
+
+  // If transaction is provided, use it directly
+  if (trx) {
+    return execute(trx)
+  }
+
+  // Otherwise, create a new transaction
+  return withTenantSchema(schemaName, execute)
+}
+
+/**
+ * Update bill settings
+ */
+export const updateBillSettings = async (
+  tenantId: string,
+  schemaName: string,
+  data: UpdateBillSettingsData
+): Promise<BillSettings> => {
+  return withTenantSchema(schemaName, async (trx) => {
+    const settings = await getOrCreateBillSettings(trx, tenantId)
+
+    if (data.payableAccountId) {
+      await assertLedgerAccount(
+        trx,
+        tenantId,
+        data.payableAccountId,
+        [AccountType.LIABILITY],
+        ERROR_MESSAGES.BILL_PAYABLE_ACCOUNT_INVALID
+      )
+    }
+    if (data.taxAccountId) {
+      await assertLedgerAccount(
+        trx,
+        tenantId,
+        data.taxAccountId,
+        [AccountType.ASSET, AccountType.LIABILITY],
+        ERROR_MESSAGES.BILL_TAX_ACCOUNT_INVALID
+      )
+    }
+
+    const updateData: Partial<BillSettings> = {}
+    if (data.payableAccountId !== undefined)
+      updateData.payableAccountId = data.payableAccountId
+    if (data.taxAccountId !== undefined)
+      updateData.taxAccountId = data.taxAccountId
+
+    await settings.$query(trx).patch(updateData)
+
+    return findBillSettings(tenantId, schemaName, trx)
+  })
+}
+
+/**
+ * Find bills with pagination, sorting, search, and filtering
+ * The overdue status filter matches open and partially paid bills past their
+ * due date. The account filter matches bills with a line on the account.
+ */
+export const findBills = async (
+  tenantId: string,
+  schemaName: string,
+  filters: BillFilters
+): Promise<BillListResult> => {
+  const {
+    page,
+    limit,
+    sort = 'billDate',
+    order = 'desc',
+    search,
+    status,
+    billType,
+    contactId,
+    accountId,
+    startDate,
+    endDate,
+  } = filters
+
+  const offset = calculateOffset(page, limit)
+  const sortColumn = mapBillSortField(sort)
+
+  return withTenantSchema(schemaName, async (trx) => {
+    const query = Bill.query(trx)
+      .modify('notDeleted')
+      .modify('byTenant', tenantId)
+
+    if (status) {
+      query.modify('byStatus', status, getBillStatusDate())
+    }
+
+    if (billType) {
+      query.modify('byType', billType)
+    }
+
+    if (contactId) {
+      query.modify('byContact', contactId)
+    }
+
+    if (accountId) {
+      query.whereIn(
+        'id',
+        BillLine.query(trx)
+          .modify('notDeleted')
+          .modify('byTenant', tenantId)
+          .where('account_id', accountId)
+          .select('bill_id')
+      )
+    }
+
+    if (startDate) {
+      query.where('bill_date', '>=', parseDateStringToUTC(startDate))
+    }
+    if (endDate) {
+      query.where('bill_date', '<=', parseDateStringToUTC(endDate))
+    }
+
+    // Search in bill number, reference, memo, vendor name and line descriptions
+    if (search) {
+      query.where((builder) => {
+        builder
+          .where('bill_number', 'ilike', `%${search}%`)
+          .orWhere('reference', 'ilike', `%${search}%`)
+          .orWhere('memo', 'ilike', `%${search}%`)
+          .orWhereIn(
+            'contact_id',
+            Contact.query(trx)
+              .modify('byTenant', tenantId)
+              .where('display_name', 'ilike', `%${search}%`)
+              .select('id')
+          )
+          .orWhereIn(
+            'id',
+            BillLine.query(trx)
+              .modify('notDeleted')
+              .modify('byTenant', tenantId)
+              .where('description', 'ilike', `%${search}%`)
+              .select('bill_id')
+          )
+      })
+    }
+
+    const total = await query.resultSize()
+
+    const bills = await query
+      .withGraphFetched('[contact, lines.account]')
+      .orderBy(sortColumn, order)
+      .orderBy('created_at', order)
+      .limit(limit)
+      .offset(offset)
+
+    return { bills, total }
+  })
+}
+
+/**
+ * Find bill by ID with vendor and lines
+ * @param trx - Optional transaction to use (if provided, won't create a new transaction)
+ */
+export const findBillById = async (
+  tenantId: string,
+  schemaName: string,
+  billId: string,
+  trx?: Knex.Transaction
+): Promise<Bill> => {
+  const execute = async (transaction: Knex.Transaction) => {
+    const bill = await Bill.query(transaction)
+      .modify('notDeleted')
+      .modify('byTenant', tenantId)
+      .modify('withLines')
+      .findById(billId)
+
+    if (!bill) {
+      throw new ApiError(HTTP_STATUS.NOT_FOUND, ERROR_MESSAGES.BILL_NOT_FOUND)
+    }
+
+    return bill
+  }
+
+  // If transaction is provided, use it directly
+  if (trx) {
+    return execute(trx)
+  }
+
+  // Otherwise, create a new transaction
+  return withTenantSchema(schemaName, execute)
+}
+
+/**
+ * Create a draft bill or expense
+ * Bills are due on the bill date plus the vendor's payment terms unless a
+ * due date is given; expenses are due on the bill date
+ */
+export const createBill = async (
+  tenantId: string,
+  schemaName: string,
+  createdBy: string,
+  data: CreateBillData
+): Promise<Bill> => {
+  const billType = data.billType ?? BillType.BILL
+  assertBillParties(billType, data.contactId, data.paymentAccountId)
+
+  const contact = data.contactId
+    ? await findBillVendor(tenantId, schemaName, data.contactId)
+    : null
+  const lines = await calculateBillLines(
+    tenantId,
+    schemaName,
+    contact,
+    data.lines
+  )
+
+  return withTenantSchema(schemaName, async (trx) => {
+    await assertExpenseAccounts(trx, tenantId, lines)
+
+    const paymentAccountId =
+      billType === BillType.EXPENSE ? (data.paymentAccountId ?? null) : null
+    if (paymentAccountId) {
+      await assertLedgerAccount(
+        trx,
+        tenantId,
+        paymentAccountId,
+        [AccountType.ASSET],
+        ERROR_MESSAGES.BILL_PAYMENT_ACCOUNT_INVALID
+      )
+    }
+
+    const billDate = parseDateStringToUTC(data.billDate)
+    let dueDate = billDate
+    if (billType === BillType.BILL) {
+      dueDate = data.dueDate
+        ? parseDateStringToUTC(data.dueDate)
+        : addUTCDays(billDate, contact?.paymentTermsDays ?? 0)
+    }
+
+    const bill = await Bill.query(trx).insert({
+      tenantId,
+      createdBy,
+      billType,
+      billNumber: data.billNumber ?? null,
+      contactId: contact?.id ?? null,
+      status: BillStatus.DRAFT,
+      billDate: toDateColumn(billDate),
+      dueDate: toDateColumn(dueDate),
+      paymentAccountId,
+      reference: data.reference ?? null,
+      memo: data.memo ?? null,
+    })
+
+    const totals = await insertBillLines(
+      trx,
+      tenantId,
+      bill.id,
+      createdBy,
+      lines
+    )
+    await bill.$query(trx).patch(totals)
+
+    return findBillById(tenantId, schemaName, bill.id, trx)
+  })
+}
+
+/**
+ * Update a draft bill
+ * Replacing the lines soft-deletes the old ones. Tax is recalculated when the
+ * lines or the vendor change.
+ */
+export const updateBill = async (
+  tenantId: string,
+  schemaName: string,
+  billId: string,
+  updatedBy: string,
+  data: UpdateBillData
+): Promise<Bill> => {
+  const existing = await findBillById(tenantId, schemaName, billId)
+  if (!existing.isDraft()) {
+    throw new ApiError(HTTP_STATUS.CONFLICT, ERROR_MESSAGES.BILL_NOT_DRAFT)
+  }
+
+  const billType = data.billType ?? existing.billType
+  const contactId =
+    data.contactId !== undefined ? data.contactId : existing.contactId
+  const paymentAccountId =
+    billType === BillType.EXPENSE
+      ? data.paymentAccountId !== undefined
+        ? data.paymentAccountId
+        : existing.paymentAccountId
+      : null
+  assertBillParties(billType, contactId, paymentAccountId)
+
+  const contactChanged = (contactId ?? null) !== (existing.contactId ?? null)
+  let lines: CalculatedBillLine[] | undefined
+  if (data.lines || contactChanged) {
+    const contact = contactId
+      ? await findBillVendor(tenantId, schemaName, contactId)
+      : null
+    lines = await calculateBillLines(
+      tenantId,
+      schemaName,
+      contact,
+      data.lines ??
+        (existing.lines ?? []).map((line) => ({
+          description: line.description,
+          quantity: Number(line.quantity),
+          unitPrice: Number(line.unitPrice),
+          accountId: line.accountId,
+          taxGroupId: line.taxGroupId ?? null,
+          isTaxRecoverable: line.isTaxRecoverable,
+        }))
+    )
+  }
+
+  return withTenantSchema(schemaName, async (trx) => {
+    // Re-read inside the transaction so a concurrent post is not overwritten
+    const bill = await findBillById(tenantId, schemaName, billId, trx)
+    if (!bill.isDraft()) {
+      throw new ApiError(HTTP_STATUS.CONFLICT, ERROR_MESSAGES.BILL_NOT_DRAFT)
+    }
+
+    if (paymentAccountId && paymentAccountId !== bill.paymentAccountId) {
+      await assertLedgerAccount(
+        trx,
+        tenantId,
+        paymentAccountId,
+        [AccountType.ASSET],
+        ERROR_MESSAGES.BILL_PAYMENT_ACCOUNT_INVALID
+      )
+    }
+
+    const billDate = data.billDate
+      ? parseDateStringToUTC(data.billDate)
+      : new Date(bill.billDate)
+    let dueDate = billDate
+    if (billType === BillType.BILL) {
+      dueDate = data.dueDate
+        ? parseDateStringToUTC(data.dueDate)
+        : new Date(bill.dueDate)
+    }
+    if (dueDate < billDate) {
+      throw new ApiError(
+        HTTP_STATUS.BAD_REQUEST,
+        ERROR_MESSAGES.BILL_DUE_DATE_INVALID
+      )
+    }
+
+    const updateData: Partial<Bill> = {
+      billType,
+      contactId: contactId ?? null,
+      paymentAccountId: paymentAccountId ?? null,
+      billDate: toDateColumn(billDate),
+      dueDate: toDateColumn(dueDate),
+    }
+    if (data.billNumber !== undefined) updateData.billNumber = data.billNumber
+    if (data.reference !== undefined) updateData.reference = data.reference
+    if (data.memo !== undefined) updateData.memo = data.memo
+
+    if (lines) {
+      await assertExpenseAccounts(trx, tenantId, lines)
+
+      await BillLine.query(trx)
+        .modify('notDeleted')
+        .modify('byBill', bill.id)
+        .patch({
+          deletedAt: toDateColumn(getCurrentDate()),
+        })
+
+      Object.assign(
+        updateData,
+        await insertBillLines(trx, tenantId, bill.id, updatedBy, lines)
+      )
+    }
+
+    await bill.$query(trx).patch(updateData)
+
+    return findBillById(tenantId, schemaName, bill.id, trx)
+  })
+}
+
+/**
+ * Delete a draft bill (soft delete)
+ * Posted bills are voided instead so their ledger history is kept
+ */
+export const deleteBill = async (
+  tenantId: string,
+  schemaName: string,
+  billId: string
+): Promise<Bill> => {
+  return withTenantSchema(schemaName, async (trx) => {
+    const bill = await findBillById(tenantId, schemaName, billId, trx)
+    if (!bill.isDraft()) {
+      throw new ApiError(HTTP_STATUS.CONFLICT, ERROR_MESSAGES.BILL_NOT_DRAFT)
+    }
+
+    return bill.$query(trx).patchAndFetch({
+      deletedAt: toDateColumn(getCurrentDate()),
+    })
+  })
+}
+
+/**
+ * Post a bill and its journal entry
+ * The entry, dated on the bill date, debits each line's expense account and
+ * the recoverable tax account, and credits the payable account (bills) or
+ * the payment account (expenses) with the total. Tax that cannot be
+ * reclaimed is added to the expense of its line. Every line is tagged with
+ * the vendor. The entry is posted, or submitted for approval when approval
+ * rules apply to it.
+ * Bills become open; expenses are paid in full.
+ * @param postedBy - User ID posting the bill
+ */
+export const postBill = async (
+  tenantId: string,
+  schemaName: string,
+  postedBy: string,
+  billId: string
+): Promise<Bill> => {
+  return withTenantSchema(schemaName, async (trx) => {
+    const bill = await findBillById(tenantId, schemaName, billId, trx)
+    if (!bill.isDraft()) {
+      throw new ApiError(HTTP_STATUS.CONFLICT, ERROR_MESSAGES.BILL_NOT_DRAFT)
+    }
+
+    const total = Number(bill.total)
+    const recoverableTaxAmount = Number(bill.recoverableTaxAmount)
+    if (total <= 0) {
+      throw new ApiError(
+        HTTP_STATUS.BAD_REQUEST,
+        ERROR_MESSAGES.BILL_TOTAL_INVALID
+      )
+    }
+
+    await assertContactsExist(trx, tenantId, [bill.contactId])
+
+    const settings = await getOrCreateBillSettings(trx, tenantId)
+
+    let creditAccount: ChartOfAccount
+    if (bill.isExpense()) {
+      creditAccount = await assertLedgerAccount(
+        trx,
+        tenantId,
+        bill.paymentAccountId as string,
+        [AccountType.ASSET],
+        ERROR_MESSAGES.BILL_PAYMENT_ACCOUNT_INVALID
+      )
+    } else {
+      if (!settings.payableAccountId) {
+        throw new ApiError(
+          HTTP_STATUS.BAD_REQUEST,
+          ERROR_MESSAGES.BILL_PAYABLE_ACCOUNT_MISSING
+        )
+      }
+      creditAccount = await assertLedgerAccount(
+        trx,
+        tenantId,
+        settings.payableAccountId,
+        [AccountType.LIABILITY],
+        ERROR_MESSAGES.BILL_PAYABLE_ACCOUNT_INVALID
+      )
+    }
+
+    let taxAccount: ChartOfAccount | undefined
+    if (recoverableTaxAmount > 0) {
+      if (!settings.taxAccountId) {
+        throw new ApiError(
+          HTTP_STATUS.BAD_REQUEST,
+          ERROR_MESSAGES.BILL_TAX_ACCOUNT_MISSING
+        )
+      }
+      taxAccount = await assertLedgerAccount(
+        trx,
+        tenantId,
+        settings.taxAccountId,
+        [AccountType.ASSET, AccountType.LIABILITY],
+        ERROR_MESSAGES.BILL_TAX_ACCOUNT_INVALID
+      )
+    }
+
+    const label = bill.isExpense() ? 'Expense' : 'Bill'
+    const description = bill.billNumber ? `${label} ${bill.billNumber}` : label
+    const contact = bill.contactId ? { contactId: bill.contactId } : {}
+    const entryLines = (bill.lines ?? [])
+      .filter((line) => line.getExpenseAmount() > 0)
+      .map((line, index) => ({
+        accountId: line.accountId,
+        lineNumber: index + 1,
+        debit: roundAmount(line.getExpenseAmount()),
+        credit: 0,
+        description: line.description,
+        ...contact,
+      }))
+    if (taxAccount) {
+      entryLines.push({
+        accountId: taxAccount.id,
+        lineNumber: entryLines.length + 1,
+        debit: recoverableTaxAmount,
+        credit: 0,
+        description: `Recoverable tax on ${description}`,
+        ...contact,
+      })
+    }
+    entryLines.push({
+      accountId: creditAccount.id,
+      lineNumber: entryLines.length + 1,
+      debit: 0,
+      credit: total,
+      description,
+      ...contact,
+    })
+
+    const created = await createJournalEntry(
+      tenantId,
+      schemaName,
+      postedBy,
+      {
+        entryDate: formatDateToString(bill.billDate) as string,
+        entryType: JournalEntryType.STANDARD,
+        isAdjusting: false,
+        isClosing: false,
+        isReversing: false,
+        description: bill.contact
+          ? `${description} - ${bill.contact.displayName}`
+          : description,
+        ...(bill.billNumber || bill.reference
+          ? { reference: (bill.billNumber ?? bill.reference) as string }
+          : {}),
+        sourceModule: BILL_SOURCE_MODULE,
+        sourceId: bill.id,
+        lines: entryLines,
+      },
+      trx
+    )
+
+    const entry = await postOrSubmitJournalEntry(
+      tenantId,
+      schemaName,
+      created,
+      postedBy,
+      trx
+    )
+
+    await bill.$query(trx).patch({
+      status: bill.isExpense() ? BillStatus.PAID : BillStatus.OPEN,
+      amountPaid: bill.isExpense() ? total : 0,
+      payableAccountId: bill.isExpense() ? null : creditAccount.id,
+      journalEntryId: entry.id,
+      postedAt: toDateColumn(getCurrentDate()),
+      postedBy,
+    })
+
+    return findBillById(tenantId, schemaName, bill.id, trx)
+  })
+}
+
+/**
+ * Void a bill
+ * A posted bill entry is reversed on the void date; an entry still waiting
+ * for approval is voided. Drafts are voided without touching the ledger.
+ * Bills with payments applied cannot be voided; the payment of an expense is
+ * part of its own entry and is reversed with it.
+ * @param voidedBy - User ID voiding the bill
+ */
+export const voidBill = async (
+  tenantId: string,
+  schemaName: string,
+  voidedBy: string,
+  billId: string,
+  data: VoidBillData
+): Promise<Bill> => {
+  return withTenantSchema(schemaName, async (trx) => {
+    const bill = await findBillById(tenantId, schemaName, billId, trx)
+    if (bill.isVoid()) {
+      throw new ApiError(HTTP_STATUS.CONFLICT, ERROR_MESSAGES.BILL_ALREADY_VOID)
+    }
+    if (!bill.isExpense() && Number(bill.amountPaid) > 0) {
+      throw new ApiError(
+        HTTP_STATUS.BAD_REQUEST,
+        ERROR_MESSAGES.BILL_HAS_PAYMENTS
+      )
+    }
+
+    let voidJournalEntryId: string | null = null
+    if (bill.journalEntryId) {
+      const entry = await findJournalEntryById(
+        tenantId,
+        schemaName,
+        bill.journalEntryId,
+        trx
+      )
+
+      if (entry.isPosted()) {
+        const voidDate = data.voidDate
+          ? parseDateStringToUTC(data.voidDate)
+          : getBillStatusDate()
+        if (voidDate < new Date(bill.billDate)) {
+          throw new ApiError(
+            HTTP_STATUS.BAD_REQUEST,
+            ERROR_MESSAGES.BILL_VOID_DATE_INVALID
+          )
+        }
+
+        const reversal = await reverseJournalEntry(
+          tenantId,
+          schemaName,
+          entry.id,
+          voidDate,
+          voidedBy,
+          trx
+        )
+        voidJournalEntryId = reversal.id
+      } else if (!entry.isVoided()) {
+        await voidJournalEntry(tenantId, schemaName, entry.id, trx)
+      }
+    }
+
+    await bill.$query(trx).patch({
+      status: BillStatus.VOID,
+      amountPaid: 0,
+      voidJournalEntryId,
+      voidedAt: toDateColumn(getCurrentDate()),
+      voidedBy,
+      voidReason: data.reason ?? null,
+    })
+
+    return findBillById(tenantId, schemaName, bill.id, trx)
+  })
+}
@@ -0,0 +1,663 @@
+import type { Knex } from 'knex'
+
+import type {
+  ApplyBudgetGrowthData,
+  BudgetFile,
+  BudgetFilters,
+  BudgetImportError,
+  BudgetImportLine,
+  BudgetImportResult,
+  BudgetLineData,
+  BudgetListResult,
+  BudgetMonth,
+  CopyBudgetActualsData,
+  CreateBudgetData,
+  ImportBudgetData,
+  UpdateBudgetData,
+} from '@/types/budget.type'
+import { ERROR_MESSAGES } from '@constants/errors'
+import { HTTP_STATUS } from '@constants/http'
+import { IMPORT_FILE } from '@constants/import'
+import { Budget } from '@models/Budget'
+import { BudgetLine } from '@models/BudgetLine'
+import { AccountType, ChartOfAccount } from '@models/ChartOfAccount'
+import type { FiscalYear } from '@models/FiscalYear'
+import { findFiscalYearById } from '@queries/fiscalYear.queries'
+import {
+  getNaturalBalance,
+  roundAmount,
+  sumPostedLinesByAccount,
+} from '@queries/report.queries'
+import { calculateOffset } from '@schema/shared.schema'
+import { ApiError } from '@utils/ApiError'
+import { parseBudgetFile } from '@utils/budgetImport'
+import {
+  addUTCMonths,
+  formatDateToISOString,
+  formatDateToMonthLabel,
+  formatDateToString,
+  getCurrentDate,
+} from '@utils/date'
+import { readSpreadsheetRows } from '@utils/spreadsheetParser'
+import { withTenantSchema } from '@utils/tenantQuery'
+
+/**
+ * Account types that can be budgeted
+ */
+export const BUDGET_ACCOUNT_TYPES: AccountType[] = [
+  AccountType.REVENUE,
+  AccountType.EXPENSE,
+]
+
+/**
+ * Map sort field to database column
+ */
+const mapBudgetSortField = (field: string): string => {
+  const fieldMap: Record<string, string> = {
+    name: 'name',
+    createdAt: 'created_at',
+    updatedAt: 'updated_at',
+  }
+  // eslint-disable-next-line security/detect-object-injection
+  return fieldMap[field] ?? 'created_at'
+}
+
+/**
+ * Get the months of the fiscal year of a budget
+ */
+export const getBudgetMonths = (fiscalYear: FiscalYear): BudgetMonth[] => {
+  return fiscalYear.getMonths().map((range, index) => ({
+    month: index + 1,
+    label: formatDateToMonthLabel(range.startDate),
+    startDate: formatDateToString(range.startDate) as string,
+    endDate: formatDateToString(range.endDate) as string,
+  }))
+}
+
+/**
+ * Group the lines of a budget per account
+ * Lines of the same account and month are added up (they can meet when two
+ * accounts are merged)
+ * @param lines - Budget lines, with their account when it was fetched
+ * @param monthCount - Number of months of the fiscal year
+ * @returns Account (if fetched) and amount per month, per account ID, in the
+ * order the accounts first appear
+ */
+export const groupBudgetLines = (
+  lines: BudgetLine[],
+  monthCount: number
+): Map<string, { account: ChartOfAccount | null; amounts: number[] }> => {
+  const accounts = new Map<
+    string,
+    { account: ChartOfAccount | null; amounts: number[] }
+  >()
+
+  for (const line of lines) {
+    let entry = accounts.get(line.accountId)
+    if (!entry) {
+      entry = {
+        account: line.account ?? null,
+        amounts: Array.from({ length: monthCount }, () => 0),
+      }
+      accounts.set(line.accountId, entry)
+    }
+    const index = line.month - 1
+    if (index >= 0 && index < monthCount) {
+      // eslint-disable-next-line security/detect-object-injection
+      entry.amounts[index] = roundAmount(
+        // eslint-disable-next-line security/detect-object-injection
+        (entry.amounts[index] ?? 0) + Number(line.amount)
+      )
+    }
+  }
+
+  return accounts
+}
+
+/**
+ * Find budgets with their fiscal year
+ */
+export const findBudgets = async (
+  tenantId: string,
+  schemaName: string,
+  filters: BudgetFilters
+): Promise<BudgetListResult> => {
+  const {
+    page,
+    limit,
+    sort = 'createdAt',
+    order = 'desc',
+    search,
+    fiscalYearId,
+  } = filters
+
+  const offset = calculateOffset(page, limit)
+  const sortColumn = mapBudgetSortField(sort)
+
+  return withTenantSchema(schemaName, async (trx) => {
+    const query = Budget.query(trx)
+      .modify('notDeleted')
+      .modify('byTenant', tenantId)
+
+    if (fiscalYearId) {
+      query.modify('byFiscalYear', fiscalYearId)
+    }
+
+    if (search) {
+      query.where('name', 'ilike', `%${search}%`)
+    }
+
+    // Get total count before pagination
+    const total = await query.resultSize()
+
+    const budgets = await query
+      .modify('withFiscalYear')
+      .orderBy(sortColumn, order)
+      .limit(limit)
+      .offset(offset)
+
+    return { budgets, total }
+  })
+}
+
+/**
+ * Find budget by ID with its fiscal year and lines
+ * @param trx - Optional transaction to use (if provided, won't create a new transaction)
+ */
+export const findBudgetById = async (
+  tenantId: string,
+  schemaName: string,
+  budgetId: string,
+  trx?: Knex.Transaction
+): Promise<Budget> => {
+  const execute = async (transaction: Knex.Transaction) => {
+    const budget = await Budget.query(transaction)
+      .modify('notDeleted')
+      .modify('byTenant', tenantId)
+      .modify('withLines')
+      .findById(budgetId)
+
+    if (!budget) {
+      throw new ApiError(HTTP_STATUS.NOT_FOUND, ERROR_MESSAGES.BUDGET_NOT_FOUND)
+    }
+
+    return budget
+  }
+
+  // If transaction is provided, use it directly
+  if (trx) {
+    return execute(trx)
+  }
+
+  // Otherwise, create a new transaction
+  return withTenantSchema(schemaName, execute)
+}
+
+/**
+ * Check that no other budget of the fiscal year has the name
+ * Names are compared case-insensitively
+ */
+const assertBudgetNameAvailable = async (
+  trx: Knex.Transaction,
+  tenantId: string,
+  fiscalYearId: string,
+  name: string,
+  excludeBudgetId?: string
+): Promise<void> => {
+  const query = Budget.query(trx)
+    .modify('notDeleted')
+    .modify('byTenant', tenantId)
+    .modify('byFiscalYear', fiscalYearId)
+    .whereRaw('LOWER(name) = ?', [name.toLowerCase()])
+
+  if (excludeBudgetId) {
+    query.whereNot('id', excludeBudgetId)
+  }
+
+  if (await query.first()) {
+    throw new ApiError(HTTP_STATUS.CONFLICT, ERROR_MESSAGES.BUDGET_NAME_EXISTS)
+  }
+}
+
+/**
+ * Find the active revenue and expense accounts of the tenant
+ * @param accountIds - Limit to these accounts
+ */
+const findBudgetAccounts = (
+  trx: Knex.Transaction,
+  tenantId: string,
+  accountIds?: string[]
+) => {
+  const query = ChartOfAccount.query(trx)
+    .modify('notDeleted')
+    .modify('byTenant', tenantId)
+    .whereIn('account_type', BUDGET_ACCOUNT_TYPES)
+    .where('is_active', true)
+
+  if (accountIds) {
+    query.whereIn('id', accountIds)
+  }
+
+  return query
+}
+
+/**
+ * Replace the lines of a budget
+ * Existing lines are soft deleted and the new lines inserted, one per
+ * account per month
+ * @throws ApiError if an account is not an active revenue or expense
+ * account, appears twice, or does not have one amount per month
+ */
+const replaceBudgetLines = async (
+  trx: Knex.Transaction,
+  tenantId: string,
+  budget: Budget,
+  monthCount: number,
+  lines: BudgetLineData[]
+): Promise<void> => {
+  const accountIds = lines.map((line) => line.accountId)
+  if (new Set(accountIds).size !== accountIds.length) {
+    throw new ApiError(
+      HTTP_STATUS.BAD_REQUEST,
+      ERROR_MESSAGES.BUDGET_ACCOUNT_DUPLICATE
+    )
+  }
+
+  if (lines.some((line) => line.amounts.length !== monthCount)) {
+    throw new ApiError(
+      HTTP_STATUS.BAD_REQUEST,
+      ERROR_MESSAGES.BUDGET_AMOUNTS_INVALID
+    )
+  }
+
+  if (accountIds.length > 0) {
+    const accounts = await findBudgetAccounts(trx, tenantId, accountIds)
+    if (accounts.length !== accountIds.length) {
+      throw new ApiError(
+        HTTP_STATUS.BAD_REQUEST,
+        ERROR_MESSAGES.BUDGET_ACCOUNT_INVALID
+      )
+    }
+  }
+
+  await BudgetLine.query(trx)
+    .modify('notDeleted')
+    .modify('byBudget', budget.id)
+    .patch({
+      deletedAt: formatDateToISOString(getCurrentDate()) as unknown as Date,
+    })
+
+  const rows = lines.flatMap((line) =>
+    line.amounts.map((amount, index) => ({
+      tenantId,
+      budgetId: budget.id,
+      accountId: line.accountId,
+      month: index + 1,
+      amount: roundAmount(amount),
+    }))
+  )
+
+  if (rows.length > 0) {
+    await BudgetLine.query(trx).insert(rows)
+  }
+}
+
+/**
+ * Create a budget for a fiscal year
+ * @param createdBy - User ID creating the budget
+ */
+export const createBudget = async (
+  tenantId: string,
+  schemaName: string,
+  createdBy: string,
+  data: CreateBudgetData
+): Promise<Budget> => {
+  return withTenantSchema(schemaName, async (trx) => {
+    const fiscalYear = await findFiscalYearById(
+      tenantId,
+      schemaName,
+      data.fiscalYearId,
+      trx
+    )
+
+    await assertBudgetNameAvailable(trx, tenantId, fiscalYear.id, data.name)
+
+    const budget = await Budget.query(trx).insert({
+      tenantId,
+      createdBy,
+      fiscalYearId: fiscalYear.id,
+      name: data.name,
+      description: data.description ?? null,
+    })
+
+    if (data.lines) {
+      await replaceBudgetLines(
+        trx,
+        tenantId,
+        budget,
+        fiscalYear.getMonths().length,
+        data.lines
+      )
+    }
+
+    return findBudgetById(tenantId, schemaName, budget.id, trx)
+  })
+}
+
+/**
+ * Update a budget
+ * Lines, when given, replace all the lines of the budget
+ */
+export const updateBudget = async (
+  tenantId: string,
+  schemaName: string,
+  budgetId: string,
+  data: UpdateBudgetData
+): Promise<Budget> => {
+  return withTenantSchema(schemaName, async (trx) => {
+    const budget = await findBudgetById(tenantId, schemaName, budgetId, trx)
+
+    if (data.name !== undefined) {
+      await assertBudgetNameAvailable(
+        trx,
+        tenantId,
+        budget.fiscalYearId,
+        data.name,
+        budget.id
+      )
+    }
+
+    await budget.$query(trx).patch({
+      ...(data.name !== undefined ? { name: data.name } : {}),
+      ...(data.description !== undefined
+        ? { description: data.description }
+        : {}),
+    })
+
+    if (data.lines) {
+      await replaceBudgetLines(
+        trx,
+        tenantId,
+        budget,
+        (budget.fiscalYear as FiscalYear).getMonths().length,
+        data.lines
+      )
+    }
+
+    return findBudgetById(tenantId, schemaName, budget.id, trx)
+  })
+}
+
+/**
+ * Delete a budget (soft delete)
+ */
+export const deleteBudget = async (
+  tenantId: string,
+  schemaName: string,
+  budgetId: string
+): Promise<Budget> => {
+  return withTenantSchema(schemaName, async (trx) => {
+    const budget = await findBudgetById(tenantId, schemaName, budgetId, trx)
+
+    return budget.$query(trx).patchAndFetch({
+      deletedAt: formatDateToISOString(getCurrentDate()) as unknown as Date,
+    })
+  })
+}
+
+/**
+ * Fill a budget from last year's actuals
+ *
+ * Each month of the fiscal year gets the posted amounts of the same month a
+ * year earlier, in the natural direction of the account, grown by the given
+ * percentage. Year-end closing entries are left out. The actuals replace all
+ * the lines of the budget; only active revenue and expense accounts with
+ * posted lines are budgeted.
+ * @throws ApiError if no revenue or expense lines were posted in the year
+ * before
+ */
+export const copyBudgetActuals = async (
+  tenantId: string,
+  schemaName: string,
+  budgetId: string,
+  data: CopyBudgetActualsData
+): Promise<Budget> => {
+  return withTenantSchema(schemaName, async (trx) => {
+    const budget = await findBudgetById(tenantId, schemaName, budgetId, trx)
+    const fiscalYear = budget.fiscalYear as FiscalYear
+    const monthCount = fiscalYear.getMonths().length
+    const factor = 1 + data.growthPercent / 100
+
+    const accounts = await findBudgetAccounts(trx, tenantId)
+    const amountsByAccount = new Map<string, number[]>()
+
+    for (let index = 0; index < monthCount; index++) {
+      // Offset from the fiscal year start, as the fiscal year months are
+      const startDate = addUTCMonths(fiscalYear.startDate, index - 12)
+      const endDate = new Date(
+        addUTCMonths(fiscalYear.startDate, index - 11).getTime() - 1
+      )
+      const totals = await sumPostedLinesByAccount(trx, tenantId, {
+        startDate,
+        endDate,
+        includeClosingEntries: false,
+      })
+
+      for (const account of accounts) {
+        const lineTotals = totals.get(account.id)
+        if (!lineTotals) {
+          continue
+        }
+        let amounts = amountsByAccount.get(account.id)
+        if (!amounts) {
+          amounts = Array.from({ length: monthCount }, () => 0)
+          amountsByAccount.set(account.id, amounts)
+        }
+        // eslint-disable-next-line security/detect-object-injection
+        amounts[index] = roundAmount(
+          getNaturalBalance(
+            account.accountType,
+            lineTotals.debit,
+            lineTotals.credit
+          ) * factor
+        )
+      }
+    }
+
+    if (amountsByAccount.size === 0) {
+      throw new ApiError(
+        HTTP_STATUS.BAD_REQUEST,
+        ERROR_MESSAGES.BUDGET_NO_ACTUALS
+      )
+    }
+
+    await replaceBudgetLines(
+      trx,
+      tenantId,
+      budget,
+      monthCount,
+      [...amountsByAccount].map(([accountId, amounts]) => ({
+        accountId,
+        amounts,
+      }))
+    )
+
+    return findBudgetById(tenantId, schemaName, budget.id, trx)
+  })
+}
+
+/**
+ * Grow the amounts of a budget by a percentage
+ * Without account IDs, every line of the budget is grown
+ */
+export const applyBudgetGrowth = async (
+  tenantId: string,
+  schemaName: string,
+  budgetId: string,
+  data: ApplyBudgetGrowthData
+): Promise<Budget> => {
+  return withTenantSchema(schemaName, async (trx) => {
+    const budget = await findBudgetById(tenantId, schemaName, budgetId, trx)
+    const factor = 1 + data.growthPercent / 100
+
+    const query = trx('budget_lines')
+      .where('tenant_id', tenantId)
+      .where('budget_id', budget.id)
+      .whereNull('deleted_at')
+
+    if (data.accountIds) {
+      query.whereIn('account_id', data.accountIds)
+    }
+
+    await query.update({
+      amount: trx.raw('ROUND(amount * ?, 2)', [factor]),
+      updated_at: trx.fn.now(),
+    })
+
+    return findBudgetById(tenantId, schemaName, budget.id, trx)
+  })
+}
+
+/**
+ * Get the content of the file of a budget
+ * Lists every active revenue and expense account with an account number,
+ * with its budgeted amounts (zero when not budgeted), so that the file can
+ * be filled in and imported back
+ */
+export const getBudgetFile = async (
+  tenantId: string,
+  schemaName: string,
+  budgetId: string
+): Promise<BudgetFile> => {
+  return withTenantSchema(schemaName, async (trx) => {
+    const budget = await findBudgetById(tenantId, schemaName, budgetId, trx)
+    const months = getBudgetMonths(budget.fiscalYear as FiscalYear)
+    const budgetAmounts = groupBudgetLines(budget.lines ?? [], months.length)
+
+    const accounts = await findBudgetAccounts(trx, tenantId)
+      .whereNotNull('account_number')
+      .orderBy('account_number', 'asc')
+
+    return {
+      budget,
+      months,
+      rows: accounts.map((account) => ({
+        accountNumber: account.accountNumber as string,
+        accountName: account.accountName,
+        amounts: budgetAmounts.get(account.id)?.amounts ?? months.map(() => 0),
+      })),
+    }
+  })
+}
+
+/**
+ * Import the amounts of a budget from a CSV or Excel file
+ *
+ * The file has the columns of the file downloaded from the budget: account
+ * number and name, then one column per month label. Account numbers are
+ * resolved to the tenant's active revenue and expense accounts. The file
+ * replaces all the lines of the budget, and is only imported when no row
+ * has errors. Dry runs are never imported.
+ * @returns Lines imported (or that would be imported) and the row errors
+ * @throws ApiError if the file cannot be read, is empty or has too many rows
+ */
+export const importBudget = async (
+  tenantId: string,
+  schemaName: string,
+  budgetId: string,
+  data: ImportBudgetData
+): Promise<BudgetImportResult> => {
+  return withTenantSchema(schemaName, async (trx) => {
+    const budget = await findBudgetById(tenantId, schemaName, budgetId, trx)
+    const months = getBudgetMonths(budget.fiscalYear as FiscalYear)
+
+    const file = parseBudgetFile(
+      readSpreadsheetRows(data.buffer, data.fileName),
+      months.map((month) => month.label)
+    )
+
+    if (file.totalRows === 0) {
+      throw new ApiError(
+        HTTP_STATUS.BAD_REQUEST,
+        ERROR_MESSAGES.IMPORT_FILE_EMPTY
+      )
+    }
+
+    if (file.totalRows > IMPORT_FILE.MAX_ROWS) {
+      throw new ApiError(
+        HTTP_STATUS.BAD_REQUEST,
+        ERROR_MESSAGES.IMPORT_FILE_TOO_MANY_ROWS
+      )
+    }
+
+    const errors: BudgetImportError[] = [...file.errors]
+    const lines: BudgetImportLine[] = []
+
+    const accountNumbers = file.lines.map((line) => line.accountNumber)
+    const accounts =
+      accountNumbers.length > 0
+        ? await ChartOfAccount.query(trx)
+            .modify('notDeleted')
+            .modify('byTenant', tenantId)
+            .whereIn('account_number', accountNumbers)
+        : []
+    const accountsByNumber = new Map(
+      accounts.map((account) => [account.accountNumber as string, account])
+    )
+
+    for (const fileLine of file.lines) {
+      const account = accountsByNumber.get(fileLine.accountNumber)
+      if (!account) {
+        errors.push({
+          row: fileLine.row,
+          message: `Account number "${fileLine.accountNumber}" not found`,
+        })
+        continue
+      }
+      if (
+        !BUDGET_ACCOUNT_TYPES.includes(account.accountType) ||
+        !account.isActive
+      ) {
+        errors.push({
+          row: fileLine.row,
+          message: `Account "${account.accountName}" is not an active revenue or expense account`,
+        })
+        continue
+      }
+      lines.push({
+        row: fileLine.row,
+        accountId: account.id,
+        accountNumber: fileLine.accountNumber,
+        accountName: account.accountName,
+        amounts: fileLine.amounts,
+        total: roundAmount(
+          fileLine.amounts.reduce((sum, amount) => sum + amount, 0)
+        ),
+      })
+    }
+
+    errors.sort((a, b) => a.row - b.row)
+
+    const imported = !data.dryRun && errors.length === 0 && lines.length > 0
+    if (imported) {
+      await replaceBudgetLines(
+        trx,
+        tenantId,
+        budget,
+        months.length,
+        lines.map((line) => ({
+          accountId: line.accountId,
+          amounts: line.amounts,
+        }))
+      )
+    }
+
+    return {
+      dryRun: data.dryRun,
+      imported,
+      totalRows: file.totalRows,
+      errors,
+      lines,
+    }
+  })
+}
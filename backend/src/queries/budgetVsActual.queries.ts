@@ -0,0 +1,212 @@
+import type {
+  AccountLineTotals,
+  BudgetVsActualAccountRow,
+  BudgetVsActualAmount,
+  BudgetVsActualFilters,
+  BudgetVsActualReport,
+  BudgetVsActualSection,
+  BudgetVsActualSummary,
+} from '@/types/report.type'
+import { ChartOfAccount } from '@models/ChartOfAccount'
+import type { FiscalYear } from '@models/FiscalYear'
+import {
+  BUDGET_ACCOUNT_TYPES,
+  findBudgetById,
+  getBudgetMonths,
+  groupBudgetLines,
+} from '@queries/budget.queries'
+import {
+  getNaturalBalance,
+  roundAmount,
+  sumPostedLinesByAccount,
+  toReportPeriod,
+} from '@queries/report.queries'
+import { parseDateStringToUTC, parseDateStringToUTCEndOfDay } from '@utils/date'
+import { withTenantSchema } from '@utils/tenantQuery'
+
+/**
+ * Build a budget vs actual amount
+ */
+const buildAmount = (budget: number, actual: number): BudgetVsActualAmount => {
+  const roundedBudget = roundAmount(budget)
+  const roundedActual = roundAmount(actual)
+  const variance = roundAmount(roundedActual - roundedBudget)
+  return {
+    budget: roundedBudget,
+    actual: roundedActual,
+    variance,
+    variancePercent:
+      roundedBudget === 0
+        ? null
+        : roundAmount((variance / Math.abs(roundedBudget)) * 100),
+  }
+}
+
+/**
+ * Add up budget vs actual amounts
+ */
+const sumAmounts = (amounts: BudgetVsActualAmount[]): BudgetVsActualAmount =>
+  buildAmount(
+    amounts.reduce((sum, amount) => sum + amount.budget, 0),
+    amounts.reduce((sum, amount) => sum + amount.actual, 0)
+  )
+
+/**
+ * Net income over revenue, in percent; null when there is no revenue
+ */
+const getProfitMargin = (netIncome: number, revenue: number): number | null =>
+  revenue === 0 ? null : roundAmount((netIncome / revenue) * 100)
+
+/**
+ * Build the net income and profit margins of a month or the whole budget
+ */
+const buildSummary = (
+  revenue: BudgetVsActualAmount,
+  expenses: BudgetVsActualAmount
+): BudgetVsActualSummary => {
+  const netIncome = buildAmount(
+    revenue.budget - expenses.budget,
+    revenue.actual - expenses.actual
+  )
+  return {
+    netIncome,
+    budgetProfitMargin: getProfitMargin(netIncome.budget, revenue.budget),
+    actualProfitMargin: getProfitMargin(netIncome.actual, revenue.actual),
+  }
+}
+
+/**
+ * Get the budget vs actual report of a budget
+ *
+ * Compares the budgeted amount of each revenue and expense account with the
+ * posted lines of each month of the fiscal year, in the natural direction of
+ * the account. Year-end closing entries are left out, since they bring the
+ * accounts back to zero. Accounts with posted lines but no budget are
+ * listed with a zero budget.
+ * @param tenantId - Tenant ID
+ * @param schemaName - Tenant schema name
+ * @param filters - Budget to report on
+ * @returns Amounts per account and month, section totals and profit margins
+ */
+export const getBudgetVsActual = async (
+  tenantId: string,
+  schemaName: string,
+  filters: BudgetVsActualFilters
+): Promise<BudgetVsActualReport> => {
+  return withTenantSchema(schemaName, async (trx) => {
+    const budget = await findBudgetById(
+      tenantId,
+      schemaName,
+      filters.budgetId,
+      trx
+    )
+    const fiscalYear = budget.fiscalYear as FiscalYear
+    const months = getBudgetMonths(fiscalYear)
+    const budgetAmounts = groupBudgetLines(budget.lines ?? [], months.length)
+
+    const monthTotals: Array<Map<string, AccountLineTotals>> = []
+    for (const month of months) {
+      monthTotals.push(
+        await sumPostedLinesByAccount(trx, tenantId, {
+          startDate: parseDateStringToUTC(month.startDate),
+          endDate: parseDateStringToUTCEndOfDay(month.endDate),
+          includeClosingEntries: false,
+        })
+      )
+    }
+
+    const accountIds = new Set(budgetAmounts.keys())
+    for (const totals of monthTotals) {
+      for (const accountId of totals.keys()) {
+        accountIds.add(accountId)
+      }
+    }
+
+    const accounts =
+      accountIds.size > 0
+        ? await ChartOfAccount.query(trx)
+            .modify('byTenant', tenantId)
+            .whereIn('id', [...accountIds])
+            .whereIn('account_type', BUDGET_ACCOUNT_TYPES)
+            .orderBy('account_number', 'asc')
+            .orderBy('account_name', 'asc')
+        : []
+
+    const sections: BudgetVsActualSection[] = BUDGET_ACCOUNT_TYPES.map(
+      (accountType) => {
+        const rows: BudgetVsActualAccountRow[] = accounts
+          .filter((account) => account.accountType === accountType)
+          .map((account) => {
+            const budgeted = budgetAmounts.get(account.id)?.amounts
+            const amounts = months.map((_month, index) => {
+              // eslint-disable-next-line security/detect-object-injection
+              const lineTotals = monthTotals[index]?.get(account.id)
+              return buildAmount(
+                // eslint-disable-next-line security/detect-object-injection
+                budgeted?.[index] ?? 0,
+                lineTotals
+                  ? getNaturalBalance(
+                      account.accountType,
+                      lineTotals.debit,
+                      lineTotals.credit
+                    )
+                  : 0
+              )
+            })
+            return {
+              accountId: account.id,
+              accountNumber: account.accountNumber ?? null,
+              accountName: account.accountName,
+              accountType: account.accountType,
+              months: amounts,
+              total: sumAmounts(amounts),
+            }
+          })
+
+        const sectionMonths = months.map((_month, index) =>
+          sumAmounts(
+            // eslint-disable-next-line security/detect-object-injection
+            rows.map((row) => row.months[index] as BudgetVsActualAmount)
+          )
+        )
+        return {
+          accountType,
+          accounts: rows,
+          months: sectionMonths,
+          total: sumAmounts(sectionMonths),
+        }
+      }
+    )
+
+    const [revenue, expenses] = sections as [
+      BudgetVsActualSection,
+      BudgetVsActualSection,
+    ]
+
+    return {
+      budget: {
+        id: budget.id,
+        name: budget.name,
+        fiscalYearId: fiscalYear.id,
+        fiscalYearName: fiscalYear.name,
+      },
+      period: toReportPeriod(
+        new Date(fiscalYear.startDate),
+        new Date(fiscalYear.endDate)
+      ),
+      months,
+      sections,
+      summary: {
+        months: months.map((_month, index) =>
+          buildSummary(
+            // eslint-disable-next-line security/detect-object-injection
+            revenue.months[index] as BudgetVsActualAmount,
+            // eslint-disable-next-line security/detect-object-injection
+            expenses.months[index] as BudgetVsActualAmount
+          )
+        ),
+        total: buildSummary(revenue.total, expenses.total),
+      },
+    }
+  })
+}
@@ -276,15 +276,6 @@ export interface CreateChartOfAccountData {
   bankRoutingNumber?: string
 }
 
-/**
- * Create chart of account
- * @param tenantId - Tenant ID from JWT token
- * @param schemaName - Tenant schema name (from tenant context)
- * @param createdBy - User ID who created the account
- * @param data - Account data
- * @returns Created account
- * @throws ApiError if account number already exists
- */
 /**
  * Validate account rules before create/update
  * @param tenantId - Tenant ID
@@ -357,20 +348,31 @@ export const validateAccountRules = async (
   }
 }
 
+/**
+ * Create chart of account
+ * @param tenantId - Tenant ID from JWT token
+ * @param schemaName - Tenant schema name (from tenant context)
+ * @param createdBy - User ID who created the account
+ * @param data - Account data
+ * @param trx - Optional transaction to use (if provided, won't create a new transaction)
+ * @returns Created account
+ * @throws ApiError if account number already exists
+ */
 export const createChartOfAccount = async (
   tenantId: string,
   schemaName: string,
   createdBy: string,
-  data: CreateChartOfAccountData
+  data: CreateChartOfAccountData,
+  trx?: Knex.Transaction
 ): Promise<ChartOfAccount> => {
-  return withTenantSchema(schemaName, async (trx) => {
+  const execute = async (transaction: Knex.Transaction) => {
     // Auto-generate account number if not provided
     let accountNumber = data.accountNumber
     accountNumber ??= await generateAccountNumber(
       tenantId,
       schemaName,
       data.accountType as AccountType,
-      trx
+      transaction
     )
 
     // Validate account rules (pass transaction for nested calls)
@@ -382,7 +384,7 @@ export const createChartOfAccount = async (
         accountNumber,
       },
       undefined,
-      trx
+      transaction
     )
 
     // Validate parent account exists if provided
@@ -391,7 +393,7 @@ export const createChartOfAccount = async (
         tenantId,
         schemaName,
         data.parentAccountId,
-        trx
+        transaction
       )
       // Validate parent type matches
       if (parent.accountType !== (data.accountType as AccountType)) {
@@ -402,7 +404,7 @@ export const createChartOfAccount = async (
       }
     }
 
-    const account = await ChartOfAccount.query(trx).insert({
+    const account = await ChartOfAccount.query(transaction).insert({
       tenantId,
       createdBy,
       accountNumber,
@@ -424,7 +426,15 @@ export const createChartOfAccount = async (
     })
 
     return account
-  })
+  }
+
+  // If transaction is provided, use it directly
+  if (trx) {
+    return execute(trx)
+  }
+
+  // Otherwise, create a new transaction
+  return withTenantSchema(schemaName, execute)
 }
 
 /**
@@ -0,0 +1,243 @@
+/**
+ * Chart of Account Import Queries
+ * Creates accounts from a CSV or Excel file in one transaction
+ */
+
+import type {
+  ChartOfAccountImportAccount,
+  ChartOfAccountImportError,
+  ChartOfAccountImportResult,
+  ImportChartOfAccountsData,
+} from '@/types/chartOfAccount.type'
+import { ERROR_MESSAGES } from '@constants/errors'
+import { HTTP_STATUS } from '@constants/http'
+import { IMPORT_FILE } from '@constants/import'
+import { ChartOfAccount } from '@models/ChartOfAccount'
+import { createChartOfAccount } from '@queries/chartOfAccount.queries'
+import { ApiError } from '@utils/ApiError'
+import {
+  parseChartOfAccountFile,
+  SUB_ACCOUNT_SEPARATOR,
+} from '@utils/chartOfAccountImport'
+import { readSpreadsheetRows } from '@utils/spreadsheetParser'
+import { withTenantSchema } from '@utils/tenantQuery'
+
+/**
+ * Thrown to roll back the import transaction while keeping its result
+ * Used for dry runs and for imports with errors
+ */
+class ChartOfAccountImportRollback extends Error {
+  constructor(readonly result: ChartOfAccountImportResult) {
+    super('Chart of accounts import rolled back')
+  }
+}
+
+/**
+ * Key of an account in the name lookup ("Parent:Child", case-insensitive)
+ */
+const toPathKey = (segments: string[]): string =>
+  segments.join(SUB_ACCOUNT_SEPARATOR).toLowerCase()
+
+/**
+ * Index existing accounts by their full name
+ * The full name of a sub-account is the names of its parents and its own
+ * name joined with ":", as written in import files
+ */
+const indexAccountsByPath = (
+  accounts: ChartOfAccount[]
+): Map<string, ChartOfAccount> => {
+  const byId = new Map(accounts.map((account) => [account.id, account]))
+  const index = new Map<string, ChartOfAccount>()
+
+  for (const account of accounts) {
+    const segments = [account.accountName]
+    const visited = new Set([account.id])
+    let parentId = account.parentAccountId
+    while (parentId && !visited.has(parentId)) {
+      const parent = byId.get(parentId)
+      if (!parent) {
+        break
+      }
+      segments.unshift(parent.accountName)
+      visited.add(parentId)
+      parentId = parent.parentAccountId
+    }
+    index.set(toPathKey(segments), account)
+  }
+
+  return index
+}
+
+/**
+ * Import a chart of accounts file
+ *
+ * Rows are created parents first, each in a savepoint, so that every row is
+ * checked with validateAccountRules against the accounts already in the
+ * ledger and the rows before it. The transaction is only committed when no
+ * row has errors and the import is not a dry run.
+ * @param tenantId - Tenant ID
+ * @param schemaName - Tenant schema name
+ * @param createdBy - User ID importing the file
+ * @param data - File, column mapping and dry run flag
+ * @returns Accounts created (or that would be created) and the row errors
+ * @throws ApiError if the file cannot be read, is empty or has too many rows
+ */
+export const importChartOfAccounts = async (
+  tenantId: string,
+  schemaName: string,
+  createdBy: string,
+  data: ImportChartOfAccountsData
+): Promise<ChartOfAccountImportResult> => {
+  const file = parseChartOfAccountFile(
+    readSpreadsheetRows(data.buffer, data.fileName),
+    data.mapping
+  )
+
+  if (file.totalRows === 0) {
+    throw new ApiError(
+      HTTP_STATUS.BAD_REQUEST,
+      ERROR_MESSAGES.IMPORT_FILE_EMPTY
+    )
+  }
+
+  if (file.totalRows > IMPORT_FILE.MAX_ROWS) {
+    throw new ApiError(
+      HTTP_STATUS.BAD_REQUEST,
+      ERROR_MESSAGES.IMPORT_FILE_TOO_MANY_ROWS
+    )
+  }
+
+  try {
+    return await withTenantSchema(schemaName, async (trx) => {
+      const errors: ChartOfAccountImportError[] = [...file.errors]
+      const accounts: ChartOfAccountImportAccount[] = []
+
+      const existing = await ChartOfAccount.query(trx)
+        .modify('notDeleted')
+        .modify('byTenant', tenantId)
+      const accountsByPath = indexAccountsByPath(existing)
+      const failedPaths = new Set<string>()
+
+      // Parents before their sub-accounts; sort is stable, so file order is
+      // kept within a level
+      const rows = [...file.rows].sort(
+        (a, b) => a.parentPath.length - b.parentPath.length
+      )
+
+      for (const row of rows) {
+        const pathKey = toPathKey([...row.parentPath, row.accountName])
+
+        if (accountsByPath.has(pathKey)) {
+          errors.push({
+            row: row.row,
+            message: `An account named "${row.fullName}" already exists`,
+          })
+          failedPaths.add(pathKey)
+          continue
+        }
+
+        let parentAccountId: string | null = null
+        if (row.parentPath.length > 0) {
+          const parentKey = toPathKey(row.parentPath)
+          const parentName = row.parentPath.join(SUB_ACCOUNT_SEPARATOR)
+          const parent = accountsByPath.get(parentKey)
+          if (!parent) {
+            errors.push({
+              row: row.row,
+              message: failedPaths.has(parentKey)
+                ? `Parent account "${parentName}" has errors`
+                : `Parent account "${parentName}" not found`,
+            })
+            failedPaths.add(pathKey)
+            continue
+          }
+          parentAccountId = parent.id
+        }
+
+        try {
+          // A savepoint keeps the transaction usable when the row fails
+          const account = await trx.transaction((savepoint) =>
+            createChartOfAccount(
+              tenantId,
+              schemaName,
+              createdBy,
+              {
+                accountName: row.accountName,
+                accountType: row.accountType,
+                ...(row.accountNumber
+                  ? { accountNumber: row.accountNumber }
+                  : {}),
+                ...(row.accountSubtype
+                  ? { accountSubtype: row.accountSubtype }
+                  : {}),
+                ...(row.accountDetailType
+                  ? { accountDetailType: row.accountDetailType }
+                  : {}),
+                ...(parentAccountId ? { parentAccountId } : {}),
+                openingBalance: row.openingBalance,
+              },
+              savepoint
+            )
+          )
+
+          accountsByPath.set(pathKey, account)
+          accounts.push({
+            row: row.row,
+            id: account.id,
+            accountNumber: account.accountNumber ?? null,
+            accountName: account.accountName,
+            fullName: row.fullName,
+            accountType: account.accountType,
+            accountSubtype: account.accountSubtype ?? null,
+            accountDetailType: account.accountDetailType ?? null,
+            parentAccountId,
+            openingBalance: Number(account.openingBalance),
+          })
+        } catch (error) {
+          if (!(error instanceof ApiError)) {
+            throw error
+          }
+          errors.push({ row: row.row, message: error.message })
+          failedPaths.add(pathKey)
+        }
+      }
+
+      errors.sort((a, b) => a.row - b.row)
+      accounts.sort((a, b) => a.row - b.row)
+
+      const imported = !data.dryRun && errors.length === 0
+      const result: ChartOfAccountImportResult = {
+        dryRun: data.dryRun,
+        imported,
+        totalRows: file.totalRows,
+        validRows: accounts.length,
+        errors,
+        accounts,
+      }
+
+      if (!imported) {
+        // Accounts created by the import are rolled back, so their IDs do
+        // not exist; parents already in the ledger keep theirs
+        const createdIds = new Set(accounts.map((account) => account.id))
+        throw new ChartOfAccountImportRollback({
+          ...result,
+          accounts: accounts.map((account) => ({
+            ...account,
+            id: null,
+            parentAccountId:
+              account.parentAccountId && createdIds.has(account.parentAccountId)
+                ? null
+                : account.parentAccountId,
+          })),
+        })
+      }
+
+      return result
+    })
+  } catch (error) {
+    if (error instanceof ChartOfAccountImportRollback) {
+      return error.result
+    }
+    throw error
+  }
+}
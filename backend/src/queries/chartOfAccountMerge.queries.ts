@@ -0,0 +1,451 @@
+/**
+ * Chart of Account Merge Queries
+ * Merges a duplicate account into another account of the same type
+ */
+
+import type { Knex } from 'knex'
+
+import type { AuditRequestContext } from '@/types/audit.type'
+import type {
+  ChartOfAccountMergeCounts,
+  ChartOfAccountMergePreview,
+  ChartOfAccountMergeResult,
+  ChartOfAccountReferenceCount,
+} from '@/types/chartOfAccount.type'
+import { AUDIT_ACTIONS, AUDIT_ENTITY_TYPES } from '@constants/audit'
+import { ERROR_MESSAGES } from '@constants/errors'
+import { HTTP_STATUS } from '@constants/http'
+import { ChartOfAccount } from '@models/ChartOfAccount'
+import { JournalApprovalRule } from '@models/JournalApprovalRule'
+import { JournalEntryStatus } from '@models/JournalEntry'
+import { Tenant } from '@models/Tenant'
+import { findChartOfAccountById } from '@queries/chartOfAccount.queries'
+import { getNaturalBalance, roundAmount } from '@queries/report.queries'
+import { auditCreate } from '@services/audit.service'
+import { ApiError } from '@utils/ApiError'
+import { getCurrentDate } from '@utils/date'
+import { withTenantSchema } from '@utils/tenantQuery'
+
+/**
+ * Columns of tenant tables that point to an account, besides journal entry
+ * lines, balance history and parent accounts
+ * A merge points them to the target account
+ */
+const ACCOUNT_REFERENCES: ReadonlyArray<{ table: string; column: string }> = [
+  { table: 'recurring_journal_template_lines', column: 'account_id' },
+  { table: 'bank_transactions', column: 'category_account_id' },
+  { table: 'bank_categorization_rules', column: 'category_account_id' },
+  { table: 'contacts', column: 'default_income_account_id' },
+  { table: 'contacts', column: 'default_expense_account_id' },
+  { table: 'invoice_settings', column: 'receivable_account_id' },
+  { table: 'invoice_settings', column: 'tax_account_id' },
+  { table: 'invoices', column: 'receivable_account_id' },
+  { table: 'invoice_lines', column: 'account_id' },
+  { table: 'bill_settings', column: 'payable_account_id' },
+  { table: 'bill_settings', column: 'tax_account_id' },
+  { table: 'bills', column: 'payable_account_id' },
+  { table: 'bills', column: 'payment_account_id' },
+  { table: 'bill_lines', column: 'account_id' },
+  { table: 'customer_payment_settings', column: 'unapplied_account_id' },
+  { table: 'customer_payments', column: 'deposit_account_id' },
+  { table: 'customer_payments', column: 'receivable_account_id' },
+  { table: 'customer_payments', column: 'unapplied_account_id' },
+  { table: 'budget_lines', column: 'account_id' },
+]
+
+/**
+ * Count the rows of a tenant table whose column points to an account
+ */
+const countAccountRows = async (
+  trx: Knex.Transaction,
+  tenantId: string,
+  table: string,
+  column: string,
+  accountId: string
+): Promise<number> => {
+  const row = (await trx(table)
+    .where('tenant_id', tenantId)
+    .where(column, accountId)
+    .count({ count: '*' })
+    .first()) as { count: string | number } | undefined
+
+  return Number(row?.count ?? 0)
+}
+
+/**
+ * Approval rules limited to an account
+ */
+const findApprovalRulesForAccount = (
+  trx: Knex.Transaction,
+  tenantId: string,
+  accountId: string
+) =>
+  JournalApprovalRule.query(trx)
+    .where('tenant_id', tenantId)
+    .whereRaw('account_ids @> ?::jsonb', [JSON.stringify([accountId])])
+
+/**
+ * Count the rows a merge moves from the source account
+ * Soft-deleted rows are counted too, since they are moved as well
+ */
+const countMergeRows = async (
+  trx: Knex.Transaction,
+  tenantId: string,
+  sourceId: string
+): Promise<ChartOfAccountMergeCounts> => {
+  const references: ChartOfAccountReferenceCount[] = []
+  for (const { table, column } of ACCOUNT_REFERENCES) {
+    const count = await countAccountRows(trx, tenantId, table, column, sourceId)
+    if (count > 0) {
+      references.push({ table, column, count })
+    }
+  }
+
+  const tenant = await Tenant.query(trx).findById(tenantId)
+  if (tenant?.fxGainLossAccountId === sourceId) {
+    references.push({
+      table: 'tenants',
+      column: 'fx_gain_loss_account_id',
+      count: 1,
+    })
+  }
+
+  return {
+    journalEntryLines: await countAccountRows(
+      trx,
+      tenantId,
+      'journal_entry_lines',
+      'account_id',
+      sourceId
+    ),
+    balanceHistory: await countAccountRows(
+      trx,
+      tenantId,
+      'account_balance_history',
+      'account_id',
+      sourceId
+    ),
+    childAccounts: await countAccountRows(
+      trx,
+      tenantId,
+      'chart_of_accounts',
+      'parent_account_id',
+      sourceId
+    ),
+    approvalRules: (await findApprovalRulesForAccount(trx, tenantId, sourceId))
+      .length,
+    references,
+  }
+}
+
+/**
+ * Balance of the posted lines of accounts, in the natural direction of the
+ * account type
+ */
+const sumPostedLines = async (
+  trx: Knex.Transaction,
+  tenantId: string,
+  account: ChartOfAccount,
+  accountIds: string[]
+): Promise<number> => {
+  const row = (await trx('journal_entry_lines as jel')
+    .join('journal_entries as je', 'je.id', 'jel.journal_entry_id')
+    .where('jel.tenant_id', tenantId)
+    .whereIn('jel.account_id', accountIds)
+    .whereNull('jel.deleted_at')
+    .whereNull('je.deleted_at')
+    .where('je.status', JournalEntryStatus.POSTED)
+    .sum({ debit: 'jel.debit', credit: 'jel.credit' })
+    .first()) as
+    | { debit: string | number | null; credit: string | number | null }
+    | undefined
+
+  return getNaturalBalance(
+    account.accountType,
+    Number(row?.debit ?? 0),
+    Number(row?.credit ?? 0)
+  )
+}
+
+/**
+ * Load and check the accounts of a merge
+ * @throws ApiError if the accounts are the same, not found, of a different
+ * type or currency, if the source is a system or bank account, or if the
+ * target is a sub-account of the source
+ */
+const findMergeAccounts = async (
+  trx: Knex.Transaction,
+  tenantId: string,
+  schemaName: string,
+  sourceId: string,
+  targetId: string
+): Promise<{ source: ChartOfAccount; target: ChartOfAccount }> => {
+  if (sourceId === targetId) {
+    throw new ApiError(
+      HTTP_STATUS.BAD_REQUEST,
+      ERROR_MESSAGES.CHART_OF_ACCOUNT_MERGE_SAME_ACCOUNT
+    )
+  }
+
+  const source = await findChartOfAccountById(
+    tenantId,
+    schemaName,
+    sourceId,
+    trx
+  )
+  const target = await findChartOfAccountById(
+    tenantId,
+    schemaName,
+    targetId,
+    trx
+  )
+
+  if (source.isSystemAccount) {
+    throw new ApiError(
+      HTTP_STATUS.FORBIDDEN,
+      ERROR_MESSAGES.CHART_OF_ACCOUNT_MERGE_SYSTEM_ACCOUNT
+    )
+  }
+
+  if (source.bankAccountId) {
+    throw new ApiError(
+      HTTP_STATUS.CONFLICT,
+      ERROR_MESSAGES.CHART_OF_ACCOUNT_MERGE_BANK_ACCOUNT
+    )
+  }
+
+  if (source.accountType !== target.accountType) {
+    throw new ApiError(
+      HTTP_STATUS.BAD_REQUEST,
+      ERROR_MESSAGES.CHART_OF_ACCOUNT_MERGE_TYPE_MISMATCH
+    )
+  }
+
+  if (source.currencyCode !== target.currencyCode) {
+    throw new ApiError(
+      HTTP_STATUS.BAD_REQUEST,
+      ERROR_MESSAGES.CHART_OF_ACCOUNT_MERGE_CURRENCY_MISMATCH
+    )
+  }
+
+  // Re-parenting the source's children to one of its own sub-accounts
+  // would create a cycle
+  const visited = new Set([target.id])
+  let parentId = target.parentAccountId
+  while (parentId && !visited.has(parentId)) {
+    if (parentId === source.id) {
+      throw new ApiError(
+        HTTP_STATUS.BAD_REQUEST,
+        ERROR_MESSAGES.CHART_OF_ACCOUNT_MERGE_INTO_SUB_ACCOUNT
+      )
+    }
+    visited.add(parentId)
+    const parent = await ChartOfAccount.query(trx)
+      .modify('byTenant', tenantId)
+      .findById(parentId)
+    parentId = parent?.parentAccountId ?? null
+  }
+
+  return { source, target }
+}
+
+/**
+ * Build the preview of a merge from the accounts as they are now
+ */
+const buildMergePreview = async (
+  trx: Knex.Transaction,
+  tenantId: string,
+  source: ChartOfAccount,
+  target: ChartOfAccount
+): Promise<ChartOfAccountMergePreview> => {
+  const openingBalance = roundAmount(
+    Number(target.openingBalance) + Number(source.openingBalance)
+  )
+  const movements = await sumPostedLines(trx, tenantId, target, [
+    source.id,
+    target.id,
+  ])
+
+  return {
+    sourceAccount: source,
+    targetAccount: target,
+    counts: await countMergeRows(trx, tenantId, source.id),
+    openingBalance,
+    currentBalance: roundAmount(openingBalance + movements),
+  }
+}
+
+/**
+ * Preview merging a source account into a target account
+ * Nothing is saved
+ * @param tenantId - Tenant ID
+ * @param schemaName - Tenant schema name
+ * @param sourceId - Account to merge and delete
+ * @param targetId - Account to keep
+ * @returns Accounts, rows that would move and the target's balances after the merge
+ * @throws ApiError if the accounts cannot be merged
+ */
+export const previewChartOfAccountMerge = async (
+  tenantId: string,
+  schemaName: string,
+  sourceId: string,
+  targetId: string
+): Promise<ChartOfAccountMergePreview> => {
+  return withTenantSchema(schemaName, async (trx) => {
+    const { source, target } = await findMergeAccounts(
+      trx,
+      tenantId,
+      schemaName,
+      sourceId,
+      targetId
+    )
+
+    return buildMergePreview(trx, tenantId, source, target)
+  })
+}
+
+/**
+ * Merge a source account into a target account of the same type
+ *
+ * Journal entry lines, balance history, sub-accounts and every other
+ * reference to the source (recurring templates, bank transactions and rules,
+ * contact defaults, invoice, bill and payment accounts and settings,
+ * approval rules, the tenant's FX gain/loss account) are moved to the
+ * target. The source's opening balance is added to the target's, the
+ * target's current balance is recomputed from its posted lines, and the
+ * source is soft-deleted. Everything, including the audit record, is
+ * written in one transaction.
+ * @param tenantId - Tenant ID
+ * @param schemaName - Tenant schema name
+ * @param sourceId - Account to merge and delete
+ * @param targetId - Account to keep
+ * @param requestContext - Request context for the audit record
+ * @returns Merged accounts, rows moved and the target's new balances
+ * @throws ApiError if the accounts cannot be merged
+ */
+export const mergeChartOfAccounts = async (
+  tenantId: string,
+  schemaName: string,
+  sourceId: string,
+  targetId: string,
+  requestContext: AuditRequestContext
+): Promise<ChartOfAccountMergeResult> => {
+  return withTenantSchema(schemaName, async (trx) => {
+    const { source, target } = await findMergeAccounts(
+      trx,
+      tenantId,
+      schemaName,
+      sourceId,
+      targetId
+    )
+    const preview = await buildMergePreview(trx, tenantId, source, target)
+    const now = getCurrentDate()
+
+    await trx('journal_entry_lines')
+      .where('tenant_id', tenantId)
+      .where('account_id', source.id)
+      .update({ account_id: target.id })
+
+    await trx('account_balance_history')
+      .where('tenant_id', tenantId)
+      .where('account_id', source.id)
+      .update({ account_id: target.id })
+
+    await trx('chart_of_accounts')
+      .where('tenant_id', tenantId)
+      .where('parent_account_id', source.id)
+      .update({ parent_account_id: target.id, updated_at: now })
+
+    for (const { table, column } of ACCOUNT_REFERENCES) {
+      await trx(table)
+        .where('tenant_id', tenantId)
+        .where(column, source.id)
+        .update({ [column]: target.id })
+    }
+
+    const approvalRules = await findApprovalRulesForAccount(
+      trx,
+      tenantId,
+      source.id
+    )
+    for (const rule of approvalRules) {
+      const accountIds = rule.accountIds.map((accountId) =>
+        accountId === source.id ? target.id : accountId
+      )
+      await rule.$query(trx).patch({ accountIds: [...new Set(accountIds)] })
+    }
+
+    await Tenant.query(trx)
+      .where('id', tenantId)
+      .where('fx_gain_loss_account_id', source.id)
+      .patch({ fxGainLossAccountId: target.id })
+
+    await trx('chart_of_accounts')
+      .where('id', target.id)
+      .where('tenant_id', tenantId)
+      .update({
+        opening_balance: preview.openingBalance,
+        current_balance: preview.currentBalance,
+        updated_at: now,
+      })
+
+    // Soft delete using direct Knex update (bypasses Objection validation)
+    await trx('chart_of_accounts')
+      .where('id', source.id)
+      .where('tenant_id', tenantId)
+      .update({ deleted_at: now, updated_at: now })
+
+    await auditCreate(
+      AUDIT_ACTIONS.ACCOUNT_MERGED,
+      AUDIT_ENTITY_TYPES.ACCOUNT,
+      target.id,
+      {
+        requestContext,
+        tenantId,
+        metadata: {
+          name: target.accountName,
+          accountNumber: target.accountNumber ?? null,
+          balances: {
+            openingBalance: {
+              from: Number(target.openingBalance),
+              to: preview.openingBalance,
+            },
+            currentBalance: {
+              from: Number(target.currentBalance),
+              to: preview.currentBalance,
+            },
+          },
+          moved: preview.counts,
+        },
+        additionalTargets: [
+          {
+            type: AUDIT_ENTITY_TYPES.ACCOUNT,
+            id: source.id,
+            name: source.accountName,
+            accountNumber: source.accountNumber ?? null,
+            openingBalance: Number(source.openingBalance),
+            currentBalance: Number(source.currentBalance),
+            deleted: true,
+          },
+        ],
+        trx,
+      }
+    )
+
+    const mergedTarget = await findChartOfAccountById(
+      tenantId,
+      schemaName,
+      target.id,
+      trx
+    )
+    const deletedSource = await ChartOfAccount.query(trx)
+      .modify('byTenant', tenantId)
+      .findById(source.id)
+
+    return {
+      ...preview,
+      sourceAccount: deletedSource ?? source,
+      targetAccount: mergedTarget,
+    }
+  })
+}
@@ -0,0 +1,117 @@
+/**
+ * Chart of Account Template Queries
+ * Creates the accounts of an industry template in a tenant
+ */
+
+import type { Knex } from 'knex'
+
+import type { AppliedChartOfAccountTemplate } from '@/types/chartOfAccount.type'
+import { ERROR_MESSAGES } from '@constants/errors'
+import { HTTP_STATUS } from '@constants/http'
+import { ChartOfAccount } from '@models/ChartOfAccount'
+import { Tenant } from '@models/Tenant'
+import { createChartOfAccount } from '@queries/chartOfAccount.queries'
+import { ApiError } from '@utils/ApiError'
+import {
+  getChartOfAccountTemplate,
+  toChartOfAccountTemplateSummary,
+} from '@utils/chartOfAccountTemplates'
+import { withTenantSchema } from '@utils/tenantQuery'
+
+/**
+ * Apply a chart of accounts template to a tenant
+ *
+ * The template accounts are created in one transaction, parents before their
+ * sub-accounts, in the tenant's base currency, and the template key and
+ * version are recorded on the tenant.
+ * Templates are only applied to tenants without accounts, so that account
+ * numbers and names never clash with the existing chart of accounts.
+ * @param tenantId - Tenant ID
+ * @param schemaName - Tenant schema name
+ * @param createdBy - User ID applying the template
+ * @param templateKey - Template key
+ * @param trx - Optional transaction to use (if provided, won't create a new transaction)
+ * @returns Template applied and the accounts created
+ * @throws ApiError if the template or tenant does not exist, or the tenant has accounts
+ */
+export const applyChartOfAccountTemplate = async (
+  tenantId: string,
+  schemaName: string,
+  createdBy: string,
+  templateKey: string,
+  trx?: Knex.Transaction
+): Promise<AppliedChartOfAccountTemplate> => {
+  const template = getChartOfAccountTemplate(templateKey)
+
+  const execute = async (transaction: Knex.Transaction) => {
+    // The tenants table is in the public schema, which is on the search path
+    const tenant = await Tenant.query(transaction)
+      .modify('notDeleted')
+      .findById(tenantId)
+
+    if (!tenant) {
+      throw new ApiError(HTTP_STATUS.NOT_FOUND, ERROR_MESSAGES.TENANT_NOT_FOUND)
+    }
+
+    const existing = await ChartOfAccount.query(transaction)
+      .modify('notDeleted')
+      .modify('byTenant', tenantId)
+      .first()
+
+    if (existing) {
+      throw new ApiError(
+        HTTP_STATUS.CONFLICT,
+        ERROR_MESSAGES.CHART_OF_ACCOUNT_TEMPLATE_TENANT_NOT_EMPTY
+      )
+    }
+
+    const accountsByNumber = new Map<string, ChartOfAccount>()
+    const accounts: ChartOfAccount[] = []
+
+    for (const templateAccount of template.accounts) {
+      const parent = templateAccount.parentAccountNumber
+        ? accountsByNumber.get(templateAccount.parentAccountNumber)
+        : undefined
+
+      const account = await createChartOfAccount(
+        tenantId,
+        schemaName,
+        createdBy,
+        {
+          accountNumber: templateAccount.accountNumber,
+          accountName: templateAccount.accountName,
+          accountType: templateAccount.accountType,
+          accountSubtype: templateAccount.accountSubtype,
+          accountDetailType: templateAccount.accountDetailType,
+          currencyCode: tenant.baseCurrency,
+          ...(parent ? { parentAccountId: parent.id } : {}),
+          ...(templateAccount.description
+            ? { description: templateAccount.description }
+            : {}),
+        },
+        transaction
+      )
+
+      accountsByNumber.set(account.accountNumber ?? '', account)
+      accounts.push(account)
+    }
+
+    await Tenant.query(transaction).findById(tenantId).patch({
+      coaTemplateKey: template.key,
+      coaTemplateVersion: template.version,
+    })
+
+    return {
+      template: toChartOfAccountTemplateSummary(template),
+      accounts,
+    }
+  }
+
+  // If transaction is provided, use it directly
+  if (trx) {
+    return execute(trx)
+  }
+
+  // Otherwise, create a new transaction
+  return withTenantSchema(schemaName, execute)
+}
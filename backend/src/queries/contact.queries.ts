@@ -0,0 +1,619 @@
+import type { Knex } from 'knex'
+
+import type {
+  ContactBalance,
+  ContactBalanceAccount,
+  ContactFilters,
+  ContactLedgerFilters,
+  ContactLedgerMovement,
+  ContactLedgerResult,
+  ContactListResult,
+  CreateContactData,
+  UpdateContactData,
+} from '@/types/contact.type'
+import { ERROR_MESSAGES } from '@constants/errors'
+import { HTTP_STATUS } from '@constants/http'
+import { AccountType, ChartOfAccount } from '@models/ChartOfAccount'
+import { Contact, ContactType } from '@models/Contact'
+import { TaxGroup } from '@models/TaxGroup'
+import {
+  postedLinesQuery,
+  resolveReportDate,
+  resolveReportDateRange,
+  roundAmount,
+  toReportPeriod,
+} from '@queries/report.queries'
+import { calculateOffset } from '@schema/shared.schema'
+import { ApiError } from '@utils/ApiError'
+import { formatDateToString, getCurrentDate } from '@utils/date'
+import { withTenantSchema } from '@utils/tenantQuery'
+
+/**
+ * Account types whose lines make up the balance of a contact
+ * (receivables, payables, deposits and prepayments)
+ */
+const BALANCE_ACCOUNT_TYPES = [AccountType.ASSET, AccountType.LIABILITY]
+
+/**
+ * Map sort field to database column
+ */
+const mapContactSortField = (field: string): string => {
+  const fieldMap: Record<string, string> = {
+    displayName: 'display_name',
+    companyName: 'company_name',
+    contactType: 'contact_type',
+    email: 'email',
+    isActive: 'is_active',
+    createdAt: 'created_at',
+    updatedAt: 'updated_at',
+  }
+  // eslint-disable-next-line security/detect-object-injection
+  return fieldMap[field] ?? 'display_name'
+}
+
+/**
+ * Validate the default accounts and tax group of a contact
+ */
+const assertContactReferences = async (
+  trx: Knex.Transaction,
+  tenantId: string,
+  references: {
+    defaultIncomeAccountId?: string | null | undefined
+    defaultExpenseAccountId?: string | null | undefined
+    defaultTaxGroupId?: string | null | undefined
+  }
+): Promise<void> => {
+  for (const accountId of [
+    references.defaultIncomeAccountId,
+    references.defaultExpenseAccountId,
+  ]) {
+    if (!accountId) {
+      continue
+    }
+    const account = await ChartOfAccount.query(trx)
+      .modify('notDeleted')
+      .modify('byTenant', tenantId)
+      .findById(accountId)
+    if (!account) {
+      throw new ApiError(
+        HTTP_STATUS.NOT_FOUND,
+        ERROR_MESSAGES.CHART_OF_ACCOUNT_NOT_FOUND
+      )
+    }
+  }
+
+  if (references.defaultTaxGroupId) {
+    const taxGroup = await TaxGroup.query(trx)
+      .modify('notDeleted')
+      .modify('byTenant', tenantId)
+      .findById(references.defaultTaxGroupId)
+    if (!taxGroup) {
+      throw new ApiError(
+        HTTP_STATUS.NOT_FOUND,
+        ERROR_MESSAGES.TAX_GROUP_NOT_FOUND
+      )
+    }
+  }
+}
+
+/**
+ * Validate that the contacts referenced by entry lines or exemptions exist
+ * and are active. Empty IDs are ignored.
+ * @param trx - Transaction with tenant search path set
+ * @param tenantId - Tenant ID
+ * @param contactIds - Contact IDs to check
+ * @throws ApiError if a contact does not exist or is inactive
+ */
+export const assertContactsExist = async (
+  trx: Knex.Transaction,
+  tenantId: string,
+  contactIds: Array<string | null | undefined>
+): Promise<void> => {
+  const ids = [...new Set(contactIds.filter((id): id is string => Boolean(id)))]
+  if (ids.length === 0) {
+    return
+  }
+
+  const contacts = await Contact.query(trx)
+    .modify('notDeleted')
+    .modify('byTenant', tenantId)
+    .whereIn('id', ids)
+    .select('id', 'is_active')
+
+  if (contacts.length !== ids.length) {
+    throw new ApiError(HTTP_STATUS.NOT_FOUND, ERROR_MESSAGES.CONTACT_NOT_FOUND)
+  }
+
+  if (contacts.some((contact) => !contact.isActive)) {
+    throw new ApiError(HTTP_STATUS.BAD_REQUEST, ERROR_MESSAGES.CONTACT_INACTIVE)
+  }
+}
+
+/**
+ * Sum the balance of a contact (debit minus credit on asset and liability
+ * accounts) from posted lines up to a date
+ */
+const sumContactBalance = async (
+  trx: Knex.Transaction,
+  tenantId: string,
+  contactId: string,
+  endDate: Date
+): Promise<number> => {
+  const row = (await postedLinesQuery(trx, tenantId, { endDate })
+    .join('chart_of_accounts as coa', 'coa.id', 'jel.account_id')
+    .where('jel.contact_id', contactId)
+    .whereIn('coa.account_type', BALANCE_ACCOUNT_TYPES)
+    .select(trx.raw('coalesce(sum(jel.debit - jel.credit), 0) as balance'))
+    .first()) as { balance: string | number } | undefined
+
+  return roundAmount(Number(row?.balance ?? 0))
+}
+
+/**
+ * Find contacts with pagination, sorting, search, and filtering
+ */
+export const findContacts = async (
+  tenantId: string,
+  schemaName: string,
+  filters: ContactFilters
+): Promise<ContactListResult> => {
+  const {
+    page,
+    limit,
+    sort = 'displayName',
+    order = 'asc',
+    search,
+    isActive,
+    contactType,
+  } = filters
+
+  const offset = calculateOffset(page, limit)
+  const sortColumn = mapContactSortField(sort)
+
+  return withTenantSchema(schemaName, async (trx) => {
+    const query = Contact.query(trx)
+      .modify('notDeleted')
+      .modify('byTenant', tenantId)
+
+    // Customers include contacts that are both customer and vendor
+    if (contactType === ContactType.CUSTOMER) {
+      query.modify('customers')
+    } else if (contactType === ContactType.VENDOR) {
+      query.modify('vendors')
+    } else if (contactType) {
+      query.where('contact_type', contactType)
+    }
+
+    if (isActive !== undefined) {
+      query.where('is_active', isActive)
+    }
+
+    // Search in names, email and tax number
+    if (search) {
+      query.where((builder) => {
+        builder
+          .where('display_name', 'ilike', `%${search}%`)
+          .orWhere('company_name', 'ilike', `%${search}%`)
+          .orWhere('email', 'ilike', `%${search}%`)
+          .orWhere('tax_number', 'ilike', `%${search}%`)
+      })
+    }
+
+    const total = await query.resultSize()
+
+    const contacts = await query
+      .withGraphFetched(
+        '[defaultIncomeAccount, defaultExpenseAccount, defaultTaxGroup]'
+      )
+      .orderBy(sortColumn, order)
+      .orderBy('id', 'asc')
+      .limit(limit)
+      .offset(offset)
+
+    return { contacts, total }
+  })
+}
+
+/**
+ * Find contact by ID
+ * @param trx - Optional transaction to use (if provided, won't create a new transaction)
+ */
+export const findContactById = async (
+  tenantId: string,
+  schemaName: string,
+  contactId: string,
+  trx?: Knex.Transaction
+): Promise<Contact> => {
+  const execute = async (transaction: Knex.Transaction) => {
+    const contact = await Contact.query(transaction)
+      .modify('notDeleted')
+      .modify('byTenant', tenantId)
+      .findById(contactId)
+      .withGraphFetched(
+        '[defaultIncomeAccount, defaultExpenseAccount, defaultTaxGroup]'
+      )
+
+    if (!contact) {
+      throw new ApiError(
+        HTTP_STATUS.NOT_FOUND,
+        ERROR_MESSAGES.CONTACT_NOT_FOUND
+      )
+    }
+
+    return contact
+  }
+
+  // If transaction is provided, use it directly
+  if (trx) {
+    return execute(trx)
+  }
+
+  // Otherwise, create a new transaction
+  return withTenantSchema(schemaName, execute)
+}
+
+/**
+ * Create contact
+ */
+export const createContact = async (
+  tenantId: string,
+  schemaName: string,
+  createdBy: string,
+  data: CreateContactData
+): Promise<Contact> => {
+  return withTenantSchema(schemaName, async (trx) => {
+    await assertContactReferences(trx, tenantId, data)
+
+    const contact = await Contact.query(trx).insert({
+      tenantId,
+      createdBy,
+      contactType: data.contactType,
+      displayName: data.displayName,
+      companyName: data.companyName ?? null,
+      firstName: data.firstName ?? null,
+      lastName: data.lastName ?? null,
+      email: data.email ?? null,
+      phone: data.phone ?? null,
+      website: data.website ?? null,
+      taxNumber: data.taxNumber ?? null,
+      currencyCode: data.currencyCode ?? null,
+      billingAddress: data.billingAddress ?? null,
+      shippingAddress: data.shippingAddress ?? null,
+      defaultIncomeAccountId: data.defaultIncomeAccountId ?? null,
+      defaultExpenseAccountId: data.defaultExpenseAccountId ?? null,
+      defaultTaxGroupId: data.defaultTaxGroupId ?? null,
+      paymentTermsDays: data.paymentTermsDays ?? 30,
+      notes: data.notes ?? null,
+      isActive: data.isActive ?? true,
+    })
+
+    return findContactById(tenantId, schemaName, contact.id, trx)
+  })
+}
+
+/**
+ * Update contact
+ */
+export const updateContact = async (
+  tenantId: string,
+  schemaName: string,
+  contactId: string,
+  data: UpdateContactData
+): Promise<Contact> => {
+  return withTenantSchema(schemaName, async (trx) => {
+    // Verify contact exists
+    await findContactById(tenantId, schemaName, contactId, trx)
+
+    await assertContactReferences(trx, tenantId, data)
+
+    const updateData: Partial<Contact> = {}
+    if (data.contactType !== undefined)
+      updateData.contactType = data.contactType
+    if (data.displayName !== undefined)
+      updateData.displayName = data.displayName
+    if (data.companyName !== undefined)
+      updateData.companyName = data.companyName
+    if (data.firstName !== undefined) updateData.firstName = data.firstName
+    if (data.lastName !== undefined) updateData.lastName = data.lastName
+    if (data.email !== undefined) updateData.email = data.email
+    if (data.phone !== undefined) updateData.phone = data.phone
+    if (data.website !== undefined) updateData.website = data.website
+    if (data.taxNumber !== undefined) updateData.taxNumber = data.taxNumber
+    if (data.currencyCode !== undefined)
+      updateData.currencyCode = data.currencyCode
+    if (data.billingAddress !== undefined)
+      updateData.billingAddress = data.billingAddress
+    if (data.shippingAddress !== undefined)
+      updateData.shippingAddress = data.shippingAddress
+    if (data.defaultIncomeAccountId !== undefined)
+      updateData.defaultIncomeAccountId = data.defaultIncomeAccountId
+    if (data.defaultExpenseAccountId !== undefined)
+      updateData.defaultExpenseAccountId = data.defaultExpenseAccountId
+    if (data.defaultTaxGroupId !== undefined)
+      updateData.defaultTaxGroupId = data.defaultTaxGroupId
+    if (data.paymentTermsDays !== undefined)
+      updateData.paymentTermsDays = data.paymentTermsDays
+    if (data.notes !== undefined) updateData.notes = data.notes
+    if (data.isActive !== undefined) updateData.isActive = data.isActive
+
+    await Contact.query(trx).findById(contactId).patch(updateData)
+
+    return findContactById(tenantId, schemaName, contactId, trx)
+  })
+}
+
+/**
+ * Delete contact (soft delete)
+ * Entry lines and exemptions keep referencing the contact; contacts with an
+ * open balance cannot be deleted
+ */
+export const deleteContact = async (
+  tenantId: string,
+  schemaName: string,
+  contactId: string
+): Promise<Contact> => {
+  return withTenantSchema(schemaName, async (trx) => {
+    // Verify contact exists
+    await findContactById(tenantId, schemaName, contactId, trx)
+
+    const balance = await sumContactBalance(
+      trx,
+      tenantId,
+      contactId,
+      resolveReportDate()
+    )
+    if (balance !== 0) {
+      throw new ApiError(
+        HTTP_STATUS.BAD_REQUEST,
+        ERROR_MESSAGES.CONTACT_HAS_OPEN_BALANCE
+      )
+    }
+
+    // Soft delete
+    await trx('contacts')
+      .where('id', contactId)
+      .where('tenant_id', tenantId)
+      .update({
+        deleted_at: getCurrentDate(),
+        updated_at: getCurrentDate(),
+      })
+
+    // Reload without notDeleted modifier
+    const deletedContact = await Contact.query(trx).findById(contactId)
+    return deletedContact as Contact
+  })
+}
+
+/**
+ * Restore contact
+ */
+export const restoreContact = async (
+  tenantId: string,
+  schemaName: string,
+  contactId: string
+): Promise<Contact> => {
+  return withTenantSchema(schemaName, async (trx) => {
+    // Find deleted contact
+    const contact = await Contact.query(trx)
+      .modify('deleted')
+      .modify('byTenant', tenantId)
+      .findById(contactId)
+
+    if (!contact) {
+      throw new ApiError(
+        HTTP_STATUS.NOT_FOUND,
+        ERROR_MESSAGES.CONTACT_NOT_FOUND_OR_NOT_DELETED
+      )
+    }
+
+    // Restore
+    await trx('contacts')
+      .where('id', contactId)
+      .where('tenant_id', tenantId)
+      .update({
+        deleted_at: null,
+        updated_at: getCurrentDate(),
+      })
+
+    return findContactById(tenantId, schemaName, contactId, trx)
+  })
+}
+
+/**
+ * Get the ledger of a contact for a date range
+ * Lists posted lines of the contact on asset and liability accounts ordered by
+ * entry date and entry number; the running balance is computed over the whole
+ * range so it stays correct across pages.
+ * @param tenantId - Tenant ID
+ * @param schemaName - Tenant schema name
+ * @param contactId - Contact ID
+ * @param filters - Date range and pagination
+ * @returns Opening and closing balance with a page of movements
+ */
+export const getContactLedger = async (
+  tenantId: string,
+  schemaName: string,
+  contactId: string,
+  filters: ContactLedgerFilters
+): Promise<ContactLedgerResult> => {
+  return withTenantSchema(schemaName, async (trx) => {
+    await findContactById(tenantId, schemaName, contactId, trx)
+
+    const { startDate, endDate } = await resolveReportDateRange(
+      trx,
+      tenantId,
+      filters.startDate,
+      filters.endDate
+    )
+
+    const openingBalance = await sumContactBalance(
+      trx,
+      tenantId,
+      contactId,
+      new Date(startDate.getTime() - 1)
+    )
+    const closingBalance = await sumContactBalance(
+      trx,
+      tenantId,
+      contactId,
+      endDate
+    )
+
+    const linesQuery = postedLinesQuery(trx, tenantId, { startDate, endDate })
+      .join('chart_of_accounts as coa', 'coa.id', 'jel.account_id')
+      .where('jel.contact_id', contactId)
+      .whereIn('coa.account_type', BALANCE_ACCOUNT_TYPES)
+
+    const countRow = (await linesQuery
+      .clone()
+      .count({ count: 'jel.id' })
+      .first()) as { count: string | number } | undefined
+
+    const rows = (await linesQuery
+      .select(
+        'jel.id as line_id',
+        'jel.journal_entry_id',
+        'jel.account_id',
+        'jel.debit',
+        'jel.credit',
+        'jel.description',
+        'coa.account_number',
+        'coa.account_name',
+        'je.entry_number',
+        'je.entry_date',
+        'je.reference',
+        'je.description as entry_description'
+      )
+      .select(
+        trx.raw(
+          'sum(jel.debit - jel.credit) over (order by je.entry_date, je.entry_number, jel.line_number, jel.id rows between unbounded preceding and current row) as cumulative_net'
+        )
+      )
+      .orderBy([
+        { column: 'je.entry_date', order: 'asc' },
+        { column: 'je.entry_number', order: 'asc' },
+        { column: 'jel.line_number', order: 'asc' },
+        { column: 'jel.id', order: 'asc' },
+      ])
+      .limit(filters.limit)
+      .offset(calculateOffset(filters.page, filters.limit))) as Array<{
+      line_id: string
+      journal_entry_id: string
+      account_id: string
+      debit: string | number
+      credit: string | number
+      description: string | null
+      account_number: string | null
+      account_name: string
+      entry_number: string | null
+      entry_date: Date
+      reference: string | null
+      entry_description: string | null
+      cumulative_net: string | number
+    }>
+
+    const movements: ContactLedgerMovement[] = rows.map((row) => ({
+      journalEntryId: row.journal_entry_id,
+      journalEntryLineId: row.line_id,
+      entryNumber: row.entry_number,
+      entryDate: formatDateToString(row.entry_date) ?? '',
+      reference: row.reference,
+      description: row.description ?? row.entry_description,
+      accountId: row.account_id,
+      accountNumber: row.account_number,
+      accountName: row.account_name,
+      debit: roundAmount(Number(row.debit)),
+      credit: roundAmount(Number(row.credit)),
+      runningBalance: roundAmount(openingBalance + Number(row.cumulative_net)),
+    }))
+
+    return {
+      period: toReportPeriod(startDate, endDate),
+      openingBalance,
+      closingBalance,
+      movements,
+      total: Number(countRow?.count ?? 0),
+    }
+  })
+}
+
+/**
+ * Get the balance of a contact as of a date
+ * Totals posted lines of the contact per account; the balance only counts
+ * asset and liability accounts
+ * @param tenantId - Tenant ID
+ * @param schemaName - Tenant schema name
+ * @param contactId - Contact ID
+ * @param asOf - Optional YYYY-MM-DD date, defaults to today
+ * @returns Per-account totals and the contact balance
+ */
+export const getContactBalance = async (
+  tenantId: string,
+  schemaName: string,
+  contactId: string,
+  asOf?: string
+): Promise<ContactBalance> => {
+  return withTenantSchema(schemaName, async (trx) => {
+    await findContactById(tenantId, schemaName, contactId, trx)
+
+    const asOfDate = resolveReportDate(asOf)
+
+    const rows = (await postedLinesQuery(trx, tenantId, { endDate: asOfDate })
+      .join('chart_of_accounts as coa', 'coa.id', 'jel.account_id')
+      .where('jel.contact_id', contactId)
+      .groupBy(
+        'coa.id',
+        'coa.account_number',
+        'coa.account_name',
+        'coa.account_type'
+      )
+      .select(
+        'coa.id as account_id',
+        'coa.account_number',
+        'coa.account_name',
+        'coa.account_type'
+      )
+      .sum({ debit: 'jel.debit', credit: 'jel.credit' })
+      .orderBy('coa.account_number', 'asc')
+      .orderBy('coa.account_name', 'asc')) as Array<{
+      account_id: string
+      account_number: string | null
+      account_name: string
+      account_type: AccountType
+      debit: string | number | null
+      credit: string | number | null
+    }>
+
+    const accounts: ContactBalanceAccount[] = rows.map((row) => {
+      const debit = roundAmount(Number(row.debit ?? 0))
+      const credit = roundAmount(Number(row.credit ?? 0))
+      return {
+        accountId: row.account_id,
+        accountNumber: row.account_number,
+        accountName: row.account_name,
+        accountType: row.account_type,
+        debit,
+        credit,
+        balance: roundAmount(debit - credit),
+      }
+    })
+
+    const balanceAccounts = accounts.filter((account) =>
+      BALANCE_ACCOUNT_TYPES.includes(account.accountType)
+    )
+    const totalDebit = roundAmount(
+      balanceAccounts.reduce((sum, account) => sum + account.debit, 0)
+    )
+    const totalCredit = roundAmount(
+      balanceAccounts.reduce((sum, account) => sum + account.credit, 0)
+    )
+
+    return {
+      asOf: formatDateToString(asOfDate) ?? '',
+      accounts,
+      totalDebit,
+      totalCredit,
+      balance: roundAmount(totalDebit - totalCredit),
+    }
+  })
+}
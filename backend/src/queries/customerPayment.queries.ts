@@ -0,0 +1,849 @@
+import type { Knex } from 'knex'
+
+import type {
+  CreateCustomerPaymentData,
+  CustomerPaymentFilters,
+  CustomerPaymentListResult,
+  OpenReceivableItem,
+  UnmatchCustomerPaymentData,
+  UpdateCustomerPaymentSettingsData,
+} from '@/types/customerPayment.type'
+import { ERROR_MESSAGES } from '@constants/errors'
+import { HTTP_STATUS } from '@constants/http'
+import { Account } from '@models/Account'
+import { AccountType, ChartOfAccount } from '@models/ChartOfAccount'
+import { Contact } from '@models/Contact'
+import {
+  CUSTOMER_PAYMENT_SOURCE_MODULE,
+  CustomerPayment,
+  CustomerPaymentStatus,
+} from '@models/CustomerPayment'
+import { CustomerPaymentAllocation } from '@models/CustomerPaymentAllocation'
+import { CustomerPaymentSettings } from '@models/CustomerPaymentSettings'
+import { Invoice, InvoiceStatus } from '@models/Invoice'
+import { InvoiceSettings } from '@models/InvoiceSettings'
+import {
+  JOURNAL_ENTRY_SOURCE_MODULE,
+  JournalEntryStatus,
+  JournalEntryType,
+} from '@models/JournalEntry'
+import { findContactById } from '@queries/contact.queries'
+import { findBaseCurrency } from '@queries/exchangeRate.queries'
+import { postOrSubmitJournalEntry } from '@queries/journalApproval.queries'
+import {
+  createJournalEntry,
+  findJournalEntryById,
+  reverseJournalEntry,
+  voidJournalEntry,
+} from '@queries/journalEntry.queries'
+import { roundAmount } from '@queries/report.queries'
+import { calculateOffset } from '@schema/shared.schema'
+import { ApiError } from '@utils/ApiError'
+import {
+  formatDateToString,
+  getCurrentDate,
+  parseDateStringToUTC,
+  toDateColumn,
+} from '@utils/date'
+import { withTenantSchema } from '@utils/tenantQuery'
+
+/**
+ * Open receivable line row as selected from the database
+ */
+interface OpenReceivableRow {
+  line_id: string
+  journal_entry_id: string
+  entry_number: string | null
+  entry_date: Date
+  reference: string | null
+  description: string | null
+  invoice_id: string | null
+  invoice_number: string | null
+  due_date: Date | null
+  debit: string | number
+  allocated_amount: string | number
+}
+
+/**
+ * Map sort field to database column
+ */
+const mapCustomerPaymentSortField = (field: string): string => {
+  const fieldMap: Record<string, string> = {
+    paymentDate: 'payment_date',
+    amount: 'amount',
+    status: 'status',
+    createdAt: 'created_at',
+  }
+  // eslint-disable-next-line security/detect-object-injection
+  return fieldMap[field] ?? 'payment_date'
+}
+
+/**
+ * Start of today (UTC); payments are unmatched on it by default
+ */
+const getUnmatchDefaultDate = (): Date =>
+  parseDateStringToUTC(formatDateToString(getCurrentDate()) as string)
+
+/**
+ * Load the customer of a payment
+ * The contact must be an active customer
+ */
+const findPaymentCustomer = async (
+  tenantId: string,
+  schemaName: string,
+  contactId: string
+): Promise<Contact> => {
+  const contact = await findContactById(tenantId, schemaName, contactId)
+
+  if (!contact.isActive) {
+    throw new ApiError(HTTP_STATUS.BAD_REQUEST, ERROR_MESSAGES.CONTACT_INACTIVE)
+  }
+  if (!contact.isCustomer()) {
+    throw new ApiError(
+      HTTP_STATUS.BAD_REQUEST,
+      ERROR_MESSAGES.CUSTOMER_PAYMENT_CONTACT_NOT_CUSTOMER
+    )
+  }
+
+  return contact
+}
+
+/**
+ * Validate a ledger account used by customer payments
+ * The account must exist, be active and have the given type
+ */
+const assertLedgerAccount = async (
+  trx: Knex.Transaction,
+  tenantId: string,
+  accountId: string,
+  accountType: AccountType,
+  message: string
+): Promise<ChartOfAccount> => {
+  const account = await ChartOfAccount.query(trx)
+    .modify('notDeleted')
+    .modify('byTenant', tenantId)
+    .findById(accountId)
+
+  if (!account) {
+    throw new ApiError(
+      HTTP_STATUS.NOT_FOUND,
+      ERROR_MESSAGES.CHART_OF_ACCOUNT_NOT_FOUND
+    )
+  }
+  if (account.accountType !== accountType || !account.isActive) {
+    throw new ApiError(HTTP_STATUS.BAD_REQUEST, message)
+  }
+
+  return account
+}
+
+/**
+ * Find the accounts receivable account payments from customers credit
+ * Uses the receivable account of the invoice settings
+ */
+const findReceivableAccount = async (
+  trx: Knex.Transaction,
+  tenantId: string
+): Promise<ChartOfAccount> => {
+  const invoiceSettings = await InvoiceSettings.query(trx)
+    .modify('byTenant', tenantId)
+    .first()
+  if (!invoiceSettings?.receivableAccountId) {
+    throw new ApiError(
+      HTTP_STATUS.BAD_REQUEST,
+      ERROR_MESSAGES.CUSTOMER_PAYMENT_RECEIVABLE_ACCOUNT_MISSING
+    )
+  }
+
+  return assertLedgerAccount(
+    trx,
+    tenantId,
+    invoiceSettings.receivableAccountId,
+    AccountType.ASSET,
+    ERROR_MESSAGES.INVOICE_RECEIVABLE_ACCOUNT_INVALID
+  )
+}
+
+/**
+ * Find the ledger account of the bank account a payment is deposited to
+ * The bank account must be active and linked to a chart of accounts entry in
+ * the base currency
+ */
+const findDepositAccount = async (
+  trx: Knex.Transaction,
+  tenantId: string,
+  bankAccountId: string
+): Promise<ChartOfAccount> => {
+  const bankAccount = await Account.query(trx)
+    .modify('notDeleted')
+    .modify('byTenant', tenantId)
+    .findById(bankAccountId)
+  if (!bankAccount) {
+    throw new ApiError(HTTP_STATUS.NOT_FOUND, ERROR_MESSAGES.ACCOUNT_NOT_FOUND)
+  }
+  if (!bankAccount.isActive) {
+    throw new ApiError(
+      HTTP_STATUS.BAD_REQUEST,
+      ERROR_MESSAGES.CUSTOMER_PAYMENT_BANK_ACCOUNT_INACTIVE
+    )
+  }
+
+  const depositAccount = await ChartOfAccount.query(trx)
+    .modify('notDeleted')
+    .modify('byTenant', tenantId)
+    .where('bank_account_id', bankAccountId)
+    .first()
+  if (!depositAccount) {
+    throw new ApiError(
+      HTTP_STATUS.BAD_REQUEST,
+      ERROR_MESSAGES.CUSTOMER_PAYMENT_NO_LINKED_ACCOUNT
+    )
+  }
+
+  const baseCurrency = await findBaseCurrency(trx, tenantId)
+  if (depositAccount.currencyCode !== baseCurrency) {
+    throw new ApiError(
+      HTTP_STATUS.BAD_REQUEST,
+      ERROR_MESSAGES.CUSTOMER_PAYMENT_CURRENCY_INVALID
+    )
+  }
+
+  return depositAccount
+}
+
+/**
+ * Get the customer payment settings of a tenant, creating them the first time
+ */
+const getOrCreateCustomerPaymentSettings = async (
+  trx: Knex.Transaction,
+  tenantId: string
+): Promise<CustomerPaymentSettings> => {
+  const settings = await CustomerPaymentSettings.query(trx)
+    .modify('byTenant', tenantId)
+    .first()
+
+  if (settings) {
+    return settings
+  }
+
+  return CustomerPaymentSettings.query(trx).insert({ tenantId })
+}
+
+/**
+ * Select the receivable lines of a customer with their allocated amounts
+ * Lines are debits on the receivable account in posted entries that were not
+ * reversed. Allocations of unmatched payments are not counted.
+ */
+const findReceivableRows = async (
+  trx: Knex.Transaction,
+  tenantId: string,
+  receivableAccountId: string,
+  contactId: string,
+  lineIds?: string[]
+): Promise<OpenReceivableRow[]> => {
+  const allocatedAmount = trx('customer_payment_allocations as cpa')
+    .join('customer_payments as cp', 'cp.id', 'cpa.payment_id')
+    .whereRaw('cpa.journal_entry_line_id = jel.id')
+    .whereNull('cpa.deleted_at')
+    .whereNull('cp.deleted_at')
+    .whereNot('cp.status', CustomerPaymentStatus.UNMATCHED)
+    .sum('cpa.amount')
+
+  const query = trx('journal_entry_lines as jel')
+    .join('journal_entries as je', 'je.id', 'jel.journal_entry_id')
+    .leftJoin('invoices as inv', (join) => {
+      join
+        .on('inv.journal_entry_id', 'je.id')
+        .andOnNull('inv.deleted_at')
+        .andOnVal('inv.status', '<>', InvoiceStatus.VOID)
+    })
+    .where('jel.tenant_id', tenantId)
+    .where('jel.account_id', receivableAccountId)
+    .where('jel.contact_id', contactId)
+    .where('jel.debit', '>', 0)
+    .whereNull('jel.deleted_at')
+    .whereNull('je.deleted_at')
+    .where('je.status', JournalEntryStatus.POSTED)
+    .whereNot((builder) => {
+      builder
+        .where('je.is_reversing', true)
+        .where('je.source_module', JOURNAL_ENTRY_SOURCE_MODULE)
+    })
+    .whereNotExists((builder) => {
+      builder
+        .select(1)
+        .from('journal_entries as reversal')
+        .whereRaw('reversal.source_id = je.id')
+        .where('reversal.source_module', JOURNAL_ENTRY_SOURCE_MODULE)
+        .where('reversal.is_reversing', true)
+        .whereNull('reversal.deleted_at')
+    })
+    .select(
+      'jel.id as line_id',
+      'jel.journal_entry_id',
+      'jel.debit',
+      'je.entry_number',
+      'je.entry_date',
+      'je.reference',
+      trx.raw('coalesce(jel.description, je.description) as description'),
+      'inv.id as invoice_id',
+      'inv.invoice_number',
+      'inv.due_date'
+    )
+    .select(trx.raw('coalesce((?), 0) as allocated_amount', [allocatedAmount]))
+    .orderBy([
+      { column: 'je.entry_date', order: 'asc' },
+      { column: 'je.entry_number', order: 'asc' },
+      { column: 'jel.line_number', order: 'asc' },
+    ])
+
+  if (lineIds) {
+    query.whereIn('jel.id', lineIds)
+  }
+
+  return (await query) as OpenReceivableRow[]
+}
+
+/**
+ * Convert a receivable line row to an open item
+ */
+const toOpenReceivableItem = (row: OpenReceivableRow): OpenReceivableItem => {
+  const amount = Number(row.debit)
+  const allocatedAmount = Number(row.allocated_amount)
+
+  return {
+    journalEntryLineId: row.line_id,
+    journalEntryId: row.journal_entry_id,
+    entryNumber: row.entry_number,
+    entryDate: row.entry_date,
+    reference: row.reference,
+    description: row.description,
+    invoiceId: row.invoice_id,
+    invoiceNumber: row.invoice_number,
+    dueDate: row.due_date,
+    amount,
+    allocatedAmount,
+    openAmount: roundAmount(amount - allocatedAmount),
+  }
+}
+
+/**
+ * Find customer payment settings
+ * @param trx - Optional transaction to use (if provided, won't create a new transaction)
+ */
+export const findCustomerPaymentSettings = async (
+  tenantId: string,
+  schemaName: string,
+  trx?: Knex.Transaction
+): Promise<CustomerPaymentSettings> => {
+  const execute = async (transaction: Knex.Transaction) => {
+    const settings = await getOrCreateCustomerPaymentSettings(
+      transaction,
+      tenantId
+    )
+
+    return (await CustomerPaymentSettings.query(transaction)
+      .findById(settings.id)
+      .withGraphFetched('unappliedAccount')) as CustomerPaymentSettings
+  }
+
+  // If transaction is provided, use it directly
+  if (trx) {
+    return execute(trx)
+  }
+
+  // Otherwise, create a new transaction
+  return withTenantSchema(schemaName, execute)
+}
+
+/**
+ * Update customer payment settings
+ */
+export const updateCustomerPaymentSettings = async (
+  tenantId: string,
+  schemaName: string,
+  data: UpdateCustomerPaymentSettingsData
+): Promise<CustomerPaymentSettings> => {
+  return withTenantSchema(schemaName, async (trx) => {
+    const settings = await getOrCreateCustomerPaymentSettings(trx, tenantId)
+
+    if (data.unappliedAccountId) {
+      await assertLedgerAccount(
+        trx,
+        tenantId,
+        data.unappliedAccountId,
+        AccountType.LIABILITY,
+        ERROR_MESSAGES.CUSTOMER_PAYMENT_UNAPPLIED_ACCOUNT_INVALID
+      )
+    }
+
+    const updateData: Partial<CustomerPaymentSettings> = {}
+    if (data.unappliedAccountId !== undefined)
+      updateData.unappliedAccountId = data.unappliedAccountId
+
+    await settings.$query(trx).patch(updateData)
+
+    return findCustomerPaymentSettings(tenantId, schemaName, trx)
+  })
+}
+
+/**
+ * Find the open receivable items of a customer
+ * Items are oldest first; fully matched lines are left out
+ */
+export const findOpenReceivableItems = async (
+  tenantId: string,
+  schemaName: string,
+  contactId: string
+): Promise<OpenReceivableItem[]> => {
+  await findContactById(tenantId, schemaName, contactId)
+
+  return withTenantSchema(schemaName, async (trx) => {
+    const receivableAccount = await findReceivableAccount(trx, tenantId)
+    const rows = await findReceivableRows(
+      trx,
+      tenantId,
+      receivableAccount.id,
+      contactId
+    )
+
+    return rows.map(toOpenReceivableItem).filter((item) => item.openAmount > 0)
+  })
+}
+
+/**
+ * Find customer payments with pagination, sorting, search, and filtering
+ */
+export const findCustomerPayments = async (
+  tenantId: string,
+  schemaName: string,
+  filters: CustomerPaymentFilters
+): Promise<CustomerPaymentListResult> => {
+  const {
+    page,
+    limit,
+    sort = 'paymentDate',
+    order = 'desc',
+    search,
+    status,
+    contactId,
+    bankAccountId,
+    startDate,
+    endDate,
+  } = filters
+
+  const offset = calculateOffset(page, limit)
+  const sortColumn = mapCustomerPaymentSortField(sort)
+
+  return withTenantSchema(schemaName, async (trx) => {
+    const query = CustomerPayment.query(trx)
+      .modify('notDeleted')
+      .modify('byTenant', tenantId)
+
+    if (status) {
+      query.modify('byStatus', status)
+    }
+
+    if (contactId) {
+      query.modify('byContact', contactId)
+    }
+
+    if (bankAccountId) {
+      query.modify('byBankAccount', bankAccountId)
+    }
+
+    if (startDate) {
+      query.where('payment_date', '>=', parseDateStringToUTC(startDate))
+    }
+    if (endDate) {
+      query.where('payment_date', '<=', parseDateStringToUTC(endDate))
+    }
+
+    // Search in reference, memo, payment method and customer name
+    if (search) {
+      query.where((builder) => {
+        builder
+          .where('reference', 'ilike', `%${search}%`)
+          .orWhere('memo', 'ilike', `%${search}%`)
+          .orWhere('payment_method', 'ilike', `%${search}%`)
+          .orWhereIn(
+            'contact_id',
+            Contact.query(trx)
+              .modify('byTenant', tenantId)
+              .where('display_name', 'ilike', `%${search}%`)
+              .select('id')
+          )
+      })
+    }
+
+    const total = await query.resultSize()
+
+    const payments = await query
+      .withGraphFetched('[contact, bankAccount]')
+      .orderBy(sortColumn, order)
+      .orderBy('created_at', order)
+      .limit(limit)
+      .offset(offset)
+
+    return { payments, total }
+  })
+}
+
+/**
+ * Find customer payment by ID with customer, bank account and allocations
+ * @param trx - Optional transaction to use (if provided, won't create a new transaction)
+ */
+export const findCustomerPaymentById = async (
+  tenantId: string,
+  schemaName: string,
+  paymentId: string,
+  trx?: Knex.Transaction
+): Promise<CustomerPayment> => {
+  const execute = async (transaction: Knex.Transaction) => {
+    const payment = await CustomerPayment.query(transaction)
+      .modify('notDeleted')
+      .modify('byTenant', tenantId)
+      .modify('withAllocations')
+      .findById(paymentId)
+
+    if (!payment) {
+      throw new ApiError(
+        HTTP_STATUS.NOT_FOUND,
+        ERROR_MESSAGES.CUSTOMER_PAYMENT_NOT_FOUND
+      )
+    }
+
+    return payment
+  }
+
+  // If transaction is provided, use it directly
+  if (trx) {
+    return execute(trx)
+  }
+
+  // Otherwise, create a new transaction
+  return withTenantSchema(schemaName, execute)
+}
+
+/**
+ * Record a customer payment and post its journal entry
+ * The deposit account is debited with the amount. With a customer, accounts
+ * receivable is credited for the customer: the matched part settles the open
+ * items and the rest is held as customer credit. Without a customer the
+ * amount is credited to the unapplied cash account. Matched invoices are
+ * marked paid or partially paid. Entries that need approval are submitted
+ * instead of posted.
+ */
+export const createCustomerPayment = async (
+  tenantId: string,
+  schemaName: string,
+  createdBy: string,
+  data: CreateCustomerPaymentData
+): Promise<CustomerPayment> => {
+  const allocations = data.allocations ?? []
+  if (allocations.length > 0 && !data.contactId) {
+    throw new ApiError(
+      HTTP_STATUS.BAD_REQUEST,
+      ERROR_MESSAGES.CUSTOMER_PAYMENT_CONTACT_REQUIRED
+    )
+  }
+  const lineIds = allocations.map((allocation) => allocation.journalEntryLineId)
+  if (new Set(lineIds).size !== lineIds.length) {
+    throw new ApiError(
+      HTTP_STATUS.BAD_REQUEST,
+      ERROR_MESSAGES.CUSTOMER_PAYMENT_ALLOCATION_DUPLICATE
+    )
+  }
+
+  const amount = roundAmount(data.amount)
+  const appliedAmount = roundAmount(
+    allocations.reduce((sum, allocation) => sum + allocation.amount, 0)
+  )
+  if (appliedAmount > amount) {
+    throw new ApiError(
+      HTTP_STATUS.BAD_REQUEST,
+      ERROR_MESSAGES.CUSTOMER_PAYMENT_ALLOCATION_EXCEEDS_AMOUNT
+    )
+  }
+
+  const contact = data.contactId
+    ? await findPaymentCustomer(tenantId, schemaName, data.contactId)
+    : undefined
+
+  return withTenantSchema(schemaName, async (trx) => {
+    const depositAccount = await findDepositAccount(
+      trx,
+      tenantId,
+      data.bankAccountId
+    )
+
+    let creditAccount: ChartOfAccount
+    if (contact) {
+      creditAccount = await findReceivableAccount(trx, tenantId)
+    } else {
+      const settings = await getOrCreateCustomerPaymentSettings(trx, tenantId)
+      if (!settings.unappliedAccountId) {
+        throw new ApiError(
+          HTTP_STATUS.BAD_REQUEST,
+          ERROR_MESSAGES.CUSTOMER_PAYMENT_UNAPPLIED_ACCOUNT_MISSING
+        )
+      }
+      creditAccount = await assertLedgerAccount(
+        trx,
+        tenantId,
+        settings.unappliedAccountId,
+        AccountType.LIABILITY,
+        ERROR_MESSAGES.CUSTOMER_PAYMENT_UNAPPLIED_ACCOUNT_INVALID
+      )
+    }
+
+    // Lock the matched lines so concurrent payments cannot over-allocate them
+    const openItems = new Map<string, OpenReceivableItem>()
+    if (contact && lineIds.length > 0) {
+      await trx('journal_entry_lines')
+        .where('tenant_id', tenantId)
+        .whereIn('id', lineIds)
+        .forUpdate()
+        .select('id')
+
+      const rows = await findReceivableRows(
+        trx,
+        tenantId,
+        creditAccount.id,
+        contact.id,
+        lineIds
+      )
+      for (const row of rows) {
+        openItems.set(row.line_id, toOpenReceivableItem(row))
+      }
+    }
+
+    for (const allocation of allocations) {
+      const item = openItems.get(allocation.journalEntryLineId)
+      if (!item || item.openAmount <= 0) {
+        throw new ApiError(
+          HTTP_STATUS.BAD_REQUEST,
+          ERROR_MESSAGES.CUSTOMER_PAYMENT_ALLOCATION_INVALID
+        )
+      }
+      if (roundAmount(allocation.amount) > item.openAmount) {
+        throw new ApiError(
+          HTTP_STATUS.BAD_REQUEST,
+          ERROR_MESSAGES.CUSTOMER_PAYMENT_ALLOCATION_EXCEEDS_OPEN
+        )
+      }
+    }
+
+    const remainder = roundAmount(amount - appliedAmount)
+    const status =
+      appliedAmount === 0
+        ? CustomerPaymentStatus.UNAPPLIED
+        : remainder > 0
+          ? CustomerPaymentStatus.PARTIALLY_APPLIED
+          : CustomerPaymentStatus.APPLIED
+    const paymentDate = parseDateStringToUTC(data.paymentDate)
+
+    const payment = await CustomerPayment.query(trx).insert({
+      tenantId,
+      createdBy,
+      contactId: contact?.id ?? null,
+      bankAccountId: data.bankAccountId,
+      status,
+      paymentDate: toDateColumn(paymentDate),
+      paymentMethod: data.paymentMethod ?? null,
+      reference: data.reference ?? null,
+      memo: data.memo ?? null,
+      amount,
+      appliedAmount,
+      creditAmount: contact ? remainder : 0,
+      unappliedAmount: contact ? 0 : amount,
+      depositAccountId: depositAccount.id,
+      receivableAccountId: contact ? creditAccount.id : null,
+      unappliedAccountId: contact ? null : creditAccount.id,
+    })
+
+    for (const allocation of allocations) {
+      const item = openItems.get(
+        allocation.journalEntryLineId
+      ) as OpenReceivableItem
+      const allocationAmount = roundAmount(allocation.amount)
+
+      await CustomerPaymentAllocation.query(trx).insert({
+        tenantId,
+        createdBy,
+        paymentId: payment.id,
+        journalEntryLineId: allocation.journalEntryLineId,
+        invoiceId: item.invoiceId,
+        amount: allocationAmount,
+      })
+
+      if (item.invoiceId) {
+        const invoice = (await Invoice.query(trx)
+          .modify('notDeleted')
+          .modify('byTenant', tenantId)
+          .findById(item.invoiceId)
+          .forUpdate()) as Invoice
+        const amountPaid = roundAmount(
+          Number(invoice.amountPaid) + allocationAmount
+        )
+
+        await invoice.$query(trx).patch({
+          amountPaid,
+          status:
+            amountPaid >= Number(invoice.total)
+              ? InvoiceStatus.PAID
+              : InvoiceStatus.PARTIALLY_PAID,
+        })
+      }
+    }
+
+    const description = contact
+      ? `Payment from ${contact.displayName}`
+      : 'Unapplied payment'
+    const created = await createJournalEntry(
+      tenantId,
+      schemaName,
+      createdBy,
+      {
+        entryDate: data.paymentDate,
+        entryType: JournalEntryType.STANDARD,
+        isAdjusting: false,
+        isClosing: false,
+        isReversing: false,
+        description,
+        ...(data.reference ? { reference: data.reference } : {}),
+        sourceModule: CUSTOMER_PAYMENT_SOURCE_MODULE,
+        sourceId: payment.id,
+        lines: [
+          {
+            accountId: depositAccount.id,
+            lineNumber: 1,
+            debit: amount,
+            credit: 0,
+            description,
+            ...(contact ? { contactId: contact.id } : {}),
+          },
+          {
+            accountId: creditAccount.id,
+            lineNumber: 2,
+            debit: 0,
+            credit: amount,
+            description,
+            ...(contact ? { contactId: contact.id } : {}),
+          },
+        ],
+      },
+      trx
+    )
+
+    const entry = await postOrSubmitJournalEntry(
+      tenantId,
+      schemaName,
+      created,
+      createdBy,
+      trx
+    )
+
+    await payment.$query(trx).patch({ journalEntryId: entry.id })
+
+    return findCustomerPaymentById(tenantId, schemaName, payment.id, trx)
+  })
+}
+
+/**
+ * Unmatch a customer payment
+ * A posted entry is reversed on the unmatch date, or today; an entry that was
+ * not posted is voided. The matched amounts are taken off the invoices and the
+ * open items become available again. Allocations are kept for history.
+ */
+export const unmatchCustomerPayment = async (
+  tenantId: string,
+  schemaName: string,
+  unmatchedBy: string,
+  paymentId: string,
+  data: UnmatchCustomerPaymentData
+): Promise<CustomerPayment> => {
+  return withTenantSchema(schemaName, async (trx) => {
+    const payment = await findCustomerPaymentById(
+      tenantId,
+      schemaName,
+      paymentId,
+      trx
+    )
+    if (payment.isUnmatched()) {
+      throw new ApiError(
+        HTTP_STATUS.CONFLICT,
+        ERROR_MESSAGES.CUSTOMER_PAYMENT_ALREADY_UNMATCHED
+      )
+    }
+
+    const unmatchDate = data.unmatchDate
+      ? parseDateStringToUTC(data.unmatchDate)
+      : getUnmatchDefaultDate()
+    if (unmatchDate < new Date(payment.paymentDate)) {
+      throw new ApiError(
+        HTTP_STATUS.BAD_REQUEST,
+        ERROR_MESSAGES.CUSTOMER_PAYMENT_UNMATCH_DATE_INVALID
+      )
+    }
+
+    let reversalJournalEntryId: string | null = null
+    if (payment.journalEntryId) {
+      const entry = await findJournalEntryById(
+        tenantId,
+        schemaName,
+        payment.journalEntryId,
+        trx
+      )
+
+      if (entry.isPosted()) {
+        const reversal = await reverseJournalEntry(
+          tenantId,
+          schemaName,
+          entry.id,
+          unmatchDate,
+          unmatchedBy,
+          trx
+        )
+        reversalJournalEntryId = reversal.id
+      } else if (!entry.isVoided()) {
+        await voidJournalEntry(tenantId, schemaName, entry.id, trx)
+      }
+    }
+
+    for (const allocation of payment.allocations ?? []) {
+      if (!allocation.invoiceId) {
+        continue
+      }
+
+      const invoice = await Invoice.query(trx)
+        .modify('notDeleted')
+        .modify('byTenant', tenantId)
+        .findById(allocation.invoiceId)
+        .forUpdate()
+      if (!invoice || invoice.status === InvoiceStatus.VOID) {
+        continue
+      }
+
+      const amountPaid = Math.max(
+        roundAmount(Number(invoice.amountPaid) - Number(allocation.amount)),
+        0
+      )
+      await invoice.$query(trx).patch({
+        amountPaid,
+        status:
+          amountPaid > 0 ? InvoiceStatus.PARTIALLY_PAID : InvoiceStatus.SENT,
+      })
+    }
+
+    await payment.$query(trx).patch({
+      status: CustomerPaymentStatus.UNMATCHED,
+      reversalJournalEntryId,
+      unmatchedAt: toDateColumn(getCurrentDate()),
+      unmatchedBy,
+      unmatchReason: data.reason ?? null,
+    })
+
+    return findCustomerPaymentById(tenantId, schemaName, payment.id, trx)
+  })
+}
@@ -0,0 +1,652 @@
+import { createHash } from 'node:crypto'
+import type { Readable } from 'node:stream'
+
+import type { Knex } from 'knex'
+import { v4 as uuidv4 } from 'uuid'
+
+import type {
+  AttachDocumentData,
+  DocumentDownloadUrl,
+  DocumentFilters,
+  DocumentListResult,
+  DocumentStorageUsage,
+  UpdateDocumentData,
+  UpdateDocumentSettingsData,
+  UploadDocumentData,
+  UploadedDocumentFile,
+} from '@/types/document.type'
+import { env } from '@config/env'
+import logger from '@config/logger'
+import { ERROR_MESSAGES } from '@constants/errors'
+import { HTTP_STATUS } from '@constants/http'
+import { Bill } from '@models/Bill'
+import {
+  Document,
+  DocumentCategory,
+  DocumentStorageDriver,
+} from '@models/Document'
+import {
+  DocumentAttachment,
+  DocumentAttachmentEntityType,
+} from '@models/DocumentAttachment'
+import { DocumentSettings } from '@models/DocumentSettings'
+import { Invoice } from '@models/Invoice'
+import { JournalEntry } from '@models/JournalEntry'
+import { TaxExemption } from '@models/TaxExemption'
+import { findTenantById } from '@queries/tenant.queries'
+import { calculateOffset } from '@schema/shared.schema'
+import { scanDocument } from '@services/documentScan.service'
+import { getDocumentStorage } from '@services/documentStorage.service'
+import { ApiError } from '@utils/ApiError'
+import {
+  formatDateToISOString,
+  getCurrentDate,
+  getCurrentISOString,
+} from '@utils/date'
+import {
+  signDocumentDownloadToken,
+  verifyDocumentDownloadToken,
+} from '@utils/jwt'
+import { withTenantSchema } from '@utils/tenantQuery'
+
+/**
+ * Bytes in a megabyte
+ */
+const BYTES_PER_MB = 1024 * 1024
+
+/**
+ * Map sort field to database column
+ */
+const mapDocumentSortField = (field: string): string => {
+  const fieldMap: Record<string, string> = {
+    name: 'name',
+    sizeBytes: 'size_bytes',
+    category: 'category',
+    createdAt: 'created_at',
+  }
+  // eslint-disable-next-line security/detect-object-injection
+  return fieldMap[field] ?? 'created_at'
+}
+
+/**
+ * Storage key of a new document: tenant, upload month and document ID
+ * The file name is kept on the row only, so keys never carry user input
+ */
+const getDocumentStorageKey = (
+  tenantId: string,
+  documentId: string
+): string => {
+  const month = getCurrentDate().toISOString().slice(0, 7).replace('-', '/')
+  return `${tenantId}/${month}/${documentId}`
+}
+
+/**
+ * Get the document settings of a tenant, creating them the first time
+ */
+const getOrCreateDocumentSettings = async (
+  trx: Knex.Transaction,
+  tenantId: string
+): Promise<DocumentSettings> => {
+  const settings = await DocumentSettings.query(trx)
+    .modify('byTenant', tenantId)
+    .first()
+
+  if (settings) {
+    return settings
+  }
+
+  return DocumentSettings.query(trx).insert({ tenantId })
+}
+
+/**
+ * Quota of a tenant in bytes; settings without a quota use the default
+ */
+const getQuotaBytes = (settings: DocumentSettings): number =>
+  settings.quotaBytes !== null && settings.quotaBytes !== undefined
+    ? Number(settings.quotaBytes)
+    : env.DOCUMENT_TENANT_QUOTA_MB * BYTES_PER_MB
+
+/**
+ * Storage used by the documents of a tenant that are not deleted
+ */
+const calculateStorageUsage = async (
+  trx: Knex.Transaction,
+  settings: DocumentSettings
+): Promise<DocumentStorageUsage> => {
+  const row = (await Document.query(trx)
+    .modify('notDeleted')
+    .modify('byTenant', settings.tenantId)
+    .select(
+      trx.raw('coalesce(sum(size_bytes), 0) as used_bytes'),
+      trx.raw('count(*) as document_count')
+    )
+    .first()) as unknown as { usedBytes: string; documentCount: string }
+
+  const usedBytes = Number(row.usedBytes)
+  const quotaBytes = getQuotaBytes(settings)
+
+  return {
+    usedBytes,
+    quotaBytes,
+    availableBytes: Math.max(quotaBytes - usedBytes, 0),
+    documentCount: Number(row.documentCount),
+  }
+}
+
+/**
+ * Check that the record a document is attached to exists
+ * @throws ApiError 404 when the record is not found
+ */
+const assertAttachmentEntity = async (
+  trx: Knex.Transaction,
+  tenantId: string,
+  entityType: DocumentAttachmentEntityType,
+  entityId: string
+): Promise<void> => {
+  let entity: { id: string } | undefined
+  switch (entityType) {
+    case DocumentAttachmentEntityType.JOURNAL_ENTRY:
+      entity = await JournalEntry.query(trx)
+        .modify('notDeleted')
+        .modify('byTenant', tenantId)
+        .findById(entityId)
+      break
+    case DocumentAttachmentEntityType.INVOICE:
+      entity = await Invoice.query(trx)
+        .modify('notDeleted')
+        .modify('byTenant', tenantId)
+        .findById(entityId)
+      break
+    case DocumentAttachmentEntityType.BILL:
+      entity = await Bill.query(trx)
+        .modify('notDeleted')
+        .modify('byTenant', tenantId)
+        .findById(entityId)
+      break
+    case DocumentAttachmentEntityType.TAX_EXEMPTION:
+      entity = await TaxExemption.query(trx)
+        .modify('notDeleted')
+        .modify('byTenant', tenantId)
+        .findById(entityId)
+      break
+  }
+
+  if (!entity) {
+    throw new ApiError(
+      HTTP_STATUS.NOT_FOUND,
+      ERROR_MESSAGES.DOCUMENT_ATTACHMENT_ENTITY_NOT_FOUND
+    )
+  }
+}
+
+/**
+ * Attach a document to a record
+ * @throws ApiError 409 when the document is already attached to the record
+ */
+const insertDocumentAttachment = async (
+  trx: Knex.Transaction,
+  tenantId: string,
+  userId: string,
+  documentId: string,
+  data: AttachDocumentData
+): Promise<DocumentAttachment> => {
+  await assertAttachmentEntity(trx, tenantId, data.entityType, data.entityId)
+
+  const existing = await DocumentAttachment.query(trx)
+    .modify('notDeleted')
+    .modify('byTenant', tenantId)
+    .modify('byEntity', data.entityType, data.entityId)
+    .where('document_id', documentId)
+    .first()
+
+  if (existing) {
+    throw new ApiError(
+      HTTP_STATUS.CONFLICT,
+      ERROR_MESSAGES.DOCUMENT_ALREADY_ATTACHED
+    )
+  }
+
+  return DocumentAttachment.query(trx).insert({
+    tenantId,
+    createdBy: userId,
+    documentId,
+    entityType: data.entityType,
+    entityId: data.entityId,
+  })
+}
+
+/**
+ * Find document settings
+ * @param trx - Optional transaction to use (if provided, won't create a new transaction)
+ */
+export const findDocumentSettings = async (
+  tenantId: string,
+  schemaName: string,
+  trx?: Knex.Transaction
+): Promise<DocumentSettings> => {
+  const execute = async (transaction: Knex.Transaction) =>
+    getOrCreateDocumentSettings(transaction, tenantId)
+
+  // If transaction is provided, use it directly
+  if (trx) {
+    return execute(trx)
+  }
+
+  // Otherwise, create a new transaction
+  return withTenantSchema(schemaName, execute)
+}
+
+/**
+ * Update document settings
+ * Lowering the quota below the storage in use blocks new uploads only
+ */
+export const updateDocumentSettings = async (
+  tenantId: string,
+  schemaName: string,
+  data: UpdateDocumentSettingsData
+): Promise<DocumentSettings> => {
+  return withTenantSchema(schemaName, async (trx) => {
+    const settings = await getOrCreateDocumentSettings(trx, tenantId)
+
+    const updateData: Partial<DocumentSettings> = {}
+    if (data.quotaMb !== undefined)
+      updateData.quotaBytes =
+        data.quotaMb === null ? null : data.quotaMb * BYTES_PER_MB
+
+    await settings.$query(trx).patch(updateData)
+
+    return findDocumentSettings(tenantId, schemaName, trx)
+  })
+}
+
+/**
+ * Find the storage used by a tenant against its quota
+ */
+export const findDocumentStorageUsage = async (
+  tenantId: string,
+  schemaName: string
+): Promise<DocumentStorageUsage> => {
+  return withTenantSchema(schemaName, async (trx) => {
+    const settings = await getOrCreateDocumentSettings(trx, tenantId)
+    return calculateStorageUsage(trx, settings)
+  })
+}
+
+/**
+ * Find documents with pagination, sorting, search, and filtering
+ */
+export const findDocuments = async (
+  tenantId: string,
+  schemaName: string,
+  filters: DocumentFilters
+): Promise<DocumentListResult> => {
+  const {
+    page,
+    limit,
+    sort = 'createdAt',
+    order = 'desc',
+    search,
+    category,
+    tag,
+    entityType,
+    entityId,
+  } = filters
+
+  const offset = calculateOffset(page, limit)
+  const sortColumn = mapDocumentSortField(sort)
+
+  return withTenantSchema(schemaName, async (trx) => {
+    const query = Document.query(trx)
+      .modify('notDeleted')
+      .modify('byTenant', tenantId)
+
+    if (category) {
+      query.modify('byCategory', category)
+    }
+
+    if (tag) {
+      query.modify('byTag', tag)
+    }
+
+    // Documents attached to a record
+    if (entityType && entityId) {
+      query.whereIn(
+        'id',
+        DocumentAttachment.query(trx)
+          .modify('notDeleted')
+          .modify('byTenant', tenantId)
+          .modify('byEntity', entityType, entityId)
+          .select('document_id')
+      )
+    }
+
+    // Search in name and description
+    if (search) {
+      query.where((builder) => {
+        builder
+          .where('name', 'ilike', `%${search}%`)
+          .orWhere('description', 'ilike', `%${search}%`)
+      })
+    }
+
+    const total = await query.resultSize()
+
+    const documents = await query
+      .withGraphFetched('attachments')
+      .orderBy(sortColumn, order)
+      .orderBy('created_at', order)
+      .limit(limit)
+      .offset(offset)
+
+    return { documents, total }
+  })
+}
+
+/**
+ * Find document by ID with its attachments
+ * @param trx - Optional transaction to use (if provided, won't create a new transaction)
+ */
+export const findDocumentById = async (
+  tenantId: string,
+  schemaName: string,
+  documentId: string,
+  trx?: Knex.Transaction
+): Promise<Document> => {
+  const execute = async (transaction: Knex.Transaction) => {
+    const document = await Document.query(transaction)
+      .modify('notDeleted')
+      .modify('byTenant', tenantId)
+      .withGraphFetched('attachments')
+      .findById(documentId)
+
+    if (!document) {
+      throw new ApiError(
+        HTTP_STATUS.NOT_FOUND,
+        ERROR_MESSAGES.DOCUMENT_NOT_FOUND
+      )
+    }
+
+    return document
+  }
+
+  // If transaction is provided, use it directly
+  if (trx) {
+    return execute(trx)
+  }
+
+  // Otherwise, create a new transaction
+  return withTenantSchema(schemaName, execute)
+}
+
+/**
+ * Upload a document
+ * The file is scanned before anything is stored. The settings row is locked
+ * while the quota is checked and the file written, so concurrent uploads
+ * cannot overrun the quota together. The file is removed from storage again
+ * if the document cannot be saved.
+ */
+export const uploadDocument = async (
+  tenantId: string,
+  schemaName: string,
+  userId: string,
+  file: UploadedDocumentFile,
+  data: UploadDocumentData
+): Promise<Document> => {
+  const scan = await scanDocument({
+    tenantId,
+    fileName: file.originalName,
+    mimeType: file.mimeType,
+    buffer: file.buffer,
+  })
+
+  const documentId = uuidv4()
+  const storageDriver = env.DOCUMENT_STORAGE_DRIVER as DocumentStorageDriver
+  const storage = getDocumentStorage(storageDriver)
+  const storageKey = getDocumentStorageKey(tenantId, documentId)
+  let stored = false
+
+  try {
+    return await withTenantSchema(schemaName, async (trx) => {
+      const settings = await getOrCreateDocumentSettings(trx, tenantId)
+      await DocumentSettings.query(trx).findById(settings.id).forUpdate()
+
+      const usage = await calculateStorageUsage(trx, settings)
+      if (file.size > usage.availableBytes) {
+        throw new ApiError(
+          HTTP_STATUS.PAYLOAD_TOO_LARGE,
+          ERROR_MESSAGES.DOCUMENT_QUOTA_EXCEEDED
+        )
+      }
+
+      if (data.entityType && data.entityId) {
+        await assertAttachmentEntity(
+          trx,
+          tenantId,
+          data.entityType,
+          data.entityId
+        )
+      }
+
+      await storage.putObject(storageKey, file.buffer, file.mimeType)
+      stored = true
+
+      await Document.query(trx).insert({
+        id: documentId,
+        tenantId,
+        uploadedBy: userId,
+        name: file.originalName.slice(0, 255),
+        mimeType: file.mimeType,
+        sizeBytes: file.size,
+        checksum: createHash('sha256').update(file.buffer).digest('hex'),
+        storageDriver,
+        storageKey,
+        category: data.category ?? DocumentCategory.OTHER,
+        tags: data.tags ?? [],
+        description: data.description ?? null,
+        scanStatus: scan.scanStatus,
+        scannedBy: scan.scannedBy,
+        scannedAt: formatDateToISOString(scan.scannedAt) as unknown as Date,
+      })
+
+      if (data.entityType && data.entityId) {
+        await insertDocumentAttachment(trx, tenantId, userId, documentId, {
+          entityType: data.entityType,
+          entityId: data.entityId,
+        })
+      }
+
+      return findDocumentById(tenantId, schemaName, documentId, trx)
+    })
+  } catch (error) {
+    if (stored) {
+      await storage.deleteObject(storageKey).catch((deleteError) => {
+        logger.error(
+          `Failed to remove file of unsaved document ${documentId}:`,
+          deleteError
+        )
+      })
+    }
+    throw error
+  }
+}
+
+/**
+ * Update the name, category, tags or description of a document
+ */
+export const updateDocument = async (
+  tenantId: string,
+  schemaName: string,
+  documentId: string,
+  data: UpdateDocumentData
+): Promise<Document> => {
+  return withTenantSchema(schemaName, async (trx) => {
+    const document = await findDocumentById(
+      tenantId,
+      schemaName,
+      documentId,
+      trx
+    )
+
+    const updateData: Partial<Document> = {}
+    if (data.name !== undefined) updateData.name = data.name
+    if (data.category !== undefined) updateData.category = data.category
+    if (data.tags !== undefined) updateData.tags = data.tags
+    if (data.description !== undefined)
+      updateData.description = data.description
+
+    await document.$query(trx).patch(updateData)
+
+    return findDocumentById(tenantId, schemaName, documentId, trx)
+  })
+}
+
+/**
+ * Delete a document
+ * The row and its attachments are soft deleted and the file is removed from
+ * storage, freeing its quota. A file that cannot be removed is logged and
+ * left behind.
+ */
+export const deleteDocument = async (
+  tenantId: string,
+  schemaName: string,
+  documentId: string
+): Promise<Document> => {
+  const document = await withTenantSchema(schemaName, async (trx) => {
+    const existing = await findDocumentById(
+      tenantId,
+      schemaName,
+      documentId,
+      trx
+    )
+
+    await DocumentAttachment.query(trx)
+      .modify('notDeleted')
+      .where('document_id', documentId)
+      .patch({ deletedAt: getCurrentISOString() as unknown as Date })
+
+    await existing
+      .$query(trx)
+      .patch({ deletedAt: getCurrentISOString() as unknown as Date })
+
+    return existing
+  })
+
+  try {
+    await getDocumentStorage(document.storageDriver).deleteObject(
+      document.storageKey
+    )
+  } catch (error) {
+    logger.error(`Failed to remove file of document ${documentId}:`, error)
+  }
+
+  return document
+}
+
+/**
+ * Attach a document to a journal entry, invoice, bill or tax exemption
+ */
+export const attachDocument = async (
+  tenantId: string,
+  schemaName: string,
+  userId: string,
+  documentId: string,
+  data: AttachDocumentData
+): Promise<Document> => {
+  return withTenantSchema(schemaName, async (trx) => {
+    await findDocumentById(tenantId, schemaName, documentId, trx)
+    await insertDocumentAttachment(trx, tenantId, userId, documentId, data)
+
+    return findDocumentById(tenantId, schemaName, documentId, trx)
+  })
+}
+
+/**
+ * Detach a document from a record
+ * The document itself is kept
+ */
+export const detachDocument = async (
+  tenantId: string,
+  schemaName: string,
+  documentId: string,
+  attachmentId: string
+): Promise<Document> => {
+  return withTenantSchema(schemaName, async (trx) => {
+    await findDocumentById(tenantId, schemaName, documentId, trx)
+
+    const attachment = await DocumentAttachment.query(trx)
+      .modify('notDeleted')
+      .modify('byTenant', tenantId)
+      .where('document_id', documentId)
+      .findById(attachmentId)
+
+    if (!attachment) {
+      throw new ApiError(
+        HTTP_STATUS.NOT_FOUND,
+        ERROR_MESSAGES.DOCUMENT_ATTACHMENT_NOT_FOUND
+      )
+    }
+
+    await attachment
+      .$query(trx)
+      .patch({ deletedAt: getCurrentISOString() as unknown as Date })
+
+    return findDocumentById(tenantId, schemaName, documentId, trx)
+  })
+}
+
+/**
+ * Create a signed, expiring download link for a document
+ * Drivers that sign their own links (S3) are used directly; other files are
+ * served by the download endpoint under localDownloadUrl with a signed token.
+ * @param localDownloadUrl - URL of the download endpoint, without the token
+ */
+export const createDocumentDownloadUrl = async (
+  tenantId: string,
+  schemaName: string,
+  documentId: string,
+  localDownloadUrl: string
+): Promise<DocumentDownloadUrl> => {
+  const document = await findDocumentById(tenantId, schemaName, documentId)
+  const storage = getDocumentStorage(document.storageDriver)
+  const expiresIn = env.DOCUMENT_URL_EXPIRY_SECONDS
+  const expiresAt = new Date(getCurrentDate().getTime() + expiresIn * 1000)
+
+  if (storage.getSignedUrl) {
+    return {
+      url: await storage.getSignedUrl(
+        document.storageKey,
+        document.name,
+        expiresIn
+      ),
+      expiresAt,
+    }
+  }
+
+  const token = signDocumentDownloadToken(tenantId, document.id)
+  return {
+    url: `${localDownloadUrl}/${encodeURIComponent(token)}`,
+    expiresAt,
+  }
+}
+
+/**
+ * Open the file of a signed download token
+ * @throws ApiError 401 when the token is invalid or expired
+ */
+export const openDocumentDownload = async (
+  token: string
+): Promise<{ document: Document; stream: Readable }> => {
+  const { tenantId, documentId } = await verifyDocumentDownloadToken(token)
+  const tenant = await findTenantById(tenantId)
+  const document = await findDocumentById(
+    tenantId,
+    tenant.schemaName,
+    documentId
+  )
+
+  const stream = await getDocumentStorage(
+    document.storageDriver
+  ).getObjectStream(document.storageKey)
+
+  return { document, stream }
+}
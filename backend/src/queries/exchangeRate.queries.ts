@@ -0,0 +1,620 @@
+import type { Knex } from 'knex'
+import * as XLSX from 'xlsx'
+
+import type {
+  CreateExchangeRateData,
+  CurrencySettings,
+  ExchangeRateFilters,
+  ExchangeRateImportError,
+  ExchangeRateImportResult,
+  ExchangeRateListResult,
+  UpdateCurrencySettingsData,
+  UpdateExchangeRateData,
+} from '@/types/currency.type'
+import type {
+  CreateJournalEntryLineData,
+  CreateJournalEntryLineInput,
+} from '@/types/journalEntry.type'
+import {
+  EXCHANGE_RATE_IMPORT_COLUMNS,
+  EXCHANGE_RATE_IMPORT_MAX_ROWS,
+} from '@constants/currency'
+import { ERROR_MESSAGES } from '@constants/errors'
+import { HTTP_STATUS } from '@constants/http'
+import { AccountType, ChartOfAccount } from '@models/ChartOfAccount'
+import { ExchangeRate, ExchangeRateSource } from '@models/ExchangeRate'
+import { JournalEntry } from '@models/JournalEntry'
+import { Tenant } from '@models/Tenant'
+import { roundAmount } from '@queries/report.queries'
+import { calculateOffset } from '@schema/shared.schema'
+import { ApiError } from '@utils/ApiError'
+import {
+  formatDateToISOString,
+  getCurrentDate,
+  parseDateStringToUTC,
+  parseDateStringToUTCEndOfDay,
+} from '@utils/date'
+import { withTenantSchema } from '@utils/tenantQuery'
+
+const CURRENCY_CODE_PATTERN = /^[A-Z]{3}$/
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+/**
+ * Find the tenant record holding the currency settings
+ * @param trx - Transaction (tenants live in the public schema on the search path)
+ */
+const findTenantOrFail = async (
+  trx: Knex.Transaction,
+  tenantId: string
+): Promise<Tenant> => {
+  const tenant = await Tenant.query(trx).modify('notDeleted').findById(tenantId)
+
+  if (!tenant) {
+    throw new ApiError(HTTP_STATUS.NOT_FOUND, ERROR_MESSAGES.TENANT_NOT_FOUND)
+  }
+
+  return tenant
+}
+
+/**
+ * Find the base currency of a tenant
+ * @param trx - Transaction already scoped to the tenant schema
+ */
+export const findBaseCurrency = async (
+  trx: Knex.Transaction,
+  tenantId: string
+): Promise<string> => {
+  const tenant = await findTenantOrFail(trx, tenantId)
+  return tenant.baseCurrency
+}
+
+/**
+ * Find the account unrealized FX gains and losses are posted to
+ * Must be an active revenue or expense account in the base currency
+ * @param trx - Transaction already scoped to the tenant schema
+ */
+export const findFxGainLossAccount = async (
+  trx: Knex.Transaction,
+  tenantId: string,
+  accountId: string,
+  baseCurrency: string
+): Promise<ChartOfAccount> => {
+  const account = await ChartOfAccount.query(trx)
+    .modify('notDeleted')
+    .modify('byTenant', tenantId)
+    .findById(accountId)
+
+  if (!account) {
+    throw new ApiError(
+      HTTP_STATUS.NOT_FOUND,
+      ERROR_MESSAGES.CHART_OF_ACCOUNT_NOT_FOUND
+    )
+  }
+
+  const isIncomeStatementAccount =
+    account.accountType === AccountType.REVENUE ||
+    account.accountType === AccountType.EXPENSE
+  if (
+    !account.isActive ||
+    !isIncomeStatementAccount ||
+    account.currencyCode !== baseCurrency
+  ) {
+    throw new ApiError(
+      HTTP_STATUS.BAD_REQUEST,
+      ERROR_MESSAGES.FX_GAIN_LOSS_ACCOUNT_INVALID
+    )
+  }
+
+  return account
+}
+
+/**
+ * Load the currency settings of a tenant
+ * @param trx - Transaction already scoped to the tenant schema
+ */
+export const loadCurrencySettings = async (
+  trx: Knex.Transaction,
+  tenantId: string
+): Promise<CurrencySettings> => {
+  const tenant = await findTenantOrFail(trx, tenantId)
+
+  const fxGainLossAccount = tenant.fxGainLossAccountId
+    ? await ChartOfAccount.query(trx)
+        .modify('notDeleted')
+        .modify('byTenant', tenantId)
+        .findById(tenant.fxGainLossAccountId)
+    : undefined
+
+  return {
+    baseCurrency: tenant.baseCurrency,
+    fxGainLossAccount: fxGainLossAccount ?? null,
+  }
+}
+
+/**
+ * Find the currency settings of a tenant
+ */
+export const findCurrencySettings = async (
+  tenantId: string,
+  schemaName: string
+): Promise<CurrencySettings> => {
+  return withTenantSchema(schemaName, async (trx) =>
+    loadCurrencySettings(trx, tenantId)
+  )
+}
+
+/**
+ * Update the currency settings of a tenant
+ * The base currency is locked once journal entries exist, since their base
+ * amounts would change meaning. Scheduled revaluations are posted as the user
+ * who last set the gain/loss account.
+ * @param updatedBy - User ID updating the settings
+ */
+export const updateCurrencySettings = async (
+  tenantId: string,
+  schemaName: string,
+  updatedBy: string,
+  data: UpdateCurrencySettingsData
+): Promise<CurrencySettings> => {
+  return withTenantSchema(schemaName, async (trx) => {
+    const tenant = await findTenantOrFail(trx, tenantId)
+    const baseCurrency = data.baseCurrency ?? tenant.baseCurrency
+
+    const updateData: Partial<Tenant> = {}
+    if (baseCurrency !== tenant.baseCurrency) {
+      const existingEntry = await JournalEntry.query(trx)
+        .modify('notDeleted')
+        .modify('byTenant', tenantId)
+        .select('id')
+        .first()
+
+      if (existingEntry) {
+        throw new ApiError(
+          HTTP_STATUS.CONFLICT,
+          ERROR_MESSAGES.BASE_CURRENCY_LOCKED
+        )
+      }
+
+      updateData.baseCurrency = baseCurrency
+    }
+
+    if (data.fxGainLossAccountId !== undefined) {
+      if (data.fxGainLossAccountId) {
+        await findFxGainLossAccount(
+          trx,
+          tenantId,
+          data.fxGainLossAccountId,
+          baseCurrency
+        )
+      }
+      updateData.fxGainLossAccountId = data.fxGainLossAccountId
+      updateData.fxRevaluationUserId = data.fxGainLossAccountId
+        ? updatedBy
+        : null
+    } else if (tenant.fxGainLossAccountId && updateData.baseCurrency) {
+      // The account no longer matches the new base currency
+      await findFxGainLossAccount(
+        trx,
+        tenantId,
+        tenant.fxGainLossAccountId,
+        baseCurrency
+      )
+    }
+
+    if (Object.keys(updateData).length > 0) {
+      await tenant.$query(trx).patch(updateData)
+    }
+
+    return loadCurrencySettings(trx, tenantId)
+  })
+}
+
+/**
+ * Find exchange rates with pagination, newest first
+ */
+export const findExchangeRates = async (
+  tenantId: string,
+  schemaName: string,
+  filters: ExchangeRateFilters
+): Promise<ExchangeRateListResult> => {
+  const { currencyCode, startDate, endDate, page, limit } = filters
+
+  return withTenantSchema(schemaName, async (trx) => {
+    const query = ExchangeRate.query(trx)
+      .modify('notDeleted')
+      .modify('byTenant', tenantId)
+
+    if (currencyCode) {
+      query.modify('byCurrency', currencyCode)
+    }
+
+    if (startDate) {
+      query.where('rate_date', '>=', parseDateStringToUTC(startDate))
+    }
+
+    if (endDate) {
+      query.where('rate_date', '<=', parseDateStringToUTCEndOfDay(endDate))
+    }
+
+    const total = await query.resultSize()
+    const rates = await query
+      .orderBy('rate_date', 'desc')
+      .orderBy('currency_code', 'asc')
+      .limit(limit)
+      .offset(calculateOffset(page, limit))
+
+    return { rates, total }
+  })
+}
+
+/**
+ * Find exchange rate by ID
+ * @param trx - Optional transaction to use (if provided, won't create a new transaction)
+ */
+export const findExchangeRateById = async (
+  tenantId: string,
+  schemaName: string,
+  rateId: string,
+  trx?: Knex.Transaction
+): Promise<ExchangeRate> => {
+  const execute = async (transaction: Knex.Transaction) => {
+    const rate = await ExchangeRate.query(transaction)
+      .modify('notDeleted')
+      .modify('byTenant', tenantId)
+      .findById(rateId)
+
+    if (!rate) {
+      throw new ApiError(
+        HTTP_STATUS.NOT_FOUND,
+        ERROR_MESSAGES.EXCHANGE_RATE_NOT_FOUND
+      )
+    }
+
+    return rate
+  }
+
+  // If transaction is provided, use it directly
+  if (trx) {
+    return execute(trx)
+  }
+
+  // Otherwise, create a new transaction
+  return withTenantSchema(schemaName, execute)
+}
+
+/**
+ * Find the rate entered for a currency on a date
+ */
+const findRateOnDate = async (
+  trx: Knex.Transaction,
+  tenantId: string,
+  currencyCode: string,
+  rateDate: Date
+): Promise<ExchangeRate | undefined> => {
+  return ExchangeRate.query(trx)
+    .modify('notDeleted')
+    .modify('byTenant', tenantId)
+    .modify('byCurrency', currencyCode)
+    .where('rate_date', rateDate)
+    .first()
+}
+
+/**
+ * Find the rate in effect for a currency on a date
+ * That is the latest rate dated on or before the date
+ * @param trx - Transaction already scoped to the tenant schema
+ */
+export const findEffectiveExchangeRate = async (
+  trx: Knex.Transaction,
+  tenantId: string,
+  currencyCode: string,
+  date: Date
+): Promise<ExchangeRate | undefined> => {
+  return ExchangeRate.query(trx)
+    .modify('notDeleted')
+    .modify('byTenant', tenantId)
+    .modify('byCurrency', currencyCode)
+    .modify('effectiveOn', parseDateStringToUTCEndOfDay(date))
+    .first()
+}
+
+/**
+ * Create exchange rate
+ */
+export const createExchangeRate = async (
+  tenantId: string,
+  schemaName: string,
+  createdBy: string,
+  data: CreateExchangeRateData
+): Promise<ExchangeRate> => {
+  return withTenantSchema(schemaName, async (trx) => {
+    const baseCurrency = await findBaseCurrency(trx, tenantId)
+    if (data.currencyCode === baseCurrency) {
+      throw new ApiError(
+        HTTP_STATUS.BAD_REQUEST,
+        ERROR_MESSAGES.EXCHANGE_RATE_BASE_CURRENCY
+      )
+    }
+
+    const rateDate = parseDateStringToUTC(data.rateDate)
+    const existing = await findRateOnDate(
+      trx,
+      tenantId,
+      data.currencyCode,
+      rateDate
+    )
+    if (existing) {
+      throw new ApiError(
+        HTTP_STATUS.CONFLICT,
+        ERROR_MESSAGES.EXCHANGE_RATE_EXISTS
+      )
+    }
+
+    return ExchangeRate.query(trx).insert({
+      tenantId,
+      createdBy,
+      currencyCode: data.currencyCode,
+      rateDate: formatDateToISOString(rateDate) as unknown as Date,
+      rate: data.rate,
+      source: ExchangeRateSource.MANUAL,
+    })
+  })
+}
+
+/**
+ * Update exchange rate
+ * Lines already converted keep the rate they were recorded with
+ */
+export const updateExchangeRate = async (
+  tenantId: string,
+  schemaName: string,
+  rateId: string,
+  data: UpdateExchangeRateData
+): Promise<ExchangeRate> => {
+  return withTenantSchema(schemaName, async (trx) => {
+    const rate = await findExchangeRateById(tenantId, schemaName, rateId, trx)
+
+    const updateData: Partial<ExchangeRate> = {}
+    if (data.rateDate !== undefined) {
+      const rateDate = parseDateStringToUTC(data.rateDate)
+      const existing = await findRateOnDate(
+        trx,
+        tenantId,
+        rate.currencyCode,
+        rateDate
+      )
+      if (existing && existing.id !== rate.id) {
+        throw new ApiError(
+          HTTP_STATUS.CONFLICT,
+          ERROR_MESSAGES.EXCHANGE_RATE_EXISTS
+        )
+      }
+      updateData.rateDate = formatDateToISOString(rateDate) as unknown as Date
+    }
+    if (data.rate !== undefined) updateData.rate = data.rate
+
+    return rate.$query(trx).patchAndFetch(updateData)
+  })
+}
+
+/**
+ * Delete exchange rate (soft delete)
+ */
+export const deleteExchangeRate = async (
+  tenantId: string,
+  schemaName: string,
+  rateId: string
+): Promise<ExchangeRate> => {
+  return withTenantSchema(schemaName, async (trx) => {
+    const rate = await findExchangeRateById(tenantId, schemaName, rateId, trx)
+
+    // Soft delete using direct Knex update
+    await trx('exchange_rates')
+      .where('id', rateId)
+      .where('tenant_id', tenantId)
+      .update({
+        deleted_at: getCurrentDate(),
+        updated_at: getCurrentDate(),
+      })
+
+    return rate
+  })
+}
+
+/**
+ * Parse the rows of an exchange rate CSV file
+ * Header names are matched case-insensitively; values are kept as text
+ */
+const parseExchangeRateCsv = (content: string): Map<string, string>[] => {
+  const workbook = XLSX.read(content, { type: 'string', raw: true })
+  // A CSV file always parses to a single sheet
+  const [sheet] = Object.values(workbook.Sheets)
+  if (!sheet) {
+    return []
+  }
+
+  const rows = XLSX.utils.sheet_to_json<Record<string, unknown>>(sheet, {
+    defval: '',
+    raw: false,
+  })
+
+  return rows.map(
+    (row) =>
+      new Map(
+        Object.entries(row).map(([key, value]) => [
+          key.trim().toLowerCase(),
+          String(value).trim(),
+        ])
+      )
+  )
+}
+
+/**
+ * Import exchange rates from CSV
+ * Expects the columns date (YYYY-MM-DD), currency and rate. Valid rows are
+ * imported and rates already entered for the same currency and date are
+ * replaced; invalid rows are reported back without failing the import.
+ * @param content - CSV file content
+ */
+export const importExchangeRates = async (
+  tenantId: string,
+  schemaName: string,
+  createdBy: string,
+  content: string
+): Promise<ExchangeRateImportResult> => {
+  const rows = parseExchangeRateCsv(content)
+  if (rows.length === 0) {
+    throw new ApiError(
+      HTTP_STATUS.BAD_REQUEST,
+      ERROR_MESSAGES.EXCHANGE_RATE_IMPORT_EMPTY
+    )
+  }
+
+  return withTenantSchema(schemaName, async (trx) => {
+    const baseCurrency = await findBaseCurrency(trx, tenantId)
+    const errors: ExchangeRateImportError[] = []
+    let created = 0
+    let updated = 0
+
+    for (const [index, row] of rows.entries()) {
+      // Row 1 is the header
+      const rowNumber = index + 2
+      if (index >= EXCHANGE_RATE_IMPORT_MAX_ROWS) {
+        errors.push({
+          row: rowNumber,
+          message: `Only the first ${EXCHANGE_RATE_IMPORT_MAX_ROWS} rows are imported`,
+        })
+        break
+      }
+
+      const date = row.get(EXCHANGE_RATE_IMPORT_COLUMNS.DATE) ?? ''
+      const currencyCode = (
+        row.get(EXCHANGE_RATE_IMPORT_COLUMNS.CURRENCY) ?? ''
+      ).toUpperCase()
+      const rateValue = Number(row.get(EXCHANGE_RATE_IMPORT_COLUMNS.RATE))
+
+      if (!DATE_PATTERN.test(date) || Number.isNaN(Date.parse(date))) {
+        errors.push({ row: rowNumber, message: 'Date must be YYYY-MM-DD' })
+        continue
+      }
+      if (!CURRENCY_CODE_PATTERN.test(currencyCode)) {
+        errors.push({
+          row: rowNumber,
+          message: 'Currency must be a 3-letter ISO 4217 code',
+        })
+        continue
+      }
+      if (currencyCode === baseCurrency) {
+        errors.push({
+          row: rowNumber,
+          message: ERROR_MESSAGES.EXCHANGE_RATE_BASE_CURRENCY,
+        })
+        continue
+      }
+      if (!Number.isFinite(rateValue) || rateValue <= 0) {
+        errors.push({ row: rowNumber, message: 'Rate must be greater than 0' })
+        continue
+      }
+
+      const rateDate = parseDateStringToUTC(date)
+      const existing = await findRateOnDate(
+        trx,
+        tenantId,
+        currencyCode,
+        rateDate
+      )
+
+      if (existing) {
+        await existing.$query(trx).patch({
+          rate: rateValue,
+          source: ExchangeRateSource.IMPORT,
+        })
+        updated += 1
+      } else {
+        await ExchangeRate.query(trx).insert({
+          tenantId,
+          createdBy,
+          currencyCode,
+          rateDate: formatDateToISOString(rateDate) as unknown as Date,
+          rate: rateValue,
+          source: ExchangeRateSource.IMPORT,
+        })
+        created += 1
+      }
+    }
+
+    return { created, updated, errors }
+  })
+}
+
+/**
+ * Convert journal entry lines to the tenant base currency
+ * Each line is in the currency of its account. Foreign lines use the rate given
+ * on the line or the rate in effect on the entry date, and keep the entered
+ * amounts as foreign amounts.
+ * @param trx - Transaction already scoped to the tenant schema
+ * @param accounts - Accounts of the lines, keyed by ID
+ * @throws ApiError if a line currency differs from its account or has no rate
+ */
+export const convertLinesToBaseCurrency = async (
+  trx: Knex.Transaction,
+  tenantId: string,
+  entryDate: Date,
+  lines: CreateJournalEntryLineInput[],
+  accounts: Map<string, ChartOfAccount>
+): Promise<CreateJournalEntryLineData[]> => {
+  const baseCurrency = await findBaseCurrency(trx, tenantId)
+  const effectiveRates = new Map<string, number>()
+
+  const converted: CreateJournalEntryLineData[] = []
+  for (const [index, line] of lines.entries()) {
+    const account = accounts.get(line.accountId)
+    const currencyCode = account?.currencyCode ?? baseCurrency
+    if (line.currencyCode && line.currencyCode !== currencyCode) {
+      throw new ApiError(
+        HTTP_STATUS.BAD_REQUEST,
+        ERROR_MESSAGES.JOURNAL_ENTRY_LINE_CURRENCY_MISMATCH
+      )
+    }
+
+    let exchangeRate = 1
+    if (currencyCode !== baseCurrency) {
+      let rate = line.exchangeRate ?? effectiveRates.get(currencyCode)
+      if (rate === undefined) {
+        const effective = await findEffectiveExchangeRate(
+          trx,
+          tenantId,
+          currencyCode,
+          entryDate
+        )
+        if (!effective) {
+          throw new ApiError(
+            HTTP_STATUS.BAD_REQUEST,
+            ERROR_MESSAGES.EXCHANGE_RATE_MISSING
+          )
+        }
+        rate = Number(effective.rate)
+        effectiveRates.set(currencyCode, rate)
+      }
+      exchangeRate = rate
+    }
+
+    const foreignDebit = Number(line.debit ?? 0)
+    const foreignCredit = Number(line.credit ?? 0)
+    converted.push({
+      accountId: line.accountId,
+      lineNumber: line.lineNumber ?? index + 1,
+      debit: roundAmount(foreignDebit * exchangeRate),
+      credit: roundAmount(foreignCredit * exchangeRate),
+      currencyCode,
+      exchangeRate,
+      foreignDebit,
+      foreignCredit,
+      description: line.description ?? null,
+      memo: line.memo ?? null,
+      contactId: line.contactId ?? null,
+    })
+  }
+
+  return converted
+}
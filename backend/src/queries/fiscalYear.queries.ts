@@ -0,0 +1,337 @@
+import type { Knex } from 'knex'
+
+import type {
+  FiscalPeriodStatusChange,
+  FiscalYearListResult,
+} from '@/types/fiscalYear.type'
+import { ERROR_MESSAGES } from '@constants/errors'
+import { HTTP_STATUS } from '@constants/http'
+import { FiscalPeriod, FiscalPeriodStatus } from '@models/FiscalPeriod'
+import { FiscalPeriodType, FiscalYear } from '@models/FiscalYear'
+import type {
+  CreateFiscalYearInput,
+  FiscalYearListInput,
+} from '@schema/fiscalYear.schema'
+import { calculateOffset } from '@schema/shared.schema'
+import { ApiError } from '@utils/ApiError'
+import {
+  addUTCMonths,
+  formatDateToISOString,
+  formatDateToMonthLabel,
+  getCurrentDate,
+  parseDateStringToUTC,
+  parseDateStringToUTCEndOfDay,
+  splitUTCDateRangeByMonths,
+} from '@utils/date'
+import { withTenantSchema } from '@utils/tenantQuery'
+
+/**
+ * Longest fiscal year allowed (covers long first/transition years)
+ */
+const MAX_FISCAL_YEAR_MONTHS = 24
+
+/**
+ * Find fiscal years with their periods, most recent first
+ */
+export const findFiscalYears = async (
+  tenantId: string,
+  schemaName: string,
+  filters: FiscalYearListInput
+): Promise<FiscalYearListResult> => {
+  const { page, limit } = filters
+  const offset = calculateOffset(page, limit)
+
+  return withTenantSchema(schemaName, async (trx) => {
+    const query = FiscalYear.query(trx)
+      .modify('notDeleted')
+      .modify('byTenant', tenantId)
+
+    // Get total count before pagination
+    const total = await query.resultSize()
+
+    const fiscalYears = await query
+      .modify('withPeriods')
+      .modify('withClosingEntry')
+      .orderBy('start_date', 'desc')
+      .limit(limit)
+      .offset(offset)
+
+    return { fiscalYears, total }
+  })
+}
+
+/**
+ * Find fiscal year by ID with its periods and active closing entry
+ * @param trx - Optional transaction to use (if provided, won't create a new transaction)
+ */
+export const findFiscalYearById = async (
+  tenantId: string,
+  schemaName: string,
+  fiscalYearId: string,
+  trx?: Knex.Transaction
+): Promise<FiscalYear> => {
+  const execute = async (transaction: Knex.Transaction) => {
+    const fiscalYear = await FiscalYear.query(transaction)
+      .modify('notDeleted')
+      .modify('byTenant', tenantId)
+      .modify('withPeriods')
+      .modify('withClosingEntry')
+      .findById(fiscalYearId)
+
+    if (!fiscalYear) {
+      throw new ApiError(
+        HTTP_STATUS.NOT_FOUND,
+        ERROR_MESSAGES.FISCAL_YEAR_NOT_FOUND
+      )
+    }
+
+    return fiscalYear
+  }
+
+  // If transaction is provided, use it directly
+  if (trx) {
+    return execute(trx)
+  }
+
+  // Otherwise, create a new transaction
+  return withTenantSchema(schemaName, execute)
+}
+
+/**
+ * Create fiscal year and generate its monthly or quarterly periods
+ */
+export const createFiscalYear = async (
+  tenantId: string,
+  schemaName: string,
+  createdBy: string,
+  data: CreateFiscalYearInput
+): Promise<FiscalYear> => {
+  const startDate = parseDateStringToUTC(data.startDate)
+  // Default to twelve months, ending one millisecond before the same day next year
+  const endDate = data.endDate
+    ? parseDateStringToUTCEndOfDay(data.endDate)
+    : new Date(addUTCMonths(startDate, 12).getTime() - 1)
+
+  if (
+    endDate <= startDate ||
+    endDate > addUTCMonths(startDate, MAX_FISCAL_YEAR_MONTHS)
+  ) {
+    throw new ApiError(
+      HTTP_STATUS.BAD_REQUEST,
+      ERROR_MESSAGES.FISCAL_YEAR_INVALID_RANGE
+    )
+  }
+
+  return withTenantSchema(schemaName, async (trx) => {
+    // Fiscal years must not overlap, otherwise a date could fall in two periods
+    const overlapping = await FiscalYear.query(trx)
+      .modify('notDeleted')
+      .modify('byTenant', tenantId)
+      .where('start_date', '<=', endDate)
+      .where('end_date', '>=', startDate)
+      .first()
+
+    if (overlapping) {
+      throw new ApiError(
+        HTTP_STATUS.CONFLICT,
+        ERROR_MESSAGES.FISCAL_YEAR_OVERLAP
+      )
+    }
+
+    const periodType = data.periodType as FiscalPeriodType
+    const name = data.name ?? `FY ${endDate.getUTCFullYear()}`
+
+    const fiscalYear = await FiscalYear.query(trx).insert({
+      tenantId,
+      createdBy,
+      name,
+      startDate: formatDateToISOString(startDate) as unknown as Date,
+      endDate: formatDateToISOString(endDate) as unknown as Date,
+      periodType,
+    })
+
+    const ranges = splitUTCDateRangeByMonths(
+      startDate,
+      endDate,
+      fiscalYear.getMonthsPerPeriod()
+    )
+
+    await FiscalPeriod.query(trx).insert(
+      ranges.map((range, index) => ({
+        tenantId,
+        fiscalYearId: fiscalYear.id,
+        periodNumber: index + 1,
+        name:
+          periodType === FiscalPeriodType.QUARTERLY
+            ? `Q${index + 1} ${name}`
+            : formatDateToMonthLabel(range.startDate),
+        startDate: formatDateToISOString(range.startDate) as unknown as Date,
+        endDate: formatDateToISOString(range.endDate) as unknown as Date,
+        status: FiscalPeriodStatus.OPEN,
+      }))
+    )
+
+    return findFiscalYearById(tenantId, schemaName, fiscalYear.id, trx)
+  })
+}
+
+/**
+ * Find a period of a fiscal year or throw
+ */
+const findFiscalPeriod = async (
+  trx: Knex.Transaction,
+  tenantId: string,
+  fiscalYearId: string,
+  periodId: string
+): Promise<FiscalPeriod> => {
+  const period = await FiscalPeriod.query(trx)
+    .modify('notDeleted')
+    .modify('byTenant', tenantId)
+    .where('fiscal_year_id', fiscalYearId)
+    .findById(periodId)
+
+  if (!period) {
+    throw new ApiError(
+      HTTP_STATUS.NOT_FOUND,
+      ERROR_MESSAGES.FISCAL_PERIOD_NOT_FOUND
+    )
+  }
+
+  return period
+}
+
+/**
+ * Close a fiscal period (soft or hard)
+ * Hard close requires every earlier period to be closed first
+ */
+export const closeFiscalPeriod = async (
+  tenantId: string,
+  schemaName: string,
+  fiscalYearId: string,
+  periodId: string,
+  status: FiscalPeriodStatus.SOFT_CLOSED | FiscalPeriodStatus.HARD_CLOSED,
+  closedBy: string
+): Promise<FiscalPeriodStatusChange> => {
+  return withTenantSchema(schemaName, async (trx) => {
+    const period = await findFiscalPeriod(trx, tenantId, fiscalYearId, periodId)
+    const previousStatus = period.status
+
+    // Only open -> soft/hard and soft -> hard are allowed
+    if (
+      period.isHardClosed() ||
+      (previousStatus === FiscalPeriodStatus.SOFT_CLOSED &&
+        status === FiscalPeriodStatus.SOFT_CLOSED)
+    ) {
+      throw new ApiError(
+        HTTP_STATUS.CONFLICT,
+        ERROR_MESSAGES.FISCAL_PERIOD_ALREADY_CLOSED
+      )
+    }
+
+    if (status === FiscalPeriodStatus.HARD_CLOSED) {
+      const earlierOpen = await FiscalPeriod.query(trx)
+        .modify('notDeleted')
+        .modify('byTenant', tenantId)
+        .where('start_date', '<', period.startDate)
+        .where('status', FiscalPeriodStatus.OPEN)
+        .first()
+
+      if (earlierOpen) {
+        throw new ApiError(
+          HTTP_STATUS.CONFLICT,
+          ERROR_MESSAGES.FISCAL_PERIOD_PREVIOUS_OPEN
+        )
+      }
+    }
+
+    const updated = await period.$query(trx).patchAndFetch({
+      status,
+      closedBy,
+      closedAt: formatDateToISOString(getCurrentDate()) as unknown as Date,
+    })
+
+    return { period: updated, previousStatus }
+  })
+}
+
+/**
+ * Reopen a closed fiscal period
+ * @param canReopenHardClosed - Whether the caller may reopen hard-closed periods
+ */
+export const reopenFiscalPeriod = async (
+  tenantId: string,
+  schemaName: string,
+  fiscalYearId: string,
+  periodId: string,
+  canReopenHardClosed: boolean
+): Promise<FiscalPeriodStatusChange> => {
+  return withTenantSchema(schemaName, async (trx) => {
+    const period = await findFiscalPeriod(trx, tenantId, fiscalYearId, periodId)
+    const previousStatus = period.status
+
+    if (period.isOpen()) {
+      throw new ApiError(
+        HTTP_STATUS.CONFLICT,
+        ERROR_MESSAGES.FISCAL_PERIOD_ALREADY_OPEN
+      )
+    }
+
+    if (period.isHardClosed() && !canReopenHardClosed) {
+      throw new ApiError(
+        HTTP_STATUS.FORBIDDEN,
+        ERROR_MESSAGES.FISCAL_PERIOD_HARD_CLOSED
+      )
+    }
+
+    // Reopening must not leave a gap behind a hard-closed period
+    const laterHardClosed = await FiscalPeriod.query(trx)
+      .modify('notDeleted')
+      .modify('byTenant', tenantId)
+      .where('start_date', '>', period.startDate)
+      .where('status', FiscalPeriodStatus.HARD_CLOSED)
+      .first()
+
+    if (laterHardClosed) {
+      throw new ApiError(
+        HTTP_STATUS.CONFLICT,
+        ERROR_MESSAGES.FISCAL_PERIOD_LATER_HARD_CLOSED
+      )
+    }
+
+    const updated = await period.$query(trx).patchAndFetch({
+      status: FiscalPeriodStatus.OPEN,
+      closedBy: null,
+      closedAt: null,
+    })
+
+    return { period: updated, previousStatus }
+  })
+}
+
+/**
+ * Ensure none of the given dates falls in a closed fiscal period
+ * Dates outside any defined fiscal year are not locked
+ * @param trx - Transaction already scoped to the tenant schema
+ * @throws ApiError 403 if a date is in a soft- or hard-closed period
+ */
+export const assertFiscalPeriodsOpen = async (
+  trx: Knex.Transaction,
+  tenantId: string,
+  dates: Array<Date | string>
+): Promise<void> => {
+  for (const date of dates) {
+    const closedPeriod = await FiscalPeriod.query(trx)
+      .modify('notDeleted')
+      .modify('byTenant', tenantId)
+      .modify('containingDate', new Date(date))
+      .modify('closed')
+      .first()
+
+    if (closedPeriod) {
+      throw new ApiError(
+        HTTP_STATUS.FORBIDDEN,
+        ERROR_MESSAGES.FISCAL_PERIOD_CLOSED
+      )
+    }
+  }
+}
@@ -0,0 +1,444 @@
+import type { Knex } from 'knex'
+
+import type {
+  FxRevaluationLine,
+  FxRevaluationPreview,
+  FxRevaluationResult,
+} from '@/types/currency.type'
+import type { CreateJournalEntryData } from '@/types/journalEntry.type'
+import { ERROR_MESSAGES } from '@constants/errors'
+import { HTTP_STATUS } from '@constants/http'
+import { AccountType, ChartOfAccount } from '@models/ChartOfAccount'
+import { FX_REVALUATION_SOURCE_MODULE } from '@models/ExchangeRate'
+import { FiscalPeriod, FiscalPeriodStatus } from '@models/FiscalPeriod'
+import {
+  JournalEntry,
+  JournalEntryStatus,
+  JournalEntryType,
+} from '@models/JournalEntry'
+import { JournalEntryLine } from '@models/JournalEntryLine'
+import { Tenant } from '@models/Tenant'
+import {
+  findEffectiveExchangeRate,
+  findFxGainLossAccount,
+  loadCurrencySettings,
+} from '@queries/exchangeRate.queries'
+import {
+  generateEntryNumber,
+  postJournalEntry,
+} from '@queries/journalEntry.queries'
+import { roundAmount, sumPostedLinesByAccount } from '@queries/report.queries'
+import { ApiError } from '@utils/ApiError'
+import {
+  addUTCDays,
+  formatDateToISOString,
+  formatDateToString,
+  getCurrentDate,
+  parseDateStringToUTC,
+  parseDateStringToUTCEndOfDay,
+} from '@utils/date'
+import { withTenantSchema } from '@utils/tenantQuery'
+
+/**
+ * Sum the foreign amounts of posted lines per account up to a date
+ * Only lines in the account's own currency count towards its foreign balance
+ */
+const sumForeignBalances = async (
+  trx: Knex.Transaction,
+  tenantId: string,
+  accounts: ChartOfAccount[],
+  endDate: Date
+): Promise<Map<string, number>> => {
+  const accountCurrencies = new Map(
+    accounts.map((account) => [account.id, account.currencyCode])
+  )
+
+  const rows = (await trx('journal_entry_lines as jel')
+    .join('journal_entries as je', 'je.id', 'jel.journal_entry_id')
+    .where('jel.tenant_id', tenantId)
+    .whereNull('jel.deleted_at')
+    .whereNull('je.deleted_at')
+    .where('je.status', JournalEntryStatus.POSTED)
+    .where('je.entry_date', '<=', endDate)
+    .whereIn('jel.account_id', [...accountCurrencies.keys()])
+    .groupBy('jel.account_id', 'jel.currency_code')
+    .select('jel.account_id', 'jel.currency_code')
+    .sum({
+      foreign_debit: 'jel.foreign_debit',
+      foreign_credit: 'jel.foreign_credit',
+    })) as Array<{
+    account_id: string
+    currency_code: string | null
+    foreign_debit: string | number | null
+    foreign_credit: string | number | null
+  }>
+
+  const balances = new Map<string, number>()
+  for (const row of rows) {
+    if (row.currency_code !== accountCurrencies.get(row.account_id)) {
+      continue
+    }
+    balances.set(
+      row.account_id,
+      Number(row.foreign_debit ?? 0) - Number(row.foreign_credit ?? 0)
+    )
+  }
+
+  return balances
+}
+
+/**
+ * Build the unrealized FX gain/loss lines of a revaluation
+ * Restates the balance of every foreign currency asset and liability account
+ * at the rate in effect on the revaluation date
+ * @param gainLossAccountId - Overrides the account from the currency settings
+ */
+const buildFxRevaluation = async (
+  trx: Knex.Transaction,
+  tenantId: string,
+  revaluationDate: Date,
+  gainLossAccountId?: string
+): Promise<FxRevaluationPreview> => {
+  const settings = await loadCurrencySettings(trx, tenantId)
+  const accountId = gainLossAccountId ?? settings.fxGainLossAccount?.id
+  if (!accountId) {
+    throw new ApiError(
+      HTTP_STATUS.BAD_REQUEST,
+      ERROR_MESSAGES.FX_GAIN_LOSS_ACCOUNT_NOT_SET
+    )
+  }
+  const gainLossAccount = await findFxGainLossAccount(
+    trx,
+    tenantId,
+    accountId,
+    settings.baseCurrency
+  )
+
+  const accounts = await ChartOfAccount.query(trx)
+    .modify('notDeleted')
+    .modify('byTenant', tenantId)
+    .whereIn('account_type', [AccountType.ASSET, AccountType.LIABILITY])
+    .whereNot('currency_code', settings.baseCurrency)
+    .orderBy('account_number', 'asc')
+    .orderBy('account_name', 'asc')
+
+  const endDate = parseDateStringToUTCEndOfDay(revaluationDate)
+  const lines: FxRevaluationLine[] = []
+  if (accounts.length > 0) {
+    const foreignBalances = await sumForeignBalances(
+      trx,
+      tenantId,
+      accounts,
+      endDate
+    )
+    const lineTotals = await sumPostedLinesByAccount(trx, tenantId, {
+      endDate,
+    })
+
+    for (const account of accounts) {
+      const totals = lineTotals.get(account.id)
+      const foreignBalance = roundAmount(foreignBalances.get(account.id) ?? 0)
+      const bookBalance = roundAmount(
+        (totals?.debit ?? 0) - (totals?.credit ?? 0)
+      )
+      if (foreignBalance === 0 && bookBalance === 0) {
+        continue
+      }
+
+      const rate = await findEffectiveExchangeRate(
+        trx,
+        tenantId,
+        account.currencyCode,
+        revaluationDate
+      )
+      if (!rate) {
+        throw new ApiError(
+          HTTP_STATUS.BAD_REQUEST,
+          ERROR_MESSAGES.EXCHANGE_RATE_MISSING
+        )
+      }
+
+      const exchangeRate = Number(rate.rate)
+      const revaluedBalance = roundAmount(foreignBalance * exchangeRate)
+      lines.push({
+        accountId: account.id,
+        accountNumber: account.accountNumber ?? null,
+        accountName: account.accountName,
+        accountType: account.accountType,
+        currencyCode: account.currencyCode,
+        foreignBalance,
+        exchangeRate,
+        bookBalance,
+        revaluedBalance,
+        adjustment: roundAmount(revaluedBalance - bookBalance),
+      })
+    }
+  }
+
+  return {
+    revaluationDate,
+    baseCurrency: settings.baseCurrency,
+    gainLossAccount,
+    lines,
+    totalGainLoss: roundAmount(
+      lines.reduce((sum, line) => sum + line.adjustment, 0)
+    ),
+  }
+}
+
+/**
+ * Find the posted revaluation entry of a date, if any
+ */
+const findPostedRevaluation = async (
+  trx: Knex.Transaction,
+  tenantId: string,
+  revaluationDate: Date
+): Promise<JournalEntry | undefined> => {
+  return JournalEntry.query(trx)
+    .modify('notDeleted')
+    .modify('byTenant', tenantId)
+    .where('source_module', FX_REVALUATION_SOURCE_MODULE)
+    .where('status', JournalEntryStatus.POSTED)
+    .where('entry_date', formatDateToISOString(revaluationDate))
+    .first()
+}
+
+/**
+ * Create and post the unrealized FX gain/loss entry of a revaluation
+ * The entry reverses on the next day, so each revaluation restates the
+ * balances from their historical rates
+ */
+const postRevaluationEntry = async (
+  trx: Knex.Transaction,
+  tenantId: string,
+  schemaName: string,
+  preview: FxRevaluationPreview,
+  postedBy: string
+): Promise<JournalEntry> => {
+  const dateLabel = formatDateToString(preview.revaluationDate)
+  const lineData = preview.lines
+    .filter((line) => line.adjustment !== 0)
+    .map((line, index) => ({
+      accountId: line.accountId,
+      lineNumber: index + 1,
+      debit: line.adjustment > 0 ? line.adjustment : 0,
+      credit: line.adjustment < 0 ? Math.abs(line.adjustment) : 0,
+      // Restating the base amount leaves the foreign balance unchanged
+      currencyCode: line.currencyCode,
+      exchangeRate: line.exchangeRate,
+      foreignDebit: 0,
+      foreignCredit: 0,
+      description: `Revalue ${line.currencyCode} balance at ${line.exchangeRate}`,
+    }))
+
+  // A net increase of the restated balances is a gain, credited to the account
+  const { totalGainLoss } = preview
+  lineData.push({
+    accountId: preview.gainLossAccount.id,
+    lineNumber: lineData.length + 1,
+    debit: totalGainLoss < 0 ? Math.abs(totalGainLoss) : 0,
+    credit: totalGainLoss > 0 ? totalGainLoss : 0,
+    currencyCode: preview.baseCurrency,
+    exchangeRate: 1,
+    foreignDebit: totalGainLoss < 0 ? Math.abs(totalGainLoss) : 0,
+    foreignCredit: totalGainLoss > 0 ? totalGainLoss : 0,
+    description:
+      totalGainLoss > 0 ? 'Unrealized FX gain' : 'Unrealized FX loss',
+  })
+
+  const totalDebit = roundAmount(
+    lineData.reduce((sum, line) => sum + line.debit, 0)
+  )
+  const totalCredit = roundAmount(
+    lineData.reduce((sum, line) => sum + line.credit, 0)
+  )
+  const reversalDate = addUTCDays(preview.revaluationDate, 1)
+
+  const entryData: CreateJournalEntryData = {
+    entryNumber: await generateEntryNumber(tenantId, schemaName, trx),
+    entryDate: preview.revaluationDate,
+    entryType: JournalEntryType.ADJUSTING,
+    isAdjusting: true,
+    isClosing: false,
+    isReversing: false,
+    reversalDate,
+    description: `Unrealized FX revaluation as of ${dateLabel}`,
+    reference: `FX revaluation ${dateLabel}`,
+    status: JournalEntryStatus.DRAFT,
+    sourceModule: FX_REVALUATION_SOURCE_MODULE,
+    sourceId: null,
+    totalDebit,
+    totalCredit,
+  }
+
+  const entry = await JournalEntry.query(trx).insert({
+    ...entryData,
+    entryDate: formatDateToISOString(
+      preview.revaluationDate
+    ) as unknown as Date,
+    reversalDate: formatDateToISOString(reversalDate) as unknown as Date,
+    tenantId,
+    createdBy: postedBy,
+  })
+
+  await JournalEntryLine.query(trx).insert(
+    lineData.map((line) => ({
+      ...line,
+      journalEntryId: entry.id,
+      tenantId,
+      createdBy: postedBy,
+    }))
+  )
+
+  // Posting validates the entry and rejects a closed period
+  return postJournalEntry(
+    tenantId,
+    schemaName,
+    entry.id,
+    postedBy,
+    { skipApproval: true },
+    trx
+  )
+}
+
+/**
+ * Preview the unrealized FX gain/loss entry of a date without posting it
+ * @param gainLossAccountId - Overrides the account from the currency settings
+ * @throws ApiError if no gain/loss account is set or a rate is missing
+ */
+export const previewFxRevaluation = async (
+  tenantId: string,
+  schemaName: string,
+  revaluationDate: string,
+  gainLossAccountId?: string
+): Promise<FxRevaluationPreview> => {
+  return withTenantSchema(schemaName, async (trx) =>
+    buildFxRevaluation(
+      trx,
+      tenantId,
+      parseDateStringToUTC(revaluationDate),
+      gainLossAccountId
+    )
+  )
+}
+
+/**
+ * Post the unrealized FX gain/loss entry of a date
+ * The entry is dated on the revaluation date and reversed automatically on the
+ * next day. Only one revaluation can be posted per date.
+ * @param postedBy - User ID who posts the revaluation
+ * @param gainLossAccountId - Overrides the account from the currency settings
+ */
+export const postFxRevaluation = async (
+  tenantId: string,
+  schemaName: string,
+  revaluationDate: string,
+  postedBy: string,
+  gainLossAccountId?: string
+): Promise<FxRevaluationResult> => {
+  return withTenantSchema(schemaName, async (trx) => {
+    const date = parseDateStringToUTC(revaluationDate)
+    if (await findPostedRevaluation(trx, tenantId, date)) {
+      throw new ApiError(
+        HTTP_STATUS.CONFLICT,
+        ERROR_MESSAGES.FX_REVALUATION_ALREADY_POSTED
+      )
+    }
+
+    const preview = await buildFxRevaluation(
+      trx,
+      tenantId,
+      date,
+      gainLossAccountId
+    )
+    if (preview.lines.every((line) => line.adjustment === 0)) {
+      throw new ApiError(
+        HTTP_STATUS.BAD_REQUEST,
+        ERROR_MESSAGES.FX_REVALUATION_NOTHING_TO_REVALUE
+      )
+    }
+
+    const entry = await postRevaluationEntry(
+      trx,
+      tenantId,
+      schemaName,
+      preview,
+      postedBy
+    )
+
+    return { preview, entry }
+  })
+}
+
+/**
+ * Find the period-end date a tenant is due to be revalued on
+ * That is the end of the latest ended fiscal period, while it is still open
+ * and has not been revalued. Tenants without a gain/loss account are skipped.
+ * @returns Revaluation date (YYYY-MM-DD) or null
+ */
+export const findDueFxRevaluationDate = async (
+  tenant: Tenant
+): Promise<string | null> => {
+  if (!tenant.fxGainLossAccountId || !tenant.fxRevaluationUserId) {
+    return null
+  }
+
+  return withTenantSchema(tenant.schemaName, async (trx) => {
+    const period = await FiscalPeriod.query(trx)
+      .modify('notDeleted')
+      .modify('byTenant', tenant.id)
+      .where('end_date', '<', parseDateStringToUTC(getCurrentDate()))
+      .orderBy('end_date', 'desc')
+      .first()
+
+    if (period?.status !== FiscalPeriodStatus.OPEN) {
+      return null
+    }
+
+    const revaluationDate = parseDateStringToUTC(period.endDate)
+    if (await findPostedRevaluation(trx, tenant.id, revaluationDate)) {
+      return null
+    }
+
+    return formatDateToString(revaluationDate)
+  })
+}
+
+/**
+ * Post the scheduled revaluation of a period end
+ * Posts as the user who set the gain/loss account. Returns null when the tenant
+ * no longer has a gain/loss account, the date was already revalued, or no
+ * balance needs restating.
+ */
+export const runScheduledFxRevaluation = async (
+  tenantId: string,
+  schemaName: string,
+  revaluationDate: string
+): Promise<FxRevaluationResult | null> => {
+  return withTenantSchema(schemaName, async (trx) => {
+    const tenant = await Tenant.query(trx).findById(tenantId)
+    if (!tenant?.fxGainLossAccountId || !tenant.fxRevaluationUserId) {
+      return null
+    }
+
+    const date = parseDateStringToUTC(revaluationDate)
+    if (await findPostedRevaluation(trx, tenantId, date)) {
+      return null
+    }
+
+    const preview = await buildFxRevaluation(trx, tenantId, date)
+    if (preview.lines.every((line) => line.adjustment === 0)) {
+      return null
+    }
+
+    const entry = await postRevaluationEntry(
+      trx,
+      tenantId,
+      schemaName,
+      preview,
+      tenant.fxRevaluationUserId
+    )
+
+    return { preview, entry }
+  })
+}
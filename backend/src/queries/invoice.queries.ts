@@ -0,0 +1,913 @@
+import type { Knex } from 'knex'
+
+import type {
+  CreateInvoiceData,
+  InvoiceFilters,
+  InvoiceLineData,
+  InvoiceListResult,
+  UpdateInvoiceData,
+  UpdateInvoiceSettingsData,
+  VoidInvoiceData,
+} from '@/types/invoice.type'
+import { ERROR_MESSAGES } from '@constants/errors'
+import { HTTP_STATUS } from '@constants/http'
+import { AccountType, ChartOfAccount } from '@models/ChartOfAccount'
+import { Contact } from '@models/Contact'
+import { INVOICE_SOURCE_MODULE, Invoice, InvoiceStatus } from '@models/Invoice'
+import { InvoiceLine } from '@models/InvoiceLine'
+import { InvoiceSettings } from '@models/InvoiceSettings'
+import { JournalEntryType } from '@models/JournalEntry'
+import { assertContactsExist, findContactById } from '@queries/contact.queries'
+import { postOrSubmitJournalEntry } from '@queries/journalApproval.queries'
+import {
+  createJournalEntry,
+  findJournalEntryById,
+  reverseJournalEntry,
+  voidJournalEntry,
+} from '@queries/journalEntry.queries'
+import { roundAmount } from '@queries/report.queries'
+import { findTaxGroupById } from '@queries/taxGroup.queries'
+import { calculateOffset } from '@schema/shared.schema'
+import { ApiError } from '@utils/ApiError'
+import {
+  addUTCDays,
+  formatDateToString,
+  getCurrentDate,
+  parseDateStringToUTC,
+  toDateColumn,
+} from '@utils/date'
+import {
+  calculateTaxWithGroupAndExemptions,
+  type TaxCalculationResult,
+} from '@utils/taxCalculation'
+import { withTenantSchema } from '@utils/tenantQuery'
+
+/**
+ * Invoice line with its amounts, and the account and tax group resolved from
+ * the customer's defaults
+ */
+interface CalculatedInvoiceLine {
+  description: string
+  quantity: number
+  unitPrice: number
+  amount: number
+  accountId: string
+  taxGroupId: string | null
+  taxAmount: number
+  taxBreakdown: TaxCalculationResult['taxBreakdown']
+}
+
+/**
+ * Map sort field to database column
+ */
+const mapInvoiceSortField = (field: string): string => {
+  const fieldMap: Record<string, string> = {
+    invoiceNumber: 'invoice_number',
+    issueDate: 'issue_date',
+    dueDate: 'due_date',
+    total: 'total',
+    status: 'status',
+    createdAt: 'created_at',
+  }
+  // eslint-disable-next-line security/detect-object-injection
+  return fieldMap[field] ?? 'issue_date'
+}
+
+/**
+ * Start of today (UTC); open invoices due before it are overdue
+ */
+export const getInvoiceStatusDate = (): Date =>
+  parseDateStringToUTC(formatDateToString(getCurrentDate()) as string)
+
+/**
+ * Load the customer of an invoice
+ * The contact must be an active customer
+ */
+const findInvoiceCustomer = async (
+  tenantId: string,
+  schemaName: string,
+  contactId: string
+): Promise<Contact> => {
+  const contact = await findContactById(tenantId, schemaName, contactId)
+
+  if (!contact.isActive) {
+    throw new ApiError(HTTP_STATUS.BAD_REQUEST, ERROR_MESSAGES.CONTACT_INACTIVE)
+  }
+  if (!contact.isCustomer()) {
+    throw new ApiError(
+      HTTP_STATUS.BAD_REQUEST,
+      ERROR_MESSAGES.INVOICE_CONTACT_NOT_CUSTOMER
+    )
+  }
+
+  return contact
+}
+
+/**
+ * Calculate the amounts and tax of invoice lines
+ * Lines without an account or tax group take the customer's defaults. Tax is
+ * calculated per line with the tax group and the customer's exemptions.
+ * Runs outside the invoice transaction because the tax calculation reads tax
+ * groups and exemptions in transactions of its own.
+ */
+const calculateInvoiceLines = async (
+  tenantId: string,
+  schemaName: string,
+  contact: Contact,
+  lines: InvoiceLineData[]
+): Promise<CalculatedInvoiceLine[]> => {
+  const calculated: CalculatedInvoiceLine[] = []
+
+  for (const line of lines) {
+    const accountId = line.accountId ?? contact.defaultIncomeAccountId
+    if (!accountId) {
+      throw new ApiError(
+        HTTP_STATUS.BAD_REQUEST,
+        ERROR_MESSAGES.INVOICE_LINE_ACCOUNT_REQUIRED
+      )
+    }
+
+    const taxGroupId =
+      line.taxGroupId === undefined
+        ? (contact.defaultTaxGroupId ?? null)
+        : line.taxGroupId
+    const amount = roundAmount(line.quantity * line.unitPrice)
+
+    let taxAmount = 0
+    let taxBreakdown: TaxCalculationResult['taxBreakdown'] = []
+    if (taxGroupId) {
+      const taxGroup = await findTaxGroupById(tenantId, schemaName, taxGroupId)
+      const tax = await calculateTaxWithGroupAndExemptions(
+        amount,
+        taxGroup,
+        contact.id,
+        tenantId,
+        schemaName
+      )
+      taxAmount = roundAmount(tax.taxAmount)
+      taxBreakdown = tax.taxBreakdown.map((item) => ({
+        ...item,
+        taxAmount: roundAmount(item.taxAmount),
+      }))
+    }
+
+    calculated.push({
+      description: line.description,
+      quantity: line.quantity,
+      unitPrice: line.unitPrice,
+      amount,
+      accountId,
+      taxGroupId,
+      taxAmount,
+      taxBreakdown,
+    })
+  }
+
+  return calculated
+}
+
+/**
+ * Validate that invoice lines credit existing revenue accounts
+ */
+const assertRevenueAccounts = async (
+  trx: Knex.Transaction,
+  tenantId: string,
+  lines: CalculatedInvoiceLine[]
+): Promise<void> => {
+  const accountIds = [...new Set(lines.map((line) => line.accountId))]
+  const accounts = await ChartOfAccount.query(trx)
+    .modify('notDeleted')
+    .modify('byTenant', tenantId)
+    .whereIn('id', accountIds)
+    .select('id', 'account_type')
+
+  if (accounts.length !== accountIds.length) {
+    throw new ApiError(
+      HTTP_STATUS.NOT_FOUND,
+      ERROR_MESSAGES.CHART_OF_ACCOUNT_NOT_FOUND
+    )
+  }
+
+  if (accounts.some((account) => account.accountType !== AccountType.REVENUE)) {
+    throw new ApiError(
+      HTTP_STATUS.BAD_REQUEST,
+      ERROR_MESSAGES.INVOICE_LINE_ACCOUNT_INVALID
+    )
+  }
+}
+
+/**
+ * Validate that no other invoice uses an invoice number
+ */
+const assertInvoiceNumberAvailable = async (
+  trx: Knex.Transaction,
+  tenantId: string,
+  invoiceNumber: string,
+  excludeInvoiceId?: string
+): Promise<void> => {
+  const query = Invoice.query(trx)
+    .modify('notDeleted')
+    .modify('byTenant', tenantId)
+    .where('invoice_number', invoiceNumber)
+
+  if (excludeInvoiceId) {
+    query.whereNot('id', excludeInvoiceId)
+  }
+
+  if (await query.first()) {
+    throw new ApiError(
+      HTTP_STATUS.CONFLICT,
+      ERROR_MESSAGES.INVOICE_NUMBER_EXISTS
+    )
+  }
+}
+
+/**
+ * Get the invoice settings of a tenant, creating them with the defaults the
+ * first time
+ */
+const getOrCreateInvoiceSettings = async (
+  trx: Knex.Transaction,
+  tenantId: string
+): Promise<InvoiceSettings> => {
+  const settings = await InvoiceSettings.query(trx)
+    .modify('byTenant', tenantId)
+    .first()
+
+  if (settings) {
+    return settings
+  }
+
+  return InvoiceSettings.query(trx).insert({ tenantId })
+}
+
+/**
+ * Take the next free invoice number and advance the counter
+ * The settings row is locked so concurrent invoices get different numbers.
+ * Numbers already used (e.g., entered by hand) are skipped.
+ */
+const takeNextInvoiceNumber = async (
+  trx: Knex.Transaction,
+  tenantId: string
+): Promise<string> => {
+  await getOrCreateInvoiceSettings(trx, tenantId)
+
+  const settings = (await InvoiceSettings.query(trx)
+    .modify('byTenant', tenantId)
+    .forUpdate()
+    .first()) as InvoiceSettings
+
+  let nextNumber = settings.nextNumber
+  let invoiceNumber = settings.formatNumber(nextNumber)
+  while (
+    await Invoice.query(trx)
+      .modify('notDeleted')
+      .modify('byTenant', tenantId)
+      .where('invoice_number', invoiceNumber)
+      .first()
+  ) {
+    nextNumber += 1
+    invoiceNumber = settings.formatNumber(nextNumber)
+  }
+
+  await settings.$query(trx).patch({ nextNumber: nextNumber + 1 })
+
+  return invoiceNumber
+}
+
+/**
+ * Insert the lines of an invoice and return the invoice totals
+ */
+const insertInvoiceLines = async (
+  trx: Knex.Transaction,
+  tenantId: string,
+  invoiceId: string,
+  createdBy: string,
+  lines: CalculatedInvoiceLine[]
+): Promise<{ subtotal: number; taxAmount: number; total: number }> => {
+  await InvoiceLine.query(trx).insert(
+    lines.map((line, index) => ({
+      tenantId,
+      invoiceId,
+      createdBy,
+      lineNumber: index + 1,
+      ...line,
+    }))
+  )
+
+  const subtotal = roundAmount(
+    lines.reduce((sum, line) => sum + line.amount, 0)
+  )
+  const taxAmount = roundAmount(
+    lines.reduce((sum, line) => sum + line.taxAmount, 0)
+  )
+
+  return { subtotal, taxAmount, total: roundAmount(subtotal + taxAmount) }
+}
+
+/**
+ * Validate a ledger account chosen in the invoice settings
+ */
+const assertSettingsAccount = async (
+  trx: Knex.Transaction,
+  tenantId: string,
+  accountId: string,
+  accountType: AccountType,
+  message: string
+): Promise<ChartOfAccount> => {
+  const account = await ChartOfAccount.query(trx)
+    .modify('notDeleted')
+    .modify('byTenant', tenantId)
+    .findById(accountId)
+
+  if (!account) {
+    throw new ApiError(
+      HTTP_STATUS.NOT_FOUND,
+      ERROR_MESSAGES.CHART_OF_ACCOUNT_NOT_FOUND
+    )
+  }
+  if (account.accountType !== accountType || !account.isActive) {
+    throw new ApiError(HTTP_STATUS.BAD_REQUEST, message)
+  }
+
+  return account
+}
+
+/**
+ * Find invoice settings
+ * @param trx - Optional transaction to use (if provided, won't create a new transaction)
+ */
+export const findInvoiceSettings = async (
+  tenantId: string,
+  schemaName: string,
+  trx?: Knex.Transaction
+): Promise<InvoiceSettings> => {
+  const execute = async (transaction: Knex.Transaction) => {
+    const settings = await getOrCreateInvoiceSettings(transaction, tenantId)
+
+    return (await InvoiceSettings.query(transaction)
+      .findById(settings.id)
+      .withGraphFetched('[receivableAccount, taxAccount]')) as InvoiceSettings
+  }
+
+  // If transaction is provided, use it directly
+  if (trx) {
+    return execute(trx)
+  }
+
+  // Otherwise, create a new transaction
+  return withTenantSchema(schemaName, execute)
+}
+
+/**
+ * Update invoice settings
+ */
+export const updateInvoiceSettings = async (
+  tenantId: string,
+  schemaName: string,
+  data: UpdateInvoiceSettingsData
+): Promise<InvoiceSettings> => {
+  return withTenantSchema(schemaName, async (trx) => {
+    const settings = await getOrCreateInvoiceSettings(trx, tenantId)
+
+    if (data.receivableAccountId) {
+      await assertSettingsAccount(
+        trx,
+        tenantId,
+        data.receivableAccountId,
+        AccountType.ASSET,
+        ERROR_MESSAGES.INVOICE_RECEIVABLE_ACCOUNT_INVALID
+      )
+    }
+    if (data.taxAccountId) {
+      await assertSettingsAccount(
+        trx,
+        tenantId,
+        data.taxAccountId,
+        AccountType.LIABILITY,
+        ERROR_MESSAGES.INVOICE_TAX_ACCOUNT_INVALID
+      )
+    }
+
+    const updateData: Partial<InvoiceSettings> = {}
+    if (data.numberPrefix !== undefined)
+      updateData.numberPrefix = data.numberPrefix
+    if (data.nextNumber !== undefined) updateData.nextNumber = data.nextNumber
+    if (data.numberPadding !== undefined)
+      updateData.numberPadding = data.numberPadding
+    if (data.receivableAccountId !== undefined)
+      updateData.receivableAccountId = data.receivableAccountId
+    if (data.taxAccountId !== undefined)
+      updateData.taxAccountId = data.taxAccountId
+
+    await settings.$query(trx).patch(updateData)
+
+    return findInvoiceSettings(tenantId, schemaName, trx)
+  })
+}
+
+/**
+ * Find invoices with pagination, sorting, search, and filtering
+ * The overdue status filter matches sent and partially paid invoices past
+ * their due date
+ */
+export const findInvoices = async (
+  tenantId: string,
+  schemaName: string,
+  filters: InvoiceFilters
+): Promise<InvoiceListResult> => {
+  const {
+    page,
+    limit,
+    sort = 'issueDate',
+    order = 'desc',
+    search,
+    status,
+    contactId,
+    startDate,
+    endDate,
+  } = filters
+
+  const offset = calculateOffset(page, limit)
+  const sortColumn = mapInvoiceSortField(sort)
+
+  return withTenantSchema(schemaName, async (trx) => {
+    const query = Invoice.query(trx)
+      .modify('notDeleted')
+      .modify('byTenant', tenantId)
+
+    if (status) {
+      query.modify('byStatus', status, getInvoiceStatusDate())
+    }
+
+    if (contactId) {
+      query.modify('byContact', contactId)
+    }
+
+    if (startDate) {
+      query.where('issue_date', '>=', parseDateStringToUTC(startDate))
+    }
+    if (endDate) {
+      query.where('issue_date', '<=', parseDateStringToUTC(endDate))
+    }
+
+    // Search in invoice number, reference and customer name
+    if (search) {
+      query.where((builder) => {
+        builder
+          .where('invoice_number', 'ilike', `%${search}%`)
+          .orWhere('reference', 'ilike', `%${search}%`)
+          .orWhereIn(
+            'contact_id',
+            Contact.query(trx)
+              .modify('byTenant', tenantId)
+              .where('display_name', 'ilike', `%${search}%`)
+              .select('id')
+          )
+      })
+    }
+
+    const total = await query.resultSize()
+
+    const invoices = await query
+      .withGraphFetched('contact')
+      .orderBy(sortColumn, order)
+      .orderBy('invoice_number', order)
+      .limit(limit)
+      .offset(offset)
+
+    return { invoices, total }
+  })
+}
+
+/**
+ * Find invoice by ID with customer and lines
+ * @param trx - Optional transaction to use (if provided, won't create a new transaction)
+ */
+export const findInvoiceById = async (
+  tenantId: string,
+  schemaName: string,
+  invoiceId: string,
+  trx?: Knex.Transaction
+): Promise<Invoice> => {
+  const execute = async (transaction: Knex.Transaction) => {
+    const invoice = await Invoice.query(transaction)
+      .modify('notDeleted')
+      .modify('byTenant', tenantId)
+      .modify('withLines')
+      .findById(invoiceId)
+
+    if (!invoice) {
+      throw new ApiError(
+        HTTP_STATUS.NOT_FOUND,
+        ERROR_MESSAGES.INVOICE_NOT_FOUND
+      )
+    }
+
+    return invoice
+  }
+
+  // If transaction is provided, use it directly
+  if (trx) {
+    return execute(trx)
+  }
+
+  // Otherwise, create a new transaction
+  return withTenantSchema(schemaName, execute)
+}
+
+/**
+ * Create a draft invoice
+ * The invoice number is taken from the invoice settings unless one is given
+ */
+export const createInvoice = async (
+  tenantId: string,
+  schemaName: string,
+  createdBy: string,
+  data: CreateInvoiceData
+): Promise<Invoice> => {
+  const contact = await findInvoiceCustomer(
+    tenantId,
+    schemaName,
+    data.contactId
+  )
+  const lines = await calculateInvoiceLines(
+    tenantId,
+    schemaName,
+    contact,
+    data.lines
+  )
+
+  return withTenantSchema(schemaName, async (trx) => {
+    await assertRevenueAccounts(trx, tenantId, lines)
+
+    let invoiceNumber = data.invoiceNumber
+    if (invoiceNumber) {
+      await assertInvoiceNumberAvailable(trx, tenantId, invoiceNumber)
+    } else {
+      invoiceNumber = await takeNextInvoiceNumber(trx, tenantId)
+    }
+
+    const issueDate = parseDateStringToUTC(data.issueDate)
+    const dueDate = data.dueDate
+      ? parseDateStringToUTC(data.dueDate)
+      : addUTCDays(issueDate, contact.paymentTermsDays)
+
+    const invoice = await Invoice.query(trx).insert({
+      tenantId,
+      createdBy,
+      invoiceNumber,
+      contactId: contact.id,
+      status: InvoiceStatus.DRAFT,
+      issueDate: toDateColumn(issueDate),
+      dueDate: toDateColumn(dueDate),
+      reference: data.reference ?? null,
+      memo: data.memo ?? null,
+      notes: data.notes ?? null,
+    })
+
+    const totals = await insertInvoiceLines(
+      trx,
+      tenantId,
+      invoice.id,
+      createdBy,
+      lines
+    )
+    await invoice.$query(trx).patch(totals)
+
+    return findInvoiceById(tenantId, schemaName, invoice.id, trx)
+  })
+}
+
+/**
+ * Update a draft invoice
+ * Replacing the lines soft-deletes the old ones. Tax is recalculated when the
+ * lines or the customer change.
+ */
+export const updateInvoice = async (
+  tenantId: string,
+  schemaName: string,
+  invoiceId: string,
+  updatedBy: string,
+  data: UpdateInvoiceData
+): Promise<Invoice> => {
+  const existing = await findInvoiceById(tenantId, schemaName, invoiceId)
+  if (!existing.isDraft()) {
+    throw new ApiError(HTTP_STATUS.CONFLICT, ERROR_MESSAGES.INVOICE_NOT_DRAFT)
+  }
+
+  const contactChanged =
+    data.contactId !== undefined && data.contactId !== existing.contactId
+  let lines: CalculatedInvoiceLine[] | undefined
+  if (data.lines || contactChanged) {
+    const contact = await findInvoiceCustomer(
+      tenantId,
+      schemaName,
+      data.contactId ?? existing.contactId
+    )
+    lines = await calculateInvoiceLines(
+      tenantId,
+      schemaName,
+      contact,
+      data.lines ??
+        (existing.lines ?? []).map((line) => ({
+          description: line.description,
+          quantity: Number(line.quantity),
+          unitPrice: Number(line.unitPrice),
+          accountId: line.accountId,
+          taxGroupId: line.taxGroupId ?? null,
+        }))
+    )
+  }
+
+  return withTenantSchema(schemaName, async (trx) => {
+    // Re-read inside the transaction so a concurrent send is not overwritten
+    const invoice = await findInvoiceById(tenantId, schemaName, invoiceId, trx)
+    if (!invoice.isDraft()) {
+      throw new ApiError(HTTP_STATUS.CONFLICT, ERROR_MESSAGES.INVOICE_NOT_DRAFT)
+    }
+
+    if (data.invoiceNumber && data.invoiceNumber !== invoice.invoiceNumber) {
+      await assertInvoiceNumberAvailable(
+        trx,
+        tenantId,
+        data.invoiceNumber,
+        invoice.id
+      )
+    }
+
+    const issueDate = data.issueDate
+      ? parseDateStringToUTC(data.issueDate)
+      : new Date(invoice.issueDate)
+    const dueDate = data.dueDate
+      ? parseDateStringToUTC(data.dueDate)
+      : new Date(invoice.dueDate)
+    if (dueDate < issueDate) {
+      throw new ApiError(
+        HTTP_STATUS.BAD_REQUEST,
+        ERROR_MESSAGES.INVOICE_DUE_DATE_INVALID
+      )
+    }
+
+    const updateData: Partial<Invoice> = {}
+    if (data.contactId !== undefined) updateData.contactId = data.contactId
+    if (data.invoiceNumber !== undefined)
+      updateData.invoiceNumber = data.invoiceNumber
+    if (data.issueDate !== undefined)
+      updateData.issueDate = toDateColumn(issueDate)
+    if (data.dueDate !== undefined) updateData.dueDate = toDateColumn(dueDate)
+    if (data.reference !== undefined) updateData.reference = data.reference
+    if (data.memo !== undefined) updateData.memo = data.memo
+    if (data.notes !== undefined) updateData.notes = data.notes
+
+    if (lines) {
+      await assertRevenueAccounts(trx, tenantId, lines)
+
+      await InvoiceLine.query(trx)
+        .modify('notDeleted')
+        .modify('byInvoice', invoice.id)
+        .patch({
+          deletedAt: toDateColumn(getCurrentDate()),
+        })
+
+      Object.assign(
+        updateData,
+        await insertInvoiceLines(trx, tenantId, invoice.id, updatedBy, lines)
+      )
+    }
+
+    await invoice.$query(trx).patch(updateData)
+
+    return findInvoiceById(tenantId, schemaName, invoice.id, trx)
+  })
+}
+
+/**
+ * Delete a draft invoice (soft delete)
+ * Sent invoices are voided instead so their ledger history is kept
+ */
+export const deleteInvoice = async (
+  tenantId: string,
+  schemaName: string,
+  invoiceId: string
+): Promise<Invoice> => {
+  return withTenantSchema(schemaName, async (trx) => {
+    const invoice = await findInvoiceById(tenantId, schemaName, invoiceId, trx)
+    if (!invoice.isDraft()) {
+      throw new ApiError(HTTP_STATUS.CONFLICT, ERROR_MESSAGES.INVOICE_NOT_DRAFT)
+    }
+
+    return invoice.$query(trx).patchAndFetch({
+      deletedAt: toDateColumn(getCurrentDate()),
+    })
+  })
+}
+
+/**
+ * Send an invoice and post its journal entry
+ * The entry, dated on the issue date, debits the receivable account with the
+ * total and credits each line's revenue account and the tax account. The
+ * receivable and revenue lines are tagged with the customer. The entry is
+ * posted, or submitted for approval when approval rules apply to it.
+ * @param sentBy - User ID sending the invoice
+ */
+export const sendInvoice = async (
+  tenantId: string,
+  schemaName: string,
+  sentBy: string,
+  invoiceId: string
+): Promise<Invoice> => {
+  return withTenantSchema(schemaName, async (trx) => {
+    const invoice = await findInvoiceById(tenantId, schemaName, invoiceId, trx)
+    if (!invoice.isDraft()) {
+      throw new ApiError(HTTP_STATUS.CONFLICT, ERROR_MESSAGES.INVOICE_NOT_DRAFT)
+    }
+
+    const total = Number(invoice.total)
+    const taxAmount = Number(invoice.taxAmount)
+    if (total <= 0) {
+      throw new ApiError(
+        HTTP_STATUS.BAD_REQUEST,
+        ERROR_MESSAGES.INVOICE_TOTAL_INVALID
+      )
+    }
+
+    await assertContactsExist(trx, tenantId, [invoice.contactId])
+
+    const settings = await getOrCreateInvoiceSettings(trx, tenantId)
+    if (!settings.receivableAccountId) {
+      throw new ApiError(
+        HTTP_STATUS.BAD_REQUEST,
+        ERROR_MESSAGES.INVOICE_RECEIVABLE_ACCOUNT_MISSING
+      )
+    }
+    const receivableAccount = await assertSettingsAccount(
+      trx,
+      tenantId,
+      settings.receivableAccountId,
+      AccountType.ASSET,
+      ERROR_MESSAGES.INVOICE_RECEIVABLE_ACCOUNT_INVALID
+    )
+
+    let taxAccount: ChartOfAccount | undefined
+    if (taxAmount > 0) {
+      if (!settings.taxAccountId) {
+        throw new ApiError(
+          HTTP_STATUS.BAD_REQUEST,
+          ERROR_MESSAGES.INVOICE_TAX_ACCOUNT_MISSING
+        )
+      }
+      taxAccount = await assertSettingsAccount(
+        trx,
+        tenantId,
+        settings.taxAccountId,
+        AccountType.LIABILITY,
+        ERROR_MESSAGES.INVOICE_TAX_ACCOUNT_INVALID
+      )
+    }
+
+    const description = `Invoice ${invoice.invoiceNumber}`
+    const entryLines = [
+      {
+        accountId: receivableAccount.id,
+        lineNumber: 1,
+        debit: total,
+        credit: 0,
+        description,
+        contactId: invoice.contactId,
+      },
+      ...(invoice.lines ?? [])
+        .filter((line) => Number(line.amount) > 0)
+        .map((line, index) => ({
+          accountId: line.accountId,
+          lineNumber: index + 2,
+          debit: 0,
+          credit: Number(line.amount),
+          description: line.description,
+          contactId: invoice.contactId,
+        })),
+    ]
+    if (taxAccount) {
+      entryLines.push({
+        accountId: taxAccount.id,
+        lineNumber: entryLines.length + 1,
+        debit: 0,
+        credit: taxAmount,
+        description: `Tax on ${description}`,
+        contactId: invoice.contactId,
+      })
+    }
+
+    const created = await createJournalEntry(
+      tenantId,
+      schemaName,
+      sentBy,
+      {
+        entryDate: formatDateToString(invoice.issueDate) as string,
+        entryType: JournalEntryType.STANDARD,
+        isAdjusting: false,
+        isClosing: false,
+        isReversing: false,
+        description: `${description} - ${invoice.contact?.displayName ?? ''}`,
+        reference: invoice.invoiceNumber,
+        sourceModule: INVOICE_SOURCE_MODULE,
+        sourceId: invoice.id,
+        lines: entryLines,
+      },
+      trx
+    )
+
+    const entry = await postOrSubmitJournalEntry(
+      tenantId,
+      schemaName,
+      created,
+      sentBy,
+      trx
+    )
+
+    await invoice.$query(trx).patch({
+      status: InvoiceStatus.SENT,
+      receivableAccountId: receivableAccount.id,
+      journalEntryId: entry.id,
+      sentAt: toDateColumn(getCurrentDate()),
+      sentBy,
+    })
+
+    return findInvoiceById(tenantId, schemaName, invoice.id, trx)
+  })
+}
+
+/**
+ * Void an invoice
+ * A posted invoice entry is reversed on the void date; an entry still waiting
+ * for approval is voided. Drafts are voided without touching the ledger.
+ * Invoices with payments applied cannot be voided.
+ * @param voidedBy - User ID voiding the invoice
+ */
+export const voidInvoice = async (
+  tenantId: string,
+  schemaName: string,
+  voidedBy: string,
+  invoiceId: string,
+  data: VoidInvoiceData
+): Promise<Invoice> => {
+  return withTenantSchema(schemaName, async (trx) => {
+    const invoice = await findInvoiceById(tenantId, schemaName, invoiceId, trx)
+    if (invoice.isVoid()) {
+      throw new ApiError(
+        HTTP_STATUS.CONFLICT,
+        ERROR_MESSAGES.INVOICE_ALREADY_VOID
+      )
+    }
+    if (Number(invoice.amountPaid) > 0) {
+      throw new ApiError(
+        HTTP_STATUS.BAD_REQUEST,
+        ERROR_MESSAGES.INVOICE_HAS_PAYMENTS
+      )
+    }
+
+    let voidJournalEntryId: string | null = null
+    if (invoice.journalEntryId) {
+      const entry = await findJournalEntryById(
+        tenantId,
+        schemaName,
+        invoice.journalEntryId,
+        trx
+      )
+
+      if (entry.isPosted()) {
+        const voidDate = data.voidDate
+          ? parseDateStringToUTC(data.voidDate)
+          : getInvoiceStatusDate()
+        if (voidDate < new Date(invoice.issueDate)) {
+          throw new ApiError(
+            HTTP_STATUS.BAD_REQUEST,
+            ERROR_MESSAGES.INVOICE_VOID_DATE_INVALID
+          )
+        }
+
+        const reversal = await reverseJournalEntry(
+          tenantId,
+          schemaName,
+          entry.id,
+          voidDate,
+          voidedBy,
+          trx
+        )
+        voidJournalEntryId = reversal.id
+      } else if (!entry.isVoided()) {
+        await voidJournalEntry(tenantId, schemaName, entry.id, trx)
+      }
+    }
+
+    await invoice.$query(trx).patch({
+      status: InvoiceStatus.VOID,
+      voidJournalEntryId,
+      voidedAt: toDateColumn(getCurrentDate()),
+      voidedBy,
+      voidReason: data.reason ?? null,
+    })
+
+    return findInvoiceById(tenantId, schemaName, invoice.id, trx)
+  })
+}
@@ -0,0 +1,461 @@
+import type { Knex } from 'knex'
+
+import type {
+  ApprovalActor,
+  JournalEntryApprovalHistory,
+  PendingApprovalListResult,
+} from '@/types/journalApproval.type'
+import { ERROR_MESSAGES } from '@constants/errors'
+import { HTTP_STATUS } from '@constants/http'
+import { ROLES } from '@constants/roles'
+import {
+  JournalApprovalStatus,
+  JournalEntry,
+  JournalEntryStatus,
+} from '@models/JournalEntry'
+import {
+  JournalApprovalActionType,
+  JournalEntryApprovalAction,
+} from '@models/JournalEntryApprovalAction'
+import {
+  JournalApprovalStepStatus,
+  JournalEntryApprovalStep,
+} from '@models/JournalEntryApprovalStep'
+import { findMatchingApprovalRules } from '@queries/journalApprovalRule.queries'
+import {
+  findJournalEntryById,
+  postJournalEntry,
+} from '@queries/journalEntry.queries'
+import { calculateOffset } from '@schema/shared.schema'
+import { ApiError } from '@utils/ApiError'
+import { getCurrentDate, toDateColumn } from '@utils/date'
+import { withTenantSchema } from '@utils/tenantQuery'
+
+/**
+ * Cancel the steps still pending from an earlier submission
+ */
+const cancelPendingSteps = async (
+  transaction: Knex.Transaction,
+  tenantId: string,
+  entryId: string
+): Promise<void> => {
+  await JournalEntryApprovalStep.query(transaction)
+    .modify('byTenant', tenantId)
+    .modify('byJournalEntry', entryId)
+    .modify('pending')
+    .patch({ status: JournalApprovalStepStatus.CANCELLED })
+}
+
+/**
+ * Lock a journal entry awaiting approval and find its current step
+ * The current step is the lowest-numbered step that is still pending
+ */
+const lockPendingEntry = async (
+  transaction: Knex.Transaction,
+  tenantId: string,
+  schemaName: string,
+  entryId: string
+): Promise<{ entry: JournalEntry; step: JournalEntryApprovalStep }> => {
+  // Serialize concurrent approvals of the same entry
+  await JournalEntry.query(transaction)
+    .modify('notDeleted')
+    .modify('byTenant', tenantId)
+    .findById(entryId)
+    .forUpdate()
+
+  const entry = await findJournalEntryById(
+    tenantId,
+    schemaName,
+    entryId,
+    transaction
+  )
+
+  const step = entry.isPendingApproval()
+    ? await JournalEntryApprovalStep.query(transaction)
+        .modify('byTenant', tenantId)
+        .modify('byJournalEntry', entryId)
+        .modify('pending')
+        .orderBy('step_number', 'asc')
+        .first()
+    : undefined
+
+  if (!entry.isDraft() || !step) {
+    throw new ApiError(
+      HTTP_STATUS.CONFLICT,
+      ERROR_MESSAGES.JOURNAL_ENTRY_NOT_PENDING_APPROVAL
+    )
+  }
+
+  return { entry, step }
+}
+
+/**
+ * Ensure a user may approve or reject the current step of an entry
+ * The preparer and the submitter of an entry can never review it
+ */
+const assertCanReview = (
+  entry: JournalEntry,
+  step: JournalEntryApprovalStep,
+  actor: ApprovalActor
+): void => {
+  if (actor.id === entry.createdBy || actor.id === entry.submittedBy) {
+    throw new ApiError(
+      HTTP_STATUS.FORBIDDEN,
+      ERROR_MESSAGES.JOURNAL_ENTRY_SELF_APPROVAL
+    )
+  }
+
+  if (actor.role !== step.requiredRole && actor.role !== ROLES.SUPERADMIN) {
+    throw new ApiError(
+      HTTP_STATUS.FORBIDDEN,
+      ERROR_MESSAGES.JOURNAL_ENTRY_APPROVER_ROLE_MISMATCH
+    )
+  }
+}
+
+/**
+ * Submit a draft journal entry for approval
+ * Creates one step per matching active rule; entries matching no rule are
+ * marked as not requiring approval and can be posted right away.
+ * @param trx - Optional transaction to use (if provided, won't create a new transaction)
+ */
+export const submitJournalEntryForApproval = async (
+  tenantId: string,
+  schemaName: string,
+  entryId: string,
+  submittedBy: string,
+  comment?: string,
+  trx?: Knex.Transaction
+): Promise<JournalEntry> => {
+  const execute = async (transaction: Knex.Transaction) => {
+    const entry = await findJournalEntryById(
+      tenantId,
+      schemaName,
+      entryId,
+      transaction
+    )
+
+    if (!entry.isDraft()) {
+      throw new ApiError(
+        HTTP_STATUS.FORBIDDEN,
+        ERROR_MESSAGES.JOURNAL_ENTRY_CANNOT_SUBMIT
+      )
+    }
+
+    if (entry.isPendingApproval()) {
+      throw new ApiError(
+        HTTP_STATUS.CONFLICT,
+        ERROR_MESSAGES.JOURNAL_ENTRY_APPROVAL_PENDING
+      )
+    }
+
+    // Only balanced entries can be approved and posted
+    entry.validate()
+
+    await cancelPendingSteps(transaction, tenantId, entryId)
+
+    const rules = await findMatchingApprovalRules(transaction, tenantId, entry)
+    if (rules.length > 0) {
+      await JournalEntryApprovalStep.query(transaction).insert(
+        rules.map((rule, index) => ({
+          tenantId,
+          journalEntryId: entryId,
+          ruleId: rule.id,
+          ruleName: rule.name,
+          stepNumber: index + 1,
+          requiredRole: rule.requiredRole,
+          requiredApprovals: rule.requiredApprovals,
+        }))
+      )
+    }
+
+    await JournalEntryApprovalAction.query(transaction).insert({
+      tenantId,
+      journalEntryId: entryId,
+      action: JournalApprovalActionType.SUBMITTED,
+      userId: submittedBy,
+      comment: comment ?? null,
+    })
+
+    await entry.$query(transaction).patch({
+      approvalStatus:
+        rules.length > 0
+          ? JournalApprovalStatus.PENDING
+          : JournalApprovalStatus.NOT_REQUIRED,
+      submittedBy,
+      submittedAt: toDateColumn(getCurrentDate()),
+      approvedBy: null,
+      approvedAt: null,
+    })
+
+    return findJournalEntryById(tenantId, schemaName, entryId, transaction)
+  }
+
+  // If transaction is provided, use it directly
+  if (trx) {
+    return execute(trx)
+  }
+
+  // Otherwise, create a new transaction
+  return withTenantSchema(schemaName, execute)
+}
+
+/**
+ * Post a draft journal entry created by another module (invoices, bills,
+ * payments, bank transactions, recurring journals)
+ * Entries that need approval are submitted instead of posted.
+ * @param userId - User ID posting or submitting the entry
+ */
+export const postOrSubmitJournalEntry = async (
+  tenantId: string,
+  schemaName: string,
+  entry: JournalEntry,
+  userId: string,
+  trx: Knex.Transaction
+): Promise<JournalEntry> => {
+  const rules = await findMatchingApprovalRules(trx, tenantId, entry)
+  if (rules.length > 0) {
+    return submitJournalEntryForApproval(
+      tenantId,
+      schemaName,
+      entry.id,
+      userId,
+      undefined,
+      trx
+    )
+  }
+
+  return postJournalEntry(tenantId, schemaName, entry.id, userId, {}, trx)
+}
+
+/**
+ * Approve the current step of a journal entry
+ * The step completes once it has its required number of distinct approvers;
+ * the entry is approved when its last step completes.
+ */
+export const approveJournalEntry = async (
+  tenantId: string,
+  schemaName: string,
+  entryId: string,
+  actor: ApprovalActor,
+  comment?: string
+): Promise<JournalEntry> => {
+  return withTenantSchema(schemaName, async (trx) => {
+    const { entry, step } = await lockPendingEntry(
+      trx,
+      tenantId,
+      schemaName,
+      entryId
+    )
+    assertCanReview(entry, step, actor)
+
+    const previousApproval = await JournalEntryApprovalAction.query(trx)
+      .modify('byTenant', tenantId)
+      .where('step_id', step.id)
+      .where('user_id', actor.id)
+      .where('action', JournalApprovalActionType.APPROVED)
+      .first()
+
+    if (previousApproval) {
+      throw new ApiError(
+        HTTP_STATUS.CONFLICT,
+        ERROR_MESSAGES.JOURNAL_ENTRY_ALREADY_APPROVED_BY_USER
+      )
+    }
+
+    await JournalEntryApprovalAction.query(trx).insert({
+      tenantId,
+      journalEntryId: entryId,
+      stepId: step.id,
+      action: JournalApprovalActionType.APPROVED,
+      userId: actor.id,
+      comment: comment ?? null,
+    })
+
+    const now = toDateColumn(getCurrentDate())
+    const approvalsCount = step.approvalsCount + 1
+    const isStepComplete = approvalsCount >= step.requiredApprovals
+
+    await step.$query(trx).patch({
+      approvalsCount,
+      ...(isStepComplete && {
+        status: JournalApprovalStepStatus.APPROVED,
+        completedAt: now,
+      }),
+    })
+
+    if (isStepComplete) {
+      const remaining = await JournalEntryApprovalStep.query(trx)
+        .modify('byTenant', tenantId)
+        .modify('byJournalEntry', entryId)
+        .modify('pending')
+        .resultSize()
+
+      if (remaining === 0) {
+        await entry.$query(trx).patch({
+          approvalStatus: JournalApprovalStatus.APPROVED,
+          approvedBy: actor.id,
+          approvedAt: now,
+        })
+      }
+    }
+
+    return findJournalEntryById(tenantId, schemaName, entryId, trx)
+  })
+}
+
+/**
+ * Reject a journal entry at its current step
+ * The remaining steps are cancelled; the preparer can edit and resubmit the entry.
+ */
+export const rejectJournalEntry = async (
+  tenantId: string,
+  schemaName: string,
+  entryId: string,
+  actor: ApprovalActor,
+  comment: string
+): Promise<JournalEntry> => {
+  return withTenantSchema(schemaName, async (trx) => {
+    const { entry, step } = await lockPendingEntry(
+      trx,
+      tenantId,
+      schemaName,
+      entryId
+    )
+    assertCanReview(entry, step, actor)
+
+    await JournalEntryApprovalAction.query(trx).insert({
+      tenantId,
+      journalEntryId: entryId,
+      stepId: step.id,
+      action: JournalApprovalActionType.REJECTED,
+      userId: actor.id,
+      comment,
+    })
+
+    await step.$query(trx).patch({
+      status: JournalApprovalStepStatus.REJECTED,
+      completedAt: toDateColumn(getCurrentDate()),
+    })
+    await cancelPendingSteps(trx, tenantId, entryId)
+
+    await entry.$query(trx).patch({
+      approvalStatus: JournalApprovalStatus.REJECTED,
+    })
+
+    return findJournalEntryById(tenantId, schemaName, entryId, trx)
+  })
+}
+
+/**
+ * Find the approval steps and action history of a journal entry
+ * Steps and actions of earlier submissions are included, oldest first
+ */
+export const findJournalEntryApprovalHistory = async (
+  tenantId: string,
+  schemaName: string,
+  entryId: string
+): Promise<JournalEntryApprovalHistory> => {
+  return withTenantSchema(schemaName, async (trx) => {
+    const entry = await findJournalEntryById(tenantId, schemaName, entryId, trx)
+
+    const steps = await JournalEntryApprovalStep.query(trx)
+      .modify('notDeleted')
+      .modify('byTenant', tenantId)
+      .modify('byJournalEntry', entryId)
+      .orderBy('created_at', 'asc')
+      .orderBy('step_number', 'asc')
+
+    const actions = await JournalEntryApprovalAction.query(trx)
+      .modify('notDeleted')
+      .modify('byTenant', tenantId)
+      .modify('byJournalEntry', entryId)
+      .orderBy('created_at', 'asc')
+
+    return { entry, steps, actions }
+  })
+}
+
+/**
+ * Find the journal entries waiting for a user's approval, oldest submission first
+ * An entry is listed when its current step requires the user's role (super
+ * admins can approve any step), the user did not prepare or submit it, and
+ * the user has not already approved that step.
+ */
+export const findPendingApprovalsForUser = async (
+  tenantId: string,
+  schemaName: string,
+  actor: ApprovalActor,
+  pagination: { page: number; limit: number }
+): Promise<PendingApprovalListResult> => {
+  const { page, limit } = pagination
+
+  return withTenantSchema(schemaName, async (trx) => {
+    const query = JournalEntry.query(trx)
+      .modify('notDeleted')
+      .modify('byTenant', tenantId)
+      .modify('byStatus', JournalEntryStatus.DRAFT)
+      .where('approval_status', JournalApprovalStatus.PENDING)
+      .whereNot('created_by', actor.id)
+      .where((builder) => {
+        builder.whereNull('submitted_by').orWhereNot('submitted_by', actor.id)
+      })
+      .whereExists((builder) => {
+        builder
+          .select(1)
+          .from('journal_entry_approval_steps as step')
+          .whereColumn('step.journal_entry_id', 'journal_entries.id')
+          .where('step.status', JournalApprovalStepStatus.PENDING)
+          .whereNotExists((earlier) => {
+            earlier
+              .select(1)
+              .from('journal_entry_approval_steps as earlier')
+              .whereColumn('earlier.journal_entry_id', 'step.journal_entry_id')
+              .where('earlier.status', JournalApprovalStepStatus.PENDING)
+              .whereColumn('earlier.step_number', '<', 'step.step_number')
+          })
+          .whereNotExists((approval) => {
+            approval
+              .select(1)
+              .from('journal_entry_approval_actions as approval')
+              .whereColumn('approval.step_id', 'step.id')
+              .where('approval.user_id', actor.id)
+              .where('approval.action', JournalApprovalActionType.APPROVED)
+          })
+
+        if (actor.role !== ROLES.SUPERADMIN) {
+          builder.where('step.required_role', actor.role)
+        }
+      })
+
+    const total = await query.resultSize()
+    const entries = await query
+      .orderBy('submitted_at', 'asc')
+      .limit(limit)
+      .offset(calculateOffset(page, limit))
+
+    // Current step of each listed entry
+    const steps = await JournalEntryApprovalStep.query(trx)
+      .modify('byTenant', tenantId)
+      .modify('pending')
+      .whereIn(
+        'journal_entry_id',
+        entries.map((entry) => entry.id)
+      )
+      .orderBy('step_number', 'asc')
+
+    const currentSteps = new Map<string, JournalEntryApprovalStep>()
+    for (const step of steps) {
+      if (!currentSteps.has(step.journalEntryId)) {
+        currentSteps.set(step.journalEntryId, step)
+      }
+    }
+
+    const items = entries.flatMap((entry) => {
+      const step = currentSteps.get(entry.id)
+      return step ? [{ entry, step }] : []
+    })
+
+    return { items, total }
+  })
+}
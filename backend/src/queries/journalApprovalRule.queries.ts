@@ -0,0 +1,245 @@
+import type { Knex } from 'knex'
+
+import type {
+  ApprovalRuleFilters,
+  ApprovalRuleListResult,
+  CreateApprovalRuleData,
+  UpdateApprovalRuleData,
+} from '@/types/journalApproval.type'
+import { ERROR_MESSAGES } from '@constants/errors'
+import { HTTP_STATUS } from '@constants/http'
+import { ChartOfAccount } from '@models/ChartOfAccount'
+import { JournalApprovalRule } from '@models/JournalApprovalRule'
+import { JournalApprovalStatus, type JournalEntry } from '@models/JournalEntry'
+import { calculateOffset } from '@schema/shared.schema'
+import { ApiError } from '@utils/ApiError'
+import { getCurrentDate } from '@utils/date'
+import { withTenantSchema } from '@utils/tenantQuery'
+
+/**
+ * Validate that all accounts referenced by a rule exist
+ */
+const assertAccountsExist = async (
+  transaction: Knex.Transaction,
+  tenantId: string,
+  accountIds: string[]
+): Promise<void> => {
+  const uniqueIds = [...new Set(accountIds)]
+  if (uniqueIds.length === 0) {
+    return
+  }
+
+  const accounts = await ChartOfAccount.query(transaction)
+    .modify('notDeleted')
+    .modify('byTenant', tenantId)
+    .whereIn('id', uniqueIds)
+    .select('id')
+
+  if (accounts.length !== uniqueIds.length) {
+    throw new ApiError(
+      HTTP_STATUS.NOT_FOUND,
+      ERROR_MESSAGES.CHART_OF_ACCOUNT_NOT_FOUND
+    )
+  }
+}
+
+/**
+ * Find approval rules with pagination, in the order they are approved
+ */
+export const findApprovalRules = async (
+  tenantId: string,
+  schemaName: string,
+  filters: ApprovalRuleFilters
+): Promise<ApprovalRuleListResult> => {
+  const { isActive, page, limit } = filters
+
+  return withTenantSchema(schemaName, async (trx) => {
+    const query = JournalApprovalRule.query(trx)
+      .modify('notDeleted')
+      .modify('byTenant', tenantId)
+
+    if (isActive !== undefined) {
+      query.where('is_active', isActive)
+    }
+
+    const total = await query.resultSize()
+    const rules = await query
+      .orderBy('step_order', 'asc')
+      .orderBy('created_at', 'asc')
+      .limit(limit)
+      .offset(calculateOffset(page, limit))
+
+    return { rules, total }
+  })
+}
+
+/**
+ * Find approval rule by ID
+ * @param trx - Optional transaction to use (if provided, won't create a new transaction)
+ */
+export const findApprovalRuleById = async (
+  tenantId: string,
+  schemaName: string,
+  ruleId: string,
+  trx?: Knex.Transaction
+): Promise<JournalApprovalRule> => {
+  const execute = async (transaction: Knex.Transaction) => {
+    const rule = await JournalApprovalRule.query(transaction)
+      .modify('notDeleted')
+      .modify('byTenant', tenantId)
+      .findById(ruleId)
+
+    if (!rule) {
+      throw new ApiError(
+        HTTP_STATUS.NOT_FOUND,
+        ERROR_MESSAGES.APPROVAL_RULE_NOT_FOUND
+      )
+    }
+
+    return rule
+  }
+
+  // If transaction is provided, use it directly
+  if (trx) {
+    return execute(trx)
+  }
+
+  // Otherwise, create a new transaction
+  return withTenantSchema(schemaName, execute)
+}
+
+/**
+ * Create approval rule
+ */
+export const createApprovalRule = async (
+  tenantId: string,
+  schemaName: string,
+  createdBy: string,
+  data: CreateApprovalRuleData
+): Promise<JournalApprovalRule> => {
+  return withTenantSchema(schemaName, async (trx) => {
+    const accountIds = [...new Set(data.accountIds ?? [])]
+    await assertAccountsExist(trx, tenantId, accountIds)
+
+    return JournalApprovalRule.query(trx).insert({
+      tenantId,
+      name: data.name,
+      description: data.description ?? null,
+      minAmount: data.minAmount ?? null,
+      accountIds,
+      requiredRole: data.requiredRole,
+      requiredApprovals: data.requiredApprovals ?? 1,
+      stepOrder: data.stepOrder ?? 1,
+      isActive: data.isActive ?? true,
+      createdBy,
+    })
+  })
+}
+
+/**
+ * Update approval rule
+ * Entries already submitted keep the steps they were submitted with
+ */
+export const updateApprovalRule = async (
+  tenantId: string,
+  schemaName: string,
+  ruleId: string,
+  data: UpdateApprovalRuleData
+): Promise<JournalApprovalRule> => {
+  return withTenantSchema(schemaName, async (trx) => {
+    const rule = await findApprovalRuleById(tenantId, schemaName, ruleId, trx)
+
+    const updateData: Partial<JournalApprovalRule> = {}
+    if (data.name !== undefined) updateData.name = data.name
+    if (data.description !== undefined)
+      updateData.description = data.description
+    if (data.minAmount !== undefined) updateData.minAmount = data.minAmount
+    if (data.accountIds !== undefined) {
+      const accountIds = [...new Set(data.accountIds)]
+      await assertAccountsExist(trx, tenantId, accountIds)
+      updateData.accountIds = accountIds
+    }
+    if (data.requiredRole !== undefined)
+      updateData.requiredRole = data.requiredRole
+    if (data.requiredApprovals !== undefined)
+      updateData.requiredApprovals = data.requiredApprovals
+    if (data.stepOrder !== undefined) updateData.stepOrder = data.stepOrder
+    if (data.isActive !== undefined) updateData.isActive = data.isActive
+
+    return rule.$query(trx).patchAndFetch(updateData)
+  })
+}
+
+/**
+ * Delete approval rule (soft delete)
+ * Entries already submitted keep the steps they were submitted with
+ */
+export const deleteApprovalRule = async (
+  tenantId: string,
+  schemaName: string,
+  ruleId: string
+): Promise<void> => {
+  return withTenantSchema(schemaName, async (trx) => {
+    await findApprovalRuleById(tenantId, schemaName, ruleId, trx)
+
+    // Soft delete using direct Knex update
+    await trx('journal_approval_rules')
+      .where('id', ruleId)
+      .where('tenant_id', tenantId)
+      .update({
+        deleted_at: getCurrentDate(),
+        updated_at: getCurrentDate(),
+      })
+  })
+}
+
+/**
+ * Find the active rules matched by a journal entry, in approval order
+ * @param trx - Transaction already scoped to the tenant schema
+ * @param entry - Journal entry with its lines loaded
+ */
+export const findMatchingApprovalRules = async (
+  trx: Knex.Transaction,
+  tenantId: string,
+  entry: JournalEntry
+): Promise<JournalApprovalRule[]> => {
+  const rules = await JournalApprovalRule.query(trx)
+    .modify('notDeleted')
+    .modify('byTenant', tenantId)
+    .modify('active')
+    .orderBy('step_order', 'asc')
+    .orderBy('created_at', 'asc')
+
+  const accountIds = (entry.lines ?? []).map((line) => line.accountId)
+  return rules.filter((rule) => rule.matches(entry.totalDebit, accountIds))
+}
+
+/**
+ * Ensure a journal entry may be posted under the tenant's approval rules
+ * Entries with a pending or rejected submission are blocked; otherwise
+ * entries matching an active rule must have been approved.
+ * @param trx - Transaction already scoped to the tenant schema
+ * @param entry - Journal entry with its lines loaded
+ * @throws ApiError 403 if the entry still needs approval
+ */
+export const assertJournalEntryApproved = async (
+  trx: Knex.Transaction,
+  tenantId: string,
+  entry: JournalEntry
+): Promise<void> => {
+  if (entry.approvalStatus === JournalApprovalStatus.APPROVED) {
+    return
+  }
+
+  const isBlocked =
+    entry.approvalStatus === JournalApprovalStatus.PENDING ||
+    entry.approvalStatus === JournalApprovalStatus.REJECTED ||
+    (await findMatchingApprovalRules(trx, tenantId, entry)).length > 0
+
+  if (isBlocked) {
+    throw new ApiError(
+      HTTP_STATUS.FORBIDDEN,
+      ERROR_MESSAGES.JOURNAL_ENTRY_APPROVAL_REQUIRED
+    )
+  }
+}
@@ -5,6 +5,7 @@ import type {
   CreateJournalEntryInput,
   CreateJournalEntryLineData,
   JournalEntryListResult,
+  PostJournalEntryOptions,
   UpdateJournalEntryInput,
 } from '@/types/journalEntry.type'
 import { ERROR_MESSAGES } from '@constants/errors'
@@ -12,12 +13,17 @@ import { HTTP_STATUS } from '@constants/http'
 import { BalanceChangeType } from '@models/AccountBalanceHistory'
 import { ChartOfAccount } from '@models/ChartOfAccount'
 import {
+  JournalApprovalStatus,
   JournalEntry,
   JournalEntryStatus,
   JournalEntryType,
 } from '@models/JournalEntry'
 import { JournalEntryLine } from '@models/JournalEntryLine'
 import { createBalanceHistory } from '@queries/accountBalanceHistory.queries'
+import { assertContactsExist } from '@queries/contact.queries'
+import { convertLinesToBaseCurrency } from '@queries/exchangeRate.queries'
+import { assertFiscalPeriodsOpen } from '@queries/fiscalYear.queries'
+import { assertJournalEntryApproved } from '@queries/journalApprovalRule.queries'
 import type { JournalEntryListInput } from '@schema/journalEntry.schema'
 import { calculateOffset } from '@schema/shared.schema'
 import { ApiError } from '@utils/ApiError'
@@ -29,6 +35,15 @@ import {
 } from '@utils/date'
 import { withTenantSchema } from '@utils/tenantQuery'
 
+/**
+ * Convert a nullable decimal column value to a number
+ */
+const toNullableNumber = (
+  value: number | string | null | undefined
+): number | null => {
+  return value === null || value === undefined ? null : Number(value)
+}
+
 /**
  * Generate next journal entry number
  * Format: JE-YYYY-XXX (e.g., JE-2024-001)
@@ -225,21 +240,23 @@ export const findJournalEntryById = async (
 
 /**
  * Create journal entry with lines
+ * @param trx - Optional transaction to use (if provided, won't create a new transaction)
  */
 export const createJournalEntry = async (
   tenantId: string,
   schemaName: string,
   createdBy: string,
-  data: CreateJournalEntryInput
+  data: CreateJournalEntryInput,
+  trx?: Knex.Transaction
 ): Promise<JournalEntry> => {
-  return withTenantSchema(schemaName, async (trx) => {
+  const execute = async (transaction: Knex.Transaction) => {
     // Generate entry number if not provided
     let entryNumber = data.entryNumber
     if (!entryNumber) {
-      entryNumber = await generateEntryNumber(tenantId, schemaName, trx)
+      entryNumber = await generateEntryNumber(tenantId, schemaName, transaction)
     } else {
       // Check if entry number already exists
-      const existing = await JournalEntry.query(trx)
+      const existing = await JournalEntry.query(transaction)
         .modify('notDeleted')
         .modify('byTenant', tenantId)
         .where('entry_number', entryNumber)
@@ -254,8 +271,9 @@ export const createJournalEntry = async (
     }
 
     // Validate all accounts exist
+    const accounts = new Map<string, ChartOfAccount>()
     for (const line of data.lines) {
-      const account = await ChartOfAccount.query(trx)
+      const account = await ChartOfAccount.query(transaction)
         .modify('notDeleted')
         .modify('byTenant', tenantId)
         .findById(line.accountId)
@@ -266,18 +284,31 @@ export const createJournalEntry = async (
           ERROR_MESSAGES.CHART_OF_ACCOUNT_NOT_FOUND
         )
       }
+
+      accounts.set(account.id, account)
     }
 
-    // Calculate totals
-    const totalDebit = data.lines.reduce(
-      (sum, line) => sum + Number(line.debit ?? 0),
-      0
+    // Validate all contacts exist and are active
+    await assertContactsExist(
+      transaction,
+      tenantId,
+      data.lines.map((line) => line.contactId)
     )
-    const totalCredit = data.lines.reduce(
-      (sum, line) => sum + Number(line.credit ?? 0),
-      0
+
+    // Convert foreign currency lines at the entry date rate
+    const entryDateObj = parseDateStringToUTC(data.entryDate)
+    const lineData = await convertLinesToBaseCurrency(
+      transaction,
+      tenantId,
+      entryDateObj,
+      data.lines,
+      accounts
     )
 
+    // Calculate totals in the base currency
+    const totalDebit = lineData.reduce((sum, line) => sum + line.debit, 0)
+    const totalCredit = lineData.reduce((sum, line) => sum + line.credit, 0)
+
     // Validate balance
     if (Math.abs(totalDebit - totalCredit) >= 0.01) {
       throw new ApiError(
@@ -287,7 +318,6 @@ export const createJournalEntry = async (
     }
 
     // Create journal entry
-    const entryDateObj = parseDateStringToUTC(data.entryDate)
     const reversalDateObj = data.reversalDate
       ? parseDateStringToUTC(data.reversalDate)
       : null
@@ -320,22 +350,10 @@ export const createJournalEntry = async (
       createdBy,
     }
 
-    const entry = await JournalEntry.query(trx).insert(insertData)
+    const entry = await JournalEntry.query(transaction).insert(insertData)
 
     // Create lines
-    const lineData: CreateJournalEntryLineData[] = data.lines.map(
-      (line, index) => ({
-        accountId: line.accountId,
-        lineNumber: line.lineNumber ?? index + 1,
-        debit: Number(line.debit ?? 0),
-        credit: Number(line.credit ?? 0),
-        description: line.description ?? null,
-        memo: line.memo ?? null,
-        contactId: line.contactId ?? null,
-      })
-    )
-
-    await JournalEntryLine.query(trx).insert(
+    await JournalEntryLine.query(transaction).insert(
       lineData.map((line) => ({
         ...line,
         journalEntryId: entry.id,
@@ -345,7 +363,7 @@ export const createJournalEntry = async (
     )
 
     // Reload with lines
-    const entryWithLines = await JournalEntry.query(trx)
+    const entryWithLines = await JournalEntry.query(transaction)
       .modify('withLines')
       .findById(entry.id)
 
@@ -357,7 +375,15 @@ export const createJournalEntry = async (
     }
 
     return entryWithLines
-  })
+  }
+
+  // If transaction is provided, use it directly
+  if (trx) {
+    return execute(trx)
+  }
+
+  // Otherwise, create a new transaction
+  return withTenantSchema(schemaName, execute)
 }
 
 /**
@@ -380,6 +406,23 @@ export const updateJournalEntry = async (
       )
     }
 
+    // Cannot modify entries while approvers are reviewing them
+    if (entry.isPendingApproval()) {
+      throw new ApiError(
+        HTTP_STATUS.FORBIDDEN,
+        ERROR_MESSAGES.JOURNAL_ENTRY_APPROVAL_PENDING
+      )
+    }
+
+    // Neither the current nor the new entry date may be in a closed period
+    await assertFiscalPeriodsOpen(
+      trx,
+      tenantId,
+      data.entryDate
+        ? [entry.entryDate, parseDateStringToUTC(data.entryDate)]
+        : [entry.entryDate]
+    )
+
     // Check entry number uniqueness if being changed
     if (data.entryNumber && data.entryNumber !== entry.entryNumber) {
       const existing = await JournalEntry.query(trx)
@@ -427,6 +470,16 @@ export const updateJournalEntry = async (
       updateData.sourceModule = data.sourceModule
     if (data.sourceId !== undefined) updateData.sourceId = data.sourceId
 
+    // A previous approval does not cover the changed entry, it has to be resubmitted
+    if (
+      entry.approvalStatus === JournalApprovalStatus.APPROVED ||
+      entry.approvalStatus === JournalApprovalStatus.NOT_REQUIRED
+    ) {
+      updateData.approvalStatus = null
+      updateData.approvedBy = null
+      updateData.approvedAt = null
+    }
+
     const updated = await entry.$query(trx).patchAndFetch(updateData)
 
     // Reload with lines
@@ -440,7 +493,8 @@ export const updateJournalEntry = async (
  * @param schemaName - Tenant schema name
  * @param entryId - Entry ID
  * @param postedBy - User ID who posted the entry
- * @param approvedBy - Optional user ID who approved the entry
+ * @param options - skipApproval bypasses the approval rules for system-generated
+ *   entries (reversals, year-end closing entries)
  * @param trx - Optional transaction to use (if provided, won't create a new transaction)
  */
 export const postJournalEntry = async (
@@ -448,7 +502,7 @@ export const postJournalEntry = async (
   schemaName: string,
   entryId: string,
   postedBy: string,
-  approvedBy?: string,
+  options: PostJournalEntryOptions = {},
   trx?: Knex.Transaction
 ): Promise<JournalEntry> => {
   const execute = async (transaction: Knex.Transaction) => {
@@ -475,6 +529,14 @@ export const postJournalEntry = async (
       )
     }
 
+    // Cannot post into a closed period
+    await assertFiscalPeriodsOpen(transaction, tenantId, [entry.entryDate])
+
+    // Cannot post until the approval rules are satisfied
+    if (!options.skipApproval) {
+      await assertJournalEntryApproved(transaction, tenantId, entry)
+    }
+
     // Validate entry
     entry.validate()
 
@@ -532,25 +594,12 @@ export const postJournalEntry = async (
       }
     }
 
-    // Update entry status
-    const now = getCurrentDate()
-    const updateData: Partial<JournalEntry> = {
+    // Update entry status (approvedBy/approvedAt are set by the approval workflow)
+    const updated = await entry.$query(transaction).patchAndFetch({
       status: JournalEntryStatus.POSTED,
       postedBy,
-      postedAt: formatDateToISOString(now) as unknown as Date,
-    }
-
-    if (approvedBy) {
-      updateData.approvedBy = approvedBy
-      updateData.approvedAt = formatDateToISOString(now) as unknown as Date
-    } else if (entry.approvedBy) {
-      updateData.approvedBy = entry.approvedBy
-      updateData.approvedAt = formatDateToISOString(
-        entry.approvedAt
-      ) as unknown as Date
-    }
-
-    const updated = await entry.$query(transaction).patchAndFetch(updateData)
+      postedAt: formatDateToISOString(getCurrentDate()) as unknown as Date,
+    })
 
     // Reload with lines
     return findJournalEntryById(tenantId, schemaName, updated.id, transaction)
@@ -567,14 +616,21 @@ export const postJournalEntry = async (
 
 /**
  * Void journal entry (only if draft)
+ * @param trx - Optional transaction to use (if provided, won't create a new transaction)
  */
 export const voidJournalEntry = async (
   tenantId: string,
   schemaName: string,
-  entryId: string
+  entryId: string,
+  trx?: Knex.Transaction
 ): Promise<JournalEntry> => {
-  return withTenantSchema(schemaName, async (trx) => {
-    const entry = await findJournalEntryById(tenantId, schemaName, entryId, trx)
+  const execute = async (transaction: Knex.Transaction) => {
+    const entry = await findJournalEntryById(
+      tenantId,
+      schemaName,
+      entryId,
+      transaction
+    )
 
     // Cannot void if already voided
     if (entry.isVoided()) {
@@ -592,14 +648,25 @@ export const voidJournalEntry = async (
       )
     }
 
+    // Cannot void an entry dated in a closed period
+    await assertFiscalPeriodsOpen(transaction, tenantId, [entry.entryDate])
+
     // Update status
-    const updated = await entry.$query(trx).patchAndFetch({
+    const updated = await entry.$query(transaction).patchAndFetch({
       status: JournalEntryStatus.VOIDED,
     })
 
     // Reload with lines
-    return findJournalEntryById(tenantId, schemaName, updated.id, trx)
-  })
+    return findJournalEntryById(tenantId, schemaName, updated.id, transaction)
+  }
+
+  // If transaction is provided, use it directly
+  if (trx) {
+    return execute(trx)
+  }
+
+  // Otherwise, create a new transaction
+  return withTenantSchema(schemaName, execute)
 }
 
 /**
@@ -694,22 +761,26 @@ export const restoreJournalEntry = async (
 
 /**
  * Reverse a posted journal entry
- * Creates a new reversing entry with debits/credits swapped and updates COA balances
+ * Creates a new reversing entry with debits/credits swapped and updates COA balances.
+ * The reversal of a closing entry is itself flagged as closing so reports that
+ * exclude closing entries leave out both.
+ * @param trx - Optional transaction to use (if provided, won't create a new transaction)
  */
 export const reverseJournalEntry = async (
   tenantId: string,
   schemaName: string,
   entryId: string,
   reversalDate: Date,
-  createdBy: string
+  createdBy: string,
+  trx?: Knex.Transaction
 ): Promise<JournalEntry> => {
-  return withTenantSchema(schemaName, async (trx) => {
+  const execute = async (transaction: Knex.Transaction) => {
     // Get the original entry
     const originalEntry = await findJournalEntryById(
       tenantId,
       schemaName,
       entryId,
-      trx
+      transaction
     )
 
     // Cannot reverse if voided (check this first since voided entries are also not posted)
@@ -729,7 +800,7 @@ export const reverseJournalEntry = async (
     }
 
     // Check if already reversed (has a reversing entry)
-    const existingReversal = await JournalEntry.query(trx)
+    const existingReversal = await JournalEntry.query(transaction)
       .modify('notDeleted')
       .modify('byTenant', tenantId)
       .where('source_module', 'journal_entries')
@@ -744,6 +815,9 @@ export const reverseJournalEntry = async (
       )
     }
 
+    // The reversing entry cannot be dated in a closed period
+    await assertFiscalPeriodsOpen(transaction, tenantId, [reversalDate])
+
     // Use originalEntry which already has lines loaded (from findJournalEntryById with withLines modifier)
     // No need to reload - originalEntry was already fetched with proper security filters
     if (!originalEntry.lines || originalEntry.lines.length === 0) {
@@ -757,7 +831,7 @@ export const reverseJournalEntry = async (
     const reversingEntryNumber = await generateEntryNumber(
       tenantId,
       schemaName,
-      trx
+      transaction
     )
 
     // Create reversing entry with swapped debits/credits
@@ -767,6 +841,10 @@ export const reverseJournalEntry = async (
       // Swap debit and credit
       debit: Number(line.credit || 0),
       credit: Number(line.debit || 0),
+      currencyCode: line.currencyCode ?? null,
+      exchangeRate: toNullableNumber(line.exchangeRate),
+      foreignDebit: toNullableNumber(line.foreignCredit),
+      foreignCredit: toNullableNumber(line.foreignDebit),
       description: line.description
         ? `Reversal: ${line.description}`
         : `Reversal of entry ${originalEntry.entryNumber ?? entryId}`,
@@ -790,7 +868,7 @@ export const reverseJournalEntry = async (
       entryDate: reversalDate,
       entryType: JournalEntryType.REVERSING,
       isAdjusting: false,
-      isClosing: false,
+      isClosing: originalEntry.isClosing,
       isReversing: true,
       reversalDate: reversalDate,
       description: `Reversal of journal entry ${originalEntry.entryNumber ?? entryId}`,
@@ -812,10 +890,11 @@ export const reverseJournalEntry = async (
       createdBy,
     }
 
-    const reversingEntry = await JournalEntry.query(trx).insert(insertData)
+    const reversingEntry =
+      await JournalEntry.query(transaction).insert(insertData)
 
     // Create reversing lines
-    await JournalEntryLine.query(trx).insert(
+    await JournalEntryLine.query(transaction).insert(
       reversingLines.map((line) => ({
         ...line,
         journalEntryId: reversingEntry.id,
@@ -830,19 +909,32 @@ export const reverseJournalEntry = async (
       schemaName,
       reversingEntry.id,
       createdBy,
-      undefined,
-      trx
+      { skipApproval: true },
+      transaction
     )
 
     // Mark original entry as reversed (set reversalDate to indicate it has been reversed)
     // Note: isReversing should remain false on the original entry - it only applies to the reversing entry itself
-    await originalEntry.$query(trx).patchAndFetch({
+    await originalEntry.$query(transaction).patchAndFetch({
       reversalDate: formatDateToISOString(reversalDate) as unknown as Date,
     })
 
     // Reload reversing entry with lines
-    return findJournalEntryById(tenantId, schemaName, postedReversal.id, trx)
-  })
+    return findJournalEntryById(
+      tenantId,
+      schemaName,
+      postedReversal.id,
+      transaction
+    )
+  }
+
+  // If transaction is provided, use it directly
+  if (trx) {
+    return execute(trx)
+  }
+
+  // Otherwise, create a new transaction
+  return withTenantSchema(schemaName, execute)
 }
 
 /**
@@ -941,6 +1033,10 @@ export const duplicateJournalEntry = async (
         lineNumber: line.lineNumber,
         debit: Number(line.debit ?? 0),
         credit: Number(line.credit ?? 0),
+        currencyCode: line.currencyCode ?? null,
+        exchangeRate: toNullableNumber(line.exchangeRate),
+        foreignDebit: toNullableNumber(line.foreignDebit),
+        foreignCredit: toNullableNumber(line.foreignCredit),
         description: line.description ?? null,
         memo: line.memo ?? null,
         contactId: line.contactId ?? null,
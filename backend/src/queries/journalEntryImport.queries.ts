@@ -0,0 +1,222 @@
+/**
+ * Journal Entry Import Queries
+ * Creates journal entries from a CSV or Excel file
+ */
+
+import type {
+  CreateJournalEntryLineInput,
+  ImportJournalEntriesData,
+  JournalEntryImportEntry,
+  JournalEntryImportError,
+  JournalEntryImportResult,
+} from '@/types/journalEntry.type'
+import { ERROR_MESSAGES } from '@constants/errors'
+import { HTTP_STATUS } from '@constants/http'
+import { IMPORT_FILE } from '@constants/import'
+import type { ChartOfAccount } from '@models/ChartOfAccount'
+import { JournalEntryStatus } from '@models/JournalEntry'
+import { findChartOfAccountByNumber } from '@queries/chartOfAccount.queries'
+import {
+  createJournalEntry,
+  postJournalEntry,
+} from '@queries/journalEntry.queries'
+import { ApiError } from '@utils/ApiError'
+import { parseJournalEntryFile } from '@utils/journalEntryImport'
+import { readSpreadsheetRows } from '@utils/spreadsheetParser'
+import { withTenantSchema } from '@utils/tenantQuery'
+
+/**
+ * Thrown to roll back the import transaction while keeping its result
+ * Used for dry runs and for imports that are not committed
+ */
+class JournalEntryImportRollback extends Error {
+  constructor(readonly result: JournalEntryImportResult) {
+    super('Journal entries import rolled back')
+  }
+}
+
+/**
+ * Import a journal entries file
+ *
+ * Entries are created in date order, each in a savepoint, and posted when
+ * the import status is posted, so that every entry goes through the same
+ * checks as one created and posted by hand (entry number, closed periods,
+ * approval rules). Account numbers are resolved to the tenant's accounts.
+ *
+ * All-or-nothing imports are only committed when no row has errors; other
+ * imports commit the entries without errors. Dry runs are never committed.
+ * @param tenantId - Tenant ID
+ * @param schemaName - Tenant schema name
+ * @param createdBy - User ID importing the file
+ * @param data - File, column mapping and import options
+ * @returns Entries created (or that would be created) and the row errors
+ * @throws ApiError if the file cannot be read, is empty or has too many rows
+ */
+export const importJournalEntries = async (
+  tenantId: string,
+  schemaName: string,
+  createdBy: string,
+  data: ImportJournalEntriesData
+): Promise<JournalEntryImportResult> => {
+  const file = parseJournalEntryFile(
+    readSpreadsheetRows(data.buffer, data.fileName),
+    {
+      ...(data.mapping ? { mapping: data.mapping } : {}),
+      dateFormat: data.dateFormat,
+    }
+  )
+
+  if (file.totalRows === 0) {
+    throw new ApiError(
+      HTTP_STATUS.BAD_REQUEST,
+      ERROR_MESSAGES.IMPORT_FILE_EMPTY
+    )
+  }
+
+  if (file.totalRows > IMPORT_FILE.MAX_ROWS) {
+    throw new ApiError(
+      HTTP_STATUS.BAD_REQUEST,
+      ERROR_MESSAGES.IMPORT_FILE_TOO_MANY_ROWS
+    )
+  }
+
+  try {
+    return await withTenantSchema(schemaName, async (trx) => {
+      const errors: JournalEntryImportError[] = [...file.errors]
+      const entries: JournalEntryImportEntry[] = []
+      const accountsByNumber = new Map<string, ChartOfAccount | null>()
+
+      // Older entries first, so balances build up in date order; sort is
+      // stable, so file order is kept within a date
+      const fileEntries = [...file.entries].sort((a, b) =>
+        a.entryDate.localeCompare(b.entryDate)
+      )
+
+      for (const fileEntry of fileEntries) {
+        const name = fileEntry.entryNumber
+          ? `Entry "${fileEntry.entryNumber}"`
+          : `Entry dated ${fileEntry.entryDate}`
+        const [firstRow = 0] = fileEntry.rows
+
+        let hasUnknownAccount = false
+        const lines: CreateJournalEntryLineInput[] = []
+        for (const [index, line] of fileEntry.lines.entries()) {
+          if (!accountsByNumber.has(line.accountNumber)) {
+            accountsByNumber.set(
+              line.accountNumber,
+              await findChartOfAccountByNumber(
+                tenantId,
+                schemaName,
+                line.accountNumber,
+                trx
+              )
+            )
+          }
+          const account = accountsByNumber.get(line.accountNumber)
+          if (!account) {
+            errors.push({
+              row: line.row,
+              message: `Account number "${line.accountNumber}" not found`,
+            })
+            hasUnknownAccount = true
+            continue
+          }
+          lines.push({
+            accountId: account.id,
+            lineNumber: index + 1,
+            debit: line.debit,
+            credit: line.credit,
+            ...(line.description ? { description: line.description } : {}),
+          })
+        }
+        if (hasUnknownAccount) {
+          continue
+        }
+
+        try {
+          // A savepoint keeps the transaction usable when the entry fails
+          const entry = await trx.transaction(async (savepoint) => {
+            const created = await createJournalEntry(
+              tenantId,
+              schemaName,
+              createdBy,
+              {
+                ...(fileEntry.entryNumber
+                  ? { entryNumber: fileEntry.entryNumber }
+                  : {}),
+                entryDate: fileEntry.entryDate,
+                ...(fileEntry.reference
+                  ? { reference: fileEntry.reference }
+                  : {}),
+                ...(fileEntry.memo ? { memo: fileEntry.memo } : {}),
+                lines,
+              },
+              savepoint
+            )
+
+            return data.status === JournalEntryStatus.POSTED
+              ? postJournalEntry(
+                  tenantId,
+                  schemaName,
+                  created.id,
+                  createdBy,
+                  {},
+                  savepoint
+                )
+              : created
+          })
+
+          entries.push({
+            rows: fileEntry.rows,
+            id: entry.id,
+            entryNumber: entry.entryNumber ?? null,
+            entryDate: fileEntry.entryDate,
+            status: entry.status,
+            totalDebit: Number(entry.totalDebit),
+            totalCredit: Number(entry.totalCredit),
+            lineCount: lines.length,
+          })
+        } catch (error) {
+          if (!(error instanceof ApiError)) {
+            throw error
+          }
+          errors.push({ row: firstRow, message: `${name}: ${error.message}` })
+        }
+      }
+
+      errors.sort((a, b) => a.row - b.row)
+      entries.sort((a, b) => (a.rows[0] ?? 0) - (b.rows[0] ?? 0))
+
+      const imported =
+        !data.dryRun &&
+        entries.length > 0 &&
+        (!data.allOrNothing || errors.length === 0)
+      const result: JournalEntryImportResult = {
+        dryRun: data.dryRun,
+        allOrNothing: data.allOrNothing,
+        imported,
+        totalRows: file.totalRows,
+        totalEntries: file.totalEntries,
+        validEntries: entries.length,
+        errors,
+        entries,
+      }
+
+      if (!imported) {
+        // Entries created by the import are rolled back, so their IDs do
+        // not exist and generated entry numbers may be given out again
+        throw new JournalEntryImportRollback({
+          ...result,
+          entries: entries.map((entry) => ({ ...entry, id: null })),
+        })
+      }
+
+      return result
+    })
+  } catch (error) {
+    if (error instanceof JournalEntryImportRollback) {
+      return error.result
+    }
+    throw error
+  }
+}
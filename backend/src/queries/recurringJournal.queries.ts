@@ -0,0 +1,684 @@
+import type { Knex } from 'knex'
+
+import type {
+  CreateRecurringTemplateData,
+  MakeRecurringData,
+  DuplicateAsRecurringResult,
+  RecurringOccurrenceResult,
+  RecurringSchedule,
+  RecurringTemplateEntriesResult,
+  RecurringTemplateFilters,
+  RecurringTemplateLineData,
+  RecurringTemplateListResult,
+  UpdateRecurringTemplateData,
+} from '@/types/recurringJournal.type'
+import { ERROR_MESSAGES } from '@constants/errors'
+import { HTTP_STATUS } from '@constants/http'
+import { ChartOfAccount } from '@models/ChartOfAccount'
+import { JournalEntry, JournalEntryType } from '@models/JournalEntry'
+import {
+  RECURRING_TEMPLATE_SOURCE_MODULE,
+  RecurringFrequency,
+  RecurringJournalTemplate,
+  RecurringTemplateStatus,
+} from '@models/RecurringJournalTemplate'
+import { RecurringJournalTemplateLine } from '@models/RecurringJournalTemplateLine'
+import { assertContactsExist } from '@queries/contact.queries'
+import { postOrSubmitJournalEntry } from '@queries/journalApproval.queries'
+import {
+  createJournalEntry,
+  duplicateJournalEntry,
+  findJournalEntryById,
+} from '@queries/journalEntry.queries'
+import { calculateOffset } from '@schema/shared.schema'
+import { ApiError } from '@utils/ApiError'
+import {
+  addUTCDays,
+  addUTCMonths,
+  getCurrentDate,
+  parseDateStringToUTC,
+  toDateColumn,
+} from '@utils/date'
+import { withTenantSchema } from '@utils/tenantQuery'
+
+/**
+ * Get the date of the nth occurrence (0-based) of a schedule
+ * Always calculated from the start date so month-end dates don't drift
+ */
+const getOccurrenceDate = (
+  schedule: RecurringSchedule,
+  index: number
+): Date => {
+  const steps = schedule.interval * index
+
+  switch (schedule.frequency) {
+    case RecurringFrequency.DAILY:
+      return addUTCDays(schedule.startDate, steps)
+    case RecurringFrequency.WEEKLY:
+      return addUTCDays(schedule.startDate, steps * 7)
+    case RecurringFrequency.YEARLY:
+      return addUTCMonths(schedule.startDate, steps * 12)
+    default:
+      return addUTCMonths(schedule.startDate, steps)
+  }
+}
+
+/**
+ * Get the next occurrence after the given number of generated entries
+ * Returns null when the schedule has reached its end date or occurrence count
+ */
+const getNextRunDate = (
+  schedule: RecurringSchedule,
+  occurrencesCount: number
+): Date | null => {
+  if (schedule.maxOccurrences && occurrencesCount >= schedule.maxOccurrences) {
+    return null
+  }
+
+  const nextRunDate = getOccurrenceDate(schedule, occurrencesCount)
+  if (schedule.endDate && nextRunDate > schedule.endDate) {
+    return null
+  }
+
+  return nextRunDate
+}
+
+/**
+ * Validate that all accounts referenced by the lines exist
+ */
+const assertAccountsExist = async (
+  transaction: Knex.Transaction,
+  tenantId: string,
+  lines: RecurringTemplateLineData[]
+): Promise<void> => {
+  const accountIds = [...new Set(lines.map((line) => line.accountId))]
+  const accounts = await ChartOfAccount.query(transaction)
+    .modify('notDeleted')
+    .modify('byTenant', tenantId)
+    .whereIn('id', accountIds)
+    .select('id')
+
+  if (accounts.length !== accountIds.length) {
+    throw new ApiError(
+      HTTP_STATUS.NOT_FOUND,
+      ERROR_MESSAGES.CHART_OF_ACCOUNT_NOT_FOUND
+    )
+  }
+}
+
+/**
+ * Insert template lines and return the template totals
+ */
+const insertTemplateLines = async (
+  transaction: Knex.Transaction,
+  tenantId: string,
+  templateId: string,
+  createdBy: string,
+  lines: RecurringTemplateLineData[]
+): Promise<{ totalDebit: number; totalCredit: number }> => {
+  await RecurringJournalTemplateLine.query(transaction).insert(
+    lines.map((line, index) => ({
+      tenantId,
+      templateId,
+      createdBy,
+      accountId: line.accountId,
+      lineNumber: line.lineNumber || index + 1,
+      debit: Number(line.debit),
+      credit: Number(line.credit),
+      description: line.description ?? null,
+      memo: line.memo ?? null,
+      contactId: line.contactId ?? null,
+    }))
+  )
+
+  return {
+    totalDebit: lines.reduce((sum, line) => sum + Number(line.debit), 0),
+    totalCredit: lines.reduce((sum, line) => sum + Number(line.credit), 0),
+  }
+}
+
+/**
+ * Find recurring templates with pagination
+ */
+export const findRecurringTemplates = async (
+  tenantId: string,
+  schemaName: string,
+  filters: RecurringTemplateFilters
+): Promise<RecurringTemplateListResult> => {
+  const { status, search, page, limit } = filters
+
+  return withTenantSchema(schemaName, async (trx) => {
+    const query = RecurringJournalTemplate.query(trx)
+      .modify('notDeleted')
+      .modify('byTenant', tenantId)
+
+    if (status) {
+      query.modify('byStatus', status)
+    }
+
+    if (search) {
+      query.where((builder) => {
+        builder
+          .where('name', 'ilike', `%${search}%`)
+          .orWhere('description', 'ilike', `%${search}%`)
+          .orWhere('reference', 'ilike', `%${search}%`)
+      })
+    }
+
+    const total = await query.resultSize()
+    const templates = await query
+      .orderBy('name', 'asc')
+      .limit(limit)
+      .offset(calculateOffset(page, limit))
+
+    return { templates, total }
+  })
+}
+
+/**
+ * Find recurring template by ID with lines
+ * @param trx - Optional transaction to use (if provided, won't create a new transaction)
+ */
+export const findRecurringTemplateById = async (
+  tenantId: string,
+  schemaName: string,
+  templateId: string,
+  trx?: Knex.Transaction
+): Promise<RecurringJournalTemplate> => {
+  const execute = async (transaction: Knex.Transaction) => {
+    const template = await RecurringJournalTemplate.query(transaction)
+      .modify('notDeleted')
+      .modify('byTenant', tenantId)
+      .modify('withLines')
+      .findById(templateId)
+
+    if (!template) {
+      throw new ApiError(
+        HTTP_STATUS.NOT_FOUND,
+        ERROR_MESSAGES.RECURRING_TEMPLATE_NOT_FOUND
+      )
+    }
+
+    return template
+  }
+
+  if (trx) {
+    return execute(trx)
+  }
+
+  return withTenantSchema(schemaName, execute)
+}
+
+/**
+ * Create recurring template with lines
+ * The first occurrence falls on the start date
+ * @param trx - Optional transaction to use (if provided, won't create a new transaction)
+ */
+export const createRecurringTemplate = async (
+  tenantId: string,
+  schemaName: string,
+  createdBy: string,
+  data: CreateRecurringTemplateData,
+  trx?: Knex.Transaction
+): Promise<RecurringJournalTemplate> => {
+  const execute = async (transaction: Knex.Transaction) => {
+    await assertAccountsExist(transaction, tenantId, data.lines)
+    await assertContactsExist(
+      transaction,
+      tenantId,
+      data.lines.map((line) => line.contactId)
+    )
+
+    const schedule: RecurringSchedule = {
+      frequency: data.frequency,
+      interval: data.interval,
+      startDate: parseDateStringToUTC(data.startDate),
+      endDate: data.endDate ? parseDateStringToUTC(data.endDate) : null,
+      maxOccurrences: data.maxOccurrences ?? null,
+    }
+    const nextRunDate = getNextRunDate(schedule, 0)
+
+    const template = await RecurringJournalTemplate.query(transaction).insert({
+      tenantId,
+      createdBy,
+      name: data.name,
+      entryType: data.entryType,
+      isAdjusting: data.isAdjusting,
+      description: data.description ?? null,
+      reference: data.reference ?? null,
+      memo: data.memo ?? null,
+      frequency: schedule.frequency,
+      interval: schedule.interval,
+      startDate: toDateColumn(schedule.startDate),
+      endDate: toDateColumn(schedule.endDate ?? null),
+      maxOccurrences: schedule.maxOccurrences ?? null,
+      occurrencesCount: 0,
+      nextRunDate: toDateColumn(nextRunDate),
+      autoPost: data.autoPost,
+      status: nextRunDate
+        ? RecurringTemplateStatus.ACTIVE
+        : RecurringTemplateStatus.COMPLETED,
+    })
+
+    const totals = await insertTemplateLines(
+      transaction,
+      tenantId,
+      template.id,
+      createdBy,
+      data.lines
+    )
+    await template.$query(transaction).patch(totals)
+
+    return findRecurringTemplateById(
+      tenantId,
+      schemaName,
+      template.id,
+      transaction
+    )
+  }
+
+  if (trx) {
+    return execute(trx)
+  }
+
+  return withTenantSchema(schemaName, execute)
+}
+
+/**
+ * Create a recurring template from the lines of an existing journal entry
+ * Used by the duplicate journal entry "make recurring" option
+ * @param trx - Optional transaction to use (if provided, won't create a new transaction)
+ */
+export const createRecurringTemplateFromEntry = async (
+  tenantId: string,
+  schemaName: string,
+  entryId: string,
+  createdBy: string,
+  schedule: MakeRecurringData,
+  trx?: Knex.Transaction
+): Promise<RecurringJournalTemplate> => {
+  const execute = async (transaction: Knex.Transaction) => {
+    const entry = await findJournalEntryById(
+      tenantId,
+      schemaName,
+      entryId,
+      transaction
+    )
+
+    if (!entry.lines || entry.lines.length < 2) {
+      throw new ApiError(
+        HTTP_STATUS.BAD_REQUEST,
+        ERROR_MESSAGES.JOURNAL_ENTRY_INSUFFICIENT_LINES
+      )
+    }
+
+    return createRecurringTemplate(
+      tenantId,
+      schemaName,
+      createdBy,
+      {
+        ...schedule,
+        name:
+          schedule.name ??
+          entry.description ??
+          `Recurring ${entry.entryNumber}`,
+        entryType:
+          entry.entryType === JournalEntryType.ADJUSTING
+            ? JournalEntryType.ADJUSTING
+            : JournalEntryType.STANDARD,
+        isAdjusting: entry.isAdjusting,
+        description: entry.description ?? null,
+        reference: entry.reference ?? null,
+        memo: entry.memo ?? null,
+        lines: entry.lines.map((line) => ({
+          accountId: line.accountId,
+          lineNumber: line.lineNumber,
+          debit: Number(line.debit ?? 0),
+          credit: Number(line.credit ?? 0),
+          description: line.description ?? null,
+          memo: line.memo ?? null,
+          contactId: line.contactId ?? null,
+        })),
+      },
+      transaction
+    )
+  }
+
+  if (trx) {
+    return execute(trx)
+  }
+
+  return withTenantSchema(schemaName, execute)
+}
+
+/**
+ * Duplicate a journal entry and save the original as a recurring template
+ * Both are created in one transaction so neither exists without the other
+ */
+export const duplicateJournalEntryAsRecurring = async (
+  tenantId: string,
+  schemaName: string,
+  entryId: string,
+  createdBy: string,
+  duplicateData: { entryDate?: string | Date; entryNumber?: string },
+  schedule: MakeRecurringData
+): Promise<DuplicateAsRecurringResult> => {
+  return withTenantSchema(schemaName, async (trx) => {
+    const entry = await duplicateJournalEntry(
+      tenantId,
+      schemaName,
+      entryId,
+      createdBy,
+      duplicateData,
+      trx
+    )
+
+    const template = await createRecurringTemplateFromEntry(
+      tenantId,
+      schemaName,
+      entryId,
+      createdBy,
+      schedule,
+      trx
+    )
+
+    return { entry, template }
+  })
+}
+
+/**
+ * Update recurring template
+ * Replacing the lines soft-deletes the old ones. The next occurrence is
+ * recalculated from the (updated) schedule and the number of entries
+ * generated so far.
+ */
+export const updateRecurringTemplate = async (
+  tenantId: string,
+  schemaName: string,
+  templateId: string,
+  updatedBy: string,
+  data: UpdateRecurringTemplateData
+): Promise<RecurringJournalTemplate> => {
+  return withTenantSchema(schemaName, async (trx) => {
+    const template = await findRecurringTemplateById(
+      tenantId,
+      schemaName,
+      templateId,
+      trx
+    )
+
+    let totals: { totalDebit: number; totalCredit: number } | undefined
+    if (data.lines) {
+      await assertAccountsExist(trx, tenantId, data.lines)
+      await assertContactsExist(
+        trx,
+        tenantId,
+        data.lines.map((line) => line.contactId)
+      )
+
+      await RecurringJournalTemplateLine.query(trx)
+        .modify('notDeleted')
+        .modify('byTemplate', templateId)
+        .patch({
+          deletedAt: toDateColumn(getCurrentDate()),
+        })
+
+      totals = await insertTemplateLines(
+        trx,
+        tenantId,
+        templateId,
+        updatedBy,
+        data.lines
+      )
+    }
+
+    const schedule: RecurringSchedule = {
+      frequency: data.frequency ?? template.frequency,
+      interval: data.interval ?? template.interval,
+      startDate: data.startDate
+        ? parseDateStringToUTC(data.startDate)
+        : template.startDate,
+      endDate:
+        data.endDate !== undefined
+          ? data.endDate
+            ? parseDateStringToUTC(data.endDate)
+            : null
+          : (template.endDate ?? null),
+      maxOccurrences:
+        data.maxOccurrences !== undefined
+          ? data.maxOccurrences
+          : (template.maxOccurrences ?? null),
+    }
+    const nextRunDate = getNextRunDate(schedule, template.occurrencesCount)
+
+    let status: RecurringTemplateStatus
+    if (!nextRunDate) {
+      if (data.status === RecurringTemplateStatus.ACTIVE) {
+        throw new ApiError(
+          HTTP_STATUS.BAD_REQUEST,
+          ERROR_MESSAGES.RECURRING_TEMPLATE_COMPLETED
+        )
+      }
+      status = RecurringTemplateStatus.COMPLETED
+    } else if (data.status) {
+      status = data.status
+    } else {
+      // Extending a completed schedule reactivates it
+      status = template.isCompleted()
+        ? RecurringTemplateStatus.ACTIVE
+        : template.status
+    }
+
+    await template.$query(trx).patch({
+      ...(data.name !== undefined && { name: data.name }),
+      ...(data.entryType !== undefined && { entryType: data.entryType }),
+      ...(data.isAdjusting !== undefined && { isAdjusting: data.isAdjusting }),
+      ...(data.description !== undefined && { description: data.description }),
+      ...(data.reference !== undefined && { reference: data.reference }),
+      ...(data.memo !== undefined && { memo: data.memo }),
+      ...(data.autoPost !== undefined && { autoPost: data.autoPost }),
+      ...totals,
+      frequency: schedule.frequency,
+      interval: schedule.interval,
+      startDate: toDateColumn(schedule.startDate),
+      endDate: toDateColumn(schedule.endDate ?? null),
+      maxOccurrences: schedule.maxOccurrences ?? null,
+      nextRunDate: toDateColumn(nextRunDate),
+      status,
+      // Resuming a template clears the error that paused it
+      ...(status === RecurringTemplateStatus.ACTIVE && { lastError: null }),
+    })
+
+    return findRecurringTemplateById(tenantId, schemaName, templateId, trx)
+  })
+}
+
+/**
+ * Delete recurring template (soft delete)
+ * Entries generated from the template are kept
+ */
+export const deleteRecurringTemplate = async (
+  tenantId: string,
+  schemaName: string,
+  templateId: string
+): Promise<void> => {
+  return withTenantSchema(schemaName, async (trx) => {
+    await findRecurringTemplateById(tenantId, schemaName, templateId, trx)
+
+    // Soft delete using direct Knex update
+    await trx('recurring_journal_templates')
+      .where('id', templateId)
+      .where('tenant_id', tenantId)
+      .update({
+        deleted_at: getCurrentDate(),
+        updated_at: getCurrentDate(),
+      })
+  })
+}
+
+/**
+ * Find the journal entries generated from a template, newest first
+ */
+export const findRecurringTemplateEntries = async (
+  tenantId: string,
+  schemaName: string,
+  templateId: string,
+  pagination: { page: number; limit: number }
+): Promise<RecurringTemplateEntriesResult> => {
+  const { page, limit } = pagination
+
+  return withTenantSchema(schemaName, async (trx) => {
+    await findRecurringTemplateById(tenantId, schemaName, templateId, trx)
+
+    const query = JournalEntry.query(trx)
+      .modify('notDeleted')
+      .modify('byTenant', tenantId)
+      .where('source_module', RECURRING_TEMPLATE_SOURCE_MODULE)
+      .where('source_id', templateId)
+
+    const total = await query.resultSize()
+    const entries = await query
+      .orderBy('entry_date', 'desc')
+      .orderBy('entry_number', 'desc')
+      .limit(limit)
+      .offset(calculateOffset(page, limit))
+
+    return { entries, total }
+  })
+}
+
+/**
+ * Find IDs of active templates with an occurrence on or before today
+ */
+export const findDueRecurringTemplateIds = async (
+  tenantId: string,
+  schemaName: string
+): Promise<string[]> => {
+  return withTenantSchema(schemaName, async (trx) => {
+    const templates = await RecurringJournalTemplate.query(trx)
+      .modify('notDeleted')
+      .modify('byTenant', tenantId)
+      .modify('dueBy', getCurrentDate())
+      .select('id')
+      .orderBy('next_run_date', 'asc')
+
+    return templates.map((template) => template.id)
+  })
+}
+
+/**
+ * Generate the next due occurrence of a template
+ * The entry is created (and posted when the template auto-posts, or submitted
+ * for approval when an approval rule matches it) as the template creator,
+ * dated on the occurrence date, and the schedule is advanced in the same
+ * transaction. Returns null when the template has no occurrence due, e.g. it
+ * was paused or deleted after the job was queued.
+ */
+export const generateRecurringOccurrence = async (
+  tenantId: string,
+  schemaName: string,
+  templateId: string
+): Promise<RecurringOccurrenceResult | null> => {
+  return withTenantSchema(schemaName, async (trx) => {
+    const template = await RecurringJournalTemplate.query(trx)
+      .modify('notDeleted')
+      .modify('byTenant', tenantId)
+      .modify('dueBy', getCurrentDate())
+      .findById(templateId)
+      .forUpdate()
+
+    if (!template?.nextRunDate) {
+      return null
+    }
+
+    const lines = await RecurringJournalTemplateLine.query(trx)
+      .modify('notDeleted')
+      .modify('byTemplate', templateId)
+      .orderBy('line_number', 'asc')
+
+    const occurrenceDate = template.nextRunDate
+    const created = await createJournalEntry(
+      tenantId,
+      schemaName,
+      template.createdBy,
+      {
+        entryDate: occurrenceDate,
+        entryType: template.entryType,
+        isAdjusting: template.isAdjusting,
+        description: template.description ?? template.name,
+        ...(template.reference && { reference: template.reference }),
+        ...(template.memo && { memo: template.memo }),
+        sourceModule: RECURRING_TEMPLATE_SOURCE_MODULE,
+        sourceId: template.id,
+        lines: lines.map((line) => ({
+          accountId: line.accountId,
+          lineNumber: line.lineNumber,
+          debit: Number(line.debit),
+          credit: Number(line.credit),
+          ...(line.description && { description: line.description }),
+          ...(line.memo && { memo: line.memo }),
+          ...(line.contactId && { contactId: line.contactId }),
+        })),
+      },
+      trx
+    )
+
+    // Auto-posted entries that need approval are submitted instead
+    const entry = template.autoPost
+      ? await postOrSubmitJournalEntry(
+          tenantId,
+          schemaName,
+          created,
+          template.createdBy,
+          trx
+        )
+      : created
+
+    const occurrencesCount = template.occurrencesCount + 1
+    const nextRunDate = getNextRunDate(
+      {
+        frequency: template.frequency,
+        interval: template.interval,
+        startDate: template.startDate,
+        endDate: template.endDate ?? null,
+        maxOccurrences: template.maxOccurrences ?? null,
+      },
+      occurrencesCount
+    )
+
+    const updated = await template.$query(trx).patchAndFetch({
+      occurrencesCount,
+      lastRunDate: toDateColumn(occurrenceDate),
+      nextRunDate: toDateColumn(nextRunDate),
+      status: nextRunDate
+        ? RecurringTemplateStatus.ACTIVE
+        : RecurringTemplateStatus.COMPLETED,
+      lastError: null,
+    })
+
+    return { template: updated, entry }
+  })
+}
+
+/**
+ * Record a failed generation attempt
+ * @param isFinalAttempt - Whether the worker has no retries left, which
+ *   pauses the template
+ */
+export const recordRecurringFailure = async (
+  tenantId: string,
+  schemaName: string,
+  templateId: string,
+  errorMessage: string,
+  isFinalAttempt: boolean
+): Promise<void> => {
+  return withTenantSchema(schemaName, async (trx) => {
+    await RecurringJournalTemplate.query(trx)
+      .modify('byTenant', tenantId)
+      .where('id', templateId)
+      .patch({
+        lastError: errorMessage,
+        ...(isFinalAttempt && { status: RecurringTemplateStatus.PAUSED }),
+      })
+  })
+}
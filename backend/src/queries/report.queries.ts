@@ -0,0 +1,1287 @@
+import type { Knex } from 'knex'
+
+import type {
+  AccountLineTotals,
+  BalanceSheetFilters,
+  BalanceSheetReport,
+  CashAccountBalance,
+  CashFlowActivity,
+  CashFlowFilters,
+  CashFlowLine,
+  CashFlowReport,
+  CashFlowSection,
+  GeneralLedgerAccountFilters,
+  GeneralLedgerAccountResult,
+  GeneralLedgerAccountSummary,
+  GeneralLedgerFilters,
+  GeneralLedgerMovement,
+  GeneralLedgerReport,
+  IncomeStatementAccountRow,
+  IncomeStatementAmount,
+  IncomeStatementFilters,
+  IncomeStatementReport,
+  IncomeStatementSection,
+  IncomeStatementSectionKey,
+  PostedLineTotalsOptions,
+  ReportPeriod,
+  ReportAccountNode,
+  ReportSection,
+  ReportSubtypeSection,
+  TrialBalanceAccountRow,
+  TrialBalanceFilters,
+  TrialBalanceGroup,
+  TrialBalanceReport,
+  TrialBalanceSubtypeGroup,
+} from '@/types/report.type'
+import { ERROR_MESSAGES } from '@constants/errors'
+import { HTTP_STATUS } from '@constants/http'
+import {
+  AccountType,
+  AssetSubtype,
+  ChartOfAccount,
+  ExpenseSubtype,
+  LiabilitySubtype,
+  RevenueSubtype,
+} from '@models/ChartOfAccount'
+import { FiscalYear } from '@models/FiscalYear'
+import { JournalEntryStatus } from '@models/JournalEntry'
+import { ApiError } from '@utils/ApiError'
+import {
+  formatDateToString,
+  getCurrentDate,
+  getPrecedingDateRange,
+  getUTCYearStart,
+  parseDateStringToUTC,
+  parseDateStringToUTCEndOfDay,
+  subtractUTCYears,
+} from '@utils/date'
+import { withTenantSchema } from '@utils/tenantQuery'
+
+/**
+ * Order in which account types appear in reports
+ */
+export const REPORT_ACCOUNT_TYPE_ORDER: AccountType[] = [
+  AccountType.ASSET,
+  AccountType.LIABILITY,
+  AccountType.EQUITY,
+  AccountType.REVENUE,
+  AccountType.EXPENSE,
+]
+
+/**
+ * Tolerance used when comparing report totals
+ */
+const BALANCE_TOLERANCE = 0.01
+
+/**
+ * Round a report amount to 2 decimal places
+ */
+export const roundAmount = (value: number): number => {
+  return Math.round((value + Number.EPSILON) * 100) / 100
+}
+
+/**
+ * Check if two report amounts are equal within tolerance
+ */
+export const amountsMatch = (left: number, right: number): boolean => {
+  return Math.abs(left - right) < BALANCE_TOLERANCE
+}
+
+/**
+ * Check if an account type carries a debit normal balance
+ */
+export const isDebitNormal = (accountType: AccountType): boolean => {
+  return (
+    accountType === AccountType.ASSET || accountType === AccountType.EXPENSE
+  )
+}
+
+/**
+ * Get the balance of an account in its natural direction
+ * Positive for debit-normal accounts with net debits and credit-normal accounts with net credits
+ */
+export const getNaturalBalance = (
+  accountType: AccountType,
+  debit: number,
+  credit: number
+): number => {
+  return isDebitNormal(accountType) ? debit - credit : credit - debit
+}
+
+/**
+ * Resolve an optional YYYY-MM-DD report date to the end of that day (UTC)
+ * Defaults to the end of today
+ */
+export const resolveReportDate = (date?: string): Date => {
+  return parseDateStringToUTCEndOfDay(date ?? getCurrentDate())
+}
+
+/**
+ * Build a query over posted journal entry lines joined to their entry
+ * @param trx - Transaction with tenant search path set
+ * @param tenantId - Tenant ID
+ * @param options - Date range (start date inclusive, end date inclusive) and
+ * whether year-end closing entries are included (default true)
+ */
+export const postedLinesQuery = (
+  trx: Knex.Transaction,
+  tenantId: string,
+  options: PostedLineTotalsOptions
+): Knex.QueryBuilder => {
+  const query = trx('journal_entry_lines as jel')
+    .join('journal_entries as je', 'je.id', 'jel.journal_entry_id')
+    .where('jel.tenant_id', tenantId)
+    .whereNull('jel.deleted_at')
+    .whereNull('je.deleted_at')
+    .where('je.status', JournalEntryStatus.POSTED)
+    .where('je.entry_date', '<=', options.endDate)
+
+  if (options.startDate) {
+    query.where('je.entry_date', '>=', options.startDate)
+  }
+
+  if (options.includeClosingEntries === false) {
+    query.where('je.is_closing', false)
+  }
+
+  return query
+}
+
+/**
+ * Sum debits and credits of posted journal entry lines per account
+ * @param trx - Transaction with tenant search path set
+ * @param tenantId - Tenant ID
+ * @param options - Date range and closing entry filter
+ * @returns Map of account ID to line totals
+ */
+export const sumPostedLinesByAccount = async (
+  trx: Knex.Transaction,
+  tenantId: string,
+  options: PostedLineTotalsOptions
+): Promise<Map<string, AccountLineTotals>> => {
+  const query = postedLinesQuery(trx, tenantId, options)
+    .groupBy('jel.account_id')
+    .select('jel.account_id')
+    .sum({ debit: 'jel.debit', credit: 'jel.credit' })
+    .count({ line_count: 'jel.id' })
+
+  const rows = (await query) as Array<{
+    account_id: string
+    debit: string | number | null
+    credit: string | number | null
+    line_count: string | number
+  }>
+
+  const totals = new Map<string, AccountLineTotals>()
+  for (const row of rows) {
+    totals.set(row.account_id, {
+      accountId: row.account_id,
+      debit: Number(row.debit ?? 0),
+      credit: Number(row.credit ?? 0),
+      lineCount: Number(row.line_count),
+    })
+  }
+
+  return totals
+}
+
+/**
+ * Get the tenant accounts listed on a report, ordered for display
+ * Deleted accounts are kept while they still have posted lines, so the report
+ * totals match the ledger
+ * @param trx - Transaction with tenant search path set
+ * @param tenantId - Tenant ID
+ * @param lineTotals - Posted line totals per account ID
+ */
+const getReportAccounts = async (
+  trx: Knex.Transaction,
+  tenantId: string,
+  lineTotals: Map<string, AccountLineTotals>
+): Promise<ChartOfAccount[]> => {
+  return ChartOfAccount.query(trx)
+    .modify('byTenant', tenantId)
+    .where((builder) => {
+      builder.whereNull('deleted_at').orWhereIn('id', [...lineTotals.keys()])
+    })
+    .orderBy('account_number', 'asc')
+    .orderBy('account_name', 'asc')
+}
+
+/**
+ * Group trial balance rows by account type and subtype
+ */
+const groupTrialBalanceRows = (
+  rows: TrialBalanceAccountRow[]
+): TrialBalanceGroup[] => {
+  const groups: TrialBalanceGroup[] = []
+
+  for (const accountType of REPORT_ACCOUNT_TYPE_ORDER) {
+    const typeRows = rows.filter((row) => row.accountType === accountType)
+    if (typeRows.length === 0) {
+      continue
+    }
+
+    const subtypes = new Map<string | null, TrialBalanceSubtypeGroup>()
+    for (const row of typeRows) {
+      let subtype = subtypes.get(row.accountSubtype)
+      if (!subtype) {
+        subtype = {
+          accountSubtype: row.accountSubtype,
+          accounts: [],
+          debitBalance: 0,
+          creditBalance: 0,
+        }
+        subtypes.set(row.accountSubtype, subtype)
+      }
+      subtype.accounts.push(row)
+      subtype.debitBalance = roundAmount(
+        subtype.debitBalance + row.debitBalance
+      )
+      subtype.creditBalance = roundAmount(
+        subtype.creditBalance + row.creditBalance
+      )
+    }
+
+    const subtypeGroups = [...subtypes.values()]
+    groups.push({
+      accountType,
+      subtypes: subtypeGroups,
+      debitBalance: roundAmount(
+        subtypeGroups.reduce((sum, group) => sum + group.debitBalance, 0)
+      ),
+      creditBalance: roundAmount(
+        subtypeGroups.reduce((sum, group) => sum + group.creditBalance, 0)
+      ),
+    })
+  }
+
+  return groups
+}
+
+/**
+ * Get trial balance as of a date
+ * Lists every chart of account with debit and credit totals from posted journal entry lines,
+ * including deleted accounts that still have posted lines
+ * @param tenantId - Tenant ID
+ * @param schemaName - Tenant schema name
+ * @param filters - As of date, zero-balance and closing entry filters
+ * @returns Trial balance grouped by account type and subtype
+ */
+export const getTrialBalance = async (
+  tenantId: string,
+  schemaName: string,
+  filters: TrialBalanceFilters
+): Promise<TrialBalanceReport> => {
+  const asOfDate = resolveReportDate(filters.asOf)
+
+  return withTenantSchema(schemaName, async (trx) => {
+    const lineTotals = await sumPostedLinesByAccount(trx, tenantId, {
+      endDate: asOfDate,
+      includeClosingEntries: filters.includeClosingEntries ?? true,
+    })
+    const accounts = await getReportAccounts(trx, tenantId, lineTotals)
+
+    let rows: TrialBalanceAccountRow[] = accounts.map((account) => {
+      const totals = lineTotals.get(account.id)
+      const totalDebit = roundAmount(totals?.debit ?? 0)
+      const totalCredit = roundAmount(totals?.credit ?? 0)
+      const net = roundAmount(totalDebit - totalCredit)
+
+      return {
+        accountId: account.id,
+        accountNumber: account.accountNumber ?? null,
+        accountName: account.accountName,
+        accountType: account.accountType,
+        accountSubtype: account.accountSubtype ?? null,
+        parentAccountId: account.parentAccountId ?? null,
+        totalDebit,
+        totalCredit,
+        debitBalance: net > 0 ? net : 0,
+        creditBalance: net < 0 ? Math.abs(net) : 0,
+      }
+    })
+
+    if (filters.hideZeroBalances) {
+      rows = rows.filter(
+        (row) => row.debitBalance !== 0 || row.creditBalance !== 0
+      )
+    }
+
+    const totalDebit = roundAmount(
+      rows.reduce((sum, row) => sum + row.totalDebit, 0)
+    )
+    const totalCredit = roundAmount(
+      rows.reduce((sum, row) => sum + row.totalCredit, 0)
+    )
+    const debitBalance = roundAmount(
+      rows.reduce((sum, row) => sum + row.debitBalance, 0)
+    )
+    const creditBalance = roundAmount(
+      rows.reduce((sum, row) => sum + row.creditBalance, 0)
+    )
+
+    return {
+      asOf: formatDateToString(asOfDate) ?? '',
+      groups: groupTrialBalanceRows(rows),
+      totals: {
+        totalDebit,
+        totalCredit,
+        debitBalance,
+        creditBalance,
+        difference: roundAmount(debitBalance - creditBalance),
+        isBalanced: amountsMatch(debitBalance, creditBalance),
+      },
+    }
+  })
+}
+
+/**
+ * Get the start of the fiscal year containing a report date
+ * Falls back to the calendar year when no fiscal year covers the date
+ * @param trx - Transaction with tenant search path set
+ */
+export const getFiscalYearStart = async (
+  trx: Knex.Transaction,
+  tenantId: string,
+  asOfDate: Date
+): Promise<Date> => {
+  const fiscalYear = await FiscalYear.query(trx)
+    .modify('notDeleted')
+    .modify('byTenant', tenantId)
+    .modify('containingDate', asOfDate)
+    .first()
+
+  return fiscalYear ? new Date(fiscalYear.startDate) : getUTCYearStart(asOfDate)
+}
+
+/**
+ * Convert line totals to natural balances for the given accounts
+ */
+export const getNaturalBalances = (
+  accounts: ChartOfAccount[],
+  lineTotals: Map<string, AccountLineTotals>
+): Map<string, number> => {
+  const balances = new Map<string, number>()
+  for (const account of accounts) {
+    const totals = lineTotals.get(account.id)
+    balances.set(
+      account.id,
+      roundAmount(
+        getNaturalBalance(
+          account.accountType,
+          totals?.debit ?? 0,
+          totals?.credit ?? 0
+        )
+      )
+    )
+  }
+  return balances
+}
+
+/**
+ * Calculate net income (revenue less expenses) from line totals
+ */
+export const calculateNetIncome = (
+  accounts: ChartOfAccount[],
+  lineTotals: Map<string, AccountLineTotals>
+): number => {
+  let netIncome = 0
+  for (const account of accounts) {
+    const totals = lineTotals.get(account.id)
+    if (!totals) {
+      continue
+    }
+    if (account.isRevenue()) {
+      netIncome += totals.credit - totals.debit
+    } else if (account.isExpense()) {
+      netIncome -= totals.debit - totals.credit
+    }
+  }
+  return roundAmount(netIncome)
+}
+
+/**
+ * Roll up a node's total from its own balance and its sub-accounts
+ * Zero-total sub-accounts are dropped when hideZeroBalances is set
+ */
+const rollUpAccountNode = (
+  node: ReportAccountNode,
+  hideZeroBalances: boolean
+): number => {
+  let total = node.balance
+  for (const child of node.children) {
+    total += rollUpAccountNode(child, hideZeroBalances)
+  }
+  node.total = roundAmount(total)
+
+  if (hideZeroBalances) {
+    node.children = node.children.filter(
+      (child) => child.total !== 0 || child.children.length > 0
+    )
+  }
+
+  return node.total
+}
+
+/**
+ * Build a report section for one account type
+ * Accounts are nested through parent_account_id and grouped by the subtype of their top-level account
+ * @param accountType - Account type of the section
+ * @param accounts - All tenant accounts (ordered for display)
+ * @param balances - Natural balance per account ID
+ * @param hideZeroBalances - Drop accounts with a zero total
+ */
+export const buildReportSection = (
+  accountType: AccountType,
+  accounts: ChartOfAccount[],
+  balances: Map<string, number>,
+  hideZeroBalances = false
+): ReportSection => {
+  const typeAccounts = accounts.filter(
+    (account) => account.accountType === accountType
+  )
+
+  const nodes = new Map<string, ReportAccountNode>()
+  for (const account of typeAccounts) {
+    nodes.set(account.id, {
+      accountId: account.id,
+      accountNumber: account.accountNumber ?? null,
+      accountName: account.accountName,
+      accountType: account.accountType,
+      accountSubtype: account.accountSubtype ?? null,
+      balance: balances.get(account.id) ?? 0,
+      total: 0,
+      children: [],
+    })
+  }
+
+  // Attach sub-accounts to their parent; orphans become top-level accounts
+  const roots: ReportAccountNode[] = []
+  for (const account of typeAccounts) {
+    const node = nodes.get(account.id) as ReportAccountNode
+    const parent = account.parentAccountId
+      ? nodes.get(account.parentAccountId)
+      : undefined
+    if (parent && parent !== node) {
+      parent.children.push(node)
+    } else {
+      roots.push(node)
+    }
+  }
+
+  const subtypes = new Map<string | null, ReportSubtypeSection>()
+  for (const root of roots) {
+    rollUpAccountNode(root, hideZeroBalances)
+    if (hideZeroBalances && root.total === 0 && root.children.length === 0) {
+      continue
+    }
+
+    let subtype = subtypes.get(root.accountSubtype)
+    if (!subtype) {
+      subtype = { accountSubtype: root.accountSubtype, accounts: [], total: 0 }
+      subtypes.set(root.accountSubtype, subtype)
+    }
+    subtype.accounts.push(root)
+    subtype.total = roundAmount(subtype.total + root.total)
+  }
+
+  const subtypeSections = [...subtypes.values()]
+  return {
+    accountType,
+    subtypes: subtypeSections,
+    total: roundAmount(
+      subtypeSections.reduce((sum, section) => sum + section.total, 0)
+    ),
+  }
+}
+
+/**
+ * Get balance sheet as of a date
+ * Rolls up asset, liability and equity accounts through the account hierarchy
+ * and adds earnings not yet closed to retained earnings
+ * @param tenantId - Tenant ID
+ * @param schemaName - Tenant schema name
+ * @param filters - As of date, zero-balance and closing entry filters
+ * @returns Balance sheet with balance check
+ */
+export const getBalanceSheet = async (
+  tenantId: string,
+  schemaName: string,
+  filters: BalanceSheetFilters
+): Promise<BalanceSheetReport> => {
+  const asOfDate = resolveReportDate(filters.asOf)
+  const hideZeroBalances = filters.hideZeroBalances ?? false
+  const includeClosingEntries = filters.includeClosingEntries ?? true
+
+  return withTenantSchema(schemaName, async (trx) => {
+    const fiscalYearStart = await getFiscalYearStart(trx, tenantId, asOfDate)
+    const totalsToDate = await sumPostedLinesByAccount(trx, tenantId, {
+      endDate: asOfDate,
+      includeClosingEntries,
+    })
+    const totalsBeforeYear = await sumPostedLinesByAccount(trx, tenantId, {
+      endDate: new Date(fiscalYearStart.getTime() - 1),
+      includeClosingEntries,
+    })
+    // Lines before the fiscal year are also in the totals to date
+    const accounts = await getReportAccounts(trx, tenantId, totalsToDate)
+
+    const balances = getNaturalBalances(accounts, totalsToDate)
+    const assets = buildReportSection(
+      AccountType.ASSET,
+      accounts,
+      balances,
+      hideZeroBalances
+    )
+    const liabilities = buildReportSection(
+      AccountType.LIABILITY,
+      accounts,
+      balances,
+      hideZeroBalances
+    )
+    const equity = buildReportSection(
+      AccountType.EQUITY,
+      accounts,
+      balances,
+      hideZeroBalances
+    )
+
+    // Revenue and expense balances that have not been closed into equity
+    const netIncomeToDate = calculateNetIncome(accounts, totalsToDate)
+    const priorYearsEarnings = calculateNetIncome(accounts, totalsBeforeYear)
+    const currentYearEarnings = roundAmount(
+      netIncomeToDate - priorYearsEarnings
+    )
+    const totalEquity = roundAmount(
+      equity.total + priorYearsEarnings + currentYearEarnings
+    )
+    const totalLiabilitiesAndEquity = roundAmount(
+      liabilities.total + totalEquity
+    )
+
+    return {
+      asOf: formatDateToString(asOfDate) ?? '',
+      fiscalYearStart: formatDateToString(fiscalYearStart) ?? '',
+      assets,
+      liabilities,
+      equity: {
+        ...equity,
+        priorYearsEarnings,
+        currentYearEarnings,
+        totalWithEarnings: totalEquity,
+      },
+      totals: {
+        totalAssets: assets.total,
+        totalLiabilities: liabilities.total,
+        totalEquity,
+        totalLiabilitiesAndEquity,
+        difference: roundAmount(assets.total - totalLiabilitiesAndEquity),
+        isBalanced: amountsMatch(assets.total, totalLiabilitiesAndEquity),
+      },
+    }
+  })
+}
+
+/**
+ * Resolve optional YYYY-MM-DD start and end dates to a UTC date range
+ * End date defaults to today; start date defaults to the start of the fiscal year containing the end date
+ * @param trx - Transaction with tenant search path set
+ * @throws ApiError if the start date is after the end date
+ */
+export const resolveReportDateRange = async (
+  trx: Knex.Transaction,
+  tenantId: string,
+  startDate?: string,
+  endDate?: string
+): Promise<{ startDate: Date; endDate: Date }> => {
+  const resolvedEndDate = resolveReportDate(endDate)
+  const resolvedStartDate = startDate
+    ? parseDateStringToUTC(startDate)
+    : await getFiscalYearStart(trx, tenantId, resolvedEndDate)
+
+  if (resolvedStartDate > resolvedEndDate) {
+    throw new ApiError(
+      HTTP_STATUS.BAD_REQUEST,
+      ERROR_MESSAGES.REPORT_INVALID_DATE_RANGE
+    )
+  }
+
+  return { startDate: resolvedStartDate, endDate: resolvedEndDate }
+}
+
+/**
+ * Income statement sections in display order
+ */
+const INCOME_STATEMENT_SECTIONS: Array<{
+  key: IncomeStatementSectionKey
+  accountType: AccountType
+}> = [
+  { key: 'operatingRevenue', accountType: AccountType.REVENUE },
+  { key: 'costOfGoodsSold', accountType: AccountType.EXPENSE },
+  { key: 'operatingExpenses', accountType: AccountType.EXPENSE },
+  { key: 'otherRevenue', accountType: AccountType.REVENUE },
+  { key: 'otherExpenses', accountType: AccountType.EXPENSE },
+]
+
+/**
+ * Get the income statement section of a revenue or expense account
+ * Accounts without a subtype are treated as operating
+ */
+const getIncomeStatementSectionKey = (
+  account: ChartOfAccount
+): IncomeStatementSectionKey | null => {
+  if (account.isRevenue()) {
+    return account.accountSubtype === RevenueSubtype.OTHER_REVENUE
+      ? 'otherRevenue'
+      : 'operatingRevenue'
+  }
+  if (account.isExpense()) {
+    if (account.accountSubtype === ExpenseSubtype.COST_OF_GOODS_SOLD) {
+      return 'costOfGoodsSold'
+    }
+    return account.accountSubtype === ExpenseSubtype.OTHER_EXPENSE
+      ? 'otherExpenses'
+      : 'operatingExpenses'
+  }
+  return null
+}
+
+/**
+ * Build an income statement amount with its comparison column
+ */
+const buildIncomeStatementAmount = (
+  current: number,
+  comparison: number | null
+): IncomeStatementAmount => {
+  const roundedCurrent = roundAmount(current)
+  if (comparison === null) {
+    return {
+      current: roundedCurrent,
+      comparison: null,
+      change: null,
+      changePercent: null,
+    }
+  }
+
+  const roundedComparison = roundAmount(comparison)
+  const change = roundAmount(roundedCurrent - roundedComparison)
+  return {
+    current: roundedCurrent,
+    comparison: roundedComparison,
+    change,
+    changePercent:
+      roundedComparison === 0
+        ? null
+        : roundAmount((change / Math.abs(roundedComparison)) * 100),
+  }
+}
+
+/**
+ * Format a report period from UTC start and end dates
+ */
+export const toReportPeriod = (
+  startDate: Date,
+  endDate: Date
+): ReportPeriod => {
+  return {
+    startDate: formatDateToString(startDate) ?? '',
+    endDate: formatDateToString(endDate) ?? '',
+  }
+}
+
+/**
+ * Get income statement for a date range
+ * Splits revenue and expense accounts into operating revenue, cost of goods sold,
+ * operating expenses and other income/expenses, with optional comparison column
+ * @param tenantId - Tenant ID
+ * @param schemaName - Tenant schema name
+ * @param filters - Date range, comparison, zero-balance and closing entry filters
+ * @returns Income statement with gross profit, operating income and net income
+ */
+export const getIncomeStatement = async (
+  tenantId: string,
+  schemaName: string,
+  filters: IncomeStatementFilters
+): Promise<IncomeStatementReport> => {
+  // Closing entries zero revenue and expenses at year end, so they are left out by default
+  const includeClosingEntries = filters.includeClosingEntries ?? false
+
+  return withTenantSchema(schemaName, async (trx) => {
+    const { startDate, endDate } = await resolveReportDateRange(
+      trx,
+      tenantId,
+      filters.startDate,
+      filters.endDate
+    )
+
+    let comparisonRange: { startDate: Date; endDate: Date } | null = null
+    if (filters.compareTo === 'previous_period') {
+      comparisonRange = getPrecedingDateRange(startDate, endDate)
+    } else if (filters.compareTo === 'previous_year') {
+      comparisonRange = {
+        startDate: subtractUTCYears(startDate, 1),
+        endDate: subtractUTCYears(endDate, 1),
+      }
+    }
+
+    const accounts = await ChartOfAccount.query(trx)
+      .modify('notDeleted')
+      .modify('byTenant', tenantId)
+      .whereIn('account_type', [AccountType.REVENUE, AccountType.EXPENSE])
+      .orderBy('account_number', 'asc')
+      .orderBy('account_name', 'asc')
+
+    const currentBalances = getNaturalBalances(
+      accounts,
+      await sumPostedLinesByAccount(trx, tenantId, {
+        startDate,
+        endDate,
+        includeClosingEntries,
+      })
+    )
+    const comparisonBalances = comparisonRange
+      ? getNaturalBalances(
+          accounts,
+          await sumPostedLinesByAccount(trx, tenantId, {
+            ...comparisonRange,
+            includeClosingEntries,
+          })
+        )
+      : null
+
+    const sectionRows = new Map<
+      IncomeStatementSectionKey,
+      IncomeStatementAccountRow[]
+    >()
+    const sectionTotals = new Map<
+      IncomeStatementSectionKey,
+      { current: number; comparison: number }
+    >()
+    for (const section of INCOME_STATEMENT_SECTIONS) {
+      sectionRows.set(section.key, [])
+      sectionTotals.set(section.key, { current: 0, comparison: 0 })
+    }
+
+    for (const account of accounts) {
+      const key = getIncomeStatementSectionKey(account)
+      if (!key) {
+        continue
+      }
+
+      const current = currentBalances.get(account.id) ?? 0
+      const comparison = comparisonBalances
+        ? (comparisonBalances.get(account.id) ?? 0)
+        : null
+
+      const totals = sectionTotals.get(key) as {
+        current: number
+        comparison: number
+      }
+      totals.current += current
+      totals.comparison += comparison ?? 0
+
+      if (filters.hideZeroBalances && current === 0 && !comparison) {
+        continue
+      }
+
+      sectionRows.get(key)?.push({
+        accountId: account.id,
+        accountNumber: account.accountNumber ?? null,
+        accountName: account.accountName,
+        parentAccountId: account.parentAccountId ?? null,
+        amount: buildIncomeStatementAmount(current, comparison),
+      })
+    }
+
+    const hasComparison = comparisonBalances !== null
+    const sectionAmount = (
+      key: IncomeStatementSectionKey,
+      column: 'current' | 'comparison'
+    ): number => {
+      const totals = sectionTotals.get(key)
+      if (!totals) {
+        return 0
+      }
+      return column === 'current' ? totals.current : totals.comparison
+    }
+
+    // Combine section totals into an amount for both columns
+    const combine = (
+      calculate: (column: 'current' | 'comparison') => number
+    ): IncomeStatementAmount =>
+      buildIncomeStatementAmount(
+        calculate('current'),
+        hasComparison ? calculate('comparison') : null
+      )
+
+    const sections: IncomeStatementSection[] = INCOME_STATEMENT_SECTIONS.map(
+      (section) => ({
+        key: section.key,
+        accountType: section.accountType,
+        accounts: sectionRows.get(section.key) ?? [],
+        total: combine((column) => sectionAmount(section.key, column)),
+      })
+    )
+
+    const grossProfit = (column: 'current' | 'comparison') =>
+      sectionAmount('operatingRevenue', column) -
+      sectionAmount('costOfGoodsSold', column)
+    const operatingIncome = (column: 'current' | 'comparison') =>
+      grossProfit(column) - sectionAmount('operatingExpenses', column)
+    const netIncome = (column: 'current' | 'comparison') =>
+      operatingIncome(column) +
+      sectionAmount('otherRevenue', column) -
+      sectionAmount('otherExpenses', column)
+
+    return {
+      period: toReportPeriod(startDate, endDate),
+      comparisonPeriod: comparisonRange
+        ? toReportPeriod(comparisonRange.startDate, comparisonRange.endDate)
+        : null,
+      compareTo: filters.compareTo ?? null,
+      sections,
+      totals: {
+        totalRevenue: combine(
+          (column) =>
+            sectionAmount('operatingRevenue', column) +
+            sectionAmount('otherRevenue', column)
+        ),
+        totalExpenses: combine(
+          (column) =>
+            sectionAmount('costOfGoodsSold', column) +
+            sectionAmount('operatingExpenses', column) +
+            sectionAmount('otherExpenses', column)
+        ),
+        grossProfit: combine(grossProfit),
+        operatingIncome: combine(operatingIncome),
+        netIncome: combine(netIncome),
+      },
+    }
+  })
+}
+
+/**
+ * Get the cash flow activity of a non-cash balance sheet account
+ * Current assets and liabilities are working capital (operating), fixed and other assets
+ * are investing, long-term and other liabilities and equity are financing.
+ * Accounts without a subtype are treated as current.
+ */
+const getCashFlowActivity = (
+  account: ChartOfAccount
+): CashFlowActivity | null => {
+  if (account.isAsset()) {
+    return !account.accountSubtype ||
+      account.accountSubtype === AssetSubtype.CURRENT_ASSET
+      ? 'operating'
+      : 'investing'
+  }
+  if (account.isLiability()) {
+    return !account.accountSubtype ||
+      account.accountSubtype === LiabilitySubtype.CURRENT_LIABILITY
+      ? 'operating'
+      : 'financing'
+  }
+  if (account.isEquity()) {
+    return 'financing'
+  }
+  return null
+}
+
+/**
+ * Check if an account holds cash (linked to a bank account)
+ */
+const isCashAccount = (account: ChartOfAccount): boolean => {
+  return account.isAsset() && !!account.bankAccountId
+}
+
+/**
+ * Get cash flow statement for a date range (indirect method)
+ * Starts from net income and adjusts for period movements of non-cash balance sheet accounts.
+ * Cash accounts are chart of accounts linked to a bank account.
+ * @param tenantId - Tenant ID
+ * @param schemaName - Tenant schema name
+ * @param filters - Date range, zero-balance and closing entry filters
+ * @returns Cash flow statement reconciled to the change in cash balances
+ */
+export const getCashFlowStatement = async (
+  tenantId: string,
+  schemaName: string,
+  filters: CashFlowFilters
+): Promise<CashFlowReport> => {
+  // A closing entry would move net income into financing, so it is left out by default
+  const includeClosingEntries = filters.includeClosingEntries ?? false
+
+  return withTenantSchema(schemaName, async (trx) => {
+    const { startDate, endDate } = await resolveReportDateRange(
+      trx,
+      tenantId,
+      filters.startDate,
+      filters.endDate
+    )
+
+    const accounts = await ChartOfAccount.query(trx)
+      .modify('notDeleted')
+      .modify('byTenant', tenantId)
+      .orderBy('account_number', 'asc')
+      .orderBy('account_name', 'asc')
+
+    const periodTotals = await sumPostedLinesByAccount(trx, tenantId, {
+      startDate,
+      endDate,
+      includeClosingEntries,
+    })
+    const netIncome = calculateNetIncome(accounts, periodTotals)
+
+    const sectionLines = new Map<CashFlowActivity, CashFlowLine[]>([
+      ['operating', []],
+      ['investing', []],
+      ['financing', []],
+    ])
+    const cashAccountIds = new Set<string>()
+
+    for (const account of accounts) {
+      if (isCashAccount(account)) {
+        cashAccountIds.add(account.id)
+        continue
+      }
+
+      const activity = getCashFlowActivity(account)
+      if (!activity) {
+        continue
+      }
+
+      // An increase in a debit (asset) balance uses cash; an increase in a credit balance provides it
+      const totals = periodTotals.get(account.id)
+      const amount = roundAmount((totals?.credit ?? 0) - (totals?.debit ?? 0))
+      if (filters.hideZeroBalances && amount === 0) {
+        continue
+      }
+
+      sectionLines.get(activity)?.push({
+        accountId: account.id,
+        accountNumber: account.accountNumber ?? null,
+        accountName: account.accountName,
+        accountType: account.accountType,
+        accountSubtype: account.accountSubtype ?? null,
+        amount,
+      })
+    }
+
+    const buildSection = (activity: CashFlowActivity): CashFlowSection => {
+      const lines = sectionLines.get(activity) ?? []
+      return {
+        activity,
+        lines,
+        total: roundAmount(lines.reduce((sum, line) => sum + line.amount, 0)),
+      }
+    }
+
+    const adjustments = buildSection('operating')
+    const operating = {
+      ...adjustments,
+      netIncome,
+      adjustments: adjustments.total,
+      total: roundAmount(netIncome + adjustments.total),
+    }
+    const investing = buildSection('investing')
+    const financing = buildSection('financing')
+
+    // Opening and closing balances of cash accounts
+    const openingTotals = await sumPostedLinesByAccount(trx, tenantId, {
+      endDate: new Date(startDate.getTime() - 1),
+    })
+    const closingTotals = await sumPostedLinesByAccount(trx, tenantId, {
+      endDate,
+    })
+    const openingBalances = getNaturalBalances(accounts, openingTotals)
+    const closingBalances = getNaturalBalances(accounts, closingTotals)
+
+    const cashAccounts: CashAccountBalance[] = accounts
+      .filter((account) => cashAccountIds.has(account.id))
+      .map((account) => ({
+        accountId: account.id,
+        accountNumber: account.accountNumber ?? null,
+        accountName: account.accountName,
+        bankAccountId: account.bankAccountId as string,
+        openingBalance: openingBalances.get(account.id) ?? 0,
+        closingBalance: closingBalances.get(account.id) ?? 0,
+      }))
+
+    const openingCash = roundAmount(
+      cashAccounts.reduce((sum, account) => sum + account.openingBalance, 0)
+    )
+    const closingCash = roundAmount(
+      cashAccounts.reduce((sum, account) => sum + account.closingBalance, 0)
+    )
+    const netChangeInCash = roundAmount(
+      operating.total + investing.total + financing.total
+    )
+    const actualChange = roundAmount(closingCash - openingCash)
+
+    return {
+      period: toReportPeriod(startDate, endDate),
+      operating,
+      investing,
+      financing,
+      cashAccounts,
+      totals: {
+        netCashFromOperating: operating.total,
+        netCashFromInvesting: investing.total,
+        netCashFromFinancing: financing.total,
+        netChangeInCash,
+        openingCash,
+        closingCash,
+        difference: roundAmount(netChangeInCash - actualChange),
+        isReconciled: amountsMatch(netChangeInCash, actualChange),
+      },
+    }
+  })
+}
+
+/**
+ * Build the general ledger summary of one account from opening and period line totals
+ */
+const buildGeneralLedgerSummary = (
+  account: ChartOfAccount,
+  openingTotals?: AccountLineTotals,
+  periodTotals?: AccountLineTotals
+): GeneralLedgerAccountSummary => {
+  const openingBalance = roundAmount(
+    getNaturalBalance(
+      account.accountType,
+      openingTotals?.debit ?? 0,
+      openingTotals?.credit ?? 0
+    )
+  )
+  const totalDebit = roundAmount(periodTotals?.debit ?? 0)
+  const totalCredit = roundAmount(periodTotals?.credit ?? 0)
+
+  return {
+    accountId: account.id,
+    accountNumber: account.accountNumber ?? null,
+    accountName: account.accountName,
+    accountType: account.accountType,
+    accountSubtype: account.accountSubtype ?? null,
+    openingBalance,
+    totalDebit,
+    totalCredit,
+    closingBalance: roundAmount(
+      openingBalance +
+        getNaturalBalance(account.accountType, totalDebit, totalCredit)
+    ),
+    movementCount: periodTotals?.lineCount ?? 0,
+  }
+}
+
+/**
+ * Get general ledger summary for a date range
+ * Lists opening balance, period debits and credits and closing balance per account.
+ * Balances are derived from posted lines by entry date rather than from
+ * account_balance_history, which records balances in posting order.
+ * @param tenantId - Tenant ID
+ * @param schemaName - Tenant schema name
+ * @param filters - Date range, account type, zero-balance and closing entry filters
+ * @returns General ledger summary per account
+ */
+export const getGeneralLedger = async (
+  tenantId: string,
+  schemaName: string,
+  filters: GeneralLedgerFilters
+): Promise<GeneralLedgerReport> => {
+  const includeClosingEntries = filters.includeClosingEntries ?? true
+
+  return withTenantSchema(schemaName, async (trx) => {
+    const { startDate, endDate } = await resolveReportDateRange(
+      trx,
+      tenantId,
+      filters.startDate,
+      filters.endDate
+    )
+
+    const query = ChartOfAccount.query(trx)
+      .modify('notDeleted')
+      .modify('byTenant', tenantId)
+      .orderBy('account_number', 'asc')
+      .orderBy('account_name', 'asc')
+
+    if (filters.accountType) {
+      query.modify('byType', filters.accountType)
+    }
+
+    const accounts = await query
+    const openingTotals = await sumPostedLinesByAccount(trx, tenantId, {
+      endDate: new Date(startDate.getTime() - 1),
+      includeClosingEntries,
+    })
+    const periodTotals = await sumPostedLinesByAccount(trx, tenantId, {
+      startDate,
+      endDate,
+      includeClosingEntries,
+    })
+
+    const summaries = accounts
+      .map((account) =>
+        buildGeneralLedgerSummary(
+          account,
+          openingTotals.get(account.id),
+          periodTotals.get(account.id)
+        )
+      )
+      .filter(
+        (summary) =>
+          !filters.hideZeroBalances ||
+          summary.movementCount > 0 ||
+          summary.openingBalance !== 0
+      )
+
+    return {
+      period: toReportPeriod(startDate, endDate),
+      accounts: summaries,
+      totals: {
+        totalDebit: roundAmount(
+          summaries.reduce((sum, summary) => sum + summary.totalDebit, 0)
+        ),
+        totalCredit: roundAmount(
+          summaries.reduce((sum, summary) => sum + summary.totalCredit, 0)
+        ),
+      },
+    }
+  })
+}
+
+/**
+ * Get the ledger of one account for a date range
+ * Movements are ordered by entry date and entry number; the running balance
+ * is computed over the whole range so it stays correct across pages.
+ * @param tenantId - Tenant ID
+ * @param schemaName - Tenant schema name
+ * @param accountId - Chart of account ID
+ * @param filters - Date range, pagination and closing entry filter
+ * @returns Account summary with a page of movements and total movement count
+ */
+export const getGeneralLedgerAccount = async (
+  tenantId: string,
+  schemaName: string,
+  accountId: string,
+  filters: GeneralLedgerAccountFilters
+): Promise<GeneralLedgerAccountResult> => {
+  const includeClosingEntries = filters.includeClosingEntries ?? true
+
+  return withTenantSchema(schemaName, async (trx) => {
+    const { startDate, endDate } = await resolveReportDateRange(
+      trx,
+      tenantId,
+      filters.startDate,
+      filters.endDate
+    )
+
+    const account = await ChartOfAccount.query(trx)
+      .modify('notDeleted')
+      .modify('byTenant', tenantId)
+      .findById(accountId)
+
+    if (!account) {
+      throw new ApiError(
+        HTTP_STATUS.NOT_FOUND,
+        ERROR_MESSAGES.CHART_OF_ACCOUNT_NOT_FOUND
+      )
+    }
+
+    const openingTotals = await sumPostedLinesByAccount(trx, tenantId, {
+      endDate: new Date(startDate.getTime() - 1),
+      includeClosingEntries,
+    })
+    const periodTotals = await sumPostedLinesByAccount(trx, tenantId, {
+      startDate,
+      endDate,
+      includeClosingEntries,
+    })
+    const summary = buildGeneralLedgerSummary(
+      account,
+      openingTotals.get(account.id),
+      periodTotals.get(account.id)
+    )
+
+    const offset = (filters.page - 1) * filters.limit
+    const rows = (await postedLinesQuery(trx, tenantId, {
+      startDate,
+      endDate,
+      includeClosingEntries,
+    })
+      .where('jel.account_id', accountId)
+      .select(
+        'jel.id as line_id',
+        'jel.journal_entry_id',
+        'jel.debit',
+        'jel.credit',
+        'jel.description',
+        'jel.memo',
+        'jel.contact_id',
+        'je.entry_number',
+        'je.entry_date',
+        'je.entry_type',
+        'je.reference',
+        'je.description as entry_description',
+        'je.source_module'
+      )
+      .select(
+        trx.raw(
+          'sum(jel.debit - jel.credit) over (order by je.entry_date, je.entry_number, jel.line_number, jel.id rows between unbounded preceding and current row) as cumulative_net'
+        )
+      )
+      .orderBy([
+        { column: 'je.entry_date', order: 'asc' },
+        { column: 'je.entry_number', order: 'asc' },
+        { column: 'jel.line_number', order: 'asc' },
+        { column: 'jel.id', order: 'asc' },
+      ])
+      .limit(filters.limit)
+      .offset(offset)) as Array<{
+      line_id: string
+      journal_entry_id: string
+      debit: string | number
+      credit: string | number
+      description: string | null
+      memo: string | null
+      contact_id: string | null
+      entry_number: string | null
+      entry_date: Date
+      entry_type: string
+      reference: string | null
+      entry_description: string | null
+      source_module: string | null
+      cumulative_net: string | number
+    }>
+
+    const movements: GeneralLedgerMovement[] = rows.map((row) => {
+      const cumulativeNet = Number(row.cumulative_net)
+      return {
+        journalEntryId: row.journal_entry_id,
+        journalEntryLineId: row.line_id,
+        entryNumber: row.entry_number,
+        entryDate: formatDateToString(row.entry_date) ?? '',
+        entryType: row.entry_type,
+        reference: row.reference,
+        description: row.description ?? row.entry_description,
+        memo: row.memo,
+        contactId: row.contact_id,
+        sourceModule: row.source_module,
+        debit: roundAmount(Number(row.debit)),
+        credit: roundAmount(Number(row.credit)),
+        runningBalance: roundAmount(
+          summary.openingBalance +
+            (isDebitNormal(account.accountType)
+              ? cumulativeNet
+              : -cumulativeNet)
+        ),
+      }
+    })
+
+    return {
+      period: toReportPeriod(startDate, endDate),
+      account: summary,
+      movements,
+      total: summary.movementCount,
+    }
+  })
+}
@@ -0,0 +1,165 @@
+import type { Knex } from 'knex'
+
+import type {
+  ScheduledReversalFilters,
+  ScheduledReversalListResult,
+} from '@/types/journalEntry.type'
+import { JournalEntry } from '@models/JournalEntry'
+import { reverseJournalEntry } from '@queries/journalEntry.queries'
+import { calculateOffset } from '@schema/shared.schema'
+import {
+  formatDateToISOString,
+  getCurrentDate,
+  parseDateStringToUTC,
+} from '@utils/date'
+import { withTenantSchema } from '@utils/tenantQuery'
+
+/**
+ * Result of a scheduled reversal run
+ */
+export interface ScheduledReversalRun {
+  entry: JournalEntry
+  reversal: JournalEntry
+  actingAs: string
+}
+
+/**
+ * Find IDs of entries whose reversal date has passed
+ * Entries that already exhausted their retries are skipped until reversed manually
+ */
+export const findDueReversalIds = async (
+  tenantId: string,
+  schemaName: string
+): Promise<string[]> => {
+  return withTenantSchema(schemaName, async (trx) => {
+    const entries = await JournalEntry.query(trx)
+      .modify('notDeleted')
+      .modify('byTenant', tenantId)
+      .modify('pendingReversal')
+      .where('journal_entries.reversal_date', '<=', getCurrentDate())
+      .whereNull('journal_entries.reversal_failed_at')
+      .select('journal_entries.id')
+      .orderBy('journal_entries.reversal_date', 'asc')
+
+    return entries.map((entry) => entry.id)
+  })
+}
+
+/**
+ * Reverse an entry on its scheduled reversal date
+ * The reversing entry is created and posted as the user who posted the original
+ * entry (or its creator), so the ledger records who the system acted as.
+ * Returns null when the entry is no longer pending, e.g. it was reversed manually
+ * or voided after the job was queued.
+ */
+export const runScheduledReversal = async (
+  tenantId: string,
+  schemaName: string,
+  entryId: string
+): Promise<ScheduledReversalRun | null> => {
+  return withTenantSchema(schemaName, async (trx) => {
+    const entry = await JournalEntry.query(trx)
+      .modify('notDeleted')
+      .modify('byTenant', tenantId)
+      .modify('pendingReversal')
+      .where('journal_entries.id', entryId)
+      .forUpdate()
+      .first()
+
+    if (!entry?.reversalDate) {
+      return null
+    }
+
+    const actingAs = entry.postedBy ?? entry.createdBy
+    const reversal = await reverseJournalEntry(
+      tenantId,
+      schemaName,
+      entry.id,
+      parseDateStringToUTC(entry.reversalDate),
+      actingAs,
+      trx
+    )
+
+    const updated = await entry.$query(trx).patchAndFetch({
+      reversalFailedAt: null,
+      reversalError: null,
+    })
+
+    return { entry: updated, reversal, actingAs }
+  })
+}
+
+/**
+ * Record a failed scheduled reversal attempt
+ * @param isFinalAttempt - Whether the worker has no retries left
+ */
+export const recordReversalFailure = async (
+  tenantId: string,
+  schemaName: string,
+  entryId: string,
+  errorMessage: string,
+  isFinalAttempt: boolean,
+  trx?: Knex.Transaction
+): Promise<void> => {
+  const execute = async (transaction: Knex.Transaction) => {
+    await JournalEntry.query(transaction)
+      .modify('byTenant', tenantId)
+      .where('id', entryId)
+      .patch({
+        reversalAttempts: transaction.raw(
+          'reversal_attempts + 1'
+        ) as unknown as number,
+        reversalError: errorMessage,
+        ...(isFinalAttempt
+          ? {
+              reversalFailedAt: formatDateToISOString(
+                getCurrentDate()
+              ) as unknown as Date,
+            }
+          : {}),
+      })
+  }
+
+  if (trx) {
+    return execute(trx)
+  }
+
+  return withTenantSchema(schemaName, execute)
+}
+
+/**
+ * Find entries that are scheduled for reversal
+ * Upcoming entries are listed by reversal date, failed entries by failure time
+ */
+export const findScheduledReversals = async (
+  tenantId: string,
+  schemaName: string,
+  filters: ScheduledReversalFilters
+): Promise<ScheduledReversalListResult> => {
+  const { status, page, limit } = filters
+
+  return withTenantSchema(schemaName, async (trx) => {
+    const query = JournalEntry.query(trx)
+      .modify('notDeleted')
+      .modify('byTenant', tenantId)
+      .modify('pendingReversal')
+
+    if (status === 'failed') {
+      query
+        .whereNotNull('journal_entries.reversal_failed_at')
+        .orderBy('journal_entries.reversal_failed_at', 'desc')
+    } else {
+      query
+        .whereNull('journal_entries.reversal_failed_at')
+        .orderBy('journal_entries.reversal_date', 'asc')
+    }
+
+    const total = await query.resultSize()
+    const entries = await query
+      .orderBy('journal_entries.entry_number', 'asc')
+      .limit(limit)
+      .offset(calculateOffset(page, limit))
+
+    return { entries, total }
+  })
+}
@@ -1,6 +1,7 @@
 import { ERROR_MESSAGES } from '@constants/errors'
 import { HTTP_STATUS } from '@constants/http'
 import { TaxExemption, TaxExemptionType } from '@models/TaxExemption'
+import { assertContactsExist } from '@queries/contact.queries'
 import { calculateOffset } from '@schema/shared.schema'
 import type { TaxExemptionListInput } from '@schema/taxExemption.schema'
 import { ApiError } from '@utils/ApiError'
@@ -100,7 +101,7 @@ export const findTaxExemptions = async (
 
     // Apply pagination and sorting
     const taxExemptions = await query
-      .withGraphFetched('tax')
+      .withGraphFetched('[tax, contact]')
       .orderBy(sortColumn, order)
       .limit(limit)
       .offset(offset)
@@ -122,7 +123,7 @@ export const findTaxExemptionById = async (
       .modify('notDeleted')
       .modify('byTenant', tenantId)
       .findById(taxExemptionId)
-      .withGraphFetched('tax')
+      .withGraphFetched('[tax, contact]')
 
     if (!taxExemption) {
       throw new ApiError(
@@ -150,7 +151,7 @@ export const findTaxExemptionsByContact = async (
       .modify('byContact', contactId)
       .modify('active')
       .modify('notExpired')
-      .withGraphFetched('tax')
+      .withGraphFetched('[tax, contact]')
       .orderBy('created_at', 'desc')
   })
 }
@@ -198,6 +199,9 @@ export const createTaxExemption = async (
   createdBy: string
 ): Promise<TaxExemption> => {
   return withTenantSchema(schemaName, async (trx) => {
+    // Validate contact exists
+    await assertContactsExist(trx, tenantId, [data.contactId])
+
     // Validate tax exists if taxId is provided
     if (data.taxId) {
       const { findTaxById } = await import('@queries/tax.queries')
@@ -0,0 +1,347 @@
+import type { Knex } from 'knex'
+
+import type {
+  YearEndCloseResult,
+  YearEndClosingLine,
+  YearEndClosingPreview,
+} from '@/types/fiscalYear.type'
+import type { CreateJournalEntryData } from '@/types/journalEntry.type'
+import { ERROR_MESSAGES } from '@constants/errors'
+import { HTTP_STATUS } from '@constants/http'
+import {
+  AccountType,
+  ChartOfAccount,
+  EquitySubtype,
+} from '@models/ChartOfAccount'
+import { FISCAL_YEAR_SOURCE_MODULE, FiscalYear } from '@models/FiscalYear'
+import {
+  JournalEntry,
+  JournalEntryStatus,
+  JournalEntryType,
+} from '@models/JournalEntry'
+import { JournalEntryLine } from '@models/JournalEntryLine'
+import { findFiscalYearById } from '@queries/fiscalYear.queries'
+import {
+  generateEntryNumber,
+  postJournalEntry,
+  reverseJournalEntry,
+} from '@queries/journalEntry.queries'
+import {
+  getNaturalBalance,
+  roundAmount,
+  sumPostedLinesByAccount,
+} from '@queries/report.queries'
+import { ApiError } from '@utils/ApiError'
+import { formatDateToISOString, parseDateStringToUTC } from '@utils/date'
+import { withTenantSchema } from '@utils/tenantQuery'
+
+/**
+ * Find the account that year-end earnings are closed into
+ * Prefers the system retained earnings account, then the lowest account number
+ */
+const findRetainedEarningsAccount = async (
+  trx: Knex.Transaction,
+  tenantId: string
+): Promise<ChartOfAccount> => {
+  const account = await ChartOfAccount.query(trx)
+    .modify('notDeleted')
+    .modify('byTenant', tenantId)
+    .modify('active')
+    .modify('byType', AccountType.EQUITY)
+    .where('account_subtype', EquitySubtype.RETAINED_EARNINGS)
+    .orderBy('is_system_account', 'desc')
+    .orderBy('account_number', 'asc')
+    .first()
+
+  if (!account) {
+    throw new ApiError(
+      HTTP_STATUS.BAD_REQUEST,
+      ERROR_MESSAGES.RETAINED_EARNINGS_ACCOUNT_NOT_FOUND
+    )
+  }
+
+  return account
+}
+
+/**
+ * Find a fiscal year that has not been closed yet or throw
+ */
+const findOpenFiscalYear = async (
+  trx: Knex.Transaction,
+  tenantId: string,
+  schemaName: string,
+  fiscalYearId: string
+): Promise<FiscalYear> => {
+  const fiscalYear = await findFiscalYearById(
+    tenantId,
+    schemaName,
+    fiscalYearId,
+    trx
+  )
+
+  if (fiscalYear.isClosed()) {
+    throw new ApiError(
+      HTTP_STATUS.CONFLICT,
+      ERROR_MESSAGES.FISCAL_YEAR_ALREADY_CLOSED
+    )
+  }
+
+  return fiscalYear
+}
+
+/**
+ * Build the closing entry lines of a fiscal year
+ * Zeroes the cumulative balance of every revenue and expense account as of the
+ * fiscal year end, so earnings of earlier years that were never closed are swept
+ * into retained earnings as well
+ */
+const buildYearEndClosing = async (
+  trx: Knex.Transaction,
+  tenantId: string,
+  fiscalYear: FiscalYear
+): Promise<YearEndClosingPreview> => {
+  const retainedEarningsAccount = await findRetainedEarningsAccount(
+    trx,
+    tenantId
+  )
+
+  const accounts = await ChartOfAccount.query(trx)
+    .modify('notDeleted')
+    .modify('byTenant', tenantId)
+    .whereIn('account_type', [AccountType.REVENUE, AccountType.EXPENSE])
+    .orderBy('account_number', 'asc')
+    .orderBy('account_name', 'asc')
+
+  const lineTotals = await sumPostedLinesByAccount(trx, tenantId, {
+    endDate: new Date(fiscalYear.endDate),
+  })
+
+  const lines: YearEndClosingLine[] = []
+  let totalRevenue = 0
+  let totalExpenses = 0
+  for (const account of accounts) {
+    const totals = lineTotals.get(account.id)
+    const net = roundAmount((totals?.debit ?? 0) - (totals?.credit ?? 0))
+    if (net === 0) {
+      continue
+    }
+
+    const balance = roundAmount(
+      getNaturalBalance(
+        account.accountType,
+        totals?.debit ?? 0,
+        totals?.credit ?? 0
+      )
+    )
+    if (account.isRevenue()) {
+      totalRevenue += balance
+    } else {
+      totalExpenses += balance
+    }
+
+    // Post the opposite side of the net balance
+    lines.push({
+      accountId: account.id,
+      accountNumber: account.accountNumber ?? null,
+      accountName: account.accountName,
+      accountType: account.accountType,
+      balance,
+      debit: net < 0 ? Math.abs(net) : 0,
+      credit: net > 0 ? net : 0,
+    })
+  }
+
+  return {
+    fiscalYear,
+    closingDate: parseDateStringToUTC(fiscalYear.endDate),
+    retainedEarningsAccount,
+    lines,
+    totalRevenue: roundAmount(totalRevenue),
+    totalExpenses: roundAmount(totalExpenses),
+    netIncome: roundAmount(totalRevenue - totalExpenses),
+  }
+}
+
+/**
+ * Preview the closing entry of a fiscal year without posting it
+ * @throws ApiError if the fiscal year is already closed or has no retained earnings account
+ */
+export const previewYearEndClose = async (
+  tenantId: string,
+  schemaName: string,
+  fiscalYearId: string
+): Promise<YearEndClosingPreview> => {
+  return withTenantSchema(schemaName, async (trx) => {
+    const fiscalYear = await findOpenFiscalYear(
+      trx,
+      tenantId,
+      schemaName,
+      fiscalYearId
+    )
+
+    return buildYearEndClosing(trx, tenantId, fiscalYear)
+  })
+}
+
+/**
+ * Close a fiscal year into retained earnings
+ * Creates and posts a closing entry dated on the last day of the fiscal year that
+ * zeroes all revenue and expense accounts against the retained earnings account.
+ * The last day must be in an open fiscal period.
+ * @param closedBy - User ID who closes the fiscal year
+ */
+export const closeFiscalYear = async (
+  tenantId: string,
+  schemaName: string,
+  fiscalYearId: string,
+  closedBy: string
+): Promise<YearEndCloseResult> => {
+  return withTenantSchema(schemaName, async (trx) => {
+    const fiscalYear = await findOpenFiscalYear(
+      trx,
+      tenantId,
+      schemaName,
+      fiscalYearId
+    )
+    const preview = await buildYearEndClosing(trx, tenantId, fiscalYear)
+
+    if (preview.lines.length === 0) {
+      throw new ApiError(
+        HTTP_STATUS.BAD_REQUEST,
+        ERROR_MESSAGES.FISCAL_YEAR_NOTHING_TO_CLOSE
+      )
+    }
+
+    const description = `Year-end closing entry for ${fiscalYear.name}`
+    const lineData = preview.lines.map((line, index) => ({
+      accountId: line.accountId,
+      lineNumber: index + 1,
+      debit: line.debit,
+      credit: line.credit,
+      description: `Close ${line.accountName}`,
+    }))
+
+    // Net income is credited to retained earnings, a net loss is debited
+    const netIncome = roundAmount(
+      lineData.reduce((sum, line) => sum + line.debit - line.credit, 0)
+    )
+    if (netIncome !== 0) {
+      lineData.push({
+        accountId: preview.retainedEarningsAccount.id,
+        lineNumber: lineData.length + 1,
+        debit: netIncome < 0 ? Math.abs(netIncome) : 0,
+        credit: netIncome > 0 ? netIncome : 0,
+        description: `Net income for ${fiscalYear.name}`,
+      })
+    }
+
+    const totalDebit = roundAmount(
+      lineData.reduce((sum, line) => sum + line.debit, 0)
+    )
+    const totalCredit = roundAmount(
+      lineData.reduce((sum, line) => sum + line.credit, 0)
+    )
+
+    const entryData: CreateJournalEntryData = {
+      entryNumber: await generateEntryNumber(tenantId, schemaName, trx),
+      entryDate: preview.closingDate,
+      entryType: JournalEntryType.CLOSING,
+      isAdjusting: false,
+      isClosing: true,
+      isReversing: false,
+      reversalDate: null,
+      description,
+      reference: fiscalYear.name,
+      status: JournalEntryStatus.DRAFT,
+      sourceModule: FISCAL_YEAR_SOURCE_MODULE,
+      sourceId: fiscalYear.id,
+      totalDebit,
+      totalCredit,
+    }
+
+    const entry = await JournalEntry.query(trx).insert({
+      ...entryData,
+      entryDate: formatDateToISOString(preview.closingDate) as unknown as Date,
+      tenantId,
+      createdBy: closedBy,
+    })
+
+    await JournalEntryLine.query(trx).insert(
+      lineData.map((line) => ({
+        ...line,
+        journalEntryId: entry.id,
+        tenantId,
+        createdBy: closedBy,
+      }))
+    )
+
+    // Posting validates the entry and rejects a closed final period
+    const posted = await postJournalEntry(
+      tenantId,
+      schemaName,
+      entry.id,
+      closedBy,
+      { skipApproval: true },
+      trx
+    )
+
+    return {
+      fiscalYear: await findFiscalYearById(
+        tenantId,
+        schemaName,
+        fiscalYearId,
+        trx
+      ),
+      entry: posted,
+    }
+  })
+}
+
+/**
+ * Undo a year-end close by reversing its closing entry
+ * The reversal is dated on the closing date and flagged as a closing entry, so
+ * revenue and expense balances are restored for every report
+ * @param reversedBy - User ID who reverses the close
+ */
+export const reverseFiscalYearClose = async (
+  tenantId: string,
+  schemaName: string,
+  fiscalYearId: string,
+  reversedBy: string
+): Promise<YearEndCloseResult> => {
+  return withTenantSchema(schemaName, async (trx) => {
+    const fiscalYear = await findFiscalYearById(
+      tenantId,
+      schemaName,
+      fiscalYearId,
+      trx
+    )
+
+    if (!fiscalYear.closingEntry) {
+      throw new ApiError(
+        HTTP_STATUS.CONFLICT,
+        ERROR_MESSAGES.FISCAL_YEAR_NOT_CLOSED
+      )
+    }
+
+    const { closingEntry } = fiscalYear
+    const reversal = await reverseJournalEntry(
+      tenantId,
+      schemaName,
+      closingEntry.id,
+      parseDateStringToUTC(closingEntry.entryDate),
+      reversedBy,
+      trx
+    )
+
+    return {
+      fiscalYear: await findFiscalYearById(
+        tenantId,
+        schemaName,
+        fiscalYearId,
+        trx
+      ),
+      entry: reversal,
+    }
+  })
+}
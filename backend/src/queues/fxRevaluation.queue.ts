@@ -0,0 +1,366 @@
+/**
+ * FX Revaluation Queue
+ * Posts unrealized FX gain/loss entries at fiscal period ends using BullMQ
+ */
+
+import { Job, Queue, QueueEvents, Worker } from 'bullmq'
+
+import type {
+  FxRevaluationJobData,
+  FxRevaluationJobResult,
+  FxRevaluationScanResult,
+} from '@/types/currency.type'
+import { env } from '@config/env'
+import logger from '@config/logger'
+import { bullMQConnection } from '@config/redis'
+import { AUDIT_ACTIONS, AUDIT_ENTITY_TYPES } from '@constants/audit'
+import {
+  FX_REVALUATION_JOB_NAMES,
+  FX_REVALUATION_QUEUE_NAME,
+  FX_REVALUATION_SCAN_SCHEDULER_ID,
+  FX_REVALUATION_SYSTEM_ACTOR,
+  FX_REVALUATION_WORKER_CONCURRENCY,
+} from '@constants/currency'
+import { Tenant } from '@models/Tenant'
+import {
+  findDueFxRevaluationDate,
+  runScheduledFxRevaluation,
+} from '@queries/fxRevaluation.queries'
+import { auditAction } from '@services/audit.service'
+
+/**
+ * Scan jobs carry no data, revalue jobs identify a tenant and date
+ */
+type FxRevaluationQueueJobData = FxRevaluationJobData | Record<string, never>
+
+type FxRevaluationQueueJobResult =
+  | FxRevaluationJobResult
+  | FxRevaluationScanResult
+  | null
+
+/**
+ * FX revaluation queue instance
+ */
+let fxRevaluationQueue: Queue<FxRevaluationQueueJobData> | null = null
+
+/**
+ * FX revaluation worker instance
+ */
+let fxRevaluationWorker: Worker<
+  FxRevaluationQueueJobData,
+  FxRevaluationQueueJobResult
+> | null = null
+
+/**
+ * Queue events instance
+ */
+let queueEvents: QueueEvents | null = null
+
+/**
+ * Default job options
+ * Failed jobs are removed so the next scan can queue the date again
+ */
+const defaultJobOptions = {
+  attempts: env.FX_REVALUATION_QUEUE_ATTEMPTS,
+  backoff: {
+    type: 'exponential' as const,
+    delay: env.FX_REVALUATION_QUEUE_BACKOFF_DELAY,
+  },
+  removeOnComplete: true,
+  removeOnFail: true,
+}
+
+/**
+ * Initialize FX revaluation queue
+ */
+export function initializeFxRevaluationQueue(): Queue<FxRevaluationQueueJobData> {
+  if (fxRevaluationQueue) {
+    return fxRevaluationQueue
+  }
+
+  fxRevaluationQueue = new Queue<FxRevaluationQueueJobData>(
+    FX_REVALUATION_QUEUE_NAME,
+    {
+      connection: bullMQConnection,
+      defaultJobOptions,
+    }
+  )
+
+  logger.info('FX revaluation queue initialized')
+
+  return fxRevaluationQueue
+}
+
+/**
+ * Initialize queue events
+ */
+export function initializeFxRevaluationQueueEvents(): QueueEvents {
+  if (queueEvents) {
+    return queueEvents
+  }
+
+  queueEvents = new QueueEvents(FX_REVALUATION_QUEUE_NAME, {
+    connection: bullMQConnection,
+  })
+
+  queueEvents.on('completed', ({ jobId }) => {
+    logger.debug(`FX revaluation job ${jobId} completed`)
+  })
+
+  queueEvents.on('failed', ({ jobId, failedReason }) => {
+    logger.error(`FX revaluation job ${jobId} failed:`, {
+      jobId,
+      error: failedReason,
+    })
+  })
+
+  queueEvents.on('stalled', ({ jobId }) => {
+    logger.warn(`FX revaluation job ${jobId} stalled`)
+  })
+
+  logger.info('FX revaluation queue events initialized')
+
+  return queueEvents
+}
+
+/**
+ * Get FX revaluation queue instance
+ */
+export function getFxRevaluationQueue(): Queue<FxRevaluationQueueJobData> {
+  if (!fxRevaluationQueue) {
+    return initializeFxRevaluationQueue()
+  }
+  return fxRevaluationQueue
+}
+
+/**
+ * Schedule the scan for ended fiscal periods
+ * Upserting keeps a single scheduler when several workers start
+ */
+export async function scheduleFxRevaluationScan(): Promise<void> {
+  const queue = getFxRevaluationQueue()
+
+  await queue.upsertJobScheduler(
+    FX_REVALUATION_SCAN_SCHEDULER_ID,
+    { pattern: env.FX_REVALUATION_SCAN_CRON },
+    {
+      name: FX_REVALUATION_JOB_NAMES.SCAN_ENDED_PERIODS,
+      data: {},
+      opts: { attempts: 1, removeOnFail: true },
+    }
+  )
+
+  logger.info(`FX revaluation scan scheduled (${env.FX_REVALUATION_SCAN_CRON})`)
+}
+
+/**
+ * Add a revalue job for a tenant and period-end date
+ * The job ID is derived from both so a date is never queued twice
+ */
+export async function addFxRevaluationJob(
+  data: FxRevaluationJobData
+): Promise<Job<FxRevaluationQueueJobData>> {
+  const queue = getFxRevaluationQueue()
+
+  return queue.add(FX_REVALUATION_JOB_NAMES.REVALUE, data, {
+    ...defaultJobOptions,
+    jobId: `revalue-${data.tenantId}-${data.revaluationDate}`,
+  })
+}
+
+/**
+ * Queue a revalue job for every active tenant with a period end due
+ * A failing tenant is logged and skipped so the others are still scanned
+ */
+async function scanEndedPeriods(): Promise<FxRevaluationScanResult> {
+  const tenants = await Tenant.findActive()
+  let queued = 0
+
+  for (const tenant of tenants) {
+    try {
+      const revaluationDate = await findDueFxRevaluationDate(tenant)
+
+      if (revaluationDate) {
+        await addFxRevaluationJob({
+          tenantId: tenant.id,
+          schemaName: tenant.schemaName,
+          revaluationDate,
+        })
+        queued += 1
+      }
+    } catch (error) {
+      logger.error(
+        `Failed to scan fiscal periods for FX revaluation of tenant ${tenant.id}:`,
+        {
+          tenantId: tenant.id,
+          error: error instanceof Error ? error.message : error,
+        }
+      )
+    }
+  }
+
+  logger.info(`Queued ${queued} FX revaluations`, {
+    tenants: tenants.length,
+    queued,
+  })
+
+  return { tenants: tenants.length, queued }
+}
+
+/**
+ * Post the revaluation of a period end
+ * Failures are audited once BullMQ has no retries left
+ */
+async function revalue(
+  job: Job<FxRevaluationJobData>
+): Promise<FxRevaluationJobResult> {
+  const { tenantId, schemaName, revaluationDate } = job.data
+
+  try {
+    const result = await runScheduledFxRevaluation(
+      tenantId,
+      schemaName,
+      revaluationDate
+    )
+
+    if (result) {
+      try {
+        await auditAction(
+          AUDIT_ACTIONS.FX_REVALUATION_POSTED,
+          [
+            {
+              type: AUDIT_ENTITY_TYPES.JOURNAL_ENTRY,
+              id: result.entry.id,
+              entryNumber: result.entry.entryNumber ?? null,
+              revaluationDate,
+              totalGainLoss: result.preview.totalGainLoss,
+              actingAs: result.entry.createdBy,
+            },
+          ],
+          {
+            actor: FX_REVALUATION_SYSTEM_ACTOR,
+            tenantId,
+          }
+        )
+      } catch (auditError) {
+        logger.error('Failed to create audit log for FX revaluation:', {
+          auditError,
+        })
+      }
+    }
+
+    return { revaluationDate, entryId: result?.entry.id ?? null }
+  } catch (error) {
+    const isFinalAttempt = job.attemptsMade + 1 >= (job.opts.attempts ?? 1)
+
+    if (isFinalAttempt) {
+      try {
+        await auditAction(
+          AUDIT_ACTIONS.FX_REVALUATION_FAILED,
+          [
+            {
+              type: AUDIT_ENTITY_TYPES.TENANT,
+              id: tenantId,
+              revaluationDate,
+              error: error instanceof Error ? error.message : String(error),
+              attempts: job.attemptsMade + 1,
+            },
+          ],
+          {
+            actor: FX_REVALUATION_SYSTEM_ACTOR,
+            tenantId,
+            success: false,
+          }
+        )
+      } catch (auditError) {
+        logger.error('Failed to create audit log for FX revaluation:', {
+          auditError,
+        })
+      }
+    }
+
+    throw error
+  }
+}
+
+/**
+ * Process FX revaluation jobs (initialize worker)
+ */
+export function processFxRevaluationQueue(): Worker<
+  FxRevaluationQueueJobData,
+  FxRevaluationQueueJobResult
+> {
+  if (fxRevaluationWorker) {
+    return fxRevaluationWorker
+  }
+
+  fxRevaluationWorker = new Worker<
+    FxRevaluationQueueJobData,
+    FxRevaluationQueueJobResult
+  >(
+    FX_REVALUATION_QUEUE_NAME,
+    async (job: Job<FxRevaluationQueueJobData>) => {
+      logger.info(`Processing FX revaluation job ${job.id}`, {
+        jobId: job.id,
+        name: job.name,
+        attemptsMade: job.attemptsMade,
+      })
+
+      if (job.name === FX_REVALUATION_JOB_NAMES.SCAN_ENDED_PERIODS) {
+        return scanEndedPeriods()
+      }
+
+      return revalue(job as Job<FxRevaluationJobData>)
+    },
+    {
+      connection: bullMQConnection,
+      concurrency: FX_REVALUATION_WORKER_CONCURRENCY,
+    }
+  )
+
+  fxRevaluationWorker.on('failed', (job, error) => {
+    if (job) {
+      logger.error(`Worker failed FX revaluation job ${job.id}:`, {
+        jobId: job.id,
+        error: error.message,
+        attemptsMade: job.attemptsMade,
+        maxAttempts: job.opts.attempts,
+      })
+    }
+  })
+
+  fxRevaluationWorker.on('error', (error) => {
+    logger.error('FX revaluation worker error:', error)
+  })
+
+  logger.info(
+    `FX revaluation worker initialized (concurrency: ${FX_REVALUATION_WORKER_CONCURRENCY})`
+  )
+
+  return fxRevaluationWorker
+}
+
+/**
+ * Close FX revaluation queue and worker
+ */
+export async function closeFxRevaluationQueue(): Promise<void> {
+  const promises: Promise<void>[] = []
+
+  if (fxRevaluationWorker) {
+    promises.push(fxRevaluationWorker.close())
+    fxRevaluationWorker = null
+  }
+
+  if (queueEvents) {
+    promises.push(queueEvents.close())
+    queueEvents = null
+  }
+
+  if (fxRevaluationQueue) {
+    promises.push(fxRevaluationQueue.close())
+    fxRevaluationQueue = null
+  }
+
+  await Promise.all(promises)
+  logger.info('FX revaluation queue closed')
+}
@@ -0,0 +1,380 @@
+/**
+ * Recurring Journal Queue
+ * Generates journal entries from recurring templates on their schedule using BullMQ
+ */
+
+import { Job, Queue, QueueEvents, Worker } from 'bullmq'
+
+import type {
+  RecurringJobData,
+  RecurringJobResult,
+  RecurringScanResult,
+} from '@/types/recurringJournal.type'
+import { env } from '@config/env'
+import logger from '@config/logger'
+import { bullMQConnection } from '@config/redis'
+import { AUDIT_ACTIONS, AUDIT_ENTITY_TYPES } from '@constants/audit'
+import {
+  RECURRING_JOB_NAMES,
+  RECURRING_MAX_OCCURRENCES_PER_JOB,
+  RECURRING_QUEUE_NAME,
+  RECURRING_SCAN_SCHEDULER_ID,
+  RECURRING_SYSTEM_ACTOR,
+  RECURRING_WORKER_CONCURRENCY,
+} from '@constants/recurringJournal'
+import { Tenant } from '@models/Tenant'
+import {
+  findDueRecurringTemplateIds,
+  generateRecurringOccurrence,
+  recordRecurringFailure,
+} from '@queries/recurringJournal.queries'
+import { auditAction } from '@services/audit.service'
+
+/**
+ * Scan jobs carry no data, generate jobs identify a single template
+ */
+type RecurringQueueJobData = RecurringJobData | Record<string, never>
+
+type RecurringQueueJobResult = RecurringJobResult | RecurringScanResult | null
+
+/**
+ * Recurring journal queue instance
+ */
+let recurringQueue: Queue<RecurringQueueJobData> | null = null
+
+/**
+ * Recurring journal worker instance
+ */
+let recurringWorker: Worker<
+  RecurringQueueJobData,
+  RecurringQueueJobResult
+> | null = null
+
+/**
+ * Queue events instance
+ */
+let queueEvents: QueueEvents | null = null
+
+/**
+ * Default job options
+ * Failed jobs are removed so a resumed template can be queued again
+ */
+const defaultJobOptions = {
+  attempts: env.RECURRING_QUEUE_ATTEMPTS,
+  backoff: {
+    type: 'exponential' as const,
+    delay: env.RECURRING_QUEUE_BACKOFF_DELAY,
+  },
+  removeOnComplete: true,
+  removeOnFail: true,
+}
+
+/**
+ * Initialize recurring journal queue
+ */
+export function initializeRecurringQueue(): Queue<RecurringQueueJobData> {
+  if (recurringQueue) {
+    return recurringQueue
+  }
+
+  recurringQueue = new Queue<RecurringQueueJobData>(RECURRING_QUEUE_NAME, {
+    connection: bullMQConnection,
+    defaultJobOptions,
+  })
+
+  logger.info('Recurring journal queue initialized')
+
+  return recurringQueue
+}
+
+/**
+ * Initialize queue events
+ */
+export function initializeRecurringQueueEvents(): QueueEvents {
+  if (queueEvents) {
+    return queueEvents
+  }
+
+  queueEvents = new QueueEvents(RECURRING_QUEUE_NAME, {
+    connection: bullMQConnection,
+  })
+
+  queueEvents.on('completed', ({ jobId }) => {
+    logger.debug(`Recurring journal job ${jobId} completed`)
+  })
+
+  queueEvents.on('failed', ({ jobId, failedReason }) => {
+    logger.error(`Recurring journal job ${jobId} failed:`, {
+      jobId,
+      error: failedReason,
+    })
+  })
+
+  queueEvents.on('stalled', ({ jobId }) => {
+    logger.warn(`Recurring journal job ${jobId} stalled`)
+  })
+
+  logger.info('Recurring journal queue events initialized')
+
+  return queueEvents
+}
+
+/**
+ * Get recurring journal queue instance
+ */
+export function getRecurringQueue(): Queue<RecurringQueueJobData> {
+  if (!recurringQueue) {
+    return initializeRecurringQueue()
+  }
+  return recurringQueue
+}
+
+/**
+ * Schedule the recurring scan for due templates
+ * Upserting keeps a single scheduler when several workers start
+ */
+export async function scheduleRecurringScan(): Promise<void> {
+  const queue = getRecurringQueue()
+
+  await queue.upsertJobScheduler(
+    RECURRING_SCAN_SCHEDULER_ID,
+    { pattern: env.RECURRING_SCAN_CRON },
+    {
+      name: RECURRING_JOB_NAMES.SCAN_DUE_TEMPLATES,
+      data: {},
+      opts: { attempts: 1, removeOnFail: true },
+    }
+  )
+
+  logger.info(`Recurring journal scan scheduled (${env.RECURRING_SCAN_CRON})`)
+}
+
+/**
+ * Add a generate job for a single template
+ * The job ID is derived from the template so a template is never queued twice
+ */
+export async function addRecurringJob(
+  data: RecurringJobData
+): Promise<Job<RecurringQueueJobData>> {
+  const queue = getRecurringQueue()
+
+  return queue.add(RECURRING_JOB_NAMES.GENERATE_ENTRIES, data, {
+    ...defaultJobOptions,
+    jobId: `generate-${data.tenantId}-${data.templateId}`,
+  })
+}
+
+/**
+ * Queue a generate job for every due template of every active tenant
+ * A failing tenant is logged and skipped so the others are still scanned
+ */
+async function scanDueTemplates(): Promise<RecurringScanResult> {
+  const tenants = await Tenant.findActive()
+  let queued = 0
+
+  for (const tenant of tenants) {
+    try {
+      const templateIds = await findDueRecurringTemplateIds(
+        tenant.id,
+        tenant.schemaName
+      )
+
+      for (const templateId of templateIds) {
+        await addRecurringJob({
+          tenantId: tenant.id,
+          schemaName: tenant.schemaName,
+          templateId,
+        })
+        queued += 1
+      }
+    } catch (error) {
+      logger.error(
+        `Failed to scan recurring templates for tenant ${tenant.id}:`,
+        {
+          tenantId: tenant.id,
+          error: error instanceof Error ? error.message : error,
+        }
+      )
+    }
+  }
+
+  logger.info(`Queued ${queued} recurring templates`, {
+    tenants: tenants.length,
+    queued,
+  })
+
+  return { tenants: tenants.length, queued }
+}
+
+/**
+ * Generate every due occurrence of a template
+ * Each occurrence is committed on its own, so a retry continues after the last
+ * generated entry. Failures are recorded before BullMQ retries the job and the
+ * template is paused once no retries are left.
+ */
+async function generateEntries(
+  job: Job<RecurringJobData>
+): Promise<RecurringJobResult> {
+  const { tenantId, schemaName, templateId } = job.data
+  const entryIds: string[] = []
+
+  try {
+    while (entryIds.length < RECURRING_MAX_OCCURRENCES_PER_JOB) {
+      const result = await generateRecurringOccurrence(
+        tenantId,
+        schemaName,
+        templateId
+      )
+
+      if (!result) {
+        break
+      }
+
+      entryIds.push(result.entry.id)
+
+      try {
+        await auditAction(
+          AUDIT_ACTIONS.RECURRING_TEMPLATE_ENTRY_GENERATED,
+          [
+            {
+              type: AUDIT_ENTITY_TYPES.RECURRING_JOURNAL_TEMPLATE,
+              id: templateId,
+              name: result.template.name,
+              journalEntryId: result.entry.id,
+              entryNumber: result.entry.entryNumber,
+              status: result.entry.status,
+              actingAs: result.template.createdBy,
+            },
+          ],
+          {
+            actor: RECURRING_SYSTEM_ACTOR,
+            tenantId,
+          }
+        )
+      } catch (auditError) {
+        logger.error('Failed to create audit log for recurring entry:', {
+          auditError,
+        })
+      }
+    }
+
+    return { templateId, entryIds }
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error)
+    const isFinalAttempt = job.attemptsMade + 1 >= (job.opts.attempts ?? 1)
+
+    try {
+      await recordRecurringFailure(
+        tenantId,
+        schemaName,
+        templateId,
+        errorMessage,
+        isFinalAttempt
+      )
+
+      if (isFinalAttempt) {
+        await auditAction(
+          AUDIT_ACTIONS.RECURRING_TEMPLATE_GENERATION_FAILED,
+          [
+            {
+              type: AUDIT_ENTITY_TYPES.RECURRING_JOURNAL_TEMPLATE,
+              id: templateId,
+              error: errorMessage,
+              attempts: job.attemptsMade + 1,
+            },
+          ],
+          {
+            actor: RECURRING_SYSTEM_ACTOR,
+            tenantId,
+            success: false,
+          }
+        )
+      }
+    } catch (recordError) {
+      logger.error('Failed to record recurring journal failure:', {
+        recordError,
+      })
+    }
+
+    throw error
+  }
+}
+
+/**
+ * Process recurring journal jobs (initialize worker)
+ */
+export function processRecurringQueue(): Worker<
+  RecurringQueueJobData,
+  RecurringQueueJobResult
+> {
+  if (recurringWorker) {
+    return recurringWorker
+  }
+
+  recurringWorker = new Worker<RecurringQueueJobData, RecurringQueueJobResult>(
+    RECURRING_QUEUE_NAME,
+    async (job: Job<RecurringQueueJobData>) => {
+      logger.info(`Processing recurring journal job ${job.id}`, {
+        jobId: job.id,
+        name: job.name,
+        attemptsMade: job.attemptsMade,
+      })
+
+      if (job.name === RECURRING_JOB_NAMES.SCAN_DUE_TEMPLATES) {
+        return scanDueTemplates()
+      }
+
+      return generateEntries(job as Job<RecurringJobData>)
+    },
+    {
+      connection: bullMQConnection,
+      concurrency: RECURRING_WORKER_CONCURRENCY,
+    }
+  )
+
+  recurringWorker.on('failed', (job, error) => {
+    if (job) {
+      logger.error(`Worker failed recurring journal job ${job.id}:`, {
+        jobId: job.id,
+        error: error.message,
+        attemptsMade: job.attemptsMade,
+        maxAttempts: job.opts.attempts,
+      })
+    }
+  })
+
+  recurringWorker.on('error', (error) => {
+    logger.error('Recurring journal worker error:', error)
+  })
+
+  logger.info(
+    `Recurring journal worker initialized (concurrency: ${RECURRING_WORKER_CONCURRENCY})`
+  )
+
+  return recurringWorker
+}
+
+/**
+ * Close recurring journal queue and worker
+ */
+export async function closeRecurringQueue(): Promise<void> {
+  const promises: Promise<void>[] = []
+
+  if (recurringWorker) {
+    promises.push(recurringWorker.close())
+    recurringWorker = null
+  }
+
+  if (queueEvents) {
+    promises.push(queueEvents.close())
+    queueEvents = null
+  }
+
+  if (recurringQueue) {
+    promises.push(recurringQueue.close())
+    recurringQueue = null
+  }
+
+  await Promise.all(promises)
+  logger.info('Recurring journal queue closed')
+}
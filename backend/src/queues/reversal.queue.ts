@@ -0,0 +1,372 @@
+/**
+ * Reversal Queue
+ * Reverses posted journal entries on their reversal date using BullMQ
+ */
+
+import { Job, Queue, QueueEvents, Worker } from 'bullmq'
+
+import type {
+  ReversalJobData,
+  ReversalJobResult,
+  ReversalScanResult,
+} from '@/types/journalEntry.type'
+import { env } from '@config/env'
+import logger from '@config/logger'
+import { bullMQConnection } from '@config/redis'
+import { AUDIT_ACTIONS, AUDIT_ENTITY_TYPES } from '@constants/audit'
+import {
+  REVERSAL_JOB_NAMES,
+  REVERSAL_QUEUE_NAME,
+  REVERSAL_SCAN_SCHEDULER_ID,
+  REVERSAL_SYSTEM_ACTOR,
+  REVERSAL_WORKER_CONCURRENCY,
+} from '@constants/reversal'
+import { Tenant } from '@models/Tenant'
+import {
+  findDueReversalIds,
+  recordReversalFailure,
+  runScheduledReversal,
+} from '@queries/scheduledReversal.queries'
+import { auditAction } from '@services/audit.service'
+
+/**
+ * Scan jobs carry no data, reverse jobs identify a single entry
+ */
+type ReversalQueueJobData = ReversalJobData | Record<string, never>
+
+type ReversalQueueJobResult = ReversalJobResult | ReversalScanResult | null
+
+/**
+ * Reversal queue instance
+ */
+let reversalQueue: Queue<ReversalQueueJobData> | null = null
+
+/**
+ * Reversal worker instance
+ */
+let reversalWorker: Worker<
+  ReversalQueueJobData,
+  ReversalQueueJobResult
+> | null = null
+
+/**
+ * Queue events instance
+ */
+let queueEvents: QueueEvents | null = null
+
+/**
+ * Default job options
+ * Failed reverse jobs are kept so they can be inspected in Redis
+ */
+const defaultJobOptions = {
+  attempts: env.REVERSAL_QUEUE_ATTEMPTS,
+  backoff: {
+    type: 'exponential' as const,
+    delay: env.REVERSAL_QUEUE_BACKOFF_DELAY,
+  },
+  removeOnComplete: true,
+  removeOnFail: false,
+}
+
+/**
+ * Initialize reversal queue
+ */
+export function initializeReversalQueue(): Queue<ReversalQueueJobData> {
+  if (reversalQueue) {
+    return reversalQueue
+  }
+
+  reversalQueue = new Queue<ReversalQueueJobData>(REVERSAL_QUEUE_NAME, {
+    connection: bullMQConnection,
+    defaultJobOptions,
+  })
+
+  logger.info('Reversal queue initialized')
+
+  return reversalQueue
+}
+
+/**
+ * Initialize queue events
+ */
+export function initializeReversalQueueEvents(): QueueEvents {
+  if (queueEvents) {
+    return queueEvents
+  }
+
+  queueEvents = new QueueEvents(REVERSAL_QUEUE_NAME, {
+    connection: bullMQConnection,
+  })
+
+  queueEvents.on('completed', ({ jobId }) => {
+    logger.debug(`Reversal job ${jobId} completed`)
+  })
+
+  queueEvents.on('failed', ({ jobId, failedReason }) => {
+    logger.error(`Reversal job ${jobId} failed:`, {
+      jobId,
+      error: failedReason,
+    })
+  })
+
+  queueEvents.on('stalled', ({ jobId }) => {
+    logger.warn(`Reversal job ${jobId} stalled`)
+  })
+
+  logger.info('Reversal queue events initialized')
+
+  return queueEvents
+}
+
+/**
+ * Get reversal queue instance
+ */
+export function getReversalQueue(): Queue<ReversalQueueJobData> {
+  if (!reversalQueue) {
+    return initializeReversalQueue()
+  }
+  return reversalQueue
+}
+
+/**
+ * Schedule the recurring scan for due reversals
+ * Upserting keeps a single scheduler when several workers start
+ */
+export async function scheduleReversalScan(): Promise<void> {
+  const queue = getReversalQueue()
+
+  await queue.upsertJobScheduler(
+    REVERSAL_SCAN_SCHEDULER_ID,
+    { pattern: env.REVERSAL_SCAN_CRON },
+    {
+      name: REVERSAL_JOB_NAMES.SCAN_DUE_REVERSALS,
+      data: {},
+      opts: { attempts: 1, removeOnFail: true },
+    }
+  )
+
+  logger.info(`Reversal scan scheduled (${env.REVERSAL_SCAN_CRON})`)
+}
+
+/**
+ * Add a reverse job for a single entry
+ * The job ID is derived from the entry so an entry is never queued twice
+ */
+export async function addReversalJob(
+  data: ReversalJobData
+): Promise<Job<ReversalQueueJobData>> {
+  const queue = getReversalQueue()
+
+  return queue.add(REVERSAL_JOB_NAMES.REVERSE_ENTRY, data, {
+    ...defaultJobOptions,
+    jobId: `reverse-${data.tenantId}-${data.journalEntryId}`,
+  })
+}
+
+/**
+ * Queue a reverse job for every due entry of every active tenant
+ * A failing tenant is logged and skipped so the others are still scanned
+ */
+async function scanDueReversals(): Promise<ReversalScanResult> {
+  const tenants = await Tenant.findActive()
+  let queued = 0
+
+  for (const tenant of tenants) {
+    try {
+      const entryIds = await findDueReversalIds(tenant.id, tenant.schemaName)
+
+      for (const journalEntryId of entryIds) {
+        await addReversalJob({
+          tenantId: tenant.id,
+          schemaName: tenant.schemaName,
+          journalEntryId,
+        })
+        queued += 1
+      }
+    } catch (error) {
+      logger.error(`Failed to scan due reversals for tenant ${tenant.id}:`, {
+        tenantId: tenant.id,
+        error: error instanceof Error ? error.message : error,
+      })
+    }
+  }
+
+  logger.info(`Queued ${queued} scheduled reversals`, {
+    tenants: tenants.length,
+    queued,
+  })
+
+  return { tenants: tenants.length, queued }
+}
+
+/**
+ * Reverse a single entry, recording the failure before BullMQ retries it
+ */
+async function reverseEntry(
+  job: Job<ReversalJobData>
+): Promise<ReversalJobResult | null> {
+  const { tenantId, schemaName, journalEntryId } = job.data
+
+  try {
+    const result = await runScheduledReversal(
+      tenantId,
+      schemaName,
+      journalEntryId
+    )
+
+    if (!result) {
+      logger.info(`Journal entry ${journalEntryId} is no longer pending`, {
+        tenantId,
+        journalEntryId,
+      })
+      return null
+    }
+
+    try {
+      await auditAction(
+        AUDIT_ACTIONS.JOURNAL_ENTRY_AUTO_REVERSED,
+        [
+          {
+            type: AUDIT_ENTITY_TYPES.JOURNAL_ENTRY,
+            id: result.entry.id,
+            entryNumber: result.entry.entryNumber,
+            reversingEntryId: result.reversal.id,
+            reversingEntryNumber: result.reversal.entryNumber,
+            actingAs: result.actingAs,
+          },
+        ],
+        {
+          actor: REVERSAL_SYSTEM_ACTOR,
+          tenantId,
+        }
+      )
+    } catch (auditError) {
+      logger.error('Failed to create audit log for scheduled reversal:', {
+        auditError,
+      })
+    }
+
+    return {
+      journalEntryId,
+      reversingEntryId: result.reversal.id,
+      actingAs: result.actingAs,
+    }
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error)
+    const isFinalAttempt = job.attemptsMade + 1 >= (job.opts.attempts ?? 1)
+
+    try {
+      await recordReversalFailure(
+        tenantId,
+        schemaName,
+        journalEntryId,
+        errorMessage,
+        isFinalAttempt
+      )
+
+      if (isFinalAttempt) {
+        await auditAction(
+          AUDIT_ACTIONS.JOURNAL_ENTRY_AUTO_REVERSAL_FAILED,
+          [
+            {
+              type: AUDIT_ENTITY_TYPES.JOURNAL_ENTRY,
+              id: journalEntryId,
+              error: errorMessage,
+              attempts: job.attemptsMade + 1,
+            },
+          ],
+          {
+            actor: REVERSAL_SYSTEM_ACTOR,
+            tenantId,
+            success: false,
+          }
+        )
+      }
+    } catch (recordError) {
+      logger.error('Failed to record scheduled reversal failure:', {
+        recordError,
+      })
+    }
+
+    throw error
+  }
+}
+
+/**
+ * Process reversal jobs (initialize worker)
+ */
+export function processReversalQueue(): Worker<
+  ReversalQueueJobData,
+  ReversalQueueJobResult
+> {
+  if (reversalWorker) {
+    return reversalWorker
+  }
+
+  reversalWorker = new Worker<ReversalQueueJobData, ReversalQueueJobResult>(
+    REVERSAL_QUEUE_NAME,
+    async (job: Job<ReversalQueueJobData>) => {
+      logger.info(`Processing reversal job ${job.id}`, {
+        jobId: job.id,
+        name: job.name,
+        attemptsMade: job.attemptsMade,
+      })
+
+      if (job.name === REVERSAL_JOB_NAMES.SCAN_DUE_REVERSALS) {
+        return scanDueReversals()
+      }
+
+      return reverseEntry(job as Job<ReversalJobData>)
+    },
+    {
+      connection: bullMQConnection,
+      concurrency: REVERSAL_WORKER_CONCURRENCY,
+    }
+  )
+
+  reversalWorker.on('failed', (job, error) => {
+    if (job) {
+      logger.error(`Worker failed reversal job ${job.id}:`, {
+        jobId: job.id,
+        error: error.message,
+        attemptsMade: job.attemptsMade,
+        maxAttempts: job.opts.attempts,
+      })
+    }
+  })
+
+  reversalWorker.on('error', (error) => {
+    logger.error('Reversal worker error:', error)
+  })
+
+  logger.info(
+    `Reversal worker initialized (concurrency: ${REVERSAL_WORKER_CONCURRENCY})`
+  )
+
+  return reversalWorker
+}
+
+/**
+ * Close reversal queue and worker
+ */
+export async function closeReversalQueue(): Promise<void> {
+  const promises: Promise<void>[] = []
+
+  if (reversalWorker) {
+    promises.push(reversalWorker.close())
+    reversalWorker = null
+  }
+
+  if (queueEvents) {
+    promises.push(queueEvents.close())
+    queueEvents = null
+  }
+
+  if (reversalQueue) {
+    promises.push(reversalQueue.close())
+    reversalQueue = null
+  }
+
+  await Promise.all(promises)
+  logger.info('Reversal queue closed')
+}
@@ -0,0 +1,693 @@
+import { Router, type Router as RouterType } from 'express'
+
+import { ROLES } from '@constants/roles'
+import {
+  cancelBankReconciliationController,
+  clearBankReconciliationLinesController,
+  completeBankReconciliationController,
+  getAllBankReconciliations,
+  getBankReconciliationById,
+  getBankReconciliationLines,
+  getBankReconciliationReport,
+  startBankReconciliationController,
+  undoBankReconciliationController,
+  updateBankReconciliationController,
+} from '@controllers/bankReconciliation.controller'
+import { authenticate, authorize } from '@middlewares/auth.middleware'
+import {
+  requireTenantContext,
+  setTenantContext,
+} from '@middlewares/tenantContext.middleware'
+import { validate } from '@middlewares/validate.middleware'
+import {
+  bankReconciliationIdSchema,
+  bankReconciliationLinesSchema,
+  bankReconciliationListSchema,
+  clearBankReconciliationLinesSchema,
+  startBankReconciliationSchema,
+  updateBankReconciliationSchema,
+} from '@schema/bankReconciliation.schema'
+
+const router: RouterType = Router()
+
+/**
+ * Roles and permission allowed to reconcile bank accounts
+ */
+const authorizeReconciliation = authorize({
+  roles: [ROLES.SUPERADMIN, ROLES.ADMIN, ROLES.ACCOUNTANT, ROLES.BOOKKEEPER],
+  permissions: ['reconcile_accounts'],
+})
+
+/**
+ * @swagger
+ * /bank-reconciliations:
+ *   get:
+ *     summary: Retrieve all bank reconciliations
+ *     description: Retrieves bank reconciliations, most recent statement first.
+ *     tags: [Bank Reconciliations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *       - in: query
+ *         name: accountId
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Filter by bank account
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [in_progress, completed, undone]
+ *     responses:
+ *       200:
+ *         description: Bank reconciliations retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 statusCode:
+ *                   type: integer
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     items:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/BankReconciliation'
+ *                     pagination:
+ *                       $ref: '#/components/schemas/Pagination'
+ *       401:
+ *         description: User not authenticated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Tenant context required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get(
+  '/',
+  authenticate,
+  setTenantContext,
+  requireTenantContext,
+  validate(bankReconciliationListSchema, 'query'),
+  getAllBankReconciliations
+)
+
+/**
+ * @swagger
+ * /bank-reconciliations:
+ *   post:
+ *     summary: Start a bank reconciliation
+ *     description: |
+ *       Starts reconciling a bank account against a statement. The bank account must be linked to a chart of accounts entry,
+ *       whose posted journal lines are the ones ticked as cleared.
+ *       The opening balance is the ending balance of the last completed reconciliation, or the bank account opening balance.
+ *       Only one reconciliation can be in progress per bank account, and the statement date must follow the last completed one.
+ *       Requires the admin, accountant, bookkeeper or super admin role, or the reconcile_accounts permission.
+ *     tags: [Bank Reconciliations]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - accountId
+ *               - statementDate
+ *               - statementEndingBalance
+ *             properties:
+ *               accountId:
+ *                 type: string
+ *                 format: uuid
+ *               statementDate:
+ *                 type: string
+ *                 format: date
+ *                 example: '2025-12-31'
+ *               statementEndingBalance:
+ *                 type: number
+ *                 example: 12500.75
+ *     responses:
+ *       201:
+ *         description: Bank reconciliation started successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 statusCode:
+ *                   type: integer
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   $ref: '#/components/schemas/BankReconciliation'
+ *       400:
+ *         description: Validation error, no linked chart of accounts entry or statement date not after the last reconciliation
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Not allowed to reconcile accounts
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Bank account not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       409:
+ *         description: A reconciliation is already in progress for this account
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post(
+  '/',
+  authenticate,
+  authorizeReconciliation,
+  setTenantContext,
+  requireTenantContext,
+  validate(startBankReconciliationSchema),
+  startBankReconciliationController
+)
+
+/**
+ * @swagger
+ * /bank-reconciliations/{id}:
+ *   get:
+ *     summary: Get bank reconciliation by ID
+ *     description: Retrieves a bank reconciliation with its cleared totals and the difference to the statement ending balance.
+ *     tags: [Bank Reconciliations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Bank reconciliation retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 statusCode:
+ *                   type: integer
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   $ref: '#/components/schemas/BankReconciliation'
+ *       404:
+ *         description: Bank reconciliation not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get(
+  '/:id',
+  authenticate,
+  setTenantContext,
+  requireTenantContext,
+  validate(bankReconciliationIdSchema, 'params'),
+  getBankReconciliationById
+)
+
+/**
+ * @swagger
+ * /bank-reconciliations/{id}:
+ *   patch:
+ *     summary: Update a bank reconciliation
+ *     description: |
+ *       Changes the statement date or ending balance of a reconciliation in progress.
+ *       Moving the statement date back unclears the lines of the session dated after it.
+ *     tags: [Bank Reconciliations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               statementDate:
+ *                 type: string
+ *                 format: date
+ *               statementEndingBalance:
+ *                 type: number
+ *     responses:
+ *       200:
+ *         description: Bank reconciliation updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 statusCode:
+ *                   type: integer
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   $ref: '#/components/schemas/BankReconciliation'
+ *       400:
+ *         description: Validation error or statement date not after the last reconciliation
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Bank reconciliation not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       409:
+ *         description: Bank reconciliation is not in progress
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.patch(
+  '/:id',
+  authenticate,
+  authorizeReconciliation,
+  setTenantContext,
+  requireTenantContext,
+  validate(bankReconciliationIdSchema, 'params'),
+  validate(updateBankReconciliationSchema),
+  updateBankReconciliationController
+)
+
+/**
+ * @swagger
+ * /bank-reconciliations/{id}:
+ *   delete:
+ *     summary: Cancel a bank reconciliation
+ *     description: Discards a reconciliation in progress. Lines ticked in the session are uncleared.
+ *     tags: [Bank Reconciliations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Bank reconciliation cancelled successfully
+ *       404:
+ *         description: Bank reconciliation not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       409:
+ *         description: Bank reconciliation is not in progress
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.delete(
+  '/:id',
+  authenticate,
+  authorizeReconciliation,
+  setTenantContext,
+  requireTenantContext,
+  validate(bankReconciliationIdSchema, 'params'),
+  cancelBankReconciliationController
+)
+
+/**
+ * @swagger
+ * /bank-reconciliations/{id}/lines:
+ *   get:
+ *     summary: Retrieve reconciliation lines
+ *     description: |
+ *       Lists the posted journal lines on the linked chart of accounts entry dated up to the statement date
+ *       that are not cleared yet or were cleared in this reconciliation.
+ *       Deposits debit the account and payments credit it, in the bank account currency.
+ *     tags: [Bank Reconciliations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *       - in: query
+ *         name: cleared
+ *         schema:
+ *           type: boolean
+ *         description: Only cleared (true) or uncleared (false) lines
+ *     responses:
+ *       200:
+ *         description: Reconciliation lines retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 statusCode:
+ *                   type: integer
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     items:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/BankReconciliationLine'
+ *                     summary:
+ *                       $ref: '#/components/schemas/BankReconciliationSummary'
+ *                     pagination:
+ *                       $ref: '#/components/schemas/Pagination'
+ *       404:
+ *         description: Bank reconciliation not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get(
+  '/:id/lines',
+  authenticate,
+  setTenantContext,
+  requireTenantContext,
+  validate(bankReconciliationIdSchema, 'params'),
+  validate(bankReconciliationLinesSchema, 'query'),
+  getBankReconciliationLines
+)
+
+/**
+ * @swagger
+ * /bank-reconciliations/{id}/lines/clear:
+ *   post:
+ *     summary: Clear or unclear reconciliation lines
+ *     description: Ticks or unticks lines in a reconciliation in progress and returns the updated difference.
+ *     tags: [Bank Reconciliations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - lineIds
+ *               - cleared
+ *             properties:
+ *               lineIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   format: uuid
+ *               cleared:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Cleared lines updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 statusCode:
+ *                   type: integer
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   $ref: '#/components/schemas/BankReconciliation'
+ *       400:
+ *         description: Validation error or a line cannot be cleared in this reconciliation
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       409:
+ *         description: Bank reconciliation is not in progress
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post(
+  '/:id/lines/clear',
+  authenticate,
+  authorizeReconciliation,
+  setTenantContext,
+  requireTenantContext,
+  validate(bankReconciliationIdSchema, 'params'),
+  validate(clearBankReconciliationLinesSchema),
+  clearBankReconciliationLinesController
+)
+
+/**
+ * @swagger
+ * /bank-reconciliations/{id}/finalize:
+ *   post:
+ *     summary: Finalize a bank reconciliation
+ *     description: |
+ *       Completes a reconciliation once the difference is zero. The reconciliation report is saved and the
+ *       bank account records the statement date and ending balance as its last reconciliation.
+ *     tags: [Bank Reconciliations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Bank reconciliation finalized successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 statusCode:
+ *                   type: integer
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   $ref: '#/components/schemas/BankReconciliation'
+ *       400:
+ *         description: Difference is not zero
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       409:
+ *         description: Bank reconciliation is not in progress
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post(
+  '/:id/finalize',
+  authenticate,
+  authorizeReconciliation,
+  setTenantContext,
+  requireTenantContext,
+  validate(bankReconciliationIdSchema, 'params'),
+  completeBankReconciliationController
+)
+
+/**
+ * @swagger
+ * /bank-reconciliations/{id}/report:
+ *   get:
+ *     summary: Get bank reconciliation report
+ *     description: Retrieves the report saved when the reconciliation was finalized, including outstanding deposits and payments.
+ *     tags: [Bank Reconciliations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Reconciliation report retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 statusCode:
+ *                   type: integer
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   $ref: '#/components/schemas/BankReconciliationReport'
+ *       404:
+ *         description: Bank reconciliation not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       409:
+ *         description: Bank reconciliation has not been finalized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get(
+  '/:id/report',
+  authenticate,
+  setTenantContext,
+  requireTenantContext,
+  validate(bankReconciliationIdSchema, 'params'),
+  getBankReconciliationReport
+)
+
+/**
+ * @swagger
+ * /bank-reconciliations/{id}/undo:
+ *   post:
+ *     summary: Undo a bank reconciliation
+ *     description: |
+ *       Reopens the lines of the latest completed reconciliation of a bank account. Its lines are uncleared and the
+ *       bank account goes back to the previous reconciled balance. Earlier reconciliations cannot be undone,
+ *       and no reconciliation may be in progress for the account.
+ *     tags: [Bank Reconciliations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Bank reconciliation undone successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 statusCode:
+ *                   type: integer
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   $ref: '#/components/schemas/BankReconciliation'
+ *       404:
+ *         description: Bank reconciliation not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       409:
+ *         description: Not completed, not the latest reconciliation, or another reconciliation is in progress
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post(
+  '/:id/undo',
+  authenticate,
+  authorizeReconciliation,
+  setTenantContext,
+  requireTenantContext,
+  validate(bankReconciliationIdSchema, 'params'),
+  undoBankReconciliationController
+)
+
+export default router
@@ -0,0 +1,581 @@
+import { Router, type Router as RouterType } from 'express'
+
+import { ROLES } from '@constants/roles'
+import {
+  applyBankRulesController,
+  createBankRuleController,
+  deleteBankRuleById,
+  getAllBankRules,
+  getBankRuleById,
+  reorderBankRulesController,
+  testBankRuleController,
+  updateBankRuleController,
+} from '@controllers/bankRule.controller'
+import { authenticate, authorize } from '@middlewares/auth.middleware'
+import {
+  requireTenantContext,
+  setTenantContext,
+} from '@middlewares/tenantContext.middleware'
+import { validate } from '@middlewares/validate.middleware'
+import {
+  applyBankRulesSchema,
+  bankRuleIdSchema,
+  bankRuleListSchema,
+  createBankRuleSchema,
+  reorderBankRulesSchema,
+  testBankRuleSchema,
+  updateBankRuleSchema,
+} from '@schema/bankRule.schema'
+
+const router: RouterType = Router()
+
+/**
+ * Roles and permission allowed to manage categorization rules
+ */
+const authorizeBankRules = authorize({
+  roles: [ROLES.SUPERADMIN, ROLES.ADMIN, ROLES.ACCOUNTANT, ROLES.BOOKKEEPER],
+  permissions: ['manage_bank_transactions'],
+})
+
+/**
+ * @swagger
+ * /transactions/rules:
+ *   get:
+ *     summary: Retrieve bank rules
+ *     description: Retrieves categorization rules in priority order.
+ *     tags: [Bank Rules]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *       - in: query
+ *         name: isActive
+ *         schema:
+ *           type: boolean
+ *       - in: query
+ *         name: accountId
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Only rules limited to this bank account
+ *     responses:
+ *       200:
+ *         description: Bank rules retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 statusCode:
+ *                   type: integer
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     items:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/BankCategorizationRule'
+ *                     pagination:
+ *                       $ref: '#/components/schemas/Pagination'
+ *       401:
+ *         description: User not authenticated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Tenant context required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get(
+  '/',
+  authenticate,
+  setTenantContext,
+  requireTenantContext,
+  validate(bankRuleListSchema, 'query'),
+  getAllBankRules
+)
+
+/**
+ * @swagger
+ * /transactions/rules:
+ *   post:
+ *     summary: Create a bank rule
+ *     description: |
+ *       Creates a rule categorizing matching bank transactions, for example
+ *       description contains "SHELL" and amount less than 200 to a fuel expense account.
+ *       Amount conditions compare the absolute amount. Rules without a priority are tried after the existing ones.
+ *     tags: [Bank Rules]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/BankCategorizationRuleInput'
+ *     responses:
+ *       201:
+ *         description: Bank rule created successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 statusCode:
+ *                   type: integer
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   $ref: '#/components/schemas/BankCategorizationRule'
+ *       400:
+ *         description: Validation error or inactive category account
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Bank account, category account or tax group not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post(
+  '/',
+  authenticate,
+  authorizeBankRules,
+  setTenantContext,
+  requireTenantContext,
+  validate(createBankRuleSchema),
+  createBankRuleController
+)
+
+/**
+ * @swagger
+ * /transactions/rules/test:
+ *   post:
+ *     summary: Test a bank rule
+ *     description: |
+ *       Previews a rule without saving it. Reports how many recently categorized transactions it matches,
+ *       how many of those were categorized to its category account, and how many inbox transactions it would categorize.
+ *     tags: [Bank Rules]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - conditions
+ *               - categoryAccountId
+ *             properties:
+ *               matchType:
+ *                 type: string
+ *                 enum: [all, any]
+ *               conditions:
+ *                 type: array
+ *                 items:
+ *                   $ref: '#/components/schemas/BankRuleCondition'
+ *               transactionType:
+ *                 type: string
+ *                 enum: [any, deposit, payment]
+ *               accountId:
+ *                 type: string
+ *                 format: uuid
+ *                 nullable: true
+ *               categoryAccountId:
+ *                 type: string
+ *                 format: uuid
+ *     responses:
+ *       200:
+ *         description: Bank rule tested against categorized transactions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 statusCode:
+ *                   type: integer
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     historyChecked:
+ *                       type: integer
+ *                     historyMatched:
+ *                       type: integer
+ *                     historyAgreed:
+ *                       type: integer
+ *                     agreementRate:
+ *                       type: integer
+ *                       nullable: true
+ *                       description: Percentage of matched history categorized to the rule's account
+ *                     uncategorizedMatched:
+ *                       type: integer
+ *                     samples:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           id:
+ *                             type: string
+ *                             format: uuid
+ *                           transactionDate:
+ *                             type: string
+ *                             format: date
+ *                           amount:
+ *                             type: number
+ *                           description:
+ *                             type: string
+ *                             nullable: true
+ *                           payee:
+ *                             type: string
+ *                             nullable: true
+ *                           categoryAccountId:
+ *                             type: string
+ *                             format: uuid
+ *                           agrees:
+ *                             type: boolean
+ *       404:
+ *         description: Bank account or category account not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post(
+  '/test',
+  authenticate,
+  authorizeBankRules,
+  setTenantContext,
+  requireTenantContext,
+  validate(testBankRuleSchema),
+  testBankRuleController
+)
+
+/**
+ * @swagger
+ * /transactions/rules/apply:
+ *   post:
+ *     summary: Apply bank rules to the inbox
+ *     description: |
+ *       Categorizes uncategorized transactions with the first rule matching each of them, oldest first,
+ *       up to 500 transactions per call. Uses every active rule, or only the listed rules.
+ *       Transactions that cannot be categorized (e.g. a missing exchange rate) are reported and left in the inbox.
+ *     tags: [Bank Rules]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               ruleIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   format: uuid
+ *               accountId:
+ *                 type: string
+ *                 format: uuid
+ *                 description: Only transactions of this bank account
+ *     responses:
+ *       200:
+ *         description: Bank rules applied successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 statusCode:
+ *                   type: integer
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     checkedCount:
+ *                       type: integer
+ *                     matchedCount:
+ *                       type: integer
+ *                     categorizedCount:
+ *                       type: integer
+ *                     categorized:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           transactionId:
+ *                             type: string
+ *                             format: uuid
+ *                           ruleId:
+ *                             type: string
+ *                             format: uuid
+ *                           journalEntryId:
+ *                             type: string
+ *                             format: uuid
+ *                             nullable: true
+ *                     failures:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           transactionId:
+ *                             type: string
+ *                             format: uuid
+ *                           ruleId:
+ *                             type: string
+ *                             format: uuid
+ *                           message:
+ *                             type: string
+ *       404:
+ *         description: Bank rule not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post(
+  '/apply',
+  authenticate,
+  authorizeBankRules,
+  setTenantContext,
+  requireTenantContext,
+  validate(applyBankRulesSchema),
+  applyBankRulesController
+)
+
+/**
+ * @swagger
+ * /transactions/rules/reorder:
+ *   put:
+ *     summary: Reorder bank rules
+ *     description: Sets the priority of every rule from its position in the list. The list must contain each rule exactly once.
+ *     tags: [Bank Rules]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - ruleIds
+ *             properties:
+ *               ruleIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   format: uuid
+ *     responses:
+ *       200:
+ *         description: Bank rules reordered successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 statusCode:
+ *                   type: integer
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/BankCategorizationRule'
+ *       400:
+ *         description: The list does not contain every rule exactly once
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.put(
+  '/reorder',
+  authenticate,
+  authorizeBankRules,
+  setTenantContext,
+  requireTenantContext,
+  validate(reorderBankRulesSchema),
+  reorderBankRulesController
+)
+
+/**
+ * @swagger
+ * /transactions/rules/{id}:
+ *   get:
+ *     summary: Get bank rule by ID
+ *     tags: [Bank Rules]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Bank rule retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 statusCode:
+ *                   type: integer
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   $ref: '#/components/schemas/BankCategorizationRule'
+ *       404:
+ *         description: Bank rule not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get(
+  '/:id',
+  authenticate,
+  setTenantContext,
+  requireTenantContext,
+  validate(bankRuleIdSchema, 'params'),
+  getBankRuleById
+)
+
+/**
+ * @swagger
+ * /transactions/rules/{id}:
+ *   patch:
+ *     summary: Update a bank rule
+ *     description: Transactions already categorized by the rule are not changed.
+ *     tags: [Bank Rules]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/BankCategorizationRuleInput'
+ *     responses:
+ *       200:
+ *         description: Bank rule updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 statusCode:
+ *                   type: integer
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   $ref: '#/components/schemas/BankCategorizationRule'
+ *       400:
+ *         description: Validation error or inactive category account
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Bank rule, bank account, category account or tax group not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.patch(
+  '/:id',
+  authenticate,
+  authorizeBankRules,
+  setTenantContext,
+  requireTenantContext,
+  validate(bankRuleIdSchema, 'params'),
+  validate(updateBankRuleSchema),
+  updateBankRuleController
+)
+
+/**
+ * @swagger
+ * /transactions/rules/{id}:
+ *   delete:
+ *     summary: Delete a bank rule
+ *     description: Transactions already categorized by the rule are not changed.
+ *     tags: [Bank Rules]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Bank rule deleted successfully
+ *       404:
+ *         description: Bank rule not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.delete(
+  '/:id',
+  authenticate,
+  authorizeBankRules,
+  setTenantContext,
+  requireTenantContext,
+  validate(bankRuleIdSchema, 'params'),
+  deleteBankRuleById
+)
+
+export default router
@@ -0,0 +1,601 @@
+import { Router, type Router as RouterType } from 'express'
+
+import { ROLES } from '@constants/roles'
+import {
+  categorizeBankTransactionController,
+  excludeBankTransactionController,
+  getAllBankStatementImports,
+  getAllBankTransactions,
+  getBankTransactionById,
+  importBankStatementController,
+  previewCsvStatementController,
+  restoreBankTransactionController,
+} from '@controllers/bankTransaction.controller'
+import { authenticate, authorize } from '@middlewares/auth.middleware'
+import {
+  requireTenantContext,
+  setTenantContext,
+} from '@middlewares/tenantContext.middleware'
+import { validate } from '@middlewares/validate.middleware'
+import {
+  bankStatementImportListSchema,
+  bankTransactionIdSchema,
+  bankTransactionListSchema,
+  categorizeBankTransactionSchema,
+  importBankStatementSchema,
+  previewCsvStatementSchema,
+} from '@schema/bankTransaction.schema'
+
+const router: RouterType = Router()
+
+/**
+ * Roles and permission allowed to import and categorize bank transactions
+ */
+const authorizeBankTransactions = authorize({
+  roles: [ROLES.SUPERADMIN, ROLES.ADMIN, ROLES.ACCOUNTANT, ROLES.BOOKKEEPER],
+  permissions: ['manage_bank_transactions'],
+})
+
+/**
+ * @swagger
+ * /transactions:
+ *   get:
+ *     summary: Retrieve bank transactions
+ *     description: Retrieves imported statement lines, most recent first.
+ *     tags: [Bank Transactions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *       - in: query
+ *         name: accountId
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Filter by bank account
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [uncategorized, categorized, excluded]
+ *       - in: query
+ *         name: importId
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Only lines added by a statement import
+ *       - in: query
+ *         name: startDate
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: endDate
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: search
+ *         schema:
+ *           type: string
+ *         description: Search in description, payee and reference
+ *     responses:
+ *       200:
+ *         description: Bank transactions retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 statusCode:
+ *                   type: integer
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     items:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/BankTransaction'
+ *                     pagination:
+ *                       $ref: '#/components/schemas/Pagination'
+ *       401:
+ *         description: User not authenticated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Tenant context required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get(
+  '/',
+  authenticate,
+  setTenantContext,
+  requireTenantContext,
+  validate(bankTransactionListSchema, 'query'),
+  getAllBankTransactions
+)
+
+/**
+ * @swagger
+ * /transactions/imports:
+ *   get:
+ *     summary: Retrieve statement imports
+ *     description: Retrieves the statement files imported, most recent first, with their counts and unreadable lines.
+ *     tags: [Bank Transactions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *       - in: query
+ *         name: accountId
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Filter by bank account
+ *     responses:
+ *       200:
+ *         description: Statement imports retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 statusCode:
+ *                   type: integer
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     items:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/BankStatementImport'
+ *                     pagination:
+ *                       $ref: '#/components/schemas/Pagination'
+ */
+router.get(
+  '/imports',
+  authenticate,
+  setTenantContext,
+  requireTenantContext,
+  validate(bankStatementImportListSchema, 'query'),
+  getAllBankStatementImports
+)
+
+/**
+ * @swagger
+ * /transactions/imports/preview:
+ *   post:
+ *     summary: Preview a CSV statement
+ *     description: Returns the headers and first rows of a CSV statement so its columns can be mapped before importing.
+ *     tags: [Bank Transactions]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - content
+ *             properties:
+ *               content:
+ *                 type: string
+ *                 description: CSV file content
+ *     responses:
+ *       200:
+ *         description: Statement preview generated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 statusCode:
+ *                   type: integer
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     headers:
+ *                       type: array
+ *                       items:
+ *                         type: string
+ *                     rows:
+ *                       type: array
+ *                       items:
+ *                         type: array
+ *                         items:
+ *                           type: string
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post(
+  '/imports/preview',
+  authenticate,
+  authorizeBankTransactions,
+  setTenantContext,
+  requireTenantContext,
+  validate(previewCsvStatementSchema),
+  previewCsvStatementController
+)
+
+/**
+ * @swagger
+ * /transactions/imports:
+ *   post:
+ *     summary: Import a bank statement
+ *     description: |
+ *       Imports a CSV, OFX/QFX or CAMT.053 statement file for a bank account into the transactions inbox.
+ *       CSV files need a column mapping: a date column, and either a signed amount column or debit/credit columns.
+ *       Lines already imported for the bank account are skipped, matching on the FITID (OFX) or account servicer reference (CAMT.053),
+ *       or on a hash of the date, amount and text when the file has none. Unreadable lines are reported in the import errors.
+ *       Requires the admin, accountant, bookkeeper or super admin role, or the manage_bank_transactions permission.
+ *     tags: [Bank Transactions]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - accountId
+ *               - format
+ *               - content
+ *             properties:
+ *               accountId:
+ *                 type: string
+ *                 format: uuid
+ *               format:
+ *                 type: string
+ *                 enum: [csv, ofx, camt053]
+ *               fileName:
+ *                 type: string
+ *                 example: statement-2025-12.csv
+ *               content:
+ *                 type: string
+ *                 description: Statement file content
+ *               csv:
+ *                 type: object
+ *                 description: Required for CSV statements
+ *                 required:
+ *                   - mapping
+ *                   - dateFormat
+ *                 properties:
+ *                   mapping:
+ *                     type: object
+ *                     required:
+ *                       - date
+ *                     properties:
+ *                       date:
+ *                         type: string
+ *                       amount:
+ *                         type: string
+ *                       debit:
+ *                         type: string
+ *                       credit:
+ *                         type: string
+ *                       description:
+ *                         type: string
+ *                       payee:
+ *                         type: string
+ *                       reference:
+ *                         type: string
+ *                       fitid:
+ *                         type: string
+ *                   dateFormat:
+ *                     type: string
+ *                     enum: [YYYY-MM-DD, MM/DD/YYYY, DD/MM/YYYY]
+ *                   invertAmounts:
+ *                     type: boolean
+ *                     description: Flip the sign of the amount column
+ *     responses:
+ *       201:
+ *         description: Bank statement imported successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 statusCode:
+ *                   type: integer
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   $ref: '#/components/schemas/BankStatementImport'
+ *       400:
+ *         description: Validation error, empty or too large statement, or statement in another currency than the bank account
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Not allowed to manage bank transactions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Bank account not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post(
+  '/imports',
+  authenticate,
+  authorizeBankTransactions,
+  setTenantContext,
+  requireTenantContext,
+  validate(importBankStatementSchema),
+  importBankStatementController
+)
+
+/**
+ * @swagger
+ * /transactions/{id}:
+ *   get:
+ *     summary: Get bank transaction by ID
+ *     tags: [Bank Transactions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Bank transaction retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 statusCode:
+ *                   type: integer
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   $ref: '#/components/schemas/BankTransaction'
+ *       404:
+ *         description: Bank transaction not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get(
+  '/:id',
+  authenticate,
+  setTenantContext,
+  requireTenantContext,
+  validate(bankTransactionIdSchema, 'params'),
+  getBankTransactionById
+)
+
+/**
+ * @swagger
+ * /transactions/{id}/categorize:
+ *   post:
+ *     summary: Categorize a bank transaction
+ *     description: |
+ *       Creates a journal entry between the chart of accounts entry linked to the bank account and the category account.
+ *       Deposits debit the bank and credit the category; payments debit the category and credit the bank.
+ *       The entry is posted, or submitted for approval when approval rules apply to it.
+ *       The category account must be in the bank account currency or in the base currency.
+ *       The tax group is recorded on the transaction; the entry posts the statement amount as is.
+ *     tags: [Bank Transactions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - categoryAccountId
+ *             properties:
+ *               categoryAccountId:
+ *                 type: string
+ *                 format: uuid
+ *               taxGroupId:
+ *                 type: string
+ *                 format: uuid
+ *                 nullable: true
+ *               description:
+ *                 type: string
+ *                 description: Entry description, defaults to the statement description
+ *               memo:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Bank transaction categorized successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 statusCode:
+ *                   type: integer
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   $ref: '#/components/schemas/BankTransaction'
+ *       400:
+ *         description: No linked chart of accounts entry, invalid category account or missing exchange rate
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Bank transaction, category account or tax group not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       409:
+ *         description: Bank transaction is not uncategorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post(
+  '/:id/categorize',
+  authenticate,
+  authorizeBankTransactions,
+  setTenantContext,
+  requireTenantContext,
+  validate(bankTransactionIdSchema, 'params'),
+  validate(categorizeBankTransactionSchema),
+  categorizeBankTransactionController
+)
+
+/**
+ * @swagger
+ * /transactions/{id}/exclude:
+ *   post:
+ *     summary: Exclude a bank transaction
+ *     description: Removes an uncategorized line from the inbox without creating a journal entry, for example when it was already entered by hand.
+ *     tags: [Bank Transactions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Bank transaction excluded successfully
+ *       404:
+ *         description: Bank transaction not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       409:
+ *         description: Bank transaction is not uncategorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post(
+  '/:id/exclude',
+  authenticate,
+  authorizeBankTransactions,
+  setTenantContext,
+  requireTenantContext,
+  validate(bankTransactionIdSchema, 'params'),
+  excludeBankTransactionController
+)
+
+/**
+ * @swagger
+ * /transactions/{id}/restore:
+ *   post:
+ *     summary: Restore an excluded bank transaction
+ *     description: Puts an excluded line back in the inbox as uncategorized.
+ *     tags: [Bank Transactions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Bank transaction restored to the inbox
+ *       404:
+ *         description: Bank transaction not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       409:
+ *         description: Bank transaction is not excluded
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post(
+  '/:id/restore',
+  authenticate,
+  authorizeBankTransactions,
+  setTenantContext,
+  requireTenantContext,
+  validate(bankTransactionIdSchema, 'params'),
+  restoreBankTransactionController
+)
+
+export default router
@@ -0,0 +1,630 @@
+import { Router, type Router as RouterType } from 'express'
+
+import { ROLES } from '@constants/roles'
+import {
+  createBillController,
+  deleteBillById,
+  getAllBills,
+  getBillById,
+  getBillSettings,
+  postBillController,
+  updateBillController,
+  updateBillSettingsController,
+  voidBillController,
+} from '@controllers/bill.controller'
+import { authenticate, authorize } from '@middlewares/auth.middleware'
+import {
+  requireTenantContext,
+  setTenantContext,
+} from '@middlewares/tenantContext.middleware'
+import { validate } from '@middlewares/validate.middleware'
+import {
+  billIdSchema,
+  billListSchema,
+  createBillSchema,
+  updateBillSchema,
+  updateBillSettingsSchema,
+  voidBillSchema,
+} from '@schema/bill.schema'
+
+const router: RouterType = Router()
+
+/**
+ * Roles and permission allowed to manage bills
+ */
+const authorizeBills = authorize({
+  roles: [ROLES.SUPERADMIN, ROLES.ADMIN, ROLES.ACCOUNTANT, ROLES.BOOKKEEPER],
+  permissions: ['manage_bills'],
+})
+
+/**
+ * @swagger
+ * /bills/settings:
+ *   get:
+ *     summary: Get bill settings
+ *     description: Returns the accounts payable and recoverable tax accounts bills post to.
+ *     tags: [Bills]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Bill settings retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 statusCode:
+ *                   type: integer
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   $ref: '#/components/schemas/BillSettings'
+ *       401:
+ *         description: User not authenticated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get(
+  '/settings',
+  authenticate,
+  setTenantContext,
+  requireTenantContext,
+  getBillSettings
+)
+
+/**
+ * @swagger
+ * /bills/settings:
+ *   put:
+ *     summary: Update bill settings
+ *     description: |
+ *       Updates the accounts payable account credited by bills and the account
+ *       debited with recoverable tax.
+ *     tags: [Bills]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               payableAccountId:
+ *                 type: string
+ *                 format: uuid
+ *                 nullable: true
+ *                 description: Active liability account
+ *               taxAccountId:
+ *                 type: string
+ *                 format: uuid
+ *                 nullable: true
+ *                 description: Active asset or liability account
+ *     responses:
+ *       200:
+ *         description: Bill settings updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 statusCode:
+ *                   type: integer
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   $ref: '#/components/schemas/BillSettings'
+ *       400:
+ *         description: Validation error or account of the wrong type
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Account not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.put(
+  '/settings',
+  authenticate,
+  authorizeBills,
+  setTenantContext,
+  requireTenantContext,
+  validate(updateBillSettingsSchema),
+  updateBillSettingsController
+)
+
+/**
+ * @swagger
+ * /bills:
+ *   get:
+ *     summary: Retrieve bills and expenses
+ *     description: Retrieves bills and expenses with pagination, sorting, search and filtering.
+ *     tags: [Bills]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *       - in: query
+ *         name: sort
+ *         schema:
+ *           type: string
+ *           enum: [billNumber, billDate, dueDate, total, status, createdAt]
+ *           default: billDate
+ *       - in: query
+ *         name: order
+ *         schema:
+ *           type: string
+ *           enum: [asc, desc]
+ *           default: asc
+ *       - in: query
+ *         name: search
+ *         schema:
+ *           type: string
+ *         description: Search in bill number, reference, memo, vendor name and line descriptions
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [draft, open, partially_paid, paid, overdue, void]
+ *         description: overdue matches open and partially paid bills past their due date
+ *       - in: query
+ *         name: billType
+ *         schema:
+ *           type: string
+ *           enum: [bill, expense]
+ *       - in: query
+ *         name: contactId
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Vendor
+ *       - in: query
+ *         name: accountId
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Expense account (category); matches bills with a line on the account
+ *       - in: query
+ *         name: startDate
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: Bill date from (YYYY-MM-DD)
+ *       - in: query
+ *         name: endDate
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: Bill date to (YYYY-MM-DD)
+ *     responses:
+ *       200:
+ *         description: Bills retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 statusCode:
+ *                   type: integer
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     items:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/Bill'
+ *                     pagination:
+ *                       $ref: '#/components/schemas/Pagination'
+ *       401:
+ *         description: User not authenticated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Tenant context required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get(
+  '/',
+  authenticate,
+  setTenantContext,
+  requireTenantContext,
+  validate(billListSchema, 'query'),
+  getAllBills
+)
+
+/**
+ * @swagger
+ * /bills:
+ *   post:
+ *     summary: Create a draft bill or expense
+ *     description: |
+ *       Creates a draft bill from a vendor, or an expense paid from a bank or
+ *       cash account. Lines without an account or tax group use the vendor's
+ *       defaults. Bills are due on the bill date plus the vendor's payment
+ *       terms unless a due date is given; expenses are due on the bill date.
+ *     tags: [Bills]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/BillInput'
+ *     responses:
+ *       201:
+ *         description: Bill created successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 statusCode:
+ *                   type: integer
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   $ref: '#/components/schemas/Bill'
+ *       400:
+ *         description: Validation error, contact is not an active vendor, or an account of the wrong type
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Contact, account or tax group not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post(
+  '/',
+  authenticate,
+  authorizeBills,
+  setTenantContext,
+  requireTenantContext,
+  validate(createBillSchema),
+  createBillController
+)
+
+/**
+ * @swagger
+ * /bills/{id}:
+ *   get:
+ *     summary: Get a bill
+ *     description: Returns the bill with its vendor, payment account and lines.
+ *     tags: [Bills]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Bill retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 statusCode:
+ *                   type: integer
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   $ref: '#/components/schemas/Bill'
+ *       404:
+ *         description: Bill not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get(
+  '/:id',
+  authenticate,
+  setTenantContext,
+  requireTenantContext,
+  validate(billIdSchema, 'params'),
+  getBillById
+)
+
+/**
+ * @swagger
+ * /bills/{id}:
+ *   put:
+ *     summary: Update a draft bill
+ *     description: |
+ *       Updates the provided fields of a draft bill. Sending lines replaces all
+ *       lines; tax is recalculated when the lines or the vendor change.
+ *     tags: [Bills]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/BillInput'
+ *     responses:
+ *       200:
+ *         description: Bill updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 statusCode:
+ *                   type: integer
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   $ref: '#/components/schemas/Bill'
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Bill, contact, account or tax group not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       409:
+ *         description: Bill is not a draft
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.put(
+  '/:id',
+  authenticate,
+  authorizeBills,
+  setTenantContext,
+  requireTenantContext,
+  validate(billIdSchema, 'params'),
+  validate(updateBillSchema),
+  updateBillController
+)
+
+/**
+ * @swagger
+ * /bills/{id}:
+ *   delete:
+ *     summary: Delete a draft bill
+ *     description: Soft deletes a draft bill. Posted bills are voided instead.
+ *     tags: [Bills]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Bill deleted successfully
+ *       404:
+ *         description: Bill not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       409:
+ *         description: Bill is not a draft
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.delete(
+  '/:id',
+  authenticate,
+  authorizeBills,
+  setTenantContext,
+  requireTenantContext,
+  validate(billIdSchema, 'params'),
+  deleteBillById
+)
+
+/**
+ * @swagger
+ * /bills/{id}/post:
+ *   post:
+ *     summary: Post a bill
+ *     description: |
+ *       Posts a draft bill and creates its journal entry on the bill date:
+ *       debit each line's expense account (plus tax that cannot be reclaimed)
+ *       and the recoverable tax account, credit accounts payable (bills) or the
+ *       payment account (expenses) with the total. The entry is posted, or
+ *       submitted for approval when approval rules apply to it. Bills become
+ *       open; expenses are paid.
+ *     tags: [Bills]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Bill posted successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 statusCode:
+ *                   type: integer
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   $ref: '#/components/schemas/Bill'
+ *       400:
+ *         description: Total is zero, bill settings accounts are missing, or the period is closed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Bill not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       409:
+ *         description: Bill is not a draft
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post(
+  '/:id/post',
+  authenticate,
+  authorizeBills,
+  setTenantContext,
+  requireTenantContext,
+  validate(billIdSchema, 'params'),
+  postBillController
+)
+
+/**
+ * @swagger
+ * /bills/{id}/void:
+ *   post:
+ *     summary: Void a bill
+ *     description: |
+ *       Voids a bill. A posted bill entry is reversed on the void date (today
+ *       by default); an entry waiting for approval is voided. Bills with
+ *       payments applied cannot be voided.
+ *     tags: [Bills]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               reason:
+ *                 type: string
+ *                 maxLength: 1000
+ *               voidDate:
+ *                 type: string
+ *                 format: date
+ *                 description: Date of the reversing entry (YYYY-MM-DD)
+ *     responses:
+ *       200:
+ *         description: Bill voided successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 statusCode:
+ *                   type: integer
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   $ref: '#/components/schemas/Bill'
+ *       400:
+ *         description: Bill has payments, or the void date is before the bill date
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Bill not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       409:
+ *         description: Bill is already void
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post(
+  '/:id/void',
+  authenticate,
+  authorizeBills,
+  setTenantContext,
+  requireTenantContext,
+  validate(billIdSchema, 'params'),
+  validate(voidBillSchema),
+  voidBillController
+)
+
+export default router
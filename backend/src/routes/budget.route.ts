@@ -0,0 +1,632 @@
+import { Router, type Router as RouterType } from 'express'
+
+import { ROLES } from '@constants/roles'
+import {
+  applyBudgetGrowthController,
+  copyBudgetActualsController,
+  createBudgetController,
+  deleteBudgetById,
+  downloadBudgetFile,
+  getAllBudgets,
+  getBudgetById,
+  importBudgetController,
+  updateBudgetController,
+} from '@controllers/budget.controller'
+import { authenticate, authorize } from '@middlewares/auth.middleware'
+import {
+  requireTenantContext,
+  setTenantContext,
+} from '@middlewares/tenantContext.middleware'
+import { uploadImportFile } from '@middlewares/upload.middleware'
+import { validate } from '@middlewares/validate.middleware'
+import {
+  applyBudgetGrowthSchema,
+  budgetIdSchema,
+  budgetListSchema,
+  copyBudgetActualsSchema,
+  createBudgetSchema,
+  importBudgetSchema,
+  updateBudgetSchema,
+} from '@schema/budget.schema'
+
+const router: RouterType = Router()
+
+/**
+ * Roles and permission allowed to manage budgets
+ */
+const authorizeBudgets = authorize({
+  roles: [ROLES.SUPERADMIN, ROLES.ADMIN, ROLES.ACCOUNTANT],
+  permissions: ['manage_budgets'],
+})
+
+/**
+ * @swagger
+ * /budgets:
+ *   get:
+ *     summary: Retrieve all budgets
+ *     description: Lists the budgets of the tenant with their fiscal year. Lines are only returned by the budget detail.
+ *     tags: [Budgets]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *       - in: query
+ *         name: sort
+ *         schema:
+ *           type: string
+ *           enum: [name, createdAt, updatedAt]
+ *           default: createdAt
+ *       - in: query
+ *         name: order
+ *         schema:
+ *           type: string
+ *           enum: [asc, desc]
+ *           default: asc
+ *       - in: query
+ *         name: search
+ *         schema:
+ *           type: string
+ *         description: Search in budget name
+ *       - in: query
+ *         name: fiscalYearId
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Only list the budgets of this fiscal year
+ *     responses:
+ *       200:
+ *         description: Budgets retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 statusCode:
+ *                   type: integer
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     items:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/Budget'
+ *                     pagination:
+ *                       $ref: '#/components/schemas/Pagination'
+ *       401:
+ *         description: User not authenticated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Tenant context required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get(
+  '/',
+  authenticate,
+  setTenantContext,
+  requireTenantContext,
+  validate(budgetListSchema, 'query'),
+  getAllBudgets
+)
+
+/**
+ * @swagger
+ * /budgets:
+ *   post:
+ *     summary: Create a budget
+ *     description: |
+ *       Creates a named budget for a fiscal year. Each line budgets one
+ *       active revenue or expense account, with one amount per month of the
+ *       fiscal year in the natural direction of the account. Lines are
+ *       optional; they can be copied from last year's actuals or imported
+ *       afterwards.
+ *     tags: [Budgets]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/BudgetInput'
+ *     responses:
+ *       201:
+ *         description: Budget created successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 statusCode:
+ *                   type: integer
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   $ref: '#/components/schemas/Budget'
+ *       400:
+ *         description: Validation error, an account is not an active revenue or expense account or appears twice, or a line does not have one amount per month
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Fiscal year not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       409:
+ *         description: A budget with this name already exists for the fiscal year
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post(
+  '/',
+  authenticate,
+  authorizeBudgets,
+  setTenantContext,
+  requireTenantContext,
+  validate(createBudgetSchema),
+  createBudgetController
+)
+
+/**
+ * @swagger
+ * /budgets/{id}:
+ *   get:
+ *     summary: Get a budget
+ *     description: Returns the budget with the months of its fiscal year and one line per account, holding the amount of each month.
+ *     tags: [Budgets]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Budget retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 statusCode:
+ *                   type: integer
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   $ref: '#/components/schemas/Budget'
+ *       404:
+ *         description: Budget not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get(
+  '/:id',
+  authenticate,
+  setTenantContext,
+  requireTenantContext,
+  validate(budgetIdSchema, 'params'),
+  getBudgetById
+)
+
+/**
+ * @swagger
+ * /budgets/{id}:
+ *   put:
+ *     summary: Update a budget
+ *     description: Updates the provided fields of a budget. Sending lines replaces all the lines of the budget.
+ *     tags: [Budgets]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 maxLength: 100
+ *               description:
+ *                 type: string
+ *                 nullable: true
+ *               lines:
+ *                 type: array
+ *                 items:
+ *                   $ref: '#/components/schemas/BudgetLineInput'
+ *     responses:
+ *       200:
+ *         description: Budget updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 statusCode:
+ *                   type: integer
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   $ref: '#/components/schemas/Budget'
+ *       400:
+ *         description: Validation error, an account is not an active revenue or expense account or appears twice, or a line does not have one amount per month
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Budget not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       409:
+ *         description: A budget with this name already exists for the fiscal year
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.put(
+  '/:id',
+  authenticate,
+  authorizeBudgets,
+  setTenantContext,
+  requireTenantContext,
+  validate(budgetIdSchema, 'params'),
+  validate(updateBudgetSchema),
+  updateBudgetController
+)
+
+/**
+ * @swagger
+ * /budgets/{id}:
+ *   delete:
+ *     summary: Delete a budget
+ *     description: Soft deletes a budget.
+ *     tags: [Budgets]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Budget deleted successfully
+ *       404:
+ *         description: Budget not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.delete(
+  '/:id',
+  authenticate,
+  authorizeBudgets,
+  setTenantContext,
+  requireTenantContext,
+  validate(budgetIdSchema, 'params'),
+  deleteBudgetById
+)
+
+/**
+ * @swagger
+ * /budgets/{id}/copy-actuals:
+ *   post:
+ *     summary: Fill a budget from last year's actuals
+ *     description: |
+ *       Replaces all the lines of the budget with the posted amounts of the
+ *       same months a year earlier, in the natural direction of each active
+ *       revenue and expense account, grown by an optional percentage.
+ *       Year-end closing entries are left out.
+ *     tags: [Budgets]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               growthPercent:
+ *                 type: number
+ *                 minimum: -100
+ *                 maximum: 1000
+ *                 default: 0
+ *                 example: 5
+ *     responses:
+ *       200:
+ *         description: Budget amounts copied from last year's actuals
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 statusCode:
+ *                   type: integer
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   $ref: '#/components/schemas/Budget'
+ *       400:
+ *         description: Validation error, or no revenue or expense lines were posted in the previous year
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Budget not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post(
+  '/:id/copy-actuals',
+  authenticate,
+  authorizeBudgets,
+  setTenantContext,
+  requireTenantContext,
+  validate(budgetIdSchema, 'params'),
+  validate(copyBudgetActualsSchema),
+  copyBudgetActualsController
+)
+
+/**
+ * @swagger
+ * /budgets/{id}/apply-growth:
+ *   post:
+ *     summary: Grow the amounts of a budget
+ *     description: Multiplies the amounts of the budget by (1 + growthPercent / 100), rounded to cents. Without account IDs every line is grown.
+ *     tags: [Budgets]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [growthPercent]
+ *             properties:
+ *               growthPercent:
+ *                 type: number
+ *                 minimum: -100
+ *                 maximum: 1000
+ *                 example: 3.5
+ *               accountIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   format: uuid
+ *                 description: Only grow the lines of these accounts
+ *     responses:
+ *       200:
+ *         description: Budget growth applied successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 statusCode:
+ *                   type: integer
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   $ref: '#/components/schemas/Budget'
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Budget not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post(
+  '/:id/apply-growth',
+  authenticate,
+  authorizeBudgets,
+  setTenantContext,
+  requireTenantContext,
+  validate(budgetIdSchema, 'params'),
+  validate(applyBudgetGrowthSchema),
+  applyBudgetGrowthController
+)
+
+/**
+ * @swagger
+ * /budgets/{id}/export:
+ *   get:
+ *     summary: Download the budget file
+ *     description: |
+ *       Downloads an XLSX file with the Account Number and Account Name
+ *       columns, then one column per month of the fiscal year headed by the
+ *       month label (e.g. "Jan 2026"). Every active revenue and expense
+ *       account with an account number is listed with its budgeted amounts.
+ *       The file can be filled in and imported back.
+ *     tags: [Budgets]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Budget file
+ *         content:
+ *           application/vnd.openxmlformats-officedocument.spreadsheetml.sheet:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       404:
+ *         description: Budget not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get(
+  '/:id/export',
+  authenticate,
+  setTenantContext,
+  requireTenantContext,
+  validate(budgetIdSchema, 'params'),
+  downloadBudgetFile
+)
+
+/**
+ * @swagger
+ * /budgets/{id}/import:
+ *   post:
+ *     summary: Import the amounts of a budget
+ *     description: |
+ *       Uploads a CSV or Excel file with the columns of the budget file: an
+ *       Account Number column and one column per month label. Other columns
+ *       are ignored and blank amounts are zero. Account numbers must be
+ *       active revenue or expense accounts. The file replaces all the lines
+ *       of the budget, and is only imported when no row has errors. With
+ *       dryRun=true the file is validated and nothing is imported.
+ *     tags: [Budgets]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required: [file]
+ *             properties:
+ *               file:
+ *                 type: string
+ *                 format: binary
+ *                 description: CSV, XLSX or XLS file; the first row holds the headers
+ *               dryRun:
+ *                 type: string
+ *                 enum: ['true', 'false']
+ *                 default: 'false'
+ *     responses:
+ *       200:
+ *         description: Amounts imported, or file validated (dry run)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/BudgetImportResponse'
+ *       400:
+ *         description: >
+ *           Invalid file, or rows with errors. When rows have errors, data
+ *           holds the import result with the per-row errors and nothing is
+ *           imported.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/BudgetImportResponse'
+ *       404:
+ *         description: Budget not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       413:
+ *         description: File too large
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post(
+  '/:id/import',
+  authenticate,
+  authorizeBudgets,
+  setTenantContext,
+  requireTenantContext,
+  validate(budgetIdSchema, 'params'),
+  uploadImportFile,
+  validate(importBudgetSchema),
+  importBudgetController
+)
+
+export default router
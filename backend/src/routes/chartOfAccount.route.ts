@@ -10,6 +10,9 @@ import {
   getChartOfAccountById,
   getChartOfAccountHierarchy,
   getImportFields,
+  importChartOfAccountsController,
+  mergeChartOfAccountsController,
+  previewChartOfAccountMergeController,
   restoreChartOfAccountById,
   updateChartOfAccountController,
 } from '@controllers/chartOfAccount.controller'
@@ -18,11 +21,14 @@ import {
   requireTenantContext,
   setTenantContext,
 } from '@middlewares/tenantContext.middleware'
+import { uploadImportFile } from '@middlewares/upload.middleware'
 import { validate } from '@middlewares/validate.middleware'
 import {
   chartOfAccountIdSchema,
   chartOfAccountListSchema,
   createChartOfAccountSchema,
+  importChartOfAccountsSchema,
+  mergeChartOfAccountSchema,
   updateChartOfAccountSchema,
 } from '@schema/chartOfAccount.schema'
 
@@ -540,6 +546,182 @@ router.patch(
   restoreChartOfAccountById
 )
 
+/**
+ * @swagger
+ * /chart-of-accounts/{id}/merge/preview:
+ *   get:
+ *     summary: Preview merging a chart of account into another account
+ *     description: |
+ *       Shows the journal entry lines, balance history rows, sub-accounts and other references that merging the
+ *       account into the target account would move, and the target's opening and current balances after the merge.
+ *       Nothing is saved.
+ *     tags: [Chart of Accounts]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID of the account to merge (deleted by the merge)
+ *       - in: query
+ *         name: targetAccountId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID of the account to keep
+ *     responses:
+ *       200:
+ *         description: Chart of account merge previewed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 statusCode:
+ *                   type: integer
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   $ref: '#/components/schemas/ChartOfAccountMerge'
+ *       400:
+ *         description: Same account, different type or currency, or the target is a sub-account of the account
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: User not authenticated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Tenant context required, or the account is a system account
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Chart of account not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       409:
+ *         description: The account is linked to a bank account
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get(
+  '/:id/merge/preview',
+  authenticate,
+  setTenantContext,
+  requireTenantContext,
+  validate(chartOfAccountIdSchema, 'params'),
+  validate(mergeChartOfAccountSchema, 'query'),
+  previewChartOfAccountMergeController
+)
+
+/**
+ * @swagger
+ * /chart-of-accounts/{id}/merge:
+ *   post:
+ *     summary: Merge a chart of account into another account
+ *     description: |
+ *       Moves the account's journal entry lines, balance history, sub-accounts and other references (recurring
+ *       templates, bank transactions and rules, contact defaults, invoice, bill and payment accounts, approval rules,
+ *       the FX gain/loss account) to a target account of the same type and currency. The account's opening balance is
+ *       added to the target's, the target's current balance is recomputed from its posted lines, and the account is
+ *       soft-deleted. The merge and its audit record are written in one transaction.
+ *     tags: [Chart of Accounts]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID of the account to merge (deleted by the merge)
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - targetAccountId
+ *             properties:
+ *               targetAccountId:
+ *                 type: string
+ *                 format: uuid
+ *                 description: ID of the account to keep
+ *     responses:
+ *       200:
+ *         description: Chart of accounts merged successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 statusCode:
+ *                   type: integer
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   $ref: '#/components/schemas/ChartOfAccountMerge'
+ *       400:
+ *         description: Same account, different type or currency, or the target is a sub-account of the account
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: User not authenticated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Tenant context required, or the account is a system account
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Chart of account not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       409:
+ *         description: The account is linked to a bank account
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post(
+  '/:id/merge',
+  authenticate,
+  setTenantContext,
+  requireTenantContext,
+  validate(chartOfAccountIdSchema, 'params'),
+  validate(mergeChartOfAccountSchema),
+  mergeChartOfAccountsController
+)
+
 /**
  * @swagger
  * /chart-of-accounts/import/sample:
@@ -612,4 +794,93 @@ router.get(
   getImportFields
 )
 
+/**
+ * @swagger
+ * /chart-of-accounts/import:
+ *   post:
+ *     summary: Import chart of accounts
+ *     description: >
+ *       Creates accounts from a CSV or Excel file (up to 5 MB and 5000 rows)
+ *       sent as multipart/form-data. The mapping gives the file header for
+ *       each import field; without it the sample file headers are used.
+ *       Type and Detail Type text is resolved to the account type and
+ *       subtype. Sub-accounts are written as "Parent:Child"; the parent must
+ *       exist or be in the same file. Every row is validated with the same
+ *       rules as account creation, and the accounts are only created, in one
+ *       transaction, when no row has errors. With dryRun=true the file is
+ *       validated and nothing is created.
+ *     tags: [Chart of Accounts]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required: [file]
+ *             properties:
+ *               file:
+ *                 type: string
+ *                 format: binary
+ *                 description: CSV, XLSX or XLS file; the first row holds the headers
+ *               mapping:
+ *                 type: string
+ *                 description: JSON object of file headers per import field
+ *                 example: '{"accountNumber":"Code","accountName":"Name","accountType":"Type","accountDetailType":"Detail Type","openingBalance":"Balance"}'
+ *               dryRun:
+ *                 type: string
+ *                 enum: ['true', 'false']
+ *                 default: 'false'
+ *     responses:
+ *       200:
+ *         description: File validated (dry run); no accounts were created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ChartOfAccountImportResponse'
+ *       201:
+ *         description: Accounts imported successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ChartOfAccountImportResponse'
+ *       400:
+ *         description: >
+ *           Invalid file or mapping, or rows with errors. When rows have
+ *           errors, data holds the import result with the per-row errors and
+ *           no accounts are created.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ChartOfAccountImportResponse'
+ *       401:
+ *         description: User not authenticated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Tenant context required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       413:
+ *         description: File too large
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post(
+  '/import',
+  authenticate,
+  setTenantContext,
+  requireTenantContext,
+  uploadImportFile,
+  validate(importChartOfAccountsSchema),
+  importChartOfAccountsController
+)
+
 export default router
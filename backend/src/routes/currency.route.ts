@@ -0,0 +1,704 @@
+import { Router, type Router as RouterType } from 'express'
+
+import { ROLES } from '@constants/roles'
+import {
+  createExchangeRateController,
+  deleteExchangeRateController,
+  getAllExchangeRates,
+  getCurrencySettings,
+  getExchangeRateById,
+  importExchangeRatesController,
+  postFxRevaluationController,
+  previewFxRevaluationController,
+  updateCurrencySettingsController,
+  updateExchangeRateController,
+} from '@controllers/currency.controller'
+import { authenticate, authorize } from '@middlewares/auth.middleware'
+import {
+  requireTenantContext,
+  setTenantContext,
+} from '@middlewares/tenantContext.middleware'
+import { validate } from '@middlewares/validate.middleware'
+import {
+  createExchangeRateSchema,
+  exchangeRateIdSchema,
+  exchangeRateListSchema,
+  fxRevaluationSchema,
+  importExchangeRatesSchema,
+  updateCurrencySettingsSchema,
+  updateExchangeRateSchema,
+} from '@schema/currency.schema'
+
+const router: RouterType = Router()
+
+/**
+ * Roles and permission allowed to change currency settings, maintain
+ * exchange rates and post FX revaluations
+ */
+const authorizeCurrencyManagement = authorize({
+  roles: [ROLES.SUPERADMIN, ROLES.ADMIN, ROLES.ACCOUNTANT],
+  permissions: ['manage_currencies'],
+})
+
+/**
+ * @swagger
+ * /currency/settings:
+ *   get:
+ *     summary: Get currency settings
+ *     description: Retrieves the tenant base currency and the account unrealized FX gains and losses are posted to.
+ *     tags: [Currency]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Currency settings retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 statusCode:
+ *                   type: integer
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   $ref: '#/components/schemas/CurrencySettings'
+ *       401:
+ *         description: User not authenticated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Tenant context required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get(
+  '/settings',
+  authenticate,
+  setTenantContext,
+  requireTenantContext,
+  getCurrencySettings
+)
+
+/**
+ * @swagger
+ * /currency/settings:
+ *   patch:
+ *     summary: Update currency settings
+ *     description: |
+ *       Sets the tenant base currency and the unrealized FX gain/loss account.
+ *       The base currency can only be changed while the tenant has no journal entries.
+ *       The gain/loss account must be an active revenue or expense account in the base currency.
+ *       Once it is set, period-end revaluations are posted automatically on behalf of the user who set it;
+ *       setting it to null turns them off.
+ *       Requires the admin, accountant or super admin role, or the manage_currencies permission.
+ *     tags: [Currency]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               baseCurrency:
+ *                 type: string
+ *                 example: 'CAD'
+ *               fxGainLossAccountId:
+ *                 type: string
+ *                 format: uuid
+ *                 nullable: true
+ *     responses:
+ *       200:
+ *         description: Currency settings updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 statusCode:
+ *                   type: integer
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   $ref: '#/components/schemas/CurrencySettings'
+ *       400:
+ *         description: Validation error or invalid gain/loss account
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Not allowed to manage currencies
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Gain/loss account not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       409:
+ *         description: Base currency cannot change once journal entries exist
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.patch(
+  '/settings',
+  authenticate,
+  authorizeCurrencyManagement,
+  setTenantContext,
+  requireTenantContext,
+  validate(updateCurrencySettingsSchema),
+  updateCurrencySettingsController
+)
+
+/**
+ * @swagger
+ * /currency/exchange-rates:
+ *   get:
+ *     summary: Retrieve all exchange rates
+ *     description: Retrieves exchange rates, most recent first. A rate applies from its date until the next rate of the same currency.
+ *     tags: [Currency]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *       - in: query
+ *         name: currencyCode
+ *         schema:
+ *           type: string
+ *           example: 'USD'
+ *       - in: query
+ *         name: startDate
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: endDate
+ *         schema:
+ *           type: string
+ *           format: date
+ *     responses:
+ *       200:
+ *         description: Exchange rates retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 statusCode:
+ *                   type: integer
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     items:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/ExchangeRate'
+ *                     pagination:
+ *                       type: object
+ *       401:
+ *         description: User not authenticated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Tenant context required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get(
+  '/exchange-rates',
+  authenticate,
+  setTenantContext,
+  requireTenantContext,
+  validate(exchangeRateListSchema, 'query'),
+  getAllExchangeRates
+)
+
+/**
+ * @swagger
+ * /currency/exchange-rates:
+ *   post:
+ *     summary: Create an exchange rate
+ *     description: |
+ *       Enters the rate of a foreign currency on a date, in base currency units per one foreign unit.
+ *       Requires the admin, accountant or super admin role, or the manage_currencies permission.
+ *     tags: [Currency]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - currencyCode
+ *               - rateDate
+ *               - rate
+ *             properties:
+ *               currencyCode:
+ *                 type: string
+ *                 example: 'USD'
+ *               rateDate:
+ *                 type: string
+ *                 format: date
+ *                 example: '2025-01-31'
+ *               rate:
+ *                 type: number
+ *                 example: 1.4382
+ *     responses:
+ *       201:
+ *         description: Exchange rate created successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 statusCode:
+ *                   type: integer
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   $ref: '#/components/schemas/ExchangeRate'
+ *       400:
+ *         description: Validation error or rate for the base currency
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Not allowed to manage currencies
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       409:
+ *         description: A rate already exists for the currency and date
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post(
+  '/exchange-rates',
+  authenticate,
+  authorizeCurrencyManagement,
+  setTenantContext,
+  requireTenantContext,
+  validate(createExchangeRateSchema),
+  createExchangeRateController
+)
+
+/**
+ * @swagger
+ * /currency/exchange-rates/import:
+ *   post:
+ *     summary: Import exchange rates from CSV
+ *     description: |
+ *       Imports rates from CSV content with a header row naming the date (YYYY-MM-DD), currency and rate columns.
+ *       Rates already entered for the same currency and date are replaced. Invalid rows are skipped and
+ *       reported with their row number, counting the header as row 1.
+ *       Requires the admin, accountant or super admin role, or the manage_currencies permission.
+ *     tags: [Currency]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - content
+ *             properties:
+ *               content:
+ *                 type: string
+ *                 example: "date,currency,rate\n2025-01-31,USD,1.4382\n2025-01-31,EUR,1.4920"
+ *     responses:
+ *       200:
+ *         description: Exchange rates imported
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 statusCode:
+ *                   type: integer
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   $ref: '#/components/schemas/ExchangeRateImportResult'
+ *       400:
+ *         description: Empty CSV or too many rows
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Not allowed to manage currencies
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post(
+  '/exchange-rates/import',
+  authenticate,
+  authorizeCurrencyManagement,
+  setTenantContext,
+  requireTenantContext,
+  validate(importExchangeRatesSchema),
+  importExchangeRatesController
+)
+
+/**
+ * @swagger
+ * /currency/exchange-rates/{id}:
+ *   get:
+ *     summary: Get exchange rate by ID
+ *     tags: [Currency]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Exchange rate retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 statusCode:
+ *                   type: integer
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   $ref: '#/components/schemas/ExchangeRate'
+ *       401:
+ *         description: User not authenticated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Exchange rate not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get(
+  '/exchange-rates/:id',
+  authenticate,
+  setTenantContext,
+  requireTenantContext,
+  validate(exchangeRateIdSchema, 'params'),
+  getExchangeRateById
+)
+
+/**
+ * @swagger
+ * /currency/exchange-rates/{id}:
+ *   patch:
+ *     summary: Update an exchange rate
+ *     description: |
+ *       Changes the date or value of a rate. Journal entries already converted at the rate keep their amounts.
+ *       Requires the admin, accountant or super admin role, or the manage_currencies permission.
+ *     tags: [Currency]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               rateDate:
+ *                 type: string
+ *                 format: date
+ *               rate:
+ *                 type: number
+ *     responses:
+ *       200:
+ *         description: Exchange rate updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 statusCode:
+ *                   type: integer
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   $ref: '#/components/schemas/ExchangeRate'
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Exchange rate not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       409:
+ *         description: A rate already exists for the currency and date
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.patch(
+  '/exchange-rates/:id',
+  authenticate,
+  authorizeCurrencyManagement,
+  setTenantContext,
+  requireTenantContext,
+  validate(exchangeRateIdSchema, 'params'),
+  validate(updateExchangeRateSchema),
+  updateExchangeRateController
+)
+
+/**
+ * @swagger
+ * /currency/exchange-rates/{id}:
+ *   delete:
+ *     summary: Delete an exchange rate
+ *     description: |
+ *       Soft deletes a rate. Journal entries already converted at the rate keep their amounts.
+ *       Requires the admin, accountant or super admin role, or the manage_currencies permission.
+ *     tags: [Currency]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Exchange rate deleted successfully
+ *       403:
+ *         description: Not allowed to manage currencies
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Exchange rate not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.delete(
+  '/exchange-rates/:id',
+  authenticate,
+  authorizeCurrencyManagement,
+  setTenantContext,
+  requireTenantContext,
+  validate(exchangeRateIdSchema, 'params'),
+  deleteExchangeRateController
+)
+
+/**
+ * @swagger
+ * /currency/revaluation/preview:
+ *   get:
+ *     summary: Preview an FX revaluation
+ *     description: |
+ *       Restates every asset and liability account held in a foreign currency at the rate in effect on the
+ *       revaluation date and returns the unrealized gain/loss entry that would be posted, without posting it.
+ *       Requires the admin, accountant or super admin role, or the manage_currencies permission.
+ *     tags: [Currency]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: revaluationDate
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: gainLossAccountId
+ *         description: Overrides the gain/loss account of the currency settings
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: FX revaluation preview generated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 statusCode:
+ *                   type: integer
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   $ref: '#/components/schemas/FxRevaluationPreview'
+ *       400:
+ *         description: No gain/loss account set, or a rate is missing on the date
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Not allowed to manage currencies
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get(
+  '/revaluation/preview',
+  authenticate,
+  authorizeCurrencyManagement,
+  setTenantContext,
+  requireTenantContext,
+  validate(fxRevaluationSchema, 'query'),
+  previewFxRevaluationController
+)
+
+/**
+ * @swagger
+ * /currency/revaluation:
+ *   post:
+ *     summary: Post an FX revaluation
+ *     description: |
+ *       Posts the unrealized FX gain/loss entry of the revaluation date as an adjusting entry that is
+ *       reversed automatically on the next day. Only one revaluation can be posted per date.
+ *       Period-end revaluations are also posted automatically once a gain/loss account is set.
+ *       Requires the admin, accountant or super admin role, or the manage_currencies permission.
+ *     tags: [Currency]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - revaluationDate
+ *             properties:
+ *               revaluationDate:
+ *                 type: string
+ *                 format: date
+ *                 example: '2025-01-31'
+ *               gainLossAccountId:
+ *                 type: string
+ *                 format: uuid
+ *     responses:
+ *       201:
+ *         description: FX revaluation posted successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 statusCode:
+ *                   type: integer
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   $ref: '#/components/schemas/FxRevaluationPreview'
+ *       400:
+ *         description: Nothing to revalue, no gain/loss account, a missing rate, or a closed period
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Not allowed to manage currencies
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       409:
+ *         description: The date was already revalued
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post(
+  '/revaluation',
+  authenticate,
+  authorizeCurrencyManagement,
+  setTenantContext,
+  requireTenantContext,
+  validate(fxRevaluationSchema),
+  postFxRevaluationController
+)
+
+export default router
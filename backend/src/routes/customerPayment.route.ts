@@ -0,0 +1,505 @@
+import { Router, type Router as RouterType } from 'express'
+
+import { ROLES } from '@constants/roles'
+import {
+  createCustomerPaymentController,
+  getAllCustomerPayments,
+  getCustomerPaymentById,
+  getCustomerPaymentSettings,
+  getOpenReceivableItems,
+  unmatchCustomerPaymentController,
+  updateCustomerPaymentSettingsController,
+} from '@controllers/customerPayment.controller'
+import { authenticate, authorize } from '@middlewares/auth.middleware'
+import {
+  requireTenantContext,
+  setTenantContext,
+} from '@middlewares/tenantContext.middleware'
+import { validate } from '@middlewares/validate.middleware'
+import {
+  createCustomerPaymentSchema,
+  customerPaymentIdSchema,
+  customerPaymentListSchema,
+  openReceivableItemsSchema,
+  unmatchCustomerPaymentSchema,
+  updateCustomerPaymentSettingsSchema,
+} from '@schema/customerPayment.schema'
+
+const router: RouterType = Router()
+
+/**
+ * Roles and permission allowed to manage customer payments
+ */
+const authorizeCustomerPayments = authorize({
+  roles: [ROLES.SUPERADMIN, ROLES.ADMIN, ROLES.ACCOUNTANT, ROLES.BOOKKEEPER],
+  permissions: ['manage_customer_payments'],
+})
+
+/**
+ * @swagger
+ * /customer-payments/settings:
+ *   get:
+ *     summary: Get customer payment settings
+ *     description: Returns the unapplied cash account payments from unknown customers are credited to.
+ *     tags: [Customer Payments]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Customer payment settings retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 statusCode:
+ *                   type: integer
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   $ref: '#/components/schemas/CustomerPaymentSettings'
+ *       401:
+ *         description: User not authenticated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get(
+  '/settings',
+  authenticate,
+  setTenantContext,
+  requireTenantContext,
+  getCustomerPaymentSettings
+)
+
+/**
+ * @swagger
+ * /customer-payments/settings:
+ *   put:
+ *     summary: Update customer payment settings
+ *     description: |
+ *       Updates the unapplied cash account credited by payments received
+ *       without a customer. Payments from customers credit the accounts
+ *       receivable account of the invoice settings.
+ *     tags: [Customer Payments]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               unappliedAccountId:
+ *                 type: string
+ *                 format: uuid
+ *                 nullable: true
+ *                 description: Active liability account
+ *     responses:
+ *       200:
+ *         description: Customer payment settings updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 statusCode:
+ *                   type: integer
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   $ref: '#/components/schemas/CustomerPaymentSettings'
+ *       400:
+ *         description: Validation error or account of the wrong type
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Account not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.put(
+  '/settings',
+  authenticate,
+  authorizeCustomerPayments,
+  setTenantContext,
+  requireTenantContext,
+  validate(updateCustomerPaymentSettingsSchema),
+  updateCustomerPaymentSettingsController
+)
+
+/**
+ * @swagger
+ * /customer-payments/open-items:
+ *   get:
+ *     summary: Get the open receivable items of a customer
+ *     description: |
+ *       Returns the posted accounts receivable debit lines of the customer
+ *       that are not fully matched by payments, oldest first. Lines of
+ *       reversed entries are left out; amounts matched by unmatched payments
+ *       are open again.
+ *     tags: [Customer Payments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: contactId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Open items retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 statusCode:
+ *                   type: integer
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/OpenReceivableItem'
+ *       400:
+ *         description: Accounts receivable account not set in the invoice settings
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Contact not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get(
+  '/open-items',
+  authenticate,
+  setTenantContext,
+  requireTenantContext,
+  validate(openReceivableItemsSchema, 'query'),
+  getOpenReceivableItems
+)
+
+/**
+ * @swagger
+ * /customer-payments:
+ *   get:
+ *     summary: Retrieve customer payments
+ *     description: Retrieves payments received with pagination, sorting, search and filtering.
+ *     tags: [Customer Payments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *       - in: query
+ *         name: sort
+ *         schema:
+ *           type: string
+ *           enum: [paymentDate, amount, status, createdAt]
+ *           default: paymentDate
+ *       - in: query
+ *         name: order
+ *         schema:
+ *           type: string
+ *           enum: [asc, desc]
+ *           default: asc
+ *       - in: query
+ *         name: search
+ *         schema:
+ *           type: string
+ *         description: Search in reference, memo, payment method and customer name
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [applied, partially_applied, unapplied, unmatched]
+ *       - in: query
+ *         name: contactId
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Customer
+ *       - in: query
+ *         name: bankAccountId
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Bank account the payment was deposited to
+ *       - in: query
+ *         name: startDate
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: Payment date from (YYYY-MM-DD)
+ *       - in: query
+ *         name: endDate
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: Payment date to (YYYY-MM-DD)
+ *     responses:
+ *       200:
+ *         description: Customer payments retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 statusCode:
+ *                   type: integer
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     items:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/CustomerPayment'
+ *                     pagination:
+ *                       $ref: '#/components/schemas/Pagination'
+ *       401:
+ *         description: User not authenticated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Tenant context required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get(
+  '/',
+  authenticate,
+  setTenantContext,
+  requireTenantContext,
+  validate(customerPaymentListSchema, 'query'),
+  getAllCustomerPayments
+)
+
+/**
+ * @swagger
+ * /customer-payments:
+ *   post:
+ *     summary: Receive a customer payment
+ *     description: |
+ *       Records money received and deposited to a bank account, and posts the
+ *       journal entry debiting the bank's ledger account. With a customer,
+ *       accounts receivable is credited: the matched amounts settle the open
+ *       items and any rest is held as customer credit. Without a customer the
+ *       amount is credited to the unapplied cash account. Entries that need
+ *       approval are submitted instead of posted.
+ *     tags: [Customer Payments]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/CustomerPaymentInput'
+ *     responses:
+ *       201:
+ *         description: Customer payment recorded successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 statusCode:
+ *                   type: integer
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   $ref: '#/components/schemas/CustomerPayment'
+ *       400:
+ *         description: |
+ *           Validation error, contact is not an active customer, inactive or
+ *           unlinked bank account, missing settings, or matched amounts that
+ *           exceed the open items or the payment amount
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Contact or bank account not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post(
+  '/',
+  authenticate,
+  authorizeCustomerPayments,
+  setTenantContext,
+  requireTenantContext,
+  validate(createCustomerPaymentSchema),
+  createCustomerPaymentController
+)
+
+/**
+ * @swagger
+ * /customer-payments/{id}:
+ *   get:
+ *     summary: Get a customer payment
+ *     description: Returns the payment with its customer, bank account and matched items.
+ *     tags: [Customer Payments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Customer payment retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 statusCode:
+ *                   type: integer
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   $ref: '#/components/schemas/CustomerPayment'
+ *       404:
+ *         description: Customer payment not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get(
+  '/:id',
+  authenticate,
+  setTenantContext,
+  requireTenantContext,
+  validate(customerPaymentIdSchema, 'params'),
+  getCustomerPaymentById
+)
+
+/**
+ * @swagger
+ * /customer-payments/{id}/unmatch:
+ *   post:
+ *     summary: Unmatch a customer payment
+ *     description: |
+ *       Unmatches a payment. A posted entry is reversed on the unmatch date
+ *       (today by default); an entry waiting for approval is voided. The
+ *       matched amounts are taken off the invoices and the items are open
+ *       again.
+ *     tags: [Customer Payments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               reason:
+ *                 type: string
+ *                 maxLength: 1000
+ *               unmatchDate:
+ *                 type: string
+ *                 format: date
+ *                 description: Date of the reversing entry (YYYY-MM-DD)
+ *     responses:
+ *       200:
+ *         description: Customer payment unmatched successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 statusCode:
+ *                   type: integer
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   $ref: '#/components/schemas/CustomerPayment'
+ *       400:
+ *         description: Unmatch date is before the payment date
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Customer payment not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       409:
+ *         description: Customer payment is already unmatched
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post(
+  '/:id/unmatch',
+  authenticate,
+  authorizeCustomerPayments,
+  setTenantContext,
+  requireTenantContext,
+  validate(customerPaymentIdSchema, 'params'),
+  validate(unmatchCustomerPaymentSchema),
+  unmatchCustomerPaymentController
+)
+
+export default router
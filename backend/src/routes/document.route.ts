@@ -0,0 +1,766 @@
+import { Router, type Router as RouterType } from 'express'
+
+import { ROLES } from '@constants/roles'
+import {
+  attachDocumentController,
+  deleteDocumentController,
+  detachDocumentController,
+  downloadDocument,
+  getAllDocuments,
+  getDocumentById,
+  getDocumentDownloadUrl,
+  getDocumentSettings,
+  getDocumentStorageUsage,
+  updateDocumentController,
+  updateDocumentSettingsController,
+  uploadDocumentController,
+} from '@controllers/document.controller'
+import { authenticate, authorize } from '@middlewares/auth.middleware'
+import {
+  requireTenantContext,
+  setTenantContext,
+} from '@middlewares/tenantContext.middleware'
+import { uploadDocumentFile } from '@middlewares/upload.middleware'
+import { validate } from '@middlewares/validate.middleware'
+import {
+  attachDocumentSchema,
+  documentAttachmentIdSchema,
+  documentDownloadTokenSchema,
+  documentIdSchema,
+  documentListSchema,
+  updateDocumentSchema,
+  updateDocumentSettingsSchema,
+  uploadDocumentSchema,
+} from '@schema/document.schema'
+
+const router: RouterType = Router()
+
+/**
+ * Roles and permission allowed to upload and manage documents
+ */
+const authorizeDocuments = authorize({
+  roles: [ROLES.SUPERADMIN, ROLES.ADMIN, ROLES.ACCOUNTANT, ROLES.BOOKKEEPER],
+  permissions: ['manage_documents'],
+})
+
+/**
+ * @swagger
+ * /documents/download/{token}:
+ *   get:
+ *     summary: Download a document with a signed link
+ *     description: |
+ *       Streams the file of a signed download token created by
+ *       `GET /documents/{id}/download-url`. The token is the only credential
+ *       and expires after DOCUMENT_URL_EXPIRY_SECONDS (5 minutes by default).
+ *     tags: [Documents]
+ *     parameters:
+ *       - in: path
+ *         name: token
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: File content
+ *         content:
+ *           application/octet-stream:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       401:
+ *         description: Download link is invalid or expired
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Document or its file not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get(
+  '/download/:token',
+  validate(documentDownloadTokenSchema, 'params'),
+  downloadDocument
+)
+
+/**
+ * @swagger
+ * /documents/usage:
+ *   get:
+ *     summary: Get document storage usage
+ *     description: Returns the storage used by the documents of the tenant against its quota.
+ *     tags: [Documents]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Document storage usage retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 statusCode:
+ *                   type: integer
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   $ref: '#/components/schemas/DocumentStorageUsage'
+ *       401:
+ *         description: User not authenticated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get(
+  '/usage',
+  authenticate,
+  setTenantContext,
+  requireTenantContext,
+  getDocumentStorageUsage
+)
+
+/**
+ * @swagger
+ * /documents/settings:
+ *   get:
+ *     summary: Get document settings
+ *     description: Returns the storage quota of the tenant and the upload size limit.
+ *     tags: [Documents]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Document settings retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 statusCode:
+ *                   type: integer
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   $ref: '#/components/schemas/DocumentSettings'
+ *       401:
+ *         description: User not authenticated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get(
+  '/settings',
+  authenticate,
+  setTenantContext,
+  requireTenantContext,
+  getDocumentSettings
+)
+
+/**
+ * @swagger
+ * /documents/settings:
+ *   put:
+ *     summary: Update document settings
+ *     description: |
+ *       Sets the storage quota of the tenant in megabytes, or clears it to use
+ *       the default quota. A quota below the storage in use blocks new uploads
+ *       but keeps the existing documents. Only super admins and admins can
+ *       change it.
+ *     tags: [Documents]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               quotaMb:
+ *                 type: integer
+ *                 minimum: 1
+ *                 nullable: true
+ *                 description: Quota in megabytes; null uses the default
+ *     responses:
+ *       200:
+ *         description: Document settings updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 statusCode:
+ *                   type: integer
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   $ref: '#/components/schemas/DocumentSettings'
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Insufficient permissions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.put(
+  '/settings',
+  authenticate,
+  authorize({ roles: [ROLES.SUPERADMIN, ROLES.ADMIN] }),
+  setTenantContext,
+  requireTenantContext,
+  validate(updateDocumentSettingsSchema),
+  updateDocumentSettingsController
+)
+
+/**
+ * @swagger
+ * /documents:
+ *   get:
+ *     summary: Retrieve documents
+ *     description: |
+ *       Retrieves documents with pagination, sorting, search and filtering.
+ *       With entityType and entityId, only the documents attached to that
+ *       record are returned.
+ *     tags: [Documents]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *       - in: query
+ *         name: sort
+ *         schema:
+ *           type: string
+ *           enum: [name, sizeBytes, category, createdAt]
+ *           default: createdAt
+ *       - in: query
+ *         name: order
+ *         schema:
+ *           type: string
+ *           enum: [asc, desc]
+ *           default: asc
+ *       - in: query
+ *         name: search
+ *         schema:
+ *           type: string
+ *         description: Search in name and description
+ *       - in: query
+ *         name: category
+ *         schema:
+ *           type: string
+ *           enum: [invoice, receipt, report, contract, tax_document, other]
+ *       - in: query
+ *         name: tag
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: entityType
+ *         schema:
+ *           type: string
+ *           enum: [journal_entry, invoice, bill, tax_exemption]
+ *       - in: query
+ *         name: entityId
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Documents retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 statusCode:
+ *                   type: integer
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     items:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/Document'
+ *                     pagination:
+ *                       $ref: '#/components/schemas/Pagination'
+ *       401:
+ *         description: User not authenticated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get(
+  '/',
+  authenticate,
+  setTenantContext,
+  requireTenantContext,
+  validate(documentListSchema, 'query'),
+  getAllDocuments
+)
+
+/**
+ * @swagger
+ * /documents:
+ *   post:
+ *     summary: Upload a document
+ *     description: |
+ *       Uploads one file as multipart/form-data. The file is checked by the
+ *       registered virus scanners and against the storage quota before it is
+ *       stored. PDF, image, spreadsheet, CSV and Word files up to
+ *       DOCUMENT_MAX_FILE_SIZE_MB (25 MB by default) are accepted. With
+ *       entityType and entityId the document is attached to that record.
+ *     tags: [Documents]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required: [file]
+ *             properties:
+ *               file:
+ *                 type: string
+ *                 format: binary
+ *               category:
+ *                 type: string
+ *                 enum: [invoice, receipt, report, contract, tax_document, other]
+ *                 default: other
+ *               tags:
+ *                 type: string
+ *                 description: Comma-separated tags
+ *               description:
+ *                 type: string
+ *                 maxLength: 2000
+ *               entityType:
+ *                 type: string
+ *                 enum: [journal_entry, invoice, bill, tax_exemption]
+ *               entityId:
+ *                 type: string
+ *                 format: uuid
+ *     responses:
+ *       201:
+ *         description: Document uploaded successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 statusCode:
+ *                   type: integer
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   $ref: '#/components/schemas/Document'
+ *       400:
+ *         description: No file, file type not allowed, or rejected by the virus scan
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Record to attach the document to not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       413:
+ *         description: File exceeds the upload size limit or the storage quota
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       503:
+ *         description: Virus scanner or storage unavailable
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post(
+  '/',
+  authenticate,
+  authorizeDocuments,
+  setTenantContext,
+  requireTenantContext,
+  uploadDocumentFile,
+  validate(uploadDocumentSchema),
+  uploadDocumentController
+)
+
+/**
+ * @swagger
+ * /documents/{id}:
+ *   get:
+ *     summary: Get a document
+ *     description: Returns the document with the records it is attached to.
+ *     tags: [Documents]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Document retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 statusCode:
+ *                   type: integer
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   $ref: '#/components/schemas/Document'
+ *       404:
+ *         description: Document not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get(
+  '/:id',
+  authenticate,
+  setTenantContext,
+  requireTenantContext,
+  validate(documentIdSchema, 'params'),
+  getDocumentById
+)
+
+/**
+ * @swagger
+ * /documents/{id}:
+ *   put:
+ *     summary: Update a document
+ *     description: Renames the document or changes its category, tags or description.
+ *     tags: [Documents]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 maxLength: 255
+ *               category:
+ *                 type: string
+ *                 enum: [invoice, receipt, report, contract, tax_document, other]
+ *               tags:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               description:
+ *                 type: string
+ *                 nullable: true
+ *     responses:
+ *       200:
+ *         description: Document updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 statusCode:
+ *                   type: integer
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   $ref: '#/components/schemas/Document'
+ *       404:
+ *         description: Document not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.put(
+  '/:id',
+  authenticate,
+  authorizeDocuments,
+  setTenantContext,
+  requireTenantContext,
+  validate(documentIdSchema, 'params'),
+  validate(updateDocumentSchema),
+  updateDocumentController
+)
+
+/**
+ * @swagger
+ * /documents/{id}:
+ *   delete:
+ *     summary: Delete a document
+ *     description: |
+ *       Deletes the document and its attachments and removes the file from
+ *       storage, freeing its quota.
+ *     tags: [Documents]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Document deleted successfully
+ *       404:
+ *         description: Document not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.delete(
+  '/:id',
+  authenticate,
+  authorizeDocuments,
+  setTenantContext,
+  requireTenantContext,
+  validate(documentIdSchema, 'params'),
+  deleteDocumentController
+)
+
+/**
+ * @swagger
+ * /documents/{id}/download-url:
+ *   get:
+ *     summary: Create a download link
+ *     description: |
+ *       Returns a signed link to the file that expires after
+ *       DOCUMENT_URL_EXPIRY_SECONDS. Files in S3 get a presigned S3 URL;
+ *       files on the local filesystem get a link to
+ *       `GET /documents/download/{token}`.
+ *     tags: [Documents]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Download link created successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 statusCode:
+ *                   type: integer
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     url:
+ *                       type: string
+ *                     expiresAt:
+ *                       type: string
+ *                       format: date-time
+ *       404:
+ *         description: Document not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get(
+  '/:id/download-url',
+  authenticate,
+  setTenantContext,
+  requireTenantContext,
+  validate(documentIdSchema, 'params'),
+  getDocumentDownloadUrl
+)
+
+/**
+ * @swagger
+ * /documents/{id}/attachments:
+ *   post:
+ *     summary: Attach a document to a record
+ *     description: Attaches the document to a journal entry, invoice, bill or tax exemption certificate.
+ *     tags: [Documents]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [entityType, entityId]
+ *             properties:
+ *               entityType:
+ *                 type: string
+ *                 enum: [journal_entry, invoice, bill, tax_exemption]
+ *               entityId:
+ *                 type: string
+ *                 format: uuid
+ *     responses:
+ *       201:
+ *         description: Document attached successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 statusCode:
+ *                   type: integer
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   $ref: '#/components/schemas/Document'
+ *       404:
+ *         description: Document or record not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       409:
+ *         description: The document is already attached to the record
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post(
+  '/:id/attachments',
+  authenticate,
+  authorizeDocuments,
+  setTenantContext,
+  requireTenantContext,
+  validate(documentIdSchema, 'params'),
+  validate(attachDocumentSchema),
+  attachDocumentController
+)
+
+/**
+ * @swagger
+ * /documents/{id}/attachments/{attachmentId}:
+ *   delete:
+ *     summary: Detach a document from a record
+ *     description: Removes the link to the record; the document is kept.
+ *     tags: [Documents]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: attachmentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Document detached successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 statusCode:
+ *                   type: integer
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   $ref: '#/components/schemas/Document'
+ *       404:
+ *         description: Document or attachment not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.delete(
+  '/:id/attachments/:attachmentId',
+  authenticate,
+  authorizeDocuments,
+  setTenantContext,
+  requireTenantContext,
+  validate(documentAttachmentIdSchema, 'params'),
+  detachDocumentController
+)
+
+export default router
@@ -0,0 +1,700 @@
+import { Router, type Router as RouterType } from 'express'
+
+import { ROLES } from '@constants/roles'
+import {
+  closeFiscalPeriodController,
+  closeFiscalYearController,
+  createFiscalYearController,
+  getAllFiscalYears,
+  getFiscalYearById,
+  previewYearEndCloseController,
+  reopenFiscalPeriodController,
+  reverseYearEndCloseController,
+} from '@controllers/fiscalYear.controller'
+import { authenticate, authorize } from '@middlewares/auth.middleware'
+import {
+  requireTenantContext,
+  setTenantContext,
+} from '@middlewares/tenantContext.middleware'
+import { validate } from '@middlewares/validate.middleware'
+import {
+  closeFiscalPeriodSchema,
+  createFiscalYearSchema,
+  fiscalPeriodParamsSchema,
+  fiscalYearIdSchema,
+  fiscalYearListSchema,
+  reopenFiscalPeriodSchema,
+  yearEndCloseSchema,
+} from '@schema/fiscalYear.schema'
+
+const router: RouterType = Router()
+
+/**
+ * Roles and permission allowed to create fiscal years, close/reopen periods
+ * and close fiscal years into retained earnings
+ */
+const authorizeFiscalPeriodManagement = authorize({
+  roles: [ROLES.SUPERADMIN, ROLES.ADMIN, ROLES.ACCOUNTANT],
+  permissions: ['manage_fiscal_periods'],
+})
+
+/**
+ * @swagger
+ * /fiscal-years:
+ *   get:
+ *     summary: Retrieve all fiscal years
+ *     description: Retrieves the tenant's fiscal years, most recent first, each with its periods and their open/closed status.
+ *     tags: [Fiscal Years]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Fiscal years retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 statusCode:
+ *                   type: integer
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     items:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/FiscalYear'
+ *                     pagination:
+ *                       type: object
+ *       401:
+ *         description: User not authenticated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Tenant context required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get(
+  '/',
+  authenticate,
+  setTenantContext,
+  requireTenantContext,
+  validate(fiscalYearListSchema, 'query'),
+  getAllFiscalYears
+)
+
+/**
+ * @swagger
+ * /fiscal-years/{id}:
+ *   get:
+ *     summary: Get fiscal year by ID
+ *     description: Retrieves a fiscal year with its periods.
+ *     tags: [Fiscal Years]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Fiscal year retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 statusCode:
+ *                   type: integer
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   $ref: '#/components/schemas/FiscalYear'
+ *       401:
+ *         description: User not authenticated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Fiscal year not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get(
+  '/:id',
+  authenticate,
+  setTenantContext,
+  requireTenantContext,
+  validate(fiscalYearIdSchema, 'params'),
+  getFiscalYearById
+)
+
+/**
+ * @swagger
+ * /fiscal-years:
+ *   post:
+ *     summary: Create a fiscal year
+ *     description: |
+ *       Creates a fiscal year and splits it into monthly or quarterly periods, all open.
+ *       The end date defaults to twelve months after the start date. Fiscal years cannot overlap.
+ *       Requires the admin, accountant or super admin role, or the manage_fiscal_periods permission.
+ *     tags: [Fiscal Years]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - startDate
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 maxLength: 100
+ *                 example: 'FY 2025'
+ *               startDate:
+ *                 type: string
+ *                 format: date
+ *                 example: '2025-01-01'
+ *               endDate:
+ *                 type: string
+ *                 format: date
+ *                 example: '2025-12-31'
+ *               periodType:
+ *                 type: string
+ *                 enum: [monthly, quarterly]
+ *                 default: monthly
+ *     responses:
+ *       201:
+ *         description: Fiscal year created successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 statusCode:
+ *                   type: integer
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   $ref: '#/components/schemas/FiscalYear'
+ *       400:
+ *         description: Validation error or invalid date range
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Not allowed to manage fiscal periods
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       409:
+ *         description: Fiscal year overlaps an existing fiscal year
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post(
+  '/',
+  authenticate,
+  authorizeFiscalPeriodManagement,
+  setTenantContext,
+  requireTenantContext,
+  validate(createFiscalYearSchema),
+  createFiscalYearController
+)
+
+/**
+ * @swagger
+ * /fiscal-years/{id}/periods/{periodId}/close:
+ *   post:
+ *     summary: Close a fiscal period
+ *     description: |
+ *       Soft- or hard-closes a fiscal period. Journal entries dated in a closed period cannot be posted,
+ *       voided, reversed or updated. A soft-closed period can be upgraded to hard-closed. Hard-closing
+ *       requires every earlier period to be closed. The change is recorded in the audit log.
+ *     tags: [Fiscal Years]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: periodId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               status:
+ *                 type: string
+ *                 enum: [soft_closed, hard_closed]
+ *                 default: soft_closed
+ *               reason:
+ *                 type: string
+ *                 maxLength: 500
+ *                 example: 'Q1 VAT return filed'
+ *     responses:
+ *       200:
+ *         description: Fiscal period closed successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 statusCode:
+ *                   type: integer
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   $ref: '#/components/schemas/FiscalPeriod'
+ *       403:
+ *         description: Not allowed to manage fiscal periods
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Fiscal period not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       409:
+ *         description: Period already closed, or an earlier period is still open
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post(
+  '/:id/periods/:periodId/close',
+  authenticate,
+  authorizeFiscalPeriodManagement,
+  setTenantContext,
+  requireTenantContext,
+  validate(fiscalPeriodParamsSchema, 'params'),
+  validate(closeFiscalPeriodSchema),
+  closeFiscalPeriodController
+)
+
+/**
+ * @swagger
+ * /fiscal-years/{id}/periods/{periodId}/reopen:
+ *   post:
+ *     summary: Reopen a fiscal period
+ *     description: |
+ *       Reopens a closed fiscal period. Hard-closed periods can only be reopened by an admin or super admin,
+ *       and a period cannot be reopened while a later period is hard-closed. The change is recorded in the audit log.
+ *     tags: [Fiscal Years]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: periodId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               reason:
+ *                 type: string
+ *                 maxLength: 500
+ *                 example: 'Late supplier invoice'
+ *     responses:
+ *       200:
+ *         description: Fiscal period reopened successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 statusCode:
+ *                   type: integer
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   $ref: '#/components/schemas/FiscalPeriod'
+ *       403:
+ *         description: Not allowed to manage fiscal periods or to reopen a hard-closed period
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Fiscal period not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       409:
+ *         description: Period already open, or a later period is hard-closed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post(
+  '/:id/periods/:periodId/reopen',
+  authenticate,
+  authorizeFiscalPeriodManagement,
+  setTenantContext,
+  requireTenantContext,
+  validate(fiscalPeriodParamsSchema, 'params'),
+  validate(reopenFiscalPeriodSchema),
+  reopenFiscalPeriodController
+)
+
+/**
+ * @swagger
+ * /fiscal-years/{id}/closing-entry/preview:
+ *   get:
+ *     summary: Preview the year-end closing entry
+ *     description: |
+ *       Shows the closing entry that closing the fiscal year would post: one line per revenue and expense
+ *       account with a balance at the fiscal year end, offset against the tenant's retained earnings equity account.
+ *       Nothing is saved.
+ *     tags: [Fiscal Years]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Year-end closing entry preview generated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 statusCode:
+ *                   type: integer
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   $ref: '#/components/schemas/YearEndClosingPreview'
+ *       400:
+ *         description: No active retained earnings account
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Not allowed to manage fiscal periods
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Fiscal year not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       409:
+ *         description: Fiscal year is already closed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get(
+  '/:id/closing-entry/preview',
+  authenticate,
+  authorizeFiscalPeriodManagement,
+  setTenantContext,
+  requireTenantContext,
+  validate(fiscalYearIdSchema, 'params'),
+  previewYearEndCloseController
+)
+
+/**
+ * @swagger
+ * /fiscal-years/{id}/close:
+ *   post:
+ *     summary: Close a fiscal year into retained earnings
+ *     description: |
+ *       Creates and posts a closing journal entry (entry type closing) dated on the last day of the fiscal year.
+ *       It zeroes every revenue and expense account and books the net income or loss to the retained earnings
+ *       equity account. The last day of the fiscal year must be in an open period. The close is recorded in the audit log.
+ *     tags: [Fiscal Years]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               reason:
+ *                 type: string
+ *                 maxLength: 500
+ *                 example: 'Annual accounts approved'
+ *     responses:
+ *       201:
+ *         description: Fiscal year closed into retained earnings
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 statusCode:
+ *                   type: integer
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     fiscalYear:
+ *                       $ref: '#/components/schemas/FiscalYear'
+ *                     entry:
+ *                       type: object
+ *                       description: Posted closing entry, or its reversal
+ *                       properties:
+ *                         id:
+ *                           type: string
+ *                           format: uuid
+ *                         entryNumber:
+ *                           type: string
+ *                         entryDate:
+ *                           type: string
+ *                           format: date
+ *                         entryType:
+ *                           type: string
+ *                           enum: [closing, reversing]
+ *                         isClosing:
+ *                           type: boolean
+ *                         isReversing:
+ *                           type: boolean
+ *                         status:
+ *                           type: string
+ *                         totalDebit:
+ *                           type: number
+ *                         totalCredit:
+ *                           type: number
+ *                         lines:
+ *                           type: array
+ *                           items:
+ *                             type: object
+ *       400:
+ *         description: No balances to close or no active retained earnings account
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Not allowed to manage fiscal periods, or the closing date is in a closed period
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Fiscal year not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       409:
+ *         description: Fiscal year is already closed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post(
+  '/:id/close',
+  authenticate,
+  authorizeFiscalPeriodManagement,
+  setTenantContext,
+  requireTenantContext,
+  validate(fiscalYearIdSchema, 'params'),
+  validate(yearEndCloseSchema),
+  closeFiscalYearController
+)
+
+/**
+ * @swagger
+ * /fiscal-years/{id}/closing-entry/reverse:
+ *   post:
+ *     summary: Undo a year-end close
+ *     description: |
+ *       Reverses the fiscal year's closing entry with a reversing entry on the same date, restoring revenue and
+ *       expense balances. The reversal is flagged as a closing entry so reports that exclude closing entries
+ *       ignore both. The fiscal year can then be closed again. The reversal is recorded in the audit log.
+ *     tags: [Fiscal Years]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               reason:
+ *                 type: string
+ *                 maxLength: 500
+ *                 example: 'Late adjustments to FY 2025'
+ *     responses:
+ *       201:
+ *         description: Year-end closing entry reversed successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 statusCode:
+ *                   type: integer
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     fiscalYear:
+ *                       $ref: '#/components/schemas/FiscalYear'
+ *                     entry:
+ *                       type: object
+ *                       description: Posted closing entry, or its reversal
+ *                       properties:
+ *                         id:
+ *                           type: string
+ *                           format: uuid
+ *                         entryNumber:
+ *                           type: string
+ *                         entryDate:
+ *                           type: string
+ *                           format: date
+ *                         entryType:
+ *                           type: string
+ *                           enum: [closing, reversing]
+ *                         isClosing:
+ *                           type: boolean
+ *                         isReversing:
+ *                           type: boolean
+ *                         status:
+ *                           type: string
+ *                         totalDebit:
+ *                           type: number
+ *                         totalCredit:
+ *                           type: number
+ *                         lines:
+ *                           type: array
+ *                           items:
+ *                             type: object
+ *       403:
+ *         description: Not allowed to manage fiscal periods, or the closing date is in a closed period
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Fiscal year not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       409:
+ *         description: Fiscal year has no closing entry to reverse
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post(
+  '/:id/closing-entry/reverse',
+  authenticate,
+  authorizeFiscalPeriodManagement,
+  setTenantContext,
+  requireTenantContext,
+  validate(fiscalYearIdSchema, 'params'),
+  validate(yearEndCloseSchema),
+  reverseYearEndCloseController
+)
+
+export default router
@@ -4,9 +4,23 @@ import accountRoutes from './account.route'
 import auditRoutes from './audit.route'
 import authRoutes from './auth.route'
 import authenticatorRoutes from './authenticator.route'
+import bankReconciliationRoutes from './bankReconciliation.route'
+import bankRuleRoutes from './bankRule.route'
+import bankTransactionRoutes from './bankTransaction.route'
+import billRoutes from './bill.route'
+import budgetRoutes from './budget.route'
 import chartOfAccountRoutes from './chartOfAccount.route'
+import contactRoutes from './contact.route'
+import currencyRoutes from './currency.route'
+import customerPaymentRoutes from './customerPayment.route'
+import documentRoutes from './document.route'
+import fiscalYearRoutes from './fiscalYear.route'
+import invoiceRoutes from './invoice.route'
+import journalApprovalRoutes from './journalApproval.route'
 import journalEntryRoutes from './journalEntry.route'
 import passkeyRoutes from './passkey.route'
+import recurringJournalRoutes from './recurringJournal.route'
+import reportRoutes from './report.route'
 import roleRoutes from './role.route'
 import taxRoutes from './tax.route'
 import taxExemptionRoutes from './taxExemption.route'
@@ -40,9 +54,48 @@ router.use('/accounts', accountRoutes)
 // Chart of Accounts routes
 router.use('/chart-of-accounts', chartOfAccountRoutes)
 
+// Contact routes
+router.use('/contacts', contactRoutes)
+
+// Invoice routes
+router.use('/invoices', invoiceRoutes)
+
+// Bill routes
+router.use('/bills', billRoutes)
+
+// Customer payment routes
+router.use('/customer-payments', customerPaymentRoutes)
+
+// Recurring journal template routes (mounted before /journal-entries/:id)
+router.use('/journal-entries/recurring', recurringJournalRoutes)
+
+// Journal approval routes (mounted before /journal-entries/:id)
+router.use('/journal-entries/approvals', journalApprovalRoutes)
+
 // Journal Entry routes
 router.use('/journal-entries', journalEntryRoutes)
 
+// Bank reconciliation routes
+router.use('/bank-reconciliations', bankReconciliationRoutes)
+
+// Bank categorization rule routes (mounted before /transactions/:id)
+router.use('/transactions/rules', bankRuleRoutes)
+
+// Bank transaction inbox routes
+router.use('/transactions', bankTransactionRoutes)
+
+// Fiscal year routes
+router.use('/fiscal-years', fiscalYearRoutes)
+
+// Budget routes
+router.use('/budgets', budgetRoutes)
+
+// Currency and exchange rate routes
+router.use('/currency', currencyRoutes)
+
+// Report routes
+router.use('/reports', reportRoutes)
+
 // Tax routes
 router.use('/taxes', taxRoutes)
 
@@ -52,6 +105,9 @@ router.use('/tax-groups', taxGroupRoutes)
 // Tax Exemption routes
 router.use('/tax-exemptions', taxExemptionRoutes)
 
+// Document routes
+router.use('/documents', documentRoutes)
+
 // Audit log routes
 router.use('/audit-logs', auditRoutes)
 
@@ -0,0 +1,633 @@
+import { Router, type Router as RouterType } from 'express'
+
+import { ROLES } from '@constants/roles'
+import {
+  createInvoiceController,
+  deleteInvoiceById,
+  getAllInvoices,
+  getInvoiceById,
+  getInvoiceSettings,
+  sendInvoiceController,
+  updateInvoiceController,
+  updateInvoiceSettingsController,
+  voidInvoiceController,
+} from '@controllers/invoice.controller'
+import { authenticate, authorize } from '@middlewares/auth.middleware'
+import {
+  requireTenantContext,
+  setTenantContext,
+} from '@middlewares/tenantContext.middleware'
+import { validate } from '@middlewares/validate.middleware'
+import {
+  createInvoiceSchema,
+  invoiceIdSchema,
+  invoiceListSchema,
+  updateInvoiceSchema,
+  updateInvoiceSettingsSchema,
+  voidInvoiceSchema,
+} from '@schema/invoice.schema'
+
+const router: RouterType = Router()
+
+/**
+ * Roles and permission allowed to manage invoices
+ */
+const authorizeInvoices = authorize({
+  roles: [ROLES.SUPERADMIN, ROLES.ADMIN, ROLES.ACCOUNTANT, ROLES.BOOKKEEPER],
+  permissions: ['manage_invoices'],
+})
+
+/**
+ * @swagger
+ * /invoices/settings:
+ *   get:
+ *     summary: Get invoice settings
+ *     description: Returns the invoice numbering and the accounts invoices post to.
+ *     tags: [Invoices]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Invoice settings retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 statusCode:
+ *                   type: integer
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   $ref: '#/components/schemas/InvoiceSettings'
+ *       401:
+ *         description: User not authenticated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get(
+  '/settings',
+  authenticate,
+  setTenantContext,
+  requireTenantContext,
+  getInvoiceSettings
+)
+
+/**
+ * @swagger
+ * /invoices/settings:
+ *   put:
+ *     summary: Update invoice settings
+ *     description: |
+ *       Updates the invoice numbering (prefix, next number, zero padding) and the
+ *       receivable and tax accounts used when invoices are sent.
+ *     tags: [Invoices]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               numberPrefix:
+ *                 type: string
+ *                 maxLength: 20
+ *                 example: INV-
+ *               nextNumber:
+ *                 type: integer
+ *                 minimum: 1
+ *               numberPadding:
+ *                 type: integer
+ *                 minimum: 1
+ *                 maximum: 10
+ *               receivableAccountId:
+ *                 type: string
+ *                 format: uuid
+ *                 nullable: true
+ *                 description: Active asset account
+ *               taxAccountId:
+ *                 type: string
+ *                 format: uuid
+ *                 nullable: true
+ *                 description: Active liability account
+ *     responses:
+ *       200:
+ *         description: Invoice settings updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 statusCode:
+ *                   type: integer
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   $ref: '#/components/schemas/InvoiceSettings'
+ *       400:
+ *         description: Validation error or account of the wrong type
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Account not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.put(
+  '/settings',
+  authenticate,
+  authorizeInvoices,
+  setTenantContext,
+  requireTenantContext,
+  validate(updateInvoiceSettingsSchema),
+  updateInvoiceSettingsController
+)
+
+/**
+ * @swagger
+ * /invoices:
+ *   get:
+ *     summary: Retrieve invoices
+ *     description: Retrieves invoices with pagination, sorting, search and filtering.
+ *     tags: [Invoices]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *       - in: query
+ *         name: sort
+ *         schema:
+ *           type: string
+ *           enum: [invoiceNumber, issueDate, dueDate, total, status, createdAt]
+ *           default: issueDate
+ *       - in: query
+ *         name: order
+ *         schema:
+ *           type: string
+ *           enum: [asc, desc]
+ *           default: asc
+ *       - in: query
+ *         name: search
+ *         schema:
+ *           type: string
+ *         description: Search in invoice number, reference and customer name
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [draft, sent, partially_paid, paid, overdue, void]
+ *         description: overdue matches sent and partially paid invoices past their due date
+ *       - in: query
+ *         name: contactId
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: startDate
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: Issue date from (YYYY-MM-DD)
+ *       - in: query
+ *         name: endDate
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: Issue date to (YYYY-MM-DD)
+ *     responses:
+ *       200:
+ *         description: Invoices retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 statusCode:
+ *                   type: integer
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     items:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/Invoice'
+ *                     pagination:
+ *                       $ref: '#/components/schemas/Pagination'
+ *       401:
+ *         description: User not authenticated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Tenant context required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get(
+  '/',
+  authenticate,
+  setTenantContext,
+  requireTenantContext,
+  validate(invoiceListSchema, 'query'),
+  getAllInvoices
+)
+
+/**
+ * @swagger
+ * /invoices:
+ *   post:
+ *     summary: Create a draft invoice
+ *     description: |
+ *       Creates a draft invoice for a customer. Lines without an account or tax
+ *       group use the customer's defaults, and the due date defaults to the
+ *       issue date plus the customer's payment terms. The invoice number is
+ *       taken from the invoice settings unless one is given.
+ *     tags: [Invoices]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/InvoiceInput'
+ *     responses:
+ *       201:
+ *         description: Invoice created successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 statusCode:
+ *                   type: integer
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   $ref: '#/components/schemas/Invoice'
+ *       400:
+ *         description: Validation error, contact is not an active customer, or a line account is not a revenue account
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Contact, account or tax group not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       409:
+ *         description: Invoice number already exists
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post(
+  '/',
+  authenticate,
+  authorizeInvoices,
+  setTenantContext,
+  requireTenantContext,
+  validate(createInvoiceSchema),
+  createInvoiceController
+)
+
+/**
+ * @swagger
+ * /invoices/{id}:
+ *   get:
+ *     summary: Get an invoice
+ *     description: Returns the invoice with its customer and lines.
+ *     tags: [Invoices]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Invoice retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 statusCode:
+ *                   type: integer
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   $ref: '#/components/schemas/Invoice'
+ *       404:
+ *         description: Invoice not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get(
+  '/:id',
+  authenticate,
+  setTenantContext,
+  requireTenantContext,
+  validate(invoiceIdSchema, 'params'),
+  getInvoiceById
+)
+
+/**
+ * @swagger
+ * /invoices/{id}:
+ *   put:
+ *     summary: Update a draft invoice
+ *     description: |
+ *       Updates the provided fields of a draft invoice. Sending lines replaces
+ *       all lines; tax is recalculated when the lines or the customer change.
+ *     tags: [Invoices]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/InvoiceInput'
+ *     responses:
+ *       200:
+ *         description: Invoice updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 statusCode:
+ *                   type: integer
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   $ref: '#/components/schemas/Invoice'
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Invoice, contact, account or tax group not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       409:
+ *         description: Invoice is not a draft, or the invoice number already exists
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.put(
+  '/:id',
+  authenticate,
+  authorizeInvoices,
+  setTenantContext,
+  requireTenantContext,
+  validate(invoiceIdSchema, 'params'),
+  validate(updateInvoiceSchema),
+  updateInvoiceController
+)
+
+/**
+ * @swagger
+ * /invoices/{id}:
+ *   delete:
+ *     summary: Delete a draft invoice
+ *     description: Soft deletes a draft invoice. Sent invoices are voided instead.
+ *     tags: [Invoices]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Invoice deleted successfully
+ *       404:
+ *         description: Invoice not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       409:
+ *         description: Invoice is not a draft
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.delete(
+  '/:id',
+  authenticate,
+  authorizeInvoices,
+  setTenantContext,
+  requireTenantContext,
+  validate(invoiceIdSchema, 'params'),
+  deleteInvoiceById
+)
+
+/**
+ * @swagger
+ * /invoices/{id}/send:
+ *   post:
+ *     summary: Send an invoice
+ *     description: |
+ *       Sends a draft invoice and creates its journal entry on the issue date:
+ *       debit accounts receivable with the total, credit each line's revenue
+ *       account and the tax account. The entry is posted, or submitted for
+ *       approval when approval rules apply to it.
+ *     tags: [Invoices]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Invoice sent and posted successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 statusCode:
+ *                   type: integer
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   $ref: '#/components/schemas/Invoice'
+ *       400:
+ *         description: Total is zero, invoice settings accounts are missing, or the period is closed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Invoice not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       409:
+ *         description: Invoice is not a draft
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post(
+  '/:id/send',
+  authenticate,
+  authorizeInvoices,
+  setTenantContext,
+  requireTenantContext,
+  validate(invoiceIdSchema, 'params'),
+  sendInvoiceController
+)
+
+/**
+ * @swagger
+ * /invoices/{id}/void:
+ *   post:
+ *     summary: Void an invoice
+ *     description: |
+ *       Voids an invoice. A posted invoice entry is reversed on the void date
+ *       (today by default); an entry waiting for approval is voided. Invoices
+ *       with payments applied cannot be voided.
+ *     tags: [Invoices]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               reason:
+ *                 type: string
+ *                 maxLength: 1000
+ *               voidDate:
+ *                 type: string
+ *                 format: date
+ *                 description: Date of the reversing entry (YYYY-MM-DD)
+ *     responses:
+ *       200:
+ *         description: Invoice voided successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 statusCode:
+ *                   type: integer
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   $ref: '#/components/schemas/Invoice'
+ *       400:
+ *         description: Invoice has payments, or the void date is before the issue date
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Invoice not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       409:
+ *         description: Invoice is already void
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post(
+  '/:id/void',
+  authenticate,
+  authorizeInvoices,
+  setTenantContext,
+  requireTenantContext,
+  validate(invoiceIdSchema, 'params'),
+  validate(voidInvoiceSchema),
+  voidInvoiceController
+)
+
+export default router
@@ -0,0 +1,554 @@
+import { Router, type Router as RouterType } from 'express'
+
+import { ROLES } from '@constants/roles'
+import {
+  createApprovalRuleController,
+  deleteApprovalRuleById,
+  getAllApprovalRules,
+  getApprovalRuleById,
+  getPendingApprovals,
+  updateApprovalRuleController,
+} from '@controllers/journalApproval.controller'
+import { authenticate, authorize } from '@middlewares/auth.middleware'
+import {
+  requireTenantContext,
+  setTenantContext,
+} from '@middlewares/tenantContext.middleware'
+import { validate } from '@middlewares/validate.middleware'
+import {
+  approvalRuleIdSchema,
+  approvalRuleListSchema,
+  createApprovalRuleSchema,
+  pendingApprovalListSchema,
+  updateApprovalRuleSchema,
+} from '@schema/journalApproval.schema'
+
+const router: RouterType = Router()
+
+/**
+ * Roles and permission allowed to create, update and delete approval rules
+ */
+const authorizeApprovalRuleManagement = authorize({
+  roles: [ROLES.SUPERADMIN, ROLES.ADMIN],
+  permissions: ['manage_approval_rules'],
+})
+
+/**
+ * @swagger
+ * /journal-entries/approvals/pending:
+ *   get:
+ *     summary: Retrieve journal entries pending my approval
+ *     description: Lists the entries whose current approval step can be approved by the authenticated user, oldest submission first. Entries the user prepared or submitted, and steps the user already approved, are excluded.
+ *     tags: [Journal Entries]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           default: 1
+ *         description: Page number
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *         description: Number of items per page
+ *     responses:
+ *       200:
+ *         description: Pending approvals fetched successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 statusCode:
+ *                   type: integer
+ *                   example: 200
+ *                 message:
+ *                   type: string
+ *                   example: 'Pending approvals fetched successfully'
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     items:
+ *                       type: array
+ *                       items:
+ *                         allOf:
+ *                           - $ref: '#/components/schemas/JournalApprovalEntry'
+ *                           - type: object
+ *                             properties:
+ *                               currentStep:
+ *                                 $ref: '#/components/schemas/JournalApprovalStep'
+ *                     pagination:
+ *                       $ref: '#/components/schemas/Pagination'
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: User not authenticated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Tenant context required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get(
+  '/pending',
+  authenticate,
+  setTenantContext,
+  requireTenantContext,
+  validate(pendingApprovalListSchema, 'query'),
+  getPendingApprovals
+)
+
+/**
+ * @swagger
+ * /journal-entries/approvals/rules:
+ *   get:
+ *     summary: Retrieve journal approval rules
+ *     description: Lists the tenant's approval rules in the order their steps are approved.
+ *     tags: [Journal Entries]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           default: 1
+ *         description: Page number
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *         description: Number of items per page
+ *       - in: query
+ *         name: isActive
+ *         schema:
+ *           type: boolean
+ *         description: Filter by active status
+ *     responses:
+ *       200:
+ *         description: Approval rules fetched successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 statusCode:
+ *                   type: integer
+ *                   example: 200
+ *                 message:
+ *                   type: string
+ *                   example: 'Approval rules fetched successfully'
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     items:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/JournalApprovalRule'
+ *                     pagination:
+ *                       $ref: '#/components/schemas/Pagination'
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: User not authenticated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Tenant context required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get(
+  '/rules',
+  authenticate,
+  setTenantContext,
+  requireTenantContext,
+  validate(approvalRuleListSchema, 'query'),
+  getAllApprovalRules
+)
+
+/**
+ * @swagger
+ * /journal-entries/approvals/rules:
+ *   post:
+ *     summary: Create a journal approval rule
+ *     description: |
+ *       Creates a rule deciding which journal entries need approval before they can be posted. A rule matches an entry when its total debit reaches minAmount (if set) and one of its lines uses an account in accountIds (if any are set). Every matching rule adds an approval step, approved in stepOrder order, that needs requiredApprovals distinct approvers holding requiredRole.
+ *       Requires the admin or super admin role, or the manage_approval_rules permission.
+ *     tags: [Journal Entries]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [name, requiredRole]
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 maxLength: 255
+ *                 example: 'Entries over 10,000'
+ *               description:
+ *                 type: string
+ *               minAmount:
+ *                 type: number
+ *                 minimum: 0
+ *                 nullable: true
+ *                 description: Entries with a total debit of at least this amount match
+ *               accountIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   format: uuid
+ *                 description: Entries with a line on any of these accounts match (empty matches all)
+ *               requiredRole:
+ *                 type: string
+ *                 enum: [superadmin, admin, accountant, bookkeeper]
+ *               requiredApprovals:
+ *                 type: integer
+ *                 minimum: 1
+ *                 maximum: 10
+ *                 default: 1
+ *               stepOrder:
+ *                 type: integer
+ *                 minimum: 1
+ *                 default: 1
+ *               isActive:
+ *                 type: boolean
+ *                 default: true
+ *     responses:
+ *       201:
+ *         description: Approval rule created successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 statusCode:
+ *                   type: integer
+ *                   example: 201
+ *                 message:
+ *                   type: string
+ *                   example: 'Approval rule created successfully'
+ *                 data:
+ *                   $ref: '#/components/schemas/JournalApprovalRule'
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: User not authenticated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Requires the admin or super admin role, or the manage_approval_rules permission, and tenant context
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Account not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post(
+  '/rules',
+  authenticate,
+  setTenantContext,
+  requireTenantContext,
+  authorizeApprovalRuleManagement,
+  validate(createApprovalRuleSchema, 'body'),
+  createApprovalRuleController
+)
+
+/**
+ * @swagger
+ * /journal-entries/approvals/rules/{id}:
+ *   get:
+ *     summary: Get journal approval rule by ID
+ *     tags: [Journal Entries]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Approval rule ID (UUID)
+ *     responses:
+ *       200:
+ *         description: Approval rule fetched successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 statusCode:
+ *                   type: integer
+ *                   example: 200
+ *                 message:
+ *                   type: string
+ *                   example: 'Approval rule fetched successfully'
+ *                 data:
+ *                   $ref: '#/components/schemas/JournalApprovalRule'
+ *       401:
+ *         description: User not authenticated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Tenant context required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Approval rule not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get(
+  '/rules/:id',
+  authenticate,
+  setTenantContext,
+  requireTenantContext,
+  validate(approvalRuleIdSchema, 'params'),
+  getApprovalRuleById
+)
+
+/**
+ * @swagger
+ * /journal-entries/approvals/rules/{id}:
+ *   put:
+ *     summary: Update a journal approval rule
+ *     description: |
+ *       Updates an approval rule. Changes apply to entries submitted afterwards; entries already awaiting approval keep their steps.
+ *       Requires the admin or super admin role, or the manage_approval_rules permission.
+ *     tags: [Journal Entries]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Approval rule ID (UUID)
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 maxLength: 255
+ *                 example: 'Entries over 10,000'
+ *               description:
+ *                 type: string
+ *                 nullable: true
+ *               minAmount:
+ *                 type: number
+ *                 minimum: 0
+ *                 nullable: true
+ *                 description: Entries with a total debit of at least this amount match
+ *               accountIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   format: uuid
+ *                 description: Entries with a line on any of these accounts match (empty matches all)
+ *               requiredRole:
+ *                 type: string
+ *                 enum: [superadmin, admin, accountant, bookkeeper]
+ *               requiredApprovals:
+ *                 type: integer
+ *                 minimum: 1
+ *                 maximum: 10
+ *               stepOrder:
+ *                 type: integer
+ *                 minimum: 1
+ *               isActive:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Approval rule updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 statusCode:
+ *                   type: integer
+ *                   example: 200
+ *                 message:
+ *                   type: string
+ *                   example: 'Approval rule updated successfully'
+ *                 data:
+ *                   $ref: '#/components/schemas/JournalApprovalRule'
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: User not authenticated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Requires the admin or super admin role, or the manage_approval_rules permission, and tenant context
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Approval rule or account not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.put(
+  '/rules/:id',
+  authenticate,
+  setTenantContext,
+  requireTenantContext,
+  authorizeApprovalRuleManagement,
+  validate(approvalRuleIdSchema, 'params'),
+  validate(updateApprovalRuleSchema, 'body'),
+  updateApprovalRuleController
+)
+
+/**
+ * @swagger
+ * /journal-entries/approvals/rules/{id}:
+ *   delete:
+ *     summary: Delete a journal approval rule
+ *     description: |
+ *       Soft deletes an approval rule. Entries already awaiting approval keep their steps.
+ *       Requires the admin or super admin role, or the manage_approval_rules permission.
+ *     tags: [Journal Entries]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Approval rule ID (UUID)
+ *     responses:
+ *       200:
+ *         description: Approval rule deleted successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 statusCode:
+ *                   type: integer
+ *                   example: 200
+ *                 message:
+ *                   type: string
+ *                   example: 'Approval rule deleted successfully'
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     id:
+ *                       type: string
+ *                       format: uuid
+ *       401:
+ *         description: User not authenticated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Requires the admin or super admin role, or the manage_approval_rules permission, and tenant context
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Approval rule not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.delete(
+  '/rules/:id',
+  authenticate,
+  setTenantContext,
+  requireTenantContext,
+  authorizeApprovalRuleManagement,
+  validate(approvalRuleIdSchema, 'params'),
+  deleteApprovalRuleById
+)
+
+export default router
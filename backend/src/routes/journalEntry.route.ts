@@ -1,11 +1,20 @@
 import { Router, type Router as RouterType } from 'express'
 
+import {
+  approveJournalEntryController,
+  getJournalEntryApprovals,
+  rejectJournalEntryController,
+  submitJournalEntryController,
+} from '@controllers/journalApproval.controller'
 import {
   createJournalEntryController,
   deleteJournalEntryById,
   duplicateJournalEntryController,
   getAllJournalEntries,
   getJournalEntryById,
+  getJournalEntryImportFields,
+  getScheduledReversals,
+  importJournalEntriesController,
   postJournalEntryController,
   restoreJournalEntryById,
   reverseJournalEntryController,
@@ -17,14 +26,20 @@ import {
   requireTenantContext,
   setTenantContext,
 } from '@middlewares/tenantContext.middleware'
+import { uploadImportFile } from '@middlewares/upload.middleware'
 import { validate } from '@middlewares/validate.middleware'
+import {
+  approvalCommentSchema,
+  rejectJournalEntrySchema,
+} from '@schema/journalApproval.schema'
 import {
   createJournalEntrySchema,
   duplicateJournalEntrySchema,
+  importJournalEntriesSchema,
   journalEntryIdSchema,
   journalEntryListSchema,
-  postJournalEntrySchema,
   reverseJournalEntrySchema,
+  scheduledReversalListSchema,
   updateJournalEntrySchema,
   voidJournalEntrySchema,
 } from '@schema/journalEntry.schema'
@@ -184,6 +199,265 @@ router.get(
   getAllJournalEntries
 )
 
+/**
+ * @swagger
+ * /journal-entries/scheduled-reversals:
+ *   get:
+ *     summary: Retrieve scheduled reversals
+ *     description: Lists posted journal entries with a reversal date that have not been reversed yet. The reversal worker reverses upcoming entries automatically on their reversal date, acting as the user who posted them. Entries whose reversal still fails after the last retry are listed as failed and have to be reversed manually.
+ *     tags: [Journal Entries]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [upcoming, failed]
+ *           default: upcoming
+ *         description: Whether to list upcoming or failed reversals
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           default: 1
+ *         description: Page number
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *         description: Number of items per page
+ *     responses:
+ *       200:
+ *         description: Scheduled reversals retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 statusCode:
+ *                   type: integer
+ *                   example: 200
+ *                 message:
+ *                   type: string
+ *                   example: 'Scheduled reversals fetched successfully'
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     items:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           id:
+ *                             type: string
+ *                             format: uuid
+ *                           entryNumber:
+ *                             type: string
+ *                             nullable: true
+ *                           entryDate:
+ *                             type: string
+ *                             format: date
+ *                           reversalDate:
+ *                             type: string
+ *                             format: date
+ *                           description:
+ *                             type: string
+ *                             nullable: true
+ *                           totalDebit:
+ *                             type: number
+ *                           totalCredit:
+ *                             type: number
+ *                           postedBy:
+ *                             type: string
+ *                             format: uuid
+ *                             nullable: true
+ *                           reversalAttempts:
+ *                             type: integer
+ *                           reversalFailedAt:
+ *                             type: string
+ *                             format: date-time
+ *                             nullable: true
+ *                           reversalError:
+ *                             type: string
+ *                             nullable: true
+ *                     pagination:
+ *                       $ref: '#/components/schemas/Pagination'
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: User not authenticated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Tenant context required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get(
+  '/scheduled-reversals',
+  authenticate,
+  setTenantContext,
+  requireTenantContext,
+  validate(scheduledReversalListSchema, 'query'),
+  getScheduledReversals
+)
+
+/**
+ * @swagger
+ * /journal-entries/import/fields:
+ *   get:
+ *     summary: Get journal entry import fields
+ *     description: Returns the list of fields that can be mapped during journal entry import. The labels are the default column headers.
+ *     tags: [Journal Entries]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Import fields retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ImportFieldsResponse'
+ *       401:
+ *         description: User not authenticated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Tenant context required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get(
+  '/import/fields',
+  authenticate,
+  setTenantContext,
+  requireTenantContext,
+  getJournalEntryImportFields
+)
+
+/**
+ * @swagger
+ * /journal-entries/import:
+ *   post:
+ *     summary: Import journal entries
+ *     description: >
+ *       Creates journal entries from a CSV or Excel file (up to 5 MB and 5000
+ *       rows) sent as multipart/form-data. Each row is a line with a debit or
+ *       a credit. Rows with the same entry number form one entry; rows
+ *       without one are grouped by date. Account numbers are resolved to the
+ *       tenant's chart of accounts and each entry must balance. Entries are
+ *       created as drafts, or posted with status=posted (closed periods and
+ *       approval rules apply). With allOrNothing=true (the default) nothing
+ *       is created unless every row is valid; with allOrNothing=false the
+ *       valid entries are created and the others reported. With dryRun=true
+ *       the file is validated and nothing is created.
+ *     tags: [Journal Entries]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required: [file]
+ *             properties:
+ *               file:
+ *                 type: string
+ *                 format: binary
+ *                 description: CSV, XLSX or XLS file; the first row holds the headers
+ *               mapping:
+ *                 type: string
+ *                 description: JSON object of file headers per import field; defaults to the field labels
+ *                 example: '{"entryNumber":"JE #","entryDate":"Date","accountNumber":"Account","debit":"Debit","credit":"Credit","description":"Line Memo"}'
+ *               dateFormat:
+ *                 type: string
+ *                 enum: [YYYY-MM-DD, MM/DD/YYYY, DD/MM/YYYY]
+ *                 default: YYYY-MM-DD
+ *                 description: Format of text dates; Excel date cells are read as dates
+ *               status:
+ *                 type: string
+ *                 enum: [draft, posted]
+ *                 default: draft
+ *               allOrNothing:
+ *                 type: string
+ *                 enum: ['true', 'false']
+ *                 default: 'true'
+ *               dryRun:
+ *                 type: string
+ *                 enum: ['true', 'false']
+ *                 default: 'false'
+ *     responses:
+ *       200:
+ *         description: File validated (dry run); no entries were created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/JournalEntryImportResponse'
+ *       201:
+ *         description: Journal entries imported; without all-or-nothing, errors lists the rows that were skipped
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/JournalEntryImportResponse'
+ *       400:
+ *         description: >
+ *           Invalid file or options, or nothing could be imported. When rows
+ *           have errors, data holds the import result with the per-row errors
+ *           and no entries are created.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/JournalEntryImportResponse'
+ *       401:
+ *         description: User not authenticated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Tenant context required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       413:
+ *         description: File too large
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post(
+  '/import',
+  authenticate,
+  setTenantContext,
+  requireTenantContext,
+  uploadImportFile,
+  validate(importJournalEntriesSchema),
+  importJournalEntriesController
+)
+
 /**
  * @swagger
  * /journal-entries/{id}:
@@ -358,6 +632,16 @@ router.get(
  *                       type: number
  *                       minimum: 0
  *                       default: 0
+ *                     currencyCode:
+ *                       type: string
+ *                       example: 'USD'
+ *                       description: |
+ *                         Currency of the line, which must be the currency of its account.
+ *                         Debit and credit are then in that currency and converted to the base currency;
+ *                         the entry must balance after conversion.
+ *                     exchangeRate:
+ *                       type: number
+ *                       description: Base currency units per foreign unit. Defaults to the rate in effect on the entry date.
  *                     description:
  *                       type: string
  *                     memo:
@@ -365,7 +649,7 @@ router.get(
  *                     contactId:
  *                       type: string
  *                       format: uuid
- *                       description: Reference to contact (customer/vendor)
+ *                       description: Active contact (customer/vendor) the line belongs to
  *     responses:
  *       201:
  *         description: Journal entry created successfully
@@ -551,7 +835,7 @@ router.post(
  *             schema:
  *               $ref: '#/components/schemas/ErrorResponse'
  *       403:
- *         description: Cannot modify posted or voided entry, or tenant context required
+ *         description: Cannot modify posted or voided entry, entry date in a closed fiscal period, or tenant context required
  *         content:
  *           application/json:
  *             schema:
@@ -584,7 +868,7 @@ router.put(
  * /journal-entries/{id}/post:
  *   post:
  *     summary: Post a journal entry
- *     description: Posts a draft journal entry, updating chart of accounts balances. Entry must be balanced and validated.
+ *     description: Posts a draft journal entry, updating chart of accounts balances. Entry must be balanced and validated. Entries matching an active approval rule must have been submitted and approved first; entries with a pending or rejected submission cannot be posted.
  *     tags: [Journal Entries]
  *     security:
  *       - bearerAuth: []
@@ -596,19 +880,6 @@ router.put(
  *           type: string
  *           format: uuid
  *         description: Journal entry ID (UUID)
- *     requestBody:
- *       required: false
- *       content:
- *         application/json:
- *           schema:
- *             type: object
- *             properties:
- *               approved:
- *                 type: boolean
- *                 default: false
- *               approvedBy:
- *                 type: string
- *                 format: uuid
  *     responses:
  *       200:
  *         description: Journal entry posted successfully
@@ -655,7 +926,7 @@ router.put(
  *             schema:
  *               $ref: '#/components/schemas/ErrorResponse'
  *       403:
- *         description: Cannot post voided entry or tenant context required
+ *         description: Cannot post voided entry, entry date in a closed fiscal period, approval required, or tenant context required
  *         content:
  *           application/json:
  *             schema:
@@ -679,7 +950,6 @@ router.post(
   setTenantContext,
   requireTenantContext,
   validate(journalEntryIdSchema, 'params'),
-  validate(postJournalEntrySchema, 'body'),
   postJournalEntryController
 )
 
@@ -752,7 +1022,7 @@ router.post(
  *             schema:
  *               $ref: '#/components/schemas/ErrorResponse'
  *       403:
- *         description: Cannot void posted entry or tenant context required
+ *         description: Cannot void posted entry, entry date in a closed fiscal period, or tenant context required
  *         content:
  *           application/json:
  *             schema:
@@ -872,7 +1142,7 @@ router.post(
  *             schema:
  *               $ref: '#/components/schemas/ErrorResponse'
  *       403:
- *         description: Cannot reverse draft or voided entry, or tenant context required
+ *         description: Cannot reverse draft or voided entry, reversal date in a closed fiscal period, or tenant context required
  *         content:
  *           application/json:
  *             schema:
@@ -1090,6 +1360,36 @@ router.patch(
  *                 type: string
  *                 maxLength: 100
  *                 description: Optional entry number for the duplicated entry (defaults to auto-generated)
+ *               recurring:
+ *                 type: object
+ *                 description: Also save the original entry as a recurring template with this schedule, in the same transaction
+ *                 required: [frequency, startDate]
+ *                 properties:
+ *                   name:
+ *                     type: string
+ *                     maxLength: 255
+ *                     description: Template name (defaults to the entry description or number)
+ *                   frequency:
+ *                     type: string
+ *                     enum: [daily, weekly, monthly, yearly]
+ *                   interval:
+ *                     type: integer
+ *                     minimum: 1
+ *                     default: 1
+ *                   startDate:
+ *                     type: string
+ *                     format: date
+ *                   endDate:
+ *                     type: string
+ *                     format: date
+ *                     nullable: true
+ *                   maxOccurrences:
+ *                     type: integer
+ *                     minimum: 1
+ *                     nullable: true
+ *                   autoPost:
+ *                     type: boolean
+ *                     default: false
  *     responses:
  *       201:
  *         description: Journal entry duplicated successfully
@@ -1128,6 +1428,26 @@ router.patch(
  *                       type: number
  *                     totalCredit:
  *                       type: number
+ *                     recurringTemplate:
+ *                       type: object
+ *                       nullable: true
+ *                       description: Template created by the recurring option
+ *                       properties:
+ *                         id:
+ *                           type: string
+ *                           format: uuid
+ *                         name:
+ *                           type: string
+ *                         frequency:
+ *                           type: string
+ *                         interval:
+ *                           type: integer
+ *                         nextRunDate:
+ *                           type: string
+ *                           format: date
+ *                           nullable: true
+ *                         status:
+ *                           type: string
  *       400:
  *         description: Validation error
  *         content:
@@ -1169,4 +1489,344 @@ router.post(
   duplicateJournalEntryController
 )
 
+/**
+ * @swagger
+ * /journal-entries/{id}/submit:
+ *   post:
+ *     summary: Submit a journal entry for approval
+ *     description: Submits a draft journal entry to the tenant's approval rules. One approval step is created per matching active rule, ordered by step order. Entries matching no rule are marked not_required and can be posted right away. Rejected entries can be edited and resubmitted; editing an approved entry clears its approval.
+ *     tags: [Journal Entries]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Journal entry ID (UUID)
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               comment:
+ *                 type: string
+ *                 maxLength: 1000
+ *                 description: Comment for the approvers
+ *     responses:
+ *       200:
+ *         description: Journal entry submitted for approval
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 statusCode:
+ *                   type: integer
+ *                   example: 200
+ *                 message:
+ *                   type: string
+ *                   example: 'Journal entry submitted for approval'
+ *                 data:
+ *                   $ref: '#/components/schemas/JournalApprovalEntry'
+ *       400:
+ *         description: Validation error or entry not balanced
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: User not authenticated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Entry is not a draft, or tenant context required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Journal entry not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       409:
+ *         description: Entry is already awaiting approval
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post(
+  '/:id/submit',
+  authenticate,
+  setTenantContext,
+  requireTenantContext,
+  validate(journalEntryIdSchema, 'params'),
+  validate(approvalCommentSchema, 'body'),
+  submitJournalEntryController
+)
+
+/**
+ * @swagger
+ * /journal-entries/{id}/approve:
+ *   post:
+ *     summary: Approve a journal entry
+ *     description: Approves the current approval step of a pending entry. The user must hold the step's required role (super admins can approve any step) and cannot be the preparer or submitter of the entry. A step completes once it has its required number of distinct approvers; the entry is approved when its last step completes and can then be posted.
+ *     tags: [Journal Entries]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Journal entry ID (UUID)
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               comment:
+ *                 type: string
+ *                 maxLength: 1000
+ *                 description: Approval comment
+ *     responses:
+ *       200:
+ *         description: Journal entry approved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 statusCode:
+ *                   type: integer
+ *                   example: 200
+ *                 message:
+ *                   type: string
+ *                   example: 'Journal entry approved successfully'
+ *                 data:
+ *                   $ref: '#/components/schemas/JournalApprovalEntry'
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: User not authenticated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: User prepared or submitted the entry, role cannot approve the current step, or tenant context required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Journal entry not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       409:
+ *         description: Entry is not awaiting approval, or user already approved the current step
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post(
+  '/:id/approve',
+  authenticate,
+  setTenantContext,
+  requireTenantContext,
+  validate(journalEntryIdSchema, 'params'),
+  validate(approvalCommentSchema, 'body'),
+  approveJournalEntryController
+)
+
+/**
+ * @swagger
+ * /journal-entries/{id}/reject:
+ *   post:
+ *     summary: Reject a journal entry
+ *     description: Rejects a pending entry at its current approval step and cancels the remaining steps. The same eligibility rules as approving apply. The preparer can edit and resubmit a rejected entry; it cannot be posted until then.
+ *     tags: [Journal Entries]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Journal entry ID (UUID)
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [comment]
+ *             properties:
+ *               comment:
+ *                 type: string
+ *                 maxLength: 1000
+ *                 description: Reason for the rejection
+ *     responses:
+ *       200:
+ *         description: Journal entry rejected successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 statusCode:
+ *                   type: integer
+ *                   example: 200
+ *                 message:
+ *                   type: string
+ *                   example: 'Journal entry rejected successfully'
+ *                 data:
+ *                   $ref: '#/components/schemas/JournalApprovalEntry'
+ *       400:
+ *         description: Validation error or missing comment
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: User not authenticated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: User prepared or submitted the entry, role cannot review the current step, or tenant context required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Journal entry not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       409:
+ *         description: Entry is not awaiting approval
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post(
+  '/:id/reject',
+  authenticate,
+  setTenantContext,
+  requireTenantContext,
+  validate(journalEntryIdSchema, 'params'),
+  validate(rejectJournalEntrySchema, 'body'),
+  rejectJournalEntryController
+)
+
+/**
+ * @swagger
+ * /journal-entries/{id}/approvals:
+ *   get:
+ *     summary: Get the approval history of a journal entry
+ *     description: Retrieves the approval steps and the submit, approve and reject actions of a journal entry, including earlier submissions, oldest first.
+ *     tags: [Journal Entries]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Journal entry ID (UUID)
+ *     responses:
+ *       200:
+ *         description: Journal entry approval history fetched successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 statusCode:
+ *                   type: integer
+ *                   example: 200
+ *                 message:
+ *                   type: string
+ *                   example: 'Journal entry approval history fetched successfully'
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     entry:
+ *                       $ref: '#/components/schemas/JournalApprovalEntry'
+ *                     steps:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/JournalApprovalStep'
+ *                     actions:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/JournalApprovalAction'
+ *       401:
+ *         description: User not authenticated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Tenant context required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Journal entry not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get(
+  '/:id/approvals',
+  authenticate,
+  setTenantContext,
+  requireTenantContext,
+  validate(journalEntryIdSchema, 'params'),
+  getJournalEntryApprovals
+)
+
 export default router
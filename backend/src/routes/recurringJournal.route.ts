@@ -0,0 +1,597 @@
+import { Router, type Router as RouterType } from 'express'
+
+import {
+  createRecurringTemplateController,
+  deleteRecurringTemplateById,
+  getAllRecurringTemplates,
+  getRecurringTemplateById,
+  getRecurringTemplateEntries,
+  updateRecurringTemplateController,
+} from '@controllers/recurringJournal.controller'
+import { authenticate } from '@middlewares/auth.middleware'
+import {
+  requireTenantContext,
+  setTenantContext,
+} from '@middlewares/tenantContext.middleware'
+import { validate } from '@middlewares/validate.middleware'
+import {
+  createRecurringTemplateSchema,
+  recurringTemplateEntriesSchema,
+  recurringTemplateIdSchema,
+  recurringTemplateListSchema,
+  updateRecurringTemplateSchema,
+} from '@schema/recurringJournal.schema'
+
+const router: RouterType = Router()
+
+/**
+ * @swagger
+ * /journal-entries/recurring:
+ *   get:
+ *     summary: Retrieve recurring journal templates
+ *     description: Lists recurring journal entry templates of the tenant, ordered by name.
+ *     tags: [Journal Entries]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           default: 1
+ *         description: Page number
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *         description: Number of items per page
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [active, paused, completed]
+ *         description: Filter by status
+ *       - in: query
+ *         name: search
+ *         schema:
+ *           type: string
+ *           maxLength: 255
+ *         description: Search term to filter templates by name, description, or reference
+ *     responses:
+ *       200:
+ *         description: Recurring templates retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 statusCode:
+ *                   type: integer
+ *                   example: 200
+ *                 message:
+ *                   type: string
+ *                   example: 'Recurring templates fetched successfully'
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     items:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/RecurringJournalTemplate'
+ *                     pagination:
+ *                       $ref: '#/components/schemas/Pagination'
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: User not authenticated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Tenant context required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get(
+  '/',
+  authenticate,
+  setTenantContext,
+  requireTenantContext,
+  validate(recurringTemplateListSchema, 'query'),
+  getAllRecurringTemplates
+)
+
+/**
+ * @swagger
+ * /journal-entries/recurring:
+ *   post:
+ *     summary: Create a recurring journal template
+ *     description: Creates a template whose lines are turned into a journal entry on every occurrence of its schedule. Occurrence n falls on startDate + n * interval frequency units, so monthly templates started on the 31st fall on the last day of shorter months. The recurring journal worker generates due entries through the regular journal entry flow, as drafts or posted when autoPost is set.
+ *     tags: [Journal Entries]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [name, frequency, startDate, lines]
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 maxLength: 255
+ *                 example: 'Monthly office rent'
+ *               entryType:
+ *                 type: string
+ *                 enum: [standard, adjusting]
+ *                 default: standard
+ *               isAdjusting:
+ *                 type: boolean
+ *                 default: false
+ *               description:
+ *                 type: string
+ *               reference:
+ *                 type: string
+ *                 maxLength: 255
+ *               memo:
+ *                 type: string
+ *               frequency:
+ *                 type: string
+ *                 enum: [daily, weekly, monthly, yearly]
+ *               interval:
+ *                 type: integer
+ *                 minimum: 1
+ *                 maximum: 366
+ *                 default: 1
+ *               startDate:
+ *                 type: string
+ *                 format: date
+ *                 example: '2025-01-01'
+ *               endDate:
+ *                 type: string
+ *                 format: date
+ *                 nullable: true
+ *               maxOccurrences:
+ *                 type: integer
+ *                 minimum: 1
+ *                 nullable: true
+ *               autoPost:
+ *                 type: boolean
+ *                 default: false
+ *               lines:
+ *                 type: array
+ *                 minItems: 2
+ *                 items:
+ *                   $ref: '#/components/schemas/RecurringJournalTemplateLineInput'
+ *     responses:
+ *       201:
+ *         description: Recurring template created successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 statusCode:
+ *                   type: integer
+ *                   example: 201
+ *                 message:
+ *                   type: string
+ *                   example: 'Recurring template created successfully'
+ *                 data:
+ *                   $ref: '#/components/schemas/RecurringJournalTemplate'
+ *       400:
+ *         description: Validation error or unbalanced lines
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: User not authenticated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Tenant context required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Account not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post(
+  '/',
+  authenticate,
+  setTenantContext,
+  requireTenantContext,
+  validate(createRecurringTemplateSchema, 'body'),
+  createRecurringTemplateController
+)
+
+/**
+ * @swagger
+ * /journal-entries/recurring/{id}:
+ *   get:
+ *     summary: Get recurring journal template by ID
+ *     description: Retrieves a recurring template with its lines.
+ *     tags: [Journal Entries]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Recurring template ID (UUID)
+ *     responses:
+ *       200:
+ *         description: Recurring template retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 statusCode:
+ *                   type: integer
+ *                   example: 200
+ *                 message:
+ *                   type: string
+ *                   example: 'Recurring template fetched successfully'
+ *                 data:
+ *                   $ref: '#/components/schemas/RecurringJournalTemplate'
+ *       401:
+ *         description: User not authenticated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Tenant context required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Recurring template not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get(
+  '/:id',
+  authenticate,
+  setTenantContext,
+  requireTenantContext,
+  validate(recurringTemplateIdSchema, 'params'),
+  getRecurringTemplateById
+)
+
+/**
+ * @swagger
+ * /journal-entries/recurring/{id}:
+ *   put:
+ *     summary: Update a recurring journal template
+ *     description: Updates template fields, replaces its lines, or pauses/resumes it. The next occurrence is recalculated from the schedule and the number of entries generated so far. Extending the end date or occurrence count of a completed template reactivates it; resuming a template that has no occurrences left is rejected.
+ *     tags: [Journal Entries]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Recurring template ID (UUID)
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 maxLength: 255
+ *               entryType:
+ *                 type: string
+ *                 enum: [standard, adjusting]
+ *               isAdjusting:
+ *                 type: boolean
+ *               description:
+ *                 type: string
+ *                 nullable: true
+ *               reference:
+ *                 type: string
+ *                 maxLength: 255
+ *                 nullable: true
+ *               memo:
+ *                 type: string
+ *                 nullable: true
+ *               frequency:
+ *                 type: string
+ *                 enum: [daily, weekly, monthly, yearly]
+ *               interval:
+ *                 type: integer
+ *                 minimum: 1
+ *                 maximum: 366
+ *               startDate:
+ *                 type: string
+ *                 format: date
+ *               endDate:
+ *                 type: string
+ *                 format: date
+ *                 nullable: true
+ *               maxOccurrences:
+ *                 type: integer
+ *                 minimum: 1
+ *                 nullable: true
+ *               autoPost:
+ *                 type: boolean
+ *               status:
+ *                 type: string
+ *                 enum: [active, paused]
+ *               lines:
+ *                 type: array
+ *                 minItems: 2
+ *                 items:
+ *                   $ref: '#/components/schemas/RecurringJournalTemplateLineInput'
+ *     responses:
+ *       200:
+ *         description: Recurring template updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 statusCode:
+ *                   type: integer
+ *                   example: 200
+ *                 message:
+ *                   type: string
+ *                   example: 'Recurring template updated successfully'
+ *                 data:
+ *                   $ref: '#/components/schemas/RecurringJournalTemplate'
+ *       400:
+ *         description: Validation error, unbalanced lines, or no occurrences left
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: User not authenticated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Tenant context required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Recurring template or account not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.put(
+  '/:id',
+  authenticate,
+  setTenantContext,
+  requireTenantContext,
+  validate(recurringTemplateIdSchema, 'params'),
+  validate(updateRecurringTemplateSchema, 'body'),
+  updateRecurringTemplateController
+)
+
+/**
+ * @swagger
+ * /journal-entries/recurring/{id}:
+ *   delete:
+ *     summary: Delete a recurring journal template
+ *     description: Soft deletes a recurring template so no further entries are generated. Entries that were already generated are kept.
+ *     tags: [Journal Entries]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Recurring template ID (UUID)
+ *     responses:
+ *       200:
+ *         description: Recurring template deleted successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 statusCode:
+ *                   type: integer
+ *                   example: 200
+ *                 message:
+ *                   type: string
+ *                   example: 'Recurring template deleted successfully'
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     id:
+ *                       type: string
+ *                       format: uuid
+ *       401:
+ *         description: User not authenticated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Tenant context required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Recurring template not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.delete(
+  '/:id',
+  authenticate,
+  setTenantContext,
+  requireTenantContext,
+  validate(recurringTemplateIdSchema, 'params'),
+  deleteRecurringTemplateById
+)
+
+/**
+ * @swagger
+ * /journal-entries/recurring/{id}/entries:
+ *   get:
+ *     summary: Retrieve the entries generated from a recurring template
+ *     description: Lists the journal entries generated from a recurring template, newest first.
+ *     tags: [Journal Entries]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Recurring template ID (UUID)
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           default: 1
+ *         description: Page number
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *         description: Number of items per page
+ *     responses:
+ *       200:
+ *         description: Generated entries retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 statusCode:
+ *                   type: integer
+ *                   example: 200
+ *                 message:
+ *                   type: string
+ *                   example: 'Recurring template entries fetched successfully'
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     items:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           id:
+ *                             type: string
+ *                             format: uuid
+ *                           entryNumber:
+ *                             type: string
+ *                             nullable: true
+ *                           entryDate:
+ *                             type: string
+ *                             format: date
+ *                           description:
+ *                             type: string
+ *                             nullable: true
+ *                           status:
+ *                             type: string
+ *                             enum: [draft, posted, voided]
+ *                           totalDebit:
+ *                             type: number
+ *                           totalCredit:
+ *                             type: number
+ *                     pagination:
+ *                       $ref: '#/components/schemas/Pagination'
+ *       401:
+ *         description: User not authenticated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Tenant context required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Recurring template not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get(
+  '/:id/entries',
+  authenticate,
+  setTenantContext,
+  requireTenantContext,
+  validate(recurringTemplateIdSchema, 'params'),
+  validate(recurringTemplateEntriesSchema, 'query'),
+  getRecurringTemplateEntries
+)
+
+export default router
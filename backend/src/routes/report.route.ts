@@ -0,0 +1,1179 @@
+import { Router, type Router as RouterType } from 'express'
+
+import {
+  getAgedPayablesReport,
+  getAgedReceivablesReport,
+  getBalanceSheetReport,
+  getBudgetVsActualReport,
+  getCashFlowReport,
+  getGeneralLedgerAccountReport,
+  getGeneralLedgerReport,
+  getIncomeStatementReport,
+  getTrialBalanceReport,
+} from '@controllers/report.controller'
+import { authenticate } from '@middlewares/auth.middleware'
+import {
+  requireTenantContext,
+  setTenantContext,
+} from '@middlewares/tenantContext.middleware'
+import { validate } from '@middlewares/validate.middleware'
+import { chartOfAccountIdSchema } from '@schema/chartOfAccount.schema'
+import {
+  agingReportQuerySchema,
+  balanceSheetQuerySchema,
+  budgetVsActualQuerySchema,
+  cashFlowQuerySchema,
+  generalLedgerAccountQuerySchema,
+  generalLedgerQuerySchema,
+  incomeStatementQuerySchema,
+  trialBalanceQuerySchema,
+} from '@schema/report.schema'
+
+const router: RouterType = Router()
+
+/**
+ * @swagger
+ * /reports/trial-balance:
+ *   get:
+ *     summary: Retrieve the trial balance
+ *     description: Lists every chart of account with debit and credit totals from posted journal entry lines as of a date, grouped by account type and subtype, and shows whether the totals balance.
+ *     tags: [Reports]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: asOf
+ *         schema:
+ *           type: string
+ *           format: date
+ *           pattern: '^\d{4}-\d{2}-\d{2}$'
+ *         description: Include posted entries up to and including this date (YYYY-MM-DD). Defaults to today.
+ *       - in: query
+ *         name: hideZeroBalances
+ *         schema:
+ *           type: string
+ *           enum: ['true', 'false']
+ *         description: Hide accounts whose balance is zero
+ *       - in: query
+ *         name: includeClosingEntries
+ *         schema:
+ *           type: string
+ *           enum: ['true', 'false']
+ *         description: Include year-end closing entries. Defaults to true.
+ *     responses:
+ *       200:
+ *         description: Trial balance retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 statusCode:
+ *                   type: integer
+ *                   example: 200
+ *                 message:
+ *                   type: string
+ *                   example: 'Trial balance retrieved successfully'
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     asOf:
+ *                       type: string
+ *                       format: date
+ *                       example: '2025-12-31'
+ *                     groups:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           accountType:
+ *                             type: string
+ *                             enum: [asset, liability, equity, revenue, expense]
+ *                           debitBalance:
+ *                             type: number
+ *                           creditBalance:
+ *                             type: number
+ *                           subtypes:
+ *                             type: array
+ *                             items:
+ *                               type: object
+ *                               properties:
+ *                                 accountSubtype:
+ *                                   type: string
+ *                                   nullable: true
+ *                                 debitBalance:
+ *                                   type: number
+ *                                 creditBalance:
+ *                                   type: number
+ *                                 accounts:
+ *                                   type: array
+ *                                   items:
+ *                                     type: object
+ *                                     properties:
+ *                                       accountId:
+ *                                         type: string
+ *                                         format: uuid
+ *                                       accountNumber:
+ *                                         type: string
+ *                                         nullable: true
+ *                                       accountName:
+ *                                         type: string
+ *                                       totalDebit:
+ *                                         type: number
+ *                                       totalCredit:
+ *                                         type: number
+ *                                       debitBalance:
+ *                                         type: number
+ *                                       creditBalance:
+ *                                         type: number
+ *                     totals:
+ *                       type: object
+ *                       properties:
+ *                         totalDebit:
+ *                           type: number
+ *                         totalCredit:
+ *                           type: number
+ *                         debitBalance:
+ *                           type: number
+ *                         creditBalance:
+ *                           type: number
+ *                         difference:
+ *                           type: number
+ *                         isBalanced:
+ *                           type: boolean
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: User not authenticated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Tenant context required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get(
+  '/trial-balance',
+  authenticate,
+  setTenantContext,
+  requireTenantContext,
+  validate(trialBalanceQuerySchema, 'query'),
+  getTrialBalanceReport
+)
+
+/**
+ * @swagger
+ * /reports/balance-sheet:
+ *   get:
+ *     summary: Retrieve the balance sheet
+ *     description: Returns asset, liability and equity balances from posted journal entry lines as of a date. Sub-accounts roll up into their parent account, and earnings not yet closed to equity are shown as prior years and current year earnings. Includes a check that assets equal liabilities plus equity.
+ *     tags: [Reports]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: asOf
+ *         schema:
+ *           type: string
+ *           format: date
+ *           pattern: '^\d{4}-\d{2}-\d{2}$'
+ *         description: Include posted entries up to and including this date (YYYY-MM-DD). Defaults to today.
+ *       - in: query
+ *         name: hideZeroBalances
+ *         schema:
+ *           type: string
+ *           enum: ['true', 'false']
+ *         description: Hide accounts whose total is zero
+ *       - in: query
+ *         name: includeClosingEntries
+ *         schema:
+ *           type: string
+ *           enum: ['true', 'false']
+ *         description: Include year-end closing entries. Defaults to true.
+ *     responses:
+ *       200:
+ *         description: Balance sheet retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 statusCode:
+ *                   type: integer
+ *                   example: 200
+ *                 message:
+ *                   type: string
+ *                   example: 'Balance sheet retrieved successfully'
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     asOf:
+ *                       type: string
+ *                       format: date
+ *                       example: '2025-12-31'
+ *                     fiscalYearStart:
+ *                       type: string
+ *                       format: date
+ *                       example: '2025-01-01'
+ *                     assets:
+ *                       $ref: '#/components/schemas/ReportSection'
+ *                     liabilities:
+ *                       $ref: '#/components/schemas/ReportSection'
+ *                     equity:
+ *                       allOf:
+ *                         - $ref: '#/components/schemas/ReportSection'
+ *                         - type: object
+ *                           properties:
+ *                             priorYearsEarnings:
+ *                               type: number
+ *                             currentYearEarnings:
+ *                               type: number
+ *                             totalWithEarnings:
+ *                               type: number
+ *                     totals:
+ *                       type: object
+ *                       properties:
+ *                         totalAssets:
+ *                           type: number
+ *                         totalLiabilities:
+ *                           type: number
+ *                         totalEquity:
+ *                           type: number
+ *                         totalLiabilitiesAndEquity:
+ *                           type: number
+ *                         difference:
+ *                           type: number
+ *                         isBalanced:
+ *                           type: boolean
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: User not authenticated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Tenant context required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get(
+  '/balance-sheet',
+  authenticate,
+  setTenantContext,
+  requireTenantContext,
+  validate(balanceSheetQuerySchema, 'query'),
+  getBalanceSheetReport
+)
+
+/**
+ * @swagger
+ * /reports/income-statement:
+ *   get:
+ *     summary: Retrieve the income statement
+ *     description: Returns revenue and expenses from posted journal entry lines for a date range, split into operating revenue, cost of goods sold, operating expenses and other income/expenses, with gross profit, operating income and net income. Optionally adds a comparison column for the previous period or the same period last year.
+ *     tags: [Reports]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: startDate
+ *         schema:
+ *           type: string
+ *           format: date
+ *           pattern: '^\d{4}-\d{2}-\d{2}$'
+ *         description: Start of the period (YYYY-MM-DD). Defaults to the start of the fiscal year containing the end date (calendar year if no fiscal year is defined).
+ *       - in: query
+ *         name: endDate
+ *         schema:
+ *           type: string
+ *           format: date
+ *           pattern: '^\d{4}-\d{2}-\d{2}$'
+ *         description: End of the period, inclusive (YYYY-MM-DD). Defaults to today.
+ *       - in: query
+ *         name: compareTo
+ *         schema:
+ *           type: string
+ *           enum: [previous_period, previous_year]
+ *         description: Add a comparison column for the preceding period of the same length or the same period last year
+ *       - in: query
+ *         name: hideZeroBalances
+ *         schema:
+ *           type: string
+ *           enum: ['true', 'false']
+ *         description: Hide accounts with no activity in either column
+ *       - in: query
+ *         name: includeClosingEntries
+ *         schema:
+ *           type: string
+ *           enum: ['true', 'false']
+ *         description: Include year-end closing entries, which zero revenue and expense accounts into retained earnings. Defaults to false.
+ *     responses:
+ *       200:
+ *         description: Income statement retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 statusCode:
+ *                   type: integer
+ *                   example: 200
+ *                 message:
+ *                   type: string
+ *                   example: 'Income statement retrieved successfully'
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     period:
+ *                       type: object
+ *                       properties:
+ *                         startDate:
+ *                           type: string
+ *                           format: date
+ *                         endDate:
+ *                           type: string
+ *                           format: date
+ *                     comparisonPeriod:
+ *                       type: object
+ *                       nullable: true
+ *                       properties:
+ *                         startDate:
+ *                           type: string
+ *                           format: date
+ *                         endDate:
+ *                           type: string
+ *                           format: date
+ *                     compareTo:
+ *                       type: string
+ *                       nullable: true
+ *                       enum: [previous_period, previous_year]
+ *                     sections:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           key:
+ *                             type: string
+ *                             enum: [operatingRevenue, costOfGoodsSold, operatingExpenses, otherRevenue, otherExpenses]
+ *                           accountType:
+ *                             type: string
+ *                             enum: [revenue, expense]
+ *                           total:
+ *                             $ref: '#/components/schemas/IncomeStatementAmount'
+ *                           accounts:
+ *                             type: array
+ *                             items:
+ *                               type: object
+ *                               properties:
+ *                                 accountId:
+ *                                   type: string
+ *                                   format: uuid
+ *                                 accountNumber:
+ *                                   type: string
+ *                                   nullable: true
+ *                                 accountName:
+ *                                   type: string
+ *                                 parentAccountId:
+ *                                   type: string
+ *                                   format: uuid
+ *                                   nullable: true
+ *                                 amount:
+ *                                   $ref: '#/components/schemas/IncomeStatementAmount'
+ *                     totals:
+ *                       type: object
+ *                       properties:
+ *                         totalRevenue:
+ *                           $ref: '#/components/schemas/IncomeStatementAmount'
+ *                         totalExpenses:
+ *                           $ref: '#/components/schemas/IncomeStatementAmount'
+ *                         grossProfit:
+ *                           $ref: '#/components/schemas/IncomeStatementAmount'
+ *                         operatingIncome:
+ *                           $ref: '#/components/schemas/IncomeStatementAmount'
+ *                         netIncome:
+ *                           $ref: '#/components/schemas/IncomeStatementAmount'
+ *       400:
+ *         description: Validation error or invalid date range
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: User not authenticated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Tenant context required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get(
+  '/income-statement',
+  authenticate,
+  setTenantContext,
+  requireTenantContext,
+  validate(incomeStatementQuerySchema, 'query'),
+  getIncomeStatementReport
+)
+
+/**
+ * @swagger
+ * /reports/cash-flow:
+ *   get:
+ *     summary: Retrieve the statement of cash flows
+ *     description: Builds a cash flow statement for a date range using the indirect method. Starts from net income, adjusts for changes in current asset and liability accounts (operating), and adds changes in fixed and other assets (investing) and long-term liabilities and equity (financing). Cash accounts are chart of accounts linked to a bank account; their opening and closing balances are used to reconcile the net change in cash.
+ *     tags: [Reports]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: startDate
+ *         schema:
+ *           type: string
+ *           format: date
+ *           pattern: '^\d{4}-\d{2}-\d{2}$'
+ *         description: Start of the period (YYYY-MM-DD). Defaults to the start of the fiscal year containing the end date (calendar year if no fiscal year is defined).
+ *       - in: query
+ *         name: endDate
+ *         schema:
+ *           type: string
+ *           format: date
+ *           pattern: '^\d{4}-\d{2}-\d{2}$'
+ *         description: End of the period, inclusive (YYYY-MM-DD). Defaults to today.
+ *       - in: query
+ *         name: hideZeroBalances
+ *         schema:
+ *           type: string
+ *           enum: ['true', 'false']
+ *         description: Hide accounts that did not change during the period
+ *       - in: query
+ *         name: includeClosingEntries
+ *         schema:
+ *           type: string
+ *           enum: ['true', 'false']
+ *         description: Include year-end closing entries, which zero revenue and expense accounts into retained earnings. Defaults to false.
+ *     responses:
+ *       200:
+ *         description: Cash flow statement retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 statusCode:
+ *                   type: integer
+ *                   example: 200
+ *                 message:
+ *                   type: string
+ *                   example: 'Cash flow statement retrieved successfully'
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     period:
+ *                       type: object
+ *                       properties:
+ *                         startDate:
+ *                           type: string
+ *                           format: date
+ *                         endDate:
+ *                           type: string
+ *                           format: date
+ *                     operating:
+ *                       allOf:
+ *                         - $ref: '#/components/schemas/CashFlowSection'
+ *                         - type: object
+ *                           properties:
+ *                             netIncome:
+ *                               type: number
+ *                             adjustments:
+ *                               type: number
+ *                               description: Total working capital adjustments
+ *                     investing:
+ *                       $ref: '#/components/schemas/CashFlowSection'
+ *                     financing:
+ *                       $ref: '#/components/schemas/CashFlowSection'
+ *                     cashAccounts:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           accountId:
+ *                             type: string
+ *                             format: uuid
+ *                           accountNumber:
+ *                             type: string
+ *                             nullable: true
+ *                           accountName:
+ *                             type: string
+ *                           bankAccountId:
+ *                             type: string
+ *                             format: uuid
+ *                           openingBalance:
+ *                             type: number
+ *                           closingBalance:
+ *                             type: number
+ *                     totals:
+ *                       type: object
+ *                       properties:
+ *                         netCashFromOperating:
+ *                           type: number
+ *                         netCashFromInvesting:
+ *                           type: number
+ *                         netCashFromFinancing:
+ *                           type: number
+ *                         netChangeInCash:
+ *                           type: number
+ *                         openingCash:
+ *                           type: number
+ *                         closingCash:
+ *                           type: number
+ *                         difference:
+ *                           type: number
+ *                         isReconciled:
+ *                           type: boolean
+ *       400:
+ *         description: Validation error or invalid date range
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: User not authenticated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Tenant context required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get(
+  '/cash-flow',
+  authenticate,
+  setTenantContext,
+  requireTenantContext,
+  validate(cashFlowQuerySchema, 'query'),
+  getCashFlowReport
+)
+
+/**
+ * @swagger
+ * /reports/general-ledger:
+ *   get:
+ *     summary: Retrieve the general ledger summary
+ *     description: Lists each chart of account with its opening balance, posted debits and credits, closing balance and number of movements for a date range.
+ *     tags: [Reports]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: startDate
+ *         schema:
+ *           type: string
+ *           format: date
+ *           pattern: '^\d{4}-\d{2}-\d{2}$'
+ *         description: Start of the period (YYYY-MM-DD). Defaults to the start of the fiscal year containing the end date (calendar year if no fiscal year is defined).
+ *       - in: query
+ *         name: endDate
+ *         schema:
+ *           type: string
+ *           format: date
+ *           pattern: '^\d{4}-\d{2}-\d{2}$'
+ *         description: End of the period, inclusive (YYYY-MM-DD). Defaults to today.
+ *       - in: query
+ *         name: accountType
+ *         schema:
+ *           type: string
+ *           enum: [asset, liability, equity, revenue, expense]
+ *         description: Only include accounts of this type
+ *       - in: query
+ *         name: hideZeroBalances
+ *         schema:
+ *           type: string
+ *           enum: ['true', 'false']
+ *         description: Hide accounts with no opening balance and no movements
+ *       - in: query
+ *         name: includeClosingEntries
+ *         schema:
+ *           type: string
+ *           enum: ['true', 'false']
+ *         description: Include year-end closing entries. Defaults to true.
+ *     responses:
+ *       200:
+ *         description: General ledger retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 statusCode:
+ *                   type: integer
+ *                   example: 200
+ *                 message:
+ *                   type: string
+ *                   example: 'General ledger retrieved successfully'
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     period:
+ *                       type: object
+ *                       properties:
+ *                         startDate:
+ *                           type: string
+ *                           format: date
+ *                         endDate:
+ *                           type: string
+ *                           format: date
+ *                     accounts:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           accountId:
+ *                             type: string
+ *                             format: uuid
+ *                           accountNumber:
+ *                             type: string
+ *                             nullable: true
+ *                           accountName:
+ *                             type: string
+ *                           accountType:
+ *                             type: string
+ *                             enum: [asset, liability, equity, revenue, expense]
+ *                           accountSubtype:
+ *                             type: string
+ *                             nullable: true
+ *                           openingBalance:
+ *                             type: number
+ *                           totalDebit:
+ *                             type: number
+ *                           totalCredit:
+ *                             type: number
+ *                           closingBalance:
+ *                             type: number
+ *                           movementCount:
+ *                             type: integer
+ *                     totals:
+ *                       type: object
+ *                       properties:
+ *                         totalDebit:
+ *                           type: number
+ *                         totalCredit:
+ *                           type: number
+ *       400:
+ *         description: Validation error or invalid date range
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: User not authenticated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Tenant context required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get(
+  '/general-ledger',
+  authenticate,
+  setTenantContext,
+  requireTenantContext,
+  validate(generalLedgerQuerySchema, 'query'),
+  getGeneralLedgerReport
+)
+
+/**
+ * @swagger
+ * /reports/aged-receivables:
+ *   get:
+ *     summary: Retrieve the receivables aging report
+ *     description: Buckets the open balance of each customer on the receivables control account (accounts receivable account of the invoice settings) into current, 1-30, 31-60, 61-90 and over 90 days past due as of a date. Posted lines tagged with the customer are matched open item by open item; charges are aged from the due date of their document, unapplied payments and credits from their entry date and shown as negative amounts. Entries reversed on or before the date are left out.
+ *     tags: [Reports]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: asOf
+ *         schema:
+ *           type: string
+ *           format: date
+ *           pattern: '^\d{4}-\d{2}-\d{2}$'
+ *         description: Age balances as of this date (YYYY-MM-DD). Defaults to today.
+ *       - in: query
+ *         name: mode
+ *         schema:
+ *           type: string
+ *           enum: [summary, detail]
+ *           default: summary
+ *         description: Summary lists bucket totals per customer; detail adds the open items
+ *       - in: query
+ *         name: contactId
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Only age the balance of this customer
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [json, csv, xlsx]
+ *           default: json
+ *         description: Return the report as JSON, or download it as a CSV or XLSX file
+ *     responses:
+ *       200:
+ *         description: Aged receivables retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 statusCode:
+ *                   type: integer
+ *                   example: 200
+ *                 message:
+ *                   type: string
+ *                   example: 'Aged receivables retrieved successfully'
+ *                 data:
+ *                   $ref: '#/components/schemas/AgingReport'
+ *           text/csv:
+ *             schema:
+ *               type: string
+ *           application/vnd.openxmlformats-officedocument.spreadsheetml.sheet:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       400:
+ *         description: Validation error or receivables account not set
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: User not authenticated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Tenant context required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Chart of account not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get(
+  '/aged-receivables',
+  authenticate,
+  setTenantContext,
+  requireTenantContext,
+  validate(agingReportQuerySchema, 'query'),
+  getAgedReceivablesReport
+)
+
+/**
+ * @swagger
+ * /reports/aged-payables:
+ *   get:
+ *     summary: Retrieve the payables aging report
+ *     description: Buckets the open balance of each vendor on the payables control account (accounts payable account of the bill settings) into current, 1-30, 31-60, 61-90 and over 90 days past due as of a date. Posted lines tagged with the vendor are matched open item by open item; charges are aged from the due date of their document, unapplied payments and credits from their entry date and shown as negative amounts. Entries reversed on or before the date are left out.
+ *     tags: [Reports]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: asOf
+ *         schema:
+ *           type: string
+ *           format: date
+ *           pattern: '^\d{4}-\d{2}-\d{2}$'
+ *         description: Age balances as of this date (YYYY-MM-DD). Defaults to today.
+ *       - in: query
+ *         name: mode
+ *         schema:
+ *           type: string
+ *           enum: [summary, detail]
+ *           default: summary
+ *         description: Summary lists bucket totals per vendor; detail adds the open items
+ *       - in: query
+ *         name: contactId
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Only age the balance of this vendor
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [json, csv, xlsx]
+ *           default: json
+ *         description: Return the report as JSON, or download it as a CSV or XLSX file
+ *     responses:
+ *       200:
+ *         description: Aged payables retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 statusCode:
+ *                   type: integer
+ *                   example: 200
+ *                 message:
+ *                   type: string
+ *                   example: 'Aged payables retrieved successfully'
+ *                 data:
+ *                   $ref: '#/components/schemas/AgingReport'
+ *           text/csv:
+ *             schema:
+ *               type: string
+ *           application/vnd.openxmlformats-officedocument.spreadsheetml.sheet:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       400:
+ *         description: Validation error or payables account not set
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: User not authenticated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Tenant context required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Chart of account not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get(
+  '/aged-payables',
+  authenticate,
+  setTenantContext,
+  requireTenantContext,
+  validate(agingReportQuerySchema, 'query'),
+  getAgedPayablesReport
+)
+
+/**
+ * @swagger
+ * /reports/budget-vs-actual:
+ *   get:
+ *     summary: Retrieve the budget vs actual report
+ *     description: Compares the budgeted amount of each revenue and expense account of a budget with its posted journal entry lines, month by month over the fiscal year of the budget. Variance is actual minus budget; variance percent is relative to the budget and null when nothing was budgeted. Year-end closing entries are left out. The summary gives net income and the budgeted and actual profit margins per month.
+ *     tags: [Reports]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: budgetId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Budget to report on
+ *     responses:
+ *       200:
+ *         description: Budget vs actual report retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 statusCode:
+ *                   type: integer
+ *                   example: 200
+ *                 message:
+ *                   type: string
+ *                   example: 'Budget vs actual report retrieved successfully'
+ *                 data:
+ *                   $ref: '#/components/schemas/BudgetVsActualReport'
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: User not authenticated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Tenant context required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Budget not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get(
+  '/budget-vs-actual',
+  authenticate,
+  setTenantContext,
+  requireTenantContext,
+  validate(budgetVsActualQuerySchema, 'query'),
+  getBudgetVsActualReport
+)
+
+/**
+ * @swagger
+ * /reports/general-ledger/{id}:
+ *   get:
+ *     summary: Retrieve the ledger of one account
+ *     description: Lists posted journal entry lines of a chart of account for a date range in entry date order, with opening balance, running balance after each line and closing balance. Each movement references its journal entry.
+ *     tags: [Reports]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Chart of account ID
+ *       - in: query
+ *         name: startDate
+ *         schema:
+ *           type: string
+ *           format: date
+ *           pattern: '^\d{4}-\d{2}-\d{2}$'
+ *         description: Start of the period (YYYY-MM-DD). Defaults to the start of the fiscal year containing the end date (calendar year if no fiscal year is defined).
+ *       - in: query
+ *         name: endDate
+ *         schema:
+ *           type: string
+ *           format: date
+ *           pattern: '^\d{4}-\d{2}-\d{2}$'
+ *         description: End of the period, inclusive (YYYY-MM-DD). Defaults to today.
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           default: 1
+ *         description: Page number
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *         description: Number of movements per page
+ *       - in: query
+ *         name: includeClosingEntries
+ *         schema:
+ *           type: string
+ *           enum: ['true', 'false']
+ *         description: Include year-end closing entries. Defaults to true.
+ *     responses:
+ *       200:
+ *         description: General ledger account movements retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 statusCode:
+ *                   type: integer
+ *                   example: 200
+ *                 message:
+ *                   type: string
+ *                   example: 'General ledger account movements retrieved successfully'
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     period:
+ *                       type: object
+ *                       properties:
+ *                         startDate:
+ *                           type: string
+ *                           format: date
+ *                         endDate:
+ *                           type: string
+ *                           format: date
+ *                     account:
+ *                       type: object
+ *                       properties:
+ *                         accountId:
+ *                           type: string
+ *                           format: uuid
+ *                         accountNumber:
+ *                           type: string
+ *                           nullable: true
+ *                         accountName:
+ *                           type: string
+ *                         accountType:
+ *                           type: string
+ *                           enum: [asset, liability, equity, revenue, expense]
+ *                         accountSubtype:
+ *                           type: string
+ *                           nullable: true
+ *                         openingBalance:
+ *                           type: number
+ *                         totalDebit:
+ *                           type: number
+ *                         totalCredit:
+ *                           type: number
+ *                         closingBalance:
+ *                           type: number
+ *                         movementCount:
+ *                           type: integer
+ *                     items:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           journalEntryId:
+ *                             type: string
+ *                             format: uuid
+ *                           journalEntryLineId:
+ *                             type: string
+ *                             format: uuid
+ *                           entryNumber:
+ *                             type: string
+ *                             nullable: true
+ *                           entryDate:
+ *                             type: string
+ *                             format: date
+ *                           entryType:
+ *                             type: string
+ *                           reference:
+ *                             type: string
+ *                             nullable: true
+ *                           description:
+ *                             type: string
+ *                             nullable: true
+ *                           memo:
+ *                             type: string
+ *                             nullable: true
+ *                           contactId:
+ *                             type: string
+ *                             format: uuid
+ *                             nullable: true
+ *                           sourceModule:
+ *                             type: string
+ *                             nullable: true
+ *                           debit:
+ *                             type: number
+ *                           credit:
+ *                             type: number
+ *                           runningBalance:
+ *                             type: number
+ *                     pagination:
+ *                       $ref: '#/components/schemas/Pagination'
+ *       400:
+ *         description: Validation error or invalid date range
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: User not authenticated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Tenant context required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Chart of account not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get(
+  '/general-ledger/:id',
+  authenticate,
+  setTenantContext,
+  requireTenantContext,
+  validate(chartOfAccountIdSchema, 'params'),
+  validate(generalLedgerAccountQuerySchema, 'query'),
+  getGeneralLedgerAccountReport
+)
+
+export default router
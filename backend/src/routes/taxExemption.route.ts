@@ -126,6 +126,15 @@ const router: RouterType = Router()
  *                           contactId:
  *                             type: string
  *                             format: uuid
+ *                           contact:
+ *                             type: object
+ *                             nullable: true
+ *                             properties:
+ *                               id:
+ *                                 type: string
+ *                                 format: uuid
+ *                               displayName:
+ *                                 type: string
  *                           taxId:
  *                             type: string
  *                             format: uuid
@@ -224,6 +233,15 @@ router.get(
  *                     contactId:
  *                       type: string
  *                       format: uuid
+ *                     contact:
+ *                       type: object
+ *                       nullable: true
+ *                       properties:
+ *                         id:
+ *                           type: string
+ *                           format: uuid
+ *                         displayName:
+ *                           type: string
  *                     taxId:
  *                       type: string
  *                       format: uuid
@@ -307,7 +325,7 @@ router.get(
  *               contactId:
  *                 type: string
  *                 format: uuid
- *                 description: Contact ID (customer or vendor)
+ *                 description: ID of an active contact (customer or vendor)
  *               taxId:
  *                 type: string
  *                 format: uuid
@@ -2,9 +2,11 @@ import { Router, type Router as RouterType } from 'express'
 
 import { ROLES } from '@constants/roles'
 import {
+  applyChartOfAccountTemplateController,
   createTenantController,
   deleteTenantById,
   getAllTenants,
+  getChartOfAccountTemplates,
   getTenantById,
   getUserTenants,
   restoreTenantById,
@@ -14,6 +16,7 @@ import {
 import { authenticate, authorize } from '@middlewares/auth.middleware'
 import { validate } from '@middlewares/validate.middleware'
 import {
+  applyChartOfAccountTemplateSchema,
   createTenantSchema,
   tenantIdSchema,
   tenantListSchema,
@@ -208,7 +211,7 @@ router.get(
  * /tenants:
  *   post:
  *     summary: Create a new tenant (onboard)
- *     description: Creates a new tenant with database schema. Users should be created separately and then associated with the tenant. Only SuperAdmin can create tenants.
+ *     description: Creates a new tenant with database schema, and the accounts of the chart of accounts template when one is given. Users should be created separately and then associated with the tenant. Only SuperAdmin can create tenants.
  *     tags: [Tenants]
  *     security:
  *       - bearerAuth: []
@@ -234,6 +237,11 @@ router.get(
  *                 pattern: '^[a-z][a-z0-9_]*$'
  *                 example: 'acme_corp'
  *                 description: Schema name must start with a lowercase letter and contain only lowercase letters, numbers, and underscores
+ *               chartOfAccountTemplate:
+ *                 type: string
+ *                 enum: [general_small_business, dental_clinic, professional_services, retail, non_profit]
+ *                 example: 'general_small_business'
+ *                 description: Chart of accounts template to set the tenant up with; the tenant starts with no accounts when omitted
  *     responses:
  *       201:
  *         description: Tenant onboarded successfully
@@ -268,6 +276,12 @@ router.get(
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Chart of accounts template not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
  *       409:
  *         description: Tenant schema already exists
  *         content:
@@ -283,6 +297,53 @@ router.post(
   createTenantController
 )
 
+/**
+ * @swagger
+ * /tenants/chart-of-account-templates:
+ *   get:
+ *     summary: List chart of accounts templates
+ *     description: Lists the industry chart of accounts templates a tenant can be set up with. Only SuperAdmin can access this endpoint.
+ *     tags: [Tenants]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Chart of accounts templates fetched successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: 'Chart of accounts templates fetched successfully'
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/ChartOfAccountTemplate'
+ *       401:
+ *         description: User not authenticated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: User not authorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get(
+  '/chart-of-account-templates',
+  authenticate,
+  authorize({ roles: [ROLES.SUPERADMIN] }),
+  getChartOfAccountTemplates
+)
+
 /**
  * @swagger
  * /tenants/{id}:
@@ -547,6 +608,122 @@ router.patch(
   restoreTenantById
 )
 
+/**
+ * @swagger
+ * /tenants/{id}/chart-of-account-template:
+ *   post:
+ *     summary: Apply a chart of accounts template to a tenant
+ *     description: Creates the accounts of an industry template in a tenant that has no accounts yet, and records the template and its version on the tenant. Only SuperAdmin can access this endpoint.
+ *     tags: [Tenants]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Tenant ID (UUID)
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - templateKey
+ *             properties:
+ *               templateKey:
+ *                 type: string
+ *                 enum: [general_small_business, dental_clinic, professional_services, retail, non_profit]
+ *                 example: 'dental_clinic'
+ *     responses:
+ *       201:
+ *         description: Chart of accounts template applied successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: 'Chart of accounts template applied successfully'
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     template:
+ *                       $ref: '#/components/schemas/ChartOfAccountTemplate'
+ *                     accounts:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           id:
+ *                             type: string
+ *                             format: uuid
+ *                           accountNumber:
+ *                             type: string
+ *                             example: '1000'
+ *                           accountName:
+ *                             type: string
+ *                             example: 'Checking'
+ *                           accountType:
+ *                             type: string
+ *                             enum: [asset, liability, equity, revenue, expense]
+ *                           accountSubtype:
+ *                             type: string
+ *                             example: 'current_asset'
+ *                           accountDetailType:
+ *                             type: string
+ *                             example: 'checking'
+ *                           parentAccountId:
+ *                             type: string
+ *                             format: uuid
+ *                             nullable: true
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: User not authenticated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: User not authorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Tenant not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       409:
+ *         description: Tenant already has accounts
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post(
+  '/:id/chart-of-account-template',
+  authenticate,
+  authorize({ roles: [ROLES.SUPERADMIN] }),
+  validate(tenantIdSchema, 'params'),
+  validate(applyChartOfAccountTemplateSchema),
+  applyChartOfAccountTemplateController
+)
+
 /**
  * @swagger
  * /tenants/{id}/switch:
@@ -0,0 +1,124 @@
+/**
+ * Bank Reconciliation Schema
+ * Zod validation schemas for bank reconciliation requests
+ */
+
+import { z } from 'zod'
+
+import { BankReconciliationStatus } from '@models/BankReconciliation'
+import { paginationSchema } from '@schema/shared.schema'
+
+/**
+ * Statement date schema (YYYY-MM-DD)
+ */
+const statementDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, {
+  message: 'Invalid statement date format. Expected YYYY-MM-DD',
+})
+
+/**
+ * Statement ending balance schema
+ * Can be negative for an overdrawn account
+ */
+const statementEndingBalanceSchema = z
+  .number({ message: 'Statement ending balance must be a number' })
+  .min(-99999999999, { message: 'Statement ending balance is too small' })
+  .max(99999999999, { message: 'Statement ending balance is too large' })
+
+/**
+ * Bank reconciliation list query schema
+ */
+export const bankReconciliationListSchema = paginationSchema.extend({
+  accountId: z
+    .string()
+    .uuid({ message: 'Invalid account ID format' })
+    .optional(),
+  status: z.enum(BankReconciliationStatus).optional(),
+})
+
+/**
+ * Type inference for bank reconciliation list schema
+ */
+export type BankReconciliationListInput = z.infer<
+  typeof bankReconciliationListSchema
+>
+
+/**
+ * Bank reconciliation ID schema
+ */
+export const bankReconciliationIdSchema = z.object({
+  id: z.string().uuid({ message: 'Invalid reconciliation ID format' }),
+})
+
+/**
+ * Start bank reconciliation schema
+ */
+export const startBankReconciliationSchema = z.object({
+  accountId: z.string().uuid({ message: 'Invalid account ID format' }),
+  statementDate: statementDateSchema,
+  statementEndingBalance: statementEndingBalanceSchema,
+})
+
+/**
+ * Type inference for start bank reconciliation schema
+ */
+export type StartBankReconciliationInput = z.infer<
+  typeof startBankReconciliationSchema
+>
+
+/**
+ * Update bank reconciliation schema
+ */
+export const updateBankReconciliationSchema = z
+  .object({
+    statementDate: statementDateSchema.optional(),
+    statementEndingBalance: statementEndingBalanceSchema.optional(),
+  })
+  .refine(
+    (data) =>
+      data.statementDate !== undefined ||
+      data.statementEndingBalance !== undefined,
+    { message: 'At least one field must be provided' }
+  )
+
+/**
+ * Type inference for update bank reconciliation schema
+ */
+export type UpdateBankReconciliationInput = z.infer<
+  typeof updateBankReconciliationSchema
+>
+
+/**
+ * Bank reconciliation lines query schema
+ */
+export const bankReconciliationLinesSchema = paginationSchema.extend({
+  cleared: z
+    .string()
+    .transform((val) => val === 'true')
+    .pipe(z.boolean())
+    .optional(),
+})
+
+/**
+ * Type inference for bank reconciliation lines schema
+ */
+export type BankReconciliationLinesInput = z.infer<
+  typeof bankReconciliationLinesSchema
+>
+
+/**
+ * Clear bank reconciliation lines schema
+ */
+export const clearBankReconciliationLinesSchema = z.object({
+  lineIds: z
+    .array(z.string().uuid({ message: 'Invalid line ID format' }))
+    .min(1, { message: 'At least one line is required' })
+    .max(500, { message: 'At most 500 lines can be updated at once' }),
+  cleared: z.boolean({ message: 'Cleared must be a boolean' }),
+})
+
+/**
+ * Type inference for clear bank reconciliation lines schema
+ */
+export type ClearBankReconciliationLinesInput = z.infer<
+  typeof clearBankReconciliationLinesSchema
+>
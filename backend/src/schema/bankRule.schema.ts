@@ -0,0 +1,168 @@
+/**
+ * Bank Rule Schema
+ * Zod validation schemas for bank transaction categorization rules
+ */
+
+import { z } from 'zod'
+
+import {
+  BANK_RULE_AMOUNT_OPERATORS,
+  BANK_RULE_TEXT_FIELDS,
+  BANK_RULE_TEXT_OPERATORS,
+} from '@constants/bankTransaction'
+import {
+  BankRuleMatchType,
+  BankRuleTransactionType,
+} from '@models/BankCategorizationRule'
+import { paginationSchema } from '@schema/shared.schema'
+
+/**
+ * Condition on the description, payee or reference
+ */
+const textConditionSchema = z.object({
+  field: z.enum(BANK_RULE_TEXT_FIELDS),
+  operator: z.enum(BANK_RULE_TEXT_OPERATORS),
+  value: z
+    .string()
+    .trim()
+    .min(1, { message: 'Condition value is required' })
+    .max(255, { message: 'Condition value must not exceed 255 characters' }),
+})
+
+/**
+ * Condition on the absolute amount
+ */
+const amountConditionSchema = z.object({
+  field: z.literal('amount'),
+  operator: z.enum(BANK_RULE_AMOUNT_OPERATORS),
+  value: z
+    .number({ message: 'Condition amount must be a number' })
+    .nonnegative({ message: 'Condition amount must be non-negative' }),
+})
+
+const conditionsSchema = z
+  .array(z.union([textConditionSchema, amountConditionSchema]))
+  .min(1, { message: 'At least one condition is required' })
+  .max(20, { message: 'A rule can have at most 20 conditions' })
+
+const prioritySchema = z
+  .number({ message: 'Priority must be a number' })
+  .int({ message: 'Priority must be an integer' })
+  .min(1, { message: 'Priority must be at least 1' })
+
+const ruleNameSchema = z
+  .string()
+  .trim()
+  .min(1, 'Rule name is required')
+  .max(255, 'Rule name must not exceed 255 characters')
+
+const accountIdSchema = z
+  .string()
+  .uuid({ message: 'Invalid account ID format' })
+
+const categoryAccountIdSchema = z
+  .string()
+  .uuid({ message: 'Invalid category account ID format' })
+
+const taxGroupIdSchema = z
+  .string()
+  .uuid({ message: 'Invalid tax group ID format' })
+
+/**
+ * Matching part of a rule, shared by create and test
+ */
+const ruleDefinitionSchema = z.object({
+  matchType: z.enum(BankRuleMatchType).optional(),
+  conditions: conditionsSchema,
+  transactionType: z.enum(BankRuleTransactionType).optional(),
+  accountId: accountIdSchema.nullable().optional(),
+  categoryAccountId: categoryAccountIdSchema,
+})
+
+/**
+ * Bank rule list query schema
+ */
+export const bankRuleListSchema = paginationSchema.extend({
+  isActive: z
+    .string()
+    .transform((val) => val === 'true')
+    .pipe(z.boolean())
+    .optional(),
+  accountId: accountIdSchema.optional(),
+})
+
+/**
+ * Bank rule ID schema
+ */
+export const bankRuleIdSchema = z.object({
+  id: z.string().uuid({ message: 'Invalid bank rule ID format' }),
+})
+
+/**
+ * Create bank rule schema
+ * Rules without a priority are tried after the existing ones
+ */
+export const createBankRuleSchema = ruleDefinitionSchema.extend({
+  name: ruleNameSchema,
+  description: z.string().trim().max(1000).optional(),
+  priority: prioritySchema.optional(),
+  taxGroupId: taxGroupIdSchema.nullable().optional(),
+  isActive: z.boolean().optional(),
+})
+
+/**
+ * Update bank rule schema
+ */
+export const updateBankRuleSchema = z
+  .object({
+    name: ruleNameSchema.optional(),
+    description: z.string().trim().max(1000).nullable().optional(),
+    priority: prioritySchema.optional(),
+    matchType: z.enum(BankRuleMatchType).optional(),
+    conditions: conditionsSchema.optional(),
+    transactionType: z.enum(BankRuleTransactionType).optional(),
+    accountId: accountIdSchema.nullable().optional(),
+    categoryAccountId: categoryAccountIdSchema.optional(),
+    taxGroupId: taxGroupIdSchema.nullable().optional(),
+    isActive: z.boolean().optional(),
+  })
+  .refine((data) => Object.keys(data).length > 0, {
+    message: 'At least one field must be provided',
+  })
+
+/**
+ * Test bank rule schema
+ */
+export const testBankRuleSchema = ruleDefinitionSchema
+
+/**
+ * Reorder bank rules schema
+ * Lists every rule in the new priority order
+ */
+export const reorderBankRulesSchema = z.object({
+  ruleIds: z
+    .array(z.string().uuid({ message: 'Invalid bank rule ID format' }))
+    .min(1, { message: 'At least one rule is required' }),
+})
+
+/**
+ * Apply bank rules schema
+ * Without rule IDs, every active rule is applied
+ */
+export const applyBankRulesSchema = z.object({
+  ruleIds: z
+    .array(z.string().uuid({ message: 'Invalid bank rule ID format' }))
+    .min(1, { message: 'At least one rule is required' })
+    .optional(),
+  accountId: accountIdSchema.optional(),
+})
+
+/**
+ * Type exports
+ */
+export type BankRuleListInput = z.infer<typeof bankRuleListSchema>
+export type CreateBankRuleInput = z.infer<typeof createBankRuleSchema>
+export type UpdateBankRuleInput = z.infer<typeof updateBankRuleSchema>
+export type TestBankRuleInput = z.infer<typeof testBankRuleSchema>
+export type ReorderBankRulesInput = z.infer<typeof reorderBankRulesSchema>
+export type ApplyBankRulesInput = z.infer<typeof applyBankRulesSchema>
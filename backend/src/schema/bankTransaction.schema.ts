@@ -0,0 +1,167 @@
+/**
+ * Bank Transaction Schema
+ * Zod validation schemas for bank statement imports and the transactions inbox
+ */
+
+import { z } from 'zod'
+
+import { CSV_STATEMENT_DATE_FORMATS } from '@constants/bankTransaction'
+import { BankStatementFormat } from '@models/BankStatementImport'
+import { BankTransactionStatus } from '@models/BankTransaction'
+import { paginationSchema } from '@schema/shared.schema'
+
+/**
+ * Date schema (YYYY-MM-DD)
+ */
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, {
+  message: 'Invalid date format. Expected YYYY-MM-DD',
+})
+
+/**
+ * Statement file content schema
+ */
+const statementContentSchema = z
+  .string({ message: 'Statement content is required' })
+  .min(1, { message: 'Statement content is required' })
+  .max(5_000_000, { message: 'Statement file is too large' })
+
+/**
+ * CSV header name schema
+ */
+const csvColumnSchema = z
+  .string()
+  .trim()
+  .min(1, { message: 'Column name cannot be empty' })
+  .max(255, { message: 'Column name is too long' })
+
+/**
+ * CSV column mapping schema
+ * Amounts come from a signed amount column or from debit/credit columns
+ */
+const csvColumnMappingSchema = z
+  .object({
+    date: csvColumnSchema,
+    amount: csvColumnSchema.optional(),
+    debit: csvColumnSchema.optional(),
+    credit: csvColumnSchema.optional(),
+    description: csvColumnSchema.optional(),
+    payee: csvColumnSchema.optional(),
+    reference: csvColumnSchema.optional(),
+    fitid: csvColumnSchema.optional(),
+  })
+  .refine(
+    (mapping) =>
+      mapping.amount !== undefined ||
+      mapping.debit !== undefined ||
+      mapping.credit !== undefined,
+    { message: 'Map an amount column or debit/credit columns' }
+  )
+
+/**
+ * Bank transaction list query schema
+ */
+export const bankTransactionListSchema = paginationSchema.extend({
+  accountId: z
+    .string()
+    .uuid({ message: 'Invalid account ID format' })
+    .optional(),
+  status: z.enum(BankTransactionStatus).optional(),
+  importId: z.string().uuid({ message: 'Invalid import ID format' }).optional(),
+  startDate: dateSchema.optional(),
+  endDate: dateSchema.optional(),
+  search: z.string().trim().max(255).optional(),
+})
+
+/**
+ * Type inference for bank transaction list schema
+ */
+export type BankTransactionListInput = z.infer<typeof bankTransactionListSchema>
+
+/**
+ * Bank transaction ID schema
+ */
+export const bankTransactionIdSchema = z.object({
+  id: z.string().uuid({ message: 'Invalid transaction ID format' }),
+})
+
+/**
+ * Statement import list query schema
+ */
+export const bankStatementImportListSchema = paginationSchema.extend({
+  accountId: z
+    .string()
+    .uuid({ message: 'Invalid account ID format' })
+    .optional(),
+})
+
+/**
+ * Type inference for statement import list schema
+ */
+export type BankStatementImportListInput = z.infer<
+  typeof bankStatementImportListSchema
+>
+
+/**
+ * Preview CSV statement schema
+ */
+export const previewCsvStatementSchema = z.object({
+  content: statementContentSchema,
+})
+
+/**
+ * Type inference for preview CSV statement schema
+ */
+export type PreviewCsvStatementInput = z.infer<typeof previewCsvStatementSchema>
+
+/**
+ * Import bank statement schema
+ * CSV statements need a column mapping; OFX/QFX and CAMT.053 are read as is
+ */
+export const importBankStatementSchema = z
+  .object({
+    accountId: z.string().uuid({ message: 'Invalid account ID format' }),
+    format: z.enum(BankStatementFormat, {
+      message: 'Format must be csv, ofx or camt053',
+    }),
+    fileName: z.string().trim().max(255).optional(),
+    content: statementContentSchema,
+    csv: z
+      .object({
+        mapping: csvColumnMappingSchema,
+        dateFormat: z.enum(CSV_STATEMENT_DATE_FORMATS),
+        invertAmounts: z.boolean().optional(),
+      })
+      .optional(),
+  })
+  .refine(
+    (data) => data.format !== BankStatementFormat.CSV || data.csv !== undefined,
+    { message: 'CSV statements require a column mapping', path: ['csv'] }
+  )
+
+/**
+ * Type inference for import bank statement schema
+ */
+export type ImportBankStatementInput = z.infer<typeof importBankStatementSchema>
+
+/**
+ * Categorize bank transaction schema
+ */
+export const categorizeBankTransactionSchema = z.object({
+  categoryAccountId: z
+    .string()
+    .uuid({ message: 'Invalid category account ID format' }),
+  taxGroupId: z
+    .string()
+    .uuid({ message: 'Invalid tax group ID format' })
+    .nullable()
+    .optional(),
+  description: z.string().trim().max(1000).optional(),
+  memo: z.string().trim().max(1000).optional(),
+})
+
+/**
+ * Type inference for categorize bank transaction schema
+ */
+export type CategorizeBankTransactionInput = z.infer<
+  typeof categorizeBankTransactionSchema
+>
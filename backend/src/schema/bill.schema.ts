@@ -0,0 +1,208 @@
+/**
+ * Bill Schema
+ * Zod validation schemas for vendor bills, expenses and bill settings
+ */
+
+import { z } from 'zod'
+
+import { BillStatus, BillType } from '@models/Bill'
+import { paginationSortingSearchSchema } from '@schema/shared.schema'
+
+/**
+ * Valid sort fields for bills
+ */
+export const BILL_SORT_FIELDS = [
+  'billNumber',
+  'billDate',
+  'dueDate',
+  'total',
+  'status',
+  'createdAt',
+] as const
+
+/**
+ * Reusable YYYY-MM-DD date string schema
+ */
+const dateSchema = (fieldName: string) =>
+  z.string().regex(/^\d{4}-\d{2}-\d{2}$/, {
+    message: `Invalid ${fieldName} format. Expected YYYY-MM-DD`,
+  })
+
+/**
+ * Bill line schema
+ */
+const billLineSchema = z.object({
+  description: z
+    .string()
+    .trim()
+    .min(1, 'Line description is required')
+    .max(1000, 'Line description must not exceed 1000 characters'),
+  quantity: z
+    .number({ message: 'Quantity must be a number' })
+    .positive('Quantity must be greater than 0'),
+  unitPrice: z
+    .number({ message: 'Unit price must be a number' })
+    .min(0, 'Unit price must be 0 or more'),
+  accountId: z
+    .string()
+    .uuid({ message: 'Invalid expense account ID format' })
+    .optional(),
+  taxGroupId: z
+    .string()
+    .uuid({ message: 'Invalid tax group ID format' })
+    .nullable()
+    .optional(),
+  isTaxRecoverable: z.boolean().optional(),
+})
+
+const billLinesSchema = z
+  .array(billLineSchema)
+  .min(1, 'A bill needs at least one line')
+  .max(200, 'A bill can have at most 200 lines')
+
+const billNumberSchema = z
+  .string()
+  .trim()
+  .max(50, 'Bill number must not exceed 50 characters')
+  .nullable()
+
+/**
+ * Bill list query schema
+ * Includes pagination, sorting, search, and filtering
+ */
+export const billListSchema = paginationSortingSearchSchema
+  .extend({
+    sort: z.enum(BILL_SORT_FIELDS).optional().default('billDate'),
+    status: z.enum(BillStatus).optional(),
+    billType: z.enum(BillType).optional(),
+    contactId: z
+      .string()
+      .uuid({ message: 'Invalid contact ID format' })
+      .optional(),
+    accountId: z
+      .string()
+      .uuid({ message: 'Invalid account ID format' })
+      .optional(),
+    startDate: dateSchema('start date').optional(),
+    endDate: dateSchema('end date').optional(),
+  })
+  .refine(
+    (data) =>
+      !data.startDate || !data.endDate || data.startDate <= data.endDate,
+    {
+      message: 'Start date must be on or before end date',
+      path: ['endDate'],
+    }
+  )
+
+/**
+ * Bill ID schema
+ */
+export const billIdSchema = z.object({
+  id: z.string().uuid({ message: 'Invalid bill ID format' }),
+})
+
+/**
+ * Create bill schema
+ * Bills need a vendor; expenses need the account they were paid from
+ */
+export const createBillSchema = z
+  .object({
+    billType: z.enum(BillType).optional().default(BillType.BILL),
+    contactId: z
+      .string()
+      .uuid({ message: 'Invalid contact ID format' })
+      .nullable()
+      .optional(),
+    billNumber: billNumberSchema.optional(),
+    billDate: dateSchema('bill date'),
+    dueDate: dateSchema('due date').optional(),
+    paymentAccountId: z
+      .string()
+      .uuid({ message: 'Invalid payment account ID format' })
+      .nullable()
+      .optional(),
+    reference: z.string().trim().max(255).nullable().optional(),
+    memo: z.string().trim().max(2000).nullable().optional(),
+    lines: billLinesSchema,
+  })
+  .refine((data) => data.billType !== BillType.BILL || !!data.contactId, {
+    message:
+      'Bills need a vendor; only expenses paid from a bank account can leave it empty',
+    path: ['contactId'],
+  })
+  .refine(
+    (data) => data.billType !== BillType.EXPENSE || !!data.paymentAccountId,
+    {
+      message: 'Expenses need the bank or cash account they were paid from',
+      path: ['paymentAccountId'],
+    }
+  )
+  .refine((data) => !data.dueDate || data.dueDate >= data.billDate, {
+    message: 'Due date must be on or after the bill date',
+    path: ['dueDate'],
+  })
+
+/**
+ * Update bill schema (drafts only)
+ */
+export const updateBillSchema = z
+  .object({
+    billType: z.enum(BillType).optional(),
+    contactId: z
+      .string()
+      .uuid({ message: 'Invalid contact ID format' })
+      .nullable()
+      .optional(),
+    billNumber: billNumberSchema.optional(),
+    billDate: dateSchema('bill date').optional(),
+    dueDate: dateSchema('due date').optional(),
+    paymentAccountId: z
+      .string()
+      .uuid({ message: 'Invalid payment account ID format' })
+      .nullable()
+      .optional(),
+    reference: z.string().trim().max(255).nullable().optional(),
+    memo: z.string().trim().max(2000).nullable().optional(),
+    lines: billLinesSchema.optional(),
+  })
+  .refine((data) => Object.keys(data).length > 0, {
+    message: 'At least one field must be provided',
+  })
+
+/**
+ * Void bill schema
+ */
+export const voidBillSchema = z.object({
+  reason: z.string().trim().max(1000).optional(),
+  voidDate: dateSchema('void date').optional(),
+})
+
+/**
+ * Update bill settings schema
+ */
+export const updateBillSettingsSchema = z
+  .object({
+    payableAccountId: z
+      .string()
+      .uuid({ message: 'Invalid payable account ID format' })
+      .nullable()
+      .optional(),
+    taxAccountId: z
+      .string()
+      .uuid({ message: 'Invalid tax account ID format' })
+      .nullable()
+      .optional(),
+  })
+  .refine((data) => Object.keys(data).length > 0, {
+    message: 'At least one field must be provided',
+  })
+
+/**
+ * Type exports
+ */
+export type BillListInput = z.infer<typeof billListSchema>
+export type CreateBillInput = z.infer<typeof createBillSchema>
+export type UpdateBillInput = z.infer<typeof updateBillSchema>
+export type VoidBillInput = z.infer<typeof voidBillSchema>
+export type UpdateBillSettingsInput = z.infer<typeof updateBillSettingsSchema>
@@ -0,0 +1,161 @@
+/**
+ * Budget Schema
+ * Zod validation schemas for budget requests
+ */
+
+import { z } from 'zod'
+
+import { paginationSortingSearchSchema } from '@schema/shared.schema'
+
+/**
+ * Valid sort fields for budgets
+ */
+export const BUDGET_SORT_FIELDS = ['name', 'createdAt', 'updatedAt'] as const
+
+/**
+ * Longest fiscal year, in months, a budget line can cover
+ */
+const MAX_BUDGET_MONTHS = 24
+
+/**
+ * Budget list query schema
+ * Includes pagination, sorting, search, and the fiscal year filter
+ */
+export const budgetListSchema = paginationSortingSearchSchema.extend({
+  sort: z.enum(BUDGET_SORT_FIELDS).optional().default('createdAt'),
+  fiscalYearId: z
+    .string()
+    .uuid({ message: 'Invalid fiscal year ID format' })
+    .optional(),
+})
+
+/**
+ * Type inference for budget list schema
+ */
+export type BudgetListInput = z.infer<typeof budgetListSchema>
+
+/**
+ * Budget ID schema
+ */
+export const budgetIdSchema = z.object({
+  id: z.string().uuid({ message: 'Invalid budget ID format' }),
+})
+
+/**
+ * Budget line schema
+ * One amount per month of the fiscal year, in the natural direction of the
+ * account (revenue earned, expense incurred)
+ */
+const budgetLineSchema = z.object({
+  accountId: z.string().uuid({ message: 'Invalid account ID format' }),
+  amounts: z
+    .array(z.number({ message: 'Budget amount must be a number' }), {
+      message: 'Amounts must be an array of numbers',
+    })
+    .min(1, { message: 'Budget line must have at least 1 amount' })
+    .max(MAX_BUDGET_MONTHS, {
+      message: `Budget line must have at most ${MAX_BUDGET_MONTHS} amounts`,
+    }),
+})
+
+/**
+ * Create budget schema
+ * Lines are optional: a budget can be filled from last year's actuals or a
+ * file afterwards
+ */
+export const createBudgetSchema = z.object({
+  fiscalYearId: z
+    .string({ message: 'Fiscal year ID is required' })
+    .uuid({ message: 'Invalid fiscal year ID format' }),
+  name: z
+    .string()
+    .trim()
+    .min(1, 'Budget name is required')
+    .max(100, 'Budget name must not exceed 100 characters'),
+  description: z.string().optional(),
+  lines: z.array(budgetLineSchema).optional(),
+})
+
+/**
+ * Type inference for create budget schema
+ */
+export type CreateBudgetInput = z.infer<typeof createBudgetSchema>
+
+/**
+ * Update budget schema
+ * Lines, when given, replace all the lines of the budget
+ */
+export const updateBudgetSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, 'Budget name is required')
+    .max(100, 'Budget name must not exceed 100 characters')
+    .optional(),
+  description: z.string().nullable().optional(),
+  lines: z.array(budgetLineSchema).optional(),
+})
+
+/**
+ * Type inference for update budget schema
+ */
+export type UpdateBudgetInput = z.infer<typeof updateBudgetSchema>
+
+/**
+ * Growth percentage schema
+ * A percentage of -100 or more; -100 brings the amounts to zero
+ */
+const growthPercentSchema = z
+  .number({ message: 'Growth percentage must be a number' })
+  .min(-100, { message: 'Growth percentage must be -100 or greater' })
+  .max(1000, { message: 'Growth percentage must not exceed 1000' })
+
+/**
+ * Copy budget actuals schema
+ * Replaces the budget lines with the actuals of the previous twelve months,
+ * optionally grown by a percentage
+ */
+export const copyBudgetActualsSchema = z.object({
+  growthPercent: growthPercentSchema.optional().default(0),
+})
+
+/**
+ * Type inference for copy budget actuals schema
+ */
+export type CopyBudgetActualsInput = z.infer<typeof copyBudgetActualsSchema>
+
+/**
+ * Apply budget growth schema
+ * Without account IDs, the growth applies to every line of the budget
+ */
+export const applyBudgetGrowthSchema = z.object({
+  growthPercent: growthPercentSchema,
+  accountIds: z
+    .array(z.string().uuid({ message: 'Invalid account ID format' }))
+    .min(1, { message: 'At least 1 account ID is required' })
+    .optional(),
+})
+
+/**
+ * Type inference for apply budget growth schema
+ */
+export type ApplyBudgetGrowthInput = z.infer<typeof applyBudgetGrowthSchema>
+
+/**
+ * Import budget schema
+ * The file columns are those of the sample file of the budget
+ */
+export const importBudgetSchema = z.object({
+  dryRun: z
+    .enum(['true', 'false'], {
+      message: 'Dry run must be true or false',
+    })
+    .optional()
+    .default('false')
+    .transform((val) => val === 'true'),
+})
+
+/**
+ * Type inference for import budget schema
+ */
+export type ImportBudgetInput = z.infer<typeof importBudgetSchema>
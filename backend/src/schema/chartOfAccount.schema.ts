@@ -7,6 +7,7 @@ import { z } from 'zod'
 
 import {
   paginationSortingSearchSchema,
+  parseJsonField,
   statusFilterSchema,
 } from '@schema/shared.schema'
 
@@ -183,3 +184,64 @@ export const updateChartOfAccountSchema = z.object({
 export type UpdateChartOfAccountInput = z.infer<
   typeof updateChartOfAccountSchema
 >
+
+/**
+ * Import column name schema
+ */
+const importColumnSchema = z
+  .string()
+  .trim()
+  .min(1, { message: 'Column name is required' })
+  .max(255, { message: 'Column name must be at most 255 characters' })
+
+/**
+ * Import chart of accounts schema
+ * Multipart uploads send the column mapping as a JSON string of header names
+ * per import field; without it the sample file headers are used
+ */
+export const importChartOfAccountsSchema = z.object({
+  mapping: z
+    .preprocess(
+      parseJsonField,
+      z.object(
+        {
+          accountNumber: importColumnSchema.optional(),
+          accountName: importColumnSchema,
+          accountType: importColumnSchema,
+          accountDetailType: importColumnSchema.optional(),
+          openingBalance: importColumnSchema.optional(),
+        },
+        { message: 'Mapping must be a JSON object of column names' }
+      )
+    )
+    .optional(),
+  dryRun: z
+    .enum(['true', 'false'], {
+      message: 'Dry run must be true or false',
+    })
+    .optional()
+    .default('false')
+    .transform((val) => val === 'true'),
+})
+
+/**
+ * Type inference for import chart of accounts schema
+ */
+export type ImportChartOfAccountsInput = z.infer<
+  typeof importChartOfAccountsSchema
+>
+
+/**
+ * Merge chart of account schema
+ * Used for the merge preview query and the merge request body
+ */
+export const mergeChartOfAccountSchema = z.object({
+  targetAccountId: z
+    .string({ message: 'Target account ID is required' })
+    .uuid({ message: 'Invalid target account ID format' }),
+})
+
+/**
+ * Type inference for merge chart of account schema
+ */
+export type MergeChartOfAccountInput = z.infer<typeof mergeChartOfAccountSchema>
@@ -0,0 +1,184 @@
+/**
+ * Contact Schema
+ * Zod validation schemas for customer and vendor contacts
+ */
+
+import { z } from 'zod'
+
+import { ContactType } from '@models/Contact'
+import {
+  paginationSchema,
+  paginationSortingSearchSchema,
+  statusFilterSchema,
+} from '@schema/shared.schema'
+
+/**
+ * Valid sort fields for contacts
+ */
+export const CONTACT_SORT_FIELDS = [
+  'displayName',
+  'companyName',
+  'contactType',
+  'email',
+  'isActive',
+  'createdAt',
+  'updatedAt',
+] as const
+
+/**
+ * Reusable YYYY-MM-DD date string schema
+ */
+const dateSchema = (fieldName: string) =>
+  z.string().regex(/^\d{4}-\d{2}-\d{2}$/, {
+    message: `Invalid ${fieldName} format. Expected YYYY-MM-DD`,
+  })
+
+/**
+ * Optional text field that can be cleared with null
+ */
+const optionalText = (fieldName: string, maxLength: number) =>
+  z
+    .string()
+    .trim()
+    .max(maxLength, `${fieldName} must not exceed ${maxLength} characters`)
+    .nullable()
+    .optional()
+
+/**
+ * Postal address schema
+ */
+const addressSchema = z.object({
+  line1: z.string().trim().max(255).optional(),
+  line2: z.string().trim().max(255).optional(),
+  city: z.string().trim().max(100).optional(),
+  state: z.string().trim().max(100).optional(),
+  postalCode: z.string().trim().max(20).optional(),
+  country: z.string().trim().max(100).optional(),
+})
+
+/**
+ * Contact fields shared by create and update
+ */
+const contactFieldsSchema = z.object({
+  companyName: optionalText('Company name', 255),
+  firstName: optionalText('First name', 100),
+  lastName: optionalText('Last name', 100),
+  email: z
+    .string()
+    .trim()
+    .email({ message: 'Invalid email address' })
+    .max(255, 'Email must not exceed 255 characters')
+    .nullable()
+    .optional(),
+  phone: optionalText('Phone', 50),
+  website: optionalText('Website', 255),
+  taxNumber: optionalText('Tax number', 50),
+  currencyCode: z
+    .string()
+    .regex(/^[A-Z]{3}$/, 'Currency must be a 3-letter ISO code (e.g., USD)')
+    .nullable()
+    .optional(),
+  billingAddress: addressSchema.nullable().optional(),
+  shippingAddress: addressSchema.nullable().optional(),
+  defaultIncomeAccountId: z
+    .string()
+    .uuid({ message: 'Invalid income account ID format' })
+    .nullable()
+    .optional(),
+  defaultExpenseAccountId: z
+    .string()
+    .uuid({ message: 'Invalid expense account ID format' })
+    .nullable()
+    .optional(),
+  defaultTaxGroupId: z
+    .string()
+    .uuid({ message: 'Invalid tax group ID format' })
+    .nullable()
+    .optional(),
+  paymentTermsDays: z
+    .number({ message: 'Payment terms must be a number of days' })
+    .int({ message: 'Payment terms must be a whole number of days' })
+    .min(0, 'Payment terms must be 0 or more days')
+    .max(365, 'Payment terms must not exceed 365 days')
+    .optional(),
+  notes: optionalText('Notes', 2000),
+})
+
+const displayNameSchema = z
+  .string()
+  .trim()
+  .min(1, 'Display name is required')
+  .max(255, 'Display name must not exceed 255 characters')
+
+/**
+ * Contact list query schema
+ * Includes pagination, sorting, search, and filtering
+ */
+export const contactListSchema = paginationSortingSearchSchema
+  .merge(statusFilterSchema)
+  .extend({
+    sort: z.enum(CONTACT_SORT_FIELDS).optional().default('displayName'),
+    contactType: z.enum(ContactType).optional(),
+  })
+
+/**
+ * Contact ID schema
+ */
+export const contactIdSchema = z.object({
+  id: z.string().uuid({ message: 'Invalid contact ID format' }),
+})
+
+/**
+ * Create contact schema
+ */
+export const createContactSchema = contactFieldsSchema.extend({
+  contactType: z.enum(ContactType),
+  displayName: displayNameSchema,
+  isActive: z.boolean().optional(),
+})
+
+/**
+ * Update contact schema
+ */
+export const updateContactSchema = contactFieldsSchema
+  .extend({
+    contactType: z.enum(ContactType).optional(),
+    displayName: displayNameSchema.optional(),
+    isActive: z.boolean().optional(),
+  })
+  .refine((data) => Object.keys(data).length > 0, {
+    message: 'At least one field must be provided',
+  })
+
+/**
+ * Contact ledger query schema
+ */
+export const contactLedgerQuerySchema = paginationSchema
+  .extend({
+    startDate: dateSchema('start date').optional(),
+    endDate: dateSchema('end date').optional(),
+  })
+  .refine(
+    (data) =>
+      !data.startDate || !data.endDate || data.startDate <= data.endDate,
+    {
+      message: 'Start date must be on or before end date',
+      path: ['endDate'],
+    }
+  )
+
+/**
+ * Contact balance query schema
+ */
+export const contactBalanceQuerySchema = z.object({
+  asOf: dateSchema('as of date').optional(),
+})
+
+/**
+ * Type exports
+ */
+export type ContactListInput = z.infer<typeof contactListSchema>
+export type CreateContactInput = z.infer<typeof createContactSchema>
+export type UpdateContactInput = z.infer<typeof updateContactSchema>
+export type ContactLedgerQueryInput = z.infer<typeof contactLedgerQuerySchema>
+export type ContactBalanceQueryInput = z.infer<typeof contactBalanceQuerySchema>
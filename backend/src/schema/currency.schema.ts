@@ -0,0 +1,141 @@
+/**
+ * Currency Schema
+ * Zod validation schemas for currency settings, exchange rates and FX
+ * revaluation requests
+ */
+
+import { z } from 'zod'
+
+import { paginationSchema } from '@schema/shared.schema'
+
+/**
+ * ISO 4217 currency code schema
+ */
+const currencyCodeSchema = z
+  .string()
+  .regex(/^[A-Z]{3}$/, 'Currency must be a 3-letter ISO code (e.g., USD)')
+
+/**
+ * Date schema (YYYY-MM-DD)
+ */
+const dateSchema = (field: string) =>
+  z.string().regex(/^\d{4}-\d{2}-\d{2}$/, {
+    message: `Invalid ${field} format. Expected YYYY-MM-DD`,
+  })
+
+/**
+ * Update currency settings schema
+ * A null gain/loss account turns scheduled revaluation off
+ */
+export const updateCurrencySettingsSchema = z
+  .object({
+    baseCurrency: currencyCodeSchema.optional(),
+    fxGainLossAccountId: z
+      .string()
+      .uuid({ message: 'Invalid gain/loss account ID format' })
+      .nullable()
+      .optional(),
+  })
+  .refine(
+    (data) =>
+      data.baseCurrency !== undefined || data.fxGainLossAccountId !== undefined,
+    { message: 'At least one setting must be provided' }
+  )
+
+/**
+ * Type inference for update currency settings schema
+ */
+export type UpdateCurrencySettingsInput = z.infer<
+  typeof updateCurrencySettingsSchema
+>
+
+/**
+ * Exchange rate list query schema
+ */
+export const exchangeRateListSchema = paginationSchema.extend({
+  currencyCode: currencyCodeSchema.optional(),
+  startDate: dateSchema('start date').optional(),
+  endDate: dateSchema('end date').optional(),
+})
+
+/**
+ * Type inference for exchange rate list schema
+ */
+export type ExchangeRateListInput = z.infer<typeof exchangeRateListSchema>
+
+/**
+ * Exchange rate ID schema
+ */
+export const exchangeRateIdSchema = z.object({
+  id: z.string().uuid({ message: 'Invalid exchange rate ID format' }),
+})
+
+/**
+ * Exchange rate value schema
+ * Base currency units per one unit of the foreign currency
+ */
+const rateSchema = z
+  .number()
+  .positive('Rate must be greater than zero')
+  .max(9999999999, 'Rate is too large')
+
+/**
+ * Create exchange rate schema
+ */
+export const createExchangeRateSchema = z.object({
+  currencyCode: currencyCodeSchema,
+  rateDate: dateSchema('rate date'),
+  rate: rateSchema,
+})
+
+/**
+ * Type inference for create exchange rate schema
+ */
+export type CreateExchangeRateInput = z.infer<typeof createExchangeRateSchema>
+
+/**
+ * Update exchange rate schema
+ */
+export const updateExchangeRateSchema = z
+  .object({
+    rateDate: dateSchema('rate date').optional(),
+    rate: rateSchema.optional(),
+  })
+  .refine((data) => data.rateDate !== undefined || data.rate !== undefined, {
+    message: 'At least one field must be provided',
+  })
+
+/**
+ * Type inference for update exchange rate schema
+ */
+export type UpdateExchangeRateInput = z.infer<typeof updateExchangeRateSchema>
+
+/**
+ * Import exchange rates schema
+ * CSV content with a header row naming the date, currency and rate columns
+ */
+export const importExchangeRatesSchema = z.object({
+  content: z.string().min(1, 'CSV content is required'),
+})
+
+/**
+ * Type inference for import exchange rates schema
+ */
+export type ImportExchangeRatesInput = z.infer<typeof importExchangeRatesSchema>
+
+/**
+ * FX revaluation schema
+ * Used as the query of a preview and the body of a posting
+ */
+export const fxRevaluationSchema = z.object({
+  revaluationDate: dateSchema('revaluation date'),
+  gainLossAccountId: z
+    .string()
+    .uuid({ message: 'Invalid gain/loss account ID format' })
+    .optional(),
+})
+
+/**
+ * Type inference for FX revaluation schema
+ */
+export type FxRevaluationInput = z.infer<typeof fxRevaluationSchema>
@@ -0,0 +1,164 @@
+/**
+ * Customer Payment Schema
+ * Zod validation schemas for customer payments and payment settings
+ */
+
+import { z } from 'zod'
+
+import { CustomerPaymentStatus } from '@models/CustomerPayment'
+import { paginationSortingSearchSchema } from '@schema/shared.schema'
+
+/**
+ * Valid sort fields for customer payments
+ */
+export const CUSTOMER_PAYMENT_SORT_FIELDS = [
+  'paymentDate',
+  'amount',
+  'status',
+  'createdAt',
+] as const
+
+/**
+ * Reusable YYYY-MM-DD date string schema
+ */
+const dateSchema = (fieldName: string) =>
+  z.string().regex(/^\d{4}-\d{2}-\d{2}$/, {
+    message: `Invalid ${fieldName} format. Expected YYYY-MM-DD`,
+  })
+
+/**
+ * Positive amount schema
+ */
+const amountSchema = (fieldName: string) =>
+  z
+    .number({ message: `${fieldName} must be a number` })
+    .positive(`${fieldName} must be greater than 0`)
+
+/**
+ * Customer payment list query schema
+ * Includes pagination, sorting, search, and filtering
+ */
+export const customerPaymentListSchema = paginationSortingSearchSchema
+  .extend({
+    sort: z
+      .enum(CUSTOMER_PAYMENT_SORT_FIELDS)
+      .optional()
+      .default('paymentDate'),
+    status: z.enum(CustomerPaymentStatus).optional(),
+    contactId: z
+      .string()
+      .uuid({ message: 'Invalid contact ID format' })
+      .optional(),
+    bankAccountId: z
+      .string()
+      .uuid({ message: 'Invalid bank account ID format' })
+      .optional(),
+    startDate: dateSchema('start date').optional(),
+    endDate: dateSchema('end date').optional(),
+  })
+  .refine(
+    (data) =>
+      !data.startDate || !data.endDate || data.startDate <= data.endDate,
+    {
+      message: 'Start date must be on or before end date',
+      path: ['endDate'],
+    }
+  )
+
+/**
+ * Customer payment ID schema
+ */
+export const customerPaymentIdSchema = z.object({
+  id: z.string().uuid({ message: 'Invalid customer payment ID format' }),
+})
+
+/**
+ * Open items query schema
+ */
+export const openReceivableItemsSchema = z.object({
+  contactId: z.string().uuid({ message: 'Invalid contact ID format' }),
+})
+
+/**
+ * Create customer payment schema
+ * Allocations need a customer, and each open item is matched at most once
+ */
+export const createCustomerPaymentSchema = z
+  .object({
+    contactId: z
+      .string()
+      .uuid({ message: 'Invalid contact ID format' })
+      .nullable()
+      .optional(),
+    bankAccountId: z
+      .string()
+      .uuid({ message: 'Invalid bank account ID format' }),
+    paymentDate: dateSchema('payment date'),
+    amount: amountSchema('Amount'),
+    paymentMethod: z.string().trim().max(50).nullable().optional(),
+    reference: z.string().trim().max(255).nullable().optional(),
+    memo: z.string().trim().max(2000).nullable().optional(),
+    allocations: z
+      .array(
+        z.object({
+          journalEntryLineId: z
+            .string()
+            .uuid({ message: 'Invalid journal entry line ID format' }),
+          amount: amountSchema('Matched amount'),
+        })
+      )
+      .max(200, 'A payment can be matched against at most 200 items')
+      .optional(),
+  })
+  .refine((data) => !data.allocations?.length || !!data.contactId, {
+    message:
+      'Choose the customer before matching the payment against open items',
+    path: ['contactId'],
+  })
+  .refine(
+    (data) =>
+      new Set(data.allocations?.map((item) => item.journalEntryLineId)).size ===
+      (data.allocations?.length ?? 0),
+    {
+      message: 'Each open item can only be matched once per payment',
+      path: ['allocations'],
+    }
+  )
+
+/**
+ * Unmatch customer payment schema
+ */
+export const unmatchCustomerPaymentSchema = z.object({
+  reason: z.string().trim().max(1000).optional(),
+  unmatchDate: dateSchema('unmatch date').optional(),
+})
+
+/**
+ * Update customer payment settings schema
+ */
+export const updateCustomerPaymentSettingsSchema = z
+  .object({
+    unappliedAccountId: z
+      .string()
+      .uuid({ message: 'Invalid unapplied cash account ID format' })
+      .nullable()
+      .optional(),
+  })
+  .refine((data) => Object.keys(data).length > 0, {
+    message: 'At least one field must be provided',
+  })
+
+/**
+ * Type exports
+ */
+export type CustomerPaymentListInput = z.infer<typeof customerPaymentListSchema>
+export type OpenReceivableItemsInput = z.infer<typeof openReceivableItemsSchema>
+export type CreateCustomerPaymentInput = z.infer<
+  typeof createCustomerPaymentSchema
+>
+export type UnmatchCustomerPaymentInput = z.infer<
+  typeof unmatchCustomerPaymentSchema
+>
+export type UpdateCustomerPaymentSettingsInput = z.infer<
+  typeof updateCustomerPaymentSettingsSchema
+>
@@ -0,0 +1,165 @@
+/**
+ * Document Schema
+ * Zod validation schemas for documents, their attachments and settings
+ */
+
+import { z } from 'zod'
+
+import { DOCUMENT_UPLOAD } from '@constants/document'
+import { DocumentCategory } from '@models/Document'
+import { DocumentAttachmentEntityType } from '@models/DocumentAttachment'
+import { paginationSortingSearchSchema } from '@schema/shared.schema'
+
+/**
+ * Valid sort fields for documents
+ */
+export const DOCUMENT_SORT_FIELDS = [
+  'name',
+  'sizeBytes',
+  'category',
+  'createdAt',
+] as const
+
+/**
+ * Tags schema
+ * Multipart uploads send tags as a comma-separated string or as repeated
+ * fields; both are normalized to a trimmed, lowercase list without duplicates
+ */
+const tagsSchema = z.preprocess(
+  (value) => {
+    const tags = typeof value === 'string' ? value.split(',') : value
+    if (!Array.isArray(tags)) {
+      return tags
+    }
+    return [
+      ...new Set(
+        tags
+          .map((tag) =>
+            typeof tag === 'string' ? tag.trim().toLowerCase() : tag
+          )
+          .filter((tag) => tag !== '')
+      ),
+    ]
+  },
+  z
+    .array(
+      z.string().max(DOCUMENT_UPLOAD.TAG_MAX_LENGTH, {
+        message: `Tags must not exceed ${DOCUMENT_UPLOAD.TAG_MAX_LENGTH} characters`,
+      })
+    )
+    .max(DOCUMENT_UPLOAD.MAX_TAGS, {
+      message: `A document can have at most ${DOCUMENT_UPLOAD.MAX_TAGS} tags`,
+    })
+)
+
+/**
+ * Attachment target schema
+ */
+const entityTypeSchema = z.enum(DocumentAttachmentEntityType)
+const entityIdSchema = z.string().uuid({ message: 'Invalid record ID format' })
+
+/**
+ * Document list query schema
+ * Includes pagination, sorting, search, and filtering
+ */
+export const documentListSchema = paginationSortingSearchSchema
+  .extend({
+    sort: z.enum(DOCUMENT_SORT_FIELDS).optional().default('createdAt'),
+    category: z.enum(DocumentCategory).optional(),
+    tag: z.string().trim().toLowerCase().min(1).optional(),
+    entityType: entityTypeSchema.optional(),
+    entityId: entityIdSchema.optional(),
+  })
+  .refine((data) => !data.entityType === !data.entityId, {
+    message: 'entityType and entityId must be given together',
+    path: ['entityId'],
+  })
+
+/**
+ * Document ID schema
+ */
+export const documentIdSchema = z.object({
+  id: z.string().uuid({ message: 'Invalid document ID format' }),
+})
+
+/**
+ * Document attachment ID schema
+ */
+export const documentAttachmentIdSchema = z.object({
+  id: z.string().uuid({ message: 'Invalid document ID format' }),
+  attachmentId: z.string().uuid({ message: 'Invalid attachment ID format' }),
+})
+
+/**
+ * Document download token schema
+ */
+export const documentDownloadTokenSchema = z.object({
+  token: z.string().min(1, { message: 'Token is required' }),
+})
+
+/**
+ * Upload document schema
+ * Validates the text fields of the multipart request; the file itself is
+ * checked by the upload middleware
+ */
+export const uploadDocumentSchema = z
+  .object({
+    category: z.enum(DocumentCategory).optional(),
+    tags: tagsSchema.optional(),
+    description: z.string().trim().max(2000).nullable().optional(),
+    entityType: entityTypeSchema.optional(),
+    entityId: entityIdSchema.optional(),
+  })
+  .refine((data) => !data.entityType === !data.entityId, {
+    message: 'entityType and entityId must be given together',
+    path: ['entityId'],
+  })
+
+/**
+ * Update document schema
+ */
+export const updateDocumentSchema = z
+  .object({
+    name: z.string().trim().min(1).max(255).optional(),
+    category: z.enum(DocumentCategory).optional(),
+    tags: tagsSchema.optional(),
+    description: z.string().trim().max(2000).nullable().optional(),
+  })
+  .refine((data) => Object.keys(data).length > 0, {
+    message: 'At least one field must be provided',
+  })
+
+/**
+ * Attach document schema
+ */
+export const attachDocumentSchema = z.object({
+  entityType: entityTypeSchema,
+  entityId: entityIdSchema,
+})
+
+/**
+ * Update document settings schema
+ */
+export const updateDocumentSettingsSchema = z
+  .object({
+    quotaMb: z
+      .number({ message: 'Quota must be a number' })
+      .int('Quota must be a whole number of megabytes')
+      .positive('Quota must be greater than 0')
+      .nullable()
+      .optional(),
+  })
+  .refine((data) => Object.keys(data).length > 0, {
+    message: 'At least one field must be provided',
+  })
+
+/**
+ * Type exports
+ */
+export type DocumentListInput = z.infer<typeof documentListSchema>
+export type UploadDocumentInput = z.infer<typeof uploadDocumentSchema>
+export type UpdateDocumentInput = z.infer<typeof updateDocumentSchema>
+export type AttachDocumentInput = z.infer<typeof attachDocumentSchema>
+export type UpdateDocumentSettingsInput = z.infer<
+  typeof updateDocumentSettingsSchema
+>
@@ -0,0 +1,119 @@
+/**
+ * Fiscal Year Schema
+ * Zod validation schemas for fiscal year and fiscal period requests
+ */
+
+import { z } from 'zod'
+
+import { paginationSchema } from '@schema/shared.schema'
+
+/**
+ * Fiscal year list query schema
+ */
+export const fiscalYearListSchema = paginationSchema
+
+/**
+ * Type inference for fiscal year list schema
+ */
+export type FiscalYearListInput = z.infer<typeof fiscalYearListSchema>
+
+/**
+ * Fiscal year ID schema
+ */
+export const fiscalYearIdSchema = z.object({
+  id: z.string().uuid({ message: 'Invalid fiscal year ID format' }),
+})
+
+/**
+ * Fiscal period params schema
+ * Validates both the fiscal year ID and the period ID
+ */
+export const fiscalPeriodParamsSchema = z.object({
+  id: z.string().uuid({ message: 'Invalid fiscal year ID format' }),
+  periodId: z.string().uuid({ message: 'Invalid fiscal period ID format' }),
+})
+
+/**
+ * Create fiscal year schema
+ * End date defaults to twelve months after the start date
+ */
+export const createFiscalYearSchema = z.object({
+  name: z
+    .string()
+    .min(1, 'Fiscal year name is required')
+    .max(100, 'Fiscal year name must not exceed 100 characters')
+    .optional(),
+  startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, {
+    message: 'Invalid start date format. Expected YYYY-MM-DD',
+  }),
+  endDate: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, {
+      message: 'Invalid end date format. Expected YYYY-MM-DD',
+    })
+    .optional(),
+  periodType: z
+    .enum(['monthly', 'quarterly'], {
+      message: 'Period type must be monthly or quarterly',
+    })
+    .optional()
+    .default('monthly'),
+})
+
+/**
+ * Type inference for create fiscal year schema
+ */
+export type CreateFiscalYearInput = z.infer<typeof createFiscalYearSchema>
+
+/**
+ * Close fiscal period schema
+ * Soft close by default; hard close can only be undone by an administrator
+ */
+export const closeFiscalPeriodSchema = z.object({
+  status: z
+    .enum(['soft_closed', 'hard_closed'], {
+      message: 'Status must be soft_closed or hard_closed',
+    })
+    .optional()
+    .default('soft_closed'),
+  reason: z
+    .string()
+    .max(500, 'Reason must not exceed 500 characters')
+    .optional(),
+})
+
+/**
+ * Type inference for close fiscal period schema
+ */
+export type CloseFiscalPeriodInput = z.infer<typeof closeFiscalPeriodSchema>
+
+/**
+ * Reopen fiscal period schema
+ */
+export const reopenFiscalPeriodSchema = z.object({
+  reason: z
+    .string()
+    .max(500, 'Reason must not exceed 500 characters')
+    .optional(),
+})
+
+/**
+ * Type inference for reopen fiscal period schema
+ */
+export type ReopenFiscalPeriodInput = z.infer<typeof reopenFiscalPeriodSchema>
+
+/**
+ * Year-end close schema
+ * Used both to close a fiscal year and to reverse its closing entry
+ */
+export const yearEndCloseSchema = z.object({
+  reason: z
+    .string()
+    .max(500, 'Reason must not exceed 500 characters')
+    .optional(),
+})
+
+/**
+ * Type inference for year-end close schema
+ */
+export type YearEndCloseInput = z.infer<typeof yearEndCloseSchema>
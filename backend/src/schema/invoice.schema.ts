@@ -0,0 +1,192 @@
+/**
+ * Invoice Schema
+ * Zod validation schemas for customer invoices and invoice settings
+ */
+
+import { z } from 'zod'
+
+import { InvoiceStatus } from '@models/Invoice'
+import { paginationSortingSearchSchema } from '@schema/shared.schema'
+
+/**
+ * Valid sort fields for invoices
+ */
+export const INVOICE_SORT_FIELDS = [
+  'invoiceNumber',
+  'issueDate',
+  'dueDate',
+  'total',
+  'status',
+  'createdAt',
+] as const
+
+/**
+ * Reusable YYYY-MM-DD date string schema
+ */
+const dateSchema = (fieldName: string) =>
+  z.string().regex(/^\d{4}-\d{2}-\d{2}$/, {
+    message: `Invalid ${fieldName} format. Expected YYYY-MM-DD`,
+  })
+
+/**
+ * Invoice line schema
+ */
+const invoiceLineSchema = z.object({
+  description: z
+    .string()
+    .trim()
+    .min(1, 'Line description is required')
+    .max(1000, 'Line description must not exceed 1000 characters'),
+  quantity: z
+    .number({ message: 'Quantity must be a number' })
+    .positive('Quantity must be greater than 0'),
+  unitPrice: z
+    .number({ message: 'Unit price must be a number' })
+    .min(0, 'Unit price must be 0 or more'),
+  accountId: z
+    .string()
+    .uuid({ message: 'Invalid revenue account ID format' })
+    .optional(),
+  taxGroupId: z
+    .string()
+    .uuid({ message: 'Invalid tax group ID format' })
+    .nullable()
+    .optional(),
+})
+
+const invoiceLinesSchema = z
+  .array(invoiceLineSchema)
+  .min(1, 'An invoice needs at least one line')
+  .max(200, 'An invoice can have at most 200 lines')
+
+const invoiceNumberSchema = z
+  .string()
+  .trim()
+  .min(1, 'Invoice number must not be empty')
+  .max(50, 'Invoice number must not exceed 50 characters')
+
+/**
+ * Invoice list query schema
+ * Includes pagination, sorting, search, and filtering
+ */
+export const invoiceListSchema = paginationSortingSearchSchema
+  .extend({
+    sort: z.enum(INVOICE_SORT_FIELDS).optional().default('issueDate'),
+    status: z.enum(InvoiceStatus).optional(),
+    contactId: z
+      .string()
+      .uuid({ message: 'Invalid contact ID format' })
+      .optional(),
+    startDate: dateSchema('start date').optional(),
+    endDate: dateSchema('end date').optional(),
+  })
+  .refine(
+    (data) =>
+      !data.startDate || !data.endDate || data.startDate <= data.endDate,
+    {
+      message: 'Start date must be on or before end date',
+      path: ['endDate'],
+    }
+  )
+
+/**
+ * Invoice ID schema
+ */
+export const invoiceIdSchema = z.object({
+  id: z.string().uuid({ message: 'Invalid invoice ID format' }),
+})
+
+/**
+ * Create invoice schema
+ */
+export const createInvoiceSchema = z
+  .object({
+    contactId: z.string().uuid({ message: 'Invalid contact ID format' }),
+    invoiceNumber: invoiceNumberSchema.optional(),
+    issueDate: dateSchema('issue date'),
+    dueDate: dateSchema('due date').optional(),
+    reference: z.string().trim().max(255).nullable().optional(),
+    memo: z.string().trim().max(2000).nullable().optional(),
+    notes: z.string().trim().max(2000).nullable().optional(),
+    lines: invoiceLinesSchema,
+  })
+  .refine((data) => !data.dueDate || data.dueDate >= data.issueDate, {
+    message: 'Due date must be on or after the issue date',
+    path: ['dueDate'],
+  })
+
+/**
+ * Update invoice schema (drafts only)
+ */
+export const updateInvoiceSchema = z
+  .object({
+    contactId: z
+      .string()
+      .uuid({ message: 'Invalid contact ID format' })
+      .optional(),
+    invoiceNumber: invoiceNumberSchema.optional(),
+    issueDate: dateSchema('issue date').optional(),
+    dueDate: dateSchema('due date').optional(),
+    reference: z.string().trim().max(255).nullable().optional(),
+    memo: z.string().trim().max(2000).nullable().optional(),
+    notes: z.string().trim().max(2000).nullable().optional(),
+    lines: invoiceLinesSchema.optional(),
+  })
+  .refine((data) => Object.keys(data).length > 0, {
+    message: 'At least one field must be provided',
+  })
+
+/**
+ * Void invoice schema
+ */
+export const voidInvoiceSchema = z.object({
+  reason: z.string().trim().max(1000).optional(),
+  voidDate: dateSchema('void date').optional(),
+})
+
+/**
+ * Update invoice settings schema
+ */
+export const updateInvoiceSettingsSchema = z
+  .object({
+    numberPrefix: z
+      .string()
+      .trim()
+      .max(20, 'Number prefix must not exceed 20 characters')
+      .optional(),
+    nextNumber: z
+      .number({ message: 'Next number must be a number' })
+      .int({ message: 'Next number must be a whole number' })
+      .min(1, 'Next number must be 1 or more')
+      .optional(),
+    numberPadding: z
+      .number({ message: 'Number padding must be a number' })
+      .int({ message: 'Number padding must be a whole number' })
+      .min(1, 'Number padding must be 1 or more')
+      .max(10, 'Number padding must not exceed 10')
+      .optional(),
+    receivableAccountId: z
+      .string()
+      .uuid({ message: 'Invalid receivable account ID format' })
+      .nullable()
+      .optional(),
+    taxAccountId: z
+      .string()
+      .uuid({ message: 'Invalid tax account ID format' })
+      .nullable()
+      .optional(),
+  })
+  .refine((data) => Object.keys(data).length > 0, {
+    message: 'At least one field must be provided',
+  })
+
+/**
+ * Type exports
+ */
+export type InvoiceListInput = z.infer<typeof invoiceListSchema>
+export type CreateInvoiceInput = z.infer<typeof createInvoiceSchema>
+export type UpdateInvoiceInput = z.infer<typeof updateInvoiceSchema>
+export type VoidInvoiceInput = z.infer<typeof voidInvoiceSchema>
+export type UpdateInvoiceSettingsInput = z.infer<
+  typeof updateInvoiceSettingsSchema
+>
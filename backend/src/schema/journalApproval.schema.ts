@@ -0,0 +1,130 @@
+/**
+ * Journal Approval Schema
+ * Zod validation schemas for approval rules and the journal entry approval workflow
+ */
+
+import { z } from 'zod'
+
+import { ROLES } from '@constants/roles'
+import { paginationSchema } from '@schema/shared.schema'
+
+const approverRoleSchema = z.enum(
+  [ROLES.SUPERADMIN, ROLES.ADMIN, ROLES.ACCOUNTANT, ROLES.BOOKKEEPER],
+  {
+    message:
+      'Required role must be superadmin, admin, accountant or bookkeeper',
+  }
+)
+
+const minAmountSchema = z
+  .number({ message: 'Minimum amount must be a number' })
+  .nonnegative({ message: 'Minimum amount must be non-negative' })
+  .nullable()
+
+const accountIdsSchema = z.array(
+  z.string().uuid({ message: 'Invalid account ID format' })
+)
+
+const requiredApprovalsSchema = z
+  .number({ message: 'Required approvals must be a number' })
+  .int({ message: 'Required approvals must be an integer' })
+  .min(1, { message: 'Required approvals must be at least 1' })
+  .max(10, { message: 'Required approvals must be at most 10' })
+
+const stepOrderSchema = z
+  .number({ message: 'Step order must be a number' })
+  .int({ message: 'Step order must be an integer' })
+  .min(1, { message: 'Step order must be at least 1' })
+
+/**
+ * Approval rule list query schema
+ */
+export const approvalRuleListSchema = paginationSchema.extend({
+  isActive: z
+    .string()
+    .transform((val) => val === 'true')
+    .pipe(z.boolean())
+    .optional(),
+})
+
+/**
+ * Approval rule ID schema
+ */
+export const approvalRuleIdSchema = z.object({
+  id: z.string().uuid({ message: 'Invalid approval rule ID format' }),
+})
+
+/**
+ * Create approval rule schema
+ * A rule without a minimum amount or accounts applies to every entry
+ */
+export const createApprovalRuleSchema = z.object({
+  name: z
+    .string()
+    .min(1, 'Rule name is required')
+    .max(255, 'Rule name must not exceed 255 characters'),
+  description: z.string().optional(),
+  minAmount: minAmountSchema.optional(),
+  accountIds: accountIdsSchema.optional().default([]),
+  requiredRole: approverRoleSchema,
+  requiredApprovals: requiredApprovalsSchema.optional().default(1),
+  stepOrder: stepOrderSchema.optional().default(1),
+  isActive: z.boolean().optional().default(true),
+})
+
+/**
+ * Update approval rule schema
+ */
+export const updateApprovalRuleSchema = z.object({
+  name: z
+    .string()
+    .min(1, 'Rule name is required')
+    .max(255, 'Rule name must not exceed 255 characters')
+    .optional(),
+  description: z.string().nullable().optional(),
+  minAmount: minAmountSchema.optional(),
+  accountIds: accountIdsSchema.optional(),
+  requiredRole: approverRoleSchema.optional(),
+  requiredApprovals: requiredApprovalsSchema.optional(),
+  stepOrder: stepOrderSchema.optional(),
+  isActive: z.boolean().optional(),
+})
+
+/**
+ * Submit / approve journal entry schema
+ */
+export const approvalCommentSchema = z
+  .object({
+    comment: z
+      .string()
+      .max(1000, { message: 'Comment must be at most 1000 characters' })
+      .optional(),
+  })
+  .optional()
+
+/**
+ * Reject journal entry schema
+ * A comment explaining the rejection is required
+ */
+export const rejectJournalEntrySchema = z.object({
+  comment: z
+    .string()
+    .trim()
+    .min(1, { message: 'A comment is required to reject an entry' })
+    .max(1000, { message: 'Comment must be at most 1000 characters' }),
+})
+
+/**
+ * Pending approvals list query schema
+ */
+export const pendingApprovalListSchema = paginationSchema
+
+/**
+ * Type exports
+ */
+export type ApprovalRuleListInput = z.infer<typeof approvalRuleListSchema>
+export type CreateApprovalRuleInput = z.infer<typeof createApprovalRuleSchema>
+export type UpdateApprovalRuleInput = z.infer<typeof updateApprovalRuleSchema>
+export type ApprovalCommentInput = z.infer<typeof approvalCommentSchema>
+export type RejectJournalEntryInput = z.infer<typeof rejectJournalEntrySchema>
+export type PendingApprovalListInput = z.infer<typeof pendingApprovalListSchema>
@@ -5,7 +5,14 @@
 
 import { z } from 'zod'
 
-import { paginationSortingSearchSchema } from '@schema/shared.schema'
+import { CSV_STATEMENT_DATE_FORMATS } from '@constants/bankTransaction'
+import { JournalEntryStatus } from '@models/JournalEntry'
+import { recurringScheduleSchema } from '@schema/recurringJournal.schema'
+import {
+  paginationSchema,
+  paginationSortingSearchSchema,
+  parseJsonField,
+} from '@schema/shared.schema'
 
 /**
  * Valid sort fields for journal entries
@@ -23,6 +30,7 @@ export const JOURNAL_ENTRY_SORT_FIELDS = [
 
 /**
  * Journal entry line schema
+ * Amounts are in the currency of the line's account
  */
 export const journalEntryLineSchema = z
   .object({
@@ -39,6 +47,16 @@ export const journalEntryLineSchema = z
       .number({ message: 'Credit must be a number' })
       .nonnegative({ message: 'Credit must be non-negative' })
       .default(0),
+    currencyCode: z
+      .string()
+      .regex(/^[A-Z]{3}$/, {
+        message: 'Currency code must be 3 uppercase letters (ISO 4217)',
+      })
+      .optional(),
+    exchangeRate: z
+      .number({ message: 'Exchange rate must be a number' })
+      .positive({ message: 'Exchange rate must be greater than 0' })
+      .optional(),
     description: z.string().optional(),
     memo: z.string().optional(),
     contactId: z
@@ -97,6 +115,8 @@ export const journalEntryIdSchema = z.object({
 
 /**
  * Create journal entry schema
+ * Entries whose lines name a currency are checked for balance after
+ * conversion to the base currency instead
  */
 export const createJournalEntrySchema = z
   .object({
@@ -141,6 +161,9 @@ export const createJournalEntrySchema = z
   .refine(
     (data) => {
       // Validate that debits equal credits
+      if (data.lines.some((line) => line.currencyCode !== undefined)) {
+        return true
+      }
       const totalDebit = data.lines.reduce((sum, line) => sum + line.debit, 0)
       const totalCredit = data.lines.reduce((sum, line) => sum + line.credit, 0)
       return Math.abs(totalDebit - totalCredit) < 0.01
@@ -195,19 +218,6 @@ export const updateJournalEntrySchema = z.object({
     .optional(),
 })
 
-/**
- * Post journal entry schema
- */
-export const postJournalEntrySchema = z
-  .object({
-    approved: z.boolean().optional().default(false),
-    approvedBy: z
-      .string()
-      .uuid({ message: 'Invalid approver ID format' })
-      .optional(),
-  })
-  .optional()
-
 /**
  * Void journal entry schema
  */
@@ -243,6 +253,83 @@ export const duplicateJournalEntrySchema = z.object({
     .string()
     .max(100, { message: 'Entry number must be at most 100 characters' })
     .optional(),
+  // Also save the original entry as a recurring template with this schedule
+  recurring: recurringScheduleSchema.optional(),
+})
+
+/**
+ * Scheduled reversal list schema
+ * Upcoming entries are still waiting to be reversed, failed entries exhausted
+ * their retries and have to be reversed manually
+ */
+export const scheduledReversalListSchema = paginationSchema.extend({
+  status: z
+    .enum(['upcoming', 'failed'], {
+      message: 'Status must be upcoming or failed',
+    })
+    .optional()
+    .default('upcoming'),
+})
+
+/**
+ * Import column name schema
+ */
+const importColumnSchema = z
+  .string()
+  .trim()
+  .min(1, { message: 'Column name is required' })
+  .max(255, { message: 'Column name must be at most 255 characters' })
+
+/**
+ * Import journal entries schema
+ * Multipart uploads send the column mapping as a JSON string of header names
+ * per import field; without it the field labels are used as headers
+ */
+export const importJournalEntriesSchema = z.object({
+  mapping: z
+    .preprocess(
+      parseJsonField,
+      z.object(
+        {
+          entryNumber: importColumnSchema.optional(),
+          entryDate: importColumnSchema,
+          accountNumber: importColumnSchema,
+          debit: importColumnSchema,
+          credit: importColumnSchema,
+          description: importColumnSchema.optional(),
+          reference: importColumnSchema.optional(),
+          memo: importColumnSchema.optional(),
+        },
+        { message: 'Mapping must be a JSON object of column names' }
+      )
+    )
+    .optional(),
+  dateFormat: z
+    .enum(CSV_STATEMENT_DATE_FORMATS, {
+      message: 'Date format must be YYYY-MM-DD, MM/DD/YYYY or DD/MM/YYYY',
+    })
+    .optional()
+    .default('YYYY-MM-DD'),
+  status: z
+    .enum([JournalEntryStatus.DRAFT, JournalEntryStatus.POSTED], {
+      message: 'Status must be draft or posted',
+    })
+    .optional()
+    .default(JournalEntryStatus.DRAFT),
+  allOrNothing: z
+    .enum(['true', 'false'], {
+      message: 'All or nothing must be true or false',
+    })
+    .optional()
+    .default('true')
+    .transform((val) => val === 'true'),
+  dryRun: z
+    .enum(['true', 'false'], {
+      message: 'Dry run must be true or false',
+    })
+    .optional()
+    .default('false')
+    .transform((val) => val === 'true'),
 })
 
 /**
@@ -250,10 +337,15 @@ export const duplicateJournalEntrySchema = z.object({
  */
 export type CreateJournalEntryInput = z.infer<typeof createJournalEntrySchema>
 export type UpdateJournalEntryInput = z.infer<typeof updateJournalEntrySchema>
-export type PostJournalEntryInput = z.infer<typeof postJournalEntrySchema>
 export type VoidJournalEntryInput = z.infer<typeof voidJournalEntrySchema>
 export type ReverseJournalEntryInput = z.infer<typeof reverseJournalEntrySchema>
 export type DuplicateJournalEntryInput = z.infer<
   typeof duplicateJournalEntrySchema
 >
+export type ScheduledReversalListInput = z.infer<
+  typeof scheduledReversalListSchema
+>
 export type JournalEntryIdInput = z.infer<typeof journalEntryIdSchema>
+export type ImportJournalEntriesInput = z.infer<
+  typeof importJournalEntriesSchema
+>
@@ -0,0 +1,217 @@
+/**
+ * Recurring Journal Schema
+ * Zod validation schemas for recurring journal entry template requests
+ */
+
+import { z } from 'zod'
+
+import { paginationSchema } from '@schema/shared.schema'
+
+const dateString = (label: string) =>
+  z.string().regex(/^\d{4}-\d{2}-\d{2}$/, {
+    message: `Invalid ${label} format. Expected YYYY-MM-DD`,
+  })
+
+/**
+ * Schedule fields shared by templates and the duplicate "make recurring" option
+ */
+const recurringScheduleShape = {
+  frequency: z.enum(['daily', 'weekly', 'monthly', 'yearly'], {
+    message: 'Frequency must be daily, weekly, monthly or yearly',
+  }),
+  interval: z
+    .number({ message: 'Interval must be a number' })
+    .int({ message: 'Interval must be an integer' })
+    .min(1, { message: 'Interval must be at least 1' })
+    .max(366, { message: 'Interval must be at most 366' })
+    .optional()
+    .default(1),
+  startDate: dateString('start date'),
+  endDate: dateString('end date').nullable().optional(),
+  maxOccurrences: z
+    .number({ message: 'Occurrence count must be a number' })
+    .int({ message: 'Occurrence count must be an integer' })
+    .min(1, { message: 'Occurrence count must be at least 1' })
+    .nullable()
+    .optional(),
+  autoPost: z.boolean().optional().default(false),
+}
+
+/**
+ * Check that a schedule does not end before it starts
+ * Dates are YYYY-MM-DD so they compare lexicographically
+ */
+const isScheduleRangeValid = (data: {
+  startDate?: string | undefined
+  endDate?: string | null | undefined
+}): boolean =>
+  !data.startDate || !data.endDate || data.endDate >= data.startDate
+
+const scheduleRangeMessage = {
+  message: 'End date must be on or after the start date',
+  path: ['endDate'],
+}
+
+/**
+ * Recurring schedule schema
+ * Used by the duplicate journal entry "make recurring" option
+ */
+export const recurringScheduleSchema = z
+  .object({
+    name: z
+      .string()
+      .min(1, 'Template name is required')
+      .max(255, 'Template name must not exceed 255 characters')
+      .optional(),
+    ...recurringScheduleShape,
+  })
+  .refine(isScheduleRangeValid, scheduleRangeMessage)
+
+/**
+ * Recurring template line schema
+ */
+export const recurringTemplateLineSchema = z
+  .object({
+    accountId: z.string().uuid({ message: 'Invalid account ID format' }),
+    lineNumber: z
+      .number({ message: 'Line number must be a number' })
+      .int({ message: 'Line number must be an integer' })
+      .min(1, { message: 'Line number must be at least 1' }),
+    debit: z
+      .number({ message: 'Debit must be a number' })
+      .nonnegative({ message: 'Debit must be non-negative' })
+      .default(0),
+    credit: z
+      .number({ message: 'Credit must be a number' })
+      .nonnegative({ message: 'Credit must be non-negative' })
+      .default(0),
+    description: z.string().optional(),
+    memo: z.string().optional(),
+    contactId: z
+      .string()
+      .uuid({ message: 'Invalid contact ID format' })
+      .optional(),
+  })
+  .refine((data) => data.debit > 0 !== data.credit > 0, {
+    message: 'Line must have either debit or credit, but not both',
+  })
+
+const recurringTemplateLinesSchema = z
+  .array(recurringTemplateLineSchema)
+  .min(2, { message: 'Recurring template must have at least 2 lines' })
+  .refine(
+    (lines) => {
+      const totalDebit = lines.reduce((sum, line) => sum + line.debit, 0)
+      const totalCredit = lines.reduce((sum, line) => sum + line.credit, 0)
+      return Math.abs(totalDebit - totalCredit) < 0.01
+    },
+    { message: 'Total debits must equal total credits' }
+  )
+
+/**
+ * Recurring template list query schema
+ */
+export const recurringTemplateListSchema = paginationSchema.extend({
+  status: z.enum(['active', 'paused', 'completed']).optional(),
+  search: z.string().max(255).optional(),
+})
+
+/**
+ * Recurring template ID schema
+ */
+export const recurringTemplateIdSchema = z.object({
+  id: z.string().uuid({ message: 'Invalid recurring template ID format' }),
+})
+
+/**
+ * Generated entries list query schema
+ */
+export const recurringTemplateEntriesSchema = paginationSchema
+
+/**
+ * Create recurring template schema
+ */
+export const createRecurringTemplateSchema = z
+  .object({
+    name: z
+      .string()
+      .min(1, 'Template name is required')
+      .max(255, 'Template name must not exceed 255 characters'),
+    entryType: z
+      .enum(['standard', 'adjusting'], {
+        message: 'Entry type must be standard or adjusting',
+      })
+      .optional()
+      .default('standard'),
+    isAdjusting: z.boolean().optional().default(false),
+    description: z.string().optional(),
+    reference: z
+      .string()
+      .max(255, { message: 'Reference must be at most 255 characters' })
+      .optional(),
+    memo: z.string().optional(),
+    ...recurringScheduleShape,
+    lines: recurringTemplateLinesSchema,
+  })
+  .refine(isScheduleRangeValid, scheduleRangeMessage)
+
+/**
+ * Update recurring template schema
+ * Replacing the lines or schedule recalculates the next occurrence
+ */
+export const updateRecurringTemplateSchema = z
+  .object({
+    name: z
+      .string()
+      .min(1, 'Template name is required')
+      .max(255, 'Template name must not exceed 255 characters')
+      .optional(),
+    entryType: z
+      .enum(['standard', 'adjusting'], {
+        message: 'Entry type must be standard or adjusting',
+      })
+      .optional(),
+    isAdjusting: z.boolean().optional(),
+    description: z.string().nullable().optional(),
+    reference: z
+      .string()
+      .max(255, { message: 'Reference must be at most 255 characters' })
+      .nullable()
+      .optional(),
+    memo: z.string().nullable().optional(),
+    frequency: recurringScheduleShape.frequency.optional(),
+    interval: z
+      .number({ message: 'Interval must be a number' })
+      .int({ message: 'Interval must be an integer' })
+      .min(1, { message: 'Interval must be at least 1' })
+      .max(366, { message: 'Interval must be at most 366' })
+      .optional(),
+    startDate: dateString('start date').optional(),
+    endDate: recurringScheduleShape.endDate,
+    maxOccurrences: recurringScheduleShape.maxOccurrences,
+    autoPost: z.boolean().optional(),
+    status: z
+      .enum(['active', 'paused'], {
+        message: 'Status must be active or paused',
+      })
+      .optional(),
+    lines: recurringTemplateLinesSchema.optional(),
+  })
+  .refine(isScheduleRangeValid, scheduleRangeMessage)
+
+/**
+ * Type exports
+ */
+export type RecurringScheduleInput = z.infer<typeof recurringScheduleSchema>
+export type RecurringTemplateListInput = z.infer<
+  typeof recurringTemplateListSchema
+>
+export type RecurringTemplateEntriesInput = z.infer<
+  typeof recurringTemplateEntriesSchema
+>
+export type CreateRecurringTemplateInput = z.infer<
+  typeof createRecurringTemplateSchema
+>
+export type UpdateRecurringTemplateInput = z.infer<
+  typeof updateRecurringTemplateSchema
+>
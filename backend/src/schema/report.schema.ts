@@ -0,0 +1,151 @@
+/**
+ * Report Schema
+ * Zod validation schemas for financial report requests
+ */
+
+import { z } from 'zod'
+
+import { paginationSchema } from '@schema/shared.schema'
+
+/**
+ * Reusable YYYY-MM-DD date string schema
+ */
+const reportDateSchema = (fieldName: string) =>
+  z.string().regex(/^\d{4}-\d{2}-\d{2}$/, {
+    message: `Invalid ${fieldName} format. Expected YYYY-MM-DD`,
+  })
+
+/**
+ * Reusable boolean query flag schema ("true" / "false")
+ */
+const booleanQuerySchema = z
+  .string()
+  .transform((val) => val === 'true')
+  .pipe(z.boolean())
+
+/**
+ * Reusable flag for including year-end closing entries
+ * Each report applies its own default when omitted
+ */
+const includeClosingEntriesSchema = booleanQuerySchema.optional()
+
+/**
+ * Trial balance query schema
+ */
+export const trialBalanceQuerySchema = z.object({
+  asOf: reportDateSchema('as of date').optional(),
+  hideZeroBalances: booleanQuerySchema.optional(),
+  includeClosingEntries: includeClosingEntriesSchema,
+})
+
+/**
+ * Balance sheet query schema
+ */
+export const balanceSheetQuerySchema = z.object({
+  asOf: reportDateSchema('as of date').optional(),
+  hideZeroBalances: booleanQuerySchema.optional(),
+  includeClosingEntries: includeClosingEntriesSchema,
+})
+
+/**
+ * Reusable check that a start date is not after an end date
+ */
+const isValidDateRange = (data: {
+  startDate?: string | undefined
+  endDate?: string | undefined
+}) => !data.startDate || !data.endDate || data.startDate <= data.endDate
+
+const dateRangeError = {
+  message: 'Start date must be on or before end date',
+  path: ['endDate'],
+}
+
+/**
+ * Income statement query schema
+ */
+export const incomeStatementQuerySchema = z
+  .object({
+    startDate: reportDateSchema('start date').optional(),
+    endDate: reportDateSchema('end date').optional(),
+    compareTo: z.enum(['previous_period', 'previous_year']).optional(),
+    hideZeroBalances: booleanQuerySchema.optional(),
+    includeClosingEntries: includeClosingEntriesSchema,
+  })
+  .refine(isValidDateRange, dateRangeError)
+
+/**
+ * Cash flow statement query schema
+ */
+export const cashFlowQuerySchema = z
+  .object({
+    startDate: reportDateSchema('start date').optional(),
+    endDate: reportDateSchema('end date').optional(),
+    hideZeroBalances: booleanQuerySchema.optional(),
+    includeClosingEntries: includeClosingEntriesSchema,
+  })
+  .refine(isValidDateRange, dateRangeError)
+
+/**
+ * General ledger summary query schema
+ */
+export const generalLedgerQuerySchema = z
+  .object({
+    startDate: reportDateSchema('start date').optional(),
+    endDate: reportDateSchema('end date').optional(),
+    accountType: z
+      .enum(['asset', 'liability', 'equity', 'revenue', 'expense'])
+      .optional(),
+    hideZeroBalances: booleanQuerySchema.optional(),
+    includeClosingEntries: includeClosingEntriesSchema,
+  })
+  .refine(isValidDateRange, dateRangeError)
+
+/**
+ * General ledger account movements query schema
+ */
+export const generalLedgerAccountQuerySchema = paginationSchema
+  .extend({
+    startDate: reportDateSchema('start date').optional(),
+    endDate: reportDateSchema('end date').optional(),
+    includeClosingEntries: includeClosingEntriesSchema,
+  })
+  .refine(isValidDateRange, dateRangeError)
+
+/**
+ * Aging report query schema (receivables and payables)
+ * Format selects a CSV or XLSX download instead of JSON
+ */
+export const agingReportQuerySchema = z.object({
+  asOf: reportDateSchema('as of date').optional(),
+  mode: z.enum(['summary', 'detail']).optional(),
+  contactId: z
+    .string()
+    .uuid({ message: 'Invalid contact ID format' })
+    .optional(),
+  format: z.enum(['json', 'csv', 'xlsx']).optional(),
+})
+
+/**
+ * Budget vs actual query schema
+ */
+export const budgetVsActualQuerySchema = z.object({
+  budgetId: z
+    .string({ message: 'Budget ID is required' })
+    .uuid({ message: 'Invalid budget ID format' }),
+})
+
+/**
+ * Type exports
+ */
+export type TrialBalanceQueryInput = z.infer<typeof trialBalanceQuerySchema>
+export type BalanceSheetQueryInput = z.infer<typeof balanceSheetQuerySchema>
+export type IncomeStatementQueryInput = z.infer<
+  typeof incomeStatementQuerySchema
+>
+export type CashFlowQueryInput = z.infer<typeof cashFlowQuerySchema>
+export type GeneralLedgerQueryInput = z.infer<typeof generalLedgerQuerySchema>
+export type GeneralLedgerAccountQueryInput = z.infer<
+  typeof generalLedgerAccountQuerySchema
+>
+export type AgingReportQueryInput = z.infer<typeof agingReportQuerySchema>
+export type BudgetVsActualQueryInput = z.infer<typeof budgetVsActualQuerySchema>
@@ -184,6 +184,21 @@ export type PaginationSortingSearchInput = z.infer<
  */
 export type CompleteFilterInput = z.infer<typeof completeFilterSchema>
 
+/**
+ * Parse a JSON object sent as a multipart text field
+ * Text that is not valid JSON is passed on for the schema to reject
+ */
+export const parseJsonField = (value: unknown): unknown => {
+  if (typeof value !== 'string') {
+    return value
+  }
+  try {
+    return JSON.parse(value) as unknown
+  } catch {
+    return value
+  }
+}
+
 /**
  * Helper function to calculate offset from page and limit
  */
@@ -5,6 +5,7 @@
 
 import { z } from 'zod'
 
+import { CHART_OF_ACCOUNT_TEMPLATE_KEYS } from '@constants/chartOfAccount'
 import {
   paginationSortingSearchSchema,
   statusFilterSchema,
@@ -70,6 +71,11 @@ export const createTenantSchema = z.object({
       message:
         'Schema name must start with a lowercase letter and contain only lowercase letters, numbers, and underscores',
     }),
+  chartOfAccountTemplate: z
+    .enum(CHART_OF_ACCOUNT_TEMPLATE_KEYS, {
+      message: 'Invalid chart of accounts template',
+    })
+    .optional(),
 })
 
 /**
@@ -97,3 +103,19 @@ export const updateTenantSchema = z
  * Type inference for update tenant schema
  */
 export type UpdateTenantInput = z.infer<typeof updateTenantSchema>
+
+/**
+ * Apply chart of accounts template schema
+ */
+export const applyChartOfAccountTemplateSchema = z.object({
+  templateKey: z.enum(CHART_OF_ACCOUNT_TEMPLATE_KEYS, {
+    message: 'Invalid chart of accounts template',
+  }),
+})
+
+/**
+ * Type inference for apply chart of accounts template schema
+ */
+export type ApplyChartOfAccountTemplateInput = z.infer<
+  typeof applyChartOfAccountTemplateSchema
+>
@@ -14,6 +14,7 @@ import type {
   CreateAuditLogOptions,
 } from '@/types/audit.type'
 import type { JwtUser } from '@/types/jwt.type'
+import logger from '@config/logger'
 import type { AuditAction } from '@constants/audit'
 import { AuditLog } from '@models/AuditLog'
 import { getCurrentDate, getCurrentISOString } from '@utils/date'
@@ -295,3 +296,25 @@ export async function auditAction(
     trx: options.trx,
   })
 }
+
+/**
+ * Helper: Create audit log for custom action of a request
+ * Audit failures are logged and never fail the request
+ * @param logLabel - Audited entity named in the failure log (e.g. 'invoice')
+ */
+export async function auditActionSafely(
+  req: Request,
+  tenantId: string,
+  action: AuditAction,
+  targets: AuditTarget[],
+  logLabel: string
+): Promise<void> {
+  try {
+    await auditAction(action, targets, {
+      requestContext: extractRequestContext(req),
+      tenantId,
+    })
+  } catch (error) {
+    logger.error(`Failed to create audit log for ${logLabel}:`, error)
+  }
+}
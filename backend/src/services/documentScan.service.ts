@@ -0,0 +1,87 @@
+/**
+ * Document Scan Service
+ * Hook points for virus scanners. Scanners registered at startup run on every
+ * upload before the file is stored; an infected file, or a scanner that
+ * fails, rejects the upload.
+ */
+
+import type { DocumentScanInput, DocumentScanner } from '@/types/document.type'
+import logger from '@config/logger'
+import { ERROR_MESSAGES } from '@constants/errors'
+import { HTTP_STATUS } from '@constants/http'
+import { DocumentScanStatus } from '@models/Document'
+import { ApiError } from '@utils/ApiError'
+import { getCurrentDate } from '@utils/date'
+
+/**
+ * Registered scanners, run in registration order
+ */
+const scanners: DocumentScanner[] = []
+
+/**
+ * Outcome of scanning an upload that is allowed to be stored
+ */
+export interface DocumentScanOutcome {
+  scanStatus: DocumentScanStatus
+  scannedBy: string | null
+  scannedAt: Date | null
+}
+
+/**
+ * Register a virus scanner
+ * E.g., a ClamAV client or a call to a scanning service
+ */
+export const registerDocumentScanner = (scanner: DocumentScanner): void => {
+  scanners.push(scanner)
+  logger.info(`Document scanner registered: ${scanner.name}`)
+}
+
+/**
+ * Scan an uploaded file with every registered scanner
+ * Without scanners the file is stored as not scanned.
+ * @throws ApiError 400 when a scanner reports the file as infected, 503 when
+ * a scanner fails
+ */
+export const scanDocument = async (
+  input: DocumentScanInput
+): Promise<DocumentScanOutcome> => {
+  if (scanners.length === 0) {
+    return {
+      scanStatus: DocumentScanStatus.NOT_SCANNED,
+      scannedBy: null,
+      scannedAt: null,
+    }
+  }
+
+  for (const scanner of scanners) {
+    let result
+    try {
+      result = await scanner.scan(input)
+    } catch (error) {
+      logger.error(`Document scanner ${scanner.name} failed:`, error)
+      throw new ApiError(
+        HTTP_STATUS.SERVICE_UNAVAILABLE,
+        ERROR_MESSAGES.DOCUMENT_SCAN_FAILED
+      )
+    }
+
+    if (result.infected) {
+      logger.warn(
+        `Document rejected by scanner ${scanner.name}: ${input.fileName} (tenant ${input.tenantId})${result.reason ? ` - ${result.reason}` : ''}`
+      )
+      throw new ApiError(
+        HTTP_STATUS.BAD_REQUEST,
+        ERROR_MESSAGES.DOCUMENT_INFECTED
+      )
+    }
+  }
+
+  return {
+    scanStatus: DocumentScanStatus.CLEAN,
+    scannedBy: scanners
+      .map((scanner) => scanner.name)
+      .join(', ')
+      .slice(0, 100),
+    scannedAt: getCurrentDate(),
+  }
+}
@@ -0,0 +1,189 @@
+/**
+ * Document Storage Service
+ * Storage drivers for uploaded documents: the local filesystem by default,
+ * or an S3-compatible bucket when DOCUMENT_STORAGE_DRIVER is s3
+ */
+
+import { createReadStream } from 'node:fs'
+import { access, mkdir, rm, writeFile } from 'node:fs/promises'
+import { dirname, resolve, sep } from 'node:path'
+import type { Readable } from 'node:stream'
+
+import type { DocumentStorage } from '@/types/document.type'
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  PutObjectCommand,
+  S3Client,
+} from '@aws-sdk/client-s3'
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner'
+import { env } from '@config/env'
+import logger from '@config/logger'
+import { ERROR_MESSAGES } from '@constants/errors'
+import { HTTP_STATUS } from '@constants/http'
+import { DocumentStorageDriver } from '@models/Document'
+import { ApiError } from '@utils/ApiError'
+
+/**
+ * Content-Disposition header value that downloads a file under its name
+ * Non-ASCII names are sent in the RFC 5987 filename* parameter
+ */
+export const getAttachmentDisposition = (fileName: string): string => {
+  const asciiName = fileName
+    .replaceAll(/[^\x20-\x7e]/g, '_')
+    .replaceAll('"', "'")
+  return `attachment; filename="${asciiName}"; filename*=UTF-8''${encodeURIComponent(fileName)}`
+}
+
+/**
+ * Local filesystem driver
+ * Files are written under DOCUMENT_STORAGE_LOCAL_PATH, relative to the
+ * working directory unless absolute
+ */
+const createLocalStorage = (): DocumentStorage => {
+  const root = resolve(env.DOCUMENT_STORAGE_LOCAL_PATH)
+
+  // Resolve a key inside the root, refusing keys that escape it
+  const resolveKey = (key: string): string => {
+    const filePath = resolve(root, key)
+    if (!filePath.startsWith(root + sep)) {
+      throw new ApiError(
+        HTTP_STATUS.BAD_REQUEST,
+        ERROR_MESSAGES.DOCUMENT_STORAGE_KEY_INVALID
+      )
+    }
+    return filePath
+  }
+
+  return {
+    async putObject(key, body) {
+      const filePath = resolveKey(key)
+      // eslint-disable-next-line security/detect-non-literal-fs-filename
+      await mkdir(dirname(filePath), { recursive: true })
+      // eslint-disable-next-line security/detect-non-literal-fs-filename
+      await writeFile(filePath, body, { flag: 'wx' })
+    },
+
+    async getObjectStream(key) {
+      const filePath = resolveKey(key)
+      try {
+        await access(filePath)
+      } catch {
+        throw new ApiError(
+          HTTP_STATUS.NOT_FOUND,
+          ERROR_MESSAGES.DOCUMENT_FILE_NOT_FOUND
+        )
+      }
+      // eslint-disable-next-line security/detect-non-literal-fs-filename
+      return createReadStream(filePath)
+    },
+
+    async deleteObject(key) {
+      await rm(resolveKey(key), { force: true })
+    },
+  }
+}
+
+/**
+ * S3-compatible driver
+ * Credentials fall back to the AWS credentials, then to the default provider
+ * chain. DOCUMENT_S3_ENDPOINT points the client at other S3-compatible
+ * services (e.g., MinIO, R2).
+ */
+const createS3Storage = (): DocumentStorage => {
+  const bucket = env.DOCUMENT_S3_BUCKET
+  if (!bucket) {
+    throw new ApiError(
+      HTTP_STATUS.SERVICE_UNAVAILABLE,
+      ERROR_MESSAGES.DOCUMENT_STORAGE_NOT_CONFIGURED
+    )
+  }
+
+  const accessKeyId = env.DOCUMENT_S3_ACCESS_KEY_ID ?? env.AWS_ACCESS_KEY_ID
+  const secretAccessKey =
+    env.DOCUMENT_S3_SECRET_ACCESS_KEY ?? env.AWS_SECRET_ACCESS_KEY
+
+  const client = new S3Client({
+    region: env.DOCUMENT_S3_REGION ?? env.AWS_REGION,
+    forcePathStyle: env.DOCUMENT_S3_FORCE_PATH_STYLE,
+    ...(env.DOCUMENT_S3_ENDPOINT ? { endpoint: env.DOCUMENT_S3_ENDPOINT } : {}),
+    ...(accessKeyId && secretAccessKey
+      ? { credentials: { accessKeyId, secretAccessKey } }
+      : {}),
+  })
+
+  logger.info('Document S3 client initialized')
+
+  return {
+    async putObject(key, body, mimeType) {
+      await client.send(
+        new PutObjectCommand({
+          Bucket: bucket,
+          Key: key,
+          Body: body,
+          ContentType: mimeType,
+        })
+      )
+    },
+
+    async getObjectStream(key) {
+      try {
+        const result = await client.send(
+          new GetObjectCommand({ Bucket: bucket, Key: key })
+        )
+        return result.Body as Readable
+      } catch (error) {
+        if ((error as { name?: string }).name === 'NoSuchKey') {
+          throw new ApiError(
+            HTTP_STATUS.NOT_FOUND,
+            ERROR_MESSAGES.DOCUMENT_FILE_NOT_FOUND
+          )
+        }
+        throw error
+      }
+    },
+
+    async deleteObject(key) {
+      await client.send(new DeleteObjectCommand({ Bucket: bucket, Key: key }))
+    },
+
+    async getSignedUrl(key, fileName, expiresInSeconds) {
+      return getSignedUrl(
+        client,
+        new GetObjectCommand({
+          Bucket: bucket,
+          Key: key,
+          ResponseContentDisposition: getAttachmentDisposition(fileName),
+        }),
+        { expiresIn: expiresInSeconds }
+      )
+    },
+  }
+}
+
+/**
+ * Drivers created so far
+ */
+const storages = new Map<DocumentStorageDriver, DocumentStorage>()
+
+/**
+ * Get a storage driver, creating it the first time it is used
+ * @param driver - Driver to get; defaults to DOCUMENT_STORAGE_DRIVER, the one
+ * new uploads are written to
+ */
+export const getDocumentStorage = (
+  driver: DocumentStorageDriver = env.DOCUMENT_STORAGE_DRIVER as DocumentStorageDriver
+): DocumentStorage => {
+  const existing = storages.get(driver)
+  if (existing) {
+    return existing
+  }
+
+  const storage =
+    driver === DocumentStorageDriver.S3
+      ? createS3Storage()
+      : createLocalStorage()
+  storages.set(driver, storage)
+
+  return storage
+}
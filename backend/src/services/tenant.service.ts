@@ -2,6 +2,7 @@ import path from 'node:path'
 
 import knex, { type Knex } from 'knex'
 
+import type { AppliedChartOfAccountTemplate } from '@/types/chartOfAccount.type'
 import { env } from '@config/env'
 import { ERROR_MESSAGES } from '@constants/errors'
 import { HTTP_STATUS } from '@constants/http'
@@ -11,7 +12,9 @@ import { Role } from '@models/Role'
 import { Tenant } from '@models/Tenant'
 import { UserRole } from '@models/UserRole'
 import { UserTenant } from '@models/UserTenant'
+import { applyChartOfAccountTemplate } from '@queries/chartOfAccountTemplate.queries'
 import { ApiError } from '@utils/ApiError'
+import { getChartOfAccountTemplate } from '@utils/chartOfAccountTemplates'
 
 /**
  * Interface for tenant onboarding data
@@ -19,6 +22,10 @@ import { ApiError } from '@utils/ApiError'
 export interface TenantOnboardingData {
   name: string
   schemaName: string
+  /** Key of the chart of accounts template to set the tenant up with */
+  chartOfAccountTemplate?: string
+  /** User ID onboarding the tenant; creates the template accounts */
+  createdBy: string
 }
 
 /**
@@ -109,17 +116,27 @@ export const runTenantMigrations = async (
  * Onboard a new tenant
  * This creates:
  * 1. Tenant record in public schema
- * 2. Associates all superadmin users with the tenant (user_tenants and user_roles records)
- * 3. Database schema for the tenant
- * 4. Runs tenant-specific migrations only
+ * 2. Finds all superadmin users
+ * 3. Associates them with the tenant (user_tenants and user_roles records)
+ * 4. Database schema for the tenant
+ * 5. Runs tenant-specific migrations only
+ * 6. Creates the accounts of the chart of accounts template, if one is given
  *
  * Note: All superadmin users are automatically associated with new tenants
  * @param data - Tenant onboarding data
- * @returns Created tenant
+ * @returns Created tenant, and the template applied (null if none was given)
  */
 export const onboardTenant = async (
   data: TenantOnboardingData
-): Promise<{ tenant: Tenant }> => {
+): Promise<{
+  tenant: Tenant
+  appliedTemplate: AppliedChartOfAccountTemplate | null
+}> => {
+  // Fail before anything is created if the template does not exist
+  if (data.chartOfAccountTemplate) {
+    getChartOfAccountTemplate(data.chartOfAccountTemplate)
+  }
+
   // Validate schema name format
   if (!Tenant.validateSchemaName(data.schemaName)) {
     throw new ApiError(
@@ -197,9 +214,19 @@ export const onboardTenant = async (
     // Step 5: Run tenant-specific migrations only
     await runTenantMigrations(data.schemaName)
 
-    return { tenant }
+    // Step 6: Set up the chart of accounts from the template
+    const appliedTemplate = data.chartOfAccountTemplate
+      ? await applyChartOfAccountTemplate(
+          tenant.id,
+          data.schemaName,
+          data.createdBy,
+          data.chartOfAccountTemplate
+        )
+      : null
+
+    return { tenant, appliedTemplate }
   } catch (error) {
-    // If schema creation or migration fails, clean up tenant record and user_tenants
+    // If schema creation, migration or the template fails, clean up tenant record and user_tenants
     const fullSchemaName = data.schemaName.startsWith('tenant_')
       ? data.schemaName
       : `tenant_${data.schemaName}`
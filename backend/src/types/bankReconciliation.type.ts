@@ -0,0 +1,125 @@
+/**
+ * Bank Reconciliation Types
+ * TypeScript type definitions for bank reconciliations
+ */
+
+import type {
+  BankReconciliation,
+  BankReconciliationStatus,
+} from '@models/BankReconciliation'
+
+/**
+ * Filter parameters for listing bank reconciliations
+ */
+export interface BankReconciliationFilters {
+  accountId?: string | undefined
+  status?: BankReconciliationStatus | undefined
+  page: number
+  limit: number
+}
+
+/**
+ * Result type for bank reconciliations list query
+ */
+export interface BankReconciliationListResult {
+  reconciliations: BankReconciliation[]
+  total: number
+}
+
+/**
+ * Data for starting a bank reconciliation
+ */
+export interface StartBankReconciliationData {
+  accountId: string
+  statementDate: string
+  statementEndingBalance: number
+}
+
+/**
+ * Data for updating the statement of a reconciliation in progress
+ */
+export interface UpdateBankReconciliationData {
+  statementDate?: string | undefined
+  statementEndingBalance?: number | undefined
+}
+
+/**
+ * Data for ticking or unticking lines of a reconciliation in progress
+ */
+export interface ClearBankReconciliationLinesData {
+  lineIds: string[]
+  cleared: boolean
+}
+
+/**
+ * Posted journal line on the bank account that can be cleared
+ * Amounts are in the bank account currency; a deposit debits the account and
+ * a payment credits it
+ */
+export interface BankReconciliationLine {
+  lineId: string
+  journalEntryId: string
+  entryNumber: string | null
+  entryDate: Date
+  description: string | null
+  reference: string | null
+  deposit: number
+  payment: number
+  isCleared: boolean
+}
+
+/**
+ * Running totals of a reconciliation
+ * clearedBalance is the opening balance plus cleared deposits less cleared
+ * payments; difference is what is left to match the statement
+ */
+export interface BankReconciliationSummary {
+  openingBalance: number
+  statementEndingBalance: number
+  clearedDeposits: number
+  clearedPayments: number
+  clearedCount: number
+  clearedBalance: number
+  difference: number
+}
+
+/**
+ * Reconciliation with its running totals
+ */
+export interface BankReconciliationDetail {
+  reconciliation: BankReconciliation
+  summary: BankReconciliationSummary
+}
+
+/**
+ * Line of a saved reconciliation report
+ */
+export interface BankReconciliationReportLine {
+  lineId: string
+  journalEntryId: string
+  entryNumber: string | null
+  entryDate: string
+  description: string | null
+  amount: number
+}
+
+/**
+ * Reconciliation report saved when a session is finalized
+ * Uncleared lines dated on or before the statement date are the outstanding
+ * deposits and payments that explain the difference to the book balance
+ */
+export interface BankReconciliationReport {
+  accountId: string
+  accountName: string
+  chartOfAccountId: string
+  currencyCode: string
+  statementDate: string
+  summary: BankReconciliationSummary
+  bookBalance: number
+  clearedDeposits: BankReconciliationReportLine[]
+  clearedPayments: BankReconciliationReportLine[]
+  outstandingDeposits: BankReconciliationReportLine[]
+  outstandingPayments: BankReconciliationReportLine[]
+  completedBy: string
+  completedAt: string
+}
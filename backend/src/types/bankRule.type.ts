@@ -0,0 +1,176 @@
+/**
+ * Bank Categorization Rule Types
+ * TypeScript type definitions for categorization rules and suggestions on
+ * imported bank transactions
+ */
+
+import type {
+  BANK_RULE_AMOUNT_OPERATORS,
+  BANK_RULE_TEXT_FIELDS,
+  BANK_RULE_TEXT_OPERATORS,
+} from '@constants/bankTransaction'
+import type {
+  BankCategorizationRule,
+  BankRuleMatchType,
+  BankRuleTransactionType,
+} from '@models/BankCategorizationRule'
+import type { BankTransaction } from '@models/BankTransaction'
+
+/**
+ * Condition on the description, payee or reference of a transaction
+ */
+export interface BankRuleTextCondition {
+  field: (typeof BANK_RULE_TEXT_FIELDS)[number]
+  operator: (typeof BANK_RULE_TEXT_OPERATORS)[number]
+  value: string
+}
+
+/**
+ * Condition on the absolute amount of a transaction
+ */
+export interface BankRuleAmountCondition {
+  field: 'amount'
+  operator: (typeof BANK_RULE_AMOUNT_OPERATORS)[number]
+  value: number
+}
+
+export type BankRuleCondition = BankRuleTextCondition | BankRuleAmountCondition
+
+/**
+ * Transaction fields rules are matched against
+ */
+export type BankRuleMatchInput = Pick<
+  BankTransaction,
+  'accountId' | 'amount' | 'description' | 'payee' | 'reference'
+>
+
+/**
+ * Filter parameters for listing categorization rules
+ */
+export interface BankRuleFilters {
+  isActive?: boolean | undefined
+  accountId?: string | undefined
+  page: number
+  limit: number
+}
+
+/**
+ * Result type for categorization rules list query
+ */
+export interface BankRuleListResult {
+  rules: BankCategorizationRule[]
+  total: number
+}
+
+/**
+ * Matching part of a rule, also used to test a rule before saving it
+ */
+export interface BankRuleDefinition {
+  matchType?: BankRuleMatchType | undefined
+  conditions: BankRuleCondition[]
+  transactionType?: BankRuleTransactionType | undefined
+  accountId?: string | null | undefined
+  categoryAccountId: string
+}
+
+/**
+ * Data for creating a categorization rule
+ * Rules without a priority are added after the existing ones
+ */
+export interface CreateBankRuleData extends BankRuleDefinition {
+  name: string
+  description?: string | undefined
+  priority?: number | undefined
+  taxGroupId?: string | null | undefined
+  isActive?: boolean | undefined
+}
+
+/**
+ * Data for updating a categorization rule
+ */
+export interface UpdateBankRuleData {
+  name?: string | undefined
+  description?: string | null | undefined
+  priority?: number | undefined
+  matchType?: BankRuleMatchType | undefined
+  conditions?: BankRuleCondition[] | undefined
+  transactionType?: BankRuleTransactionType | undefined
+  accountId?: string | null | undefined
+  categoryAccountId?: string | undefined
+  taxGroupId?: string | null | undefined
+  isActive?: boolean | undefined
+}
+
+/**
+ * Categorized transaction a rule matched when tested against history
+ * agrees is true when the transaction was categorized to the rule's account
+ */
+export interface BankRuleTestSample {
+  id: string
+  transactionDate: string | null
+  amount: number
+  description: string | null
+  payee: string | null
+  categoryAccountId: string | null
+  agrees: boolean
+}
+
+/**
+ * Result of testing a rule against categorized history
+ * agreementRate is the percentage of matched history categorized to the rule's
+ * account, null when the rule matches no history
+ */
+export interface BankRuleTestResult {
+  historyChecked: number
+  historyMatched: number
+  historyAgreed: number
+  agreementRate: number | null
+  uncategorizedMatched: number
+  samples: BankRuleTestSample[]
+}
+
+/**
+ * Options for applying rules to uncategorized transactions in bulk
+ */
+export interface ApplyBankRulesData {
+  ruleIds?: string[] | undefined
+  accountId?: string | undefined
+}
+
+/**
+ * Result of applying rules in bulk
+ * failures lists transactions a matching rule could not categorize
+ */
+export interface ApplyBankRulesResult {
+  checkedCount: number
+  matchedCount: number
+  categorizedCount: number
+  categorized: Array<{
+    transactionId: string
+    ruleId: string
+    journalEntryId: string | null
+  }>
+  failures: Array<{ transactionId: string; ruleId: string; message: string }>
+}
+
+/**
+ * Category suggested for an uncategorized transaction
+ * Rule suggestions have a confidence of 100; suggestions learned from
+ * similar categorized transactions score lower
+ */
+export interface BankTransactionSuggestion {
+  categoryAccountId: string
+  taxGroupId: string | null
+  source: 'rule' | 'history'
+  ruleId: string | null
+  confidence: number
+  matchCount: number
+}
+
+/**
+ * Categorized transaction used to learn suggestions
+ */
+export type BankCategorizationHistoryItem = Pick<
+  BankTransaction,
+  'amount' | 'description' | 'payee' | 'categoryAccountId' | 'taxGroupId'
+>
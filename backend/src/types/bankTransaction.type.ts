@@ -0,0 +1,161 @@
+/**
+ * Bank Transaction Types
+ * TypeScript type definitions for bank statement imports and the
+ * transactions inbox
+ */
+
+import type { BankTransactionSuggestion } from '@/types/bankRule.type'
+import type {
+  BankStatementFormat,
+  BankStatementImport,
+} from '@models/BankStatementImport'
+import type {
+  BankTransaction,
+  BankTransactionStatus,
+} from '@models/BankTransaction'
+
+/**
+ * Statement line that could not be read
+ * row is the CSV row (header is row 1) or the position of the transaction
+ * in an OFX/CAMT.053 file
+ */
+export interface BankStatementImportError {
+  row: number
+  message: string
+}
+
+/**
+ * Statement line read from a file
+ * amount is positive for deposits and negative for payments
+ */
+export interface ParsedStatementLine {
+  row: number
+  date: string
+  amount: number
+  description: string | null
+  payee: string | null
+  reference: string | null
+  fitid: string | null
+}
+
+/**
+ * Statement file read into lines
+ * currencyCode is the statement currency when the format carries one
+ */
+export interface ParsedStatement {
+  lines: ParsedStatementLine[]
+  errors: BankStatementImportError[]
+  currencyCode: string | null
+}
+
+/**
+ * Date formats accepted in CSV statements
+ */
+export type CsvDateFormat = 'YYYY-MM-DD' | 'MM/DD/YYYY' | 'DD/MM/YYYY'
+
+/**
+ * CSV header names mapped to statement fields
+ * Either amount (signed) or debit and/or credit (unsigned) must be mapped
+ */
+export interface CsvColumnMapping {
+  date: string
+  amount?: string | undefined
+  debit?: string | undefined
+  credit?: string | undefined
+  description?: string | undefined
+  payee?: string | undefined
+  reference?: string | undefined
+  fitid?: string | undefined
+}
+
+/**
+ * Options for reading a CSV statement
+ * invertAmounts flips the sign of signed amounts, for banks that export
+ * payments as positive numbers
+ */
+export interface CsvStatementOptions {
+  mapping: CsvColumnMapping
+  dateFormat: CsvDateFormat
+  invertAmounts?: boolean | undefined
+}
+
+/**
+ * Headers and first rows of a CSV statement, used to map its columns
+ */
+export interface CsvStatementPreview {
+  headers: string[]
+  rows: string[][]
+}
+
+/**
+ * Data for importing a statement file
+ */
+export interface ImportBankStatementData {
+  accountId: string
+  format: BankStatementFormat
+  fileName?: string | undefined
+  content: string
+  csv?: CsvStatementOptions | undefined
+}
+
+/**
+ * Filter parameters for listing bank transactions
+ */
+export interface BankTransactionFilters {
+  accountId?: string | undefined
+  status?: BankTransactionStatus | undefined
+  importId?: string | undefined
+  startDate?: string | undefined
+  endDate?: string | undefined
+  search?: string | undefined
+  page: number
+  limit: number
+}
+
+/**
+ * Result type for bank transactions list query
+ * suggestions holds the suggested category of uncategorized transactions,
+ * keyed by transaction ID
+ */
+export interface BankTransactionListResult {
+  transactions: BankTransaction[]
+  suggestions: Map<string, BankTransactionSuggestion>
+  total: number
+}
+
+/**
+ * Bank transaction with its suggested category, if uncategorized
+ */
+export interface BankTransactionDetail {
+  transaction: BankTransaction
+  suggestion: BankTransactionSuggestion | null
+}
+
+/**
+ * Filter parameters for listing statement imports
+ */
+export interface BankStatementImportFilters {
+  accountId?: string | undefined
+  page: number
+  limit: number
+}
+
+/**
+ * Result type for statement imports list query
+ */
+export interface BankStatementImportListResult {
+  imports: BankStatementImport[]
+  total: number
+}
+
+/**
+ * Data for categorizing a bank transaction into a journal entry
+ * ruleId records the rule that categorized the transaction in bulk
+ */
+export interface CategorizeBankTransactionData {
+  categoryAccountId: string
+  taxGroupId?: string | null | undefined
+  description?: string | undefined
+  memo?: string | undefined
+  ruleId?: string | undefined
+}
@@ -0,0 +1,97 @@
+/**
+ * Bill Types
+ * TypeScript type definitions for vendor bills, expenses and bill settings
+ */
+
+import type { Bill, BillStatus, BillType } from '@models/Bill'
+
+/**
+ * Filter parameters for listing bills
+ * accountId matches bills with a line on that expense account (category)
+ */
+export interface BillFilters {
+  status?: BillStatus | undefined
+  billType?: BillType | undefined
+  contactId?: string | undefined
+  accountId?: string | undefined
+  startDate?: string | undefined
+  endDate?: string | undefined
+  search?: string | undefined
+  page: number
+  limit: number
+  sort?: string | undefined
+  order?: 'asc' | 'desc' | undefined
+}
+
+/**
+ * Result type for bills list query
+ */
+export interface BillListResult {
+  bills: Bill[]
+  total: number
+}
+
+/**
+ * Line item of a bill
+ * accountId defaults to the vendor's expense account. taxGroupId defaults to
+ * the vendor's tax group when omitted; null means the line is not taxed.
+ * Tax is recoverable unless isTaxRecoverable is false.
+ */
+export interface BillLineData {
+  description: string
+  quantity: number
+  unitPrice: number
+  accountId?: string | undefined
+  taxGroupId?: string | null | undefined
+  isTaxRecoverable?: boolean | undefined
+}
+
+/**
+ * Data for creating a bill
+ * Bills need a vendor and are due on the bill date plus the vendor's payment
+ * terms. Expenses need the account they were paid from and are due on the
+ * bill date.
+ */
+export interface CreateBillData {
+  billType?: BillType | undefined
+  contactId?: string | null | undefined
+  billNumber?: string | null | undefined
+  billDate: string
+  dueDate?: string | undefined
+  paymentAccountId?: string | null | undefined
+  reference?: string | null | undefined
+  memo?: string | null | undefined
+  lines: BillLineData[]
+}
+
+/**
+ * Data for updating a draft bill
+ */
+export interface UpdateBillData {
+  billType?: BillType | undefined
+  contactId?: string | null | undefined
+  billNumber?: string | null | undefined
+  billDate?: string | undefined
+  dueDate?: string | undefined
+  paymentAccountId?: string | null | undefined
+  reference?: string | null | undefined
+  memo?: string | null | undefined
+  lines?: BillLineData[] | undefined
+}
+
+/**
+ * Data for voiding a bill
+ * The reversing entry is dated voidDate, or today
+ */
+export interface VoidBillData {
+  reason?: string | undefined
+  voidDate?: string | undefined
+}
+
+/**
+ * Data for updating bill settings
+ */
+export interface UpdateBillSettingsData {
+  payableAccountId?: string | null | undefined
+  taxAccountId?: string | null | undefined
+}
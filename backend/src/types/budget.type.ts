@@ -0,0 +1,159 @@
+/**
+ * Budget Types
+ * TypeScript type definitions for budgets
+ */
+
+import type { Budget } from '@models/Budget'
+
+/**
+ * Filter parameters for budget queries
+ */
+export interface BudgetFilters {
+  fiscalYearId?: string | undefined
+  search?: string | undefined
+  page: number
+  limit: number
+  sort?: string | undefined
+  order?: 'asc' | 'desc' | undefined
+}
+
+/**
+ * Result type for budget list query
+ */
+export interface BudgetListResult {
+  budgets: Budget[]
+  total: number
+}
+
+/**
+ * Month of the fiscal year of a budget
+ * Months are numbered from 1, from the start of the fiscal year
+ */
+export interface BudgetMonth {
+  month: number
+  label: string
+  startDate: string
+  endDate: string
+}
+
+/**
+ * Budgeted amounts of one account, one per month of the fiscal year
+ */
+export interface BudgetLineData {
+  accountId: string
+  amounts: number[]
+}
+
+/**
+ * Data for creating a budget
+ */
+export interface CreateBudgetData {
+  fiscalYearId: string
+  name: string
+  description?: string | undefined
+  lines?: BudgetLineData[] | undefined
+}
+
+/**
+ * Data for updating a budget
+ * Lines, when given, replace all the lines of the budget
+ */
+export interface UpdateBudgetData {
+  name?: string | undefined
+  description?: string | null | undefined
+  lines?: BudgetLineData[] | undefined
+}
+
+/**
+ * Data for filling a budget from last year's actuals
+ */
+export interface CopyBudgetActualsData {
+  growthPercent: number
+}
+
+/**
+ * Data for growing the amounts of a budget by a percentage
+ */
+export interface ApplyBudgetGrowthData {
+  growthPercent: number
+  accountIds?: string[] | undefined
+}
+
+/**
+ * Row of a budget file that could not be imported
+ * Row 1 is the header row
+ */
+export interface BudgetImportError {
+  row: number
+  message: string
+}
+
+/**
+ * Line read from a row of a budget file
+ */
+export interface ParsedBudgetImportLine {
+  row: number
+  accountNumber: string
+  amounts: number[]
+}
+
+/**
+ * Lines and errors read from a budget file
+ */
+export interface ParsedBudgetFile {
+  lines: ParsedBudgetImportLine[]
+  errors: BudgetImportError[]
+  totalRows: number
+}
+
+/**
+ * Data for importing a budget file
+ */
+export interface ImportBudgetData {
+  fileName: string
+  buffer: Buffer
+  dryRun: boolean
+}
+
+/**
+ * Account line imported (or, in a dry run, that would be imported)
+ */
+export interface BudgetImportLine {
+  row: number
+  accountId: string
+  accountNumber: string
+  accountName: string
+  amounts: number[]
+  total: number
+}
+
+/**
+ * Result of a budget import
+ * The file replaces the lines of the budget, and is only imported when no
+ * row has errors
+ */
+export interface BudgetImportResult {
+  dryRun: boolean
+  imported: boolean
+  totalRows: number
+  errors: BudgetImportError[]
+  lines: BudgetImportLine[]
+}
+
+/**
+ * Account row of a budget file
+ */
+export interface BudgetFileRow {
+  accountNumber: string
+  accountName: string
+  amounts: number[]
+}
+
+/**
+ * Content of the file downloaded from a budget
+ */
+export interface BudgetFile {
+  budget: Budget
+  months: BudgetMonth[]
+  rows: BudgetFileRow[]
+}
@@ -64,3 +64,185 @@ export interface ChartOfAccountListResult {
   accounts: ChartOfAccount[]
   total: number
 }
+
+/**
+ * Import fields of a chart of accounts file
+ */
+export type ChartOfAccountImportField =
+  | 'accountNumber'
+  | 'accountName'
+  | 'accountType'
+  | 'accountDetailType'
+  | 'openingBalance'
+
+/**
+ * Column mapping of a chart of accounts file
+ * Header name per import field
+ */
+export interface ChartOfAccountImportMapping {
+  accountNumber?: string | undefined
+  accountName: string
+  accountType: string
+  accountDetailType?: string | undefined
+  openingBalance?: string | undefined
+}
+
+/**
+ * Row of a chart of accounts file that could not be imported
+ * Row 1 is the header row
+ */
+export interface ChartOfAccountImportError {
+  row: number
+  message: string
+}
+
+/**
+ * Account read from a row of a chart of accounts file
+ * Sub-accounts are written as "Parent:Child"; accountName is the last
+ * segment and parentPath the segments before it
+ */
+export interface ParsedChartOfAccountRow {
+  row: number
+  accountNumber: string | null
+  accountName: string
+  fullName: string
+  parentPath: string[]
+  accountType: AccountType
+  accountSubtype: string | null
+  accountDetailType: string | null
+  openingBalance: number
+}
+
+/**
+ * Accounts and errors read from a chart of accounts file
+ */
+export interface ParsedChartOfAccountFile {
+  rows: ParsedChartOfAccountRow[]
+  errors: ChartOfAccountImportError[]
+  totalRows: number
+}
+
+/**
+ * Data for importing a chart of accounts file
+ */
+export interface ImportChartOfAccountsData {
+  fileName: string
+  buffer: Buffer
+  mapping?: ChartOfAccountImportMapping | undefined
+  dryRun: boolean
+}
+
+/**
+ * Account created (or, in a dry run, that would be created) by an import
+ */
+export interface ChartOfAccountImportAccount {
+  row: number
+  id: string | null
+  accountNumber: string | null
+  accountName: string
+  fullName: string
+  accountType: AccountType
+  accountSubtype: string | null
+  accountDetailType: string | null
+  parentAccountId: string | null
+  openingBalance: number
+}
+
+/**
+ * Result of a chart of accounts import
+ * Accounts are only committed when imported is true: nothing is written in a
+ * dry run or when any row has errors
+ */
+export interface ChartOfAccountImportResult {
+  dryRun: boolean
+  imported: boolean
+  totalRows: number
+  validRows: number
+  errors: ChartOfAccountImportError[]
+  accounts: ChartOfAccountImportAccount[]
+}
+
+/**
+ * Account of a chart of accounts template
+ * Sub-accounts name their parent by account number; parents are listed
+ * before their sub-accounts
+ */
+export interface ChartOfAccountTemplateAccount {
+  accountNumber: string
+  accountName: string
+  accountType: AccountType
+  accountSubtype: string
+  accountDetailType: string
+  parentAccountNumber?: string
+  description?: string
+}
+
+/**
+ * Chart of accounts template
+ * The version is raised whenever the accounts of the template change, so
+ * that tenants record which revision they were set up with
+ */
+export interface ChartOfAccountTemplate {
+  key: string
+  version: number
+  name: string
+  description: string
+  accounts: ChartOfAccountTemplateAccount[]
+}
+
+/**
+ * Chart of accounts template without its accounts, as listed to users
+ */
+export interface ChartOfAccountTemplateSummary {
+  key: string
+  version: number
+  name: string
+  description: string
+  accountCount: number
+}
+
+/**
+ * Result of applying a chart of accounts template to a tenant
+ */
+export interface AppliedChartOfAccountTemplate {
+  template: ChartOfAccountTemplateSummary
+  accounts: ChartOfAccount[]
+}
+
+/**
+ * Rows of another table that point to an account, as moved by a merge
+ */
+export interface ChartOfAccountReferenceCount {
+  table: string
+  column: string
+  count: number
+}
+
+/**
+ * Rows a chart of accounts merge moves from the source account
+ */
+export interface ChartOfAccountMergeCounts {
+  journalEntryLines: number
+  balanceHistory: number
+  childAccounts: number
+  approvalRules: number
+  references: ChartOfAccountReferenceCount[]
+}
+
+/**
+ * Preview of merging a source account into a target account
+ * The balances are the target's after the merge
+ */
+export interface ChartOfAccountMergePreview {
+  sourceAccount: ChartOfAccount
+  targetAccount: ChartOfAccount
+  counts: ChartOfAccountMergeCounts
+  openingBalance: number
+  currentBalance: number
+}
+
+/**
+ * Result of a chart of accounts merge
+ * The source account is soft-deleted and the target account is reloaded
+ */
+export type ChartOfAccountMergeResult = ChartOfAccountMergePreview
@@ -0,0 +1,147 @@
+/**
+ * Contact Types
+ * TypeScript type definitions for customer and vendor contacts and their
+ * ledger and balance views
+ */
+
+import type { ReportPeriod } from '@/types/report.type'
+import type { AccountType } from '@models/ChartOfAccount'
+import type { Contact, ContactType } from '@models/Contact'
+
+/**
+ * Postal address stored on a contact
+ */
+export interface ContactAddress {
+  line1?: string | undefined
+  line2?: string | undefined
+  city?: string | undefined
+  state?: string | undefined
+  postalCode?: string | undefined
+  country?: string | undefined
+}
+
+/**
+ * Filter parameters for listing contacts
+ */
+export interface ContactFilters {
+  contactType?: ContactType | undefined
+  isActive?: boolean | undefined
+  search?: string | undefined
+  page: number
+  limit: number
+  sort?: string | undefined
+  order?: 'asc' | 'desc' | undefined
+}
+
+/**
+ * Result type for contacts list query
+ */
+export interface ContactListResult {
+  contacts: Contact[]
+  total: number
+}
+
+/**
+ * Contact fields that can be set on create and update
+ */
+interface ContactFieldsData {
+  companyName?: string | null | undefined
+  firstName?: string | null | undefined
+  lastName?: string | null | undefined
+  email?: string | null | undefined
+  phone?: string | null | undefined
+  website?: string | null | undefined
+  taxNumber?: string | null | undefined
+  currencyCode?: string | null | undefined
+  billingAddress?: ContactAddress | null | undefined
+  shippingAddress?: ContactAddress | null | undefined
+  defaultIncomeAccountId?: string | null | undefined
+  defaultExpenseAccountId?: string | null | undefined
+  defaultTaxGroupId?: string | null | undefined
+  paymentTermsDays?: number | undefined
+  notes?: string | null | undefined
+  isActive?: boolean | undefined
+}
+
+/**
+ * Data for creating a contact
+ */
+export interface CreateContactData extends ContactFieldsData {
+  contactType: ContactType
+  displayName: string
+}
+
+/**
+ * Data for updating a contact
+ */
+export interface UpdateContactData extends ContactFieldsData {
+  contactType?: ContactType | undefined
+  displayName?: string | undefined
+}
+
+/**
+ * Filter parameters for the ledger of a contact
+ */
+export interface ContactLedgerFilters {
+  startDate?: string | undefined
+  endDate?: string | undefined
+  page: number
+  limit: number
+}
+
+/**
+ * Posted journal entry line of a contact
+ * runningBalance is the contact balance (debit minus credit) after the line
+ */
+export interface ContactLedgerMovement {
+  journalEntryId: string
+  journalEntryLineId: string
+  entryNumber: string | null
+  entryDate: string
+  reference: string | null
+  description: string | null
+  accountId: string
+  accountNumber: string | null
+  accountName: string
+  debit: number
+  credit: number
+  runningBalance: number
+}
+
+/**
+ * Ledger of a contact with paginated movements
+ */
+export interface ContactLedgerResult {
+  period: ReportPeriod
+  openingBalance: number
+  closingBalance: number
+  movements: ContactLedgerMovement[]
+  total: number
+}
+
+/**
+ * Posted totals of a contact on one account
+ */
+export interface ContactBalanceAccount {
+  accountId: string
+  accountNumber: string | null
+  accountName: string
+  accountType: AccountType
+  debit: number
+  credit: number
+  balance: number
+}
+
+/**
+ * Balance of a contact as of a date
+ * balance is the debit minus credit of lines on asset and liability accounts:
+ * positive when the contact owes the tenant, negative when the tenant owes
+ * the contact. Income and expense lines are listed in accounts only.
+ */
+export interface ContactBalance {
+  asOf: string
+  accounts: ContactBalanceAccount[]
+  totalDebit: number
+  totalCredit: number
+  balance: number
+}
@@ -0,0 +1,143 @@
+/**
+ * Currency Types
+ * TypeScript type definitions for exchange rates and FX revaluation
+ */
+
+import type { AccountType, ChartOfAccount } from '@models/ChartOfAccount'
+import type { ExchangeRate } from '@models/ExchangeRate'
+import type { JournalEntry } from '@models/JournalEntry'
+
+/**
+ * Currency settings of a tenant
+ */
+export interface CurrencySettings {
+  baseCurrency: string
+  fxGainLossAccount: ChartOfAccount | null
+}
+
+/**
+ * Data for updating the currency settings of a tenant
+ */
+export interface UpdateCurrencySettingsData {
+  baseCurrency?: string | undefined
+  fxGainLossAccountId?: string | null | undefined
+}
+
+/**
+ * Filter parameters for listing exchange rates
+ */
+export interface ExchangeRateFilters {
+  currencyCode?: string | undefined
+  startDate?: string | undefined
+  endDate?: string | undefined
+  page: number
+  limit: number
+}
+
+/**
+ * Result type for exchange rates list query
+ */
+export interface ExchangeRateListResult {
+  rates: ExchangeRate[]
+  total: number
+}
+
+/**
+ * Data for creating an exchange rate
+ */
+export interface CreateExchangeRateData {
+  currencyCode: string
+  rateDate: string
+  rate: number
+}
+
+/**
+ * Data for updating an exchange rate
+ */
+export interface UpdateExchangeRateData {
+  rateDate?: string | undefined
+  rate?: number | undefined
+}
+
+/**
+ * Row of an exchange rate CSV import that could not be imported
+ * Row numbers count the header as row 1, as spreadsheets do
+ */
+export interface ExchangeRateImportError {
+  row: number
+  message: string
+}
+
+/**
+ * Result of an exchange rate CSV import
+ * Rates already entered for the same currency and date are replaced
+ */
+export interface ExchangeRateImportResult {
+  created: number
+  updated: number
+  errors: ExchangeRateImportError[]
+}
+
+/**
+ * Foreign currency account line of an FX revaluation
+ * bookBalance is the base currency balance in the ledger, revaluedBalance the
+ * foreign balance at the revaluation rate; both are debit minus credit
+ */
+export interface FxRevaluationLine {
+  accountId: string
+  accountNumber: string | null
+  accountName: string
+  accountType: AccountType
+  currencyCode: string
+  foreignBalance: number
+  exchangeRate: number
+  bookBalance: number
+  revaluedBalance: number
+  adjustment: number
+}
+
+/**
+ * Preview of the unrealized FX gain/loss entry a revaluation would post
+ * A positive totalGainLoss is a gain
+ */
+export interface FxRevaluationPreview {
+  revaluationDate: Date
+  baseCurrency: string
+  gainLossAccount: ChartOfAccount
+  lines: FxRevaluationLine[]
+  totalGainLoss: number
+}
+
+/**
+ * Result of posting an FX revaluation
+ */
+export interface FxRevaluationResult {
+  preview: FxRevaluationPreview
+  entry: JournalEntry
+}
+
+/**
+ * Scheduled FX revaluation job data
+ */
+export interface FxRevaluationJobData {
+  tenantId: string
+  schemaName: string
+  revaluationDate: string
+}
+
+/**
+ * Scheduled FX revaluation job result
+ * entryId is null when there was nothing to revalue
+ */
+export interface FxRevaluationJobResult {
+  revaluationDate: string
+  entryId: string | null
+}
+
+/**
+ * Scheduled FX revaluation scan job result
+ */
+export interface FxRevaluationScanResult {
+  tenants: number
+  queued: number
+}
@@ -0,0 +1,94 @@
+/**
+ * Customer Payment Types
+ * TypeScript type definitions for customer payments, their allocations to
+ * open receivable lines and payment settings
+ */
+
+import type {
+  CustomerPayment,
+  CustomerPaymentStatus,
+} from '@models/CustomerPayment'
+
+/**
+ * Filter parameters for listing customer payments
+ */
+export interface CustomerPaymentFilters {
+  status?: CustomerPaymentStatus | undefined
+  contactId?: string | undefined
+  bankAccountId?: string | undefined
+  startDate?: string | undefined
+  endDate?: string | undefined
+  search?: string | undefined
+  page: number
+  limit: number
+  sort?: string | undefined
+  order?: 'asc' | 'desc' | undefined
+}
+
+/**
+ * Result type for customer payments list query
+ */
+export interface CustomerPaymentListResult {
+  payments: CustomerPayment[]
+  total: number
+}
+
+/**
+ * Open accounts receivable journal line of a customer
+ * openAmount is the debit less the allocations of payments that were not
+ * unmatched
+ */
+export interface OpenReceivableItem {
+  journalEntryLineId: string
+  journalEntryId: string
+  entryNumber: string | null
+  entryDate: Date
+  reference: string | null
+  description: string | null
+  invoiceId: string | null
+  invoiceNumber: string | null
+  dueDate: Date | null
+  amount: number
+  allocatedAmount: number
+  openAmount: number
+}
+
+/**
+ * Amount of a payment applied to an open receivable line
+ */
+export interface CustomerPaymentAllocationData {
+  journalEntryLineId: string
+  amount: number
+}
+
+/**
+ * Data for recording a customer payment
+ * The part of the amount not allocated is held as credit on the customer, or
+ * as unapplied cash when no customer is given
+ */
+export interface CreateCustomerPaymentData {
+  contactId?: string | null | undefined
+  bankAccountId: string
+  paymentDate: string
+  amount: number
+  paymentMethod?: string | null | undefined
+  reference?: string | null | undefined
+  memo?: string | null | undefined
+  allocations?: CustomerPaymentAllocationData[] | undefined
+}
+
+/**
+ * Data for unmatching a customer payment
+ * The reversing entry is dated unmatchDate, or today
+ */
+export interface UnmatchCustomerPaymentData {
+  reason?: string | undefined
+  unmatchDate?: string | undefined
+}
+
+/**
+ * Data for updating customer payment settings
+ */
+export interface UpdateCustomerPaymentSettingsData {
+  unappliedAccountId?: string | null | undefined
+}
@@ -0,0 +1,154 @@
+/**
+ * Document Types
+ * TypeScript type definitions for documents, their storage, virus scanning
+ * and attachments to other records
+ */
+
+import type { Readable } from 'node:stream'
+
+import type { Document, DocumentCategory } from '@models/Document'
+import type { DocumentAttachmentEntityType } from '@models/DocumentAttachment'
+
+/**
+ * Filter parameters for listing documents
+ * entityType and entityId together list the documents attached to a record
+ */
+export interface DocumentFilters {
+  category?: DocumentCategory | undefined
+  tag?: string | undefined
+  entityType?: DocumentAttachmentEntityType | undefined
+  entityId?: string | undefined
+  search?: string | undefined
+  page: number
+  limit: number
+  sort?: string | undefined
+  order?: 'asc' | 'desc' | undefined
+}
+
+/**
+ * Result type for documents list query
+ */
+export interface DocumentListResult {
+  documents: Document[]
+  total: number
+}
+
+/**
+ * File received by an upload
+ */
+export interface UploadedDocumentFile {
+  originalName: string
+  mimeType: string
+  size: number
+  buffer: Buffer
+}
+
+/**
+ * Data for uploading a document
+ * entityType and entityId attach the document to a record on upload
+ */
+export interface UploadDocumentData {
+  category?: DocumentCategory | undefined
+  tags?: string[] | undefined
+  description?: string | null | undefined
+  entityType?: DocumentAttachmentEntityType | undefined
+  entityId?: string | undefined
+}
+
+/**
+ * Data for updating a document
+ */
+export interface UpdateDocumentData {
+  name?: string | undefined
+  category?: DocumentCategory | undefined
+  tags?: string[] | undefined
+  description?: string | null | undefined
+}
+
+/**
+ * Data for attaching a document to a record
+ */
+export interface AttachDocumentData {
+  entityType: DocumentAttachmentEntityType
+  entityId: string
+}
+
+/**
+ * Data for updating document settings
+ * A null quota uses the default quota
+ */
+export interface UpdateDocumentSettingsData {
+  quotaMb?: number | null | undefined
+}
+
+/**
+ * Storage used by a tenant against its quota
+ */
+export interface DocumentStorageUsage {
+  usedBytes: number
+  quotaBytes: number
+  availableBytes: number
+  documentCount: number
+}
+
+/**
+ * Signed download link of a document
+ */
+export interface DocumentDownloadUrl {
+  url: string
+  expiresAt: Date
+}
+
+/**
+ * Payload of a signed document download token
+ */
+export interface DocumentDownloadTokenPayload {
+  tenantId: string
+  documentId: string
+  iat?: number
+  exp?: number
+}
+
+/**
+ * Storage driver documents are written to and read from
+ * getSignedUrl is optional; drivers without it are served through the
+ * download endpoint with a signed token
+ */
+export interface DocumentStorage {
+  putObject(key: string, body: Buffer, mimeType: string): Promise<void>
+  getObjectStream(key: string): Promise<Readable>
+  deleteObject(key: string): Promise<void>
+  getSignedUrl?(
+    key: string,
+    fileName: string,
+    expiresInSeconds: number
+  ): Promise<string>
+}
+
+/**
+ * File passed to virus scanners
+ */
+export interface DocumentScanInput {
+  tenantId: string
+  fileName: string
+  mimeType: string
+  buffer: Buffer
+}
+
+/**
+ * Verdict of a virus scanner
+ * reason is reported to the uploader when the file is infected
+ */
+export interface DocumentScanResult {
+  infected: boolean
+  reason?: string | undefined
+}
+
+/**
+ * Virus scanner hook
+ * Scanners run on every upload before the file is stored
+ */
+export interface DocumentScanner {
+  name: string
+  scan(input: DocumentScanInput): Promise<DocumentScanResult>
+}
@@ -0,0 +1,61 @@
+/**
+ * Fiscal Year Types
+ * TypeScript type definitions for fiscal years and fiscal periods
+ */
+
+import type { AccountType, ChartOfAccount } from '@models/ChartOfAccount'
+import type { FiscalPeriod, FiscalPeriodStatus } from '@models/FiscalPeriod'
+import type { FiscalYear } from '@models/FiscalYear'
+import type { JournalEntry } from '@models/JournalEntry'
+
+/**
+ * Result type for fiscal years list query
+ */
+export interface FiscalYearListResult {
+  fiscalYears: FiscalYear[]
+  total: number
+}
+
+/**
+ * Result of closing or reopening a fiscal period
+ * Keeps the previous status for the audit trail
+ */
+export interface FiscalPeriodStatusChange {
+  period: FiscalPeriod
+  previousStatus: FiscalPeriodStatus
+}
+
+/**
+ * Revenue or expense account line of a year-end closing entry
+ * Debit and credit are the amounts that bring the account balance to zero
+ */
+export interface YearEndClosingLine {
+  accountId: string
+  accountNumber: string | null
+  accountName: string
+  accountType: AccountType
+  balance: number
+  debit: number
+  credit: number
+}
+
+/**
+ * Preview of the closing entry a year-end close would post
+ */
+export interface YearEndClosingPreview {
+  fiscalYear: FiscalYear
+  closingDate: Date
+  retainedEarningsAccount: ChartOfAccount
+  lines: YearEndClosingLine[]
+  totalRevenue: number
+  totalExpenses: number
+  netIncome: number
+}
+
+/**
+ * Result of closing a fiscal year or reversing its closing entry
+ */
+export interface YearEndCloseResult {
+  fiscalYear: FiscalYear
+  entry: JournalEntry
+}
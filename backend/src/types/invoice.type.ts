@@ -0,0 +1,91 @@
+/**
+ * Invoice Types
+ * TypeScript type definitions for customer invoices and invoice settings
+ */
+
+import type { Invoice, InvoiceStatus } from '@models/Invoice'
+
+/**
+ * Filter parameters for listing invoices
+ */
+export interface InvoiceFilters {
+  status?: InvoiceStatus | undefined
+  contactId?: string | undefined
+  startDate?: string | undefined
+  endDate?: string | undefined
+  search?: string | undefined
+  page: number
+  limit: number
+  sort?: string | undefined
+  order?: 'asc' | 'desc' | undefined
+}
+
+/**
+ * Result type for invoices list query
+ */
+export interface InvoiceListResult {
+  invoices: Invoice[]
+  total: number
+}
+
+/**
+ * Line item of an invoice
+ * accountId defaults to the customer's income account. taxGroupId defaults to
+ * the customer's tax group when omitted; null means the line is not taxed.
+ */
+export interface InvoiceLineData {
+  description: string
+  quantity: number
+  unitPrice: number
+  accountId?: string | undefined
+  taxGroupId?: string | null | undefined
+}
+
+/**
+ * Data for creating an invoice
+ * The due date defaults to the issue date plus the customer's payment terms
+ */
+export interface CreateInvoiceData {
+  contactId: string
+  invoiceNumber?: string | undefined
+  issueDate: string
+  dueDate?: string | undefined
+  reference?: string | null | undefined
+  memo?: string | null | undefined
+  notes?: string | null | undefined
+  lines: InvoiceLineData[]
+}
+
+/**
+ * Data for updating a draft invoice
+ */
+export interface UpdateInvoiceData {
+  contactId?: string | undefined
+  invoiceNumber?: string | undefined
+  issueDate?: string | undefined
+  dueDate?: string | undefined
+  reference?: string | null | undefined
+  memo?: string | null | undefined
+  notes?: string | null | undefined
+  lines?: InvoiceLineData[] | undefined
+}
+
+/**
+ * Data for voiding an invoice
+ * The reversing entry is dated voidDate, or today
+ */
+export interface VoidInvoiceData {
+  reason?: string | undefined
+  voidDate?: string | undefined
+}
+
+/**
+ * Data for updating invoice settings
+ */
+export interface UpdateInvoiceSettingsData {
+  numberPrefix?: string | undefined
+  nextNumber?: number | undefined
+  numberPadding?: number | undefined
+  receivableAccountId?: string | null | undefined
+  taxAccountId?: string | null | undefined
+}
@@ -0,0 +1,83 @@
+/**
+ * Journal Approval Types
+ * TypeScript type definitions for the journal entry approval workflow
+ */
+
+import type { JournalApprovalRule } from '@models/JournalApprovalRule'
+import type { JournalEntry } from '@models/JournalEntry'
+import type { JournalEntryApprovalAction } from '@models/JournalEntryApprovalAction'
+import type { JournalEntryApprovalStep } from '@models/JournalEntryApprovalStep'
+
+/**
+ * Filter parameters for listing approval rules
+ */
+export interface ApprovalRuleFilters {
+  isActive?: boolean | undefined
+  page: number
+  limit: number
+}
+
+/**
+ * Result type for approval rules list query
+ */
+export interface ApprovalRuleListResult {
+  rules: JournalApprovalRule[]
+  total: number
+}
+
+/**
+ * Data for creating an approval rule
+ */
+export interface CreateApprovalRuleData {
+  name: string
+  description?: string | undefined
+  minAmount?: number | null | undefined
+  accountIds?: string[] | undefined
+  requiredRole: string
+  requiredApprovals?: number | undefined
+  stepOrder?: number | undefined
+  isActive?: boolean | undefined
+}
+
+/**
+ * Data for updating an approval rule
+ * Changes only apply to entries submitted afterwards
+ */
+export interface UpdateApprovalRuleData {
+  name?: string | undefined
+  description?: string | null | undefined
+  minAmount?: number | null | undefined
+  accountIds?: string[] | undefined
+  requiredRole?: string | undefined
+  requiredApprovals?: number | undefined
+  stepOrder?: number | undefined
+  isActive?: boolean | undefined
+}
+
+/**
+ * User acting on an entry in the approval workflow
+ */
+export interface ApprovalActor {
+  id: string
+  role: string
+}
+
+/**
+ * Approval steps and action history of a journal entry
+ */
+export interface JournalEntryApprovalHistory {
+  entry: JournalEntry
+  steps: JournalEntryApprovalStep[]
+  actions: JournalEntryApprovalAction[]
+}
+
+/**
+ * Result type for the "pending my approval" queue
+ */
+export interface PendingApprovalListResult {
+  items: {
+    entry: JournalEntry
+    step: JournalEntryApprovalStep
+  }[]
+  total: number
+}
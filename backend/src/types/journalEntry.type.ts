@@ -3,6 +3,8 @@
  * TypeScript type definitions for Journal Entries
  */
 
+import type { CsvDateFormat } from '@/types/bankTransaction.type'
+import type { MakeRecurringData } from '@/types/recurringJournal.type'
 import type {
   JournalEntry,
   JournalEntryStatus,
@@ -11,12 +13,16 @@ import type {
 
 /**
  * Input type for creating a journal entry line
+ * Amounts are in the currency of the line's account; the exchange rate
+ * defaults to the rate in effect on the entry date
  */
 export interface CreateJournalEntryLineInput {
   accountId: string
   lineNumber: number
   debit?: number
   credit?: number
+  currencyCode?: string
+  exchangeRate?: number
   description?: string
   memo?: string
   contactId?: string
@@ -97,11 +103,11 @@ export interface JournalEntryListResult {
 }
 
 /**
- * Input type for posting a journal entry
+ * Options for posting a journal entry
  */
-export interface PostJournalEntryInput {
-  approved?: boolean
-  approvedBy?: string
+export interface PostJournalEntryOptions {
+  // Post without checking the approval rules (system-generated entries)
+  skipApproval?: boolean
 }
 
 /**
@@ -124,6 +130,7 @@ export interface ReverseJournalEntryInput {
 export interface DuplicateJournalEntryInput {
   entryDate?: string | Date
   entryNumber?: string
+  recurring?: MakeRecurringData
 }
 
 /**
@@ -149,13 +156,183 @@ export interface CreateJournalEntryData {
 
 /**
  * Data type for creating journal entry line (internal use)
+ * debit/credit are base currency amounts
  */
 export interface CreateJournalEntryLineData {
   accountId: string
   lineNumber: number
   debit: number
   credit: number
+  currencyCode?: string | null
+  exchangeRate?: number | null
+  foreignDebit?: number | null
+  foreignCredit?: number | null
   description?: string | null
   memo?: string | null
   contactId?: string | null
 }
+
+/**
+ * Scheduled reversal status
+ * upcoming: waiting for its reversal date or the next scan
+ * failed: the worker gave up after its last retry
+ */
+export type ScheduledReversalStatus = 'upcoming' | 'failed'
+
+/**
+ * Filter parameters for listing scheduled reversals
+ */
+export interface ScheduledReversalFilters {
+  status: ScheduledReversalStatus
+  page: number
+  limit: number
+}
+
+/**
+ * Result type for scheduled reversals list query
+ */
+export interface ScheduledReversalListResult {
+  entries: JournalEntry[]
+  total: number
+}
+
+/**
+ * Scheduled reversal job data
+ */
+export interface ReversalJobData {
+  tenantId: string
+  schemaName: string
+  journalEntryId: string
+}
+
+/**
+ * Scheduled reversal job result
+ */
+export interface ReversalJobResult {
+  journalEntryId: string
+  reversingEntryId: string
+  actingAs: string
+}
+
+/**
+ * Scheduled reversal scan job result
+ */
+export interface ReversalScanResult {
+  tenants: number
+  queued: number
+}
+
+/**
+ * Import fields of a journal entries file
+ */
+export type JournalEntryImportField =
+  | 'entryNumber'
+  | 'entryDate'
+  | 'accountNumber'
+  | 'debit'
+  | 'credit'
+  | 'description'
+  | 'reference'
+  | 'memo'
+
+/**
+ * Column mapping of a journal entries file
+ * Header name per import field
+ */
+export interface JournalEntryImportMapping {
+  entryNumber?: string | undefined
+  entryDate: string
+  accountNumber: string
+  debit: string
+  credit: string
+  description?: string | undefined
+  reference?: string | undefined
+  memo?: string | undefined
+}
+
+/**
+ * Row of a journal entries file that could not be imported
+ * Row 1 is the header row
+ */
+export interface JournalEntryImportError {
+  row: number
+  message: string
+}
+
+/**
+ * Line read from a row of a journal entries file
+ */
+export interface ParsedJournalEntryImportLine {
+  row: number
+  accountNumber: string
+  debit: number
+  credit: number
+  description: string | null
+}
+
+/**
+ * Entry read from a journal entries file
+ * Rows are grouped by entry number, or by date when they have none
+ */
+export interface ParsedJournalEntryImportEntry {
+  rows: number[]
+  entryNumber: string | null
+  entryDate: string
+  reference: string | null
+  memo: string | null
+  lines: ParsedJournalEntryImportLine[]
+}
+
+/**
+ * Entries and errors read from a journal entries file
+ * Entries with an erroneous row are left out
+ */
+export interface ParsedJournalEntryFile {
+  entries: ParsedJournalEntryImportEntry[]
+  errors: JournalEntryImportError[]
+  totalRows: number
+  totalEntries: number
+}
+
+/**
+ * Data for importing a journal entries file
+ */
+export interface ImportJournalEntriesData {
+  fileName: string
+  buffer: Buffer
+  mapping?: JournalEntryImportMapping | undefined
+  dateFormat: CsvDateFormat
+  status: JournalEntryStatus.DRAFT | JournalEntryStatus.POSTED
+  allOrNothing: boolean
+  dryRun: boolean
+}
+
+/**
+ * Entry created (or, in a dry run, that would be created) by an import
+ */
+export interface JournalEntryImportEntry {
+  rows: number[]
+  id: string | null
+  entryNumber: string | null
+  entryDate: string
+  status: JournalEntryStatus
+  totalDebit: number
+  totalCredit: number
+  lineCount: number
+}
+
+/**
+ * Result of a journal entries import
+ * imported is true when the entries were committed; without all-or-nothing
+ * the entries without errors are committed and the others reported
+ */
+export interface JournalEntryImportResult {
+  dryRun: boolean
+  allOrNothing: boolean
+  imported: boolean
+  totalRows: number
+  totalEntries: number
+  validEntries: number
+  errors: JournalEntryImportError[]
+  entries: JournalEntryImportEntry[]
+}
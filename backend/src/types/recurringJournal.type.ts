@@ -0,0 +1,157 @@
+/**
+ * Recurring Journal Types
+ * TypeScript type definitions for recurring journal entry templates
+ */
+
+import type { JournalEntry, JournalEntryType } from '@models/JournalEntry'
+import type {
+  RecurringFrequency,
+  RecurringJournalTemplate,
+  RecurringTemplateStatus,
+} from '@models/RecurringJournalTemplate'
+
+/**
+ * Schedule of a recurring template
+ */
+export interface RecurringSchedule {
+  frequency: RecurringFrequency
+  interval: number
+  startDate: Date
+  endDate?: Date | null
+  maxOccurrences?: number | null
+}
+
+/**
+ * Filter parameters for listing recurring templates
+ */
+export interface RecurringTemplateFilters {
+  status?: RecurringTemplateStatus | undefined
+  search?: string | undefined
+  page: number
+  limit: number
+}
+
+/**
+ * Result type for recurring templates list query
+ */
+export interface RecurringTemplateListResult {
+  templates: RecurringJournalTemplate[]
+  total: number
+}
+
+/**
+ * Result type for the generated entries of a template
+ */
+export interface RecurringTemplateEntriesResult {
+  entries: JournalEntry[]
+  total: number
+}
+
+/**
+ * Recurring journal job data
+ */
+export interface RecurringJobData {
+  tenantId: string
+  schemaName: string
+  templateId: string
+}
+
+/**
+ * Recurring journal job result
+ */
+export interface RecurringJobResult {
+  templateId: string
+  entryIds: string[]
+}
+
+/**
+ * Recurring journal scan job result
+ */
+export interface RecurringScanResult {
+  tenants: number
+  queued: number
+}
+
+/**
+ * Line data of a recurring template
+ */
+export interface RecurringTemplateLineData {
+  accountId: string
+  lineNumber: number
+  debit: number
+  credit: number
+  description?: string | null | undefined
+  memo?: string | null | undefined
+  contactId?: string | null | undefined
+}
+
+/**
+ * Data type for creating a recurring template
+ */
+export interface CreateRecurringTemplateData {
+  name: string
+  entryType: JournalEntryType
+  isAdjusting: boolean
+  description?: string | null | undefined
+  reference?: string | null | undefined
+  memo?: string | null | undefined
+  frequency: RecurringFrequency
+  interval: number
+  startDate: string | Date
+  endDate?: string | Date | null | undefined
+  maxOccurrences?: number | null | undefined
+  autoPost: boolean
+  lines: RecurringTemplateLineData[]
+}
+
+/**
+ * Data type for updating a recurring template
+ */
+export interface UpdateRecurringTemplateData {
+  name?: string | undefined
+  entryType?: JournalEntryType | undefined
+  isAdjusting?: boolean | undefined
+  description?: string | null | undefined
+  reference?: string | null | undefined
+  memo?: string | null | undefined
+  frequency?: RecurringFrequency | undefined
+  interval?: number | undefined
+  startDate?: string | Date | undefined
+  endDate?: string | Date | null | undefined
+  maxOccurrences?: number | null | undefined
+  autoPost?: boolean | undefined
+  status?:
+    | RecurringTemplateStatus.ACTIVE
+    | RecurringTemplateStatus.PAUSED
+    | undefined
+  lines?: RecurringTemplateLineData[] | undefined
+}
+
+/**
+ * Schedule options of the duplicate journal entry "make recurring" option
+ */
+export interface MakeRecurringData {
+  name?: string | undefined
+  frequency: RecurringFrequency
+  interval: number
+  startDate: string | Date
+  endDate?: string | Date | null | undefined
+  maxOccurrences?: number | null | undefined
+  autoPost: boolean
+}
+
+/**
+ * Result of generating one occurrence of a recurring template
+ */
+export interface RecurringOccurrenceResult {
+  template: RecurringJournalTemplate
+  entry: JournalEntry
+}
+
+/**
+ * Result of duplicating a journal entry with the "make recurring" option
+ */
+export interface DuplicateAsRecurringResult {
+  entry: JournalEntry
+  template: RecurringJournalTemplate
+}
@@ -0,0 +1,540 @@
+/**
+ * Report Types
+ * TypeScript type definitions for financial reports
+ */
+
+import type { BudgetMonth } from '@/types/budget.type'
+import type { AccountType } from '@models/ChartOfAccount'
+
+/**
+ * Options for aggregating posted journal entry lines per account
+ */
+export interface PostedLineTotalsOptions {
+  startDate?: Date
+  endDate: Date
+  includeClosingEntries?: boolean
+}
+
+/**
+ * Debit and credit totals of posted journal entry lines for one account
+ */
+export interface AccountLineTotals {
+  accountId: string
+  debit: number
+  credit: number
+  lineCount: number
+}
+
+/**
+ * Filter parameters for the trial balance report
+ */
+export interface TrialBalanceFilters {
+  asOf?: string | undefined
+  hideZeroBalances?: boolean | undefined
+  includeClosingEntries?: boolean | undefined
+}
+
+/**
+ * A single account row in the trial balance
+ */
+export interface TrialBalanceAccountRow {
+  accountId: string
+  accountNumber: string | null
+  accountName: string
+  accountType: AccountType
+  accountSubtype: string | null
+  parentAccountId: string | null
+  totalDebit: number
+  totalCredit: number
+  debitBalance: number
+  creditBalance: number
+}
+
+/**
+ * Accounts of a single subtype within a trial balance group
+ */
+export interface TrialBalanceSubtypeGroup {
+  accountSubtype: string | null
+  accounts: TrialBalanceAccountRow[]
+  debitBalance: number
+  creditBalance: number
+}
+
+/**
+ * Accounts of a single account type in the trial balance
+ */
+export interface TrialBalanceGroup {
+  accountType: AccountType
+  subtypes: TrialBalanceSubtypeGroup[]
+  debitBalance: number
+  creditBalance: number
+}
+
+/**
+ * Trial balance report result
+ */
+export interface TrialBalanceReport {
+  asOf: string
+  groups: TrialBalanceGroup[]
+  totals: {
+    totalDebit: number
+    totalCredit: number
+    debitBalance: number
+    creditBalance: number
+    difference: number
+    isBalanced: boolean
+  }
+}
+
+/**
+ * Filter parameters for the balance sheet report
+ */
+export interface BalanceSheetFilters {
+  asOf?: string | undefined
+  hideZeroBalances?: boolean | undefined
+  includeClosingEntries?: boolean | undefined
+}
+
+/**
+ * Account node in a report hierarchy
+ * Balance is the account's own natural balance; total includes all sub-accounts
+ */
+export interface ReportAccountNode {
+  accountId: string
+  accountNumber: string | null
+  accountName: string
+  accountType: AccountType
+  accountSubtype: string | null
+  balance: number
+  total: number
+  children: ReportAccountNode[]
+}
+
+/**
+ * Top-level accounts of a single subtype within a report section
+ */
+export interface ReportSubtypeSection {
+  accountSubtype: string | null
+  accounts: ReportAccountNode[]
+  total: number
+}
+
+/**
+ * Report section for a single account type
+ */
+export interface ReportSection {
+  accountType: AccountType
+  subtypes: ReportSubtypeSection[]
+  total: number
+}
+
+/**
+ * Balance sheet report result
+ */
+export interface BalanceSheetReport {
+  asOf: string
+  fiscalYearStart: string
+  assets: ReportSection
+  liabilities: ReportSection
+  equity: ReportSection & {
+    priorYearsEarnings: number
+    currentYearEarnings: number
+    totalWithEarnings: number
+  }
+  totals: {
+    totalAssets: number
+    totalLiabilities: number
+    totalEquity: number
+    totalLiabilitiesAndEquity: number
+    difference: number
+    isBalanced: boolean
+  }
+}
+
+/**
+ * Comparison column options for the income statement
+ */
+export type IncomeStatementComparison = 'previous_period' | 'previous_year'
+
+/**
+ * Filter parameters for the income statement report
+ */
+export interface IncomeStatementFilters {
+  startDate?: string | undefined
+  endDate?: string | undefined
+  compareTo?: IncomeStatementComparison | undefined
+  hideZeroBalances?: boolean | undefined
+  includeClosingEntries?: boolean | undefined
+}
+
+/**
+ * Date range covered by a report column
+ */
+export interface ReportPeriod {
+  startDate: string
+  endDate: string
+}
+
+/**
+ * Amount in the income statement with optional comparison column
+ * Comparison fields are null when no comparison was requested;
+ * changePercent is also null when the comparison amount is zero
+ */
+export interface IncomeStatementAmount {
+  current: number
+  comparison: number | null
+  change: number | null
+  changePercent: number | null
+}
+
+/**
+ * A single account row in the income statement
+ */
+export interface IncomeStatementAccountRow {
+  accountId: string
+  accountNumber: string | null
+  accountName: string
+  parentAccountId: string | null
+  amount: IncomeStatementAmount
+}
+
+/**
+ * Section keys of the income statement
+ */
+export type IncomeStatementSectionKey =
+  | 'operatingRevenue'
+  | 'costOfGoodsSold'
+  | 'operatingExpenses'
+  | 'otherRevenue'
+  | 'otherExpenses'
+
+/**
+ * Accounts of one income statement section
+ */
+export interface IncomeStatementSection {
+  key: IncomeStatementSectionKey
+  accountType: AccountType
+  accounts: IncomeStatementAccountRow[]
+  total: IncomeStatementAmount
+}
+
+/**
+ * Income statement report result
+ */
+export interface IncomeStatementReport {
+  period: ReportPeriod
+  comparisonPeriod: ReportPeriod | null
+  compareTo: IncomeStatementComparison | null
+  sections: IncomeStatementSection[]
+  totals: {
+    totalRevenue: IncomeStatementAmount
+    totalExpenses: IncomeStatementAmount
+    grossProfit: IncomeStatementAmount
+    operatingIncome: IncomeStatementAmount
+    netIncome: IncomeStatementAmount
+  }
+}
+
+/**
+ * Filter parameters for the cash flow statement
+ */
+export interface CashFlowFilters {
+  startDate?: string | undefined
+  endDate?: string | undefined
+  hideZeroBalances?: boolean | undefined
+  includeClosingEntries?: boolean | undefined
+}
+
+/**
+ * Cash flow activity categories
+ */
+export type CashFlowActivity = 'operating' | 'investing' | 'financing'
+
+/**
+ * Cash effect of the change in one balance sheet account over the period
+ * Positive amounts are cash inflows, negative amounts are cash outflows
+ */
+export interface CashFlowLine {
+  accountId: string
+  accountNumber: string | null
+  accountName: string
+  accountType: AccountType
+  accountSubtype: string | null
+  amount: number
+}
+
+/**
+ * Lines of one cash flow activity
+ */
+export interface CashFlowSection {
+  activity: CashFlowActivity
+  lines: CashFlowLine[]
+  total: number
+}
+
+/**
+ * Opening and closing balance of one cash account
+ */
+export interface CashAccountBalance {
+  accountId: string
+  accountNumber: string | null
+  accountName: string
+  bankAccountId: string
+  openingBalance: number
+  closingBalance: number
+}
+
+/**
+ * Cash flow statement report result (indirect method)
+ */
+export interface CashFlowReport {
+  period: ReportPeriod
+  operating: CashFlowSection & { netIncome: number; adjustments: number }
+  investing: CashFlowSection
+  financing: CashFlowSection
+  cashAccounts: CashAccountBalance[]
+  totals: {
+    netCashFromOperating: number
+    netCashFromInvesting: number
+    netCashFromFinancing: number
+    netChangeInCash: number
+    openingCash: number
+    closingCash: number
+    difference: number
+    isReconciled: boolean
+  }
+}
+
+/**
+ * Filter parameters for the general ledger summary
+ */
+export interface GeneralLedgerFilters {
+  startDate?: string | undefined
+  endDate?: string | undefined
+  accountType?: string | undefined
+  hideZeroBalances?: boolean | undefined
+  includeClosingEntries?: boolean | undefined
+}
+
+/**
+ * Filter parameters for the movements of one general ledger account
+ */
+export interface GeneralLedgerAccountFilters {
+  startDate?: string | undefined
+  endDate?: string | undefined
+  page: number
+  limit: number
+  includeClosingEntries?: boolean | undefined
+}
+
+/**
+ * Period summary of one account in the general ledger
+ */
+export interface GeneralLedgerAccountSummary {
+  accountId: string
+  accountNumber: string | null
+  accountName: string
+  accountType: AccountType
+  accountSubtype: string | null
+  openingBalance: number
+  totalDebit: number
+  totalCredit: number
+  closingBalance: number
+  movementCount: number
+}
+
+/**
+ * General ledger summary result
+ */
+export interface GeneralLedgerReport {
+  period: ReportPeriod
+  accounts: GeneralLedgerAccountSummary[]
+  totals: {
+    totalDebit: number
+    totalCredit: number
+  }
+}
+
+/**
+ * A single posted journal entry line in an account's ledger
+ */
+export interface GeneralLedgerMovement {
+  journalEntryId: string
+  journalEntryLineId: string
+  entryNumber: string | null
+  entryDate: string
+  entryType: string
+  reference: string | null
+  description: string | null
+  memo: string | null
+  contactId: string | null
+  sourceModule: string | null
+  debit: number
+  credit: number
+  runningBalance: number
+}
+
+/**
+ * Ledger of one account with paginated movements
+ */
+export interface GeneralLedgerAccountResult {
+  period: ReportPeriod
+  account: GeneralLedgerAccountSummary
+  movements: GeneralLedgerMovement[]
+  total: number
+}
+
+/**
+ * Control account aged by the aging reports
+ */
+export type AgingReportType = 'receivable' | 'payable'
+
+/**
+ * Summary mode lists bucket totals per contact; detail mode adds open items
+ */
+export type AgingReportMode = 'summary' | 'detail'
+
+/**
+ * Aging buckets by days past due
+ */
+export type AgingBucket =
+  | 'current'
+  | 'days1To30'
+  | 'days31To60'
+  | 'days61To90'
+  | 'over90'
+
+/**
+ * Filter parameters for the aging reports
+ */
+export interface AgingReportFilters {
+  asOf?: string | undefined
+  mode?: AgingReportMode | undefined
+  contactId?: string | undefined
+}
+
+/**
+ * Open amounts per aging bucket
+ */
+export type AgingBucketAmounts = Record<AgingBucket, number> & {
+  total: number
+}
+
+/**
+ * Open item of a contact on the control account
+ * Unapplied credits (payments and credits not matched to a charge) have a
+ * negative open amount and are aged from their entry date
+ */
+export interface AgingReportItem {
+  journalEntryId: string
+  journalEntryLineId: string
+  entryNumber: string | null
+  entryDate: string
+  dueDate: string
+  documentNumber: string | null
+  description: string | null
+  originalAmount: number
+  openAmount: number
+  daysPastDue: number
+  bucket: AgingBucket
+}
+
+/**
+ * Aged open balance of one contact
+ * Lines without a contact are reported under a null contact ID
+ */
+export interface AgingReportContactRow {
+  contactId: string | null
+  displayName: string
+  buckets: AgingBucketAmounts
+  items?: AgingReportItem[]
+}
+
+/**
+ * Aging report result
+ */
+export interface AgingReport {
+  reportType: AgingReportType
+  mode: AgingReportMode
+  asOf: string
+  account: {
+    accountId: string
+    accountNumber: string | null
+    accountName: string
+  }
+  contacts: AgingReportContactRow[]
+  totals: AgingBucketAmounts
+}
+
+/**
+ * Filter parameters for the budget vs actual report
+ */
+export interface BudgetVsActualFilters {
+  budgetId: string
+}
+
+/**
+ * Budgeted and actual amount for a month or the whole budget
+ * Variance is actual minus budget; variancePercent is null when nothing was
+ * budgeted
+ */
+export interface BudgetVsActualAmount {
+  budget: number
+  actual: number
+  variance: number
+  variancePercent: number | null
+}
+
+/**
+ * Budgeted and actual amounts of one revenue or expense account
+ */
+export interface BudgetVsActualAccountRow {
+  accountId: string
+  accountNumber: string | null
+  accountName: string
+  accountType: AccountType
+  months: BudgetVsActualAmount[]
+  total: BudgetVsActualAmount
+}
+
+/**
+ * Revenue or expense accounts of the budget vs actual report
+ */
+export interface BudgetVsActualSection {
+  accountType: AccountType
+  accounts: BudgetVsActualAccountRow[]
+  months: BudgetVsActualAmount[]
+  total: BudgetVsActualAmount
+}
+
+/**
+ * Net income and profit margin (net income over revenue, in percent) of a
+ * month or the whole budget
+ * Margins are null when there is no revenue
+ */
+export interface BudgetVsActualSummary {
+  netIncome: BudgetVsActualAmount
+  budgetProfitMargin: number | null
+  actualProfitMargin: number | null
+}
+
+/**
+ * Budget vs actual report result
+ * Actuals are the posted lines of each month, without year-end closing
+ * entries
+ */
+export interface BudgetVsActualReport {
+  budget: {
+    id: string
+    name: string
+    fiscalYearId: string
+    fiscalYearName: string
+  }
+  period: ReportPeriod
+  months: BudgetMonth[]
+  sections: BudgetVsActualSection[]
+  summary: {
+    months: BudgetVsActualSummary[]
+    total: BudgetVsActualSummary
+  }
+}
@@ -0,0 +1,154 @@
+import type {
+  BankCategorizationHistoryItem,
+  BankRuleMatchInput,
+  BankTransactionSuggestion,
+} from '@/types/bankRule.type'
+import type { BankCategorizationRule } from '@models/BankCategorizationRule'
+
+/**
+ * Words of the counterparty kept to recognise similar transactions
+ */
+const COUNTERPARTY_KEY_WORDS = 3
+
+/**
+ * Highest confidence of a suggestion learned from history, so rules (100)
+ * always rank above it
+ */
+const MAX_HISTORY_CONFIDENCE = 95
+
+/**
+ * Category accounts chosen for similar transactions, with how often each was
+ * chosen and the tax group it was last chosen with
+ */
+type CategoryTally = Map<string, { count: number; taxGroupId: string | null }>
+
+/**
+ * Categorized history grouped by counterparty key
+ */
+export type CategorizationHistory = Map<string, CategoryTally>
+
+/**
+ * Build the key grouping similar transactions
+ * Uses the first words of the payee (or description) without digits and
+ * punctuation, so "SHELL 1234 CALGARY 12/01" and "Shell #998 Calgary" match,
+ * and separates deposits from payments
+ * @returns The key, or null when the transaction has no usable text
+ */
+export const counterpartyKey = (
+  transaction: Pick<BankRuleMatchInput, 'amount' | 'description' | 'payee'>
+): string | null => {
+  const text = (transaction.payee ?? transaction.description ?? '')
+    .toLowerCase()
+    .replaceAll(/[^\p{L}]+/gu, ' ')
+  const words = text
+    .split(' ')
+    .filter((word) => word.length > 1)
+    .slice(0, COUNTERPARTY_KEY_WORDS)
+
+  if (words.length === 0) {
+    return null
+  }
+
+  const direction = Number(transaction.amount) > 0 ? 'in' : 'out'
+  return `${direction}:${words.join(' ')}`
+}
+
+/**
+ * Group categorized transactions by counterparty key
+ * @param items - Categorized transactions, most recent first
+ */
+export const buildCategorizationHistory = (
+  items: BankCategorizationHistoryItem[]
+): CategorizationHistory => {
+  const history: CategorizationHistory = new Map()
+
+  for (const item of items) {
+    const key = counterpartyKey(item)
+    if (!key || !item.categoryAccountId) {
+      continue
+    }
+
+    const tally: CategoryTally = history.get(key) ?? new Map()
+    const entry = tally.get(item.categoryAccountId)
+    tally.set(item.categoryAccountId, {
+      count: (entry?.count ?? 0) + 1,
+      // Items are most recent first, so the first tax group seen is the latest
+      taxGroupId: entry ? entry.taxGroupId : (item.taxGroupId ?? null),
+    })
+    history.set(key, tally)
+  }
+
+  return history
+}
+
+/**
+ * Suggest the category most often chosen for similar transactions
+ * Confidence grows with the share of similar transactions categorized to the
+ * account and with how many there are: one match scores 50, three agreeing
+ * matches 75, nine 90
+ */
+export const suggestFromHistory = (
+  history: CategorizationHistory,
+  transaction: BankRuleMatchInput
+): BankTransactionSuggestion | null => {
+  const key = counterpartyKey(transaction)
+  const tally = key ? history.get(key) : undefined
+  if (!tally) {
+    return null
+  }
+
+  let total = 0
+  let best: { categoryAccountId: string; count: number } | null = null
+  let bestTaxGroupId: string | null = null
+  for (const [categoryAccountId, entry] of tally) {
+    total += entry.count
+    if (!best || entry.count > best.count) {
+      best = { categoryAccountId, count: entry.count }
+      bestTaxGroupId = entry.taxGroupId
+    }
+  }
+  if (!best) {
+    return null
+  }
+
+  const share = best.count / total
+  const support = best.count / (best.count + 1)
+
+  return {
+    categoryAccountId: best.categoryAccountId,
+    taxGroupId: bestTaxGroupId,
+    source: 'history',
+    ruleId: null,
+    confidence: Math.min(
+      MAX_HISTORY_CONFIDENCE,
+      Math.round(share * support * 100)
+    ),
+    matchCount: best.count,
+  }
+}
+
+/**
+ * Suggest a category for a transaction
+ * The first matching rule wins; without one, the suggestion is learned from
+ * similar categorized transactions
+ * @param rules - Active rules in priority order
+ */
+export const suggestCategory = (
+  rules: BankCategorizationRule[],
+  history: CategorizationHistory,
+  transaction: BankRuleMatchInput
+): BankTransactionSuggestion | null => {
+  const rule = rules.find((candidate) => candidate.matches(transaction))
+  if (rule) {
+    return {
+      categoryAccountId: rule.categoryAccountId,
+      taxGroupId: rule.taxGroupId ?? null,
+      source: 'rule',
+      ruleId: rule.id,
+      confidence: 100,
+      matchCount: 0,
+    }
+  }
+
+  return suggestFromHistory(history, transaction)
+}
@@ -0,0 +1,532 @@
+/**
+ * Bank Statement Parser Utilities
+ * Reads CSV, OFX/QFX and CAMT.053 statement files into statement lines
+ */
+
+import { createHash } from 'crypto'
+
+import * as XLSX from 'xlsx'
+
+import type {
+  BankStatementImportError,
+  CsvDateFormat,
+  CsvStatementOptions,
+  CsvStatementPreview,
+  ParsedStatement,
+  ParsedStatementLine,
+} from '@/types/bankTransaction.type'
+
+/**
+ * Parsed XML element
+ * name is the local name, without any namespace prefix
+ */
+interface XmlNode {
+  name: string
+  children: XmlNode[]
+  text: string
+}
+
+const XML_ENTITIES = new Map<string, string>([
+  ['amp', '&'],
+  ['lt', '<'],
+  ['gt', '>'],
+  ['quot', '"'],
+  ['apos', "'"],
+])
+
+/**
+ * Decode the XML/SGML entities of a text value
+ */
+const decodeEntities = (value: string): string =>
+  value.replaceAll(/&(#x?[\da-f]+|\w+);/gi, (match, entity: string) => {
+    if (entity.startsWith('#x') || entity.startsWith('#X')) {
+      return String.fromCodePoint(parseInt(entity.slice(2), 16))
+    }
+    if (entity.startsWith('#')) {
+      return String.fromCodePoint(parseInt(entity.slice(1), 10))
+    }
+    return XML_ENTITIES.get(entity.toLowerCase()) ?? match
+  })
+
+/**
+ * Trim a text value, returning null when empty
+ */
+const toNullableText = (value: string | undefined | null): string | null => {
+  const trimmed = value?.replaceAll(/\s+/g, ' ').trim()
+  if (!trimmed) {
+    return null
+  }
+  return trimmed
+}
+
+/**
+ * Parse a statement amount
+ * Accepts currency symbols, thousands separators, a decimal comma, and
+ * negatives written with a minus sign or in parentheses
+ * @returns The amount, or null if the value is not a number
+ */
+export const parseStatementAmount = (value: string): number | null => {
+  const trimmed = value.trim()
+  if (!trimmed) {
+    return null
+  }
+
+  const isNegative =
+    trimmed.startsWith('-') ||
+    trimmed.endsWith('-') ||
+    (trimmed.startsWith('(') && trimmed.endsWith(')'))
+
+  let digits = trimmed.replaceAll(/[^\d,.]/g, '')
+  const lastComma = digits.lastIndexOf(',')
+  const lastDot = digits.lastIndexOf('.')
+  if (lastComma > lastDot && /,\d{1,2}$/.test(digits)) {
+    // Decimal comma, dots as thousands separators
+    digits = digits.replaceAll('.', '').replace(',', '.')
+  } else {
+    digits = digits.replaceAll(',', '')
+  }
+
+  // Number() rejects leftovers such as repeated dots
+  const amount = Number(digits)
+  if (!digits || Number.isNaN(amount)) {
+    return null
+  }
+
+  return isNegative ? -amount : amount
+}
+
+/**
+ * Format date parts as YYYY-MM-DD
+ * @returns The date, or null if the parts are not a calendar date
+ */
+const toDateString = (
+  year: number,
+  month: number,
+  day: number
+): string | null => {
+  const date = new Date(Date.UTC(year, month - 1, day))
+  if (
+    date.getUTCFullYear() !== year ||
+    date.getUTCMonth() !== month - 1 ||
+    date.getUTCDate() !== day
+  ) {
+    return null
+  }
+  return date.toISOString().slice(0, 10)
+}
+
+/**
+ * Parse a CSV statement date in the given format
+ * @returns The date as YYYY-MM-DD, or null if it does not match the format
+ */
+export const parseStatementDate = (
+  value: string,
+  format: CsvDateFormat
+): string | null => {
+  const trimmed = value.trim()
+
+  if (format === 'YYYY-MM-DD') {
+    const match = /^(\d{4})-(\d{1,2})-(\d{1,2})/.exec(trimmed)
+    return match
+      ? toDateString(Number(match[1]), Number(match[2]), Number(match[3]))
+      : null
+  }
+
+  const match = /^(\d{1,2})[./-](\d{1,2})[./-](\d{4})/.exec(trimmed)
+  if (!match) {
+    return null
+  }
+
+  const first = Number(match[1])
+  const second = Number(match[2])
+  const year = Number(match[3])
+  return format === 'MM/DD/YYYY'
+    ? toDateString(year, first, second)
+    : toDateString(year, second, first)
+}
+
+/**
+ * Read the rows of a CSV file as text
+ * The first row holds the headers
+ */
+const readCsvRows = (content: string): string[][] => {
+  const workbook = XLSX.read(content, { type: 'string', raw: true })
+  // A CSV file always parses to a single sheet
+  const [sheet] = Object.values(workbook.Sheets)
+  if (!sheet) {
+    return []
+  }
+
+  const rows = XLSX.utils.sheet_to_json<unknown[]>(sheet, {
+    header: 1,
+    defval: '',
+    raw: false,
+    blankrows: false,
+  })
+
+  return rows.map((row) => row.map((value) => String(value).trim()))
+}
+
+/**
+ * Read the headers and first rows of a CSV statement
+ * Used to map the columns before importing
+ * @param sampleSize - Number of rows after the header to return
+ */
+export const previewCsvStatement = (
+  content: string,
+  sampleSize = 5
+): CsvStatementPreview => {
+  const [headers = [], ...rows] = readCsvRows(content)
+  return { headers, rows: rows.slice(0, sampleSize) }
+}
+
+/**
+ * Parse a CSV statement with mapped columns
+ * Header names are matched case-insensitively. Amounts come from the signed
+ * amount column, or from the debit (money out) and credit (money in) columns.
+ */
+export const parseCsvStatement = (
+  content: string,
+  options: CsvStatementOptions
+): ParsedStatement => {
+  const [headerRow = [], ...rows] = readCsvRows(content)
+  const headers = headerRow.map((header) => header.toLowerCase())
+  const errors: BankStatementImportError[] = []
+  const lines: ParsedStatementLine[] = []
+
+  const columnIndex = (name: string | undefined): number =>
+    name ? headers.indexOf(name.trim().toLowerCase()) : -1
+
+  const { mapping } = options
+  const dateIndex = columnIndex(mapping.date)
+  const amountIndex = columnIndex(mapping.amount)
+  const debitIndex = columnIndex(mapping.debit)
+  const creditIndex = columnIndex(mapping.credit)
+  const descriptionIndex = columnIndex(mapping.description)
+  const payeeIndex = columnIndex(mapping.payee)
+  const referenceIndex = columnIndex(mapping.reference)
+  const fitidIndex = columnIndex(mapping.fitid)
+
+  const mappedColumns = Object.values(mapping).filter(
+    (name): name is string => !!name
+  )
+  const missing = mappedColumns.filter((name) => columnIndex(name) === -1)
+  if (missing.length > 0) {
+    errors.push({
+      row: 1,
+      message: `Columns not found in the header: ${missing.join(', ')}`,
+    })
+    return { lines, errors, currencyCode: null }
+  }
+
+  for (const [index, row] of rows.entries()) {
+    // Row 1 is the header
+    const rowNumber = index + 2
+    const cell = (columnIdx: number): string =>
+      columnIdx >= 0 ? (row.at(columnIdx) ?? '') : ''
+
+    const date = parseStatementDate(cell(dateIndex), options.dateFormat)
+    if (!date) {
+      errors.push({
+        row: rowNumber,
+        message: `Date must be in the ${options.dateFormat} format`,
+      })
+      continue
+    }
+
+    let amount: number | null
+    if (amountIndex >= 0) {
+      amount = parseStatementAmount(cell(amountIndex))
+      if (amount !== null && options.invertAmounts) {
+        amount = -amount
+      }
+    } else {
+      const debit = parseStatementAmount(cell(debitIndex))
+      const credit = parseStatementAmount(cell(creditIndex))
+      amount =
+        debit === null && credit === null
+          ? null
+          : Math.abs(credit ?? 0) - Math.abs(debit ?? 0)
+    }
+
+    if (amount === null || amount === 0) {
+      errors.push({
+        row: rowNumber,
+        message: 'Amount must be a non-zero number',
+      })
+      continue
+    }
+
+    lines.push({
+      row: rowNumber,
+      date,
+      amount,
+      description: toNullableText(cell(descriptionIndex)),
+      payee: toNullableText(cell(payeeIndex)),
+      reference: toNullableText(cell(referenceIndex)),
+      fitid: toNullableText(cell(fitidIndex)),
+    })
+  }
+
+  return { lines, errors, currencyCode: null }
+}
+
+/**
+ * Parse an OFX/QFX statement
+ * Handles both SGML (OFX 1.x, leaf elements without closing tags) and XML
+ * (OFX 2.x) files by reading the tag/value pairs of each STMTTRN block
+ */
+export const parseOfxStatement = (content: string): ParsedStatement => {
+  const errors: BankStatementImportError[] = []
+  const lines: ParsedStatementLine[] = []
+
+  const currencyMatch = /<curdef>\s*([a-z]{3})/i.exec(content)
+  const currencyCode = currencyMatch?.[1]?.toUpperCase() ?? null
+
+  const blocks = content.match(/<stmttrn>[\S\s]*?<\/stmttrn>/gi) ?? []
+  for (const [index, block] of blocks.entries()) {
+    const row = index + 1
+    const fields = new Map<string, string>()
+    for (const match of block.matchAll(/<([\d.a-z]+)>([^\n\r<]*)/gi)) {
+      const [, tag = '', value = ''] = match
+      fields.set(tag.toUpperCase(), decodeEntities(value.trim()))
+    }
+
+    // DTPOSTED is YYYYMMDD followed by an optional time and zone
+    const posted = /^(\d{4})(\d{2})(\d{2})/.exec(fields.get('DTPOSTED') ?? '')
+    const date = posted
+      ? toDateString(Number(posted[1]), Number(posted[2]), Number(posted[3]))
+      : null
+    if (!date) {
+      errors.push({ row, message: 'DTPOSTED is missing or invalid' })
+      continue
+    }
+
+    const amount = parseStatementAmount(fields.get('TRNAMT') ?? '')
+    if (amount === null || amount === 0) {
+      errors.push({ row, message: 'TRNAMT must be a non-zero number' })
+      continue
+    }
+
+    const name = toNullableText(fields.get('NAME') ?? fields.get('PAYEE'))
+    lines.push({
+      row,
+      date,
+      amount,
+      description: toNullableText(fields.get('MEMO')) ?? name,
+      payee: name,
+      reference: toNullableText(fields.get('CHECKNUM') ?? fields.get('REFNUM')),
+      fitid: toNullableText(fields.get('FITID')),
+    })
+  }
+
+  if (blocks.length === 0) {
+    errors.push({
+      row: 0,
+      message: 'No STMTTRN transactions found in the file',
+    })
+  }
+
+  return { lines, errors, currencyCode }
+}
+
+/**
+ * Parse an XML document into elements
+ * Enough for bank statement files: attributes, comments, processing
+ * instructions and DOCTYPE are ignored
+ */
+const parseXml = (content: string): XmlNode => {
+  const root: XmlNode = { name: '#document', children: [], text: '' }
+  const stack: XmlNode[] = [root]
+
+  for (const match of content.matchAll(
+    /<!\[CDATA\[([\S\s]*?)]]>|<!--[\S\s]*?-->|<[^>]+>|[^<]+/g
+  )) {
+    const [token] = match
+    const current = stack.at(-1) ?? root
+
+    if (match[1] !== undefined) {
+      current.text += match[1]
+    } else if (token.startsWith('<?') || token.startsWith('<!')) {
+      continue
+    } else if (token.startsWith('</')) {
+      if (stack.length > 1) {
+        stack.pop()
+      }
+    } else if (token.startsWith('<')) {
+      const qualifiedName = /^<\s*([^\s/>]+)/.exec(token)?.[1] ?? ''
+      const node: XmlNode = {
+        name: qualifiedName.split(':').at(-1) ?? qualifiedName,
+        children: [],
+        text: '',
+      }
+      current.children.push(node)
+      if (!token.endsWith('/>')) {
+        stack.push(node)
+      }
+    } else {
+      current.text += decodeEntities(token)
+    }
+  }
+
+  return root
+}
+
+/**
+ * Find the first child element with a name
+ */
+const childOf = (
+  node: XmlNode | undefined,
+  name: string
+): XmlNode | undefined => node?.children.find((child) => child.name === name)
+
+/**
+ * Follow a path of child element names
+ */
+const pathOf = (
+  node: XmlNode | undefined,
+  ...names: string[]
+): XmlNode | undefined => {
+  let current = node
+  for (const name of names) {
+    current = childOf(current, name)
+  }
+  return current
+}
+
+/**
+ * Find all descendant elements with a name, in document order
+ */
+const descendantsOf = (node: XmlNode, name: string): XmlNode[] =>
+  node.children.flatMap((child) => [
+    ...(child.name === name ? [child] : []),
+    ...descendantsOf(child, name),
+  ])
+
+/**
+ * Text content of an element
+ */
+const textOf = (node: XmlNode | undefined): string | null =>
+  toNullableText(node?.text)
+
+/**
+ * Parse a CAMT.053 (ISO 20022 bank to customer statement) file
+ * Only booked entries are read; pending entries are skipped
+ */
+export const parseCamt053Statement = (content: string): ParsedStatement => {
+  const errors: BankStatementImportError[] = []
+  const lines: ParsedStatementLine[] = []
+  const document = parseXml(content)
+
+  const [statement] = descendantsOf(document, 'Stmt')
+  const currencyCode =
+    textOf(pathOf(statement, 'Acct', 'Ccy'))?.toUpperCase() ?? null
+
+  const entries = statement ? descendantsOf(statement, 'Ntry') : []
+  for (const [index, entry] of entries.entries()) {
+    const row = index + 1
+
+    // Sts is a code (2013 versions) or a Cd element (2019 versions)
+    const status =
+      textOf(childOf(entry, 'Sts')) ?? textOf(pathOf(entry, 'Sts', 'Cd'))
+    if (status && status !== 'BOOK') {
+      continue
+    }
+
+    const bookingDate =
+      textOf(pathOf(entry, 'BookgDt', 'Dt')) ??
+      textOf(pathOf(entry, 'BookgDt', 'DtTm')) ??
+      textOf(pathOf(entry, 'ValDt', 'Dt'))
+    const dateMatch = /^(\d{4})-(\d{2})-(\d{2})/.exec(bookingDate ?? '')
+    const date = dateMatch
+      ? toDateString(
+          Number(dateMatch[1]),
+          Number(dateMatch[2]),
+          Number(dateMatch[3])
+        )
+      : null
+    if (!date) {
+      errors.push({ row, message: 'Booking date is missing or invalid' })
+      continue
+    }
+
+    const value = parseStatementAmount(textOf(childOf(entry, 'Amt')) ?? '')
+    if (value === null || value === 0) {
+      errors.push({ row, message: 'Amt must be a non-zero number' })
+      continue
+    }
+    const isCredit = textOf(childOf(entry, 'CdtDbtInd')) === 'CRDT'
+    const amount = isCredit ? Math.abs(value) : -Math.abs(value)
+
+    // Details of the first transaction of the entry
+    const [details] = descendantsOf(entry, 'TxDtls')
+    const party = pathOf(details, 'RltdPties', isCredit ? 'Dbtr' : 'Cdtr')
+    const payee =
+      textOf(childOf(party, 'Nm')) ?? textOf(pathOf(party, 'Pty', 'Nm'))
+    const unstructured = details
+      ? descendantsOf(details, 'Ustrd')
+          .map((node) => textOf(node))
+          .filter((text): text is string => !!text)
+          .join(' ')
+      : ''
+    const endToEndId = textOf(pathOf(details, 'Refs', 'EndToEndId'))
+
+    lines.push({
+      row,
+      date,
+      amount,
+      description:
+        toNullableText(unstructured) ??
+        textOf(childOf(details, 'AddtlTxInf')) ??
+        textOf(childOf(entry, 'AddtlNtryInf')) ??
+        payee,
+      payee,
+      reference:
+        endToEndId && endToEndId !== 'NOTPROVIDED'
+          ? endToEndId
+          : textOf(childOf(entry, 'NtryRef')),
+      fitid: textOf(childOf(entry, 'AcctSvcrRef')),
+    })
+  }
+
+  if (!statement) {
+    errors.push({ row: 0, message: 'No Stmt element found in the file' })
+  }
+
+  return { lines, errors, currencyCode }
+}
+
+/**
+ * Build the keys used to skip statement lines that were already imported
+ * Lines with a FITID use it. Other lines use a hash of their date, amount and
+ * text, numbered so identical lines in the same file are all kept while
+ * importing the same file again still finds them.
+ * @returns One key per line, in the same order
+ */
+export const buildDedupeKeys = (lines: ParsedStatementLine[]): string[] => {
+  const occurrences = new Map<string, number>()
+
+  return lines.map((line) => {
+    if (line.fitid) {
+      // Keys are stored in a 255 character column
+      return line.fitid.length <= 240
+        ? `fitid:${line.fitid}`
+        : `fitid:${createHash('sha256').update(line.fitid).digest('hex')}`
+    }
+
+    const fingerprint = [
+      line.date,
+      line.amount.toFixed(2),
+      line.description ?? '',
+      line.payee ?? '',
+      line.reference ?? '',
+    ].join('|')
+    const occurrence = (occurrences.get(fingerprint) ?? 0) + 1
+    occurrences.set(fingerprint, occurrence)
+
+    const hash = createHash('sha256')
+      .update(`${fingerprint}|${occurrence}`)
+      .digest('hex')
+    return `hash:${hash}`
+  })
+}
@@ -0,0 +1,100 @@
+/**
+ * Budget Import Utilities
+ * Reads the rows of a budget file into budgeted amounts per account
+ */
+
+import type {
+  BudgetImportError,
+  ParsedBudgetFile,
+  ParsedBudgetImportLine,
+} from '@/types/budget.type'
+import { BUDGET_FILE } from '@constants/budget'
+import { parseStatementAmount } from '@utils/bankStatementParser'
+import { mapSpreadsheetColumns } from '@utils/spreadsheetParser'
+
+/**
+ * Parse the rows of a budget file
+ *
+ * The file has an account number column and one column per month of the
+ * fiscal year, headed by the month label (e.g. "Jan 2026"), as in the file
+ * downloaded from the budget. Other columns, such as the account name, are
+ * ignored. Blank amount cells are zero.
+ *
+ * Every row that cannot be read is reported, as are accounts that appear
+ * on more than one row.
+ * @param rows - Rows of the file; the first row holds the headers
+ * @param monthLabels - Labels of the months of the fiscal year, in order
+ */
+export const parseBudgetFile = (
+  rows: string[][],
+  monthLabels: string[]
+): ParsedBudgetFile => {
+  const [headers = [], ...dataRows] = rows
+  const errors: BudgetImportError[] = []
+  const lines: ParsedBudgetImportLine[] = []
+
+  const [accountNumberHeader] = BUDGET_FILE.ACCOUNT_HEADERS
+  const { columns, missing } = mapSpreadsheetColumns<string>(headers, {
+    accountNumber: accountNumberHeader,
+    ...Object.fromEntries(
+      monthLabels.map((label, index) => [`month${index + 1}`, label])
+    ),
+  })
+  if (missing.length > 0) {
+    errors.push({
+      row: 1,
+      message: `Columns not found in the header: ${missing.join(', ')}`,
+    })
+    return { lines, errors, totalRows: dataRows.length }
+  }
+
+  const rowsByAccount = new Map<string, number>()
+
+  for (const [index, row] of dataRows.entries()) {
+    // Row 1 is the header
+    const rowNumber = index + 2
+    const cell = (field: string): string => {
+      const column = columns.get(field)
+      return column === undefined ? '' : (row.at(column) ?? '')
+    }
+
+    const accountNumber = cell('accountNumber')
+    if (!accountNumber) {
+      errors.push({ row: rowNumber, message: 'Account number is required' })
+      continue
+    }
+
+    const firstRow = rowsByAccount.get(accountNumber.toLowerCase())
+    if (firstRow !== undefined) {
+      errors.push({
+        row: rowNumber,
+        message: `Account number "${accountNumber}" is already on row ${firstRow}`,
+      })
+      continue
+    }
+    rowsByAccount.set(accountNumber.toLowerCase(), rowNumber)
+
+    const amounts: number[] = []
+    const invalid: string[] = []
+    for (const [monthIndex, label] of monthLabels.entries()) {
+      const text = cell(`month${monthIndex + 1}`)
+      const amount = text ? parseStatementAmount(text) : 0
+      if (amount === null) {
+        invalid.push(`${label} "${text}"`)
+        continue
+      }
+      amounts.push(Math.round(amount * 100) / 100)
+    }
+    if (invalid.length > 0) {
+      errors.push({
+        row: rowNumber,
+        message: `Amounts are not numbers: ${invalid.join(', ')}`,
+      })
+      continue
+    }
+
+    lines.push({ row: rowNumber, accountNumber, amounts })
+  }
+
+  return { lines, errors, totalRows: dataRows.length }
+}
@@ -0,0 +1,546 @@
+/**
+ * Chart of Account Import Utilities
+ * Reads the rows of a chart of accounts file into accounts to create,
+ * resolving the Type and Detail Type text into account types and subtypes
+ */
+
+import type {
+  ChartOfAccountImportError,
+  ChartOfAccountImportField,
+  ChartOfAccountImportMapping,
+  ParsedChartOfAccountFile,
+  ParsedChartOfAccountRow,
+} from '@/types/chartOfAccount.type'
+import { CHART_OF_ACCOUNT_SAMPLE } from '@constants/chartOfAccount'
+import {
+  AccountType,
+  AssetSubtype,
+  EquitySubtype,
+  ExpenseSubtype,
+  LiabilitySubtype,
+  RevenueSubtype,
+} from '@models/ChartOfAccount'
+import { parseStatementAmount } from '@utils/bankStatementParser'
+import { mapSpreadsheetColumns } from '@utils/spreadsheetParser'
+
+/**
+ * Account type, and the subtype when the text implies one
+ */
+interface ResolvedAccountType {
+  accountType: AccountType
+  accountSubtype: string | null
+}
+
+/**
+ * Separator of sub-account names ("Parent:Child")
+ */
+export const SUB_ACCOUNT_SEPARATOR = ':'
+
+const toType = (
+  accountType: AccountType,
+  accountSubtype: string | null = null
+): ResolvedAccountType => ({ accountType, accountSubtype })
+
+/**
+ * Type column values
+ * Besides the five account types, the account types of other bookkeeping
+ * software (e.g., "Bank", "Credit Card", "Cost of Goods Sold") are accepted
+ * with the subtype they imply
+ */
+const ACCOUNT_TYPE_ALIASES = new Map<string, ResolvedAccountType>([
+  ['asset', toType(AccountType.ASSET)],
+  ['assets', toType(AccountType.ASSET)],
+  ['bank', toType(AccountType.ASSET, AssetSubtype.CURRENT_ASSET)],
+  [
+    'accounts receivable',
+    toType(AccountType.ASSET, AssetSubtype.CURRENT_ASSET),
+  ],
+  [
+    'accounts receivable (a/r)',
+    toType(AccountType.ASSET, AssetSubtype.CURRENT_ASSET),
+  ],
+  ['current asset', toType(AccountType.ASSET, AssetSubtype.CURRENT_ASSET)],
+  ['current assets', toType(AccountType.ASSET, AssetSubtype.CURRENT_ASSET)],
+  [
+    'other current asset',
+    toType(AccountType.ASSET, AssetSubtype.CURRENT_ASSET),
+  ],
+  [
+    'other current assets',
+    toType(AccountType.ASSET, AssetSubtype.CURRENT_ASSET),
+  ],
+  ['fixed asset', toType(AccountType.ASSET, AssetSubtype.FIXED_ASSET)],
+  ['fixed assets', toType(AccountType.ASSET, AssetSubtype.FIXED_ASSET)],
+  ['other asset', toType(AccountType.ASSET, AssetSubtype.OTHER_ASSET)],
+  ['other assets', toType(AccountType.ASSET, AssetSubtype.OTHER_ASSET)],
+  ['liability', toType(AccountType.LIABILITY)],
+  ['liabilities', toType(AccountType.LIABILITY)],
+  [
+    'accounts payable',
+    toType(AccountType.LIABILITY, LiabilitySubtype.CURRENT_LIABILITY),
+  ],
+  [
+    'accounts payable (a/p)',
+    toType(AccountType.LIABILITY, LiabilitySubtype.CURRENT_LIABILITY),
+  ],
+  [
+    'credit card',
+    toType(AccountType.LIABILITY, LiabilitySubtype.CURRENT_LIABILITY),
+  ],
+  [
+    'current liability',
+    toType(AccountType.LIABILITY, LiabilitySubtype.CURRENT_LIABILITY),
+  ],
+  [
+    'current liabilities',
+    toType(AccountType.LIABILITY, LiabilitySubtype.CURRENT_LIABILITY),
+  ],
+  [
+    'other current liability',
+    toType(AccountType.LIABILITY, LiabilitySubtype.CURRENT_LIABILITY),
+  ],
+  [
+    'other current liabilities',
+    toType(AccountType.LIABILITY, LiabilitySubtype.CURRENT_LIABILITY),
+  ],
+  [
+    'long term liability',
+    toType(AccountType.LIABILITY, LiabilitySubtype.LONG_TERM_LIABILITY),
+  ],
+  [
+    'long term liabilities',
+    toType(AccountType.LIABILITY, LiabilitySubtype.LONG_TERM_LIABILITY),
+  ],
+  [
+    'other liability',
+    toType(AccountType.LIABILITY, LiabilitySubtype.OTHER_LIABILITY),
+  ],
+  [
+    'other liabilities',
+    toType(AccountType.LIABILITY, LiabilitySubtype.OTHER_LIABILITY),
+  ],
+  ['equity', toType(AccountType.EQUITY)],
+  ['revenue', toType(AccountType.REVENUE)],
+  ['income', toType(AccountType.REVENUE)],
+  ['other income', toType(AccountType.REVENUE, RevenueSubtype.OTHER_REVENUE)],
+  ['other revenue', toType(AccountType.REVENUE, RevenueSubtype.OTHER_REVENUE)],
+  ['expense', toType(AccountType.EXPENSE)],
+  ['expenses', toType(AccountType.EXPENSE)],
+  [
+    'cost of goods sold',
+    toType(AccountType.EXPENSE, ExpenseSubtype.COST_OF_GOODS_SOLD),
+  ],
+  [
+    'cost of sales',
+    toType(AccountType.EXPENSE, ExpenseSubtype.COST_OF_GOODS_SOLD),
+  ],
+  ['other expense', toType(AccountType.EXPENSE, ExpenseSubtype.OTHER_EXPENSE)],
+  ['other expenses', toType(AccountType.EXPENSE, ExpenseSubtype.OTHER_EXPENSE)],
+])
+
+/**
+ * Detail Type column values with the account type and subtype they belong to
+ * Subtype names (e.g., "current_asset") are accepted as well. Other detail
+ * types are kept on the account without a subtype.
+ */
+const DETAIL_TYPE_SUBTYPES = new Map<string, ResolvedAccountType>([
+  // Current assets
+  ...[
+    'chequing',
+    'checking',
+    'savings',
+    'cash',
+    'cash on hand',
+    'money market',
+    'trust accounts',
+    'accounts receivable',
+    'allowance for bad debts',
+    'inventory',
+    'prepaid expenses',
+    'undeposited funds',
+    'employee cash advances',
+    'other current assets',
+  ].map(
+    (name) =>
+      [name, toType(AccountType.ASSET, AssetSubtype.CURRENT_ASSET)] as const
+  ),
+  // Fixed assets
+  ...[
+    'other fixed assets',
+    'fixed asset',
+    'buildings',
+    'land',
+    'machinery and equipment',
+    'machinery & equipment',
+    'vehicles',
+    'furniture and fixtures',
+    'furniture & fixtures',
+    'computer equipment',
+    'leasehold improvements',
+    'accumulated depreciation',
+  ].map(
+    (name) =>
+      [name, toType(AccountType.ASSET, AssetSubtype.FIXED_ASSET)] as const
+  ),
+  // Other assets
+  ...[
+    'other long term assets',
+    'goodwill',
+    'security deposits',
+    'accumulated amortization',
+    'intangible assets',
+  ].map(
+    (name) =>
+      [name, toType(AccountType.ASSET, AssetSubtype.OTHER_ASSET)] as const
+  ),
+  // Current liabilities
+  ...[
+    'accounts payable',
+    'credit card',
+    'line of credit',
+    'sales tax payable',
+    'gst/hst payable',
+    'payroll liabilities',
+    'payroll clearing',
+    'accrued liabilities',
+    'current portion of long term debt',
+    'other current liabilities',
+  ].map(
+    (name) =>
+      [
+        name,
+        toType(AccountType.LIABILITY, LiabilitySubtype.CURRENT_LIABILITY),
+      ] as const
+  ),
+  // Long-term liabilities
+  ...[
+    'loan',
+    'loan payable',
+    'long term debt',
+    'notes payable',
+    'shareholder notes payable',
+    'other long term liabilities',
+  ].map(
+    (name) =>
+      [
+        name,
+        toType(AccountType.LIABILITY, LiabilitySubtype.LONG_TERM_LIABILITY),
+      ] as const
+  ),
+  // Equity
+  ...[
+    "owner's equity",
+    'opening balance equity',
+    'common stock',
+    'share capital',
+    'partner contributions',
+    "partner's equity",
+    "owner's draw",
+    'dividends',
+  ].map(
+    (name) => [name, toType(AccountType.EQUITY, EquitySubtype.EQUITY)] as const
+  ),
+  [
+    'retained earnings',
+    toType(AccountType.EQUITY, EquitySubtype.RETAINED_EARNINGS),
+  ],
+  // Operating revenue
+  ...[
+    'revenue',
+    'sales',
+    'sales of product income',
+    'service/fee income',
+    'discounts/refunds given',
+    'non profit income',
+  ].map(
+    (name) =>
+      [
+        name,
+        toType(AccountType.REVENUE, RevenueSubtype.OPERATING_REVENUE),
+      ] as const
+  ),
+  // Other revenue
+  ...[
+    'interest earned',
+    'dividend income',
+    'other investment income',
+    'other miscellaneous income',
+    'gain on sale of assets',
+  ].map(
+    (name) =>
+      [name, toType(AccountType.REVENUE, RevenueSubtype.OTHER_REVENUE)] as const
+  ),
+  // Cost of goods sold
+  ...[
+    'materials',
+    'cost of goods sold',
+    'cost of labour',
+    'cost of labor',
+    'supplies & materials cogs',
+    'shipping, freight & delivery cos',
+    'equipment rental cos',
+    'other costs of services cos',
+  ].map(
+    (name) =>
+      [
+        name,
+        toType(AccountType.EXPENSE, ExpenseSubtype.COST_OF_GOODS_SOLD),
+      ] as const
+  ),
+  // Operating expenses
+  ...[
+    'expense',
+    'advertising/promotional',
+    'auto',
+    'bank charges',
+    'dues & subscriptions',
+    'entertainment meals',
+    'insurance',
+    'legal & professional fees',
+    'office/general administrative expenses',
+    'payroll expenses',
+    'rent or lease of buildings',
+    'repair & maintenance',
+    'supplies & materials',
+    'travel',
+    'utilities',
+  ].map(
+    (name) =>
+      [
+        name,
+        toType(AccountType.EXPENSE, ExpenseSubtype.OPERATING_EXPENSE),
+      ] as const
+  ),
+  // Other expenses
+  ...[
+    'amortization',
+    'depreciation',
+    'exchange gain or loss',
+    'interest paid',
+    'other miscellaneous expense',
+    'penalties & settlements',
+  ].map(
+    (name) =>
+      [name, toType(AccountType.EXPENSE, ExpenseSubtype.OTHER_EXPENSE)] as const
+  ),
+  // Subtype names
+  ...Object.values(AssetSubtype).map(
+    (subtype) => [subtype, toType(AccountType.ASSET, subtype)] as const
+  ),
+  ...Object.values(LiabilitySubtype).map(
+    (subtype) => [subtype, toType(AccountType.LIABILITY, subtype)] as const
+  ),
+  ...Object.values(EquitySubtype).map(
+    (subtype) => [subtype, toType(AccountType.EQUITY, subtype)] as const
+  ),
+  ...Object.values(RevenueSubtype).map(
+    (subtype) => [subtype, toType(AccountType.REVENUE, subtype)] as const
+  ),
+  ...Object.values(ExpenseSubtype).map(
+    (subtype) => [subtype, toType(AccountType.EXPENSE, subtype)] as const
+  ),
+])
+
+/**
+ * Normalize Type/Detail Type text for lookup
+ * Case, dashes, underscores and repeated spaces are ignored
+ */
+const normalizeTypeText = (value: string): string =>
+  value
+    .toLowerCase()
+    .replaceAll(/[\s_-]+/g, ' ')
+    .trim()
+
+/**
+ * Look up a Type or Detail Type value
+ * Subtype names are stored with underscores, so both spellings are tried
+ */
+const lookupType = (
+  table: Map<string, ResolvedAccountType>,
+  value: string
+): ResolvedAccountType | undefined => {
+  const normalized = normalizeTypeText(value)
+  return table.get(normalized) ?? table.get(normalized.replaceAll(' ', '_'))
+}
+
+/**
+ * Resolve the Type and Detail Type text of a row
+ * The detail type sets the subtype when it is known; otherwise the subtype
+ * implied by the type, if any, is used
+ * @returns The account type and subtype, or an error message
+ */
+export const resolveAccountType = (
+  typeText: string,
+  detailTypeText: string | null
+): ResolvedAccountType | { error: string } => {
+  const resolvedType = lookupType(ACCOUNT_TYPE_ALIASES, typeText)
+  if (!resolvedType) {
+    return { error: `Type "${typeText}" is not a known account type` }
+  }
+
+  const detail = detailTypeText
+    ? lookupType(DETAIL_TYPE_SUBTYPES, detailTypeText)
+    : undefined
+  if (detail && detail.accountType !== resolvedType.accountType) {
+    return {
+      error: `Detail type "${detailTypeText}" does not belong to ${resolvedType.accountType} accounts`,
+    }
+  }
+
+  return {
+    accountType: resolvedType.accountType,
+    accountSubtype: detail?.accountSubtype ?? resolvedType.accountSubtype,
+  }
+}
+
+/**
+ * Default column mapping: the headers of the sample file
+ */
+const DEFAULT_MAPPING = Object.fromEntries(
+  CHART_OF_ACCOUNT_SAMPLE.IMPORT_FIELDS.map((field) => [field.key, field.label])
+) as unknown as ChartOfAccountImportMapping
+
+/**
+ * Balance sheet account types, the only ones that take an opening balance
+ */
+const BALANCE_SHEET_TYPES = new Set<AccountType>([
+  AccountType.ASSET,
+  AccountType.LIABILITY,
+  AccountType.EQUITY,
+])
+
+/**
+ * Parse the rows of a chart of accounts file
+ * Without a mapping, columns are matched on the headers of the sample file
+ * and optional columns that are missing are ignored. Rows that cannot be read
+ * are reported as errors; the others are returned in file order.
+ * @param rows - Rows of the file; the first row holds the headers
+ * @param mapping - Header name per import field
+ */
+export const parseChartOfAccountFile = (
+  rows: string[][],
+  mapping?: ChartOfAccountImportMapping
+): ParsedChartOfAccountFile => {
+  const [headers = [], ...dataRows] = rows
+  const errors: ChartOfAccountImportError[] = []
+  const parsedRows: ParsedChartOfAccountRow[] = []
+  const result = { rows: parsedRows, errors, totalRows: dataRows.length }
+
+  const { columns, missing } = mapSpreadsheetColumns<ChartOfAccountImportField>(
+    headers,
+    mapping ?? DEFAULT_MAPPING
+  )
+  const requiredMissing = mapping
+    ? missing
+    : missing.filter((name) =>
+        CHART_OF_ACCOUNT_SAMPLE.IMPORT_FIELDS.some(
+          (field) => field.required && field.label === name
+        )
+      )
+  if (requiredMissing.length > 0) {
+    errors.push({
+      row: 1,
+      message: `Columns not found in the header: ${requiredMissing.join(', ')}`,
+    })
+    return result
+  }
+
+  for (const [index, row] of dataRows.entries()) {
+    // Row 1 is the header
+    const rowNumber = index + 2
+    const cell = (field: ChartOfAccountImportField): string => {
+      const column = columns.get(field)
+      return column === undefined ? '' : (row.at(column) ?? '')
+    }
+
+    const fullName = cell('accountName')
+    if (!fullName) {
+      errors.push({ row: rowNumber, message: 'Account name is required' })
+      continue
+    }
+
+    const segments = fullName
+      .split(SUB_ACCOUNT_SEPARATOR)
+      .map((segment) => segment.trim())
+    if (segments.some((segment) => !segment)) {
+      errors.push({
+        row: rowNumber,
+        message: `Account name "${fullName}" has an empty sub-account name`,
+      })
+      continue
+    }
+    const accountName = segments.at(-1) ?? fullName
+    if (accountName.length > 255) {
+      errors.push({
+        row: rowNumber,
+        message: 'Account name must be at most 255 characters',
+      })
+      continue
+    }
+
+    const typeText = cell('accountType')
+    if (!typeText) {
+      errors.push({ row: rowNumber, message: 'Type is required' })
+      continue
+    }
+    const detailType = cell('accountDetailType') || null
+    if (detailType && detailType.length > 100) {
+      errors.push({
+        row: rowNumber,
+        message: 'Detail type must be at most 100 characters',
+      })
+      continue
+    }
+    const resolved = resolveAccountType(typeText, detailType)
+    if ('error' in resolved) {
+      errors.push({ row: rowNumber, message: resolved.error })
+      continue
+    }
+
+    const accountNumber = cell('accountNumber') || null
+    if (accountNumber && accountNumber.length > 50) {
+      errors.push({
+        row: rowNumber,
+        message: 'Account number must be at most 50 characters',
+      })
+      continue
+    }
+
+    const openingBalanceText = cell('openingBalance')
+    const openingBalance = openingBalanceText
+      ? parseStatementAmount(openingBalanceText)
+      : 0
+    if (openingBalance === null) {
+      errors.push({
+        row: rowNumber,
+        message: `Opening balance "${openingBalanceText}" is not a number`,
+      })
+      continue
+    }
+    if (
+      openingBalance !== 0 &&
+      !BALANCE_SHEET_TYPES.has(resolved.accountType)
+    ) {
+      errors.push({
+        row: rowNumber,
+        message:
+          'Opening balances can only be imported for balance sheet accounts',
+      })
+      continue
+    }
+
+    parsedRows.push({
+      row: rowNumber,
+      accountNumber,
+      accountName,
+      fullName: segments.join(SUB_ACCOUNT_SEPARATOR),
+      parentPath: segments.slice(0, -1),
+      accountType: resolved.accountType,
+      accountSubtype: resolved.accountSubtype,
+      accountDetailType: detailType,
+      openingBalance,
+    })
+  }
+
+  return result
+}
@@ -0,0 +1,59 @@
+/**
+ * Chart of Account Template Utilities
+ * Reads the industry chart of accounts templates applied at tenant onboarding
+ */
+
+import type {
+  ChartOfAccountTemplate,
+  ChartOfAccountTemplateSummary,
+} from '@/types/chartOfAccount.type'
+import { ERROR_MESSAGES } from '@constants/errors'
+import { HTTP_STATUS } from '@constants/http'
+import templates from '@database/data/chartOfAccountTemplates.json'
+import { ApiError } from '@utils/ApiError'
+
+const CHART_OF_ACCOUNT_TEMPLATES = templates as ChartOfAccountTemplate[]
+
+/**
+ * Describe a template without its accounts
+ */
+export const toChartOfAccountTemplateSummary = (
+  template: ChartOfAccountTemplate
+): ChartOfAccountTemplateSummary => ({
+  key: template.key,
+  version: template.version,
+  name: template.name,
+  description: template.description,
+  accountCount: template.accounts.length,
+})
+
+/**
+ * List the chart of accounts templates
+ * @returns Templates in display order, without their accounts
+ */
+export const listChartOfAccountTemplates =
+  (): ChartOfAccountTemplateSummary[] =>
+    CHART_OF_ACCOUNT_TEMPLATES.map(toChartOfAccountTemplateSummary)
+
+/**
+ * Get a chart of accounts template by key
+ * @param key - Template key
+ * @returns Template with its accounts
+ * @throws ApiError if the template does not exist
+ */
+export const getChartOfAccountTemplate = (
+  key: string
+): ChartOfAccountTemplate => {
+  const template = CHART_OF_ACCOUNT_TEMPLATES.find(
+    (candidate) => candidate.key === key
+  )
+
+  if (!template) {
+    throw new ApiError(
+      HTTP_STATUS.NOT_FOUND,
+      ERROR_MESSAGES.CHART_OF_ACCOUNT_TEMPLATE_NOT_FOUND
+    )
+  }
+
+  return template
+}
@@ -69,3 +69,138 @@ export const formatDateToISOString = (
   if (!date) return null
   return moment(date).utc().toISOString()
 }
+
+/**
+ * Convert a Date to the ISO string stored in a model date column
+ * Typed as the column's Date so it can be assigned in inserts and patches
+ * @param date - Date object or null
+ * @returns ISO string, or null when the date is null
+ */
+export const toDateColumn = <T extends Date | null>(date: T): T =>
+  formatDateToISOString(date) as unknown as T
+
+/**
+ * Parse a date string (YYYY-MM-DD) or Date object and convert to UTC Date at end of day
+ * @param dateInput - Date string in YYYY-MM-DD format or Date object
+ * @returns Date object in UTC at end of day (23:59:59.999)
+ */
+export const parseDateStringToUTCEndOfDay = (
+  dateInput: string | Date
+): Date => {
+  return moment(dateInput).utc().endOf('day').toDate()
+}
+
+/**
+ * Get the first moment of the UTC calendar year containing a date
+ * @param date - Date object or date string
+ * @returns Date object in UTC at January 1st 00:00:00
+ */
+export const getUTCYearStart = (date: Date | string): Date => {
+  return moment(date).utc().startOf('year').toDate()
+}
+
+/**
+ * Subtract a number of years from a date (UTC)
+ * @param date - Date object or date string
+ * @param years - Number of years to subtract
+ * @returns Date object in UTC
+ */
+export const subtractUTCYears = (date: Date | string, years: number): Date => {
+  return moment(date).utc().subtract(years, 'years').toDate()
+}
+
+/**
+ * Get the date range immediately preceding a range
+ * Whole-month ranges shift by the same number of months; other ranges by the same number of days
+ * @param startDate - Range start (start of day UTC)
+ * @param endDate - Range end (end of day UTC)
+ * @returns Preceding range with the same start/end of day boundaries
+ */
+export const getPrecedingDateRange = (
+  startDate: Date,
+  endDate: Date
+): { startDate: Date; endDate: Date } => {
+  const start = moment(startDate).utc()
+  const end = moment(endDate).utc()
+
+  const isWholeMonths =
+    start.isSame(start.clone().startOf('month'), 'day') &&
+    end.isSame(end.clone().endOf('month'), 'day')
+
+  if (isWholeMonths) {
+    const months = end.diff(start.clone().startOf('month'), 'months') + 1
+    const previousStart = start.clone().subtract(months, 'months')
+    return {
+      startDate: previousStart.startOf('day').toDate(),
+      endDate: start.clone().subtract(1, 'day').endOf('day').toDate(),
+    }
+  }
+
+  const days =
+    end.clone().startOf('day').diff(start.clone().startOf('day'), 'days') + 1
+  return {
+    startDate: start.clone().subtract(days, 'days').startOf('day').toDate(),
+    endDate: start.clone().subtract(1, 'day').endOf('day').toDate(),
+  }
+}
+
+/**
+ * Add a number of months to a date (UTC)
+ * @param date - Date object or date string
+ * @param months - Number of months to add
+ * @returns Date object in UTC
+ */
+export const addUTCMonths = (date: Date | string, months: number): Date => {
+  return moment(date).utc().add(months, 'months').toDate()
+}
+
+/**
+ * Add a number of days to a date (UTC)
+ * @param date - Date object or date string
+ * @param days - Number of days to add
+ * @returns Date object in UTC
+ */
+export const addUTCDays = (date: Date | string, days: number): Date => {
+  return moment(date).utc().add(days, 'days').toDate()
+}
+
+/**
+ * Split a date range into consecutive chunks of whole months (UTC)
+ * The last chunk is cut short at the range end
+ * @param startDate - Range start
+ * @param endDate - Range end
+ * @param months - Number of months per chunk
+ * @returns Chunks with start of day / end of day boundaries
+ */
+export const splitUTCDateRangeByMonths = (
+  startDate: Date,
+  endDate: Date,
+  months: number
+): Array<{ startDate: Date; endDate: Date }> => {
+  const rangeEnd = moment(endDate).utc().endOf('day')
+  const chunks: Array<{ startDate: Date; endDate: Date }> = []
+
+  // Offset every chunk from the range start so month-end starts don't drift
+  const rangeStart = moment(startDate).utc().startOf('day')
+  let chunkStart = rangeStart.clone()
+  for (let index = 1; chunkStart.isSameOrBefore(rangeEnd); index++) {
+    const nextStart = rangeStart.clone().add(index * months, 'months')
+    const chunkEnd = moment.min(
+      nextStart.clone().subtract(1, 'day').endOf('day'),
+      rangeEnd
+    )
+    chunks.push({ startDate: chunkStart.toDate(), endDate: chunkEnd.toDate() })
+    chunkStart = nextStart
+  }
+
+  return chunks
+}
+
+/**
+ * Format a date as a short month label (e.g., "Jan 2025")
+ * @param date - Date object or date string
+ * @returns Month label in UTC
+ */
+export const formatDateToMonthLabel = (date: Date | string): string => {
+  return moment(date).utc().format('MMM YYYY')
+}
@@ -0,0 +1,244 @@
+/**
+ * Journal Entry Import Utilities
+ * Reads the rows of a journal entries file and groups them into balanced
+ * entries to create
+ */
+
+import type { CsvDateFormat } from '@/types/bankTransaction.type'
+import type {
+  JournalEntryImportError,
+  JournalEntryImportField,
+  JournalEntryImportMapping,
+  ParsedJournalEntryFile,
+  ParsedJournalEntryImportEntry,
+} from '@/types/journalEntry.type'
+import { JOURNAL_ENTRY_IMPORT_FIELDS } from '@constants/import'
+import {
+  parseStatementAmount,
+  parseStatementDate,
+} from '@utils/bankStatementParser'
+import { mapSpreadsheetColumns } from '@utils/spreadsheetParser'
+
+/**
+ * Default column mapping: the labels of the import fields
+ */
+const DEFAULT_MAPPING = Object.fromEntries(
+  JOURNAL_ENTRY_IMPORT_FIELDS.map((field) => [field.key, field.label])
+) as unknown as JournalEntryImportMapping
+
+/**
+ * Parse an amount cell; blank cells are zero
+ * @returns The amount rounded to cents, or null if it is not a number
+ */
+const parseAmountCell = (value: string): number | null => {
+  if (!value) {
+    return 0
+  }
+  const amount = parseStatementAmount(value)
+  return amount === null ? null : Math.round(amount * 100) / 100
+}
+
+/**
+ * Format an amount in cents for error messages
+ */
+const formatAmount = (cents: number): string => (cents / 100).toFixed(2)
+
+/**
+ * Parse the rows of a journal entries file into entries
+ *
+ * Rows with the same entry number form one entry; rows without an entry
+ * number are grouped by date. Each row is a line with either a debit or a
+ * credit. Dates are read in the given format; Excel date cells are always
+ * read as YYYY-MM-DD. Without a mapping, columns are matched on the labels
+ * of the import fields and optional columns that are missing are ignored.
+ *
+ * Every row that cannot be read is reported, and the entries it belongs to
+ * are left out, as are entries that do not balance.
+ * @param rows - Rows of the file; the first row holds the headers
+ * @param options - Header name per import field, and the date format
+ */
+export const parseJournalEntryFile = (
+  rows: string[][],
+  options: { mapping?: JournalEntryImportMapping; dateFormat: CsvDateFormat }
+): ParsedJournalEntryFile => {
+  const [headers = [], ...dataRows] = rows
+  const errors: JournalEntryImportError[] = []
+  const parsedEntries: ParsedJournalEntryImportEntry[] = []
+
+  const { columns, missing } = mapSpreadsheetColumns<JournalEntryImportField>(
+    headers,
+    options.mapping ?? DEFAULT_MAPPING
+  )
+  const requiredMissing = options.mapping
+    ? missing
+    : missing.filter((name) =>
+        JOURNAL_ENTRY_IMPORT_FIELDS.some(
+          (field) => field.required && field.label === name
+        )
+      )
+  if (requiredMissing.length > 0) {
+    errors.push({
+      row: 1,
+      message: `Columns not found in the header: ${requiredMissing.join(', ')}`,
+    })
+    return { entries: [], errors, totalRows: dataRows.length, totalEntries: 0 }
+  }
+
+  const entries = new Map<string, ParsedJournalEntryImportEntry>()
+  const failedEntries = new Set<string>()
+
+  for (const [index, row] of dataRows.entries()) {
+    // Row 1 is the header
+    const rowNumber = index + 2
+    const cell = (field: JournalEntryImportField): string => {
+      const column = columns.get(field)
+      return column === undefined ? '' : (row.at(column) ?? '')
+    }
+    const fail = (key: string | null, message: string) => {
+      errors.push({ row: rowNumber, message })
+      if (key) {
+        failedEntries.add(key)
+      }
+    }
+
+    const entryNumber = cell('entryNumber') || null
+    const numberKey = entryNumber ? `number:${entryNumber.toLowerCase()}` : null
+    if (entryNumber && entryNumber.length > 100) {
+      fail(numberKey, 'Entry number must be at most 100 characters')
+      continue
+    }
+
+    const dateText = cell('entryDate')
+    if (!dateText) {
+      fail(numberKey, 'Date is required')
+      continue
+    }
+    const entryDate =
+      parseStatementDate(dateText, options.dateFormat) ??
+      // Excel date cells are read as YYYY-MM-DD whatever the format
+      parseStatementDate(dateText, 'YYYY-MM-DD')
+    if (!entryDate) {
+      fail(
+        numberKey,
+        `Date "${dateText}" is not in the ${options.dateFormat} format`
+      )
+      continue
+    }
+    const key = numberKey ?? `date:${entryDate}`
+
+    const accountNumber = cell('accountNumber')
+    if (!accountNumber) {
+      fail(key, 'Account number is required')
+      continue
+    }
+
+    const debitText = cell('debit')
+    const creditText = cell('credit')
+    const debit = parseAmountCell(debitText)
+    const credit = parseAmountCell(creditText)
+    if (debit === null) {
+      fail(key, `Debit "${debitText}" is not a number`)
+      continue
+    }
+    if (credit === null) {
+      fail(key, `Credit "${creditText}" is not a number`)
+      continue
+    }
+    if (debit < 0 || credit < 0) {
+      fail(key, 'Debit and credit must not be negative')
+      continue
+    }
+    const hasDebit = debit > 0
+    const hasCredit = credit > 0
+    if (hasDebit === hasCredit) {
+      fail(key, 'Line must have either a debit or a credit, but not both')
+      continue
+    }
+
+    const reference = cell('reference') || null
+    if (reference && reference.length > 255) {
+      fail(key, 'Reference must be at most 255 characters')
+      continue
+    }
+
+    const line = {
+      row: rowNumber,
+      accountNumber,
+      debit,
+      credit,
+      description: cell('description') || null,
+    }
+
+    const entry = entries.get(key)
+    if (!entry) {
+      entries.set(key, {
+        rows: [rowNumber],
+        entryNumber,
+        entryDate,
+        reference,
+        memo: cell('memo') || null,
+        lines: [line],
+      })
+      continue
+    }
+
+    if (entry.entryDate !== entryDate) {
+      fail(
+        key,
+        `Entry "${entryNumber}" has rows dated ${entry.entryDate} and ${entryDate}`
+      )
+      continue
+    }
+    entry.rows.push(rowNumber)
+    entry.lines.push(line)
+    entry.reference ??= reference
+    entry.memo ??= cell('memo') || null
+  }
+
+  for (const [key, entry] of entries) {
+    if (failedEntries.has(key)) {
+      continue
+    }
+
+    const name = entry.entryNumber
+      ? `Entry "${entry.entryNumber}"`
+      : `Entry dated ${entry.entryDate}`
+    const [firstRow = 0] = entry.rows
+
+    if (entry.lines.length < 2) {
+      errors.push({
+        row: firstRow,
+        message: `${name} must have at least 2 lines`,
+      })
+      continue
+    }
+
+    // Compare in cents to avoid floating point differences
+    const debitCents = entry.lines.reduce(
+      (sum, line) => sum + Math.round(line.debit * 100),
+      0
+    )
+    const creditCents = entry.lines.reduce(
+      (sum, line) => sum + Math.round(line.credit * 100),
+      0
+    )
+    if (debitCents !== creditCents) {
+      errors.push({
+        row: firstRow,
+        message: `${name} does not balance: debits ${formatAmount(debitCents)}, credits ${formatAmount(creditCents)}`,
+      })
+      continue
+    }
+
+    parsedEntries.push(entry)
+  }
+
+  errors.sort((a, b) => a.row - b.row)
+
+  return {
+    entries: parsedEntries,
+    errors,
+    totalRows: dataRows.length,
+    totalEntries: new Set([...entries.keys(), ...failedEntries]).size,
+  }
+}
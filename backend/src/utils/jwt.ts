@@ -1,5 +1,6 @@
 import jwt from 'jsonwebtoken'
 
+import type { DocumentDownloadTokenPayload } from '@/types/document.type'
 import type { JwtUser, TokenPayload } from '@/types/jwt.type'
 import { env } from '@config/env'
 import { HTTP_STATUS } from '@constants/http'
@@ -48,10 +49,10 @@ export const signTokens = (
  * @param secret - Secret key to verify against
  * @returns Decoded token payload
  */
-export const verifyToken = async (
+export const verifyToken = async <T = TokenPayload>(
   token: string,
   secret: string
-): Promise<TokenPayload> => {
+): Promise<T> => {
   return new Promise((resolve, reject) => {
     jwt.verify(token, secret, (error, decoded) => {
       if (error) {
@@ -62,7 +63,7 @@ export const verifyToken = async (
           )
         )
       } else {
-        resolve(decoded as TokenPayload)
+        resolve(decoded as T)
       }
     })
   })
@@ -89,3 +90,33 @@ export const verifyRefreshToken = async (
   const decoded = await verifyToken(token, env.REFRESH_TOKEN_SECRET)
   return decoded.user
 }
+
+/**
+ * Sign document download token
+ * @param tenantId - Tenant the document belongs to
+ * @param documentId - Document to download
+ * @returns Token valid for DOCUMENT_URL_EXPIRY_SECONDS
+ */
+export const signDocumentDownloadToken = (
+  tenantId: string,
+  documentId: string
+): string => {
+  return jwt.sign({ tenantId, documentId }, env.DOCUMENT_URL_SECRET, {
+    expiresIn: env.DOCUMENT_URL_EXPIRY_SECONDS,
+    algorithm: 'HS256',
+  } as jwt.SignOptions)
+}
+
+/**
+ * Verify document download token
+ * @param token - Download token to verify
+ * @returns Tenant and document the token was signed for
+ */
+export const verifyDocumentDownloadToken = async (
+  token: string
+): Promise<DocumentDownloadTokenPayload> => {
+  return verifyToken<DocumentDownloadTokenPayload>(
+    token,
+    env.DOCUMENT_URL_SECRET
+  )
+}
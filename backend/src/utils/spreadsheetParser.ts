@@ -0,0 +1,94 @@
+/**
+ * Spreadsheet Parser Utilities
+ * Reads CSV and Excel files uploaded for import into rows of text
+ */
+
+import { extname } from 'node:path'
+
+import * as XLSX from 'xlsx'
+
+import { ERROR_MESSAGES } from '@constants/errors'
+import { HTTP_STATUS } from '@constants/http'
+import { ApiError } from '@utils/ApiError'
+
+/**
+ * Read the rows of the first sheet of a CSV or Excel file as text
+ * CSV files are read as UTF-8 and their cells kept as written; Excel date
+ * cells are read as YYYY-MM-DD. Blank rows are skipped. The first row holds
+ * the headers.
+ * @throws ApiError if the file cannot be read
+ */
+export const readSpreadsheetRows = (
+  buffer: Buffer,
+  fileName: string
+): string[][] => {
+  let workbook: XLSX.WorkBook
+  try {
+    workbook =
+      extname(fileName).toLowerCase() === '.csv'
+        ? XLSX.read(buffer.toString('utf8').replace(/^\uFEFF/, ''), {
+            type: 'string',
+            raw: true,
+          })
+        : // Cells are formatted below, so that dates come out as YYYY-MM-DD
+          XLSX.read(buffer, {
+            type: 'buffer',
+            cellDates: true,
+            cellText: false,
+          })
+  } catch {
+    throw new ApiError(
+      HTTP_STATUS.BAD_REQUEST,
+      ERROR_MESSAGES.IMPORT_FILE_UNREADABLE
+    )
+  }
+
+  const [sheetName] = workbook.SheetNames
+  // eslint-disable-next-line security/detect-object-injection
+  const sheet = sheetName ? workbook.Sheets[sheetName] : undefined
+  if (!sheet) {
+    return []
+  }
+
+  const rows = XLSX.utils.sheet_to_json<unknown[]>(sheet, {
+    header: 1,
+    defval: '',
+    raw: false,
+    dateNF: 'yyyy-mm-dd',
+    blankrows: false,
+  })
+
+  return rows.map((row) => row.map((value) => String(value).trim()))
+}
+
+/**
+ * Find the columns of mapped fields in a header row
+ * Header names are matched case-insensitively
+ * @param headers - Header row
+ * @param mapping - Header name per field; unmapped fields are left out
+ * @returns Column index per mapped field, and the mapped names not found
+ */
+export const mapSpreadsheetColumns = <TField extends string>(
+  headers: string[],
+  mapping: Partial<Record<TField, string | undefined>>
+): { columns: Map<TField, number>; missing: string[] } => {
+  const normalizedHeaders = headers.map((header) => header.toLowerCase())
+  const columns = new Map<TField, number>()
+  const missing: string[] = []
+
+  for (const [field, name] of Object.entries(mapping) as Array<
+    [TField, string | undefined]
+  >) {
+    if (!name) {
+      continue
+    }
+    const index = normalizedHeaders.indexOf(name.trim().toLowerCase())
+    if (index === -1) {
+      missing.push(name)
+    } else {
+      columns.set(field, index)
+    }
+  }
+
+  return { columns, missing }
+}
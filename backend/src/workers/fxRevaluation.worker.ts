@@ -0,0 +1,100 @@
+/**
+ * FX Revaluation Worker
+ * Standalone worker process that posts unrealized FX gain/loss entries at fiscal period ends
+ */
+
+import logger from '@config/logger'
+import {
+  initializeFxRevaluationQueue,
+  initializeFxRevaluationQueueEvents,
+  processFxRevaluationQueue,
+  scheduleFxRevaluationScan,
+} from '@queues/fxRevaluation.queue'
+
+/**
+ * Graceful shutdown handler
+ */
+let isShuttingDown = false
+
+async function gracefulShutdown(signal: string): Promise<void> {
+  if (isShuttingDown) {
+    return
+  }
+
+  isShuttingDown = true
+  logger.info(`${signal} received, starting graceful shutdown...`)
+
+  try {
+    const { closeFxRevaluationQueue } = await import(
+      '@queues/fxRevaluation.queue'
+    )
+    const { default: db } = await import('@database/connection')
+
+    // Close FX revaluation queue, waiting for active jobs to finish
+    await closeFxRevaluationQueue()
+
+    // Close database connections
+    await db.destroy()
+
+    logger.info('FX revaluation worker shut down gracefully')
+    // eslint-disable-next-line node/no-process-exit
+    process.exit(0)
+  } catch (error) {
+    logger.error('Error during graceful shutdown:', error)
+    // eslint-disable-next-line node/no-process-exit
+    process.exit(1)
+  }
+}
+
+/**
+ * Start FX revaluation worker
+ */
+async function startFxRevaluationWorker(): Promise<void> {
+  try {
+    logger.info('Starting FX revaluation worker...')
+
+    // Initialize FX revaluation queue, events, and worker
+    initializeFxRevaluationQueue()
+    initializeFxRevaluationQueueEvents()
+    processFxRevaluationQueue()
+
+    // Scan for ended fiscal periods on the configured schedule
+    await scheduleFxRevaluationScan()
+
+    logger.info('FX revaluation worker ready - listening for jobs')
+
+    // Setup graceful shutdown handlers
+    process.on('SIGTERM', () => {
+      void gracefulShutdown('SIGTERM')
+    })
+    process.on('SIGINT', () => {
+      void gracefulShutdown('SIGINT')
+    })
+
+    // Handle uncaught errors
+    process.on('uncaughtException', (error) => {
+      logger.error('Uncaught exception in FX revaluation worker:', error)
+      void gracefulShutdown('UNCAUGHT_EXCEPTION')
+    })
+
+    process.on('unhandledRejection', (reason: unknown) => {
+      logger.error('Unhandled rejection in FX revaluation worker:', {
+        reason:
+          reason instanceof Error
+            ? {
+                message: reason.message,
+                stack: reason.stack,
+                name: reason.name,
+              }
+            : reason,
+      })
+      void gracefulShutdown('UNHANDLED_REJECTION')
+    })
+  } catch (error) {
+    logger.error('Failed to start FX revaluation worker:', error)
+    throw error
+  }
+}
+
+// Start the worker
+void startFxRevaluationWorker()
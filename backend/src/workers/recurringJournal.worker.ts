@@ -0,0 +1,100 @@
+/**
+ * Recurring Journal Worker
+ * Standalone worker process that generates journal entries from recurring templates
+ */
+
+import logger from '@config/logger'
+import {
+  initializeRecurringQueue,
+  initializeRecurringQueueEvents,
+  processRecurringQueue,
+  scheduleRecurringScan,
+} from '@queues/recurringJournal.queue'
+
+/**
+ * Graceful shutdown handler
+ */
+let isShuttingDown = false
+
+async function gracefulShutdown(signal: string): Promise<void> {
+  if (isShuttingDown) {
+    return
+  }
+
+  isShuttingDown = true
+  logger.info(`${signal} received, starting graceful shutdown...`)
+
+  try {
+    const { closeRecurringQueue } = await import(
+      '@queues/recurringJournal.queue'
+    )
+    const { default: db } = await import('@database/connection')
+
+    // Close recurring journal queue, waiting for active jobs to finish
+    await closeRecurringQueue()
+
+    // Close database connections
+    await db.destroy()
+
+    logger.info('Recurring journal worker shut down gracefully')
+    // eslint-disable-next-line node/no-process-exit
+    process.exit(0)
+  } catch (error) {
+    logger.error('Error during graceful shutdown:', error)
+    // eslint-disable-next-line node/no-process-exit
+    process.exit(1)
+  }
+}
+
+/**
+ * Start recurring journal worker
+ */
+async function startRecurringJournalWorker(): Promise<void> {
+  try {
+    logger.info('Starting recurring journal worker...')
+
+    // Initialize recurring journal queue, events, and worker
+    initializeRecurringQueue()
+    initializeRecurringQueueEvents()
+    processRecurringQueue()
+
+    // Scan for due templates on the configured schedule
+    await scheduleRecurringScan()
+
+    logger.info('Recurring journal worker ready - listening for jobs')
+
+    // Setup graceful shutdown handlers
+    process.on('SIGTERM', () => {
+      void gracefulShutdown('SIGTERM')
+    })
+    process.on('SIGINT', () => {
+      void gracefulShutdown('SIGINT')
+    })
+
+    // Handle uncaught errors
+    process.on('uncaughtException', (error) => {
+      logger.error('Uncaught exception in recurring journal worker:', error)
+      void gracefulShutdown('UNCAUGHT_EXCEPTION')
+    })
+
+    process.on('unhandledRejection', (reason: unknown) => {
+      logger.error('Unhandled rejection in recurring journal worker:', {
+        reason:
+          reason instanceof Error
+            ? {
+                message: reason.message,
+                stack: reason.stack,
+                name: reason.name,
+              }
+            : reason,
+      })
+      void gracefulShutdown('UNHANDLED_REJECTION')
+    })
+  } catch (error) {
+    logger.error('Failed to start recurring journal worker:', error)
+    throw error
+  }
+}
+
+// Start the worker
+void startRecurringJournalWorker()
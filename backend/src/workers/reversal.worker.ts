@@ -0,0 +1,98 @@
+/**
+ * Reversal Worker
+ * Standalone worker process that reverses journal entries on their reversal date
+ */
+
+import logger from '@config/logger'
+import {
+  initializeReversalQueue,
+  initializeReversalQueueEvents,
+  processReversalQueue,
+  scheduleReversalScan,
+} from '@queues/reversal.queue'
+
+/**
+ * Graceful shutdown handler
+ */
+let isShuttingDown = false
+
+async function gracefulShutdown(signal: string): Promise<void> {
+  if (isShuttingDown) {
+    return
+  }
+
+  isShuttingDown = true
+  logger.info(`${signal} received, starting graceful shutdown...`)
+
+  try {
+    const { closeReversalQueue } = await import('@queues/reversal.queue')
+    const { default: db } = await import('@database/connection')
+
+    // Close reversal queue, waiting for active jobs to finish
+    await closeReversalQueue()
+
+    // Close database connections
+    await db.destroy()
+
+    logger.info('Reversal worker shut down gracefully')
+    // eslint-disable-next-line node/no-process-exit
+    process.exit(0)
+  } catch (error) {
+    logger.error('Error during graceful shutdown:', error)
+    // eslint-disable-next-line node/no-process-exit
+    process.exit(1)
+  }
+}
+
+/**
+ * Start reversal worker
+ */
+async function startReversalWorker(): Promise<void> {
+  try {
+    logger.info('Starting reversal worker...')
+
+    // Initialize reversal queue, events, and worker
+    initializeReversalQueue()
+    initializeReversalQueueEvents()
+    processReversalQueue()
+
+    // Scan for due reversals on the configured schedule
+    await scheduleReversalScan()
+
+    logger.info('Reversal worker ready - listening for jobs')
+
+    // Setup graceful shutdown handlers
+    process.on('SIGTERM', () => {
+      void gracefulShutdown('SIGTERM')
+    })
+    process.on('SIGINT', () => {
+      void gracefulShutdown('SIGINT')
+    })
+
+    // Handle uncaught errors
+    process.on('uncaughtException', (error) => {
+      logger.error('Uncaught exception in reversal worker:', error)
+      void gracefulShutdown('UNCAUGHT_EXCEPTION')
+    })
+
+    process.on('unhandledRejection', (reason: unknown) => {
+      logger.error('Unhandled rejection in reversal worker:', {
+        reason:
+          reason instanceof Error
+            ? {
+                message: reason.message,
+                stack: reason.stack,
+                name: reason.name,
+              }
+            : reason,
+      })
+      void gracefulShutdown('UNHANDLED_REJECTION')
+    })
+  } catch (error) {
+    logger.error('Failed to start reversal worker:', error)
+    throw error
+  }
+}
+
+// Start the worker
+void startReversalWorker()
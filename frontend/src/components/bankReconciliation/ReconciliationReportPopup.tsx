@@ -0,0 +1,147 @@
+import { useBankReconciliationReport } from '../../services/apis/bankReconciliationApi';
+import type { BankReconciliationReportLine } from '../../types/bankReconciliation';
+import Loading from '../shared/Loading';
+import Popup from '../shared/Popup';
+
+type ReconciliationReportPopupProps = {
+    // Completed reconciliation to show; the popup is closed when undefined
+    reconciliationId: string | undefined;
+    onClose: () => void;
+};
+
+/**
+ * Show what a completed reconciliation cleared and what was still
+ * outstanding at the statement date
+ */
+const ReconciliationReportPopup = ({
+    reconciliationId,
+    onClose,
+}: ReconciliationReportPopupProps) => {
+    const { data, isLoading, error } =
+        useBankReconciliationReport(reconciliationId);
+    const report = data?.data;
+
+    const formatAmount = (amount: number) =>
+        new Intl.NumberFormat('en-US', {
+            style: 'currency',
+            currency: report?.currencyCode || 'USD',
+            minimumFractionDigits: 2,
+        }).format(amount);
+
+    const renderLines = (
+        title: string,
+        lines: BankReconciliationReportLine[]
+    ) => (
+        <div>
+            <h4 className="text-sm font-semibold text-primary mb-2">
+                {title} ({lines.length})
+            </h4>
+            {lines.length === 0 ? (
+                <p className="text-sm text-primary-50">None</p>
+            ) : (
+                <div className="max-h-60 overflow-y-auto border border-primary-10 rounded-2">
+                    <table className="w-full text-sm">
+                        <tbody>
+                            {lines.map((line) => (
+                                <tr
+                                    key={line.lineId}
+                                    className="border-b border-primary-10"
+                                >
+                                    <td className="px-3 py-2 text-primary-75 whitespace-nowrap">
+                                        {line.entryDate}
+                                    </td>
+                                    <td className="px-3 py-2 text-primary-75">
+                                        {line.entryNumber ?? '-'}
+                                    </td>
+                                    <td className="px-3 py-2 text-primary">
+                                        {line.description ?? '-'}
+                                    </td>
+                                    <td className="px-3 py-2 text-right text-primary whitespace-nowrap">
+                                        {formatAmount(line.amount)}
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+        </div>
+    );
+
+    return (
+        <Popup
+            isOpen={!!reconciliationId}
+            onClose={onClose}
+            title="Reconciliation Report"
+            size="4xl"
+        >
+            {isLoading ? (
+                <div className="flex items-center justify-center min-h-[200px]">
+                    <Loading />
+                </div>
+            ) : error || !report ? (
+                <div className="flex items-center justify-center min-h-[200px]">
+                    <p className="text-red-500">
+                        Failed to load reconciliation report
+                    </p>
+                </div>
+            ) : (
+                <div className="flex flex-col gap-6">
+                    <p className="text-sm text-primary-50">
+                        {report.accountName} · Statement of{' '}
+                        {report.statementDate} · Completed{' '}
+                        {new Date(report.completedAt).toLocaleDateString()}
+                    </p>
+                    <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+                        <div>
+                            <p className="text-sm text-primary-50">
+                                Opening balance
+                            </p>
+                            <p className="font-semibold text-primary">
+                                {formatAmount(report.summary.openingBalance)}
+                            </p>
+                        </div>
+                        <div>
+                            <p className="text-sm text-primary-50">
+                                Statement balance
+                            </p>
+                            <p className="font-semibold text-primary">
+                                {formatAmount(
+                                    report.summary.statementEndingBalance
+                                )}
+                            </p>
+                        </div>
+                        <div>
+                            <p className="text-sm text-primary-50">
+                                Cleared balance
+                            </p>
+                            <p className="font-semibold text-primary">
+                                {formatAmount(report.summary.clearedBalance)}
+                            </p>
+                        </div>
+                        <div>
+                            <p className="text-sm text-primary-50">
+                                Book balance
+                            </p>
+                            <p className="font-semibold text-primary">
+                                {formatAmount(report.bookBalance)}
+                            </p>
+                        </div>
+                    </div>
+                    {renderLines('Cleared deposits', report.clearedDeposits)}
+                    {renderLines('Cleared payments', report.clearedPayments)}
+                    {renderLines(
+                        'Outstanding deposits',
+                        report.outstandingDeposits
+                    )}
+                    {renderLines(
+                        'Outstanding payments',
+                        report.outstandingPayments
+                    )}
+                </div>
+            )}
+        </Popup>
+    );
+};
+
+export default ReconciliationReportPopup;
@@ -0,0 +1,337 @@
+import { useState } from 'react';
+import { FaEdit } from 'react-icons/fa';
+import {
+    useBankReconciliationLines,
+    useCancelBankReconciliation,
+    useClearBankReconciliationLines,
+    useFinalizeBankReconciliation,
+} from '../../services/apis/bankReconciliationApi';
+import type { BankReconciliation } from '../../types/bankReconciliation';
+import ConfirmationDialog from '../shared/ConfirmationDialog';
+import Loading from '../shared/Loading';
+import Button from '../typography/Button';
+import StatementPopup from './StatementPopup';
+
+const LINES_PER_PAGE = 50;
+
+type ReconciliationWorkspaceProps = {
+    reconciliation: BankReconciliation;
+    onFinalized: (reconciliation: BankReconciliation) => void;
+};
+
+/**
+ * Tick the transactions that appear on the bank statement of a
+ * reconciliation in progress
+ * The summary is recalculated by the server after every tick, so the
+ * reconciliation can be finalized as soon as the difference reaches zero
+ */
+const ReconciliationWorkspace = ({
+    reconciliation,
+    onFinalized,
+}: ReconciliationWorkspaceProps) => {
+    const [page, setPage] = useState(1);
+    const [showStatementPopup, setShowStatementPopup] = useState(false);
+    const [showCancelDialog, setShowCancelDialog] = useState(false);
+
+    const { data, isLoading, error } = useBankReconciliationLines(
+        reconciliation.id,
+        { page, limit: LINES_PER_PAGE }
+    );
+    const clearMutation = useClearBankReconciliationLines();
+    const finalizeMutation = useFinalizeBankReconciliation();
+    const cancelMutation = useCancelBankReconciliation();
+
+    const lines = data?.data?.items ?? [];
+    const summary = data?.data?.summary;
+    const pagination = data?.data?.pagination;
+    const isBalanced = !!summary && Math.abs(summary.difference) < 0.005;
+    const allLinesCleared =
+        lines.length > 0 && lines.every((line) => line.isCleared);
+
+    const formatAmount = (amount: number) =>
+        new Intl.NumberFormat('en-US', {
+            style: 'currency',
+            currency: reconciliation.account?.currencyCode || 'USD',
+            minimumFractionDigits: 2,
+        }).format(amount);
+
+    const handleClear = (lineIds: string[], cleared: boolean) => {
+        clearMutation.mutate({
+            id: reconciliation.id,
+            payload: { lineIds, cleared },
+        });
+    };
+
+    const handleFinalize = async () => {
+        try {
+            await finalizeMutation.mutateAsync(reconciliation.id);
+            onFinalized(reconciliation);
+        } catch {
+            // Error toast is shown by the mutation
+        }
+    };
+
+    const handleCancel = async () => {
+        try {
+            await cancelMutation.mutateAsync(reconciliation.id);
+            setShowCancelDialog(false);
+        } catch {
+            // Error toast is shown by the mutation
+        }
+    };
+
+    return (
+        <div className="flex flex-col gap-4">
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                <div>
+                    <h3 className="text-lg font-semibold text-primary">
+                        Statement of {reconciliation.statementDate.slice(0, 10)}
+                    </h3>
+                    <p className="text-sm text-primary-50">
+                        Tick every transaction that appears on the statement
+                    </p>
+                </div>
+                <div className="flex gap-3">
+                    <Button
+                        type="button"
+                        variant="outline"
+                        onClick={() => setShowStatementPopup(true)}
+                    >
+                        <FaEdit className="w-3 h-3" />
+                        Edit Statement
+                    </Button>
+                    <Button
+                        type="button"
+                        variant="outline"
+                        onClick={() => setShowCancelDialog(true)}
+                    >
+                        Cancel Reconciliation
+                    </Button>
+                    <Button
+                        type="button"
+                        variant="primary"
+                        onClick={handleFinalize}
+                        loading={finalizeMutation.isPending}
+                        disabled={!isBalanced || finalizeMutation.isPending}
+                    >
+                        Finalize
+                    </Button>
+                </div>
+            </div>
+
+            {/* Summary */}
+            {summary && (
+                <div className="grid grid-cols-2 sm:grid-cols-5 gap-4 bg-gray-50 rounded-2 p-4">
+                    <div>
+                        <p className="text-sm text-primary-50">
+                            Opening balance
+                        </p>
+                        <p className="font-semibold text-primary">
+                            {formatAmount(summary.openingBalance)}
+                        </p>
+                    </div>
+                    <div>
+                        <p className="text-sm text-primary-50">
+                            Cleared deposits
+                        </p>
+                        <p className="font-semibold text-primary">
+                            {formatAmount(summary.clearedDeposits)}
+                        </p>
+                    </div>
+                    <div>
+                        <p className="text-sm text-primary-50">
+                            Cleared payments
+                        </p>
+                        <p className="font-semibold text-primary">
+                            {formatAmount(summary.clearedPayments)}
+                        </p>
+                    </div>
+                    <div>
+                        <p className="text-sm text-primary-50">
+                            Statement balance
+                        </p>
+                        <p className="font-semibold text-primary">
+                            {formatAmount(summary.statementEndingBalance)}
+                        </p>
+                    </div>
+                    <div>
+                        <p className="text-sm text-primary-50">Difference</p>
+                        <p
+                            className={`font-bold ${
+                                isBalanced ? 'text-green-600' : 'text-red-500'
+                            }`}
+                        >
+                            {formatAmount(summary.difference)}
+                        </p>
+                    </div>
+                </div>
+            )}
+
+            {/* Lines */}
+            {isLoading ? (
+                <div className="flex items-center justify-center min-h-[200px]">
+                    <Loading />
+                </div>
+            ) : error ? (
+                <div className="flex items-center justify-center min-h-[200px]">
+                    <p className="text-red-500">
+                        Failed to load reconciliation lines
+                    </p>
+                </div>
+            ) : (
+                <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                        <thead>
+                            <tr className="bg-gray-50 border-b border-gray-200">
+                                <th className="py-3 px-4 w-10">
+                                    <input
+                                        type="checkbox"
+                                        checked={allLinesCleared}
+                                        disabled={
+                                            lines.length === 0 ||
+                                            clearMutation.isPending
+                                        }
+                                        onChange={() =>
+                                            handleClear(
+                                                lines.map(
+                                                    (line) => line.lineId
+                                                ),
+                                                !allLinesCleared
+                                            )
+                                        }
+                                        title="Tick every line on this page"
+                                    />
+                                </th>
+                                <th className="text-left py-3 px-4 font-semibold text-primary">
+                                    Date
+                                </th>
+                                <th className="text-left py-3 px-4 font-semibold text-primary">
+                                    Entry
+                                </th>
+                                <th className="text-left py-3 px-4 font-semibold text-primary">
+                                    Description
+                                </th>
+                                <th className="text-right py-3 px-4 font-semibold text-primary">
+                                    Deposit
+                                </th>
+                                <th className="text-right py-3 px-4 font-semibold text-primary">
+                                    Payment
+                                </th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {lines.length === 0 ? (
+                                <tr>
+                                    <td
+                                        colSpan={6}
+                                        className="py-6 text-center text-primary-50"
+                                    >
+                                        No posted transactions up to the
+                                        statement date
+                                    </td>
+                                </tr>
+                            ) : (
+                                lines.map((line) => (
+                                    <tr
+                                        key={line.lineId}
+                                        onClick={() =>
+                                            !clearMutation.isPending &&
+                                            handleClear(
+                                                [line.lineId],
+                                                !line.isCleared
+                                            )
+                                        }
+                                        className={`border-b border-gray-200 cursor-pointer ${
+                                            line.isCleared
+                                                ? 'bg-primary-10'
+                                                : 'hover:bg-gray-50'
+                                        }`}
+                                    >
+                                        <td className="py-3 px-4">
+                                            <input
+                                                type="checkbox"
+                                                checked={line.isCleared}
+                                                disabled={
+                                                    clearMutation.isPending
+                                                }
+                                                readOnly
+                                            />
+                                        </td>
+                                        <td className="py-3 px-4 text-primary-75 whitespace-nowrap">
+                                            {line.entryDate}
+                                        </td>
+                                        <td className="py-3 px-4 text-primary-75">
+                                            {line.entryNumber ?? '-'}
+                                        </td>
+                                        <td className="py-3 px-4 text-primary">
+                                            {line.description ??
+                                                line.reference ??
+                                                '-'}
+                                        </td>
+                                        <td className="py-3 px-4 text-right text-green-600 whitespace-nowrap">
+                                            {line.deposit
+                                                ? formatAmount(line.deposit)
+                                                : ''}
+                                        </td>
+                                        <td className="py-3 px-4 text-right text-red-500 whitespace-nowrap">
+                                            {line.payment
+                                                ? formatAmount(line.payment)
+                                                : ''}
+                                        </td>
+                                    </tr>
+                                ))
+                            )}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+
+            {pagination && pagination.totalPages > 1 && (
+                <div className="flex items-center justify-between text-sm text-primary-50">
+                    <span>
+                        Page {pagination.page} of {pagination.totalPages} ·{' '}
+                        {pagination.total} transactions
+                    </span>
+                    <div className="flex gap-3">
+                        <Button
+                            type="button"
+                            variant="outline"
+                            onClick={() => setPage(page - 1)}
+                            disabled={!pagination.hasPreviousPage}
+                        >
+                            Previous
+                        </Button>
+                        <Button
+                            type="button"
+                            variant="outline"
+                            onClick={() => setPage(page + 1)}
+                            disabled={!pagination.hasNextPage}
+                        >
+                            Next
+                        </Button>
+                    </div>
+                </div>
+            )}
+
+            <StatementPopup
+                key={`${reconciliation.id}-${reconciliation.updatedAt}`}
+                isOpen={showStatementPopup}
+                accountId={reconciliation.accountId}
+                reconciliation={reconciliation}
+                onClose={() => setShowStatementPopup(false)}
+            />
+            <ConfirmationDialog
+                isOpen={showCancelDialog}
+                onClose={() => setShowCancelDialog(false)}
+                onConfirm={handleCancel}
+                title="Cancel Reconciliation"
+                message="Are you sure you want to cancel this reconciliation? The ticked transactions will be unticked."
+                confirmText="Cancel Reconciliation"
+                confirmVariant="danger"
+                loading={cancelMutation.isPending}
+            />
+        </div>
+    );
+};
+
+export default ReconciliationWorkspace;
@@ -0,0 +1,141 @@
+import { useState } from 'react';
+import {
+    useStartBankReconciliation,
+    useUpdateBankReconciliation,
+} from '../../services/apis/bankReconciliationApi';
+import type { BankReconciliation } from '../../types/bankReconciliation';
+import Popup from '../shared/Popup';
+import Button from '../typography/Button';
+import { InputField } from '../typography/InputFields';
+
+type StatementPopupProps = {
+    isOpen: boolean;
+    // Bank account a new reconciliation is started for
+    accountId: string;
+    // Reconciliation whose statement is edited; a new one is started when null
+    reconciliation: BankReconciliation | null;
+    onClose: () => void;
+};
+
+/**
+ * Start a bank reconciliation from a statement, or correct the statement
+ * of a reconciliation in progress
+ */
+const StatementPopup = ({
+    isOpen,
+    accountId,
+    reconciliation,
+    onClose,
+}: StatementPopupProps) => {
+    const [statementDate, setStatementDate] = useState(
+        reconciliation?.statementDate.slice(0, 10) ?? ''
+    );
+    const [endingBalance, setEndingBalance] = useState(
+        reconciliation ? String(reconciliation.statementEndingBalance) : ''
+    );
+
+    const startMutation = useStartBankReconciliation();
+    const updateMutation = useUpdateBankReconciliation();
+    const isPending = startMutation.isPending || updateMutation.isPending;
+
+    const balance = Number(endingBalance);
+    const isValid =
+        !!statementDate &&
+        endingBalance.trim() !== '' &&
+        Number.isFinite(balance);
+
+    const handleClose = () => {
+        setStatementDate(reconciliation?.statementDate.slice(0, 10) ?? '');
+        setEndingBalance(
+            reconciliation ? String(reconciliation.statementEndingBalance) : ''
+        );
+        onClose();
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!isValid) return;
+
+        try {
+            if (reconciliation) {
+                await updateMutation.mutateAsync({
+                    id: reconciliation.id,
+                    payload: {
+                        statementDate,
+                        statementEndingBalance: balance,
+                    },
+                });
+            } else {
+                await startMutation.mutateAsync({
+                    accountId,
+                    statementDate,
+                    statementEndingBalance: balance,
+                });
+            }
+            handleClose();
+        } catch {
+            // Error toast is shown by the mutation
+        }
+    };
+
+    return (
+        <Popup
+            isOpen={isOpen}
+            onClose={handleClose}
+            title={reconciliation ? 'Edit Statement' : 'Start Reconciliation'}
+            size="md"
+            loading={isPending}
+            footer={
+                <div className="flex gap-3">
+                    <Button
+                        type="button"
+                        variant="outline"
+                        onClick={handleClose}
+                        disabled={isPending}
+                    >
+                        Cancel
+                    </Button>
+                    <Button
+                        type="submit"
+                        variant="primary"
+                        form="bank-statement-form"
+                        loading={isPending}
+                        disabled={!isValid || isPending}
+                    >
+                        {reconciliation ? 'Save' : 'Start'}
+                    </Button>
+                </div>
+            }
+        >
+            <form
+                id="bank-statement-form"
+                onSubmit={handleSubmit}
+                className="flex flex-col gap-4"
+            >
+                <p className="text-sm text-primary-50">
+                    Enter the closing date and balance printed on the bank
+                    statement. Only transactions up to that date can be ticked.
+                </p>
+                <InputField
+                    id="bank-statement-date"
+                    label="Statement Date"
+                    type="date"
+                    required
+                    value={statementDate}
+                    onChange={(e) => setStatementDate(e.target.value)}
+                />
+                <InputField
+                    id="bank-statement-ending-balance"
+                    label="Ending Balance"
+                    type="number"
+                    step="0.01"
+                    required
+                    value={endingBalance}
+                    onChange={(e) => setEndingBalance(e.target.value)}
+                />
+            </form>
+        </Popup>
+    );
+};
+
+export default StatementPopup;
@@ -0,0 +1,633 @@
+import { useMemo, useState } from 'react';
+import { FaPlus, FaTrash } from 'react-icons/fa';
+import Popup from '../shared/Popup';
+import Button from '../typography/Button';
+import {
+    InputField,
+    SelectField,
+    TextareaField,
+} from '../typography/InputFields';
+import { useChartOfAccounts } from '../../services/apis/chartsAccountApi';
+import { useContacts } from '../../services/apis/contactApi';
+import type {
+    Bill,
+    BillLinePayload,
+    BillType,
+    CreateBillPayload,
+} from '../../types/bill';
+
+/**
+ * Line item of the form
+ * An empty accountId uses the vendor's default expense account. taxGroupId
+ * undefined uses the vendor's default tax group; null means not taxed.
+ */
+type LineItem = {
+    key: string;
+    description: string;
+    quantity: string;
+    unitPrice: string;
+    accountId: string;
+    taxGroupId?: string | null;
+    isTaxRecoverable: boolean;
+};
+
+type BillFormState = {
+    billType: BillType;
+    contactId: string;
+    billNumber: string;
+    billDate: string;
+    dueDate: string;
+    paymentAccountId: string;
+    reference: string;
+    memo: string;
+    lines: LineItem[];
+};
+
+type BillFormModalProps = {
+    isOpen: boolean;
+    onClose: () => void;
+    bill?: Bill | null;
+    isSubmitting?: boolean;
+    onSaveDraft: (payload: CreateBillPayload) => void;
+    onSaveAndPost: (payload: CreateBillPayload) => void;
+};
+
+const BILL_TYPE_OPTIONS = [
+    { value: 'bill', label: 'Bill (pay later)' },
+    { value: 'expense', label: 'Expense (already paid)' },
+];
+
+const currencyFormatter = new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 2,
+});
+
+const toDateInput = (date: Date) => date.toISOString().split('T')[0];
+
+const createLineItem = (): LineItem => ({
+    key: Date.now().toString(),
+    description: '',
+    quantity: '1',
+    unitPrice: '',
+    accountId: '',
+    isTaxRecoverable: true,
+});
+
+const toInitialFormState = (bill?: Bill | null): BillFormState => {
+    if (bill) {
+        return {
+            billType: bill.billType,
+            contactId: bill.contactId ?? '',
+            billNumber: bill.billNumber ?? '',
+            billDate: bill.billDate,
+            dueDate: bill.dueDate,
+            paymentAccountId: bill.paymentAccountId ?? '',
+            reference: bill.reference ?? '',
+            memo: bill.memo ?? '',
+            lines: (bill.lines ?? []).map((line) => ({
+                key: line.id,
+                description: line.description,
+                quantity: String(line.quantity),
+                unitPrice: String(line.unitPrice),
+                accountId: line.accountId,
+                taxGroupId: line.taxGroupId,
+                isTaxRecoverable: line.isTaxRecoverable,
+            })),
+        };
+    }
+
+    return {
+        billType: 'bill',
+        contactId: '',
+        billNumber: '',
+        billDate: toDateInput(new Date()),
+        dueDate: '',
+        paymentAccountId: '',
+        reference: '',
+        memo: '',
+        lines: [createLineItem()],
+    };
+};
+
+// Empty inputs are sent as null so editing a draft clears them
+const toPayload = (form: BillFormState): CreateBillPayload => {
+    const isExpense = form.billType === 'expense';
+
+    return {
+        billType: form.billType,
+        contactId: form.contactId || null,
+        billNumber: form.billNumber.trim() || null,
+        billDate: form.billDate,
+        ...(!isExpense && form.dueDate ? { dueDate: form.dueDate } : {}),
+        paymentAccountId: isExpense ? form.paymentAccountId || null : null,
+        reference: form.reference.trim() || null,
+        memo: form.memo.trim() || null,
+        lines: form.lines.map(
+            (line): BillLinePayload => ({
+                description: line.description.trim(),
+                quantity: Number(line.quantity),
+                unitPrice: Number(line.unitPrice),
+                ...(line.accountId ? { accountId: line.accountId } : {}),
+                ...(line.taxGroupId !== undefined
+                    ? { taxGroupId: line.taxGroupId }
+                    : {}),
+                isTaxRecoverable: line.isTaxRecoverable,
+            })
+        ),
+    };
+};
+
+const BillFormModal = ({
+    isOpen,
+    onClose,
+    bill,
+    isSubmitting = false,
+    onSaveDraft,
+    onSaveAndPost,
+}: BillFormModalProps) => {
+    const [formData, setFormData] = useState<BillFormState>(() =>
+        toInitialFormState(bill)
+    );
+    const [formErrors, setFormErrors] = useState<Record<string, string>>({});
+
+    // API hooks
+    const { data: vendorsData } = useContacts({
+        contactType: 'vendor',
+        isActive: true,
+        limit: 100,
+    });
+    const { data: accountsData } = useChartOfAccounts({
+        isActive: true,
+        limit: 100,
+    });
+
+    // Lines debit expense accounts; expenses are paid from asset accounts
+    const { vendorOptions, expenseOptions, paymentOptions } = useMemo(() => {
+        const vendors = vendorsData?.data?.items || [];
+        const accounts = accountsData?.data?.items || [];
+        const toOptions = (type: string) =>
+            accounts
+                .filter((account) => (account.accountType as string) === type)
+                .map((account) => ({
+                    value: account.id,
+                    label: `${account.accountNumber} - ${account.accountName}`,
+                }));
+        return {
+            vendorOptions: [
+                { value: '', label: 'No vendor' },
+                ...vendors.map((vendor) => ({
+                    value: vendor.id,
+                    label: vendor.displayName,
+                })),
+            ],
+            expenseOptions: [
+                { value: '', label: "Vendor's default" },
+                ...toOptions('expense'),
+            ],
+            paymentOptions: [
+                { value: '', label: 'Select account' },
+                ...toOptions('asset'),
+            ],
+        };
+    }, [vendorsData, accountsData]);
+
+    const isExpense = formData.billType === 'expense';
+
+    // Tax is calculated by the server from the tax groups
+    const subtotal = formData.lines.reduce(
+        (sum, line) =>
+            sum + (Number(line.quantity) || 0) * (Number(line.unitPrice) || 0),
+        0
+    );
+
+    const updateField = <K extends keyof BillFormState>(
+        field: K,
+        value: BillFormState[K]
+    ) => {
+        setFormData((prev) => ({ ...prev, [field]: value }));
+        if (formErrors[field]) {
+            setFormErrors((prev) => ({ ...prev, [field]: '' }));
+        }
+    };
+
+    const updateLine = (key: string, changes: Partial<LineItem>) => {
+        setFormData((prev) => ({
+            ...prev,
+            lines: prev.lines.map((line) =>
+                line.key === key ? { ...line, ...changes } : line
+            ),
+        }));
+        if (formErrors.lines) {
+            setFormErrors((prev) => ({ ...prev, lines: '' }));
+        }
+    };
+
+    const handleAddLine = () => {
+        setFormData((prev) => ({
+            ...prev,
+            lines: [...prev.lines, createLineItem()],
+        }));
+    };
+
+    const handleRemoveLine = (key: string) => {
+        setFormData((prev) => ({
+            ...prev,
+            lines: prev.lines.filter((line) => line.key !== key),
+        }));
+    };
+
+    // Validate form
+    const validateForm = (): boolean => {
+        const errors: Record<string, string> = {};
+
+        if (!isExpense && !formData.contactId) {
+            errors.contactId = 'Bills need a vendor';
+        }
+
+        if (isExpense && !formData.paymentAccountId) {
+            errors.paymentAccountId =
+                'Select the bank or cash account the expense was paid from';
+        }
+
+        if (!formData.billDate) {
+            errors.billDate = 'Date is required';
+        }
+
+        if (
+            !isExpense &&
+            formData.dueDate &&
+            formData.dueDate < formData.billDate
+        ) {
+            errors.dueDate = 'Due date must be on or after the bill date';
+        }
+
+        if (formData.lines.length === 0) {
+            errors.lines = 'Add at least one line';
+        } else if (
+            formData.lines.some(
+                (line) =>
+                    !line.description.trim() ||
+                    !(Number(line.quantity) > 0) ||
+                    line.unitPrice === '' ||
+                    Number(line.unitPrice) < 0
+            )
+        ) {
+            errors.lines =
+                'Each line needs a description, a quantity above 0 and a price';
+        } else if (subtotal <= 0) {
+            errors.lines = 'Bill total must be greater than 0';
+        }
+
+        setFormErrors(errors);
+        return Object.keys(errors).length === 0;
+    };
+
+    const handleSubmit = (post: boolean) => {
+        if (!validateForm()) {
+            return;
+        }
+
+        const payload = toPayload(formData);
+        if (post) {
+            onSaveAndPost(payload);
+        } else {
+            onSaveDraft(payload);
+        }
+    };
+
+    return (
+        <Popup
+            isOpen={isOpen}
+            onClose={onClose}
+            title={bill ? 'Edit Bill' : 'New Bill'}
+            size="4xl"
+            loading={isSubmitting}
+            footer={
+                <div className="flex gap-3">
+                    <Button
+                        type="button"
+                        variant="outline"
+                        onClick={onClose}
+                        disabled={isSubmitting}
+                    >
+                        Cancel
+                    </Button>
+                    <Button
+                        type="button"
+                        variant="outline"
+                        onClick={() => handleSubmit(false)}
+                        disabled={isSubmitting}
+                    >
+                        Save Draft
+                    </Button>
+                    <Button
+                        type="button"
+                        variant="primary"
+                        onClick={() => handleSubmit(true)}
+                        loading={isSubmitting}
+                        disabled={isSubmitting}
+                    >
+                        Save & Post
+                    </Button>
+                </div>
+            }
+        >
+            <form
+                id="bill-form"
+                onSubmit={(e) => {
+                    e.preventDefault();
+                    handleSubmit(false);
+                }}
+                className="flex flex-col gap-4"
+            >
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                    <SelectField
+                        id="bill-type"
+                        label="Type"
+                        value={formData.billType}
+                        onChange={(e) =>
+                            updateField('billType', e.target.value as BillType)
+                        }
+                        required
+                        options={BILL_TYPE_OPTIONS}
+                    />
+                    <div>
+                        <SelectField
+                            id="bill-vendor"
+                            label="Vendor"
+                            value={formData.contactId}
+                            onChange={(e) =>
+                                updateField('contactId', e.target.value)
+                            }
+                            required={!isExpense}
+                            options={vendorOptions}
+                        />
+                        {formErrors.contactId && (
+                            <p className="text-red-500 text-xs mt-1">
+                                {formErrors.contactId}
+                            </p>
+                        )}
+                    </div>
+                    <InputField
+                        id="bill-number"
+                        label={isExpense ? 'Receipt Number' : 'Bill Number'}
+                        maxLength={50}
+                        value={formData.billNumber}
+                        onChange={(e) =>
+                            updateField('billNumber', e.target.value)
+                        }
+                    />
+                    <div>
+                        <InputField
+                            id="bill-date"
+                            label="Date"
+                            type="date"
+                            value={formData.billDate}
+                            onChange={(e) =>
+                                updateField('billDate', e.target.value)
+                            }
+                            required
+                        />
+                        {formErrors.billDate && (
+                            <p className="text-red-500 text-xs mt-1">
+                                {formErrors.billDate}
+                            </p>
+                        )}
+                    </div>
+                    {isExpense ? (
+                        <div>
+                            <SelectField
+                                id="bill-payment-account"
+                                label="Paid From"
+                                value={formData.paymentAccountId}
+                                onChange={(e) =>
+                                    updateField(
+                                        'paymentAccountId',
+                                        e.target.value
+                                    )
+                                }
+                                required
+                                options={paymentOptions}
+                            />
+                            {formErrors.paymentAccountId && (
+                                <p className="text-red-500 text-xs mt-1">
+                                    {formErrors.paymentAccountId}
+                                </p>
+                            )}
+                        </div>
+                    ) : (
+                        <div>
+                            <InputField
+                                id="bill-due-date"
+                                label="Due Date"
+                                type="date"
+                                value={formData.dueDate}
+                                onChange={(e) =>
+                                    updateField('dueDate', e.target.value)
+                                }
+                            />
+                            {formErrors.dueDate ? (
+                                <p className="text-red-500 text-xs mt-1">
+                                    {formErrors.dueDate}
+                                </p>
+                            ) : (
+                                !formData.dueDate && (
+                                    <p className="text-xs text-primary-50 mt-1">
+                                        Empty uses the vendor's payment terms
+                                    </p>
+                                )
+                            )}
+                        </div>
+                    )}
+                    <InputField
+                        id="bill-reference"
+                        label="Reference"
+                        maxLength={255}
+                        value={formData.reference}
+                        onChange={(e) =>
+                            updateField('reference', e.target.value)
+                        }
+                    />
+                </div>
+
+                {/* Lines */}
+                <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                        <thead className="bg-primary-10">
+                            <tr>
+                                <th className="px-3 py-2 text-left font-semibold text-primary">
+                                    Description
+                                </th>
+                                <th className="px-3 py-2 text-left font-semibold text-primary w-56">
+                                    Expense Account
+                                </th>
+                                <th className="px-3 py-2 text-right font-semibold text-primary w-24">
+                                    Qty
+                                </th>
+                                <th className="px-3 py-2 text-right font-semibold text-primary w-32">
+                                    Price
+                                </th>
+                                <th className="px-3 py-2 text-center font-semibold text-primary w-16">
+                                    Taxed
+                                </th>
+                                <th className="px-3 py-2 text-center font-semibold text-primary w-24">
+                                    Recoverable
+                                </th>
+                                <th className="px-3 py-2 text-right font-semibold text-primary w-28">
+                                    Amount
+                                </th>
+                                <th className="w-10" />
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {formData.lines.map((line) => (
+                                <tr
+                                    key={line.key}
+                                    className="border-b border-primary-10 align-top"
+                                >
+                                    <td className="px-3 py-2">
+                                        <InputField
+                                            id={`bill-line-description-${line.key}`}
+                                            placeholder="Description"
+                                            value={line.description}
+                                            onChange={(e) =>
+                                                updateLine(line.key, {
+                                                    description: e.target.value,
+                                                })
+                                            }
+                                        />
+                                    </td>
+                                    <td className="px-3 py-2">
+                                        <SelectField
+                                            id={`bill-line-account-${line.key}`}
+                                            value={line.accountId}
+                                            onChange={(e) =>
+                                                updateLine(line.key, {
+                                                    accountId: e.target.value,
+                                                })
+                                            }
+                                            options={expenseOptions}
+                                        />
+                                    </td>
+                                    <td className="px-3 py-2">
+                                        <InputField
+                                            id={`bill-line-quantity-${line.key}`}
+                                            type="number"
+                                            min={0}
+                                            step="any"
+                                            value={line.quantity}
+                                            onChange={(e) =>
+                                                updateLine(line.key, {
+                                                    quantity: e.target.value,
+                                                })
+                                            }
+                                        />
+                                    </td>
+                                    <td className="px-3 py-2">
+                                        <InputField
+                                            id={`bill-line-price-${line.key}`}
+                                            type="number"
+                                            min={0}
+                                            step="0.01"
+                                            placeholder="0.00"
+                                            value={line.unitPrice}
+                                            onChange={(e) =>
+                                                updateLine(line.key, {
+                                                    unitPrice: e.target.value,
+                                                })
+                                            }
+                                        />
+                                    </td>
+                                    <td className="px-3 py-2 text-center">
+                                        <input
+                                            type="checkbox"
+                                            className="mt-3"
+                                            title="Use the vendor's tax group"
+                                            checked={line.taxGroupId !== null}
+                                            onChange={(e) =>
+                                                updateLine(line.key, {
+                                                    taxGroupId: e.target.checked
+                                                        ? undefined
+                                                        : null,
+                                                })
+                                            }
+                                        />
+                                    </td>
+                                    <td className="px-3 py-2 text-center">
+                                        <input
+                                            type="checkbox"
+                                            className="mt-3"
+                                            title="Tax can be reclaimed"
+                                            checked={line.isTaxRecoverable}
+                                            disabled={line.taxGroupId === null}
+                                            onChange={(e) =>
+                                                updateLine(line.key, {
+                                                    isTaxRecoverable:
+                                                        e.target.checked,
+                                                })
+                                            }
+                                        />
+                                    </td>
+                                    <td className="px-3 py-2 pt-4 text-right text-primary">
+                                        {currencyFormatter.format(
+                                            (Number(line.quantity) || 0) *
+                                                (Number(line.unitPrice) || 0)
+                                        )}
+                                    </td>
+                                    <td className="px-1 py-2">
+                                        <button
+                                            type="button"
+                                            onClick={() =>
+                                                handleRemoveLine(line.key)
+                                            }
+                                            className="p-2 mt-1 text-red-400 hover:text-red-600 hover:bg-red-50 rounded transition-colors"
+                                            title="Remove line"
+                                        >
+                                            <FaTrash className="w-4 h-4" />
+                                        </button>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+                {formErrors.lines && (
+                    <p className="text-red-500 text-xs">{formErrors.lines}</p>
+                )}
+                <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-4">
+                    <Button
+                        type="button"
+                        variant="outline"
+                        onClick={handleAddLine}
+                        icon={<FaPlus />}
+                    >
+                        Add Line
+                    </Button>
+                    <div className="w-full sm:w-72 space-y-1 text-sm">
+                        <div className="flex justify-between font-semibold">
+                            <span className="text-primary">Subtotal</span>
+                            <span className="text-primary">
+                                {currencyFormatter.format(subtotal)}
+                            </span>
+                        </div>
+                        <p className="text-xs text-primary-50">
+                            Tax is calculated from the vendor's tax group when
+                            the bill is saved. Tax that is not recoverable is
+                            added to the expense.
+                        </p>
+                    </div>
+                </div>
+
+                <TextareaField
+                    id="bill-memo"
+                    label="Memo"
+                    value={formData.memo}
+                    onChange={(e) => updateField('memo', e.target.value)}
+                />
+            </form>
+        </Popup>
+    );
+};
+
+export default BillFormModal;
@@ -0,0 +1,132 @@
+import { useState } from 'react';
+import {
+    useApplyBudgetGrowth,
+    useCopyBudgetActuals,
+} from '../../services/apis/budgetApi';
+import type { Budget } from '../../types/budget';
+import Popup from '../shared/Popup';
+import Button from '../typography/Button';
+import { InputField } from '../typography/InputFields';
+
+export type BudgetGrowthMode = 'copy-actuals' | 'apply-growth';
+
+const MODE_CONFIG: Record<
+    BudgetGrowthMode,
+    { title: string; description: string; submitLabel: string }
+> = {
+    'copy-actuals': {
+        title: "Copy Last Year's Actuals",
+        description:
+            'Each month gets the posted revenue and expenses of the same month a year earlier, grown by the percentage. All the current amounts of the budget are replaced.',
+        submitLabel: 'Copy Actuals',
+    },
+    'apply-growth': {
+        title: 'Apply Growth',
+        description:
+            'Every amount of the budget is grown by the percentage. Use a negative percentage to lower the amounts.',
+        submitLabel: 'Apply',
+    },
+};
+
+type BudgetGrowthPopupProps = {
+    budget: Budget | null;
+    mode: BudgetGrowthMode;
+    onClose: () => void;
+};
+
+/**
+ * Fill a budget from last year's actuals, or grow its amounts, by a
+ * percentage
+ */
+const BudgetGrowthPopup = ({
+    budget,
+    mode,
+    onClose,
+}: BudgetGrowthPopupProps) => {
+    const [growthPercent, setGrowthPercent] = useState('0');
+
+    const copyMutation = useCopyBudgetActuals();
+    const growthMutation = useApplyBudgetGrowth();
+    const isPending = copyMutation.isPending || growthMutation.isPending;
+    const config = MODE_CONFIG[mode];
+
+    const percent = Number(growthPercent);
+    const isValid =
+        growthPercent.trim() !== '' &&
+        Number.isFinite(percent) &&
+        percent >= -100 &&
+        percent <= 1000;
+
+    const handleClose = () => {
+        setGrowthPercent('0');
+        onClose();
+    };
+
+    const handleSubmit = async () => {
+        if (!budget || !isValid) return;
+
+        try {
+            if (mode === 'copy-actuals') {
+                await copyMutation.mutateAsync({
+                    id: budget.id,
+                    payload: { growthPercent: percent },
+                });
+            } else {
+                await growthMutation.mutateAsync({
+                    id: budget.id,
+                    payload: { growthPercent: percent },
+                });
+            }
+            handleClose();
+        } catch {
+            // Error toast is shown by the mutation
+        }
+    };
+
+    return (
+        <Popup
+            isOpen={!!budget}
+            onClose={handleClose}
+            title={config.title}
+            size="md"
+            loading={isPending}
+            footer={
+                <div className="flex gap-3">
+                    <Button
+                        type="button"
+                        variant="outline"
+                        onClick={handleClose}
+                        disabled={isPending}
+                    >
+                        Cancel
+                    </Button>
+                    <Button
+                        type="button"
+                        variant="primary"
+                        onClick={handleSubmit}
+                        loading={isPending}
+                        disabled={!isValid || isPending}
+                    >
+                        {config.submitLabel}
+                    </Button>
+                </div>
+            }
+        >
+            <div className="flex flex-col gap-4">
+                <p className="text-sm text-primary-50">{config.description}</p>
+                <InputField
+                    id="budget-growth-percent"
+                    label="Growth (%)"
+                    type="number"
+                    step="0.01"
+                    min={-100}
+                    max={1000}
+                    value={growthPercent}
+                    onChange={(e) => setGrowthPercent(e.target.value)}
+                />
+            </div>
+        </Popup>
+    );
+};
+
+export default BudgetGrowthPopup;
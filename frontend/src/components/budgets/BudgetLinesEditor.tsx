@@ -0,0 +1,302 @@
+import { useMemo, useState } from 'react';
+import { FaTrash } from 'react-icons/fa';
+import { useUpdateBudget } from '../../services/apis/budgetApi';
+import { useChartOfAccounts } from '../../services/apis/chartsAccountApi';
+import type { Budget } from '../../types/budget';
+import Button from '../typography/Button';
+
+const currencyFormatter = new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 2,
+});
+
+// Budgets only hold revenue and expense accounts
+const BALANCE_SHEET_ACCOUNT_TYPES = ['asset', 'liability', 'equity'];
+
+type DraftLine = {
+    accountId: string;
+    accountNumber: string | null;
+    accountName: string | null;
+    // Kept as typed so partial numbers can be edited
+    amounts: string[];
+};
+
+type BudgetLinesEditorProps = {
+    budget: Budget;
+};
+
+/**
+ * Convert a typed amount to a number, treating blanks as zero
+ */
+const toAmount = (value: string) => {
+    const amount = Number(value);
+    return Number.isFinite(amount) ? amount : 0;
+};
+
+/**
+ * Edit the amounts of a budget, one row per account and one column per month
+ * of its fiscal year
+ * Saving replaces all the lines of the budget
+ */
+const BudgetLinesEditor = ({ budget }: BudgetLinesEditorProps) => {
+    const months = useMemo(() => budget.months ?? [], [budget.months]);
+    const initialLines = useMemo<DraftLine[]>(
+        () =>
+            (budget.lines ?? []).map((line) => ({
+                accountId: line.accountId,
+                accountNumber: line.accountNumber,
+                accountName: line.accountName,
+                amounts: line.amounts.map(String),
+            })),
+        [budget.lines]
+    );
+    const [lines, setLines] = useState<DraftLine[]>(initialLines);
+    const [isDirty, setIsDirty] = useState(false);
+
+    const { data: accountsData } = useChartOfAccounts({
+        isActive: true,
+        limit: 100,
+        sort: 'accountNumber',
+        order: 'asc',
+    });
+    const updateMutation = useUpdateBudget();
+
+    const availableAccounts = (accountsData?.data?.items ?? []).filter(
+        (account) =>
+            !BALANCE_SHEET_ACCOUNT_TYPES.includes(account.accountType) &&
+            !lines.some((line) => line.accountId === account.id)
+    );
+
+    const updateLines = (next: DraftLine[]) => {
+        setLines(next);
+        setIsDirty(true);
+    };
+
+    const handleAmountChange = (
+        accountId: string,
+        monthIndex: number,
+        value: string
+    ) => {
+        updateLines(
+            lines.map((line) =>
+                line.accountId === accountId
+                    ? {
+                          ...line,
+                          amounts: line.amounts.map((amount, index) =>
+                              index === monthIndex ? value : amount
+                          ),
+                      }
+                    : line
+            )
+        );
+    };
+
+    const handleAddAccount = (accountId: string) => {
+        const account = availableAccounts.find(
+            (candidate) => candidate.id === accountId
+        );
+        if (!account) return;
+
+        updateLines([
+            ...lines,
+            {
+                accountId: account.id,
+                accountNumber: account.accountNumber,
+                accountName: account.accountName,
+                amounts: months.map(() => '0'),
+            },
+        ]);
+    };
+
+    const handleDiscard = () => {
+        setLines(initialLines);
+        setIsDirty(false);
+    };
+
+    const handleSave = async () => {
+        try {
+            await updateMutation.mutateAsync({
+                id: budget.id,
+                payload: {
+                    lines: lines.map((line) => ({
+                        accountId: line.accountId,
+                        amounts: line.amounts.map(toAmount),
+                    })),
+                },
+            });
+            setIsDirty(false);
+        } catch {
+            // Error toast is shown by the mutation
+        }
+    };
+
+    const monthTotals = months.map((_month, index) =>
+        lines.reduce((sum, line) => sum + toAmount(line.amounts[index]), 0)
+    );
+
+    return (
+        <div className="flex flex-col gap-4">
+            <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                    <thead>
+                        <tr className="bg-gray-50 border-b border-gray-200">
+                            <th className="text-left py-3 px-4 font-semibold text-primary min-w-[200px] sticky left-0 bg-gray-50">
+                                Account
+                            </th>
+                            {months.map((month) => (
+                                <th
+                                    key={month.month}
+                                    className="text-right py-3 px-2 font-semibold text-primary whitespace-nowrap"
+                                >
+                                    {month.label}
+                                </th>
+                            ))}
+                            <th className="text-right py-3 px-4 font-semibold text-primary">
+                                Total
+                            </th>
+                            <th className="py-3 px-2" />
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {lines.length === 0 ? (
+                            <tr>
+                                <td
+                                    colSpan={months.length + 3}
+                                    className="py-6 text-center text-primary-50"
+                                >
+                                    No amounts yet. Add an account, copy last
+                                    year's actuals or import a file.
+                                </td>
+                            </tr>
+                        ) : (
+                            lines.map((line) => (
+                                <tr
+                                    key={line.accountId}
+                                    className="border-b border-gray-200"
+                                >
+                                    <td className="py-2 px-4 text-primary sticky left-0 bg-white">
+                                        {line.accountNumber
+                                            ? `${line.accountNumber} · `
+                                            : ''}
+                                        {line.accountName}
+                                    </td>
+                                    {line.amounts.map((amount, index) => (
+                                        <td key={index} className="py-2 px-1">
+                                            <input
+                                                type="number"
+                                                step="0.01"
+                                                value={amount}
+                                                onChange={(e) =>
+                                                    handleAmountChange(
+                                                        line.accountId,
+                                                        index,
+                                                        e.target.value
+                                                    )
+                                                }
+                                                className="w-24 px-2 py-1 text-right border border-primary-10 rounded-2 text-sm text-primary focus:outline-none focus:border-primary"
+                                            />
+                                        </td>
+                                    ))}
+                                    <td className="py-2 px-4 text-right font-medium text-primary whitespace-nowrap">
+                                        {currencyFormatter.format(
+                                            line.amounts.reduce(
+                                                (sum, amount) =>
+                                                    sum + toAmount(amount),
+                                                0
+                                            )
+                                        )}
+                                    </td>
+                                    <td className="py-2 px-2">
+                                        <button
+                                            type="button"
+                                            onClick={() =>
+                                                updateLines(
+                                                    lines.filter(
+                                                        (candidate) =>
+                                                            candidate.accountId !==
+                                                            line.accountId
+                                                    )
+                                                )
+                                            }
+                                            className="p-2 text-red-500 hover:bg-red-50 rounded transition-colors"
+                                            title="Remove account"
+                                        >
+                                            <FaTrash className="w-3 h-3" />
+                                        </button>
+                                    </td>
+                                </tr>
+                            ))
+                        )}
+                    </tbody>
+                    {lines.length > 0 && (
+                        <tfoot>
+                            <tr className="border-t-2 border-primary bg-primary-10">
+                                <td className="py-3 px-4 font-bold text-primary sticky left-0 bg-primary-10">
+                                    Total
+                                </td>
+                                {monthTotals.map((total, index) => (
+                                    <td
+                                        key={index}
+                                        className="py-3 px-2 text-right font-bold text-primary whitespace-nowrap"
+                                    >
+                                        {currencyFormatter.format(total)}
+                                    </td>
+                                ))}
+                                <td className="py-3 px-4 text-right font-bold text-primary whitespace-nowrap">
+                                    {currencyFormatter.format(
+                                        monthTotals.reduce(
+                                            (sum, total) => sum + total,
+                                            0
+                                        )
+                                    )}
+                                </td>
+                                <td />
+                            </tr>
+                        </tfoot>
+                    )}
+                </table>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-3">
+                <select
+                    value=""
+                    onChange={(e) => handleAddAccount(e.target.value)}
+                    disabled={availableAccounts.length === 0}
+                    className="px-4 py-2 border border-primary-10 rounded-2 text-sm text-primary focus:outline-none focus:border-primary"
+                >
+                    <option value="">Add an account…</option>
+                    {availableAccounts.map((account) => (
+                        <option key={account.id} value={account.id}>
+                            {account.accountNumber
+                                ? `${account.accountNumber} · `
+                                : ''}
+                            {account.accountName}
+                        </option>
+                    ))}
+                </select>
+                <div className="ml-auto flex gap-3">
+                    <Button
+                        type="button"
+                        variant="outline"
+                        onClick={handleDiscard}
+                        disabled={!isDirty || updateMutation.isPending}
+                    >
+                        Discard
+                    </Button>
+                    <Button
+                        type="button"
+                        variant="primary"
+                        onClick={handleSave}
+                        loading={updateMutation.isPending}
+                        disabled={!isDirty || updateMutation.isPending}
+                    >
+                        Save Amounts
+                    </Button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default BudgetLinesEditor;
@@ -0,0 +1,162 @@
+import { useState } from 'react';
+import {
+    useCreateBudget,
+    useUpdateBudget,
+} from '../../services/apis/budgetApi';
+import { useFiscalYears } from '../../services/apis/fiscalYearApi';
+import type { Budget } from '../../types/budget';
+import Popup from '../shared/Popup';
+import Button from '../typography/Button';
+import {
+    InputField,
+    SelectField,
+    TextareaField,
+} from '../typography/InputFields';
+
+type BudgetPopupProps = {
+    isOpen: boolean;
+    // Budget to rename; a new budget is created when null
+    budget: Budget | null;
+    onClose: () => void;
+    onCreated?: (budget: Budget) => void;
+};
+
+/**
+ * Create a budget for a fiscal year, or rename an existing one
+ * The fiscal year of a budget cannot be changed
+ */
+const BudgetPopup = ({
+    isOpen,
+    budget,
+    onClose,
+    onCreated,
+}: BudgetPopupProps) => {
+    const [fiscalYearId, setFiscalYearId] = useState('');
+    const [name, setName] = useState(budget?.name ?? '');
+    const [description, setDescription] = useState(budget?.description ?? '');
+
+    const { data: fiscalYearsData } = useFiscalYears(1, 100);
+    const createMutation = useCreateBudget();
+    const updateMutation = useUpdateBudget();
+    const isPending = createMutation.isPending || updateMutation.isPending;
+
+    const fiscalYears = fiscalYearsData?.data?.items ?? [];
+    const selectedFiscalYearId = fiscalYearId || fiscalYears[0]?.id || '';
+
+    const handleClose = () => {
+        setFiscalYearId('');
+        setName('');
+        setDescription('');
+        onClose();
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!name.trim()) return;
+
+        try {
+            if (budget) {
+                await updateMutation.mutateAsync({
+                    id: budget.id,
+                    payload: {
+                        name: name.trim(),
+                        description: description.trim() || null,
+                    },
+                });
+            } else {
+                const response = await createMutation.mutateAsync({
+                    fiscalYearId: selectedFiscalYearId,
+                    name: name.trim(),
+                    ...(description.trim()
+                        ? { description: description.trim() }
+                        : {}),
+                });
+                onCreated?.(response.data);
+            }
+            handleClose();
+        } catch {
+            // Error toast is shown by the mutation
+        }
+    };
+
+    return (
+        <Popup
+            isOpen={isOpen}
+            onClose={handleClose}
+            title={budget ? 'Edit Budget' : 'New Budget'}
+            size="md"
+            loading={isPending}
+            footer={
+                <div className="flex gap-3">
+                    <Button
+                        type="button"
+                        variant="outline"
+                        onClick={handleClose}
+                        disabled={isPending}
+                    >
+                        Cancel
+                    </Button>
+                    <Button
+                        type="submit"
+                        variant="primary"
+                        form="budget-form"
+                        loading={isPending}
+                        disabled={
+                            !name.trim() ||
+                            (!budget && !selectedFiscalYearId) ||
+                            isPending
+                        }
+                    >
+                        {budget ? 'Save' : 'Create'}
+                    </Button>
+                </div>
+            }
+        >
+            <form
+                id="budget-form"
+                onSubmit={handleSubmit}
+                className="flex flex-col gap-4"
+            >
+                {budget ? (
+                    <p className="text-sm text-primary-50">
+                        Fiscal year: {budget.fiscalYear?.name ?? '-'}
+                    </p>
+                ) : fiscalYears.length === 0 ? (
+                    <p className="text-sm text-red-500">
+                        Create a fiscal year in the settings before adding a
+                        budget.
+                    </p>
+                ) : (
+                    <SelectField
+                        id="budget-fiscal-year"
+                        label="Fiscal Year"
+                        required
+                        value={selectedFiscalYearId}
+                        onChange={(e) => setFiscalYearId(e.target.value)}
+                        options={fiscalYears.map((fiscalYear) => ({
+                            value: fiscalYear.id,
+                            label: fiscalYear.name,
+                        }))}
+                    />
+                )}
+                <InputField
+                    id="budget-name"
+                    label="Name"
+                    required
+                    maxLength={100}
+                    placeholder="Operating budget"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                />
+                <TextareaField
+                    id="budget-description"
+                    label="Description"
+                    value={description}
+                    onChange={(e) => setDescription(e.target.value)}
+                />
+            </form>
+        </Popup>
+    );
+};
+
+export default BudgetPopup;
@@ -0,0 +1,245 @@
+import { useRef, useState } from 'react';
+import { FaDownload, FaFileExcel } from 'react-icons/fa';
+import {
+    downloadBudgetFile,
+    useImportBudget,
+} from '../../services/apis/budgetApi';
+import type { Budget, BudgetImportResult } from '../../types/budget';
+import { IMPORT_ACCEPT } from '../../utills/import';
+import { showErrorToast } from '../../utills/toast';
+import Popup from '../shared/Popup';
+import Button from '../typography/Button';
+
+const currencyFormatter = new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 2,
+});
+
+type ImportBudgetPopupProps = {
+    budget: Budget | null;
+    onClose: () => void;
+};
+
+/**
+ * Import the amounts of a budget from a CSV or Excel file
+ * The file downloaded from the budget has one row per account and one
+ * column per month; it can be validated (dry run) before it replaces the
+ * amounts of the budget
+ */
+const ImportBudgetPopup = ({ budget, onClose }: ImportBudgetPopupProps) => {
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const [file, setFile] = useState<File | null>(null);
+    const [result, setResult] = useState<BudgetImportResult | null>(null);
+
+    const importMutation = useImportBudget();
+
+    const handleClose = () => {
+        setFile(null);
+        setResult(null);
+        onClose();
+    };
+
+    const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const selected = e.target.files?.[0];
+        // Reset input value to allow selecting the same file again
+        if (fileInputRef.current) {
+            fileInputRef.current.value = '';
+        }
+        if (!selected) {
+            return;
+        }
+        setFile(selected);
+        setResult(null);
+    };
+
+    const handleImport = async (dryRun: boolean) => {
+        if (!budget || !file) return;
+
+        try {
+            const response = await importMutation.mutateAsync({
+                id: budget.id,
+                payload: { file, dryRun },
+            });
+            if (response.data.imported) {
+                handleClose();
+                return;
+            }
+            setResult(response.data);
+        } catch (error) {
+            // Rejected imports return the row errors
+            const maybeAxiosError = error as {
+                response?: { data?: { data?: BudgetImportResult } };
+            };
+            setResult(maybeAxiosError.response?.data?.data ?? null);
+        }
+    };
+
+    return (
+        <Popup
+            isOpen={!!budget}
+            onClose={handleClose}
+            title="Import Budget"
+            size="4xl"
+            loading={importMutation.isPending}
+            footer={
+                <div className="flex gap-3">
+                    <Button
+                        type="button"
+                        variant="outline"
+                        onClick={() => handleImport(true)}
+                        disabled={!file || importMutation.isPending}
+                    >
+                        Validate
+                    </Button>
+                    <Button
+                        type="button"
+                        variant="primary"
+                        onClick={() => handleImport(false)}
+                        loading={importMutation.isPending}
+                        disabled={!file || importMutation.isPending}
+                    >
+                        Import
+                    </Button>
+                </div>
+            }
+        >
+            <div className="flex flex-col gap-4">
+                <p className="text-sm text-primary-50">
+                    Download the budget, fill in one amount per account and
+                    month, and upload it back. Blank amounts are zero. The file
+                    replaces all the amounts of the budget.
+                </p>
+
+                <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept={IMPORT_ACCEPT}
+                    onChange={handleFileChange}
+                    className="hidden"
+                />
+                <div className="flex flex-wrap items-center gap-3">
+                    <Button
+                        type="button"
+                        variant="outline"
+                        onClick={() => fileInputRef.current?.click()}
+                    >
+                        <FaFileExcel className="w-3 h-3" />
+                        {file ? 'Change File' : 'Choose File'}
+                    </Button>
+                    {file && (
+                        <span className="text-sm text-primary">
+                            {file.name}
+                        </span>
+                    )}
+                    {budget && (
+                        <button
+                            type="button"
+                            onClick={() =>
+                                downloadBudgetFile(
+                                    budget.id,
+                                    budget.name
+                                ).catch(() =>
+                                    showErrorToast(
+                                        'Failed to download the budget file'
+                                    )
+                                )
+                            }
+                            className="ml-auto flex items-center gap-1 text-sm text-primary hover:underline"
+                        >
+                            <FaDownload className="w-3 h-3" />
+                            Download budget file
+                        </button>
+                    )}
+                </div>
+
+                {result && (
+                    <div className="flex flex-col gap-3">
+                        <p
+                            className={`text-sm font-medium ${
+                                result.errors.length > 0
+                                    ? 'text-red-500'
+                                    : 'text-green-600'
+                            }`}
+                        >
+                            {result.errors.length > 0
+                                ? `${result.errors.length} error(s) found; no amounts were imported.`
+                                : `All ${result.totalRows} rows are valid and ready to import.`}
+                        </p>
+
+                        {result.errors.length > 0 && (
+                            <div className="max-h-60 overflow-y-auto border border-primary-10 rounded-2">
+                                <table className="w-full text-sm">
+                                    <thead className="bg-primary-10">
+                                        <tr>
+                                            <th className="px-3 py-2 text-left font-semibold text-primary w-20">
+                                                Row
+                                            </th>
+                                            <th className="px-3 py-2 text-left font-semibold text-primary">
+                                                Error
+                                            </th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {result.errors.map(
+                                            (rowError, index) => (
+                                                <tr
+                                                    key={`${rowError.row}-${index}`}
+                                                    className="border-b border-primary-10"
+                                                >
+                                                    <td className="px-3 py-2 text-primary-75">
+                                                        {rowError.row}
+                                                    </td>
+                                                    <td className="px-3 py-2 text-red-500">
+                                                        {rowError.message}
+                                                    </td>
+                                                </tr>
+                                            )
+                                        )}
+                                    </tbody>
+                                </table>
+                            </div>
+                        )}
+
+                        {result.lines.length > 0 && (
+                            <div className="max-h-60 overflow-y-auto border border-primary-10 rounded-2">
+                                <table className="w-full text-sm">
+                                    <thead className="bg-primary-10">
+                                        <tr>
+                                            <th className="px-3 py-2 text-left font-semibold text-primary">
+                                                Account
+                                            </th>
+                                            <th className="px-3 py-2 text-right font-semibold text-primary">
+                                                Total
+                                            </th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {result.lines.map((line) => (
+                                            <tr
+                                                key={line.row}
+                                                className="border-b border-primary-10"
+                                            >
+                                                <td className="px-3 py-2 text-primary">
+                                                    {line.accountNumber} ·{' '}
+                                                    {line.accountName}
+                                                </td>
+                                                <td className="px-3 py-2 text-right text-primary">
+                                                    {currencyFormatter.format(
+                                                        line.total
+                                                    )}
+                                                </td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+                        )}
+                    </div>
+                )}
+            </div>
+        </Popup>
+    );
+};
+
+export default ImportBudgetPopup;
@@ -0,0 +1,323 @@
+import { useRef, useState } from 'react';
+import { FaDownload, FaFileExcel } from 'react-icons/fa';
+import {
+    downloadChartOfAccountSample,
+    useChartOfAccountImportFields,
+    useImportChartOfAccounts,
+    type ChartOfAccountImportMapping,
+    type ChartOfAccountImportResult,
+} from '../../services/apis/chartsAccountApi';
+import {
+    getDefaultImportMapping,
+    IMPORT_ACCEPT,
+    readFileHeaders,
+} from '../../utills/import';
+import { showErrorToast } from '../../utills/toast';
+import Popup from '../shared/Popup';
+import Button from '../typography/Button';
+import { SelectField } from '../typography/InputFields';
+
+const currencyFormatter = new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 2,
+});
+
+type ImportChartOfAccountsPopupProps = {
+    isOpen: boolean;
+    onClose: () => void;
+};
+
+/**
+ * Import chart of accounts from a CSV or Excel file
+ * The file headers are mapped to the import fields, then the file can be
+ * validated (dry run) before the accounts are created
+ */
+const ImportChartOfAccountsPopup = ({
+    isOpen,
+    onClose,
+}: ImportChartOfAccountsPopupProps) => {
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const [file, setFile] = useState<File | null>(null);
+    const [headers, setHeaders] = useState<string[]>([]);
+    const [mapping, setMapping] = useState<Record<string, string>>({});
+    const [result, setResult] = useState<ChartOfAccountImportResult | null>(
+        null
+    );
+
+    const { data: fieldsData } = useChartOfAccountImportFields();
+    const importMutation = useImportChartOfAccounts();
+
+    const fields = fieldsData?.data ?? [];
+    const missingRequired = fields.some(
+        (field) => field.required && !mapping[field.key]
+    );
+
+    const handleClose = () => {
+        setFile(null);
+        setHeaders([]);
+        setMapping({});
+        setResult(null);
+        onClose();
+    };
+
+    const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const selected = e.target.files?.[0];
+        // Reset input value to allow selecting the same file again
+        if (fileInputRef.current) {
+            fileInputRef.current.value = '';
+        }
+        if (!selected) {
+            return;
+        }
+
+        try {
+            const fileHeaders = await readFileHeaders(selected);
+            setFile(selected);
+            setHeaders(fileHeaders);
+            setMapping(getDefaultImportMapping(fields, fileHeaders));
+            setResult(null);
+        } catch (error) {
+            console.error('Read import file failed:', error);
+            showErrorToast('The file could not be read');
+        }
+    };
+
+    const handleImport = async (dryRun: boolean) => {
+        if (!file) return;
+
+        try {
+            const response = await importMutation.mutateAsync({
+                file,
+                mapping: mapping as ChartOfAccountImportMapping,
+                dryRun,
+            });
+            if (response.data.imported) {
+                handleClose();
+                return;
+            }
+            setResult(response.data);
+        } catch (error) {
+            // Rejected imports return the row errors
+            const maybeAxiosError = error as {
+                response?: { data?: { data?: ChartOfAccountImportResult } };
+            };
+            setResult(maybeAxiosError.response?.data?.data ?? null);
+        }
+    };
+
+    return (
+        <Popup
+            isOpen={isOpen}
+            onClose={handleClose}
+            title="Import Chart of Accounts"
+            size="4xl"
+            loading={importMutation.isPending}
+            footer={
+                <div className="flex gap-3">
+                    <Button
+                        type="button"
+                        variant="outline"
+                        onClick={() => handleImport(true)}
+                        disabled={
+                            !file || missingRequired || importMutation.isPending
+                        }
+                    >
+                        Validate
+                    </Button>
+                    <Button
+                        type="button"
+                        variant="primary"
+                        onClick={() => handleImport(false)}
+                        loading={importMutation.isPending}
+                        disabled={
+                            !file || missingRequired || importMutation.isPending
+                        }
+                    >
+                        Import
+                    </Button>
+                </div>
+            }
+        >
+            <div className="flex flex-col gap-4">
+                <p className="text-sm text-primary-50">
+                    Upload a CSV or Excel file with one account per row. Write
+                    sub-accounts as "Parent:Child". Opening balances are only
+                    accepted for asset, liability and equity accounts.
+                </p>
+
+                <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept={IMPORT_ACCEPT}
+                    onChange={handleFileChange}
+                    className="hidden"
+                />
+                <div className="flex flex-wrap items-center gap-3">
+                    <Button
+                        type="button"
+                        variant="outline"
+                        onClick={() => fileInputRef.current?.click()}
+                    >
+                        <FaFileExcel className="w-3 h-3" />
+                        {file ? 'Change File' : 'Choose File'}
+                    </Button>
+                    {file && (
+                        <span className="text-sm text-primary">
+                            {file.name}
+                        </span>
+                    )}
+                    <button
+                        type="button"
+                        onClick={() =>
+                            downloadChartOfAccountSample().catch(() =>
+                                showErrorToast(
+                                    'Failed to download the sample file'
+                                )
+                            )
+                        }
+                        className="ml-auto flex items-center gap-1 text-sm text-primary hover:underline"
+                    >
+                        <FaDownload className="w-3 h-3" />
+                        Download sample file
+                    </button>
+                </div>
+
+                {file && (
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                        {fields.map((field) => (
+                            <SelectField
+                                key={field.key}
+                                id={`import-mapping-${field.key}`}
+                                label={field.label}
+                                required={field.required}
+                                value={mapping[field.key] ?? ''}
+                                onChange={(e) => {
+                                    setMapping((prev) => ({
+                                        ...prev,
+                                        [field.key]: e.target.value,
+                                    }));
+                                    setResult(null);
+                                }}
+                                options={[
+                                    {
+                                        value: '',
+                                        label: field.required
+                                            ? 'Select a column'
+                                            : 'Not imported',
+                                    },
+                                    ...headers.map((header) => ({
+                                        value: header,
+                                        label: header,
+                                    })),
+                                ]}
+                            />
+                        ))}
+                    </div>
+                )}
+
+                {result && (
+                    <div className="flex flex-col gap-3">
+                        <p
+                            className={`text-sm font-medium ${
+                                result.errors.length > 0
+                                    ? 'text-red-500'
+                                    : 'text-green-600'
+                            }`}
+                        >
+                            {result.errors.length > 0
+                                ? `${result.errors.length} error(s) found; no accounts were imported.`
+                                : `All ${result.totalRows} rows are valid and ready to import.`}
+                        </p>
+
+                        {result.errors.length > 0 && (
+                            <div className="max-h-60 overflow-y-auto border border-primary-10 rounded-2">
+                                <table className="w-full text-sm">
+                                    <thead className="bg-primary-10">
+                                        <tr>
+                                            <th className="px-3 py-2 text-left font-semibold text-primary w-20">
+                                                Row
+                                            </th>
+                                            <th className="px-3 py-2 text-left font-semibold text-primary">
+                                                Error
+                                            </th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {result.errors.map(
+                                            (rowError, index) => (
+                                                <tr
+                                                    key={`${rowError.row}-${index}`}
+                                                    className="border-b border-primary-10"
+                                                >
+                                                    <td className="px-3 py-2 text-primary-75">
+                                                        {rowError.row}
+                                                    </td>
+                                                    <td className="px-3 py-2 text-red-500">
+                                                        {rowError.message}
+                                                    </td>
+                                                </tr>
+                                            )
+                                        )}
+                                    </tbody>
+                                </table>
+                            </div>
+                        )}
+
+                        {result.accounts.length > 0 && (
+                            <div className="max-h-60 overflow-y-auto border border-primary-10 rounded-2">
+                                <table className="w-full text-sm">
+                                    <thead className="bg-primary-10">
+                                        <tr>
+                                            <th className="px-3 py-2 text-left font-semibold text-primary">
+                                                Account
+                                            </th>
+                                            <th className="px-3 py-2 text-left font-semibold text-primary">
+                                                Type
+                                            </th>
+                                            <th className="px-3 py-2 text-left font-semibold text-primary">
+                                                Detail Type
+                                            </th>
+                                            <th className="px-3 py-2 text-right font-semibold text-primary">
+                                                Opening Balance
+                                            </th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {result.accounts.map((account) => (
+                                            <tr
+                                                key={account.row}
+                                                className="border-b border-primary-10"
+                                            >
+                                                <td className="px-3 py-2 text-primary">
+                                                    {account.accountNumber
+                                                        ? `${account.accountNumber} · `
+                                                        : ''}
+                                                    {account.fullName}
+                                                </td>
+                                                <td className="px-3 py-2 text-primary-75 capitalize">
+                                                    {account.accountType}
+                                                </td>
+                                                <td className="px-3 py-2 text-primary-75">
+                                                    {account.accountDetailType ??
+                                                        '-'}
+                                                </td>
+                                                <td className="px-3 py-2 text-right text-primary">
+                                                    {currencyFormatter.format(
+                                                        account.openingBalance
+                                                    )}
+                                                </td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+                        )}
+                    </div>
+                )}
+            </div>
+        </Popup>
+    );
+};
+
+export default ImportChartOfAccountsPopup;
@@ -0,0 +1,222 @@
+import { useState } from 'react';
+import {
+    useChartOfAccountMergePreview,
+    useChartOfAccounts,
+    useMergeChartOfAccounts,
+    type ChartOfAccount,
+} from '../../services/apis/chartsAccountApi';
+import Popup from '../shared/Popup';
+import Button from '../typography/Button';
+import { SelectField } from '../typography/InputFields';
+
+const currencyFormatter = new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 2,
+});
+
+type MergeChartOfAccountPopupProps = {
+    account: ChartOfAccount | null;
+    onClose: () => void;
+};
+
+/**
+ * Merge a duplicate account into another account of the same type
+ * The preview lists the rows the merge moves and the balance of the account
+ * kept; the merged account is deleted
+ */
+const MergeChartOfAccountPopup = ({
+    account,
+    onClose,
+}: MergeChartOfAccountPopupProps) => {
+    const [targetAccountId, setTargetAccountId] = useState('');
+
+    const { data: accountsData } = useChartOfAccounts({
+        accountType: account?.accountType,
+        limit: 100,
+        sort: 'accountName',
+        order: 'asc',
+    });
+    const { data: previewData, isFetching: isPreviewLoading } =
+        useChartOfAccountMergePreview(account?.id, targetAccountId);
+    const mergeMutation = useMergeChartOfAccounts();
+
+    const preview = targetAccountId ? previewData?.data : undefined;
+    const targetOptions = (accountsData?.data?.items ?? []).filter(
+        (candidate) =>
+            account &&
+            candidate.id !== account.id &&
+            candidate.accountType === account.accountType &&
+            candidate.currencyCode === account.currencyCode
+    );
+
+    const handleClose = () => {
+        setTargetAccountId('');
+        onClose();
+    };
+
+    const handleMerge = async () => {
+        if (!account || !targetAccountId) return;
+
+        try {
+            await mergeMutation.mutateAsync({
+                id: account.id,
+                targetAccountId,
+            });
+            handleClose();
+        } catch {
+            // Error toast is shown by the mutation
+        }
+    };
+
+    const countRows = preview
+        ? [
+              {
+                  label: 'Journal entry lines',
+                  count: preview.counts.journalEntryLines,
+              },
+              {
+                  label: 'Balance history rows',
+                  count: preview.counts.balanceHistory,
+              },
+              {
+                  label: 'Sub-accounts',
+                  count: preview.counts.childAccounts,
+              },
+              {
+                  label: 'Approval rules',
+                  count: preview.counts.approvalRules,
+              },
+              ...preview.counts.references.map((reference) => ({
+                  label: `${reference.table.replace(/_/g, ' ')} (${reference.column.replace(/_/g, ' ')})`,
+                  count: reference.count,
+              })),
+          ]
+        : [];
+
+    return (
+        <Popup
+            isOpen={!!account}
+            onClose={handleClose}
+            title="Merge Account"
+            size="2xl"
+            loading={mergeMutation.isPending}
+            footer={
+                <div className="flex gap-3">
+                    <Button
+                        type="button"
+                        variant="outline"
+                        onClick={handleClose}
+                    >
+                        Cancel
+                    </Button>
+                    <Button
+                        type="button"
+                        variant="primary"
+                        onClick={handleMerge}
+                        loading={mergeMutation.isPending}
+                        disabled={
+                            !preview ||
+                            isPreviewLoading ||
+                            mergeMutation.isPending
+                        }
+                    >
+                        Merge
+                    </Button>
+                </div>
+            }
+        >
+            <div className="flex flex-col gap-4">
+                <p className="text-sm text-primary-50">
+                    All transactions, balance history and sub-accounts of "
+                    {account?.accountName}" will be moved to the account you
+                    select, and "{account?.accountName}" will be deleted. Only
+                    accounts of the same type and currency can be selected.
+                </p>
+
+                <SelectField
+                    id="merge-target-account"
+                    label="Merge Into"
+                    required
+                    value={targetAccountId}
+                    onChange={(e) => setTargetAccountId(e.target.value)}
+                    options={[
+                        { value: '', label: 'Select an account' },
+                        ...targetOptions.map((candidate) => ({
+                            value: candidate.id,
+                            label: candidate.accountNumber
+                                ? `${candidate.accountNumber} · ${candidate.accountName}`
+                                : candidate.accountName,
+                        })),
+                    ]}
+                />
+
+                {targetAccountId && isPreviewLoading && (
+                    <p className="text-sm text-primary-50">
+                        Loading preview...
+                    </p>
+                )}
+
+                {preview && !isPreviewLoading && (
+                    <div className="flex flex-col gap-3">
+                        <div className="border border-primary-10 rounded-2">
+                            <table className="w-full text-sm">
+                                <thead className="bg-primary-10">
+                                    <tr>
+                                        <th className="px-3 py-2 text-left font-semibold text-primary">
+                                            Moved to "
+                                            {preview.targetAccount.accountName}"
+                                        </th>
+                                        <th className="px-3 py-2 text-right font-semibold text-primary w-24">
+                                            Rows
+                                        </th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {countRows.map((row) => (
+                                        <tr
+                                            key={row.label}
+                                            className="border-b border-primary-10"
+                                        >
+                                            <td className="px-3 py-2 text-primary-75 capitalize">
+                                                {row.label}
+                                            </td>
+                                            <td className="px-3 py-2 text-right text-primary">
+                                                {row.count}
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+
+                        <div className="grid grid-cols-2 gap-3 text-sm">
+                            <div>
+                                <div className="text-primary-50">
+                                    Current balance
+                                </div>
+                                <div className="font-semibold text-primary">
+                                    {currencyFormatter.format(
+                                        preview.targetAccount.currentBalance
+                                    )}
+                                </div>
+                            </div>
+                            <div>
+                                <div className="text-primary-50">
+                                    Balance after merge
+                                </div>
+                                <div className="font-semibold text-primary">
+                                    {currencyFormatter.format(
+                                        preview.currentBalance
+                                    )}
+                                </div>
+                            </div>
+                        </div>
+                    </div>
+                )}
+            </div>
+        </Popup>
+    );
+};
+
+export default MergeChartOfAccountPopup;
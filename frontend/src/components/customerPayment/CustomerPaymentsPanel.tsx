@@ -0,0 +1,579 @@
+import { useMemo, useState } from 'react';
+import { FaCog, FaEye, FaHandHoldingUsd, FaUndo } from 'react-icons/fa';
+import Loading from '../shared/Loading';
+import Popup from '../shared/Popup';
+import Button from '../typography/Button';
+import { SelectField, TextareaField } from '../typography/InputFields';
+import ReceivePaymentModal from './ReceivePaymentModal';
+import { useChartOfAccounts } from '../../services/apis/chartsAccountApi';
+import {
+    useCreateCustomerPayment,
+    useCustomerPayment,
+    useCustomerPaymentSettings,
+    useCustomerPayments,
+    useUnmatchCustomerPayment,
+    useUpdateCustomerPaymentSettings,
+} from '../../services/apis/customerPaymentApi';
+import type {
+    CreateCustomerPaymentPayload,
+    CustomerPayment,
+    CustomerPaymentStatus,
+} from '../../types/customerPayment';
+
+const PAYMENTS_LIMIT = 50;
+
+const currencyFormatter = new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 2,
+});
+
+const statusConfig: Record<
+    CustomerPaymentStatus,
+    { label: string; color: string }
+> = {
+    applied: { label: 'Applied', color: 'bg-green-100 text-green-700' },
+    partially_applied: {
+        label: 'Partially Applied',
+        color: 'bg-yellow-100 text-yellow-700',
+    },
+    unapplied: { label: 'Unapplied', color: 'bg-blue-100 text-blue-700' },
+    unmatched: { label: 'Unmatched', color: 'bg-gray-100 text-gray-500' },
+};
+
+const STATUS_OPTIONS = [
+    { value: '', label: 'All Status' },
+    ...(Object.keys(statusConfig) as CustomerPaymentStatus[]).map((status) => ({
+        value: status,
+        label: statusConfig[status].label,
+    })),
+];
+
+/**
+ * Payments received from customers, with receiving, unmatching and the
+ * unapplied cash account setting
+ */
+const CustomerPaymentsPanel = () => {
+    const [statusFilter, setStatusFilter] = useState<
+        CustomerPaymentStatus | ''
+    >('');
+    const [showReceiveModal, setShowReceiveModal] = useState(false);
+    const [viewPaymentId, setViewPaymentId] = useState<string | null>(null);
+    const [unmatchPayment, setUnmatchPayment] =
+        useState<CustomerPayment | null>(null);
+    const [unmatchReason, setUnmatchReason] = useState('');
+    const [showSettings, setShowSettings] = useState(false);
+    const [unappliedAccountId, setUnappliedAccountId] = useState('');
+
+    // API hooks
+    const { data, isLoading, error } = useCustomerPayments({
+        status: statusFilter || undefined,
+        limit: PAYMENTS_LIMIT,
+    });
+    const { data: viewData, isLoading: isViewLoading } = useCustomerPayment(
+        viewPaymentId ?? undefined
+    );
+    const { data: settingsData } = useCustomerPaymentSettings();
+    const { data: accountsData } = useChartOfAccounts({
+        isActive: true,
+        limit: 100,
+    });
+
+    const createMutation = useCreateCustomerPayment();
+    const unmatchMutation = useUnmatchCustomerPayment();
+    const updateSettingsMutation = useUpdateCustomerPaymentSettings();
+
+    const payments = data?.data?.items || [];
+    const viewPayment = viewData?.data ?? null;
+
+    // Unapplied cash is held on a liability account
+    const liabilityOptions = useMemo(() => {
+        const accounts = accountsData?.data?.items || [];
+        return [
+            { value: '', label: 'None' },
+            ...accounts
+                .filter(
+                    (account) => (account.accountType as string) === 'liability'
+                )
+                .map((account) => ({
+                    value: account.id,
+                    label: `${account.accountNumber} - ${account.accountName}`,
+                })),
+        ];
+    }, [accountsData]);
+
+    const handleReceive = async (payload: CreateCustomerPaymentPayload) => {
+        try {
+            await createMutation.mutateAsync(payload);
+            setShowReceiveModal(false);
+        } catch (error) {
+            // Error is handled by the mutation
+            console.error('Receive payment error:', error);
+        }
+    };
+
+    const handleUnmatch = async () => {
+        if (!unmatchPayment) return;
+
+        try {
+            await unmatchMutation.mutateAsync({
+                id: unmatchPayment.id,
+                payload: unmatchReason.trim()
+                    ? { reason: unmatchReason.trim() }
+                    : {},
+            });
+            setUnmatchPayment(null);
+            setUnmatchReason('');
+        } catch (error) {
+            // Error is handled by the mutation
+            console.error('Unmatch error:', error);
+        }
+    };
+
+    const handleOpenSettings = () => {
+        setUnappliedAccountId(settingsData?.data?.unappliedAccountId ?? '');
+        setShowSettings(true);
+    };
+
+    const handleSaveSettings = async (e: React.FormEvent) => {
+        e.preventDefault();
+
+        try {
+            await updateSettingsMutation.mutateAsync({
+                unappliedAccountId: unappliedAccountId || null,
+            });
+            setShowSettings(false);
+        } catch (error) {
+            // Error is handled by the mutation
+            console.error('Save payment settings error:', error);
+        }
+    };
+
+    return (
+        <div className="bg-white rounded-2 shadow-sm border border-primary-10 overflow-hidden">
+            <div className="px-4 py-3 border-b border-primary-10 flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                <h3 className="text-sm font-semibold text-primary flex items-center gap-2">
+                    <FaHandHoldingUsd className="w-4 h-4" />
+                    <span>Payments Received</span>
+                </h3>
+                <div className="flex items-center gap-2">
+                    <select
+                        value={statusFilter}
+                        onChange={(e) =>
+                            setStatusFilter(
+                                e.target.value as CustomerPaymentStatus | ''
+                            )
+                        }
+                        className="px-3 py-1.5 border border-primary-10 rounded-2 text-sm text-primary focus:outline-none focus:border-primary"
+                    >
+                        {STATUS_OPTIONS.map((option) => (
+                            <option key={option.value} value={option.value}>
+                                {option.label}
+                            </option>
+                        ))}
+                    </select>
+                    <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={handleOpenSettings}
+                    >
+                        <FaCog className="w-3 h-3" />
+                        Settings
+                    </Button>
+                    <Button size="sm" onClick={() => setShowReceiveModal(true)}>
+                        Receive Payment
+                    </Button>
+                </div>
+            </div>
+
+            {isLoading ? (
+                <div className="flex items-center justify-center min-h-[160px]">
+                    <Loading />
+                </div>
+            ) : error ? (
+                <div className="px-4 py-8 text-center text-red-500">
+                    Failed to load payments
+                </div>
+            ) : (
+                <div className="overflow-x-auto">
+                    <table className="w-full">
+                        <thead className="bg-primary-10">
+                            <tr>
+                                <th className="px-4 py-3 text-left text-sm font-semibold text-primary">
+                                    Date
+                                </th>
+                                <th className="px-4 py-3 text-left text-sm font-semibold text-primary">
+                                    Customer
+                                </th>
+                                <th className="px-4 py-3 text-left text-sm font-semibold text-primary">
+                                    Deposited To
+                                </th>
+                                <th className="px-4 py-3 text-right text-sm font-semibold text-primary">
+                                    Amount
+                                </th>
+                                <th className="px-4 py-3 text-right text-sm font-semibold text-primary">
+                                    Matched
+                                </th>
+                                <th className="px-4 py-3 text-right text-sm font-semibold text-primary">
+                                    Credit / Unapplied
+                                </th>
+                                <th className="px-4 py-3 text-center text-sm font-semibold text-primary">
+                                    Status
+                                </th>
+                                <th className="px-4 py-3 text-center text-sm font-semibold text-primary w-28">
+                                    Actions
+                                </th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {payments.length === 0 ? (
+                                <tr>
+                                    <td
+                                        colSpan={8}
+                                        className="px-4 py-8 text-center text-primary-50"
+                                    >
+                                        No payments received
+                                    </td>
+                                </tr>
+                            ) : (
+                                payments.map((payment) => (
+                                    <tr
+                                        key={payment.id}
+                                        className="border-b border-primary-10 hover:bg-primary-5"
+                                    >
+                                        <td className="px-4 py-3 text-primary-75">
+                                            {payment.paymentDate}
+                                        </td>
+                                        <td className="px-4 py-3">
+                                            <div className="text-primary">
+                                                {payment.contact?.displayName ??
+                                                    'Unknown customer'}
+                                            </div>
+                                            {payment.reference && (
+                                                <div className="text-xs text-primary-50">
+                                                    {payment.reference}
+                                                </div>
+                                            )}
+                                        </td>
+                                        <td className="px-4 py-3 text-primary-75">
+                                            {payment.bankAccount?.name ?? '—'}
+                                        </td>
+                                        <td className="px-4 py-3 text-right font-semibold text-primary">
+                                            {currencyFormatter.format(
+                                                payment.amount
+                                            )}
+                                        </td>
+                                        <td className="px-4 py-3 text-right text-primary">
+                                            {currencyFormatter.format(
+                                                payment.appliedAmount
+                                            )}
+                                        </td>
+                                        <td className="px-4 py-3 text-right text-primary">
+                                            {currencyFormatter.format(
+                                                payment.creditAmount +
+                                                    payment.unappliedAmount
+                                            )}
+                                        </td>
+                                        <td className="px-4 py-3">
+                                            <div className="flex justify-center">
+                                                <span
+                                                    className={`inline-flex items-center px-3 py-1 rounded-full text-xs font-medium ${statusConfig[payment.status].color}`}
+                                                >
+                                                    {
+                                                        statusConfig[
+                                                            payment.status
+                                                        ].label
+                                                    }
+                                                </span>
+                                            </div>
+                                        </td>
+                                        <td className="px-4 py-3">
+                                            <div className="flex items-center justify-center gap-2">
+                                                <button
+                                                    onClick={() =>
+                                                        setViewPaymentId(
+                                                            payment.id
+                                                        )
+                                                    }
+                                                    className="p-2 text-primary-50 hover:text-primary hover:bg-primary-10 rounded transition-colors"
+                                                    title="View"
+                                                >
+                                                    <FaEye className="w-4 h-4" />
+                                                </button>
+                                                {payment.status !==
+                                                    'unmatched' && (
+                                                    <button
+                                                        onClick={() =>
+                                                            setUnmatchPayment(
+                                                                payment
+                                                            )
+                                                        }
+                                                        className="p-2 text-red-400 hover:text-red-600 hover:bg-red-50 rounded transition-colors"
+                                                        title="Unmatch"
+                                                    >
+                                                        <FaUndo className="w-4 h-4" />
+                                                    </button>
+                                                )}
+                                            </div>
+                                        </td>
+                                    </tr>
+                                ))
+                            )}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+
+            <ReceivePaymentModal
+                isOpen={showReceiveModal}
+                onClose={() => setShowReceiveModal(false)}
+                isSubmitting={createMutation.isPending}
+                onSubmit={handleReceive}
+            />
+
+            {/* View Payment Modal */}
+            <Popup
+                isOpen={!!viewPaymentId}
+                onClose={() => setViewPaymentId(null)}
+                title="Payment Received"
+                size="xl"
+            >
+                {isViewLoading || !viewPayment ? (
+                    <div className="flex items-center justify-center min-h-[200px]">
+                        <Loading />
+                    </div>
+                ) : (
+                    <div className="flex flex-col gap-4 text-sm">
+                        <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+                            <div>
+                                <p className="text-xs text-primary-50">
+                                    Customer
+                                </p>
+                                <p className="text-primary">
+                                    {viewPayment.contact?.displayName ??
+                                        'Unknown customer'}
+                                </p>
+                            </div>
+                            <div>
+                                <p className="text-xs text-primary-50">
+                                    Status
+                                </p>
+                                <p className="text-primary">
+                                    {statusConfig[viewPayment.status].label}
+                                </p>
+                            </div>
+                            <div>
+                                <p className="text-xs text-primary-50">Date</p>
+                                <p className="text-primary">
+                                    {viewPayment.paymentDate}
+                                </p>
+                            </div>
+                            <div>
+                                <p className="text-xs text-primary-50">
+                                    Deposited to
+                                </p>
+                                <p className="text-primary">
+                                    {viewPayment.bankAccount?.name ?? '—'}
+                                </p>
+                            </div>
+                        </div>
+                        <table className="w-full">
+                            <thead className="bg-primary-10">
+                                <tr>
+                                    <th className="px-3 py-2 text-left font-semibold text-primary">
+                                        Matched Item
+                                    </th>
+                                    <th className="px-3 py-2 text-right font-semibold text-primary">
+                                        Amount
+                                    </th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {(viewPayment.allocations ?? []).length ===
+                                0 ? (
+                                    <tr>
+                                        <td
+                                            colSpan={2}
+                                            className="px-3 py-4 text-center text-primary-50"
+                                        >
+                                            Not matched against open items
+                                        </td>
+                                    </tr>
+                                ) : (
+                                    (viewPayment.allocations ?? []).map(
+                                        (allocation) => (
+                                            <tr
+                                                key={allocation.id}
+                                                className="border-b border-primary-10"
+                                            >
+                                                <td className="px-3 py-2 text-primary">
+                                                    {allocation.invoice
+                                                        ?.invoiceNumber ??
+                                                        allocation.description ??
+                                                        '—'}
+                                                </td>
+                                                <td className="px-3 py-2 text-right text-primary">
+                                                    {currencyFormatter.format(
+                                                        allocation.amount
+                                                    )}
+                                                </td>
+                                            </tr>
+                                        )
+                                    )
+                                )}
+                            </tbody>
+                        </table>
+                        <div className="ml-auto w-full sm:w-64 space-y-1">
+                            <div className="flex justify-between">
+                                <span className="text-primary-75">Amount</span>
+                                <span className="text-primary">
+                                    {currencyFormatter.format(
+                                        viewPayment.amount
+                                    )}
+                                </span>
+                            </div>
+                            <div className="flex justify-between">
+                                <span className="text-primary-75">Matched</span>
+                                <span className="text-primary">
+                                    {currencyFormatter.format(
+                                        viewPayment.appliedAmount
+                                    )}
+                                </span>
+                            </div>
+                            <div className="flex justify-between">
+                                <span className="text-primary-75">
+                                    Customer credit
+                                </span>
+                                <span className="text-primary">
+                                    {currencyFormatter.format(
+                                        viewPayment.creditAmount
+                                    )}
+                                </span>
+                            </div>
+                            <div className="flex justify-between">
+                                <span className="text-primary-75">
+                                    Unapplied cash
+                                </span>
+                                <span className="text-primary">
+                                    {currencyFormatter.format(
+                                        viewPayment.unappliedAmount
+                                    )}
+                                </span>
+                            </div>
+                        </div>
+                        {viewPayment.memo && (
+                            <p className="text-primary-75 whitespace-pre-wrap">
+                                {viewPayment.memo}
+                            </p>
+                        )}
+                        {viewPayment.unmatchReason && (
+                            <p className="text-red-500">
+                                Unmatch reason: {viewPayment.unmatchReason}
+                            </p>
+                        )}
+                    </div>
+                )}
+            </Popup>
+
+            {/* Payment Settings Modal */}
+            <Popup
+                isOpen={showSettings}
+                onClose={() => setShowSettings(false)}
+                title="Payment Settings"
+                size="lg"
+                loading={updateSettingsMutation.isPending}
+                footer={
+                    <div className="flex gap-3">
+                        <Button
+                            type="button"
+                            variant="outline"
+                            onClick={() => setShowSettings(false)}
+                            disabled={updateSettingsMutation.isPending}
+                        >
+                            Cancel
+                        </Button>
+                        <Button
+                            type="submit"
+                            variant="primary"
+                            loading={updateSettingsMutation.isPending}
+                            disabled={updateSettingsMutation.isPending}
+                            form="customer-payment-settings-form"
+                        >
+                            Save
+                        </Button>
+                    </div>
+                }
+            >
+                <form
+                    id="customer-payment-settings-form"
+                    onSubmit={handleSaveSettings}
+                    className="flex flex-col gap-4"
+                >
+                    <SelectField
+                        id="customer-payment-unapplied-account"
+                        label="Unapplied Cash Account"
+                        value={unappliedAccountId}
+                        onChange={(e) => setUnappliedAccountId(e.target.value)}
+                        options={liabilityOptions}
+                    />
+                    <p className="text-xs text-primary-50">
+                        Payments from unknown customers are credited to the
+                        unapplied cash account. Payments from customers credit
+                        the accounts receivable account of the invoice settings.
+                    </p>
+                </form>
+            </Popup>
+
+            {/* Unmatch Confirmation */}
+            <Popup
+                isOpen={!!unmatchPayment}
+                onClose={() => {
+                    setUnmatchPayment(null);
+                    setUnmatchReason('');
+                }}
+                title="Unmatch Payment"
+                size="md"
+                loading={unmatchMutation.isPending}
+                footer={
+                    <div className="flex gap-3">
+                        <Button
+                            type="button"
+                            variant="outline"
+                            onClick={() => {
+                                setUnmatchPayment(null);
+                                setUnmatchReason('');
+                            }}
+                            disabled={unmatchMutation.isPending}
+                        >
+                            Cancel
+                        </Button>
+                        <Button
+                            type="button"
+                            variant="primary"
+                            onClick={handleUnmatch}
+                            loading={unmatchMutation.isPending}
+                            disabled={unmatchMutation.isPending}
+                        >
+                            Unmatch
+                        </Button>
+                    </div>
+                }
+            >
+                <div className="flex flex-col gap-4">
+                    <p className="text-sm text-primary-75">
+                        Unmatching posts a reversing entry for this payment
+                        today and reopens the items it was matched against.
+                    </p>
+                    <TextareaField
+                        id="customer-payment-unmatch-reason"
+                        label="Reason (optional)"
+                        value={unmatchReason}
+                        onChange={(e) => setUnmatchReason(e.target.value)}
+                    />
+                </div>
+            </Popup>
+        </div>
+    );
+};
+
+export default CustomerPaymentsPanel;
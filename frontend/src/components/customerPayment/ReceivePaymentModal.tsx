@@ -0,0 +1,517 @@
+import { useMemo, useState } from 'react';
+import Loading from '../shared/Loading';
+import Popup from '../shared/Popup';
+import Button from '../typography/Button';
+import {
+    InputField,
+    SelectField,
+    TextareaField,
+} from '../typography/InputFields';
+import { useBankAccounts } from '../../services/apis/accountApi';
+import { useContacts } from '../../services/apis/contactApi';
+import { useOpenReceivableItems } from '../../services/apis/customerPaymentApi';
+import type {
+    CreateCustomerPaymentPayload,
+    OpenReceivableItem,
+} from '../../types/customerPayment';
+
+type PaymentFormState = {
+    contactId: string;
+    bankAccountId: string;
+    paymentDate: string;
+    amount: string;
+    paymentMethod: string;
+    reference: string;
+    memo: string;
+};
+
+type ReceivePaymentModalProps = {
+    isOpen: boolean;
+    onClose: () => void;
+    isSubmitting?: boolean;
+    onSubmit: (payload: CreateCustomerPaymentPayload) => void;
+};
+
+const currencyFormatter = new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 2,
+});
+
+const toDateInput = (date: Date) => date.toISOString().split('T')[0];
+
+const roundAmount = (value: number) => Math.round(value * 100) / 100;
+
+const initialFormState = (): PaymentFormState => ({
+    contactId: '',
+    bankAccountId: '',
+    paymentDate: toDateInput(new Date()),
+    amount: '',
+    paymentMethod: '',
+    reference: '',
+    memo: '',
+});
+
+/**
+ * Spread an amount over open items, oldest first
+ */
+const matchOldestFirst = (items: OpenReceivableItem[], amount: number) => {
+    const matched: Record<string, string> = {};
+    let remaining = roundAmount(amount);
+    for (const item of items) {
+        if (remaining <= 0) break;
+        const value = Math.min(item.openAmount, remaining);
+        matched[item.journalEntryLineId] = value.toFixed(2);
+        remaining = roundAmount(remaining - value);
+    }
+    return matched;
+};
+
+const ReceivePaymentModal = ({
+    isOpen,
+    onClose,
+    isSubmitting = false,
+    onSubmit,
+}: ReceivePaymentModalProps) => {
+    const [formData, setFormData] =
+        useState<PaymentFormState>(initialFormState);
+    // Matched amount per open item, keyed by journal entry line
+    const [matched, setMatched] = useState<Record<string, string>>({});
+    const [formErrors, setFormErrors] = useState<Record<string, string>>({});
+
+    // API hooks
+    const { data: customersData } = useContacts({
+        contactType: 'customer',
+        isActive: true,
+        limit: 100,
+    });
+    const { data: bankAccountsData } = useBankAccounts({
+        isActive: true,
+        limit: 100,
+    });
+    const { data: openItemsData, isLoading: isOpenItemsLoading } =
+        useOpenReceivableItems(formData.contactId || undefined);
+
+    const openItems = useMemo(
+        () => (formData.contactId ? (openItemsData?.data ?? []) : []),
+        [formData.contactId, openItemsData]
+    );
+
+    const { customerOptions, bankAccountOptions } = useMemo(() => {
+        const customers = customersData?.data?.items || [];
+        const bankAccounts = bankAccountsData?.data?.items || [];
+        return {
+            customerOptions: [
+                { value: '', label: 'Unknown customer (unapplied cash)' },
+                ...customers.map((customer) => ({
+                    value: customer.id,
+                    label: customer.displayName,
+                })),
+            ],
+            bankAccountOptions: [
+                { value: '', label: 'Select bank account' },
+                ...bankAccounts.map((account) => ({
+                    value: account.id,
+                    label: `${account.name} (${account.currencyCode})`,
+                })),
+            ],
+        };
+    }, [customersData, bankAccountsData]);
+
+    const amount = Number(formData.amount) || 0;
+    const matchedTotal = roundAmount(
+        Object.values(matched).reduce(
+            (sum, value) => sum + (Number(value) || 0),
+            0
+        )
+    );
+    const remainder = roundAmount(amount - matchedTotal);
+
+    const updateField = <K extends keyof PaymentFormState>(
+        field: K,
+        value: PaymentFormState[K]
+    ) => {
+        setFormData((prev) => ({ ...prev, [field]: value }));
+        if (formErrors[field]) {
+            setFormErrors((prev) => ({ ...prev, [field]: '' }));
+        }
+    };
+
+    // Matches belong to the customer, so changing it clears them
+    const handleContactChange = (contactId: string) => {
+        updateField('contactId', contactId);
+        setMatched({});
+    };
+
+    const handleMatchChange = (lineId: string, value: string) => {
+        setMatched((prev) => ({ ...prev, [lineId]: value }));
+        if (formErrors.allocations) {
+            setFormErrors((prev) => ({ ...prev, allocations: '' }));
+        }
+    };
+
+    const handleClose = () => {
+        setFormData(initialFormState());
+        setMatched({});
+        setFormErrors({});
+        onClose();
+    };
+
+    // Validate form
+    const validateForm = (): boolean => {
+        const errors: Record<string, string> = {};
+
+        if (!formData.bankAccountId) {
+            errors.bankAccountId = 'Select the bank account deposited to';
+        }
+
+        if (!formData.paymentDate) {
+            errors.paymentDate = 'Payment date is required';
+        }
+
+        if (!(amount > 0)) {
+            errors.amount = 'Amount must be greater than 0';
+        }
+
+        if (
+            openItems.some((item) => {
+                const value = Number(matched[item.journalEntryLineId] || 0);
+                return value < 0 || value > item.openAmount;
+            })
+        ) {
+            errors.allocations =
+                'Matched amounts must be between 0 and the open amount';
+        } else if (matchedTotal > amount) {
+            errors.allocations = 'Matched amounts exceed the payment amount';
+        }
+
+        setFormErrors(errors);
+        return Object.keys(errors).length === 0;
+    };
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!validateForm()) {
+            return;
+        }
+
+        const allocations = openItems
+            .filter((item) => Number(matched[item.journalEntryLineId]) > 0)
+            .map((item) => ({
+                journalEntryLineId: item.journalEntryLineId,
+                amount: Number(matched[item.journalEntryLineId]),
+            }));
+
+        onSubmit({
+            contactId: formData.contactId || null,
+            bankAccountId: formData.bankAccountId,
+            paymentDate: formData.paymentDate,
+            amount,
+            paymentMethod: formData.paymentMethod.trim() || null,
+            reference: formData.reference.trim() || null,
+            memo: formData.memo.trim() || null,
+            ...(allocations.length > 0 ? { allocations } : {}),
+        });
+    };
+
+    return (
+        <Popup
+            isOpen={isOpen}
+            onClose={handleClose}
+            title="Receive Payment"
+            size="4xl"
+            loading={isSubmitting}
+            footer={
+                <div className="flex gap-3">
+                    <Button
+                        type="button"
+                        variant="outline"
+                        onClick={handleClose}
+                        disabled={isSubmitting}
+                    >
+                        Cancel
+                    </Button>
+                    <Button
+                        type="submit"
+                        variant="primary"
+                        loading={isSubmitting}
+                        disabled={isSubmitting}
+                        form="receive-payment-form"
+                    >
+                        Receive Payment
+                    </Button>
+                </div>
+            }
+        >
+            <form
+                id="receive-payment-form"
+                onSubmit={handleSubmit}
+                className="flex flex-col gap-4"
+            >
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                    <SelectField
+                        id="payment-customer"
+                        label="Customer"
+                        value={formData.contactId}
+                        onChange={(e) => handleContactChange(e.target.value)}
+                        options={customerOptions}
+                    />
+                    <div>
+                        <SelectField
+                            id="payment-bank-account"
+                            label="Deposit To"
+                            value={formData.bankAccountId}
+                            onChange={(e) =>
+                                updateField('bankAccountId', e.target.value)
+                            }
+                            required
+                            options={bankAccountOptions}
+                        />
+                        {formErrors.bankAccountId && (
+                            <p className="text-red-500 text-xs mt-1">
+                                {formErrors.bankAccountId}
+                            </p>
+                        )}
+                    </div>
+                    <div>
+                        <InputField
+                            id="payment-date"
+                            label="Payment Date"
+                            type="date"
+                            value={formData.paymentDate}
+                            onChange={(e) =>
+                                updateField('paymentDate', e.target.value)
+                            }
+                            required
+                        />
+                        {formErrors.paymentDate && (
+                            <p className="text-red-500 text-xs mt-1">
+                                {formErrors.paymentDate}
+                            </p>
+                        )}
+                    </div>
+                    <div>
+                        <InputField
+                            id="payment-amount"
+                            label="Amount"
+                            type="number"
+                            min={0}
+                            step="0.01"
+                            value={formData.amount}
+                            onChange={(e) =>
+                                updateField('amount', e.target.value)
+                            }
+                            required
+                        />
+                        {formErrors.amount && (
+                            <p className="text-red-500 text-xs mt-1">
+                                {formErrors.amount}
+                            </p>
+                        )}
+                    </div>
+                    <InputField
+                        id="payment-method"
+                        label="Payment Method"
+                        placeholder="e.g. Bank transfer"
+                        maxLength={50}
+                        value={formData.paymentMethod}
+                        onChange={(e) =>
+                            updateField('paymentMethod', e.target.value)
+                        }
+                    />
+                    <InputField
+                        id="payment-reference"
+                        label="Reference"
+                        maxLength={255}
+                        value={formData.reference}
+                        onChange={(e) =>
+                            updateField('reference', e.target.value)
+                        }
+                    />
+                </div>
+
+                {formData.contactId ? (
+                    <div className="flex flex-col gap-2">
+                        <div className="flex items-center justify-between">
+                            <h3 className="text-sm font-semibold text-primary">
+                                Open Items
+                            </h3>
+                            <Button
+                                type="button"
+                                variant="outline"
+                                onClick={() =>
+                                    setMatched(
+                                        matchOldestFirst(openItems, amount)
+                                    )
+                                }
+                                disabled={
+                                    openItems.length === 0 || !(amount > 0)
+                                }
+                            >
+                                Match Oldest First
+                            </Button>
+                        </div>
+                        {isOpenItemsLoading ? (
+                            <div className="flex items-center justify-center min-h-[120px]">
+                                <Loading />
+                            </div>
+                        ) : (
+                            <div className="overflow-x-auto border border-primary-10 rounded-2">
+                                <table className="w-full text-sm">
+                                    <thead className="bg-primary-10">
+                                        <tr>
+                                            <th className="px-3 py-2 text-left font-semibold text-primary">
+                                                Date
+                                            </th>
+                                            <th className="px-3 py-2 text-left font-semibold text-primary">
+                                                Item
+                                            </th>
+                                            <th className="px-3 py-2 text-left font-semibold text-primary">
+                                                Due Date
+                                            </th>
+                                            <th className="px-3 py-2 text-right font-semibold text-primary">
+                                                Amount
+                                            </th>
+                                            <th className="px-3 py-2 text-right font-semibold text-primary">
+                                                Open
+                                            </th>
+                                            <th className="px-3 py-2 text-right font-semibold text-primary w-36">
+                                                Match
+                                            </th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {openItems.length === 0 ? (
+                                            <tr>
+                                                <td
+                                                    colSpan={6}
+                                                    className="px-3 py-6 text-center text-primary-50"
+                                                >
+                                                    No open items for this
+                                                    customer. The payment will
+                                                    be held as customer credit.
+                                                </td>
+                                            </tr>
+                                        ) : (
+                                            openItems.map((item) => (
+                                                <tr
+                                                    key={
+                                                        item.journalEntryLineId
+                                                    }
+                                                    className="border-b border-primary-10"
+                                                >
+                                                    <td className="px-3 py-2 text-primary-75">
+                                                        {item.entryDate}
+                                                    </td>
+                                                    <td className="px-3 py-2">
+                                                        <div className="text-primary">
+                                                            {item.invoiceNumber ??
+                                                                item.entryNumber ??
+                                                                '—'}
+                                                        </div>
+                                                        {item.description && (
+                                                            <div className="text-xs text-primary-50">
+                                                                {
+                                                                    item.description
+                                                                }
+                                                            </div>
+                                                        )}
+                                                    </td>
+                                                    <td className="px-3 py-2 text-primary-75">
+                                                        {item.dueDate ?? '—'}
+                                                    </td>
+                                                    <td className="px-3 py-2 text-right text-primary">
+                                                        {currencyFormatter.format(
+                                                            item.amount
+                                                        )}
+                                                    </td>
+                                                    <td className="px-3 py-2 text-right text-primary">
+                                                        {currencyFormatter.format(
+                                                            item.openAmount
+                                                        )}
+                                                    </td>
+                                                    <td className="px-3 py-2">
+                                                        <InputField
+                                                            id={`payment-match-${item.journalEntryLineId}`}
+                                                            type="number"
+                                                            min={0}
+                                                            max={
+                                                                item.openAmount
+                                                            }
+                                                            step="0.01"
+                                                            value={
+                                                                matched[
+                                                                    item
+                                                                        .journalEntryLineId
+                                                                ] ?? ''
+                                                            }
+                                                            onChange={(e) =>
+                                                                handleMatchChange(
+                                                                    item.journalEntryLineId,
+                                                                    e.target
+                                                                        .value
+                                                                )
+                                                            }
+                                                        />
+                                                    </td>
+                                                </tr>
+                                            ))
+                                        )}
+                                    </tbody>
+                                </table>
+                            </div>
+                        )}
+                        {formErrors.allocations && (
+                            <p className="text-red-500 text-xs">
+                                {formErrors.allocations}
+                            </p>
+                        )}
+                    </div>
+                ) : (
+                    <p className="text-sm text-primary-50">
+                        Payments from an unknown customer are held on the
+                        unapplied cash account set in the payment settings.
+                    </p>
+                )}
+
+                <div className="ml-auto w-full sm:w-72 space-y-1 text-sm">
+                    <div className="flex justify-between">
+                        <span className="text-primary-75">Amount received</span>
+                        <span className="text-primary">
+                            {currencyFormatter.format(amount)}
+                        </span>
+                    </div>
+                    <div className="flex justify-between">
+                        <span className="text-primary-75">Matched</span>
+                        <span className="text-primary">
+                            {currencyFormatter.format(matchedTotal)}
+                        </span>
+                    </div>
+                    <div className="flex justify-between font-semibold">
+                        <span className="text-primary">
+                            {formData.contactId
+                                ? 'Customer credit'
+                                : 'Unapplied cash'}
+                        </span>
+                        <span
+                            className={
+                                remainder < 0 ? 'text-red-500' : 'text-primary'
+                            }
+                        >
+                            {currencyFormatter.format(remainder)}
+                        </span>
+                    </div>
+                </div>
+
+                <TextareaField
+                    id="payment-memo"
+                    label="Memo"
+                    value={formData.memo}
+                    onChange={(e) => updateField('memo', e.target.value)}
+                />
+            </form>
+        </Popup>
+    );
+};
+
+export default ReceivePaymentModal;
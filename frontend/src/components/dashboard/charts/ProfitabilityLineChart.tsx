@@ -10,7 +10,12 @@ import {
 } from 'recharts';
 
 type ProfitabilityLineChartProps = {
-    data: { month: string; profitMargin: number; target: number }[];
+    // Margins are null for months without revenue, which leaves a gap
+    data: {
+        month: string;
+        profitMargin: number | null;
+        target: number | null;
+    }[];
 };
 
 const ProfitabilityLineChart = ({ data }: ProfitabilityLineChartProps) => {
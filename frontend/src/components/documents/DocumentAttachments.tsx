@@ -0,0 +1,146 @@
+import { useRef } from 'react';
+import { FaDownload, FaPaperclip, FaUnlink } from 'react-icons/fa';
+import {
+    useDetachDocument,
+    useDocuments,
+    useDownloadDocument,
+    useUploadDocument,
+} from '../../services/apis/documentApi';
+import type { DocumentEntityType } from '../../types/document';
+import Button from '../typography/Button';
+import {
+    DOCUMENT_ACCEPT,
+    formatFileSize,
+    getCategoryFromFileName,
+    getFileIcon,
+} from './documentFiles';
+
+type DocumentAttachmentsProps = {
+    entityType: DocumentEntityType;
+    entityId: string;
+};
+
+/**
+ * Documents attached to a record
+ * Files uploaded here are attached to the record right away; detaching keeps
+ * the document on the Documents page
+ */
+const DocumentAttachments = ({
+    entityType,
+    entityId,
+}: DocumentAttachmentsProps) => {
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const { data, isLoading } = useDocuments({
+        entityType,
+        entityId,
+        sort: 'createdAt',
+        order: 'asc',
+        limit: 100,
+    });
+    const uploadMutation = useUploadDocument();
+    const detachMutation = useDetachDocument();
+    const downloadMutation = useDownloadDocument();
+
+    const documents = data?.data?.items ?? [];
+
+    const handleFileInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (file) {
+            uploadMutation.mutate({
+                file,
+                category: getCategoryFromFileName(file.name),
+                entityType,
+                entityId,
+            });
+        }
+        // Reset input value to allow selecting the same file again
+        if (fileInputRef.current) {
+            fileInputRef.current.value = '';
+        }
+    };
+
+    const handleDetach = (documentId: string) => {
+        const attachment = documents
+            .find((doc) => doc.id === documentId)
+            ?.attachments?.find(
+                (item) =>
+                    item.entityType === entityType && item.entityId === entityId
+            );
+        if (attachment) {
+            detachMutation.mutate({
+                id: documentId,
+                attachmentId: attachment.id,
+            });
+        }
+    };
+
+    return (
+        <div className="flex flex-col gap-2">
+            <input
+                ref={fileInputRef}
+                type="file"
+                accept={DOCUMENT_ACCEPT}
+                onChange={handleFileInputChange}
+                className="hidden"
+            />
+            <div className="flex items-center justify-between">
+                <p className="text-xs text-primary-50">Documents</p>
+                <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => fileInputRef.current?.click()}
+                    loading={uploadMutation.isPending}
+                    disabled={uploadMutation.isPending}
+                >
+                    <FaPaperclip className="w-3 h-3" />
+                    Attach file
+                </Button>
+            </div>
+            {isLoading ? (
+                <p className="text-xs text-primary-50">Loading documents...</p>
+            ) : documents.length === 0 ? (
+                <p className="text-xs text-primary-50">No documents attached</p>
+            ) : (
+                <ul className="divide-y divide-primary-10 border border-primary-10 rounded-2">
+                    {documents.map((doc) => (
+                        <li
+                            key={doc.id}
+                            className="flex items-center gap-3 px-3 py-2"
+                        >
+                            {getFileIcon(doc.mimeType)}
+                            <div className="flex-1 min-w-0">
+                                <div className="text-primary truncate">
+                                    {doc.name}
+                                </div>
+                                <div className="text-xs text-primary-50">
+                                    {formatFileSize(doc.sizeBytes)}
+                                </div>
+                            </div>
+                            <button
+                                type="button"
+                                onClick={() => downloadMutation.mutate(doc.id)}
+                                disabled={downloadMutation.isPending}
+                                className="p-2 text-primary hover:bg-primary-10 rounded-lg transition-colors"
+                                title="Download"
+                            >
+                                <FaDownload className="w-3 h-3" />
+                            </button>
+                            <button
+                                type="button"
+                                onClick={() => handleDetach(doc.id)}
+                                disabled={detachMutation.isPending}
+                                className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                                title="Detach"
+                            >
+                                <FaUnlink className="w-3 h-3" />
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+};
+
+export default DocumentAttachments;
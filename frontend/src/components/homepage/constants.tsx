@@ -11,6 +11,11 @@ export const PAGE_HEADERS = [
         title: 'Transactions',
         subtitle: 'View and manage all your financial transactions',
     },
+    {
+        path: '/bank-reconciliation',
+        title: 'Bank Reconciliation',
+        subtitle: 'Match your bank accounts with their statements',
+    },
     {
         path: '/reports',
         title: 'Reports',
@@ -27,11 +32,36 @@ export const PAGE_HEADERS = [
         title: 'Balance Sheet',
         subtitle: 'View your assets, liabilities, and equity',
     },
+    {
+        path: '/reports/general-ledger',
+        title: 'General Ledger',
+        subtitle: 'Review posted movements and running balances by account',
+    },
+    {
+        path: '/reports/aged-receivables',
+        title: 'Accounts Receivable Aging',
+        subtitle: 'Review what each customer owes by days past due',
+    },
+    {
+        path: '/reports/aged-payables',
+        title: 'Accounts Payable Aging',
+        subtitle: 'Review what is owed to each vendor by days past due',
+    },
+    {
+        path: '/reports/budget-vs-actual',
+        title: 'Budget vs Actual',
+        subtitle: 'Compare budgeted revenue and expenses with posted amounts',
+    },
     {
         path: '/chart-of-accounts',
         title: 'Chart of Accounts',
         subtitle: 'Manage your accounts and track balances',
     },
+    {
+        path: '/budgets',
+        title: 'Budgets',
+        subtitle: 'Plan revenue and expenses for each fiscal year',
+    },
     {
         path: '/settings',
         title: 'Settings',
@@ -1,4 +1,4 @@
-import { useEffect, useRef, useState } from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
 import {
     FaChevronDown,
     FaPlus,
@@ -7,20 +7,41 @@ import {
     FaTrash,
     FaUpload,
 } from 'react-icons/fa';
+import { useNavigate } from 'react-router';
+import { useChartOfAccounts } from '../../services/apis/chartsAccountApi';
+import { useContacts } from '../../services/apis/contactApi';
+import { useInvoiceSettings } from '../../services/apis/invoiceApi';
+import type { Contact, ContactAddress } from '../../types/contact';
+import type { CreateInvoicePayload, Invoice } from '../../types/invoice';
 
-type Customer = {
-    id: string;
-    name: string;
-    email?: string;
-    address?: string;
-};
+/**
+ * Customer billed on the invoice
+ * Invoices being edited only carry the customer's name and email, so the
+ * defaults are optional
+ */
+type Customer = Pick<Contact, 'id' | 'displayName' | 'email'> &
+    Partial<
+        Pick<
+            Contact,
+            | 'billingAddress'
+            | 'defaultIncomeAccount'
+            | 'defaultTaxGroup'
+            | 'paymentTermsDays'
+        >
+    >;
 
+/**
+ * Line item of the form
+ * An empty accountId uses the customer's default income account. taxGroupId
+ * undefined uses the customer's default tax group; null means not taxed.
+ */
 type LineItem = {
     id: string;
     description: string;
     qty: number;
     price: number;
-    tax: number;
+    accountId: string;
+    taxGroupId?: string | null;
 };
 
 type CompanyInfo = {
@@ -38,54 +59,86 @@ type InvoiceFormData = {
     customer: Customer | null;
     issueDate: string;
     dueDate: string;
-    paymentMethods: {
-        interacTransfer: boolean;
-        eftTransfer: boolean;
-    };
-    isRecurring: boolean;
-    ccEmail: string;
+    reference: string;
     memo: string;
     notes: string;
     lineItems: LineItem[];
-    subtotal: number;
-    taxRate: number;
-    discount: number;
-    discountType: 'percentage' | 'fixed';
 };
 
-const MOCK_CUSTOMERS: Customer[] = [
-    {
-        id: '1',
-        name: 'Acme Corporation',
-        email: 'contact@acme.com',
-        address: '123 Business St, City, State 12345',
-    },
-    {
-        id: '2',
-        name: 'Blue Ocean Enterprises',
-        email: 'info@blueocean.com',
-        address: '456 Commerce Ave, City, State 67890',
-    },
-    { id: '3', name: 'Cyberdyne Systems', email: 'hello@cyberdyne.com' },
-    { id: '4', name: 'Delta Dynamics', email: 'contact@delta.com' },
-    { id: '5', name: 'Emerald Innovations', email: 'info@emerald.com' },
-    { id: '6', name: 'Firefly Technologies', email: 'hello@firefly.com' },
-    { id: '7', name: 'Galactic Industries', email: 'contact@galactic.com' },
-];
-
 type CreateInvoiceModalProps = {
     isOpen: boolean;
     onClose: () => void;
-    onSaveDraft?: (data: InvoiceFormData) => void;
-    onSendInvoice?: (data: InvoiceFormData) => void;
+    invoice?: Invoice | null;
+    isSubmitting?: boolean;
+    onSaveDraft?: (payload: CreateInvoicePayload) => void;
+    onSendInvoice?: (payload: CreateInvoicePayload) => void;
+};
+
+const toDateInput = (date: Date) => date.toISOString().split('T')[0];
+
+const addDays = (dateStr: string, days: number) => {
+    const date = new Date(`${dateStr}T00:00:00Z`);
+    date.setUTCDate(date.getUTCDate() + days);
+    return toDateInput(date);
+};
+
+const formatAddress = (address?: ContactAddress | null) =>
+    address
+        ? [
+              address.line1,
+              address.line2,
+              address.city,
+              address.state,
+              address.postalCode,
+              address.country,
+          ]
+              .filter(Boolean)
+              .join(', ')
+        : '';
+
+const toInitialFormData = (invoice?: Invoice | null): InvoiceFormData => {
+    if (invoice) {
+        return {
+            invoiceNumber: invoice.invoiceNumber,
+            customer: invoice.contact,
+            issueDate: invoice.issueDate,
+            dueDate: invoice.dueDate,
+            reference: invoice.reference ?? '',
+            memo: invoice.memo ?? '',
+            notes: invoice.notes ?? '',
+            lineItems: (invoice.lines ?? []).map((line) => ({
+                id: line.id,
+                description: line.description,
+                qty: line.quantity,
+                price: line.unitPrice,
+                accountId: line.accountId,
+                taxGroupId: line.taxGroupId,
+            })),
+        };
+    }
+
+    const issueDate = toDateInput(new Date());
+    return {
+        invoiceNumber: '',
+        customer: null,
+        issueDate,
+        dueDate: addDays(issueDate, 30),
+        reference: '',
+        memo: 'Thank you for your business!',
+        notes: '',
+        lineItems: [],
+    };
 };
 
 const CreateInvoiceModal = ({
     isOpen,
     onClose,
+    invoice,
+    isSubmitting = false,
     onSaveDraft,
     onSendInvoice,
 }: CreateInvoiceModalProps) => {
+    const navigate = useNavigate();
     const [companyInfo, setCompanyInfo] = useState<CompanyInfo>({
         name: 'Excel Studio Inc.',
         address: '1401 Rockland Ave',
@@ -95,27 +148,9 @@ const CreateInvoiceModal = ({
         email: 'ar@excel.studio',
     });
 
-    const [formData, setFormData] = useState<InvoiceFormData>({
-        invoiceNumber: 'INV-' + Math.floor(Math.random() * 10000),
-        customer: null,
-        issueDate: new Date().toISOString().split('T')[0],
-        dueDate: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000)
-            .toISOString()
-            .split('T')[0],
-        paymentMethods: {
-            interacTransfer: false,
-            eftTransfer: false,
-        },
-        isRecurring: false,
-        ccEmail: '',
-        memo: '',
-        notes: 'Thank you for your business!',
-        lineItems: [],
-        subtotal: 0,
-        taxRate: 13,
-        discount: 0,
-        discountType: 'percentage',
-    });
+    const [formData, setFormData] = useState<InvoiceFormData>(() =>
+        toInitialFormData(invoice)
+    );
 
     const [showCustomerDropdown, setShowCustomerDropdown] = useState(false);
     const [customerSearch, setCustomerSearch] = useState('');
@@ -124,25 +159,42 @@ const CreateInvoiceModal = ({
     >('details');
     const dropdownRef = useRef<HTMLDivElement>(null);
 
-    // Filter customers based on search
-    const filteredCustomers = MOCK_CUSTOMERS.filter((customer) =>
-        customer.name.toLowerCase().includes(customerSearch.toLowerCase())
-    );
+    // API hooks
+    const { data: customersData, isLoading: isCustomersLoading } = useContacts({
+        contactType: 'customer',
+        isActive: true,
+        search: customerSearch || undefined,
+        limit: 50,
+    });
+    const { data: accountsData } = useChartOfAccounts({
+        isActive: true,
+        limit: 100,
+    });
+    const { data: settingsData } = useInvoiceSettings();
+
+    const customers = customersData?.data?.items || [];
+    const nextInvoiceNumber = settingsData?.data?.nextInvoiceNumber;
 
-    // Calculate totals
+    // Invoice lines credit revenue accounts
+    const revenueAccounts = useMemo(() => {
+        const accounts = accountsData?.data?.items || [];
+        return accounts.filter(
+            (account) => (account.accountType as string) === 'revenue'
+        );
+    }, [accountsData]);
+
+    // Calculate totals; tax is calculated by the server from the tax groups
     const subtotal = formData.lineItems.reduce(
         (sum, item) => sum + item.qty * item.price,
         0
     );
-
-    const discountAmount =
-        formData.discountType === 'percentage'
-            ? (subtotal * formData.discount) / 100
-            : formData.discount;
-
-    const taxableAmount = subtotal - discountAmount;
-    const totalTax = (taxableAmount * formData.taxRate) / 100;
-    const total = taxableAmount + totalTax;
+    const hasTaxedLines = formData.lineItems.some((item) =>
+        item.taxGroupId === undefined
+            ? !!formData.customer?.defaultTaxGroup
+            : item.taxGroupId !== null
+    );
+    const totalTax = hasTaxedLines ? null : 0;
+    const total = subtotal;
 
     // Handle ESC key and click outside
     useEffect(() => {
@@ -180,15 +232,50 @@ const CreateInvoiceModal = ({
 
     if (!isOpen) return null;
 
-    const handleSelectCustomer = (customer: Customer) => {
-        setFormData({ ...formData, customer });
+    const isValid =
+        !!formData.customer &&
+        formData.lineItems.length > 0 &&
+        formData.lineItems.every(
+            (item) => item.description.trim() && item.qty > 0 && item.price >= 0
+        ) &&
+        formData.dueDate >= formData.issueDate;
+
+    // Build the API payload from the form
+    const toPayload = (): CreateInvoicePayload => ({
+        contactId: formData.customer?.id as string,
+        ...(formData.invoiceNumber.trim()
+            ? { invoiceNumber: formData.invoiceNumber.trim() }
+            : {}),
+        issueDate: formData.issueDate,
+        dueDate: formData.dueDate,
+        reference: formData.reference.trim() || null,
+        memo: formData.memo.trim() || null,
+        notes: formData.notes.trim() || null,
+        lines: formData.lineItems.map((item) => ({
+            description: item.description.trim(),
+            quantity: item.qty,
+            unitPrice: item.price,
+            ...(item.accountId ? { accountId: item.accountId } : {}),
+            ...(item.taxGroupId !== undefined
+                ? { taxGroupId: item.taxGroupId }
+                : {}),
+        })),
+    });
+
+    const handleSelectCustomer = (customer: Contact) => {
+        // The due date follows the customer's payment terms
+        setFormData({
+            ...formData,
+            customer,
+            dueDate: addDays(formData.issueDate, customer.paymentTermsDays),
+        });
         setShowCustomerDropdown(false);
         setCustomerSearch('');
     };
 
     const handleAddCustomer = () => {
-        console.log('Add new customer');
         setShowCustomerDropdown(false);
+        navigate('/contacts');
     };
 
     const handleAddLineItem = () => {
@@ -197,7 +284,7 @@ const CreateInvoiceModal = ({
             description: '',
             qty: 1,
             price: 0,
-            tax: 0,
+            accountId: '',
         };
         setFormData({
             ...formData,
@@ -205,10 +292,10 @@ const CreateInvoiceModal = ({
         });
     };
 
-    const handleUpdateLineItem = (
+    const handleUpdateLineItem = <K extends keyof LineItem>(
         id: string,
-        field: keyof LineItem,
-        value: string | number
+        field: K,
+        value: LineItem[K]
     ) => {
         setFormData({
             ...formData,
@@ -255,6 +342,11 @@ const CreateInvoiceModal = ({
         }).format(amount);
     };
 
+    const customerAddress = formatAddress(formData.customer?.billingAddress);
+    const defaultAccountLabel = formData.customer?.defaultIncomeAccount
+        ? `Customer default (${formData.customer.defaultIncomeAccount.accountName})`
+        : 'Customer default income account';
+
     return (
         <div className="absolute inset-0 z-40 bg-lightBg flex flex-col rounded-2 overflow-hidden">
             {/* Header */}
@@ -268,22 +360,20 @@ const CreateInvoiceModal = ({
                         <FaTimes className="w-4 h-4 text-primary" />
                     </button>
                     <h1 className="text-lg font-semibold text-primary">
-                        Create invoice
+                        {invoice ? 'Edit invoice' : 'Create invoice'}
                     </h1>
                 </div>
                 <div className="flex items-center gap-3">
                     <button
-                        onClick={() => onSaveDraft?.(formData)}
-                        className="px-4 py-2 text-sm font-medium text-primary hover:text-primary-75 transition-colors"
+                        onClick={() => onSaveDraft?.(toPayload())}
+                        disabled={!isValid || isSubmitting}
+                        className="px-4 py-2 text-sm font-medium text-primary hover:text-primary-75 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
                     >
                         Save as draft
                     </button>
                     <button
-                        onClick={() => onSendInvoice?.(formData)}
-                        disabled={
-                            !formData.customer ||
-                            formData.lineItems.length === 0
-                        }
+                        onClick={() => onSendInvoice?.(toPayload())}
+                        disabled={!isValid || isSubmitting}
                         className="px-4 py-2 text-sm font-medium bg-primary-10 text-primary-50 rounded-2 cursor-not-allowed disabled:opacity-50 enabled:bg-primary enabled:text-white enabled:cursor-pointer enabled:hover:bg-primary-75 transition-colors"
                     >
                         Send invoice
@@ -349,6 +439,11 @@ const CreateInvoiceModal = ({
                                                         e.target.value,
                                                 })
                                             }
+                                            placeholder={
+                                                nextInvoiceNumber
+                                                    ? `Next number: ${nextInvoiceNumber}`
+                                                    : 'Assigned automatically'
+                                            }
                                             className="input px-4"
                                         />
                                     </div>
@@ -416,7 +511,8 @@ const CreateInvoiceModal = ({
                                                         : 'text-primary-50 text-sm'
                                                 }
                                             >
-                                                {formData.customer?.name ||
+                                                {formData.customer
+                                                    ?.displayName ||
                                                     'Find or add a customer...'}
                                             </span>
                                             <FaChevronDown
@@ -457,7 +553,7 @@ const CreateInvoiceModal = ({
                                                     </span>
                                                 </button>
                                                 <div className="max-h-52 overflow-y-auto">
-                                                    {filteredCustomers.map(
+                                                    {customers.map(
                                                         (customer) => (
                                                             <button
                                                                 key={
@@ -479,7 +575,7 @@ const CreateInvoiceModal = ({
                                                             >
                                                                 <div>
                                                                     {
-                                                                        customer.name
+                                                                        customer.displayName
                                                                     }
                                                                 </div>
                                                                 {customer.email && (
@@ -492,122 +588,41 @@ const CreateInvoiceModal = ({
                                                             </button>
                                                         )
                                                     )}
-                                                    {filteredCustomers.length ===
-                                                        0 && (
+                                                    {isCustomersLoading && (
                                                         <div className="px-4 py-3 text-sm text-primary-50">
-                                                            No customers found
+                                                            Loading customers...
                                                         </div>
                                                     )}
+                                                    {!isCustomersLoading &&
+                                                        customers.length ===
+                                                            0 && (
+                                                            <div className="px-4 py-3 text-sm text-primary-50">
+                                                                No customers
+                                                                found
+                                                            </div>
+                                                        )}
                                                 </div>
                                             </div>
                                         )}
                                     </div>
                                 </div>
 
-                                {/* Payment Methods */}
-                                <div>
-                                    <label className="input-label">
-                                        Payment collection methods
-                                    </label>
-                                    <div className="space-y-3 mt-2">
-                                        <label className="flex items-center gap-3 cursor-pointer">
-                                            <input
-                                                type="checkbox"
-                                                checked={
-                                                    formData.paymentMethods
-                                                        .interacTransfer
-                                                }
-                                                onChange={(e) =>
-                                                    setFormData({
-                                                        ...formData,
-                                                        paymentMethods: {
-                                                            ...formData.paymentMethods,
-                                                            interacTransfer:
-                                                                e.target
-                                                                    .checked,
-                                                        },
-                                                    })
-                                                }
-                                                className="w-4 h-4 rounded border-primary-25 text-primary focus:ring-primary accent-primary"
-                                            />
-                                            <span className="text-sm text-primary-75">
-                                                Interac e-transfer
-                                            </span>
-                                        </label>
-                                        <label className="flex items-center gap-3 cursor-pointer">
-                                            <input
-                                                type="checkbox"
-                                                checked={
-                                                    formData.paymentMethods
-                                                        .eftTransfer
-                                                }
-                                                onChange={(e) =>
-                                                    setFormData({
-                                                        ...formData,
-                                                        paymentMethods: {
-                                                            ...formData.paymentMethods,
-                                                            eftTransfer:
-                                                                e.target
-                                                                    .checked,
-                                                        },
-                                                    })
-                                                }
-                                                className="w-4 h-4 rounded border-primary-25 text-primary focus:ring-primary accent-primary"
-                                            />
-                                            <span className="text-sm text-primary-75">
-                                                EFT transfer
-                                            </span>
-                                        </label>
-                                    </div>
-                                </div>
-
-                                {/* Recurring Invoice */}
-                                <div>
-                                    <div className="flex items-center justify-between">
-                                        <label className="input-label mb-0!">
-                                            Recurring invoice
-                                        </label>
-                                        <button
-                                            onClick={() =>
-                                                setFormData({
-                                                    ...formData,
-                                                    isRecurring:
-                                                        !formData.isRecurring,
-                                                })
-                                            }
-                                            className={`relative w-10 h-5 rounded-full transition-colors ${
-                                                formData.isRecurring
-                                                    ? 'bg-primary'
-                                                    : 'bg-primary-25'
-                                            }`}
-                                        >
-                                            <span
-                                                className={`absolute top-0.5 left-0.5 w-4 h-4 bg-white rounded-full shadow transition-transform ${
-                                                    formData.isRecurring
-                                                        ? 'translate-x-5'
-                                                        : 'translate-x-0'
-                                                }`}
-                                            />
-                                        </button>
-                                    </div>
-                                </div>
-
-                                {/* CC Email */}
+                                {/* Reference */}
                                 <div>
                                     <label className="input-label">
-                                        CC email (optional)
+                                        Reference (optional)
                                     </label>
                                     <div className="input-wrap">
                                         <input
-                                            type="email"
-                                            value={formData.ccEmail}
+                                            type="text"
+                                            value={formData.reference}
                                             onChange={(e) =>
                                                 setFormData({
                                                     ...formData,
-                                                    ccEmail: e.target.value,
+                                                    reference: e.target.value,
                                                 })
                                             }
-                                            placeholder="email@example.com"
+                                            placeholder="PO number"
                                             className="input px-4"
                                         />
                                     </div>
@@ -616,7 +631,7 @@ const CreateInvoiceModal = ({
                                 {/* Memo */}
                                 <div>
                                     <label className="input-label">
-                                        Memo (optional)
+                                        Memo (shown on invoice)
                                     </label>
                                     <div className="input-wrap">
                                         <textarea
@@ -627,8 +642,8 @@ const CreateInvoiceModal = ({
                                                     memo: e.target.value,
                                                 })
                                             }
-                                            rows={2}
-                                            placeholder="Internal notes..."
+                                            rows={3}
+                                            placeholder="Thank you for your business!"
                                             className="input px-4 resize-none"
                                         />
                                     </div>
@@ -637,7 +652,7 @@ const CreateInvoiceModal = ({
                                 {/* Notes */}
                                 <div>
                                     <label className="input-label">
-                                        Notes (shown on invoice)
+                                        Notes (optional)
                                     </label>
                                     <div className="input-wrap">
                                         <textarea
@@ -648,8 +663,8 @@ const CreateInvoiceModal = ({
                                                     notes: e.target.value,
                                                 })
                                             }
-                                            rows={3}
-                                            placeholder="Thank you for your business!"
+                                            rows={2}
+                                            placeholder="Internal notes..."
                                             className="input px-4 resize-none"
                                         />
                                     </div>
@@ -797,91 +812,89 @@ const CreateInvoiceModal = ({
                                                             </div>
                                                         </div>
                                                     </div>
+                                                    <div>
+                                                        <label className="input-label">
+                                                            Revenue account
+                                                        </label>
+                                                        <select
+                                                            value={
+                                                                item.accountId
+                                                            }
+                                                            onChange={(e) =>
+                                                                handleUpdateLineItem(
+                                                                    item.id,
+                                                                    'accountId',
+                                                                    e.target
+                                                                        .value
+                                                                )
+                                                            }
+                                                            className="w-full px-3 py-2 border border-primary-10 rounded-lg text-sm text-primary focus:outline-none focus:border-primary"
+                                                        >
+                                                            <option value="">
+                                                                {
+                                                                    defaultAccountLabel
+                                                                }
+                                                            </option>
+                                                            {revenueAccounts.map(
+                                                                (account) => (
+                                                                    <option
+                                                                        key={
+                                                                            account.id
+                                                                        }
+                                                                        value={
+                                                                            account.id
+                                                                        }
+                                                                    >
+                                                                        {
+                                                                            account.accountNumber
+                                                                        }{' '}
+                                                                        -{' '}
+                                                                        {
+                                                                            account.accountName
+                                                                        }
+                                                                    </option>
+                                                                )
+                                                            )}
+                                                        </select>
+                                                    </div>
+                                                    <label className="flex items-center gap-3 cursor-pointer">
+                                                        <input
+                                                            type="checkbox"
+                                                            checked={
+                                                                item.taxGroupId !==
+                                                                null
+                                                            }
+                                                            onChange={(e) =>
+                                                                handleUpdateLineItem(
+                                                                    item.id,
+                                                                    'taxGroupId',
+                                                                    e.target
+                                                                        .checked
+                                                                        ? undefined
+                                                                        : null
+                                                                )
+                                                            }
+                                                            className="w-4 h-4 rounded border-primary-25 text-primary focus:ring-primary accent-primary"
+                                                        />
+                                                        <span className="text-sm text-primary-75">
+                                                            Taxable
+                                                            {formData.customer
+                                                                ?.defaultTaxGroup
+                                                                ? ` (${formData.customer.defaultTaxGroup.name})`
+                                                                : ''}
+                                                        </span>
+                                                    </label>
                                                 </div>
                                             )
                                         )}
                                     </div>
                                 )}
 
-                                {/* Tax and Discount */}
-                                <div className="pt-4 border-t border-primary-10 space-y-4">
-                                    <div className="grid grid-cols-2 gap-4">
-                                        <div>
-                                            <label className="input-label">
-                                                Tax Rate (%)
-                                            </label>
-                                            <div className="input-wrap">
-                                                <input
-                                                    type="number"
-                                                    value={formData.taxRate}
-                                                    onChange={(e) =>
-                                                        setFormData({
-                                                            ...formData,
-                                                            taxRate:
-                                                                parseFloat(
-                                                                    e.target
-                                                                        .value
-                                                                ) || 0,
-                                                        })
-                                                    }
-                                                    min="0"
-                                                    step="0.1"
-                                                    className="input px-4"
-                                                />
-                                            </div>
-                                        </div>
-                                        <div>
-                                            <label className="input-label">
-                                                Discount
-                                            </label>
-                                            <div className="flex gap-2">
-                                                <div className="input-wrap flex-1">
-                                                    <input
-                                                        type="number"
-                                                        value={
-                                                            formData.discount
-                                                        }
-                                                        onChange={(e) =>
-                                                            setFormData({
-                                                                ...formData,
-                                                                discount:
-                                                                    parseFloat(
-                                                                        e.target
-                                                                            .value
-                                                                    ) || 0,
-                                                            })
-                                                        }
-                                                        min="0"
-                                                        step="0.01"
-                                                        className="input px-4"
-                                                    />
-                                                </div>
-                                                <select
-                                                    value={
-                                                        formData.discountType
-                                                    }
-                                                    onChange={(e) =>
-                                                        setFormData({
-                                                            ...formData,
-                                                            discountType: e
-                                                                .target
-                                                                .value as
-                                                                | 'percentage'
-                                                                | 'fixed',
-                                                        })
-                                                    }
-                                                    className="px-3 py-2 border border-primary-10 rounded-lg text-sm text-primary focus:outline-none focus:border-primary"
-                                                >
-                                                    <option value="percentage">
-                                                        %
-                                                    </option>
-                                                    <option value="fixed">
-                                                        $
-                                                    </option>
-                                                </select>
-                                            </div>
-                                        </div>
-                                    </div>
+                                {/* Tax */}
+                                <div className="pt-4 border-t border-primary-10 text-xs text-primary-50">
+                                    Tax is calculated from the customer's tax
+                                    group and tax exemptions when the invoice is
+                                    saved.
                                 </div>
                             </div>
                         )}
@@ -1125,16 +1138,16 @@ const CreateInvoiceModal = ({
                                 {formData.customer && (
                                     <>
                                         <div className="text-primary mt-1">
-                                            {formData.customer.name}
+                                            {formData.customer.displayName}
                                         </div>
                                         {formData.customer.email && (
                                             <div className="text-primary-75 text-xs mt-1">
                                                 {formData.customer.email}
                                             </div>
                                         )}
-                                        {formData.customer.address && (
+                                        {customerAddress && (
                                             <div className="text-primary-75 text-xs mt-1">
-                                                {formData.customer.address}
+                                                {customerAddress}
                                             </div>
                                         )}
                                     </>
@@ -1216,31 +1229,19 @@ const CreateInvoiceModal = ({
                                     {formatCurrency(subtotal)}
                                 </span>
                             </div>
-                            {formData.discount > 0 && (
-                                <div className="flex justify-between text-sm">
-                                    <span className="text-primary-75">
-                                        Discount (
-                                        {formData.discountType === 'percentage'
-                                            ? `${formData.discount}%`
-                                            : formatCurrency(formData.discount)}
-                                        )
-                                    </span>
-                                    <span className="text-primary">
-                                        -{formatCurrency(discountAmount)}
-                                    </span>
-                                </div>
-                            )}
                             <div className="flex justify-between text-sm">
-                                <span className="text-primary-75">
-                                    Tax ({formData.taxRate}%)
-                                </span>
+                                <span className="text-primary-75">Tax</span>
                                 <span className="text-primary">
-                                    {formatCurrency(totalTax)}
+                                    {totalTax === null
+                                        ? 'Calculated on save'
+                                        : formatCurrency(totalTax)}
                                 </span>
                             </div>
                             <div className="flex justify-between text-sm py-1 border-t border-primary-10 pt-3">
                                 <span className="font-medium text-primary">
-                                    Amount due
+                                    {totalTax === null
+                                        ? 'Amount due (before tax)'
+                                        : 'Amount due'}
                                 </span>
                                 <span className="font-medium text-primary">
                                     {formatCurrency(total)}
@@ -1249,13 +1250,13 @@ const CreateInvoiceModal = ({
                         </div>
 
                         {/* Notes */}
-                        {formData.notes && (
+                        {formData.memo && (
                             <div className="mt-6 pt-6 border-t border-primary-10">
                                 <div className="text-xs font-medium text-primary-75 mb-2">
                                     Notes:
                                 </div>
                                 <div className="text-xs text-primary-75 whitespace-pre-wrap">
-                                    {formData.notes}
+                                    {formData.memo}
                                 </div>
                             </div>
                         )}
@@ -0,0 +1,407 @@
+import { useRef, useState } from 'react';
+import { FaFileExcel } from 'react-icons/fa';
+import {
+    useImportJournalEntries,
+    useJournalEntryImportFields,
+} from '../../services/apis/journalApi';
+import type {
+    JournalEntryImportDateFormat,
+    JournalEntryImportMapping,
+    JournalEntryImportResult,
+} from '../../types/journal';
+import {
+    getDefaultImportMapping,
+    IMPORT_ACCEPT,
+    readFileHeaders,
+} from '../../utills/import';
+import { showErrorToast } from '../../utills/toast';
+import Popup from '../shared/Popup';
+import Button from '../typography/Button';
+import { SelectField } from '../typography/InputFields';
+
+const currencyFormatter = new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 2,
+});
+
+const DATE_FORMAT_OPTIONS: {
+    value: JournalEntryImportDateFormat;
+    label: string;
+}[] = [
+    { value: 'YYYY-MM-DD', label: 'YYYY-MM-DD' },
+    { value: 'MM/DD/YYYY', label: 'MM/DD/YYYY' },
+    { value: 'DD/MM/YYYY', label: 'DD/MM/YYYY' },
+];
+
+type ImportJournalEntriesPopupProps = {
+    isOpen: boolean;
+    onClose: () => void;
+};
+
+/**
+ * Import journal entries from a CSV or Excel file
+ * Rows are grouped into entries by entry number (or by date when there is
+ * none); the file can be validated (dry run) before the entries are created
+ */
+export function ImportJournalEntriesPopup({
+    isOpen,
+    onClose,
+}: ImportJournalEntriesPopupProps) {
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const [file, setFile] = useState<File | null>(null);
+    const [headers, setHeaders] = useState<string[]>([]);
+    const [mapping, setMapping] = useState<Record<string, string>>({});
+    const [dateFormat, setDateFormat] =
+        useState<JournalEntryImportDateFormat>('YYYY-MM-DD');
+    const [status, setStatus] = useState<'draft' | 'posted'>('draft');
+    const [allOrNothing, setAllOrNothing] = useState(true);
+    const [result, setResult] = useState<JournalEntryImportResult | null>(null);
+
+    const { data: fieldsData } = useJournalEntryImportFields();
+    const importMutation = useImportJournalEntries();
+
+    const fields = fieldsData?.data ?? [];
+    const missingRequired = fields.some(
+        (field) => field.required && !mapping[field.key]
+    );
+
+    const handleClose = () => {
+        setFile(null);
+        setHeaders([]);
+        setMapping({});
+        setDateFormat('YYYY-MM-DD');
+        setStatus('draft');
+        setAllOrNothing(true);
+        setResult(null);
+        onClose();
+    };
+
+    const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const selected = e.target.files?.[0];
+        // Reset input value to allow selecting the same file again
+        if (fileInputRef.current) {
+            fileInputRef.current.value = '';
+        }
+        if (!selected) {
+            return;
+        }
+
+        try {
+            const fileHeaders = await readFileHeaders(selected);
+            setFile(selected);
+            setHeaders(fileHeaders);
+            setMapping(getDefaultImportMapping(fields, fileHeaders));
+            setResult(null);
+        } catch (error) {
+            console.error('Read import file failed:', error);
+            showErrorToast('The file could not be read');
+        }
+    };
+
+    const handleImport = async (dryRun: boolean) => {
+        if (!file) return;
+
+        try {
+            const response = await importMutation.mutateAsync({
+                file,
+                mapping: mapping as JournalEntryImportMapping,
+                dateFormat,
+                status,
+                allOrNothing,
+                dryRun,
+            });
+            if (response.data.imported && response.data.errors.length === 0) {
+                handleClose();
+                return;
+            }
+            setResult(response.data);
+        } catch (error) {
+            // Rejected imports return the row errors
+            const maybeAxiosError = error as {
+                response?: { data?: { data?: JournalEntryImportResult } };
+            };
+            setResult(maybeAxiosError.response?.data?.data ?? null);
+        }
+    };
+
+    const getSummary = (importResult: JournalEntryImportResult): string => {
+        const { errors, validEntries, totalEntries } = importResult;
+        if (importResult.imported) {
+            return `${validEntries} of ${totalEntries} entries were imported; entries with errors were skipped.`;
+        }
+        if (errors.length === 0) {
+            return `All ${totalEntries} entries are valid and ready to import.`;
+        }
+        if (importResult.dryRun) {
+            return `${errors.length} error(s) found; ${validEntries} of ${totalEntries} entries are valid.`;
+        }
+        return `${errors.length} error(s) found; no entries were imported.`;
+    };
+
+    const clearResult = () => setResult(null);
+
+    return (
+        <Popup
+            isOpen={isOpen}
+            onClose={handleClose}
+            title="Import Journal Entries"
+            size="4xl"
+            loading={importMutation.isPending}
+            footer={
+                <div className="flex gap-3">
+                    <Button
+                        type="button"
+                        variant="outline"
+                        onClick={() => handleImport(true)}
+                        disabled={
+                            !file || missingRequired || importMutation.isPending
+                        }
+                    >
+                        Validate
+                    </Button>
+                    <Button
+                        type="button"
+                        variant="primary"
+                        onClick={() => handleImport(false)}
+                        loading={importMutation.isPending}
+                        disabled={
+                            !file ||
+                            missingRequired ||
+                            importMutation.isPending ||
+                            !!result?.imported
+                        }
+                    >
+                        Import
+                    </Button>
+                </div>
+            }
+        >
+            <div className="flex flex-col gap-4">
+                <p className="text-sm text-primary-50">
+                    Upload a CSV or Excel file with one journal line per row.
+                    Rows with the same entry number form one entry; rows without
+                    an entry number are grouped by date. Each entry must
+                    balance.
+                </p>
+
+                <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept={IMPORT_ACCEPT}
+                    onChange={handleFileChange}
+                    className="hidden"
+                />
+                <div className="flex flex-wrap items-center gap-3">
+                    <Button
+                        type="button"
+                        variant="outline"
+                        onClick={() => fileInputRef.current?.click()}
+                    >
+                        <FaFileExcel className="w-3 h-3" />
+                        {file ? 'Change File' : 'Choose File'}
+                    </Button>
+                    {file && (
+                        <span className="text-sm text-primary">
+                            {file.name}
+                        </span>
+                    )}
+                </div>
+
+                {file && (
+                    <>
+                        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                            {fields.map((field) => (
+                                <SelectField
+                                    key={field.key}
+                                    id={`journal-import-mapping-${field.key}`}
+                                    label={field.label}
+                                    required={field.required}
+                                    value={mapping[field.key] ?? ''}
+                                    onChange={(e) => {
+                                        setMapping((prev) => ({
+                                            ...prev,
+                                            [field.key]: e.target.value,
+                                        }));
+                                        clearResult();
+                                    }}
+                                    options={[
+                                        {
+                                            value: '',
+                                            label: field.required
+                                                ? 'Select a column'
+                                                : 'Not imported',
+                                        },
+                                        ...headers.map((header) => ({
+                                            value: header,
+                                            label: header,
+                                        })),
+                                    ]}
+                                />
+                            ))}
+                        </div>
+
+                        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                            <SelectField
+                                id="journal-import-date-format"
+                                label="Date Format"
+                                value={dateFormat}
+                                onChange={(e) => {
+                                    setDateFormat(
+                                        e.target
+                                            .value as JournalEntryImportDateFormat
+                                    );
+                                    clearResult();
+                                }}
+                                options={DATE_FORMAT_OPTIONS}
+                            />
+                            <SelectField
+                                id="journal-import-status"
+                                label="Import As"
+                                value={status}
+                                onChange={(e) => {
+                                    setStatus(
+                                        e.target.value as 'draft' | 'posted'
+                                    );
+                                    clearResult();
+                                }}
+                                options={[
+                                    { value: 'draft', label: 'Draft' },
+                                    { value: 'posted', label: 'Posted' },
+                                ]}
+                            />
+                        </div>
+
+                        <div className="flex items-center gap-2">
+                            <input
+                                type="checkbox"
+                                id="journal-import-all-or-nothing"
+                                checked={allOrNothing}
+                                onChange={(e) => {
+                                    setAllOrNothing(e.target.checked);
+                                    clearResult();
+                                }}
+                                className="w-4 h-4 text-primary border-gray-300 rounded focus:ring-primary"
+                            />
+                            <label
+                                htmlFor="journal-import-all-or-nothing"
+                                className="text-sm font-medium text-primary"
+                            >
+                                All or nothing (import no entries if any row has
+                                errors)
+                            </label>
+                        </div>
+                    </>
+                )}
+
+                {result && (
+                    <div className="flex flex-col gap-3">
+                        <p
+                            className={`text-sm font-medium ${
+                                result.errors.length > 0
+                                    ? 'text-red-500'
+                                    : 'text-green-600'
+                            }`}
+                        >
+                            {getSummary(result)}
+                        </p>
+
+                        {result.errors.length > 0 && (
+                            <div className="max-h-60 overflow-y-auto border border-primary-10 rounded-2">
+                                <table className="w-full text-sm">
+                                    <thead className="bg-primary-10">
+                                        <tr>
+                                            <th className="px-3 py-2 text-left font-semibold text-primary w-20">
+                                                Row
+                                            </th>
+                                            <th className="px-3 py-2 text-left font-semibold text-primary">
+                                                Error
+                                            </th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {result.errors.map(
+                                            (rowError, index) => (
+                                                <tr
+                                                    key={`${rowError.row}-${index}`}
+                                                    className="border-b border-primary-10"
+                                                >
+                                                    <td className="px-3 py-2 text-primary-75">
+                                                        {rowError.row}
+                                                    </td>
+                                                    <td className="px-3 py-2 text-red-500">
+                                                        {rowError.message}
+                                                    </td>
+                                                </tr>
+                                            )
+                                        )}
+                                    </tbody>
+                                </table>
+                            </div>
+                        )}
+
+                        {result.entries.length > 0 && (
+                            <div className="max-h-60 overflow-y-auto border border-primary-10 rounded-2">
+                                <table className="w-full text-sm">
+                                    <thead className="bg-primary-10">
+                                        <tr>
+                                            <th className="px-3 py-2 text-left font-semibold text-primary">
+                                                Rows
+                                            </th>
+                                            <th className="px-3 py-2 text-left font-semibold text-primary">
+                                                Date
+                                            </th>
+                                            <th className="px-3 py-2 text-left font-semibold text-primary">
+                                                Entry Number
+                                            </th>
+                                            <th className="px-3 py-2 text-right font-semibold text-primary">
+                                                Lines
+                                            </th>
+                                            <th className="px-3 py-2 text-right font-semibold text-primary">
+                                                Debit
+                                            </th>
+                                            <th className="px-3 py-2 text-right font-semibold text-primary">
+                                                Credit
+                                            </th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {result.entries.map((entry) => (
+                                            <tr
+                                                key={entry.rows.join('-')}
+                                                className="border-b border-primary-10"
+                                            >
+                                                <td className="px-3 py-2 text-primary-75">
+                                                    {entry.rows.join(', ')}
+                                                </td>
+                                                <td className="px-3 py-2 text-primary">
+                                                    {entry.entryDate}
+                                                </td>
+                                                <td className="px-3 py-2 text-primary">
+                                                    {entry.entryNumber ?? '-'}
+                                                </td>
+                                                <td className="px-3 py-2 text-right text-primary-75">
+                                                    {entry.lineCount}
+                                                </td>
+                                                <td className="px-3 py-2 text-right text-primary">
+                                                    {currencyFormatter.format(
+                                                        entry.totalDebit
+                                                    )}
+                                                </td>
+                                                <td className="px-3 py-2 text-right text-primary">
+                                                    {currencyFormatter.format(
+                                                        entry.totalCredit
+                                                    )}
+                                                </td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+                        )}
+                    </div>
+                )}
+            </div>
+        </Popup>
+    );
+}
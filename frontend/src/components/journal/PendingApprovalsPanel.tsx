@@ -0,0 +1,254 @@
+import { Fragment, useState } from 'react';
+import { FaCheckCircle } from 'react-icons/fa';
+import { useNavigate } from 'react-router';
+import {
+    useApproveJournalEntry,
+    usePendingApprovals,
+    useRejectJournalEntry,
+} from '../../services/apis/journalApi';
+import type { PendingApproval } from '../../types/journal';
+import ConfirmationDialog from '../shared/ConfirmationDialog';
+import Button from '../typography/Button';
+
+const formatNumber = (num: number) => {
+    return Number(num).toLocaleString(undefined, {
+        minimumFractionDigits: 2,
+        maximumFractionDigits: 2,
+    });
+};
+
+/**
+ * Journal entries waiting for the current user's approval, with approve and
+ * reject actions. Rejecting requires a comment for the preparer.
+ */
+export function PendingApprovalsPanel() {
+    const navigate = useNavigate();
+    const [page, setPage] = useState(1);
+    const [approveTarget, setApproveTarget] = useState<PendingApproval | null>(
+        null
+    );
+    const [rejectTargetId, setRejectTargetId] = useState<string | null>(null);
+    const [rejectComment, setRejectComment] = useState('');
+
+    const { data, isLoading, isError } = usePendingApprovals(page);
+    const approveMutation = useApproveJournalEntry();
+    const rejectMutation = useRejectJournalEntry();
+
+    const items = data?.data?.items || [];
+    const pagination = data?.data?.pagination;
+
+    const handleConfirmApprove = () => {
+        if (!approveTarget) return;
+        approveMutation.mutate(
+            { id: approveTarget.id },
+            { onSuccess: () => setApproveTarget(null) }
+        );
+    };
+
+    const handleToggleReject = (id: string) => {
+        setRejectTargetId(rejectTargetId === id ? null : id);
+        setRejectComment('');
+    };
+
+    const handleConfirmReject = (id: string) => {
+        rejectMutation.mutate(
+            { id, comment: rejectComment.trim() },
+            {
+                onSuccess: () => {
+                    setRejectTargetId(null);
+                    setRejectComment('');
+                },
+            }
+        );
+    };
+
+    return (
+        <div className="bg-white rounded-lg border border-primary-10 overflow-hidden">
+            <div className="px-3 py-2 border-b border-primary-10">
+                <h3 className="text-sm font-semibold text-primary flex items-center gap-2">
+                    <FaCheckCircle className="w-3 h-3" />
+                    <span>Pending My Approval</span>
+                </h3>
+            </div>
+
+            {isLoading ? (
+                <div className="px-3 py-6 text-center text-sm text-primary-50">
+                    Loading pending approvals...
+                </div>
+            ) : isError ? (
+                <div className="px-3 py-6 text-center text-sm text-red-500">
+                    Failed to load pending approvals. Please try again.
+                </div>
+            ) : items.length === 0 ? (
+                <div className="px-3 py-6 text-center text-sm text-primary-50">
+                    No entries are waiting for your approval
+                </div>
+            ) : (
+                <div className="overflow-x-auto">
+                    <table className="w-full">
+                        <thead className="bg-gray-50">
+                            <tr>
+                                <th className="px-3 py-2 text-left text-xs font-medium text-primary-75 uppercase tracking-wider">
+                                    Entry #
+                                </th>
+                                <th className="px-3 py-2 text-left text-xs font-medium text-primary-75 uppercase tracking-wider">
+                                    Date
+                                </th>
+                                <th className="px-3 py-2 text-left text-xs font-medium text-primary-75 uppercase tracking-wider">
+                                    Description
+                                </th>
+                                <th className="px-3 py-2 text-right text-xs font-medium text-primary-75 uppercase tracking-wider">
+                                    Amount
+                                </th>
+                                <th className="px-3 py-2 text-left text-xs font-medium text-primary-75 uppercase tracking-wider">
+                                    Step
+                                </th>
+                                <th className="px-3 py-2 text-right text-xs font-medium text-primary-75 uppercase tracking-wider">
+                                    Actions
+                                </th>
+                            </tr>
+                        </thead>
+                        <tbody className="bg-white divide-y divide-gray-200">
+                            {items.map((item) => (
+                                <Fragment key={item.id}>
+                                    <tr
+                                        className="hover:bg-gray-50 cursor-pointer"
+                                        onClick={() =>
+                                            navigate(
+                                                `/journal-entries/${item.id}`
+                                            )
+                                        }
+                                    >
+                                        <td className="px-3 py-2 whitespace-nowrap text-sm font-medium text-primary">
+                                            {item.entryNumber || '—'}
+                                        </td>
+                                        <td className="px-3 py-2 whitespace-nowrap text-sm text-primary-75">
+                                            {item.entryDate}
+                                        </td>
+                                        <td className="px-3 py-2 text-sm text-primary-75">
+                                            {item.description || '—'}
+                                        </td>
+                                        <td className="px-3 py-2 whitespace-nowrap text-sm text-right text-primary">
+                                            {formatNumber(item.totalDebit)}
+                                        </td>
+                                        <td className="px-3 py-2 whitespace-nowrap text-sm text-primary-75">
+                                            {item.currentStep.ruleName} ·{' '}
+                                            {item.currentStep.approvalsCount}/
+                                            {item.currentStep.requiredApprovals}
+                                        </td>
+                                        <td
+                                            className="px-3 py-2 whitespace-nowrap text-right"
+                                            onClick={(e) => e.stopPropagation()}
+                                        >
+                                            <div className="flex justify-end gap-2">
+                                                <Button
+                                                    size="sm"
+                                                    variant="outline"
+                                                    onClick={() =>
+                                                        setApproveTarget(item)
+                                                    }
+                                                >
+                                                    Approve
+                                                </Button>
+                                                <Button
+                                                    size="sm"
+                                                    variant="outline"
+                                                    onClick={() =>
+                                                        handleToggleReject(
+                                                            item.id
+                                                        )
+                                                    }
+                                                >
+                                                    Reject
+                                                </Button>
+                                            </div>
+                                        </td>
+                                    </tr>
+                                    {rejectTargetId === item.id && (
+                                        <tr>
+                                            <td
+                                                colSpan={6}
+                                                className="bg-gray-50 px-3 py-2"
+                                            >
+                                                <textarea
+                                                    value={rejectComment}
+                                                    onChange={(e) =>
+                                                        setRejectComment(
+                                                            e.target.value
+                                                        )
+                                                    }
+                                                    maxLength={1000}
+                                                    rows={2}
+                                                    placeholder="Reason for rejecting this entry"
+                                                    className="w-full rounded border border-primary-10 px-2 py-1 text-sm text-primary"
+                                                />
+                                                <div className="mt-2 flex justify-end gap-2">
+                                                    <Button
+                                                        size="sm"
+                                                        variant="outline"
+                                                        onClick={() =>
+                                                            handleToggleReject(
+                                                                item.id
+                                                            )
+                                                        }
+                                                    >
+                                                        Cancel
+                                                    </Button>
+                                                    <Button
+                                                        size="sm"
+                                                        onClick={() =>
+                                                            handleConfirmReject(
+                                                                item.id
+                                                            )
+                                                        }
+                                                        disabled={
+                                                            !rejectComment.trim() ||
+                                                            rejectMutation.isPending
+                                                        }
+                                                    >
+                                                        Reject Entry
+                                                    </Button>
+                                                </div>
+                                            </td>
+                                        </tr>
+                                    )}
+                                </Fragment>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+
+            {pagination && pagination.totalPages > 1 && (
+                <div className="px-3 py-2 border-t border-primary-10 flex items-center justify-end gap-2">
+                    <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => setPage(page - 1)}
+                        disabled={!pagination.hasPreviousPage}
+                    >
+                        Previous
+                    </Button>
+                    <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => setPage(page + 1)}
+                        disabled={!pagination.hasNextPage}
+                    >
+                        Next
+                    </Button>
+                </div>
+            )}
+
+            <ConfirmationDialog
+                isOpen={!!approveTarget}
+                onClose={() => setApproveTarget(null)}
+                onConfirm={handleConfirmApprove}
+                title="Approve Journal Entry"
+                message={`Approve entry ${approveTarget?.entryNumber || ''} for "${approveTarget?.currentStep.ruleName}"?`}
+                confirmText="Approve"
+                loading={approveMutation.isPending}
+            />
+        </div>
+    );
+}
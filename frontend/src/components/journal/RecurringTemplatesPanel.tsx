@@ -0,0 +1,297 @@
+import { Fragment, useState } from 'react';
+import { FaRedo } from 'react-icons/fa';
+import { useNavigate } from 'react-router';
+import {
+    useDeleteRecurringTemplate,
+    useRecurringTemplateEntries,
+    useRecurringTemplates,
+    useUpdateRecurringTemplate,
+} from '../../services/apis/journalApi';
+import type { RecurringTemplate } from '../../types/journal';
+import ConfirmationDialog from '../shared/ConfirmationDialog';
+import Button from '../typography/Button';
+
+const PAGE_SIZE = 10;
+
+const FREQUENCY_UNITS: Record<RecurringTemplate['frequency'], string> = {
+    daily: 'day',
+    weekly: 'week',
+    monthly: 'month',
+    yearly: 'year',
+};
+
+const formatNumber = (num: number) => {
+    return Number(num).toLocaleString(undefined, {
+        minimumFractionDigits: 2,
+        maximumFractionDigits: 2,
+    });
+};
+
+const formatSchedule = (template: RecurringTemplate) => {
+    const unit = FREQUENCY_UNITS[template.frequency];
+    return template.interval === 1
+        ? `Every ${unit}`
+        : `Every ${template.interval} ${unit}s`;
+};
+
+/**
+ * Entries generated from a single recurring template
+ */
+function RecurringTemplateHistory({ templateId }: { templateId: string }) {
+    const navigate = useNavigate();
+    const { data, isLoading } = useRecurringTemplateEntries(templateId);
+    const entries = data?.data?.items || [];
+
+    if (isLoading) {
+        return (
+            <div className="px-3 py-2 text-xs text-primary-50">
+                Loading generated entries...
+            </div>
+        );
+    }
+
+    if (entries.length === 0) {
+        return (
+            <div className="px-3 py-2 text-xs text-primary-50">
+                No entries generated yet
+            </div>
+        );
+    }
+
+    return (
+        <ul className="px-3 py-2 space-y-1">
+            {entries.map((entry) => (
+                <li
+                    key={entry.id}
+                    className="flex items-center justify-between text-xs text-primary-75 cursor-pointer hover:text-primary"
+                    onClick={() => navigate(`/journal-entries/${entry.id}`)}
+                >
+                    <span>
+                        {entry.entryNumber || '—'} · {entry.entryDate}
+                    </span>
+                    <span className="capitalize">{entry.status}</span>
+                </li>
+            ))}
+        </ul>
+    );
+}
+
+/**
+ * Recurring journal templates with their schedule, pause/resume and delete
+ * actions, and the history of generated entries per template
+ */
+export function RecurringTemplatesPanel() {
+    const [page, setPage] = useState(1);
+    const [expandedId, setExpandedId] = useState<string | null>(null);
+    const [deleteTarget, setDeleteTarget] = useState<RecurringTemplate | null>(
+        null
+    );
+
+    const { data, isLoading, isError } = useRecurringTemplates({
+        page,
+        limit: PAGE_SIZE,
+    });
+    const updateMutation = useUpdateRecurringTemplate();
+    const deleteMutation = useDeleteRecurringTemplate();
+
+    const templates = data?.data?.items || [];
+    const pagination = data?.data?.pagination;
+
+    const handleToggleStatus = (template: RecurringTemplate) => {
+        updateMutation.mutate({
+            id: template.id,
+            payload: {
+                status: template.status === 'active' ? 'paused' : 'active',
+            },
+        });
+    };
+
+    const handleConfirmDelete = () => {
+        if (!deleteTarget) return;
+        deleteMutation.mutate(deleteTarget.id, {
+            onSuccess: () => setDeleteTarget(null),
+        });
+    };
+
+    return (
+        <div className="bg-white rounded-lg border border-primary-10 overflow-hidden">
+            <div className="px-3 py-2 border-b border-primary-10">
+                <h3 className="text-sm font-semibold text-primary flex items-center gap-2">
+                    <FaRedo className="w-3 h-3" />
+                    <span>Recurring Entries</span>
+                </h3>
+            </div>
+
+            {isLoading ? (
+                <div className="px-3 py-6 text-center text-sm text-primary-50">
+                    Loading recurring entries...
+                </div>
+            ) : isError ? (
+                <div className="px-3 py-6 text-center text-sm text-red-500">
+                    Failed to load recurring entries. Please try again.
+                </div>
+            ) : templates.length === 0 ? (
+                <div className="px-3 py-6 text-center text-sm text-primary-50">
+                    No recurring entries yet
+                </div>
+            ) : (
+                <div className="overflow-x-auto">
+                    <table className="w-full">
+                        <thead className="bg-gray-50">
+                            <tr>
+                                <th className="px-3 py-2 text-left text-xs font-medium text-primary-75 uppercase tracking-wider">
+                                    Name
+                                </th>
+                                <th className="px-3 py-2 text-left text-xs font-medium text-primary-75 uppercase tracking-wider">
+                                    Schedule
+                                </th>
+                                <th className="px-3 py-2 text-left text-xs font-medium text-primary-75 uppercase tracking-wider">
+                                    Next Run
+                                </th>
+                                <th className="px-3 py-2 text-left text-xs font-medium text-primary-75 uppercase tracking-wider">
+                                    Generated
+                                </th>
+                                <th className="px-3 py-2 text-right text-xs font-medium text-primary-75 uppercase tracking-wider">
+                                    Amount
+                                </th>
+                                <th className="px-3 py-2 text-left text-xs font-medium text-primary-75 uppercase tracking-wider">
+                                    Status
+                                </th>
+                                <th className="px-3 py-2 text-right text-xs font-medium text-primary-75 uppercase tracking-wider">
+                                    Actions
+                                </th>
+                            </tr>
+                        </thead>
+                        <tbody className="bg-white divide-y divide-gray-200">
+                            {templates.map((template) => (
+                                <Fragment key={template.id}>
+                                    <tr
+                                        className="hover:bg-gray-50 cursor-pointer"
+                                        onClick={() =>
+                                            setExpandedId(
+                                                expandedId === template.id
+                                                    ? null
+                                                    : template.id
+                                            )
+                                        }
+                                    >
+                                        <td className="px-3 py-2 text-sm font-medium text-primary">
+                                            {template.name}
+                                            {template.lastError && (
+                                                <span className="block text-xs text-red-600">
+                                                    {template.lastError}
+                                                </span>
+                                            )}
+                                        </td>
+                                        <td className="px-3 py-2 whitespace-nowrap text-sm text-primary-75">
+                                            {formatSchedule(template)}
+                                            {template.autoPost &&
+                                                ' · auto-post'}
+                                        </td>
+                                        <td className="px-3 py-2 whitespace-nowrap text-sm text-primary">
+                                            {template.nextRunDate || '—'}
+                                        </td>
+                                        <td className="px-3 py-2 whitespace-nowrap text-sm text-primary">
+                                            {template.occurrencesCount}
+                                            {template.maxOccurrences
+                                                ? ` / ${template.maxOccurrences}`
+                                                : ''}
+                                        </td>
+                                        <td className="px-3 py-2 whitespace-nowrap text-sm text-right text-primary">
+                                            {formatNumber(template.totalDebit)}
+                                        </td>
+                                        <td className="px-3 py-2 whitespace-nowrap text-sm capitalize text-primary-75">
+                                            {template.status}
+                                        </td>
+                                        <td
+                                            className="px-3 py-2 whitespace-nowrap text-right"
+                                            onClick={(e) => e.stopPropagation()}
+                                        >
+                                            <div className="flex justify-end gap-2">
+                                                {template.status !==
+                                                    'completed' && (
+                                                    <Button
+                                                        size="sm"
+                                                        variant="outline"
+                                                        onClick={() =>
+                                                            handleToggleStatus(
+                                                                template
+                                                            )
+                                                        }
+                                                        disabled={
+                                                            updateMutation.isPending
+                                                        }
+                                                    >
+                                                        {template.status ===
+                                                        'active'
+                                                            ? 'Pause'
+                                                            : 'Resume'}
+                                                    </Button>
+                                                )}
+                                                <Button
+                                                    size="sm"
+                                                    variant="outline"
+                                                    onClick={() =>
+                                                        setDeleteTarget(
+                                                            template
+                                                        )
+                                                    }
+                                                >
+                                                    Delete
+                                                </Button>
+                                            </div>
+                                        </td>
+                                    </tr>
+                                    {expandedId === template.id && (
+                                        <tr>
+                                            <td
+                                                colSpan={7}
+                                                className="bg-gray-50"
+                                            >
+                                                <RecurringTemplateHistory
+                                                    templateId={template.id}
+                                                />
+                                            </td>
+                                        </tr>
+                                    )}
+                                </Fragment>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+
+            {pagination && pagination.totalPages > 1 && (
+                <div className="px-3 py-2 border-t border-primary-10 flex items-center justify-end gap-2">
+                    <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => setPage(page - 1)}
+                        disabled={!pagination.hasPreviousPage}
+                    >
+                        Previous
+                    </Button>
+                    <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => setPage(page + 1)}
+                        disabled={!pagination.hasNextPage}
+                    >
+                        Next
+                    </Button>
+                </div>
+            )}
+
+            <ConfirmationDialog
+                isOpen={!!deleteTarget}
+                onClose={() => setDeleteTarget(null)}
+                onConfirm={handleConfirmDelete}
+                title="Delete Recurring Entry"
+                message={`Are you sure you want to delete "${deleteTarget?.name}"? No further entries will be generated; entries that were already generated are kept.`}
+                confirmText="Delete"
+                confirmVariant="danger"
+                loading={deleteMutation.isPending}
+            />
+        </div>
+    );
+}
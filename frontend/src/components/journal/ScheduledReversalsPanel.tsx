@@ -0,0 +1,172 @@
+import { useState } from 'react';
+import { FaClock } from 'react-icons/fa';
+import { useNavigate } from 'react-router';
+import { useScheduledReversals } from '../../services/apis/journalApi';
+import type { ScheduledReversalStatus } from '../../types/journal';
+import Button from '../typography/Button';
+
+const PAGE_SIZE = 10;
+
+const formatNumber = (num: number) => {
+    return Number(num).toLocaleString(undefined, {
+        minimumFractionDigits: 2,
+        maximumFractionDigits: 2,
+    });
+};
+
+/**
+ * Posted entries that the reversal worker reverses on their reversal date,
+ * and entries whose automatic reversal failed after its last retry
+ */
+export function ScheduledReversalsPanel() {
+    const navigate = useNavigate();
+    const [status, setStatus] = useState<ScheduledReversalStatus>('upcoming');
+    const [page, setPage] = useState(1);
+
+    const { data, isLoading, isError } = useScheduledReversals({
+        status,
+        page,
+        limit: PAGE_SIZE,
+    });
+
+    const reversals = data?.data?.items || [];
+    const pagination = data?.data?.pagination;
+    const isFailed = status === 'failed';
+
+    const handleStatusChange = (nextStatus: ScheduledReversalStatus) => {
+        setStatus(nextStatus);
+        setPage(1);
+    };
+
+    return (
+        <div className="bg-white rounded-lg border border-primary-10 overflow-hidden">
+            <div className="px-3 py-2 border-b border-primary-10 flex items-center justify-between">
+                <h3 className="text-sm font-semibold text-primary flex items-center gap-2">
+                    <FaClock className="w-3 h-3" />
+                    <span>Scheduled Reversals</span>
+                </h3>
+                <div className="flex gap-2">
+                    <Button
+                        size="sm"
+                        variant={isFailed ? 'outline' : 'primary'}
+                        onClick={() => handleStatusChange('upcoming')}
+                    >
+                        Upcoming
+                    </Button>
+                    <Button
+                        size="sm"
+                        variant={isFailed ? 'primary' : 'outline'}
+                        onClick={() => handleStatusChange('failed')}
+                    >
+                        Failed
+                    </Button>
+                </div>
+            </div>
+
+            {isLoading ? (
+                <div className="px-3 py-6 text-center text-sm text-primary-50">
+                    Loading scheduled reversals...
+                </div>
+            ) : isError ? (
+                <div className="px-3 py-6 text-center text-sm text-red-500">
+                    Failed to load scheduled reversals. Please try again.
+                </div>
+            ) : reversals.length === 0 ? (
+                <div className="px-3 py-6 text-center text-sm text-primary-50">
+                    {isFailed
+                        ? 'No failed reversals'
+                        : 'No entries are scheduled for reversal'}
+                </div>
+            ) : (
+                <div className="overflow-x-auto">
+                    <table className="w-full">
+                        <thead className="bg-gray-50">
+                            <tr>
+                                <th className="px-3 py-2 text-left text-xs font-medium text-primary-75 uppercase tracking-wider">
+                                    Journal No.
+                                </th>
+                                <th className="px-3 py-2 text-left text-xs font-medium text-primary-75 uppercase tracking-wider">
+                                    Description
+                                </th>
+                                <th className="px-3 py-2 text-left text-xs font-medium text-primary-75 uppercase tracking-wider">
+                                    Entry Date
+                                </th>
+                                <th className="px-3 py-2 text-left text-xs font-medium text-primary-75 uppercase tracking-wider">
+                                    Reverses On
+                                </th>
+                                <th className="px-3 py-2 text-right text-xs font-medium text-primary-75 uppercase tracking-wider">
+                                    Amount
+                                </th>
+                                {isFailed && (
+                                    <th className="px-3 py-2 text-left text-xs font-medium text-primary-75 uppercase tracking-wider">
+                                        Error
+                                    </th>
+                                )}
+                            </tr>
+                        </thead>
+                        <tbody className="bg-white divide-y divide-gray-200">
+                            {reversals.map((reversal) => (
+                                <tr
+                                    key={reversal.id}
+                                    className="hover:bg-gray-50 cursor-pointer"
+                                    onClick={() =>
+                                        navigate(
+                                            `/journal-entries/${reversal.id}`
+                                        )
+                                    }
+                                >
+                                    <td className="px-3 py-2 whitespace-nowrap text-sm font-medium text-primary">
+                                        {reversal.entryNumber || '—'}
+                                    </td>
+                                    <td className="px-3 py-2 text-sm text-primary-75">
+                                        {reversal.description || '—'}
+                                    </td>
+                                    <td className="px-3 py-2 whitespace-nowrap text-sm text-primary">
+                                        {reversal.entryDate}
+                                    </td>
+                                    <td className="px-3 py-2 whitespace-nowrap text-sm text-primary">
+                                        {reversal.reversalDate}
+                                    </td>
+                                    <td className="px-3 py-2 whitespace-nowrap text-sm text-right text-primary">
+                                        {formatNumber(reversal.totalDebit)}
+                                    </td>
+                                    {isFailed && (
+                                        <td className="px-3 py-2 text-sm text-red-600">
+                                            {reversal.reversalError ||
+                                                'Unknown error'}
+                                            <span className="block text-xs text-primary-50">
+                                                {reversal.reversalAttempts}{' '}
+                                                attempts
+                                            </span>
+                                        </td>
+                                    )}
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+
+            {pagination && pagination.totalPages > 1 && (
+                <div className="px-3 py-2 border-t border-primary-10 flex items-center justify-end gap-2">
+                    <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => setPage(page - 1)}
+                        disabled={!pagination.hasPreviousPage}
+                    >
+                        Previous
+                    </Button>
+                    <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => setPage(page + 1)}
+                        disabled={!pagination.hasNextPage}
+                    >
+                        Next
+                    </Button>
+                </div>
+            )}
+        </div>
+    );
+}
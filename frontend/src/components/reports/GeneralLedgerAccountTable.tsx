@@ -0,0 +1,194 @@
+import { useState } from 'react';
+import { Link } from 'react-router';
+import { useGeneralLedgerAccount } from '../../services/apis/reportsApi';
+import Loading from '../shared/Loading';
+
+type GeneralLedgerAccountTableProps = {
+    accountId: string;
+    startDate: string;
+    endDate: string;
+    includeClosingEntries: boolean;
+};
+
+const PAGE_SIZE = 20;
+
+const formatNumber = (num: number) => {
+    return num.toLocaleString(undefined, {
+        minimumFractionDigits: 2,
+        maximumFractionDigits: 2,
+    });
+};
+
+const GeneralLedgerAccountTable = ({
+    accountId,
+    startDate,
+    endDate,
+    includeClosingEntries,
+}: GeneralLedgerAccountTableProps) => {
+    const [page, setPage] = useState(1);
+
+    const { data, isLoading, error } = useGeneralLedgerAccount(accountId, {
+        startDate: startDate || undefined,
+        endDate: endDate || undefined,
+        page,
+        limit: PAGE_SIZE,
+        includeClosingEntries,
+    });
+
+    if (isLoading) {
+        return (
+            <div className="flex items-center justify-center py-6">
+                <Loading />
+            </div>
+        );
+    }
+
+    if (error || !data) {
+        return (
+            <p className="py-4 text-sm text-red-500">
+                Failed to load account movements
+            </p>
+        );
+    }
+
+    const { account, items, pagination } = data.data;
+
+    return (
+        <div className="space-y-3">
+            <table className="w-full text-sm">
+                <thead>
+                    <tr className="border-b border-gray-200 text-primary-75">
+                        <th className="text-left py-2 px-3 font-medium">
+                            Date
+                        </th>
+                        <th className="text-left py-2 px-3 font-medium">
+                            Entry
+                        </th>
+                        <th className="text-left py-2 px-3 font-medium">
+                            Description
+                        </th>
+                        <th className="text-right py-2 px-3 font-medium">
+                            Debit
+                        </th>
+                        <th className="text-right py-2 px-3 font-medium">
+                            Credit
+                        </th>
+                        <th className="text-right py-2 px-3 font-medium">
+                            Balance
+                        </th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {pagination.page === 1 && (
+                        <tr className="border-b border-gray-100 bg-gray-50">
+                            <td
+                                colSpan={5}
+                                className="py-2 px-3 font-medium text-primary"
+                            >
+                                Opening balance
+                            </td>
+                            <td className="text-right py-2 px-3 font-medium text-primary">
+                                {formatNumber(account.openingBalance)}
+                            </td>
+                        </tr>
+                    )}
+                    {items.length === 0 ? (
+                        <tr>
+                            <td
+                                colSpan={6}
+                                className="py-4 px-3 text-center text-primary-50"
+                            >
+                                No posted movements in this period
+                            </td>
+                        </tr>
+                    ) : (
+                        items.map((movement) => (
+                            <tr
+                                key={movement.journalEntryLineId}
+                                className="border-b border-gray-100 hover:bg-gray-50"
+                            >
+                                <td className="py-2 px-3 whitespace-nowrap">
+                                    {movement.entryDate}
+                                </td>
+                                <td className="py-2 px-3 whitespace-nowrap">
+                                    <Link
+                                        to={`/journal-entries/${movement.journalEntryId}`}
+                                        className="text-primary underline hover:no-underline"
+                                    >
+                                        {movement.entryNumber ?? 'View entry'}
+                                    </Link>
+                                </td>
+                                <td className="py-2 px-3 text-primary-75">
+                                    {movement.description ??
+                                        movement.reference ??
+                                        ''}
+                                </td>
+                                <td className="text-right py-2 px-3">
+                                    {movement.debit > 0
+                                        ? formatNumber(movement.debit)
+                                        : ''}
+                                </td>
+                                <td className="text-right py-2 px-3">
+                                    {movement.credit > 0
+                                        ? formatNumber(movement.credit)
+                                        : ''}
+                                </td>
+                                <td className="text-right py-2 px-3 font-medium">
+                                    {formatNumber(movement.runningBalance)}
+                                </td>
+                            </tr>
+                        ))
+                    )}
+                    {!pagination.hasNextPage && (
+                        <tr className="border-t-2 border-primary">
+                            <td
+                                colSpan={3}
+                                className="py-2 px-3 font-semibold text-primary"
+                            >
+                                Closing balance
+                            </td>
+                            <td className="text-right py-2 px-3 font-semibold text-primary">
+                                {formatNumber(account.totalDebit)}
+                            </td>
+                            <td className="text-right py-2 px-3 font-semibold text-primary">
+                                {formatNumber(account.totalCredit)}
+                            </td>
+                            <td className="text-right py-2 px-3 font-semibold text-primary">
+                                {formatNumber(account.closingBalance)}
+                            </td>
+                        </tr>
+                    )}
+                </tbody>
+            </table>
+
+            {pagination.totalPages > 1 && (
+                <div className="flex items-center justify-between text-sm text-primary-75">
+                    <span>
+                        Page {pagination.page} of {pagination.totalPages} (
+                        {pagination.total} movements)
+                    </span>
+                    <div className="flex gap-2">
+                        <button
+                            type="button"
+                            onClick={() => setPage((prev) => prev - 1)}
+                            disabled={!pagination.hasPreviousPage}
+                            className="px-3 py-1 rounded-2 border border-primary-10 text-primary hover:bg-primary-10 disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            Previous
+                        </button>
+                        <button
+                            type="button"
+                            onClick={() => setPage((prev) => prev + 1)}
+                            disabled={!pagination.hasNextPage}
+                            className="px-3 py-1 rounded-2 border border-primary-10 text-primary hover:bg-primary-10 disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            Next
+                        </button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default GeneralLedgerAccountTable;
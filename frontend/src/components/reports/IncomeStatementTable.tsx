@@ -1,73 +1,103 @@
 import { Fragment, useState } from 'react';
 import { FaChevronDown, FaChevronRight } from 'react-icons/fa';
-import {
-    incomeStatementPeriods,
+import { INCOME_STATEMENT_SECTION_LABELS } from '../../constants/reports';
+import type {
+    IncomeStatement,
+    IncomeStatementAmount,
     IncomeStatementSection,
-    incomeStatementSections,
-} from '../../constants/incomeStatementData';
+    IncomeStatementSectionKey,
+    ReportPeriod,
+} from '../../types/reports';
 
-const IncomeStatementTable = () => {
-    const [expandedSections, setExpandedSections] = useState<{
-        [key: string]: boolean;
-    }>(() => {
-        const initialState: { [key: string]: boolean } = {};
-        incomeStatementSections.forEach((section) => {
-            if (section.collapsible) {
-                initialState[section.id] = true;
-            }
-        });
-        return initialState;
+type IncomeStatementTableProps = {
+    report: IncomeStatement;
+};
+
+type SummaryRow = {
+    id: string;
+    label: string;
+    type: 'calculated' | 'final';
+    amount: IncomeStatementAmount;
+};
+
+const formatPeriod = (period: ReportPeriod) => {
+    const formatter = new Intl.DateTimeFormat('en-US', {
+        month: 'short',
+        day: '2-digit',
+        year: 'numeric',
+        timeZone: 'UTC',
     });
+    return `${formatter.format(new Date(period.startDate))} - ${formatter.format(
+        new Date(period.endDate)
+    )}`;
+};
+
+const IncomeStatementTable = ({ report }: IncomeStatementTableProps) => {
+    const [collapsedSections, setCollapsedSections] = useState<{
+        [key: string]: boolean;
+    }>({});
+
+    const hasComparison = report.comparisonPeriod !== null;
 
     const toggleSection = (sectionId: string) => {
-        setExpandedSections((prev) => ({
+        setCollapsedSections((prev) => ({
             ...prev,
             [sectionId]: !prev[sectionId],
         }));
     };
 
     const formatNumber = (num: number) => {
-        return num.toLocaleString();
+        return num.toLocaleString(undefined, {
+            minimumFractionDigits: 2,
+            maximumFractionDigits: 2,
+        });
     };
 
-    const renderSectionRow = (section: IncomeStatementSection) => {
-        const isExpanded = expandedSections[section.id];
-        const { type, label, totalValues, collapsible } = section;
-
-        let rowClasses = 'border-b border-gray-200';
-        let cellClasses =
-            'py-3 px-4 font-semibold text-primary sticky left-0 bg-white';
-        let valueCellClasses = 'text-right py-3 px-4 font-semibold';
-
-        if (type === 'calculated') {
-            rowClasses = 'border-b border-gray-300 bg-gray-50';
-            cellClasses =
-                'py-3 px-4 font-bold text-primary sticky left-0 bg-gray-50';
-            valueCellClasses = 'text-right py-3 px-4 font-bold';
-        } else if (type === 'final') {
-            rowClasses = 'border-t-2 border-primary bg-primary-10';
-            cellClasses =
-                'py-4 px-4 font-bold text-primary text-base sticky left-0 bg-primary-10';
-            valueCellClasses =
-                'text-right py-4 px-4 font-bold text-base text-green-600';
-        } else {
-            rowClasses += ' hover:bg-gray-50';
-            cellClasses += ' hover:bg-gray-50';
+    const renderAmountCells = (
+        amount: IncomeStatementAmount,
+        cellClasses: string
+    ) => {
+        const values = [amount.current];
+        if (hasComparison) {
+            values.push(amount.comparison ?? 0, amount.change ?? 0);
         }
 
-        if (collapsible) {
-            rowClasses += ' cursor-pointer';
-        }
+        return (
+            <>
+                {values.map((value, index) => (
+                    <td
+                        key={`value-${index}`}
+                        className={`${cellClasses} min-w-[150px]`}
+                    >
+                        {formatNumber(value)}
+                    </td>
+                ))}
+                {hasComparison && (
+                    <td className={`${cellClasses} min-w-[100px]`}>
+                        {amount.changePercent === null
+                            ? '—'
+                            : `${amount.changePercent.toFixed(1)}%`}
+                    </td>
+                )}
+            </>
+        );
+    };
+
+    const renderSectionRow = (section: IncomeStatementSection) => {
+        const collapsible = section.accounts.length > 0;
+        const isExpanded = collapsible && !collapsedSections[section.key];
 
         return (
             <tr
-                key={section.id}
-                className={rowClasses}
+                key={section.key}
+                className={`border-b border-gray-200 hover:bg-gray-50${
+                    collapsible ? ' cursor-pointer' : ''
+                }`}
                 onClick={
-                    collapsible ? () => toggleSection(section.id) : undefined
+                    collapsible ? () => toggleSection(section.key) : undefined
                 }
             >
-                <td className={cellClasses}>
+                <td className="py-3 px-4 font-semibold text-primary sticky left-0 bg-white hover:bg-gray-50">
                     {collapsible ? (
                         <div className="flex items-center gap-2">
                             {isExpanded ? (
@@ -75,59 +105,102 @@ const IncomeStatementTable = () => {
                             ) : (
                                 <FaChevronRight className="text-xs" />
                             )}
-                            {label}
+                            {INCOME_STATEMENT_SECTION_LABELS[section.key]}
                         </div>
                     ) : (
-                        label
+                        INCOME_STATEMENT_SECTION_LABELS[section.key]
                     )}
                 </td>
-                {totalValues.map((value, index) => (
-                    <td
-                        key={`value-${index}`}
-                        className={`${valueCellClasses} min-w-[150px]`}
-                    >
-                        {formatNumber(value)}
-                    </td>
-                ))}
+                {renderAmountCells(
+                    section.total,
+                    'text-right py-3 px-4 font-semibold'
+                )}
             </tr>
         );
     };
 
     const renderLineItems = (section: IncomeStatementSection) => {
-        if (
-            !section.collapsible ||
-            !expandedSections[section.id] ||
-            !section.items ||
-            section.items.length === 0
-        ) {
+        if (section.accounts.length === 0 || collapsedSections[section.key]) {
             return null;
         }
 
-        return section.items.map((item, itemIndex) => (
+        return section.accounts.map((account) => (
             <tr
-                key={`${section.id}-item-${itemIndex}`}
+                key={account.accountId}
                 className="border-b border-gray-100 hover:bg-gray-50"
             >
                 <td className="py-2 px-4 pl-8 text-black sticky left-0 bg-white hover:bg-gray-50">
-                    {item.code && (
+                    {account.accountNumber && (
                         <span className="text-xs text-gray-400 mr-2">
-                            {item.code}
+                            {account.accountNumber}
                         </span>
                     )}
-                    {item.label}
+                    {account.accountName}
                 </td>
-                {item.values.map((value, valueIndex) => (
-                    <td
-                        key={`item-value-${valueIndex}`}
-                        className="text-right py-2 px-4 min-w-[150px]"
-                    >
-                        {formatNumber(value)}
-                    </td>
-                ))}
+                {renderAmountCells(account.amount, 'text-right py-2 px-4')}
             </tr>
         ));
     };
 
+    const renderSummaryRow = (row: SummaryRow) => {
+        if (row.type === 'final') {
+            return (
+                <tr
+                    key={row.id}
+                    className="border-t-2 border-primary bg-primary-10"
+                >
+                    <td className="py-4 px-4 font-bold text-primary text-base sticky left-0 bg-primary-10">
+                        {row.label}
+                    </td>
+                    {renderAmountCells(
+                        row.amount,
+                        `text-right py-4 px-4 font-bold text-base ${
+                            row.amount.current < 0
+                                ? 'text-red-600'
+                                : 'text-green-600'
+                        }`
+                    )}
+                </tr>
+            );
+        }
+
+        return (
+            <tr key={row.id} className="border-b border-gray-300 bg-gray-50">
+                <td className="py-3 px-4 font-bold text-primary sticky left-0 bg-gray-50">
+                    {row.label}
+                </td>
+                {renderAmountCells(
+                    row.amount,
+                    'text-right py-3 px-4 font-bold'
+                )}
+            </tr>
+        );
+    };
+
+    // Calculated rows shown after the section they close
+    const summaryRowsAfter: Partial<
+        Record<IncomeStatementSectionKey, SummaryRow>
+    > = {
+        costOfGoodsSold: {
+            id: 'grossProfit',
+            label: 'Gross Profit',
+            type: 'calculated',
+            amount: report.totals.grossProfit,
+        },
+        operatingExpenses: {
+            id: 'operatingIncome',
+            label: 'Operating Income',
+            type: 'calculated',
+            amount: report.totals.operatingIncome,
+        },
+        otherExpenses: {
+            id: 'netIncome',
+            label: 'Net Income',
+            type: 'final',
+            amount: report.totals.netIncome,
+        },
+    };
+
     return (
         <div className="bg-white rounded-lg border border-primary-10 overflow-hidden">
             <div className="overflow-x-auto">
@@ -137,24 +210,36 @@ const IncomeStatementTable = () => {
                             <th className="text-left py-3 px-4 font-semibold text-primary sticky left-0 bg-gray-50 z-10">
                                 Income statement
                             </th>
-                            {incomeStatementPeriods.map((period, index) => (
-                                <th
-                                    key={`period-${index}`}
-                                    className="text-right py-3 px-4 font-semibold text-primary min-w-[150px]"
-                                >
-                                    {period.label}
-                                </th>
-                            ))}
+                            <th className="text-right py-3 px-4 font-semibold text-primary min-w-[150px]">
+                                {formatPeriod(report.period)}
+                            </th>
+                            {report.comparisonPeriod && (
+                                <>
+                                    <th className="text-right py-3 px-4 font-semibold text-primary min-w-[150px]">
+                                        {formatPeriod(report.comparisonPeriod)}
+                                    </th>
+                                    <th className="text-right py-3 px-4 font-semibold text-primary min-w-[150px]">
+                                        Change
+                                    </th>
+                                    <th className="text-right py-3 px-4 font-semibold text-primary min-w-[100px]">
+                                        % Change
+                                    </th>
+                                </>
+                            )}
                         </tr>
                     </thead>
 
                     <tbody>
-                        {incomeStatementSections.map((section) => (
-                            <Fragment key={section.id}>
-                                {renderSectionRow(section)}
-                                {renderLineItems(section)}
-                            </Fragment>
-                        ))}
+                        {report.sections.map((section) => {
+                            const summaryRow = summaryRowsAfter[section.key];
+                            return (
+                                <Fragment key={section.key}>
+                                    {renderSectionRow(section)}
+                                    {renderLineItems(section)}
+                                    {summaryRow && renderSummaryRow(summaryRow)}
+                                </Fragment>
+                            );
+                        })}
                     </tbody>
                 </table>
             </div>
@@ -0,0 +1,179 @@
+import { useEffect, useState } from 'react';
+import { FaTimes } from 'react-icons/fa';
+import { useCreateFiscalYear } from '../../services/apis/fiscalYearApi';
+import type { FiscalPeriodType } from '../../types/fiscalYears';
+import Button from '../typography/Button';
+import { InputField } from '../typography/InputFields';
+
+interface CreateFiscalYearModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+}
+
+const CreateFiscalYearModal = ({
+    isOpen,
+    onClose,
+}: CreateFiscalYearModalProps) => {
+    const [name, setName] = useState('');
+    const [startDate, setStartDate] = useState('');
+    const [periodType, setPeriodType] = useState<FiscalPeriodType>('monthly');
+    const [error, setError] = useState('');
+
+    const { mutateAsync: createFiscalYear, isPending } = useCreateFiscalYear();
+
+    useEffect(() => {
+        const handleEscape = (e: KeyboardEvent) => {
+            if (e.key === 'Escape' && isOpen && !isPending) {
+                onClose();
+            }
+        };
+
+        if (isOpen) {
+            document.addEventListener('keydown', handleEscape);
+            document.body.style.overflow = 'hidden';
+        }
+
+        return () => {
+            document.removeEventListener('keydown', handleEscape);
+            document.body.style.overflow = 'unset';
+        };
+    }, [isOpen, onClose, isPending]);
+
+    const handleBackdropClick = (e: React.MouseEvent<HTMLDivElement>) => {
+        if (e.target === e.currentTarget && !isPending) {
+            onClose();
+        }
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+
+        if (!startDate) {
+            setError('Start date is required');
+            return;
+        }
+
+        try {
+            await createFiscalYear({
+                ...(name.trim() ? { name: name.trim() } : {}),
+                startDate,
+                periodType,
+            });
+            setName('');
+            setStartDate('');
+            setPeriodType('monthly');
+            setError('');
+            onClose();
+        } catch (error) {
+            // Error is handled by the mutation's onError
+            console.error('Create fiscal year error:', error);
+        }
+    };
+
+    if (!isOpen) return null;
+
+    return (
+        <div
+            className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 backdrop-blur-sm px-4"
+            onClick={handleBackdropClick}
+        >
+            <div className="w-full max-w-md rounded-2 bg-white p-6 shadow-2xl">
+                <div className="flex items-start justify-between mb-4">
+                    <h3 className="text-lg font-semibold text-primary">
+                        Create Fiscal Year
+                    </h3>
+                    <button
+                        onClick={onClose}
+                        disabled={isPending}
+                        className="text-primary-50 hover:text-primary transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                        aria-label="Close"
+                    >
+                        <FaTimes className="w-5 h-5" />
+                    </button>
+                </div>
+
+                <form onSubmit={handleSubmit} className="space-y-4">
+                    <div>
+                        <InputField
+                            id="fiscal-year-start"
+                            label="Start Date"
+                            type="date"
+                            value={startDate}
+                            onChange={(e) => {
+                                setStartDate(e.target.value);
+                                setError('');
+                            }}
+                            required
+                        />
+                        {error && (
+                            <p className="text-red-500 text-xs mt-1 pl-1">
+                                {error}
+                            </p>
+                        )}
+                        <p className="text-primary-50 text-xs mt-1 pl-1">
+                            The fiscal year runs for twelve months from this
+                            date.
+                        </p>
+                    </div>
+
+                    <div>
+                        <InputField
+                            id="fiscal-year-name"
+                            label="Name"
+                            placeholder="e.g., FY 2025"
+                            value={name}
+                            onChange={(e) => setName(e.target.value)}
+                        />
+                        <p className="text-primary-50 text-xs mt-1 pl-1">
+                            Defaults to FY followed by the year it ends in.
+                        </p>
+                    </div>
+
+                    <div>
+                        <label
+                            className="input-label"
+                            htmlFor="fiscal-year-period-type"
+                        >
+                            Periods
+                        </label>
+                        <select
+                            id="fiscal-year-period-type"
+                            value={periodType}
+                            onChange={(e) =>
+                                setPeriodType(
+                                    e.target.value as FiscalPeriodType
+                                )
+                            }
+                            className="w-full px-4 py-2 border border-primary-10 rounded-2 text-sm text-primary focus:outline-none focus:border-primary"
+                        >
+                            <option value="monthly">Monthly</option>
+                            <option value="quarterly">Quarterly</option>
+                        </select>
+                    </div>
+
+                    <div className="mt-6 flex flex-col gap-3 sm:flex-row sm:justify-end">
+                        <Button
+                            type="button"
+                            variant="outline"
+                            className="flex-1 sm:flex-initial"
+                            onClick={onClose}
+                            disabled={isPending}
+                        >
+                            Cancel
+                        </Button>
+                        <Button
+                            type="submit"
+                            variant="primary"
+                            className="flex-1 sm:flex-initial"
+                            loading={isPending}
+                        >
+                            Create Fiscal Year
+                        </Button>
+                    </div>
+                </form>
+            </div>
+        </div>
+    );
+};
+
+export default CreateFiscalYearModal;
@@ -1,11 +1,15 @@
 import { useEffect, useState } from 'react';
 import { FaTimes } from 'react-icons/fa';
 import {
+    useChartOfAccountTemplates,
     useCreateTenant,
     type CreateTenantRequest,
 } from '../../services/apis/tenantApi';
 import Button from '../typography/Button';
-import { InputField } from '../typography/InputFields';
+import { InputField, SelectField } from '../typography/InputFields';
+
+// Template pre-selected for new tenants
+const DEFAULT_TEMPLATE = 'general_small_business';
 
 interface CreateTenantModalProps {
     isOpen: boolean;
@@ -16,10 +20,17 @@ const CreateTenantModal = ({ isOpen, onClose }: CreateTenantModalProps) => {
     const [formData, setFormData] = useState<CreateTenantRequest>({
         name: '',
         schemaName: '',
+        chartOfAccountTemplate: DEFAULT_TEMPLATE,
     });
     const [errors, setErrors] = useState<Record<string, string>>({});
 
     const { mutateAsync: createTenant, isPending } = useCreateTenant();
+    const { data: templatesData } = useChartOfAccountTemplates(isOpen);
+
+    const templates = templatesData?.data ?? [];
+    const selectedTemplate = templates.find(
+        (template) => template.key === formData.chartOfAccountTemplate
+    );
 
     useEffect(() => {
         if (isOpen) {
@@ -66,6 +77,7 @@ const CreateTenantModal = ({ isOpen, onClose }: CreateTenantModalProps) => {
 
     const handleNameChange = (value: string) => {
         setFormData({
+            ...formData,
             name: value,
             schemaName: generateSchemaName(value),
         });
@@ -104,9 +116,19 @@ const CreateTenantModal = ({ isOpen, onClose }: CreateTenantModalProps) => {
             await createTenant({
                 name: formData.name.trim(),
                 schemaName: formData.schemaName.trim(),
+                ...(formData.chartOfAccountTemplate
+                    ? {
+                          chartOfAccountTemplate:
+                              formData.chartOfAccountTemplate,
+                      }
+                    : {}),
             });
             // Reset form on success
-            setFormData({ name: '', schemaName: '' });
+            setFormData({
+                name: '',
+                schemaName: '',
+                chartOfAccountTemplate: DEFAULT_TEMPLATE,
+            });
             setErrors({});
             onClose();
         } catch (error) {
@@ -179,6 +201,35 @@ const CreateTenantModal = ({ isOpen, onClose }: CreateTenantModalProps) => {
                         </p>
                     </div>
 
+                    <div>
+                        <SelectField
+                            id="chart-of-account-template"
+                            label="Chart of Accounts Template"
+                            value={formData.chartOfAccountTemplate ?? ''}
+                            onChange={(e) =>
+                                setFormData({
+                                    ...formData,
+                                    chartOfAccountTemplate: e.target.value,
+                                })
+                            }
+                            options={[
+                                {
+                                    value: '',
+                                    label: 'None (empty chart of accounts)',
+                                },
+                                ...templates.map((template) => ({
+                                    value: template.key,
+                                    label: template.name,
+                                })),
+                            ]}
+                        />
+                        <p className="text-primary-50 text-xs mt-1 pl-1">
+                            {selectedTemplate
+                                ? `${selectedTemplate.description} (${selectedTemplate.accountCount} accounts)`
+                                : 'The tenant starts without accounts.'}
+                        </p>
+                    </div>
+
                     <div className="mt-6 flex flex-col gap-3 sm:flex-row sm:justify-end">
                         <Button
                             type="button"
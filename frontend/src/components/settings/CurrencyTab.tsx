@@ -0,0 +1,420 @@
+import { useState } from 'react';
+import { FaCoins, FaEdit, FaFileImport, FaPlus, FaTrash } from 'react-icons/fa';
+import { useChartOfAccounts } from '../../services/apis/chartsAccountApi';
+import {
+    useCurrencySettings,
+    useDeleteExchangeRate,
+    useExchangeRates,
+    useUpdateCurrencySettings,
+} from '../../services/apis/currencyApi';
+import type { ExchangeRate } from '../../types/currency';
+import ConfirmationDialog from '../shared/ConfirmationDialog';
+import Button from '../typography/Button';
+import Chips from '../typography/Chips';
+import { InputField, SelectField } from '../typography/InputFields';
+import ExchangeRateModal from './ExchangeRateModal';
+import FxRevaluationModal from './FxRevaluationModal';
+import ImportExchangeRatesModal from './ImportExchangeRatesModal';
+
+const RATES_PER_PAGE = 20;
+
+// FX gains and losses are booked to an income statement account
+const GAIN_LOSS_ACCOUNT_TYPES = ['revenue', 'expense'];
+
+const CurrencyTab = () => {
+    // Edited settings; the saved value is shown until a field is changed
+    const [baseCurrency, setBaseCurrency] = useState<string | null>(null);
+    const [gainLossAccountId, setGainLossAccountId] = useState<string | null>(
+        null
+    );
+    const [currencyFilter, setCurrencyFilter] = useState('');
+    const [page, setPage] = useState(1);
+    const [showRateModal, setShowRateModal] = useState(false);
+    const [editingRate, setEditingRate] = useState<ExchangeRate | null>(null);
+    const [deleteRate, setDeleteRate] = useState<ExchangeRate | null>(null);
+    const [showImportModal, setShowImportModal] = useState(false);
+    const [revaluationDate, setRevaluationDate] = useState('');
+    const [previewDate, setPreviewDate] = useState<string | null>(null);
+
+    const { data: settingsData, isLoading: isSettingsLoading } =
+        useCurrencySettings();
+    const { data: accountsData } = useChartOfAccounts({
+        isActive: true,
+        limit: 100,
+        sort: 'accountNumber',
+        order: 'asc',
+    });
+    const {
+        data: ratesData,
+        isLoading: isRatesLoading,
+        isError: isRatesError,
+    } = useExchangeRates({
+        currencyCode: /^[A-Z]{3}$/.test(currencyFilter)
+            ? currencyFilter
+            : undefined,
+        page,
+        limit: RATES_PER_PAGE,
+    });
+    const { mutateAsync: updateSettings, isPending: isSaving } =
+        useUpdateCurrencySettings();
+    const { mutateAsync: deleteExchangeRate, isPending: isDeleting } =
+        useDeleteExchangeRate();
+
+    const settings = settingsData?.data;
+    const savedBaseCurrency = settings?.baseCurrency ?? '';
+    const savedGainLossAccountId = settings?.fxGainLossAccount?.id ?? '';
+    const selectedBaseCurrency = baseCurrency ?? savedBaseCurrency;
+    const selectedGainLossAccountId =
+        gainLossAccountId ?? savedGainLossAccountId;
+    const isDirty =
+        selectedBaseCurrency !== savedBaseCurrency ||
+        selectedGainLossAccountId !== savedGainLossAccountId;
+
+    const gainLossAccounts = (accountsData?.data?.items ?? []).filter(
+        (account) => GAIN_LOSS_ACCOUNT_TYPES.includes(account.accountType)
+    );
+    const rates = ratesData?.data?.items ?? [];
+    const pagination = ratesData?.data?.pagination;
+
+    const handleSaveSettings = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!/^[A-Z]{3}$/.test(selectedBaseCurrency)) return;
+
+        try {
+            await updateSettings({
+                ...(selectedBaseCurrency !== savedBaseCurrency
+                    ? { baseCurrency: selectedBaseCurrency }
+                    : {}),
+                ...(selectedGainLossAccountId !== savedGainLossAccountId
+                    ? { fxGainLossAccountId: selectedGainLossAccountId || null }
+                    : {}),
+            });
+            setBaseCurrency(null);
+            setGainLossAccountId(null);
+        } catch {
+            // Error toast is shown by the mutation
+        }
+    };
+
+    const handleDelete = async () => {
+        if (!deleteRate) return;
+
+        try {
+            await deleteExchangeRate(deleteRate.id);
+            setDeleteRate(null);
+        } catch {
+            // Error toast is shown by the mutation
+        }
+    };
+
+    return (
+        <div className="space-y-8">
+            {/* Settings */}
+            <div className="space-y-4">
+                <h3 className="text-lg font-semibold text-primary flex items-center gap-2">
+                    <FaCoins className="w-4 h-4" />
+                    <span>Currency</span>
+                </h3>
+                {isSettingsLoading ? (
+                    <div className="text-center py-8 text-primary-50">
+                        Loading currency settings...
+                    </div>
+                ) : (
+                    <form
+                        onSubmit={handleSaveSettings}
+                        className="grid grid-cols-1 md:grid-cols-2 gap-4"
+                    >
+                        <div>
+                            <InputField
+                                id="currency-base"
+                                label="Base Currency"
+                                required
+                                maxLength={3}
+                                value={selectedBaseCurrency}
+                                onChange={(e) =>
+                                    setBaseCurrency(
+                                        e.target.value.toUpperCase()
+                                    )
+                                }
+                            />
+                            <p className="text-primary-50 text-xs mt-1 pl-1">
+                                Cannot be changed once journal entries have been
+                                recorded.
+                            </p>
+                        </div>
+                        <div>
+                            <SelectField
+                                id="currency-gain-loss-account"
+                                label="FX Gain/Loss Account"
+                                value={selectedGainLossAccountId}
+                                onChange={(e) =>
+                                    setGainLossAccountId(e.target.value)
+                                }
+                                options={[
+                                    { value: '', label: 'None' },
+                                    ...gainLossAccounts.map((account) => ({
+                                        value: account.id,
+                                        label: account.accountNumber
+                                            ? `${account.accountNumber} · ${account.accountName}`
+                                            : account.accountName,
+                                    })),
+                                ]}
+                            />
+                            <p className="text-primary-50 text-xs mt-1 pl-1">
+                                Revaluation entries are posted to this account.
+                                Period-end revaluation is off without one.
+                            </p>
+                        </div>
+                        <div className="md:col-span-2 flex justify-end gap-3">
+                            <Button
+                                type="button"
+                                variant="outline"
+                                size="sm"
+                                onClick={() => {
+                                    setBaseCurrency(null);
+                                    setGainLossAccountId(null);
+                                }}
+                                disabled={!isDirty || isSaving}
+                            >
+                                Discard
+                            </Button>
+                            <Button
+                                type="submit"
+                                size="sm"
+                                loading={isSaving}
+                                disabled={!isDirty || isSaving}
+                            >
+                                Save Settings
+                            </Button>
+                        </div>
+                    </form>
+                )}
+            </div>
+
+            {/* Exchange rates */}
+            <div className="space-y-4">
+                <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                    <h3 className="text-lg font-semibold text-primary">
+                        Exchange Rates
+                    </h3>
+                    <div className="flex items-center gap-3">
+                        <input
+                            type="text"
+                            value={currencyFilter}
+                            maxLength={3}
+                            placeholder="Currency"
+                            onChange={(e) => {
+                                setCurrencyFilter(e.target.value.toUpperCase());
+                                setPage(1);
+                            }}
+                            className="w-28 px-4 py-2 border border-primary-10 rounded-2 text-sm text-primary focus:outline-none focus:border-primary"
+                        />
+                        <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => setShowImportModal(true)}
+                        >
+                            <FaFileImport className="w-3 h-3" />
+                            Import
+                        </Button>
+                        <Button
+                            size="sm"
+                            onClick={() => {
+                                setEditingRate(null);
+                                setShowRateModal(true);
+                            }}
+                        >
+                            <FaPlus className="w-3 h-3" />
+                            Add Rate
+                        </Button>
+                    </div>
+                </div>
+
+                {isRatesLoading ? (
+                    <div className="text-center py-8 text-primary-50">
+                        Loading exchange rates...
+                    </div>
+                ) : isRatesError ? (
+                    <div className="text-center py-8 text-red-500">
+                        Failed to load exchange rates. Please try again.
+                    </div>
+                ) : rates.length === 0 ? (
+                    <div className="text-center py-8 text-primary-50">
+                        No exchange rates yet. Add one or import a CSV file.
+                    </div>
+                ) : (
+                    <div className="overflow-x-auto">
+                        <table className="w-full border-collapse">
+                            <thead>
+                                <tr className="border-b border-primary-10">
+                                    <th className="text-left py-3 px-4 text-sm font-semibold text-primary">
+                                        Date
+                                    </th>
+                                    <th className="text-left py-3 px-4 text-sm font-semibold text-primary">
+                                        Currency
+                                    </th>
+                                    <th className="text-right py-3 px-4 text-sm font-semibold text-primary">
+                                        Rate ({savedBaseCurrency})
+                                    </th>
+                                    <th className="text-left py-3 px-4 text-sm font-semibold text-primary">
+                                        Source
+                                    </th>
+                                    <th className="text-right py-3 px-4 text-sm font-semibold text-primary">
+                                        Actions
+                                    </th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {rates.map((rate) => (
+                                    <tr
+                                        key={rate.id}
+                                        className="border-b border-primary-10 hover:bg-primary-5 transition-colors"
+                                    >
+                                        <td className="py-3 px-4 text-sm text-primary">
+                                            {rate.rateDate.slice(0, 10)}
+                                        </td>
+                                        <td className="py-3 px-4 text-sm text-primary font-medium">
+                                            {rate.currencyCode}
+                                        </td>
+                                        <td className="py-3 px-4 text-sm text-right text-primary">
+                                            {rate.rate}
+                                        </td>
+                                        <td className="py-3 px-4 text-sm">
+                                            <Chips
+                                                label={
+                                                    rate.source === 'import'
+                                                        ? 'Imported'
+                                                        : 'Manual'
+                                                }
+                                                variant={
+                                                    rate.source === 'import'
+                                                        ? 'info'
+                                                        : 'secondary'
+                                                }
+                                            />
+                                        </td>
+                                        <td className="py-3 px-4 text-sm">
+                                            <div className="flex justify-end gap-1">
+                                                <button
+                                                    onClick={() => {
+                                                        setEditingRate(rate);
+                                                        setShowRateModal(true);
+                                                    }}
+                                                    className="p-2 text-primary hover:bg-primary-10 rounded transition-colors"
+                                                    title="Edit"
+                                                >
+                                                    <FaEdit className="w-4 h-4" />
+                                                </button>
+                                                <button
+                                                    onClick={() =>
+                                                        setDeleteRate(rate)
+                                                    }
+                                                    className="p-2 text-red-500 hover:bg-red-50 rounded transition-colors"
+                                                    title="Delete"
+                                                >
+                                                    <FaTrash className="w-4 h-4" />
+                                                </button>
+                                            </div>
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+
+                {pagination && pagination.totalPages > 1 && (
+                    <div className="flex items-center justify-between text-sm text-primary-50">
+                        <span>
+                            Page {pagination.page} of {pagination.totalPages}
+                        </span>
+                        <div className="flex gap-3">
+                            <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => setPage(page - 1)}
+                                disabled={!pagination.hasPreviousPage}
+                            >
+                                Previous
+                            </Button>
+                            <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => setPage(page + 1)}
+                                disabled={!pagination.hasNextPage}
+                            >
+                                Next
+                            </Button>
+                        </div>
+                    </div>
+                )}
+            </div>
+
+            {/* FX revaluation */}
+            <div className="space-y-4">
+                <h3 className="text-lg font-semibold text-primary">
+                    FX Revaluation
+                </h3>
+                <p className="text-sm text-primary-50">
+                    Restate foreign currency asset and liability balances at the
+                    rate in effect on a date. The unrealized gain or loss entry
+                    reverses on the next day.
+                </p>
+                <div className="flex items-end gap-3 max-w-md">
+                    <InputField
+                        id="currency-revaluation-date"
+                        label="Revaluation Date"
+                        type="date"
+                        value={revaluationDate}
+                        onChange={(e) => setRevaluationDate(e.target.value)}
+                    />
+                    <Button
+                        variant="outline"
+                        onClick={() => setPreviewDate(revaluationDate)}
+                        disabled={!revaluationDate}
+                    >
+                        Preview
+                    </Button>
+                </div>
+            </div>
+
+            <ExchangeRateModal
+                key={editingRate?.id ?? 'new'}
+                isOpen={showRateModal}
+                baseCurrency={savedBaseCurrency}
+                exchangeRate={editingRate}
+                onClose={() => {
+                    setShowRateModal(false);
+                    setEditingRate(null);
+                }}
+            />
+
+            <ImportExchangeRatesModal
+                isOpen={showImportModal}
+                onClose={() => setShowImportModal(false)}
+            />
+
+            <FxRevaluationModal
+                revaluationDate={previewDate}
+                onClose={() => setPreviewDate(null)}
+            />
+
+            <ConfirmationDialog
+                isOpen={deleteRate !== null}
+                onClose={() => setDeleteRate(null)}
+                onConfirm={handleDelete}
+                title="Delete exchange rate"
+                message={
+                    deleteRate
+                        ? `Delete the ${deleteRate.currencyCode} rate of ${deleteRate.rateDate.slice(0, 10)}? Entries already recorded keep their rate.`
+                        : ''
+                }
+                confirmText="Delete"
+                confirmVariant="danger"
+                loading={isDeleting}
+            />
+        </div>
+    );
+};
+
+export default CurrencyTab;
@@ -0,0 +1,154 @@
+import { useState } from 'react';
+import {
+    useCreateExchangeRate,
+    useUpdateExchangeRate,
+} from '../../services/apis/currencyApi';
+import type { ExchangeRate } from '../../types/currency';
+import Popup from '../shared/Popup';
+import Button from '../typography/Button';
+import { InputField } from '../typography/InputFields';
+
+interface ExchangeRateModalProps {
+    isOpen: boolean;
+    baseCurrency: string;
+    // Rate to edit; a new rate is created when null
+    exchangeRate: ExchangeRate | null;
+    onClose: () => void;
+}
+
+/**
+ * Enter the rate of a foreign currency on a date, or correct an existing one
+ * The currency of an existing rate cannot be changed
+ */
+const ExchangeRateModal = ({
+    isOpen,
+    baseCurrency,
+    exchangeRate,
+    onClose,
+}: ExchangeRateModalProps) => {
+    const [currencyCode, setCurrencyCode] = useState(
+        exchangeRate?.currencyCode ?? ''
+    );
+    const [rateDate, setRateDate] = useState(
+        exchangeRate?.rateDate.slice(0, 10) ?? ''
+    );
+    const [rate, setRate] = useState(
+        exchangeRate ? String(exchangeRate.rate) : ''
+    );
+
+    const createMutation = useCreateExchangeRate();
+    const updateMutation = useUpdateExchangeRate();
+    const isPending = createMutation.isPending || updateMutation.isPending;
+
+    const rateValue = Number(rate);
+    const isValid =
+        /^[A-Z]{3}$/.test(currencyCode) &&
+        !!rateDate &&
+        Number.isFinite(rateValue) &&
+        rateValue > 0;
+
+    const handleClose = () => {
+        setCurrencyCode(exchangeRate?.currencyCode ?? '');
+        setRateDate(exchangeRate?.rateDate.slice(0, 10) ?? '');
+        setRate(exchangeRate ? String(exchangeRate.rate) : '');
+        onClose();
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!isValid) return;
+
+        try {
+            if (exchangeRate) {
+                await updateMutation.mutateAsync({
+                    id: exchangeRate.id,
+                    payload: { rateDate, rate: rateValue },
+                });
+            } else {
+                await createMutation.mutateAsync({
+                    currencyCode,
+                    rateDate,
+                    rate: rateValue,
+                });
+            }
+            handleClose();
+        } catch {
+            // Error toast is shown by the mutation
+        }
+    };
+
+    return (
+        <Popup
+            isOpen={isOpen}
+            onClose={handleClose}
+            title={exchangeRate ? 'Edit Exchange Rate' : 'New Exchange Rate'}
+            size="md"
+            loading={isPending}
+            footer={
+                <div className="flex gap-3">
+                    <Button
+                        type="button"
+                        variant="outline"
+                        onClick={handleClose}
+                        disabled={isPending}
+                    >
+                        Cancel
+                    </Button>
+                    <Button
+                        type="submit"
+                        variant="primary"
+                        form="exchange-rate-form"
+                        loading={isPending}
+                        disabled={!isValid || isPending}
+                    >
+                        {exchangeRate ? 'Save' : 'Create'}
+                    </Button>
+                </div>
+            }
+        >
+            <form
+                id="exchange-rate-form"
+                onSubmit={handleSubmit}
+                className="flex flex-col gap-4"
+            >
+                <InputField
+                    id="exchange-rate-currency"
+                    label="Currency"
+                    required
+                    maxLength={3}
+                    placeholder="EUR"
+                    value={currencyCode}
+                    disabled={!!exchangeRate}
+                    onChange={(e) =>
+                        setCurrencyCode(e.target.value.toUpperCase())
+                    }
+                />
+                <InputField
+                    id="exchange-rate-date"
+                    label="Date"
+                    type="date"
+                    required
+                    value={rateDate}
+                    onChange={(e) => setRateDate(e.target.value)}
+                />
+                <div>
+                    <InputField
+                        id="exchange-rate-rate"
+                        label="Rate"
+                        type="number"
+                        step="any"
+                        min={0}
+                        required
+                        value={rate}
+                        onChange={(e) => setRate(e.target.value)}
+                    />
+                    <p className="text-primary-50 text-xs mt-1 pl-1">
+                        {baseCurrency} per one {currencyCode || 'unit'}
+                    </p>
+                </div>
+            </form>
+        </Popup>
+    );
+};
+
+export default ExchangeRateModal;
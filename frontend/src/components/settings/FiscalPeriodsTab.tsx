@@ -0,0 +1,341 @@
+import { useState } from 'react';
+import { FaCalendarAlt, FaPlus } from 'react-icons/fa';
+import {
+    useCloseFiscalPeriod,
+    useFiscalYears,
+    useReopenFiscalPeriod,
+    useReverseYearEndClose,
+} from '../../services/apis/fiscalYearApi';
+import { useAuth } from '../../stores/auth/authSelectore';
+import type {
+    FiscalPeriod,
+    FiscalPeriodStatus,
+    FiscalYear,
+} from '../../types/fiscalYears';
+import ConfirmationDialog from '../shared/ConfirmationDialog';
+import Button from '../typography/Button';
+import Chips from '../typography/Chips';
+import CreateFiscalYearModal from './CreateFiscalYearModal';
+import YearEndCloseModal from './YearEndCloseModal';
+
+type PeriodAction = {
+    fiscalYear: FiscalYear;
+    period: FiscalPeriod;
+    action: 'soft_close' | 'hard_close' | 'reopen';
+};
+
+const STATUS_CHIPS: Record<
+    FiscalPeriodStatus,
+    { label: string; variant: 'success' | 'warning' | 'danger' }
+> = {
+    open: { label: 'Open', variant: 'success' },
+    soft_closed: { label: 'Soft closed', variant: 'warning' },
+    hard_closed: { label: 'Hard closed', variant: 'danger' },
+};
+
+const ACTION_COPY: Record<
+    PeriodAction['action'],
+    { title: string; message: string; confirmText: string }
+> = {
+    soft_close: {
+        title: 'Close period',
+        message:
+            'Journal entries dated in this period will no longer be posted, voided, reversed or edited until it is reopened.',
+        confirmText: 'Close Period',
+    },
+    hard_close: {
+        title: 'Hard close period',
+        message:
+            'A hard-closed period can only be reopened by an administrator. Every earlier period must already be closed.',
+        confirmText: 'Hard Close',
+    },
+    reopen: {
+        title: 'Reopen period',
+        message:
+            'Journal entries dated in this period can be changed again once it is reopened.',
+        confirmText: 'Reopen Period',
+    },
+};
+
+const FiscalPeriodsTab = () => {
+    const { user } = useAuth();
+    const [showCreateModal, setShowCreateModal] = useState(false);
+    const [pendingAction, setPendingAction] = useState<PeriodAction | null>(
+        null
+    );
+    const [yearToClose, setYearToClose] = useState<FiscalYear | null>(null);
+    const [yearToReopen, setYearToReopen] = useState<FiscalYear | null>(null);
+
+    const { data, isLoading, isError } = useFiscalYears();
+    const { mutateAsync: closePeriod, isPending: isClosing } =
+        useCloseFiscalPeriod();
+    const { mutateAsync: reopenPeriod, isPending: isReopening } =
+        useReopenFiscalPeriod();
+    const { mutateAsync: reverseYearEndClose, isPending: isReversing } =
+        useReverseYearEndClose();
+
+    const fiscalYears = data?.data?.items || [];
+    const isAdmin =
+        user?.role?.name === 'superadmin' || user?.role?.name === 'admin';
+
+    const handleConfirm = async () => {
+        if (!pendingAction) return;
+
+        const { fiscalYear, period, action } = pendingAction;
+        try {
+            if (action === 'reopen') {
+                await reopenPeriod({
+                    fiscalYearId: fiscalYear.id,
+                    periodId: period.id,
+                    payload: {},
+                });
+            } else {
+                await closePeriod({
+                    fiscalYearId: fiscalYear.id,
+                    periodId: period.id,
+                    payload: {
+                        status:
+                            action === 'hard_close'
+                                ? 'hard_closed'
+                                : 'soft_closed',
+                    },
+                });
+            }
+        } finally {
+            setPendingAction(null);
+        }
+    };
+
+    const handleReverseYearEndClose = async () => {
+        if (!yearToReopen) return;
+
+        try {
+            await reverseYearEndClose({
+                fiscalYearId: yearToReopen.id,
+                payload: {},
+            });
+        } finally {
+            setYearToReopen(null);
+        }
+    };
+
+    const renderActions = (fiscalYear: FiscalYear, period: FiscalPeriod) => {
+        const open = (action: PeriodAction['action']) =>
+            setPendingAction({ fiscalYear, period, action });
+
+        return (
+            <div className="flex justify-end gap-2">
+                {period.status === 'open' && (
+                    <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => open('soft_close')}
+                    >
+                        Close
+                    </Button>
+                )}
+                {period.status !== 'hard_closed' && (
+                    <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => open('hard_close')}
+                    >
+                        Hard Close
+                    </Button>
+                )}
+                {(period.status === 'soft_closed' ||
+                    (period.status === 'hard_closed' && isAdmin)) && (
+                    <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => open('reopen')}
+                    >
+                        Reopen
+                    </Button>
+                )}
+            </div>
+        );
+    };
+
+    return (
+        <div className="space-y-6">
+            <div className="flex items-center justify-between">
+                <h3 className="text-lg font-semibold text-primary flex items-center gap-2">
+                    <FaCalendarAlt className="w-4 h-4" />
+                    <span>Fiscal Periods</span>
+                </h3>
+                <Button onClick={() => setShowCreateModal(true)} size="sm">
+                    <FaPlus className="w-3 h-3" />
+                    Create Fiscal Year
+                </Button>
+            </div>
+
+            {isLoading ? (
+                <div className="text-center py-8 text-primary-50">
+                    Loading fiscal years...
+                </div>
+            ) : isError ? (
+                <div className="text-center py-8 text-red-500">
+                    Failed to load fiscal years. Please try again.
+                </div>
+            ) : fiscalYears.length === 0 ? (
+                <div className="text-center py-8 text-primary-50">
+                    No fiscal years yet. Create one to start closing periods.
+                </div>
+            ) : (
+                fiscalYears.map((fiscalYear) => (
+                    <div key={fiscalYear.id} className="space-y-2">
+                        <div className="flex items-center justify-between gap-4">
+                            <div className="flex items-center gap-3">
+                                <h4 className="font-semibold text-primary">
+                                    {fiscalYear.name}
+                                </h4>
+                                {fiscalYear.isClosed && (
+                                    <Chips
+                                        label={`Closed${fiscalYear.closingEntryNumber ? ` (${fiscalYear.closingEntryNumber})` : ''}`}
+                                        variant="danger"
+                                    />
+                                )}
+                            </div>
+                            <div className="flex items-center gap-3">
+                                <span className="text-sm text-primary-50">
+                                    {fiscalYear.startDate} –{' '}
+                                    {fiscalYear.endDate}
+                                </span>
+                                {fiscalYear.isClosed ? (
+                                    <Button
+                                        variant="outline"
+                                        size="sm"
+                                        onClick={() =>
+                                            setYearToReopen(fiscalYear)
+                                        }
+                                    >
+                                        Undo Year-End Close
+                                    </Button>
+                                ) : (
+                                    <Button
+                                        variant="outline"
+                                        size="sm"
+                                        onClick={() =>
+                                            setYearToClose(fiscalYear)
+                                        }
+                                    >
+                                        Close Year
+                                    </Button>
+                                )}
+                            </div>
+                        </div>
+                        <div className="overflow-x-auto">
+                            <table className="w-full border-collapse">
+                                <thead>
+                                    <tr className="border-b border-primary-10">
+                                        <th className="text-left py-3 px-4 text-sm font-semibold text-primary">
+                                            Period
+                                        </th>
+                                        <th className="text-left py-3 px-4 text-sm font-semibold text-primary">
+                                            Dates
+                                        </th>
+                                        <th className="text-left py-3 px-4 text-sm font-semibold text-primary">
+                                            Status
+                                        </th>
+                                        <th className="text-right py-3 px-4 text-sm font-semibold text-primary">
+                                            Actions
+                                        </th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {fiscalYear.periods.map((period) => (
+                                        <tr
+                                            key={period.id}
+                                            className="border-b border-primary-10 hover:bg-primary-5 transition-colors"
+                                        >
+                                            <td className="py-3 px-4 text-sm text-primary font-medium">
+                                                {period.name}
+                                            </td>
+                                            <td className="py-3 px-4 text-sm">
+                                                {period.startDate} –{' '}
+                                                {period.endDate}
+                                            </td>
+                                            <td className="py-3 px-4 text-sm">
+                                                <Chips
+                                                    label={
+                                                        STATUS_CHIPS[
+                                                            period.status
+                                                        ].label
+                                                    }
+                                                    variant={
+                                                        STATUS_CHIPS[
+                                                            period.status
+                                                        ].variant
+                                                    }
+                                                />
+                                            </td>
+                                            <td className="py-3 px-4 text-sm">
+                                                {renderActions(
+                                                    fiscalYear,
+                                                    period
+                                                )}
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    </div>
+                ))
+            )}
+
+            <CreateFiscalYearModal
+                isOpen={showCreateModal}
+                onClose={() => setShowCreateModal(false)}
+            />
+
+            <YearEndCloseModal
+                fiscalYear={yearToClose}
+                onClose={() => setYearToClose(null)}
+            />
+
+            <ConfirmationDialog
+                isOpen={yearToReopen !== null}
+                onClose={() => setYearToReopen(null)}
+                onConfirm={handleReverseYearEndClose}
+                title={
+                    yearToReopen
+                        ? `Undo year-end close: ${yearToReopen.name}`
+                        : ''
+                }
+                message="A reversing entry is posted on the closing date, restoring revenue and expense balances. The year can then be closed again."
+                confirmText="Undo Close"
+                confirmVariant="danger"
+                loading={isReversing}
+            />
+
+            <ConfirmationDialog
+                isOpen={pendingAction !== null}
+                onClose={() => setPendingAction(null)}
+                onConfirm={handleConfirm}
+                title={
+                    pendingAction
+                        ? `${ACTION_COPY[pendingAction.action].title}: ${pendingAction.period.name}`
+                        : ''
+                }
+                message={
+                    pendingAction
+                        ? ACTION_COPY[pendingAction.action].message
+                        : ''
+                }
+                confirmText={
+                    pendingAction
+                        ? ACTION_COPY[pendingAction.action].confirmText
+                        : 'Confirm'
+                }
+                confirmVariant={
+                    pendingAction?.action === 'reopen' ? 'primary' : 'danger'
+                }
+                loading={isClosing || isReopening}
+            />
+        </div>
+    );
+};
+
+export default FiscalPeriodsTab;
@@ -0,0 +1,192 @@
+import {
+    useFxRevaluationPreview,
+    usePostFxRevaluation,
+} from '../../services/apis/currencyApi';
+import Loading from '../shared/Loading';
+import Popup from '../shared/Popup';
+import Button from '../typography/Button';
+
+interface FxRevaluationModalProps {
+    // Date to revalue; the modal is closed when null
+    revaluationDate: string | null;
+    onClose: () => void;
+}
+
+const formatNumber = (num: number) => {
+    return num.toLocaleString(undefined, {
+        minimumFractionDigits: 2,
+        maximumFractionDigits: 2,
+    });
+};
+
+const getErrorMessage = (error: unknown) => {
+    const maybeAxiosError = error as {
+        response?: { data?: { message?: string } };
+    };
+    return (
+        maybeAxiosError.response?.data?.message ||
+        'Failed to load the revaluation preview'
+    );
+};
+
+/**
+ * Preview and post the unrealized FX gain/loss entry of a date
+ * Foreign currency balances are restated at the rate in effect on the date;
+ * the entry reverses on the next day
+ */
+const FxRevaluationModal = ({
+    revaluationDate,
+    onClose,
+}: FxRevaluationModalProps) => {
+    const isOpen = revaluationDate !== null;
+    const { data, isLoading, error } = useFxRevaluationPreview(
+        { revaluationDate: revaluationDate ?? '' },
+        isOpen
+    );
+    const { mutateAsync: postRevaluation, isPending } = usePostFxRevaluation();
+
+    const preview = data?.data;
+
+    const handleConfirm = async () => {
+        if (!revaluationDate) return;
+
+        try {
+            await postRevaluation({ revaluationDate });
+            onClose();
+        } catch {
+            // Error toast is shown by the mutation
+        }
+    };
+
+    return (
+        <Popup
+            isOpen={isOpen}
+            onClose={onClose}
+            title={`FX Revaluation: ${revaluationDate ?? ''}`}
+            size="4xl"
+            loading={isPending}
+            footer={
+                <div className="flex gap-3">
+                    <Button
+                        type="button"
+                        variant="outline"
+                        onClick={onClose}
+                        disabled={isPending}
+                    >
+                        Cancel
+                    </Button>
+                    <Button
+                        type="button"
+                        variant="primary"
+                        onClick={handleConfirm}
+                        loading={isPending}
+                        disabled={
+                            !preview || preview.lines.length === 0 || isPending
+                        }
+                    >
+                        Post Revaluation
+                    </Button>
+                </div>
+            }
+        >
+            {isLoading ? (
+                <div className="flex items-center justify-center min-h-[200px]">
+                    <Loading />
+                </div>
+            ) : error || !preview ? (
+                <div className="flex items-center justify-center min-h-[200px]">
+                    <p className="text-red-500">{getErrorMessage(error)}</p>
+                </div>
+            ) : preview.lines.length === 0 ? (
+                <div className="flex items-center justify-center min-h-[200px]">
+                    <p className="text-primary-50">
+                        No foreign currency balances need revaluing on this date
+                    </p>
+                </div>
+            ) : (
+                <div className="flex flex-col gap-4">
+                    <p className="text-sm text-primary-50">
+                        Gains and losses are posted to{' '}
+                        {preview.gainLossAccount.accountNumber
+                            ? `${preview.gainLossAccount.accountNumber} · `
+                            : ''}
+                        {preview.gainLossAccount.accountName}, and reversed on
+                        the next day.
+                    </p>
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-sm">
+                            <thead>
+                                <tr className="bg-gray-50 border-b border-gray-200">
+                                    <th className="text-left py-3 px-4 font-semibold text-primary">
+                                        Account
+                                    </th>
+                                    <th className="text-right py-3 px-4 font-semibold text-primary">
+                                        Foreign Balance
+                                    </th>
+                                    <th className="text-right py-3 px-4 font-semibold text-primary">
+                                        Rate
+                                    </th>
+                                    <th className="text-right py-3 px-4 font-semibold text-primary">
+                                        Book Balance
+                                    </th>
+                                    <th className="text-right py-3 px-4 font-semibold text-primary">
+                                        Revalued
+                                    </th>
+                                    <th className="text-right py-3 px-4 font-semibold text-primary">
+                                        Adjustment
+                                    </th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {preview.lines.map((line) => (
+                                    <tr
+                                        key={`${line.accountId}-${line.currencyCode}`}
+                                        className="border-b border-gray-200"
+                                    >
+                                        <td className="py-3 px-4 text-primary">
+                                            {line.accountNumber
+                                                ? `${line.accountNumber} · `
+                                                : ''}
+                                            {line.accountName}
+                                        </td>
+                                        <td className="py-3 px-4 text-right text-primary-75 whitespace-nowrap">
+                                            {line.currencyCode}{' '}
+                                            {formatNumber(line.foreignBalance)}
+                                        </td>
+                                        <td className="py-3 px-4 text-right text-primary-75">
+                                            {line.exchangeRate}
+                                        </td>
+                                        <td className="py-3 px-4 text-right text-primary-75">
+                                            {formatNumber(line.bookBalance)}
+                                        </td>
+                                        <td className="py-3 px-4 text-right text-primary-75">
+                                            {formatNumber(line.revaluedBalance)}
+                                        </td>
+                                        <td className="py-3 px-4 text-right font-medium text-primary">
+                                            {formatNumber(line.adjustment)}
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                            <tfoot>
+                                <tr className="border-t-2 border-primary bg-primary-10">
+                                    <td
+                                        colSpan={5}
+                                        className="py-3 px-4 font-bold text-primary"
+                                    >
+                                        Total ({preview.baseCurrency})
+                                    </td>
+                                    <td className="py-3 px-4 text-right font-bold text-primary">
+                                        {formatNumber(preview.totalGainLoss)}
+                                    </td>
+                                </tr>
+                            </tfoot>
+                        </table>
+                    </div>
+                </div>
+            )}
+        </Popup>
+    );
+};
+
+export default FxRevaluationModal;
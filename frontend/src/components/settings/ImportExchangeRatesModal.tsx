@@ -0,0 +1,166 @@
+import { useRef, useState } from 'react';
+import { FaFileCsv } from 'react-icons/fa';
+import { useImportExchangeRates } from '../../services/apis/currencyApi';
+import type { ExchangeRateImportResult } from '../../types/currency';
+import Popup from '../shared/Popup';
+import Button from '../typography/Button';
+
+interface ImportExchangeRatesModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+}
+
+/**
+ * Import exchange rates from a CSV file with date, currency and rate columns
+ * Rates already entered for the same currency and date are replaced; invalid
+ * rows are listed without failing the import
+ */
+const ImportExchangeRatesModal = ({
+    isOpen,
+    onClose,
+}: ImportExchangeRatesModalProps) => {
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const [file, setFile] = useState<File | null>(null);
+    const [result, setResult] = useState<ExchangeRateImportResult | null>(null);
+
+    const importMutation = useImportExchangeRates();
+
+    const handleClose = () => {
+        setFile(null);
+        setResult(null);
+        onClose();
+    };
+
+    const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const selected = e.target.files?.[0];
+        // Reset input value to allow selecting the same file again
+        if (fileInputRef.current) {
+            fileInputRef.current.value = '';
+        }
+        if (!selected) {
+            return;
+        }
+        setFile(selected);
+        setResult(null);
+    };
+
+    const handleImport = async () => {
+        if (!file) return;
+
+        try {
+            const response = await importMutation.mutateAsync(
+                await file.text()
+            );
+            if (response.data.errors.length === 0) {
+                handleClose();
+                return;
+            }
+            setResult(response.data);
+        } catch {
+            // Error toast is shown by the mutation
+        }
+    };
+
+    return (
+        <Popup
+            isOpen={isOpen}
+            onClose={handleClose}
+            title="Import Exchange Rates"
+            size="2xl"
+            loading={importMutation.isPending}
+            footer={
+                <div className="flex gap-3">
+                    <Button
+                        type="button"
+                        variant="outline"
+                        onClick={handleClose}
+                        disabled={importMutation.isPending}
+                    >
+                        {result ? 'Close' : 'Cancel'}
+                    </Button>
+                    <Button
+                        type="button"
+                        variant="primary"
+                        onClick={handleImport}
+                        loading={importMutation.isPending}
+                        disabled={!file || importMutation.isPending}
+                    >
+                        Import
+                    </Button>
+                </div>
+            }
+        >
+            <div className="flex flex-col gap-4">
+                <p className="text-sm text-primary-50">
+                    Upload a CSV file with the columns <code>date</code>{' '}
+                    (YYYY-MM-DD), <code>currency</code> and <code>rate</code>.
+                    The rate is the base currency amount of one unit of the
+                    currency.
+                </p>
+
+                <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept=".csv,text/csv"
+                    onChange={handleFileChange}
+                    className="hidden"
+                />
+                <div className="flex items-center gap-3">
+                    <Button
+                        type="button"
+                        variant="outline"
+                        onClick={() => fileInputRef.current?.click()}
+                    >
+                        <FaFileCsv className="w-3 h-3" />
+                        {file ? 'Change File' : 'Choose File'}
+                    </Button>
+                    {file && (
+                        <span className="text-sm text-primary">
+                            {file.name}
+                        </span>
+                    )}
+                </div>
+
+                {result && (
+                    <div className="flex flex-col gap-3">
+                        <p className="text-sm font-medium text-primary">
+                            {result.created} created, {result.updated} updated ·{' '}
+                            {result.errors.length} row(s) skipped
+                        </p>
+                        <div className="max-h-60 overflow-y-auto border border-primary-10 rounded-2">
+                            <table className="w-full text-sm">
+                                <thead className="bg-primary-10">
+                                    <tr>
+                                        <th className="px-3 py-2 text-left font-semibold text-primary w-20">
+                                            Row
+                                        </th>
+                                        <th className="px-3 py-2 text-left font-semibold text-primary">
+                                            Error
+                                        </th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {result.errors.map((rowError, index) => (
+                                        <tr
+                                            key={`${rowError.row}-${index}`}
+                                            className="border-b border-primary-10"
+                                        >
+                                            <td className="px-3 py-2 text-primary-75">
+                                                {rowError.row}
+                                            </td>
+                                            <td className="px-3 py-2 text-red-500">
+                                                {rowError.message}
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    </div>
+                )}
+            </div>
+        </Popup>
+    );
+};
+
+export default ImportExchangeRatesModal;
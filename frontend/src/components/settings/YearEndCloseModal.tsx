@@ -0,0 +1,268 @@
+import { useEffect } from 'react';
+import { FaTimes } from 'react-icons/fa';
+import {
+    useCloseFiscalYear,
+    useYearEndClosingPreview,
+} from '../../services/apis/fiscalYearApi';
+import type { FiscalYear } from '../../types/fiscalYears';
+import Loading from '../shared/Loading';
+import Button from '../typography/Button';
+
+interface YearEndCloseModalProps {
+    fiscalYear: FiscalYear | null;
+    onClose: () => void;
+}
+
+const formatNumber = (num: number) => {
+    return num.toLocaleString(undefined, {
+        minimumFractionDigits: 2,
+        maximumFractionDigits: 2,
+    });
+};
+
+const getErrorMessage = (error: unknown) => {
+    const maybeAxiosError = error as {
+        response?: { data?: { message?: string } };
+    };
+    return (
+        maybeAxiosError.response?.data?.message ||
+        'Failed to load the closing entry preview'
+    );
+};
+
+const YearEndCloseModal = ({ fiscalYear, onClose }: YearEndCloseModalProps) => {
+    const isOpen = fiscalYear !== null;
+    const { data, isLoading, error } = useYearEndClosingPreview(
+        fiscalYear?.id ?? '',
+        isOpen
+    );
+    const { mutateAsync: closeFiscalYear, isPending } = useCloseFiscalYear();
+
+    useEffect(() => {
+        const handleEscape = (e: KeyboardEvent) => {
+            if (e.key === 'Escape' && isOpen && !isPending) {
+                onClose();
+            }
+        };
+
+        if (isOpen) {
+            document.addEventListener('keydown', handleEscape);
+            document.body.style.overflow = 'hidden';
+        }
+
+        return () => {
+            document.removeEventListener('keydown', handleEscape);
+            document.body.style.overflow = 'unset';
+        };
+    }, [isOpen, onClose, isPending]);
+
+    const handleBackdropClick = (e: React.MouseEvent<HTMLDivElement>) => {
+        if (e.target === e.currentTarget && !isPending) {
+            onClose();
+        }
+    };
+
+    const handleConfirm = async () => {
+        if (!fiscalYear) return;
+
+        try {
+            await closeFiscalYear({ fiscalYearId: fiscalYear.id, payload: {} });
+            onClose();
+        } catch (error) {
+            // Error is handled by the mutation's onError
+            console.error('Close fiscal year error:', error);
+        }
+    };
+
+    if (!fiscalYear) return null;
+
+    const preview = data?.data;
+
+    return (
+        <div
+            className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 backdrop-blur-sm px-4"
+            onClick={handleBackdropClick}
+        >
+            <div className="w-full max-w-2xl rounded-2 bg-white p-6 shadow-2xl">
+                <div className="flex items-start justify-between mb-4">
+                    <div>
+                        <h3 className="text-lg font-semibold text-primary">
+                            Close {fiscalYear.name}
+                        </h3>
+                        <p className="text-sm text-primary-50 mt-1">
+                            Revenue and expense accounts are zeroed into
+                            retained earnings on {fiscalYear.endDate}.
+                        </p>
+                    </div>
+                    <button
+                        onClick={onClose}
+                        disabled={isPending}
+                        className="text-primary-50 hover:text-primary transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                        aria-label="Close"
+                    >
+                        <FaTimes className="w-5 h-5" />
+                    </button>
+                </div>
+
+                {isLoading ? (
+                    <div className="flex items-center justify-center py-8">
+                        <Loading />
+                    </div>
+                ) : error || !preview ? (
+                    <p className="py-6 text-sm text-red-500">
+                        {getErrorMessage(error)}
+                    </p>
+                ) : (
+                    <div className="space-y-4">
+                        <div className="max-h-80 overflow-y-auto">
+                            <table className="w-full text-sm">
+                                <thead>
+                                    <tr className="border-b border-primary-10">
+                                        <th className="text-left py-2 px-3 font-semibold text-primary">
+                                            Account
+                                        </th>
+                                        <th className="text-right py-2 px-3 font-semibold text-primary">
+                                            Debit
+                                        </th>
+                                        <th className="text-right py-2 px-3 font-semibold text-primary">
+                                            Credit
+                                        </th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {preview.lines.length === 0 ? (
+                                        <tr>
+                                            <td
+                                                colSpan={3}
+                                                className="py-4 px-3 text-center text-primary-50"
+                                            >
+                                                No revenue or expense balances
+                                                to close
+                                            </td>
+                                        </tr>
+                                    ) : (
+                                        preview.lines.map((line) => (
+                                            <tr
+                                                key={line.accountId}
+                                                className="border-b border-gray-100"
+                                            >
+                                                <td className="py-2 px-3">
+                                                    {line.accountNumber && (
+                                                        <span className="text-xs text-gray-400 mr-2">
+                                                            {line.accountNumber}
+                                                        </span>
+                                                    )}
+                                                    {line.accountName}
+                                                </td>
+                                                <td className="text-right py-2 px-3">
+                                                    {line.debit > 0
+                                                        ? formatNumber(
+                                                              line.debit
+                                                          )
+                                                        : ''}
+                                                </td>
+                                                <td className="text-right py-2 px-3">
+                                                    {line.credit > 0
+                                                        ? formatNumber(
+                                                              line.credit
+                                                          )
+                                                        : ''}
+                                                </td>
+                                            </tr>
+                                        ))
+                                    )}
+                                    {preview.netIncome !== 0 && (
+                                        <tr className="border-b border-gray-100 font-medium text-primary">
+                                            <td className="py-2 px-3">
+                                                {preview.retainedEarningsAccount
+                                                    .accountNumber && (
+                                                    <span className="text-xs text-gray-400 mr-2">
+                                                        {
+                                                            preview
+                                                                .retainedEarningsAccount
+                                                                .accountNumber
+                                                        }
+                                                    </span>
+                                                )}
+                                                {
+                                                    preview
+                                                        .retainedEarningsAccount
+                                                        .accountName
+                                                }
+                                            </td>
+                                            <td className="text-right py-2 px-3">
+                                                {preview.netIncome < 0
+                                                    ? formatNumber(
+                                                          Math.abs(
+                                                              preview.netIncome
+                                                          )
+                                                      )
+                                                    : ''}
+                                            </td>
+                                            <td className="text-right py-2 px-3">
+                                                {preview.netIncome > 0
+                                                    ? formatNumber(
+                                                          preview.netIncome
+                                                      )
+                                                    : ''}
+                                            </td>
+                                        </tr>
+                                    )}
+                                </tbody>
+                            </table>
+                        </div>
+
+                        <div className="grid grid-cols-3 gap-4 rounded-2 bg-primary-5 p-4 text-sm">
+                            <div>
+                                <p className="text-primary-50">Revenue</p>
+                                <p className="font-semibold text-primary">
+                                    {formatNumber(preview.totalRevenue)}
+                                </p>
+                            </div>
+                            <div>
+                                <p className="text-primary-50">Expenses</p>
+                                <p className="font-semibold text-primary">
+                                    {formatNumber(preview.totalExpenses)}
+                                </p>
+                            </div>
+                            <div>
+                                <p className="text-primary-50">
+                                    {preview.netIncome < 0
+                                        ? 'Net loss'
+                                        : 'Net income'}
+                                </p>
+                                <p className="font-semibold text-primary">
+                                    {formatNumber(Math.abs(preview.netIncome))}
+                                </p>
+                            </div>
+                        </div>
+                    </div>
+                )}
+
+                <div className="mt-6 flex flex-col gap-3 sm:flex-row sm:justify-end">
+                    <Button
+                        type="button"
+                        variant="outline"
+                        className="flex-1 sm:flex-initial"
+                        onClick={onClose}
+                        disabled={isPending}
+                    >
+                        Cancel
+                    </Button>
+                    <Button
+                        type="button"
+                        variant="primary"
+                        className="flex-1 sm:flex-initial"
+                        onClick={handleConfirm}
+                        loading={isPending}
+                        disabled={!preview || preview.lines.length === 0}
+                    >
+                        Post Closing Entry
+                    </Button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default YearEndCloseModal;
@@ -7,5 +7,7 @@ export { default as DataPrivacyTab } from './DataPrivacyTab';
 export { default as UsersTab } from './UsersTab';
 export { default as RolesTab } from './RolesTab';
 export { default as TenantsTab } from './TenantsTab';
+export { default as FiscalPeriodsTab } from './FiscalPeriodsTab';
+export { default as CurrencyTab } from './CurrencyTab';
 export { default as PasskeyManagementModal } from './PasskeyManagementModal';
 export type { SettingsFormData, SettingsTab, SettingsTabId } from './types';
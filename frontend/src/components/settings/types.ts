@@ -23,7 +23,9 @@ export type SettingsTabId =
     | 'data'
     | 'users'
     | 'roles'
-    | 'tenants';
+    | 'tenants'
+    | 'fiscal-periods'
+    | 'currency';
 
 export interface SettingsTab {
     id: SettingsTabId;
@@ -13,27 +13,33 @@ const ADD_NEW_OPTIONS: AddNewOption[] = [
     {
         id: 'accounts-payable-aging-summary',
         label: 'Accounts payable aging summary',
-        path: '/reports',
+        path: '/reports/aged-payables',
         hasIcon: true,
     },
     {
         id: 'accounts-payable-aging-detail',
         label: 'Accounts payable aging detail',
-        path: '/reports',
+        path: '/reports/aged-payables?mode=detail',
         hasIcon: true,
     },
     {
         id: 'accounts-receivable-aging-summary',
         label: 'Accounts receivable aging summary',
-        path: '/reports',
+        path: '/reports/aged-receivables',
         hasIcon: true,
     },
     {
         id: 'accounts-receivable-aging-detail',
         label: 'Accounts receivable aging detail',
-        path: '/reports',
+        path: '/reports/aged-receivables?mode=detail',
         hasIcon: true,
     },
+    {
+        id: 'budget-vs-actual',
+        label: 'Budget vs Actual',
+        path: '/reports/budget-vs-actual',
+        hasIcon: false,
+    },
     {
         id: 'balance-sheet',
         label: 'Balance Sheet',
@@ -49,7 +55,7 @@ const ADD_NEW_OPTIONS: AddNewOption[] = [
     {
         id: 'general-ledger',
         label: 'General Ledger',
-        path: '/transactions',
+        path: '/reports/general-ledger',
         hasIcon: false,
     },
     {
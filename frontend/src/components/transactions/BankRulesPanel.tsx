@@ -0,0 +1,618 @@
+import { useState } from 'react';
+import { FaArrowDown, FaArrowUp, FaMagic, FaTrash } from 'react-icons/fa';
+import {
+    useApplyBankRules,
+    useBankRules,
+    useCreateBankRule,
+    useDeleteBankRule,
+    useReorderBankRules,
+    useTestBankRule,
+    useUpdateBankRule,
+} from '../../services/apis/bankRuleApi';
+import { useChartOfAccounts } from '../../services/apis/chartsAccountApi';
+import type {
+    BankRule,
+    BankRuleCondition,
+    BankRuleDefinition,
+    BankRuleMatchType,
+    BankRuleTestResult,
+    BankRuleTransactionType,
+} from '../../types/bankRule';
+import ConfirmationDialog from '../shared/ConfirmationDialog';
+import Button from '../typography/Button';
+
+/**
+ * Rules are reordered as a whole, so the panel loads them in one page
+ */
+const RULES_LIMIT = 100;
+
+type ConditionDraft = {
+    field: BankRuleCondition['field'];
+    operator: BankRuleCondition['operator'];
+    value: string;
+};
+
+const FIELD_LABELS: Record<ConditionDraft['field'], string> = {
+    description: 'Description',
+    payee: 'Payee',
+    reference: 'Reference',
+    amount: 'Amount',
+};
+
+const TEXT_OPERATORS = [
+    { value: 'contains', label: 'contains' },
+    { value: 'not_contains', label: 'does not contain' },
+    { value: 'equals', label: 'is' },
+    { value: 'starts_with', label: 'starts with' },
+    { value: 'ends_with', label: 'ends with' },
+] as const;
+
+const AMOUNT_OPERATORS = [
+    { value: 'equals', label: '=' },
+    { value: 'gt', label: '>' },
+    { value: 'gte', label: '≥' },
+    { value: 'lt', label: '<' },
+    { value: 'lte', label: '≤' },
+] as const;
+
+const OPERATOR_LABELS = new Map<string, string>([
+    ...TEXT_OPERATORS.map(
+        (operator) => [operator.value, operator.label] as [string, string]
+    ),
+    ...AMOUNT_OPERATORS.map(
+        (operator) =>
+            [`amount:${operator.value}`, operator.label] as [string, string]
+    ),
+]);
+
+const EMPTY_CONDITION: ConditionDraft = {
+    field: 'description',
+    operator: 'contains',
+    value: '',
+};
+
+const inputClassName =
+    'px-2 py-1 border border-primary-10 rounded-lg text-sm text-primary focus:outline-none focus:ring-2 focus:ring-primary-25';
+
+const describeCondition = (condition: BankRuleCondition) => {
+    const operator =
+        condition.field === 'amount'
+            ? OPERATOR_LABELS.get(`amount:${condition.operator}`)
+            : OPERATOR_LABELS.get(condition.operator);
+    const value =
+        condition.field === 'amount'
+            ? condition.value.toString()
+            : `"${condition.value}"`;
+    return `${FIELD_LABELS[condition.field]} ${operator ?? condition.operator} ${value}`;
+};
+
+const toCondition = (draft: ConditionDraft): BankRuleCondition | null => {
+    const value = draft.value.trim();
+    if (!value) return null;
+    if (draft.field === 'amount') {
+        const amount = Number(value);
+        if (Number.isNaN(amount) || amount < 0) return null;
+        return {
+            field: 'amount',
+            operator: draft.operator as Extract<
+                BankRuleCondition,
+                { field: 'amount' }
+            >['operator'],
+            value: amount,
+        };
+    }
+    return {
+        field: draft.field,
+        operator: draft.operator as Extract<
+            BankRuleCondition,
+            { field: 'description' }
+        >['operator'],
+        value,
+    };
+};
+
+/**
+ * Form to create a rule, with a preview against categorized transactions
+ */
+function BankRuleForm({ onDone }: { onDone: () => void }) {
+    const [name, setName] = useState('');
+    const [matchType, setMatchType] = useState<BankRuleMatchType>('all');
+    const [transactionType, setTransactionType] =
+        useState<BankRuleTransactionType>('any');
+    const [categoryAccountId, setCategoryAccountId] = useState('');
+    const [conditions, setConditions] = useState<ConditionDraft[]>([
+        EMPTY_CONDITION,
+    ]);
+    const [testResult, setTestResult] = useState<BankRuleTestResult | null>(
+        null
+    );
+
+    const { data: chartOfAccountsData } = useChartOfAccounts({
+        isActive: true,
+        limit: 100,
+        sort: 'accountNumber',
+        order: 'asc',
+    });
+    const categoryAccounts = chartOfAccountsData?.data.items ?? [];
+
+    const testMutation = useTestBankRule();
+    const createMutation = useCreateBankRule();
+
+    const parsedConditions = conditions
+        .map(toCondition)
+        .filter((condition) => condition !== null);
+    const isComplete =
+        !!categoryAccountId &&
+        parsedConditions.length > 0 &&
+        parsedConditions.length === conditions.length;
+
+    const definition: BankRuleDefinition = {
+        matchType,
+        transactionType,
+        conditions: parsedConditions,
+        categoryAccountId,
+    };
+
+    const updateCondition = (
+        index: number,
+        changes: Partial<ConditionDraft>
+    ) => {
+        setTestResult(null);
+        setConditions((prev) =>
+            prev.map((condition, i) => {
+                if (i !== index) return condition;
+                const next = { ...condition, ...changes };
+                // Text and amount fields have different operators
+                if (
+                    changes.field &&
+                    (changes.field === 'amount') !==
+                        (condition.field === 'amount')
+                ) {
+                    next.operator =
+                        changes.field === 'amount' ? 'lt' : 'contains';
+                }
+                return next;
+            })
+        );
+    };
+
+    const handleTest = () => {
+        testMutation.mutate(definition, {
+            onSuccess: (data) => setTestResult(data.data),
+        });
+    };
+
+    const handleSave = () => {
+        createMutation.mutate(
+            { ...definition, name: name.trim() },
+            { onSuccess: onDone }
+        );
+    };
+
+    return (
+        <div className="px-3 py-3 border-b border-primary-10 space-y-3 bg-gray-50">
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-2">
+                <input
+                    type="text"
+                    placeholder="Rule name"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    className={inputClassName}
+                />
+                <select
+                    value={transactionType}
+                    onChange={(e) => {
+                        setTestResult(null);
+                        setTransactionType(
+                            e.target.value as BankRuleTransactionType
+                        );
+                    }}
+                    className={inputClassName}
+                >
+                    <option value="any">Deposits and payments</option>
+                    <option value="payment">Payments only</option>
+                    <option value="deposit">Deposits only</option>
+                </select>
+                <select
+                    value={matchType}
+                    onChange={(e) => {
+                        setTestResult(null);
+                        setMatchType(e.target.value as BankRuleMatchType);
+                    }}
+                    className={inputClassName}
+                >
+                    <option value="all">Match all conditions</option>
+                    <option value="any">Match any condition</option>
+                </select>
+                <select
+                    value={categoryAccountId}
+                    onChange={(e) => {
+                        setTestResult(null);
+                        setCategoryAccountId(e.target.value);
+                    }}
+                    className={inputClassName}
+                >
+                    <option value="">Categorize to...</option>
+                    {categoryAccounts.map((account) => (
+                        <option key={account.id} value={account.id}>
+                            {account.accountNumber
+                                ? `${account.accountNumber} - ${account.accountName}`
+                                : account.accountName}
+                        </option>
+                    ))}
+                </select>
+            </div>
+
+            <div className="space-y-2">
+                {conditions.map((condition, index) => (
+                    <div key={index} className="flex items-center gap-2">
+                        <select
+                            value={condition.field}
+                            onChange={(e) =>
+                                updateCondition(index, {
+                                    field: e.target
+                                        .value as ConditionDraft['field'],
+                                })
+                            }
+                            className={inputClassName}
+                        >
+                            {Object.entries(FIELD_LABELS).map(
+                                ([value, label]) => (
+                                    <option key={value} value={value}>
+                                        {label}
+                                    </option>
+                                )
+                            )}
+                        </select>
+                        <select
+                            value={condition.operator}
+                            onChange={(e) =>
+                                updateCondition(index, {
+                                    operator: e.target
+                                        .value as ConditionDraft['operator'],
+                                })
+                            }
+                            className={inputClassName}
+                        >
+                            {(condition.field === 'amount'
+                                ? AMOUNT_OPERATORS
+                                : TEXT_OPERATORS
+                            ).map((operator) => (
+                                <option
+                                    key={operator.value}
+                                    value={operator.value}
+                                >
+                                    {operator.label}
+                                </option>
+                            ))}
+                        </select>
+                        <input
+                            type={
+                                condition.field === 'amount' ? 'number' : 'text'
+                            }
+                            min={condition.field === 'amount' ? 0 : undefined}
+                            step={
+                                condition.field === 'amount'
+                                    ? '0.01'
+                                    : undefined
+                            }
+                            value={condition.value}
+                            onChange={(e) =>
+                                updateCondition(index, {
+                                    value: e.target.value,
+                                })
+                            }
+                            className={`flex-1 ${inputClassName}`}
+                        />
+                        {conditions.length > 1 && (
+                            <button
+                                onClick={() => {
+                                    setTestResult(null);
+                                    setConditions((prev) =>
+                                        prev.filter((_, i) => i !== index)
+                                    );
+                                }}
+                                className="text-primary-50 hover:text-red-600"
+                                aria-label="Remove condition"
+                            >
+                                <FaTrash className="w-3 h-3" />
+                            </button>
+                        )}
+                    </div>
+                ))}
+                <button
+                    onClick={() => {
+                        setTestResult(null);
+                        setConditions((prev) => [...prev, EMPTY_CONDITION]);
+                    }}
+                    className="text-xs text-primary hover:text-primary-75 font-medium"
+                >
+                    + Add condition
+                </button>
+            </div>
+
+            {testResult && (
+                <div className="text-xs text-primary-75 bg-white border border-primary-10 rounded-lg p-2 space-y-1">
+                    <p>
+                        Matches {testResult.historyMatched} of{' '}
+                        {testResult.historyChecked} categorized transactions
+                        {testResult.agreementRate !== null &&
+                            ` · ${testResult.agreementRate}% were categorized to this account`}
+                    </p>
+                    <p>
+                        Would categorize {testResult.uncategorizedMatched}{' '}
+                        transactions waiting for review
+                    </p>
+                    {testResult.samples.length > 0 && (
+                        <ul className="pt-1 space-y-0.5">
+                            {testResult.samples.map((sample) => (
+                                <li
+                                    key={sample.id}
+                                    className={
+                                        sample.agrees
+                                            ? 'text-green-700'
+                                            : 'text-red-600'
+                                    }
+                                >
+                                    {sample.transactionDate} ·{' '}
+                                    {sample.description ||
+                                        sample.payee ||
+                                        'No description'}{' '}
+                                    · {sample.amount.toFixed(2)}
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+            )}
+
+            <div className="flex justify-end gap-2">
+                <Button size="sm" variant="outline" onClick={onDone}>
+                    Cancel
+                </Button>
+                <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={handleTest}
+                    disabled={!isComplete || testMutation.isPending}
+                >
+                    Test
+                </Button>
+                <Button
+                    size="sm"
+                    onClick={handleSave}
+                    disabled={
+                        !isComplete || !name.trim() || createMutation.isPending
+                    }
+                >
+                    Save Rule
+                </Button>
+            </div>
+        </div>
+    );
+}
+
+/**
+ * Bank categorization rules in priority order, with reordering,
+ * activation, deletion and applying the rules to the inbox
+ */
+export function BankRulesPanel() {
+    const [isCreating, setIsCreating] = useState(false);
+    const [deleteTarget, setDeleteTarget] = useState<BankRule | null>(null);
+
+    const { data, isLoading, isError } = useBankRules({ limit: RULES_LIMIT });
+    const updateMutation = useUpdateBankRule();
+    const deleteMutation = useDeleteBankRule();
+    const reorderMutation = useReorderBankRules();
+    const applyMutation = useApplyBankRules();
+
+    const rules = data?.data?.items || [];
+
+    const handleMove = (index: number, offset: -1 | 1) => {
+        const ruleIds = rules.map((rule) => rule.id);
+        const target = index + offset;
+        const moved = ruleIds[index];
+        const swapped = ruleIds[target];
+        if (moved === undefined || swapped === undefined) return;
+        ruleIds[index] = swapped;
+        ruleIds[target] = moved;
+        reorderMutation.mutate(ruleIds);
+    };
+
+    const handleConfirmDelete = () => {
+        if (!deleteTarget) return;
+        deleteMutation.mutate(deleteTarget.id, {
+            onSuccess: () => setDeleteTarget(null),
+        });
+    };
+
+    return (
+        <div className="bg-white rounded-lg border border-primary-10 overflow-hidden">
+            <div className="px-3 py-2 border-b border-primary-10 flex items-center justify-between">
+                <h3 className="text-sm font-semibold text-primary flex items-center gap-2">
+                    <FaMagic className="w-3 h-3" />
+                    <span>Bank Rules</span>
+                </h3>
+                <div className="flex gap-2">
+                    <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => applyMutation.mutate({})}
+                        disabled={
+                            applyMutation.isPending ||
+                            !rules.some((rule) => rule.isActive)
+                        }
+                        loading={applyMutation.isPending}
+                    >
+                        Apply Rules
+                    </Button>
+                    {!isCreating && (
+                        <Button size="sm" onClick={() => setIsCreating(true)}>
+                            New Rule
+                        </Button>
+                    )}
+                </div>
+            </div>
+
+            {isCreating && <BankRuleForm onDone={() => setIsCreating(false)} />}
+
+            {applyMutation.data &&
+                applyMutation.data.data.failures.length > 0 && (
+                    <ul className="px-3 py-2 border-b border-primary-10 text-xs text-red-600 space-y-0.5">
+                        {applyMutation.data.data.failures.map((failure) => (
+                            <li key={failure.transactionId}>
+                                {failure.message}
+                            </li>
+                        ))}
+                    </ul>
+                )}
+
+            {isLoading ? (
+                <div className="px-3 py-6 text-center text-sm text-primary-50">
+                    Loading bank rules...
+                </div>
+            ) : isError ? (
+                <div className="px-3 py-6 text-center text-sm text-red-500">
+                    Failed to load bank rules. Please try again.
+                </div>
+            ) : rules.length === 0 ? (
+                <div className="px-3 py-6 text-center text-sm text-primary-50">
+                    No bank rules yet. Suggestions are learned from transactions
+                    you categorize.
+                </div>
+            ) : (
+                <div className="overflow-x-auto">
+                    <table className="w-full">
+                        <thead className="bg-gray-50">
+                            <tr>
+                                <th className="px-3 py-2 text-left text-xs font-medium text-primary-75 uppercase tracking-wider">
+                                    Priority
+                                </th>
+                                <th className="px-3 py-2 text-left text-xs font-medium text-primary-75 uppercase tracking-wider">
+                                    Name
+                                </th>
+                                <th className="px-3 py-2 text-left text-xs font-medium text-primary-75 uppercase tracking-wider">
+                                    Conditions
+                                </th>
+                                <th className="px-3 py-2 text-left text-xs font-medium text-primary-75 uppercase tracking-wider">
+                                    Category
+                                </th>
+                                <th className="px-3 py-2 text-right text-xs font-medium text-primary-75 uppercase tracking-wider">
+                                    Actions
+                                </th>
+                            </tr>
+                        </thead>
+                        <tbody className="bg-white divide-y divide-gray-200">
+                            {rules.map((rule, index) => (
+                                <tr key={rule.id} className="hover:bg-gray-50">
+                                    <td className="px-3 py-2 whitespace-nowrap text-sm text-primary">
+                                        <div className="flex items-center gap-2">
+                                            <span>{index + 1}</span>
+                                            <button
+                                                onClick={() =>
+                                                    handleMove(index, -1)
+                                                }
+                                                disabled={
+                                                    index === 0 ||
+                                                    reorderMutation.isPending
+                                                }
+                                                className="text-primary-50 hover:text-primary disabled:opacity-30"
+                                                aria-label="Move up"
+                                            >
+                                                <FaArrowUp className="w-3 h-3" />
+                                            </button>
+                                            <button
+                                                onClick={() =>
+                                                    handleMove(index, 1)
+                                                }
+                                                disabled={
+                                                    index ===
+                                                        rules.length - 1 ||
+                                                    reorderMutation.isPending
+                                                }
+                                                className="text-primary-50 hover:text-primary disabled:opacity-30"
+                                                aria-label="Move down"
+                                            >
+                                                <FaArrowDown className="w-3 h-3" />
+                                            </button>
+                                        </div>
+                                    </td>
+                                    <td className="px-3 py-2 text-sm font-medium text-primary">
+                                        {rule.name}
+                                        {rule.transactionType !== 'any' && (
+                                            <span className="block text-xs text-primary-50 capitalize">
+                                                {rule.transactionType}s only
+                                            </span>
+                                        )}
+                                    </td>
+                                    <td className="px-3 py-2 text-xs text-primary-75">
+                                        {rule.conditions
+                                            .map(describeCondition)
+                                            .join(
+                                                rule.matchType === 'all'
+                                                    ? ' and '
+                                                    : ' or '
+                                            )}
+                                    </td>
+                                    <td className="px-3 py-2 text-sm text-primary-75">
+                                        {rule.categoryAccount?.accountName ||
+                                            '—'}
+                                        {rule.taxGroup && (
+                                            <span className="block text-xs text-primary-50">
+                                                {rule.taxGroup.name}
+                                            </span>
+                                        )}
+                                    </td>
+                                    <td className="px-3 py-2 whitespace-nowrap text-right">
+                                        <div className="flex justify-end gap-2">
+                                            <Button
+                                                size="sm"
+                                                variant="outline"
+                                                onClick={() =>
+                                                    updateMutation.mutate({
+                                                        id: rule.id,
+                                                        payload: {
+                                                            isActive:
+                                                                !rule.isActive,
+                                                        },
+                                                    })
+                                                }
+                                                disabled={
+                                                    updateMutation.isPending
+                                                }
+                                            >
+                                                {rule.isActive
+                                                    ? 'Disable'
+                                                    : 'Enable'}
+                                            </Button>
+                                            <Button
+                                                size="sm"
+                                                variant="outline"
+                                                onClick={() =>
+                                                    setDeleteTarget(rule)
+                                                }
+                                            >
+                                                Delete
+                                            </Button>
+                                        </div>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+
+            <ConfirmationDialog
+                isOpen={!!deleteTarget}
+                onClose={() => setDeleteTarget(null)}
+                onConfirm={handleConfirmDelete}
+                title="Delete Bank Rule"
+                message={`Are you sure you want to delete "${deleteTarget?.name}"? Transactions it already categorized are kept.`}
+                confirmText="Delete"
+                confirmVariant="danger"
+                loading={deleteMutation.isPending}
+            />
+        </div>
+    );
+}
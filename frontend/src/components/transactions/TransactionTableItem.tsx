@@ -1,34 +1,94 @@
 import { FaArrowDown, FaArrowUp } from 'react-icons/fa';
-import { TransactionType2 } from '../../types';
+import type { ChartOfAccount } from '../../services/apis/chartsAccountApi';
+import {
+    useCategorizeTransaction,
+    useExcludeTransaction,
+    useRestoreTransaction,
+} from '../../services/apis/transactions';
+import type {
+    BankTransaction,
+    BankTransactionStatus,
+} from '../../types/bankTransaction';
 
 type TransactionTableItemProps = {
-    transaction: TransactionType2;
+    transaction: BankTransaction;
+    categoryAccounts: ChartOfAccount[];
 };
 
-const TransactionTableItem = ({ transaction }: TransactionTableItemProps) => {
-    // Get the first split for display purposes
-    const firstSplit = transaction.splits?.[0];
-    const amount = parseFloat(transaction.totalAmount || '0');
-    const isCredit = amount >= 0;
+const STATUS_STYLES: Record<BankTransactionStatus, string> = {
+    uncategorized: 'bg-yellow-100 text-yellow-700',
+    categorized: 'bg-green-100 text-green-700',
+    excluded: 'bg-primary-10 text-primary-50',
+};
+
+const STATUS_LABELS: Record<BankTransactionStatus, string> = {
+    uncategorized: 'Uncategorized',
+    categorized: 'Categorized',
+    excluded: 'Excluded',
+};
+
+const formatAccountName = (account: ChartOfAccount) =>
+    account.accountNumber
+        ? `${account.accountNumber} - ${account.accountName}`
+        : account.accountName;
+
+const TransactionTableItem = ({
+    transaction,
+    categoryAccounts,
+}: TransactionTableItemProps) => {
+    const categorizeMutation = useCategorizeTransaction();
+    const excludeMutation = useExcludeTransaction();
+    const restoreMutation = useRestoreTransaction();
+
+    const isDeposit = transaction.amount >= 0;
+    const isBusy =
+        categorizeMutation.isPending ||
+        excludeMutation.isPending ||
+        restoreMutation.isPending;
 
+    // Dates are calendar dates; format them in UTC so they do not shift
     const formattedDate = new Date(
-        transaction.latestPostedDate || transaction.createdAt
+        `${transaction.transactionDate}T00:00:00Z`
     ).toLocaleDateString('en-US', {
         year: 'numeric',
         month: 'short',
         day: 'numeric',
+        timeZone: 'UTC',
     });
 
     const formattedAmount = new Intl.NumberFormat('en-US', {
         style: 'currency',
-        currency: transaction.currency?.toUpperCase() || 'USD',
-    }).format(Math.abs(amount));
+        currency: transaction.currencyCode,
+    }).format(Math.abs(transaction.amount));
 
     const description =
-        firstSplit?.senderDescription ||
-        firstSplit?.recipientDescription ||
-        transaction.itemType ||
-        'N/A';
+        transaction.description || transaction.payee || 'No description';
+
+    const { suggestion } = transaction;
+    const suggestedAccount = suggestion
+        ? categoryAccounts.find(
+              (account) => account.id === suggestion.categoryAccountId
+          )
+        : undefined;
+
+    const handleCategorize = (categoryAccountId: string) => {
+        if (!categoryAccountId) return;
+        categorizeMutation.mutate({
+            id: transaction.id,
+            payload: { categoryAccountId },
+        });
+    };
+
+    const handleAcceptSuggestion = () => {
+        if (!suggestion) return;
+        categorizeMutation.mutate({
+            id: transaction.id,
+            payload: {
+                categoryAccountId: suggestion.categoryAccountId,
+                taxGroupId: suggestion.taxGroupId,
+            },
+        });
+    };
 
     return (
         <tr className="transaction-table-row">
@@ -36,7 +96,7 @@ const TransactionTableItem = ({ transaction }: TransactionTableItemProps) => {
                 <div className="flex items-center gap-2">
                     <div
                         className={`w-2 h-2 rounded-full ${
-                            isCredit ? 'bg-green-500' : 'bg-red-500'
+                            isDeposit ? 'bg-green-500' : 'bg-red-500'
                         }`}
                     ></div>
                     <span className="text-sm font-medium text-primary">
@@ -49,67 +109,128 @@ const TransactionTableItem = ({ transaction }: TransactionTableItemProps) => {
                     <span className="text-sm font-medium text-primary">
                         {description}
                     </span>
-                    {firstSplit?.categoryAndGifi?.[0]?.displayLabel && (
+                    {transaction.payee && transaction.payee !== description && (
+                        <span className="text-xs text-primary-50">
+                            {transaction.payee}
+                        </span>
+                    )}
+                    {transaction.reference && (
                         <span className="text-xs text-primary-50">
-                            {firstSplit.categoryAndGifi[0].displayLabel}
+                            Ref: {transaction.reference}
                         </span>
                     )}
                 </div>
             </td>
             <td className="transaction-table-cell">
                 <span className="text-xs text-primary-50 bg-primary-10 px-2 py-1 rounded">
-                    {transaction.itemType || 'N/A'}
+                    {transaction.account?.name || 'N/A'}
                 </span>
             </td>
             <td className="transaction-table-cell">
                 <div
                     className={`flex items-center gap-1 font-semibold ${
-                        isCredit ? 'text-green-600' : 'text-red-600'
+                        isDeposit ? 'text-green-600' : 'text-red-600'
                     }`}
                 >
-                    {isCredit ? (
+                    {isDeposit ? (
                         <FaArrowUp className="w-3 h-3" />
                     ) : (
                         <FaArrowDown className="w-3 h-3" />
                     )}
                     <span>
-                        {isCredit ? '+' : '-'}
+                        {isDeposit ? '+' : '-'}
                         {formattedAmount}
                     </span>
                 </div>
             </td>
             <td className="transaction-table-cell">
-                <span className="text-sm text-primary-75">
-                    {new Intl.NumberFormat('en-US', {
-                        style: 'currency',
-                        currency: transaction.currency?.toUpperCase() || 'USD',
-                    }).format(0)}
+                <span
+                    className={`text-xs px-2 py-1 rounded ${
+                        STATUS_STYLES[transaction.status]
+                    }`}
+                >
+                    {STATUS_LABELS[transaction.status]}
                 </span>
             </td>
             <td className="transaction-table-cell">
-                <div className="flex items-center gap-2">
-                    {transaction.pending && (
-                        <span className="text-xs text-primary-50 bg-primary-10 px-2 py-1 rounded">
-                            Pending
-                        </span>
-                    )}
-                    {firstSplit?.pendingTransfer && (
-                        <span className="text-xs text-primary-50 bg-primary-10 px-2 py-1 rounded">
-                            Transfer
+                {transaction.status === 'uncategorized' ? (
+                    <div className="flex flex-col gap-1">
+                        <select
+                            defaultValue=""
+                            disabled={isBusy}
+                            onChange={(e) => handleCategorize(e.target.value)}
+                            className="w-full px-2 py-1 border border-primary-10 rounded-lg text-sm text-primary focus:outline-none focus:ring-2 focus:ring-primary-25"
+                        >
+                            <option value="">Select category...</option>
+                            {categoryAccounts.map((account) => (
+                                <option key={account.id} value={account.id}>
+                                    {formatAccountName(account)}
+                                </option>
+                            ))}
+                        </select>
+                        {suggestion && (
+                            <div className="flex items-center justify-between gap-2 text-xs">
+                                <span
+                                    className="text-primary-50"
+                                    title={
+                                        suggestion.source === 'rule'
+                                            ? 'Matched a bank rule'
+                                            : `Learned from ${suggestion.matchCount} similar transactions`
+                                    }
+                                >
+                                    Suggested:{' '}
+                                    {suggestedAccount
+                                        ? formatAccountName(suggestedAccount)
+                                        : 'Category account'}{' '}
+                                    ({suggestion.confidence}%)
+                                </span>
+                                <button
+                                    onClick={handleAcceptSuggestion}
+                                    disabled={isBusy}
+                                    className="text-primary hover:text-primary-75 font-medium disabled:opacity-50"
+                                >
+                                    Accept
+                                </button>
+                            </div>
+                        )}
+                    </div>
+                ) : (
+                    <div className="flex flex-col">
+                        <span className="text-sm text-primary-75">
+                            {transaction.categoryAccount?.accountName || '—'}
                         </span>
-                    )}
-                    {transaction.matchedReceiptDocs &&
-                        transaction.matchedReceiptDocs.length > 0 && (
-                            <span className="text-xs text-primary-50 bg-primary-10 px-2 py-1 rounded">
-                                Receipt
+                        {transaction.taxGroup && (
+                            <span className="text-xs text-primary-50">
+                                {transaction.taxGroup.name}
                             </span>
                         )}
-                </div>
+                        {transaction.journalEntry?.entryNumber && (
+                            <span className="text-xs text-primary-50">
+                                {transaction.journalEntry.entryNumber}
+                            </span>
+                        )}
+                    </div>
+                )}
             </td>
             <td className="transaction-table-cell">
-                <button className="text-primary hover:text-primary-75 text-sm font-medium">
-                    View
-                </button>
+                {transaction.status === 'uncategorized' && (
+                    <button
+                        onClick={() => excludeMutation.mutate(transaction.id)}
+                        disabled={isBusy}
+                        className="text-primary hover:text-primary-75 text-sm font-medium disabled:opacity-50"
+                    >
+                        Exclude
+                    </button>
+                )}
+                {transaction.status === 'excluded' && (
+                    <button
+                        onClick={() => restoreMutation.mutate(transaction.id)}
+                        disabled={isBusy}
+                        className="text-primary hover:text-primary-75 text-sm font-medium disabled:opacity-50"
+                    >
+                        Restore
+                    </button>
+                )}
             </td>
         </tr>
     );
@@ -1,24 +1,50 @@
 import { useState } from 'react';
-import { FaFilter, FaSearch } from 'react-icons/fa';
+import { FaSearch } from 'react-icons/fa';
+import { useChartOfAccounts } from '../../services/apis/chartsAccountApi';
 import { useTransactions } from '../../services/apis/transactions';
+import type { BankTransactionStatus } from '../../types/bankTransaction';
 import TransactionTableItem from './TransactionTableItem';
 
+const PAGE_SIZE = 20;
+
+const STATUS_TABS: { value: BankTransactionStatus; label: string }[] = [
+    { value: 'uncategorized', label: 'For Review' },
+    { value: 'categorized', label: 'Categorized' },
+    { value: 'excluded', label: 'Excluded' },
+];
+
 const TransactionsTable = () => {
-    const { data, isLoading, isError, error } = useTransactions();
+    const [status, setStatus] =
+        useState<BankTransactionStatus>('uncategorized');
     const [searchTerm, setSearchTerm] = useState('');
+    const [page, setPage] = useState(1);
 
-    if (isLoading) {
-        return (
-            <div className="bg-white rounded-2 shadow-sm border border-primary-10 p-12">
-                <div className="flex flex-col items-center justify-center gap-4">
-                    <div className="w-12 h-12 border-4 border-primary-25 border-t-primary rounded-full animate-spin"></div>
-                    <p className="text-sm text-primary-50">
-                        Loading transactions...
-                    </p>
-                </div>
-            </div>
-        );
-    }
+    const { data, isLoading, isError, error } = useTransactions({
+        status,
+        search: searchTerm.trim() || undefined,
+        page,
+        limit: PAGE_SIZE,
+    });
+    const { data: chartOfAccountsData } = useChartOfAccounts({
+        isActive: true,
+        limit: 100,
+        sort: 'accountNumber',
+        order: 'asc',
+    });
+
+    const transactions = data?.data.items ?? [];
+    const pagination = data?.data.pagination;
+    const categoryAccounts = chartOfAccountsData?.data.items ?? [];
+
+    const handleStatusChange = (value: BankTransactionStatus) => {
+        setStatus(value);
+        setPage(1);
+    };
+
+    const handleSearchChange = (value: string) => {
+        setSearchTerm(value);
+        setPage(1);
+    };
 
     if (isError) {
         return (
@@ -30,47 +56,34 @@ const TransactionsTable = () => {
         );
     }
 
-    const filteredTransactions = data?.filter((transaction) => {
-        if (!searchTerm) return true;
-        const searchLower = searchTerm.toLowerCase();
-        const firstSplit = transaction.splits?.[0];
-        const description =
-            firstSplit?.senderDescription?.toLowerCase() ||
-            firstSplit?.recipientDescription?.toLowerCase() ||
-            '';
-        const categoryName =
-            firstSplit?.categoryAndGifi?.[0]?.displayLabel?.toLowerCase() ||
-            firstSplit?.categoryAndGifi?.[0]?.name?.toLowerCase() ||
-            '';
-        const itemType = transaction.itemType?.toLowerCase() || '';
-
-        return (
-            description.includes(searchLower) ||
-            categoryName.includes(searchLower) ||
-            itemType.includes(searchLower) ||
-            transaction.totalAmount?.includes(searchLower)
-        );
-    });
-
     return (
         <div className="bg-white max-h-[calc(100vh-100px)] rounded-2 shadow-sm border border-primary-10 overflow-y-auto">
             {/* Table Header with Search */}
-            <div className="p-4 border-b border-primary-10 sticky top-0 bg-white z-10">
-                <div className="flex items-center justify-between gap-4">
-                    <div className="flex-1 relative">
-                        <FaSearch className="absolute left-3 top-1/2 -translate-y-1/2 text-primary-50 w-4 h-4" />
-                        <input
-                            type="text"
-                            placeholder="Search transactions..."
-                            value={searchTerm}
-                            onChange={(e) => setSearchTerm(e.target.value)}
-                            className="w-full pl-10 pr-4 py-2 border border-primary-10 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-25 focus:border-primary text-sm"
-                        />
-                    </div>
-                    <button className="flex items-center gap-2 px-4 py-2 border border-primary-10 rounded-lg hover:bg-primary-10 transition-colors text-sm font-medium text-primary">
-                        <FaFilter className="w-4 h-4" />
-                        Filter
-                    </button>
+            <div className="p-4 border-b border-primary-10 sticky top-0 bg-white z-10 space-y-3">
+                <div className="flex items-center gap-2">
+                    {STATUS_TABS.map((tab) => (
+                        <button
+                            key={tab.value}
+                            onClick={() => handleStatusChange(tab.value)}
+                            className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                                status === tab.value
+                                    ? 'bg-primary text-white'
+                                    : 'text-primary hover:bg-primary-10'
+                            }`}
+                        >
+                            {tab.label}
+                        </button>
+                    ))}
+                </div>
+                <div className="relative">
+                    <FaSearch className="absolute left-3 top-1/2 -translate-y-1/2 text-primary-50 w-4 h-4" />
+                    <input
+                        type="text"
+                        placeholder="Search description, payee or reference..."
+                        value={searchTerm}
+                        onChange={(e) => handleSearchChange(e.target.value)}
+                        className="w-full pl-10 pr-4 py-2 border border-primary-10 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-25 focus:border-primary text-sm"
+                    />
                 </div>
             </div>
 
@@ -83,22 +96,35 @@ const TransactionsTable = () => {
                             <th className="transaction-table-header">
                                 Description
                             </th>
-                            <th className="transaction-table-header">Type</th>
+                            <th className="transaction-table-header">
+                                Account
+                            </th>
                             <th className="transaction-table-header">Amount</th>
+                            <th className="transaction-table-header">Status</th>
                             <th className="transaction-table-header">
-                                Balance
+                                Category
                             </th>
-                            <th className="transaction-table-header">Tags</th>
                             <th className="transaction-table-header">Action</th>
                         </tr>
                     </thead>
                     <tbody className="divide-y divide-primary-10">
-                        {filteredTransactions &&
-                        filteredTransactions.length > 0 ? (
-                            filteredTransactions.map((transaction) => (
+                        {isLoading ? (
+                            <tr>
+                                <td colSpan={7} className="py-12">
+                                    <div className="flex flex-col items-center justify-center gap-4">
+                                        <div className="w-12 h-12 border-4 border-primary-25 border-t-primary rounded-full animate-spin"></div>
+                                        <p className="text-sm text-primary-50">
+                                            Loading transactions...
+                                        </p>
+                                    </div>
+                                </td>
+                            </tr>
+                        ) : transactions.length > 0 ? (
+                            transactions.map((transaction) => (
                                 <TransactionTableItem
                                     key={transaction.id}
                                     transaction={transaction}
+                                    categoryAccounts={categoryAccounts}
                                 />
                             ))
                         ) : (
@@ -118,18 +144,26 @@ const TransactionsTable = () => {
             </div>
 
             {/* Table Footer */}
-            {filteredTransactions && filteredTransactions.length > 0 && (
+            {pagination && pagination.total > 0 && (
                 <div className="p-4 border-t border-primary-10 bg-primary-10">
                     <div className="flex items-center justify-between text-sm text-primary-75">
                         <span>
-                            Showing {filteredTransactions.length} of{' '}
-                            {data?.length || 0} transactions
+                            Showing {transactions.length} of {pagination.total}{' '}
+                            transactions
                         </span>
                         <div className="flex items-center gap-2">
-                            <button className="px-3 py-1 rounded hover:bg-primary-25 transition-colors">
+                            <button
+                                onClick={() => setPage((prev) => prev - 1)}
+                                disabled={!pagination.hasPreviousPage}
+                                className="px-3 py-1 rounded hover:bg-primary-25 transition-colors disabled:opacity-50"
+                            >
                                 Previous
                             </button>
-                            <button className="px-3 py-1 rounded hover:bg-primary-25 transition-colors">
+                            <button
+                                onClick={() => setPage((prev) => prev + 1)}
+                                disabled={!pagination.hasNextPage}
+                                className="px-3 py-1 rounded hover:bg-primary-25 transition-colors disabled:opacity-50"
+                            >
                                 Next
                             </button>
                         </div>
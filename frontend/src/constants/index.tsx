@@ -1,4 +1,5 @@
 import {
+    FaAddressBook,
     FaCog,
     FaCommentDots,
     FaFileAlt,
@@ -10,8 +11,10 @@ import {
 import {
     FaBook,
     FaBookJournalWhills,
+    FaBullseye,
     FaHouse,
     FaMoneyBillTransfer,
+    FaScaleBalanced,
 } from 'react-icons/fa6';
 import { SidebarItemProps } from '../types';
 
@@ -26,6 +29,11 @@ export const SIDEBAR_ITEMS: SidebarItemProps[] = [
         icon: <FaMoneyBillTransfer />,
         path: '/transactions',
     },
+    {
+        label: 'Reconciliation',
+        icon: <FaScaleBalanced />,
+        path: '/bank-reconciliation',
+    },
     {
         label: 'Reports',
         icon: <FaFileAlt />,
@@ -36,6 +44,11 @@ export const SIDEBAR_ITEMS: SidebarItemProps[] = [
         icon: <FaBook />,
         path: '/chart-of-accounts',
     },
+    {
+        label: 'Budgets',
+        icon: <FaBullseye />,
+        path: '/budgets',
+    },
     {
         label: 'Journal Entries',
         icon: <FaBookJournalWhills />,
@@ -51,6 +64,11 @@ export const SIDEBAR_ITEMS: SidebarItemProps[] = [
         icon: <FaReceipt />,
         path: '/expenses',
     },
+    {
+        label: 'Contacts',
+        icon: <FaAddressBook />,
+        path: '/contacts',
+    },
     {
         label: 'Documents',
         icon: <FaUpload />,
@@ -0,0 +1,12 @@
+import type { IncomeStatementSectionKey } from '../types/reports';
+
+export const INCOME_STATEMENT_SECTION_LABELS: Record<
+    IncomeStatementSectionKey,
+    string
+> = {
+    operatingRevenue: 'Revenue',
+    costOfGoodsSold: 'Cost of Sales',
+    operatingExpenses: 'Operating Expenses',
+    otherRevenue: 'Other Income',
+    otherExpenses: 'Other Expenses',
+};
@@ -0,0 +1,345 @@
+import { Fragment, useState } from 'react';
+import toast from 'react-hot-toast';
+import { FaFileCsv, FaFileExcel } from 'react-icons/fa';
+import { useLocation, useSearchParams } from 'react-router';
+import Loading from '../../components/shared/Loading';
+import { useContacts } from '../../services/apis/contactApi';
+import {
+    downloadAgingReport,
+    useAgingReport,
+} from '../../services/apis/reportsApi';
+import type {
+    AgingBucket,
+    AgingBucketAmounts,
+    AgingReportFormat,
+    AgingReportMode,
+    AgingReportType,
+} from '../../types/reports';
+
+const BUCKET_COLUMNS: { key: AgingBucket; label: string }[] = [
+    { key: 'current', label: 'Current' },
+    { key: 'days1To30', label: '1–30' },
+    { key: 'days31To60', label: '31–60' },
+    { key: 'days61To90', label: '61–90' },
+    { key: 'over90', label: '90+' },
+];
+
+const REPORT_CONFIG: Record<
+    AgingReportType,
+    { title: string; subtitle: string; contactLabel: string }
+> = {
+    receivable: {
+        title: 'Accounts Receivable Aging',
+        subtitle: 'What each customer owes, by days past due',
+        contactLabel: 'Customer',
+    },
+    payable: {
+        title: 'Accounts Payable Aging',
+        subtitle: 'What is owed to each vendor, by days past due',
+        contactLabel: 'Vendor',
+    },
+};
+
+const formatNumber = (num: number) => {
+    return num.toLocaleString(undefined, {
+        minimumFractionDigits: 2,
+        maximumFractionDigits: 2,
+    });
+};
+
+/**
+ * Show an amount, leaving empty buckets blank
+ */
+const formatBucket = (num: number) => (num === 0 ? '' : formatNumber(num));
+
+const AgingReportpage = () => {
+    const { pathname } = useLocation();
+    const [searchParams, setSearchParams] = useSearchParams();
+    const reportType: AgingReportType = pathname.endsWith('aged-payables')
+        ? 'payable'
+        : 'receivable';
+    const config = REPORT_CONFIG[reportType];
+
+    const today = new Date().toISOString().split('T')[0];
+    const [asOf, setAsOf] = useState(today);
+    // Mode lives in the URL so the summary and detail links open the right view
+    const mode: AgingReportMode =
+        searchParams.get('mode') === 'detail' ? 'detail' : 'summary';
+    // Contact filter of the report type it was chosen on; both report routes
+    // share this page, so switching type clears it
+    const [contactFilter, setContactFilter] = useState({
+        reportType,
+        contactId: '',
+    });
+    const contactId =
+        contactFilter.reportType === reportType ? contactFilter.contactId : '';
+    const [exporting, setExporting] = useState<AgingReportFormat | null>(null);
+
+    const filters = {
+        asOf: asOf || undefined,
+        mode,
+        contactId: contactId || undefined,
+    };
+    const { data, isLoading, error } = useAgingReport(reportType, filters);
+    const { data: contactsData } = useContacts({
+        contactType: reportType === 'receivable' ? 'customer' : 'vendor',
+        limit: 100,
+    });
+    const report = data?.data;
+    const contacts = contactsData?.data?.items || [];
+
+    const handleExport = async (format: AgingReportFormat) => {
+        setExporting(format);
+        try {
+            await downloadAgingReport(reportType, format, filters);
+        } catch (error) {
+            console.error('Aging report export error:', error);
+            toast.error('Failed to export aging report');
+        } finally {
+            setExporting(null);
+        }
+    };
+
+    const renderBuckets = (buckets: AgingBucketAmounts, className = '') => (
+        <>
+            {BUCKET_COLUMNS.map((column) => (
+                <td
+                    key={column.key}
+                    className={`text-right py-3 px-4 ${className}`}
+                >
+                    {formatBucket(buckets[column.key])}
+                </td>
+            ))}
+            <td className={`text-right py-3 px-4 font-medium ${className}`}>
+                {formatNumber(buckets.total)}
+            </td>
+        </>
+    );
+
+    return (
+        <div className="space-y-6">
+            {/* Header */}
+            <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+                <div>
+                    <h2 className="text-2xl font-bold text-primary">
+                        {config.title}
+                    </h2>
+                    <p className="text-sm text-primary-50 mt-1">
+                        {config.subtitle}
+                        {report &&
+                            ` · ${report.account.accountNumber ? `${report.account.accountNumber} ` : ''}${report.account.accountName}`}
+                    </p>
+                </div>
+                <div className="flex items-center gap-2">
+                    <button
+                        onClick={() => handleExport('csv')}
+                        disabled={!report || exporting !== null}
+                        className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-primary bg-white border-2 border-primary-10 rounded-2 hover:border-primary hover:bg-primary-10 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        <FaFileCsv />
+                        Export CSV
+                    </button>
+                    <button
+                        onClick={() => handleExport('xlsx')}
+                        disabled={!report || exporting !== null}
+                        className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-primary bg-white border-2 border-primary-10 rounded-2 hover:border-primary hover:bg-primary-10 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        <FaFileExcel />
+                        Export Excel
+                    </button>
+                </div>
+            </div>
+
+            {/* Filters */}
+            <div className="bg-white rounded-2 shadow-sm border border-primary-10 p-4">
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                    <div>
+                        <label className="block text-sm font-medium text-primary mb-2">
+                            As Of
+                        </label>
+                        <input
+                            type="date"
+                            value={asOf}
+                            onChange={(e) => setAsOf(e.target.value)}
+                            className="w-full px-4 py-2 border border-primary-10 rounded-2 text-sm text-primary focus:outline-none focus:border-primary"
+                        />
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-primary mb-2">
+                            Mode
+                        </label>
+                        <select
+                            value={mode}
+                            onChange={(e) =>
+                                setSearchParams(
+                                    e.target.value === 'detail'
+                                        ? { mode: 'detail' }
+                                        : {}
+                                )
+                            }
+                            className="w-full px-4 py-2 border border-primary-10 rounded-2 text-sm text-primary focus:outline-none focus:border-primary"
+                        >
+                            <option value="summary">Summary</option>
+                            <option value="detail">Detail</option>
+                        </select>
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-primary mb-2">
+                            {config.contactLabel}
+                        </label>
+                        <select
+                            value={contactId}
+                            onChange={(e) =>
+                                setContactFilter({
+                                    reportType,
+                                    contactId: e.target.value,
+                                })
+                            }
+                            className="w-full px-4 py-2 border border-primary-10 rounded-2 text-sm text-primary focus:outline-none focus:border-primary"
+                        >
+                            <option value="">
+                                All {config.contactLabel.toLowerCase()}s
+                            </option>
+                            {contacts.map((contact) => (
+                                <option key={contact.id} value={contact.id}>
+                                    {contact.displayName}
+                                </option>
+                            ))}
+                        </select>
+                    </div>
+                </div>
+            </div>
+
+            {/* Aging */}
+            <div className="bg-white rounded-2 shadow-sm border border-primary-10 p-6">
+                {isLoading ? (
+                    <div className="flex items-center justify-center min-h-[300px]">
+                        <Loading />
+                    </div>
+                ) : error || !report ? (
+                    <div className="flex items-center justify-center min-h-[300px]">
+                        <p className="text-red-500">
+                            Failed to load aging report
+                        </p>
+                    </div>
+                ) : (
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-sm">
+                            <thead>
+                                <tr className="bg-gray-50 border-b border-gray-200">
+                                    <th className="text-left py-3 px-4 font-semibold text-primary">
+                                        {config.contactLabel}
+                                    </th>
+                                    {BUCKET_COLUMNS.map((column) => (
+                                        <th
+                                            key={column.key}
+                                            className="text-right py-3 px-4 font-semibold text-primary"
+                                        >
+                                            {column.label}
+                                        </th>
+                                    ))}
+                                    <th className="text-right py-3 px-4 font-semibold text-primary">
+                                        Total
+                                    </th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {report.contacts.length === 0 ? (
+                                    <tr>
+                                        <td
+                                            colSpan={BUCKET_COLUMNS.length + 2}
+                                            className="py-6 text-center text-primary-50"
+                                        >
+                                            Nothing open as of {report.asOf}
+                                        </td>
+                                    </tr>
+                                ) : (
+                                    report.contacts.map((contact) => (
+                                        <Fragment
+                                            key={contact.contactId ?? 'none'}
+                                        >
+                                            <tr
+                                                className={`border-b border-gray-200 ${report.mode === 'detail' ? 'bg-gray-50' : 'hover:bg-gray-50'}`}
+                                            >
+                                                <td className="py-3 px-4 font-medium text-primary">
+                                                    {contact.displayName}
+                                                </td>
+                                                {renderBuckets(
+                                                    contact.buckets,
+                                                    report.mode === 'detail'
+                                                        ? 'font-medium'
+                                                        : ''
+                                                )}
+                                            </tr>
+                                            {(contact.items ?? []).map(
+                                                (item) => (
+                                                    <tr
+                                                        key={
+                                                            item.journalEntryLineId
+                                                        }
+                                                        className="border-b border-gray-100"
+                                                    >
+                                                        <td className="py-2 px-4 pl-8 text-primary-75">
+                                                            <div>
+                                                                {item.documentNumber ??
+                                                                    item.entryNumber ??
+                                                                    item.description ??
+                                                                    '—'}
+                                                            </div>
+                                                            <div className="text-xs text-primary-50">
+                                                                Due{' '}
+                                                                {item.dueDate}
+                                                                {item.daysPastDue >
+                                                                    0 &&
+                                                                    ` · ${item.daysPastDue} days past due`}
+                                                            </div>
+                                                        </td>
+                                                        {BUCKET_COLUMNS.map(
+                                                            (column) => (
+                                                                <td
+                                                                    key={
+                                                                        column.key
+                                                                    }
+                                                                    className="text-right py-2 px-4 text-primary-75"
+                                                                >
+                                                                    {item.bucket ===
+                                                                    column.key
+                                                                        ? formatNumber(
+                                                                              item.openAmount
+                                                                          )
+                                                                        : ''}
+                                                                </td>
+                                                            )
+                                                        )}
+                                                        <td className="text-right py-2 px-4 text-primary-75">
+                                                            {formatNumber(
+                                                                item.openAmount
+                                                            )}
+                                                        </td>
+                                                    </tr>
+                                                )
+                                            )}
+                                        </Fragment>
+                                    ))
+                                )}
+                            </tbody>
+                            <tfoot>
+                                <tr className="border-t-2 border-primary bg-primary-10">
+                                    <td className="py-3 px-4 font-bold text-primary">
+                                        Total
+                                    </td>
+                                    {renderBuckets(
+                                        report.totals,
+                                        'font-bold text-primary'
+                                    )}
+                                </tr>
+                            </tfoot>
+                        </table>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default AgingReportpage;
@@ -1,62 +1,272 @@
 import { useState } from 'react';
 import {
     FaBuilding,
+    FaCheckCircle,
+    FaChevronDown,
+    FaChevronRight,
     FaDownload,
+    FaExclamationTriangle,
     FaFileInvoiceDollar,
     FaPiggyBank,
 } from 'react-icons/fa';
 import SummaryCard from '../../components/dashboard/SummaryCard';
+import Loading from '../../components/shared/Loading';
+import { useBalanceSheet } from '../../services/apis/reportsApi';
+import type {
+    ReportAccountNode,
+    ReportSection,
+    ReportSubtypeSection,
+} from '../../types/reports';
+import { exportToCSV, type ExportData } from '../../utills/export';
 
-const BalanceSheetpage = () => {
-    const [dateRange, setDateRange] = useState('monthly');
-    const [asOfDate, setAsOfDate] = useState('');
+const currencyFormatter = new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 2,
+});
 
-    // Mock data - replace with API calls
-    const assets = {
-        current: [
-            { name: 'Cash and Cash Equivalents', amount: 45000 },
-            { name: 'Accounts Receivable', amount: 35000 },
-            { name: 'Inventory', amount: 15000 },
-            { name: 'Prepaid Expenses', amount: 5000 },
-        ],
-        fixed: [
-            { name: 'Property, Plant & Equipment', amount: 120000 },
-            { name: 'Accumulated Depreciation', amount: -30000 },
-            { name: 'Intangible Assets', amount: 25000 },
-        ],
-    };
+const SUBTYPE_LABELS: Record<string, string> = {
+    current_asset: 'Current Assets',
+    fixed_asset: 'Fixed Assets',
+    other_asset: 'Other Assets',
+    current_liability: 'Current Liabilities',
+    long_term_liability: 'Long-term Liabilities',
+    other_liability: 'Other Liabilities',
+    equity: 'Equity',
+    retained_earnings: 'Retained Earnings',
+};
+
+const getSubtypeLabel = (subtype: ReportSubtypeSection) =>
+    (subtype.accountSubtype && SUBTYPE_LABELS[subtype.accountSubtype]) ||
+    'Other';
+
+const getAccountLabel = (account: ReportAccountNode) =>
+    account.accountNumber
+        ? `${account.accountNumber} - ${account.accountName}`
+        : account.accountName;
+
+type AccountRowProps = {
+    account: ReportAccountNode;
+    depth: number;
+    collapsed: Set<string>;
+    onToggle: (accountId: string) => void;
+};
+
+const AccountRow = ({
+    account,
+    depth,
+    collapsed,
+    onToggle,
+}: AccountRowProps) => {
+    const hasChildren = account.children.length > 0;
+    const isCollapsed = collapsed.has(account.accountId);
+
+    return (
+        <>
+            <div
+                className="flex justify-between items-center py-2 border-b border-primary-10"
+                style={{ paddingLeft: `${depth * 1.25}rem` }}
+            >
+                <span className="flex items-center gap-2 text-primary-75">
+                    {hasChildren ? (
+                        <button
+                            type="button"
+                            onClick={() => onToggle(account.accountId)}
+                            className="text-primary-50 hover:text-primary"
+                            aria-label={
+                                isCollapsed
+                                    ? 'Expand sub-accounts'
+                                    : 'Collapse sub-accounts'
+                            }
+                        >
+                            {isCollapsed ? (
+                                <FaChevronRight className="w-3 h-3" />
+                            ) : (
+                                <FaChevronDown className="w-3 h-3" />
+                            )}
+                        </button>
+                    ) : (
+                        <span className="w-3" />
+                    )}
+                    {getAccountLabel(account)}
+                </span>
+                <span className="font-medium text-primary">
+                    {/* Expanded parents show their own balance; sub-accounts are listed below */}
+                    {currencyFormatter.format(
+                        hasChildren && !isCollapsed
+                            ? account.balance
+                            : account.total
+                    )}
+                </span>
+            </div>
+            {hasChildren && !isCollapsed && (
+                <>
+                    {account.children.map((child) => (
+                        <AccountRow
+                            key={child.accountId}
+                            account={child}
+                            depth={depth + 1}
+                            collapsed={collapsed}
+                            onToggle={onToggle}
+                        />
+                    ))}
+                    <div
+                        className="flex justify-between items-center py-2 text-sm font-medium text-primary"
+                        style={{ paddingLeft: `${depth * 1.25 + 1.25}rem` }}
+                    >
+                        <span>Total {account.accountName}</span>
+                        <span>{currencyFormatter.format(account.total)}</span>
+                    </div>
+                </>
+            )}
+        </>
+    );
+};
 
-    const liabilities = {
-        current: [
-            { name: 'Accounts Payable', amount: 20000 },
-            { name: 'Short-term Debt', amount: 15000 },
-            { name: 'Accrued Expenses', amount: 8000 },
-        ],
-        longTerm: [
-            { name: 'Long-term Debt', amount: 50000 },
-            { name: 'Deferred Tax Liabilities', amount: 5000 },
-        ],
+type SectionProps = {
+    section: ReportSection;
+    collapsed: Set<string>;
+    onToggle: (accountId: string) => void;
+};
+
+const SubtypeSections = ({ section, collapsed, onToggle }: SectionProps) => {
+    if (section.subtypes.length === 0) {
+        return (
+            <p className="text-sm text-primary-50 py-2">No accounts to show</p>
+        );
+    }
+
+    return (
+        <>
+            {section.subtypes.map((subtype) => (
+                <div key={subtype.accountSubtype ?? 'other'}>
+                    <h4 className="font-medium text-primary mb-2">
+                        {getSubtypeLabel(subtype)}
+                    </h4>
+                    <div className="space-y-2">
+                        {subtype.accounts.map((account) => (
+                            <AccountRow
+                                key={account.accountId}
+                                account={account}
+                                depth={0}
+                                collapsed={collapsed}
+                                onToggle={onToggle}
+                            />
+                        ))}
+                        <div className="flex justify-between items-center py-2 font-semibold text-primary border-t-2 border-primary">
+                            <span>Total {getSubtypeLabel(subtype)}</span>
+                            <span>
+                                {currencyFormatter.format(subtype.total)}
+                            </span>
+                        </div>
+                    </div>
+                </div>
+            ))}
+        </>
+    );
+};
+
+const flattenSection = (
+    sectionName: string,
+    section: ReportSection
+): ExportData[] => {
+    const rows: ExportData[] = [];
+    const addAccount = (account: ReportAccountNode, depth: number) => {
+        rows.push({
+            Section: sectionName,
+            Category: '',
+            Account: `${'  '.repeat(depth)}${getAccountLabel(account)}`,
+            Amount: account.total,
+        });
+        account.children.forEach((child) => addAccount(child, depth + 1));
     };
 
-    const equity = [
-        { name: 'Common Stock', amount: 100000 },
-        { name: 'Retained Earnings', amount: 50000 },
-        { name: 'Other Equity', amount: 10000 },
-    ];
+    section.subtypes.forEach((subtype) => {
+        subtype.accounts.forEach((account) => addAccount(account, 0));
+        rows.push({
+            Section: sectionName,
+            Category: `Total ${getSubtypeLabel(subtype)}`,
+            Account: '',
+            Amount: subtype.total,
+        });
+    });
+    return rows;
+};
 
-    const totalAssets =
-        assets.current.reduce((sum, item) => sum + item.amount, 0) +
-        assets.fixed.reduce((sum, item) => sum + item.amount, 0);
-    const totalLiabilities =
-        liabilities.current.reduce((sum, item) => sum + item.amount, 0) +
-        liabilities.longTerm.reduce((sum, item) => sum + item.amount, 0);
-    const totalEquity = equity.reduce((sum, item) => sum + item.amount, 0);
+const BalanceSheetpage = () => {
+    const [asOfDate, setAsOfDate] = useState(
+        new Date().toISOString().split('T')[0]
+    );
+    const [hideZeroBalances, setHideZeroBalances] = useState(true);
+    const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
 
-    const currencyFormatter = new Intl.NumberFormat('en-US', {
-        style: 'currency',
-        currency: 'USD',
-        minimumFractionDigits: 2,
+    const { data, isLoading, error } = useBalanceSheet({
+        asOf: asOfDate || undefined,
+        hideZeroBalances,
     });
+    const balanceSheet = data?.data;
+
+    const handleToggle = (accountId: string) => {
+        setCollapsed((prev) => {
+            const next = new Set(prev);
+            if (next.has(accountId)) {
+                next.delete(accountId);
+            } else {
+                next.add(accountId);
+            }
+            return next;
+        });
+    };
+
+    const handleExport = () => {
+        if (!balanceSheet) return;
+
+        const { equity, totals } = balanceSheet;
+        exportToCSV(
+            [
+                ...flattenSection('Assets', balanceSheet.assets),
+                {
+                    Section: 'Assets',
+                    Category: 'Total Assets',
+                    Account: '',
+                    Amount: totals.totalAssets,
+                },
+                ...flattenSection('Liabilities', balanceSheet.liabilities),
+                {
+                    Section: 'Liabilities',
+                    Category: 'Total Liabilities',
+                    Account: '',
+                    Amount: totals.totalLiabilities,
+                },
+                ...flattenSection('Equity', equity),
+                {
+                    Section: 'Equity',
+                    Category: '',
+                    Account: 'Prior Years Earnings',
+                    Amount: equity.priorYearsEarnings,
+                },
+                {
+                    Section: 'Equity',
+                    Category: '',
+                    Account: 'Current Year Earnings',
+                    Amount: equity.currentYearEarnings,
+                },
+                {
+                    Section: 'Equity',
+                    Category: 'Total Equity',
+                    Account: '',
+                    Amount: totals.totalEquity,
+                },
+                {
+                    Section: '',
+                    Category: 'Total Liabilities & Equity',
+                    Account: '',
+                    Amount: totals.totalLiabilitiesAndEquity,
+                },
+            ],
+            `balance-sheet-${balanceSheet.asOf}`
+        );
+    };
 
     return (
         <div className="space-y-6">
@@ -72,7 +282,11 @@ const BalanceSheetpage = () => {
                 </div>
                 <div className="flex items-center gap-3">
                     <div className="relative">
-                        <button className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-primary bg-white border-2 border-primary-10 rounded-2 hover:border-primary hover:bg-primary-10 transition-all">
+                        <button
+                            onClick={handleExport}
+                            disabled={!balanceSheet}
+                            className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-primary bg-white border-2 border-primary-10 rounded-2 hover:border-primary hover:bg-primary-10 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
                             <FaDownload />
                             Export
                         </button>
@@ -94,241 +308,165 @@ const BalanceSheetpage = () => {
                             className="w-full px-4 py-2 border border-primary-10 rounded-2 text-sm text-primary focus:outline-none focus:border-primary"
                         />
                     </div>
-                    <div className="flex gap-2">
-                        {['Monthly', 'Quarterly', 'Yearly'].map((range) => (
-                            <button
-                                key={range}
-                                onClick={() =>
-                                    setDateRange(range.toLowerCase())
-                                }
-                                className={`px-4 py-2 text-sm font-medium rounded-2 transition-all ${
-                                    dateRange === range.toLowerCase()
-                                        ? 'bg-primary text-white'
-                                        : 'bg-primary-10 text-primary hover:bg-primary-25'
-                                }`}
-                            >
-                                {range}
-                            </button>
-                        ))}
-                    </div>
+                    <label className="flex items-center gap-2 py-2 text-sm text-primary cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={hideZeroBalances}
+                            onChange={(e) =>
+                                setHideZeroBalances(e.target.checked)
+                            }
+                            className="accent-primary"
+                        />
+                        Hide zero balances
+                    </label>
                 </div>
             </div>
 
-            {/* Summary Cards */}
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                <SummaryCard
-                    title="Total Assets"
-                    value={currencyFormatter.format(totalAssets)}
-                    icon={<FaBuilding />}
-                />
-                <SummaryCard
-                    title="Total Liabilities"
-                    value={currencyFormatter.format(totalLiabilities)}
-                    icon={<FaFileInvoiceDollar />}
-                />
-                <SummaryCard
-                    title="Total Equity"
-                    value={currencyFormatter.format(totalEquity)}
-                    icon={<FaPiggyBank />}
-                />
-            </div>
+            {isLoading ? (
+                <div className="flex items-center justify-center min-h-[400px]">
+                    <Loading />
+                </div>
+            ) : error || !balanceSheet ? (
+                <div className="flex items-center justify-center min-h-[400px]">
+                    <p className="text-red-500">Failed to load balance sheet</p>
+                </div>
+            ) : (
+                <>
+                    {/* Summary Cards */}
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                        <SummaryCard
+                            title="Total Assets"
+                            value={currencyFormatter.format(
+                                balanceSheet.totals.totalAssets
+                            )}
+                            icon={<FaBuilding />}
+                        />
+                        <SummaryCard
+                            title="Total Liabilities"
+                            value={currencyFormatter.format(
+                                balanceSheet.totals.totalLiabilities
+                            )}
+                            icon={<FaFileInvoiceDollar />}
+                        />
+                        <SummaryCard
+                            title="Total Equity"
+                            value={currencyFormatter.format(
+                                balanceSheet.totals.totalEquity
+                            )}
+                            icon={<FaPiggyBank />}
+                        />
+                    </div>
 
-            {/* Balance Sheet Sections */}
-            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-                {/* Assets */}
-                <div className="bg-white rounded-2 shadow-sm border border-primary-10 p-6">
-                    <h3 className="text-lg font-semibold text-primary mb-4">
-                        Assets
-                    </h3>
-                    <div className="space-y-4">
-                        <div>
-                            <h4 className="font-medium text-primary mb-2">
-                                Current Assets
-                            </h4>
-                            <div className="space-y-2">
-                                {assets.current.map((item, index) => (
-                                    <div
-                                        key={index}
-                                        className="flex justify-between items-center py-2 border-b border-primary-10"
-                                    >
-                                        <span className="text-primary-75">
-                                            {item.name}
-                                        </span>
-                                        <span className="font-medium text-primary">
-                                            {currencyFormatter.format(
-                                                item.amount
-                                            )}
-                                        </span>
-                                    </div>
-                                ))}
-                                <div className="flex justify-between items-center py-2 font-semibold text-primary border-t-2 border-primary">
-                                    <span>Total Current Assets</span>
+                    {/* Balance Check */}
+                    {balanceSheet.totals.isBalanced ? (
+                        <div className="flex items-center gap-2 px-4 py-3 text-sm text-green-700 bg-green-50 border border-green-200 rounded-2">
+                            <FaCheckCircle />
+                            Assets equal liabilities plus equity
+                        </div>
+                    ) : (
+                        <div className="flex items-center gap-2 px-4 py-3 text-sm text-red-700 bg-red-50 border border-red-200 rounded-2">
+                            <FaExclamationTriangle />
+                            Out of balance by{' '}
+                            {currencyFormatter.format(
+                                balanceSheet.totals.difference
+                            )}
+                        </div>
+                    )}
+
+                    {/* Balance Sheet Sections */}
+                    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                        {/* Assets */}
+                        <div className="bg-white rounded-2 shadow-sm border border-primary-10 p-6">
+                            <h3 className="text-lg font-semibold text-primary mb-4">
+                                Assets
+                            </h3>
+                            <div className="space-y-4">
+                                <SubtypeSections
+                                    section={balanceSheet.assets}
+                                    collapsed={collapsed}
+                                    onToggle={handleToggle}
+                                />
+                                <div className="flex justify-between items-center py-3 font-bold text-lg text-primary border-t-2 border-primary mt-4">
+                                    <span>Total Assets</span>
                                     <span>
                                         {currencyFormatter.format(
-                                            assets.current.reduce(
-                                                (sum, item) =>
-                                                    sum + item.amount,
-                                                0
-                                            )
+                                            balanceSheet.totals.totalAssets
                                         )}
                                     </span>
                                 </div>
                             </div>
                         </div>
-                        <div>
-                            <h4 className="font-medium text-primary mb-2">
-                                Fixed Assets
-                            </h4>
-                            <div className="space-y-2">
-                                {assets.fixed.map((item, index) => (
-                                    <div
-                                        key={index}
-                                        className="flex justify-between items-center py-2 border-b border-primary-10"
-                                    >
-                                        <span className="text-primary-75">
-                                            {item.name}
-                                        </span>
-                                        <span className="font-medium text-primary">
-                                            {currencyFormatter.format(
-                                                item.amount
-                                            )}
-                                        </span>
-                                    </div>
-                                ))}
+
+                        {/* Liabilities & Equity */}
+                        <div className="bg-white rounded-2 shadow-sm border border-primary-10 p-6">
+                            <h3 className="text-lg font-semibold text-primary mb-4">
+                                Liabilities & Equity
+                            </h3>
+                            <div className="space-y-4">
+                                <SubtypeSections
+                                    section={balanceSheet.liabilities}
+                                    collapsed={collapsed}
+                                    onToggle={handleToggle}
+                                />
                                 <div className="flex justify-between items-center py-2 font-semibold text-primary border-t-2 border-primary">
-                                    <span>Total Fixed Assets</span>
+                                    <span>Total Liabilities</span>
                                     <span>
                                         {currencyFormatter.format(
-                                            assets.fixed.reduce(
-                                                (sum, item) =>
-                                                    sum + item.amount,
-                                                0
-                                            )
+                                            balanceSheet.totals.totalLiabilities
                                         )}
                                     </span>
                                 </div>
-                            </div>
-                        </div>
-                        <div className="flex justify-between items-center py-3 font-bold text-lg text-primary border-t-2 border-primary mt-4">
-                            <span>Total Assets</span>
-                            <span>{currencyFormatter.format(totalAssets)}</span>
-                        </div>
-                    </div>
-                </div>
-
-                {/* Liabilities & Equity */}
-                <div className="bg-white rounded-2 shadow-sm border border-primary-10 p-6">
-                    <h3 className="text-lg font-semibold text-primary mb-4">
-                        Liabilities & Equity
-                    </h3>
-                    <div className="space-y-4">
-                        <div>
-                            <h4 className="font-medium text-primary mb-2">
-                                Current Liabilities
-                            </h4>
-                            <div className="space-y-2">
-                                {liabilities.current.map((item, index) => (
-                                    <div
-                                        key={index}
-                                        className="flex justify-between items-center py-2 border-b border-primary-10"
-                                    >
+                                <SubtypeSections
+                                    section={balanceSheet.equity}
+                                    collapsed={collapsed}
+                                    onToggle={handleToggle}
+                                />
+                                <div className="space-y-2">
+                                    <div className="flex justify-between items-center py-2 border-b border-primary-10">
                                         <span className="text-primary-75">
-                                            {item.name}
+                                            Prior Years Earnings
                                         </span>
                                         <span className="font-medium text-primary">
                                             {currencyFormatter.format(
-                                                item.amount
+                                                balanceSheet.equity
+                                                    .priorYearsEarnings
                                             )}
                                         </span>
                                     </div>
-                                ))}
-                                <div className="flex justify-between items-center py-2 font-semibold text-primary border-t-2 border-primary">
-                                    <span>Total Current Liabilities</span>
-                                    <span>
-                                        {currencyFormatter.format(
-                                            liabilities.current.reduce(
-                                                (sum, item) =>
-                                                    sum + item.amount,
-                                                0
-                                            )
-                                        )}
-                                    </span>
-                                </div>
-                            </div>
-                        </div>
-                        <div>
-                            <h4 className="font-medium text-primary mb-2">
-                                Long-term Liabilities
-                            </h4>
-                            <div className="space-y-2">
-                                {liabilities.longTerm.map((item, index) => (
-                                    <div
-                                        key={index}
-                                        className="flex justify-between items-center py-2 border-b border-primary-10"
-                                    >
+                                    <div className="flex justify-between items-center py-2 border-b border-primary-10">
                                         <span className="text-primary-75">
-                                            {item.name}
+                                            Current Year Earnings
                                         </span>
                                         <span className="font-medium text-primary">
                                             {currencyFormatter.format(
-                                                item.amount
+                                                balanceSheet.equity
+                                                    .currentYearEarnings
                                             )}
                                         </span>
                                     </div>
-                                ))}
-                                <div className="flex justify-between items-center py-2 font-semibold text-primary border-t-2 border-primary">
-                                    <span>Total Long-term Liabilities</span>
-                                    <span>
-                                        {currencyFormatter.format(
-                                            liabilities.longTerm.reduce(
-                                                (sum, item) =>
-                                                    sum + item.amount,
-                                                0
-                                            )
-                                        )}
-                                    </span>
-                                </div>
-                            </div>
-                        </div>
-                        <div>
-                            <h4 className="font-medium text-primary mb-2">
-                                Equity
-                            </h4>
-                            <div className="space-y-2">
-                                {equity.map((item, index) => (
-                                    <div
-                                        key={index}
-                                        className="flex justify-between items-center py-2 border-b border-primary-10"
-                                    >
-                                        <span className="text-primary-75">
-                                            {item.name}
-                                        </span>
-                                        <span className="font-medium text-primary">
+                                    <div className="flex justify-between items-center py-2 font-semibold text-primary border-t-2 border-primary">
+                                        <span>Total Equity</span>
+                                        <span>
                                             {currencyFormatter.format(
-                                                item.amount
+                                                balanceSheet.totals.totalEquity
                                             )}
                                         </span>
                                     </div>
-                                ))}
-                                <div className="flex justify-between items-center py-2 font-semibold text-primary border-t-2 border-primary">
-                                    <span>Total Equity</span>
+                                </div>
+                                <div className="flex justify-between items-center py-3 font-bold text-lg text-primary border-t-2 border-primary mt-4">
+                                    <span>Total Liabilities & Equity</span>
                                     <span>
-                                        {currencyFormatter.format(totalEquity)}
+                                        {currencyFormatter.format(
+                                            balanceSheet.totals
+                                                .totalLiabilitiesAndEquity
+                                        )}
                                     </span>
                                 </div>
                             </div>
                         </div>
-                        <div className="flex justify-between items-center py-3 font-bold text-lg text-primary border-t-2 border-primary mt-4">
-                            <span>Total Liabilities & Equity</span>
-                            <span>
-                                {currencyFormatter.format(
-                                    totalLiabilities + totalEquity
-                                )}
-                            </span>
-                        </div>
                     </div>
-                </div>
-            </div>
+                </>
+            )}
         </div>
     );
 };
@@ -0,0 +1,299 @@
+import { useState } from 'react';
+import { FaFileAlt, FaPlus, FaUndo } from 'react-icons/fa';
+import ReconciliationReportPopup from '../../components/bankReconciliation/ReconciliationReportPopup';
+import ReconciliationWorkspace from '../../components/bankReconciliation/ReconciliationWorkspace';
+import StatementPopup from '../../components/bankReconciliation/StatementPopup';
+import ConfirmationDialog from '../../components/shared/ConfirmationDialog';
+import Loading from '../../components/shared/Loading';
+import Button from '../../components/typography/Button';
+import { useBankAccounts } from '../../services/apis/accountApi';
+import {
+    useBankReconciliations,
+    useUndoBankReconciliation,
+} from '../../services/apis/bankReconciliationApi';
+import type {
+    BankReconciliation,
+    BankReconciliationStatus,
+} from '../../types/bankReconciliation';
+
+const STATUS_CONFIG: Record<
+    BankReconciliationStatus,
+    { label: string; className: string }
+> = {
+    in_progress: {
+        label: 'In progress',
+        className: 'bg-yellow-100 text-yellow-700',
+    },
+    completed: {
+        label: 'Completed',
+        className: 'bg-green-100 text-green-700',
+    },
+    undone: {
+        label: 'Undone',
+        className: 'bg-gray-100 text-gray-600',
+    },
+};
+
+const BankReconciliationpage = () => {
+    const [selectedAccountId, setSelectedAccountId] = useState('');
+    const [showStartPopup, setShowStartPopup] = useState(false);
+    const [reportId, setReportId] = useState<string | undefined>(undefined);
+    const [undoReconciliation, setUndoReconciliation] =
+        useState<BankReconciliation | null>(null);
+
+    const { data: bankAccountsData, isLoading: isAccountsLoading } =
+        useBankAccounts({ isActive: true, limit: 100 });
+    const bankAccounts = bankAccountsData?.data?.items ?? [];
+    const accountId = selectedAccountId || bankAccounts[0]?.id || '';
+
+    const { data, isLoading, error } = useBankReconciliations({
+        accountId: accountId || undefined,
+        limit: 100,
+    });
+    const undoMutation = useUndoBankReconciliation();
+
+    // Most recent statement first
+    const reconciliations = accountId ? (data?.data?.items ?? []) : [];
+    const inProgress = reconciliations.find(
+        (reconciliation) => reconciliation.status === 'in_progress'
+    );
+    // Only the latest completed reconciliation can be undone, and not while
+    // a newer one is in progress
+    const undoableId = inProgress
+        ? undefined
+        : reconciliations.find(
+              (reconciliation) => reconciliation.status === 'completed'
+          )?.id;
+
+    const handleUndo = async () => {
+        if (!undoReconciliation) return;
+
+        try {
+            await undoMutation.mutateAsync(undoReconciliation.id);
+            setUndoReconciliation(null);
+        } catch {
+            // Error toast is shown by the mutation
+        }
+    };
+
+    const actionButtonClass =
+        'p-2 text-primary hover:bg-primary-10 rounded transition-colors';
+
+    return (
+        <div className="space-y-6">
+            {/* Header */}
+            <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+                <div>
+                    <h2 className="text-2xl font-bold text-primary">
+                        Bank Reconciliation
+                    </h2>
+                    <p className="text-sm text-primary-50 mt-1">
+                        Match the transactions of a bank account with its
+                        statement
+                    </p>
+                </div>
+                <div className="flex items-center gap-3">
+                    <select
+                        value={accountId}
+                        onChange={(e) => setSelectedAccountId(e.target.value)}
+                        disabled={bankAccounts.length === 0}
+                        className="px-4 py-2 border border-primary-10 rounded-2 text-sm text-primary focus:outline-none focus:border-primary"
+                    >
+                        {bankAccounts.map((account) => (
+                            <option key={account.id} value={account.id}>
+                                {account.name} · {account.currencyCode}
+                            </option>
+                        ))}
+                    </select>
+                    <Button
+                        variant="primary"
+                        onClick={() => setShowStartPopup(true)}
+                        disabled={!accountId || !!inProgress}
+                    >
+                        <FaPlus className="w-3 h-3" />
+                        Start Reconciliation
+                    </Button>
+                </div>
+            </div>
+
+            {/* Reconciliation in progress */}
+            {inProgress && (
+                <div className="bg-white rounded-2 shadow-sm border border-primary-10 p-6">
+                    <ReconciliationWorkspace
+                        key={inProgress.id}
+                        reconciliation={inProgress}
+                        onFinalized={(reconciliation) =>
+                            setReportId(reconciliation.id)
+                        }
+                    />
+                </div>
+            )}
+
+            {/* History */}
+            <div className="bg-white rounded-2 shadow-sm border border-primary-10 p-6">
+                <h3 className="text-lg font-semibold text-primary mb-4">
+                    Reconciliations
+                </h3>
+                {isAccountsLoading || isLoading ? (
+                    <div className="flex items-center justify-center min-h-[200px]">
+                        <Loading />
+                    </div>
+                ) : bankAccounts.length === 0 ? (
+                    <div className="flex items-center justify-center min-h-[200px]">
+                        <p className="text-primary-50">
+                            Add a bank account to reconcile it
+                        </p>
+                    </div>
+                ) : error ? (
+                    <div className="flex items-center justify-center min-h-[200px]">
+                        <p className="text-red-500">
+                            Failed to load reconciliations
+                        </p>
+                    </div>
+                ) : reconciliations.length === 0 ? (
+                    <div className="flex items-center justify-center min-h-[200px]">
+                        <p className="text-primary-50">
+                            This account has not been reconciled yet
+                        </p>
+                    </div>
+                ) : (
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-sm">
+                            <thead>
+                                <tr className="bg-gray-50 border-b border-gray-200">
+                                    <th className="text-left py-3 px-4 font-semibold text-primary">
+                                        Statement Date
+                                    </th>
+                                    <th className="text-right py-3 px-4 font-semibold text-primary">
+                                        Opening Balance
+                                    </th>
+                                    <th className="text-right py-3 px-4 font-semibold text-primary">
+                                        Ending Balance
+                                    </th>
+                                    <th className="text-left py-3 px-4 font-semibold text-primary">
+                                        Status
+                                    </th>
+                                    <th className="text-left py-3 px-4 font-semibold text-primary">
+                                        Completed
+                                    </th>
+                                    <th className="text-right py-3 px-4 font-semibold text-primary">
+                                        Actions
+                                    </th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {reconciliations.map((reconciliation) => {
+                                    const formatAmount = (amount: number) =>
+                                        new Intl.NumberFormat('en-US', {
+                                            style: 'currency',
+                                            currency:
+                                                reconciliation.account
+                                                    ?.currencyCode || 'USD',
+                                            minimumFractionDigits: 2,
+                                        }).format(amount);
+                                    const status =
+                                        STATUS_CONFIG[reconciliation.status];
+
+                                    return (
+                                        <tr
+                                            key={reconciliation.id}
+                                            className="border-b border-gray-200 hover:bg-gray-50"
+                                        >
+                                            <td className="py-3 px-4 font-medium text-primary">
+                                                {reconciliation.statementDate.slice(
+                                                    0,
+                                                    10
+                                                )}
+                                            </td>
+                                            <td className="py-3 px-4 text-right text-primary-75">
+                                                {formatAmount(
+                                                    reconciliation.openingBalance
+                                                )}
+                                            </td>
+                                            <td className="py-3 px-4 text-right text-primary-75">
+                                                {formatAmount(
+                                                    reconciliation.statementEndingBalance
+                                                )}
+                                            </td>
+                                            <td className="py-3 px-4">
+                                                <span
+                                                    className={`px-2 py-1 rounded text-xs font-medium ${status.className}`}
+                                                >
+                                                    {status.label}
+                                                </span>
+                                            </td>
+                                            <td className="py-3 px-4 text-primary-75">
+                                                {reconciliation.completedAt
+                                                    ? new Date(
+                                                          reconciliation.completedAt
+                                                      ).toLocaleDateString()
+                                                    : '-'}
+                                            </td>
+                                            <td className="py-3 px-4">
+                                                <div className="flex items-center justify-end gap-1">
+                                                    {reconciliation.status !==
+                                                        'in_progress' && (
+                                                        <button
+                                                            onClick={() =>
+                                                                setReportId(
+                                                                    reconciliation.id
+                                                                )
+                                                            }
+                                                            className={
+                                                                actionButtonClass
+                                                            }
+                                                            title="Report"
+                                                        >
+                                                            <FaFileAlt className="w-4 h-4" />
+                                                        </button>
+                                                    )}
+                                                    {reconciliation.id ===
+                                                        undoableId && (
+                                                        <button
+                                                            onClick={() =>
+                                                                setUndoReconciliation(
+                                                                    reconciliation
+                                                                )
+                                                            }
+                                                            className="p-2 text-red-500 hover:bg-red-50 rounded transition-colors"
+                                                            title="Undo"
+                                                        >
+                                                            <FaUndo className="w-4 h-4" />
+                                                        </button>
+                                                    )}
+                                                </div>
+                                            </td>
+                                        </tr>
+                                    );
+                                })}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+            </div>
+
+            <StatementPopup
+                isOpen={showStartPopup}
+                accountId={accountId}
+                reconciliation={null}
+                onClose={() => setShowStartPopup(false)}
+            />
+            <ReconciliationReportPopup
+                reconciliationId={reportId}
+                onClose={() => setReportId(undefined)}
+            />
+            <ConfirmationDialog
+                isOpen={!!undoReconciliation}
+                onClose={() => setUndoReconciliation(null)}
+                onConfirm={handleUndo}
+                title="Undo Reconciliation"
+                message={`Are you sure you want to undo the reconciliation of ${undoReconciliation?.statementDate.slice(0, 10)}? Its transactions will be unticked and can be reconciled again.`}
+                confirmText="Undo"
+                confirmVariant="danger"
+                loading={undoMutation.isPending}
+            />
+        </div>
+    );
+};
+
+export default BankReconciliationpage;
@@ -0,0 +1,313 @@
+import { Fragment, useState } from 'react';
+import { useSearchParams } from 'react-router';
+import Loading from '../../components/shared/Loading';
+import { useBudgets } from '../../services/apis/budgetApi';
+import { useBudgetVsActual } from '../../services/apis/reportsApi';
+import type {
+    BudgetVsActualAmount,
+    BudgetVsActualSection,
+} from '../../types/reports';
+import { getCurrentBudget } from '../../utills/budget';
+
+const SECTION_LABELS: Record<string, string> = {
+    revenue: 'Revenue',
+    expense: 'Expenses',
+};
+
+const formatNumber = (num: number) => {
+    return num.toLocaleString(undefined, {
+        minimumFractionDigits: 2,
+        maximumFractionDigits: 2,
+    });
+};
+
+const formatPercent = (num: number | null) =>
+    num === null ? '—' : `${formatNumber(num)}%`;
+
+/**
+ * Whether a variance is good news: more revenue or less expense than
+ * budgeted
+ */
+const isFavorable = (accountType: string, variance: number) =>
+    accountType === 'expense' ? variance < 0 : variance > 0;
+
+const BudgetVsActualpage = () => {
+    const [searchParams, setSearchParams] = useSearchParams();
+    // Month index shown, or the whole fiscal year when null
+    const [monthIndex, setMonthIndex] = useState<number | null>(null);
+
+    const { data: budgetsData, isLoading: isBudgetsLoading } = useBudgets({
+        limit: 100,
+        sort: 'name',
+        order: 'asc',
+    });
+    const budgets = budgetsData?.data?.items ?? [];
+    // Budget lives in the URL so the budgets page can link to its report
+    const budgetId =
+        searchParams.get('budgetId') ?? getCurrentBudget(budgets)?.id;
+
+    const { data, isLoading, error } = useBudgetVsActual(budgetId);
+    const report = data?.data;
+
+    const pickAmount = (
+        months: BudgetVsActualAmount[],
+        total: BudgetVsActualAmount
+    ) => (monthIndex === null ? total : (months[monthIndex] ?? total));
+
+    const renderAmounts = (
+        amount: BudgetVsActualAmount,
+        accountType: string,
+        className = ''
+    ) => (
+        <>
+            <td className={`text-right py-3 px-4 ${className}`}>
+                {formatNumber(amount.budget)}
+            </td>
+            <td className={`text-right py-3 px-4 ${className}`}>
+                {formatNumber(amount.actual)}
+            </td>
+            <td
+                className={`text-right py-3 px-4 ${className} ${
+                    amount.variance === 0
+                        ? ''
+                        : isFavorable(accountType, amount.variance)
+                          ? 'text-green-600'
+                          : 'text-red-500'
+                }`}
+            >
+                {formatNumber(amount.variance)}
+            </td>
+            <td className={`text-right py-3 px-4 ${className}`}>
+                {formatPercent(amount.variancePercent)}
+            </td>
+        </>
+    );
+
+    const renderSection = (section: BudgetVsActualSection) => (
+        <Fragment key={section.accountType}>
+            <tr className="bg-gray-50 border-b border-gray-200">
+                <td
+                    colSpan={5}
+                    className="py-2 px-4 font-semibold text-primary"
+                >
+                    {SECTION_LABELS[section.accountType] ?? section.accountType}
+                </td>
+            </tr>
+            {section.accounts.length === 0 ? (
+                <tr className="border-b border-gray-100">
+                    <td colSpan={5} className="py-3 px-4 pl-8 text-primary-50">
+                        No accounts
+                    </td>
+                </tr>
+            ) : (
+                section.accounts.map((account) => (
+                    <tr
+                        key={account.accountId}
+                        className="border-b border-gray-100 hover:bg-gray-50"
+                    >
+                        <td className="py-3 px-4 pl-8 text-primary-75">
+                            {account.accountNumber
+                                ? `${account.accountNumber} · `
+                                : ''}
+                            {account.accountName}
+                        </td>
+                        {renderAmounts(
+                            pickAmount(account.months, account.total),
+                            section.accountType,
+                            'text-primary-75'
+                        )}
+                    </tr>
+                ))
+            )}
+            <tr className="border-b border-gray-200">
+                <td className="py-3 px-4 font-medium text-primary">
+                    Total{' '}
+                    {(
+                        SECTION_LABELS[section.accountType] ??
+                        section.accountType
+                    ).toLowerCase()}
+                </td>
+                {renderAmounts(
+                    pickAmount(section.months, section.total),
+                    section.accountType,
+                    'font-medium text-primary'
+                )}
+            </tr>
+        </Fragment>
+    );
+
+    const summary = report
+        ? monthIndex === null
+            ? report.summary.total
+            : (report.summary.months[monthIndex] ?? report.summary.total)
+        : undefined;
+
+    return (
+        <div className="space-y-6">
+            {/* Header */}
+            <div>
+                <h2 className="text-2xl font-bold text-primary">
+                    Budget vs Actual
+                </h2>
+                <p className="text-sm text-primary-50 mt-1">
+                    Compare budgeted revenue and expenses with posted amounts
+                    {report &&
+                        ` · ${report.period.startDate} to ${report.period.endDate}`}
+                </p>
+            </div>
+
+            {/* Filters */}
+            <div className="bg-white rounded-2 shadow-sm border border-primary-10 p-4">
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                    <div>
+                        <label className="block text-sm font-medium text-primary mb-2">
+                            Budget
+                        </label>
+                        <select
+                            value={budgetId ?? ''}
+                            onChange={(e) => {
+                                setSearchParams({ budgetId: e.target.value });
+                                setMonthIndex(null);
+                            }}
+                            className="w-full px-4 py-2 border border-primary-10 rounded-2 text-sm text-primary focus:outline-none focus:border-primary"
+                        >
+                            {budgets.map((budget) => (
+                                <option key={budget.id} value={budget.id}>
+                                    {budget.name}
+                                    {budget.fiscalYear &&
+                                        ` · ${budget.fiscalYear.name}`}
+                                </option>
+                            ))}
+                        </select>
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-primary mb-2">
+                            Period
+                        </label>
+                        <select
+                            value={monthIndex ?? ''}
+                            onChange={(e) =>
+                                setMonthIndex(
+                                    e.target.value === ''
+                                        ? null
+                                        : Number(e.target.value)
+                                )
+                            }
+                            className="w-full px-4 py-2 border border-primary-10 rounded-2 text-sm text-primary focus:outline-none focus:border-primary"
+                        >
+                            <option value="">Whole fiscal year</option>
+                            {(report?.months ?? []).map((month, index) => (
+                                <option key={month.month} value={index}>
+                                    {month.label}
+                                </option>
+                            ))}
+                        </select>
+                    </div>
+                </div>
+            </div>
+
+            {/* Summary */}
+            {summary && (
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                    <div className="bg-white rounded-2 shadow-sm border border-primary-10 p-4">
+                        <p className="text-sm text-primary-50">Net income</p>
+                        <p className="text-xl font-bold text-primary">
+                            {formatNumber(summary.netIncome.actual)}
+                        </p>
+                        <p className="text-xs text-primary-50">
+                            Budget {formatNumber(summary.netIncome.budget)}
+                        </p>
+                    </div>
+                    <div className="bg-white rounded-2 shadow-sm border border-primary-10 p-4">
+                        <p className="text-sm text-primary-50">Profit margin</p>
+                        <p className="text-xl font-bold text-primary">
+                            {formatPercent(summary.actualProfitMargin)}
+                        </p>
+                        <p className="text-xs text-primary-50">
+                            Budget {formatPercent(summary.budgetProfitMargin)}
+                        </p>
+                    </div>
+                    <div className="bg-white rounded-2 shadow-sm border border-primary-10 p-4">
+                        <p className="text-sm text-primary-50">
+                            Net income variance
+                        </p>
+                        <p
+                            className={`text-xl font-bold ${
+                                summary.netIncome.variance < 0
+                                    ? 'text-red-500'
+                                    : 'text-green-600'
+                            }`}
+                        >
+                            {formatNumber(summary.netIncome.variance)}
+                        </p>
+                        <p className="text-xs text-primary-50">
+                            {formatPercent(summary.netIncome.variancePercent)}
+                        </p>
+                    </div>
+                </div>
+            )}
+
+            {/* Report */}
+            <div className="bg-white rounded-2 shadow-sm border border-primary-10 p-6">
+                {isBudgetsLoading || isLoading ? (
+                    <div className="flex items-center justify-center min-h-[300px]">
+                        <Loading />
+                    </div>
+                ) : !budgetId ? (
+                    <div className="flex items-center justify-center min-h-[300px]">
+                        <p className="text-primary-50">
+                            Create a budget to compare it with the actuals
+                        </p>
+                    </div>
+                ) : error || !report ? (
+                    <div className="flex items-center justify-center min-h-[300px]">
+                        <p className="text-red-500">
+                            Failed to load budget vs actual report
+                        </p>
+                    </div>
+                ) : (
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-sm">
+                            <thead>
+                                <tr className="bg-gray-50 border-b border-gray-200">
+                                    <th className="text-left py-3 px-4 font-semibold text-primary">
+                                        Account
+                                    </th>
+                                    <th className="text-right py-3 px-4 font-semibold text-primary">
+                                        Budget
+                                    </th>
+                                    <th className="text-right py-3 px-4 font-semibold text-primary">
+                                        Actual
+                                    </th>
+                                    <th className="text-right py-3 px-4 font-semibold text-primary">
+                                        Variance
+                                    </th>
+                                    <th className="text-right py-3 px-4 font-semibold text-primary">
+                                        Variance %
+                                    </th>
+                                </tr>
+                            </thead>
+                            <tbody>{report.sections.map(renderSection)}</tbody>
+                            {summary && (
+                                <tfoot>
+                                    <tr className="border-t-2 border-primary bg-primary-10">
+                                        <td className="py-3 px-4 font-bold text-primary">
+                                            Net income
+                                        </td>
+                                        {renderAmounts(
+                                            summary.netIncome,
+                                            'revenue',
+                                            'font-bold'
+                                        )}
+                                    </tr>
+                                </tfoot>
+                            )}
+                        </table>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default BudgetVsActualpage;
@@ -0,0 +1,345 @@
+import { useState } from 'react';
+import {
+    FaChartLine,
+    FaCopy,
+    FaEdit,
+    FaFileExport,
+    FaFileImport,
+    FaPercent,
+    FaPlus,
+    FaTrash,
+} from 'react-icons/fa';
+import { useNavigate } from 'react-router';
+import BudgetGrowthPopup, {
+    type BudgetGrowthMode,
+} from '../../components/budgets/BudgetGrowthPopup';
+import BudgetLinesEditor from '../../components/budgets/BudgetLinesEditor';
+import BudgetPopup from '../../components/budgets/BudgetPopup';
+import ImportBudgetPopup from '../../components/budgets/ImportBudgetPopup';
+import ConfirmationDialog from '../../components/shared/ConfirmationDialog';
+import Loading from '../../components/shared/Loading';
+import Button from '../../components/typography/Button';
+import {
+    downloadBudgetFile,
+    useBudget,
+    useBudgets,
+    useDeleteBudget,
+} from '../../services/apis/budgetApi';
+import { useFiscalYears } from '../../services/apis/fiscalYearApi';
+import type { Budget } from '../../types/budget';
+import { showErrorToast } from '../../utills/toast';
+
+const Budgetspage = () => {
+    const navigate = useNavigate();
+    const [fiscalYearId, setFiscalYearId] = useState('');
+    const [selectedBudgetId, setSelectedBudgetId] = useState<string | null>(
+        null
+    );
+    const [showBudgetPopup, setShowBudgetPopup] = useState(false);
+    const [editingBudget, setEditingBudget] = useState<Budget | null>(null);
+    const [growthAction, setGrowthAction] = useState<{
+        budget: Budget;
+        mode: BudgetGrowthMode;
+    } | null>(null);
+    const [importBudget, setImportBudget] = useState<Budget | null>(null);
+    const [deleteBudget, setDeleteBudget] = useState<Budget | null>(null);
+
+    const { data: fiscalYearsData } = useFiscalYears(1, 100);
+    const { data, isLoading, error } = useBudgets({
+        fiscalYearId: fiscalYearId || undefined,
+        limit: 100,
+        sort: 'name',
+        order: 'asc',
+    });
+    const deleteMutation = useDeleteBudget();
+
+    const fiscalYears = fiscalYearsData?.data?.items ?? [];
+    const budgets = data?.data?.items ?? [];
+    // Keep the first budget open until another one is picked
+    const activeBudgetId = budgets.some(
+        (budget) => budget.id === selectedBudgetId
+    )
+        ? selectedBudgetId
+        : (budgets[0]?.id ?? null);
+    const { data: budgetData, isLoading: isBudgetLoading } = useBudget(
+        activeBudgetId ?? undefined
+    );
+    const activeBudget =
+        budgetData?.data?.id === activeBudgetId ? budgetData?.data : undefined;
+
+    const handleOpenCreate = () => {
+        setEditingBudget(null);
+        setShowBudgetPopup(true);
+    };
+
+    const handleOpenEdit = (budget: Budget) => {
+        setEditingBudget(budget);
+        setShowBudgetPopup(true);
+    };
+
+    const handleExport = (budget: Budget) => {
+        downloadBudgetFile(budget.id, budget.name).catch((exportError) => {
+            console.error('Budget export error:', exportError);
+            showErrorToast('Failed to export budget');
+        });
+    };
+
+    const handleDelete = async () => {
+        if (!deleteBudget) return;
+
+        try {
+            await deleteMutation.mutateAsync(deleteBudget.id);
+            setDeleteBudget(null);
+        } catch {
+            // Error toast is shown by the mutation
+        }
+    };
+
+    const actionButtonClass =
+        'p-2 text-primary hover:bg-primary-10 rounded transition-colors';
+
+    return (
+        <div className="space-y-6">
+            {/* Header */}
+            <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+                <div>
+                    <h2 className="text-2xl font-bold text-primary">Budgets</h2>
+                    <p className="text-sm text-primary-50 mt-1">
+                        Plan revenue and expenses per account and month of a
+                        fiscal year
+                    </p>
+                </div>
+                <div className="flex items-center gap-3">
+                    <select
+                        value={fiscalYearId}
+                        onChange={(e) => setFiscalYearId(e.target.value)}
+                        className="px-4 py-2 border border-primary-10 rounded-2 text-sm text-primary focus:outline-none focus:border-primary"
+                    >
+                        <option value="">All fiscal years</option>
+                        {fiscalYears.map((fiscalYear) => (
+                            <option key={fiscalYear.id} value={fiscalYear.id}>
+                                {fiscalYear.name}
+                            </option>
+                        ))}
+                    </select>
+                    <Button variant="primary" onClick={handleOpenCreate}>
+                        <FaPlus className="w-3 h-3" />
+                        New Budget
+                    </Button>
+                </div>
+            </div>
+
+            {/* Budgets */}
+            <div className="bg-white rounded-2 shadow-sm border border-primary-10 p-6">
+                {isLoading ? (
+                    <div className="flex items-center justify-center min-h-[200px]">
+                        <Loading />
+                    </div>
+                ) : error ? (
+                    <div className="flex items-center justify-center min-h-[200px]">
+                        <p className="text-red-500">Failed to load budgets</p>
+                    </div>
+                ) : budgets.length === 0 ? (
+                    <div className="flex flex-col items-center justify-center gap-2 min-h-[200px]">
+                        <p className="text-primary-50">No budgets yet</p>
+                        <Button variant="outline" onClick={handleOpenCreate}>
+                            Create a budget
+                        </Button>
+                    </div>
+                ) : (
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-sm">
+                            <thead>
+                                <tr className="bg-gray-50 border-b border-gray-200">
+                                    <th className="text-left py-3 px-4 font-semibold text-primary">
+                                        Name
+                                    </th>
+                                    <th className="text-left py-3 px-4 font-semibold text-primary">
+                                        Fiscal Year
+                                    </th>
+                                    <th className="text-left py-3 px-4 font-semibold text-primary">
+                                        Description
+                                    </th>
+                                    <th className="text-right py-3 px-4 font-semibold text-primary">
+                                        Actions
+                                    </th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {budgets.map((budget) => (
+                                    <tr
+                                        key={budget.id}
+                                        onClick={() =>
+                                            setSelectedBudgetId(budget.id)
+                                        }
+                                        className={`border-b border-gray-200 cursor-pointer ${
+                                            budget.id === activeBudgetId
+                                                ? 'bg-primary-10'
+                                                : 'hover:bg-gray-50'
+                                        }`}
+                                    >
+                                        <td className="py-3 px-4 font-medium text-primary">
+                                            {budget.name}
+                                        </td>
+                                        <td className="py-3 px-4 text-primary-75">
+                                            {budget.fiscalYear?.name ?? '-'}
+                                        </td>
+                                        <td className="py-3 px-4 text-primary-75">
+                                            {budget.description ?? '-'}
+                                        </td>
+                                        <td
+                                            className="py-3 px-4"
+                                            onClick={(e) => e.stopPropagation()}
+                                        >
+                                            <div className="flex items-center justify-end gap-1">
+                                                <button
+                                                    onClick={() =>
+                                                        navigate(
+                                                            `/reports/budget-vs-actual?budgetId=${budget.id}`
+                                                        )
+                                                    }
+                                                    className={
+                                                        actionButtonClass
+                                                    }
+                                                    title="Budget vs actual"
+                                                >
+                                                    <FaChartLine className="w-4 h-4" />
+                                                </button>
+                                                <button
+                                                    onClick={() =>
+                                                        setGrowthAction({
+                                                            budget,
+                                                            mode: 'copy-actuals',
+                                                        })
+                                                    }
+                                                    className={
+                                                        actionButtonClass
+                                                    }
+                                                    title="Copy last year's actuals"
+                                                >
+                                                    <FaCopy className="w-4 h-4" />
+                                                </button>
+                                                <button
+                                                    onClick={() =>
+                                                        setGrowthAction({
+                                                            budget,
+                                                            mode: 'apply-growth',
+                                                        })
+                                                    }
+                                                    className={
+                                                        actionButtonClass
+                                                    }
+                                                    title="Apply growth"
+                                                >
+                                                    <FaPercent className="w-4 h-4" />
+                                                </button>
+                                                <button
+                                                    onClick={() =>
+                                                        setImportBudget(budget)
+                                                    }
+                                                    className={
+                                                        actionButtonClass
+                                                    }
+                                                    title="Import"
+                                                >
+                                                    <FaFileImport className="w-4 h-4" />
+                                                </button>
+                                                <button
+                                                    onClick={() =>
+                                                        handleExport(budget)
+                                                    }
+                                                    className={
+                                                        actionButtonClass
+                                                    }
+                                                    title="Export"
+                                                >
+                                                    <FaFileExport className="w-4 h-4" />
+                                                </button>
+                                                <button
+                                                    onClick={() =>
+                                                        handleOpenEdit(budget)
+                                                    }
+                                                    className={
+                                                        actionButtonClass
+                                                    }
+                                                    title="Edit"
+                                                >
+                                                    <FaEdit className="w-4 h-4" />
+                                                </button>
+                                                <button
+                                                    onClick={() =>
+                                                        setDeleteBudget(budget)
+                                                    }
+                                                    className="p-2 text-red-500 hover:bg-red-50 rounded transition-colors"
+                                                    title="Delete"
+                                                >
+                                                    <FaTrash className="w-4 h-4" />
+                                                </button>
+                                            </div>
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+            </div>
+
+            {/* Monthly amounts */}
+            {activeBudgetId && (
+                <div className="bg-white rounded-2 shadow-sm border border-primary-10 p-6">
+                    {isBudgetLoading || !activeBudget ? (
+                        <div className="flex items-center justify-center min-h-[200px]">
+                            <Loading />
+                        </div>
+                    ) : (
+                        <>
+                            <h3 className="text-lg font-semibold text-primary mb-4">
+                                {activeBudget.name}
+                                {activeBudget.fiscalYear &&
+                                    ` · ${activeBudget.fiscalYear.name}`}
+                            </h3>
+                            {/* Remount on every saved change so the editor starts from the saved amounts */}
+                            <BudgetLinesEditor
+                                key={`${activeBudget.id}-${activeBudget.updatedAt}`}
+                                budget={activeBudget}
+                            />
+                        </>
+                    )}
+                </div>
+            )}
+
+            <BudgetPopup
+                key={editingBudget?.id ?? 'new'}
+                isOpen={showBudgetPopup}
+                budget={editingBudget}
+                onClose={() => {
+                    setShowBudgetPopup(false);
+                    setEditingBudget(null);
+                }}
+                onCreated={(budget) => setSelectedBudgetId(budget.id)}
+            />
+            <BudgetGrowthPopup
+                budget={growthAction?.budget ?? null}
+                mode={growthAction?.mode ?? 'apply-growth'}
+                onClose={() => setGrowthAction(null)}
+            />
+            <ImportBudgetPopup
+                budget={importBudget}
+                onClose={() => setImportBudget(null)}
+            />
+            <ConfirmationDialog
+                isOpen={!!deleteBudget}
+                onClose={() => setDeleteBudget(null)}
+                onConfirm={handleDelete}
+                title="Delete Budget"
+                message={`Are you sure you want to delete "${deleteBudget?.name}"? Its amounts will be removed.`}
+                confirmText="Delete"
+                confirmVariant="danger"
+                loading={deleteMutation.isPending}
+            />
+        </div>
+    );
+};
+
+export default Budgetspage;
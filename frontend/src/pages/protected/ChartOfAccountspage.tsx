@@ -6,8 +6,12 @@ import {
     FaFilter,
     FaPlus,
     FaSearch,
+    FaFileImport,
+    FaObjectGroup,
     FaTrash,
 } from 'react-icons/fa';
+import ImportChartOfAccountsPopup from '../../components/chartOfAccounts/ImportChartOfAccountsPopup';
+import MergeChartOfAccountPopup from '../../components/chartOfAccounts/MergeChartOfAccountPopup';
 import Button from '../../components/typography/Button';
 import ConfirmationDialog from '../../components/shared/ConfirmationDialog';
 import Popup from '../../components/shared/Popup';
@@ -71,12 +75,16 @@ const ChartOfAccountspage = () => {
     const [searchQuery, setSearchQuery] = useState('');
     const [selectedType, setSelectedType] = useState<AccountType | 'all'>('all');
     const [showAddModal, setShowAddModal] = useState(false);
+    const [showImportModal, setShowImportModal] = useState(false);
     const [editingAccount, setEditingAccount] = useState<ChartOfAccount | null>(
         null
     );
     const [deleteAccount, setDeleteAccount] = useState<ChartOfAccount | null>(
         null
     );
+    const [mergeAccount, setMergeAccount] = useState<ChartOfAccount | null>(
+        null
+    );
 
     // Form state
     const [formData, setFormData] = useState<CreateChartOfAccountPayload>({
@@ -252,6 +260,13 @@ const ChartOfAccountspage = () => {
                     >
                         New Account
                     </Button>
+                    <Button
+                        onClick={() => setShowImportModal(true)}
+                        variant="outline"
+                        icon={<FaFileImport />}
+                    >
+                        Import
+                    </Button>
                 </div>
             </div>
 
@@ -306,7 +321,7 @@ const ChartOfAccountspage = () => {
                                 <th className="px-4 py-3 text-right text-sm font-semibold text-primary">
                                     Current Balance
                                 </th>
-                                <th className="px-4 py-3 text-center text-sm font-semibold text-primary w-24">
+                                <th className="px-4 py-3 text-center text-sm font-semibold text-primary w-32">
                                     Actions
                                 </th>
                             </tr>
@@ -377,6 +392,15 @@ const ChartOfAccountspage = () => {
                                                 >
                                                     <FaEdit className="w-4 h-4" />
                                                 </button>
+                                                <button
+                                                    onClick={() =>
+                                                        setMergeAccount(account)
+                                                    }
+                                                    className="p-2 text-primary-50 hover:text-primary hover:bg-primary-10 rounded transition-colors"
+                                                    title="Merge"
+                                                >
+                                                    <FaObjectGroup className="w-4 h-4" />
+                                                </button>
                                                 <button
                                                     onClick={() =>
                                                         setDeleteAccount(account)
@@ -570,6 +594,18 @@ const ChartOfAccountspage = () => {
                 </form>
             </Popup>
 
+            {/* Import Popup */}
+            <ImportChartOfAccountsPopup
+                isOpen={showImportModal}
+                onClose={() => setShowImportModal(false)}
+            />
+
+            {/* Merge Popup */}
+            <MergeChartOfAccountPopup
+                account={mergeAccount}
+                onClose={() => setMergeAccount(null)}
+            />
+
             {/* Delete Confirmation Dialog */}
             <ConfirmationDialog
                 isOpen={!!deleteAccount}
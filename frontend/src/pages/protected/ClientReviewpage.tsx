@@ -1,10 +1,10 @@
 import { useState } from 'react';
 import {
+    FaBan,
     FaCheckCircle,
-    FaClock,
-    FaComment,
     FaExclamationTriangle,
     FaFilter,
+    FaListUl,
     FaSave,
     FaSearch,
     FaTimes,
@@ -12,148 +12,170 @@ import {
 import Button from '../../components/typography/Button';
 import {
     InputField,
+    SelectField,
     TextareaField,
 } from '../../components/typography/InputFields';
+import {
+    useChartOfAccounts,
+    type ChartOfAccount,
+} from '../../services/apis/chartsAccountApi';
+import {
+    useCategorizeTransaction,
+    useTransactions,
+} from '../../services/apis/transactions';
+import type {
+    BankTransaction,
+    BankTransactionStatus,
+    BankTransactionSuggestion,
+} from '../../types/bankTransaction';
 
-type Transaction = {
-    id: string;
-    date: string;
-    description: string;
-    amount: number;
-    suggestedCategory?: string;
-    status: 'pending' | 'reviewed' | 'approved';
-    clientComment?: string;
-    aiConfidence?: number;
+const PAGE_SIZE = 20;
+
+const STATUS_LABELS: Record<BankTransactionStatus, string> = {
+    uncategorized: 'For Review',
+    categorized: 'Categorized',
+    excluded: 'Excluded',
 };
 
-const MOCK_TRANSACTIONS: Transaction[] = [
-    {
-        id: '1',
-        date: '2024-01-15',
-        description: 'Payment to Vendor XYZ - Invoice #12345',
-        amount: 1250.0,
-        suggestedCategory: 'Office Supplies',
-        status: 'pending',
-        aiConfidence: 65,
-    },
-    {
-        id: '2',
-        date: '2024-01-18',
-        description: 'Bank Transfer - Monthly Subscription',
-        amount: 99.99,
-        suggestedCategory: 'Software',
-        status: 'pending',
-        aiConfidence: 72,
-    },
-    {
-        id: '3',
-        date: '2024-01-20',
-        description: 'Payment - Unclear Transaction',
-        amount: 450.0,
-        status: 'pending',
-        aiConfidence: 45,
-    },
-    {
-        id: '4',
-        date: '2024-01-22',
-        description: 'Refund from Client ABC',
-        amount: -500.0,
-        suggestedCategory: 'Refunds',
-        status: 'reviewed',
-        clientComment: 'This is a refund for overpayment',
-        aiConfidence: 80,
-    },
-];
+const formatAccountName = (account: ChartOfAccount) =>
+    account.accountNumber
+        ? `${account.accountNumber} - ${account.accountName}`
+        : account.accountName;
+
+// Dates are calendar dates; format them in UTC so they do not shift
+const formatTransactionDate = (date: string) =>
+    new Date(`${date}T00:00:00Z`).toLocaleDateString('en-US', {
+        year: 'numeric',
+        month: 'short',
+        day: 'numeric',
+        timeZone: 'UTC',
+    });
+
+const formatAmount = (transaction: BankTransaction) =>
+    new Intl.NumberFormat('en-US', {
+        style: 'currency',
+        currency: transaction.currencyCode,
+    }).format(transaction.amount);
 
-const currencyFormatter = new Intl.NumberFormat('en-US', {
-    style: 'currency',
-    currency: 'USD',
-    minimumFractionDigits: 2,
-});
+const getSuggestionSource = (suggestion: BankTransactionSuggestion) =>
+    suggestion.source === 'rule'
+        ? 'Matched a bank rule'
+        : `Learned from ${suggestion.matchCount} similar transactions`;
 
 const ClientReviewpage = () => {
-    const [transactions, setTransactions] =
-        useState<Transaction[]>(MOCK_TRANSACTIONS);
     const [searchQuery, setSearchQuery] = useState('');
-    const [statusFilter, setStatusFilter] = useState<string>('all');
+    const [statusFilter, setStatusFilter] = useState<
+        BankTransactionStatus | 'all'
+    >('uncategorized');
+    const [page, setPage] = useState(1);
     const [selectedTransaction, setSelectedTransaction] =
-        useState<Transaction | null>(null);
+        useState<BankTransaction | null>(null);
     const [comment, setComment] = useState('');
     const [selectedCategory, setSelectedCategory] = useState('');
 
-    const filteredTransactions = transactions.filter((transaction) => {
-        const matchesSearch =
-            transaction.description
-                .toLowerCase()
-                .includes(searchQuery.toLowerCase()) ||
-            transaction.suggestedCategory
-                ?.toLowerCase()
-                .includes(searchQuery.toLowerCase());
-        const matchesStatus =
-            statusFilter === 'all' || transaction.status === statusFilter;
-        return matchesSearch && matchesStatus;
+    const { data, isLoading, isError, error } = useTransactions({
+        ...(statusFilter !== 'all' && { status: statusFilter }),
+        search: searchQuery.trim() || undefined,
+        page,
+        limit: PAGE_SIZE,
+    });
+    // Only the totals of these are used for the summary cards
+    const { data: pendingData } = useTransactions({
+        status: 'uncategorized',
+        limit: 1,
+    });
+    const { data: categorizedData } = useTransactions({
+        status: 'categorized',
+        limit: 1,
     });
+    const { data: allData } = useTransactions({ limit: 1 });
+    const { data: chartOfAccountsData } = useChartOfAccounts({
+        isActive: true,
+        limit: 100,
+        sort: 'accountNumber',
+        order: 'asc',
+    });
+    const categorizeMutation = useCategorizeTransaction();
 
-    const pendingCount = transactions.filter(
-        (t) => t.status === 'pending'
-    ).length;
-    const reviewedCount = transactions.filter(
-        (t) => t.status === 'reviewed'
-    ).length;
+    const transactions = data?.data.items ?? [];
+    const pagination = data?.data.pagination;
+    const categoryAccounts = chartOfAccountsData?.data.items ?? [];
+    const pendingCount = pendingData?.data.pagination.total ?? 0;
+    const categorizedCount = categorizedData?.data.pagination.total ?? 0;
+    const totalCount = allData?.data.pagination.total ?? 0;
 
-    const handleReview = (transaction: Transaction) => {
-        setSelectedTransaction(transaction);
-        setComment(transaction.clientComment || '');
-        setSelectedCategory(transaction.suggestedCategory || '');
+    const getSuggestedAccountName = (suggestion: BankTransactionSuggestion) => {
+        const account = categoryAccounts.find(
+            (item) => item.id === suggestion.categoryAccountId
+        );
+        return account ? formatAccountName(account) : 'Category account';
     };
 
-    const handleSaveReview = () => {
-        if (!selectedTransaction) return;
-
-        const updatedTransactions = transactions.map((t) =>
-            t.id === selectedTransaction.id
-                ? {
-                      ...t,
-                      status: 'reviewed' as const,
-                      clientComment: comment,
-                      suggestedCategory:
-                          selectedCategory || t.suggestedCategory,
-                  }
-                : t
-        );
-        setTransactions(updatedTransactions);
+    const closeReview = () => {
         setSelectedTransaction(null);
         setComment('');
         setSelectedCategory('');
     };
 
-    const handleApprove = (transactionId: string) => {
-        const updatedTransactions = transactions.map((t) =>
-            t.id === transactionId ? { ...t, status: 'approved' as const } : t
-        );
-        setTransactions(updatedTransactions);
+    const handleReview = (transaction: BankTransaction) => {
+        setSelectedTransaction(transaction);
+        setComment('');
+        setSelectedCategory(transaction.suggestion?.categoryAccountId ?? '');
+    };
+
+    const handleSaveReview = async () => {
+        if (!selectedTransaction || !selectedCategory) return;
+
+        const { suggestion } = selectedTransaction;
+        try {
+            await categorizeMutation.mutateAsync({
+                id: selectedTransaction.id,
+                payload: {
+                    categoryAccountId: selectedCategory,
+                    // Keep the suggested tax group only with its category
+                    ...(suggestion?.categoryAccountId === selectedCategory && {
+                        taxGroupId: suggestion.taxGroupId,
+                    }),
+                    ...(comment.trim() && { memo: comment.trim() }),
+                },
+            });
+            closeReview();
+        } catch {
+            // Error toast is shown by the mutation
+        }
+    };
+
+    const handleApprove = (transaction: BankTransaction) => {
+        if (!transaction.suggestion) return;
+        categorizeMutation.mutate({
+            id: transaction.id,
+            payload: {
+                categoryAccountId: transaction.suggestion.categoryAccountId,
+                taxGroupId: transaction.suggestion.taxGroupId,
+            },
+        });
     };
 
-    const getStatusIcon = (status: Transaction['status']) => {
+    const getStatusIcon = (status: BankTransactionStatus) => {
         switch (status) {
-            case 'approved':
+            case 'categorized':
                 return <FaCheckCircle className="w-4 h-4 text-green-600" />;
-            case 'reviewed':
-                return <FaClock className="w-4 h-4 text-blue-600" />;
-            case 'pending':
+            case 'excluded':
+                return <FaBan className="w-4 h-4 text-primary-50" />;
+            case 'uncategorized':
                 return (
                     <FaExclamationTriangle className="w-4 h-4 text-orange-600" />
                 );
         }
     };
 
-    const getStatusColor = (status: Transaction['status']) => {
+    const getStatusColor = (status: BankTransactionStatus) => {
         switch (status) {
-            case 'approved':
+            case 'categorized':
                 return 'bg-green-100 text-green-700';
-            case 'reviewed':
-                return 'bg-blue-100 text-blue-700';
-            case 'pending':
+            case 'excluded':
+                return 'bg-primary-10 text-primary-50';
+            case 'uncategorized':
                 return 'bg-orange-100 text-orange-700';
         }
     };
@@ -189,26 +211,26 @@ const ClientReviewpage = () => {
                 </div>
                 <div className="bg-white rounded-2 shadow-sm border border-primary-10 p-4">
                     <div className="flex items-center gap-3">
-                        <FaClock className="w-8 h-8 text-blue-600" />
+                        <FaCheckCircle className="w-8 h-8 text-green-600" />
                         <div>
                             <div className="text-sm text-primary-50">
-                                Reviewed
+                                Categorized
                             </div>
                             <div className="text-2xl font-bold text-primary">
-                                {reviewedCount}
+                                {categorizedCount}
                             </div>
                         </div>
                     </div>
                 </div>
                 <div className="bg-white rounded-2 shadow-sm border border-primary-10 p-4">
                     <div className="flex items-center gap-3">
-                        <FaCheckCircle className="w-8 h-8 text-green-600" />
+                        <FaListUl className="w-8 h-8 text-blue-600" />
                         <div>
                             <div className="text-sm text-primary-50">
                                 Total Transactions
                             </div>
                             <div className="text-2xl font-bold text-primary">
-                                {transactions.length}
+                                {totalCount}
                             </div>
                         </div>
                     </div>
@@ -222,9 +244,12 @@ const ClientReviewpage = () => {
                         <div className="relative">
                             <InputField
                                 id="search-transactions"
-                                placeholder="Search transactions..."
+                                placeholder="Search description, payee or reference..."
                                 value={searchQuery}
-                                onChange={(e) => setSearchQuery(e.target.value)}
+                                onChange={(e) => {
+                                    setSearchQuery(e.target.value);
+                                    setPage(1);
+                                }}
                                 icon={<FaSearch />}
                             />
                         </div>
@@ -233,13 +258,20 @@ const ClientReviewpage = () => {
                         <FaFilter className="text-primary-50" />
                         <select
                             value={statusFilter}
-                            onChange={(e) => setStatusFilter(e.target.value)}
+                            onChange={(e) => {
+                                setStatusFilter(
+                                    e.target.value as
+                                        | BankTransactionStatus
+                                        | 'all'
+                                );
+                                setPage(1);
+                            }}
                             className="px-4 py-2 border border-primary-10 rounded-2 text-sm text-primary focus:outline-none focus:border-primary"
                         >
                             <option value="all">All Status</option>
-                            <option value="pending">Pending</option>
-                            <option value="reviewed">Reviewed</option>
-                            <option value="approved">Approved</option>
+                            <option value="uncategorized">For Review</option>
+                            <option value="categorized">Categorized</option>
+                            <option value="excluded">Excluded</option>
                         </select>
                     </div>
                 </div>
@@ -248,12 +280,20 @@ const ClientReviewpage = () => {
             {/* Transactions List */}
             <div className="bg-white rounded-2 shadow-sm border border-primary-10 overflow-hidden">
                 <div className="divide-y divide-primary-10">
-                    {filteredTransactions.length === 0 ? (
+                    {isLoading ? (
+                        <div className="px-4 py-8 text-center text-primary-50">
+                            Loading transactions...
+                        </div>
+                    ) : isError ? (
+                        <div className="px-4 py-8 text-center text-red-500">
+                            {error?.message || 'Failed to load transactions'}
+                        </div>
+                    ) : transactions.length === 0 ? (
                         <div className="px-4 py-8 text-center text-primary-50">
                             No transactions found
                         </div>
                     ) : (
-                        filteredTransactions.map((transaction) => (
+                        transactions.map((transaction) => (
                             <div
                                 key={transaction.id}
                                 className="p-4 hover:bg-primary-5 transition-colors"
@@ -264,12 +304,16 @@ const ClientReviewpage = () => {
                                             {getStatusIcon(transaction.status)}
                                             <div className="flex-1">
                                                 <div className="font-medium text-primary">
-                                                    {transaction.description}
+                                                    {transaction.description ||
+                                                        transaction.payee ||
+                                                        'No description'}
                                                 </div>
                                                 <div className="text-sm text-primary-50 mt-1">
-                                                    {new Date(
-                                                        transaction.date
-                                                    ).toLocaleDateString()}
+                                                    {formatTransactionDate(
+                                                        transaction.transactionDate
+                                                    )}
+                                                    {transaction.account &&
+                                                        ` · ${transaction.account.name}`}
                                                 </div>
                                             </div>
                                             <div className="text-right">
@@ -280,41 +324,51 @@ const ClientReviewpage = () => {
                                                             : 'text-green-600'
                                                     }`}
                                                 >
-                                                    {currencyFormatter.format(
-                                                        transaction.amount
-                                                    )}
+                                                    {formatAmount(transaction)}
                                                 </div>
-                                                {transaction.aiConfidence && (
-                                                    <div className="text-xs text-primary-50">
-                                                        AI Confidence:{' '}
+                                                {transaction.suggestion && (
+                                                    <div
+                                                        className="text-xs text-primary-50"
+                                                        title={getSuggestionSource(
+                                                            transaction.suggestion
+                                                        )}
+                                                    >
+                                                        Confidence:{' '}
                                                         {
-                                                            transaction.aiConfidence
+                                                            transaction
+                                                                .suggestion
+                                                                .confidence
                                                         }
                                                         %
                                                     </div>
                                                 )}
                                             </div>
                                         </div>
-                                        {transaction.suggestedCategory && (
-                                            <div className="mt-2">
+                                        {transaction.suggestion && (
+                                            <div className="mt-2 flex items-center gap-2">
                                                 <span className="inline-flex items-center gap-1 px-2 py-1 bg-primary-10 text-primary rounded-full text-xs font-medium">
                                                     Suggested:{' '}
-                                                    {
-                                                        transaction.suggestedCategory
-                                                    }
+                                                    {getSuggestedAccountName(
+                                                        transaction.suggestion
+                                                    )}
+                                                </span>
+                                                <span className="text-xs text-primary-50">
+                                                    {getSuggestionSource(
+                                                        transaction.suggestion
+                                                    )}
                                                 </span>
                                             </div>
                                         )}
-                                        {transaction.clientComment && (
-                                            <div className="mt-2 p-2 bg-blue-50 rounded-lg">
-                                                <div className="flex items-start gap-2">
-                                                    <FaComment className="w-4 h-4 text-blue-600 mt-0.5" />
-                                                    <div className="text-sm text-blue-800">
-                                                        {
-                                                            transaction.clientComment
-                                                        }
-                                                    </div>
-                                                </div>
+                                        {transaction.categoryAccount && (
+                                            <div className="mt-2 text-sm text-primary-75">
+                                                Category:{' '}
+                                                {
+                                                    transaction.categoryAccount
+                                                        .accountName
+                                                }
+                                                {transaction.journalEntry
+                                                    ?.entryNumber &&
+                                                    ` · ${transaction.journalEntry.entryNumber}`}
                                             </div>
                                         )}
                                     </div>
@@ -324,9 +378,10 @@ const ClientReviewpage = () => {
                                                 transaction.status
                                             )}`}
                                         >
-                                            {transaction.status}
+                                            {STATUS_LABELS[transaction.status]}
                                         </span>
-                                        {transaction.status === 'pending' && (
+                                        {transaction.status ===
+                                            'uncategorized' && (
                                             <Button
                                                 onClick={() =>
                                                     handleReview(transaction)
@@ -335,31 +390,60 @@ const ClientReviewpage = () => {
                                                 size="sm"
                                                 className="flex items-center gap-1"
                                             >
-                                                <FaComment />
                                                 Review
                                             </Button>
                                         )}
-                                        {transaction.status === 'reviewed' && (
-                                            <Button
-                                                onClick={() =>
-                                                    handleApprove(
-                                                        transaction.id
-                                                    )
-                                                }
-                                                variant="primary"
-                                                size="sm"
-                                                className="flex items-center gap-1"
-                                            >
-                                                <FaCheckCircle />
-                                                Approve
-                                            </Button>
-                                        )}
+                                        {transaction.status ===
+                                            'uncategorized' &&
+                                            transaction.suggestion && (
+                                                <Button
+                                                    onClick={() =>
+                                                        handleApprove(
+                                                            transaction
+                                                        )
+                                                    }
+                                                    variant="primary"
+                                                    size="sm"
+                                                    disabled={
+                                                        categorizeMutation.isPending
+                                                    }
+                                                    className="flex items-center gap-1"
+                                                >
+                                                    <FaCheckCircle />
+                                                    Approve
+                                                </Button>
+                                            )}
                                     </div>
                                 </div>
                             </div>
                         ))
                     )}
                 </div>
+                {pagination && pagination.totalPages > 1 && (
+                    <div className="flex items-center justify-between p-4 border-t border-primary-10 text-sm text-primary-50">
+                        <span>
+                            Page {pagination.page} of {pagination.totalPages}
+                        </span>
+                        <div className="flex gap-3">
+                            <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => setPage(page - 1)}
+                                disabled={!pagination.hasPreviousPage}
+                            >
+                                Previous
+                            </Button>
+                            <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => setPage(page + 1)}
+                                disabled={!pagination.hasNextPage}
+                            >
+                                Next
+                            </Button>
+                        </div>
+                    </div>
+                )}
             </div>
 
             {/* Review Modal */}
@@ -371,11 +455,7 @@ const ClientReviewpage = () => {
                                 Review Transaction
                             </h3>
                             <button
-                                onClick={() => {
-                                    setSelectedTransaction(null);
-                                    setComment('');
-                                    setSelectedCategory('');
-                                }}
+                                onClick={closeReview}
                                 className="text-primary-50 hover:text-primary"
                             >
                                 <FaTimes className="w-5 h-5" />
@@ -387,37 +467,56 @@ const ClientReviewpage = () => {
                                     Transaction Details
                                 </div>
                                 <div className="font-medium text-primary">
-                                    {selectedTransaction.description}
+                                    {selectedTransaction.description ||
+                                        selectedTransaction.payee ||
+                                        'No description'}
                                 </div>
                                 <div className="text-sm text-primary-75 mt-2">
                                     Date:{' '}
-                                    {new Date(
-                                        selectedTransaction.date
-                                    ).toLocaleDateString()}
+                                    {formatTransactionDate(
+                                        selectedTransaction.transactionDate
+                                    )}
                                 </div>
                                 <div className="text-sm text-primary-75">
-                                    Amount:{' '}
-                                    {currencyFormatter.format(
-                                        selectedTransaction.amount
-                                    )}
+                                    Amount: {formatAmount(selectedTransaction)}
                                 </div>
                             </div>
                             <div>
-                                <label className="block text-sm font-medium text-primary mb-2">
-                                    Category
-                                </label>
-                                <InputField
+                                <SelectField
                                     id="category"
-                                    placeholder="Enter or select category"
+                                    label="Category"
+                                    required
                                     value={selectedCategory}
                                     onChange={(e) =>
                                         setSelectedCategory(e.target.value)
                                     }
+                                    options={[
+                                        {
+                                            value: '',
+                                            label: 'Select category...',
+                                        },
+                                        ...categoryAccounts.map((account) => ({
+                                            value: account.id,
+                                            label: formatAccountName(account),
+                                        })),
+                                    ]}
                                 />
-                                {selectedTransaction.suggestedCategory && (
+                                {selectedTransaction.suggestion && (
                                     <p className="text-xs text-primary-50 mt-1">
-                                        AI Suggested:{' '}
-                                        {selectedTransaction.suggestedCategory}
+                                        Suggested:{' '}
+                                        {getSuggestedAccountName(
+                                            selectedTransaction.suggestion
+                                        )}{' '}
+                                        (
+                                        {
+                                            selectedTransaction.suggestion
+                                                .confidence
+                                        }
+                                        %,{' '}
+                                        {getSuggestionSource(
+                                            selectedTransaction.suggestion
+                                        ).toLowerCase()}
+                                        )
                                     </p>
                                 )}
                             </div>
@@ -427,7 +526,7 @@ const ClientReviewpage = () => {
                                 </label>
                                 <TextareaField
                                     id="comment"
-                                    placeholder="Add any notes or comments about this transaction..."
+                                    placeholder="Add a memo to the journal entry of this transaction..."
                                     value={comment}
                                     onChange={(e) => setComment(e.target.value)}
                                     rows={4}
@@ -438,17 +537,18 @@ const ClientReviewpage = () => {
                                     type="button"
                                     variant="outline"
                                     className="flex-1"
-                                    onClick={() => {
-                                        setSelectedTransaction(null);
-                                        setComment('');
-                                        setSelectedCategory('');
-                                    }}
+                                    onClick={closeReview}
                                 >
                                     Cancel
                                 </Button>
                                 <Button
                                     onClick={handleSaveReview}
                                     variant="primary"
+                                    loading={categorizeMutation.isPending}
+                                    disabled={
+                                        !selectedCategory ||
+                                        categorizeMutation.isPending
+                                    }
                                     className="flex-1 flex items-center justify-center gap-2"
                                 >
                                     <FaSave />
@@ -0,0 +1,886 @@
+import { useMemo, useState } from 'react';
+import {
+    FaBook,
+    FaEdit,
+    FaFilter,
+    FaPlus,
+    FaSearch,
+    FaTrash,
+} from 'react-icons/fa';
+import Button from '../../components/typography/Button';
+import ConfirmationDialog from '../../components/shared/ConfirmationDialog';
+import Popup from '../../components/shared/Popup';
+import Loading from '../../components/shared/Loading';
+import {
+    InputField,
+    SelectField,
+    TextareaField,
+} from '../../components/typography/InputFields';
+import {
+    useContactBalance,
+    useContactLedger,
+    useContacts,
+    useCreateContact,
+    useDeleteContact,
+    useUpdateContact,
+} from '../../services/apis/contactApi';
+import { useChartOfAccounts } from '../../services/apis/chartsAccountApi';
+import type {
+    Contact,
+    ContactType,
+    CreateContactPayload,
+} from '../../types/contact';
+
+const currencyFormatter = new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 2,
+});
+
+const CONTACT_TYPE_DISPLAY: Record<ContactType, string> = {
+    customer: 'Customer',
+    vendor: 'Vendor',
+    both: 'Customer & Vendor',
+};
+
+const CONTACT_TYPE_OPTIONS: { value: ContactType; label: string }[] = [
+    { value: 'customer', label: 'Customer' },
+    { value: 'vendor', label: 'Vendor' },
+    { value: 'both', label: 'Customer & Vendor' },
+];
+
+type ContactFormState = {
+    contactType: ContactType;
+    displayName: string;
+    companyName: string;
+    email: string;
+    phone: string;
+    taxNumber: string;
+    currencyCode: string;
+    addressLine1: string;
+    city: string;
+    postalCode: string;
+    country: string;
+    defaultIncomeAccountId: string;
+    defaultExpenseAccountId: string;
+    paymentTermsDays: string;
+    notes: string;
+    isActive: boolean;
+};
+
+const EMPTY_FORM: ContactFormState = {
+    contactType: 'customer',
+    displayName: '',
+    companyName: '',
+    email: '',
+    phone: '',
+    taxNumber: '',
+    currencyCode: '',
+    addressLine1: '',
+    city: '',
+    postalCode: '',
+    country: '',
+    defaultIncomeAccountId: '',
+    defaultExpenseAccountId: '',
+    paymentTermsDays: '30',
+    notes: '',
+    isActive: true,
+};
+
+const toFormState = (contact: Contact): ContactFormState => ({
+    contactType: contact.contactType,
+    displayName: contact.displayName,
+    companyName: contact.companyName || '',
+    email: contact.email || '',
+    phone: contact.phone || '',
+    taxNumber: contact.taxNumber || '',
+    currencyCode: contact.currencyCode || '',
+    addressLine1: contact.billingAddress?.line1 || '',
+    city: contact.billingAddress?.city || '',
+    postalCode: contact.billingAddress?.postalCode || '',
+    country: contact.billingAddress?.country || '',
+    defaultIncomeAccountId: contact.defaultIncomeAccountId || '',
+    defaultExpenseAccountId: contact.defaultExpenseAccountId || '',
+    paymentTermsDays: contact.paymentTermsDays.toString(),
+    notes: contact.notes || '',
+    isActive: contact.isActive,
+});
+
+// Empty inputs are sent as null so editing a contact clears them
+const toPayload = (form: ContactFormState): CreateContactPayload => {
+    const hasAddress =
+        form.addressLine1 || form.city || form.postalCode || form.country;
+
+    return {
+        contactType: form.contactType,
+        displayName: form.displayName.trim(),
+        companyName: form.companyName.trim() || null,
+        email: form.email.trim() || null,
+        phone: form.phone.trim() || null,
+        taxNumber: form.taxNumber.trim() || null,
+        currencyCode: form.currencyCode.trim().toUpperCase() || null,
+        billingAddress: hasAddress
+            ? {
+                  line1: form.addressLine1.trim() || undefined,
+                  city: form.city.trim() || undefined,
+                  postalCode: form.postalCode.trim() || undefined,
+                  country: form.country.trim() || undefined,
+              }
+            : null,
+        defaultIncomeAccountId: form.defaultIncomeAccountId || null,
+        defaultExpenseAccountId: form.defaultExpenseAccountId || null,
+        paymentTermsDays: parseInt(form.paymentTermsDays, 10) || 0,
+        notes: form.notes.trim() || null,
+        isActive: form.isActive,
+    };
+};
+
+const Contactspage = () => {
+    const [searchQuery, setSearchQuery] = useState('');
+    const [selectedType, setSelectedType] = useState<ContactType | 'all'>(
+        'all'
+    );
+    const [showAddModal, setShowAddModal] = useState(false);
+    const [editingContact, setEditingContact] = useState<Contact | null>(null);
+    const [deleteContact, setDeleteContact] = useState<Contact | null>(null);
+    const [ledgerContact, setLedgerContact] = useState<Contact | null>(null);
+    const [ledgerPage, setLedgerPage] = useState(1);
+
+    const [formData, setFormData] = useState<ContactFormState>(EMPTY_FORM);
+    const [formErrors, setFormErrors] = useState<Record<string, string>>({});
+
+    // API hooks
+    const { data, isLoading, error } = useContacts({
+        search: searchQuery || undefined,
+        contactType: selectedType !== 'all' ? selectedType : undefined,
+        limit: 100,
+    });
+    const { data: accountsData } = useChartOfAccounts({
+        isActive: true,
+        limit: 100,
+    });
+    const { data: ledgerData, isLoading: isLedgerLoading } = useContactLedger(
+        ledgerContact?.id,
+        { page: ledgerPage, limit: 20 }
+    );
+    const { data: balanceData } = useContactBalance(ledgerContact?.id);
+
+    const createMutation = useCreateContact();
+    const updateMutation = useUpdateContact();
+    const deleteMutation = useDeleteContact();
+
+    const contacts = useMemo(() => {
+        return data?.data?.items || [];
+    }, [data]);
+
+    const accountOptions = useMemo(() => {
+        const accounts = accountsData?.data?.items || [];
+        return [
+            { value: '', label: 'None' },
+            ...accounts.map((account) => ({
+                value: account.id,
+                label: `${account.accountNumber} - ${account.accountName}`,
+            })),
+        ];
+    }, [accountsData]);
+
+    const ledger = ledgerData?.data;
+    const balance = balanceData?.data;
+
+    // Handle form reset
+    const resetForm = () => {
+        setFormData(EMPTY_FORM);
+        setFormErrors({});
+        setEditingContact(null);
+    };
+
+    // Handle open add modal
+    const handleOpenAddModal = () => {
+        resetForm();
+        setShowAddModal(true);
+    };
+
+    // Handle open edit modal
+    const handleOpenEditModal = (contact: Contact) => {
+        setFormData(toFormState(contact));
+        setFormErrors({});
+        setEditingContact(contact);
+    };
+
+    // Handle close modal
+    const handleCloseModal = () => {
+        setShowAddModal(false);
+        resetForm();
+    };
+
+    // Handle open ledger
+    const handleOpenLedger = (contact: Contact) => {
+        setLedgerPage(1);
+        setLedgerContact(contact);
+    };
+
+    const updateField = <K extends keyof ContactFormState>(
+        field: K,
+        value: ContactFormState[K]
+    ) => {
+        setFormData((prev) => ({ ...prev, [field]: value }));
+        if (formErrors[field]) {
+            setFormErrors((prev) => ({ ...prev, [field]: '' }));
+        }
+    };
+
+    // Validate form
+    const validateForm = (): boolean => {
+        const errors: Record<string, string> = {};
+
+        if (!formData.displayName.trim()) {
+            errors.displayName = 'Display name is required';
+        }
+
+        if (
+            formData.currencyCode.trim() &&
+            !/^[A-Za-z]{3}$/.test(formData.currencyCode.trim())
+        ) {
+            errors.currencyCode = 'Currency must be a 3-letter ISO code';
+        }
+
+        const terms = Number(formData.paymentTermsDays);
+        if (!Number.isInteger(terms) || terms < 0 || terms > 365) {
+            errors.paymentTermsDays =
+                'Payment terms must be between 0 and 365 days';
+        }
+
+        setFormErrors(errors);
+        return Object.keys(errors).length === 0;
+    };
+
+    // Handle form submit
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+
+        if (!validateForm()) {
+            return;
+        }
+
+        try {
+            const payload = toPayload(formData);
+            if (editingContact) {
+                await updateMutation.mutateAsync({
+                    id: editingContact.id,
+                    payload,
+                });
+            } else {
+                await createMutation.mutateAsync(payload);
+            }
+            handleCloseModal();
+        } catch (error) {
+            // Error is handled by the mutation
+            console.error('Form submission error:', error);
+        }
+    };
+
+    // Handle delete
+    const handleDelete = async () => {
+        if (!deleteContact) return;
+
+        try {
+            await deleteMutation.mutateAsync(deleteContact.id);
+            setDeleteContact(null);
+        } catch (error) {
+            // Error is handled by the mutation
+            console.error('Delete error:', error);
+        }
+    };
+
+    if (isLoading) {
+        return (
+            <div className="flex items-center justify-center min-h-[400px]">
+                <Loading />
+            </div>
+        );
+    }
+
+    if (error) {
+        return (
+            <div className="flex items-center justify-center min-h-[400px]">
+                <div className="text-center">
+                    <p className="text-red-500 mb-4">Failed to load contacts</p>
+                    <Button
+                        variant="primary"
+                        onClick={() => window.location.reload()}
+                    >
+                        Retry
+                    </Button>
+                </div>
+            </div>
+        );
+    }
+
+    return (
+        <div className="flex flex-col gap-4">
+            {/* Header Actions */}
+            <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+                <div className="flex items-center gap-3">
+                    <Button
+                        onClick={handleOpenAddModal}
+                        variant="primary"
+                        icon={<FaPlus />}
+                    >
+                        New Contact
+                    </Button>
+                </div>
+            </div>
+
+            {/* Filters and Search */}
+            <div className="bg-white rounded-2 shadow-sm border border-primary-10 p-4">
+                <div className="flex flex-col sm:flex-row gap-4">
+                    <div className="flex-1">
+                        <InputField
+                            id="search-contacts"
+                            placeholder="Search contacts..."
+                            value={searchQuery}
+                            onChange={(e) => setSearchQuery(e.target.value)}
+                            icon={<FaSearch />}
+                        />
+                    </div>
+                    <div className="flex items-center gap-2">
+                        <FaFilter className="text-primary-50" />
+                        <SelectField
+                            id="filter-contact-type"
+                            value={selectedType}
+                            onChange={(e) =>
+                                setSelectedType(
+                                    e.target.value as ContactType | 'all'
+                                )
+                            }
+                            options={[
+                                { value: 'all', label: 'All Contacts' },
+                                { value: 'customer', label: 'Customers' },
+                                { value: 'vendor', label: 'Vendors' },
+                            ]}
+                        />
+                    </div>
+                </div>
+            </div>
+
+            {/* Contacts Table */}
+            <div className="bg-white rounded-2 shadow-sm border border-primary-10 overflow-hidden">
+                <div className="overflow-x-auto">
+                    <table className="w-full">
+                        <thead className="bg-primary-10">
+                            <tr>
+                                <th className="px-4 py-3 text-left text-sm font-semibold text-primary">
+                                    Name
+                                </th>
+                                <th className="px-4 py-3 text-left text-sm font-semibold text-primary">
+                                    Type
+                                </th>
+                                <th className="px-4 py-3 text-left text-sm font-semibold text-primary">
+                                    Email
+                                </th>
+                                <th className="px-4 py-3 text-left text-sm font-semibold text-primary">
+                                    Terms
+                                </th>
+                                <th className="px-4 py-3 text-left text-sm font-semibold text-primary">
+                                    Status
+                                </th>
+                                <th className="px-4 py-3 text-center text-sm font-semibold text-primary w-32">
+                                    Actions
+                                </th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {contacts.length === 0 ? (
+                                <tr>
+                                    <td
+                                        colSpan={6}
+                                        className="px-4 py-8 text-center text-primary-50"
+                                    >
+                                        No contacts found
+                                    </td>
+                                </tr>
+                            ) : (
+                                contacts.map((contact) => (
+                                    <tr
+                                        key={contact.id}
+                                        className="border-b border-primary-10 hover:bg-primary-10 transition-colors"
+                                    >
+                                        <td className="px-4 py-3">
+                                            <div className="font-medium text-primary">
+                                                {contact.displayName}
+                                            </div>
+                                            {contact.companyName && (
+                                                <div className="text-xs text-primary-50 mt-1">
+                                                    {contact.companyName}
+                                                </div>
+                                            )}
+                                        </td>
+                                        <td className="px-4 py-3 text-sm text-primary">
+                                            {
+                                                CONTACT_TYPE_DISPLAY[
+                                                    contact.contactType
+                                                ]
+                                            }
+                                        </td>
+                                        <td className="px-4 py-3 text-sm text-primary-75">
+                                            {contact.email || '—'}
+                                        </td>
+                                        <td className="px-4 py-3 text-sm text-primary-75">
+                                            {contact.paymentTermsDays} days
+                                        </td>
+                                        <td className="px-4 py-3">
+                                            <span
+                                                className={`text-xs px-2 py-1 rounded ${
+                                                    contact.isActive
+                                                        ? 'bg-green-50 text-green-700'
+                                                        : 'bg-gray-100 text-gray-600'
+                                                }`}
+                                            >
+                                                {contact.isActive
+                                                    ? 'Active'
+                                                    : 'Inactive'}
+                                            </span>
+                                        </td>
+                                        <td className="px-4 py-3">
+                                            <div className="flex items-center justify-center gap-2">
+                                                <button
+                                                    onClick={() =>
+                                                        handleOpenLedger(
+                                                            contact
+                                                        )
+                                                    }
+                                                    className="p-2 text-primary-50 hover:text-primary hover:bg-primary-10 rounded transition-colors"
+                                                    title="Ledger"
+                                                >
+                                                    <FaBook className="w-4 h-4" />
+                                                </button>
+                                                <button
+                                                    onClick={() =>
+                                                        handleOpenEditModal(
+                                                            contact
+                                                        )
+                                                    }
+                                                    className="p-2 text-primary-50 hover:text-primary hover:bg-primary-10 rounded transition-colors"
+                                                    title="Edit"
+                                                >
+                                                    <FaEdit className="w-4 h-4" />
+                                                </button>
+                                                <button
+                                                    onClick={() =>
+                                                        setDeleteContact(
+                                                            contact
+                                                        )
+                                                    }
+                                                    className="p-2 text-red-400 hover:text-red-600 hover:bg-red-50 rounded transition-colors"
+                                                    title="Delete"
+                                                >
+                                                    <FaTrash className="w-4 h-4" />
+                                                </button>
+                                            </div>
+                                        </td>
+                                    </tr>
+                                ))
+                            )}
+                        </tbody>
+                    </table>
+                </div>
+            </div>
+
+            {/* Add/Edit Contact Modal */}
+            <Popup
+                isOpen={showAddModal || !!editingContact}
+                onClose={handleCloseModal}
+                title={editingContact ? 'Edit Contact' : 'New Contact'}
+                size="2xl"
+                loading={createMutation.isPending || updateMutation.isPending}
+                footer={
+                    <div className="flex gap-3">
+                        <Button
+                            type="button"
+                            variant="outline"
+                            onClick={handleCloseModal}
+                            disabled={
+                                createMutation.isPending ||
+                                updateMutation.isPending
+                            }
+                        >
+                            Cancel
+                        </Button>
+                        <Button
+                            type="submit"
+                            variant="primary"
+                            loading={
+                                createMutation.isPending ||
+                                updateMutation.isPending
+                            }
+                            disabled={
+                                createMutation.isPending ||
+                                updateMutation.isPending
+                            }
+                            form="contact-form"
+                        >
+                            {editingContact ? 'Update' : 'Create'}
+                        </Button>
+                    </div>
+                }
+            >
+                <form
+                    id="contact-form"
+                    onSubmit={handleSubmit}
+                    className="grid grid-cols-1 sm:grid-cols-2 gap-4"
+                >
+                    <div>
+                        <InputField
+                            id="contact-display-name"
+                            label="Display Name"
+                            placeholder="Enter display name"
+                            value={formData.displayName}
+                            onChange={(e) =>
+                                updateField('displayName', e.target.value)
+                            }
+                            required
+                        />
+                        {formErrors.displayName && (
+                            <p className="text-red-500 text-xs mt-1">
+                                {formErrors.displayName}
+                            </p>
+                        )}
+                    </div>
+                    <SelectField
+                        id="contact-type"
+                        label="Contact Type"
+                        value={formData.contactType}
+                        onChange={(e) =>
+                            updateField(
+                                'contactType',
+                                e.target.value as ContactType
+                            )
+                        }
+                        required
+                        options={CONTACT_TYPE_OPTIONS}
+                    />
+                    <InputField
+                        id="contact-company-name"
+                        label="Company Name"
+                        value={formData.companyName}
+                        onChange={(e) =>
+                            updateField('companyName', e.target.value)
+                        }
+                    />
+                    <InputField
+                        id="contact-email"
+                        label="Email"
+                        type="email"
+                        value={formData.email}
+                        onChange={(e) => updateField('email', e.target.value)}
+                    />
+                    <InputField
+                        id="contact-phone"
+                        label="Phone"
+                        value={formData.phone}
+                        onChange={(e) => updateField('phone', e.target.value)}
+                    />
+                    <InputField
+                        id="contact-tax-number"
+                        label="Tax Number"
+                        value={formData.taxNumber}
+                        onChange={(e) =>
+                            updateField('taxNumber', e.target.value)
+                        }
+                    />
+                    <div>
+                        <InputField
+                            id="contact-currency"
+                            label="Currency"
+                            placeholder="USD"
+                            maxLength={3}
+                            value={formData.currencyCode}
+                            onChange={(e) =>
+                                updateField('currencyCode', e.target.value)
+                            }
+                        />
+                        {formErrors.currencyCode && (
+                            <p className="text-red-500 text-xs mt-1">
+                                {formErrors.currencyCode}
+                            </p>
+                        )}
+                    </div>
+                    <div>
+                        <InputField
+                            id="contact-payment-terms"
+                            label="Payment Terms (days)"
+                            type="number"
+                            min={0}
+                            max={365}
+                            value={formData.paymentTermsDays}
+                            onChange={(e) =>
+                                updateField('paymentTermsDays', e.target.value)
+                            }
+                        />
+                        {formErrors.paymentTermsDays && (
+                            <p className="text-red-500 text-xs mt-1">
+                                {formErrors.paymentTermsDays}
+                            </p>
+                        )}
+                    </div>
+                    <InputField
+                        id="contact-address-line1"
+                        label="Billing Address"
+                        value={formData.addressLine1}
+                        onChange={(e) =>
+                            updateField('addressLine1', e.target.value)
+                        }
+                    />
+                    <InputField
+                        id="contact-city"
+                        label="City"
+                        value={formData.city}
+                        onChange={(e) => updateField('city', e.target.value)}
+                    />
+                    <InputField
+                        id="contact-postal-code"
+                        label="Postal Code"
+                        value={formData.postalCode}
+                        onChange={(e) =>
+                            updateField('postalCode', e.target.value)
+                        }
+                    />
+                    <InputField
+                        id="contact-country"
+                        label="Country"
+                        value={formData.country}
+                        onChange={(e) => updateField('country', e.target.value)}
+                    />
+                    <SelectField
+                        id="contact-income-account"
+                        label="Default Income Account"
+                        value={formData.defaultIncomeAccountId}
+                        onChange={(e) =>
+                            updateField(
+                                'defaultIncomeAccountId',
+                                e.target.value
+                            )
+                        }
+                        options={accountOptions}
+                    />
+                    <SelectField
+                        id="contact-expense-account"
+                        label="Default Expense Account"
+                        value={formData.defaultExpenseAccountId}
+                        onChange={(e) =>
+                            updateField(
+                                'defaultExpenseAccountId',
+                                e.target.value
+                            )
+                        }
+                        options={accountOptions}
+                    />
+                    <div className="sm:col-span-2">
+                        <TextareaField
+                            id="contact-notes"
+                            label="Notes"
+                            value={formData.notes}
+                            onChange={(e) =>
+                                updateField('notes', e.target.value)
+                            }
+                        />
+                    </div>
+                    <label className="flex items-center gap-2 text-sm text-primary sm:col-span-2">
+                        <input
+                            type="checkbox"
+                            checked={formData.isActive}
+                            onChange={(e) =>
+                                updateField('isActive', e.target.checked)
+                            }
+                        />
+                        Active (inactive contacts cannot be used on new entries)
+                    </label>
+                </form>
+            </Popup>
+
+            {/* Ledger Modal */}
+            <Popup
+                isOpen={!!ledgerContact}
+                onClose={() => setLedgerContact(null)}
+                title={`${ledgerContact?.displayName ?? ''} Ledger`}
+                size="4xl"
+            >
+                {isLedgerLoading || !ledger ? (
+                    <div className="flex items-center justify-center min-h-[200px]">
+                        <Loading />
+                    </div>
+                ) : (
+                    <div className="flex flex-col gap-4">
+                        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                            <div className="rounded-2 border border-primary-10 p-3">
+                                <p className="text-xs text-primary-50">
+                                    Opening balance ({ledger.period.startDate})
+                                </p>
+                                <p className="font-semibold text-primary">
+                                    {currencyFormatter.format(
+                                        ledger.openingBalance
+                                    )}
+                                </p>
+                            </div>
+                            <div className="rounded-2 border border-primary-10 p-3">
+                                <p className="text-xs text-primary-50">
+                                    Closing balance ({ledger.period.endDate})
+                                </p>
+                                <p className="font-semibold text-primary">
+                                    {currencyFormatter.format(
+                                        ledger.closingBalance
+                                    )}
+                                </p>
+                            </div>
+                            <div className="rounded-2 border border-primary-10 p-3">
+                                <p className="text-xs text-primary-50">
+                                    {balance && balance.balance < 0
+                                        ? 'We owe'
+                                        : 'Owes us'}{' '}
+                                    (as of today)
+                                </p>
+                                <p className="font-semibold text-primary">
+                                    {currencyFormatter.format(
+                                        Math.abs(balance?.balance ?? 0)
+                                    )}
+                                </p>
+                            </div>
+                        </div>
+
+                        <div className="overflow-x-auto">
+                            <table className="w-full">
+                                <thead className="bg-primary-10">
+                                    <tr>
+                                        <th className="px-3 py-2 text-left text-sm font-semibold text-primary">
+                                            Date
+                                        </th>
+                                        <th className="px-3 py-2 text-left text-sm font-semibold text-primary">
+                                            Entry
+                                        </th>
+                                        <th className="px-3 py-2 text-left text-sm font-semibold text-primary">
+                                            Account
+                                        </th>
+                                        <th className="px-3 py-2 text-right text-sm font-semibold text-primary">
+                                            Debit
+                                        </th>
+                                        <th className="px-3 py-2 text-right text-sm font-semibold text-primary">
+                                            Credit
+                                        </th>
+                                        <th className="px-3 py-2 text-right text-sm font-semibold text-primary">
+                                            Balance
+                                        </th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {ledger.movements.length === 0 ? (
+                                        <tr>
+                                            <td
+                                                colSpan={6}
+                                                className="px-3 py-6 text-center text-primary-50"
+                                            >
+                                                No posted movements in this
+                                                period
+                                            </td>
+                                        </tr>
+                                    ) : (
+                                        ledger.movements.map((movement) => (
+                                            <tr
+                                                key={
+                                                    movement.journalEntryLineId
+                                                }
+                                                className="border-b border-primary-10"
+                                            >
+                                                <td className="px-3 py-2 text-sm text-primary">
+                                                    {movement.entryDate}
+                                                </td>
+                                                <td className="px-3 py-2 text-sm text-primary">
+                                                    <div>
+                                                        {movement.entryNumber ||
+                                                            '—'}
+                                                    </div>
+                                                    {movement.description && (
+                                                        <div className="text-xs text-primary-50">
+                                                            {
+                                                                movement.description
+                                                            }
+                                                        </div>
+                                                    )}
+                                                </td>
+                                                <td className="px-3 py-2 text-sm text-primary-75">
+                                                    {movement.accountName}
+                                                </td>
+                                                <td className="px-3 py-2 text-sm text-right text-primary">
+                                                    {movement.debit
+                                                        ? currencyFormatter.format(
+                                                              movement.debit
+                                                          )
+                                                        : ''}
+                                                </td>
+                                                <td className="px-3 py-2 text-sm text-right text-primary">
+                                                    {movement.credit
+                                                        ? currencyFormatter.format(
+                                                              movement.credit
+                                                          )
+                                                        : ''}
+                                                </td>
+                                                <td className="px-3 py-2 text-sm text-right font-semibold text-primary">
+                                                    {currencyFormatter.format(
+                                                        movement.runningBalance
+                                                    )}
+                                                </td>
+                                            </tr>
+                                        ))
+                                    )}
+                                </tbody>
+                            </table>
+                        </div>
+
+                        {ledger.pagination.totalPages > 1 && (
+                            <div className="flex items-center justify-end gap-2">
+                                <Button
+                                    variant="outline"
+                                    disabled={
+                                        !ledger.pagination.hasPreviousPage
+                                    }
+                                    onClick={() =>
+                                        setLedgerPage((page) => page - 1)
+                                    }
+                                >
+                                    Previous
+                                </Button>
+                                <span className="text-sm text-primary-50">
+                                    Page {ledger.pagination.page} of{' '}
+                                    {ledger.pagination.totalPages}
+                                </span>
+                                <Button
+                                    variant="outline"
+                                    disabled={!ledger.pagination.hasNextPage}
+                                    onClick={() =>
+                                        setLedgerPage((page) => page + 1)
+                                    }
+                                >
+                                    Next
+                                </Button>
+                            </div>
+                        )}
+                    </div>
+                )}
+            </Popup>
+
+            {/* Delete Confirmation Dialog */}
+            <ConfirmationDialog
+                isOpen={!!deleteContact}
+                onClose={() => setDeleteContact(null)}
+                onConfirm={handleDelete}
+                title="Delete Contact"
+                message={`Are you sure you want to delete "${deleteContact?.displayName}"? Existing entries keep referencing the contact.`}
+                confirmText="Delete"
+                cancelText="Cancel"
+                confirmVariant="danger"
+                loading={deleteMutation.isPending}
+            />
+        </div>
+    );
+};
+
+export default Contactspage;
@@ -7,6 +7,7 @@ import {
   FaPiggyBank,
 } from "react-icons/fa";
 import { FaArrowTrendUp } from "react-icons/fa6";
+import { Link } from "react-router";
 import AIInsightCard from "../../components/dashboard/AIInsightCard";
 import ChairUtilizationChart from "../../components/dashboard/charts/ChairUtilizationChart";
 import ExpensePieChart from "../../components/dashboard/charts/ExpensePieChart";
@@ -16,6 +17,38 @@ import RevenueBarChart from "../../components/dashboard/charts/RevenueBarChart";
 import ChartWidget from "../../components/dashboard/ChartWidget";
 import ResizableCard from "../../components/dashboard/ResizableCard";
 import SummaryCard from "../../components/dashboard/SummaryCard";
+import Loading from "../../components/shared/Loading";
+import { useBudgets } from "../../services/apis/budgetApi";
+import { useBudgetVsActual } from "../../services/apis/reportsApi";
+import { getCurrentBudget } from "../../utills/budget";
+
+/**
+ * Actual against budgeted profit margin of each month of the current
+ * budget, up to the current month
+ */
+const useProfitabilityTrend = () => {
+  const { data: budgetsData, isLoading: isBudgetsLoading } = useBudgets({
+    limit: 100,
+  });
+  const budget = getCurrentBudget(budgetsData?.data?.items ?? []);
+  const { data, isLoading } = useBudgetVsActual(budget?.id);
+  const report = data?.data;
+  const today = new Date().toISOString().split("T")[0];
+  // Months are in order, so the started months are the first ones
+  const startedMonths = (report?.months ?? []).filter(
+    (month) => month.startDate <= today,
+  );
+
+  return {
+    budget,
+    isLoading: isBudgetsLoading || isLoading,
+    chartData: startedMonths.map((month, index) => ({
+      month: month.label,
+      profitMargin: report?.summary.months[index]?.actualProfitMargin ?? null,
+      target: report?.summary.months[index]?.budgetProfitMargin ?? null,
+    })),
+  };
+};
 
 // TODO: Replace with API data fetching
 const useDashboardData = () => {
@@ -67,13 +100,6 @@ const useDashboardData = () => {
         direction: "up" as const,
         period: "3 months avg",
       },
-      chartData: [
-        { month: "Jan", profitMargin: 38, target: 40 },
-        { month: "Feb", profitMargin: 40, target: 40 },
-        { month: "Mar", profitMargin: 39, target: 40 },
-        { month: "Apr", profitMargin: 41, target: 40 },
-        { month: "May", profitMargin: 42, target: 40 },
-      ],
     },
 
     // Revenue by Procedure Type
@@ -166,6 +192,7 @@ const useDashboardData = () => {
 
 const Dashboardpage = () => {
   const data = useDashboardData();
+  const profitabilityTrend = useProfitabilityTrend();
   const [cardOrder, setCardOrder] = useState<string[]>(() => {
     try {
       const saved = localStorage.getItem("dashboard-card-order");
@@ -463,10 +490,28 @@ const Dashboardpage = () => {
             {/* Profitability Trend */}
             <ChartWidget
               title="Profitability Trend"
-              subtitle="Net profit margin over the last 5 months"
-              aiInsight="Profitability is trending upward and exceeding target."
+              subtitle={
+                profitabilityTrend.budget
+                  ? `Net profit margin against ${profitabilityTrend.budget.name}`
+                  : "Net profit margin against budget"
+              }
             >
-              <ProfitabilityLineChart data={data.profitability.chartData} />
+              {profitabilityTrend.isLoading ? (
+                <div className="flex items-center justify-center h-[200px]">
+                  <Loading />
+                </div>
+              ) : profitabilityTrend.chartData.length === 0 ? (
+                <div className="flex flex-col items-center justify-center gap-2 h-[200px] text-sm text-primary-50">
+                  {profitabilityTrend.budget
+                    ? "No months of the budget have started yet."
+                    : "Create a budget to follow your profit margin against its target."}
+                  <Link to="/budgets" className="text-primary hover:underline">
+                    Go to budgets
+                  </Link>
+                </div>
+              ) : (
+                <ProfitabilityLineChart data={profitabilityTrend.chartData} />
+              )}
             </ChartWidget>
           </div>
 
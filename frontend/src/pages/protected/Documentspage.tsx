@@ -2,140 +2,112 @@ import { useRef, useState } from 'react';
 import {
     FaDownload,
     FaEye,
-    FaFile,
-    FaFileExcel,
-    FaFileImage,
-    FaFilePdf,
-    FaFileWord,
     FaFilter,
     FaFolder,
     FaSearch,
+    FaTag,
     FaTrash,
     FaUpload,
 } from 'react-icons/fa';
+import {
+    DOCUMENT_ACCEPT,
+    DOCUMENT_CATEGORY_LABELS,
+    formatFileSize,
+    getCategoryFromFileName,
+    getFileIcon,
+} from '../../components/documents/documentFiles';
 import ConfirmationDialog from '../../components/shared/ConfirmationDialog';
-import { InputField } from '../../components/typography/InputFields';
-
-type Document = {
-    id: string;
-    name: string;
-    type: string;
-    size: number;
-    uploadedDate: string;
-    category: string;
-    uploadedBy: string;
-};
-
-const MOCK_DOCUMENTS: Document[] = [
-    {
-        id: '1',
-        name: 'Invoice_2024_001.pdf',
-        type: 'pdf',
-        size: 245760,
-        uploadedDate: '2024-01-15',
-        category: 'Invoices',
-        uploadedBy: 'John Doe',
-    },
-    {
-        id: '2',
-        name: 'Receipt_Office_Supplies.jpg',
-        type: 'image',
-        size: 1024000,
-        uploadedDate: '2024-01-18',
-        category: 'Receipts',
-        uploadedBy: 'Jane Smith',
-    },
-    {
-        id: '3',
-        name: 'Financial_Report_Q1.xlsx',
-        type: 'excel',
-        size: 512000,
-        uploadedDate: '2024-01-20',
-        category: 'Reports',
-        uploadedBy: 'John Doe',
-    },
-    {
-        id: '4',
-        name: 'Contract_Agreement.docx',
-        type: 'word',
-        size: 128000,
-        uploadedDate: '2024-01-22',
-        category: 'Contracts',
-        uploadedBy: 'Jane Smith',
-    },
-];
+import Loading from '../../components/shared/Loading';
+import Popup from '../../components/shared/Popup';
+import Button from '../../components/typography/Button';
+import {
+    InputField,
+    SelectField,
+    TextareaField,
+} from '../../components/typography/InputFields';
+import {
+    useDeleteDocument,
+    useDocument,
+    useDocumentUsage,
+    useDocuments,
+    useDownloadDocument,
+    useUpdateDocument,
+    useUploadDocument,
+} from '../../services/apis/documentApi';
+import type {
+    DocumentCategory,
+    DocumentEntityType,
+    DocumentFilters,
+} from '../../types/document';
 
-const CATEGORIES = [
-    'All',
-    'Invoices',
-    'Receipts',
-    'Reports',
-    'Contracts',
-    'Tax Documents',
-    'Other',
+const CATEGORIES: { value: DocumentCategory | 'all'; label: string }[] = [
+    { value: 'all', label: 'All' },
+    ...(Object.keys(DOCUMENT_CATEGORY_LABELS) as DocumentCategory[]).map(
+        (category) => ({
+            value: category,
+            label: DOCUMENT_CATEGORY_LABELS[category],
+        })
+    ),
 ];
 
-const formatFileSize = (bytes: number): string => {
-    if (bytes < 1024) return bytes + ' B';
-    if (bytes < 1024 * 1024) return (bytes / 1024).toFixed(2) + ' KB';
-    return (bytes / (1024 * 1024)).toFixed(2) + ' MB';
+const ENTITY_TYPE_LABELS: Record<DocumentEntityType, string> = {
+    journal_entry: 'Journal entry',
+    invoice: 'Invoice',
+    bill: 'Bill',
+    tax_exemption: 'Tax exemption',
 };
 
-const getFileIcon = (type: string) => {
-    switch (type) {
-        case 'pdf':
-            return <FaFilePdf className="w-6 h-6 text-red-600" />;
-        case 'image':
-            return <FaFileImage className="w-6 h-6 text-green-600" />;
-        case 'excel':
-            return <FaFileExcel className="w-6 h-6 text-green-700" />;
-        case 'word':
-            return <FaFileWord className="w-6 h-6 text-blue-600" />;
-        default:
-            return <FaFile className="w-6 h-6 text-primary-50" />;
-    }
-};
+const PAGE_SIZE = 24;
 
-const getFileType = (fileName: string): string => {
-    const extension = fileName.split('.').pop()?.toLowerCase() || '';
-    if (['pdf'].includes(extension)) return 'pdf';
-    if (['jpg', 'jpeg', 'png', 'gif', 'bmp', 'webp', 'svg'].includes(extension))
-        return 'image';
-    if (['xls', 'xlsx', 'csv'].includes(extension)) return 'excel';
-    if (['doc', 'docx'].includes(extension)) return 'word';
-    return 'file';
-};
-
-const getCategoryFromFileName = (fileName: string): string => {
-    const lowerName = fileName.toLowerCase();
-    if (lowerName.includes('invoice')) return 'Invoices';
-    if (lowerName.includes('receipt')) return 'Receipts';
-    if (lowerName.includes('report')) return 'Reports';
-    if (lowerName.includes('contract')) return 'Contracts';
-    if (lowerName.includes('tax')) return 'Tax Documents';
-    return 'Other';
+type EditForm = {
+    name: string;
+    category: DocumentCategory;
+    tags: string;
+    description: string;
 };
 
 const Documentspage = () => {
-    const [documents, setDocuments] = useState<Document[]>(MOCK_DOCUMENTS);
     const [searchQuery, setSearchQuery] = useState('');
-    const [categoryFilter, setCategoryFilter] = useState<string>('All');
-    const [isUploading, setIsUploading] = useState(false);
+    const [categoryFilter, setCategoryFilter] = useState<
+        DocumentCategory | 'all'
+    >('all');
+    const [tagFilter, setTagFilter] = useState('');
+    const [page, setPage] = useState(1);
     const [dragActive, setDragActive] = useState(false);
     const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
     const [documentToDelete, setDocumentToDelete] = useState<string | null>(
         null
     );
+    const [viewDocumentId, setViewDocumentId] = useState<string | null>(null);
+    const [editForm, setEditForm] = useState<EditForm | null>(null);
     const fileInputRef = useRef<HTMLInputElement>(null);
 
-    const filteredDocuments = documents.filter((doc) => {
-        const matchesSearch = doc.name
-            .toLowerCase()
-            .includes(searchQuery.toLowerCase());
-        const matchesCategory =
-            categoryFilter === 'All' || doc.category === categoryFilter;
-        return matchesSearch && matchesCategory;
-    });
+    const filters: DocumentFilters = {
+        page,
+        limit: PAGE_SIZE,
+        search: searchQuery || undefined,
+        category: categoryFilter === 'all' ? undefined : categoryFilter,
+        tag: tagFilter.trim() || undefined,
+    };
+
+    const { data, isLoading } = useDocuments(filters);
+    const { data: usageData } = useDocumentUsage();
+    const { data: viewData, isLoading: isViewLoading } = useDocument(
+        viewDocumentId ?? undefined
+    );
+    const uploadMutation = useUploadDocument();
+    const updateMutation = useUpdateDocument();
+    const deleteMutation = useDeleteDocument();
+    const downloadMutation = useDownloadDocument();
+
+    const documents = data?.data?.items ?? [];
+    const total = data?.data?.pagination?.total ?? 0;
+    const usage = usageData?.data;
+    const viewDocument = viewData?.data ?? null;
+    const usagePercent =
+        usage && usage.quotaBytes > 0
+            ? Math.min(100, (usage.usedBytes / usage.quotaBytes) * 100)
+            : 0;
 
     const handleDrag = (e: React.DragEvent) => {
         e.preventDefault();
@@ -167,41 +139,17 @@ const Documentspage = () => {
         }
     };
 
+    // Upload one file at a time so each is checked against the quota
     const handleFiles = async (files: File[]) => {
-        setIsUploading(true);
-
-        try {
-            // Process each file
-            const newDocuments: Document[] = files.map((file) => {
-                const fileType = getFileType(file.name);
-                const category = getCategoryFromFileName(file.name);
-                const uploadedBy = 'Current User'; // You can get this from auth context
-
-                return {
-                    id:
-                        Date.now().toString() +
-                        Math.random().toString(36).substr(2, 9),
-                    name: file.name,
-                    type: fileType,
-                    size: file.size,
-                    uploadedDate: new Date().toISOString().split('T')[0],
-                    category: category,
-                    uploadedBy: uploadedBy,
-                };
-            });
-
-            // Simulate upload delay
-            await new Promise((resolve) => setTimeout(resolve, 1000));
-
-            // Add new documents to the list
-            setDocuments((prevDocuments) => [
-                ...newDocuments,
-                ...prevDocuments,
-            ]);
-        } catch (error) {
-            console.error('Error uploading files:', error);
-        } finally {
-            setIsUploading(false);
+        for (const file of files) {
+            try {
+                await uploadMutation.mutateAsync({
+                    file,
+                    category: getCategoryFromFileName(file.name),
+                });
+            } catch {
+                // The hook shows the error; carry on with the other files
+            }
         }
     };
 
@@ -209,6 +157,47 @@ const Documentspage = () => {
         fileInputRef.current?.click();
     };
 
+    const handleView = (documentId: string) => {
+        const doc = documents.find((item) => item.id === documentId);
+        setViewDocumentId(documentId);
+        setEditForm(
+            doc
+                ? {
+                      name: doc.name,
+                      category: doc.category,
+                      tags: doc.tags.join(', '),
+                      description: doc.description ?? '',
+                  }
+                : null
+        );
+    };
+
+    const handleCloseView = () => {
+        setViewDocumentId(null);
+        setEditForm(null);
+    };
+
+    const handleSaveDocument = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!viewDocumentId || !editForm) return;
+
+        updateMutation.mutate(
+            {
+                id: viewDocumentId,
+                payload: {
+                    name: editForm.name.trim(),
+                    category: editForm.category,
+                    tags: editForm.tags
+                        .split(',')
+                        .map((tag) => tag.trim())
+                        .filter(Boolean),
+                    description: editForm.description.trim() || null,
+                },
+            },
+            { onSuccess: handleCloseView }
+        );
+    };
+
     const handleDeleteClick = (documentId: string) => {
         setDocumentToDelete(documentId);
         setDeleteDialogOpen(true);
@@ -216,11 +205,12 @@ const Documentspage = () => {
 
     const handleConfirmDelete = () => {
         if (documentToDelete) {
-            setDocuments((prevDocuments) =>
-                prevDocuments.filter((doc) => doc.id !== documentToDelete)
-            );
-            setDeleteDialogOpen(false);
-            setDocumentToDelete(null);
+            deleteMutation.mutate(documentToDelete, {
+                onSuccess: () => {
+                    setDeleteDialogOpen(false);
+                    setDocumentToDelete(null);
+                },
+            });
         }
     };
 
@@ -236,7 +226,7 @@ const Documentspage = () => {
                 ref={fileInputRef}
                 type="file"
                 multiple
-                accept=".pdf,.jpg,.jpeg,.png,.gif,.bmp,.webp,.svg,.xls,.xlsx,.csv,.doc,.docx"
+                accept={DOCUMENT_ACCEPT}
                 onChange={handleFileInputChange}
                 className="hidden"
             />
@@ -262,10 +252,33 @@ const Documentspage = () => {
                     or click here to browse files
                 </p>
                 <p className="text-xs text-primary-50">
-                    Supported formats: PDF, Images, Excel, Word
+                    Supported formats: PDF, Images, Excel, CSV, Word
+                    {usage &&
+                        ` (up to ${formatFileSize(usage.maxFileSizeBytes)})`}
                 </p>
             </div>
 
+            {/* Storage Usage */}
+            {usage && (
+                <div className="w-full max-w-3xl mx-auto">
+                    <div className="flex justify-between text-xs text-primary-50 mb-1">
+                        <span>
+                            {usage.documentCount} documents,{' '}
+                            {formatFileSize(usage.usedBytes)} used
+                        </span>
+                        <span>{formatFileSize(usage.quotaBytes)} quota</span>
+                    </div>
+                    <div className="h-2 bg-primary-10 rounded-full overflow-hidden">
+                        <div
+                            className={`h-full rounded-full ${
+                                usagePercent >= 90 ? 'bg-red-500' : 'bg-primary'
+                            }`}
+                            style={{ width: `${usagePercent}%` }}
+                        />
+                    </div>
+                </div>
+            )}
+
             {/* Filters */}
             <div className="bg-white rounded-2 shadow-sm border border-primary-10 p-4">
                 <div className="flex flex-col sm:flex-row gap-4">
@@ -276,20 +289,43 @@ const Documentspage = () => {
                                 id="search-documents"
                                 placeholder="Search documents..."
                                 value={searchQuery}
-                                onChange={(e) => setSearchQuery(e.target.value)}
+                                onChange={(e) => {
+                                    setSearchQuery(e.target.value);
+                                    setPage(1);
+                                }}
                             />
                         </div>
                     </div>
+                    <div className="flex items-center gap-2">
+                        <FaTag className="text-primary-50" />
+                        <InputField
+                            id="tag-documents"
+                            placeholder="Tag"
+                            value={tagFilter}
+                            onChange={(e) => {
+                                setTagFilter(e.target.value);
+                                setPage(1);
+                            }}
+                        />
+                    </div>
                     <div className="flex items-center gap-2">
                         <FaFilter className="text-primary-50" />
                         <select
                             value={categoryFilter}
-                            onChange={(e) => setCategoryFilter(e.target.value)}
+                            onChange={(e) => {
+                                setCategoryFilter(
+                                    e.target.value as DocumentCategory | 'all'
+                                );
+                                setPage(1);
+                            }}
                             className="px-4 py-2 border border-primary-10 rounded-2 text-sm text-primary focus:outline-none focus:border-primary"
                         >
                             {CATEGORIES.map((category) => (
-                                <option key={category} value={category}>
-                                    {category}
+                                <option
+                                    key={category.value}
+                                    value={category.value}
+                                >
+                                    {category.label}
                                 </option>
                             ))}
                         </select>
@@ -298,7 +334,7 @@ const Documentspage = () => {
             </div>
 
             {/* Documents Grid */}
-            {isUploading && (
+            {uploadMutation.isPending && (
                 <div className="bg-blue-50 border border-blue-200 rounded-2 p-4 text-center">
                     <p className="text-blue-700 font-medium">
                         Uploading files...
@@ -306,70 +342,284 @@ const Documentspage = () => {
                 </div>
             )}
 
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4">
-                {filteredDocuments.length === 0 ? (
-                    <div className="col-span-full text-center py-12 text-primary-50">
-                        No documents found
-                    </div>
-                ) : (
-                    filteredDocuments.map((doc) => (
-                        <div
-                            key={doc.id}
-                            className="bg-white rounded-2 shadow-sm border border-primary-10 p-4 hover:shadow-md transition-shadow"
-                        >
-                            <div className="flex items-start justify-between mb-3">
-                                <div className="flex items-center gap-3 flex-1 min-w-0">
-                                    {getFileIcon(doc.type)}
-                                    <div className="flex-1 min-w-0">
-                                        <div className="font-medium text-primary truncate">
-                                            {doc.name}
-                                        </div>
-                                        <div className="text-xs text-primary-50">
-                                            {formatFileSize(doc.size)}
+            {isLoading ? (
+                <div className="flex items-center justify-center min-h-[200px]">
+                    <Loading />
+                </div>
+            ) : (
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4">
+                    {documents.length === 0 ? (
+                        <div className="col-span-full text-center py-12 text-primary-50">
+                            No documents found
+                        </div>
+                    ) : (
+                        documents.map((doc) => (
+                            <div
+                                key={doc.id}
+                                className="bg-white rounded-2 shadow-sm border border-primary-10 p-4 hover:shadow-md transition-shadow"
+                            >
+                                <div className="flex items-start justify-between mb-3">
+                                    <div className="flex items-center gap-3 flex-1 min-w-0">
+                                        {getFileIcon(doc.mimeType)}
+                                        <div className="flex-1 min-w-0">
+                                            <div className="font-medium text-primary truncate">
+                                                {doc.name}
+                                            </div>
+                                            <div className="text-xs text-primary-50">
+                                                {formatFileSize(doc.sizeBytes)}
+                                            </div>
                                         </div>
                                     </div>
                                 </div>
-                            </div>
-                            <div className="space-y-2 mb-3">
-                                <div className="flex items-center gap-2 text-xs text-primary-50">
-                                    <FaFolder className="w-3 h-3" />
-                                    <span>{doc.category}</span>
-                                </div>
-                                <div className="text-xs text-primary-50">
-                                    Uploaded:{' '}
-                                    {new Date(
-                                        doc.uploadedDate
-                                    ).toLocaleDateString()}
+                                <div className="space-y-2 mb-3">
+                                    <div className="flex items-center gap-2 text-xs text-primary-50">
+                                        <FaFolder className="w-3 h-3" />
+                                        <span>
+                                            {
+                                                DOCUMENT_CATEGORY_LABELS[
+                                                    doc.category
+                                                ]
+                                            }
+                                        </span>
+                                    </div>
+                                    <div className="text-xs text-primary-50">
+                                        Uploaded:{' '}
+                                        {new Date(
+                                            doc.createdAt
+                                        ).toLocaleDateString()}
+                                    </div>
+                                    {doc.tags.length > 0 && (
+                                        <div className="flex flex-wrap gap-1">
+                                            {doc.tags.map((tag) => (
+                                                <button
+                                                    key={tag}
+                                                    type="button"
+                                                    onClick={() => {
+                                                        setTagFilter(tag);
+                                                        setPage(1);
+                                                    }}
+                                                    className="px-2 py-0.5 text-xs text-primary bg-primary-10 rounded-full hover:bg-primary-25"
+                                                >
+                                                    {tag}
+                                                </button>
+                                            ))}
+                                        </div>
+                                    )}
                                 </div>
-                                <div className="text-xs text-primary-50">
-                                    By: {doc.uploadedBy}
+                                <div className="flex items-center gap-2 pt-3 border-t border-primary-10">
+                                    <button
+                                        onClick={() => handleView(doc.id)}
+                                        className="flex-1 px-3 py-2 text-xs font-medium text-primary bg-primary-10 rounded-lg hover:bg-primary-25 transition-colors"
+                                        title="View"
+                                    >
+                                        <FaEye className="w-3 h-3 mx-auto" />
+                                    </button>
+                                    <button
+                                        onClick={() =>
+                                            downloadMutation.mutate(doc.id)
+                                        }
+                                        disabled={downloadMutation.isPending}
+                                        className="flex-1 px-3 py-2 text-xs font-medium text-primary bg-primary-10 rounded-lg hover:bg-primary-25 transition-colors"
+                                        title="Download"
+                                    >
+                                        <FaDownload className="w-3 h-3 mx-auto" />
+                                    </button>
+                                    <button
+                                        onClick={() =>
+                                            handleDeleteClick(doc.id)
+                                        }
+                                        className="flex-1 px-3 py-2 text-xs font-medium text-red-600 bg-red-50 rounded-lg hover:bg-red-100 transition-colors"
+                                        title="Delete"
+                                    >
+                                        <FaTrash className="w-3 h-3 mx-auto" />
+                                    </button>
                                 </div>
                             </div>
-                            <div className="flex items-center gap-2 pt-3 border-t border-primary-10">
-                                <button
-                                    className="flex-1 px-3 py-2 text-xs font-medium text-primary bg-primary-10 rounded-lg hover:bg-primary-25 transition-colors"
-                                    title="View"
-                                >
-                                    <FaEye className="w-3 h-3 mx-auto" />
-                                </button>
-                                <button
-                                    className="flex-1 px-3 py-2 text-xs font-medium text-primary bg-primary-10 rounded-lg hover:bg-primary-25 transition-colors"
-                                    title="Download"
-                                >
-                                    <FaDownload className="w-3 h-3 mx-auto" />
-                                </button>
-                                <button
-                                    onClick={() => handleDeleteClick(doc.id)}
-                                    className="flex-1 px-3 py-2 text-xs font-medium text-red-600 bg-red-50 rounded-lg hover:bg-red-100 transition-colors"
-                                    title="Delete"
-                                >
-                                    <FaTrash className="w-3 h-3 mx-auto" />
-                                </button>
+                        ))
+                    )}
+                </div>
+            )}
+
+            {/* Pagination */}
+            {total > PAGE_SIZE && (
+                <div className="flex items-center justify-between">
+                    <div className="text-sm text-primary-75">
+                        Showing {(page - 1) * PAGE_SIZE + 1} to{' '}
+                        {Math.min(page * PAGE_SIZE, total)} of {total} documents
+                    </div>
+                    <div className="flex gap-2">
+                        <Button
+                            variant="outline"
+                            onClick={() => setPage(page - 1)}
+                            disabled={page === 1}
+                        >
+                            Previous
+                        </Button>
+                        <Button
+                            variant="outline"
+                            onClick={() => setPage(page + 1)}
+                            disabled={page * PAGE_SIZE >= total}
+                        >
+                            Next
+                        </Button>
+                    </div>
+                </div>
+            )}
+
+            {/* View Document Modal */}
+            <Popup
+                isOpen={!!viewDocumentId}
+                onClose={handleCloseView}
+                title={viewDocument?.name ?? 'Document'}
+                size="xl"
+                loading={updateMutation.isPending}
+                footer={
+                    <div className="flex gap-3">
+                        <Button
+                            type="button"
+                            variant="outline"
+                            onClick={() =>
+                                viewDocumentId &&
+                                downloadMutation.mutate(viewDocumentId)
+                            }
+                            disabled={downloadMutation.isPending}
+                        >
+                            <FaDownload className="w-3 h-3" />
+                            Download
+                        </Button>
+                        <Button
+                            type="submit"
+                            variant="primary"
+                            loading={updateMutation.isPending}
+                            disabled={updateMutation.isPending || !editForm}
+                            form="document-form"
+                        >
+                            Save
+                        </Button>
+                    </div>
+                }
+            >
+                {isViewLoading || !viewDocument || !editForm ? (
+                    <div className="flex items-center justify-center min-h-[200px]">
+                        <Loading />
+                    </div>
+                ) : (
+                    <form
+                        id="document-form"
+                        onSubmit={handleSaveDocument}
+                        className="flex flex-col gap-4 text-sm"
+                    >
+                        <div className="grid grid-cols-2 sm:grid-cols-3 gap-4">
+                            <div>
+                                <p className="text-xs text-primary-50">Size</p>
+                                <p className="text-primary">
+                                    {formatFileSize(viewDocument.sizeBytes)}
+                                </p>
+                            </div>
+                            <div>
+                                <p className="text-xs text-primary-50">
+                                    Uploaded
+                                </p>
+                                <p className="text-primary">
+                                    {new Date(
+                                        viewDocument.createdAt
+                                    ).toLocaleString()}
+                                </p>
+                            </div>
+                            <div>
+                                <p className="text-xs text-primary-50">
+                                    Virus scan
+                                </p>
+                                <p className="text-primary">
+                                    {viewDocument.scanStatus === 'clean'
+                                        ? 'Clean'
+                                        : 'Not scanned'}
+                                </p>
                             </div>
                         </div>
-                    ))
+                        <InputField
+                            id="document-name"
+                            label="Name"
+                            required
+                            value={editForm.name}
+                            onChange={(e) =>
+                                setEditForm({
+                                    ...editForm,
+                                    name: e.target.value,
+                                })
+                            }
+                        />
+                        <SelectField
+                            id="document-category"
+                            label="Category"
+                            value={editForm.category}
+                            options={CATEGORIES.filter(
+                                (category) => category.value !== 'all'
+                            )}
+                            onChange={(e) =>
+                                setEditForm({
+                                    ...editForm,
+                                    category: e.target
+                                        .value as DocumentCategory,
+                                })
+                            }
+                        />
+                        <InputField
+                            id="document-tags"
+                            label="Tags"
+                            placeholder="Comma-separated, e.g. office, 2025"
+                            value={editForm.tags}
+                            onChange={(e) =>
+                                setEditForm({
+                                    ...editForm,
+                                    tags: e.target.value,
+                                })
+                            }
+                        />
+                        <TextareaField
+                            id="document-description"
+                            label="Description"
+                            value={editForm.description}
+                            onChange={(e) =>
+                                setEditForm({
+                                    ...editForm,
+                                    description: e.target.value,
+                                })
+                            }
+                        />
+                        <div>
+                            <p className="text-xs text-primary-50 mb-1">
+                                Attached to
+                            </p>
+                            {(viewDocument.attachments ?? []).length === 0 ? (
+                                <p className="text-primary-75">
+                                    Not attached to any record
+                                </p>
+                            ) : (
+                                <ul className="space-y-1">
+                                    {(viewDocument.attachments ?? []).map(
+                                        (attachment) => (
+                                            <li
+                                                key={attachment.id}
+                                                className="text-primary"
+                                            >
+                                                {
+                                                    ENTITY_TYPE_LABELS[
+                                                        attachment.entityType
+                                                    ]
+                                                }{' '}
+                                                <span className="text-primary-50">
+                                                    {attachment.entityId}
+                                                </span>
+                                            </li>
+                                        )
+                                    )}
+                                </ul>
+                            )}
+                        </div>
+                    </form>
                 )}
-            </div>
+            </Popup>
 
             {/* Delete Confirmation Dialog */}
             <ConfirmationDialog
@@ -377,10 +627,11 @@ const Documentspage = () => {
                 onClose={handleCancelDelete}
                 onConfirm={handleConfirmDelete}
                 title="Delete Document"
-                message="Are you sure you want to delete this document? This action cannot be undone."
+                message="Are you sure you want to delete this document? It is removed from every record it is attached to. This action cannot be undone."
                 confirmText="Delete"
                 cancelText="Cancel"
                 confirmVariant="danger"
+                loading={deleteMutation.isPending}
             />
         </div>
     );
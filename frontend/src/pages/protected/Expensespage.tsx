@@ -1,76 +1,51 @@
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
 import {
+    FaBan,
+    FaCheck,
+    FaCheckCircle,
+    FaClock,
+    FaCog,
     FaEdit,
+    FaEye,
+    FaFileInvoice,
     FaFilter,
-    FaReceipt,
+    FaPlus,
     FaSearch,
     FaTag,
+    FaTimesCircle,
     FaTrash,
 } from 'react-icons/fa';
+import BillFormModal from '../../components/bill/BillFormModal';
+import DocumentAttachments from '../../components/documents/DocumentAttachments';
+import ConfirmationDialog from '../../components/shared/ConfirmationDialog';
+import Loading from '../../components/shared/Loading';
+import Popup from '../../components/shared/Popup';
 import Button from '../../components/typography/Button';
-import { InputField } from '../../components/typography/InputFields';
-
-type Expense = {
-    id: string;
-    date: string;
-    vendor: string;
-    category: string;
-    amount: number;
-    description: string;
-    receipt?: string;
-    paymentMethod: string;
-};
-
-const MOCK_EXPENSES: Expense[] = [
-    {
-        id: '1',
-        date: '2024-01-15',
-        vendor: 'Office Supplies Co',
-        category: 'Office Supplies',
-        amount: 250.5,
-        description: 'Printer paper and pens',
-        paymentMethod: 'Credit Card',
-    },
-    {
-        id: '2',
-        date: '2024-01-18',
-        vendor: 'Cloud Services Inc',
-        category: 'Software',
-        amount: 99.99,
-        description: 'Monthly subscription',
-        paymentMethod: 'Bank Transfer',
-    },
-    {
-        id: '3',
-        date: '2024-01-20',
-        vendor: 'Utility Company',
-        category: 'Utilities',
-        amount: 450.0,
-        description: 'Electricity bill',
-        paymentMethod: 'Bank Transfer',
-    },
-    {
-        id: '4',
-        date: '2024-01-22',
-        vendor: 'Marketing Agency',
-        category: 'Marketing',
-        amount: 1500.0,
-        description: 'Q1 Marketing campaign',
-        paymentMethod: 'Check',
-    },
-];
-
-const CATEGORIES = [
-    'Office Supplies',
-    'Software',
-    'Utilities',
-    'Marketing',
-    'Travel',
-    'Meals',
-    'Rent',
-    'Insurance',
-    'Other',
-];
+import {
+    InputField,
+    SelectField,
+    TextareaField,
+} from '../../components/typography/InputFields';
+import {
+    useBill,
+    useBillSettings,
+    useBills,
+    useCreateBill,
+    useDeleteBill,
+    usePostBill,
+    useUpdateBill,
+    useUpdateBillSettings,
+    useVoidBill,
+} from '../../services/apis/billApi';
+import { useChartOfAccounts } from '../../services/apis/chartsAccountApi';
+import { useContacts } from '../../services/apis/contactApi';
+import type {
+    Bill,
+    BillStatus,
+    BillType,
+    CreateBillPayload,
+} from '../../types/bill';
+import { showSuccessToast } from '../../utills/toast';
 
 const currencyFormatter = new Intl.NumberFormat('en-US', {
     style: 'currency',
@@ -78,39 +53,314 @@ const currencyFormatter = new Intl.NumberFormat('en-US', {
     minimumFractionDigits: 2,
 });
 
+const statusConfig: Record<
+    BillStatus,
+    { label: string; color: string; icon: typeof FaClock }
+> = {
+    draft: {
+        label: 'Draft',
+        color: 'bg-gray-100 text-gray-700',
+        icon: FaFileInvoice,
+    },
+    open: { label: 'Open', color: 'bg-blue-100 text-blue-700', icon: FaClock },
+    partially_paid: {
+        label: 'Partially Paid',
+        color: 'bg-yellow-100 text-yellow-700',
+        icon: FaClock,
+    },
+    paid: {
+        label: 'Paid',
+        color: 'bg-green-100 text-green-700',
+        icon: FaCheckCircle,
+    },
+    overdue: {
+        label: 'Overdue',
+        color: 'bg-red-100 text-red-700',
+        icon: FaTimesCircle,
+    },
+    void: {
+        label: 'Void',
+        color: 'bg-gray-100 text-gray-500',
+        icon: FaBan,
+    },
+};
+
+const billTypeLabels: Record<BillType, string> = {
+    bill: 'Bill',
+    expense: 'Expense',
+};
+
+type SettingsFormState = {
+    payableAccountId: string;
+    taxAccountId: string;
+};
+
+// Expense accounts of the lines, without repeats
+const getCategories = (bill: Bill) =>
+    Array.from(
+        new Set(
+            (bill.lines ?? []).map(
+                (line) => line.account?.accountName ?? 'Uncategorized'
+            )
+        )
+    );
+
 const Expensespage = () => {
-    const [expenses] = useState<Expense[]>(MOCK_EXPENSES);
     const [searchQuery, setSearchQuery] = useState('');
     const [categoryFilter, setCategoryFilter] = useState<string>('all');
+    const [vendorFilter, setVendorFilter] = useState<string>('all');
+    const [statusFilter, setStatusFilter] = useState<BillStatus | 'all'>('all');
+    const [typeFilter, setTypeFilter] = useState<BillType | 'all'>('all');
+    const [startDate, setStartDate] = useState('');
+    const [endDate, setEndDate] = useState('');
     const [showCreateModal, setShowCreateModal] = useState(false);
+    const [editingBillId, setEditingBillId] = useState<string | null>(null);
+    const [viewBillId, setViewBillId] = useState<string | null>(null);
+    const [deleteBill, setDeleteBill] = useState<Bill | null>(null);
+    const [voidBill, setVoidBill] = useState<Bill | null>(null);
+    const [voidReason, setVoidReason] = useState('');
+    const [showSettings, setShowSettings] = useState(false);
+    const [settingsForm, setSettingsForm] = useState<SettingsFormState>({
+        payableAccountId: '',
+        taxAccountId: '',
+    });
 
-    const filteredExpenses = expenses.filter((expense) => {
-        const matchesSearch =
-            expense.vendor.toLowerCase().includes(searchQuery.toLowerCase()) ||
-            expense.description
-                .toLowerCase()
-                .includes(searchQuery.toLowerCase());
-        const matchesCategory =
-            categoryFilter === 'all' || expense.category === categoryFilter;
-        return matchesSearch && matchesCategory;
+    // API hooks
+    const { data, isLoading, error } = useBills({
+        search: searchQuery || undefined,
+        accountId: categoryFilter !== 'all' ? categoryFilter : undefined,
+        contactId: vendorFilter !== 'all' ? vendorFilter : undefined,
+        status: statusFilter !== 'all' ? statusFilter : undefined,
+        billType: typeFilter !== 'all' ? typeFilter : undefined,
+        startDate: startDate || undefined,
+        endDate: endDate || undefined,
+        limit: 100,
     });
+    const { data: editingData, isLoading: isEditingLoading } = useBill(
+        editingBillId ?? undefined
+    );
+    const { data: viewData, isLoading: isViewLoading } = useBill(
+        viewBillId ?? undefined
+    );
+    const { data: settingsData } = useBillSettings();
+    const { data: vendorsData } = useContacts({
+        contactType: 'vendor',
+        limit: 100,
+    });
+    const { data: accountsData } = useChartOfAccounts({
+        isActive: true,
+        limit: 100,
+    });
+
+    const createMutation = useCreateBill();
+    const updateMutation = useUpdateBill();
+    const postMutation = usePostBill();
+    const deleteMutation = useDeleteBill();
+    const voidMutation = useVoidBill();
+    const updateSettingsMutation = useUpdateBillSettings();
 
-    const totalAmount = filteredExpenses.reduce(
-        (sum, expense) => sum + expense.amount,
+    const bills = useMemo(() => {
+        return data?.data?.items || [];
+    }, [data]);
+
+    const vendors = vendorsData?.data?.items || [];
+    const editingBill = editingData?.data ?? null;
+    const viewBill = viewData?.data ?? null;
+
+    // Categories are expense accounts. Payable accounts are liabilities;
+    // recoverable tax is an asset or the liability sales tax is collected in
+    const { categoryAccounts, payableOptions, taxOptions } = useMemo(() => {
+        const accounts = accountsData?.data?.items || [];
+        const toOptions = (types: string[]) => [
+            { value: '', label: 'None' },
+            ...accounts
+                .filter((account) =>
+                    types.includes(account.accountType as string)
+                )
+                .map((account) => ({
+                    value: account.id,
+                    label: `${account.accountNumber} - ${account.accountName}`,
+                })),
+        ];
+        return {
+            categoryAccounts: accounts.filter(
+                (account) => (account.accountType as string) === 'expense'
+            ),
+            payableOptions: toOptions(['liability']),
+            taxOptions: toOptions(['asset', 'liability']),
+        };
+    }, [accountsData]);
+
+    // Summary of the listed bills, leaving out drafts and void bills
+    const postedBills = bills.filter(
+        (bill) => bill.status !== 'draft' && bill.status !== 'void'
+    );
+    const totalAmount = postedBills.reduce((sum, bill) => sum + bill.total, 0);
+    const outstandingBills = postedBills.filter((bill) => bill.balanceDue > 0);
+    const outstandingAmount = outstandingBills.reduce(
+        (sum, bill) => sum + bill.balanceDue,
         0
     );
-
-    const expensesByCategory = filteredExpenses.reduce(
-        (acc, expense) => {
-            acc[expense.category] =
-                (acc[expense.category] || 0) + expense.amount;
-            return acc;
-        },
-        {} as Record<string, number>
+    const overdueBills = postedBills.filter(
+        (bill) => bill.status === 'overdue'
+    );
+    const overdueAmount = overdueBills.reduce(
+        (sum, bill) => sum + bill.balanceDue,
+        0
     );
+    const draftBills = bills.filter((bill) => bill.status === 'draft');
+
+    const isSubmitting =
+        createMutation.isPending ||
+        updateMutation.isPending ||
+        postMutation.isPending;
+
+    const handleCloseModal = () => {
+        setShowCreateModal(false);
+        setEditingBillId(null);
+    };
+
+    // Create or update the draft and return its ID
+    const saveDraft = async (payload: CreateBillPayload) => {
+        if (editingBillId) {
+            const response = await updateMutation.mutateAsync({
+                id: editingBillId,
+                payload,
+            });
+            return response.data.id;
+        }
+
+        const response = await createMutation.mutateAsync(payload);
+        return response.data.id;
+    };
+
+    const handleSaveDraft = async (payload: CreateBillPayload) => {
+        try {
+            await saveDraft(payload);
+            showSuccessToast('Bill saved as draft');
+            handleCloseModal();
+        } catch (error) {
+            // Error is handled by the mutation
+            console.error('Save bill error:', error);
+        }
+    };
+
+    // Posting saves the draft first, then posts it to the ledger
+    const handleSaveAndPost = async (payload: CreateBillPayload) => {
+        let billId: string;
+        try {
+            billId = await saveDraft(payload);
+        } catch (error) {
+            // Error is handled by the mutation
+            console.error('Save bill error:', error);
+            return;
+        }
+
+        // A draft that fails to post stays editable
+        setShowCreateModal(false);
+        setEditingBillId(billId);
+        try {
+            await postMutation.mutateAsync(billId);
+            handleCloseModal();
+        } catch (error) {
+            // Error is handled by the mutation
+            console.error('Post bill error:', error);
+        }
+    };
+
+    const handlePost = async (bill: Bill) => {
+        try {
+            await postMutation.mutateAsync(bill.id);
+        } catch (error) {
+            // Error is handled by the mutation
+            console.error('Post bill error:', error);
+        }
+    };
+
+    const handleDelete = async () => {
+        if (!deleteBill) return;
+
+        try {
+            await deleteMutation.mutateAsync(deleteBill.id);
+            setDeleteBill(null);
+        } catch (error) {
+            // Error is handled by the mutation
+            console.error('Delete error:', error);
+        }
+    };
+
+    const handleVoid = async () => {
+        if (!voidBill) return;
+
+        try {
+            await voidMutation.mutateAsync({
+                id: voidBill.id,
+                payload: voidReason.trim() ? { reason: voidReason.trim() } : {},
+            });
+            setVoidBill(null);
+            setVoidReason('');
+        } catch (error) {
+            // Error is handled by the mutation
+            console.error('Void error:', error);
+        }
+    };
+
+    const handleOpenSettings = () => {
+        const settings = settingsData?.data;
+        setSettingsForm({
+            payableAccountId: settings?.payableAccountId ?? '',
+            taxAccountId: settings?.taxAccountId ?? '',
+        });
+        setShowSettings(true);
+    };
+
+    const handleSaveSettings = async (e: React.FormEvent) => {
+        e.preventDefault();
+
+        try {
+            await updateSettingsMutation.mutateAsync({
+                payableAccountId: settingsForm.payableAccountId || null,
+                taxAccountId: settingsForm.taxAccountId || null,
+            });
+            setShowSettings(false);
+        } catch (error) {
+            // Error is handled by the mutation
+            console.error('Save settings error:', error);
+        }
+    };
+
+    const handleClearFilters = () => {
+        setSearchQuery('');
+        setCategoryFilter('all');
+        setVendorFilter('all');
+        setStatusFilter('all');
+        setTypeFilter('all');
+        setStartDate('');
+        setEndDate('');
+    };
+
+    if (isLoading) {
+        return (
+            <div className="flex items-center justify-center min-h-[400px]">
+                <Loading />
+            </div>
+        );
+    }
 
     return (
         <div className="flex flex-col gap-4">
+            {/* Header with Create Button */}
+            <div className="flex justify-end gap-3">
+                <Button variant="outline" onClick={handleOpenSettings}>
+                    <FaCog className="w-3 h-3" />
+                    Settings
+                </Button>
+                <Button onClick={() => setShowCreateModal(true)}>
+                    <FaPlus className="w-3 h-3" />
+                    New Bill
+                </Button>
+            </div>
+
             {/* Summary Cards */}
             <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
                 <div className="bg-white rounded-2 shadow-sm border border-primary-10 p-4">
@@ -121,255 +371,693 @@ const Expensespage = () => {
                         {currencyFormatter.format(totalAmount)}
                     </div>
                     <div className="text-xs text-primary-50 mt-1">
-                        {filteredExpenses.length} expenses
+                        {postedBills.length} bills and expenses
+                    </div>
+                </div>
+                <div className="bg-white rounded-2 shadow-sm border border-primary-10 p-4">
+                    <div className="text-sm text-primary-50 mb-1">
+                        Unpaid Bills
+                    </div>
+                    <div className="text-2xl font-bold text-orange-600">
+                        {currencyFormatter.format(outstandingAmount)}
+                    </div>
+                    <div className="text-xs text-primary-50 mt-1">
+                        {outstandingBills.length} bills
+                    </div>
+                </div>
+                <div className="bg-white rounded-2 shadow-sm border border-primary-10 p-4">
+                    <div className="text-sm text-primary-50 mb-1">Overdue</div>
+                    <div className="text-2xl font-bold text-red-600">
+                        {currencyFormatter.format(overdueAmount)}
+                    </div>
+                    <div className="text-xs text-primary-50 mt-1">
+                        {overdueBills.length} bills past due
+                    </div>
+                </div>
+                <div className="bg-white rounded-2 shadow-sm border border-primary-10 p-4">
+                    <div className="text-sm text-primary-50 mb-1">Drafts</div>
+                    <div className="text-2xl font-bold text-primary">
+                        {draftBills.length}
+                    </div>
+                    <div className="text-xs text-primary-50 mt-1">
+                        Not posted to the ledger yet
                     </div>
                 </div>
-                {Object.entries(expensesByCategory)
-                    .slice(0, 3)
-                    .map(([category, amount]) => (
-                        <div
-                            key={category}
-                            className="bg-white rounded-2 shadow-sm border border-primary-10 p-4"
-                        >
-                            <div className="text-sm text-primary-50 mb-1">
-                                {category}
-                            </div>
-                            <div className="text-xl font-bold text-primary">
-                                {currencyFormatter.format(amount)}
-                            </div>
-                        </div>
-                    ))}
             </div>
 
             {/* Filters */}
             <div className="bg-white rounded-2 shadow-sm border border-primary-10 p-4">
-                <div className="flex flex-col sm:flex-row gap-4">
-                    <div className="flex-1">
-                        <div className="relative">
-                            <FaSearch className="absolute left-3 top-1/2 -translate-y-1/2 text-primary-50 w-4 h-4" />
+                <div className="flex flex-col gap-4">
+                    <div className="flex flex-col sm:flex-row gap-4">
+                        <div className="flex-1">
                             <InputField
                                 id="search-expenses"
-                                placeholder="Search expenses..."
+                                placeholder="Search by number, reference, vendor or description..."
                                 value={searchQuery}
                                 onChange={(e) => setSearchQuery(e.target.value)}
+                                icon={<FaSearch />}
                             />
                         </div>
+                        <div className="flex items-center gap-2">
+                            <FaFilter className="text-primary-50" />
+                            <select
+                                value={categoryFilter}
+                                onChange={(e) =>
+                                    setCategoryFilter(e.target.value)
+                                }
+                                className="px-4 py-2 border border-primary-10 rounded-2 text-sm text-primary focus:outline-none focus:border-primary"
+                            >
+                                <option value="all">All Categories</option>
+                                {categoryAccounts.map((account) => (
+                                    <option key={account.id} value={account.id}>
+                                        {account.accountName}
+                                    </option>
+                                ))}
+                            </select>
+                            <select
+                                value={vendorFilter}
+                                onChange={(e) =>
+                                    setVendorFilter(e.target.value)
+                                }
+                                className="px-4 py-2 border border-primary-10 rounded-2 text-sm text-primary focus:outline-none focus:border-primary"
+                            >
+                                <option value="all">All Vendors</option>
+                                {vendors.map((vendor) => (
+                                    <option key={vendor.id} value={vendor.id}>
+                                        {vendor.displayName}
+                                    </option>
+                                ))}
+                            </select>
+                        </div>
                     </div>
-                    <div className="flex items-center gap-2">
-                        <FaFilter className="text-primary-50" />
+                    <div className="flex flex-col sm:flex-row sm:items-center gap-4">
                         <select
-                            value={categoryFilter}
-                            onChange={(e) => setCategoryFilter(e.target.value)}
+                            value={statusFilter}
+                            onChange={(e) =>
+                                setStatusFilter(
+                                    e.target.value as BillStatus | 'all'
+                                )
+                            }
                             className="px-4 py-2 border border-primary-10 rounded-2 text-sm text-primary focus:outline-none focus:border-primary"
                         >
-                            <option value="all">All Categories</option>
-                            {CATEGORIES.map((category) => (
-                                <option key={category} value={category}>
-                                    {category}
-                                </option>
-                            ))}
+                            <option value="all">All Status</option>
+                            {(Object.keys(statusConfig) as BillStatus[]).map(
+                                (status) => (
+                                    <option key={status} value={status}>
+                                        {statusConfig[status].label}
+                                    </option>
+                                )
+                            )}
+                        </select>
+                        <select
+                            value={typeFilter}
+                            onChange={(e) =>
+                                setTypeFilter(
+                                    e.target.value as BillType | 'all'
+                                )
+                            }
+                            className="px-4 py-2 border border-primary-10 rounded-2 text-sm text-primary focus:outline-none focus:border-primary"
+                        >
+                            <option value="all">Bills & Expenses</option>
+                            <option value="bill">Bills</option>
+                            <option value="expense">Expenses</option>
                         </select>
+                        <div className="flex items-center gap-2">
+                            <input
+                                type="date"
+                                aria-label="From date"
+                                value={startDate}
+                                onChange={(e) => setStartDate(e.target.value)}
+                                className="px-4 py-2 border border-primary-10 rounded-2 text-sm text-primary focus:outline-none focus:border-primary"
+                            />
+                            <span className="text-sm text-primary-50">to</span>
+                            <input
+                                type="date"
+                                aria-label="To date"
+                                value={endDate}
+                                min={startDate || undefined}
+                                onChange={(e) => setEndDate(e.target.value)}
+                                className="px-4 py-2 border border-primary-10 rounded-2 text-sm text-primary focus:outline-none focus:border-primary"
+                            />
+                        </div>
+                        <button
+                            type="button"
+                            onClick={handleClearFilters}
+                            className="text-sm text-primary-50 hover:text-primary sm:ml-auto"
+                        >
+                            Clear filters
+                        </button>
                     </div>
                 </div>
             </div>
 
-            {/* Expenses Table */}
+            {/* Bills Table */}
             <div className="bg-white rounded-2 shadow-sm border border-primary-10 overflow-hidden">
-                <div className="overflow-x-auto">
-                    <table className="w-full">
-                        <thead className="bg-primary-10">
-                            <tr>
-                                <th className="px-4 py-3 text-left text-sm font-semibold text-primary">
-                                    Date
-                                </th>
-                                <th className="px-4 py-3 text-left text-sm font-semibold text-primary">
+                {error ? (
+                    <div className="px-4 py-8 text-center text-red-500">
+                        Failed to load bills
+                    </div>
+                ) : (
+                    <div className="overflow-x-auto">
+                        <table className="w-full">
+                            <thead className="bg-primary-10">
+                                <tr>
+                                    <th className="px-4 py-3 text-left text-sm font-semibold text-primary">
+                                        Date
+                                    </th>
+                                    <th className="px-4 py-3 text-left text-sm font-semibold text-primary">
+                                        Vendor
+                                    </th>
+                                    <th className="px-4 py-3 text-left text-sm font-semibold text-primary">
+                                        Category
+                                    </th>
+                                    <th className="px-4 py-3 text-left text-sm font-semibold text-primary">
+                                        Due Date
+                                    </th>
+                                    <th className="px-4 py-3 text-right text-sm font-semibold text-primary">
+                                        Amount
+                                    </th>
+                                    <th className="px-4 py-3 text-right text-sm font-semibold text-primary">
+                                        Balance Due
+                                    </th>
+                                    <th className="px-4 py-3 text-center text-sm font-semibold text-primary">
+                                        Status
+                                    </th>
+                                    <th className="px-4 py-3 text-center text-sm font-semibold text-primary w-40">
+                                        Actions
+                                    </th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {bills.length === 0 ? (
+                                    <tr>
+                                        <td
+                                            colSpan={8}
+                                            className="px-4 py-8 text-center text-primary-50"
+                                        >
+                                            No bills or expenses found
+                                        </td>
+                                    </tr>
+                                ) : (
+                                    bills.map((bill) => {
+                                        const StatusIcon =
+                                            statusConfig[bill.status].icon;
+                                        const isDraft = bill.status === 'draft';
+                                        const canVoid =
+                                            !isDraft &&
+                                            bill.status !== 'void' &&
+                                            (bill.billType === 'expense' ||
+                                                bill.amountPaid === 0);
+                                        return (
+                                            <tr
+                                                key={bill.id}
+                                                className="border-b border-primary-10 hover:bg-primary-5"
+                                            >
+                                                <td className="px-4 py-3">
+                                                    <div className="text-primary-75">
+                                                        {bill.billDate}
+                                                    </div>
+                                                    <div className="text-xs text-primary-50">
+                                                        {
+                                                            billTypeLabels[
+                                                                bill.billType
+                                                            ]
+                                                        }
+                                                        {bill.billNumber &&
+                                                            ` ${bill.billNumber}`}
+                                                    </div>
+                                                </td>
+                                                <td className="px-4 py-3">
+                                                    <div className="font-medium text-primary">
+                                                        {bill.contact
+                                                            ?.displayName ??
+                                                            '—'}
+                                                    </div>
+                                                    {bill.reference && (
+                                                        <div className="text-xs text-primary-50">
+                                                            {bill.reference}
+                                                        </div>
+                                                    )}
+                                                </td>
+                                                <td className="px-4 py-3">
+                                                    <div className="flex flex-wrap gap-1">
+                                                        {getCategories(
+                                                            bill
+                                                        ).map((category) => (
+                                                            <span
+                                                                key={category}
+                                                                className="inline-flex items-center gap-1 px-2 py-1 bg-primary-10 text-primary rounded-full text-xs font-medium"
+                                                            >
+                                                                <FaTag className="w-3 h-3" />
+                                                                {category}
+                                                            </span>
+                                                        ))}
+                                                    </div>
+                                                </td>
+                                                <td className="px-4 py-3 text-primary-75">
+                                                    {bill.billType === 'bill'
+                                                        ? bill.dueDate
+                                                        : '—'}
+                                                </td>
+                                                <td className="px-4 py-3 text-right font-semibold text-primary">
+                                                    {currencyFormatter.format(
+                                                        bill.total
+                                                    )}
+                                                </td>
+                                                <td className="px-4 py-3 text-right text-primary">
+                                                    {currencyFormatter.format(
+                                                        bill.balanceDue
+                                                    )}
+                                                </td>
+                                                <td className="px-4 py-3">
+                                                    <div className="flex justify-center">
+                                                        <span
+                                                            className={`inline-flex items-center gap-1.5 px-3 py-1 rounded-full text-xs font-medium ${statusConfig[bill.status].color}`}
+                                                        >
+                                                            <StatusIcon className="w-3 h-3" />
+                                                            {
+                                                                statusConfig[
+                                                                    bill.status
+                                                                ].label
+                                                            }
+                                                        </span>
+                                                    </div>
+                                                </td>
+                                                <td className="px-4 py-3">
+                                                    <div className="flex items-center justify-center gap-2">
+                                                        <button
+                                                            onClick={() =>
+                                                                setViewBillId(
+                                                                    bill.id
+                                                                )
+                                                            }
+                                                            className="p-2 text-primary-50 hover:text-primary hover:bg-primary-10 rounded transition-colors"
+                                                            title="View"
+                                                        >
+                                                            <FaEye className="w-4 h-4" />
+                                                        </button>
+                                                        {isDraft && (
+                                                            <>
+                                                                <button
+                                                                    onClick={() =>
+                                                                        setEditingBillId(
+                                                                            bill.id
+                                                                        )
+                                                                    }
+                                                                    className="p-2 text-primary-50 hover:text-primary hover:bg-primary-10 rounded transition-colors"
+                                                                    title="Edit"
+                                                                >
+                                                                    <FaEdit className="w-4 h-4" />
+                                                                </button>
+                                                                <button
+                                                                    onClick={() =>
+                                                                        handlePost(
+                                                                            bill
+                                                                        )
+                                                                    }
+                                                                    disabled={
+                                                                        postMutation.isPending
+                                                                    }
+                                                                    className="p-2 text-primary-50 hover:text-primary hover:bg-primary-10 rounded transition-colors disabled:opacity-50"
+                                                                    title="Post"
+                                                                >
+                                                                    <FaCheck className="w-4 h-4" />
+                                                                </button>
+                                                                <button
+                                                                    onClick={() =>
+                                                                        setDeleteBill(
+                                                                            bill
+                                                                        )
+                                                                    }
+                                                                    className="p-2 text-red-400 hover:text-red-600 hover:bg-red-50 rounded transition-colors"
+                                                                    title="Delete"
+                                                                >
+                                                                    <FaTrash className="w-4 h-4" />
+                                                                </button>
+                                                            </>
+                                                        )}
+                                                        {canVoid && (
+                                                            <button
+                                                                onClick={() =>
+                                                                    setVoidBill(
+                                                                        bill
+                                                                    )
+                                                                }
+                                                                className="p-2 text-red-400 hover:text-red-600 hover:bg-red-50 rounded transition-colors"
+                                                                title="Void"
+                                                            >
+                                                                <FaBan className="w-4 h-4" />
+                                                            </button>
+                                                        )}
+                                                    </div>
+                                                </td>
+                                            </tr>
+                                        );
+                                    })
+                                )}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+            </div>
+
+            {/* Create/Edit Bill Modal */}
+            {(showCreateModal || editingBillId) &&
+                (editingBillId && (isEditingLoading || !editingBill) ? (
+                    <Popup
+                        isOpen
+                        onClose={handleCloseModal}
+                        title="Edit Bill"
+                        size="4xl"
+                    >
+                        <div className="flex items-center justify-center min-h-[200px]">
+                            <Loading />
+                        </div>
+                    </Popup>
+                ) : (
+                    <BillFormModal
+                        key={editingBill?.updatedAt ?? 'new'}
+                        isOpen
+                        bill={editingBillId ? editingBill : null}
+                        isSubmitting={isSubmitting}
+                        onClose={handleCloseModal}
+                        onSaveDraft={handleSaveDraft}
+                        onSaveAndPost={handleSaveAndPost}
+                    />
+                ))}
+
+            {/* View Bill Modal */}
+            <Popup
+                isOpen={!!viewBillId}
+                onClose={() => setViewBillId(null)}
+                title={
+                    viewBill
+                        ? `${billTypeLabels[viewBill.billType]} ${viewBill.billNumber ?? ''}`
+                        : 'Bill'
+                }
+                size="2xl"
+            >
+                {isViewLoading || !viewBill ? (
+                    <div className="flex items-center justify-center min-h-[200px]">
+                        <Loading />
+                    </div>
+                ) : (
+                    <div className="flex flex-col gap-4 text-sm">
+                        <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+                            <div>
+                                <p className="text-xs text-primary-50">
                                     Vendor
-                                </th>
-                                <th className="px-4 py-3 text-left text-sm font-semibold text-primary">
-                                    Category
-                                </th>
-                                <th className="px-4 py-3 text-left text-sm font-semibold text-primary">
-                                    Description
-                                </th>
-                                <th className="px-4 py-3 text-right text-sm font-semibold text-primary">
-                                    Amount
-                                </th>
-                                <th className="px-4 py-3 text-left text-sm font-semibold text-primary">
-                                    Payment Method
-                                </th>
-                                <th className="px-4 py-3 text-center text-sm font-semibold text-primary w-32">
-                                    Actions
-                                </th>
-                            </tr>
-                        </thead>
-                        <tbody>
-                            {filteredExpenses.length === 0 ? (
+                                </p>
+                                <p className="text-primary">
+                                    {viewBill.contact?.displayName ?? '—'}
+                                </p>
+                            </div>
+                            <div>
+                                <p className="text-xs text-primary-50">
+                                    Status
+                                </p>
+                                <p className="text-primary">
+                                    {statusConfig[viewBill.status].label}
+                                </p>
+                            </div>
+                            <div>
+                                <p className="text-xs text-primary-50">Date</p>
+                                <p className="text-primary">
+                                    {viewBill.billDate}
+                                </p>
+                            </div>
+                            <div>
+                                <p className="text-xs text-primary-50">
+                                    {viewBill.billType === 'expense'
+                                        ? 'Paid from'
+                                        : 'Due date'}
+                                </p>
+                                <p className="text-primary">
+                                    {viewBill.billType === 'expense'
+                                        ? (viewBill.paymentAccount
+                                              ?.accountName ?? '—')
+                                        : viewBill.dueDate}
+                                </p>
+                            </div>
+                        </div>
+                        <table className="w-full">
+                            <thead className="bg-primary-10">
                                 <tr>
-                                    <td
-                                        colSpan={7}
-                                        className="px-4 py-8 text-center text-primary-50"
-                                    >
-                                        No expenses found
-                                    </td>
+                                    <th className="px-3 py-2 text-left font-semibold text-primary">
+                                        Description
+                                    </th>
+                                    <th className="px-3 py-2 text-left font-semibold text-primary">
+                                        Account
+                                    </th>
+                                    <th className="px-3 py-2 text-right font-semibold text-primary">
+                                        Qty
+                                    </th>
+                                    <th className="px-3 py-2 text-right font-semibold text-primary">
+                                        Price
+                                    </th>
+                                    <th className="px-3 py-2 text-right font-semibold text-primary">
+                                        Tax
+                                    </th>
+                                    <th className="px-3 py-2 text-right font-semibold text-primary">
+                                        Amount
+                                    </th>
                                 </tr>
-                            ) : (
-                                filteredExpenses.map((expense) => (
+                            </thead>
+                            <tbody>
+                                {(viewBill.lines ?? []).map((line) => (
                                     <tr
-                                        key={expense.id}
-                                        className="border-b border-primary-10 hover:bg-primary-5"
+                                        key={line.id}
+                                        className="border-b border-primary-10"
                                     >
-                                        <td className="px-4 py-3 text-primary-75">
-                                            {new Date(
-                                                expense.date
-                                            ).toLocaleDateString()}
-                                        </td>
-                                        <td className="px-4 py-3">
-                                            <div className="font-medium text-primary">
-                                                {expense.vendor}
-                                            </div>
+                                        <td className="px-3 py-2 text-primary">
+                                            {line.description}
                                         </td>
-                                        <td className="px-4 py-3">
-                                            <span className="inline-flex items-center gap-1 px-2 py-1 bg-primary-10 text-primary rounded-full text-xs font-medium">
-                                                <FaTag className="w-3 h-3" />
-                                                {expense.category}
-                                            </span>
+                                        <td className="px-3 py-2 text-primary-75">
+                                            {line.account?.accountName ?? '—'}
                                         </td>
-                                        <td className="px-4 py-3 text-primary-75">
-                                            {expense.description}
+                                        <td className="px-3 py-2 text-right text-primary">
+                                            {line.quantity}
                                         </td>
-                                        <td className="px-4 py-3 text-right font-semibold text-primary">
+                                        <td className="px-3 py-2 text-right text-primary">
                                             {currencyFormatter.format(
-                                                expense.amount
+                                                line.unitPrice
                                             )}
                                         </td>
-                                        <td className="px-4 py-3 text-primary-75">
-                                            {expense.paymentMethod}
-                                        </td>
-                                        <td className="px-4 py-3">
-                                            <div className="flex items-center justify-center gap-2">
-                                                {expense.receipt && (
-                                                    <button
-                                                        className="p-2 text-primary-50 hover:text-primary hover:bg-primary-10 rounded transition-colors"
-                                                        title="View Receipt"
-                                                    >
-                                                        <FaReceipt className="w-4 h-4" />
-                                                    </button>
+                                        <td className="px-3 py-2 text-right text-primary">
+                                            {currencyFormatter.format(
+                                                line.taxAmount
+                                            )}
+                                            {line.taxAmount > 0 &&
+                                                !line.isTaxRecoverable && (
+                                                    <div className="text-xs text-primary-50">
+                                                        Not recoverable
+                                                    </div>
                                                 )}
-                                                <button
-                                                    className="p-2 text-primary-50 hover:text-primary hover:bg-primary-10 rounded transition-colors"
-                                                    title="Edit"
-                                                >
-                                                    <FaEdit className="w-4 h-4" />
-                                                </button>
-                                                <button
-                                                    className="p-2 text-red-400 hover:text-red-600 hover:bg-red-50 rounded transition-colors"
-                                                    title="Delete"
-                                                >
-                                                    <FaTrash className="w-4 h-4" />
-                                                </button>
-                                            </div>
+                                        </td>
+                                        <td className="px-3 py-2 text-right text-primary">
+                                            {currencyFormatter.format(
+                                                line.amount
+                                            )}
                                         </td>
                                     </tr>
-                                ))
-                            )}
-                        </tbody>
-                    </table>
-                </div>
-            </div>
-
-            {/* Create Expense Modal */}
-            {showCreateModal && (
-                <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 backdrop-blur-sm px-4">
-                    <div className="w-full max-w-2xl rounded-2 bg-white p-6 shadow-2xl max-h-[90vh] overflow-y-auto">
-                        <div className="flex items-center justify-between mb-4">
-                            <h3 className="text-xl font-semibold text-primary">
-                                Add New Expense
-                            </h3>
-                            <button
-                                onClick={() => setShowCreateModal(false)}
-                                className="text-primary-50 hover:text-primary"
-                            >
-                                ×
-                            </button>
-                        </div>
-                        <form className="space-y-4">
-                            <div className="grid grid-cols-2 gap-4">
-                                <InputField
-                                    id="expense-date"
-                                    label="Date"
-                                    type="date"
-                                    required
-                                />
-                                <InputField
-                                    id="vendor"
-                                    label="Vendor"
-                                    placeholder="Enter vendor name"
-                                    required
-                                />
+                                ))}
+                            </tbody>
+                        </table>
+                        <div className="ml-auto w-full sm:w-64 space-y-1">
+                            <div className="flex justify-between">
+                                <span className="text-primary-75">
+                                    Subtotal
+                                </span>
+                                <span className="text-primary">
+                                    {currencyFormatter.format(
+                                        viewBill.subtotal
+                                    )}
+                                </span>
                             </div>
-                            <div className="grid grid-cols-2 gap-4">
-                                <div>
-                                    <label className="block text-sm font-medium text-primary mb-2">
-                                        Category
-                                    </label>
-                                    <select className="w-full px-4 py-2 border border-primary-10 rounded-2 text-sm text-primary focus:outline-none focus:border-primary">
-                                        {CATEGORIES.map((category) => (
-                                            <option
-                                                key={category}
-                                                value={category}
-                                            >
-                                                {category}
-                                            </option>
-                                        ))}
-                                    </select>
-                                </div>
-                                <InputField
-                                    id="amount"
-                                    label="Amount"
-                                    type="number"
-                                    step="0.01"
-                                    placeholder="0.00"
-                                    required
-                                />
+                            <div className="flex justify-between">
+                                <span className="text-primary-75">Tax</span>
+                                <span className="text-primary">
+                                    {currencyFormatter.format(
+                                        viewBill.taxAmount
+                                    )}
+                                </span>
                             </div>
-                            <InputField
-                                id="description"
-                                label="Description"
-                                placeholder="Enter description"
-                                required
-                            />
-                            <div>
-                                <label className="block text-sm font-medium text-primary mb-2">
-                                    Payment Method
-                                </label>
-                                <select className="w-full px-4 py-2 border border-primary-10 rounded-2 text-sm text-primary focus:outline-none focus:border-primary">
-                                    <option>Credit Card</option>
-                                    <option>Bank Transfer</option>
-                                    <option>Check</option>
-                                    <option>Cash</option>
-                                </select>
+                            <div className="flex justify-between">
+                                <span className="text-primary-75">
+                                    Recoverable tax
+                                </span>
+                                <span className="text-primary">
+                                    {currencyFormatter.format(
+                                        viewBill.recoverableTaxAmount
+                                    )}
+                                </span>
+                            </div>
+                            <div className="flex justify-between font-semibold">
+                                <span className="text-primary">Total</span>
+                                <span className="text-primary">
+                                    {currencyFormatter.format(viewBill.total)}
+                                </span>
                             </div>
-                            <div className="flex gap-3 pt-4">
-                                <Button
-                                    type="button"
-                                    variant="outline"
-                                    className="flex-1"
-                                    onClick={() => setShowCreateModal(false)}
-                                >
-                                    Cancel
-                                </Button>
-                                <Button
-                                    type="submit"
-                                    variant="primary"
-                                    className="flex-1"
-                                >
-                                    Add Expense
-                                </Button>
+                            <div className="flex justify-between">
+                                <span className="text-primary-75">
+                                    Balance due
+                                </span>
+                                <span className="text-primary">
+                                    {currencyFormatter.format(
+                                        viewBill.balanceDue
+                                    )}
+                                </span>
                             </div>
-                        </form>
+                        </div>
+                        {viewBill.memo && (
+                            <p className="text-primary-75 whitespace-pre-wrap">
+                                {viewBill.memo}
+                            </p>
+                        )}
+                        {viewBill.voidReason && (
+                            <p className="text-red-500">
+                                Void reason: {viewBill.voidReason}
+                            </p>
+                        )}
+                        <DocumentAttachments
+                            entityType="bill"
+                            entityId={viewBill.id}
+                        />
                     </div>
+                )}
+            </Popup>
+
+            {/* Bill Settings Modal */}
+            <Popup
+                isOpen={showSettings}
+                onClose={() => setShowSettings(false)}
+                title="Bill Settings"
+                size="xl"
+                loading={updateSettingsMutation.isPending}
+                footer={
+                    <div className="flex gap-3">
+                        <Button
+                            type="button"
+                            variant="outline"
+                            onClick={() => setShowSettings(false)}
+                            disabled={updateSettingsMutation.isPending}
+                        >
+                            Cancel
+                        </Button>
+                        <Button
+                            type="submit"
+                            variant="primary"
+                            loading={updateSettingsMutation.isPending}
+                            disabled={updateSettingsMutation.isPending}
+                            form="bill-settings-form"
+                        >
+                            Save
+                        </Button>
+                    </div>
+                }
+            >
+                <form
+                    id="bill-settings-form"
+                    onSubmit={handleSaveSettings}
+                    className="grid grid-cols-1 gap-4"
+                >
+                    <SelectField
+                        id="bill-payable-account"
+                        label="Accounts Payable Account"
+                        value={settingsForm.payableAccountId}
+                        onChange={(e) =>
+                            setSettingsForm((prev) => ({
+                                ...prev,
+                                payableAccountId: e.target.value,
+                            }))
+                        }
+                        options={payableOptions}
+                    />
+                    <SelectField
+                        id="bill-tax-account"
+                        label="Recoverable Tax Account"
+                        value={settingsForm.taxAccountId}
+                        onChange={(e) =>
+                            setSettingsForm((prev) => ({
+                                ...prev,
+                                taxAccountId: e.target.value,
+                            }))
+                        }
+                        options={taxOptions}
+                    />
+                    <p className="text-xs text-primary-50">
+                        Posted bills credit the accounts payable account.
+                        Recoverable tax is debited to the recoverable tax
+                        account; tax that cannot be reclaimed is added to the
+                        expense.
+                    </p>
+                </form>
+            </Popup>
+
+            {/* Void Confirmation */}
+            <Popup
+                isOpen={!!voidBill}
+                onClose={() => {
+                    setVoidBill(null);
+                    setVoidReason('');
+                }}
+                title="Void Bill"
+                size="md"
+                loading={voidMutation.isPending}
+                footer={
+                    <div className="flex gap-3">
+                        <Button
+                            type="button"
+                            variant="outline"
+                            onClick={() => {
+                                setVoidBill(null);
+                                setVoidReason('');
+                            }}
+                            disabled={voidMutation.isPending}
+                        >
+                            Cancel
+                        </Button>
+                        <Button
+                            type="button"
+                            variant="primary"
+                            onClick={handleVoid}
+                            loading={voidMutation.isPending}
+                            disabled={voidMutation.isPending}
+                        >
+                            Void
+                        </Button>
+                    </div>
+                }
+            >
+                <div className="flex flex-col gap-4">
+                    <p className="text-sm text-primary-75">
+                        Voiding this{' '}
+                        {voidBill
+                            ? billTypeLabels[voidBill.billType].toLowerCase()
+                            : 'bill'}{' '}
+                        posts a reversing entry for it today.
+                    </p>
+                    <TextareaField
+                        id="bill-void-reason"
+                        label="Reason (optional)"
+                        value={voidReason}
+                        onChange={(e) => setVoidReason(e.target.value)}
+                    />
                 </div>
-            )}
+            </Popup>
+
+            {/* Delete Confirmation Dialog */}
+            <ConfirmationDialog
+                isOpen={!!deleteBill}
+                onClose={() => setDeleteBill(null)}
+                onConfirm={handleDelete}
+                title="Delete Bill"
+                message="Are you sure you want to delete this draft?"
+                confirmText="Delete"
+                cancelText="Cancel"
+                confirmVariant="danger"
+                loading={deleteMutation.isPending}
+            />
         </div>
     );
 };
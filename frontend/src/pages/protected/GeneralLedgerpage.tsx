@@ -0,0 +1,318 @@
+import { Fragment, useState } from 'react';
+import { FaChevronDown, FaChevronRight, FaDownload } from 'react-icons/fa';
+import GeneralLedgerAccountTable from '../../components/reports/GeneralLedgerAccountTable';
+import Loading from '../../components/shared/Loading';
+import { useGeneralLedger } from '../../services/apis/reportsApi';
+import type { ReportAccountType } from '../../types/reports';
+import { exportToCSV } from '../../utills/export';
+
+const ACCOUNT_TYPE_OPTIONS: { label: string; value: ReportAccountType | '' }[] =
+    [
+        { label: 'All account types', value: '' },
+        { label: 'Assets', value: 'asset' },
+        { label: 'Liabilities', value: 'liability' },
+        { label: 'Equity', value: 'equity' },
+        { label: 'Revenue', value: 'revenue' },
+        { label: 'Expenses', value: 'expense' },
+    ];
+
+const formatNumber = (num: number) => {
+    return num.toLocaleString(undefined, {
+        minimumFractionDigits: 2,
+        maximumFractionDigits: 2,
+    });
+};
+
+const GeneralLedgerpage = () => {
+    const today = new Date().toISOString().split('T')[0];
+    const [startDate, setStartDate] = useState(`${today.slice(0, 4)}-01-01`);
+    const [endDate, setEndDate] = useState(today);
+    const [accountType, setAccountType] = useState<ReportAccountType | ''>('');
+    const [hideZeroBalances, setHideZeroBalances] = useState(true);
+    const [includeClosingEntries, setIncludeClosingEntries] = useState(true);
+    const [expandedAccountId, setExpandedAccountId] = useState<string | null>(
+        null
+    );
+
+    const { data, isLoading, error } = useGeneralLedger({
+        startDate: startDate || undefined,
+        endDate: endDate || undefined,
+        accountType: accountType || undefined,
+        hideZeroBalances,
+        includeClosingEntries,
+    });
+    const ledger = data?.data;
+
+    const toggleAccount = (accountId: string) => {
+        setExpandedAccountId((prev) => (prev === accountId ? null : accountId));
+    };
+
+    const handleExport = () => {
+        if (!ledger) return;
+
+        exportToCSV(
+            ledger.accounts.map((account) => ({
+                'Account Number': account.accountNumber ?? '',
+                'Account Name': account.accountName,
+                'Account Type': account.accountType,
+                'Opening Balance': account.openingBalance,
+                Debit: account.totalDebit,
+                Credit: account.totalCredit,
+                'Closing Balance': account.closingBalance,
+                Movements: account.movementCount,
+            })),
+            `general-ledger-${ledger.period.startDate}-${ledger.period.endDate}`
+        );
+    };
+
+    return (
+        <div className="space-y-6">
+            {/* Header */}
+            <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+                <div>
+                    <h2 className="text-2xl font-bold text-primary">
+                        General Ledger
+                    </h2>
+                    <p className="text-sm text-primary-50 mt-1">
+                        Posted movements and running balances for each account
+                    </p>
+                </div>
+                <button
+                    onClick={handleExport}
+                    disabled={!ledger}
+                    className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-primary bg-white border-2 border-primary-10 rounded-2 hover:border-primary hover:bg-primary-10 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    <FaDownload />
+                    Export
+                </button>
+            </div>
+
+            {/* Filters */}
+            <div className="bg-white rounded-2 shadow-sm border border-primary-10 p-4">
+                <div className="flex flex-col sm:flex-row gap-4 items-end">
+                    <div className="flex-1 grid grid-cols-1 sm:grid-cols-3 gap-4">
+                        <div>
+                            <label className="block text-sm font-medium text-primary mb-2">
+                                Start Date
+                            </label>
+                            <input
+                                type="date"
+                                value={startDate}
+                                onChange={(e) => setStartDate(e.target.value)}
+                                className="w-full px-4 py-2 border border-primary-10 rounded-2 text-sm text-primary focus:outline-none focus:border-primary"
+                            />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-primary mb-2">
+                                End Date
+                            </label>
+                            <input
+                                type="date"
+                                value={endDate}
+                                onChange={(e) => setEndDate(e.target.value)}
+                                className="w-full px-4 py-2 border border-primary-10 rounded-2 text-sm text-primary focus:outline-none focus:border-primary"
+                            />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-primary mb-2">
+                                Account Type
+                            </label>
+                            <select
+                                value={accountType}
+                                onChange={(e) =>
+                                    setAccountType(
+                                        e.target.value as ReportAccountType | ''
+                                    )
+                                }
+                                className="w-full px-4 py-2 border border-primary-10 rounded-2 text-sm text-primary focus:outline-none focus:border-primary"
+                            >
+                                {ACCOUNT_TYPE_OPTIONS.map((option) => (
+                                    <option
+                                        key={option.value}
+                                        value={option.value}
+                                    >
+                                        {option.label}
+                                    </option>
+                                ))}
+                            </select>
+                        </div>
+                    </div>
+                    <label className="flex items-center gap-2 py-2 text-sm text-primary cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={hideZeroBalances}
+                            onChange={(e) =>
+                                setHideZeroBalances(e.target.checked)
+                            }
+                            className="accent-primary"
+                        />
+                        Hide inactive accounts
+                    </label>
+                    <label className="flex items-center gap-2 py-2 text-sm text-primary cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={includeClosingEntries}
+                            onChange={(e) =>
+                                setIncludeClosingEntries(e.target.checked)
+                            }
+                            className="accent-primary"
+                        />
+                        Include closing entries
+                    </label>
+                </div>
+            </div>
+
+            {/* Ledger */}
+            <div className="bg-white rounded-2 shadow-sm border border-primary-10 p-6">
+                {isLoading ? (
+                    <div className="flex items-center justify-center min-h-[300px]">
+                        <Loading />
+                    </div>
+                ) : error || !ledger ? (
+                    <div className="flex items-center justify-center min-h-[300px]">
+                        <p className="text-red-500">
+                            Failed to load general ledger
+                        </p>
+                    </div>
+                ) : (
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-sm">
+                            <thead>
+                                <tr className="bg-gray-50 border-b border-gray-200">
+                                    <th className="text-left py-3 px-4 font-semibold text-primary">
+                                        Account
+                                    </th>
+                                    <th className="text-right py-3 px-4 font-semibold text-primary">
+                                        Opening
+                                    </th>
+                                    <th className="text-right py-3 px-4 font-semibold text-primary">
+                                        Debit
+                                    </th>
+                                    <th className="text-right py-3 px-4 font-semibold text-primary">
+                                        Credit
+                                    </th>
+                                    <th className="text-right py-3 px-4 font-semibold text-primary">
+                                        Closing
+                                    </th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {ledger.accounts.length === 0 ? (
+                                    <tr>
+                                        <td
+                                            colSpan={5}
+                                            className="py-6 text-center text-primary-50"
+                                        >
+                                            No accounts to show
+                                        </td>
+                                    </tr>
+                                ) : (
+                                    ledger.accounts.map((account) => {
+                                        const isExpanded =
+                                            expandedAccountId ===
+                                            account.accountId;
+                                        return (
+                                            <Fragment key={account.accountId}>
+                                                <tr
+                                                    className="border-b border-gray-200 hover:bg-gray-50 cursor-pointer"
+                                                    onClick={() =>
+                                                        toggleAccount(
+                                                            account.accountId
+                                                        )
+                                                    }
+                                                >
+                                                    <td className="py-3 px-4 font-medium text-primary">
+                                                        <div className="flex items-center gap-2">
+                                                            {isExpanded ? (
+                                                                <FaChevronDown className="text-xs" />
+                                                            ) : (
+                                                                <FaChevronRight className="text-xs" />
+                                                            )}
+                                                            {account.accountNumber && (
+                                                                <span className="text-xs text-gray-400">
+                                                                    {
+                                                                        account.accountNumber
+                                                                    }
+                                                                </span>
+                                                            )}
+                                                            {
+                                                                account.accountName
+                                                            }
+                                                        </div>
+                                                    </td>
+                                                    <td className="text-right py-3 px-4">
+                                                        {formatNumber(
+                                                            account.openingBalance
+                                                        )}
+                                                    </td>
+                                                    <td className="text-right py-3 px-4">
+                                                        {formatNumber(
+                                                            account.totalDebit
+                                                        )}
+                                                    </td>
+                                                    <td className="text-right py-3 px-4">
+                                                        {formatNumber(
+                                                            account.totalCredit
+                                                        )}
+                                                    </td>
+                                                    <td className="text-right py-3 px-4 font-medium">
+                                                        {formatNumber(
+                                                            account.closingBalance
+                                                        )}
+                                                    </td>
+                                                </tr>
+                                                {isExpanded && (
+                                                    <tr className="border-b border-gray-200">
+                                                        <td
+                                                            colSpan={5}
+                                                            className="px-4 py-3 bg-white"
+                                                        >
+                                                            <GeneralLedgerAccountTable
+                                                                key={`${startDate}-${endDate}-${includeClosingEntries}`}
+                                                                accountId={
+                                                                    account.accountId
+                                                                }
+                                                                startDate={
+                                                                    startDate
+                                                                }
+                                                                endDate={
+                                                                    endDate
+                                                                }
+                                                                includeClosingEntries={
+                                                                    includeClosingEntries
+                                                                }
+                                                            />
+                                                        </td>
+                                                    </tr>
+                                                )}
+                                            </Fragment>
+                                        );
+                                    })
+                                )}
+                            </tbody>
+                            <tfoot>
+                                <tr className="border-t-2 border-primary bg-primary-10">
+                                    <td className="py-3 px-4 font-bold text-primary">
+                                        Total
+                                    </td>
+                                    <td />
+                                    <td className="text-right py-3 px-4 font-bold text-primary">
+                                        {formatNumber(ledger.totals.totalDebit)}
+                                    </td>
+                                    <td className="text-right py-3 px-4 font-bold text-primary">
+                                        {formatNumber(
+                                            ledger.totals.totalCredit
+                                        )}
+                                    </td>
+                                    <td />
+                                </tr>
+                            </tfoot>
+                        </table>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default GeneralLedgerpage;
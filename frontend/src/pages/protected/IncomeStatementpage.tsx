@@ -6,39 +6,160 @@ import {
     FaPercent,
 } from 'react-icons/fa';
 import ExpensePieChart from '../../components/dashboard/charts/ExpensePieChart';
-import ProfitabilityLineChart from '../../components/dashboard/charts/ProfitabilityLineChart';
 import RevenueBarChart from '../../components/dashboard/charts/RevenueBarChart';
 import ChartWidget from '../../components/dashboard/ChartWidget';
 import SummaryCard from '../../components/dashboard/SummaryCard';
 import IncomeStatementTable from '../../components/reports/IncomeStatementTable';
+import Loading from '../../components/shared/Loading';
+import { INCOME_STATEMENT_SECTION_LABELS } from '../../constants/reports';
+import { useIncomeStatement } from '../../services/apis/reportsApi';
+import type {
+    IncomeStatement,
+    IncomeStatementAmount,
+    IncomeStatementComparison,
+} from '../../types/reports';
+import { exportToCSV } from '../../utills/export';
+
+type DateRangePreset = 'monthly' | 'quarterly' | 'yearly';
+
+const currencyFormatter = new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 2,
+});
+
+const toDateString = (date: Date) => date.toISOString().split('T')[0];
+
+/**
+ * Get the current month, quarter or year as a start/end date range
+ */
+const getPresetRange = (preset: DateRangePreset) => {
+    const today = new Date();
+    const year = today.getUTCFullYear();
+    const month = today.getUTCMonth();
+
+    if (preset === 'monthly') {
+        return {
+            startDate: toDateString(new Date(Date.UTC(year, month, 1))),
+            endDate: toDateString(new Date(Date.UTC(year, month + 1, 0))),
+        };
+    }
+    if (preset === 'quarterly') {
+        const quarterStart = month - (month % 3);
+        return {
+            startDate: toDateString(new Date(Date.UTC(year, quarterStart, 1))),
+            endDate: toDateString(
+                new Date(Date.UTC(year, quarterStart + 3, 0))
+            ),
+        };
+    }
+    return {
+        startDate: toDateString(new Date(Date.UTC(year, 0, 1))),
+        endDate: toDateString(new Date(Date.UTC(year, 11, 31))),
+    };
+};
+
+const COMPARISON_LABELS: Record<IncomeStatementComparison, string> = {
+    previous_period: 'previous period',
+    previous_year: 'same period last year',
+};
+
+const getTrend = (amount: IncomeStatementAmount, period: string) => {
+    if (amount.changePercent === null) return undefined;
+    return {
+        value: Math.abs(amount.changePercent),
+        direction: (amount.changePercent >= 0 ? 'up' : 'down') as 'up' | 'down',
+        period,
+    };
+};
+
+/**
+ * Build chart data for revenue or expense accounts with their share of the total
+ */
+const getBreakdown = (report: IncomeStatement, accountType: string) => {
+    const accounts = report.sections
+        .filter((section) => section.accountType === accountType)
+        .flatMap((section) => section.accounts)
+        .filter((account) => account.amount.current > 0);
+    const total = accounts.reduce(
+        (sum, account) => sum + account.amount.current,
+        0
+    );
+
+    return accounts.map((account) => ({
+        name: account.accountName,
+        amount: account.amount.current,
+        percentage:
+            total > 0 ? Math.round((account.amount.current / total) * 100) : 0,
+    }));
+};
 
 const IncomeStatementpage = () => {
-    const [dateRange, setDateRange] = useState('monthly');
-    const [startDate, setStartDate] = useState('');
-    const [endDate, setEndDate] = useState('');
-
-    // Mock data - replace with API calls
-    const revenueData = [
-        { name: 'Service Revenue', revenue: 120000, percentage: 60 },
-        { name: 'Product Sales', revenue: 50000, percentage: 25 },
-        { name: 'Other Income', revenue: 30000, percentage: 15 },
-    ];
-
-    const expenseData = [
-        { category: 'Salaries', amount: 53000, percentage: 35 },
-        { category: 'Rent', amount: 12000, percentage: 20 },
-        { category: 'Utilities', amount: 5000, percentage: 15 },
-        { category: 'Marketing', amount: 8000, percentage: 13 },
-        { category: 'Other', amount: 12000, percentage: 17 },
-    ];
-
-    const profitabilityData = [
-        { month: 'Jan', profitMargin: 38, target: 40 },
-        { month: 'Feb', profitMargin: 40, target: 40 },
-        { month: 'Mar', profitMargin: 39, target: 40 },
-        { month: 'Apr', profitMargin: 41, target: 40 },
-        { month: 'May', profitMargin: 42, target: 40 },
-    ];
+    const [dateRange, setDateRange] = useState<DateRangePreset | null>(
+        'yearly'
+    );
+    const [startDate, setStartDate] = useState(
+        getPresetRange('yearly').startDate
+    );
+    const [endDate, setEndDate] = useState(getPresetRange('yearly').endDate);
+    const [compareTo, setCompareTo] = useState<IncomeStatementComparison | ''>(
+        ''
+    );
+
+    const { data, isLoading, error } = useIncomeStatement({
+        startDate: startDate || undefined,
+        endDate: endDate || undefined,
+        compareTo: compareTo || undefined,
+        hideZeroBalances: true,
+    });
+    const report = data?.data;
+    const trendPeriod = compareTo ? COMPARISON_LABELS[compareTo] : '';
+
+    const handlePresetChange = (preset: DateRangePreset) => {
+        const range = getPresetRange(preset);
+        setDateRange(preset);
+        setStartDate(range.startDate);
+        setEndDate(range.endDate);
+    };
+
+    const handleExport = () => {
+        if (!report) return;
+
+        const toRow = (label: string, amount: IncomeStatementAmount) => ({
+            Line: label,
+            Amount: amount.current,
+            ...(report.comparisonPeriod
+                ? {
+                      Comparison: amount.comparison ?? 0,
+                      Change: amount.change ?? 0,
+                      'Change %': amount.changePercent ?? '',
+                  }
+                : {}),
+        });
+
+        exportToCSV(
+            [
+                ...report.sections.flatMap((section) => [
+                    ...section.accounts.map((account) =>
+                        toRow(
+                            account.accountNumber
+                                ? `${account.accountNumber} - ${account.accountName}`
+                                : account.accountName,
+                            account.amount
+                        )
+                    ),
+                    toRow(
+                        `Total ${INCOME_STATEMENT_SECTION_LABELS[section.key]}`,
+                        section.total
+                    ),
+                ]),
+                toRow('Gross Profit', report.totals.grossProfit),
+                toRow('Operating Income', report.totals.operatingIncome),
+                toRow('Net Income', report.totals.netIncome),
+            ],
+            `income-statement-${report.period.startDate}-${report.period.endDate}`
+        );
+    };
 
     return (
         <div className="space-y-6">
@@ -54,7 +175,11 @@ const IncomeStatementpage = () => {
                 </div>
                 <div className="flex items-center gap-3">
                     <div className="relative">
-                        <button className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-primary bg-white border-2 border-primary-10 rounded-2 hover:border-primary hover:bg-primary-10 transition-all">
+                        <button
+                            onClick={handleExport}
+                            disabled={!report}
+                            className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-primary bg-white border-2 border-primary-10 rounded-2 hover:border-primary hover:bg-primary-10 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
                             <FaDownload />
                             Export
                         </button>
@@ -65,7 +190,7 @@ const IncomeStatementpage = () => {
             {/* Date Range Selector */}
             <div className="bg-white rounded-2 shadow-sm border border-primary-10 p-4">
                 <div className="flex flex-col sm:flex-row gap-4 items-end">
-                    <div className="flex-1 grid grid-cols-2 gap-4">
+                    <div className="flex-1 grid grid-cols-3 gap-4">
                         <div>
                             <label className="block text-sm font-medium text-primary mb-2">
                                 Start Date
@@ -73,7 +198,10 @@ const IncomeStatementpage = () => {
                             <input
                                 type="date"
                                 value={startDate}
-                                onChange={(e) => setStartDate(e.target.value)}
+                                onChange={(e) => {
+                                    setStartDate(e.target.value);
+                                    setDateRange(null);
+                                }}
                                 className="w-full px-4 py-2 border border-primary-10 rounded-2 text-sm text-primary focus:outline-none focus:border-primary"
                             />
                         </div>
@@ -84,83 +212,152 @@ const IncomeStatementpage = () => {
                             <input
                                 type="date"
                                 value={endDate}
-                                onChange={(e) => setEndDate(e.target.value)}
+                                onChange={(e) => {
+                                    setEndDate(e.target.value);
+                                    setDateRange(null);
+                                }}
                                 className="w-full px-4 py-2 border border-primary-10 rounded-2 text-sm text-primary focus:outline-none focus:border-primary"
                             />
                         </div>
-                    </div>
-                    <div className="flex gap-2">
-                        {['Monthly', 'Quarterly', 'Yearly'].map((range) => (
-                            <button
-                                key={range}
-                                onClick={() =>
-                                    setDateRange(range.toLowerCase())
+                        <div>
+                            <label className="block text-sm font-medium text-primary mb-2">
+                                Compare To
+                            </label>
+                            <select
+                                value={compareTo}
+                                onChange={(e) =>
+                                    setCompareTo(
+                                        e.target.value as
+                                            | IncomeStatementComparison
+                                            | ''
+                                    )
                                 }
-                                className={`px-4 py-2 text-sm font-medium rounded-2 transition-all ${
-                                    dateRange === range.toLowerCase()
-                                        ? 'bg-primary text-white'
-                                        : 'bg-primary-10 text-primary hover:bg-primary-25'
-                                }`}
+                                className="w-full px-4 py-2 border border-primary-10 rounded-2 text-sm text-primary focus:outline-none focus:border-primary"
                             >
-                                {range}
-                            </button>
-                        ))}
+                                <option value="">No comparison</option>
+                                <option value="previous_period">
+                                    Previous period
+                                </option>
+                                <option value="previous_year">
+                                    Same period last year
+                                </option>
+                            </select>
+                        </div>
+                    </div>
+                    <div className="flex gap-2">
+                        {(['Monthly', 'Quarterly', 'Yearly'] as const).map(
+                            (range) => (
+                                <button
+                                    key={range}
+                                    onClick={() =>
+                                        handlePresetChange(
+                                            range.toLowerCase() as DateRangePreset
+                                        )
+                                    }
+                                    className={`px-4 py-2 text-sm font-medium rounded-2 transition-all ${
+                                        dateRange === range.toLowerCase()
+                                            ? 'bg-primary text-white'
+                                            : 'bg-primary-10 text-primary hover:bg-primary-25'
+                                    }`}
+                                >
+                                    {range}
+                                </button>
+                            )
+                        )}
                     </div>
                 </div>
             </div>
 
-            {/* Summary Cards */}
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                <SummaryCard
-                    title="Total Revenue"
-                    value="$200,000"
-                    trend={{ value: 8, direction: 'up', period: 'last month' }}
-                    icon={<FaMoneyBillWave />}
-                />
-                <SummaryCard
-                    title="Total Expenses"
-                    value="$90,000"
-                    trend={{ value: 5, direction: 'up', period: 'last month' }}
-                    icon={<FaChartLine />}
-                />
-                <SummaryCard
-                    title="Net Income"
-                    value="$110,000"
-                    trend={{ value: 12, direction: 'up', period: 'last month' }}
-                    icon={<FaPercent />}
-                />
-            </div>
+            {isLoading ? (
+                <div className="flex items-center justify-center min-h-[400px]">
+                    <Loading />
+                </div>
+            ) : error || !report ? (
+                <div className="flex items-center justify-center min-h-[400px]">
+                    <p className="text-red-500">
+                        Failed to load income statement
+                    </p>
+                </div>
+            ) : (
+                <>
+                    {/* Summary Cards */}
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                        <SummaryCard
+                            title="Total Revenue"
+                            value={currencyFormatter.format(
+                                report.totals.totalRevenue.current
+                            )}
+                            trend={getTrend(
+                                report.totals.totalRevenue,
+                                trendPeriod
+                            )}
+                            icon={<FaMoneyBillWave />}
+                        />
+                        <SummaryCard
+                            title="Total Expenses"
+                            value={currencyFormatter.format(
+                                report.totals.totalExpenses.current
+                            )}
+                            trend={getTrend(
+                                report.totals.totalExpenses,
+                                trendPeriod
+                            )}
+                            icon={<FaChartLine />}
+                        />
+                        <SummaryCard
+                            title="Net Income"
+                            value={currencyFormatter.format(
+                                report.totals.netIncome.current
+                            )}
+                            trend={getTrend(
+                                report.totals.netIncome,
+                                trendPeriod
+                            )}
+                            icon={<FaPercent />}
+                        />
+                    </div>
 
-            {/* Charts */}
-            <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
-                <ChartWidget
-                    title="Revenue Breakdown"
-                    subtitle="Revenue by category"
-                >
-                    <RevenueBarChart data={revenueData} />
-                </ChartWidget>
-                <ChartWidget
-                    title="Expense Breakdown"
-                    subtitle="Expenses by category"
-                >
-                    <ExpensePieChart data={expenseData} />
-                </ChartWidget>
-            </div>
+                    {/* Charts */}
+                    <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+                        <ChartWidget
+                            title="Revenue Breakdown"
+                            subtitle="Revenue by account"
+                        >
+                            <RevenueBarChart
+                                data={getBreakdown(report, 'revenue').map(
+                                    (item) => ({
+                                        name: item.name,
+                                        revenue: item.amount,
+                                        percentage: item.percentage,
+                                    })
+                                )}
+                            />
+                        </ChartWidget>
+                        <ChartWidget
+                            title="Expense Breakdown"
+                            subtitle="Expenses by account"
+                        >
+                            <ExpensePieChart
+                                data={getBreakdown(report, 'expense').map(
+                                    (item) => ({
+                                        category: item.name,
+                                        amount: item.amount,
+                                        percentage: item.percentage,
+                                    })
+                                )}
+                            />
+                        </ChartWidget>
+                    </div>
 
-            <ChartWidget
-                title="Profitability Trend"
-                subtitle="Net profit margin over time"
-            >
-                <ProfitabilityLineChart data={profitabilityData} />
-            </ChartWidget>
-
-            {/* Income Statement Table */}
-            <div className="bg-white rounded-2 shadow-sm border border-primary-10 p-6">
-                <h3 className="text-lg font-semibold text-primary mb-4">
-                    Detailed Income Statement
-                </h3>
-                <IncomeStatementTable />
-            </div>
+                    {/* Income Statement Table */}
+                    <div className="bg-white rounded-2 shadow-sm border border-primary-10 p-6">
+                        <h3 className="text-lg font-semibold text-primary mb-4">
+                            Detailed Income Statement
+                        </h3>
+                        <IncomeStatementTable report={report} />
+                    </div>
+                </>
+            )}
         </div>
     );
 };
@@ -1,73 +1,49 @@
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
 import {
+    FaBan,
     FaCheckCircle,
     FaClock,
+    FaCog,
     FaEdit,
     FaEye,
     FaFileInvoiceDollar,
     FaFilter,
+    FaPaperPlane,
     FaPlus,
     FaSearch,
     FaTimesCircle,
     FaTrash,
 } from 'react-icons/fa';
+import CustomerPaymentsPanel from '../../components/customerPayment/CustomerPaymentsPanel';
+import DocumentAttachments from '../../components/documents/DocumentAttachments';
 import CreateInvoiceModal from '../../components/invoice/CreateInvoiceModal';
+import ConfirmationDialog from '../../components/shared/ConfirmationDialog';
+import Loading from '../../components/shared/Loading';
+import Popup from '../../components/shared/Popup';
 import Button from '../../components/typography/Button';
-import { InputField } from '../../components/typography/InputFields';
-
-type Invoice = {
-    id: string;
-    invoiceNumber: string;
-    clientName: string;
-    date: string;
-    dueDate: string;
-    amount: number;
-    status: 'draft' | 'sent' | 'paid' | 'overdue';
-    description: string;
-};
-
-const MOCK_INVOICES: Invoice[] = [
-    {
-        id: '1',
-        invoiceNumber: 'INV-2024-001',
-        clientName: 'Acme Corporation',
-        date: '2024-01-15',
-        dueDate: '2024-02-15',
-        amount: 5000,
-        status: 'paid',
-        description: 'Monthly accounting services',
-    },
-    {
-        id: '2',
-        invoiceNumber: 'INV-2024-002',
-        clientName: 'Tech Solutions Inc',
-        date: '2024-01-20',
-        dueDate: '2024-02-20',
-        amount: 7500,
-        status: 'sent',
-        description: 'Q1 Financial reporting',
-    },
-    {
-        id: '3',
-        invoiceNumber: 'INV-2024-003',
-        clientName: 'Global Enterprises',
-        date: '2024-01-25',
-        dueDate: '2024-02-25',
-        amount: 12000,
-        status: 'overdue',
-        description: 'Annual audit services',
-    },
-    {
-        id: '4',
-        invoiceNumber: 'INV-2024-004',
-        clientName: 'Startup Co',
-        date: '2024-02-01',
-        dueDate: '2024-03-01',
-        amount: 3000,
-        status: 'draft',
-        description: 'Bookkeeping services',
-    },
-];
+import {
+    InputField,
+    SelectField,
+    TextareaField,
+} from '../../components/typography/InputFields';
+import { useChartOfAccounts } from '../../services/apis/chartsAccountApi';
+import {
+    useCreateInvoice,
+    useDeleteInvoice,
+    useInvoice,
+    useInvoiceSettings,
+    useInvoices,
+    useSendInvoice,
+    useUpdateInvoice,
+    useUpdateInvoiceSettings,
+    useVoidInvoice,
+} from '../../services/apis/invoiceApi';
+import type {
+    CreateInvoicePayload,
+    Invoice,
+    InvoiceStatus,
+} from '../../types/invoice';
+import { showSuccessToast } from '../../utills/toast';
 
 const currencyFormatter = new Intl.NumberFormat('en-US', {
     style: 'currency',
@@ -75,13 +51,21 @@ const currencyFormatter = new Intl.NumberFormat('en-US', {
     minimumFractionDigits: 2,
 });
 
-const statusConfig = {
+const statusConfig: Record<
+    InvoiceStatus,
+    { label: string; color: string; icon: typeof FaClock }
+> = {
     draft: {
         label: 'Draft',
         color: 'bg-gray-100 text-gray-700',
         icon: FaFileInvoiceDollar,
     },
     sent: { label: 'Sent', color: 'bg-blue-100 text-blue-700', icon: FaClock },
+    partially_paid: {
+        label: 'Partially Paid',
+        color: 'bg-yellow-100 text-yellow-700',
+        icon: FaClock,
+    },
     paid: {
         label: 'Paid',
         color: 'bg-green-100 text-green-700',
@@ -92,62 +76,282 @@ const statusConfig = {
         color: 'bg-red-100 text-red-700',
         icon: FaTimesCircle,
     },
+    void: {
+        label: 'Void',
+        color: 'bg-gray-100 text-gray-500',
+        icon: FaBan,
+    },
+};
+
+type SettingsFormState = {
+    numberPrefix: string;
+    nextNumber: string;
+    numberPadding: string;
+    receivableAccountId: string;
+    taxAccountId: string;
 };
 
 const Invoicepage = () => {
-    const [invoices] = useState<Invoice[]>(MOCK_INVOICES);
     const [searchQuery, setSearchQuery] = useState('');
-    const [statusFilter, setStatusFilter] = useState<string>('all');
+    const [statusFilter, setStatusFilter] = useState<InvoiceStatus | 'all'>(
+        'all'
+    );
     const [showCreateModal, setShowCreateModal] = useState(false);
+    const [editingInvoiceId, setEditingInvoiceId] = useState<string | null>(
+        null
+    );
+    const [viewInvoiceId, setViewInvoiceId] = useState<string | null>(null);
+    const [deleteInvoice, setDeleteInvoice] = useState<Invoice | null>(null);
+    const [voidInvoice, setVoidInvoice] = useState<Invoice | null>(null);
+    const [voidReason, setVoidReason] = useState('');
+    const [showSettings, setShowSettings] = useState(false);
+    const [settingsForm, setSettingsForm] = useState<SettingsFormState>({
+        numberPrefix: '',
+        nextNumber: '',
+        numberPadding: '',
+        receivableAccountId: '',
+        taxAccountId: '',
+    });
 
-    const filteredInvoices = invoices.filter((invoice) => {
-        const matchesSearch =
-            invoice.invoiceNumber
-                .toLowerCase()
-                .includes(searchQuery.toLowerCase()) ||
-            invoice.clientName
-                .toLowerCase()
-                .includes(searchQuery.toLowerCase());
-        const matchesStatus =
-            statusFilter === 'all' || invoice.status === statusFilter;
-        return matchesSearch && matchesStatus;
+    // API hooks
+    const { data, isLoading, error } = useInvoices({
+        search: searchQuery || undefined,
+        status: statusFilter !== 'all' ? statusFilter : undefined,
+        limit: 100,
+    });
+    const { data: editingData, isLoading: isEditingLoading } = useInvoice(
+        editingInvoiceId ?? undefined
+    );
+    const { data: viewData, isLoading: isViewLoading } = useInvoice(
+        viewInvoiceId ?? undefined
+    );
+    const { data: settingsData } = useInvoiceSettings();
+    const { data: accountsData } = useChartOfAccounts({
+        isActive: true,
+        limit: 100,
     });
 
-    const totalAmount = filteredInvoices.reduce(
-        (sum, invoice) => sum + invoice.amount,
+    const createMutation = useCreateInvoice();
+    const updateMutation = useUpdateInvoice();
+    const sendMutation = useSendInvoice();
+    const deleteMutation = useDeleteInvoice();
+    const voidMutation = useVoidInvoice();
+    const updateSettingsMutation = useUpdateInvoiceSettings();
+
+    const invoices = useMemo(() => {
+        return data?.data?.items || [];
+    }, [data]);
+
+    const editingInvoice = editingData?.data ?? null;
+    const viewInvoice = viewData?.data ?? null;
+
+    // Receivable accounts are assets, tax accounts are liabilities
+    const { receivableOptions, taxOptions } = useMemo(() => {
+        const accounts = accountsData?.data?.items || [];
+        const toOptions = (type: string) => [
+            { value: '', label: 'None' },
+            ...accounts
+                .filter((account) => (account.accountType as string) === type)
+                .map((account) => ({
+                    value: account.id,
+                    label: `${account.accountNumber} - ${account.accountName}`,
+                })),
+        ];
+        return {
+            receivableOptions: toOptions('asset'),
+            taxOptions: toOptions('liability'),
+        };
+    }, [accountsData]);
+
+    // Summary of the listed invoices, leaving out drafts and void invoices
+    const postedInvoices = invoices.filter(
+        (invoice) => invoice.status !== 'draft' && invoice.status !== 'void'
+    );
+    const totalAmount = postedInvoices.reduce(
+        (sum, invoice) => sum + invoice.total,
         0
     );
-    const paidAmount = filteredInvoices
-        .filter((inv) => inv.status === 'paid')
-        .reduce((sum, invoice) => sum + invoice.amount, 0);
-    const pendingAmount = filteredInvoices
-        .filter((inv) => inv.status !== 'paid')
-        .reduce((sum, invoice) => sum + invoice.amount, 0);
-
-    // When modal is open, show it instead of the regular content
-    if (showCreateModal) {
+    const paidAmount = postedInvoices.reduce(
+        (sum, invoice) => sum + invoice.amountPaid,
+        0
+    );
+    const outstandingInvoices = postedInvoices.filter(
+        (invoice) => invoice.balanceDue > 0
+    );
+    const outstandingAmount = outstandingInvoices.reduce(
+        (sum, invoice) => sum + invoice.balanceDue,
+        0
+    );
+
+    const isSubmitting =
+        createMutation.isPending ||
+        updateMutation.isPending ||
+        sendMutation.isPending;
+
+    const handleCloseModal = () => {
+        setShowCreateModal(false);
+        setEditingInvoiceId(null);
+    };
+
+    // Create or update the draft and return its ID
+    const saveDraft = async (payload: CreateInvoicePayload) => {
+        if (editingInvoiceId) {
+            const response = await updateMutation.mutateAsync({
+                id: editingInvoiceId,
+                payload,
+            });
+            return response.data.id;
+        }
+
+        const response = await createMutation.mutateAsync(payload);
+        return response.data.id;
+    };
+
+    const handleSaveDraft = async (payload: CreateInvoicePayload) => {
+        try {
+            const isNew = !editingInvoiceId;
+            await saveDraft(payload);
+            if (isNew) {
+                showSuccessToast('Invoice saved as draft');
+            }
+            handleCloseModal();
+        } catch (error) {
+            // Error is handled by the mutation
+            console.error('Save invoice error:', error);
+        }
+    };
+
+    // Sending saves the draft first, then posts it to the ledger
+    const handleSendInvoice = async (payload: CreateInvoicePayload) => {
+        let invoiceId: string;
+        try {
+            invoiceId = await saveDraft(payload);
+        } catch (error) {
+            // Error is handled by the mutation
+            console.error('Save invoice error:', error);
+            return;
+        }
+
+        // A draft that fails to send stays editable
+        setShowCreateModal(false);
+        setEditingInvoiceId(invoiceId);
+        try {
+            await sendMutation.mutateAsync(invoiceId);
+            handleCloseModal();
+        } catch (error) {
+            // Error is handled by the mutation
+            console.error('Send invoice error:', error);
+        }
+    };
+
+    const handleSend = async (invoice: Invoice) => {
+        try {
+            await sendMutation.mutateAsync(invoice.id);
+        } catch (error) {
+            // Error is handled by the mutation
+            console.error('Send invoice error:', error);
+        }
+    };
+
+    const handleDelete = async () => {
+        if (!deleteInvoice) return;
+
+        try {
+            await deleteMutation.mutateAsync(deleteInvoice.id);
+            setDeleteInvoice(null);
+        } catch (error) {
+            // Error is handled by the mutation
+            console.error('Delete error:', error);
+        }
+    };
+
+    const handleVoid = async () => {
+        if (!voidInvoice) return;
+
+        try {
+            await voidMutation.mutateAsync({
+                id: voidInvoice.id,
+                payload: voidReason.trim() ? { reason: voidReason.trim() } : {},
+            });
+            setVoidInvoice(null);
+            setVoidReason('');
+        } catch (error) {
+            // Error is handled by the mutation
+            console.error('Void error:', error);
+        }
+    };
+
+    const handleOpenSettings = () => {
+        const settings = settingsData?.data;
+        setSettingsForm({
+            numberPrefix: settings?.numberPrefix ?? 'INV-',
+            nextNumber: String(settings?.nextNumber ?? 1),
+            numberPadding: String(settings?.numberPadding ?? 4),
+            receivableAccountId: settings?.receivableAccountId ?? '',
+            taxAccountId: settings?.taxAccountId ?? '',
+        });
+        setShowSettings(true);
+    };
+
+    const handleSaveSettings = async (e: React.FormEvent) => {
+        e.preventDefault();
+
+        try {
+            await updateSettingsMutation.mutateAsync({
+                numberPrefix: settingsForm.numberPrefix.trim(),
+                nextNumber: Number(settingsForm.nextNumber),
+                numberPadding: Number(settingsForm.numberPadding),
+                receivableAccountId: settingsForm.receivableAccountId || null,
+                taxAccountId: settingsForm.taxAccountId || null,
+            });
+            setShowSettings(false);
+        } catch (error) {
+            // Error is handled by the mutation
+            console.error('Save settings error:', error);
+        }
+    };
+
+    // When the modal is open, show it instead of the regular content
+    if (showCreateModal || editingInvoiceId) {
+        if (editingInvoiceId && (isEditingLoading || !editingInvoice)) {
+            return (
+                <div className="flex items-center justify-center min-h-[400px]">
+                    <Loading />
+                </div>
+            );
+        }
+
         return (
             <div className="relative h-full -m-4">
                 <CreateInvoiceModal
-                    isOpen={showCreateModal}
-                    onClose={() => setShowCreateModal(false)}
-                    onSaveDraft={(data) => {
-                        console.log('Saving draft:', data);
-                        setShowCreateModal(false);
-                    }}
-                    onSendInvoice={(data) => {
-                        console.log('Sending invoice:', data);
-                        setShowCreateModal(false);
-                    }}
+                    key={editingInvoice?.updatedAt ?? 'new'}
+                    isOpen
+                    invoice={editingInvoiceId ? editingInvoice : null}
+                    isSubmitting={isSubmitting}
+                    onClose={handleCloseModal}
+                    onSaveDraft={handleSaveDraft}
+                    onSendInvoice={handleSendInvoice}
                 />
             </div>
         );
     }
 
+    if (isLoading) {
+        return (
+            <div className="flex items-center justify-center min-h-[400px]">
+                <Loading />
+            </div>
+        );
+    }
+
     return (
         <div className="flex flex-col gap-4">
             {/* Header with Create Button */}
-            <div className="flex justify-end">
+            <div className="flex justify-end gap-3">
+                <Button variant="outline" onClick={handleOpenSettings}>
+                    <FaCog className="w-3 h-3" />
+                    Settings
+                </Button>
                 <Button onClick={() => setShowCreateModal(true)}>
                     <FaPlus className="w-3 h-3" />
                     Create Invoice
@@ -158,13 +362,13 @@ const Invoicepage = () => {
             <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                 <div className="bg-white rounded-2 shadow-sm border border-primary-10 p-4">
                     <div className="text-sm text-primary-50 mb-1">
-                        Total Invoices
+                        Total Invoiced
                     </div>
                     <div className="text-2xl font-bold text-primary">
                         {currencyFormatter.format(totalAmount)}
                     </div>
                     <div className="text-xs text-primary-50 mt-1">
-                        {filteredInvoices.length} invoices
+                        {postedInvoices.length} invoices
                     </div>
                 </div>
                 <div className="bg-white rounded-2 shadow-sm border border-primary-10 p-4">
@@ -174,25 +378,22 @@ const Invoicepage = () => {
                     </div>
                     <div className="text-xs text-primary-50 mt-1">
                         {
-                            filteredInvoices.filter(
-                                (inv) => inv.status === 'paid'
+                            postedInvoices.filter(
+                                (invoice) => invoice.status === 'paid'
                             ).length
                         }{' '}
-                        invoices
+                        invoices paid in full
                     </div>
                 </div>
                 <div className="bg-white rounded-2 shadow-sm border border-primary-10 p-4">
-                    <div className="text-sm text-primary-50 mb-1">Pending</div>
+                    <div className="text-sm text-primary-50 mb-1">
+                        Outstanding
+                    </div>
                     <div className="text-2xl font-bold text-orange-600">
-                        {currencyFormatter.format(pendingAmount)}
+                        {currencyFormatter.format(outstandingAmount)}
                     </div>
                     <div className="text-xs text-primary-50 mt-1">
-                        {
-                            filteredInvoices.filter(
-                                (inv) => inv.status !== 'paid'
-                            ).length
-                        }
-                        invoices
+                        {outstandingInvoices.length} invoices
                     </div>
                 </div>
             </div>
@@ -201,28 +402,33 @@ const Invoicepage = () => {
             <div className="bg-white rounded-2 shadow-sm border border-primary-10 p-4">
                 <div className="flex flex-col sm:flex-row gap-4">
                     <div className="flex-1">
-                        <div className="relative">
-                            <FaSearch className="absolute left-3 top-1/2 -translate-y-1/2 text-primary-50 w-4 h-4" />
-                            <InputField
-                                id="search-invoices"
-                                placeholder="Search invoices..."
-                                value={searchQuery}
-                                onChange={(e) => setSearchQuery(e.target.value)}
-                            />
-                        </div>
+                        <InputField
+                            id="search-invoices"
+                            placeholder="Search by number, reference or customer..."
+                            value={searchQuery}
+                            onChange={(e) => setSearchQuery(e.target.value)}
+                            icon={<FaSearch />}
+                        />
                     </div>
                     <div className="flex items-center gap-2">
                         <FaFilter className="text-primary-50" />
                         <select
                             value={statusFilter}
-                            onChange={(e) => setStatusFilter(e.target.value)}
+                            onChange={(e) =>
+                                setStatusFilter(
+                                    e.target.value as InvoiceStatus | 'all'
+                                )
+                            }
                             className="px-4 py-2 border border-primary-10 rounded-2 text-sm text-primary focus:outline-none focus:border-primary"
                         >
                             <option value="all">All Status</option>
-                            <option value="draft">Draft</option>
-                            <option value="sent">Sent</option>
-                            <option value="paid">Paid</option>
-                            <option value="overdue">Overdue</option>
+                            {(Object.keys(statusConfig) as InvoiceStatus[]).map(
+                                (status) => (
+                                    <option key={status} value={status}>
+                                        {statusConfig[status].label}
+                                    </option>
+                                )
+                            )}
                         </select>
                     </div>
                 </div>
@@ -230,121 +436,525 @@ const Invoicepage = () => {
 
             {/* Invoices Table */}
             <div className="bg-white rounded-2 shadow-sm border border-primary-10 overflow-hidden">
-                <div className="overflow-x-auto">
-                    <table className="w-full">
-                        <thead className="bg-primary-10">
-                            <tr>
-                                <th className="px-4 py-3 text-left text-sm font-semibold text-primary">
-                                    Invoice #
-                                </th>
-                                <th className="px-4 py-3 text-left text-sm font-semibold text-primary">
-                                    Client
-                                </th>
-                                <th className="px-4 py-3 text-left text-sm font-semibold text-primary">
-                                    Date
-                                </th>
-                                <th className="px-4 py-3 text-left text-sm font-semibold text-primary">
-                                    Due Date
-                                </th>
-                                <th className="px-4 py-3 text-right text-sm font-semibold text-primary">
-                                    Amount
-                                </th>
-                                <th className="px-4 py-3 text-center text-sm font-semibold text-primary">
-                                    Status
-                                </th>
-                                <th className="px-4 py-3 text-center text-sm font-semibold text-primary w-32">
-                                    Actions
-                                </th>
-                            </tr>
-                        </thead>
-                        <tbody>
-                            {filteredInvoices.length === 0 ? (
+                {error ? (
+                    <div className="px-4 py-8 text-center text-red-500">
+                        Failed to load invoices
+                    </div>
+                ) : (
+                    <div className="overflow-x-auto">
+                        <table className="w-full">
+                            <thead className="bg-primary-10">
                                 <tr>
-                                    <td
-                                        colSpan={7}
-                                        className="px-4 py-8 text-center text-primary-50"
-                                    >
-                                        No invoices found
-                                    </td>
+                                    <th className="px-4 py-3 text-left text-sm font-semibold text-primary">
+                                        Invoice #
+                                    </th>
+                                    <th className="px-4 py-3 text-left text-sm font-semibold text-primary">
+                                        Customer
+                                    </th>
+                                    <th className="px-4 py-3 text-left text-sm font-semibold text-primary">
+                                        Date
+                                    </th>
+                                    <th className="px-4 py-3 text-left text-sm font-semibold text-primary">
+                                        Due Date
+                                    </th>
+                                    <th className="px-4 py-3 text-right text-sm font-semibold text-primary">
+                                        Amount
+                                    </th>
+                                    <th className="px-4 py-3 text-right text-sm font-semibold text-primary">
+                                        Balance Due
+                                    </th>
+                                    <th className="px-4 py-3 text-center text-sm font-semibold text-primary">
+                                        Status
+                                    </th>
+                                    <th className="px-4 py-3 text-center text-sm font-semibold text-primary w-40">
+                                        Actions
+                                    </th>
                                 </tr>
-                            ) : (
-                                filteredInvoices.map((invoice) => {
-                                    const StatusIcon =
-                                        statusConfig[invoice.status].icon;
-                                    return (
-                                        <tr
-                                            key={invoice.id}
-                                            className="border-b border-primary-10 hover:bg-primary-5"
+                            </thead>
+                            <tbody>
+                                {invoices.length === 0 ? (
+                                    <tr>
+                                        <td
+                                            colSpan={8}
+                                            className="px-4 py-8 text-center text-primary-50"
                                         >
-                                            <td className="px-4 py-3">
-                                                <div className="font-medium text-primary">
-                                                    {invoice.invoiceNumber}
-                                                </div>
-                                            </td>
-                                            <td className="px-4 py-3">
-                                                <div className="text-primary">
-                                                    {invoice.clientName}
-                                                </div>
-                                            </td>
-                                            <td className="px-4 py-3 text-primary-75">
-                                                {new Date(
-                                                    invoice.date
-                                                ).toLocaleDateString()}
-                                            </td>
-                                            <td className="px-4 py-3 text-primary-75">
-                                                {new Date(
-                                                    invoice.dueDate
-                                                ).toLocaleDateString()}
-                                            </td>
-                                            <td className="px-4 py-3 text-right font-semibold text-primary">
-                                                {currencyFormatter.format(
-                                                    invoice.amount
-                                                )}
-                                            </td>
-                                            <td className="px-4 py-3">
-                                                <div className="flex justify-center">
-                                                    <span
-                                                        className={`inline-flex items-center gap-1.5 px-3 py-1 rounded-full text-xs font-medium ${statusConfig[invoice.status].color}`}
-                                                    >
-                                                        <StatusIcon className="w-3 h-3" />
-                                                        {
-                                                            statusConfig[
-                                                                invoice.status
-                                                            ].label
-                                                        }
-                                                    </span>
-                                                </div>
-                                            </td>
-                                            <td className="px-4 py-3">
-                                                <div className="flex items-center justify-center gap-2">
-                                                    <button
-                                                        className="p-2 text-primary-50 hover:text-primary hover:bg-primary-10 rounded transition-colors"
-                                                        title="View"
-                                                    >
-                                                        <FaEye className="w-4 h-4" />
-                                                    </button>
-                                                    <button
-                                                        className="p-2 text-primary-50 hover:text-primary hover:bg-primary-10 rounded transition-colors"
-                                                        title="Edit"
-                                                    >
-                                                        <FaEdit className="w-4 h-4" />
-                                                    </button>
-                                                    <button
-                                                        className="p-2 text-red-400 hover:text-red-600 hover:bg-red-50 rounded transition-colors"
-                                                        title="Delete"
-                                                    >
-                                                        <FaTrash className="w-4 h-4" />
-                                                    </button>
-                                                </div>
-                                            </td>
-                                        </tr>
-                                    );
-                                })
-                            )}
-                        </tbody>
-                    </table>
-                </div>
+                                            No invoices found
+                                        </td>
+                                    </tr>
+                                ) : (
+                                    invoices.map((invoice) => {
+                                        const StatusIcon =
+                                            statusConfig[invoice.status].icon;
+                                        const isDraft =
+                                            invoice.status === 'draft';
+                                        return (
+                                            <tr
+                                                key={invoice.id}
+                                                className="border-b border-primary-10 hover:bg-primary-5"
+                                            >
+                                                <td className="px-4 py-3">
+                                                    <div className="font-medium text-primary">
+                                                        {invoice.invoiceNumber}
+                                                    </div>
+                                                    {invoice.reference && (
+                                                        <div className="text-xs text-primary-50">
+                                                            {invoice.reference}
+                                                        </div>
+                                                    )}
+                                                </td>
+                                                <td className="px-4 py-3">
+                                                    <div className="text-primary">
+                                                        {invoice.contact
+                                                            ?.displayName ??
+                                                            '—'}
+                                                    </div>
+                                                </td>
+                                                <td className="px-4 py-3 text-primary-75">
+                                                    {invoice.issueDate}
+                                                </td>
+                                                <td className="px-4 py-3 text-primary-75">
+                                                    {invoice.dueDate}
+                                                </td>
+                                                <td className="px-4 py-3 text-right font-semibold text-primary">
+                                                    {currencyFormatter.format(
+                                                        invoice.total
+                                                    )}
+                                                </td>
+                                                <td className="px-4 py-3 text-right text-primary">
+                                                    {currencyFormatter.format(
+                                                        invoice.balanceDue
+                                                    )}
+                                                </td>
+                                                <td className="px-4 py-3">
+                                                    <div className="flex justify-center">
+                                                        <span
+                                                            className={`inline-flex items-center gap-1.5 px-3 py-1 rounded-full text-xs font-medium ${statusConfig[invoice.status].color}`}
+                                                        >
+                                                            <StatusIcon className="w-3 h-3" />
+                                                            {
+                                                                statusConfig[
+                                                                    invoice
+                                                                        .status
+                                                                ].label
+                                                            }
+                                                        </span>
+                                                    </div>
+                                                </td>
+                                                <td className="px-4 py-3">
+                                                    <div className="flex items-center justify-center gap-2">
+                                                        <button
+                                                            onClick={() =>
+                                                                setViewInvoiceId(
+                                                                    invoice.id
+                                                                )
+                                                            }
+                                                            className="p-2 text-primary-50 hover:text-primary hover:bg-primary-10 rounded transition-colors"
+                                                            title="View"
+                                                        >
+                                                            <FaEye className="w-4 h-4" />
+                                                        </button>
+                                                        {isDraft && (
+                                                            <>
+                                                                <button
+                                                                    onClick={() =>
+                                                                        setEditingInvoiceId(
+                                                                            invoice.id
+                                                                        )
+                                                                    }
+                                                                    className="p-2 text-primary-50 hover:text-primary hover:bg-primary-10 rounded transition-colors"
+                                                                    title="Edit"
+                                                                >
+                                                                    <FaEdit className="w-4 h-4" />
+                                                                </button>
+                                                                <button
+                                                                    onClick={() =>
+                                                                        handleSend(
+                                                                            invoice
+                                                                        )
+                                                                    }
+                                                                    disabled={
+                                                                        sendMutation.isPending
+                                                                    }
+                                                                    className="p-2 text-primary-50 hover:text-primary hover:bg-primary-10 rounded transition-colors disabled:opacity-50"
+                                                                    title="Send"
+                                                                >
+                                                                    <FaPaperPlane className="w-4 h-4" />
+                                                                </button>
+                                                                <button
+                                                                    onClick={() =>
+                                                                        setDeleteInvoice(
+                                                                            invoice
+                                                                        )
+                                                                    }
+                                                                    className="p-2 text-red-400 hover:text-red-600 hover:bg-red-50 rounded transition-colors"
+                                                                    title="Delete"
+                                                                >
+                                                                    <FaTrash className="w-4 h-4" />
+                                                                </button>
+                                                            </>
+                                                        )}
+                                                        {!isDraft &&
+                                                            invoice.status !==
+                                                                'void' &&
+                                                            invoice.amountPaid ===
+                                                                0 && (
+                                                                <button
+                                                                    onClick={() =>
+                                                                        setVoidInvoice(
+                                                                            invoice
+                                                                        )
+                                                                    }
+                                                                    className="p-2 text-red-400 hover:text-red-600 hover:bg-red-50 rounded transition-colors"
+                                                                    title="Void"
+                                                                >
+                                                                    <FaBan className="w-4 h-4" />
+                                                                </button>
+                                                            )}
+                                                    </div>
+                                                </td>
+                                            </tr>
+                                        );
+                                    })
+                                )}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
             </div>
+
+            {/* Payments Received */}
+            <CustomerPaymentsPanel />
+
+            {/* View Invoice Modal */}
+            <Popup
+                isOpen={!!viewInvoiceId}
+                onClose={() => setViewInvoiceId(null)}
+                title={`Invoice ${viewInvoice?.invoiceNumber ?? ''}`}
+                size="2xl"
+            >
+                {isViewLoading || !viewInvoice ? (
+                    <div className="flex items-center justify-center min-h-[200px]">
+                        <Loading />
+                    </div>
+                ) : (
+                    <div className="flex flex-col gap-4 text-sm">
+                        <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+                            <div>
+                                <p className="text-xs text-primary-50">
+                                    Customer
+                                </p>
+                                <p className="text-primary">
+                                    {viewInvoice.contact?.displayName ?? '—'}
+                                </p>
+                            </div>
+                            <div>
+                                <p className="text-xs text-primary-50">
+                                    Status
+                                </p>
+                                <p className="text-primary">
+                                    {statusConfig[viewInvoice.status].label}
+                                </p>
+                            </div>
+                            <div>
+                                <p className="text-xs text-primary-50">
+                                    Issue date
+                                </p>
+                                <p className="text-primary">
+                                    {viewInvoice.issueDate}
+                                </p>
+                            </div>
+                            <div>
+                                <p className="text-xs text-primary-50">
+                                    Due date
+                                </p>
+                                <p className="text-primary">
+                                    {viewInvoice.dueDate}
+                                </p>
+                            </div>
+                        </div>
+                        <table className="w-full">
+                            <thead className="bg-primary-10">
+                                <tr>
+                                    <th className="px-3 py-2 text-left font-semibold text-primary">
+                                        Description
+                                    </th>
+                                    <th className="px-3 py-2 text-left font-semibold text-primary">
+                                        Account
+                                    </th>
+                                    <th className="px-3 py-2 text-right font-semibold text-primary">
+                                        Qty
+                                    </th>
+                                    <th className="px-3 py-2 text-right font-semibold text-primary">
+                                        Price
+                                    </th>
+                                    <th className="px-3 py-2 text-right font-semibold text-primary">
+                                        Tax
+                                    </th>
+                                    <th className="px-3 py-2 text-right font-semibold text-primary">
+                                        Amount
+                                    </th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {(viewInvoice.lines ?? []).map((line) => (
+                                    <tr
+                                        key={line.id}
+                                        className="border-b border-primary-10"
+                                    >
+                                        <td className="px-3 py-2 text-primary">
+                                            {line.description}
+                                        </td>
+                                        <td className="px-3 py-2 text-primary-75">
+                                            {line.account?.accountName ?? '—'}
+                                        </td>
+                                        <td className="px-3 py-2 text-right text-primary">
+                                            {line.quantity}
+                                        </td>
+                                        <td className="px-3 py-2 text-right text-primary">
+                                            {currencyFormatter.format(
+                                                line.unitPrice
+                                            )}
+                                        </td>
+                                        <td className="px-3 py-2 text-right text-primary">
+                                            {currencyFormatter.format(
+                                                line.taxAmount
+                                            )}
+                                        </td>
+                                        <td className="px-3 py-2 text-right text-primary">
+                                            {currencyFormatter.format(
+                                                line.amount
+                                            )}
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                        <div className="ml-auto w-full sm:w-64 space-y-1">
+                            <div className="flex justify-between">
+                                <span className="text-primary-75">
+                                    Subtotal
+                                </span>
+                                <span className="text-primary">
+                                    {currencyFormatter.format(
+                                        viewInvoice.subtotal
+                                    )}
+                                </span>
+                            </div>
+                            <div className="flex justify-between">
+                                <span className="text-primary-75">Tax</span>
+                                <span className="text-primary">
+                                    {currencyFormatter.format(
+                                        viewInvoice.taxAmount
+                                    )}
+                                </span>
+                            </div>
+                            <div className="flex justify-between font-semibold">
+                                <span className="text-primary">Total</span>
+                                <span className="text-primary">
+                                    {currencyFormatter.format(
+                                        viewInvoice.total
+                                    )}
+                                </span>
+                            </div>
+                            <div className="flex justify-between">
+                                <span className="text-primary-75">
+                                    Balance due
+                                </span>
+                                <span className="text-primary">
+                                    {currencyFormatter.format(
+                                        viewInvoice.balanceDue
+                                    )}
+                                </span>
+                            </div>
+                        </div>
+                        {viewInvoice.memo && (
+                            <p className="text-primary-75 whitespace-pre-wrap">
+                                {viewInvoice.memo}
+                            </p>
+                        )}
+                        {viewInvoice.voidReason && (
+                            <p className="text-red-500">
+                                Void reason: {viewInvoice.voidReason}
+                            </p>
+                        )}
+                        <DocumentAttachments
+                            entityType="invoice"
+                            entityId={viewInvoice.id}
+                        />
+                    </div>
+                )}
+            </Popup>
+
+            {/* Invoice Settings Modal */}
+            <Popup
+                isOpen={showSettings}
+                onClose={() => setShowSettings(false)}
+                title="Invoice Settings"
+                size="xl"
+                loading={updateSettingsMutation.isPending}
+                footer={
+                    <div className="flex gap-3">
+                        <Button
+                            type="button"
+                            variant="outline"
+                            onClick={() => setShowSettings(false)}
+                            disabled={updateSettingsMutation.isPending}
+                        >
+                            Cancel
+                        </Button>
+                        <Button
+                            type="submit"
+                            variant="primary"
+                            loading={updateSettingsMutation.isPending}
+                            disabled={updateSettingsMutation.isPending}
+                            form="invoice-settings-form"
+                        >
+                            Save
+                        </Button>
+                    </div>
+                }
+            >
+                <form
+                    id="invoice-settings-form"
+                    onSubmit={handleSaveSettings}
+                    className="grid grid-cols-1 sm:grid-cols-3 gap-4"
+                >
+                    <InputField
+                        id="invoice-number-prefix"
+                        label="Number Prefix"
+                        value={settingsForm.numberPrefix}
+                        onChange={(e) =>
+                            setSettingsForm((prev) => ({
+                                ...prev,
+                                numberPrefix: e.target.value,
+                            }))
+                        }
+                    />
+                    <InputField
+                        id="invoice-next-number"
+                        label="Next Number"
+                        type="number"
+                        min={1}
+                        value={settingsForm.nextNumber}
+                        onChange={(e) =>
+                            setSettingsForm((prev) => ({
+                                ...prev,
+                                nextNumber: e.target.value,
+                            }))
+                        }
+                        required
+                    />
+                    <InputField
+                        id="invoice-number-padding"
+                        label="Digits"
+                        type="number"
+                        min={1}
+                        max={10}
+                        value={settingsForm.numberPadding}
+                        onChange={(e) =>
+                            setSettingsForm((prev) => ({
+                                ...prev,
+                                numberPadding: e.target.value,
+                            }))
+                        }
+                        required
+                    />
+                    <div className="sm:col-span-3">
+                        <SelectField
+                            id="invoice-receivable-account"
+                            label="Accounts Receivable Account"
+                            value={settingsForm.receivableAccountId}
+                            onChange={(e) =>
+                                setSettingsForm((prev) => ({
+                                    ...prev,
+                                    receivableAccountId: e.target.value,
+                                }))
+                            }
+                            options={receivableOptions}
+                        />
+                    </div>
+                    <div className="sm:col-span-3">
+                        <SelectField
+                            id="invoice-tax-account"
+                            label="Sales Tax Account"
+                            value={settingsForm.taxAccountId}
+                            onChange={(e) =>
+                                setSettingsForm((prev) => ({
+                                    ...prev,
+                                    taxAccountId: e.target.value,
+                                }))
+                            }
+                            options={taxOptions}
+                        />
+                    </div>
+                    <p className="sm:col-span-3 text-xs text-primary-50">
+                        Sent invoices debit the accounts receivable account and
+                        credit the sales tax account with their tax.
+                    </p>
+                </form>
+            </Popup>
+
+            {/* Void Confirmation */}
+            <Popup
+                isOpen={!!voidInvoice}
+                onClose={() => {
+                    setVoidInvoice(null);
+                    setVoidReason('');
+                }}
+                title="Void Invoice"
+                size="md"
+                loading={voidMutation.isPending}
+                footer={
+                    <div className="flex gap-3">
+                        <Button
+                            type="button"
+                            variant="outline"
+                            onClick={() => {
+                                setVoidInvoice(null);
+                                setVoidReason('');
+                            }}
+                            disabled={voidMutation.isPending}
+                        >
+                            Cancel
+                        </Button>
+                        <Button
+                            type="button"
+                            variant="primary"
+                            onClick={handleVoid}
+                            loading={voidMutation.isPending}
+                            disabled={voidMutation.isPending}
+                        >
+                            Void
+                        </Button>
+                    </div>
+                }
+            >
+                <div className="flex flex-col gap-4">
+                    <p className="text-sm text-primary-75">
+                        Voiding {voidInvoice?.invoiceNumber} posts a reversing
+                        entry for it today. The invoice keeps its number.
+                    </p>
+                    <TextareaField
+                        id="invoice-void-reason"
+                        label="Reason (optional)"
+                        value={voidReason}
+                        onChange={(e) => setVoidReason(e.target.value)}
+                    />
+                </div>
+            </Popup>
+
+            {/* Delete Confirmation Dialog */}
+            <ConfirmationDialog
+                isOpen={!!deleteInvoice}
+                onClose={() => setDeleteInvoice(null)}
+                onConfirm={handleDelete}
+                title="Delete Invoice"
+                message={`Are you sure you want to delete draft ${deleteInvoice?.invoiceNumber}?`}
+                confirmText="Delete"
+                cancelText="Cancel"
+                confirmVariant="danger"
+                loading={deleteMutation.isPending}
+            />
         </div>
     );
 };
@@ -2,12 +2,17 @@ import { useState } from 'react';
 import {
     FaEdit,
     FaFileAlt,
+    FaFileImport,
     FaPlus,
     FaRedo,
     FaTrash,
     FaUndo,
 } from 'react-icons/fa';
 import { useNavigate } from 'react-router';
+import { ImportJournalEntriesPopup } from '../../components/journal/ImportJournalEntriesPopup';
+import { PendingApprovalsPanel } from '../../components/journal/PendingApprovalsPanel';
+import { RecurringTemplatesPanel } from '../../components/journal/RecurringTemplatesPanel';
+import { ScheduledReversalsPanel } from '../../components/journal/ScheduledReversalsPanel';
 import ConfirmationDialog from '../../components/shared/ConfirmationDialog';
 import Loading from '../../components/shared/Loading';
 import PageHeader from '../../components/shared/PageHeader';
@@ -18,6 +23,7 @@ import {
     usePostJournalEntry,
     useRestoreJournalEntry,
     useReverseJournalEntry,
+    useSubmitJournalEntry,
     useVoidJournalEntry,
 } from '../../services/apis/journalApi';
 import type { JournalEntry, JournalEntryFilters } from '../../types/journal';
@@ -40,6 +46,7 @@ export default function JournalEntriespage() {
         isOpen: boolean;
         entry: JournalEntry | null;
     }>({ isOpen: false, entry: null });
+    const [showImportModal, setShowImportModal] = useState(false);
 
     const { data, isLoading } = useJournalEntries(filters);
     const { mutate: deleteEntry, isPending: isDeleting } =
@@ -48,6 +55,8 @@ export default function JournalEntriespage() {
     const { mutate: voidEntry, isPending: isVoiding } = useVoidJournalEntry();
     const { mutate: reverseEntry } = useReverseJournalEntry();
     const { mutate: restoreEntry } = useRestoreJournalEntry();
+    const { mutate: submitEntry, isPending: isSubmitting } =
+        useSubmitJournalEntry();
 
     const journalEntries = data?.data?.journalEntries || [];
     const total = data?.data?.total || 0;
@@ -92,6 +101,10 @@ export default function JournalEntriespage() {
         }
     };
 
+    const handleSubmitForApproval = (entry: JournalEntry) => {
+        submitEntry({ id: entry.id });
+    };
+
     const handleVoid = (entry: JournalEntry) => {
         setVoidDialog({ isOpen: true, entry });
     };
@@ -149,6 +162,17 @@ export default function JournalEntriespage() {
                 subtitle={`${total} total entries`}
             />
 
+            {/* Header Actions */}
+            <div className="flex items-center gap-3">
+                <Button
+                    onClick={() => setShowImportModal(true)}
+                    variant="outline"
+                    icon={<FaFileImport />}
+                >
+                    Import
+                </Button>
+            </div>
+
             {/* Filters */}
             <div className="bg-white rounded-lg border border-primary-10 p-3">
                 <div className="grid grid-cols-1 md:grid-cols-4 gap-2">
@@ -317,6 +341,25 @@ export default function JournalEntriespage() {
                                                         >
                                                             <FaEdit className="w-4 h-4" />
                                                         </button>
+                                                        {entry.approvalStatus !==
+                                                            'pending' &&
+                                                            entry.approvalStatus !==
+                                                                'approved' && (
+                                                                <button
+                                                                    onClick={() =>
+                                                                        handleSubmitForApproval(
+                                                                            entry
+                                                                        )
+                                                                    }
+                                                                    disabled={
+                                                                        isSubmitting
+                                                                    }
+                                                                    className="text-blue-600 hover:text-blue-800"
+                                                                    title="Submit for approval"
+                                                                >
+                                                                    Submit
+                                                                </button>
+                                                            )}
                                                         <button
                                                             onClick={() =>
                                                                 handlePost(
@@ -435,6 +478,18 @@ export default function JournalEntriespage() {
                 )}
             </div>
 
+            <PendingApprovalsPanel />
+
+            <ScheduledReversalsPanel />
+
+            <RecurringTemplatesPanel />
+
+            {/* Import Popup */}
+            <ImportJournalEntriesPopup
+                isOpen={showImportModal}
+                onClose={() => setShowImportModal(false)}
+            />
+
             {/* Delete Confirmation Dialog */}
             <ConfirmationDialog
                 isOpen={deleteDialog.isOpen}
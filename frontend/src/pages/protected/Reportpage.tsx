@@ -22,6 +22,8 @@ import ExpensePieChart from '../../components/dashboard/charts/ExpensePieChart';
 import ProfitabilityLineChart from '../../components/dashboard/charts/ProfitabilityLineChart';
 import RevenueBarChart from '../../components/dashboard/charts/RevenueBarChart';
 import IncomeStatementTable from '../../components/reports/IncomeStatementTable';
+import Loading from '../../components/shared/Loading';
+import { useIncomeStatement } from '../../services/apis/reportsApi';
 import {
     exportToCSV,
     exportToExcel,
@@ -47,6 +49,36 @@ const TIME_RANGE_OPTIONS: { label: string; value: TimeRangeValue }[] = [
     { label: 'Daily', value: 'daily' },
 ];
 
+const RANGE_LENGTH: Record<TimeRangeValue, { months?: number; days?: number }> =
+    {
+        yearly: { months: 12 },
+        halfYearly: { months: 6 },
+        quarterly: { months: 3 },
+        monthly: { months: 1 },
+        fifteenDays: { days: 15 },
+        weekly: { days: 7 },
+        daily: { days: 1 },
+    };
+
+/**
+ * Get the date range ending today that covers a time range option
+ */
+const getRangeDates = (range: TimeRangeValue) => {
+    const { months, days } = RANGE_LENGTH[range];
+    const endDate = new Date();
+    const startDate = new Date(endDate);
+    if (months) {
+        startDate.setUTCMonth(startDate.getUTCMonth() - months);
+        startDate.setUTCDate(startDate.getUTCDate() + 1);
+    } else if (days) {
+        startDate.setUTCDate(startDate.getUTCDate() - days + 1);
+    }
+    return {
+        startDate: startDate.toISOString().split('T')[0],
+        endDate: endDate.toISOString().split('T')[0],
+    };
+};
+
 const RANGE_CONFIG: Record<
     TimeRangeValue,
     { label: string; multiplier: number; trendPeriod: string }
@@ -335,6 +367,12 @@ const Reportpage = () => {
     const exportMenuRef = useRef<HTMLDivElement>(null);
     const filterMenuRef = useRef<HTMLDivElement>(null);
     const data = useReportData(selectedRange);
+    const { data: incomeStatementData, isLoading: isIncomeStatementLoading } =
+        useIncomeStatement({
+            ...getRangeDates(selectedRange),
+            compareTo: 'previous_period',
+            hideZeroBalances: true,
+        });
 
     useEffect(() => {
         const handleClickOutside = (event: MouseEvent) => {
@@ -814,7 +852,19 @@ const Reportpage = () => {
             {/* Income Statement Table - Only show when Income Statement is selected */}
             {selectedReportType === 'income' && (
                 <div className="mt-6">
-                    <IncomeStatementTable />
+                    {isIncomeStatementLoading ? (
+                        <div className="flex items-center justify-center min-h-[200px]">
+                            <Loading />
+                        </div>
+                    ) : incomeStatementData ? (
+                        <IncomeStatementTable
+                            report={incomeStatementData.data}
+                        />
+                    ) : (
+                        <p className="text-sm text-red-500">
+                            Failed to load income statement
+                        </p>
+                    )}
                 </div>
             )}
         </div>
@@ -2,6 +2,8 @@ import { useEffect } from 'react';
 import {
     FaBell,
     FaBuilding,
+    FaCalendarAlt,
+    FaCoins,
     FaDatabase,
     FaLock,
     FaUser,
@@ -27,6 +29,8 @@ const Settingspage = () => {
         if (path.includes('/settings/tenants')) return 'tenants';
         if (path.includes('/settings/users')) return 'users';
         if (path.includes('/settings/roles')) return 'roles';
+        if (path.includes('/settings/fiscal-periods')) return 'fiscal-periods';
+        if (path.includes('/settings/currency')) return 'currency';
         if (path.includes('/settings/security')) return 'security';
         if (path.includes('/settings/data')) return 'data';
         if (path.includes('/settings/notifications')) return 'notifications';
@@ -56,6 +60,12 @@ const Settingspage = () => {
             : []),
         { id: 'users', label: 'Users', icon: <FaUsers /> },
         { id: 'roles', label: 'Roles', icon: <FaUserShield /> },
+        {
+            id: 'fiscal-periods',
+            label: 'Fiscal Periods',
+            icon: <FaCalendarAlt />,
+        },
+        { id: 'currency', label: 'Currency', icon: <FaCoins /> },
         { id: 'security', label: 'Security', icon: <FaLock /> },
         { id: 'data', label: 'Data & Privacy', icon: <FaDatabase /> },
         { id: 'notifications', label: 'Notifications', icon: <FaBell /> },
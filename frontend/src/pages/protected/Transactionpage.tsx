@@ -1,4 +1,5 @@
 import { FaFileInvoiceDollar } from 'react-icons/fa';
+import { BankRulesPanel } from '../../components/transactions/BankRulesPanel';
 import TransactionsTable from '../../components/transactions/TransactionsTable';
 
 const Transactionpage = () => {
@@ -68,6 +69,8 @@ const Transactionpage = () => {
 
             {/* Transactions Table */}
             <TransactionsTable />
+
+            <BankRulesPanel />
         </div>
     );
 };
@@ -1,4 +1,5 @@
 import { useParams } from 'react-router';
+import DocumentAttachments from '../../components/documents/DocumentAttachments';
 import Loading from '../../components/shared/Loading';
 import PageHeader from '../../components/shared/PageHeader';
 import { useJournalEntry } from '../../services/apis/journalApi';
@@ -210,6 +211,14 @@ export default function ViewJournalEntrypage() {
                         </div>
                     </div>
                 )}
+
+            {/* Documents */}
+            <div className="bg-white rounded-lg border border-primary-10 p-3">
+                <DocumentAttachments
+                    entityType="journal_entry"
+                    entityId={journalEntry.id}
+                />
+            </div>
         </div>
     );
 }
@@ -26,6 +26,9 @@ const Dashboardpage = lazy(() => import('../pages/protected/Dashboardpage'));
 const Transactionpage = lazy(
     () => import('../pages/protected/Transactionpage')
 );
+const BankReconciliationpage = lazy(
+    () => import('../pages/protected/BankReconciliationpage')
+);
 const Reportpage = lazy(() => import('../pages/protected/Reportpage'));
 const IncomeStatementpage = lazy(
     () => import('../pages/protected/IncomeStatementpage')
@@ -33,13 +36,24 @@ const IncomeStatementpage = lazy(
 const BalanceSheetpage = lazy(
     () => import('../pages/protected/BalanceSheetpage')
 );
+const GeneralLedgerpage = lazy(
+    () => import('../pages/protected/GeneralLedgerpage')
+);
+const AgingReportpage = lazy(
+    () => import('../pages/protected/AgingReportpage')
+);
+const BudgetVsActualpage = lazy(
+    () => import('../pages/protected/BudgetVsActualpage')
+);
 const ChartOfAccountspage = lazy(
     () => import('../pages/protected/ChartOfAccountspage')
 );
 const Settingspage = lazy(() => import('../pages/protected/Settingspage'));
 const Invoicepage = lazy(() => import('../pages/protected/Invoicepage'));
 const Expensespage = lazy(() => import('../pages/protected/Expensespage'));
+const Contactspage = lazy(() => import('../pages/protected/Contactspage'));
 const Documentspage = lazy(() => import('../pages/protected/Documentspage'));
+const Budgetspage = lazy(() => import('../pages/protected/Budgetspage'));
 const ClientReviewpage = lazy(
     () => import('../pages/protected/ClientReviewpage')
 );
@@ -73,6 +87,10 @@ const DataPrivacyTab = lazy(
 const RolesTab = lazy(() => import('../components/settings/RolesTab'));
 const SecurityTab = lazy(() => import('../components/settings/SecurityTab'));
 const TenantsTab = lazy(() => import('../components/settings/TenantsTab'));
+const FiscalPeriodsTab = lazy(
+    () => import('../components/settings/FiscalPeriodsTab')
+);
+const CurrencyTab = lazy(() => import('../components/settings/CurrencyTab'));
 const UsersTab = lazy(() => import('../components/settings/UsersTab'));
 
 // Helper component to wrap lazy-loaded routes with Suspense
@@ -137,6 +155,10 @@ const routes = createBrowserRouter([
                 path: '/transactions',
                 element: withSuspense(Transactionpage),
             },
+            {
+                path: '/bank-reconciliation',
+                element: withSuspense(BankReconciliationpage),
+            },
             {
                 path: '/reports',
                 element: withSuspense(Reportpage),
@@ -149,10 +171,30 @@ const routes = createBrowserRouter([
                 path: '/reports/balance-sheet',
                 element: withSuspense(BalanceSheetpage),
             },
+            {
+                path: '/reports/general-ledger',
+                element: withSuspense(GeneralLedgerpage),
+            },
+            {
+                path: '/reports/aged-receivables',
+                element: withSuspense(AgingReportpage),
+            },
+            {
+                path: '/reports/aged-payables',
+                element: withSuspense(AgingReportpage),
+            },
+            {
+                path: '/reports/budget-vs-actual',
+                element: withSuspense(BudgetVsActualpage),
+            },
             {
                 path: '/chart-of-accounts',
                 element: withSuspense(ChartOfAccountspage),
             },
+            {
+                path: '/budgets',
+                element: withSuspense(Budgetspage),
+            },
             {
                 path: '/settings',
                 element: withSuspense(Settingspage),
@@ -177,6 +219,14 @@ const routes = createBrowserRouter([
                         path: '/settings/roles',
                         element: withSuspense(RolesTab),
                     },
+                    {
+                        path: '/settings/fiscal-periods',
+                        element: withSuspense(FiscalPeriodsTab),
+                    },
+                    {
+                        path: '/settings/currency',
+                        element: withSuspense(CurrencyTab),
+                    },
                     {
                         path: '/settings/security',
                         element: withSuspense(SecurityTab),
@@ -199,6 +249,10 @@ const routes = createBrowserRouter([
                 path: '/expenses',
                 element: withSuspense(Expensespage),
             },
+            {
+                path: '/contacts',
+                element: withSuspense(Contactspage),
+            },
             {
                 path: '/documents',
                 element: withSuspense(Documentspage),
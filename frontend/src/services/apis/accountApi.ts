@@ -0,0 +1,43 @@
+import { useQuery } from '@tanstack/react-query';
+import type {
+    BankAccountFilters,
+    BankAccountsListResponse,
+} from '../../types/account';
+import axiosInstance from '../axiosClient';
+
+// ============= API Functions =============
+
+/**
+ * Get bank accounts
+ */
+export async function getBankAccounts(
+    filters: BankAccountFilters = {}
+): Promise<BankAccountsListResponse> {
+    const params = new URLSearchParams();
+    params.append('page', (filters.page ?? 1).toString());
+    params.append('limit', (filters.limit ?? 20).toString());
+    if (filters.isActive !== undefined) {
+        params.append('isActive', String(filters.isActive));
+    }
+    if (filters.currencyCode) {
+        params.append('currencyCode', filters.currencyCode);
+    }
+    if (filters.search) {
+        params.append('search', filters.search);
+    }
+
+    const response = await axiosInstance.get(`/accounts?${params.toString()}`);
+    return response.data;
+}
+
+// ============= React Query Hooks =============
+
+/**
+ * Hook to get bank accounts
+ */
+export const useBankAccounts = (filters: BankAccountFilters = {}) => {
+    return useQuery<BankAccountsListResponse>({
+        queryKey: ['bank-accounts', filters],
+        queryFn: () => getBankAccounts(filters),
+    });
+};
@@ -0,0 +1,372 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import type {
+    BankReconciliationFilters,
+    BankReconciliationLineFilters,
+    BankReconciliationLinesResponse,
+    BankReconciliationReportResponse,
+    BankReconciliationResponse,
+    BankReconciliationsListResponse,
+    BankReconciliationUndoResponse,
+    ClearBankReconciliationLinesPayload,
+    StartBankReconciliationPayload,
+    UpdateBankReconciliationPayload,
+} from '../../types/bankReconciliation';
+import { showErrorToast, showSuccessToast } from '../../utills/toast';
+import axiosInstance from '../axiosClient';
+
+// ============= API Functions =============
+
+/**
+ * Get bank reconciliations, most recent statement first
+ */
+export async function getBankReconciliations(
+    filters: BankReconciliationFilters = {}
+): Promise<BankReconciliationsListResponse> {
+    const params = new URLSearchParams();
+    params.append('page', (filters.page ?? 1).toString());
+    params.append('limit', (filters.limit ?? 20).toString());
+    if (filters.accountId) {
+        params.append('accountId', filters.accountId);
+    }
+    if (filters.status) {
+        params.append('status', filters.status);
+    }
+
+    const response = await axiosInstance.get(
+        `/bank-reconciliations?${params.toString()}`
+    );
+    return response.data;
+}
+
+/**
+ * Get a bank reconciliation with its running totals
+ */
+export async function getBankReconciliation(
+    id: string
+): Promise<BankReconciliationResponse> {
+    const response = await axiosInstance.get(`/bank-reconciliations/${id}`);
+    return response.data;
+}
+
+/**
+ * Start reconciling a bank account against a statement
+ */
+export async function startBankReconciliation(
+    payload: StartBankReconciliationPayload
+): Promise<BankReconciliationResponse> {
+    const response = await axiosInstance.post('/bank-reconciliations', payload);
+    return response.data;
+}
+
+/**
+ * Update the statement of a reconciliation in progress
+ */
+export async function updateBankReconciliation(
+    id: string,
+    payload: UpdateBankReconciliationPayload
+): Promise<BankReconciliationResponse> {
+    const response = await axiosInstance.patch(
+        `/bank-reconciliations/${id}`,
+        payload
+    );
+    return response.data;
+}
+
+/**
+ * Cancel a reconciliation in progress
+ */
+export async function cancelBankReconciliation(
+    id: string
+): Promise<{ success: boolean; message: string }> {
+    const response = await axiosInstance.delete(`/bank-reconciliations/${id}`);
+    return response.data;
+}
+
+/**
+ * Get the lines a reconciliation can clear
+ */
+export async function getBankReconciliationLines(
+    id: string,
+    filters: BankReconciliationLineFilters = {}
+): Promise<BankReconciliationLinesResponse> {
+    const params = new URLSearchParams();
+    params.append('page', (filters.page ?? 1).toString());
+    params.append('limit', (filters.limit ?? 20).toString());
+    if (filters.cleared !== undefined) {
+        params.append('cleared', filters.cleared.toString());
+    }
+
+    const response = await axiosInstance.get(
+        `/bank-reconciliations/${id}/lines?${params.toString()}`
+    );
+    return response.data;
+}
+
+/**
+ * Tick or untick lines of a reconciliation in progress
+ */
+export async function clearBankReconciliationLines(
+    id: string,
+    payload: ClearBankReconciliationLinesPayload
+): Promise<BankReconciliationResponse> {
+    const response = await axiosInstance.post(
+        `/bank-reconciliations/${id}/lines/clear`,
+        payload
+    );
+    return response.data;
+}
+
+/**
+ * Finalize a reconciliation once the difference is zero
+ */
+export async function finalizeBankReconciliation(
+    id: string
+): Promise<BankReconciliationResponse> {
+    const response = await axiosInstance.post(
+        `/bank-reconciliations/${id}/finalize`
+    );
+    return response.data;
+}
+
+/**
+ * Get the report saved when a reconciliation was finalized
+ */
+export async function getBankReconciliationReport(
+    id: string
+): Promise<BankReconciliationReportResponse> {
+    const response = await axiosInstance.get(
+        `/bank-reconciliations/${id}/report`
+    );
+    return response.data;
+}
+
+/**
+ * Undo the latest completed reconciliation of a bank account
+ */
+export async function undoBankReconciliation(
+    id: string
+): Promise<BankReconciliationUndoResponse> {
+    const response = await axiosInstance.post(
+        `/bank-reconciliations/${id}/undo`
+    );
+    return response.data;
+}
+
+// ============= React Query Hooks =============
+
+const getErrorMessage = (error: unknown, fallback: string) => {
+    const maybeAxiosError = error as {
+        response?: { data?: { message?: string } };
+    };
+    return maybeAxiosError.response?.data?.message || fallback;
+};
+
+/**
+ * Hook to get bank reconciliations
+ */
+export const useBankReconciliations = (
+    filters: BankReconciliationFilters = {}
+) => {
+    return useQuery<BankReconciliationsListResponse>({
+        queryKey: ['bank-reconciliations', filters],
+        queryFn: () => getBankReconciliations(filters),
+    });
+};
+
+/**
+ * Hook to get a bank reconciliation
+ */
+export const useBankReconciliation = (id: string | undefined) => {
+    return useQuery<BankReconciliationResponse>({
+        queryKey: ['bank-reconciliations', 'detail', id],
+        queryFn: () => getBankReconciliation(id as string),
+        enabled: !!id,
+    });
+};
+
+/**
+ * Hook to get the lines of a bank reconciliation
+ */
+export const useBankReconciliationLines = (
+    id: string | undefined,
+    filters: BankReconciliationLineFilters = {}
+) => {
+    return useQuery<BankReconciliationLinesResponse>({
+        queryKey: ['bank-reconciliations', 'lines', id, filters],
+        queryFn: () => getBankReconciliationLines(id as string, filters),
+        enabled: !!id,
+    });
+};
+
+/**
+ * Hook to get the report of a finalized bank reconciliation
+ */
+export const useBankReconciliationReport = (id: string | undefined) => {
+    return useQuery<BankReconciliationReportResponse>({
+        queryKey: ['bank-reconciliations', 'report', id],
+        queryFn: () => getBankReconciliationReport(id as string),
+        enabled: !!id,
+        retry: false,
+    });
+};
+
+/**
+ * Hook to start a bank reconciliation
+ */
+export const useStartBankReconciliation = () => {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: (payload: StartBankReconciliationPayload) =>
+            startBankReconciliation(payload),
+        onSuccess: (data) => {
+            showSuccessToast(
+                data?.message || 'Bank reconciliation started successfully'
+            );
+            queryClient.invalidateQueries({
+                queryKey: ['bank-reconciliations'],
+            });
+        },
+        onError: (error) => {
+            console.error('Start bank reconciliation failed:', error);
+            showErrorToast(
+                getErrorMessage(error, 'Failed to start bank reconciliation')
+            );
+        },
+    });
+};
+
+/**
+ * Hook to update the statement of a bank reconciliation
+ */
+export const useUpdateBankReconciliation = () => {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: ({
+            id,
+            payload,
+        }: {
+            id: string;
+            payload: UpdateBankReconciliationPayload;
+        }) => updateBankReconciliation(id, payload),
+        onSuccess: (data) => {
+            showSuccessToast(
+                data?.message || 'Bank reconciliation updated successfully'
+            );
+            queryClient.invalidateQueries({
+                queryKey: ['bank-reconciliations'],
+            });
+        },
+        onError: (error) => {
+            console.error('Update bank reconciliation failed:', error);
+            showErrorToast(
+                getErrorMessage(error, 'Failed to update bank reconciliation')
+            );
+        },
+    });
+};
+
+/**
+ * Hook to tick or untick lines
+ * No success toast: lines are ticked one by one while reconciling
+ */
+export const useClearBankReconciliationLines = () => {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: ({
+            id,
+            payload,
+        }: {
+            id: string;
+            payload: ClearBankReconciliationLinesPayload;
+        }) => clearBankReconciliationLines(id, payload),
+        onSuccess: () => {
+            queryClient.invalidateQueries({
+                queryKey: ['bank-reconciliations'],
+            });
+        },
+        onError: (error) => {
+            console.error('Clear reconciliation lines failed:', error);
+            showErrorToast(
+                getErrorMessage(error, 'Failed to update cleared lines')
+            );
+        },
+    });
+};
+
+/**
+ * Hook to finalize a bank reconciliation
+ */
+export const useFinalizeBankReconciliation = () => {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: (id: string) => finalizeBankReconciliation(id),
+        onSuccess: (data) => {
+            showSuccessToast(
+                data?.message || 'Bank reconciliation finalized successfully'
+            );
+            queryClient.invalidateQueries({
+                queryKey: ['bank-reconciliations'],
+            });
+        },
+        onError: (error) => {
+            console.error('Finalize bank reconciliation failed:', error);
+            showErrorToast(
+                getErrorMessage(error, 'Failed to finalize bank reconciliation')
+            );
+        },
+    });
+};
+
+/**
+ * Hook to undo a bank reconciliation
+ */
+export const useUndoBankReconciliation = () => {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: (id: string) => undoBankReconciliation(id),
+        onSuccess: (data) => {
+            showSuccessToast(
+                data?.message || 'Bank reconciliation undone successfully'
+            );
+            queryClient.invalidateQueries({
+                queryKey: ['bank-reconciliations'],
+            });
+        },
+        onError: (error) => {
+            console.error('Undo bank reconciliation failed:', error);
+            showErrorToast(
+                getErrorMessage(error, 'Failed to undo bank reconciliation')
+            );
+        },
+    });
+};
+
+/**
+ * Hook to cancel a bank reconciliation in progress
+ */
+export const useCancelBankReconciliation = () => {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: (id: string) => cancelBankReconciliation(id),
+        onSuccess: (data) => {
+            showSuccessToast(
+                data?.message || 'Bank reconciliation cancelled successfully'
+            );
+            queryClient.invalidateQueries({
+                queryKey: ['bank-reconciliations'],
+            });
+        },
+        onError: (error) => {
+            console.error('Cancel bank reconciliation failed:', error);
+            showErrorToast(
+                getErrorMessage(error, 'Failed to cancel bank reconciliation')
+            );
+        },
+    });
+};
@@ -0,0 +1,264 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import type {
+    ApplyBankRulesPayload,
+    ApplyBankRulesResponse,
+    BankRuleDefinition,
+    BankRuleFilters,
+    BankRuleResponse,
+    BankRulesListResponse,
+    BankRulesReorderResponse,
+    BankRuleTestResponse,
+    CreateBankRulePayload,
+    UpdateBankRulePayload,
+} from '../../types/bankRule';
+import { showErrorToast, showSuccessToast } from '../../utills/toast';
+import axiosInstance from '../axiosClient';
+
+// ============= API Functions =============
+
+/**
+ * Get bank categorization rules, in priority order
+ */
+export async function getBankRules(
+    filters: BankRuleFilters = {}
+): Promise<BankRulesListResponse> {
+    const params = new URLSearchParams();
+    params.append('page', (filters.page ?? 1).toString());
+    params.append('limit', (filters.limit ?? 20).toString());
+    if (filters.isActive !== undefined) {
+        params.append('isActive', filters.isActive.toString());
+    }
+    if (filters.accountId) {
+        params.append('accountId', filters.accountId);
+    }
+
+    const response = await axiosInstance.get(
+        `/transactions/rules?${params.toString()}`
+    );
+    return response.data;
+}
+
+/**
+ * Create a bank categorization rule
+ */
+export async function createBankRule(
+    payload: CreateBankRulePayload
+): Promise<BankRuleResponse> {
+    const response = await axiosInstance.post('/transactions/rules', payload);
+    return response.data;
+}
+
+/**
+ * Update a bank categorization rule
+ */
+export async function updateBankRule(
+    id: string,
+    payload: UpdateBankRulePayload
+): Promise<BankRuleResponse> {
+    const response = await axiosInstance.patch(
+        `/transactions/rules/${id}`,
+        payload
+    );
+    return response.data;
+}
+
+/**
+ * Delete a bank categorization rule
+ */
+export async function deleteBankRule(id: string) {
+    const response = await axiosInstance.delete(`/transactions/rules/${id}`);
+    return response.data;
+}
+
+/**
+ * Set rule priorities from their order in the list
+ */
+export async function reorderBankRules(
+    ruleIds: string[]
+): Promise<BankRulesReorderResponse> {
+    const response = await axiosInstance.put('/transactions/rules/reorder', {
+        ruleIds,
+    });
+    return response.data;
+}
+
+/**
+ * Test an unsaved rule against categorized transactions
+ */
+export async function testBankRule(
+    definition: BankRuleDefinition
+): Promise<BankRuleTestResponse> {
+    const response = await axiosInstance.post(
+        '/transactions/rules/test',
+        definition
+    );
+    return response.data;
+}
+
+/**
+ * Categorize inbox transactions with the matching rules
+ */
+export async function applyBankRules(
+    payload: ApplyBankRulesPayload = {}
+): Promise<ApplyBankRulesResponse> {
+    const response = await axiosInstance.post(
+        '/transactions/rules/apply',
+        payload
+    );
+    return response.data;
+}
+
+// ============= React Query Hooks =============
+
+const getErrorMessage = (error: unknown, fallback: string) => {
+    const maybeAxiosError = error as {
+        response?: { data?: { message?: string } };
+    };
+    return maybeAxiosError.response?.data?.message || fallback;
+};
+
+/**
+ * Hook to get bank categorization rules
+ */
+export const useBankRules = (filters: BankRuleFilters = {}) => {
+    return useQuery<BankRulesListResponse>({
+        queryKey: ['bank-rules', filters],
+        queryFn: () => getBankRules(filters),
+    });
+};
+
+/**
+ * Hook to create a bank categorization rule
+ * Rules change the suggestions of inbox transactions, so those are refetched
+ */
+export const useCreateBankRule = () => {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: (payload: CreateBankRulePayload) => createBankRule(payload),
+        onSuccess: (data) => {
+            showSuccessToast(data?.message || 'Bank rule created successfully');
+            queryClient.invalidateQueries({ queryKey: ['bank-rules'] });
+            queryClient.invalidateQueries({ queryKey: ['transactions'] });
+        },
+        onError: (error) => {
+            console.error('Create bank rule failed:', error);
+            showErrorToast(
+                getErrorMessage(error, 'Failed to create bank rule')
+            );
+        },
+    });
+};
+
+/**
+ * Hook to update a bank categorization rule
+ */
+export const useUpdateBankRule = () => {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: ({
+            id,
+            payload,
+        }: {
+            id: string;
+            payload: UpdateBankRulePayload;
+        }) => updateBankRule(id, payload),
+        onSuccess: (data) => {
+            showSuccessToast(data?.message || 'Bank rule updated successfully');
+            queryClient.invalidateQueries({ queryKey: ['bank-rules'] });
+            queryClient.invalidateQueries({ queryKey: ['transactions'] });
+        },
+        onError: (error) => {
+            console.error('Update bank rule failed:', error);
+            showErrorToast(
+                getErrorMessage(error, 'Failed to update bank rule')
+            );
+        },
+    });
+};
+
+/**
+ * Hook to delete a bank categorization rule
+ */
+export const useDeleteBankRule = () => {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: (id: string) => deleteBankRule(id),
+        onSuccess: (data) => {
+            showSuccessToast(data?.message || 'Bank rule deleted successfully');
+            queryClient.invalidateQueries({ queryKey: ['bank-rules'] });
+            queryClient.invalidateQueries({ queryKey: ['transactions'] });
+        },
+        onError: (error) => {
+            console.error('Delete bank rule failed:', error);
+            showErrorToast(
+                getErrorMessage(error, 'Failed to delete bank rule')
+            );
+        },
+    });
+};
+
+/**
+ * Hook to reorder bank categorization rules
+ */
+export const useReorderBankRules = () => {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: (ruleIds: string[]) => reorderBankRules(ruleIds),
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['bank-rules'] });
+            queryClient.invalidateQueries({ queryKey: ['transactions'] });
+        },
+        onError: (error) => {
+            console.error('Reorder bank rules failed:', error);
+            showErrorToast(
+                getErrorMessage(error, 'Failed to reorder bank rules')
+            );
+        },
+    });
+};
+
+/**
+ * Hook to test a rule before saving it
+ */
+export const useTestBankRule = () => {
+    return useMutation({
+        mutationFn: (definition: BankRuleDefinition) =>
+            testBankRule(definition),
+        onError: (error) => {
+            console.error('Test bank rule failed:', error);
+            showErrorToast(getErrorMessage(error, 'Failed to test bank rule'));
+        },
+    });
+};
+
+/**
+ * Hook to apply bank rules to the inbox
+ */
+export const useApplyBankRules = () => {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: (payload: ApplyBankRulesPayload = {}) =>
+            applyBankRules(payload),
+        onSuccess: (data) => {
+            const { categorizedCount, failures } = data.data;
+            showSuccessToast(
+                failures.length > 0
+                    ? `${categorizedCount} transactions categorized, ${failures.length} could not be categorized`
+                    : `${categorizedCount} transactions categorized`
+            );
+            queryClient.invalidateQueries({ queryKey: ['transactions'] });
+            queryClient.invalidateQueries({ queryKey: ['journal-entries'] });
+        },
+        onError: (error) => {
+            console.error('Apply bank rules failed:', error);
+            showErrorToast(
+                getErrorMessage(error, 'Failed to apply bank rules')
+            );
+        },
+    });
+};
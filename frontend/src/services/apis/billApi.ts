@@ -0,0 +1,306 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import type {
+    BillFilters,
+    BillResponse,
+    BillSettingsResponse,
+    BillsListResponse,
+    CreateBillPayload,
+    UpdateBillPayload,
+    UpdateBillSettingsPayload,
+    VoidBillPayload,
+} from '../../types/bill';
+import { showErrorToast, showSuccessToast } from '../../utills/toast';
+import axiosInstance from '../axiosClient';
+
+// ============= API Functions =============
+
+/**
+ * Get bills and expenses
+ */
+export async function getBills(
+    filters: BillFilters = {}
+): Promise<BillsListResponse> {
+    const params = new URLSearchParams();
+    params.append('page', (filters.page ?? 1).toString());
+    params.append('limit', (filters.limit ?? 20).toString());
+    if (filters.status) {
+        params.append('status', filters.status);
+    }
+    if (filters.billType) {
+        params.append('billType', filters.billType);
+    }
+    if (filters.contactId) {
+        params.append('contactId', filters.contactId);
+    }
+    if (filters.accountId) {
+        params.append('accountId', filters.accountId);
+    }
+    if (filters.startDate) {
+        params.append('startDate', filters.startDate);
+    }
+    if (filters.endDate) {
+        params.append('endDate', filters.endDate);
+    }
+    if (filters.search) {
+        params.append('search', filters.search);
+    }
+    if (filters.sort) {
+        params.append('sort', filters.sort);
+    }
+    if (filters.order) {
+        params.append('order', filters.order);
+    }
+
+    const response = await axiosInstance.get(`/bills?${params.toString()}`);
+    return response.data;
+}
+
+/**
+ * Get a bill with its lines
+ */
+export async function getBill(id: string): Promise<BillResponse> {
+    const response = await axiosInstance.get(`/bills/${id}`);
+    return response.data;
+}
+
+/**
+ * Create a draft bill or expense
+ */
+export async function createBill(
+    payload: CreateBillPayload
+): Promise<BillResponse> {
+    const response = await axiosInstance.post('/bills', payload);
+    return response.data;
+}
+
+/**
+ * Update a draft bill
+ */
+export async function updateBill(
+    id: string,
+    payload: UpdateBillPayload
+): Promise<BillResponse> {
+    const response = await axiosInstance.put(`/bills/${id}`, payload);
+    return response.data;
+}
+
+/**
+ * Delete a draft bill
+ */
+export async function deleteBill(id: string) {
+    const response = await axiosInstance.delete(`/bills/${id}`);
+    return response.data;
+}
+
+/**
+ * Post a bill to the ledger
+ */
+export async function postBill(id: string): Promise<BillResponse> {
+    const response = await axiosInstance.post(`/bills/${id}/post`);
+    return response.data;
+}
+
+/**
+ * Void a bill
+ */
+export async function voidBill(
+    id: string,
+    payload: VoidBillPayload = {}
+): Promise<BillResponse> {
+    const response = await axiosInstance.post(`/bills/${id}/void`, payload);
+    return response.data;
+}
+
+/**
+ * Get bill settings
+ */
+export async function getBillSettings(): Promise<BillSettingsResponse> {
+    const response = await axiosInstance.get('/bills/settings');
+    return response.data;
+}
+
+/**
+ * Update bill settings
+ */
+export async function updateBillSettings(
+    payload: UpdateBillSettingsPayload
+): Promise<BillSettingsResponse> {
+    const response = await axiosInstance.put('/bills/settings', payload);
+    return response.data;
+}
+
+// ============= React Query Hooks =============
+
+const getErrorMessage = (error: unknown, fallback: string) => {
+    const maybeAxiosError = error as {
+        response?: { data?: { message?: string } };
+    };
+    return maybeAxiosError.response?.data?.message || fallback;
+};
+
+/**
+ * Hook to get bills and expenses
+ */
+export const useBills = (filters: BillFilters = {}) => {
+    return useQuery<BillsListResponse>({
+        queryKey: ['bills', filters],
+        queryFn: () => getBills(filters),
+    });
+};
+
+/**
+ * Hook to get a bill
+ */
+export const useBill = (id: string | undefined) => {
+    return useQuery<BillResponse>({
+        queryKey: ['bills', id],
+        queryFn: () => getBill(id as string),
+        enabled: !!id,
+    });
+};
+
+/**
+ * Hook to get bill settings
+ */
+export const useBillSettings = () => {
+    return useQuery<BillSettingsResponse>({
+        queryKey: ['bill-settings'],
+        queryFn: getBillSettings,
+    });
+};
+
+/**
+ * Hook to create a draft bill
+ * Success toasts are left to the caller, which may post the bill next
+ */
+export const useCreateBill = () => {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: (payload: CreateBillPayload) => createBill(payload),
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['bills'] });
+        },
+        onError: (error) => {
+            console.error('Create bill failed:', error);
+            showErrorToast(getErrorMessage(error, 'Failed to create bill'));
+        },
+    });
+};
+
+/**
+ * Hook to update a draft bill
+ * Success toasts are left to the caller, which may post the bill next
+ */
+export const useUpdateBill = () => {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: ({
+            id,
+            payload,
+        }: {
+            id: string;
+            payload: UpdateBillPayload;
+        }) => updateBill(id, payload),
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['bills'] });
+        },
+        onError: (error) => {
+            console.error('Update bill failed:', error);
+            showErrorToast(getErrorMessage(error, 'Failed to update bill'));
+        },
+    });
+};
+
+/**
+ * Hook to delete a draft bill
+ */
+export const useDeleteBill = () => {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: (id: string) => deleteBill(id),
+        onSuccess: (data) => {
+            showSuccessToast(data?.message || 'Bill deleted successfully');
+            queryClient.invalidateQueries({ queryKey: ['bills'] });
+        },
+        onError: (error) => {
+            console.error('Delete bill failed:', error);
+            showErrorToast(getErrorMessage(error, 'Failed to delete bill'));
+        },
+    });
+};
+
+/**
+ * Hook to post a bill
+ * Posting creates a journal entry, so entries and contacts are refreshed too
+ */
+export const usePostBill = () => {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: (id: string) => postBill(id),
+        onSuccess: (data) => {
+            showSuccessToast(data?.message || 'Bill posted successfully');
+            queryClient.invalidateQueries({ queryKey: ['bills'] });
+            queryClient.invalidateQueries({ queryKey: ['journal-entries'] });
+            queryClient.invalidateQueries({ queryKey: ['contacts'] });
+        },
+        onError: (error) => {
+            console.error('Post bill failed:', error);
+            showErrorToast(getErrorMessage(error, 'Failed to post bill'));
+        },
+    });
+};
+
+/**
+ * Hook to void a bill
+ */
+export const useVoidBill = () => {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: ({
+            id,
+            payload,
+        }: {
+            id: string;
+            payload?: VoidBillPayload;
+        }) => voidBill(id, payload),
+        onSuccess: (data) => {
+            showSuccessToast(data?.message || 'Bill voided successfully');
+            queryClient.invalidateQueries({ queryKey: ['bills'] });
+            queryClient.invalidateQueries({ queryKey: ['journal-entries'] });
+            queryClient.invalidateQueries({ queryKey: ['contacts'] });
+        },
+        onError: (error) => {
+            console.error('Void bill failed:', error);
+            showErrorToast(getErrorMessage(error, 'Failed to void bill'));
+        },
+    });
+};
+
+/**
+ * Hook to update bill settings
+ */
+export const useUpdateBillSettings = () => {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: (payload: UpdateBillSettingsPayload) =>
+            updateBillSettings(payload),
+        onSuccess: (data) => {
+            showSuccessToast(
+                data?.message || 'Bill settings updated successfully'
+            );
+            queryClient.invalidateQueries({ queryKey: ['bill-settings'] });
+        },
+        onError: (error) => {
+            console.error('Update bill settings failed:', error);
+            showErrorToast(
+                getErrorMessage(error, 'Failed to update bill settings')
+            );
+        },
+    });
+};
@@ -0,0 +1,352 @@
+import {
+    type QueryClient,
+    useMutation,
+    useQuery,
+    useQueryClient,
+} from '@tanstack/react-query';
+import type {
+    ApplyBudgetGrowthPayload,
+    BudgetFilters,
+    BudgetImportResponse,
+    BudgetResponse,
+    BudgetsListResponse,
+    CopyBudgetActualsPayload,
+    CreateBudgetPayload,
+    ImportBudgetPayload,
+    UpdateBudgetPayload,
+} from '../../types/budget';
+import { showErrorToast, showSuccessToast } from '../../utills/toast';
+import axiosInstance from '../axiosClient';
+
+// ============= API Functions =============
+
+/**
+ * Get budgets
+ */
+export async function getBudgets(
+    filters: BudgetFilters = {}
+): Promise<BudgetsListResponse> {
+    const params = new URLSearchParams();
+    params.append('page', (filters.page ?? 1).toString());
+    params.append('limit', (filters.limit ?? 20).toString());
+    if (filters.fiscalYearId) {
+        params.append('fiscalYearId', filters.fiscalYearId);
+    }
+    if (filters.search) {
+        params.append('search', filters.search);
+    }
+    if (filters.sort) {
+        params.append('sort', filters.sort);
+    }
+    if (filters.order) {
+        params.append('order', filters.order);
+    }
+
+    const response = await axiosInstance.get(`/budgets?${params.toString()}`);
+    return response.data;
+}
+
+/**
+ * Get a budget with its months and lines
+ */
+export async function getBudgetById(id: string): Promise<BudgetResponse> {
+    const response = await axiosInstance.get(`/budgets/${id}`);
+    return response.data;
+}
+
+/**
+ * Create a budget
+ */
+export async function createBudget(
+    payload: CreateBudgetPayload
+): Promise<BudgetResponse> {
+    const response = await axiosInstance.post('/budgets', payload);
+    return response.data;
+}
+
+/**
+ * Update a budget
+ * Lines, when given, replace all the lines of the budget
+ */
+export async function updateBudget(
+    id: string,
+    payload: UpdateBudgetPayload
+): Promise<BudgetResponse> {
+    const response = await axiosInstance.put(`/budgets/${id}`, payload);
+    return response.data;
+}
+
+/**
+ * Delete a budget
+ */
+export async function deleteBudget(
+    id: string
+): Promise<{ success: boolean; message: string }> {
+    const response = await axiosInstance.delete(`/budgets/${id}`);
+    return response.data;
+}
+
+/**
+ * Fill a budget from the actuals of the same months a year earlier
+ */
+export async function copyBudgetActuals(
+    id: string,
+    payload: CopyBudgetActualsPayload
+): Promise<BudgetResponse> {
+    const response = await axiosInstance.post(
+        `/budgets/${id}/copy-actuals`,
+        payload
+    );
+    return response.data;
+}
+
+/**
+ * Grow the amounts of a budget by a percentage
+ */
+export async function applyBudgetGrowth(
+    id: string,
+    payload: ApplyBudgetGrowthPayload
+): Promise<BudgetResponse> {
+    const response = await axiosInstance.post(
+        `/budgets/${id}/apply-growth`,
+        payload
+    );
+    return response.data;
+}
+
+/**
+ * Download a budget as an XLSX file that can be filled in and imported back
+ */
+export async function downloadBudgetFile(
+    id: string,
+    name: string
+): Promise<void> {
+    const response = await axiosInstance.get(`/budgets/${id}/export`, {
+        responseType: 'blob',
+    });
+
+    const link = document.createElement('a');
+    const url = URL.createObjectURL(response.data as Blob);
+
+    link.setAttribute('href', url);
+    link.setAttribute(
+        'download',
+        `Bkeep_Budget_${name.replace(/[^\w-]+/g, '_')}.xlsx`
+    );
+    link.style.visibility = 'hidden';
+
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+
+    URL.revokeObjectURL(url);
+}
+
+/**
+ * Import the amounts of a budget from a CSV or Excel file
+ * A file with row errors is rejected with a 400 whose data holds the errors
+ */
+export async function importBudget(
+    id: string,
+    payload: ImportBudgetPayload
+): Promise<BudgetImportResponse> {
+    const formData = new FormData();
+    formData.append('file', payload.file);
+    formData.append('dryRun', String(payload.dryRun));
+
+    const response = await axiosInstance.post(
+        `/budgets/${id}/import`,
+        formData,
+        { headers: { 'Content-Type': 'multipart/form-data' } }
+    );
+    return response.data;
+}
+
+// ============= React Query Hooks =============
+
+const getErrorMessage = (error: unknown, fallback: string) => {
+    const maybeAxiosError = error as {
+        response?: { data?: { message?: string } };
+    };
+    return maybeAxiosError.response?.data?.message || fallback;
+};
+
+/**
+ * Refresh everything a change of budget amounts changes
+ */
+const invalidateBudgetQueries = (queryClient: QueryClient) => {
+    queryClient.invalidateQueries({ queryKey: ['budgets'] });
+    queryClient.invalidateQueries({ queryKey: ['budget'] });
+    queryClient.invalidateQueries({ queryKey: ['budget-vs-actual'] });
+};
+
+/**
+ * Hook to get budgets
+ */
+export const useBudgets = (filters: BudgetFilters = {}) => {
+    return useQuery<BudgetsListResponse, Error>({
+        queryKey: ['budgets', filters],
+        queryFn: () => getBudgets(filters),
+    });
+};
+
+/**
+ * Hook to get a budget with its months and lines
+ */
+export const useBudget = (id: string | undefined) => {
+    return useQuery<BudgetResponse, Error>({
+        queryKey: ['budget', id],
+        queryFn: () => getBudgetById(id as string),
+        enabled: !!id,
+    });
+};
+
+/**
+ * Hook to create a budget
+ */
+export const useCreateBudget = () => {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: (payload: CreateBudgetPayload) => createBudget(payload),
+        onSuccess: (data) => {
+            showSuccessToast(data?.message || 'Budget created successfully');
+            queryClient.invalidateQueries({ queryKey: ['budgets'] });
+        },
+        onError: (error) => {
+            console.error('Create budget failed:', error);
+            showErrorToast(getErrorMessage(error, 'Failed to create budget'));
+        },
+    });
+};
+
+/**
+ * Hook to update a budget
+ */
+export const useUpdateBudget = () => {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: ({
+            id,
+            payload,
+        }: {
+            id: string;
+            payload: UpdateBudgetPayload;
+        }) => updateBudget(id, payload),
+        onSuccess: (data) => {
+            showSuccessToast(data?.message || 'Budget updated successfully');
+            invalidateBudgetQueries(queryClient);
+        },
+        onError: (error) => {
+            console.error('Update budget failed:', error);
+            showErrorToast(getErrorMessage(error, 'Failed to update budget'));
+        },
+    });
+};
+
+/**
+ * Hook to delete a budget
+ */
+export const useDeleteBudget = () => {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: (id: string) => deleteBudget(id),
+        onSuccess: (data) => {
+            showSuccessToast(data?.message || 'Budget deleted successfully');
+            invalidateBudgetQueries(queryClient);
+        },
+        onError: (error) => {
+            console.error('Delete budget failed:', error);
+            showErrorToast(getErrorMessage(error, 'Failed to delete budget'));
+        },
+    });
+};
+
+/**
+ * Hook to fill a budget from last year's actuals
+ */
+export const useCopyBudgetActuals = () => {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: ({
+            id,
+            payload,
+        }: {
+            id: string;
+            payload: CopyBudgetActualsPayload;
+        }) => copyBudgetActuals(id, payload),
+        onSuccess: (data) => {
+            showSuccessToast(
+                data?.message || "Budget filled from last year's actuals"
+            );
+            invalidateBudgetQueries(queryClient);
+        },
+        onError: (error) => {
+            console.error('Copy budget actuals failed:', error);
+            showErrorToast(
+                getErrorMessage(error, "Failed to copy last year's actuals")
+            );
+        },
+    });
+};
+
+/**
+ * Hook to grow the amounts of a budget by a percentage
+ */
+export const useApplyBudgetGrowth = () => {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: ({
+            id,
+            payload,
+        }: {
+            id: string;
+            payload: ApplyBudgetGrowthPayload;
+        }) => applyBudgetGrowth(id, payload),
+        onSuccess: (data) => {
+            showSuccessToast(data?.message || 'Budget growth applied');
+            invalidateBudgetQueries(queryClient);
+        },
+        onError: (error) => {
+            console.error('Apply budget growth failed:', error);
+            showErrorToast(
+                getErrorMessage(error, 'Failed to apply budget growth')
+            );
+        },
+    });
+};
+
+/**
+ * Hook to import the amounts of a budget
+ * Dry runs only validate the file; the result, or the row errors of a
+ * rejected import, is returned to the caller
+ */
+export const useImportBudget = () => {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: ({
+            id,
+            payload,
+        }: {
+            id: string;
+            payload: ImportBudgetPayload;
+        }) => importBudget(id, payload),
+        onSuccess: (data) => {
+            if (data.data.imported) {
+                showSuccessToast(
+                    data?.message || 'Budget imported successfully'
+                );
+                invalidateBudgetQueries(queryClient);
+            }
+        },
+        onError: (error) => {
+            console.error('Import budget failed:', error);
+            showErrorToast(getErrorMessage(error, 'Failed to import budget'));
+        },
+    });
+};
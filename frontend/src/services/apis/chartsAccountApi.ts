@@ -101,6 +101,113 @@ export type ChartOfAccountsQueryParams = {
     order?: 'asc' | 'desc';
 };
 
+export type ChartOfAccountImportField = {
+    key: keyof ChartOfAccountImportMapping;
+    label: string;
+    required: boolean;
+};
+
+export type ChartOfAccountImportFieldsResponse = {
+    success: boolean;
+    statusCode: number;
+    message: string;
+    data: ChartOfAccountImportField[];
+};
+
+/**
+ * File header to read for each import field
+ */
+export type ChartOfAccountImportMapping = {
+    accountNumber?: string;
+    accountName: string;
+    accountType: string;
+    accountDetailType?: string;
+    openingBalance?: string;
+};
+
+export type ChartOfAccountImportPayload = {
+    file: File;
+    mapping: ChartOfAccountImportMapping;
+    dryRun: boolean;
+};
+
+export type ChartOfAccountImportError = {
+    row: number;
+    message: string;
+};
+
+export type ChartOfAccountImportAccount = {
+    row: number;
+    id: string | null;
+    accountNumber: string | null;
+    accountName: string;
+    fullName: string;
+    accountType: string;
+    accountSubtype: string | null;
+    accountDetailType: string | null;
+    parentAccountId: string | null;
+    openingBalance: number;
+};
+
+export type ChartOfAccountImportResult = {
+    dryRun: boolean;
+    imported: boolean;
+    totalRows: number;
+    validRows: number;
+    errors: ChartOfAccountImportError[];
+    accounts: ChartOfAccountImportAccount[];
+};
+
+export type ChartOfAccountImportResponse = {
+    success: boolean;
+    statusCode: number;
+    message: string;
+    data: ChartOfAccountImportResult;
+};
+
+export type ChartOfAccountMergeAccount = {
+    id: string;
+    accountNumber: string | null;
+    accountName: string;
+    accountType: AccountType;
+    currencyCode: string;
+    openingBalance: number;
+    currentBalance: number;
+    isActive: boolean;
+    deletedAt: string | null;
+};
+
+export type ChartOfAccountMergeReference = {
+    table: string;
+    column: string;
+    count: number;
+};
+
+/**
+ * Merge of a source account into a target account
+ * The balances are the target account's after the merge
+ */
+export type ChartOfAccountMerge = {
+    sourceAccount: ChartOfAccountMergeAccount;
+    targetAccount: ChartOfAccountMergeAccount;
+    counts: {
+        journalEntryLines: number;
+        balanceHistory: number;
+        childAccounts: number;
+        approvalRules: number;
+        references: ChartOfAccountMergeReference[];
+    };
+    openingBalance: number;
+    currentBalance: number;
+};
+
+export type ChartOfAccountMergeResponse = {
+    success: boolean;
+    statusCode: number;
+    message: string;
+    data: ChartOfAccountMerge;
+};
+
 // ============= API Functions =============
 
 /**
@@ -202,6 +309,88 @@ export async function restoreChartOfAccount(
     return response.data;
 }
 
+/**
+ * Get the fields that can be mapped when importing chart of accounts
+ */
+export async function getChartOfAccountImportFields(): Promise<ChartOfAccountImportFieldsResponse> {
+    const response = await axiosInstance.get(
+        '/chart-of-accounts/import/fields'
+    );
+    return response.data;
+}
+
+/**
+ * Download the chart of accounts import sample file
+ */
+export async function downloadChartOfAccountSample(): Promise<void> {
+    const response = await axiosInstance.get(
+        '/chart-of-accounts/import/sample',
+        { responseType: 'blob' }
+    );
+
+    const link = document.createElement('a');
+    const url = URL.createObjectURL(response.data as Blob);
+
+    link.setAttribute('href', url);
+    link.setAttribute('download', 'Bkeep_Chart_of_Accounts_Sample_File.xlsx');
+    link.style.visibility = 'hidden';
+
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+
+    URL.revokeObjectURL(url);
+}
+
+/**
+ * Import chart of accounts from a CSV or Excel file
+ * A file with row errors is rejected with a 400 whose data holds the errors
+ */
+export async function importChartOfAccounts(
+    payload: ChartOfAccountImportPayload
+): Promise<ChartOfAccountImportResponse> {
+    const formData = new FormData();
+    formData.append('file', payload.file);
+    formData.append('mapping', JSON.stringify(payload.mapping));
+    formData.append('dryRun', String(payload.dryRun));
+
+    const response = await axiosInstance.post(
+        '/chart-of-accounts/import',
+        formData,
+        { headers: { 'Content-Type': 'multipart/form-data' } }
+    );
+    return response.data;
+}
+
+/**
+ * Preview merging a chart of account into a target account
+ */
+export async function getChartOfAccountMergePreview(
+    id: string,
+    targetAccountId: string
+): Promise<ChartOfAccountMergeResponse> {
+    const response = await axiosInstance.get(
+        `/chart-of-accounts/${id}/merge/preview`,
+        { params: { targetAccountId } }
+    );
+    return response.data;
+}
+
+/**
+ * Merge a chart of account into a target account
+ * The merged account is deleted
+ */
+export async function mergeChartOfAccounts(
+    id: string,
+    targetAccountId: string
+): Promise<ChartOfAccountMergeResponse> {
+    const response = await axiosInstance.post(
+        `/chart-of-accounts/${id}/merge`,
+        { targetAccountId }
+    );
+    return response.data;
+}
+
 // ============= React Query Hooks =============
 
 /**
@@ -345,3 +534,105 @@ export const useRestoreChartOfAccount = () => {
         },
     });
 };
+
+/**
+ * Hook to get the chart of accounts import fields
+ */
+export const useChartOfAccountImportFields = () => {
+    return useQuery<ChartOfAccountImportFieldsResponse, Error>({
+        queryKey: ['chart-of-account-import-fields'],
+        queryFn: getChartOfAccountImportFields,
+        staleTime: Infinity,
+    });
+};
+
+/**
+ * Hook to import chart of accounts
+ * Dry runs only validate the file; the result, or the row errors of a
+ * rejected import, is returned to the caller
+ */
+export const useImportChartOfAccounts = () => {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: (payload: ChartOfAccountImportPayload) =>
+            importChartOfAccounts(payload),
+        onSuccess: (data) => {
+            if (data.data.imported) {
+                showSuccessToast(
+                    data?.message || 'Chart of accounts imported successfully'
+                );
+                queryClient.invalidateQueries({
+                    queryKey: ['chart-of-accounts'],
+                });
+            }
+        },
+        onError: (error) => {
+            console.error('Import chart of accounts failed:', error);
+            const maybeAxiosError = error as {
+                response?: { data?: { message?: string } };
+            };
+            const message =
+                maybeAxiosError.response?.data?.message ||
+                'Failed to import chart of accounts';
+            showErrorToast(message);
+        },
+    });
+};
+
+/**
+ * Hook to preview merging a chart of account into a target account
+ */
+export const useChartOfAccountMergePreview = (
+    id: string | undefined,
+    targetAccountId: string | undefined
+) => {
+    return useQuery<ChartOfAccountMergeResponse, Error>({
+        queryKey: ['chart-of-account-merge-preview', id, targetAccountId],
+        queryFn: () =>
+            getChartOfAccountMergePreview(
+                id as string,
+                targetAccountId as string
+            ),
+        enabled: !!id && !!targetAccountId,
+    });
+};
+
+/**
+ * Hook to merge a chart of account into a target account
+ */
+export const useMergeChartOfAccounts = () => {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: ({
+            id,
+            targetAccountId,
+        }: {
+            id: string;
+            targetAccountId: string;
+        }) => mergeChartOfAccounts(id, targetAccountId),
+        onSuccess: (data, { id, targetAccountId }) => {
+            showSuccessToast(
+                data?.message || 'Chart of accounts merged successfully'
+            );
+            queryClient.invalidateQueries({ queryKey: ['chart-of-accounts'] });
+            queryClient.invalidateQueries({
+                queryKey: ['chart-of-account', id],
+            });
+            queryClient.invalidateQueries({
+                queryKey: ['chart-of-account', targetAccountId],
+            });
+        },
+        onError: (error) => {
+            console.error('Merge chart of accounts failed:', error);
+            const maybeAxiosError = error as {
+                response?: { data?: { message?: string } };
+            };
+            const message =
+                maybeAxiosError.response?.data?.message ||
+                'Failed to merge chart of accounts';
+            showErrorToast(message);
+        },
+    });
+};
@@ -0,0 +1,210 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import type {
+    ContactBalanceResponse,
+    ContactFilters,
+    ContactLedgerFilters,
+    ContactLedgerResponse,
+    ContactResponse,
+    ContactsListResponse,
+    CreateContactPayload,
+    UpdateContactPayload,
+} from '../../types/contact';
+import { showErrorToast, showSuccessToast } from '../../utills/toast';
+import axiosInstance from '../axiosClient';
+
+// ============= API Functions =============
+
+/**
+ * Get contacts
+ */
+export async function getContacts(
+    filters: ContactFilters = {}
+): Promise<ContactsListResponse> {
+    const params = new URLSearchParams();
+    params.append('page', (filters.page ?? 1).toString());
+    params.append('limit', (filters.limit ?? 20).toString());
+    if (filters.contactType) {
+        params.append('contactType', filters.contactType);
+    }
+    if (filters.isActive !== undefined) {
+        params.append('isActive', filters.isActive.toString());
+    }
+    if (filters.search) {
+        params.append('search', filters.search);
+    }
+
+    const response = await axiosInstance.get(`/contacts?${params.toString()}`);
+    return response.data;
+}
+
+/**
+ * Create a contact
+ */
+export async function createContact(
+    payload: CreateContactPayload
+): Promise<ContactResponse> {
+    const response = await axiosInstance.post('/contacts', payload);
+    return response.data;
+}
+
+/**
+ * Update a contact
+ */
+export async function updateContact(
+    id: string,
+    payload: UpdateContactPayload
+): Promise<ContactResponse> {
+    const response = await axiosInstance.put(`/contacts/${id}`, payload);
+    return response.data;
+}
+
+/**
+ * Delete a contact
+ */
+export async function deleteContact(id: string) {
+    const response = await axiosInstance.delete(`/contacts/${id}`);
+    return response.data;
+}
+
+/**
+ * Get the ledger of a contact
+ */
+export async function getContactLedger(
+    id: string,
+    filters: ContactLedgerFilters = {}
+): Promise<ContactLedgerResponse> {
+    const params = new URLSearchParams();
+    params.append('page', (filters.page ?? 1).toString());
+    params.append('limit', (filters.limit ?? 20).toString());
+    if (filters.startDate) {
+        params.append('startDate', filters.startDate);
+    }
+    if (filters.endDate) {
+        params.append('endDate', filters.endDate);
+    }
+
+    const response = await axiosInstance.get(
+        `/contacts/${id}/ledger?${params.toString()}`
+    );
+    return response.data;
+}
+
+/**
+ * Get the balance of a contact
+ */
+export async function getContactBalance(
+    id: string,
+    asOf?: string
+): Promise<ContactBalanceResponse> {
+    const response = await axiosInstance.get(`/contacts/${id}/balance`, {
+        params: asOf ? { asOf } : undefined,
+    });
+    return response.data;
+}
+
+// ============= React Query Hooks =============
+
+const getErrorMessage = (error: unknown, fallback: string) => {
+    const maybeAxiosError = error as {
+        response?: { data?: { message?: string } };
+    };
+    return maybeAxiosError.response?.data?.message || fallback;
+};
+
+/**
+ * Hook to get contacts
+ */
+export const useContacts = (filters: ContactFilters = {}) => {
+    return useQuery<ContactsListResponse>({
+        queryKey: ['contacts', filters],
+        queryFn: () => getContacts(filters),
+    });
+};
+
+/**
+ * Hook to get the ledger of a contact
+ */
+export const useContactLedger = (
+    id: string | undefined,
+    filters: ContactLedgerFilters = {}
+) => {
+    return useQuery<ContactLedgerResponse>({
+        queryKey: ['contacts', id, 'ledger', filters],
+        queryFn: () => getContactLedger(id as string, filters),
+        enabled: !!id,
+    });
+};
+
+/**
+ * Hook to get the balance of a contact
+ */
+export const useContactBalance = (id: string | undefined, asOf?: string) => {
+    return useQuery<ContactBalanceResponse>({
+        queryKey: ['contacts', id, 'balance', asOf],
+        queryFn: () => getContactBalance(id as string, asOf),
+        enabled: !!id,
+    });
+};
+
+/**
+ * Hook to create a contact
+ */
+export const useCreateContact = () => {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: (payload: CreateContactPayload) => createContact(payload),
+        onSuccess: (data) => {
+            showSuccessToast(data?.message || 'Contact created successfully');
+            queryClient.invalidateQueries({ queryKey: ['contacts'] });
+        },
+        onError: (error) => {
+            console.error('Create contact failed:', error);
+            showErrorToast(getErrorMessage(error, 'Failed to create contact'));
+        },
+    });
+};
+
+/**
+ * Hook to update a contact
+ */
+export const useUpdateContact = () => {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: ({
+            id,
+            payload,
+        }: {
+            id: string;
+            payload: UpdateContactPayload;
+        }) => updateContact(id, payload),
+        onSuccess: (data) => {
+            showSuccessToast(data?.message || 'Contact updated successfully');
+            queryClient.invalidateQueries({ queryKey: ['contacts'] });
+        },
+        onError: (error) => {
+            console.error('Update contact failed:', error);
+            showErrorToast(getErrorMessage(error, 'Failed to update contact'));
+        },
+    });
+};
+
+/**
+ * Hook to delete a contact
+ */
+export const useDeleteContact = () => {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: (id: string) => deleteContact(id),
+        onSuccess: (data) => {
+            showSuccessToast(data?.message || 'Contact deleted successfully');
+            queryClient.invalidateQueries({ queryKey: ['contacts'] });
+        },
+        onError: (error) => {
+            console.error('Delete contact failed:', error);
+            showErrorToast(getErrorMessage(error, 'Failed to delete contact'));
+        },
+    });
+};
@@ -0,0 +1,350 @@
+import {
+    type QueryClient,
+    useMutation,
+    useQuery,
+    useQueryClient,
+} from '@tanstack/react-query';
+import type {
+    CreateExchangeRatePayload,
+    CurrencySettingsResponse,
+    ExchangeRateFilters,
+    ExchangeRateImportResponse,
+    ExchangeRateResponse,
+    ExchangeRatesListResponse,
+    FxRevaluationPayload,
+    FxRevaluationPreviewResponse,
+    FxRevaluationResponse,
+    UpdateCurrencySettingsPayload,
+    UpdateExchangeRatePayload,
+} from '../../types/currency';
+import { showErrorToast, showSuccessToast } from '../../utills/toast';
+import axiosInstance from '../axiosClient';
+
+// ============= API Functions =============
+
+/**
+ * Get the tenant base currency and FX gain/loss account
+ */
+export async function getCurrencySettings(): Promise<CurrencySettingsResponse> {
+    const response = await axiosInstance.get('/currency/settings');
+    return response.data;
+}
+
+/**
+ * Update the tenant base currency or FX gain/loss account
+ */
+export async function updateCurrencySettings(
+    payload: UpdateCurrencySettingsPayload
+): Promise<CurrencySettingsResponse> {
+    const response = await axiosInstance.patch('/currency/settings', payload);
+    return response.data;
+}
+
+/**
+ * Get exchange rates, most recent first
+ */
+export async function getExchangeRates(
+    filters: ExchangeRateFilters = {}
+): Promise<ExchangeRatesListResponse> {
+    const params = new URLSearchParams();
+    params.append('page', (filters.page ?? 1).toString());
+    params.append('limit', (filters.limit ?? 20).toString());
+    if (filters.currencyCode) {
+        params.append('currencyCode', filters.currencyCode);
+    }
+    if (filters.startDate) {
+        params.append('startDate', filters.startDate);
+    }
+    if (filters.endDate) {
+        params.append('endDate', filters.endDate);
+    }
+
+    const response = await axiosInstance.get(
+        `/currency/exchange-rates?${params.toString()}`
+    );
+    return response.data;
+}
+
+/**
+ * Create an exchange rate
+ */
+export async function createExchangeRate(
+    payload: CreateExchangeRatePayload
+): Promise<ExchangeRateResponse> {
+    const response = await axiosInstance.post(
+        '/currency/exchange-rates',
+        payload
+    );
+    return response.data;
+}
+
+/**
+ * Update an exchange rate
+ */
+export async function updateExchangeRate(
+    id: string,
+    payload: UpdateExchangeRatePayload
+): Promise<ExchangeRateResponse> {
+    const response = await axiosInstance.patch(
+        `/currency/exchange-rates/${id}`,
+        payload
+    );
+    return response.data;
+}
+
+/**
+ * Delete an exchange rate
+ */
+export async function deleteExchangeRate(
+    id: string
+): Promise<{ success: boolean; message: string }> {
+    const response = await axiosInstance.delete(
+        `/currency/exchange-rates/${id}`
+    );
+    return response.data;
+}
+
+/**
+ * Import exchange rates from CSV content (date, currency, rate columns)
+ */
+export async function importExchangeRates(
+    content: string
+): Promise<ExchangeRateImportResponse> {
+    const response = await axiosInstance.post(
+        '/currency/exchange-rates/import',
+        { content }
+    );
+    return response.data;
+}
+
+/**
+ * Preview the unrealized FX gain/loss entry of a date
+ */
+export async function getFxRevaluationPreview(
+    payload: FxRevaluationPayload
+): Promise<FxRevaluationPreviewResponse> {
+    const params = new URLSearchParams();
+    params.append('revaluationDate', payload.revaluationDate);
+    if (payload.gainLossAccountId) {
+        params.append('gainLossAccountId', payload.gainLossAccountId);
+    }
+
+    const response = await axiosInstance.get(
+        `/currency/revaluation/preview?${params.toString()}`
+    );
+    return response.data;
+}
+
+/**
+ * Post the unrealized FX gain/loss entry of a date
+ */
+export async function postFxRevaluation(
+    payload: FxRevaluationPayload
+): Promise<FxRevaluationResponse> {
+    const response = await axiosInstance.post('/currency/revaluation', payload);
+    return response.data;
+}
+
+// ============= React Query Hooks =============
+
+const getErrorMessage = (error: unknown, fallback: string) => {
+    const maybeAxiosError = error as {
+        response?: { data?: { message?: string } };
+    };
+    return maybeAxiosError.response?.data?.message || fallback;
+};
+
+/**
+ * Refresh everything a revaluation entry changes
+ */
+const invalidateRevaluationQueries = (queryClient: QueryClient) => {
+    queryClient.invalidateQueries({ queryKey: ['fx-revaluation'] });
+    queryClient.invalidateQueries({ queryKey: ['journal-entries'] });
+    queryClient.invalidateQueries({ queryKey: ['balance-sheet'] });
+    queryClient.invalidateQueries({ queryKey: ['income-statement'] });
+    queryClient.invalidateQueries({ queryKey: ['general-ledger'] });
+};
+
+/**
+ * Hook to get the currency settings
+ */
+export const useCurrencySettings = () => {
+    return useQuery<CurrencySettingsResponse>({
+        queryKey: ['currency-settings'],
+        queryFn: getCurrencySettings,
+    });
+};
+
+/**
+ * Hook to update the currency settings
+ */
+export const useUpdateCurrencySettings = () => {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: (payload: UpdateCurrencySettingsPayload) =>
+            updateCurrencySettings(payload),
+        onSuccess: (data) => {
+            showSuccessToast(
+                data?.message || 'Currency settings updated successfully'
+            );
+            queryClient.invalidateQueries({
+                queryKey: ['currency-settings'],
+            });
+        },
+        onError: (error) => {
+            console.error('Update currency settings failed:', error);
+            showErrorToast(
+                getErrorMessage(error, 'Failed to update currency settings')
+            );
+        },
+    });
+};
+
+/**
+ * Hook to get exchange rates
+ */
+export const useExchangeRates = (filters: ExchangeRateFilters = {}) => {
+    return useQuery<ExchangeRatesListResponse>({
+        queryKey: ['exchange-rates', filters],
+        queryFn: () => getExchangeRates(filters),
+    });
+};
+
+/**
+ * Hook to create an exchange rate
+ */
+export const useCreateExchangeRate = () => {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: (payload: CreateExchangeRatePayload) =>
+            createExchangeRate(payload),
+        onSuccess: (data) => {
+            showSuccessToast(
+                data?.message || 'Exchange rate created successfully'
+            );
+            queryClient.invalidateQueries({ queryKey: ['exchange-rates'] });
+        },
+        onError: (error) => {
+            console.error('Create exchange rate failed:', error);
+            showErrorToast(
+                getErrorMessage(error, 'Failed to create exchange rate')
+            );
+        },
+    });
+};
+
+/**
+ * Hook to update an exchange rate
+ */
+export const useUpdateExchangeRate = () => {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: ({
+            id,
+            payload,
+        }: {
+            id: string;
+            payload: UpdateExchangeRatePayload;
+        }) => updateExchangeRate(id, payload),
+        onSuccess: (data) => {
+            showSuccessToast(
+                data?.message || 'Exchange rate updated successfully'
+            );
+            queryClient.invalidateQueries({ queryKey: ['exchange-rates'] });
+        },
+        onError: (error) => {
+            console.error('Update exchange rate failed:', error);
+            showErrorToast(
+                getErrorMessage(error, 'Failed to update exchange rate')
+            );
+        },
+    });
+};
+
+/**
+ * Hook to delete an exchange rate
+ */
+export const useDeleteExchangeRate = () => {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: (id: string) => deleteExchangeRate(id),
+        onSuccess: (data) => {
+            showSuccessToast(
+                data?.message || 'Exchange rate deleted successfully'
+            );
+            queryClient.invalidateQueries({ queryKey: ['exchange-rates'] });
+        },
+        onError: (error) => {
+            console.error('Delete exchange rate failed:', error);
+            showErrorToast(
+                getErrorMessage(error, 'Failed to delete exchange rate')
+            );
+        },
+    });
+};
+
+/**
+ * Hook to import exchange rates from CSV content
+ */
+export const useImportExchangeRates = () => {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: (content: string) => importExchangeRates(content),
+        onSuccess: (data) => {
+            showSuccessToast(
+                data?.message || 'Exchange rates imported successfully'
+            );
+            queryClient.invalidateQueries({ queryKey: ['exchange-rates'] });
+        },
+        onError: (error) => {
+            console.error('Import exchange rates failed:', error);
+            showErrorToast(
+                getErrorMessage(error, 'Failed to import exchange rates')
+            );
+        },
+    });
+};
+
+/**
+ * Hook to preview the FX revaluation of a date
+ */
+export const useFxRevaluationPreview = (
+    payload: FxRevaluationPayload,
+    enabled = true
+) => {
+    return useQuery<FxRevaluationPreviewResponse>({
+        queryKey: ['fx-revaluation', 'preview', payload],
+        queryFn: () => getFxRevaluationPreview(payload),
+        enabled: !!payload.revaluationDate && enabled,
+        retry: false,
+    });
+};
+
+/**
+ * Hook to post the FX revaluation of a date
+ */
+export const usePostFxRevaluation = () => {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: (payload: FxRevaluationPayload) =>
+            postFxRevaluation(payload),
+        onSuccess: (data) => {
+            showSuccessToast(
+                data?.message || 'FX revaluation posted successfully'
+            );
+            invalidateRevaluationQueries(queryClient);
+        },
+        onError: (error) => {
+            console.error('Post FX revaluation failed:', error);
+            showErrorToast(
+                getErrorMessage(error, 'Failed to post FX revaluation')
+            );
+        },
+    });
+};
@@ -0,0 +1,260 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import type {
+    CreateCustomerPaymentPayload,
+    CustomerPaymentFilters,
+    CustomerPaymentResponse,
+    CustomerPaymentSettingsResponse,
+    CustomerPaymentsListResponse,
+    OpenReceivableItemsResponse,
+    UnmatchCustomerPaymentPayload,
+    UpdateCustomerPaymentSettingsPayload,
+} from '../../types/customerPayment';
+import { showErrorToast, showSuccessToast } from '../../utills/toast';
+import axiosInstance from '../axiosClient';
+
+// ============= API Functions =============
+
+/**
+ * Get customer payments
+ */
+export async function getCustomerPayments(
+    filters: CustomerPaymentFilters = {}
+): Promise<CustomerPaymentsListResponse> {
+    const params = new URLSearchParams();
+    params.append('page', (filters.page ?? 1).toString());
+    params.append('limit', (filters.limit ?? 20).toString());
+    if (filters.status) {
+        params.append('status', filters.status);
+    }
+    if (filters.contactId) {
+        params.append('contactId', filters.contactId);
+    }
+    if (filters.bankAccountId) {
+        params.append('bankAccountId', filters.bankAccountId);
+    }
+    if (filters.startDate) {
+        params.append('startDate', filters.startDate);
+    }
+    if (filters.endDate) {
+        params.append('endDate', filters.endDate);
+    }
+    if (filters.search) {
+        params.append('search', filters.search);
+    }
+    if (filters.sort) {
+        params.append('sort', filters.sort);
+    }
+    if (filters.order) {
+        params.append('order', filters.order);
+    }
+
+    const response = await axiosInstance.get(
+        `/customer-payments?${params.toString()}`
+    );
+    return response.data;
+}
+
+/**
+ * Get a customer payment with its allocations
+ */
+export async function getCustomerPayment(
+    id: string
+): Promise<CustomerPaymentResponse> {
+    const response = await axiosInstance.get(`/customer-payments/${id}`);
+    return response.data;
+}
+
+/**
+ * Get the open receivable items of a customer
+ */
+export async function getOpenReceivableItems(
+    contactId: string
+): Promise<OpenReceivableItemsResponse> {
+    const response = await axiosInstance.get(
+        `/customer-payments/open-items?contactId=${contactId}`
+    );
+    return response.data;
+}
+
+/**
+ * Receive a customer payment
+ */
+export async function createCustomerPayment(
+    payload: CreateCustomerPaymentPayload
+): Promise<CustomerPaymentResponse> {
+    const response = await axiosInstance.post('/customer-payments', payload);
+    return response.data;
+}
+
+/**
+ * Unmatch a customer payment
+ */
+export async function unmatchCustomerPayment(
+    id: string,
+    payload: UnmatchCustomerPaymentPayload = {}
+): Promise<CustomerPaymentResponse> {
+    const response = await axiosInstance.post(
+        `/customer-payments/${id}/unmatch`,
+        payload
+    );
+    return response.data;
+}
+
+/**
+ * Get customer payment settings
+ */
+export async function getCustomerPaymentSettings(): Promise<CustomerPaymentSettingsResponse> {
+    const response = await axiosInstance.get('/customer-payments/settings');
+    return response.data;
+}
+
+/**
+ * Update customer payment settings
+ */
+export async function updateCustomerPaymentSettings(
+    payload: UpdateCustomerPaymentSettingsPayload
+): Promise<CustomerPaymentSettingsResponse> {
+    const response = await axiosInstance.put(
+        '/customer-payments/settings',
+        payload
+    );
+    return response.data;
+}
+
+// ============= React Query Hooks =============
+
+const getErrorMessage = (error: unknown, fallback: string) => {
+    const maybeAxiosError = error as {
+        response?: { data?: { message?: string } };
+    };
+    return maybeAxiosError.response?.data?.message || fallback;
+};
+
+/**
+ * Hook to get customer payments
+ */
+export const useCustomerPayments = (filters: CustomerPaymentFilters = {}) => {
+    return useQuery<CustomerPaymentsListResponse>({
+        queryKey: ['customer-payments', filters],
+        queryFn: () => getCustomerPayments(filters),
+    });
+};
+
+/**
+ * Hook to get a customer payment
+ */
+export const useCustomerPayment = (id: string | undefined) => {
+    return useQuery<CustomerPaymentResponse>({
+        queryKey: ['customer-payments', id],
+        queryFn: () => getCustomerPayment(id as string),
+        enabled: !!id,
+    });
+};
+
+/**
+ * Hook to get the open receivable items of a customer
+ */
+export const useOpenReceivableItems = (contactId: string | undefined) => {
+    return useQuery<OpenReceivableItemsResponse>({
+        queryKey: ['customer-payments', 'open-items', contactId],
+        queryFn: () => getOpenReceivableItems(contactId as string),
+        enabled: !!contactId,
+    });
+};
+
+/**
+ * Hook to get customer payment settings
+ */
+export const useCustomerPaymentSettings = () => {
+    return useQuery<CustomerPaymentSettingsResponse>({
+        queryKey: ['customer-payment-settings'],
+        queryFn: getCustomerPaymentSettings,
+    });
+};
+
+/**
+ * Hook to receive a customer payment
+ * The payment posts a journal entry and may pay invoices, so entries,
+ * invoices and contacts are refreshed too
+ */
+export const useCreateCustomerPayment = () => {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: (payload: CreateCustomerPaymentPayload) =>
+            createCustomerPayment(payload),
+        onSuccess: (data) => {
+            showSuccessToast(
+                data?.message || 'Customer payment recorded successfully'
+            );
+            queryClient.invalidateQueries({ queryKey: ['customer-payments'] });
+            queryClient.invalidateQueries({ queryKey: ['invoices'] });
+            queryClient.invalidateQueries({ queryKey: ['journal-entries'] });
+            queryClient.invalidateQueries({ queryKey: ['contacts'] });
+        },
+        onError: (error) => {
+            console.error('Create customer payment failed:', error);
+            showErrorToast(
+                getErrorMessage(error, 'Failed to record customer payment')
+            );
+        },
+    });
+};
+
+/**
+ * Hook to unmatch a customer payment
+ */
+export const useUnmatchCustomerPayment = () => {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: ({
+            id,
+            payload,
+        }: {
+            id: string;
+            payload?: UnmatchCustomerPaymentPayload;
+        }) => unmatchCustomerPayment(id, payload),
+        onSuccess: (data) => {
+            showSuccessToast(
+                data?.message || 'Customer payment unmatched successfully'
+            );
+            queryClient.invalidateQueries({ queryKey: ['customer-payments'] });
+            queryClient.invalidateQueries({ queryKey: ['invoices'] });
+            queryClient.invalidateQueries({ queryKey: ['journal-entries'] });
+            queryClient.invalidateQueries({ queryKey: ['contacts'] });
+        },
+        onError: (error) => {
+            console.error('Unmatch customer payment failed:', error);
+            showErrorToast(
+                getErrorMessage(error, 'Failed to unmatch customer payment')
+            );
+        },
+    });
+};
+
+/**
+ * Hook to update customer payment settings
+ */
+export const useUpdateCustomerPaymentSettings = () => {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: (payload: UpdateCustomerPaymentSettingsPayload) =>
+            updateCustomerPaymentSettings(payload),
+        onSuccess: (data) => {
+            showSuccessToast(
+                data?.message || 'Payment settings updated successfully'
+            );
+            queryClient.invalidateQueries({
+                queryKey: ['customer-payment-settings'],
+            });
+        },
+        onError: (error) => {
+            console.error('Update customer payment settings failed:', error);
+            showErrorToast(
+                getErrorMessage(error, 'Failed to update payment settings')
+            );
+        },
+    });
+};
@@ -0,0 +1,377 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import type {
+    AttachDocumentPayload,
+    DocumentDownloadUrlResponse,
+    DocumentFilters,
+    DocumentResponse,
+    DocumentSettingsResponse,
+    DocumentStorageUsageResponse,
+    DocumentsListResponse,
+    UpdateDocumentPayload,
+    UpdateDocumentSettingsPayload,
+    UploadDocumentPayload,
+} from '../../types/document';
+import { showErrorToast, showSuccessToast } from '../../utills/toast';
+import axiosInstance from '../axiosClient';
+
+// ============= API Functions =============
+
+/**
+ * Get documents
+ */
+export async function getDocuments(
+    filters: DocumentFilters = {}
+): Promise<DocumentsListResponse> {
+    const params = new URLSearchParams();
+    params.append('page', (filters.page ?? 1).toString());
+    params.append('limit', (filters.limit ?? 20).toString());
+    if (filters.category) {
+        params.append('category', filters.category);
+    }
+    if (filters.tag) {
+        params.append('tag', filters.tag);
+    }
+    if (filters.entityType && filters.entityId) {
+        params.append('entityType', filters.entityType);
+        params.append('entityId', filters.entityId);
+    }
+    if (filters.search) {
+        params.append('search', filters.search);
+    }
+    if (filters.sort) {
+        params.append('sort', filters.sort);
+    }
+    if (filters.order) {
+        params.append('order', filters.order);
+    }
+
+    const response = await axiosInstance.get(`/documents?${params.toString()}`);
+    return response.data;
+}
+
+/**
+ * Get a document with its attachments
+ */
+export async function getDocument(id: string): Promise<DocumentResponse> {
+    const response = await axiosInstance.get(`/documents/${id}`);
+    return response.data;
+}
+
+/**
+ * Upload a document, optionally attaching it to a record
+ */
+export async function uploadDocument(
+    payload: UploadDocumentPayload
+): Promise<DocumentResponse> {
+    const formData = new FormData();
+
+    formData.append('file', payload.file);
+    if (payload.category) formData.append('category', payload.category);
+    if (payload.tags && payload.tags.length > 0)
+        formData.append('tags', payload.tags.join(','));
+    if (payload.description)
+        formData.append('description', payload.description);
+    if (payload.entityType && payload.entityId) {
+        formData.append('entityType', payload.entityType);
+        formData.append('entityId', payload.entityId);
+    }
+
+    const response = await axiosInstance.post('/documents', formData, {
+        headers: {
+            'Content-Type': 'multipart/form-data',
+        },
+    });
+    return response.data;
+}
+
+/**
+ * Update the name, category, tags or description of a document
+ */
+export async function updateDocument(
+    id: string,
+    payload: UpdateDocumentPayload
+): Promise<DocumentResponse> {
+    const response = await axiosInstance.put(`/documents/${id}`, payload);
+    return response.data;
+}
+
+/**
+ * Delete a document and its file
+ */
+export async function deleteDocument(id: string) {
+    const response = await axiosInstance.delete(`/documents/${id}`);
+    return response.data;
+}
+
+/**
+ * Create a signed download link for a document
+ */
+export async function getDocumentDownloadUrl(
+    id: string
+): Promise<DocumentDownloadUrlResponse> {
+    const response = await axiosInstance.get(`/documents/${id}/download-url`);
+    return response.data;
+}
+
+/**
+ * Attach a document to a record
+ */
+export async function attachDocument(
+    id: string,
+    payload: AttachDocumentPayload
+): Promise<DocumentResponse> {
+    const response = await axiosInstance.post(
+        `/documents/${id}/attachments`,
+        payload
+    );
+    return response.data;
+}
+
+/**
+ * Detach a document from a record
+ */
+export async function detachDocument(
+    id: string,
+    attachmentId: string
+): Promise<DocumentResponse> {
+    const response = await axiosInstance.delete(
+        `/documents/${id}/attachments/${attachmentId}`
+    );
+    return response.data;
+}
+
+/**
+ * Get the document storage used against the quota
+ */
+export async function getDocumentUsage(): Promise<DocumentStorageUsageResponse> {
+    const response = await axiosInstance.get('/documents/usage');
+    return response.data;
+}
+
+/**
+ * Get document settings
+ */
+export async function getDocumentSettings(): Promise<DocumentSettingsResponse> {
+    const response = await axiosInstance.get('/documents/settings');
+    return response.data;
+}
+
+/**
+ * Update document settings
+ */
+export async function updateDocumentSettings(
+    payload: UpdateDocumentSettingsPayload
+): Promise<DocumentSettingsResponse> {
+    const response = await axiosInstance.put('/documents/settings', payload);
+    return response.data;
+}
+
+// ============= React Query Hooks =============
+
+const getErrorMessage = (error: unknown, fallback: string) => {
+    const maybeAxiosError = error as {
+        response?: { data?: { message?: string } };
+    };
+    return maybeAxiosError.response?.data?.message || fallback;
+};
+
+/**
+ * Hook to get documents
+ */
+export const useDocuments = (filters: DocumentFilters = {}, enabled = true) => {
+    return useQuery<DocumentsListResponse>({
+        queryKey: ['documents', filters],
+        queryFn: () => getDocuments(filters),
+        enabled,
+    });
+};
+
+/**
+ * Hook to get a document
+ */
+export const useDocument = (id: string | undefined) => {
+    return useQuery<DocumentResponse>({
+        queryKey: ['documents', id],
+        queryFn: () => getDocument(id as string),
+        enabled: !!id,
+    });
+};
+
+/**
+ * Hook to get the document storage usage
+ */
+export const useDocumentUsage = () => {
+    return useQuery<DocumentStorageUsageResponse>({
+        queryKey: ['document-usage'],
+        queryFn: getDocumentUsage,
+    });
+};
+
+/**
+ * Hook to get document settings
+ */
+export const useDocumentSettings = () => {
+    return useQuery<DocumentSettingsResponse>({
+        queryKey: ['document-settings'],
+        queryFn: getDocumentSettings,
+    });
+};
+
+/**
+ * Hook to upload a document
+ */
+export const useUploadDocument = () => {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: (payload: UploadDocumentPayload) => uploadDocument(payload),
+        onSuccess: (data) => {
+            showSuccessToast(data?.message || 'Document uploaded successfully');
+            queryClient.invalidateQueries({ queryKey: ['documents'] });
+            queryClient.invalidateQueries({ queryKey: ['document-usage'] });
+        },
+        onError: (error) => {
+            console.error('Upload document failed:', error);
+            showErrorToast(getErrorMessage(error, 'Failed to upload document'));
+        },
+    });
+};
+
+/**
+ * Hook to update a document
+ */
+export const useUpdateDocument = () => {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: ({
+            id,
+            payload,
+        }: {
+            id: string;
+            payload: UpdateDocumentPayload;
+        }) => updateDocument(id, payload),
+        onSuccess: (data) => {
+            showSuccessToast(data?.message || 'Document updated successfully');
+            queryClient.invalidateQueries({ queryKey: ['documents'] });
+        },
+        onError: (error) => {
+            console.error('Update document failed:', error);
+            showErrorToast(getErrorMessage(error, 'Failed to update document'));
+        },
+    });
+};
+
+/**
+ * Hook to delete a document
+ */
+export const useDeleteDocument = () => {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: (id: string) => deleteDocument(id),
+        onSuccess: (data) => {
+            showSuccessToast(data?.message || 'Document deleted successfully');
+            queryClient.invalidateQueries({ queryKey: ['documents'] });
+            queryClient.invalidateQueries({ queryKey: ['document-usage'] });
+        },
+        onError: (error) => {
+            console.error('Delete document failed:', error);
+            showErrorToast(getErrorMessage(error, 'Failed to delete document'));
+        },
+    });
+};
+
+/**
+ * Hook to download a document
+ * The signed link is opened right away; it expires after a few minutes
+ */
+export const useDownloadDocument = () => {
+    return useMutation({
+        mutationFn: (id: string) => getDocumentDownloadUrl(id),
+        onSuccess: (data) => {
+            window.location.assign(data.data.url);
+        },
+        onError: (error) => {
+            console.error('Download document failed:', error);
+            showErrorToast(
+                getErrorMessage(error, 'Failed to download document')
+            );
+        },
+    });
+};
+
+/**
+ * Hook to attach a document to a record
+ */
+export const useAttachDocument = () => {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: ({
+            id,
+            payload,
+        }: {
+            id: string;
+            payload: AttachDocumentPayload;
+        }) => attachDocument(id, payload),
+        onSuccess: (data) => {
+            showSuccessToast(data?.message || 'Document attached successfully');
+            queryClient.invalidateQueries({ queryKey: ['documents'] });
+        },
+        onError: (error) => {
+            console.error('Attach document failed:', error);
+            showErrorToast(getErrorMessage(error, 'Failed to attach document'));
+        },
+    });
+};
+
+/**
+ * Hook to detach a document from a record
+ */
+export const useDetachDocument = () => {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: ({
+            id,
+            attachmentId,
+        }: {
+            id: string;
+            attachmentId: string;
+        }) => detachDocument(id, attachmentId),
+        onSuccess: (data) => {
+            showSuccessToast(data?.message || 'Document detached successfully');
+            queryClient.invalidateQueries({ queryKey: ['documents'] });
+        },
+        onError: (error) => {
+            console.error('Detach document failed:', error);
+            showErrorToast(getErrorMessage(error, 'Failed to detach document'));
+        },
+    });
+};
+
+/**
+ * Hook to update document settings
+ */
+export const useUpdateDocumentSettings = () => {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: (payload: UpdateDocumentSettingsPayload) =>
+            updateDocumentSettings(payload),
+        onSuccess: (data) => {
+            showSuccessToast(
+                data?.message || 'Document settings updated successfully'
+            );
+            queryClient.invalidateQueries({ queryKey: ['document-settings'] });
+            queryClient.invalidateQueries({ queryKey: ['document-usage'] });
+        },
+        onError: (error) => {
+            console.error('Update document settings failed:', error);
+            showErrorToast(
+                getErrorMessage(error, 'Failed to update document settings')
+            );
+        },
+    });
+};
@@ -0,0 +1,307 @@
+import {
+    type QueryClient,
+    useMutation,
+    useQuery,
+    useQueryClient,
+} from '@tanstack/react-query';
+import type {
+    CloseFiscalPeriodPayload,
+    CreateFiscalYearPayload,
+    FiscalPeriodResponse,
+    FiscalYearResponse,
+    FiscalYearsListResponse,
+    ReopenFiscalPeriodPayload,
+    YearEndClosePayload,
+    YearEndCloseResponse,
+    YearEndClosingPreviewResponse,
+} from '../../types/fiscalYears';
+import { showErrorToast, showSuccessToast } from '../../utills/toast';
+import axiosInstance from '../axiosClient';
+
+// ============= API Functions =============
+
+/**
+ * Get fiscal years with their periods
+ */
+export async function getFiscalYears(
+    page = 1,
+    limit = 20
+): Promise<FiscalYearsListResponse> {
+    const params = new URLSearchParams();
+    params.append('page', page.toString());
+    params.append('limit', limit.toString());
+
+    const response = await axiosInstance.get(
+        `/fiscal-years?${params.toString()}`
+    );
+    return response.data;
+}
+
+/**
+ * Create a fiscal year and generate its periods
+ */
+export async function createFiscalYear(
+    payload: CreateFiscalYearPayload
+): Promise<FiscalYearResponse> {
+    const response = await axiosInstance.post('/fiscal-years', payload);
+    return response.data;
+}
+
+/**
+ * Soft- or hard-close a fiscal period
+ */
+export async function closeFiscalPeriod(
+    fiscalYearId: string,
+    periodId: string,
+    payload: CloseFiscalPeriodPayload
+): Promise<FiscalPeriodResponse> {
+    const response = await axiosInstance.post(
+        `/fiscal-years/${fiscalYearId}/periods/${periodId}/close`,
+        payload
+    );
+    return response.data;
+}
+
+/**
+ * Reopen a closed fiscal period
+ */
+export async function reopenFiscalPeriod(
+    fiscalYearId: string,
+    periodId: string,
+    payload: ReopenFiscalPeriodPayload
+): Promise<FiscalPeriodResponse> {
+    const response = await axiosInstance.post(
+        `/fiscal-years/${fiscalYearId}/periods/${periodId}/reopen`,
+        payload
+    );
+    return response.data;
+}
+
+/**
+ * Preview the closing entry of a fiscal year
+ */
+export async function getYearEndClosingPreview(
+    fiscalYearId: string
+): Promise<YearEndClosingPreviewResponse> {
+    const response = await axiosInstance.get(
+        `/fiscal-years/${fiscalYearId}/closing-entry/preview`
+    );
+    return response.data;
+}
+
+/**
+ * Close a fiscal year into retained earnings
+ */
+export async function closeFiscalYear(
+    fiscalYearId: string,
+    payload: YearEndClosePayload
+): Promise<YearEndCloseResponse> {
+    const response = await axiosInstance.post(
+        `/fiscal-years/${fiscalYearId}/close`,
+        payload
+    );
+    return response.data;
+}
+
+/**
+ * Undo a year-end close by reversing its closing entry
+ */
+export async function reverseYearEndClose(
+    fiscalYearId: string,
+    payload: YearEndClosePayload
+): Promise<YearEndCloseResponse> {
+    const response = await axiosInstance.post(
+        `/fiscal-years/${fiscalYearId}/closing-entry/reverse`,
+        payload
+    );
+    return response.data;
+}
+
+// ============= React Query Hooks =============
+
+const getErrorMessage = (error: unknown, fallback: string) => {
+    const maybeAxiosError = error as {
+        response?: { data?: { message?: string } };
+    };
+    return maybeAxiosError.response?.data?.message || fallback;
+};
+
+/**
+ * Refresh everything a closing entry or its reversal changes
+ */
+const invalidateClosingQueries = (queryClient: QueryClient) => {
+    queryClient.invalidateQueries({ queryKey: ['fiscal-years'] });
+    queryClient.invalidateQueries({ queryKey: ['journal-entries'] });
+    queryClient.invalidateQueries({ queryKey: ['balance-sheet'] });
+    queryClient.invalidateQueries({ queryKey: ['income-statement'] });
+    queryClient.invalidateQueries({ queryKey: ['general-ledger'] });
+};
+
+/**
+ * Hook to get fiscal years
+ */
+export const useFiscalYears = (page = 1, limit = 20) => {
+    return useQuery<FiscalYearsListResponse>({
+        queryKey: ['fiscal-years', page, limit],
+        queryFn: () => getFiscalYears(page, limit),
+    });
+};
+
+/**
+ * Hook to create a fiscal year
+ */
+export const useCreateFiscalYear = () => {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: (payload: CreateFiscalYearPayload) =>
+            createFiscalYear(payload),
+        onSuccess: (data) => {
+            showSuccessToast(
+                data?.message || 'Fiscal year created successfully'
+            );
+            queryClient.invalidateQueries({ queryKey: ['fiscal-years'] });
+        },
+        onError: (error) => {
+            console.error('Create fiscal year failed:', error);
+            showErrorToast(
+                getErrorMessage(error, 'Failed to create fiscal year')
+            );
+        },
+    });
+};
+
+/**
+ * Hook to close a fiscal period
+ */
+export const useCloseFiscalPeriod = () => {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: ({
+            fiscalYearId,
+            periodId,
+            payload,
+        }: {
+            fiscalYearId: string;
+            periodId: string;
+            payload: CloseFiscalPeriodPayload;
+        }) => closeFiscalPeriod(fiscalYearId, periodId, payload),
+        onSuccess: (data) => {
+            showSuccessToast(
+                data?.message || 'Fiscal period closed successfully'
+            );
+            queryClient.invalidateQueries({ queryKey: ['fiscal-years'] });
+        },
+        onError: (error) => {
+            console.error('Close fiscal period failed:', error);
+            showErrorToast(
+                getErrorMessage(error, 'Failed to close fiscal period')
+            );
+        },
+    });
+};
+
+/**
+ * Hook to reopen a fiscal period
+ */
+export const useReopenFiscalPeriod = () => {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: ({
+            fiscalYearId,
+            periodId,
+            payload,
+        }: {
+            fiscalYearId: string;
+            periodId: string;
+            payload: ReopenFiscalPeriodPayload;
+        }) => reopenFiscalPeriod(fiscalYearId, periodId, payload),
+        onSuccess: (data) => {
+            showSuccessToast(
+                data?.message || 'Fiscal period reopened successfully'
+            );
+            queryClient.invalidateQueries({ queryKey: ['fiscal-years'] });
+        },
+        onError: (error) => {
+            console.error('Reopen fiscal period failed:', error);
+            showErrorToast(
+                getErrorMessage(error, 'Failed to reopen fiscal period')
+            );
+        },
+    });
+};
+
+/**
+ * Hook to preview the closing entry of a fiscal year
+ */
+export const useYearEndClosingPreview = (
+    fiscalYearId: string,
+    enabled = true
+) => {
+    return useQuery<YearEndClosingPreviewResponse>({
+        queryKey: ['fiscal-years', fiscalYearId, 'closing-preview'],
+        queryFn: () => getYearEndClosingPreview(fiscalYearId),
+        enabled: !!fiscalYearId && enabled,
+        retry: false,
+    });
+};
+
+/**
+ * Hook to close a fiscal year into retained earnings
+ */
+export const useCloseFiscalYear = () => {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: ({
+            fiscalYearId,
+            payload,
+        }: {
+            fiscalYearId: string;
+            payload: YearEndClosePayload;
+        }) => closeFiscalYear(fiscalYearId, payload),
+        onSuccess: (data) => {
+            showSuccessToast(
+                data?.message || 'Fiscal year closed into retained earnings'
+            );
+            invalidateClosingQueries(queryClient);
+        },
+        onError: (error) => {
+            console.error('Close fiscal year failed:', error);
+            showErrorToast(
+                getErrorMessage(error, 'Failed to close fiscal year')
+            );
+        },
+    });
+};
+
+/**
+ * Hook to undo a year-end close
+ */
+export const useReverseYearEndClose = () => {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: ({
+            fiscalYearId,
+            payload,
+        }: {
+            fiscalYearId: string;
+            payload: YearEndClosePayload;
+        }) => reverseYearEndClose(fiscalYearId, payload),
+        onSuccess: (data) => {
+            showSuccessToast(
+                data?.message || 'Year-end closing entry reversed successfully'
+            );
+            invalidateClosingQueries(queryClient);
+        },
+        onError: (error) => {
+            console.error('Reverse year-end close failed:', error);
+            showErrorToast(
+                getErrorMessage(error, 'Failed to reverse year-end close')
+            );
+        },
+    });
+};
@@ -0,0 +1,301 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import type {
+    CreateInvoicePayload,
+    InvoiceFilters,
+    InvoiceResponse,
+    InvoiceSettingsResponse,
+    InvoicesListResponse,
+    UpdateInvoicePayload,
+    UpdateInvoiceSettingsPayload,
+    VoidInvoicePayload,
+} from '../../types/invoice';
+import { showErrorToast, showSuccessToast } from '../../utills/toast';
+import axiosInstance from '../axiosClient';
+
+// ============= API Functions =============
+
+/**
+ * Get invoices
+ */
+export async function getInvoices(
+    filters: InvoiceFilters = {}
+): Promise<InvoicesListResponse> {
+    const params = new URLSearchParams();
+    params.append('page', (filters.page ?? 1).toString());
+    params.append('limit', (filters.limit ?? 20).toString());
+    if (filters.status) {
+        params.append('status', filters.status);
+    }
+    if (filters.contactId) {
+        params.append('contactId', filters.contactId);
+    }
+    if (filters.startDate) {
+        params.append('startDate', filters.startDate);
+    }
+    if (filters.endDate) {
+        params.append('endDate', filters.endDate);
+    }
+    if (filters.search) {
+        params.append('search', filters.search);
+    }
+    if (filters.sort) {
+        params.append('sort', filters.sort);
+    }
+    if (filters.order) {
+        params.append('order', filters.order);
+    }
+
+    const response = await axiosInstance.get(`/invoices?${params.toString()}`);
+    return response.data;
+}
+
+/**
+ * Get an invoice with its lines
+ */
+export async function getInvoice(id: string): Promise<InvoiceResponse> {
+    const response = await axiosInstance.get(`/invoices/${id}`);
+    return response.data;
+}
+
+/**
+ * Create a draft invoice
+ */
+export async function createInvoice(
+    payload: CreateInvoicePayload
+): Promise<InvoiceResponse> {
+    const response = await axiosInstance.post('/invoices', payload);
+    return response.data;
+}
+
+/**
+ * Update a draft invoice
+ */
+export async function updateInvoice(
+    id: string,
+    payload: UpdateInvoicePayload
+): Promise<InvoiceResponse> {
+    const response = await axiosInstance.put(`/invoices/${id}`, payload);
+    return response.data;
+}
+
+/**
+ * Delete a draft invoice
+ */
+export async function deleteInvoice(id: string) {
+    const response = await axiosInstance.delete(`/invoices/${id}`);
+    return response.data;
+}
+
+/**
+ * Send an invoice and post it to the ledger
+ */
+export async function sendInvoice(id: string): Promise<InvoiceResponse> {
+    const response = await axiosInstance.post(`/invoices/${id}/send`);
+    return response.data;
+}
+
+/**
+ * Void an invoice
+ */
+export async function voidInvoice(
+    id: string,
+    payload: VoidInvoicePayload = {}
+): Promise<InvoiceResponse> {
+    const response = await axiosInstance.post(`/invoices/${id}/void`, payload);
+    return response.data;
+}
+
+/**
+ * Get invoice settings
+ */
+export async function getInvoiceSettings(): Promise<InvoiceSettingsResponse> {
+    const response = await axiosInstance.get('/invoices/settings');
+    return response.data;
+}
+
+/**
+ * Update invoice settings
+ */
+export async function updateInvoiceSettings(
+    payload: UpdateInvoiceSettingsPayload
+): Promise<InvoiceSettingsResponse> {
+    const response = await axiosInstance.put('/invoices/settings', payload);
+    return response.data;
+}
+
+// ============= React Query Hooks =============
+
+const getErrorMessage = (error: unknown, fallback: string) => {
+    const maybeAxiosError = error as {
+        response?: { data?: { message?: string } };
+    };
+    return maybeAxiosError.response?.data?.message || fallback;
+};
+
+/**
+ * Hook to get invoices
+ */
+export const useInvoices = (filters: InvoiceFilters = {}) => {
+    return useQuery<InvoicesListResponse>({
+        queryKey: ['invoices', filters],
+        queryFn: () => getInvoices(filters),
+    });
+};
+
+/**
+ * Hook to get an invoice
+ */
+export const useInvoice = (id: string | undefined) => {
+    return useQuery<InvoiceResponse>({
+        queryKey: ['invoices', id],
+        queryFn: () => getInvoice(id as string),
+        enabled: !!id,
+    });
+};
+
+/**
+ * Hook to get invoice settings
+ */
+export const useInvoiceSettings = () => {
+    return useQuery<InvoiceSettingsResponse>({
+        queryKey: ['invoice-settings'],
+        queryFn: getInvoiceSettings,
+    });
+};
+
+/**
+ * Hook to create a draft invoice
+ * Success toasts are left to the caller, which may send the invoice next
+ */
+export const useCreateInvoice = () => {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: (payload: CreateInvoicePayload) => createInvoice(payload),
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['invoices'] });
+            queryClient.invalidateQueries({ queryKey: ['invoice-settings'] });
+        },
+        onError: (error) => {
+            console.error('Create invoice failed:', error);
+            showErrorToast(getErrorMessage(error, 'Failed to create invoice'));
+        },
+    });
+};
+
+/**
+ * Hook to update a draft invoice
+ */
+export const useUpdateInvoice = () => {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: ({
+            id,
+            payload,
+        }: {
+            id: string;
+            payload: UpdateInvoicePayload;
+        }) => updateInvoice(id, payload),
+        onSuccess: (data) => {
+            showSuccessToast(data?.message || 'Invoice updated successfully');
+            queryClient.invalidateQueries({ queryKey: ['invoices'] });
+        },
+        onError: (error) => {
+            console.error('Update invoice failed:', error);
+            showErrorToast(getErrorMessage(error, 'Failed to update invoice'));
+        },
+    });
+};
+
+/**
+ * Hook to delete a draft invoice
+ */
+export const useDeleteInvoice = () => {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: (id: string) => deleteInvoice(id),
+        onSuccess: (data) => {
+            showSuccessToast(data?.message || 'Invoice deleted successfully');
+            queryClient.invalidateQueries({ queryKey: ['invoices'] });
+        },
+        onError: (error) => {
+            console.error('Delete invoice failed:', error);
+            showErrorToast(getErrorMessage(error, 'Failed to delete invoice'));
+        },
+    });
+};
+
+/**
+ * Hook to send an invoice
+ * Sending posts a journal entry, so entries and reports are refreshed too
+ */
+export const useSendInvoice = () => {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: (id: string) => sendInvoice(id),
+        onSuccess: (data) => {
+            showSuccessToast(data?.message || 'Invoice sent successfully');
+            queryClient.invalidateQueries({ queryKey: ['invoices'] });
+            queryClient.invalidateQueries({ queryKey: ['journal-entries'] });
+            queryClient.invalidateQueries({ queryKey: ['contacts'] });
+        },
+        onError: (error) => {
+            console.error('Send invoice failed:', error);
+            showErrorToast(getErrorMessage(error, 'Failed to send invoice'));
+        },
+    });
+};
+
+/**
+ * Hook to void an invoice
+ */
+export const useVoidInvoice = () => {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: ({
+            id,
+            payload,
+        }: {
+            id: string;
+            payload?: VoidInvoicePayload;
+        }) => voidInvoice(id, payload),
+        onSuccess: (data) => {
+            showSuccessToast(data?.message || 'Invoice voided successfully');
+            queryClient.invalidateQueries({ queryKey: ['invoices'] });
+            queryClient.invalidateQueries({ queryKey: ['journal-entries'] });
+            queryClient.invalidateQueries({ queryKey: ['contacts'] });
+        },
+        onError: (error) => {
+            console.error('Void invoice failed:', error);
+            showErrorToast(getErrorMessage(error, 'Failed to void invoice'));
+        },
+    });
+};
+
+/**
+ * Hook to update invoice settings
+ */
+export const useUpdateInvoiceSettings = () => {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: (payload: UpdateInvoiceSettingsPayload) =>
+            updateInvoiceSettings(payload),
+        onSuccess: (data) => {
+            showSuccessToast(
+                data?.message || 'Invoice settings updated successfully'
+            );
+            queryClient.invalidateQueries({ queryKey: ['invoice-settings'] });
+        },
+        onError: (error) => {
+            console.error('Update invoice settings failed:', error);
+            showErrorToast(
+                getErrorMessage(error, 'Failed to update invoice settings')
+            );
+        },
+    });
+};
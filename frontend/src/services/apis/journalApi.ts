@@ -1,10 +1,21 @@
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import type {
     CreateJournalEntryPayload,
+    JournalApprovalEntryResponse,
     JournalEntriesListResponse,
     JournalEntryFilters,
+    JournalEntryImportFieldsResponse,
+    JournalEntryImportPayload,
+    JournalEntryImportResponse,
     JournalEntryResponse,
+    PendingApprovalsListResponse,
+    RecurringTemplateEntriesResponse,
+    RecurringTemplateFilters,
+    RecurringTemplatesListResponse,
+    ScheduledReversalFilters,
+    ScheduledReversalsListResponse,
     UpdateJournalEntryPayload,
+    UpdateRecurringTemplatePayload,
 } from '../../types/journal';
 import { showErrorToast, showSuccessToast } from '../../utills/toast';
 import axiosInstance from '../axiosClient';
@@ -183,6 +194,166 @@ export async function restoreJournalEntry(
     return response.data;
 }
 
+/**
+ * Get posted entries waiting for (or failing) their scheduled reversal
+ */
+export async function getScheduledReversals(
+    filters?: ScheduledReversalFilters
+): Promise<ScheduledReversalsListResponse> {
+    const params = new URLSearchParams();
+    if (filters?.status) params.append('status', filters.status);
+    if (filters?.page) params.append('page', filters.page.toString());
+    if (filters?.limit) params.append('limit', filters.limit.toString());
+
+    const response = await axiosInstance.get(
+        `/journal-entries/scheduled-reversals${params.toString() ? `?${params.toString()}` : ''}`
+    );
+    return response.data;
+}
+
+/**
+ * Get recurring journal templates
+ */
+export async function getRecurringTemplates(
+    filters?: RecurringTemplateFilters
+): Promise<RecurringTemplatesListResponse> {
+    const params = new URLSearchParams();
+    if (filters?.status) params.append('status', filters.status);
+    if (filters?.search) params.append('search', filters.search);
+    if (filters?.page) params.append('page', filters.page.toString());
+    if (filters?.limit) params.append('limit', filters.limit.toString());
+
+    const response = await axiosInstance.get(
+        `/journal-entries/recurring${params.toString() ? `?${params.toString()}` : ''}`
+    );
+    return response.data;
+}
+
+/**
+ * Update a recurring journal template (e.g. pause or resume it)
+ */
+export async function updateRecurringTemplate(
+    id: string,
+    payload: UpdateRecurringTemplatePayload
+): Promise<{ success: boolean; message: string }> {
+    const response = await axiosInstance.put(
+        `/journal-entries/recurring/${id}`,
+        payload
+    );
+    return response.data;
+}
+
+/**
+ * Delete a recurring journal template
+ */
+export async function deleteRecurringTemplate(
+    id: string
+): Promise<{ success: boolean; message: string }> {
+    const response = await axiosInstance.delete(
+        `/journal-entries/recurring/${id}`
+    );
+    return response.data;
+}
+
+/**
+ * Get the journal entries generated from a recurring template
+ */
+export async function getRecurringTemplateEntries(
+    id: string,
+    page = 1,
+    limit = 10
+): Promise<RecurringTemplateEntriesResponse> {
+    const response = await axiosInstance.get(
+        `/journal-entries/recurring/${id}/entries?page=${page}&limit=${limit}`
+    );
+    return response.data;
+}
+
+/**
+ * Submit a draft journal entry for approval
+ */
+export async function submitJournalEntry(
+    id: string,
+    comment?: string
+): Promise<JournalApprovalEntryResponse> {
+    const response = await axiosInstance.post(
+        `/journal-entries/${id}/submit`,
+        comment ? { comment } : {}
+    );
+    return response.data;
+}
+
+/**
+ * Approve the current approval step of a journal entry
+ */
+export async function approveJournalEntry(
+    id: string,
+    comment?: string
+): Promise<JournalApprovalEntryResponse> {
+    const response = await axiosInstance.post(
+        `/journal-entries/${id}/approve`,
+        comment ? { comment } : {}
+    );
+    return response.data;
+}
+
+/**
+ * Reject a journal entry awaiting approval
+ */
+export async function rejectJournalEntry(
+    id: string,
+    comment: string
+): Promise<JournalApprovalEntryResponse> {
+    const response = await axiosInstance.post(`/journal-entries/${id}/reject`, {
+        comment,
+    });
+    return response.data;
+}
+
+/**
+ * Get the journal entries waiting for the current user's approval
+ */
+export async function getPendingApprovals(
+    page = 1,
+    limit = 10
+): Promise<PendingApprovalsListResponse> {
+    const response = await axiosInstance.get(
+        `/journal-entries/approvals/pending?page=${page}&limit=${limit}`
+    );
+    return response.data;
+}
+
+/**
+ * Get the fields that can be mapped when importing journal entries
+ */
+export async function getJournalEntryImportFields(): Promise<JournalEntryImportFieldsResponse> {
+    const response = await axiosInstance.get('/journal-entries/import/fields');
+    return response.data;
+}
+
+/**
+ * Import journal entries from a CSV or Excel file
+ * A rejected import is a 400 whose data holds the row errors
+ */
+export async function importJournalEntries(
+    payload: JournalEntryImportPayload
+): Promise<JournalEntryImportResponse> {
+    const formData = new FormData();
+    formData.append('file', payload.file);
+    formData.append('mapping', JSON.stringify(payload.mapping));
+    formData.append('dateFormat', payload.dateFormat);
+    formData.append('status', payload.status);
+    formData.append('allOrNothing', String(payload.allOrNothing));
+    formData.append('dryRun', String(payload.dryRun));
+
+    const response = await axiosInstance.post(
+        '/journal-entries/import',
+        formData,
+        { headers: { 'Content-Type': 'multipart/form-data' } }
+    );
+    return response.data;
+}
+
 // ============= React Query Hooks =============
 
 /**
@@ -195,6 +366,17 @@ export const useJournalEntries = (filters?: JournalEntryFilters) => {
     });
 };
 
+/**
+ * Hook to get scheduled reversals
+ * Nested under the journal entries key so entry mutations refresh it
+ */
+export const useScheduledReversals = (filters?: ScheduledReversalFilters) => {
+    return useQuery<ScheduledReversalsListResponse, Error>({
+        queryKey: ['journal-entries', 'scheduled-reversals', filters],
+        queryFn: () => getScheduledReversals(filters),
+    });
+};
+
 /**
  * Hook to get a single journal entry
  */
@@ -408,3 +590,232 @@ export const useRestoreJournalEntry = () => {
         },
     });
 };
+
+/**
+ * Hook to get recurring journal templates
+ * Nested under the journal entries key so entry mutations refresh it
+ */
+export const useRecurringTemplates = (filters?: RecurringTemplateFilters) => {
+    return useQuery<RecurringTemplatesListResponse, Error>({
+        queryKey: ['journal-entries', 'recurring', filters],
+        queryFn: () => getRecurringTemplates(filters),
+    });
+};
+
+/**
+ * Hook to get the entries generated from a recurring template
+ */
+export const useRecurringTemplateEntries = (id: string | null, page = 1) => {
+    return useQuery<RecurringTemplateEntriesResponse, Error>({
+        queryKey: ['journal-entries', 'recurring', id, 'entries', page],
+        queryFn: () => getRecurringTemplateEntries(id as string, page),
+        enabled: !!id,
+    });
+};
+
+/**
+ * Hook to update a recurring journal template
+ */
+export const useUpdateRecurringTemplate = () => {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: ({
+            id,
+            payload,
+        }: {
+            id: string;
+            payload: UpdateRecurringTemplatePayload;
+        }) => updateRecurringTemplate(id, payload),
+        onSuccess: (data) => {
+            showSuccessToast(
+                data?.message || 'Recurring template updated successfully'
+            );
+            queryClient.invalidateQueries({
+                queryKey: ['journal-entries', 'recurring'],
+            });
+        },
+        onError: (error) => {
+            console.error('Update recurring template failed:', error);
+            const maybeAxiosError = error as {
+                response?: { data?: { message?: string } };
+            };
+            const message =
+                maybeAxiosError.response?.data?.message ||
+                'Failed to update recurring template';
+            showErrorToast(message);
+        },
+    });
+};
+
+/**
+ * Hook to delete a recurring journal template
+ */
+export const useDeleteRecurringTemplate = () => {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: (id: string) => deleteRecurringTemplate(id),
+        onSuccess: (data) => {
+            showSuccessToast(
+                data?.message || 'Recurring template deleted successfully'
+            );
+            queryClient.invalidateQueries({
+                queryKey: ['journal-entries', 'recurring'],
+            });
+        },
+        onError: (error) => {
+            console.error('Delete recurring template failed:', error);
+            const maybeAxiosError = error as {
+                response?: { data?: { message?: string } };
+            };
+            const message =
+                maybeAxiosError.response?.data?.message ||
+                'Failed to delete recurring template';
+            showErrorToast(message);
+        },
+    });
+};
+
+/**
+ * Hook to get the journal entries pending the current user's approval
+ */
+export const usePendingApprovals = (page = 1) => {
+    return useQuery<PendingApprovalsListResponse, Error>({
+        queryKey: ['journal-approvals', 'pending', page],
+        queryFn: () => getPendingApprovals(page),
+    });
+};
+
+/**
+ * Invalidate the queries affected by an approval workflow action
+ */
+const invalidateApprovalQueries = (
+    queryClient: ReturnType<typeof useQueryClient>,
+    id: string
+) => {
+    queryClient.invalidateQueries({ queryKey: ['journal-entries'] });
+    queryClient.invalidateQueries({ queryKey: ['journal-entry', id] });
+    queryClient.invalidateQueries({ queryKey: ['journal-approvals'] });
+};
+
+/**
+ * Show the API error message of a failed approval workflow action
+ */
+const showApprovalError = (error: unknown, fallback: string) => {
+    const maybeAxiosError = error as {
+        response?: { data?: { message?: string } };
+    };
+    showErrorToast(maybeAxiosError.response?.data?.message || fallback);
+};
+
+/**
+ * Hook to submit a journal entry for approval
+ */
+export const useSubmitJournalEntry = () => {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: ({ id, comment }: { id: string; comment?: string }) =>
+            submitJournalEntry(id, comment),
+        onSuccess: (data, { id }) => {
+            showSuccessToast(
+                data?.message || 'Journal entry submitted for approval'
+            );
+            invalidateApprovalQueries(queryClient, id);
+        },
+        onError: (error) => {
+            console.error('Submit journal entry failed:', error);
+            showApprovalError(error, 'Failed to submit journal entry');
+        },
+    });
+};
+
+/**
+ * Hook to approve a journal entry
+ */
+export const useApproveJournalEntry = () => {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: ({ id, comment }: { id: string; comment?: string }) =>
+            approveJournalEntry(id, comment),
+        onSuccess: (data, { id }) => {
+            showSuccessToast(
+                data?.message || 'Journal entry approved successfully'
+            );
+            invalidateApprovalQueries(queryClient, id);
+        },
+        onError: (error) => {
+            console.error('Approve journal entry failed:', error);
+            showApprovalError(error, 'Failed to approve journal entry');
+        },
+    });
+};
+
+/**
+ * Hook to reject a journal entry
+ */
+export const useRejectJournalEntry = () => {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: ({ id, comment }: { id: string; comment: string }) =>
+            rejectJournalEntry(id, comment),
+        onSuccess: (data, { id }) => {
+            showSuccessToast(
+                data?.message || 'Journal entry rejected successfully'
+            );
+            invalidateApprovalQueries(queryClient, id);
+        },
+        onError: (error) => {
+            console.error('Reject journal entry failed:', error);
+            showApprovalError(error, 'Failed to reject journal entry');
+        },
+    });
+};
+
+/**
+ * Hook to get the journal entry import fields
+ */
+export const useJournalEntryImportFields = () => {
+    return useQuery<JournalEntryImportFieldsResponse, Error>({
+        queryKey: ['journal-entry-import-fields'],
+        queryFn: getJournalEntryImportFields,
+        staleTime: Infinity,
+    });
+};
+
+/**
+ * Hook to import journal entries
+ * Dry runs only validate the file; the result, or the row errors of a
+ * rejected import, is returned to the caller
+ */
+export const useImportJournalEntries = () => {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: (payload: JournalEntryImportPayload) =>
+            importJournalEntries(payload),
+        onSuccess: (data) => {
+            if (data.data.imported) {
+                showSuccessToast(
+                    data?.message || 'Journal entries imported successfully'
+                );
+                queryClient.invalidateQueries({
+                    queryKey: ['journal-entries'],
+                });
+            }
+        },
+        onError: (error) => {
+            console.error('Import journal entries failed:', error);
+            const maybeAxiosError = error as {
+                response?: { data?: { message?: string } };
+            };
+            const message =
+                maybeAxiosError.response?.data?.message ||
+                'Failed to import journal entries';
+            showErrorToast(message);
+        },
+    });
+};
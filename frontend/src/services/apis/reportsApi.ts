@@ -0,0 +1,266 @@
+import { useQuery } from '@tanstack/react-query';
+import type {
+    AgingReportFilters,
+    AgingReportFormat,
+    AgingReportResponse,
+    AgingReportType,
+    BalanceSheetFilters,
+    BalanceSheetResponse,
+    BudgetVsActualResponse,
+    GeneralLedgerAccountFilters,
+    GeneralLedgerAccountResponse,
+    GeneralLedgerFilters,
+    GeneralLedgerResponse,
+    IncomeStatementFilters,
+    IncomeStatementResponse,
+} from '../../types/reports';
+import axiosInstance from '../axiosClient';
+
+// ============= API Functions =============
+
+/**
+ * Get the balance sheet as of a date
+ */
+export async function getBalanceSheet(
+    filters?: BalanceSheetFilters
+): Promise<BalanceSheetResponse> {
+    const params = new URLSearchParams();
+    if (filters?.asOf) params.append('asOf', filters.asOf);
+    if (filters?.hideZeroBalances !== undefined)
+        params.append('hideZeroBalances', filters.hideZeroBalances.toString());
+    if (filters?.includeClosingEntries !== undefined)
+        params.append(
+            'includeClosingEntries',
+            filters.includeClosingEntries.toString()
+        );
+
+    const response = await axiosInstance.get(
+        `/reports/balance-sheet${params.toString() ? `?${params.toString()}` : ''}`
+    );
+    return response.data;
+}
+
+/**
+ * Get the income statement for a date range
+ */
+export async function getIncomeStatement(
+    filters?: IncomeStatementFilters
+): Promise<IncomeStatementResponse> {
+    const params = new URLSearchParams();
+    if (filters?.startDate) params.append('startDate', filters.startDate);
+    if (filters?.endDate) params.append('endDate', filters.endDate);
+    if (filters?.compareTo) params.append('compareTo', filters.compareTo);
+    if (filters?.hideZeroBalances !== undefined)
+        params.append('hideZeroBalances', filters.hideZeroBalances.toString());
+    if (filters?.includeClosingEntries !== undefined)
+        params.append(
+            'includeClosingEntries',
+            filters.includeClosingEntries.toString()
+        );
+
+    const response = await axiosInstance.get(
+        `/reports/income-statement${params.toString() ? `?${params.toString()}` : ''}`
+    );
+    return response.data;
+}
+
+/**
+ * Get the general ledger summary for a date range
+ */
+export async function getGeneralLedger(
+    filters?: GeneralLedgerFilters
+): Promise<GeneralLedgerResponse> {
+    const params = new URLSearchParams();
+    if (filters?.startDate) params.append('startDate', filters.startDate);
+    if (filters?.endDate) params.append('endDate', filters.endDate);
+    if (filters?.accountType) params.append('accountType', filters.accountType);
+    if (filters?.hideZeroBalances !== undefined)
+        params.append('hideZeroBalances', filters.hideZeroBalances.toString());
+    if (filters?.includeClosingEntries !== undefined)
+        params.append(
+            'includeClosingEntries',
+            filters.includeClosingEntries.toString()
+        );
+
+    const response = await axiosInstance.get(
+        `/reports/general-ledger${params.toString() ? `?${params.toString()}` : ''}`
+    );
+    return response.data;
+}
+
+/**
+ * Get the movements of one account in the general ledger
+ */
+export async function getGeneralLedgerAccount(
+    accountId: string,
+    filters?: GeneralLedgerAccountFilters
+): Promise<GeneralLedgerAccountResponse> {
+    const params = new URLSearchParams();
+    if (filters?.startDate) params.append('startDate', filters.startDate);
+    if (filters?.endDate) params.append('endDate', filters.endDate);
+    if (filters?.page) params.append('page', filters.page.toString());
+    if (filters?.limit) params.append('limit', filters.limit.toString());
+    if (filters?.includeClosingEntries !== undefined)
+        params.append(
+            'includeClosingEntries',
+            filters.includeClosingEntries.toString()
+        );
+
+    const response = await axiosInstance.get(
+        `/reports/general-ledger/${accountId}${params.toString() ? `?${params.toString()}` : ''}`
+    );
+    return response.data;
+}
+
+const AGING_REPORT_PATHS: Record<AgingReportType, string> = {
+    receivable: '/reports/aged-receivables',
+    payable: '/reports/aged-payables',
+};
+
+/**
+ * Build the query string of an aging report request
+ */
+const buildAgingReportParams = (
+    filters?: AgingReportFilters,
+    format?: AgingReportFormat
+) => {
+    const params = new URLSearchParams();
+    if (filters?.asOf) params.append('asOf', filters.asOf);
+    if (filters?.mode) params.append('mode', filters.mode);
+    if (filters?.contactId) params.append('contactId', filters.contactId);
+    if (format) params.append('format', format);
+    return params.toString();
+};
+
+/**
+ * Get the receivables or payables aging report
+ */
+export async function getAgingReport(
+    reportType: AgingReportType,
+    filters?: AgingReportFilters
+): Promise<AgingReportResponse> {
+    const params = buildAgingReportParams(filters);
+
+    const response = await axiosInstance.get(
+        `${AGING_REPORT_PATHS[reportType]}${params ? `?${params}` : ''}`
+    );
+    return response.data;
+}
+
+/**
+ * Download the receivables or payables aging report as a CSV or XLSX file
+ */
+export async function downloadAgingReport(
+    reportType: AgingReportType,
+    format: AgingReportFormat,
+    filters?: AgingReportFilters
+): Promise<void> {
+    const params = buildAgingReportParams(filters, format);
+
+    const response = await axiosInstance.get(
+        `${AGING_REPORT_PATHS[reportType]}?${params}`,
+        { responseType: 'blob' }
+    );
+
+    const link = document.createElement('a');
+    const url = URL.createObjectURL(response.data as Blob);
+    const asOf = filters?.asOf ?? new Date().toISOString().split('T')[0];
+
+    link.setAttribute('href', url);
+    link.setAttribute(
+        'download',
+        `aged-${reportType === 'receivable' ? 'receivables' : 'payables'}-${asOf}.${format}`
+    );
+    link.style.visibility = 'hidden';
+
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+
+    URL.revokeObjectURL(url);
+}
+
+/**
+ * Get the budget vs actual report of a budget
+ */
+export async function getBudgetVsActual(
+    budgetId: string
+): Promise<BudgetVsActualResponse> {
+    const params = new URLSearchParams();
+    params.append('budgetId', budgetId);
+
+    const response = await axiosInstance.get(
+        `/reports/budget-vs-actual?${params.toString()}`
+    );
+    return response.data;
+}
+
+// ============= React Query Hooks =============
+
+/**
+ * Hook to get the balance sheet
+ */
+export const useBalanceSheet = (filters?: BalanceSheetFilters) => {
+    return useQuery<BalanceSheetResponse, Error>({
+        queryKey: ['balance-sheet', filters],
+        queryFn: () => getBalanceSheet(filters),
+    });
+};
+
+/**
+ * Hook to get the income statement
+ */
+export const useIncomeStatement = (filters?: IncomeStatementFilters) => {
+    return useQuery<IncomeStatementResponse, Error>({
+        queryKey: ['income-statement', filters],
+        queryFn: () => getIncomeStatement(filters),
+    });
+};
+
+/**
+ * Hook to get the general ledger summary
+ */
+export const useGeneralLedger = (filters?: GeneralLedgerFilters) => {
+    return useQuery<GeneralLedgerResponse, Error>({
+        queryKey: ['general-ledger', filters],
+        queryFn: () => getGeneralLedger(filters),
+    });
+};
+
+/**
+ * Hook to get the movements of one general ledger account
+ */
+export const useGeneralLedgerAccount = (
+    accountId: string,
+    filters?: GeneralLedgerAccountFilters
+) => {
+    return useQuery<GeneralLedgerAccountResponse, Error>({
+        queryKey: ['general-ledger', accountId, filters],
+        queryFn: () => getGeneralLedgerAccount(accountId, filters),
+        enabled: !!accountId,
+    });
+};
+
+/**
+ * Hook to get the receivables or payables aging report
+ */
+export const useAgingReport = (
+    reportType: AgingReportType,
+    filters?: AgingReportFilters
+) => {
+    return useQuery<AgingReportResponse, Error>({
+        queryKey: ['aging-report', reportType, filters],
+        queryFn: () => getAgingReport(reportType, filters),
+    });
+};
+
+/**
+ * Hook to get the budget vs actual report of a budget
+ */
+export const useBudgetVsActual = (budgetId: string | undefined) => {
+    return useQuery<BudgetVsActualResponse, Error>({
+        queryKey: ['budget-vs-actual', budgetId],
+        queryFn: () => getBudgetVsActual(budgetId as string),
+        enabled: !!budgetId,
+    });
+};
@@ -134,9 +134,43 @@ export const useTenants = (
     });
 };
 
+export type ChartOfAccountTemplate = {
+    key: string;
+    version: number;
+    name: string;
+    description: string;
+    accountCount: number;
+};
+
+export type ChartOfAccountTemplatesResponse = {
+    success: boolean;
+    statusCode: number;
+    message: string;
+    data: ChartOfAccountTemplate[];
+};
+
+// Get the chart of accounts templates a tenant can be set up with
+export async function getChartOfAccountTemplatesRequest(): Promise<ChartOfAccountTemplatesResponse> {
+    const response = await axiosInstance.get(
+        '/tenants/chart-of-account-templates'
+    );
+    return response.data;
+}
+
+// Hook for getting the chart of accounts templates (SuperAdmin only)
+export const useChartOfAccountTemplates = (enabled = true) => {
+    return useQuery<ChartOfAccountTemplatesResponse, Error>({
+        queryKey: ['chart-of-account-templates'],
+        queryFn: getChartOfAccountTemplatesRequest,
+        staleTime: Infinity,
+        enabled,
+    });
+};
+
 export type CreateTenantRequest = {
     name: string;
     schemaName: string;
+    chartOfAccountTemplate?: string;
 };
 
 export type CreateTenantResponse = {
@@ -1,15 +1,292 @@
-import { useQuery } from '@tanstack/react-query';
-import { TransactionType2 } from '../../types';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import type {
+    BankStatementImportFilters,
+    BankStatementImportResponse,
+    BankStatementImportsListResponse,
+    BankTransactionFilters,
+    BankTransactionResponse,
+    BankTransactionsListResponse,
+    CategorizeBankTransactionPayload,
+    CsvStatementPreviewResponse,
+    ImportBankStatementPayload,
+} from '../../types/bankTransaction';
+import { showErrorToast, showSuccessToast } from '../../utills/toast';
 import axiosInstance from '../axiosClient';
 
-const getTransactions = async () => {
-    const response = await axiosInstance.get('/transactions');
+// ============= API Functions =============
+
+/**
+ * Get imported bank transactions, most recent first
+ */
+export async function getTransactions(
+    filters: BankTransactionFilters = {}
+): Promise<BankTransactionsListResponse> {
+    const params = new URLSearchParams();
+    params.append('page', (filters.page ?? 1).toString());
+    params.append('limit', (filters.limit ?? 20).toString());
+    if (filters.accountId) {
+        params.append('accountId', filters.accountId);
+    }
+    if (filters.status) {
+        params.append('status', filters.status);
+    }
+    if (filters.importId) {
+        params.append('importId', filters.importId);
+    }
+    if (filters.startDate) {
+        params.append('startDate', filters.startDate);
+    }
+    if (filters.endDate) {
+        params.append('endDate', filters.endDate);
+    }
+    if (filters.search) {
+        params.append('search', filters.search);
+    }
+
+    const response = await axiosInstance.get(
+        `/transactions?${params.toString()}`
+    );
+    return response.data;
+}
+
+/**
+ * Get a bank transaction
+ */
+export async function getTransaction(
+    id: string
+): Promise<BankTransactionResponse> {
+    const response = await axiosInstance.get(`/transactions/${id}`);
+    return response.data;
+}
+
+/**
+ * Get statement imports, most recent first
+ */
+export async function getStatementImports(
+    filters: BankStatementImportFilters = {}
+): Promise<BankStatementImportsListResponse> {
+    const params = new URLSearchParams();
+    params.append('page', (filters.page ?? 1).toString());
+    params.append('limit', (filters.limit ?? 20).toString());
+    if (filters.accountId) {
+        params.append('accountId', filters.accountId);
+    }
+
+    const response = await axiosInstance.get(
+        `/transactions/imports?${params.toString()}`
+    );
+    return response.data;
+}
+
+/**
+ * Get the headers and first rows of a CSV statement to map its columns
+ */
+export async function previewCsvStatement(
+    content: string
+): Promise<CsvStatementPreviewResponse> {
+    const response = await axiosInstance.post('/transactions/imports/preview', {
+        content,
+    });
+    return response.data;
+}
+
+/**
+ * Import a statement file into the transactions inbox
+ */
+export async function importStatement(
+    payload: ImportBankStatementPayload
+): Promise<BankStatementImportResponse> {
+    const response = await axiosInstance.post('/transactions/imports', payload);
     return response.data;
+}
+
+/**
+ * Categorize a bank transaction into a journal entry
+ */
+export async function categorizeTransaction(
+    id: string,
+    payload: CategorizeBankTransactionPayload
+): Promise<BankTransactionResponse> {
+    const response = await axiosInstance.post(
+        `/transactions/${id}/categorize`,
+        payload
+    );
+    return response.data;
+}
+
+/**
+ * Exclude a bank transaction from the inbox
+ */
+export async function excludeTransaction(
+    id: string
+): Promise<BankTransactionResponse> {
+    const response = await axiosInstance.post(`/transactions/${id}/exclude`);
+    return response.data;
+}
+
+/**
+ * Put an excluded bank transaction back in the inbox
+ */
+export async function restoreTransaction(
+    id: string
+): Promise<BankTransactionResponse> {
+    const response = await axiosInstance.post(`/transactions/${id}/restore`);
+    return response.data;
+}
+
+// ============= React Query Hooks =============
+
+const getErrorMessage = (error: unknown, fallback: string) => {
+    const maybeAxiosError = error as {
+        response?: { data?: { message?: string } };
+    };
+    return maybeAxiosError.response?.data?.message || fallback;
+};
+
+/**
+ * Hook to get bank transactions
+ */
+export const useTransactions = (filters: BankTransactionFilters = {}) => {
+    return useQuery<BankTransactionsListResponse>({
+        queryKey: ['transactions', filters],
+        queryFn: () => getTransactions(filters),
+    });
 };
 
-export const useTransactions = () => {
-    return useQuery<TransactionType2[]>({
-        queryKey: ['transactions'],
-        queryFn: getTransactions,
+/**
+ * Hook to get a bank transaction
+ */
+export const useTransaction = (id: string | undefined) => {
+    return useQuery<BankTransactionResponse>({
+        queryKey: ['transactions', 'detail', id],
+        queryFn: () => getTransaction(id as string),
+        enabled: !!id,
+    });
+};
+
+/**
+ * Hook to get statement imports
+ */
+export const useStatementImports = (
+    filters: BankStatementImportFilters = {}
+) => {
+    return useQuery<BankStatementImportsListResponse>({
+        queryKey: ['transactions', 'imports', filters],
+        queryFn: () => getStatementImports(filters),
+    });
+};
+
+/**
+ * Hook to preview a CSV statement
+ */
+export const usePreviewCsvStatement = () => {
+    return useMutation({
+        mutationFn: (content: string) => previewCsvStatement(content),
+        onError: (error) => {
+            console.error('Preview statement failed:', error);
+            showErrorToast(
+                getErrorMessage(error, 'Failed to read the statement file')
+            );
+        },
+    });
+};
+
+/**
+ * Hook to import a statement file
+ */
+export const useImportStatement = () => {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: (payload: ImportBankStatementPayload) =>
+            importStatement(payload),
+        onSuccess: (data) => {
+            showSuccessToast(
+                data?.message || 'Bank statement imported successfully'
+            );
+            queryClient.invalidateQueries({ queryKey: ['transactions'] });
+        },
+        onError: (error) => {
+            console.error('Import statement failed:', error);
+            showErrorToast(
+                getErrorMessage(error, 'Failed to import bank statement')
+            );
+        },
+    });
+};
+
+/**
+ * Hook to categorize a bank transaction
+ */
+export const useCategorizeTransaction = () => {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: ({
+            id,
+            payload,
+        }: {
+            id: string;
+            payload: CategorizeBankTransactionPayload;
+        }) => categorizeTransaction(id, payload),
+        onSuccess: (data) => {
+            showSuccessToast(
+                data?.message || 'Bank transaction categorized successfully'
+            );
+            queryClient.invalidateQueries({ queryKey: ['transactions'] });
+            queryClient.invalidateQueries({ queryKey: ['journal-entries'] });
+        },
+        onError: (error) => {
+            console.error('Categorize transaction failed:', error);
+            showErrorToast(
+                getErrorMessage(error, 'Failed to categorize transaction')
+            );
+        },
+    });
+};
+
+/**
+ * Hook to exclude a bank transaction
+ */
+export const useExcludeTransaction = () => {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: (id: string) => excludeTransaction(id),
+        onSuccess: (data) => {
+            showSuccessToast(
+                data?.message || 'Bank transaction excluded successfully'
+            );
+            queryClient.invalidateQueries({ queryKey: ['transactions'] });
+        },
+        onError: (error) => {
+            console.error('Exclude transaction failed:', error);
+            showErrorToast(
+                getErrorMessage(error, 'Failed to exclude transaction')
+            );
+        },
+    });
+};
+
+/**
+ * Hook to restore an excluded bank transaction
+ */
+export const useRestoreTransaction = () => {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: (id: string) => restoreTransaction(id),
+        onSuccess: (data) => {
+            showSuccessToast(
+                data?.message || 'Bank transaction restored to the inbox'
+            );
+            queryClient.invalidateQueries({ queryKey: ['transactions'] });
+        },
+        onError: (error) => {
+            console.error('Restore transaction failed:', error);
+            showErrorToast(
+                getErrorMessage(error, 'Failed to restore transaction')
+            );
+        },
     });
 };
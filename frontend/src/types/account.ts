@@ -0,0 +1,44 @@
+/**
+ * Bank Account Types
+ */
+
+export type BankAccount = {
+    id: string;
+    name: string;
+    number: string | null;
+    type: string;
+    currencyCode: string;
+    openingBalance: number;
+    bankName: string | null;
+    isActive: boolean;
+    createdAt: string;
+    updatedAt: string;
+};
+
+type Pagination = {
+    page: number;
+    limit: number;
+    offset: number;
+    total: number;
+    totalPages: number;
+    hasNextPage: boolean;
+    hasPreviousPage: boolean;
+};
+
+export type BankAccountsListResponse = {
+    success: boolean;
+    statusCode: number;
+    message: string;
+    data: {
+        items: BankAccount[];
+        pagination: Pagination;
+    };
+};
+
+export type BankAccountFilters = {
+    isActive?: boolean;
+    currencyCode?: string;
+    search?: string;
+    page?: number;
+    limit?: number;
+};
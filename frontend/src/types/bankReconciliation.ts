@@ -0,0 +1,158 @@
+/**
+ * Bank Reconciliation Types
+ */
+
+export type BankReconciliationStatus = 'in_progress' | 'completed' | 'undone';
+
+export type BankReconciliationSummary = {
+    openingBalance: number;
+    statementEndingBalance: number;
+    clearedDeposits: number;
+    clearedPayments: number;
+    clearedCount: number;
+    clearedBalance: number;
+    difference: number;
+};
+
+export type BankReconciliation = {
+    id: string;
+    accountId: string;
+    account: {
+        id: string;
+        name: string;
+        currencyCode: string;
+    } | null;
+    statementDate: string;
+    statementEndingBalance: number;
+    openingBalance: number;
+    status: BankReconciliationStatus;
+    completedAt: string | null;
+    completedBy: string | null;
+    undoneAt: string | null;
+    undoneBy: string | null;
+    createdBy: string;
+    createdAt: string;
+    updatedAt: string;
+};
+
+export type BankReconciliationDetail = BankReconciliation & {
+    summary: BankReconciliationSummary;
+};
+
+export type BankReconciliationLine = {
+    lineId: string;
+    journalEntryId: string;
+    entryNumber: string | null;
+    entryDate: string;
+    description: string | null;
+    reference: string | null;
+    deposit: number;
+    payment: number;
+    isCleared: boolean;
+};
+
+export type BankReconciliationReportLine = {
+    lineId: string;
+    journalEntryId: string;
+    entryNumber: string | null;
+    entryDate: string;
+    description: string | null;
+    amount: number;
+};
+
+export type BankReconciliationReport = {
+    accountId: string;
+    accountName: string;
+    chartOfAccountId: string;
+    currencyCode: string;
+    statementDate: string;
+    summary: BankReconciliationSummary;
+    bookBalance: number;
+    clearedDeposits: BankReconciliationReportLine[];
+    clearedPayments: BankReconciliationReportLine[];
+    outstandingDeposits: BankReconciliationReportLine[];
+    outstandingPayments: BankReconciliationReportLine[];
+    completedBy: string;
+    completedAt: string;
+};
+
+type Pagination = {
+    page: number;
+    limit: number;
+    offset: number;
+    total: number;
+    totalPages: number;
+    hasNextPage: boolean;
+    hasPreviousPage: boolean;
+};
+
+export type BankReconciliationsListResponse = {
+    success: boolean;
+    statusCode: number;
+    message: string;
+    data: {
+        items: BankReconciliation[];
+        pagination: Pagination;
+    };
+};
+
+export type BankReconciliationResponse = {
+    success: boolean;
+    statusCode: number;
+    message: string;
+    data: BankReconciliationDetail;
+};
+
+export type BankReconciliationLinesResponse = {
+    success: boolean;
+    statusCode: number;
+    message: string;
+    data: {
+        items: BankReconciliationLine[];
+        summary: BankReconciliationSummary;
+        pagination: Pagination;
+    };
+};
+
+export type BankReconciliationUndoResponse = {
+    success: boolean;
+    statusCode: number;
+    message: string;
+    data: BankReconciliation;
+};
+
+export type BankReconciliationReportResponse = {
+    success: boolean;
+    statusCode: number;
+    message: string;
+    data: BankReconciliationReport;
+};
+
+export type BankReconciliationFilters = {
+    accountId?: string;
+    status?: BankReconciliationStatus;
+    page?: number;
+    limit?: number;
+};
+
+export type BankReconciliationLineFilters = {
+    cleared?: boolean;
+    page?: number;
+    limit?: number;
+};
+
+export type StartBankReconciliationPayload = {
+    accountId: string;
+    statementDate: string;
+    statementEndingBalance: number;
+};
+
+export type UpdateBankReconciliationPayload = {
+    statementDate?: string;
+    statementEndingBalance?: number;
+};
+
+export type ClearBankReconciliationLinesPayload = {
+    lineIds: string[];
+    cleared: boolean;
+};
@@ -0,0 +1,178 @@
+/**
+ * Bank Categorization Rule Types
+ */
+
+export type BankRuleMatchType = 'all' | 'any';
+
+export type BankRuleTransactionType = 'any' | 'deposit' | 'payment';
+
+export type BankRuleTextField = 'description' | 'payee' | 'reference';
+
+export type BankRuleTextOperator =
+    | 'contains'
+    | 'not_contains'
+    | 'equals'
+    | 'starts_with'
+    | 'ends_with';
+
+export type BankRuleAmountOperator = 'equals' | 'gt' | 'gte' | 'lt' | 'lte';
+
+export type BankRuleCondition =
+    | {
+          field: BankRuleTextField;
+          operator: BankRuleTextOperator;
+          value: string;
+      }
+    | {
+          field: 'amount';
+          operator: BankRuleAmountOperator;
+          value: number;
+      };
+
+export type BankRule = {
+    id: string;
+    name: string;
+    description: string | null;
+    priority: number;
+    matchType: BankRuleMatchType;
+    conditions: BankRuleCondition[];
+    transactionType: BankRuleTransactionType;
+    accountId: string | null;
+    account: {
+        id: string;
+        name: string;
+        currencyCode: string;
+    } | null;
+    categoryAccountId: string;
+    categoryAccount: {
+        id: string;
+        accountNumber: string | null;
+        accountName: string;
+    } | null;
+    taxGroupId: string | null;
+    taxGroup: {
+        id: string;
+        name: string;
+    } | null;
+    isActive: boolean;
+    createdBy: string;
+    createdAt: string;
+    updatedAt: string;
+};
+
+export type BankRuleTestSample = {
+    id: string;
+    transactionDate: string | null;
+    amount: number;
+    description: string | null;
+    payee: string | null;
+    categoryAccountId: string | null;
+    agrees: boolean;
+};
+
+export type BankRuleTestResult = {
+    historyChecked: number;
+    historyMatched: number;
+    historyAgreed: number;
+    agreementRate: number | null;
+    uncategorizedMatched: number;
+    samples: BankRuleTestSample[];
+};
+
+export type ApplyBankRulesResult = {
+    checkedCount: number;
+    matchedCount: number;
+    categorizedCount: number;
+    categorized: {
+        transactionId: string;
+        ruleId: string;
+        journalEntryId: string | null;
+    }[];
+    failures: {
+        transactionId: string;
+        ruleId: string;
+        message: string;
+    }[];
+};
+
+type Pagination = {
+    page: number;
+    limit: number;
+    offset: number;
+    total: number;
+    totalPages: number;
+    hasNextPage: boolean;
+    hasPreviousPage: boolean;
+};
+
+export type BankRulesListResponse = {
+    success: boolean;
+    statusCode: number;
+    message: string;
+    data: {
+        items: BankRule[];
+        pagination: Pagination;
+    };
+};
+
+export type BankRuleResponse = {
+    success: boolean;
+    statusCode: number;
+    message: string;
+    data: BankRule;
+};
+
+export type BankRulesReorderResponse = {
+    success: boolean;
+    statusCode: number;
+    message: string;
+    data: BankRule[];
+};
+
+export type BankRuleTestResponse = {
+    success: boolean;
+    statusCode: number;
+    message: string;
+    data: BankRuleTestResult;
+};
+
+export type ApplyBankRulesResponse = {
+    success: boolean;
+    statusCode: number;
+    message: string;
+    data: ApplyBankRulesResult;
+};
+
+export type BankRuleFilters = {
+    isActive?: boolean;
+    accountId?: string;
+    page?: number;
+    limit?: number;
+};
+
+export type BankRuleDefinition = {
+    matchType?: BankRuleMatchType;
+    conditions: BankRuleCondition[];
+    transactionType?: BankRuleTransactionType;
+    accountId?: string | null;
+    categoryAccountId: string;
+};
+
+export type CreateBankRulePayload = BankRuleDefinition & {
+    name: string;
+    description?: string;
+    priority?: number;
+    taxGroupId?: string | null;
+    isActive?: boolean;
+};
+
+export type UpdateBankRulePayload = Partial<
+    Omit<CreateBankRulePayload, 'description'>
+> & {
+    description?: string | null;
+};
+
+export type ApplyBankRulesPayload = {
+    ruleIds?: string[];
+    accountId?: string;
+};
@@ -0,0 +1,194 @@
+/**
+ * Bank Transaction Types
+ */
+
+export type BankTransactionStatus =
+    | 'uncategorized'
+    | 'categorized'
+    | 'excluded';
+
+export type BankStatementFormat = 'csv' | 'ofx' | 'camt053';
+
+export type CsvDateFormat = 'YYYY-MM-DD' | 'MM/DD/YYYY' | 'DD/MM/YYYY';
+
+/**
+ * Category suggested for an uncategorized transaction, by a bank rule
+ * (confidence 100) or learned from similar categorized transactions
+ */
+export type BankTransactionSuggestion = {
+    categoryAccountId: string;
+    taxGroupId: string | null;
+    source: 'rule' | 'history';
+    ruleId: string | null;
+    confidence: number;
+    matchCount: number;
+};
+
+export type BankTransaction = {
+    id: string;
+    accountId: string;
+    account: {
+        id: string;
+        name: string;
+        currencyCode: string;
+    } | null;
+    importId: string | null;
+    transactionDate: string;
+    amount: number;
+    currencyCode: string;
+    description: string | null;
+    payee: string | null;
+    reference: string | null;
+    fitid: string | null;
+    status: BankTransactionStatus;
+    journalEntryId: string | null;
+    journalEntry: {
+        id: string;
+        entryNumber: string | null;
+        status: string;
+    } | null;
+    categoryAccountId: string | null;
+    categoryAccount: {
+        id: string;
+        accountNumber: string | null;
+        accountName: string;
+    } | null;
+    taxGroupId: string | null;
+    taxGroup: {
+        id: string;
+        name: string;
+    } | null;
+    ruleId: string | null;
+    suggestion: BankTransactionSuggestion | null;
+    categorizedAt: string | null;
+    categorizedBy: string | null;
+    createdBy: string;
+    createdAt: string;
+    updatedAt: string;
+};
+
+export type BankStatementImportError = {
+    row: number;
+    message: string;
+};
+
+export type BankStatementImport = {
+    id: string;
+    accountId: string;
+    account: {
+        id: string;
+        name: string;
+        currencyCode: string;
+    } | null;
+    fileName: string | null;
+    format: BankStatementFormat;
+    totalCount: number;
+    importedCount: number;
+    duplicateCount: number;
+    errors: BankStatementImportError[];
+    createdBy: string;
+    createdAt: string;
+};
+
+export type CsvStatementPreview = {
+    headers: string[];
+    rows: string[][];
+};
+
+type Pagination = {
+    page: number;
+    limit: number;
+    offset: number;
+    total: number;
+    totalPages: number;
+    hasNextPage: boolean;
+    hasPreviousPage: boolean;
+};
+
+export type BankTransactionsListResponse = {
+    success: boolean;
+    statusCode: number;
+    message: string;
+    data: {
+        items: BankTransaction[];
+        pagination: Pagination;
+    };
+};
+
+export type BankTransactionResponse = {
+    success: boolean;
+    statusCode: number;
+    message: string;
+    data: BankTransaction;
+};
+
+export type BankStatementImportsListResponse = {
+    success: boolean;
+    statusCode: number;
+    message: string;
+    data: {
+        items: BankStatementImport[];
+        pagination: Pagination;
+    };
+};
+
+export type BankStatementImportResponse = {
+    success: boolean;
+    statusCode: number;
+    message: string;
+    data: BankStatementImport;
+};
+
+export type CsvStatementPreviewResponse = {
+    success: boolean;
+    statusCode: number;
+    message: string;
+    data: CsvStatementPreview;
+};
+
+export type BankTransactionFilters = {
+    accountId?: string;
+    status?: BankTransactionStatus;
+    importId?: string;
+    startDate?: string;
+    endDate?: string;
+    search?: string;
+    page?: number;
+    limit?: number;
+};
+
+export type BankStatementImportFilters = {
+    accountId?: string;
+    page?: number;
+    limit?: number;
+};
+
+export type CsvColumnMapping = {
+    date: string;
+    amount?: string;
+    debit?: string;
+    credit?: string;
+    description?: string;
+    payee?: string;
+    reference?: string;
+    fitid?: string;
+};
+
+export type ImportBankStatementPayload = {
+    accountId: string;
+    format: BankStatementFormat;
+    fileName?: string;
+    content: string;
+    csv?: {
+        mapping: CsvColumnMapping;
+        dateFormat: CsvDateFormat;
+        invertAmounts?: boolean;
+    };
+};
+
+export type CategorizeBankTransactionPayload = {
+    categoryAccountId: string;
+    taxGroupId?: string | null;
+    description?: string;
+    memo?: string;
+};
@@ -0,0 +1,182 @@
+/**
+ * Bill Types
+ */
+
+export type BillType = 'bill' | 'expense';
+
+export type BillStatus =
+    | 'draft'
+    | 'open'
+    | 'partially_paid'
+    | 'paid'
+    | 'overdue'
+    | 'void';
+
+type BillAccount = {
+    id: string;
+    accountNumber: string | null;
+    accountName: string;
+};
+
+export type BillTaxBreakdown = {
+    taxId: string;
+    taxName: string;
+    taxType: string;
+    taxRate: number;
+    taxAmount: number;
+    isExempt: boolean;
+};
+
+export type BillLine = {
+    id: string;
+    lineNumber: number;
+    description: string;
+    quantity: number;
+    unitPrice: number;
+    amount: number;
+    accountId: string;
+    account: BillAccount | null;
+    taxGroupId: string | null;
+    taxGroup: {
+        id: string;
+        name: string;
+    } | null;
+    taxAmount: number;
+    isTaxRecoverable: boolean;
+    taxBreakdown: BillTaxBreakdown[];
+};
+
+export type Bill = {
+    id: string;
+    billType: BillType;
+    billNumber: string | null;
+    contactId: string | null;
+    contact: {
+        id: string;
+        displayName: string;
+        email: string | null;
+    } | null;
+    status: BillStatus;
+    billDate: string;
+    dueDate: string;
+    reference: string | null;
+    memo: string | null;
+    subtotal: number;
+    taxAmount: number;
+    recoverableTaxAmount: number;
+    total: number;
+    amountPaid: number;
+    balanceDue: number;
+    paymentAccountId: string | null;
+    paymentAccount: BillAccount | null;
+    payableAccountId: string | null;
+    journalEntryId: string | null;
+    voidJournalEntryId: string | null;
+    postedAt: string | null;
+    postedBy: string | null;
+    voidedAt: string | null;
+    voidedBy: string | null;
+    voidReason: string | null;
+    lines?: BillLine[];
+    createdBy: string;
+    createdAt: string;
+    updatedAt: string;
+};
+
+export type BillSettings = {
+    payableAccountId: string | null;
+    payableAccount: BillAccount | null;
+    taxAccountId: string | null;
+    taxAccount: BillAccount | null;
+    updatedAt: string;
+};
+
+type Pagination = {
+    page: number;
+    limit: number;
+    offset: number;
+    total: number;
+    totalPages: number;
+    hasNextPage: boolean;
+    hasPreviousPage: boolean;
+};
+
+export type BillsListResponse = {
+    success: boolean;
+    statusCode: number;
+    message: string;
+    data: {
+        items: Bill[];
+        pagination: Pagination;
+    };
+};
+
+export type BillResponse = {
+    success: boolean;
+    statusCode: number;
+    message: string;
+    data: Bill;
+};
+
+export type BillSettingsResponse = {
+    success: boolean;
+    statusCode: number;
+    message: string;
+    data: BillSettings;
+};
+
+/**
+ * Bill list filters
+ * accountId matches bills with at least one line on that expense account
+ */
+export type BillFilters = {
+    status?: BillStatus;
+    billType?: BillType;
+    contactId?: string;
+    accountId?: string;
+    startDate?: string;
+    endDate?: string;
+    search?: string;
+    sort?: 'billNumber' | 'billDate' | 'dueDate' | 'total' | 'status';
+    order?: 'asc' | 'desc';
+    page?: number;
+    limit?: number;
+};
+
+/**
+ * Line of a bill payload
+ * Omitting accountId or taxGroupId uses the vendor's defaults; a null
+ * taxGroupId means the line is not taxed
+ */
+export type BillLinePayload = {
+    description: string;
+    quantity: number;
+    unitPrice: number;
+    accountId?: string;
+    taxGroupId?: string | null;
+    isTaxRecoverable?: boolean;
+};
+
+export type CreateBillPayload = {
+    billType?: BillType;
+    contactId?: string | null;
+    billNumber?: string | null;
+    billDate: string;
+    dueDate?: string;
+    paymentAccountId?: string | null;
+    reference?: string | null;
+    memo?: string | null;
+    lines: BillLinePayload[];
+};
+
+export type UpdateBillPayload = Partial<CreateBillPayload>;
+
+export type VoidBillPayload = {
+    reason?: string;
+    voidDate?: string;
+};
+
+export type UpdateBillSettingsPayload = {
+    payableAccountId?: string | null;
+    taxAccountId?: string | null;
+};
@@ -0,0 +1,133 @@
+/**
+ * Budget Types
+ */
+
+export type BudgetMonth = {
+    month: number;
+    label: string;
+    startDate: string;
+    endDate: string;
+};
+
+export type BudgetLine = {
+    accountId: string;
+    accountNumber: string | null;
+    accountName: string | null;
+    accountType: string | null;
+    amounts: number[];
+    total: number;
+};
+
+export type Budget = {
+    id: string;
+    fiscalYearId: string;
+    fiscalYear: {
+        id: string;
+        name: string;
+        startDate: string;
+        endDate: string;
+    } | null;
+    name: string;
+    description: string | null;
+    // Only returned when a single budget is fetched
+    months?: BudgetMonth[];
+    lines?: BudgetLine[];
+    createdBy: string;
+    createdAt: string;
+    updatedAt: string;
+};
+
+export type BudgetFilters = {
+    page?: number;
+    limit?: number;
+    fiscalYearId?: string;
+    search?: string;
+    sort?: 'name' | 'createdAt' | 'updatedAt';
+    order?: 'asc' | 'desc';
+};
+
+export type BudgetsListResponse = {
+    success: boolean;
+    statusCode: number;
+    message: string;
+    data: {
+        items: Budget[];
+        pagination: {
+            page: number;
+            limit: number;
+            offset: number;
+            total: number;
+            totalPages: number;
+            hasNextPage: boolean;
+            hasPreviousPage: boolean;
+        };
+    };
+};
+
+export type BudgetResponse = {
+    success: boolean;
+    statusCode: number;
+    message: string;
+    data: Budget;
+};
+
+export type BudgetLinePayload = {
+    accountId: string;
+    amounts: number[];
+};
+
+export type CreateBudgetPayload = {
+    fiscalYearId: string;
+    name: string;
+    description?: string;
+    lines?: BudgetLinePayload[];
+};
+
+export type UpdateBudgetPayload = {
+    name?: string;
+    description?: string | null;
+    lines?: BudgetLinePayload[];
+};
+
+export type CopyBudgetActualsPayload = {
+    growthPercent: number;
+};
+
+export type ApplyBudgetGrowthPayload = {
+    growthPercent: number;
+    accountIds?: string[];
+};
+
+export type ImportBudgetPayload = {
+    file: File;
+    dryRun: boolean;
+};
+
+export type BudgetImportError = {
+    row: number;
+    message: string;
+};
+
+export type BudgetImportLine = {
+    row: number;
+    accountId: string;
+    accountNumber: string;
+    accountName: string;
+    amounts: number[];
+    total: number;
+};
+
+export type BudgetImportResult = {
+    dryRun: boolean;
+    imported: boolean;
+    totalRows: number;
+    errors: BudgetImportError[];
+    lines: BudgetImportLine[];
+};
+
+export type BudgetImportResponse = {
+    success: boolean;
+    statusCode: number;
+    message: string;
+    data: BudgetImportResult;
+};
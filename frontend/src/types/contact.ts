@@ -0,0 +1,171 @@
+/**
+ * Contact Types
+ */
+
+import type { ReportPeriod } from './reports';
+
+export type ContactType = 'customer' | 'vendor' | 'both';
+
+export type ContactAddress = {
+    line1?: string;
+    line2?: string;
+    city?: string;
+    state?: string;
+    postalCode?: string;
+    country?: string;
+};
+
+export type Contact = {
+    id: string;
+    contactType: ContactType;
+    displayName: string;
+    companyName: string | null;
+    firstName: string | null;
+    lastName: string | null;
+    email: string | null;
+    phone: string | null;
+    website: string | null;
+    taxNumber: string | null;
+    currencyCode: string | null;
+    billingAddress: ContactAddress | null;
+    shippingAddress: ContactAddress | null;
+    defaultIncomeAccountId: string | null;
+    defaultIncomeAccount: {
+        id: string;
+        accountNumber: string | null;
+        accountName: string;
+    } | null;
+    defaultExpenseAccountId: string | null;
+    defaultExpenseAccount: {
+        id: string;
+        accountNumber: string | null;
+        accountName: string;
+    } | null;
+    defaultTaxGroupId: string | null;
+    defaultTaxGroup: {
+        id: string;
+        name: string;
+    } | null;
+    paymentTermsDays: number;
+    notes: string | null;
+    isActive: boolean;
+    createdBy: string;
+    createdAt: string;
+    updatedAt: string;
+};
+
+export type ContactLedgerMovement = {
+    journalEntryId: string;
+    journalEntryLineId: string;
+    entryNumber: string | null;
+    entryDate: string;
+    reference: string | null;
+    description: string | null;
+    accountId: string;
+    accountNumber: string | null;
+    accountName: string;
+    debit: number;
+    credit: number;
+    runningBalance: number;
+};
+
+export type ContactBalanceAccount = {
+    accountId: string;
+    accountNumber: string | null;
+    accountName: string;
+    accountType: string;
+    debit: number;
+    credit: number;
+    balance: number;
+};
+
+type Pagination = {
+    page: number;
+    limit: number;
+    offset: number;
+    total: number;
+    totalPages: number;
+    hasNextPage: boolean;
+    hasPreviousPage: boolean;
+};
+
+export type ContactsListResponse = {
+    success: boolean;
+    statusCode: number;
+    message: string;
+    data: {
+        items: Contact[];
+        pagination: Pagination;
+    };
+};
+
+export type ContactResponse = {
+    success: boolean;
+    statusCode: number;
+    message: string;
+    data: Contact;
+};
+
+export type ContactLedgerResponse = {
+    success: boolean;
+    statusCode: number;
+    message: string;
+    data: {
+        period: ReportPeriod;
+        openingBalance: number;
+        closingBalance: number;
+        movements: ContactLedgerMovement[];
+        pagination: Pagination;
+    };
+};
+
+export type ContactBalanceResponse = {
+    success: boolean;
+    statusCode: number;
+    message: string;
+    data: {
+        asOf: string;
+        accounts: ContactBalanceAccount[];
+        totalDebit: number;
+        totalCredit: number;
+        balance: number;
+    };
+};
+
+export type ContactFilters = {
+    contactType?: ContactType;
+    isActive?: boolean;
+    search?: string;
+    page?: number;
+    limit?: number;
+};
+
+export type ContactLedgerFilters = {
+    startDate?: string;
+    endDate?: string;
+    page?: number;
+    limit?: number;
+};
+
+export type CreateContactPayload = {
+    contactType: ContactType;
+    displayName: string;
+    companyName?: string | null;
+    firstName?: string | null;
+    lastName?: string | null;
+    email?: string | null;
+    phone?: string | null;
+    website?: string | null;
+    taxNumber?: string | null;
+    currencyCode?: string | null;
+    billingAddress?: ContactAddress | null;
+    shippingAddress?: ContactAddress | null;
+    defaultIncomeAccountId?: string | null;
+    defaultExpenseAccountId?: string | null;
+    defaultTaxGroupId?: string | null;
+    paymentTermsDays?: number;
+    notes?: string | null;
+    isActive?: boolean;
+};
+
+export type UpdateContactPayload = Partial<CreateContactPayload>;
@@ -0,0 +1,149 @@
+/**
+ * Currency Types
+ */
+
+export type AccountReference = {
+    id: string;
+    accountNumber: string | null;
+    accountName: string;
+};
+
+export type CurrencySettings = {
+    baseCurrency: string;
+    fxGainLossAccount: AccountReference | null;
+};
+
+export type ExchangeRateSource = 'manual' | 'import';
+
+export type ExchangeRate = {
+    id: string;
+    currencyCode: string;
+    rateDate: string;
+    rate: number;
+    source: ExchangeRateSource;
+    createdBy: string;
+    createdAt: string;
+    updatedAt: string;
+};
+
+export type ExchangeRateImportResult = {
+    created: number;
+    updated: number;
+    errors: { row: number; message: string }[];
+};
+
+export type FxRevaluationLine = {
+    accountId: string;
+    accountNumber: string | null;
+    accountName: string;
+    accountType: 'asset' | 'liability';
+    currencyCode: string;
+    foreignBalance: number;
+    exchangeRate: number;
+    bookBalance: number;
+    revaluedBalance: number;
+    adjustment: number;
+};
+
+export type FxRevaluationPreview = {
+    revaluationDate: string;
+    baseCurrency: string;
+    gainLossAccount: AccountReference;
+    lines: FxRevaluationLine[];
+    totalGainLoss: number;
+};
+
+export type FxRevaluation = FxRevaluationPreview & {
+    entry: {
+        id: string;
+        entryNumber: string | null;
+        entryDate: string;
+        reversalDate: string | null;
+        description: string | null;
+        status: string;
+        totalDebit: number;
+        totalCredit: number;
+    };
+};
+
+export type CurrencySettingsResponse = {
+    success: boolean;
+    statusCode: number;
+    message: string;
+    data: CurrencySettings;
+};
+
+export type ExchangeRatesListResponse = {
+    success: boolean;
+    statusCode: number;
+    message: string;
+    data: {
+        items: ExchangeRate[];
+        pagination: {
+            page: number;
+            limit: number;
+            offset: number;
+            total: number;
+            totalPages: number;
+            hasNextPage: boolean;
+            hasPreviousPage: boolean;
+        };
+    };
+};
+
+export type ExchangeRateResponse = {
+    success: boolean;
+    statusCode: number;
+    message: string;
+    data: ExchangeRate;
+};
+
+export type ExchangeRateImportResponse = {
+    success: boolean;
+    statusCode: number;
+    message: string;
+    data: ExchangeRateImportResult;
+};
+
+export type FxRevaluationPreviewResponse = {
+    success: boolean;
+    statusCode: number;
+    message: string;
+    data: FxRevaluationPreview;
+};
+
+export type FxRevaluationResponse = {
+    success: boolean;
+    statusCode: number;
+    message: string;
+    data: FxRevaluation;
+};
+
+export type ExchangeRateFilters = {
+    currencyCode?: string;
+    startDate?: string;
+    endDate?: string;
+    page?: number;
+    limit?: number;
+};
+
+export type UpdateCurrencySettingsPayload = {
+    baseCurrency?: string;
+    fxGainLossAccountId?: string | null;
+};
+
+export type CreateExchangeRatePayload = {
+    currencyCode: string;
+    rateDate: string;
+    rate: number;
+};
+
+export type UpdateExchangeRatePayload = {
+    rateDate?: string;
+    rate?: number;
+};
+
+export type FxRevaluationPayload = {
+    revaluationDate: string;
+    gainLossAccountId?: string;
+};
@@ -0,0 +1,172 @@
+/**
+ * Customer Payment Types
+ */
+
+export type CustomerPaymentStatus =
+    | 'applied'
+    | 'partially_applied'
+    | 'unapplied'
+    | 'unmatched';
+
+type CustomerPaymentAccount = {
+    id: string;
+    accountNumber: string | null;
+    accountName: string;
+};
+
+export type CustomerPaymentAllocation = {
+    id: string;
+    journalEntryLineId: string;
+    journalEntryId: string | null;
+    description: string | null;
+    invoiceId: string | null;
+    invoice: {
+        id: string;
+        invoiceNumber: string;
+    } | null;
+    amount: number;
+};
+
+export type CustomerPayment = {
+    id: string;
+    contactId: string | null;
+    contact: {
+        id: string;
+        displayName: string;
+        email: string | null;
+    } | null;
+    bankAccountId: string;
+    bankAccount: {
+        id: string;
+        name: string;
+        currencyCode: string;
+    } | null;
+    status: CustomerPaymentStatus;
+    paymentDate: string;
+    paymentMethod: string | null;
+    reference: string | null;
+    memo: string | null;
+    amount: number;
+    appliedAmount: number;
+    creditAmount: number;
+    unappliedAmount: number;
+    depositAccountId: string;
+    receivableAccountId: string | null;
+    unappliedAccountId: string | null;
+    journalEntryId: string | null;
+    reversalJournalEntryId: string | null;
+    unmatchedAt: string | null;
+    unmatchedBy: string | null;
+    unmatchReason: string | null;
+    allocations?: CustomerPaymentAllocation[];
+    createdBy: string;
+    createdAt: string;
+    updatedAt: string;
+};
+
+/**
+ * Open accounts receivable line of a customer
+ * openAmount is what is left after the payments already matched to it
+ */
+export type OpenReceivableItem = {
+    journalEntryLineId: string;
+    journalEntryId: string;
+    entryNumber: string | null;
+    entryDate: string;
+    reference: string | null;
+    description: string | null;
+    invoiceId: string | null;
+    invoiceNumber: string | null;
+    dueDate: string | null;
+    amount: number;
+    allocatedAmount: number;
+    openAmount: number;
+};
+
+export type CustomerPaymentSettings = {
+    unappliedAccountId: string | null;
+    unappliedAccount: CustomerPaymentAccount | null;
+    updatedAt: string;
+};
+
+type Pagination = {
+    page: number;
+    limit: number;
+    offset: number;
+    total: number;
+    totalPages: number;
+    hasNextPage: boolean;
+    hasPreviousPage: boolean;
+};
+
+export type CustomerPaymentsListResponse = {
+    success: boolean;
+    statusCode: number;
+    message: string;
+    data: {
+        items: CustomerPayment[];
+        pagination: Pagination;
+    };
+};
+
+export type CustomerPaymentResponse = {
+    success: boolean;
+    statusCode: number;
+    message: string;
+    data: CustomerPayment;
+};
+
+export type OpenReceivableItemsResponse = {
+    success: boolean;
+    statusCode: number;
+    message: string;
+    data: OpenReceivableItem[];
+};
+
+export type CustomerPaymentSettingsResponse = {
+    success: boolean;
+    statusCode: number;
+    message: string;
+    data: CustomerPaymentSettings;
+};
+
+export type CustomerPaymentFilters = {
+    status?: CustomerPaymentStatus;
+    contactId?: string;
+    bankAccountId?: string;
+    startDate?: string;
+    endDate?: string;
+    search?: string;
+    sort?: 'paymentDate' | 'amount' | 'status' | 'createdAt';
+    order?: 'asc' | 'desc';
+    page?: number;
+    limit?: number;
+};
+
+/**
+ * Customer payment payload
+ * Without a contactId the amount is held as unapplied cash; the part of the
+ * amount not matched by allocations is held as customer credit
+ */
+export type CreateCustomerPaymentPayload = {
+    contactId?: string | null;
+    bankAccountId: string;
+    paymentDate: string;
+    amount: number;
+    paymentMethod?: string | null;
+    reference?: string | null;
+    memo?: string | null;
+    allocations?: {
+        journalEntryLineId: string;
+        amount: number;
+    }[];
+};
+
+export type UnmatchCustomerPaymentPayload = {
+    reason?: string;
+    unmatchDate?: string;
+};
+
+export type UpdateCustomerPaymentSettingsPayload = {
+    unappliedAccountId?: string | null;
+};
@@ -0,0 +1,151 @@
+/**
+ * Document Types
+ */
+
+export type DocumentCategory =
+    | 'invoice'
+    | 'receipt'
+    | 'report'
+    | 'contract'
+    | 'tax_document'
+    | 'other';
+
+export type DocumentScanStatus = 'not_scanned' | 'clean';
+
+export type DocumentEntityType =
+    | 'journal_entry'
+    | 'invoice'
+    | 'bill'
+    | 'tax_exemption';
+
+export type DocumentAttachment = {
+    id: string;
+    entityType: DocumentEntityType;
+    entityId: string;
+    createdBy: string;
+    createdAt: string;
+};
+
+export type DocumentItem = {
+    id: string;
+    name: string;
+    mimeType: string;
+    sizeBytes: number;
+    checksum: string;
+    category: DocumentCategory;
+    tags: string[];
+    description: string | null;
+    scanStatus: DocumentScanStatus;
+    scannedAt: string | null;
+    attachments?: DocumentAttachment[];
+    uploadedBy: string;
+    createdAt: string;
+    updatedAt: string;
+};
+
+export type DocumentStorageUsage = {
+    usedBytes: number;
+    quotaBytes: number;
+    availableBytes: number;
+    documentCount: number;
+    maxFileSizeBytes: number;
+};
+
+export type DocumentSettings = {
+    quotaMb: number | null;
+    defaultQuotaMb: number;
+    maxFileSizeMb: number;
+    updatedAt: string;
+};
+
+type Pagination = {
+    page: number;
+    limit: number;
+    offset: number;
+    total: number;
+    totalPages: number;
+    hasNextPage: boolean;
+    hasPreviousPage: boolean;
+};
+
+export type DocumentsListResponse = {
+    success: boolean;
+    statusCode: number;
+    message: string;
+    data: {
+        items: DocumentItem[];
+        pagination: Pagination;
+    };
+};
+
+export type DocumentResponse = {
+    success: boolean;
+    statusCode: number;
+    message: string;
+    data: DocumentItem;
+};
+
+export type DocumentDownloadUrlResponse = {
+    success: boolean;
+    statusCode: number;
+    message: string;
+    data: {
+        url: string;
+        expiresAt: string;
+    };
+};
+
+export type DocumentStorageUsageResponse = {
+    success: boolean;
+    statusCode: number;
+    message: string;
+    data: DocumentStorageUsage;
+};
+
+export type DocumentSettingsResponse = {
+    success: boolean;
+    statusCode: number;
+    message: string;
+    data: DocumentSettings;
+};
+
+/**
+ * Document list filters
+ * entityType and entityId are given together to list the documents of a record
+ */
+export type DocumentFilters = {
+    category?: DocumentCategory;
+    tag?: string;
+    entityType?: DocumentEntityType;
+    entityId?: string;
+    search?: string;
+    sort?: 'name' | 'sizeBytes' | 'category' | 'createdAt';
+    order?: 'asc' | 'desc';
+    page?: number;
+    limit?: number;
+};
+
+export type UploadDocumentPayload = {
+    file: File;
+    category?: DocumentCategory;
+    tags?: string[];
+    description?: string;
+    entityType?: DocumentEntityType;
+    entityId?: string;
+};
+
+export type UpdateDocumentPayload = {
+    name?: string;
+    category?: DocumentCategory;
+    tags?: string[];
+    description?: string | null;
+};
+
+export type AttachDocumentPayload = {
+    entityType: DocumentEntityType;
+    entityId: string;
+};
+
+export type UpdateDocumentSettingsPayload = {
+    quotaMb?: number | null;
+};
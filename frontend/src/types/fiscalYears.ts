@@ -0,0 +1,137 @@
+/**
+ * Fiscal Year Types
+ */
+
+export type FiscalPeriodType = 'monthly' | 'quarterly';
+
+export type FiscalPeriodStatus = 'open' | 'soft_closed' | 'hard_closed';
+
+export type FiscalPeriod = {
+    id: string;
+    fiscalYearId: string;
+    periodNumber: number;
+    name: string;
+    startDate: string;
+    endDate: string;
+    status: FiscalPeriodStatus;
+    closedBy: string | null;
+    closedAt: string | null;
+};
+
+export type FiscalYear = {
+    id: string;
+    name: string;
+    startDate: string;
+    endDate: string;
+    periodType: FiscalPeriodType;
+    periods: FiscalPeriod[];
+    isClosed: boolean;
+    closingEntryId: string | null;
+    closingEntryNumber: string | null;
+    createdAt: string;
+    updatedAt: string;
+};
+
+export type FiscalYearsListResponse = {
+    success: boolean;
+    statusCode: number;
+    message: string;
+    data: {
+        items: FiscalYear[];
+        pagination: {
+            page: number;
+            limit: number;
+            offset: number;
+            total: number;
+            totalPages: number;
+            hasNextPage: boolean;
+            hasPreviousPage: boolean;
+        };
+    };
+};
+
+export type FiscalYearResponse = {
+    success: boolean;
+    statusCode: number;
+    message: string;
+    data: FiscalYear;
+};
+
+export type FiscalPeriodResponse = {
+    success: boolean;
+    statusCode: number;
+    message: string;
+    data: FiscalPeriod;
+};
+
+export type CreateFiscalYearPayload = {
+    name?: string;
+    startDate: string;
+    endDate?: string;
+    periodType: FiscalPeriodType;
+};
+
+export type CloseFiscalPeriodPayload = {
+    status: Exclude<FiscalPeriodStatus, 'open'>;
+    reason?: string;
+};
+
+export type ReopenFiscalPeriodPayload = {
+    reason?: string;
+};
+
+export type YearEndClosingLine = {
+    accountId: string;
+    accountNumber: string | null;
+    accountName: string;
+    accountType: 'revenue' | 'expense';
+    balance: number;
+    debit: number;
+    credit: number;
+};
+
+export type YearEndClosingPreview = {
+    fiscalYearId: string;
+    fiscalYearName: string;
+    closingDate: string;
+    retainedEarningsAccount: {
+        id: string;
+        accountNumber: string | null;
+        accountName: string;
+    };
+    lines: YearEndClosingLine[];
+    totalRevenue: number;
+    totalExpenses: number;
+    netIncome: number;
+};
+
+export type YearEndClosingPreviewResponse = {
+    success: boolean;
+    statusCode: number;
+    message: string;
+    data: YearEndClosingPreview;
+};
+
+export type YearEndCloseResponse = {
+    success: boolean;
+    statusCode: number;
+    message: string;
+    data: {
+        fiscalYear: FiscalYear;
+        entry: {
+            id: string;
+            entryNumber: string | null;
+            entryDate: string;
+            entryType: string;
+            isClosing: boolean;
+            isReversing: boolean;
+            status: string;
+            totalDebit: number;
+            totalCredit: number;
+        };
+    };
+};
+
+export type YearEndClosePayload = {
+    reason?: string;
+};
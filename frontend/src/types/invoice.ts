@@ -0,0 +1,175 @@
+/**
+ * Invoice Types
+ */
+
+export type InvoiceStatus =
+    | 'draft'
+    | 'sent'
+    | 'partially_paid'
+    | 'paid'
+    | 'overdue'
+    | 'void';
+
+type InvoiceAccount = {
+    id: string;
+    accountNumber: string | null;
+    accountName: string;
+};
+
+export type InvoiceTaxBreakdown = {
+    taxId: string;
+    taxName: string;
+    taxType: string;
+    taxRate: number;
+    taxAmount: number;
+    isExempt: boolean;
+};
+
+export type InvoiceLine = {
+    id: string;
+    lineNumber: number;
+    description: string;
+    quantity: number;
+    unitPrice: number;
+    amount: number;
+    accountId: string;
+    account: InvoiceAccount | null;
+    taxGroupId: string | null;
+    taxGroup: {
+        id: string;
+        name: string;
+    } | null;
+    taxAmount: number;
+    taxBreakdown: InvoiceTaxBreakdown[];
+};
+
+export type Invoice = {
+    id: string;
+    invoiceNumber: string;
+    contactId: string;
+    contact: {
+        id: string;
+        displayName: string;
+        email: string | null;
+    } | null;
+    status: InvoiceStatus;
+    issueDate: string;
+    dueDate: string;
+    reference: string | null;
+    memo: string | null;
+    notes: string | null;
+    subtotal: number;
+    taxAmount: number;
+    total: number;
+    amountPaid: number;
+    balanceDue: number;
+    receivableAccountId: string | null;
+    journalEntryId: string | null;
+    voidJournalEntryId: string | null;
+    sentAt: string | null;
+    sentBy: string | null;
+    voidedAt: string | null;
+    voidedBy: string | null;
+    voidReason: string | null;
+    lines?: InvoiceLine[];
+    createdBy: string;
+    createdAt: string;
+    updatedAt: string;
+};
+
+export type InvoiceSettings = {
+    numberPrefix: string;
+    nextNumber: number;
+    numberPadding: number;
+    nextInvoiceNumber: string;
+    receivableAccountId: string | null;
+    receivableAccount: InvoiceAccount | null;
+    taxAccountId: string | null;
+    taxAccount: InvoiceAccount | null;
+    updatedAt: string;
+};
+
+type Pagination = {
+    page: number;
+    limit: number;
+    offset: number;
+    total: number;
+    totalPages: number;
+    hasNextPage: boolean;
+    hasPreviousPage: boolean;
+};
+
+export type InvoicesListResponse = {
+    success: boolean;
+    statusCode: number;
+    message: string;
+    data: {
+        items: Invoice[];
+        pagination: Pagination;
+    };
+};
+
+export type InvoiceResponse = {
+    success: boolean;
+    statusCode: number;
+    message: string;
+    data: Invoice;
+};
+
+export type InvoiceSettingsResponse = {
+    success: boolean;
+    statusCode: number;
+    message: string;
+    data: InvoiceSettings;
+};
+
+export type InvoiceFilters = {
+    status?: InvoiceStatus;
+    contactId?: string;
+    startDate?: string;
+    endDate?: string;
+    search?: string;
+    sort?: 'invoiceNumber' | 'issueDate' | 'dueDate' | 'total' | 'status';
+    order?: 'asc' | 'desc';
+    page?: number;
+    limit?: number;
+};
+
+/**
+ * Line of an invoice payload
+ * Omitting taxGroupId uses the customer's default tax group; null means the
+ * line is not taxed
+ */
+export type InvoiceLinePayload = {
+    description: string;
+    quantity: number;
+    unitPrice: number;
+    accountId?: string;
+    taxGroupId?: string | null;
+};
+
+export type CreateInvoicePayload = {
+    contactId: string;
+    invoiceNumber?: string;
+    issueDate: string;
+    dueDate?: string;
+    reference?: string | null;
+    memo?: string | null;
+    notes?: string | null;
+    lines: InvoiceLinePayload[];
+};
+
+export type UpdateInvoicePayload = Partial<CreateInvoicePayload>;
+
+export type VoidInvoicePayload = {
+    reason?: string;
+    voidDate?: string;
+};
+
+export type UpdateInvoiceSettingsPayload = {
+    numberPrefix?: string;
+    nextNumber?: number;
+    numberPadding?: number;
+    receivableAccountId?: string | null;
+    taxAccountId?: string | null;
+};
@@ -7,6 +7,11 @@ export type JournalEntryLine = {
     lineNumber: number;
     debit: number;
     credit: number;
+    // Amounts are in the account currency; converted to the base currency
+    currencyCode?: string;
+    exchangeRate?: number;
+    foreignDebit?: number | null;
+    foreignCredit?: number | null;
     description: string;
     memo?: string;
 };
@@ -20,6 +25,7 @@ export type JournalEntry = {
     memo?: string;
     attachments?: string[];
     status: 'draft' | 'posted' | 'voided';
+    approvalStatus?: JournalApprovalStatus | null;
     isRecurring?: boolean;
     recurringFrequency?: 'daily' | 'weekly' | 'monthly' | 'yearly';
     totalDebit: number;
@@ -78,3 +84,251 @@ export type JournalEntryFilters = {
     endDate?: string;
     isAdjusting?: boolean;
 };
+
+export type ScheduledReversalStatus = 'upcoming' | 'failed';
+
+export type ScheduledReversal = {
+    id: string;
+    entryNumber: string | null;
+    entryDate: string;
+    entryType: 'standard' | 'adjusting' | 'closing' | 'reversing';
+    reversalDate: string;
+    description: string | null;
+    reference: string | null;
+    totalDebit: number;
+    totalCredit: number;
+    postedBy: string | null;
+    reversalAttempts: number;
+    reversalFailedAt: string | null;
+    reversalError: string | null;
+};
+
+export type ScheduledReversalFilters = {
+    status?: ScheduledReversalStatus;
+    page?: number;
+    limit?: number;
+};
+
+export type ScheduledReversalsListResponse = {
+    success: boolean;
+    statusCode: number;
+    message: string;
+    data: {
+        items: ScheduledReversal[];
+        pagination: {
+            page: number;
+            limit: number;
+            offset: number;
+            total: number;
+            totalPages: number;
+            hasNextPage: boolean;
+            hasPreviousPage: boolean;
+        };
+    };
+};
+
+export type RecurringFrequency = 'daily' | 'weekly' | 'monthly' | 'yearly';
+
+export type RecurringTemplateStatus = 'active' | 'paused' | 'completed';
+
+export type RecurringTemplate = {
+    id: string;
+    name: string;
+    entryType: 'standard' | 'adjusting';
+    isAdjusting: boolean;
+    description: string | null;
+    reference: string | null;
+    memo: string | null;
+    totalDebit: number;
+    totalCredit: number;
+    frequency: RecurringFrequency;
+    interval: number;
+    startDate: string;
+    endDate: string | null;
+    maxOccurrences: number | null;
+    occurrencesCount: number;
+    nextRunDate: string | null;
+    lastRunDate: string | null;
+    autoPost: boolean;
+    status: RecurringTemplateStatus;
+    lastError: string | null;
+    createdAt: string;
+    updatedAt: string;
+};
+
+export type RecurringTemplateFilters = {
+    status?: RecurringTemplateStatus;
+    search?: string;
+    page?: number;
+    limit?: number;
+};
+
+export type UpdateRecurringTemplatePayload = {
+    name?: string;
+    status?: 'active' | 'paused';
+    endDate?: string | null;
+    maxOccurrences?: number | null;
+    autoPost?: boolean;
+};
+
+export type RecurringTemplateEntry = {
+    id: string;
+    entryNumber: string | null;
+    entryDate: string;
+    description: string | null;
+    status: 'draft' | 'posted' | 'voided';
+    totalDebit: number;
+    totalCredit: number;
+    createdAt: string;
+};
+
+export type RecurringTemplatesListResponse = {
+    success: boolean;
+    statusCode: number;
+    message: string;
+    data: {
+        items: RecurringTemplate[];
+        pagination: ScheduledReversalsListResponse['data']['pagination'];
+    };
+};
+
+export type RecurringTemplateEntriesResponse = {
+    success: boolean;
+    statusCode: number;
+    message: string;
+    data: {
+        items: RecurringTemplateEntry[];
+        pagination: ScheduledReversalsListResponse['data']['pagination'];
+    };
+};
+
+export type JournalApprovalStatus =
+    | 'pending'
+    | 'approved'
+    | 'rejected'
+    | 'not_required';
+
+export type JournalApprovalStep = {
+    id: string;
+    ruleId: string | null;
+    ruleName: string;
+    stepNumber: number;
+    requiredRole: string;
+    requiredApprovals: number;
+    approvalsCount: number;
+    status: 'pending' | 'approved' | 'rejected' | 'cancelled';
+    completedAt: string | null;
+    createdAt: string;
+};
+
+export type JournalApprovalEntry = {
+    id: string;
+    entryNumber: string | null;
+    entryDate: string;
+    description: string | null;
+    status: 'draft' | 'posted' | 'voided';
+    approvalStatus: JournalApprovalStatus | null;
+    totalDebit: number;
+    totalCredit: number;
+    createdBy: string;
+    submittedBy: string | null;
+    submittedAt: string | null;
+    approvedBy: string | null;
+    approvedAt: string | null;
+};
+
+export type PendingApproval = JournalApprovalEntry & {
+    currentStep: JournalApprovalStep;
+};
+
+export type PendingApprovalsListResponse = {
+    success: boolean;
+    statusCode: number;
+    message: string;
+    data: {
+        items: PendingApproval[];
+        pagination: ScheduledReversalsListResponse['data']['pagination'];
+    };
+};
+
+export type JournalApprovalEntryResponse = {
+    success: boolean;
+    statusCode: number;
+    message: string;
+    data: JournalApprovalEntry;
+};
+
+export type JournalEntryImportField = {
+    key: keyof JournalEntryImportMapping;
+    label: string;
+    required: boolean;
+};
+
+export type JournalEntryImportFieldsResponse = {
+    success: boolean;
+    statusCode: number;
+    message: string;
+    data: JournalEntryImportField[];
+};
+
+/**
+ * File header to read for each import field
+ */
+export type JournalEntryImportMapping = {
+    entryNumber?: string;
+    entryDate: string;
+    accountNumber: string;
+    debit: string;
+    credit: string;
+    description?: string;
+    reference?: string;
+    memo?: string;
+};
+
+export type JournalEntryImportDateFormat =
+    | 'YYYY-MM-DD'
+    | 'MM/DD/YYYY'
+    | 'DD/MM/YYYY';
+
+export type JournalEntryImportPayload = {
+    file: File;
+    mapping: JournalEntryImportMapping;
+    dateFormat: JournalEntryImportDateFormat;
+    status: 'draft' | 'posted';
+    allOrNothing: boolean;
+    dryRun: boolean;
+};
+
+export type JournalEntryImportError = {
+    row: number;
+    message: string;
+};
+
+export type JournalEntryImportEntry = {
+    rows: number[];
+    id: string | null;
+    entryNumber: string | null;
+    entryDate: string;
+    status: 'draft' | 'posted';
+    totalDebit: number;
+    totalCredit: number;
+    lineCount: number;
+};
+
+export type JournalEntryImportResult = {
+    dryRun: boolean;
+    allOrNothing: boolean;
+    imported: boolean;
+    totalRows: number;
+    totalEntries: number;
+    validEntries: number;
+    errors: JournalEntryImportError[];
+    entries: JournalEntryImportEntry[];
+};
+
+export type JournalEntryImportResponse = {
+    success: boolean;
+    statusCode: number;
+    message: string;
+    data: JournalEntryImportResult;
+};
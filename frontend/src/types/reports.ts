@@ -0,0 +1,330 @@
+/**
+ * Financial Report Types
+ */
+
+import type { BudgetMonth } from './budget';
+
+export type ReportAccountType =
+    | 'asset'
+    | 'liability'
+    | 'equity'
+    | 'revenue'
+    | 'expense';
+
+export type ReportAccountNode = {
+    accountId: string;
+    accountNumber: string | null;
+    accountName: string;
+    accountType: ReportAccountType;
+    accountSubtype: string | null;
+    balance: number;
+    total: number;
+    children: ReportAccountNode[];
+};
+
+export type ReportSubtypeSection = {
+    accountSubtype: string | null;
+    accounts: ReportAccountNode[];
+    total: number;
+};
+
+export type ReportSection = {
+    accountType: ReportAccountType;
+    subtypes: ReportSubtypeSection[];
+    total: number;
+};
+
+export type BalanceSheet = {
+    asOf: string;
+    fiscalYearStart: string;
+    assets: ReportSection;
+    liabilities: ReportSection;
+    equity: ReportSection & {
+        priorYearsEarnings: number;
+        currentYearEarnings: number;
+        totalWithEarnings: number;
+    };
+    totals: {
+        totalAssets: number;
+        totalLiabilities: number;
+        totalEquity: number;
+        totalLiabilitiesAndEquity: number;
+        difference: number;
+        isBalanced: boolean;
+    };
+};
+
+export type BalanceSheetFilters = {
+    asOf?: string;
+    hideZeroBalances?: boolean;
+    includeClosingEntries?: boolean;
+};
+
+export type BalanceSheetResponse = {
+    success: boolean;
+    statusCode: number;
+    message: string;
+    data: BalanceSheet;
+};
+
+export type IncomeStatementComparison = 'previous_period' | 'previous_year';
+
+export type ReportPeriod = {
+    startDate: string;
+    endDate: string;
+};
+
+export type IncomeStatementAmount = {
+    current: number;
+    comparison: number | null;
+    change: number | null;
+    changePercent: number | null;
+};
+
+export type IncomeStatementAccountRow = {
+    accountId: string;
+    accountNumber: string | null;
+    accountName: string;
+    parentAccountId: string | null;
+    amount: IncomeStatementAmount;
+};
+
+export type IncomeStatementSectionKey =
+    | 'operatingRevenue'
+    | 'costOfGoodsSold'
+    | 'operatingExpenses'
+    | 'otherRevenue'
+    | 'otherExpenses';
+
+export type IncomeStatementSection = {
+    key: IncomeStatementSectionKey;
+    accountType: ReportAccountType;
+    accounts: IncomeStatementAccountRow[];
+    total: IncomeStatementAmount;
+};
+
+export type IncomeStatement = {
+    period: ReportPeriod;
+    comparisonPeriod: ReportPeriod | null;
+    compareTo: IncomeStatementComparison | null;
+    sections: IncomeStatementSection[];
+    totals: {
+        totalRevenue: IncomeStatementAmount;
+        totalExpenses: IncomeStatementAmount;
+        grossProfit: IncomeStatementAmount;
+        operatingIncome: IncomeStatementAmount;
+        netIncome: IncomeStatementAmount;
+    };
+};
+
+export type IncomeStatementFilters = {
+    startDate?: string;
+    endDate?: string;
+    compareTo?: IncomeStatementComparison;
+    hideZeroBalances?: boolean;
+    includeClosingEntries?: boolean;
+};
+
+export type IncomeStatementResponse = {
+    success: boolean;
+    statusCode: number;
+    message: string;
+    data: IncomeStatement;
+};
+
+export type GeneralLedgerAccountSummary = {
+    accountId: string;
+    accountNumber: string | null;
+    accountName: string;
+    accountType: ReportAccountType;
+    accountSubtype: string | null;
+    openingBalance: number;
+    totalDebit: number;
+    totalCredit: number;
+    closingBalance: number;
+    movementCount: number;
+};
+
+export type GeneralLedger = {
+    period: ReportPeriod;
+    accounts: GeneralLedgerAccountSummary[];
+    totals: {
+        totalDebit: number;
+        totalCredit: number;
+    };
+};
+
+export type GeneralLedgerFilters = {
+    startDate?: string;
+    endDate?: string;
+    accountType?: ReportAccountType;
+    hideZeroBalances?: boolean;
+    includeClosingEntries?: boolean;
+};
+
+export type GeneralLedgerResponse = {
+    success: boolean;
+    statusCode: number;
+    message: string;
+    data: GeneralLedger;
+};
+
+export type GeneralLedgerMovement = {
+    journalEntryId: string;
+    journalEntryLineId: string;
+    entryNumber: string | null;
+    entryDate: string;
+    entryType: string;
+    reference: string | null;
+    description: string | null;
+    memo: string | null;
+    contactId: string | null;
+    sourceModule: string | null;
+    debit: number;
+    credit: number;
+    runningBalance: number;
+};
+
+export type GeneralLedgerAccountFilters = {
+    startDate?: string;
+    endDate?: string;
+    page?: number;
+    limit?: number;
+    includeClosingEntries?: boolean;
+};
+
+export type GeneralLedgerAccountResponse = {
+    success: boolean;
+    statusCode: number;
+    message: string;
+    data: {
+        period: ReportPeriod;
+        account: GeneralLedgerAccountSummary;
+        items: GeneralLedgerMovement[];
+        pagination: {
+            page: number;
+            limit: number;
+            offset: number;
+            total: number;
+            totalPages: number;
+            hasNextPage: boolean;
+            hasPreviousPage: boolean;
+        };
+    };
+};
+
+export type AgingReportType = 'receivable' | 'payable';
+
+export type AgingReportMode = 'summary' | 'detail';
+
+export type AgingReportFormat = 'csv' | 'xlsx';
+
+export type AgingBucket =
+    | 'current'
+    | 'days1To30'
+    | 'days31To60'
+    | 'days61To90'
+    | 'over90';
+
+export type AgingBucketAmounts = Record<AgingBucket, number> & {
+    total: number;
+};
+
+export type AgingReportItem = {
+    journalEntryId: string;
+    journalEntryLineId: string;
+    entryNumber: string | null;
+    entryDate: string;
+    dueDate: string;
+    documentNumber: string | null;
+    description: string | null;
+    originalAmount: number;
+    openAmount: number;
+    daysPastDue: number;
+    bucket: AgingBucket;
+};
+
+export type AgingReportContactRow = {
+    contactId: string | null;
+    displayName: string;
+    buckets: AgingBucketAmounts;
+    items?: AgingReportItem[];
+};
+
+export type AgingReport = {
+    reportType: AgingReportType;
+    mode: AgingReportMode;
+    asOf: string;
+    account: {
+        accountId: string;
+        accountNumber: string | null;
+        accountName: string;
+    };
+    contacts: AgingReportContactRow[];
+    totals: AgingBucketAmounts;
+};
+
+export type AgingReportFilters = {
+    asOf?: string;
+    mode?: AgingReportMode;
+    contactId?: string;
+};
+
+export type AgingReportResponse = {
+    success: boolean;
+    statusCode: number;
+    message: string;
+    data: AgingReport;
+};
+
+export type BudgetVsActualAmount = {
+    budget: number;
+    actual: number;
+    variance: number;
+    variancePercent: number | null;
+};
+
+export type BudgetVsActualAccountRow = {
+    accountId: string;
+    accountNumber: string | null;
+    accountName: string;
+    accountType: ReportAccountType;
+    months: BudgetVsActualAmount[];
+    total: BudgetVsActualAmount;
+};
+
+export type BudgetVsActualSection = {
+    accountType: ReportAccountType;
+    accounts: BudgetVsActualAccountRow[];
+    months: BudgetVsActualAmount[];
+    total: BudgetVsActualAmount;
+};
+
+export type BudgetVsActualSummary = {
+    netIncome: BudgetVsActualAmount;
+    budgetProfitMargin: number | null;
+    actualProfitMargin: number | null;
+};
+
+export type BudgetVsActual = {
+    budget: {
+        id: string;
+        name: string;
+        fiscalYearId: string;
+        fiscalYearName: string;
+    };
+    period: ReportPeriod;
+    months: BudgetMonth[];
+    sections: BudgetVsActualSection[];
+    summary: {
+        months: BudgetVsActualSummary[];
+        total: BudgetVsActualSummary;
+    };
+};
+
+export type BudgetVsActualResponse = {
+    success: boolean;
+    statusCode: number;
+    message: string;
+    data: BudgetVsActual;
+};
@@ -0,0 +1,25 @@
+import type { Budget } from '../types/budget';
+
+/**
+ * Pick the budget to show by default: the first budget of the fiscal year
+ * containing the date, or else of the latest fiscal year
+ */
+export const getCurrentBudget = (
+    budgets: Budget[],
+    date = new Date().toISOString().split('T')[0]
+): Budget | undefined => {
+    const current = budgets.find(
+        (budget) =>
+            budget.fiscalYear &&
+            budget.fiscalYear.startDate <= date &&
+            budget.fiscalYear.endDate >= date
+    );
+    if (current) {
+        return current;
+    }
+    return [...budgets].sort((a, b) =>
+        (b.fiscalYear?.startDate ?? '').localeCompare(
+            a.fiscalYear?.startDate ?? ''
+        )
+    )[0];
+};
@@ -0,0 +1,41 @@
+import * as XLSX from 'xlsx';
+
+/**
+ * File types accepted by the spreadsheet imports
+ */
+export const IMPORT_ACCEPT = '.csv,.xlsx,.xls';
+
+/**
+ * Read the header row of the first sheet of a CSV or Excel file
+ */
+export const readFileHeaders = async (file: File): Promise<string[]> => {
+    const workbook = XLSX.read(await file.arrayBuffer(), { sheetRows: 1 });
+    const sheet = workbook.Sheets[workbook.SheetNames[0]];
+    if (!sheet) {
+        return [];
+    }
+    const [headers = []] = XLSX.utils.sheet_to_json<unknown[]>(sheet, {
+        header: 1,
+        defval: '',
+    });
+    return headers.map((header) => String(header).trim()).filter(Boolean);
+};
+
+/**
+ * Map each import field to the file header with the same name as its label
+ */
+export const getDefaultImportMapping = (
+    fields: { key: string; label: string }[],
+    headers: string[]
+): Record<string, string> => {
+    const mapping: Record<string, string> = {};
+    fields.forEach((field) => {
+        const header = headers.find(
+            (name) => name.toLowerCase() === field.label.toLowerCase()
+        );
+        if (header) {
+            mapping[field.key] = header;
+        }
+    });
+    return mapping;
+};
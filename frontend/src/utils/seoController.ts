@@ -88,6 +88,12 @@ export const seoController: Record<string, SEOData> = {
         keywords:
             'transactions, financial records, transaction management, accounting transactions',
     },
+    '/bank-reconciliation': {
+        title: `Bank Reconciliation - ${APP_TITLE}`,
+        description: `Tick the transactions on each bank statement and keep your bank accounts reconciled with ${APP_TITLE}.`,
+        keywords:
+            'bank reconciliation, bank statement, cleared transactions, reconcile',
+    },
 
     // Reports
     '/reports': {
@@ -108,6 +114,24 @@ export const seoController: Record<string, SEOData> = {
         keywords:
             'balance sheet, assets, liabilities, equity, financial position',
     },
+    '/reports/aged-receivables': {
+        title: `Accounts Receivable Aging - ${APP_TITLE}`,
+        description: `Review open customer balances by days past due and export them for collections follow-up.`,
+        keywords:
+            'accounts receivable aging, aged receivables, collections, overdue invoices',
+    },
+    '/reports/aged-payables': {
+        title: `Accounts Payable Aging - ${APP_TITLE}`,
+        description: `Review open vendor balances by days past due and export them for payment planning.`,
+        keywords:
+            'accounts payable aging, aged payables, overdue bills, vendors',
+    },
+    '/reports/budget-vs-actual': {
+        title: `Budget vs Actual - ${APP_TITLE}`,
+        description: `Compare budgeted revenue and expenses with posted amounts, with variances and profit margins by month.`,
+        keywords:
+            'budget vs actual, variance analysis, budget report, profit margin',
+    },
 
     // Chart of Accounts
     '/chart-of-accounts': {
@@ -117,6 +141,20 @@ export const seoController: Record<string, SEOData> = {
             'chart of accounts, accounts management, accounting structure, financial accounts',
     },
 
+    // Budgets
+    '/budgets': {
+        title: `Budgets - ${APP_TITLE}`,
+        description: `Plan revenue and expenses per account and month, copy last year's actuals, and import budgets from Excel.`,
+        keywords: 'budgets, budgeting, financial planning, forecast',
+    },
+
+    // Contacts
+    '/contacts': {
+        title: `Contacts - ${APP_TITLE}`,
+        description: `Manage your customers and vendors and review what each contact owes or is owed.`,
+        keywords: 'contacts, customers, vendors, customer ledger, vendor balance',
+    },
+
     // Settings
     '/settings': {
         title: `Settings - ${APP_TITLE}`,